@@ -1,6 +1,5 @@
 // server.js
 const express = require('express');
-const fs = require('fs').promises;
 const { GoogleAuth, OAuth2Client } = require('google-auth-library');
 const { google } = require('googleapis');
 const { CatalogServiceClient, DataScanServiceClient, protos, DataplexServiceClient } = require('@google-cloud/dataplex');
@@ -11,6 +10,11 @@ const path = require('path');
 const cors = require('cors');
 const { querySampleFromBigQuery } = require('./utility');
 const { sendAccessRequestEmail, sendFeedbackEmail } = require('./services/emailService');
+const savedSearchService = require('./services/savedSearchService');
+const favoriteService = require('./services/favoriteService');
+const watchlistService = require('./services/watchlistService');
+const lineageTraversalService = require('./services/lineageTraversalService');
+const adminConfigService = require('./services/adminConfigService');
 const { BigQuery } = require('@google-cloud/bigquery');
 const rateLimit = require('express-rate-limit');
 const { default: axios } = require('axios');
@@ -139,9 +143,6 @@ app.use(express.static(staticFilesPath, {
     }
 }));
 
-// --- File Path for Local Data ---
-const dataFilePath = path.join(__dirname, 'configData.json');
-
 function checkErrorAndSendResponse(res, error, customMessage) {
     console.error(customMessage, error);
     if (error?.code === 403 || ((error.message).toLowerCase().includes('permission_denied')) || (error.errors && error.errors[0] && error.errors[0].reason === 'FORBIDDEN')) {
@@ -839,6 +840,73 @@ app.post('/api/v1/lineage-upstream', async (req, res) => {
   }
 });
 
+/**
+ * POST /api/v1/lineage-traverse
+ * Walks the lineage of a resource several hops at once (breadth-first).
+ *
+ * Request Body:
+ * {
+ * "parent": "projects/p/locations/l",
+ * "fqn": "The fully qualified name of the starting resource",
+ * "direction": "upstream" | "downstream" | "both" (default "both"),
+ * "depth": hops to walk, 1-10 (default 3),
+ * "maxNodes": assets to return at most, root included, 1-500 (default 200),
+ * "includeSchemas": true to also return the column names of every asset
+ * }
+ *
+ * Responds with { root, nodes, links, truncated, cancelled }, plus
+ * `schemas` ({ [fqn]: column names, or null without a schema }) when asked;
+ * see services/lineageTraversalService.js. The walk stops when the client
+ * disconnects.
+ */
+app.post('/api/v1/lineage-traverse', async (req, res) => {
+  try {
+    const request = lineageTraversalService.parseTraversalRequest(req.body);
+    const accessToken = req.headers.authorization?.split(' ')[1];
+
+    const oauth2Client = new CustomGoogleAuth(accessToken);
+
+    const dataplexLineageClientv1 = new LineageClient({
+        auth: oauth2Client,
+    });
+
+    let cancelled = false;
+    res.on('close', () => {
+      if (!res.writableEnded) cancelled = true;
+    });
+
+    console.log(`Traversing lineage of ${request.fqn}: ${request.direction}, ${request.depth} hops`);
+    const result = await lineageTraversalService.traverseLineage(dataplexLineageClientv1, request, () => cancelled);
+    if (cancelled) return;
+
+    if (request.includeSchemas) {
+      const dataplexClientv1 = new CatalogServiceClient({
+          auth: oauth2Client,
+      });
+      const lookupEntry = async (fqn) => {
+        const [searchResponse] = await dataplexClientv1.searchEntries({
+          name: request.parent,
+          query: `fully_qualified_name=${fqn}`,
+          pageSize: 1,
+        });
+        if (searchResponse.length === 0) return null;
+        const [entry] = await dataplexClientv1.getEntry({ name: searchResponse[0].dataplexEntry.name, view: protos.google.cloud.dataplex.v1.EntryView.ALL });
+        return entry;
+      };
+      result.schemas = await lineageTraversalService.loadSchemas(lookupEntry, result.nodes.map((node) => node.fqn), () => cancelled);
+      if (cancelled) return;
+    }
+
+    res.json(result);
+
+  } catch (error) {
+    if (error instanceof lineageTraversalService.LineageTraversalError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    return checkErrorAndSendResponse(res, error, 'An error occurred while traversing data lineage.');
+  }
+});
+
 app.post('/api/v1/lineage-processes', async (req, res) => {
   const { parent } = req.body;
 
@@ -1320,24 +1388,24 @@ app.get('/api/v1/app-configs', async (req, res) => {
           dataplexClientv1.searchEntries(request, { autoPaginate: false}),
           resourceManagerClientv1.searchProjects({pageSize:2000}, { autoPaginate: false}),
           resourceManagerClientv1.getProject({ name: `projects/${projectId}` }),
-          fs.readFile(dataFilePath, 'utf8') || {}
+          adminConfigService.readAdminConfig()
       ]);
       aspects = aspectsList[0] || [];
       let p = projectList[0] ? projectList[0].filter(pr => pr.projectId !== projectId) : [];
       projects = [ currentProject[0], ...p];
-      configData = defaultConfigData ? JSON.parse(defaultConfigData) : {};
+      configData = defaultConfigData || {};
     } catch(err){
       console.error('Error listing projects for app config:', err);
     }
+    const { isAdmin } = await getRequestAdminStatus(req);
 
     const reduceAspect = ({ name, fullyQualifiedName, entrySource, entryType }) => ({ name, fullyQualifiedName, entrySource, entryType });
 
     const configs = {
         aspects: aspects.map(({ dataplexEntry }) => ({ dataplexEntry:reduceAspect(dataplexEntry) })),
         projects: projects.map(({ projectId, name, displayName }) => ({ projectId, name, displayName })),
-        defaultSearchProduct: configData.products || 'All',
-        defaultSearchAssets: configData.assets || '',
-        browseByAspectTypes: configData.aspectType || []
+        ...adminConfigService.toAppConfigDefaults(configData),
+        isAdmin
     };
 
     res.json(configs);
@@ -1349,6 +1417,351 @@ app.get('/api/v1/app-configs', async (req, res) => {
 });
 
 
+/**
+ * Resolves the signed-in user's email from the bearer access token, so per-user
+ * data is keyed by who is calling rather than by what the client claims.
+ * Returns null when the token is missing or invalid.
+ */
+const getRequestUserEmail = async (req) => {
+  const accessToken = req.headers.authorization?.split(' ')[1];
+  if (!accessToken) return null;
+  try {
+    const tokenInfo = await new OAuth2Client().getTokenInfo(accessToken);
+    return tokenInfo.email || null;
+  } catch (error) {
+    console.error('Error reading token info:', error.message);
+    return null;
+  }
+};
+
+function sendSavedSearchError(res, error, customMessage) {
+  if (error instanceof savedSearchService.SavedSearchError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  return checkErrorAndSendResponse(res, error, customMessage);
+}
+
+/**
+ * Saved searches
+ * GET    /api/v1/saved-searches            -> list the caller's saved searches
+ * POST   /api/v1/saved-searches            -> { name, term, searchType, filters, semanticSearch, resultCount? }
+ * PUT    /api/v1/saved-searches/:id        -> same body as POST, replaces the search
+ * POST   /api/v1/saved-searches/:id/runs   -> { resultCount } recorded after a re-run
+ * DELETE /api/v1/saved-searches/:id
+ * POST   /api/v1/saved-searches/import     -> { savedSearches: [...] } from an export
+ */
+app.get('/api/v1/saved-searches', async (req, res) => {
+  try {
+    const owner = await getRequestUserEmail(req);
+    if (!owner) return res.status(401).json({ success: false, error: 'Unauthorized: a valid access token is required.' });
+    res.json(await savedSearchService.listSavedSearches(owner));
+  } catch (error) {
+    return sendSavedSearchError(res, error, 'Error listing saved searches:');
+  }
+});
+
+app.post('/api/v1/saved-searches/import', async (req, res) => {
+  try {
+    const owner = await getRequestUserEmail(req);
+    if (!owner) return res.status(401).json({ success: false, error: 'Unauthorized: a valid access token is required.' });
+    res.json(await savedSearchService.importSavedSearches(owner, req.body?.savedSearches));
+  } catch (error) {
+    return sendSavedSearchError(res, error, 'Error importing saved searches:');
+  }
+});
+
+app.post('/api/v1/saved-searches', async (req, res) => {
+  try {
+    const owner = await getRequestUserEmail(req);
+    if (!owner) return res.status(401).json({ success: false, error: 'Unauthorized: a valid access token is required.' });
+    res.status(201).json(await savedSearchService.createSavedSearch(owner, req.body));
+  } catch (error) {
+    return sendSavedSearchError(res, error, 'Error saving search:');
+  }
+});
+
+app.put('/api/v1/saved-searches/:id', async (req, res) => {
+  try {
+    const owner = await getRequestUserEmail(req);
+    if (!owner) return res.status(401).json({ success: false, error: 'Unauthorized: a valid access token is required.' });
+    res.json(await savedSearchService.updateSavedSearch(owner, req.params.id, req.body));
+  } catch (error) {
+    return sendSavedSearchError(res, error, 'Error updating saved search:');
+  }
+});
+
+app.post('/api/v1/saved-searches/:id/runs', async (req, res) => {
+  try {
+    const owner = await getRequestUserEmail(req);
+    if (!owner) return res.status(401).json({ success: false, error: 'Unauthorized: a valid access token is required.' });
+    res.json(await savedSearchService.recordSavedSearchRun(owner, req.params.id, req.body?.resultCount));
+  } catch (error) {
+    return sendSavedSearchError(res, error, 'Error recording saved search run:');
+  }
+});
+
+app.delete('/api/v1/saved-searches/:id', async (req, res) => {
+  try {
+    const owner = await getRequestUserEmail(req);
+    if (!owner) return res.status(401).json({ success: false, error: 'Unauthorized: a valid access token is required.' });
+    res.json(await savedSearchService.deleteSavedSearch(owner, req.params.id));
+  } catch (error) {
+    return sendSavedSearchError(res, error, 'Error deleting saved search:');
+  }
+});
+
+function sendFavoriteError(res, error, customMessage) {
+  if (error instanceof favoriteService.FavoriteError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  return checkErrorAndSendResponse(res, error, customMessage);
+}
+
+// Favorites looked up in parallel per batch by POST /favorites/refresh.
+const FAVORITE_CHECK_BATCH_SIZE = 10;
+
+/**
+ * Favorites
+ * GET    /api/v1/favorites                    -> list the caller's favorites
+ * POST   /api/v1/favorites                    -> { entry } adds (or refreshes) a favorite
+ * DELETE /api/v1/favorites?entryName=...
+ * POST   /api/v1/favorites/import             -> { entryNames: [...] } from the old browser storage
+ * POST   /api/v1/favorites/refresh            -> looks every favorite up and stores its status
+ *                                                 (available / deleted / noAccess / unknown)
+ */
+app.get('/api/v1/favorites', async (req, res) => {
+  try {
+    const owner = await getRequestUserEmail(req);
+    if (!owner) return res.status(401).json({ success: false, error: 'Unauthorized: a valid access token is required.' });
+    res.json(await favoriteService.listFavorites(owner));
+  } catch (error) {
+    return sendFavoriteError(res, error, 'Error listing favorites:');
+  }
+});
+
+app.post('/api/v1/favorites/import', async (req, res) => {
+  try {
+    const owner = await getRequestUserEmail(req);
+    if (!owner) return res.status(401).json({ success: false, error: 'Unauthorized: a valid access token is required.' });
+    res.json(await favoriteService.importFavorites(owner, req.body?.entryNames));
+  } catch (error) {
+    return sendFavoriteError(res, error, 'Error importing favorites:');
+  }
+});
+
+app.post('/api/v1/favorites/refresh', async (req, res) => {
+  try {
+    const owner = await getRequestUserEmail(req);
+    if (!owner) return res.status(401).json({ success: false, error: 'Unauthorized: a valid access token is required.' });
+
+    const accessToken = req.headers.authorization?.split(' ')[1];
+    const dataplexClientv1 = new CatalogServiceClient({
+      auth: new CustomGoogleAuth(accessToken),
+    });
+
+    const favorites = await favoriteService.listFavorites(owner);
+    const checks = [];
+    for (let i = 0; i < favorites.length; i += FAVORITE_CHECK_BATCH_SIZE) {
+      const batch = favorites.slice(i, i + FAVORITE_CHECK_BATCH_SIZE);
+      checks.push(...await Promise.all(batch.map(async ({ entryName }) => {
+        try {
+          const [entry] = await dataplexClientv1.getEntry({
+            name: entryName,
+            view: protos.google.cloud.dataplex.v1.EntryView.BASIC,
+          });
+          return { entryName, status: 'available', entry };
+        } catch (error) {
+          return { entryName, status: favoriteService.getStatusFromError(error) };
+        }
+      })));
+    }
+
+    res.json(await favoriteService.applyFavoriteChecks(owner, checks));
+  } catch (error) {
+    return sendFavoriteError(res, error, 'Error refreshing favorites:');
+  }
+});
+
+app.post('/api/v1/favorites', async (req, res) => {
+  try {
+    const owner = await getRequestUserEmail(req);
+    if (!owner) return res.status(401).json({ success: false, error: 'Unauthorized: a valid access token is required.' });
+    res.status(201).json(await favoriteService.addFavorite(owner, req.body?.entry));
+  } catch (error) {
+    return sendFavoriteError(res, error, 'Error adding favorite:');
+  }
+});
+
+app.delete('/api/v1/favorites', async (req, res) => {
+  try {
+    const owner = await getRequestUserEmail(req);
+    if (!owner) return res.status(401).json({ success: false, error: 'Unauthorized: a valid access token is required.' });
+    if (!req.query.entryName) return res.status(400).json({ success: false, error: 'Entry name is required' });
+    res.json(await favoriteService.removeFavorite(owner, req.query.entryName));
+  } catch (error) {
+    return sendFavoriteError(res, error, 'Error removing favorite:');
+  }
+});
+
+function sendWatchlistError(res, error, customMessage) {
+  if (error instanceof watchlistService.WatchlistError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  return checkErrorAndSendResponse(res, error, customMessage);
+}
+
+/**
+ * Watchlist (change notifications for favorites)
+ * GET    /api/v1/watchlist                    -> { snapshots, inbox } of the caller
+ * POST   /api/v1/watchlist/check              -> { snapshots, items } replaces the snapshots and
+ *                                                 adds the items to the inbox; returns the added items
+ * POST   /api/v1/watchlist/inbox/read         -> { ids? } marks inbox items (default: all) as read
+ * DELETE /api/v1/watchlist/inbox              -> empties the inbox
+ */
+app.get('/api/v1/watchlist', async (req, res) => {
+  try {
+    const owner = await getRequestUserEmail(req);
+    if (!owner) return res.status(401).json({ success: false, error: 'Unauthorized: a valid access token is required.' });
+    res.json(await watchlistService.listWatchlist(owner));
+  } catch (error) {
+    return sendWatchlistError(res, error, 'Error loading watchlist:');
+  }
+});
+
+app.post('/api/v1/watchlist/check', async (req, res) => {
+  try {
+    const owner = await getRequestUserEmail(req);
+    if (!owner) return res.status(401).json({ success: false, error: 'Unauthorized: a valid access token is required.' });
+    res.json(await watchlistService.recordWatchlistCheck(owner, req.body));
+  } catch (error) {
+    return sendWatchlistError(res, error, 'Error saving watchlist check:');
+  }
+});
+
+app.post('/api/v1/watchlist/inbox/read', async (req, res) => {
+  try {
+    const owner = await getRequestUserEmail(req);
+    if (!owner) return res.status(401).json({ success: false, error: 'Unauthorized: a valid access token is required.' });
+    res.json(await watchlistService.markInboxRead(owner, req.body?.ids));
+  } catch (error) {
+    return sendWatchlistError(res, error, 'Error updating watchlist inbox:');
+  }
+});
+
+app.delete('/api/v1/watchlist/inbox', async (req, res) => {
+  try {
+    const owner = await getRequestUserEmail(req);
+    if (!owner) return res.status(401).json({ success: false, error: 'Unauthorized: a valid access token is required.' });
+    res.json(await watchlistService.clearInbox(owner));
+  } catch (error) {
+    return sendWatchlistError(res, error, 'Error clearing watchlist inbox:');
+  }
+});
+
+
+/**
+ * Whether the caller is an admin: listed in ADMIN_EMAILS (see
+ * adminConfigService) or, when ADMIN_IAM_PERMISSION is set, holding that
+ * permission on the project.
+ */
+const getRequestAdminStatus = async (req) => {
+  const email = await getRequestUserEmail(req);
+  if (!email) return { email: null, isAdmin: false };
+  if (adminConfigService.isAllowlistedAdmin(email)) return { email, isAdmin: true };
+
+  const permission = process.env.ADMIN_IAM_PERMISSION;
+  const projectId = process.env.GOOGLE_CLOUD_PROJECT_ID;
+  if (!permission || !projectId) return { email, isAdmin: false };
+  try {
+    const cloudResourceManager = google.cloudresourcemanager({
+      version: 'v1',
+      auth: new CustomGoogleAuth(req.headers.authorization?.split(' ')[1]),
+    });
+    const response = await cloudResourceManager.projects.testIamPermissions({
+      resource: projectId,
+      requestBody: { permissions: [permission] },
+    });
+    return { email, isAdmin: (response.data.permissions || []).includes(permission) };
+  } catch (error) {
+    console.error('Error checking admin permission:', error.message);
+    return { email, isAdmin: false };
+  }
+};
+
+const requireAdmin = async (req, res, next) => {
+  const { email, isAdmin } = await getRequestAdminStatus(req);
+  if (!email) return res.status(401).json({ success: false, error: 'Unauthorized: a valid access token is required.' });
+  if (!isAdmin) return res.status(403).json({ success: false, error: 'Forbidden: only admins can change the configuration.' });
+  req.adminEmail = email;
+  next();
+};
+
+function sendAdminConfigError(res, error, customMessage) {
+  if (error instanceof adminConfigService.AdminConfigError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  return checkErrorAndSendResponse(res, error, customMessage);
+}
+
+const sendSavedAdminConfig = (res, saved) => res.json({
+  success: true,
+  version: saved.version,
+  updatedAt: saved.updatedAt,
+  updatedBy: saved.updatedBy,
+  config: adminConfigService.toAppConfigDefaults(saved),
+});
+
+/**
+ * Admin configuration (admins only)
+ * POST /api/v1/admin/configure                              -> saves the defaults as a new version
+ * GET  /api/v1/admin/config/revisions                       -> { currentVersion, revisions } newest first
+ * POST /api/v1/admin/config/revisions/:version/restore      -> { comment?, expectedVersion? } saves that
+ *                                                              version's config as a new version
+ *
+ * POST /api/v1/admin/configure
+ * Saves the app-wide defaults as a new version of configData.json and keeps it
+ * as a revision in adminConfigRevisions.json.
+ *
+ * Request Body:
+ * {
+ * "aspectName": { "<aspect type>": ["<aspect name>", ...] },
+ * "aspectType": ["<aspect type>", ...],
+ * "assets": { "<product>": ["<asset>", ...] },
+ * "products": ["<product>", ...],
+ * "comment": "Why it changed", // optional
+ * "expectedVersion": 3 // optional, rejects the save with 409 if the config moved on
+ * }
+ */
+app.post('/api/v1/admin/configure', requireAdmin, async (req, res) => {
+  try {
+    const { expectedVersion, ...config } = req.body || {};
+    sendSavedAdminConfig(res, await adminConfigService.saveAdminConfig(config, { updatedBy: req.adminEmail, expectedVersion }));
+  } catch (error) {
+    return sendAdminConfigError(res, error, 'An error occurred while saving the admin configuration.');
+  }
+});
+
+app.get('/api/v1/admin/config/revisions', requireAdmin, async (req, res) => {
+  try {
+    res.json(await adminConfigService.listAdminConfigRevisions());
+  } catch (error) {
+    return sendAdminConfigError(res, error, 'An error occurred while listing the admin configuration revisions.');
+  }
+});
+
+app.post('/api/v1/admin/config/revisions/:version/restore', requireAdmin, async (req, res) => {
+  try {
+    const version = Number(req.params.version);
+    if (!Number.isInteger(version) || version < 0) {
+      return res.status(400).json({ success: false, error: 'version must be a non-negative integer' });
+    }
+    const { comment, expectedVersion } = req.body || {};
+    sendSavedAdminConfig(res, await adminConfigService.restoreAdminConfigRevision(version, { updatedBy: req.adminEmail, expectedVersion, comment }));
+  } catch (error) {
+    return sendAdminConfigError(res, error, 'An error occurred while restoring the admin configuration.');
+  }
+});
+
 app.post('/api/v1/send-feedback', async (req, res) => {
   
   try {
@@ -0,0 +1,252 @@
+// services/adminConfigService.js
+//
+// App-wide defaults set from the Admin Panel (default search products/assets
+// and the aspect types shown on the Browse page), stored in configData.json.
+// Every save is a new `version`, kept as a revision (who, when, why and the
+// full config) in adminConfigRevisions.json, so any version can be compared
+// with another or restored.
+//
+// configData.json carries a `schemaVersion`. Files written before it existed
+// (schema 1: { products, assets, aspectType, aspectName }) are migrated when
+// read and saved in the current schema on the next save.
+//
+// Admins are the emails listed in ADMIN_EMAILS (comma separated, falling back
+// to VITE_ADMIN_EMAIL) plus, when ADMIN_IAM_PERMISSION is set, anyone holding
+// that IAM permission on the project (checked in server.js).
+
+const fs = require('fs').promises;
+const path = require('path');
+
+const CONFIG_FILE = path.join(__dirname, '..', 'configData.json');
+const REVISIONS_FILE = path.join(__dirname, '..', 'adminConfigRevisions.json');
+const CONFIG_SCHEMA_VERSION = 2;
+const MAX_REVISIONS = 500;
+const MAX_ITEMS = 200;
+const MAX_COMMENT_LENGTH = 500;
+
+class AdminConfigError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.name = 'AdminConfigError';
+    this.status = status;
+  }
+}
+
+let queue = Promise.resolve();
+
+// Runs `task` after every earlier save has finished.
+const enqueue = (task) => {
+  const run = queue.then(task);
+  queue = run.catch(() => {});
+  return run;
+};
+
+const readJson = async (filePath, fallback) => {
+  try {
+    const raw = await fs.readFile(filePath, 'utf8');
+    return raw.trim() ? JSON.parse(raw) : fallback;
+  } catch (error) {
+    if (error.code === 'ENOENT') return fallback;
+    throw error;
+  }
+};
+
+const getAdminEmails = () =>
+  (process.env.ADMIN_EMAILS || process.env.VITE_ADMIN_EMAIL || '')
+    .split(',')
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+
+const isAllowlistedAdmin = (email) =>
+  !!email && getAdminEmails().includes(email.toLowerCase());
+
+const isPlainObject = (value) => !!value && typeof value === 'object' && !Array.isArray(value);
+
+// The fields an admin edits; everything else in the file is metadata.
+const pickConfig = (config) => ({
+  products: Array.isArray(config.products) ? config.products : [],
+  assets: isPlainObject(config.assets) ? config.assets : {},
+  aspectTypes: Array.isArray(config.aspectTypes) ? config.aspectTypes : [],
+  aspectNames: isPlainObject(config.aspectNames) ? config.aspectNames : {},
+});
+
+/**
+ * Brings a stored config up to CONFIG_SCHEMA_VERSION. Schema 1 kept the browse
+ * aspect type labels in `aspectType` and their aspect names in `aspectName`;
+ * the file shipped with the app had the names map in `aspectType` instead.
+ */
+const migrateAdminConfig = (raw) => {
+  const stored = isPlainObject(raw) ? raw : {};
+  const schemaVersion = Number.isInteger(stored.schemaVersion) ? stored.schemaVersion : 1;
+  let config = stored;
+  if (schemaVersion < 2) {
+    const aspectNames = isPlainObject(stored.aspectName) ? stored.aspectName
+      : isPlainObject(stored.aspectType) ? stored.aspectType : {};
+    config = {
+      products: stored.products,
+      assets: stored.assets,
+      aspectTypes: Array.isArray(stored.aspectType) ? stored.aspectType : Object.keys(aspectNames),
+      aspectNames,
+    };
+  }
+  return {
+    schemaVersion: CONFIG_SCHEMA_VERSION,
+    version: Number.isInteger(stored.version) ? stored.version : 0,
+    updatedAt: stored.updatedAt || null,
+    updatedBy: stored.updatedBy || null,
+    comment: stored.comment || '',
+    ...pickConfig(config),
+  };
+};
+
+const isStringList = (value) =>
+  Array.isArray(value)
+  && value.length <= MAX_ITEMS
+  && value.every((item) => typeof item === 'string' && item.trim() !== '' && item.length <= 500);
+
+// { key: [string, ...] } maps, e.g. product -> assets or aspect type -> aspect names
+const sanitizeListMap = (value, label) => {
+  if (value === undefined) return {};
+  if (!isPlainObject(value) || Object.keys(value).length > MAX_ITEMS) {
+    throw new AdminConfigError(`${label} must be an object of string arrays`);
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, list]) => {
+    if (key.trim() === '' || !isStringList(list)) {
+      throw new AdminConfigError(`${label} must be an object of string arrays`);
+    }
+    return [key, list];
+  }));
+};
+
+const sanitizeStringList = (value, label) => {
+  if (value === undefined) return [];
+  if (!isStringList(value)) {
+    throw new AdminConfigError(`${label} must be an array of at most ${MAX_ITEMS} strings`);
+  }
+  return value;
+};
+
+const sanitizeComment = (value) => {
+  if (value === undefined || value === null) return '';
+  if (typeof value !== 'string' || value.length > MAX_COMMENT_LENGTH) {
+    throw new AdminConfigError(`Comment must be a string of at most ${MAX_COMMENT_LENGTH} characters`);
+  }
+  return value.trim();
+};
+
+// Validates the body the Admin Panel posts.
+const sanitizeAdminConfig = (input) => {
+  if (!isPlainObject(input)) {
+    throw new AdminConfigError('Configuration body is required');
+  }
+  return {
+    products: sanitizeStringList(input.products, 'products'),
+    assets: sanitizeListMap(input.assets, 'assets'),
+    aspectTypes: sanitizeStringList(input.aspectType, 'aspectType'),
+    aspectNames: sanitizeListMap(input.aspectName, 'aspectName'),
+  };
+};
+
+const readAdminConfig = async () => migrateAdminConfig(await readJson(CONFIG_FILE, {}));
+
+const toRevision = (config, restoredFrom = null) => ({
+  version: config.version,
+  updatedAt: config.updatedAt,
+  updatedBy: config.updatedBy,
+  comment: config.comment,
+  restoredFrom,
+  config: pickConfig(config),
+});
+
+// Revisions store their config like the file does, so they migrate the same way.
+const readRevisions = async () =>
+  (await readJson(REVISIONS_FILE, [])).map((revision) => ({
+    ...revision,
+    restoredFrom: revision.restoredFrom ?? null,
+    config: pickConfig(migrateAdminConfig({ ...revision.config, schemaVersion: revision.schemaVersion })),
+  }));
+
+/** The defaults in the shape of /app-configs. */
+const toAppConfigDefaults = (config) => ({
+  defaultSearchProduct: config.products,
+  defaultSearchAssets: config.assets,
+  browseByAspectTypes: config.aspectNames,
+  browseByAspectTypesLabels: config.aspectTypes,
+  configVersion: config.version,
+});
+
+/**
+ * Saves `config` as the next version and records it as a revision. With
+ * `expectedVersion`, fails with 409 if someone else saved since.
+ */
+const commitAdminConfig = (config, { updatedBy, comment, expectedVersion, restoredFrom = null }) =>
+  enqueue(async () => {
+    const previous = await readAdminConfig();
+    if (expectedVersion !== undefined && expectedVersion !== null && expectedVersion !== previous.version) {
+      throw new AdminConfigError(
+        `The configuration was changed by someone else (version ${previous.version}). Reload and try again.`,
+        409
+      );
+    }
+    const saved = {
+      schemaVersion: CONFIG_SCHEMA_VERSION,
+      version: previous.version + 1,
+      updatedAt: new Date().toISOString(),
+      updatedBy,
+      comment,
+      ...config,
+    };
+    const revisions = await readRevisions();
+    // Keep what the config was before the first recorded save
+    if (revisions.length === 0) revisions.push(toRevision(previous));
+    revisions.push(toRevision(saved, restoredFrom));
+
+    await fs.writeFile(CONFIG_FILE, JSON.stringify(saved, null, 2), 'utf8');
+    await fs.writeFile(
+      REVISIONS_FILE,
+      JSON.stringify(revisions.slice(-MAX_REVISIONS).map((revision) => ({ schemaVersion: CONFIG_SCHEMA_VERSION, ...revision })), null, 2),
+      'utf8'
+    );
+    return saved;
+  });
+
+const saveAdminConfig = async (input, { updatedBy, expectedVersion } = {}) =>
+  commitAdminConfig(sanitizeAdminConfig(input), {
+    updatedBy,
+    expectedVersion,
+    comment: sanitizeComment(input.comment),
+  });
+
+/** Every revision, newest first, and the current version. */
+const listAdminConfigRevisions = async () => {
+  const [current, revisions] = await Promise.all([readAdminConfig(), readRevisions()]);
+  return {
+    currentVersion: current.version,
+    revisions: (revisions.length > 0 ? revisions : [toRevision(current)]).reverse(),
+  };
+};
+
+/** Saves the config of an earlier revision as the next version. */
+const restoreAdminConfigRevision = async (version, { updatedBy, expectedVersion, comment } = {}) => {
+  const { revisions } = await listAdminConfigRevisions();
+  const revision = revisions.find((item) => item.version === version);
+  if (!revision) throw new AdminConfigError(`Version ${version} of the configuration was not found`, 404);
+  return commitAdminConfig(revision.config, {
+    updatedBy,
+    expectedVersion,
+    restoredFrom: version,
+    comment: sanitizeComment(comment) || `Rolled back to version ${version}`,
+  });
+};
+
+module.exports = {
+  AdminConfigError,
+  CONFIG_SCHEMA_VERSION,
+  isAllowlistedAdmin,
+  migrateAdminConfig,
+  readAdminConfig,
+  toAppConfigDefaults,
+  saveAdminConfig,
+  listAdminConfigRevisions,
+  restoreAdminConfigRevision,
+};
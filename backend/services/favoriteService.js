@@ -0,0 +1,155 @@
+// services/favoriteService.js
+//
+// Entries a user has starred, kept per user so they follow the user across
+// browsers. Each favorite keeps a small snapshot of the entry (display name,
+// system, entry type, ...) so "My favorites" can still show an entry after it
+// was deleted from the catalog or the user lost access to it. The snapshot and
+// the entry's status are refreshed by `applyFavoriteChecks`.
+
+const { createUserDataStore } = require('./userDataStore');
+
+const MAX_FAVORITES = 500;
+const FAVORITE_STATUSES = ['available', 'deleted', 'noAccess', 'unknown'];
+
+const store = createUserDataStore('favorites.json');
+
+class FavoriteError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.name = 'FavoriteError';
+    this.status = status;
+  }
+}
+
+const isEntryName = (value) =>
+  typeof value === 'string' && value.trim() !== '' && value.length <= 1000;
+
+const optionalString = (value) => (typeof value === 'string' ? value : '');
+
+// Entries from the search API carry `{ seconds, nanos }`, the REST API ISO strings.
+const toIsoTime = (value) => {
+  if (typeof value === 'string') return value;
+  if (value && value.seconds !== undefined) {
+    return new Date(Number(value.seconds) * 1000).toISOString();
+  }
+  return null;
+};
+
+// Keeps the fields SearchEntriesCard renders, in the same entry shape.
+const toEntrySnapshot = (entry) => {
+  const source = entry.entrySource || {};
+  return {
+    name: entry.name,
+    entryType: optionalString(entry.entryType),
+    fullyQualifiedName: optionalString(entry.fullyQualifiedName),
+    updateTime: toIsoTime(entry.updateTime),
+    entrySource: {
+      displayName: optionalString(source.displayName),
+      system: optionalString(source.system),
+      description: optionalString(source.description),
+      location: optionalString(source.location),
+      resource: optionalString(source.resource),
+    },
+  };
+};
+
+/** Maps a getEntry failure to the favorite status shown to the user. */
+const getStatusFromError = (error) => {
+  // gRPC NOT_FOUND = 5, PERMISSION_DENIED = 7
+  if (error?.code === 5 || error?.code === 404) return 'deleted';
+  if (error?.code === 7 || error?.code === 403) return 'noAccess';
+  return 'unknown';
+};
+
+const listFavorites = (owner) => store.list(owner);
+
+const addFavorite = (owner, entry) => {
+  if (!entry || typeof entry !== 'object' || !isEntryName(entry.name)) {
+    return Promise.reject(new FavoriteError('An entry with a name is required'));
+  }
+  const snapshot = toEntrySnapshot(entry);
+  return store.update(owner, (records) => {
+    const existing = records.find((r) => r.entryName === entry.name);
+    if (existing) {
+      const record = { ...existing, entry: snapshot, status: 'available' };
+      return { records: records.map((r) => (r === existing ? record : r)), result: record };
+    }
+    if (records.length >= MAX_FAVORITES) {
+      throw new FavoriteError(`You can keep at most ${MAX_FAVORITES} favorites`);
+    }
+    const record = {
+      entryName: entry.name,
+      owner,
+      entry: snapshot,
+      addedAt: new Date().toISOString(),
+      status: 'available',
+      checkedAt: null,
+    };
+    return { records: [...records, record], result: record };
+  });
+};
+
+const removeFavorite = (owner, entryName) =>
+  store.update(owner, (records) => {
+    if (!records.some((r) => r.entryName === entryName)) throw new FavoriteError('Favorite not found', 404);
+    return { records: records.filter((r) => r.entryName !== entryName), result: { entryName } };
+  });
+
+// Imports bare entry names (the favorites the app used to keep in the
+// browser). They have no snapshot until the next `applyFavoriteChecks`.
+const importFavorites = (owner, entryNames) => {
+  if (!Array.isArray(entryNames)) {
+    return Promise.reject(new FavoriteError('Import must be an array of entry names'));
+  }
+  return store.update(owner, (records) => {
+    const now = new Date().toISOString();
+    const known = new Set(records.map((r) => r.entryName));
+    const imported = [];
+    const skipped = [];
+    entryNames.forEach((entryName, index) => {
+      if (!isEntryName(entryName)) {
+        skipped.push({ index, error: 'Not an entry name' });
+      } else if (known.has(entryName)) {
+        skipped.push({ index, error: 'Already a favorite' });
+      } else if (records.length + imported.length >= MAX_FAVORITES) {
+        skipped.push({ index, error: `Limit of ${MAX_FAVORITES} favorites reached` });
+      } else {
+        known.add(entryName);
+        imported.push({ entryName, owner, entry: null, addedAt: now, status: 'unknown', checkedAt: null });
+      }
+    });
+    return { records: [...records, ...imported], result: { imported, skipped } };
+  });
+};
+
+/**
+ * Stores the outcome of looking every favorite up in the catalog.
+ * `checks` is `[{ entryName, status, entry? }]`; the snapshot is replaced when
+ * a fresh entry is given and kept otherwise. Resolves to the updated list.
+ */
+const applyFavoriteChecks = (owner, checks) =>
+  store.update(owner, (records) => {
+    const now = new Date().toISOString();
+    const byName = new Map(checks.map((check) => [check.entryName, check]));
+    const updated = records.map((record) => {
+      const check = byName.get(record.entryName);
+      if (!check || !FAVORITE_STATUSES.includes(check.status)) return record;
+      return {
+        ...record,
+        entry: check.entry ? toEntrySnapshot(check.entry) : record.entry,
+        status: check.status,
+        checkedAt: now,
+      };
+    });
+    return { records: updated, result: updated };
+  });
+
+module.exports = {
+  FavoriteError,
+  getStatusFromError,
+  listFavorites,
+  addFavorite,
+  removeFavorite,
+  importFavorites,
+  applyFavoriteChecks,
+};
@@ -0,0 +1,215 @@
+// services/lineageTraversalService.js
+//
+// Multi-hop lineage. Starting from one asset, walks Data Lineage `searchLinks`
+// breadth-first, one hop per level, upstream (links targeting the asset)
+// and/or downstream (links sourced from it). Every asset is expanded at most
+// once per direction, so diamonds and cycles do not loop; links that lead
+// back to an asset the walk came through are flagged with `cycle: true`.
+
+const MAX_DEPTH = 10;
+const DEFAULT_DEPTH = 3;
+const MAX_NODES = 500;
+const DEFAULT_MAX_NODES = 200;
+// searchLinks calls made in parallel while expanding one level
+const SEARCH_CONCURRENCY = 5;
+// Catalog entry lookups made in parallel while attaching schemas
+const SCHEMA_CONCURRENCY = 5;
+// batchSearchLinkProcesses accepts at most 100 links per call
+const PROCESS_BATCH_SIZE = 100;
+const DIRECTIONS = ['upstream', 'downstream', 'both'];
+
+class LineageTraversalError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.name = 'LineageTraversalError';
+    this.status = status;
+  }
+}
+
+const clampInteger = (value, fallback, max) => {
+  const number = Number.parseInt(value, 10);
+  if (!Number.isFinite(number)) return fallback;
+  return Math.min(Math.max(number, 1), max);
+};
+
+/** Validates the request body and fills in the defaults. */
+const parseTraversalRequest = (body) => {
+  const { parent, fqn, direction = 'both', depth, maxNodes, includeSchemas = false } = body || {};
+  if (typeof parent !== 'string' || parent.trim() === '' || typeof fqn !== 'string' || fqn.trim() === '') {
+    throw new LineageTraversalError('Bad Request: "parent" and "fqn" fields are required.');
+  }
+  if (!DIRECTIONS.includes(direction)) {
+    throw new LineageTraversalError(`Bad Request: "direction" must be one of ${DIRECTIONS.join(', ')}.`);
+  }
+  return {
+    parent,
+    fqn,
+    direction,
+    depth: clampInteger(depth, DEFAULT_DEPTH, MAX_DEPTH),
+    maxNodes: clampInteger(maxNodes, DEFAULT_MAX_NODES, MAX_NODES),
+    includeSchemas: includeSchemas === true,
+  };
+};
+
+// Runs `task` over `items` with at most `limit` calls in flight.
+const mapWithConcurrency = async (items, limit, task) => {
+  const results = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+// True when `ancestor` is reachable from `fqn` by walking back the links
+// that discovered it, i.e. a link from `fqn` to `ancestor` closes a cycle.
+const isAncestor = (parentsOf, fqn, ancestor) => {
+  const seen = new Set();
+  const stack = [fqn];
+  while (stack.length > 0) {
+    const current = stack.pop();
+    if (current === ancestor) return true;
+    if (seen.has(current)) continue;
+    seen.add(current);
+    stack.push(...(parentsOf.get(current) || []));
+  }
+  return false;
+};
+
+const attachProcesses = async (client, parent, links, isCancelled) => {
+  const linkToProcess = {};
+  for (let i = 0; i < links.length && !isCancelled(); i += PROCESS_BATCH_SIZE) {
+    const [processLinks] = await client.batchSearchLinkProcesses({
+      parent,
+      links: links.slice(i, i + PROCESS_BATCH_SIZE).map((link) => link.name),
+    });
+    processLinks.forEach((processLink) => {
+      processLink.links.forEach((l) => { linkToProcess[l.link] = processLink.process; });
+    });
+  }
+  return links.map((link) => ({ ...link, process: linkToProcess[link.name] || '' }));
+};
+
+/**
+ * Walks the lineage of `fqn` up to `depth` hops in `direction` using the
+ * given `LineageClient`. Stops adding assets once `maxNodes` (the root
+ * included) are known and reports `truncated: true`. `isCancelled` is polled
+ * between calls; once it returns true the walk stops and resolves with
+ * `cancelled: true`.
+ *
+ * Resolves to `{ root, nodes, links, truncated, cancelled }`: `nodes` are
+ * `{ fqn, depth, direction }` (the root has depth 0 and direction 'root'),
+ * `links` are the `searchLinks` results plus `process`, `depth` (hop of the
+ * link's far end), `direction` and `cycle`.
+ */
+const traverseLineage = async (client, request, isCancelled = () => false) => {
+  const { parent, fqn, direction, depth, maxNodes } = request;
+  const nodes = new Map([[fqn, { fqn, depth: 0, direction: 'root' }]]);
+  const links = new Map();
+  let truncated = false;
+
+  const walk = async (walkDirection) => {
+    const upstream = walkDirection === 'upstream';
+    // Assets reached in this direction and the assets they were reached from
+    const parentsOf = new Map([[fqn, []]]);
+    let frontier = [fqn];
+
+    for (let hop = 1; hop <= depth && frontier.length > 0 && !isCancelled(); hop++) {
+      const results = await mapWithConcurrency(frontier, SEARCH_CONCURRENCY, async (current) => {
+        if (isCancelled()) return [];
+        const [found] = await client.searchLinks({
+          parent,
+          [upstream ? 'target' : 'source']: { fullyQualifiedName: current },
+        });
+        return found.map((link) => ({ link, from: current }));
+      });
+
+      const nextFrontier = [];
+      results.flat().forEach(({ link, from }) => {
+        const to = upstream ? link.source.fullyQualifiedName : link.target.fullyQualifiedName;
+        const known = parentsOf.has(to);
+        if (!known && !nodes.has(to) && nodes.size >= maxNodes) {
+          truncated = true;
+          return;
+        }
+        // A link already found walking the other way is kept once but still walked
+        if (!links.has(link.name)) {
+          links.set(link.name, {
+            ...link,
+            depth: hop,
+            direction: walkDirection,
+            cycle: known && isAncestor(parentsOf, from, to),
+          });
+        }
+        if (known) {
+          parentsOf.get(to).push(from);
+          return;
+        }
+        parentsOf.set(to, [from]);
+        if (!nodes.has(to)) nodes.set(to, { fqn: to, depth: hop, direction: walkDirection });
+        nextFrontier.push(to);
+      });
+      frontier = nextFrontier;
+    }
+  };
+
+  // Sequential so the node cap is shared predictably between the directions
+  if (direction !== 'downstream') await walk('upstream');
+  if (direction !== 'upstream') await walk('downstream');
+
+  const linkList = links.size > 0 && !isCancelled()
+    ? await attachProcesses(client, parent, [...links.values()], isCancelled)
+    : [...links.values()];
+
+  return {
+    root: fqn,
+    nodes: [...nodes.values()],
+    links: linkList,
+    truncated,
+    cancelled: isCancelled(),
+  };
+};
+
+// Top-level column names of a catalog entry's schema aspect, or null when
+// the entry has no schema (files, dashboards, models...).
+const getSchemaColumns = (entry) => {
+  const aspects = (entry && entry.aspects) || {};
+  const key = Object.keys(aspects).find((aspectKey) => aspectKey.endsWith('.global.schema'));
+  const values = key && aspects[key].data?.fields?.fields?.listValue?.values;
+  if (!Array.isArray(values)) return null;
+  return values
+    .map((value) => value.structValue?.fields?.name?.stringValue)
+    .filter(Boolean);
+};
+
+/**
+ * Resolves the schema of every asset in `fqns` with `lookupEntry(fqn)`,
+ * which returns the catalog entry or null. Assets that cannot be read, or
+ * have no schema, map to null. Resolves to `{ [fqn]: string[] | null }`.
+ */
+const loadSchemas = async (lookupEntry, fqns, isCancelled = () => false) => {
+  const schemas = {};
+  await mapWithConcurrency(fqns, SCHEMA_CONCURRENCY, async (fqn) => {
+    if (isCancelled()) return;
+    try {
+      schemas[fqn] = getSchemaColumns(await lookupEntry(fqn));
+    } catch (error) {
+      console.error(`Could not read the schema of ${fqn}:`, error.message);
+      schemas[fqn] = null;
+    }
+  });
+  return schemas;
+};
+
+module.exports = {
+  LineageTraversalError,
+  MAX_DEPTH,
+  MAX_NODES,
+  parseTraversalRequest,
+  traverseLineage,
+  loadSchemas,
+};
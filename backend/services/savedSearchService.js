@@ -0,0 +1,179 @@
+// services/savedSearchService.js
+//
+// Named searches (term + filter chips) saved per user, so they follow the user
+// across browsers. Each record also remembers the result count of its last
+// two runs, which the Home page shows as a delta.
+
+const crypto = require('crypto');
+const { createUserDataStore } = require('./userDataStore');
+
+const MAX_SAVED_SEARCHES = 100;
+const MAX_FILTERS = 50;
+
+const store = createUserDataStore('savedSearches.json');
+
+class SavedSearchError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.name = 'SavedSearchError';
+    this.status = status;
+  }
+}
+
+const isNonEmptyString = (value, maxLength) =>
+  typeof value === 'string' && value.trim() !== '' && value.length <= maxLength;
+
+const sanitizeFilters = (filters) => {
+  if (filters === undefined) return [];
+  if (!Array.isArray(filters) || filters.length > MAX_FILTERS) {
+    throw new SavedSearchError(`Filters must be an array of at most ${MAX_FILTERS} items`);
+  }
+  return filters.map((filter) => {
+    if (!filter || !isNonEmptyString(filter.name, 500) || !isNonEmptyString(filter.type, 100)) {
+      throw new SavedSearchError('Each filter needs a name and a type');
+    }
+    const sanitized = { name: filter.name, type: filter.type };
+    if (Array.isArray(filter.subAnnotationData)) {
+      sanitized.subAnnotationData = filter.subAnnotationData
+        .filter((sub) => sub && typeof sub.fieldName === 'string')
+        .map(({ fieldName, value, enabled, filterType }) => ({
+          fieldName,
+          value: String(value ?? ''),
+          enabled: enabled !== false,
+          filterType: filterType === 'exclude' ? 'exclude' : 'include',
+        }));
+    }
+    return sanitized;
+  });
+};
+
+// Validates the user-editable part of a saved search.
+const sanitizeSearchInput = (input) => {
+  if (!input || typeof input !== 'object') {
+    throw new SavedSearchError('Saved search body is required');
+  }
+  if (!isNonEmptyString(input.name, 200)) {
+    throw new SavedSearchError('Name is required and must be at most 200 characters');
+  }
+  if (input.term !== undefined && (typeof input.term !== 'string' || input.term.length > 2000)) {
+    throw new SavedSearchError('Term must be a string of at most 2000 characters');
+  }
+  const term = (input.term || '').trim();
+  const filters = sanitizeFilters(input.filters);
+  if (term === '' && filters.length === 0) {
+    throw new SavedSearchError('A saved search needs a term or at least one filter');
+  }
+  return {
+    name: input.name.trim(),
+    term,
+    searchType: isNonEmptyString(input.searchType, 100) ? input.searchType : 'All',
+    filters,
+    semanticSearch: input.semanticSearch !== false,
+  };
+};
+
+const sanitizeResultCount = (value) =>
+  Number.isInteger(value) && value >= 0 ? value : null;
+
+const listSavedSearches = (owner) => store.list(owner);
+
+const createSavedSearch = (owner, input) => {
+  const search = sanitizeSearchInput(input);
+  return store.update(owner, (records) => {
+    if (records.length >= MAX_SAVED_SEARCHES) {
+      throw new SavedSearchError(`You can keep at most ${MAX_SAVED_SEARCHES} saved searches`);
+    }
+    const now = new Date().toISOString();
+    const resultCount = sanitizeResultCount(input.resultCount);
+    const record = {
+      id: crypto.randomUUID(),
+      owner,
+      ...search,
+      createdAt: now,
+      updatedAt: now,
+      lastRunAt: resultCount === null ? null : now,
+      lastResultCount: resultCount,
+      previousResultCount: null,
+    };
+    return { records: [...records, record], result: record };
+  });
+};
+
+const updateSavedSearch = (owner, id, input) => {
+  const search = sanitizeSearchInput(input);
+  return store.update(owner, (records) => {
+    const existing = records.find((r) => r.id === id);
+    if (!existing) throw new SavedSearchError('Saved search not found', 404);
+    const record = { ...existing, ...search, updatedAt: new Date().toISOString() };
+    return { records: records.map((r) => (r.id === id ? record : r)), result: record };
+  });
+};
+
+// Records the result count of a re-run; the previous count is kept for the delta.
+const recordSavedSearchRun = (owner, id, resultCount) => {
+  const count = sanitizeResultCount(resultCount);
+  if (count === null) {
+    return Promise.reject(new SavedSearchError('Result count must be a non-negative integer'));
+  }
+  return store.update(owner, (records) => {
+    const existing = records.find((r) => r.id === id);
+    if (!existing) throw new SavedSearchError('Saved search not found', 404);
+    const record = {
+      ...existing,
+      lastRunAt: new Date().toISOString(),
+      lastResultCount: count,
+      previousResultCount: existing.lastResultCount ?? null,
+    };
+    return { records: records.map((r) => (r.id === id ? record : r)), result: record };
+  });
+};
+
+const deleteSavedSearch = (owner, id) =>
+  store.update(owner, (records) => {
+    if (!records.some((r) => r.id === id)) throw new SavedSearchError('Saved search not found', 404);
+    return { records: records.filter((r) => r.id !== id), result: { id } };
+  });
+
+// Imports searches exported from any account; they become new searches owned
+// by `owner`. Invalid entries are skipped and reported back.
+const importSavedSearches = (owner, items) => {
+  if (!Array.isArray(items)) {
+    return Promise.reject(new SavedSearchError('Import must be an array of saved searches'));
+  }
+  return store.update(owner, (records) => {
+    const now = new Date().toISOString();
+    const imported = [];
+    const skipped = [];
+    items.forEach((item, index) => {
+      if (records.length + imported.length >= MAX_SAVED_SEARCHES) {
+        skipped.push({ index, error: `Limit of ${MAX_SAVED_SEARCHES} saved searches reached` });
+        return;
+      }
+      try {
+        imported.push({
+          id: crypto.randomUUID(),
+          owner,
+          ...sanitizeSearchInput(item),
+          createdAt: now,
+          updatedAt: now,
+          lastRunAt: null,
+          lastResultCount: null,
+          previousResultCount: null,
+        });
+      } catch (error) {
+        skipped.push({ index, error: error.message });
+      }
+    });
+    return { records: [...records, ...imported], result: { imported, skipped } };
+  });
+};
+
+module.exports = {
+  SavedSearchError,
+  listSavedSearches,
+  createSavedSearch,
+  updateSavedSearch,
+  recordSavedSearchRun,
+  deleteSavedSearch,
+  importSavedSearches,
+};
@@ -0,0 +1,53 @@
+// services/userDataStore.js
+//
+// Small JSON-file store for per-user data (saved searches, ...), kept next to
+// configData.json. Records are grouped by owner email:
+//   { "alice@example.com": [ ... ], "bob@example.com": [ ... ] }
+// Writes are queued so concurrent requests cannot overwrite each other.
+
+const fs = require('fs').promises;
+const path = require('path');
+
+const createUserDataStore = (fileName) => {
+  const filePath = path.join(__dirname, '..', fileName);
+  let queue = Promise.resolve();
+
+  const readAll = async () => {
+    try {
+      const raw = await fs.readFile(filePath, 'utf8');
+      return raw.trim() ? JSON.parse(raw) : {};
+    } catch (error) {
+      if (error.code === 'ENOENT') return {};
+      throw error;
+    }
+  };
+
+  // Runs `task` after every earlier write has finished.
+  const enqueue = (task) => {
+    const run = queue.then(task);
+    queue = run.catch(() => {});
+    return run;
+  };
+
+  return {
+    /** Returns the records owned by `owner` (empty array if none). */
+    list: (owner) => enqueue(async () => {
+      const all = await readAll();
+      return all[owner] || [];
+    }),
+
+    /**
+     * Applies `updater(records)` to the owner's records and saves whatever it
+     * returns as `records`. Resolves to the updater's `result`.
+     */
+    update: (owner, updater) => enqueue(async () => {
+      const all = await readAll();
+      const { records, result } = await updater(all[owner] || []);
+      all[owner] = records;
+      await fs.writeFile(filePath, JSON.stringify(all, null, 2), 'utf8');
+      return result;
+    }),
+  };
+};
+
+module.exports = { createUserDataStore };
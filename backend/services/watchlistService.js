@@ -0,0 +1,141 @@
+// services/watchlistService.js
+//
+// Change notifications for favorited entries. The app snapshots each favorite
+// (schema, aspects, data quality score; see src/utils/watchlistDiff.ts), diffs
+// the snapshots on every check and sends both here: the snapshots replace the
+// previous ones and every detected change lands in the user's inbox, which
+// persists until the user clears it.
+
+const crypto = require('crypto');
+const { createUserDataStore } = require('./userDataStore');
+
+const MAX_SNAPSHOTS = 500;
+const MAX_INBOX_ITEMS = 200;
+const MAX_CHANGES_PER_ITEM = 100;
+const CHANGE_KINDS = [
+  'schemaFieldAdded',
+  'schemaFieldRemoved',
+  'schemaFieldChanged',
+  'aspectAdded',
+  'aspectRemoved',
+  'aspectChanged',
+  'dqScoreChanged',
+];
+
+const snapshotStore = createUserDataStore('watchlistSnapshots.json');
+const inboxStore = createUserDataStore('watchlistInbox.json');
+
+class WatchlistError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.name = 'WatchlistError';
+    this.status = status;
+  }
+}
+
+const isEntryName = (value) =>
+  typeof value === 'string' && value.trim() !== '' && value.length <= 1000;
+
+const optionalString = (value) => (typeof value === 'string' ? value : '');
+
+const optionalValue = (value) =>
+  typeof value === 'string' || typeof value === 'number' ? value : null;
+
+const sanitizeSnapshot = (snapshot) => {
+  if (!snapshot || typeof snapshot !== 'object' || !isEntryName(snapshot.entryName)) {
+    throw new WatchlistError('Each snapshot needs an entry name');
+  }
+  const aspects = {};
+  Object.entries(snapshot.aspects && typeof snapshot.aspects === 'object' ? snapshot.aspects : {})
+    .forEach(([key, hash]) => { if (typeof hash === 'string') aspects[key] = hash; });
+  return {
+    entryName: snapshot.entryName,
+    displayName: optionalString(snapshot.displayName),
+    updateTime: typeof snapshot.updateTime === 'string' ? snapshot.updateTime : null,
+    schema: Array.isArray(snapshot.schema)
+      ? snapshot.schema.map((field) => ({
+        name: optionalString(field?.name),
+        type: optionalString(field?.type),
+        mode: optionalString(field?.mode),
+      }))
+      : null,
+    aspects,
+    dqScore: typeof snapshot.dqScore === 'number' ? snapshot.dqScore : null,
+  };
+};
+
+const sanitizeChange = (change) => {
+  if (!change || !CHANGE_KINDS.includes(change.kind)) {
+    throw new WatchlistError('Unknown change kind');
+  }
+  const sanitized = { kind: change.kind };
+  if (typeof change.subject === 'string') sanitized.subject = change.subject;
+  if ('from' in change) sanitized.from = optionalValue(change.from);
+  if ('to' in change) sanitized.to = optionalValue(change.to);
+  return sanitized;
+};
+
+const listWatchlist = async (owner) => ({
+  snapshots: await snapshotStore.list(owner),
+  inbox: await inboxStore.list(owner),
+});
+
+/**
+ * Stores the result of a check. `snapshots` replaces the stored snapshots
+ * (one per favorite); `items` is `[{ entryName, displayName, changes }]` and
+ * is added to the inbox, newest first. Resolves to the added inbox items.
+ */
+const recordWatchlistCheck = async (owner, body) => {
+  const { snapshots, items = [] } = body || {};
+  if (!Array.isArray(snapshots) || snapshots.length > MAX_SNAPSHOTS) {
+    throw new WatchlistError(`Snapshots must be an array of at most ${MAX_SNAPSHOTS} items`);
+  }
+  if (!Array.isArray(items)) {
+    throw new WatchlistError('Items must be an array');
+  }
+  const sanitizedSnapshots = snapshots.map(sanitizeSnapshot);
+  const now = new Date().toISOString();
+  const added = items.map((item) => {
+    if (!item || !isEntryName(item.entryName)) throw new WatchlistError('Each item needs an entry name');
+    if (!Array.isArray(item.changes) || item.changes.length === 0 || item.changes.length > MAX_CHANGES_PER_ITEM) {
+      throw new WatchlistError(`Each item needs between 1 and ${MAX_CHANGES_PER_ITEM} changes`);
+    }
+    return {
+      id: crypto.randomUUID(),
+      entryName: item.entryName,
+      displayName: optionalString(item.displayName),
+      changes: item.changes.map(sanitizeChange),
+      detectedAt: now,
+      read: false,
+    };
+  });
+
+  await snapshotStore.update(owner, () => ({ records: sanitizedSnapshots, result: null }));
+  if (added.length === 0) return [];
+  return inboxStore.update(owner, (records) => ({
+    records: [...added, ...records].slice(0, MAX_INBOX_ITEMS),
+    result: added,
+  }));
+};
+
+/** Marks the given inbox items (all when `ids` is omitted) as read. */
+const markInboxRead = (owner, ids) => {
+  if (ids !== undefined && !Array.isArray(ids)) {
+    return Promise.reject(new WatchlistError('ids must be an array'));
+  }
+  const selected = ids ? new Set(ids) : null;
+  return inboxStore.update(owner, (records) => {
+    const updated = records.map((r) => (!selected || selected.has(r.id) ? { ...r, read: true } : r));
+    return { records: updated, result: updated };
+  });
+};
+
+const clearInbox = (owner) => inboxStore.update(owner, () => ({ records: [], result: [] }));
+
+module.exports = {
+  WatchlistError,
+  listWatchlist,
+  recordWatchlistCheck,
+  markInboxRead,
+  clearInbox,
+};
@@ -1,88 +1,38 @@
-import axios from 'axios';
-import type { HttpResponse } from '.';
-import type { AxiosResponseHeaders } from "axios";
+/**
+ * @file api.ts
+ * @description
+ * Calls a backend route by verb for code that has no `id_token` at hand: the
+ * token is read from the stored session. Requests go through
+ * `dataplexClient.backend`, so they carry the same `Authorization` header and
+ * fail with the same `DataplexApiError` as every other API call.
+ */
+
+import { dataplexClient } from './dataplexClient';
+
+// The signed-in user's token, as AuthProvider stores the session
+const getSessionToken = (): string | undefined => {
+  const session = localStorage.getItem('sessionUserData');
+  return session ? JSON.parse(session)?.token : undefined;
+};
+
 export default class Api {
-    static getBaseURL() {
-        return '/api/v1';
-    }
-    static async headers() {
-        const token = localStorage.getItem('token') || '';
-        return { 
-            'Authorization': token,
-            'Content-Type': 'application/json'
-        };
-    }
-    static get(route: string, params: any = {}) : Promise<HttpResponse<any>> {
-        return this.xhr(route, params, 'GET');
-    }
-    static post(route: string, params?: any) : Promise<HttpResponse<any>> {
-        return this.xhr(route, params, 'POST');
-    }
-    static put(route: string, params: any) : Promise<HttpResponse<any>> {
-        return this.xhr(route, params, 'PUT');
-    }
-    static patch(route: string, params: any) : Promise<HttpResponse<any>> {
-        return this.xhr(route, params, 'PATCH');
-    }
-    static delete(route: string, params: any) : Promise<HttpResponse<any>> {
-        return this.xhr(route, params, 'DELETE');
-    }
-    static encodeUrlParams(url: string, params: any) {
-        const queryParts: string[] = [];
-      
-        Object.entries(params).forEach(([key, value]: any) => {
-          if (Array.isArray(value)) {
-            value.forEach((val) => {
-              queryParts.push(`${encodeURIComponent(key)}=${encodeURIComponent(val)}`);
-            });
-          } else {
-            queryParts.push(`${encodeURIComponent(key)}=${encodeURIComponent(value)}`);
-          }
-        });
-      
-        return `${url}?${queryParts.join("&")}`;
-      }
-      
-    static async xhr(route: string, params: any, verb: any) : Promise<HttpResponse<any>> {
-        let url = Api.getBaseURL() + route;
-        if (verb === 'GET' && params) {
-            url = this.encodeUrlParams(url, params);
-            params = null;
-        } 
-        const headers =  await Api.headers();
-        let options:any;
-      
-        if(params && params.option && params.option.content_type){
-            options = Object.assign({  validateStatus: () => {return true },method: verb, headers:headers, url: url,responseType: 'arraybuffer' as 'arraybuffer' }, params ? { data: params } : null);
-        }else{
-            options = Object.assign({validateStatus: () => {return true }, method: verb, headers:headers, url: url}, params ? { data: params } : null);
-        }
-        return axios(options).then((resp) => {
-            const header = resp.headers as AxiosResponseHeaders; // Explicitly cast the headers
-            if (
-                resp.status === 200 ||
-                resp.status === 201 ||
-                resp.status === 202 ||
-                resp.status === 204 ||
-                resp.status === 302 ||
-                resp.status === 403
-            ) {
-                if (
-                    header["content-type"] ===
-                    "application/vnd.openxmlformats-officedocument.spreadsheetml"
-                ) {
-                    const blob = new Blob([resp.data], {
-                        type: "application/vnd.ms-excel;charset=utf-8",
-                    });
-                    throw new Error(`File Size ${blob.size} Saved successfully`); 
-                } else {
-                    return resp as HttpResponse<any>; // Ensure compatibility with your HttpResponse type
-                }
-            } else {
-                throw resp.data.message;
-            }
-        }).catch((error) => {
-            throw error;
-        });
-    }
-}
\ No newline at end of file
+  static get<T = unknown>(route: string, params?: Record<string, unknown>): Promise<T> {
+    return dataplexClient.backend.get<T>(route, params, { id_token: getSessionToken() });
+  }
+
+  static post<T = unknown>(route: string, body?: unknown): Promise<T> {
+    return dataplexClient.backend.post<T>(route, body, { id_token: getSessionToken() });
+  }
+
+  static put<T = unknown>(route: string, body?: unknown): Promise<T> {
+    return dataplexClient.backend.put<T>(route, body, { id_token: getSessionToken() });
+  }
+
+  static patch<T = unknown>(route: string, body?: unknown): Promise<T> {
+    return dataplexClient.backend.patch<T>(route, body, { id_token: getSessionToken() });
+  }
+
+  static delete<T = unknown>(route: string, params?: Record<string, unknown>): Promise<T> {
+    return dataplexClient.backend.delete<T>(route, params, { id_token: getSessionToken() });
+  }
+}
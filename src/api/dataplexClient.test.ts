@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import axios from 'axios';
+import {
+  dataplexClient,
+  DataplexApiError,
+  configureDataplexClient,
+  invalidateDataplexCache,
+  resetDataplexClient,
+  DATAPLEX_API_URL,
+} from './dataplexClient';
+
+// Mock axios
+vi.mock('axios');
+const mockedAxios = vi.mocked(axios, true);
+
+const httpError = (status: number, data: unknown = {}, headers: Record<string, string> = {}) =>
+  Object.assign(new Error(`Request failed with status code ${status}`), {
+    isAxiosError: true,
+    response: { status, data, headers },
+  });
+
+const lookup = (options = {}) =>
+  dataplexClient.entries.lookup({ project: 'p', location: 'us', entry: 'projects/p/locations/us/entryGroups/g/entries/e' }, { id_token: 'token', ...options });
+
+describe('dataplexClient', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetDataplexClient();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends the token with the request instead of setting a global header', async () => {
+    mockedAxios.get.mockResolvedValue({ data: { name: 'e' } });
+
+    await expect(lookup()).resolves.toEqual({ name: 'e' });
+    expect(mockedAxios.get).toHaveBeenCalledWith(`${DATAPLEX_API_URL}/projects/p/locations/us:lookupEntry`, {
+      params: { entry: 'projects/p/locations/us/entryGroups/g/entries/e', view: 'ALL' },
+      headers: { Authorization: 'Bearer token' },
+    });
+  });
+
+  it('shares one request between identical concurrent searches', async () => {
+    let resolve: (value: unknown) => void = () => {};
+    mockedAxios.post.mockReturnValue(new Promise((r) => { resolve = r; }));
+
+    const first = dataplexClient.search.searchEntries({ query: 'orders' }, { id_token: 'token', project: 'p' });
+    const second = dataplexClient.search.searchEntries({ query: 'orders' }, { id_token: 'token', project: 'p' });
+    const other = dataplexClient.search.searchEntries({ query: 'customers' }, { id_token: 'token', project: 'p' });
+    resolve({ data: { results: [] } });
+
+    await Promise.all([first, second, other]);
+    expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+    expect(mockedAxios.post.mock.calls[0][0]).toBe(`${DATAPLEX_API_URL}/projects/p/locations/global:searchEntries`);
+  });
+
+  it('never shares a request that can be aborted', async () => {
+    mockedAxios.post.mockResolvedValue({ data: {} });
+    const { signal } = new AbortController();
+
+    await Promise.all([
+      dataplexClient.lineage.traverse({ parent: 'p', fqn: 'f', direction: 'both' }, { signal }),
+      dataplexClient.lineage.traverse({ parent: 'p', fqn: 'f', direction: 'both' }, { signal }),
+    ]);
+    expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+    expect(mockedAxios.post.mock.calls[0][2]).toEqual({ headers: {}, signal });
+  });
+
+  it('caches lookups until they are invalidated or asked for fresh', async () => {
+    mockedAxios.get.mockResolvedValueOnce({ data: { version: 1 } }).mockResolvedValueOnce({ data: { version: 2 } }).mockResolvedValueOnce({ data: { version: 3 } });
+
+    expect(await lookup()).toEqual({ version: 1 });
+    expect(await lookup()).toEqual({ version: 1 });
+    expect(await lookup({ fresh: true })).toEqual({ version: 2 });
+
+    invalidateDataplexCache(':lookupEntry');
+    expect(await lookup()).toEqual({ version: 3 });
+    expect(mockedAxios.get).toHaveBeenCalledTimes(3);
+  });
+
+  it('retries 429 and 5xx responses with backoff, honouring Retry-After', async () => {
+    vi.useFakeTimers();
+    mockedAxios.get
+      .mockRejectedValueOnce(httpError(503))
+      .mockRejectedValueOnce(httpError(429, {}, { 'retry-after': '3' }))
+      .mockResolvedValueOnce({ data: { name: 'e' } });
+
+    const result = lookup();
+    await vi.advanceTimersByTimeAsync(500);
+    expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toEqual({ name: 'e' });
+    expect(mockedAxios.get).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the configured retries', async () => {
+    configureDataplexClient({ maxRetries: 1, retryBaseDelayMs: 0 });
+    mockedAxios.get.mockRejectedValue(httpError(500, { error: { message: 'Backend error' } }));
+
+    const error = await lookup().catch((e) => e);
+    expect(error).toBeInstanceOf(DataplexApiError);
+    expect(error).toMatchObject({ kind: 'server', status: 500, data: { error: { message: 'Backend error' } } });
+    expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+  });
+
+  it('maps failures to typed errors without retrying them', async () => {
+    mockedAxios.get
+      .mockRejectedValueOnce(httpError(401, { message: 'Request had invalid authentication credentials.' }))
+      .mockRejectedValueOnce(httpError(403))
+      .mockRejectedValueOnce(httpError(404))
+      .mockRejectedValueOnce(Object.assign(new Error('canceled'), { name: 'CanceledError' }));
+
+    await expect(dataplexClient.entries.get('e1')).rejects.toMatchObject({ kind: 'unauthenticated', status: 401 });
+    await expect(dataplexClient.entries.get('e2')).rejects.toMatchObject({ kind: 'permissionDenied', status: 403 });
+    await expect(dataplexClient.entries.get('e3')).rejects.toMatchObject({ kind: 'notFound', status: 404 });
+    await expect(dataplexClient.entries.get('e4')).rejects.toMatchObject({ kind: 'aborted' });
+    expect(mockedAxios.get).toHaveBeenCalledTimes(4);
+  });
+
+  it('rethrows errors that are not HTTP failures unchanged', async () => {
+    const bug = new TypeError('boom');
+    mockedAxios.get.mockRejectedValue(bug);
+
+    await expect(dataplexClient.scans.get('scan')).rejects.toBe(bug);
+  });
+
+  it('sends backend writes once, without sharing or retrying them', async () => {
+    configureDataplexClient({ retryBaseDelayMs: 0 });
+    mockedAxios.post.mockResolvedValue({ data: { id: 's1' } });
+
+    await Promise.all([
+      dataplexClient.backend.post('/saved-searches', { name: 'Orders' }, { id_token: 'token' }),
+      dataplexClient.backend.post('/saved-searches', { name: 'Orders' }, { id_token: 'token' }),
+    ]);
+    expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+    expect(mockedAxios.post).toHaveBeenCalledWith(expect.stringMatching(/\/saved-searches$/), { name: 'Orders' }, {
+      headers: { Authorization: 'Bearer token' },
+    });
+
+    mockedAxios.delete.mockRejectedValue(httpError(503));
+    await expect(dataplexClient.backend.delete('/favorites', { entryName: 'e' }, { id_token: 'token' }))
+      .rejects.toMatchObject({ kind: 'server', status: 503 });
+    expect(mockedAxios.delete).toHaveBeenCalledTimes(1);
+  });
+
+  it('never shares a read between two sessions', async () => {
+    mockedAxios.get.mockResolvedValue({ data: [] });
+
+    await Promise.all([
+      dataplexClient.backend.get('/favorites', undefined, { id_token: 'alice' }),
+      dataplexClient.backend.get('/favorites', undefined, { id_token: 'bob' }),
+    ]);
+    expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+  });
+});
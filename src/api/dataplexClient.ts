@@ -0,0 +1,519 @@
+/**
+ * @file dataplexClient.ts
+ * @description
+ * Typed client for the catalog data the feature slices load: entries, search,
+ * glossaries, data products, lineage and data scans, plus the backend's own
+ * routes (favorites, saved searches, the watchlist). Calls either go straight
+ * to the Dataplex API (`DATAPLEX_API_URL`) or through the backend proxy
+ * (`URLS.API_URL`), but every call:
+ *
+ * 1.  Sends the caller's `id_token` as its own `Authorization` header instead
+ * of changing `axios.defaults` for the whole app.
+ * 2.  Shares one in-flight request between identical concurrent calls (calls
+ * with an abort `signal` are never shared, aborting one would abort all).
+ * Writes are never shared.
+ * 3.  Keeps the responses of slow-changing reads (entry lookups, glossary
+ * children, data products) for `CACHE_TTL_MS`; `invalidateDataplexCache`
+ * drops them, e.g. on logout.
+ * 4.  Retries 429 and 5xx responses with exponential backoff, honouring
+ * `Retry-After`. Writes are sent once.
+ * 5.  Rejects HTTP failures with a `DataplexApiError` whose `kind` is derived
+ * with `authErrorService`, so slices can tell an expired session from a
+ * missing permission. Other errors are rethrown as they are. The global axios
+ * interceptor (`utils/apiInterceptor`) still handles the expired session.
+ */
+
+import axios, { type AxiosRequestConfig } from 'axios';
+import { URLS } from '../constants/urls';
+import { isAuthenticationError } from '../services/authErrorService';
+import type { LineageTraversal } from '../utils/lineageGraph';
+
+export const DATAPLEX_API_URL = 'https://dataplex.googleapis.com/v1';
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface DataplexAspect {
+  aspectType?: string;
+  path?: string;
+  createTime?: string;
+  updateTime?: string;
+  data?: Record<string, unknown>;
+  aspectSource?: Record<string, unknown>;
+}
+
+export interface DataplexEntrySource {
+  resource?: string;
+  system?: string;
+  platform?: string;
+  displayName?: string;
+  description?: string;
+  labels?: Record<string, string>;
+  ancestors?: { name: string; type: string }[];
+  createTime?: string;
+  updateTime?: string;
+  location?: string;
+}
+
+export interface DataplexEntry {
+  name: string;
+  entryType?: string;
+  createTime?: string;
+  updateTime?: string;
+  aspects?: Record<string, DataplexAspect>;
+  parentEntry?: string;
+  fullyQualifiedName?: string;
+  entrySource?: DataplexEntrySource;
+}
+
+export interface DataplexSearchResult {
+  linkedResource?: string;
+  dataplexEntry: DataplexEntry;
+  snippets?: Record<string, unknown>;
+}
+
+export interface DataplexSearchResponse {
+  results?: DataplexSearchResult[];
+  totalSize?: number;
+  nextPageToken?: string;
+  unreachable?: string[];
+}
+
+export interface DataplexSearchRequest {
+  query: string;
+  pageSize?: number;
+  pageToken?: string;
+  orderBy?: string;
+  scope?: string;
+  semanticSearch?: boolean;
+}
+
+/** The backend's search response: the results, the request of the next page and the raw response. */
+export interface BackendSearchResponse {
+  data: DataplexSearchResult[];
+  requestData: (DataplexSearchRequest & { name: string }) | null;
+  results: DataplexSearchResponse;
+}
+
+export interface EntryAccessResponse {
+  accessible: boolean;
+  name?: string;
+  entryType?: string;
+}
+
+export interface GlossaryResource {
+  name: string;
+  displayName?: string;
+  description?: string;
+  parent?: string;
+  labels?: Record<string, string>;
+  createTime?: string;
+  updateTime?: string;
+}
+
+export interface DataProductResource {
+  name: string;
+  displayName?: string;
+  description?: string;
+  labels?: Record<string, string>;
+  createTime?: string;
+  updateTime?: string;
+  [key: string]: unknown;
+}
+
+export interface DataProductAsset {
+  name?: string;
+  resource?: string;
+  [key: string]: unknown;
+}
+
+export interface LineageRequest {
+  parent: string;
+  fqn: string;
+}
+
+export interface LineageTraverseRequest extends LineageRequest {
+  direction: 'upstream' | 'downstream' | 'both';
+  depth?: number;
+  maxNodes?: number;
+  includeSchemas?: boolean;
+}
+
+export interface LineageLinkResource {
+  name: string;
+  source: { fullyQualifiedName: string };
+  target: { fullyQualifiedName: string };
+  process?: string;
+  [key: string]: unknown;
+}
+
+/** `sourceLinks` start at the asset, `targetLinks` end at it. */
+export interface LineageSearchResponse {
+  sourceLinks: LineageLinkResource[];
+  targetLinks: LineageLinkResource[];
+}
+
+/** A lineage process with its runs and the BigQuery job of the latest run. */
+export interface LineageProcessDetails {
+  processDetails: Record<string, unknown>;
+  processRuns: Record<string, unknown>[];
+  jobDetails: Record<string, unknown>[];
+}
+
+/** A data scan as the backend returns it. */
+export interface DataScanResource {
+  name: string;
+  displayName?: string;
+  type?: string;
+  data?: { resource?: string };
+  [key: string]: unknown;
+}
+
+/** A data scan job; `full_details` is the job in the `FULL` view, when the backend has it. */
+export interface DataScanJob {
+  name?: string;
+  full_details?: unknown;
+  [key: string]: unknown;
+}
+
+/** Per call options: whose token to send and how the call may be cancelled. */
+export interface DataplexCallOptions {
+  id_token?: string;
+  signal?: AbortSignal;
+  /** Ignore a cached response and cache the fresh one. */
+  fresh?: boolean;
+}
+
+export interface DataplexClientOptions {
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+}
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+export type DataplexErrorKind =
+  | 'unauthenticated'
+  | 'permissionDenied'
+  | 'notFound'
+  | 'rateLimited'
+  | 'server'
+  | 'badRequest'
+  | 'network'
+  | 'aborted';
+
+/**
+ * Body of a failed response: the backend sends `{ error }` or `{ message }`,
+ * Dataplex sends `{ error: { code, message, status } }`.
+ */
+export interface DataplexErrorData {
+  error?: string | { code?: number; message?: string; status?: string };
+  message?: string;
+  details?: string;
+}
+
+export class DataplexApiError extends Error {
+  readonly kind: DataplexErrorKind;
+  readonly status?: number;
+  /** The response body, e.g. Google's `{ error: { code, message, status } }`. */
+  readonly data?: DataplexErrorData;
+  readonly cause: unknown;
+
+  constructor(message: string, kind: DataplexErrorKind, status?: number, data?: DataplexErrorData, cause?: unknown) {
+    super(message);
+    this.name = 'DataplexApiError';
+    this.kind = kind;
+    this.status = status;
+    this.data = data;
+    this.cause = cause;
+  }
+
+  get retryable(): boolean {
+    return this.kind === 'rateLimited' || this.kind === 'server';
+  }
+}
+
+// The parts of an axios error the client reads
+interface HttpErrorLike {
+  name?: string;
+  code?: string;
+  message?: string;
+  isAxiosError?: boolean;
+  response?: { status?: number; data?: DataplexErrorData; headers?: Record<string, unknown> };
+}
+
+const isAbortLike = (error: unknown) => {
+  const { name, code } = (error ?? {}) as HttpErrorLike;
+  return name === 'AbortError' || name === 'CanceledError' || code === 'ERR_CANCELED';
+};
+
+// Axios errors are recognised by shape, so mocked axios errors count as well
+const isHttpError = (error: unknown): error is HttpErrorLike =>
+  !!error && typeof error === 'object'
+  && ((error as HttpErrorLike).isAxiosError === true || 'response' in error || isAbortLike(error));
+
+const getErrorKind = (error: HttpErrorLike): DataplexErrorKind => {
+  if (isAbortLike(error)) return 'aborted';
+  const status = error.response?.status;
+  if (isAuthenticationError(error)) return 'unauthenticated';
+  if (status === 403) return 'permissionDenied';
+  if (status === 404) return 'notFound';
+  if (status === 429) return 'rateLimited';
+  if (status !== undefined && status >= 500) return 'server';
+  if (status === undefined) return 'network';
+  return 'badRequest';
+};
+
+/**
+ * Wraps an axios error in a `DataplexApiError`. Anything else (a bug in a
+ * response mapper, say) is returned unchanged.
+ */
+export const toDataplexApiError = (error: unknown): DataplexApiError | unknown => {
+  if (error instanceof DataplexApiError || !isHttpError(error)) return error;
+  return new DataplexApiError(
+    error.message || 'Request failed',
+    getErrorKind(error),
+    error.response?.status,
+    error.response?.data,
+    error
+  );
+};
+
+// ---------------------------------------------------------------------------
+// Transport
+// ---------------------------------------------------------------------------
+
+const DEFAULT_OPTIONS: DataplexClientOptions = {
+  maxRetries: 3,
+  retryBaseDelayMs: 500,
+  retryMaxDelayMs: 8000,
+};
+
+let clientOptions: DataplexClientOptions = { ...DEFAULT_OPTIONS };
+const cache = new Map<string, { data: unknown; expiresAt: number }>();
+const inFlight = new Map<string, Promise<unknown>>();
+
+export const configureDataplexClient = (options: Partial<DataplexClientOptions>) => {
+  clientOptions = { ...clientOptions, ...options };
+};
+
+/** Drops cached responses whose URL contains `urlPart`, or all of them. */
+export const invalidateDataplexCache = (urlPart?: string) => {
+  if (!urlPart) {
+    cache.clear();
+    return;
+  }
+  [...cache.keys()].filter((key) => key.includes(urlPart)).forEach((key) => cache.delete(key));
+};
+
+/** Restores the default options and forgets cached and in-flight requests. */
+export const resetDataplexClient = () => {
+  clientOptions = { ...DEFAULT_OPTIONS };
+  cache.clear();
+  inFlight.clear();
+};
+
+interface RequestSpec {
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  url: string;
+  params?: Record<string, unknown>;
+  body?: unknown;
+  cacheTtlMs?: number;
+  /** Changes data on the server, so it is neither shared nor retried. */
+  write?: boolean;
+}
+
+// Includes the token, so two sessions never share a response
+const getRequestKey = ({ method, url, params, body }: RequestSpec, id_token?: string) =>
+  `${method} ${url} ${params ? JSON.stringify(params) : ''} ${body !== undefined ? JSON.stringify(body) : ''} ${id_token ?? ''}`;
+
+const getRetryDelay = (error: DataplexApiError, attempt: number) => {
+  const backoff = Math.min(clientOptions.retryBaseDelayMs * 2 ** attempt, clientOptions.retryMaxDelayMs);
+  const retryAfter = Number((error.cause as HttpErrorLike | undefined)?.response?.headers?.['retry-after']);
+  return Number.isFinite(retryAfter) && retryAfter > 0
+    ? Math.min(retryAfter * 1000, clientOptions.retryMaxDelayMs)
+    : backoff;
+};
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const sendOnce = (spec: RequestSpec, config: AxiosRequestConfig) => {
+  switch (spec.method) {
+    case 'GET': return axios.get(spec.url, config);
+    case 'DELETE': return axios.delete(spec.url, config);
+    case 'POST': return axios.post(spec.url, spec.body, config);
+    case 'PUT': return axios.put(spec.url, spec.body, config);
+    case 'PATCH': return axios.patch(spec.url, spec.body, config);
+  }
+};
+
+const send = async <T>(spec: RequestSpec, { id_token, signal }: DataplexCallOptions): Promise<T> => {
+  const config = {
+    ...(spec.params && { params: spec.params }),
+    headers: id_token ? { Authorization: `Bearer ${id_token}` } : {},
+    ...(signal && { signal }),
+  };
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await sendOnce(spec, config);
+      return response?.data as T;
+    } catch (error) {
+      const apiError = toDataplexApiError(error);
+      if (!(apiError instanceof DataplexApiError) || !apiError.retryable || spec.write
+        || attempt >= clientOptions.maxRetries || signal?.aborted) {
+        throw apiError;
+      }
+      await wait(getRetryDelay(apiError, attempt));
+    }
+  }
+};
+
+const request = <T>(spec: RequestSpec, options: DataplexCallOptions = {}): Promise<T> => {
+  const key = getRequestKey(spec, options.id_token);
+  const cacheTtlMs = spec.cacheTtlMs ?? 0;
+  const cached = cache.get(key);
+  if (cacheTtlMs > 0 && !options.fresh && cached && cached.expiresAt > Date.now()) {
+    return Promise.resolve(cached.data as T);
+  }
+
+  const remember = (data: T) => {
+    if (cacheTtlMs > 0) cache.set(key, { data, expiresAt: Date.now() + cacheTtlMs });
+    return data;
+  };
+  if (options.signal || spec.write) return send<T>(spec, options).then(remember);
+
+  const pending = inFlight.get(key);
+  if (pending) return pending as Promise<T>;
+  const promise = send<T>(spec, options)
+    .then(remember)
+    .finally(() => inFlight.delete(key));
+  inFlight.set(key, promise);
+  return promise;
+};
+
+const backendUrl = (path: string) => URLS.API_URL + path;
+
+const defaultProject = () => import.meta.env.VITE_GOOGLE_PROJECT_ID;
+
+// ---------------------------------------------------------------------------
+// Resources
+// ---------------------------------------------------------------------------
+
+export const dataplexClient = {
+  entries: {
+    /** `lookupEntry` with the full view, straight from Dataplex. */
+    lookup: (
+      { project, location, entry, view = 'ALL' }: { project: string; location: string; entry: string; view?: string },
+      options?: DataplexCallOptions
+    ) =>
+      request<DataplexEntry>({
+        method: 'GET',
+        url: `${DATAPLEX_API_URL}/projects/${project}/locations/${location}:lookupEntry`,
+        params: { entry, view },
+        cacheTtlMs: CACHE_TTL_MS,
+      }, options),
+
+    get: (entryName: string, options?: DataplexCallOptions) =>
+      request<DataplexEntry>({ method: 'GET', url: backendUrl(URLS.GET_ENTRY + `?entryName=${entryName}`), cacheTtlMs: CACHE_TTL_MS }, options),
+
+    getByFqn: (fqn: string, options?: DataplexCallOptions) =>
+      request<DataplexEntry>({ method: 'GET', url: backendUrl(URLS.GET_ENTRY_BY_FQN), params: { fqn } }, options),
+
+    checkAccess: (entryName: string, options?: DataplexCallOptions) =>
+      request<EntryAccessResponse>({ method: 'GET', url: backendUrl(URLS.CHECK_ENTRY_ACCESS + `?entryName=${entryName}`) }, options),
+  },
+
+  search: {
+    /** `searchEntries` straight from Dataplex, in the default project unless given. */
+    searchEntries: (
+      body: DataplexSearchRequest,
+      options?: DataplexCallOptions & { project?: string; location?: string }
+    ) =>
+      request<DataplexSearchResponse>({
+        method: 'POST',
+        url: `${DATAPLEX_API_URL}/projects/${options?.project ?? defaultProject()}/locations/${options?.location ?? 'global'}:searchEntries`,
+        body,
+      }, options),
+
+    /** Search through the backend, which returns the results array. */
+    backendSearch: (body: DataplexSearchRequest, options?: DataplexCallOptions) =>
+      request<BackendSearchResponse>({ method: 'POST', url: backendUrl(URLS.SEARCH), body }, options),
+  },
+
+  glossaries: {
+    listCategories: (glossaryName: string, options?: DataplexCallOptions) =>
+      request<{ categories?: GlossaryResource[] }>({
+        method: 'GET',
+        url: `${DATAPLEX_API_URL}/${glossaryName}/categories`,
+        cacheTtlMs: CACHE_TTL_MS,
+      }, options),
+
+    listTerms: (glossaryName: string, options?: DataplexCallOptions) =>
+      request<{ terms?: GlossaryResource[] }>({
+        method: 'GET',
+        url: `${DATAPLEX_API_URL}/${glossaryName}/terms`,
+        cacheTtlMs: CACHE_TTL_MS,
+      }, options),
+  },
+
+  dataProducts: {
+    list: (options?: DataplexCallOptions & { project?: string }) =>
+      request<{ dataProducts?: DataProductResource[] }>({
+        method: 'GET',
+        url: `${DATAPLEX_API_URL}/projects/${options?.project ?? defaultProject()}/locations/-/dataProducts`,
+        cacheTtlMs: CACHE_TTL_MS,
+      }, options),
+
+    listAssets: (dataProductName: string, options?: DataplexCallOptions) =>
+      request<{ dataAssets?: DataProductAsset[] }>({
+        method: 'GET',
+        url: `${DATAPLEX_API_URL}/${dataProductName}/dataAssets`,
+        cacheTtlMs: CACHE_TTL_MS,
+      }, options),
+  },
+
+  lineage: {
+    searchLinks: ({ parent, fqn }: LineageRequest, options?: DataplexCallOptions) =>
+      request<LineageSearchResponse>({ method: 'POST', url: backendUrl(URLS.LINEAGE_SEARCH), body: { parent, fqn } }, options),
+
+    traverse: (body: LineageTraverseRequest, options?: DataplexCallOptions) =>
+      request<LineageTraversal>({ method: 'POST', url: backendUrl(URLS.LINEAGE_TRAVERSE), body }, options),
+
+    getProcessDetails: (process: unknown, options?: DataplexCallOptions) =>
+      request<LineageProcessDetails>({ method: 'POST', url: backendUrl(URLS.GET_PROCESS_AND_JOB_DETAILS), body: { process } }, options),
+  },
+
+  scans: {
+    get: (name: string, options?: DataplexCallOptions) =>
+      request<{ scan: DataScanResource; jobs: DataScanJob[] }>({ method: 'GET', url: backendUrl(URLS.GET_DATA_SCAN + `?name=${name}`) }, options),
+
+    list: (project: string, options?: DataplexCallOptions) =>
+      request<DataScanResource[]>({ method: 'GET', url: backendUrl(URLS.GET_ALL_DATA_SCANS + `?project=${project}`) }, options),
+
+    listJobs: (scanName: string, options?: DataplexCallOptions) =>
+      request<DataScanJob[]>({ method: 'GET', url: backendUrl(URLS.GET_SCAN_JOBS + `?parent=${scanName}`) }, options),
+  },
+
+  /** Any other backend route, by its path under `URLS.API_URL` (e.g. `URLS.FAVORITES`). */
+  backend: {
+    get: <T = unknown>(path: string, params?: Record<string, unknown>, options?: DataplexCallOptions) =>
+      request<T>({ method: 'GET', url: backendUrl(path), params }, options),
+
+    post: <T = unknown>(path: string, body?: unknown, options?: DataplexCallOptions) =>
+      request<T>({ method: 'POST', url: backendUrl(path), body, write: true }, options),
+
+    put: <T = unknown>(path: string, body?: unknown, options?: DataplexCallOptions) =>
+      request<T>({ method: 'PUT', url: backendUrl(path), body, write: true }, options),
+
+    patch: <T = unknown>(path: string, body?: unknown, options?: DataplexCallOptions) =>
+      request<T>({ method: 'PATCH', url: backendUrl(path), body, write: true }, options),
+
+    delete: <T = unknown>(path: string, params?: Record<string, unknown>, options?: DataplexCallOptions) =>
+      request<T>({ method: 'DELETE', url: backendUrl(path), params, write: true }, options),
+  },
+};
@@ -14,6 +14,13 @@ import dataProductsReducer from '../features/dataProducts/dataProductsSlice';
 import { loadStateFromStorage, saveStateToStorage } from '../utils/persistence';
 import { authMiddleware } from '../middleware/authMiddleware';
 import insightsReducer from '../features/tableInsights/tableInsightsSlice';
+import savedSearchesReducer from '../features/savedSearches/savedSearchesSlice';
+import favoritesReducer from '../features/favorites/favoritesSlice';
+import watchlistReducer from '../features/watchlist/watchlistSlice';
+import searchExportReducer from '../features/searchExport/searchExportSlice';
+import compareReducer from '../features/compare/compareSlice';
+import impactAnalysisReducer from '../features/impactAnalysis/impactAnalysisSlice';
+import dataQualityDashboardReducer from '../features/dataQualityDashboard/dataQualityDashboardSlice';
 
 
 // Load persisted state from localStorage
@@ -34,6 +41,13 @@ const store = configureStore({
     glossaries: glossariesReducer,
     dataProducts: dataProductsReducer,
     insights: insightsReducer,
+    savedSearches: savedSearchesReducer,
+    favorites: favoritesReducer,
+    watchlist: watchlistReducer,
+    searchExport: searchExportReducer,
+    compare: compareReducer,
+    impactAnalysis: impactAnalysisReducer,
+    dataQualityDashboard: dataQualityDashboardReducer,
   },
   preloadedState: persistedState,
   middleware: (getDefaultMiddleware) => 
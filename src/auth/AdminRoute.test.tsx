@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import axios from 'axios';
+import { AdminRoute, isAdminUser } from './AdminRoute';
+import type { User } from '../types/User';
+
+// Mock useAuth hook
+const mockUseAuth = vi.fn();
+vi.mock('./AuthProvider', () => ({
+  useAuth: () => mockUseAuth(),
+}));
+
+vi.mock('axios');
+
+// Mock Navigate component
+const mockNavigate = vi.fn();
+vi.mock('react-router-dom', () => ({
+  Navigate: ({ to }: { to: string }) => {
+    mockNavigate(to);
+    return <div data-testid="navigate-mock">Redirecting to {to}</div>;
+  },
+}));
+
+const user = (appConfig: Record<string, unknown> | undefined): User => ({
+  name: 'Test User',
+  email: 'test@example.com',
+  picture: undefined,
+  token: 'test-token',
+  tokenExpiry: 9999999999,
+  tokenIssuedAt: 9999999900,
+  hasRole: true,
+  roles: [],
+  permissions: [],
+  appConfig,
+});
+
+const renderRoute = () => render(
+  <AdminRoute>
+    <div data-testid="admin-content">Admin Panel</div>
+  </AdminRoute>
+);
+
+describe('AdminRoute', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('renders the page for admins', () => {
+    mockUseAuth.mockReturnValue({ user: user({ isAdmin: true }) });
+
+    renderRoute();
+
+    expect(screen.getByTestId('admin-content')).toBeInTheDocument();
+    expect(mockNavigate).not.toHaveBeenCalled();
+  });
+
+  it('sends everyone else home', () => {
+    mockUseAuth.mockReturnValue({ user: user({ isAdmin: false }) });
+    renderRoute();
+    expect(mockNavigate).toHaveBeenCalledWith('/home');
+    expect(screen.queryByTestId('admin-content')).not.toBeInTheDocument();
+    expect(axios.get).not.toHaveBeenCalled();
+  });
+
+  it('loads the app config before deciding when the page is opened directly', async () => {
+    const mockUpdateUser = vi.fn();
+    mockUseAuth.mockReturnValue({ user: user({}), updateUser: mockUpdateUser });
+    vi.mocked(axios.get).mockResolvedValue({ data: { isAdmin: true } });
+
+    renderRoute();
+
+    expect(screen.getByRole('progressbar')).toBeInTheDocument();
+    expect(mockNavigate).not.toHaveBeenCalled();
+    await waitFor(() => {
+      expect(mockUpdateUser).toHaveBeenCalledWith('test-token', expect.objectContaining({ appConfig: { isAdmin: true } }));
+    });
+    expect(axios.get).toHaveBeenCalledWith(expect.stringContaining('/app-configs'), {
+      headers: { Authorization: 'Bearer test-token' },
+    });
+  });
+
+  it('sends the user home when the app config cannot be loaded', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockUseAuth.mockReturnValue({ user: user({}), updateUser: vi.fn() });
+    vi.mocked(axios.get).mockRejectedValue(new Error('Network Error'));
+
+    renderRoute();
+
+    await waitFor(() => {
+      expect(mockNavigate).toHaveBeenCalledWith('/home');
+    });
+    expect(screen.queryByTestId('admin-content')).not.toBeInTheDocument();
+  });
+
+  it('reads the admin flag from the app config', () => {
+    expect(isAdminUser(user({ isAdmin: true }))).toBe(true);
+    expect(isAdminUser(user(undefined))).toBe(false);
+    expect(isAdminUser(null)).toBe(false);
+  });
+});
@@ -0,0 +1,58 @@
+import React, { useEffect, useState } from 'react';
+import { Navigate } from 'react-router-dom';
+import { Box, CircularProgress } from '@mui/material';
+import axios from 'axios';
+import { useAuth } from './AuthProvider';
+import { URLS } from '../constants/urls';
+import type { User } from '../types/User';
+
+type Props = {
+  children: React.ReactElement;
+};
+
+/** Whether `/app-configs` reported the signed-in user as an admin. */
+export const isAdminUser = (user: User | null) => !!user?.appConfig?.isAdmin;
+
+/** Whether the session holds an app config; sign-in starts it as `{}`. */
+const hasAppConfig = (user: User | null) => Object.keys(user?.appConfig ?? {}).length > 0;
+
+// Goes inside ProtectedRoute. A deep link can arrive before /home has loaded the
+// app config, so load it here before deciding; non-admins go to /home and the
+// backend checks again on save.
+export const AdminRoute = ({ children }: Props) => {
+  const { user, updateUser } = useAuth();
+  const configLoaded = hasAppConfig(user);
+  const [configChecked, setConfigChecked] = useState(false);
+
+  useEffect(() => {
+    if (!user || configLoaded || configChecked) return;
+    let cancelled = false;
+    axios.get(URLS.API_URL + URLS.APP_CONFIG, {
+      headers: { Authorization: `Bearer ${user.token}` },
+    })
+      .then((res) => {
+        if (cancelled) return;
+        setConfigChecked(true);
+        updateUser(user.token, { ...user, appConfig: res.data });
+      })
+      .catch((err) => {
+        console.error('[AdminRoute] Could not load the app config:', err);
+        if (!cancelled) setConfigChecked(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [user, configLoaded, configChecked, updateUser]);
+
+  if (!configLoaded && !configChecked) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '100vh' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+  if (!isAdminUser(user)) {
+    return <Navigate to="/home" replace />;
+  }
+  return children;
+};
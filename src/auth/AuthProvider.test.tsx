@@ -514,6 +514,8 @@ describe('AuthProvider', () => {
       expect(mockDispatch).toHaveBeenCalledWith(
         expect.objectContaining({ type: 'projects/setIsLoaded', payload: { isloaded: false } })
       );
+      expect(mockDispatch).toHaveBeenCalledWith({ type: 'favorites/resetFavorites', payload: undefined });
+      expect(mockDispatch).toHaveBeenCalledWith({ type: 'watchlist/resetWatchlist', payload: undefined });
       expect(localStorageMock.removeItem).toHaveBeenCalledWith('sessionUserData');
       expect(mockClearPersistedState).toHaveBeenCalled();
       expect(mockShowInfo).toHaveBeenCalledWith('You have been signed out.', 3000);
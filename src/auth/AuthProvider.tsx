@@ -10,6 +10,10 @@ import { setGlobalAuthFunctions, setAuthNotificationShown } from '../services/au
 import { performSilentAuth } from '../services/silentAuthService';
 import { AUTH_CONFIG } from '../constants/auth';
 import { setIsLoaded } from '../features/projects/projectsSlice';
+import { invalidateDataplexCache } from '../api/dataplexClient';
+import { resetFavorites } from '../features/favorites/favoritesSlice';
+import { resetWatchlist } from '../features/watchlist/watchlistSlice';
+import { isMockBackendEnabled, MOCK_ACCESS_TOKEN } from '../mocks/mockBackendFlag';
 
 
 type AuthContextType = {
@@ -112,9 +116,12 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     revokeGoogleToken(user?.token || '');
     dispatch(setCredentials({token: null, user: null}));
     dispatch(setIsLoaded({ isloaded: false }));
+    dispatch(resetFavorites());
+    dispatch(resetWatchlist());
     localStorage.removeItem('sessionUserData');
     setUser(null);
     clearPersistedState(); // Clear persisted Redux state
+    invalidateDataplexCache(); // Don't serve this user's responses to the next one
     showInfo('You have been signed out.', 3000);
   }, [dispatch, showInfo]);
 
@@ -142,10 +149,9 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
 
     try {
       console.log('[Silent Auth] Attempting silent authentication for', user.email);
-      const newToken = await performSilentAuth(
-        user.email,
-        import.meta.env.VITE_GOOGLE_CLIENT_ID
-      );
+      const newToken = isMockBackendEnabled()
+        ? MOCK_ACCESS_TOKEN
+        : await performSilentAuth(user.email, import.meta.env.VITE_GOOGLE_CLIENT_ID);
 
       // Update token and expiry
       const tokenIssuedAt = Math.floor(Date.now() / 1000);
@@ -171,6 +177,9 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   }, [user, updateUser]);
 
   const revokeGoogleToken = async (token: string) => {
+    // Mock backend tokens were never issued by Google
+    if (isMockBackendEnabled()) return;
+
     // The token to revoke is sent in the request body as a URL-encoded parameter
     const response = await fetch('https://oauth2.googleapis.com/revoke', {
       method: 'POST',
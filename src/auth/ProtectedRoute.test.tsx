@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen } from '@testing-library/react';
 import { ProtectedRoute } from './ProtectedRoute';
 import type { User } from '../types/User';
+import { AUTH_CONFIG } from '../constants/auth';
 
 // Mock useAuth hook
 const mockUseAuth = vi.fn();
@@ -120,6 +121,21 @@ describe('ProtectedRoute', () => {
       expect(mockNavigate).toHaveBeenCalledWith('/');
       expect(screen.queryByTestId('protected-content')).not.toBeInTheDocument();
     });
+
+    it('should save the current location for the post-login redirect', () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      window.history.pushState({}, '', '/search?q=orders&view=table');
+
+      render(
+        <ProtectedRoute>
+          <div data-testid="protected-content">Protected Content</div>
+        </ProtectedRoute>
+      );
+
+      expect(sessionStorage.getItem(AUTH_CONFIG.REDIRECT_URL_STORAGE_KEY)).toBe('/search?q=orders&view=table');
+      sessionStorage.clear();
+      window.history.pushState({}, '', '/');
+    });
   });
 
   describe('edge cases', () => {
@@ -1,6 +1,7 @@
 import React from 'react';
 import { Navigate } from 'react-router-dom';
 import { useAuth } from './AuthProvider';
+import { saveCurrentLocationForRedirect } from '../services/urlPreservationService';
 
 type Props = {
   children: React.ReactElement;
@@ -8,6 +9,10 @@ type Props = {
 
 export const ProtectedRoute = ({ children }: Props) => {
   const { user } = useAuth();
-  if (!user) return <Navigate to="/" />;
+  if (!user) {
+    // Remember deep links (e.g. a shared /search URL) so sign-in lands back on them
+    saveCurrentLocationForRedirect();
+    return <Navigate to="/" />;
+  }
   return children;
 };
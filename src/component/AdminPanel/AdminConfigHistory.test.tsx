@@ -0,0 +1,90 @@
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import '@testing-library/jest-dom';
+import axios from 'axios';
+import AdminConfigHistory from './AdminConfigHistory';
+
+// Mock axios
+vi.mock('axios');
+const mockedAxios = axios as any;
+
+const config = (products: string[], aspectNames: Record<string, string[]> = {}) => ({
+  products,
+  assets: {},
+  aspectTypes: Object.keys(aspectNames),
+  aspectNames,
+});
+
+// Newest first, as the backend lists them
+const revisions = [
+  { version: 3, updatedAt: '2026-03-02T10:00:00Z', updatedBy: 'bob@example.com', comment: 'Drop Contacts', restoredFrom: null, config: config(['BigQuery', 'Spanner']) },
+  { version: 2, updatedAt: '2026-03-01T10:00:00Z', updatedBy: 'alice@example.com', comment: 'Add Spanner', restoredFrom: null, config: config(['BigQuery', 'Spanner'], { Contacts: ['Owner'] }) },
+  { version: 1, updatedAt: '2026-02-01T10:00:00Z', updatedBy: 'alice@example.com', comment: '', restoredFrom: null, config: config(['BigQuery'], { Contacts: ['Owner'] }) },
+];
+
+const renderHistory = (onRestored = vi.fn()) => {
+  render(<AdminConfigHistory id_token="token" onClose={vi.fn()} onRestored={onRestored} />);
+  return onRestored;
+};
+
+describe('AdminConfigHistory', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockedAxios.get.mockResolvedValue({ data: { currentVersion: 3, revisions } });
+  });
+
+  it('lists the revisions and compares the latest two', async () => {
+    renderHistory();
+
+    const table = await screen.findByRole('table', { name: 'Configuration revisions' });
+    expect(mockedAxios.get.mock.calls[0][0]).toContain('/admin/config/revisions');
+    const rows = within(table).getAllByRole('row').slice(1);
+    expect(rows).toHaveLength(3);
+    expect(within(rows[0]).getByText('Current')).toBeInTheDocument();
+    expect(within(rows[0]).queryByText('Roll back')).not.toBeInTheDocument();
+    expect(within(rows[1]).getByText('Add Spanner')).toBeInTheDocument();
+
+    const changes = within(screen.getByRole('table', { name: 'Configuration changes' })).getAllByRole('row').slice(1);
+    expect(changes.map((row) => within(row).getAllByRole('cell').map((cell) => cell.textContent))).toEqual([
+      ['Browse aspect types', '-', '-', 'Contacts'],
+      ['Browse aspect names', 'Contacts (deleted)', '-', 'Owner'],
+    ]);
+
+    fireEvent.mouseDown(screen.getByRole('combobox', { name: 'From' }));
+    fireEvent.click(screen.getByRole('option', { name: 'Version 1' }));
+    expect(within(screen.getByRole('table', { name: 'Configuration changes' })).getByText('Spanner')).toBeInTheDocument();
+
+    fireEvent.mouseDown(screen.getByRole('combobox', { name: 'From' }));
+    fireEvent.click(screen.getByRole('option', { name: 'Version 3 (current)' }));
+    expect(screen.getByText('No differences between these versions.')).toBeInTheDocument();
+  });
+
+  it('rolls back to a revision with a comment', async () => {
+    mockedAxios.post.mockResolvedValue({ data: { success: true, version: 4 } });
+    const onRestored = renderHistory();
+
+    const table = await screen.findByRole('table', { name: 'Configuration revisions' });
+    fireEvent.click(within(within(table).getAllByRole('row')[2]).getByText('Roll back'));
+    expect(screen.getByText('Roll back to version 2?')).toBeInTheDocument();
+    fireEvent.change(screen.getByLabelText('Comment'), { target: { value: 'Browse page broke' } });
+    fireEvent.click(within(screen.getByRole('dialog')).getByRole('button', { name: 'Roll back' }));
+
+    await waitFor(() => {
+      expect(onRestored).toHaveBeenCalledWith({ success: true, version: 4 });
+    });
+    expect(mockedAxios.post.mock.calls[0][0]).toContain('/admin/config/revisions/2/restore');
+    expect(mockedAxios.post.mock.calls[0][1]).toEqual({ comment: 'Browse page broke', expectedVersion: 3 });
+  });
+
+  it('shows why a rollback failed', async () => {
+    mockedAxios.post.mockRejectedValue({ response: { status: 409, data: { error: 'The configuration was changed by someone else (version 4). Reload and try again.' } } });
+    const onRestored = renderHistory();
+
+    const table = await screen.findByRole('table', { name: 'Configuration revisions' });
+    fireEvent.click(within(within(table).getAllByRole('row')[3]).getByText('Roll back'));
+    fireEvent.click(within(screen.getByRole('dialog')).getByRole('button', { name: 'Roll back' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('changed by someone else');
+    expect(onRestored).not.toHaveBeenCalled();
+  });
+});
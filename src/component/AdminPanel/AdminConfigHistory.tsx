@@ -0,0 +1,317 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+import { Close } from '@mui/icons-material';
+import axios from 'axios';
+import { URLS } from '../../constants/urls';
+import {
+  ADMIN_CONFIG_FIELD_LABELS,
+  diffAdminConfigs,
+  type AdminConfigRevision,
+} from '../../utils/adminConfigDiff';
+
+/**
+ * @file AdminConfigHistory.tsx
+ * @summary Renders the revision history of the admin configuration.
+ *
+ * @description
+ * Shown in a side panel of the `AdminPanel`. It loads every saved version of
+ * the app-wide defaults from `URLS.ADMIN_CONFIG_REVISIONS` and shows:
+ * 1.  **Compare**: two version pickers ("From" / "To", the previous and the
+ * current version by default) and the field-level differences between them
+ * (`utils/adminConfigDiff`).
+ * 2.  **Revisions**: every version, newest first, with who saved it, when and
+ * their comment. Any version but the current one can be rolled back to: after
+ * a confirmation (with an optional comment) its config is saved as the next
+ * version, and `onRestored` receives the backend response.
+ *
+ * @param {object} props - The props for the AdminConfigHistory component.
+ * @param {string} props.id_token - The user's access token.
+ * @param {() => void} props.onClose - Called when the Close button is clicked.
+ * @param {(response: any) => void} props.onRestored - Called with the saved
+ * config after a rollback.
+ *
+ * @returns {JSX.Element} The rendered revision history.
+ */
+
+interface AdminConfigHistoryProps {
+  id_token: string;
+  onClose: () => void;
+  onRestored: (response: any) => void;
+}
+
+const formatRevisionDate = (value: string | null) =>
+  (value ? new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' }).format(new Date(value)) : '-');
+
+const sectionTitleSx = {
+  fontSize: '1rem',
+  fontWeight: 500,
+  color: 'var(--sys-on-surface)',
+  lineHeight: '1.5em'
+};
+
+const cellSx = {
+  padding: '0.5rem',
+  fontSize: '0.75rem',
+  color: 'var(--sys-on-surface)',
+  verticalAlign: 'top',
+  borderBottom: '1px solid var(--sys-outline-variant)'
+};
+
+const headCellSx = {
+  ...cellSx,
+  fontWeight: 500,
+  color: 'var(--sys-on-surface-variant)',
+  backgroundColor: 'var(--sys-surface-container)'
+};
+
+const AdminConfigHistory = ({ id_token, onClose, onRestored }: AdminConfigHistoryProps) => {
+  const [revisions, setRevisions] = useState<AdminConfigRevision[]>([]);
+  const [currentVersion, setCurrentVersion] = useState<number | null>(null);
+  const [status, setStatus] = useState<'loading' | 'succeeded' | 'failed'>('loading');
+  const [fromVersion, setFromVersion] = useState<number | ''>('');
+  const [toVersion, setToVersion] = useState<number | ''>('');
+  const [rollbackVersion, setRollbackVersion] = useState<number | null>(null);
+  const [rollbackComment, setRollbackComment] = useState('');
+  const [rollbackError, setRollbackError] = useState('');
+  const [isRollingBack, setIsRollingBack] = useState(false);
+
+  const headers = { Authorization: `Bearer ${id_token}` };
+
+  const loadRevisions = () => {
+    setStatus('loading');
+    axios.get(URLS.API_URL + URLS.ADMIN_CONFIG_REVISIONS, { headers })
+      .then((response) => {
+        const list: AdminConfigRevision[] = response.data?.revisions ?? [];
+        setRevisions(list);
+        setCurrentVersion(response.data?.currentVersion ?? null);
+        // Revisions come newest first: compare the latest change by default
+        setToVersion(list[0]?.version ?? '');
+        setFromVersion(list[1]?.version ?? list[0]?.version ?? '');
+        setStatus('succeeded');
+      })
+      .catch((error) => {
+        console.error('Error loading configuration history:', error);
+        setStatus('failed');
+      });
+  };
+
+  useEffect(() => {
+    loadRevisions();
+  }, [id_token]);
+
+  const changes = useMemo(() => {
+    const from = revisions.find((revision) => revision.version === fromVersion);
+    const to = revisions.find((revision) => revision.version === toVersion);
+    return from && to ? diffAdminConfigs(from.config, to.config) : [];
+  }, [revisions, fromVersion, toVersion]);
+
+  const handleRollbackClose = () => {
+    setRollbackVersion(null);
+    setRollbackComment('');
+    setRollbackError('');
+  };
+
+  const handleRollbackConfirm = () => {
+    if (rollbackVersion === null) return;
+    setIsRollingBack(true);
+    axios.post(
+      `${URLS.API_URL}${URLS.ADMIN_CONFIG_REVISIONS}/${rollbackVersion}/restore`,
+      { comment: rollbackComment, expectedVersion: currentVersion },
+      { headers: { ...headers, 'Content-Type': 'application/json' } }
+    ).then((response) => {
+      handleRollbackClose();
+      onRestored(response.data);
+      loadRevisions();
+    }).catch((error) => {
+      console.error('Error rolling back configuration:', error);
+      setRollbackError(error?.response?.data?.error || 'Error rolling back the configuration. Please try again.');
+    }).finally(() => {
+      setIsRollingBack(false);
+    });
+  };
+
+  const versionOptions = revisions.map((revision) => (
+    <MenuItem key={revision.version} value={revision.version}>
+      {`Version ${revision.version}${revision.version === currentVersion ? ' (current)' : ''}`}
+    </MenuItem>
+  ));
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: '1.25rem', padding: '1.25rem', height: '100%', boxSizing: 'border-box', overflowY: 'auto' }}>
+      {/* Header */}
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <Typography sx={{ fontSize: '1.125rem', fontWeight: 500, color: 'var(--sys-on-surface)', lineHeight: '1.33em' }}>
+          Configuration History
+        </Typography>
+        <IconButton aria-label="Close" onClick={onClose} sx={{ color: 'var(--sys-on-surface)', width: '24px', height: '24px' }}>
+          <Close sx={{ fontSize: '24px' }} />
+        </IconButton>
+      </Box>
+
+      {status === 'loading' && (
+        <Box sx={{ display: 'flex', justifyContent: 'center', padding: '40px' }}>
+          <CircularProgress size={32} />
+        </Box>
+      )}
+      {status === 'failed' && (
+        <Typography sx={{ fontSize: '0.875rem', color: 'var(--sys-error)' }}>
+          Unable to load the configuration history.
+        </Typography>
+      )}
+
+      {status === 'succeeded' && (
+        <>
+          {/* Compare */}
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+            <Typography sx={sectionTitleSx}>Compare</Typography>
+            <Box sx={{ display: 'flex', gap: '12px' }}>
+              <TextField select size="small" label="From" value={fromVersion} onChange={(e) => setFromVersion(Number(e.target.value))} sx={{ flex: 1 }}>
+                {versionOptions}
+              </TextField>
+              <TextField select size="small" label="To" value={toVersion} onChange={(e) => setToVersion(Number(e.target.value))} sx={{ flex: 1 }}>
+                {versionOptions}
+              </TextField>
+            </Box>
+            {changes.length === 0 ? (
+              <Typography sx={{ fontSize: '0.875rem', color: 'var(--sys-on-surface-muted)' }}>
+                No differences between these versions.
+              </Typography>
+            ) : (
+              <Table size="small" aria-label="Configuration changes">
+                <TableHead>
+                  <TableRow>
+                    <TableCell sx={headCellSx}>Field</TableCell>
+                    <TableCell sx={headCellSx}>Entry</TableCell>
+                    <TableCell sx={headCellSx}>Added</TableCell>
+                    <TableCell sx={headCellSx}>Removed</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {changes.map((change) => (
+                    <TableRow key={`${change.field}|${change.key}`}>
+                      <TableCell sx={cellSx}>{ADMIN_CONFIG_FIELD_LABELS[change.field]}</TableCell>
+                      <TableCell sx={cellSx}>
+                        {change.key || '-'}
+                        {change.kind !== 'changed' && (
+                          <Typography component="span" sx={{ fontSize: '0.6875rem', color: 'var(--sys-on-surface-muted)' }}>
+                            {change.kind === 'added' ? ' (new)' : ' (deleted)'}
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell sx={{ ...cellSx, color: 'var(--sys-success)' }}>{change.added.join(', ') || '-'}</TableCell>
+                      <TableCell sx={{ ...cellSx, color: 'var(--sys-error)' }}>{change.removed.join(', ') || '-'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </Box>
+
+          {/* Revisions */}
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+            <Typography sx={sectionTitleSx}>Revisions</Typography>
+            <Table size="small" aria-label="Configuration revisions">
+              <TableHead>
+                <TableRow>
+                  <TableCell sx={headCellSx}>Version</TableCell>
+                  <TableCell sx={headCellSx}>Saved</TableCell>
+                  <TableCell sx={headCellSx}>By</TableCell>
+                  <TableCell sx={headCellSx}>Comment</TableCell>
+                  <TableCell sx={headCellSx} />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {revisions.map((revision) => (
+                  <TableRow key={revision.version}>
+                    <TableCell sx={cellSx}>
+                      {revision.version}
+                      {revision.version === currentVersion && (
+                        <Chip label="Current" size="small" sx={{ marginLeft: '6px', height: '18px', fontSize: '0.625rem' }} />
+                      )}
+                    </TableCell>
+                    <TableCell sx={cellSx}>{formatRevisionDate(revision.updatedAt)}</TableCell>
+                    <TableCell sx={cellSx}>{revision.updatedBy || '-'}</TableCell>
+                    <TableCell sx={cellSx}>
+                      {revision.comment || '-'}
+                      {revision.restoredFrom !== null && (
+                        <Typography sx={{ fontSize: '0.6875rem', color: 'var(--sys-on-surface-muted)' }}>
+                          {`Restored version ${revision.restoredFrom}`}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell sx={{ ...cellSx, textAlign: 'right' }}>
+                      {revision.version !== currentVersion && (
+                        <Button
+                          size="small"
+                          onClick={() => setRollbackVersion(revision.version)}
+                          sx={{ textTransform: 'none', fontSize: '0.75rem', whiteSpace: 'nowrap', color: 'var(--sys-primary)' }}
+                        >
+                          Roll back
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Box>
+        </>
+      )}
+
+      {/* Rollback confirmation */}
+      <Dialog open={rollbackVersion !== null} onClose={handleRollbackClose} maxWidth="xs" fullWidth>
+        <DialogTitle sx={{ fontWeight: 600, fontSize: '20px', color: 'var(--sys-on-surface)' }}>
+          {`Roll back to version ${rollbackVersion}?`}
+        </DialogTitle>
+        <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+          <Typography sx={{ fontSize: '0.875rem', color: 'var(--sys-on-surface-muted)' }}>
+            Its configuration is saved as a new version, for every user.
+          </Typography>
+          <TextField
+            label="Comment"
+            size="small"
+            value={rollbackComment}
+            onChange={(e) => setRollbackComment(e.target.value)}
+            inputProps={{ maxLength: 500 }}
+          />
+          {rollbackError && (
+            <Typography role="alert" sx={{ fontSize: '0.875rem', color: 'var(--sys-error)' }}>
+              {rollbackError}
+            </Typography>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleRollbackClose} sx={{ textTransform: 'none' }}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleRollbackConfirm}
+            disabled={isRollingBack}
+            sx={{ textTransform: 'none', backgroundColor: 'var(--sys-primary)', color: 'var(--sys-on-primary)' }}
+          >
+            Roll back
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default AdminConfigHistory;
@@ -46,6 +46,17 @@ vi.mock('../MultiSelect/MultiSelect', () => ({
   }
 }));
 
+vi.mock('./AdminConfigHistory', () => ({
+  default: ({ onClose, onRestored }: any) => (
+    <div data-testid="config-history">
+      <button onClick={onClose}>Close History</button>
+      <button onClick={() => onRestored({ version: 7, config: { defaultSearchProduct: ['Spanner'], defaultSearchAssets: { Spanner: ['Tables'] }, browseByAspectTypes: {}, browseByAspectTypesLabels: [] } })}>
+        Restore
+      </button>
+    </div>
+  ),
+}));
+
 describe('AdminPanel', () => {
   const mockUser = {
     name: 'Test User',
@@ -285,6 +296,85 @@ describe('AdminPanel', () => {
     });
   });
 
+  it('sends the edited version and keeps the new one after saving', async () => {
+    mockedAxios.post
+      .mockResolvedValueOnce({ data: { 'Tables': ['Schema'], 'Datasets': ['Schema'] } })
+      .mockResolvedValueOnce({ data: { success: true, version: 4 } });
+    const mockUpdateUser = vi.fn();
+
+    render(
+      <Provider store={store}>
+        <BrowserRouter>
+          <AuthContext.Provider value={{ ...mockAuthContextValue, updateUser: mockUpdateUser, user: { ...mockUser, appConfig: { ...mockUser.appConfig, isAdmin: true, configVersion: 3 } } }}>
+            <AdminPanel />
+          </AuthContext.Provider>
+        </BrowserRouter>
+      </Provider>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByRole('button', { name: /save/i })).toBeInTheDocument();
+    });
+    fireEvent.click(screen.getByRole('button', { name: /save/i }));
+    fireEvent.change(screen.getByLabelText('Comment (optional)'), { target: { value: 'Add BigQuery' } });
+    fireEvent.click(screen.getByText('Yes'));
+
+    await waitFor(() => {
+      expect(screen.getByText('Configuration saved successfully!')).toBeInTheDocument();
+    });
+    expect(mockedAxios.post.mock.calls[1][1]).toMatchObject({ products: ['BigQuery'], comment: 'Add BigQuery', expectedVersion: 3 });
+
+    fireEvent.click(screen.getByText('OK'));
+    expect(mockUpdateUser.mock.calls[0][1].appConfig).toMatchObject({ isAdmin: true, configVersion: 4 });
+  });
+
+  it('opens the configuration history and applies a rollback', async () => {
+    const mockUpdateUser = vi.fn();
+    render(
+      <Provider store={store}>
+        <BrowserRouter>
+          <AuthContext.Provider value={{ ...mockAuthContextValue, updateUser: mockUpdateUser }}>
+            <AdminPanel />
+          </AuthContext.Provider>
+        </BrowserRouter>
+      </Provider>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByRole('button', { name: 'History' })).toBeInTheDocument();
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'History' }));
+    fireEvent.click(screen.getByText('Restore'));
+
+    expect(screen.getByText('Configuration rolled back. It is now version 7.')).toBeInTheDocument();
+    expect(screen.getByTestId('products-input')).toHaveValue('Spanner');
+
+    fireEvent.click(screen.getByText('OK'));
+    expect(mockUpdateUser.mock.calls[0][1].appConfig).toMatchObject({
+      defaultSearchProduct: ['Spanner'],
+      defaultSearchAssets: { Spanner: ['Tables'] },
+      configVersion: 7,
+    });
+  });
+
+  it('shows why the backend refused the save', async () => {
+    mockedAxios.post
+      .mockResolvedValueOnce({ data: { 'Tables': ['Schema'], 'Datasets': ['Schema'] } })
+      .mockRejectedValueOnce({ response: { status: 403, data: { error: 'Forbidden: only admins can change the configuration.' } } });
+
+    renderAdminPanel();
+
+    await waitFor(() => {
+      expect(screen.getByRole('button', { name: /save/i })).toBeInTheDocument();
+    });
+    fireEvent.click(screen.getByRole('button', { name: /save/i }));
+    fireEvent.click(screen.getByText('Yes'));
+
+    await waitFor(() => {
+      expect(screen.getByText('Forbidden: only admins can change the configuration.')).toBeInTheDocument();
+    });
+  });
+
   it('navigates to home after successful save acknowledgment', async () => {
     // Mock both the initial load and the save call to succeed
     mockedAxios.post
@@ -1,8 +1,9 @@
 import { useState, useEffect } from 'react';
-import { Box, Typography, Button, Dialog, DialogTitle, DialogContent, DialogActions, CircularProgress, IconButton } from '@mui/material';
+import { Box, Typography, Button, Dialog, DialogTitle, DialogContent, DialogActions, CircularProgress, IconButton, TextField, Drawer } from '@mui/material';
 import { ArrowBack } from '@mui/icons-material';
 import { useNavigate } from 'react-router-dom';
 import MultiSelect from '../MultiSelect/MultiSelect';
+import AdminConfigHistory from './AdminConfigHistory';
 import axios from 'axios';
 import { URLS } from '../../constants/urls';
 import { useAuth } from '../../auth/AuthProvider';
@@ -24,13 +25,22 @@ import { useAuth } from '../../auth/AuthProvider';
  *
  * The component initializes its state from the `appConfig` object in the
  * `useAuth` context. It handles the save process, which includes:
- * - Showing a confirmation modal (`Dialog`) before saving.
+ * - Showing a confirmation modal (`Dialog`) before saving, where the admin can
+ * say why they changed the configuration (kept with the saved version).
  * - Making an API call (`axios.post`) to the `URLS.ADMIN_CONFIGURE` endpoint
- * with the new configuration.
- * - Displaying an acknowledgment modal (success or error) after the API call.
+ * with the new configuration and the `configVersion` it was edited from. The
+ * backend only accepts admins and rejects the save if someone else saved a
+ * newer version in the meantime.
+ * - Displaying an acknowledgment modal (success or error, with the reason the
+ * backend gave) after the API call.
  * - On successful save, it updates the `appConfig` in the `AuthContext` via
  * `updateUser` and navigates back to the `/home` page.
  *
+ * A "History" button opens `AdminConfigHistory` in a side panel: every saved
+ * version, the differences between any two and a rollback to any of them.
+ * After a rollback the restored defaults replace the selections and, once
+ * acknowledged, the `appConfig` like a save does.
+ *
  * A loading state (`CircularProgress`) is shown while the dynamic aspect
  * options are being fetched.
  *
@@ -54,6 +64,9 @@ const AdminPanel = () => {
   const [products, setProducts] = useState<string[]>(user?.appConfig?.defaultSearchProduct || []);
   const [confirmModalOpen, setConfirmModalOpen] = useState(false);
   const [acknowledgeModalOpen, setAcknowledgeModalOpen] = useState(false);
+  const [savedVersion, setSavedVersion] = useState<number | undefined>(user?.appConfig?.configVersion);
+  const [comment, setComment] = useState('');
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const [acknowledgeModalData, setAcknowledgeModalData] = useState<{
     type: 'success' | 'error';
     message: string;
@@ -202,7 +215,9 @@ const AdminPanel = () => {
         aspectName: aspectNamesObj,
         aspectType: aspectType,
         assets: assetsObj,
-        products: apiProducts
+        products: apiProducts,
+        comment,
+        expectedVersion: savedVersion
       },
       {
         headers: {
@@ -212,6 +227,8 @@ const AdminPanel = () => {
       }
     ).then(response => {
       console.log('Configuration saved successfully:', response.data);
+      setSavedVersion(response.data?.version);
+      setComment('');
       setConfirmModalOpen(false);
       setAcknowledgeModalData({
         type: 'success',
@@ -221,9 +238,11 @@ const AdminPanel = () => {
     }).catch(error => {
       console.error('Error saving configuration:', error);
       setConfirmModalOpen(false);
+      // Not an admin (403), a newer version was saved (409) or an invalid value (400)
+      const reason = [400, 403, 409].includes(error?.response?.status) ? error.response.data?.error : '';
       setAcknowledgeModalData({
         type: 'error',
-        message: 'Error saving configuration. Please try again.'
+        message: reason || 'Error saving configuration. Please try again.'
       });
       setAcknowledgeModalOpen(true);
     });
@@ -233,16 +252,34 @@ const AdminPanel = () => {
     setConfirmModalOpen(false);
   };
 
+  // A rollback saved an older version as the current one
+  const handleRestored = (data: any) => {
+    const config = data?.config ?? {};
+    setIsHistoryOpen(false);
+    setProducts(config.defaultSearchProduct || []);
+    setSelectedAssetsByProduct(config.defaultSearchAssets || {});
+    setAspectType(config.browseByAspectTypesLabels || []);
+    setSelectedAspectNamesByType(config.browseByAspectTypes || {});
+    setSavedVersion(data?.version);
+    setAcknowledgeModalData({
+      type: 'success',
+      message: `Configuration rolled back. It is now version ${data?.version}.`
+    });
+    setAcknowledgeModalOpen(true);
+  };
+
   const handleAcknowledgeClose = () => {
     setAcknowledgeModalOpen(false);
     if (acknowledgeModalData.type === 'success') {
       let appConfig = {
+          ...user?.appConfig,
           aspects: user?.appConfig?.aspects,
           projects: user?.appConfig?.projects,
           defaultSearchProduct: products,
           defaultSearchAssets: selectedAssetsByProduct,
           browseByAspectTypes: selectedAspectNamesByType,
           browseByAspectTypesLabels: aspectType,
+          configVersion: savedVersion,
       };
       let userData = {
         name: user?.name,
@@ -265,7 +302,7 @@ const AdminPanel = () => {
   return !loading ? (
     <Box 
       sx={{ 
-        backgroundColor: '#F8FAFD', 
+        backgroundColor: 'var(--sys-background)', 
         minHeight: '100vh',
         padding: { xs: '0px 0.5rem', sm: '0px 1rem' },
         display: 'flex',
@@ -275,7 +312,7 @@ const AdminPanel = () => {
     >
       <Box
         sx={{
-          backgroundColor: '#FFFFFF',
+          backgroundColor: 'var(--sys-surface)',
           borderRadius: { xs: '16px', sm: '20px' },
           width: '100%',
           minHeight: '95vh',
@@ -299,7 +336,7 @@ const AdminPanel = () => {
             aria-label="Go back"
             onClick={() => navigate('/home')}
             sx={{
-              color: '#1F1F1F',
+              color: 'var(--sys-on-surface)',
               width: 36,
               height: 36,
               borderRadius: '8px',
@@ -315,11 +352,27 @@ const AdminPanel = () => {
               fontSize: { xs: '24px', sm: '28px' },
               lineHeight: '36px',
               letterSpacing: '0px',
-              color: '#1F1F1F'
+              color: 'var(--sys-on-surface)'
             }}
           >
             Admin Panel
           </Typography>
+          <Button
+            variant="outlined"
+            onClick={() => setIsHistoryOpen(true)}
+            sx={{
+              marginLeft: 'auto',
+              marginRight: { xs: '0px', sm: '160px' },
+              fontWeight: 500,
+              fontSize: '14px',
+              color: 'var(--sys-on-surface-muted)',
+              borderColor: 'var(--sys-on-surface-muted)',
+              borderRadius: '8px',
+              textTransform: 'none',
+            }}
+          >
+            History
+          </Button>
         </Box>
 
         {/* Search Sections */}
@@ -338,7 +391,7 @@ const AdminPanel = () => {
                 fontSize: '18px',
                 lineHeight: '24px',
                 letterSpacing: '0px',
-                color: '#575757',
+                color: 'var(--sys-on-surface-muted)',
                 marginBottom: '20px',
                 marginLeft: { xs: '0px', sm: '160px' },
                 textAlign: { xs: 'center', sm: 'left' }
@@ -379,7 +432,7 @@ const AdminPanel = () => {
                 fontSize: '18px',
                 lineHeight: '24px',
                 letterSpacing: '0px',
-                color: '#575757',
+                color: 'var(--sys-on-surface-muted)',
                 marginBottom: '20px',
                 marginRight: { xs: '0px', sm: '160px' },
                 textAlign: { xs: 'center', sm: 'left' }
@@ -438,14 +491,14 @@ const AdminPanel = () => {
                     fontWeight: 500,
                     fontSize: '14px',
                     lineHeight: '1.43em',
-                    color: '#575757',
-                    borderColor: '#575757',
+                    color: 'var(--sys-on-surface-muted)',
+                    borderColor: 'var(--sys-on-surface-muted)',
                     borderRadius: '8px',
                     padding: '12px 24px',
                     textTransform: 'none',
                     width: { xs: '100%', sm: 'auto' },
                     '&:hover': {
-                        borderColor: '#1F1F1F',
+                        borderColor: 'var(--sys-on-surface)',
                         backgroundColor: 'rgba(31, 31, 31, 0.04)',
                     },
                     }}
@@ -459,14 +512,14 @@ const AdminPanel = () => {
                     fontWeight: 500,
                     fontSize: '14px',
                     lineHeight: '1.43em',
-                    color: '#FFFFFF',
-                    backgroundColor: '#0E4DCA',
+                    color: 'var(--sys-on-primary)',
+                    backgroundColor: 'var(--sys-brand)',
                     borderRadius: '8px',
                     padding: '12px 24px',
                     textTransform: 'none',
                     width: { xs: '100%', sm: 'auto' },
                     '&:hover': {
-                        backgroundColor: '#0A3DA0',
+                        backgroundColor: 'var(--sys-brand-hover)',
                     },
                     }}
                 >
@@ -493,7 +546,7 @@ const AdminPanel = () => {
           fontWeight: 600,
           fontSize: '20px',
           lineHeight: '1.2em',
-          color: '#1F1F1F',
+          color: 'var(--sys-on-surface)',
           padding: '0 0 16px 0',
         }}>
           Confirm
@@ -503,10 +556,20 @@ const AdminPanel = () => {
             fontWeight: 400,
             fontSize: '16px',
             lineHeight: '1.5em',
-            color: '#575757',
+            color: 'var(--sys-on-surface-muted)',
           }}>
             Are you sure saving these configurations?
           </Typography>
+          <TextField
+            label="Comment (optional)"
+            placeholder="What changed and why"
+            size="small"
+            fullWidth
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            inputProps={{ maxLength: 500 }}
+            sx={{ marginTop: '16px' }}
+          />
         </DialogContent>
         <DialogActions sx={{
           padding: '0',
@@ -520,14 +583,14 @@ const AdminPanel = () => {
               fontWeight: 500,
               fontSize: '14px',
               lineHeight: '1.43em',
-              color: '#575757',
-              borderColor: '#575757',
+              color: 'var(--sys-on-surface-muted)',
+              borderColor: 'var(--sys-on-surface-muted)',
               borderRadius: '8px',
               padding: '10px 20px',
               textTransform: 'none',
               minWidth: '80px',
               '&:hover': {
-                borderColor: '#1F1F1F',
+                borderColor: 'var(--sys-on-surface)',
                 backgroundColor: 'rgba(31, 31, 31, 0.04)',
               },
             }}
@@ -541,14 +604,14 @@ const AdminPanel = () => {
               fontWeight: 500,
               fontSize: '14px',
               lineHeight: '1.43em',
-              color: '#FFFFFF',
-              backgroundColor: '#0E4DCA',
+              color: 'var(--sys-on-primary)',
+              backgroundColor: 'var(--sys-brand)',
               borderRadius: '8px',
               padding: '10px 20px',
               textTransform: 'none',
               minWidth: '80px',
               '&:hover': {
-                backgroundColor: '#0A3DA0',
+                backgroundColor: 'var(--sys-brand-hover)',
               },
             }}
           >
@@ -557,6 +620,26 @@ const AdminPanel = () => {
         </DialogActions>
       </Dialog>
 
+      {/* Configuration History */}
+      <Drawer
+        anchor="right"
+        open={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        PaperProps={{
+          sx: {
+            width: '45rem',
+            maxWidth: '100vw',
+            backgroundColor: 'var(--sys-surface)',
+          }
+        }}
+      >
+        <AdminConfigHistory
+          id_token={id_token}
+          onClose={() => setIsHistoryOpen(false)}
+          onRestored={handleRestored}
+        />
+      </Drawer>
+
       {/* Acknowledgment Modal */}
       <Dialog
         open={acknowledgeModalOpen}
@@ -574,7 +657,7 @@ const AdminPanel = () => {
           fontWeight: 600,
           fontSize: '20px',
           lineHeight: '1.2em',
-          color: acknowledgeModalData.type === 'success' ? '#0E4DCA' : '#D32F2F',
+          color: acknowledgeModalData.type === 'success' ? 'var(--sys-brand)' : 'var(--sys-danger)',
           padding: '0 0 16px 0',
         }}>
           {acknowledgeModalData.type === 'success' ? 'Success' : 'Error'}
@@ -584,7 +667,7 @@ const AdminPanel = () => {
             fontWeight: 400,
             fontSize: '16px',
             lineHeight: '1.5em',
-            color: '#575757',
+            color: 'var(--sys-on-surface-muted)',
           }}>
             {acknowledgeModalData.message}
           </Typography>
@@ -600,14 +683,14 @@ const AdminPanel = () => {
               fontWeight: 500,
               fontSize: '14px',
               lineHeight: '1.43em',
-              color: '#FFFFFF',
-              backgroundColor: acknowledgeModalData.type === 'success' ? '#0E4DCA' : '#D32F2F',
+              color: 'var(--sys-on-primary)',
+              backgroundColor: acknowledgeModalData.type === 'success' ? 'var(--sys-brand)' : 'var(--sys-danger)',
               borderRadius: '8px',
               padding: '10px 20px',
               textTransform: 'none',
               minWidth: '80px',
               '&:hover': {
-                backgroundColor: acknowledgeModalData.type === 'success' ? '#0A3DA0' : '#B71C1C',
+                backgroundColor: acknowledgeModalData.type === 'success' ? 'var(--sys-brand-hover)' : 'var(--sys-danger-hover)',
               },
             }}
           >
@@ -623,7 +706,7 @@ const AdminPanel = () => {
         justifyContent: 'center',
         alignItems: 'center',
         minHeight: '100vh',
-        backgroundColor: '#F8FAFD'
+        backgroundColor: 'var(--sys-background)'
       }}
     >
       <CircularProgress />
@@ -9,6 +9,7 @@ import {
 } from '@mui/icons-material';
 import FilterBar from '../Common/FilterBar';
 import type { ActiveFilter, PropertyConfig } from '../Common/FilterBar';
+import { getAnnotationAspectKeys } from '../../utils/entryModel';
 
 /**
  * @file AnnotationFilter.tsx
@@ -82,19 +83,9 @@ const AnnotationFilter: React.FC<AnnotationFilterProps> = ({
   // Get all unique annotation names from the entry
   const annotationNames = useMemo(() => {
     if (!entry?.aspects) return [];
-    const keys = Object.keys(entry.aspects);
-    const number = entry.entryType?.split('/')[1];
-
-    const names = keys
-      .filter(key => {
-        const aspect = entry.aspects[key];
-        return aspect.data !== null
-          && key !== `${number}.global.schema`
-          && key !== `${number}.global.overview`
-          && key !== `${number}.global.contacts`
-          && key !== `${number}.global.usage`
-          && !key.endsWith('.global.glossary-term-aspect');
-      })
+
+    const names = getAnnotationAspectKeys(entry)
+      .filter(key => entry.aspects[key].data !== null)
       .map(key => entry.aspects[key].aspectType.split('/').pop())
       .filter((name): name is string => !!name);
 
@@ -140,19 +131,15 @@ const AnnotationFilter: React.FC<AnnotationFilterProps> = ({
       return entry;
     }
 
-    const keys = Object.keys(entry.aspects);
-    const number = entry.entryType?.split('/')[1];
+    const annotationKeys = new Set(getAnnotationAspectKeys(entry));
     const filteredAspects: any = {};
 
-    keys.forEach(key => {
+    Object.keys(entry.aspects).forEach(key => {
       const aspect = entry.aspects[key];
       const annotationName = aspect.aspectType.split('/').pop();
 
       // Include aspect if it matches filter or is not an annotation
-      if (key === `${number}.global.schema` ||
-          key === `${number}.global.overview` ||
-          key === `${number}.global.contacts` ||
-          key === `${number}.global.usage` ||
+      if (!annotationKeys.has(key) ||
           (annotationName && filteredAnnotationNames.includes(annotationName))) {
         filteredAspects[key] = aspect;
       }
@@ -197,16 +184,16 @@ const AnnotationFilter: React.FC<AnnotationFilterProps> = ({
             sx={{
               width: '32px',
               height: '32px',
-              border: '1px solid #DADCE0',
+              border: '1px solid var(--sys-outline-variant)',
               borderRadius: '54px',
               padding: 0,
               flexShrink: 0,
-              '&:hover': { backgroundColor: '#F5F5F5' },
+              '&:hover': { backgroundColor: 'var(--sys-surface-container-grey)' },
             }}
           >
             {!isExpanded
-              ? <UnfoldMore sx={{ fontSize: '24px', color: '#1F1F1F' }} />
-              : <UnfoldLess sx={{ fontSize: '24px', color: '#1F1F1F' }} />
+              ? <UnfoldMore sx={{ fontSize: '24px', color: 'var(--sys-on-surface)' }} />
+              : <UnfoldLess sx={{ fontSize: '24px', color: 'var(--sys-on-surface)' }} />
             }
           </IconButton>
         </Tooltip>
@@ -77,7 +77,7 @@ const renderLeafKeyValuePairs = (fields: Record<string, any>): React.ReactNode =
               fontFamily: 'Google Sans Text, sans-serif',
               fontSize: '12px',
               fontWeight: 600,
-              color: '#575757',
+              color: 'var(--sys-on-surface-muted)',
             }}>
               {formatFieldName(key)}
             </span>
@@ -85,7 +85,7 @@ const renderLeafKeyValuePairs = (fields: Record<string, any>): React.ReactNode =
               fontFamily: 'Google Sans Text, sans-serif',
               fontSize: '12px',
               fontWeight: 400,
-              color: '#1F1F1F',
+              color: 'var(--sys-on-surface)',
               wordBreak: 'break-word',
             }}>
               {displayVal}
@@ -128,7 +128,7 @@ const FieldItem: React.FC<FieldItemProps> = ({
       fontFamily: 'Google Sans Text, sans-serif',
       fontSize: '12px',
       fontWeight: 400,
-      color: '#1F1F1F',
+      color: 'var(--sys-on-surface)',
       wordBreak: 'break-word',
       lineHeight: 1.5,
     };
@@ -196,9 +196,9 @@ const FieldItem: React.FC<FieldItemProps> = ({
                         }}
                       >
                         {itemExpanded ? (
-                          <ArrowDropDownIcon sx={{ fontSize: '20px', color: '#575757' }} />
+                          <ArrowDropDownIcon sx={{ fontSize: '20px', color: 'var(--sys-on-surface-muted)' }} />
                         ) : (
-                          <ArrowRightIcon sx={{ fontSize: '20px', color: '#575757' }} />
+                          <ArrowRightIcon sx={{ fontSize: '20px', color: 'var(--sys-on-surface-muted)' }} />
                         )}
                         {itemIcon && (
                           <img src={itemIcon} alt="" style={{ width: '16px', height: '16px', flexShrink: 0 }} />
@@ -207,7 +207,7 @@ const FieldItem: React.FC<FieldItemProps> = ({
                           fontFamily: 'Google Sans Text, sans-serif',
                           fontSize: '12px',
                           fontWeight: 600,
-                          color: '#575757',
+                          color: 'var(--sys-on-surface-muted)',
                           textTransform: 'capitalize',
                         }}>
                           {fieldName}
@@ -246,7 +246,7 @@ const FieldItem: React.FC<FieldItemProps> = ({
                     fontFamily: 'Google Sans Text, sans-serif',
                     fontSize: '12px',
                     fontWeight: 400,
-                    color: '#1F1F1F',
+                    color: 'var(--sys-on-surface)',
                     paddingLeft: '53px',
                     wordBreak: 'break-word',
                   }}>
@@ -272,7 +272,7 @@ const FieldItem: React.FC<FieldItemProps> = ({
                   fontFamily: 'Google Sans Text, sans-serif',
                   fontSize: '12px',
                   fontWeight: 400,
-                  color: '#1F1F1F',
+                  color: 'var(--sys-on-surface)',
                   wordBreak: 'break-word',
                 }}>
                   {simpleVal}
@@ -291,24 +291,24 @@ const FieldItem: React.FC<FieldItemProps> = ({
   // L2: depth=0, L3: depth=1
   const rowStyle: React.CSSProperties = isL2
     ? {
-        background: '#F8FAFD',
+        background: 'var(--sys-background)',
         padding: '12px 12px 12px 24px',
-        borderBottom: isLast ? 'none' : '1px solid #E9EEF6',
+        borderBottom: isLast ? 'none' : '1px solid var(--sys-surface-container-high)',
       }
     : isL3
     ? {
         padding: '0px 16px',
-        borderBottom: isLast ? 'none' : '1px solid #E9EEF6',
+        borderBottom: isLast ? 'none' : '1px solid var(--sys-surface-container-high)',
       }
     : {
-        borderBottom: isLast ? 'none' : '1px solid #E9EEF6',
+        borderBottom: isLast ? 'none' : '1px solid var(--sys-surface-container-high)',
       };
 
   const titleStyle: React.CSSProperties = {
     fontFamily: 'Google Sans Text, sans-serif',
     fontSize: '12px',
     fontWeight: isL2 ? 700 : 600,
-    color: '#575757',
+    color: 'var(--sys-on-surface-muted)',
     textTransform: 'capitalize',
   };
 
@@ -327,9 +327,9 @@ const FieldItem: React.FC<FieldItemProps> = ({
         }}
       >
         {isExpanded ? (
-          <ArrowDropDownIcon sx={{ fontSize: '20px', color: '#575757' }} />
+          <ArrowDropDownIcon sx={{ fontSize: '20px', color: 'var(--sys-on-surface-muted)' }} />
         ) : (
-          <ArrowRightIcon sx={{ fontSize: '20px', color: '#575757' }} />
+          <ArrowRightIcon sx={{ fontSize: '20px', color: 'var(--sys-on-surface-muted)' }} />
         )}
         {icon && (
           <img src={icon} alt="" style={{ width: '16px', height: '16px', flexShrink: 0 }} />
@@ -8,6 +8,7 @@ import {
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import { getAspectL1Icon } from '../../constants/aspectIcons';
 import FieldItem from './FieldItem';
+import { getAnnotationAspectKeys } from '../../utils/entryModel';
 
 /**
  * @file PreviewAnnotation.tsx
@@ -131,30 +132,11 @@ const PreviewAnnotation: React.FC<PreviewAnnotationProps> = ({
   isGlossary = false
 }) => {
 
-  const number = entry?.entryType?.split('/').length > 0 ? entry?.entryType.split('/')[1] : '0';
+  const aspects = entry?.aspects ?? {};
 
-  const globalAspectsToExclude = [
-    `${number}.global.refresh-cadence`
-  ];
-
-  const aspects = { ...entry?.aspects };
-
-  // Remove global aspects that should be excluded
-  globalAspectsToExclude.forEach(key => {
-    delete aspects?.[key];
-  });
-
-  const keys = Object.keys(aspects ?? {});
-
-  // Filter out global aspects to check if there are any displayable aspects
-  const displayableKeys = keys.filter((key) => {
-    const isSchema = key === `${number}.global.schema`;
-    const isOverview = key.endsWith('.global.overview');
-    const isContacts = key === `${number}.global.contacts`;
-    const isUsage = key === `${number}.global.usage`;
-    const isGlossaryTermAspect = key.endsWith('.global.glossary-term-aspect');
-    return !(isSchema || isOverview || isContacts || isUsage || isGlossaryTermAspect);
-  });
+  // Schema, documentation, contacts, usage, refresh cadence and glossary
+  // links have panels of their own
+  const displayableKeys = getAnnotationAspectKeys(entry);
 
   // State to track sub-field expansion (L2/L3)
   const [expandedFieldPaths, setExpandedFieldPaths] = useState<Set<string>>(new Set());
@@ -268,7 +250,7 @@ const PreviewAnnotation: React.FC<PreviewAnnotationProps> = ({
   const renderAnnotation = (fields: any, aspectKey: string) => {
     if (!fields || typeof fields !== 'object' || Object.keys(fields).length === 0) {
       return (
-        <div style={{ padding: '0.5rem', color: '#575757', fontStyle: 'italic', fontSize: '0.75rem' }}>
+        <div style={{ padding: '0.5rem', color: 'var(--sys-on-surface-muted)', fontStyle: 'italic', fontSize: '0.75rem' }}>
           No data available
         </div>
       );
@@ -326,17 +308,7 @@ const PreviewAnnotation: React.FC<PreviewAnnotationProps> = ({
   return (
     <>
       <div style={{ fontSize: "0.75rem", display: "flex", flexDirection: "column", flex: "1 1 auto", overflow: "hidden", borderRadius: '12px', ...css }}>
-        {keys.map((key) => {
-          const isSchema = key === `${number}.global.schema`;
-          const isOverview = key.endsWith('.global.overview');
-          const isContacts = key === `${number}.global.contacts`;
-          const isUsage = key === `${number}.global.usage`;
-          const isGlossaryTermAspect = key.endsWith('.global.glossary-term-aspect');
-
-          if (isSchema || isOverview || isContacts || isUsage || isGlossaryTermAspect) {
-            return null;
-          }
-
+        {displayableKeys.map((key) => {
           const isFirstAspect = key === displayableKeys[0];
           const isLastAspect = key === displayableKeys[displayableKeys.length - 1];
           const isSingleItem = displayableKeys.length === 1;
@@ -377,7 +349,7 @@ const PreviewAnnotation: React.FC<PreviewAnnotationProps> = ({
                 fontWeight: 500,
                 fontSize: isGlossary ? '0.7rem': '14px',
                 lineHeight: '20px',
-                color: "#575757",
+                color: "var(--sys-on-surface-muted)",
                 wordBreak: 'break-word',
                 overflow: 'hidden',
                 display: '-webkit-box',
@@ -402,7 +374,7 @@ const PreviewAnnotation: React.FC<PreviewAnnotationProps> = ({
                   background: "none",
                   boxShadow: "none",
                   '&:before': { display: 'none' },
-                  borderBottom: '1px solid #DADCE0',
+                  borderBottom: '1px solid var(--sys-outline-variant)',
                   ...(isFirstAspect && {
                     borderTopLeftRadius: '12px',
                     borderTopRightRadius: '12px',
@@ -428,7 +400,7 @@ const PreviewAnnotation: React.FC<PreviewAnnotationProps> = ({
                     backgroundColor: expandedItems.has(key) ? '#F0F4F8' : 'transparent',
                     cursor: 'pointer',
                     flexDirection: 'row',
-                    '&:hover': { backgroundColor: '#F0F4F8' },
+                    '&:hover': { backgroundColor: 'var(--sys-surface-container)' },
                     '& .MuiAccordionSummary-content': { margin: 0, overflow: 'hidden', minWidth: 0 },
                     '& .MuiAccordionSummary-expandIconWrapper': { display: 'none' },
                     ...(isFirstAspect && {
@@ -443,7 +415,7 @@ const PreviewAnnotation: React.FC<PreviewAnnotationProps> = ({
                 >
                   <ExpandMoreIcon sx={{
                     fontSize: '24px',
-                    color: '#575757',
+                    color: 'var(--sys-on-surface-muted)',
                     transform: expandedItems.has(key) ? 'rotate(0deg)' : 'rotate(-90deg)',
                     transition: 'transform 0.2s',
                     flexShrink: 0,
@@ -474,7 +446,7 @@ const PreviewAnnotation: React.FC<PreviewAnnotationProps> = ({
                   minHeight: '48px',
                   padding: '12px 8px',
                   backgroundColor: 'transparent',
-                  borderBottom: '1px solid #DADCE0',
+                  borderBottom: '1px solid var(--sys-outline-variant)',
                   cursor: 'default',
                   ...(isFirstAspect && {
                     borderTopLeftRadius: '12px',
@@ -489,7 +461,7 @@ const PreviewAnnotation: React.FC<PreviewAnnotationProps> = ({
               >
                 <ExpandMoreIcon sx={{
                   fontSize: '24px',
-                  color: '#DADCE0',
+                  color: 'var(--sys-outline-variant)',
                   transform: 'rotate(-90deg)',
                   flexShrink: 0,
                   marginRight: '4px',
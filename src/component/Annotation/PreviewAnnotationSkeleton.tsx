@@ -22,7 +22,7 @@ const L1Header: React.FC<{ nameWidth: number; expanded: boolean; isFirst: boolea
     gap: '12px',
     minHeight: '48px',
     padding: '12px 8px',
-    backgroundColor: expanded ? '#F0F4F8' : 'transparent',
+    backgroundColor: expanded ? 'var(--sys-surface-container)' : 'transparent',
     ...(isFirst && { borderTopLeftRadius: '12px', borderTopRightRadius: '12px' }),
     ...(isLast && !expanded && { borderBottomLeftRadius: '12px', borderBottomRightRadius: '12px' }),
   }}>
@@ -38,8 +38,8 @@ const L2Row: React.FC<{ nameWidth: number; isLast: boolean }> = ({ nameWidth, is
     alignItems: 'center',
     gap: '8px',
     padding: '8px 12px 8px 24px',
-    background: '#F8FAFD',
-    borderBottom: isLast ? 'none' : '1px solid #E9EEF6',
+    background: 'var(--sys-background)',
+    borderBottom: isLast ? 'none' : '1px solid var(--sys-surface-container-high)',
   }}>
     <Skeleton variant="circular" width={20} height={20} sx={{ flexShrink: 0 }} />
     <Skeleton variant="rounded" width={16} height={16} sx={{ borderRadius: '4px', flexShrink: 0 }} />
@@ -51,7 +51,7 @@ const PreviewAnnotationSkeleton: React.FC = () => {
   return (
     <Box data-testid="preview-annotation-skeleton" sx={{
       borderRadius: '12px',
-      border: '1px solid #DADCE0',
+      border: '1px solid var(--sys-outline-variant)',
       overflow: 'hidden',
     }}>
       {L1_NAME_WIDTHS.map((nameWidth, i) => {
@@ -61,7 +61,7 @@ const PreviewAnnotationSkeleton: React.FC = () => {
 
         return (
           <Box key={i} sx={{
-            borderBottom: isLast ? 'none' : '1px solid #DADCE0',
+            borderBottom: isLast ? 'none' : '1px solid var(--sys-outline-variant)',
           }}>
             <L1Header
               nameWidth={nameWidth}
@@ -70,7 +70,7 @@ const PreviewAnnotationSkeleton: React.FC = () => {
               isLast={isLast}
             />
             {expanded && (
-              <Box sx={{ backgroundColor: '#F0F4F8' }}>
+              <Box sx={{ backgroundColor: 'var(--sys-surface-container)' }}>
                 {L2_CONFIGS[i].map((fieldWidth, j) => (
                   <L2Row
                     key={j}
@@ -212,6 +212,21 @@ describe('LoginV2', () => {
       expect(mockGoogleLogin).toHaveBeenCalledTimes(3);
     });
 
+    it('should sign in with the mock token instead of Google when the mock backend is on', async () => {
+      vi.stubEnv('VITE_USE_MOCK_BACKEND', 'true');
+      const user = userEvent.setup();
+      render(<LoginV2 />);
+
+      await user.click(screen.getByRole('button'));
+
+      expect(mockGoogleLogin).not.toHaveBeenCalled();
+      expect(mockLogin).toHaveBeenCalledWith({ credential: 'mock-access-token' });
+      await waitFor(() => {
+        expect(mockNavigate).toHaveBeenCalledWith('/home', { replace: true });
+      });
+      vi.unstubAllEnvs();
+    });
+
     it('should configure useGoogleLogin with correct flow', () => {
       render(<LoginV2 />);
 
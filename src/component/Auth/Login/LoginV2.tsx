@@ -8,6 +8,7 @@ import { CircularProgress } from '@mui/material';
 import dataplexLogo from '../../../assets/svg/knowledge-catalog-logo.svg';
 import googleLogo from '../../../assets/images/google-logo-figma-53c44d.png';
 import { REQUIRED_SCOPES } from '../../../constants/auth';
+import { isMockBackendEnabled, MOCK_ACCESS_TOKEN } from '../../../mocks/mockBackendFlag';
 
 const LoginV2: React.FC = () => {
   const { login } = useAuth();
@@ -15,43 +16,45 @@ const LoginV2: React.FC = () => {
   const [searchParams] = useSearchParams();
   const [loading, setLoading] = useState(false);
 
-  const googleLogin = useGoogleLogin({
-    onSuccess: async (tokenResponse) => {
-      const { access_token } = tokenResponse;
-      setLoading(true);
+  const handleTokenResponse = async (tokenResponse: { access_token: string; scope?: string }) => {
+    const { access_token } = tokenResponse;
+    setLoading(true);
 
-      // Check if user granted all required OAuth scopes
-      const grantedScopes = (tokenResponse.scope || '').split(' ');
-      const missingScopes = REQUIRED_SCOPES.filter(s => !grantedScopes.includes(s));
-      if (missingScopes.length > 0) {
-        console.warn('[Login] Missing OAuth scopes:', missingScopes);
-        localStorage.setItem('scopeCheckFailed', JSON.stringify(missingScopes));
-      } else {
-        localStorage.removeItem('scopeCheckFailed');
-      }
+    // Check if user granted all required OAuth scopes
+    const grantedScopes = (tokenResponse.scope || '').split(' ');
+    const missingScopes = REQUIRED_SCOPES.filter(s => !grantedScopes.includes(s));
+    if (missingScopes.length > 0) {
+      console.warn('[Login] Missing OAuth scopes:', missingScopes);
+      localStorage.setItem('scopeCheckFailed', JSON.stringify(missingScopes));
+    } else {
+      localStorage.removeItem('scopeCheckFailed');
+    }
 
-      try {
-        await login({
-          credential: access_token,
-        });
+    try {
+      await login({
+        credential: access_token,
+      });
 
-        // Check for redirect URL after successful login
-        const continueParam = searchParams.get('continue');
-        if (continueParam) {
-          const sanitizedURL = sanitizeRedirectURL(continueParam);
-          if (sanitizedURL) {
-            console.log('[Login] Redirecting to:', sanitizedURL);
-            navigate(sanitizedURL, { replace: true });
-            return;
-          }
+      // Check for redirect URL after successful login
+      const continueParam = searchParams.get('continue');
+      if (continueParam) {
+        const sanitizedURL = sanitizeRedirectURL(continueParam);
+        if (sanitizedURL) {
+          console.log('[Login] Redirecting to:', sanitizedURL);
+          navigate(sanitizedURL, { replace: true });
+          return;
         }
-
-        // Default redirect to home
-        navigate('/home', { replace: true });
-      } catch {
-        setLoading(false);
       }
-    },
+
+      // Default redirect to home
+      navigate('/home', { replace: true });
+    } catch {
+      setLoading(false);
+    }
+  };
+
+  const googleLogin = useGoogleLogin({
+    onSuccess: handleTokenResponse,
     onError: () => console.error('Google Login Failed'),
     flow: 'implicit',
     scope: 'https://www.googleapis.com/auth/cloud-platform https://www.googleapis.com/auth/bigquery https://www.googleapis.com/auth/dataplex.readonly https://www.googleapis.com/auth/userinfo.profile https://www.googleapis.com/auth/userinfo.email https://www.googleapis.com/auth/gmail.send',
@@ -95,7 +98,14 @@ const LoginV2: React.FC = () => {
                 </h2>
                 <button
                   className="loginv2-button"
-                  onClick={() => { googleLogin(); }}
+                  onClick={() => {
+                    // The mock backend signs in as its fixture user without Google
+                    if (isMockBackendEnabled()) {
+                      handleTokenResponse({ access_token: MOCK_ACCESS_TOKEN, scope: REQUIRED_SCOPES.join(' ') });
+                    } else {
+                      googleLogin();
+                    }
+                  }}
                 >
                   <img
                     src={googleLogo}
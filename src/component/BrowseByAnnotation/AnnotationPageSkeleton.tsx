@@ -34,7 +34,7 @@ const AnnotationPageSkeleton: React.FC = () => {
           <Skeleton variant="text" width={80} height={20} sx={{ borderRadius: '4px' }} />
           <Skeleton variant="text" width={80} height={20} sx={{ borderRadius: '4px' }} />
         </Box>
-        <Box sx={{ mx: '20px', borderBottom: '1px solid #DADCE0' }} />
+        <Box sx={{ mx: '20px', borderBottom: '1px solid var(--sys-outline-variant)' }} />
       </Box>
 
       {/* Row 5: Body */}
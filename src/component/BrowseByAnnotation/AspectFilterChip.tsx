@@ -17,7 +17,7 @@ const AspectFilterChip: React.FC<AspectFilterChipProps> = ({ chip, onRemove }) =
         sx={{
           display: "flex",
           alignItems: "center",
-          backgroundColor: "#E7F0FE",
+          backgroundColor: "var(--sys-selected-container)",
           borderRadius: "25px",
           padding: "2px 3px 2px 8px",
           gap: "4px",
@@ -30,7 +30,7 @@ const AspectFilterChip: React.FC<AspectFilterChipProps> = ({ chip, onRemove }) =
             fontSize: "11px",
             lineHeight: "16px",
             letterSpacing: "0.1px",
-            color: "#0B57D0",
+            color: "var(--sys-primary)",
           }}
         >
           OR
@@ -41,13 +41,13 @@ const AspectFilterChip: React.FC<AspectFilterChipProps> = ({ chip, onRemove }) =
           sx={{
             width: 14,
             height: 14,
-            backgroundColor: "#0B57D0",
+            backgroundColor: "var(--sys-primary)",
             borderRadius: "50%",
             padding: 0,
-            "&:hover": { backgroundColor: "#0842A0" },
+            "&:hover": { backgroundColor: "var(--sys-primary-hover)" },
           }}
         >
-          <CloseIcon sx={{ fontSize: 10, color: "#FFFFFF" }} />
+          <CloseIcon sx={{ fontSize: 10, color: "var(--sys-on-primary)" }} />
         </IconButton>
       </Box>
     );
@@ -68,7 +68,7 @@ const AspectFilterChip: React.FC<AspectFilterChipProps> = ({ chip, onRemove }) =
         sx={{
           display: "flex",
           alignItems: "center",
-          backgroundColor: "#E7F0FE",
+          backgroundColor: "var(--sys-selected-container)",
           borderRadius: "25px",
           padding: "2px 3px 2px 8px",
           gap: "4px",
@@ -85,7 +85,7 @@ const AspectFilterChip: React.FC<AspectFilterChipProps> = ({ chip, onRemove }) =
               fontSize: "11px",
               lineHeight: "16px",
               letterSpacing: "0.1px",
-              color: "#0B57D0",
+              color: "var(--sys-primary)",
               whiteSpace: "nowrap",
               flexShrink: 0,
             }}
@@ -100,7 +100,7 @@ const AspectFilterChip: React.FC<AspectFilterChipProps> = ({ chip, onRemove }) =
             fontSize: "11px",
             lineHeight: "16px",
             letterSpacing: "0.1px",
-            color: "#0B57D0",
+            color: "var(--sys-primary)",
             overflow: "hidden",
             textOverflow: "ellipsis",
             whiteSpace: "nowrap",
@@ -115,14 +115,14 @@ const AspectFilterChip: React.FC<AspectFilterChipProps> = ({ chip, onRemove }) =
           sx={{
             width: 14,
             height: 14,
-            backgroundColor: "#0B57D0",
+            backgroundColor: "var(--sys-primary)",
             borderRadius: "50%",
             padding: 0,
             flexShrink: 0,
-            "&:hover": { backgroundColor: "#0842A0" },
+            "&:hover": { backgroundColor: "var(--sys-primary-hover)" },
           }}
         >
-          <CloseIcon sx={{ fontSize: 10, color: "#FFFFFF" }} />
+          <CloseIcon sx={{ fontSize: 10, color: "var(--sys-on-primary)" }} />
         </IconButton>
       </Box>
     </Tooltip>
@@ -189,18 +189,18 @@ const AspectFilterInput: React.FC<AspectFilterInputProps> = ({
             alignItems: "center",
             padding: "8px 12px",
             gap: "8px",
-            border: isFocused || hasFilters || selectedField ? "1px solid #0E4DCA" : "1px solid #DADCE0",
+            border: isFocused || hasFilters || selectedField ? "1px solid var(--sys-brand)" : "1px solid var(--sys-outline-variant)",
             borderRadius: "54px",
-            backgroundColor: "#FFFFFF",
+            backgroundColor: "var(--sys-surface)",
             height: "32px",
             boxSizing: "border-box",
             cursor: "text",
             transition: "border-color 0.2s ease",
-            "&:hover": { borderColor: "#0E4DCA" },
+            "&:hover": { borderColor: "var(--sys-brand)" },
           }}
           onClick={() => inputRef.current?.focus()}
         >
-          <SearchIcon sx={{ fontSize: 20, color: "#575757" }} />
+          <SearchIcon sx={{ fontSize: 20, color: "var(--sys-on-surface-muted)" }} />
           {/* Show selected field as a tag */}
           {selectedField && (
             <Box
@@ -210,7 +210,7 @@ const AspectFilterInput: React.FC<AspectFilterInputProps> = ({
                 fontWeight: 500,
                 fontSize: "12px",
                 lineHeight: "16px",
-                color: "#1F1F1F",
+                color: "var(--sys-on-surface)",
                 whiteSpace: "nowrap",
               }}
             >
@@ -239,9 +239,9 @@ const AspectFilterInput: React.FC<AspectFilterInputProps> = ({
                 fontSize: "12px",
                 lineHeight: "16px",
                 letterSpacing: "0.1px",
-                color: "#1F1F1F",
+                color: "var(--sys-on-surface)",
                 "& input::placeholder": {
-                  color: "#5E5E5E",
+                  color: "var(--sys-on-surface-soft)",
                   opacity: 1,
                 },
               }}
@@ -255,7 +255,7 @@ const AspectFilterInput: React.FC<AspectFilterInputProps> = ({
             sx={{
               fontFamily: "'Google Sans', sans-serif",
               fontSize: "11px",
-              color: "#D93025",
+              color: "var(--sys-error)",
               paddingLeft: "12px",
               marginTop: "-4px",
             }}
@@ -272,7 +272,7 @@ const AspectFilterInput: React.FC<AspectFilterInputProps> = ({
               top: "35px",
               left: "20px",
               right: "20px",
-              backgroundColor: "#FFFFFF",
+              backgroundColor: "var(--sys-surface)",
               boxShadow: "0px 4px 8px 3px rgba(60, 64, 67, 0.15), 0px 1px 3px rgba(60, 64, 67, 0.3)",
               borderRadius: "8px",
               zIndex: 1000,
@@ -286,7 +286,7 @@ const AspectFilterInput: React.FC<AspectFilterInputProps> = ({
                   sx={{
                     fontFamily: "'Product Sans', sans-serif",
                     fontSize: "12px",
-                    color: "#1F1F1F",
+                    color: "var(--sys-on-surface)",
                     py: 0.5,
                     px: 1.5,
                   }}
@@ -301,7 +301,7 @@ const AspectFilterInput: React.FC<AspectFilterInputProps> = ({
                   sx={{
                     fontFamily: "'Product Sans', sans-serif",
                     fontSize: "12px",
-                    color: "#1F1F1F",
+                    color: "var(--sys-on-surface)",
                     py: 0.5,
                     px: 1.5,
                   }}
@@ -20,7 +20,7 @@ const AspectLinkedAssetsSkeleton: React.FC = () => {
           width: "100%",
           borderRadius: "16px",
           overflow: "visible",
-          bgcolor: "#fff",
+          bgcolor: "var(--sys-surface)",
           display: "flex",
           flexDirection: "column",
         }}
@@ -59,10 +59,10 @@ const AspectLinkedAssetsSkeleton: React.FC = () => {
               key={i}
               sx={{
                 marginBottom: "10px",
-                backgroundColor: "#ffffff",
+                backgroundColor: "var(--sys-surface)",
                 borderRadius: "8px",
                 padding: "16px",
-                border: "1px solid #E0E0E0",
+                border: "1px solid var(--sys-divider)",
                 position: "relative",
                 overflow: "hidden",
               }}
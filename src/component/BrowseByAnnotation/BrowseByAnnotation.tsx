@@ -539,7 +539,7 @@ const BrowseByAnnotation = () => {
         px: 0,
         pb: 0,
         pt: 0,
-        backgroundColor: '#F8FAFD',
+        backgroundColor: 'var(--sys-background)',
         height: 'calc(100vh - 72px)',
         width: '100%',
         overflow: 'hidden',
@@ -580,20 +580,20 @@ const BrowseByAnnotation = () => {
         />
         </Box>
       </Box>
-    ) : (<Box sx={{ display: 'flex', height: '85vh', width: '100%', backgroundColor: '#F8FAFD', justifyContent: 'center', alignContent: 'center', alignItems: 'center' }}>
+    ) : (<Box sx={{ display: 'flex', height: '85vh', width: '100%', backgroundColor: 'var(--sys-background)', justifyContent: 'center', alignContent: 'center', alignItems: 'center' }}>
           <Typography 
             sx={{ 
               margin: 'auto',
               fontSize: '16px',
               fontWeight: 500,
-              color: '#575757',
+              color: 'var(--sys-on-surface-muted)',
               fontFamily: '"Google Sans Text", sans-serif' 
           }}>
             No Aspects for browse by experience available
           </Typography>
         </Box>
     )
-  ):(<Box sx={{ display: 'flex', height: '100vh', width: '100%', backgroundColor: '#F8FAFD' }}>
+  ):(<Box sx={{ display: 'flex', height: '100vh', width: '100%', backgroundColor: 'var(--sys-background)' }}>
       <CircularProgress sx={{ margin: 'auto' }} />
     </Box>
   );
@@ -194,7 +194,7 @@ const MainComponent: React.FC<MainComponentProps> = ({
           }}
         >
           <IconButton
-            sx={{ p: '4px', mr: 0.5, width: '40px', height: '40px', borderRadius: '50%', color: '#0B57D0', transition: 'background-color 0.2s', '&:hover': { backgroundColor: 'rgba(0, 0, 0, 0.04)' } }}
+            sx={{ p: '4px', mr: 0.5, width: '40px', height: '40px', borderRadius: '50%', color: 'var(--sys-primary)', transition: 'background-color 0.2s', '&:hover': { backgroundColor: 'rgba(0, 0, 0, 0.04)' } }}
             onClick={handleBackClick}
           >
             <ArrowBack style={{ fontSize: "24px" }} />
@@ -211,7 +211,7 @@ const MainComponent: React.FC<MainComponentProps> = ({
               <Tooltip title={selectedSubItem?.displayName || selectedSubItem?.title || ''} arrow placement="top">
                 <label style={{
                   fontFamily: '"Google Sans", sans-serif',
-                  color: '#1F1F1F',
+                  color: 'var(--sys-on-surface)',
                   fontSize: '28px',
                   fontWeight: '400',
                   lineHeight: '36px',
@@ -233,7 +233,7 @@ const MainComponent: React.FC<MainComponentProps> = ({
                 fontFamily: '"Google Sans", sans-serif',
                 fontSize: '14px',
                 lineHeight: '20px',
-                color: '#575757',
+                color: 'var(--sys-on-surface-muted)',
                 fontWeight: 400,
                 maxHeight: subItemDescExpanded ? 'none' : '60px',
                 overflow: 'hidden',
@@ -252,7 +252,7 @@ const MainComponent: React.FC<MainComponentProps> = ({
                     alignItems: 'center',
                     gap: '4px',
                     padding: '6px 0px',
-                    color: '#0B57D0',
+                    color: 'var(--sys-primary)',
                     fontFamily: '"Google Sans", sans-serif',
                     fontSize: '14px',
                     fontWeight: 500,
@@ -269,7 +269,7 @@ const MainComponent: React.FC<MainComponentProps> = ({
               fontFamily: '"Google Sans", sans-serif',
               fontSize: '14px',
               lineHeight: '20px',
-              color: '#575757',
+              color: 'var(--sys-on-surface-muted)',
               fontWeight: 400,
               fontStyle: 'italic',
             }}>
@@ -288,7 +288,7 @@ const MainComponent: React.FC<MainComponentProps> = ({
           display: 'flex',
           height: 'calc(100vh - 80px)',
           flex: 1,
-          backgroundColor: '#fff',
+          backgroundColor: 'var(--sys-surface)',
         }}
       >
         <Paper
@@ -297,7 +297,7 @@ const MainComponent: React.FC<MainComponentProps> = ({
             flex: 1,
             height: '100%',
             borderRadius: '0px',
-            backgroundColor: '#fff',
+            backgroundColor: 'var(--sys-surface)',
             display: 'flex',
             flexDirection: 'column',
             overflow: 'hidden',
@@ -314,10 +314,10 @@ const MainComponent: React.FC<MainComponentProps> = ({
                 padding: '8px 13px',
                 gap: '8px',
                 height: '32px',
-                border: isSidebarOpen ? 'none' : '1px solid #0E4DCA',
+                border: isSidebarOpen ? 'none' : '1px solid var(--sys-brand)',
                 borderRadius: '59px',
-                background: isSidebarOpen ? '#0E4DCA' : 'none',
-                color: isSidebarOpen ? '#EDF2FC' : '#0E4DCA',
+                background: isSidebarOpen ? 'var(--sys-brand)' : 'none',
+                color: isSidebarOpen ? 'var(--sys-selected-container-low)' : 'var(--sys-brand)',
                 cursor: 'pointer',
                 transition: 'all 0.2s ease',
               }}
@@ -358,12 +358,12 @@ const MainComponent: React.FC<MainComponentProps> = ({
               "& .MuiTab-root": {
                 fontFamily: '"Product Sans Regular", sans-serif',
                 fontSize: "14px",
-                color: "#575757",
+                color: "var(--sys-on-surface-muted)",
                 textTransform: "none",
                 minHeight: "48px",
                 padding: "12px 20px 16px",
                 "&.Mui-selected": {
-                  color: "#0E4DCA",
+                  color: "var(--sys-brand)",
                 },
               },
               "& .MuiTabs-indicator": {
@@ -375,8 +375,8 @@ const MainComponent: React.FC<MainComponentProps> = ({
                   right: "20px",
                   bottom: "-2px",
                   height: "5px",
-                  backgroundColor: "white",
-                  borderTop: "3px solid #0E4DCA",
+                  backgroundColor: "var(--sys-surface)",
+                  borderTop: "3px solid var(--sys-brand)",
                   borderRadius: "2.5px 2.5px 0 0",
                 },
               },
@@ -388,7 +388,7 @@ const MainComponent: React.FC<MainComponentProps> = ({
                   variant="text"
                   width={100}
                   height={20}
-                  sx={{ borderRadius: '4px', bgcolor: '#E8EAED' }}
+                  sx={{ borderRadius: '4px', bgcolor: 'var(--sys-surface-container-cool)' }}
                 />
               </Box>
             ) : (
@@ -403,7 +403,7 @@ const MainComponent: React.FC<MainComponentProps> = ({
               </Tabs>
             )}
           </Box>
-          <Box sx={{ mx: "20px", borderBottom: "1px solid #DADCE0" }} />
+          <Box sx={{ mx: "20px", borderBottom: "1px solid var(--sys-outline-variant)" }} />
 
           {/* Linked Assets Content */}
           <Box sx={{ flex: 1, p: '20px', overflow: 'hidden' }}>
@@ -435,7 +435,7 @@ const MainComponent: React.FC<MainComponentProps> = ({
             minWidth: isPreviewOpen ? 'clamp(300px, 22vw, 360px)' : '0px',
             height: 'calc(100vh - 100px)',
             borderRadius: '0px',
-            backgroundColor: '#fff',
+            backgroundColor: 'var(--sys-surface)',
             border: 'transparent',
             display: 'flex',
             flexDirection: 'column',
@@ -475,7 +475,7 @@ const MainComponent: React.FC<MainComponentProps> = ({
           flex: 1,
           height: 'calc(100vh - 80px)',
           borderRadius: '0px',
-          backgroundColor: '#fff',
+          backgroundColor: 'var(--sys-surface)',
           border: 'transparent',
           display: 'flex',
           alignItems: 'center',
@@ -484,7 +484,7 @@ const MainComponent: React.FC<MainComponentProps> = ({
           position: 'relative',
         }}
       >
-        <Typography sx={{ color: '#575757', fontFamily: '"Google Sans Text", sans-serif' }}>
+        <Typography sx={{ color: 'var(--sys-on-surface-muted)', fontFamily: '"Google Sans Text", sans-serif' }}>
           Select an aspect from the sidebar
         </Typography>
       </Paper>
@@ -499,7 +499,7 @@ const MainComponent: React.FC<MainComponentProps> = ({
         flex: 1,
         height: 'calc(100vh - 72px)',
         borderRadius: '0px',
-        backgroundColor: '#fff',
+        backgroundColor: 'var(--sys-surface)',
         display: 'flex',
         flexDirection: 'column',
         overflow: 'hidden',
@@ -527,10 +527,10 @@ const MainComponent: React.FC<MainComponentProps> = ({
               padding: '8px 13px',
               gap: '8px',
               height: '32px',
-              border: isSidebarOpen ? 'none' : '1px solid #0E4DCA',
+              border: isSidebarOpen ? 'none' : '1px solid var(--sys-brand)',
               borderRadius: '59px',
-              background: isSidebarOpen ? '#0E4DCA' : 'none',
-              color: isSidebarOpen ? '#EDF2FC' : '#0E4DCA',
+              background: isSidebarOpen ? 'var(--sys-brand)' : 'none',
+              color: isSidebarOpen ? 'var(--sys-selected-container-low)' : 'var(--sys-brand)',
               cursor: 'pointer',
               transition: 'all 0.2s ease',
             }}
@@ -570,7 +570,7 @@ const MainComponent: React.FC<MainComponentProps> = ({
               <Tooltip title={selectedCard?.title || ''} arrow placement="top">
                 <label style={{
                   fontFamily: '"Google Sans", sans-serif',
-                  color: "#1F1F1F", fontSize: "28px",
+                  color: "var(--sys-on-surface)", fontSize: "28px",
                   fontWeight: "400", lineHeight: "36px",
                   maxWidth: "500px", overflow: "hidden",
                   textOverflow: "ellipsis", whiteSpace: "nowrap",
@@ -590,7 +590,7 @@ const MainComponent: React.FC<MainComponentProps> = ({
                 fontFamily: '"Google Sans", sans-serif',
                 fontSize: "14px",
                 lineHeight: "20px",
-                color: "#575757",
+                color: "var(--sys-on-surface-muted)",
                 fontWeight: 400,
                 maxHeight: descriptionExpanded ? "none" : "60px",
                 overflow: "hidden",
@@ -609,7 +609,7 @@ const MainComponent: React.FC<MainComponentProps> = ({
                     alignItems: "center",
                     gap: "4px",
                     padding: "6px 0px",
-                    color: "#0B57D0",
+                    color: "var(--sys-primary)",
                     fontFamily: '"Google Sans", sans-serif',
                     fontSize: "14px",
                     fontWeight: 500,
@@ -626,7 +626,7 @@ const MainComponent: React.FC<MainComponentProps> = ({
               fontFamily: '"Google Sans", sans-serif',
               fontSize: "14px",
               lineHeight: "20px",
-              color: "#575757",
+              color: "var(--sys-on-surface-muted)",
               fontWeight: 400,
               fontStyle: "italic",
             }}>
@@ -646,12 +646,12 @@ const MainComponent: React.FC<MainComponentProps> = ({
             "& .MuiTab-root": {
               fontFamily: '"Product Sans Regular", sans-serif',
               fontSize: "14px",
-              color: "#575757",
+              color: "var(--sys-on-surface-muted)",
               textTransform: "none",
               minHeight: "48px",
               padding: "12px 20px 16px",
               "&.Mui-selected": {
-                color: "#0E4DCA",
+                color: "var(--sys-brand)",
               },
             },
             "& .MuiTabs-indicator": {
@@ -663,8 +663,8 @@ const MainComponent: React.FC<MainComponentProps> = ({
                 right: "20px",
                 bottom: "-2px",
                 height: "5px",
-                backgroundColor: "white",
-                borderTop: "3px solid #0E4DCA",
+                backgroundColor: "var(--sys-surface)",
+                borderTop: "3px solid var(--sys-brand)",
                 borderRadius: "2.5px 2.5px 0 0",
               },
             },
@@ -682,7 +682,7 @@ const MainComponent: React.FC<MainComponentProps> = ({
             <Tab label="Sub Types" />
           </Tabs>
         </Box>
-        <Box sx={{ mx: "20px", borderBottom: "1px solid #DADCE0" }} />
+        <Box sx={{ mx: "20px", borderBottom: "1px solid var(--sys-outline-variant)" }} />
       </Box>
 
       {/* Tab Content */}
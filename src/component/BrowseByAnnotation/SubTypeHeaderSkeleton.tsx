@@ -27,21 +27,21 @@ const SubTypeHeaderSkeleton: React.FC = () => {
           variant="circular"
           width={24}
           height={24}
-          sx={{ bgcolor: '#E8EAED', flexShrink: 0 }}
+          sx={{ bgcolor: 'var(--sys-surface-container-cool)', flexShrink: 0 }}
         />
         {/* Icon Skeleton */}
         <Skeleton
           variant="rounded"
           width={48}
           height={48}
-          sx={{ borderRadius: '10px', bgcolor: '#E8EAED', flexShrink: 0 }}
+          sx={{ borderRadius: '10px', bgcolor: 'var(--sys-surface-container-cool)', flexShrink: 0 }}
         />
         {/* Title Skeleton */}
         <Skeleton
           variant="text"
           width={250}
           height={36}
-          sx={{ borderRadius: '4px', bgcolor: '#E8EAED' }}
+          sx={{ borderRadius: '4px', bgcolor: 'var(--sys-surface-container-cool)' }}
         />
       </Box>
       {/* Description Skeleton */}
@@ -50,7 +50,7 @@ const SubTypeHeaderSkeleton: React.FC = () => {
           variant="text"
           width={400}
           height={20}
-          sx={{ borderRadius: '4px', bgcolor: '#E8EAED' }}
+          sx={{ borderRadius: '4px', bgcolor: 'var(--sys-surface-container-cool)' }}
         />
       </Box>
     </Box>
@@ -208,7 +208,7 @@ const SubTypesTab: React.FC<SubTypesTabProps> = ({
                     display: "flex",
                     alignItems: "center",
                     cursor: "pointer",
-                    color: "#1F1F1F",
+                    color: "var(--sys-on-surface)",
                     whiteSpace: "nowrap",
                     fontFamily: '"Google Sans Text", sans-serif',
                   }}
@@ -217,7 +217,7 @@ const SubTypesTab: React.FC<SubTypesTabProps> = ({
                   <ExpandMore
                     sx={{
                       fontSize: '20px',
-                      color: '#575757',
+                      color: 'var(--sys-on-surface-muted)',
                       transform: sortAnchorEl ? 'rotate(180deg)' : 'rotate(0deg)',
                       transition: 'transform 0.3s ease',
                     }}
@@ -267,9 +267,9 @@ const SubTypesTab: React.FC<SubTypesTabProps> = ({
                 fontSize: "12px",
                 fontFamily: "Google Sans",
                 fontWeight: sortBy === "name" ? "500" : "400",
-                color: sortBy === "name" ? "#0B57D0" : "#1F1F1F",
-                backgroundColor: sortBy === "name" ? "#F8FAFD" : "transparent",
-                '&:hover': { backgroundColor: '#F1F3F4' },
+                color: sortBy === "name" ? "var(--sys-primary)" : "var(--sys-on-surface)",
+                backgroundColor: sortBy === "name" ? "var(--sys-background)" : "transparent",
+                '&:hover': { backgroundColor: 'var(--sys-surface-container-neutral)' },
               }}
             >
               Name
@@ -280,9 +280,9 @@ const SubTypesTab: React.FC<SubTypesTabProps> = ({
                 fontSize: "12px",
                 fontFamily: "Google Sans",
                 fontWeight: sortBy === "assets" ? "500" : "400",
-                color: sortBy === "assets" ? "#0B57D0" : "#1F1F1F",
-                backgroundColor: sortBy === "assets" ? "#F8FAFD" : "transparent",
-                '&:hover': { backgroundColor: '#F1F3F4' },
+                color: sortBy === "assets" ? "var(--sys-primary)" : "var(--sys-on-surface)",
+                backgroundColor: sortBy === "assets" ? "var(--sys-background)" : "transparent",
+                '&:hover': { backgroundColor: 'var(--sys-surface-container-neutral)' },
               }}
             >
               Assets
@@ -293,9 +293,9 @@ const SubTypesTab: React.FC<SubTypesTabProps> = ({
                 fontSize: "12px",
                 fontFamily: "Google Sans",
                 fontWeight: sortBy === "type" ? "500" : "400",
-                color: sortBy === "type" ? "#0B57D0" : "#1F1F1F",
-                backgroundColor: sortBy === "type" ? "#F8FAFD" : "transparent",
-                '&:hover': { backgroundColor: '#F1F3F4' },
+                color: sortBy === "type" ? "var(--sys-primary)" : "var(--sys-on-surface)",
+                backgroundColor: sortBy === "type" ? "var(--sys-background)" : "transparent",
+                '&:hover': { backgroundColor: 'var(--sys-surface-container-neutral)' },
               }}
             >
               Type
@@ -351,7 +351,7 @@ const SubTypesTab: React.FC<SubTypesTabProps> = ({
                   flexDirection: "column",
                   "&:hover": {
                     boxShadow: "0 4px 8px 0 rgba(60,64,67,0.15)",
-                    borderColor: "#0B57D0",
+                    borderColor: "var(--sys-primary)",
                     transform: "scale(1.02)",
                   },
                 }}
@@ -396,7 +396,7 @@ const SubTypesTab: React.FC<SubTypesTabProps> = ({
                           fontWeight: 500,
                           lineHeight: "24px",
                           letterSpacing: "0.15px",
-                          color: "#1F1F1F",
+                          color: "var(--sys-on-surface)",
                           overflow: "hidden",
                           textOverflow: "ellipsis",
                         }}
@@ -414,7 +414,7 @@ const SubTypesTab: React.FC<SubTypesTabProps> = ({
                       fontSize: "14px",
                       fontWeight: 400,
                       lineHeight: "20px",
-                      color: "#575757",
+                      color: "var(--sys-on-surface-muted)",
                       overflow: "hidden",
                       textOverflow: "ellipsis",
                       whiteSpace: "nowrap",
@@ -440,7 +440,7 @@ const SubTypesTab: React.FC<SubTypesTabProps> = ({
                           alignItems: "center",
                           gap: "6px",
                           height: "24px",
-                          backgroundColor: "#C2E7FF",
+                          backgroundColor: "var(--sys-secondary-container)",
                           borderRadius: "25px",
                           px: 1.5,
                         }}
@@ -448,14 +448,14 @@ const SubTypesTab: React.FC<SubTypesTabProps> = ({
                         <CircularProgress
                           size={12}
                           thickness={4}
-                          sx={{ color: "#004A77" }}
+                          sx={{ color: "var(--sys-on-secondary-container)" }}
                         />
                         <Typography
                           sx={{
                             fontFamily: "Google Sans Text",
                             fontWeight: 500,
                             fontSize: "12px",
-                            color: "#004A77",
+                            color: "var(--sys-on-secondary-container)",
                           }}
                         >
                           Loading
@@ -467,8 +467,8 @@ const SubTypesTab: React.FC<SubTypesTabProps> = ({
                         size="small"
                         sx={{
                           height: "24px",
-                          backgroundColor: "#C2E7FF",
-                          color: "#004A77",
+                          backgroundColor: "var(--sys-secondary-container)",
+                          color: "var(--sys-on-secondary-container)",
                           fontFamily: "Google Sans Text",
                           fontWeight: 500,
                           fontSize: "12px",
@@ -497,7 +497,7 @@ const SubTypesTab: React.FC<SubTypesTabProps> = ({
                           fontWeight: 500,
                           fontSize: "12px",
                           lineHeight: "16px",
-                          color: "#575757",
+                          color: "var(--sys-on-surface-muted)",
                         }}
                       >
                         {formatTypeDisplay(item.type, item.stringType)}
@@ -61,7 +61,7 @@ const SubTypesTabSkeleton: React.FC = () => {
             <Box
               key={i}
               sx={{
-                border: "1px solid #DADCE0",
+                border: "1px solid var(--sys-outline-variant)",
                 borderRadius: "16px",
                 height: "120px",
                 p: 2,
@@ -1,4 +1,5 @@
 import Button from '@mui/material/Button';
+import { useColorTokens } from '../../hooks/useColorTokens';
 
 /**
  * @file CTAButton.tsx
@@ -29,8 +30,9 @@ interface CTAButtonProps {
 }
 
 const CTAButton: React.FC<CTAButtonProps> = ({disabled = false, handleClick, text, css}) => {
+  const colors = useColorTokens();
   return (<Button disabled={disabled} onClick={handleClick} 
-    style={{background:"#0E4DCA", color:"#ffffff", borderRadius:"20px", padding:"5px 20px", ...css}}>
+    style={{background:colors.brand, color:colors.onPrimary, borderRadius:"20px", padding:"5px 20px", ...css}}>
       {text}
   </Button>);
 }
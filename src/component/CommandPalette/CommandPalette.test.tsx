@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, within, waitFor } from '@testing-library/react';
+import CommandPalette from './CommandPalette';
+import { CommandPaletteProvider, useCommandActions } from '../../contexts/CommandPaletteContext';
+import { addRecentEntry } from '../../utils/recentEntries';
+
+const mockDispatch = vi.fn();
+const mockNavigate = vi.fn();
+const mockOpenLineage = vi.fn();
+
+vi.mock('react-redux', () => ({
+  useDispatch: () => mockDispatch,
+  useSelector: (selector: (state: unknown) => unknown) =>
+    selector({
+      user: { mode: 'light' },
+      favorites: { items: [] },
+      glossaries: {
+        status: 'succeeded',
+        glossaryItems: [{
+          id: 'g1', type: 'glossary', displayName: 'Finance',
+          children: [{ id: 't1', type: 'term', displayName: 'Revenue', children: [] }],
+        }],
+      },
+      dataProducts: { status: 'succeeded', dataProductsItems: [] },
+    }),
+}));
+
+vi.mock('react-router-dom', () => ({
+  useNavigate: () => mockNavigate,
+}));
+
+vi.mock('../../auth/AuthProvider', () => ({
+  useAuth: () => ({ user: { token: 'test-token', email: 'test@example.com' } }),
+}));
+
+vi.mock('../../features/entry/entrySlice', () => ({
+  clearHistory: vi.fn(() => ({ type: 'entry/clearHistory' })),
+  fetchEntry: vi.fn((params) => ({ type: 'entry/fetchEntry', payload: params })),
+}));
+
+vi.mock('../../features/glossaries/glossariesSlice', () => ({
+  fetchGlossaries: vi.fn((params) => ({ type: 'glossaries/fetchGlossaries', payload: params })),
+  resetGlossaryUIState: vi.fn(() => ({ type: 'glossaries/resetGlossaryUIState' })),
+  setGlossarySelectedId: vi.fn((id) => ({ type: 'glossaries/setGlossarySelectedId', payload: id })),
+  setGlossaryExpandedIds: vi.fn((ids) => ({ type: 'glossaries/setGlossaryExpandedIds', payload: ids })),
+  setGlossaryTabValue: vi.fn((value) => ({ type: 'glossaries/setGlossaryTabValue', payload: value })),
+}));
+
+vi.mock('../../features/dataProducts/dataProductsSlice', () => ({
+  fetchDataProductsList: vi.fn((params) => ({ type: 'dataProducts/fetchDataProductsList', payload: params })),
+  getDataProductDetails: vi.fn((params) => ({ type: 'dataProducts/getDataProductDetails', payload: params })),
+  resetDataProductsUIState: vi.fn(() => ({ type: 'dataProducts/resetDataProductsUIState' })),
+  setDataProductsDetailTabValue: vi.fn((value) => ({ type: 'dataProducts/setDataProductsDetailTabValue', payload: value })),
+}));
+
+vi.mock('../../features/resources/resourcesSlice', () => ({
+  resetBrowseUIState: vi.fn(() => ({ type: 'resources/resetBrowseUIState' })),
+}));
+
+function RegistersActions() {
+  useCommandActions([{ id: 'entry:tab:2', label: 'Open Lineage tab', run: mockOpenLineage }]);
+  return null;
+}
+
+const renderPalette = () =>
+  render(
+    <CommandPaletteProvider>
+      <RegistersActions />
+      <CommandPalette />
+    </CommandPaletteProvider>
+  );
+
+const openPalette = () => fireEvent.keyDown(window, { key: 'k', ctrlKey: true });
+
+describe('CommandPalette', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+  });
+
+  it('opens with Ctrl+K and lists registered actions, pages and recent entries', () => {
+    addRecentEntry('test@example.com', { name: 'projects/p/locations/us/entryGroups/g/entries/orders', entrySource: { displayName: 'orders', system: 'BigQuery' } });
+    renderPalette();
+    expect(screen.queryByRole('combobox')).not.toBeInTheDocument();
+
+    openPalette();
+
+    const input = screen.getByRole('combobox', { name: 'Search commands' });
+    expect(input).toHaveAttribute('aria-activedescendant', 'command-palette-option-0');
+    const options = within(screen.getByRole('listbox', { name: 'Commands' })).getAllByRole('option');
+    expect(options[0]).toHaveTextContent('Open Lineage tab');
+    expect(options[0]).toHaveAttribute('aria-selected', 'true');
+    expect(screen.getByText('Glossaries')).toBeInTheDocument();
+    expect(screen.getByText('orders')).toBeInTheDocument();
+    // Glossary terms are only listed once the user types
+    expect(screen.queryByText('Revenue')).not.toBeInTheDocument();
+  });
+
+  it('fuzzy-filters commands and runs the highlighted one with the keyboard', async () => {
+    renderPalette();
+    openPalette();
+    const input = screen.getByRole('combobox');
+
+    fireEvent.change(input, { target: { value: 'revnu' } });
+    expect(screen.getAllByRole('option').map((option) => option.textContent)).toEqual(['RevenueGlossary terms']);
+
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'glossaries/setGlossarySelectedId', payload: 't1' });
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'glossaries/setGlossaryExpandedIds', payload: ['g1'] });
+    expect(mockNavigate).toHaveBeenCalledWith('/glossaries');
+    await waitFor(() => expect(screen.queryByRole('combobox')).not.toBeInTheDocument());
+  });
+
+  it('moves the highlight with the arrow keys, wrapping around', () => {
+    renderPalette();
+    openPalette();
+    const input = screen.getByRole('combobox');
+
+    fireEvent.change(input, { target: { value: 'lineage' } });
+    fireEvent.keyDown(input, { key: 'ArrowUp' });
+    fireEvent.keyDown(input, { key: 'ArrowDown' });
+    expect(input).toHaveAttribute('aria-activedescendant', 'command-palette-option-0');
+
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(mockOpenLineage).toHaveBeenCalledTimes(1);
+  });
+
+  it('says when nothing matches', () => {
+    renderPalette();
+    openPalette();
+
+    fireEvent.change(screen.getByRole('combobox'), { target: { value: 'zzzzqq' } });
+
+    expect(screen.getByText('No matching commands')).toBeInTheDocument();
+    expect(screen.queryAllByRole('option')).toHaveLength(0);
+    expect(screen.getByRole('combobox')).not.toHaveAttribute('aria-activedescendant');
+  });
+});
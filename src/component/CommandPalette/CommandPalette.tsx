@@ -0,0 +1,315 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Box, Dialog, InputBase, Typography } from '@mui/material';
+import { Search } from '@mui/icons-material';
+import { useDispatch, useSelector } from 'react-redux';
+import { useNavigate } from 'react-router-dom';
+import type { AppDispatch, RootState } from '../../app/store';
+import { useAuth } from '../../auth/AuthProvider';
+import { useCommandPalette, type CommandAction } from '../../contexts/CommandPaletteContext';
+import { clearHistory, fetchEntry } from '../../features/entry/entrySlice';
+import { fetchGlossaries, resetGlossaryUIState, setGlossaryExpandedIds, setGlossarySelectedId, setGlossaryTabValue } from '../../features/glossaries/glossariesSlice';
+import { fetchDataProductsList, getDataProductDetails, resetDataProductsUIState, setDataProductsDetailTabValue } from '../../features/dataProducts/dataProductsSlice';
+import { resetBrowseUIState } from '../../features/resources/resourcesSlice';
+import type { Favorite } from '../../features/favorites/favoritesSlice';
+import type { GlossaryItem } from '../Glossaries/GlossaryDataType';
+import { fuzzyFilter } from '../../utils/fuzzyMatch';
+import { loadRecentEntries } from '../../utils/recentEntries';
+
+/**
+ * @file CommandPalette.tsx
+ * @description
+ * Keyboard command palette opened with Ctrl+K (Cmd+K on macOS). Fuzzy-searches
+ * app pages, recently opened entries, favorites, the glossaries, categories
+ * and terms loaded in `glossariesSlice`, the data products in
+ * `dataProductsSlice`, and the actions other components register with
+ * `useCommandActions` (e.g. "Open Lineage tab" on the details page).
+ *
+ * The input is an ARIA combobox: Up/Down move through the results,
+ * Enter runs the highlighted command and Escape closes the palette.
+ */
+
+const MAX_RESULTS = 50;
+const MAX_RECENT_WITHOUT_QUERY = 5;
+const NO_FAVORITES: Favorite[] = [];
+
+// The fields of a data products list item the palette reads
+type DataProductItem = { name: string; displayName?: string; description?: string };
+
+// Flattens the glossary tree, keeping the ids of each item's ancestors.
+const flattenGlossaryItems = (items: GlossaryItem[], ancestors: string[] = []): { item: GlossaryItem; ancestors: string[] }[] =>
+  (items ?? []).flatMap((item) => [
+    { item, ancestors },
+    ...flattenGlossaryItems(item.children ?? [], [...ancestors, item.id]),
+  ]);
+
+const GLOSSARY_GROUPS: Record<string, string> = { glossary: 'Glossaries', category: 'Glossary categories', term: 'Glossary terms' };
+
+const CommandPalette: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { isOpen, setOpen, actions } = useCommandPalette();
+  const mode = useSelector((state: RootState) => state.user.mode);
+  const favorites = useSelector((state: RootState) => state.favorites?.items ?? NO_FAVORITES);
+  const glossaryItems = useSelector((state: RootState) => state.glossaries.glossaryItems);
+  const glossaryStatus = useSelector((state: RootState) => state.glossaries.status);
+  const dataProducts = useSelector((state: RootState) => state.dataProducts.dataProductsItems) as DataProductItem[] | null;
+  const dataProductsStatus = useSelector((state: RootState) => state.dataProducts.status);
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+  const id_token = user?.token || '';
+  const textColor = mode === 'dark' ? '#e3e3e3' : '#1F1F1F';
+  const secondaryColor = mode === 'dark' ? '#9aa0a6' : '#575757';
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setOpen(!isOpen);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, setOpen]);
+
+  // Load glossaries and data products the first time the palette opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setQuery('');
+    setActiveIndex(0);
+    if (!id_token) return;
+    if (glossaryStatus === 'idle') dispatch(fetchGlossaries({ id_token }));
+    if (dataProductsStatus === 'idle') dispatch(fetchDataProductsList({ id_token }));
+    // Only opening the palette resets it; loads finishing must not clear the query
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  const openEntry = useCallback((entryName: string) => {
+    dispatch(clearHistory());
+    dispatch(fetchEntry({ entryName, id_token }));
+    navigate('/view-details');
+  }, [dispatch, id_token, navigate]);
+
+  const commands = useMemo((): CommandAction[] => {
+    if (!isOpen) return [];
+    const pages: CommandAction[] = [
+      { id: 'page:home', label: 'Home', run: () => navigate('/home') },
+      { id: 'page:search', label: 'Search', run: () => navigate('/search') },
+      {
+        id: 'page:glossaries',
+        label: 'Glossaries',
+        run: () => {
+          dispatch(resetGlossaryUIState());
+          dispatch(fetchGlossaries({ id_token }));
+          navigate('/glossaries');
+        },
+      },
+      {
+        id: 'page:aspects',
+        label: 'Aspects',
+        keywords: ['browse by annotation'],
+        run: () => {
+          dispatch(resetBrowseUIState());
+          navigate('/browse-by-annotation');
+        },
+      },
+      {
+        id: 'page:dataProducts',
+        label: 'Data products',
+        run: () => {
+          dispatch(resetDataProductsUIState());
+          dispatch(fetchDataProductsList({ id_token }));
+          navigate('/data-products');
+        },
+      },
+      { id: 'page:favorites', label: 'My favorites', run: () => navigate('/favorites') },
+      { id: 'page:compare', label: 'Compare entries', run: () => navigate('/compare') },
+      { id: 'page:dataQuality', label: 'Data quality dashboard', keywords: ['dq', 'health'], run: () => navigate('/data-quality') },
+      { id: 'page:guide', label: 'User guide', keywords: ['help'], run: () => navigate('/guide') },
+    ].map((page) => ({ ...page, group: 'Pages' }));
+
+    const recent: CommandAction[] = loadRecentEntries(user?.email).map((entry) => ({
+      id: `recent:${entry.name}`,
+      label: entry.displayName,
+      detail: entry.system,
+      group: 'Recent entries',
+      keywords: [entry.name],
+      run: () => openEntry(entry.name),
+    }));
+
+    const favoriteCommands: CommandAction[] = favorites
+      .filter((favorite) => favorite.status !== 'deleted')
+      .map((favorite) => ({
+        id: `favorite:${favorite.entryName}`,
+        label: favorite.entry?.entrySource?.displayName || favorite.entryName.split('/').pop() || favorite.entryName,
+        detail: favorite.entry?.entrySource?.system,
+        group: 'Favorites',
+        keywords: [favorite.entryName],
+        run: () => openEntry(favorite.entryName),
+      }));
+
+    const glossaryCommands: CommandAction[] = flattenGlossaryItems(glossaryItems).map(({ item, ancestors }) => ({
+      id: `glossary:${item.id}`,
+      label: item.displayName,
+      group: GLOSSARY_GROUPS[item.type] ?? 'Glossaries',
+      keywords: item.description ? [item.description] : [],
+      run: () => {
+        dispatch(setGlossarySelectedId(item.id));
+        dispatch(setGlossaryExpandedIds(ancestors));
+        dispatch(setGlossaryTabValue(0));
+        navigate('/glossaries');
+      },
+    }));
+
+    const dataProductCommands: CommandAction[] = (dataProducts ?? []).map((dataProduct) => ({
+      id: `dataProduct:${dataProduct.name}`,
+      label: dataProduct.displayName || dataProduct.name.split('/').pop() || dataProduct.name,
+      group: 'Data products',
+      keywords: dataProduct.description ? [dataProduct.description] : [],
+      run: () => {
+        dispatch(getDataProductDetails({ dataProductId: dataProduct.name, id_token }));
+        dispatch(setDataProductsDetailTabValue(0));
+        localStorage.setItem('selectedDataProduct', JSON.stringify(dataProduct));
+        navigate(`/data-products-details?dataProductId=${encodeURIComponent(dataProduct.name)}`);
+      },
+    }));
+
+    return [
+      ...actions.map((action) => ({ ...action, group: action.group ?? 'Actions' })),
+      ...pages,
+      ...recent,
+      ...favoriteCommands,
+      ...glossaryCommands,
+      ...dataProductCommands,
+    ];
+  }, [isOpen, actions, user?.email, favorites, glossaryItems, dataProducts, id_token, dispatch, navigate, openEntry]);
+
+  const results = useMemo(() => {
+    if (!query.trim()) {
+      // Without a query: actions, pages and the latest recent entries
+      const registered = new Set(actions.map((action) => action.id));
+      let recentCount = 0;
+      return commands.filter((command) =>
+        registered.has(command.id)
+        || command.group === 'Pages'
+        || (command.group === 'Recent entries' && recentCount++ < MAX_RECENT_WITHOUT_QUERY));
+    }
+    return fuzzyFilter(commands, query, (command) => [command.label, ...(command.keywords ?? [])], MAX_RESULTS);
+  }, [commands, query, actions]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView?.({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const runCommand = (command: CommandAction | undefined) => {
+    if (!command) return;
+    setOpen(false);
+    command.run();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setActiveIndex((index) => (results.length === 0 ? 0 : (index + 1) % results.length));
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setActiveIndex((index) => (results.length === 0 ? 0 : (index - 1 + results.length) % results.length));
+    } else if (event.key === 'Home') {
+      event.preventDefault();
+      setActiveIndex(0);
+    } else if (event.key === 'End') {
+      event.preventDefault();
+      setActiveIndex(Math.max(results.length - 1, 0));
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      runCommand(results[activeIndex]);
+    }
+  };
+
+  const optionId = (index: number) => `command-palette-option-${index}`;
+
+  return (
+    <Dialog
+      open={isOpen}
+      onClose={() => setOpen(false)}
+      fullWidth
+      maxWidth="sm"
+      aria-label="Command palette"
+      slotProps={{ paper: { sx: { borderRadius: '16px', alignSelf: 'flex-start', marginTop: '12vh' } } }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: '8px', padding: '12px 16px', borderBottom: `1px solid ${mode === 'dark' ? '#3c4043' : '#DADCE0'}` }}>
+        <Search sx={{ color: secondaryColor }} />
+        <InputBase
+          autoFocus
+          fullWidth
+          placeholder="Search pages, entries, glossary terms and actions"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          inputProps={{
+            role: 'combobox',
+            'aria-label': 'Search commands',
+            'aria-expanded': true,
+            'aria-controls': 'command-palette-list',
+            'aria-autocomplete': 'list',
+            'aria-activedescendant': results.length > 0 ? optionId(activeIndex) : undefined,
+          }}
+          sx={{ fontSize: '16px', color: textColor }}
+        />
+      </Box>
+      <Box
+        component="ul"
+        id="command-palette-list"
+        role="listbox"
+        aria-label="Commands"
+        ref={listRef}
+        sx={{ listStyle: 'none', margin: 0, padding: '8px', maxHeight: '50vh', overflowY: 'auto' }}
+      >
+        {results.length === 0 && (
+          <Typography component="li" role="presentation" sx={{ fontSize: '14px', color: secondaryColor, padding: '12px' }}>
+            No matching commands
+          </Typography>
+        )}
+        {results.map((command, index) => (
+          <Box
+            component="li"
+            key={command.id}
+            id={optionId(index)}
+            data-index={index}
+            role="option"
+            aria-selected={index === activeIndex}
+            onMouseMove={() => setActiveIndex(index)}
+            onClick={() => runCommand(command)}
+            sx={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '12px',
+              padding: '8px 12px',
+              borderRadius: '8px',
+              cursor: 'pointer',
+              backgroundColor: index === activeIndex ? (mode === 'dark' ? 'rgba(138, 180, 248, 0.16)' : '#E8F0FE') : 'transparent',
+            }}
+          >
+            <Box sx={{ flex: '1 1 auto', minWidth: 0 }}>
+              <Typography noWrap sx={{ fontSize: '14px', color: textColor }}>{command.label}</Typography>
+              {command.detail && (
+                <Typography noWrap sx={{ fontSize: '12px', color: secondaryColor }}>{command.detail}</Typography>
+              )}
+            </Box>
+            {command.shortcut && (
+              <Typography component="kbd" sx={{ fontSize: '12px', color: secondaryColor }}>{command.shortcut}</Typography>
+            )}
+            <Typography sx={{ fontSize: '12px', color: secondaryColor, whiteSpace: 'nowrap' }}>{command.group}</Typography>
+          </Box>
+        ))}
+      </Box>
+    </Dialog>
+  );
+};
+
+export default CommandPalette;
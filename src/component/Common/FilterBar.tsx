@@ -89,7 +89,7 @@ export const FilterBarChips: React.FC<{
               sx={{
                 display: 'flex',
                 alignItems: 'center',
-                backgroundColor: '#E7F0FE',
+                backgroundColor: 'var(--sys-selected-container)',
                 borderRadius: '25px',
                 padding: '2px 3px 2px 8px',
                 gap: '4px',
@@ -102,7 +102,7 @@ export const FilterBarChips: React.FC<{
                   fontSize: '11px',
                   lineHeight: '16px',
                   letterSpacing: '0.1px',
-                  color: '#0B57D0',
+                  color: 'var(--sys-primary)',
                 }}
               >
                 OR
@@ -113,15 +113,15 @@ export const FilterBarChips: React.FC<{
                 sx={{
                   width: 14,
                   height: 14,
-                  backgroundColor: '#0B57D0',
+                  backgroundColor: 'var(--sys-primary-hover)',
                   borderRadius: '50%',
                   padding: 0,
                   '&:hover': {
-                    backgroundColor: '#0842A0',
+                    backgroundColor: 'var(--sys-primary-hover)',
                   },
                 }}
               >
-                <Close sx={{ fontSize: 10, color: '#FFFFFF' }} />
+                <Close sx={{ fontSize: 10, color: 'var(--sys-on-primary)' }} />
               </IconButton>
             </Box>
           )}
@@ -129,7 +129,7 @@ export const FilterBarChips: React.FC<{
             sx={{
               display: 'flex',
               alignItems: 'center',
-              backgroundColor: '#E7F0FE',
+              backgroundColor: 'var(--sys-selected-container)',
               borderRadius: '25px',
               padding: '2px 3px 2px 8px',
               gap: '4px',
@@ -146,7 +146,7 @@ export const FilterBarChips: React.FC<{
                   fontSize: '11px',
                   lineHeight: '16px',
                   letterSpacing: '0.1px',
-                  color: '#0B57D0',
+                  color: 'var(--sys-primary)',
                   whiteSpace: 'nowrap',
                   flexShrink: 0,
                 }}
@@ -162,7 +162,7 @@ export const FilterBarChips: React.FC<{
                   fontSize: '11px',
                   lineHeight: '16px',
                   letterSpacing: '0.1px',
-                  color: '#0B57D0',
+                  color: 'var(--sys-primary)',
                   overflow: 'hidden',
                   textOverflow: 'ellipsis',
                   whiteSpace: 'nowrap',
@@ -178,16 +178,16 @@ export const FilterBarChips: React.FC<{
               sx={{
                 width: 14,
                 height: 14,
-                backgroundColor: '#0B57D0',
+                backgroundColor: 'var(--sys-primary)',
                 borderRadius: '50%',
                 padding: 0,
                 flexShrink: 0,
                 '&:hover': {
-                  backgroundColor: '#0842A0',
+                  backgroundColor: 'var(--sys-primary)',
                 },
               }}
             >
-              <Close sx={{ fontSize: 10, color: '#FFFFFF' }} />
+              <Close sx={{ fontSize: 10, color: 'var(--sys-on-primary)' }} />
             </IconButton>
           </Box>
         </React.Fragment>
@@ -509,7 +509,7 @@ const FilterBar: React.FC<FilterBarProps> = ({
         flexDirection: 'column',
         gap: '8px',
         padding: '0px',
-        backgroundColor: '#FFFFFF',
+        backgroundColor: 'var(--sys-surface)',
         ...(isPreview ? { flex: 1, minWidth: 0 } : { width: '100%' }),
         ...sx
       }}>
@@ -531,7 +531,7 @@ const FilterBar: React.FC<FilterBarProps> = ({
               boxSizing: 'border-box',
               transition: 'border-color 0.2s ease',
               '&:hover': {
-                borderColor: '#0E4DCA',
+                borderColor: 'var(--sys-brand)',
               },
               ...(isPreview
                 ? { flex: 1, minWidth: 0 }
@@ -547,10 +547,10 @@ const FilterBar: React.FC<FilterBarProps> = ({
                   width: '28px',
                   height: '28px',
                   borderRadius: '50%',
-                  '&:hover': { backgroundColor: '#E8F4FF' }
+                  '&:hover': { backgroundColor: 'var(--sys-selected-container-sky)' }
                 }}
               >
-                <FilterList sx={{ fontSize: '20px', color: '#1F1F1F' }} />
+                <FilterList sx={{ fontSize: '20px', color: 'var(--sys-on-surface)' }} />
               </IconButton>
             </Tooltip>
             {isOrMode && (
@@ -561,8 +561,8 @@ const FilterBar: React.FC<FilterBarProps> = ({
                   fontWeight: 500,
                   fontSize: '11px',
                   lineHeight: '16px',
-                  color: '#FFFFFF',
-                  backgroundColor: '#0B57D0',
+                  color: 'var(--sys-on-primary)',
+                  backgroundColor: 'var(--sys-primary)',
                   borderRadius: '4px',
                   px: 0.75,
                   py: 0.25,
@@ -581,7 +581,7 @@ const FilterBar: React.FC<FilterBarProps> = ({
                   fontWeight: 500,
                   fontSize: '12px',
                   lineHeight: '16px',
-                  color: '#1F1F1F',
+                  color: 'var(--sys-on-surface)',
                   whiteSpace: 'nowrap',
                   flexShrink: 0,
                 }}
@@ -621,12 +621,12 @@ const FilterBar: React.FC<FilterBarProps> = ({
                   '& .MuiInputBase-input': {
                     padding: '4px 4px',
                     fontSize: '12px',
-                    color: '#1F1F1F',
+                    color: 'var(--sys-on-surface)',
                     overflow: 'hidden',
                     textOverflow: 'ellipsis',
                   },
                   '& .MuiInputBase-input::placeholder': {
-                    color: '#5E5E5E',
+                    color: 'var(--sys-on-surface-soft)',
                     opacity: 1,
                     fontFamily: '"Google Sans", sans-serif',
                     fontWeight: 400,
@@ -659,7 +659,7 @@ const FilterBar: React.FC<FilterBarProps> = ({
                 onClick={handleClearAll}
                 sx={{
                   fontSize: '11px',
-                  color: '#0B57D0',
+                  color: 'var(--sys-primary)',
                   textTransform: 'none',
                   padding: '2px 8px',
                   minWidth: 'auto',
@@ -695,7 +695,7 @@ const FilterBar: React.FC<FilterBarProps> = ({
                     sx={{
                       display: 'flex',
                       alignItems: 'center',
-                      backgroundColor: '#E7F0FE',
+                      backgroundColor: 'var(--sys-selected-container)',
                       borderRadius: '25px',
                       padding: '2px 3px 2px 8px',
                       gap: '4px',
@@ -708,7 +708,7 @@ const FilterBar: React.FC<FilterBarProps> = ({
                         fontSize: '11px',
                         lineHeight: '16px',
                         letterSpacing: '0.1px',
-                        color: '#0B57D0',
+                        color: 'var(--sys-primary)',
                       }}
                     >
                       OR
@@ -724,15 +724,15 @@ const FilterBar: React.FC<FilterBarProps> = ({
                       sx={{
                         width: 14,
                         height: 14,
-                        backgroundColor: '#0B57D0',
+                        backgroundColor: 'var(--sys-primary-hover)',
                         borderRadius: '50%',
                         padding: 0,
                         '&:hover': {
-                          backgroundColor: '#0842A0',
+                          backgroundColor: 'var(--sys-primary-hover)',
                         },
                       }}
                     >
-                      <Close sx={{ fontSize: 10, color: '#FFFFFF' }} />
+                      <Close sx={{ fontSize: 10, color: 'var(--sys-on-primary)' }} />
                     </IconButton>
                   </Box>
                 )}
@@ -740,7 +740,7 @@ const FilterBar: React.FC<FilterBarProps> = ({
                   sx={{
                     display: 'flex',
                     alignItems: 'center',
-                    backgroundColor: '#E7F0FE',
+                    backgroundColor: 'var(--sys-selected-container)',
                     borderRadius: '25px',
                     padding: '2px 3px 2px 8px',
                     gap: '4px',
@@ -757,7 +757,7 @@ const FilterBar: React.FC<FilterBarProps> = ({
                         fontSize: '11px',
                         lineHeight: '16px',
                         letterSpacing: '0.1px',
-                        color: '#0B57D0',
+                        color: 'var(--sys-primary)',
                         whiteSpace: 'nowrap',
                         flexShrink: 0,
                       }}
@@ -773,7 +773,7 @@ const FilterBar: React.FC<FilterBarProps> = ({
                         fontSize: '11px',
                         lineHeight: '16px',
                         letterSpacing: '0.1px',
-                        color: '#0B57D0',
+                        color: 'var(--sys-primary)',
                         overflow: 'hidden',
                         textOverflow: 'ellipsis',
                         whiteSpace: 'nowrap',
@@ -789,16 +789,16 @@ const FilterBar: React.FC<FilterBarProps> = ({
                     sx={{
                       width: 14,
                       height: 14,
-                      backgroundColor: '#0B57D0',
+                      backgroundColor: 'var(--sys-primary)',
                       borderRadius: '50%',
                       padding: 0,
                       flexShrink: 0,
                       '&:hover': {
-                        backgroundColor: '#0842A0',
+                        backgroundColor: 'var(--sys-primary)',
                       },
                     }}
                   >
-                    <Close sx={{ fontSize: 10, color: '#FFFFFF' }} />
+                    <Close sx={{ fontSize: 10, color: 'var(--sys-on-primary)' }} />
                   </IconButton>
                 </Box>
               </React.Fragment>
@@ -824,7 +824,7 @@ const FilterBar: React.FC<FilterBarProps> = ({
               width: filterBarRef.current ? `${filterBarRef.current.offsetWidth}px` : '350px',
               minWidth: filterBarRef.current ? `${filterBarRef.current.offsetWidth}px` : '350px',
               maxWidth: 'none',
-              backgroundColor: '#FFFFFF',
+              backgroundColor: 'var(--sys-surface)',
               boxShadow: '0px 2px 8.4px rgba(0, 0, 0, 0.15)',
               borderRadius: '12px',
               padding: '0px',
@@ -845,11 +845,11 @@ const FilterBar: React.FC<FilterBarProps> = ({
               fontSize: '14px',
               lineHeight: '20px',
               letterSpacing: '0.25px',
-              color: '#0B57D0',
+              color: 'var(--sys-primary)',
               padding: '8px 12px',
               height: '45px',
               minHeight: '45px',
-              borderBottom: '1px solid #E0E0E0',
+              borderBottom: '1px solid var(--sys-divider)',
             }}
           >
             OR
@@ -872,8 +872,8 @@ const FilterBar: React.FC<FilterBarProps> = ({
                 gap: '12px',
                 height: '45px',
                 minHeight: '45px',
-                backgroundColor: isActive || isHovered ? '#EDF2FC' : 'transparent',
-                '&:hover': { backgroundColor: '#EDF2FC' },
+                backgroundColor: isActive || isHovered ? 'var(--sys-selected-container-low)' : 'transparent',
+                '&:hover': { backgroundColor: 'var(--sys-selected-container-low)' },
                 '&:first-of-type': { borderRadius: '12px 12px 0 0' },
                 '&:last-of-type': { borderRadius: '0 0 12px 12px' },
               }}
@@ -887,7 +887,7 @@ const FilterBar: React.FC<FilterBarProps> = ({
                         fontSize: '14px',
                         lineHeight: '20px',
                         letterSpacing: '0.25px',
-                        color: '#44464F',
+                        color: 'var(--sys-on-surface-slate)',
                         overflow: 'hidden',
                         textOverflow: 'ellipsis',
                         whiteSpace: 'nowrap',
@@ -899,7 +899,7 @@ const FilterBar: React.FC<FilterBarProps> = ({
                 }
               />
               {menuTrigger === 'filter' && (prop.mode === 'dropdown' || prop.mode === 'both') && (
-                <KeyboardArrowRight sx={{ fontSize: '18px', color: '#44464F', marginLeft: 'auto', flexShrink: 0 }} />
+                <KeyboardArrowRight sx={{ fontSize: '18px', color: 'var(--sys-on-surface-slate)', marginLeft: 'auto', flexShrink: 0 }} />
               )}
             </MenuItem>
           );
@@ -929,7 +929,7 @@ const FilterBar: React.FC<FilterBarProps> = ({
           sx: {
             pointerEvents: 'auto',
             width: '281px',
-            backgroundColor: '#FFFFFF',
+            backgroundColor: 'var(--sys-surface)',
             boxShadow: '0px 2px 8.4px rgba(0, 0, 0, 0.15)',
             borderRadius: '12px',
             padding: '0px',
@@ -951,7 +951,7 @@ const FilterBar: React.FC<FilterBarProps> = ({
               gap: '12px',
               height: '45px',
               minHeight: '45px',
-              '&:hover': { backgroundColor: '#EDF2FC' },
+              '&:hover': { backgroundColor: 'var(--sys-selected-container-low)' },
             }}
           >
             <Checkbox
@@ -959,7 +959,7 @@ const FilterBar: React.FC<FilterBarProps> = ({
               size="small"
               sx={{
                 padding: 0,
-                '&.Mui-checked': { color: '#0E4DCA' },
+                '&.Mui-checked': { color: 'var(--sys-brand)' },
               }}
             />
             <ListItemText
@@ -971,7 +971,7 @@ const FilterBar: React.FC<FilterBarProps> = ({
                       fontSize: '14px',
                       lineHeight: '20px',
                       letterSpacing: '0.25px',
-                      color: '#44464F',
+                      color: 'var(--sys-on-surface-slate)',
                       overflow: 'hidden',
                       textOverflow: 'ellipsis',
                       whiteSpace: 'nowrap',
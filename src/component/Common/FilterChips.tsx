@@ -60,8 +60,8 @@ const FilterChips:React.FC<FilterChipsProps> = ({selectedFilters, getCount, hand
             gap: '8px',
             display: 'flex',
             alignItems: 'center',
-            backgroundColor: '#E7F0FE',
-            color: '#0E4DCA',
+            backgroundColor: 'var(--sys-selected-container)',
+            color: 'var(--sys-brand)',
             height: '32px',
             border: 'none',
             whiteSpace: 'nowrap'      
@@ -20,6 +20,8 @@ import { getName, getEntryType, generateBigQueryLink, hasValidAnnotationData, ge
 import { useAuth } from '../../auth/AuthProvider';
 import { usePreviewEntry } from '../../hooks/usePreviewEntry';
 import { useAccessRequest } from '../../contexts/AccessRequestContext';
+import { useCommandActions } from '../../contexts/CommandPaletteContext';
+import { getAnnotationAspectKeys, getContacts, getSchemaFields, type EntryContact } from '../../utils/entryModel';
 
 /**
  * @file ResourcePreview.tsx
@@ -53,6 +55,7 @@ import { useAccessRequest } from '../../contexts/AccessRequestContext';
  *
  * This component also orchestrates the "Request Access" flow by managing
  * the `SubmitAccess` modal and the `NotificationBar` for success messages.
+ * The flow can also be started from the command palette.
  *
  * If `previewData` is `null` or a placeholder, it renders a default message
  * prompting the user to select an item.
@@ -154,15 +157,8 @@ const ResourcePreview: React.FC<ResourcePreviewProps> = ({
   const entryError = previewMode === 'isolated'
     ? isolatedError
     : reduxEntryError;
-  const number = entry?.entryType?.split('/')[1];
-  const rawContacts = entry?.aspects?.[`${number}.global.contacts`]?.data?.fields?.identities?.listValue?.values || [];
-  const contacts = rawContacts.filter((c: { structValue?: { fields?: { name?: { stringValue?: string }; id?: { stringValue?: string } } } }) => {
-    const fields = c?.structValue?.fields;
-    const name = fields?.name?.stringValue || '';
-    const id = fields?.id?.stringValue || '';
-    return name.trim() !== '' || id.trim() !== '';
-  });
-  const schemaData = entry?.aspects?.[`${number}.global.schema`]?.data?.fields?.fields?.listValue?.values || [];
+  const contacts = getContacts(entry).filter((contact) => contact.name.trim() !== '' || contact.id.trim() !== '');
+  const schemaData = getSchemaFields(entry);
   const hasAnnotations = entry?.aspects ? Object.keys(entry.aspects).some(key => hasValidAnnotationData(entry.aspects[key])) : false;
 
 
@@ -213,6 +209,13 @@ const ResourcePreview: React.FC<ResourcePreviewProps> = ({
     }
   };
 
+  useCommandActions(previewData?.name && !demoMode ? [{
+    id: 'preview:requestAccess',
+    label: `Request access to ${previewData.entrySource?.displayName || getName(previewData.name, '/')}`,
+    keywords: ['access', 'permission'],
+    run: () => handleRequestAccess(entry ?? previewData),
+  }] : []);
+
   const handleCloseSubmitAccess = () => {
     setIsSubmitAccessOpen(false);
   };
@@ -251,34 +254,13 @@ const ResourcePreview: React.FC<ResourcePreviewProps> = ({
     }, [entry]);
 
 
-    const getDisplayName = (contact: any) => {
-    try {
-      const name = contact.structValue.fields.name.stringValue;
-      if (!name) return "--";
-      return name.split('<').length > 1
-        ? name.split('<')[1].slice(0, -1)
-        : name;
-    } catch (e) {
-      console.error("Error parsing contact name:", e);
-      return "--"; // Failsafe
-    }
-  };
+  const getDisplayName = (contact: EntryContact) => contact.email || contact.name || "--";
 
   const handleAnnotationExpandAll = () => {
   if (entry?.aspects) {
-    const number = getEntryType(entry.name, '/');
-    const annotationKeys = Object.keys(entry.aspects)
-      .filter(key =>
-        // First, filter out the non-annotation aspects as before
-        key !== `${number}.global.schema` &&
-        key !== `${number}.global.overview` &&
-        key !== `${number}.global.contacts` &&
-        key !== `${number}.global.usage`
-      )
-      .filter(key => 
-        // THEN, filter again to only keep keys that have valid data
-        hasValidAnnotationData(entry.aspects[key])
-      );
+    const annotationKeys = getAnnotationAspectKeys(entry)
+      // Only expand those with data
+      .filter(key => hasValidAnnotationData(entry.aspects[key]));
     setExpandedAnnotations(new Set(annotationKeys));
   }
 };
@@ -756,7 +738,7 @@ const ResourcePreview: React.FC<ResourcePreviewProps> = ({
                             <Tooltip
                               title={
                                 <Box sx={{ display: 'flex', flexDirection: 'column', gap: '2px', padding: '4px' }}>
-                                  {contacts.slice(1).map((contact: any, index: any) => (
+                                  {contacts.slice(1).map((contact, index) => (
                                     <Typography key={index} sx={{ fontFamily: '"Google Sans Text", sans-serif', fontSize: '12px' }}>
                                       {getDisplayName(contact)}
                                     </Typography>
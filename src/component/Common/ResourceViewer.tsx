@@ -87,6 +87,12 @@ import { useNoAccess } from '../../contexts/NoAccessContext';
  * @param {(filters: any[]) => void} [props.onFiltersChange] - Callback to notify
  * the parent of a change in filters.
  *
+ * @param {'mostRelevant' | 'name' | 'lastModified'} [props.sortBy] - Optional
+ * controlled sort field; the component keeps its own sort state when omitted.
+ * @param {'asc' | 'desc'} [props.sortOrder] - Optional controlled sort direction.
+ * @param {(sortBy, sortOrder) => void} [props.onSortChange] - Optional callback
+ * invoked when the user changes the sort field or direction.
+ *
  * @param {React.CSSProperties} [props.containerStyle] - Optional styles for the main
  * container.
  * @param {React.CSSProperties} [props.contentStyle] - Optional styles for the
@@ -148,6 +154,11 @@ interface ResourceViewerProps {
   availableTypeAliases?: { name: string; count: number }[];
   onTypeAliasClick?: (type: string) => void;
   hideMostRelevant?: boolean;
+
+  // Sort props (optional; the viewer keeps its own sort state when omitted)
+  sortBy?: 'mostRelevant' | 'name' | 'lastModified';
+  sortOrder?: 'asc' | 'desc';
+  onSortChange?: (sortBy: 'mostRelevant' | 'name' | 'lastModified', sortOrder: 'asc' | 'desc') => void;
   
   // Styling props
   containerStyle?: React.CSSProperties;
@@ -197,6 +208,9 @@ const ResourceViewer: React.FC<ResourceViewerProps> = ({
   availableTypeAliases,
   onTypeAliasClick,
   hideMostRelevant = false,
+  sortBy: controlledSortBy,
+  sortOrder: controlledSortOrder,
+  onSortChange,
   startIndex: _startIndex = 0,
   pageSize: _pageSize = 20,
   setPageSize,
@@ -227,8 +241,15 @@ const ResourceViewer: React.FC<ResourceViewerProps> = ({
   const [cardNotificationMessage, setCardNotificationMessage] = useState('');
 
   // Sort state
-  const [sortBy, setSortBy] = useState<'mostRelevant' | 'name' | 'lastModified'>(hideMostRelevant ? 'name' : 'mostRelevant');
-  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
+  const [internalSortBy, setInternalSortBy] = useState<'mostRelevant' | 'name' | 'lastModified'>(hideMostRelevant ? 'name' : 'mostRelevant');
+  const [internalSortOrder, setInternalSortOrder] = useState<'asc' | 'desc'>('asc');
+  const sortBy = controlledSortBy ?? internalSortBy;
+  const sortOrder = controlledSortOrder ?? internalSortOrder;
+  const setSort = (nextSortBy: typeof sortBy, nextSortOrder: typeof sortOrder) => {
+    setInternalSortBy(nextSortBy);
+    setInternalSortOrder(nextSortOrder);
+    onSortChange?.(nextSortBy, nextSortOrder);
+  };
   const [sortMenuAnchor, setSortMenuAnchor] = useState<null | HTMLElement>(null);
   const [hoveredIndex, setHoveredIndex] = React.useState<number | null>(null);
   const [isScrolled, setIsScrolled] = useState(false);
@@ -460,10 +481,7 @@ const ResourceViewer: React.FC<ResourceViewerProps> = ({
   };
 
   const handleSortOptionSelect = (option: 'mostRelevant' | 'name' | 'lastModified') => {
-    setSortBy(option);
-    if (option === 'mostRelevant') {
-      setSortOrder('asc');
-    }
+    setSort(option, option === 'mostRelevant' ? 'asc' : sortOrder);
     handleSortMenuClose();
   };
 
@@ -587,7 +605,7 @@ const ResourceViewer: React.FC<ResourceViewerProps> = ({
                   {(hideMostRelevant || sortBy !== 'mostRelevant') && (
                     <Tooltip title={sortOrder === 'asc' ? 'Sort large to small' : 'Sort small to large'} arrow>
                       <span
-                        onClick={() => setSortOrder(prev => prev === 'asc' ? 'desc' : 'asc')}
+                        onClick={() => setSort(sortBy, sortOrder === 'asc' ? 'desc' : 'asc')}
                         style={{
                           cursor: 'pointer',
                           display: 'flex',
@@ -0,0 +1,72 @@
+import React from 'react';
+import { Box, Tooltip } from '@mui/material';
+import { CompareArrows } from '@mui/icons-material';
+import { useDispatch, useSelector } from 'react-redux';
+import type { AppDispatch, RootState } from '../../app/store';
+import { addToCompare, removeFromCompare } from '../../features/compare/compareSlice';
+import { MAX_COMPARE_ENTRIES } from '../../utils/entryCompare';
+
+/**
+ * @file AddToCompareButton.tsx
+ * @description
+ * Icon button that adds an entry to (or removes it from) the comparison
+ * selection shown in the `CompareTray`. Used next to the favorite star on
+ * search result cards and on the details page.
+ *
+ * @param {AddToCompareButtonProps} props
+ * @param {string} props.entryName - Full resource name of the entry.
+ * @param {number} [props.size] - Icon size in pixels (default 20).
+ */
+
+interface AddToCompareButtonProps {
+  entryName: string;
+  size?: number;
+}
+
+// Stable fallback for stores without the compare slice
+const NO_SELECTION: string[] = [];
+
+const AddToCompareButton: React.FC<AddToCompareButtonProps> = ({ entryName, size = 20 }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const mode = useSelector((state: RootState) => state.user.mode);
+  const selection = useSelector((state: RootState) => state.compare?.selection ?? NO_SELECTION);
+  const isSelected = selection.includes(entryName);
+  const isFull = !isSelected && selection.length >= MAX_COMPARE_ENTRIES;
+  const title = isSelected
+    ? 'Remove from comparison'
+    : isFull ? `You can compare up to ${MAX_COMPARE_ENTRIES} entries` : 'Add to comparison';
+
+  const handleClick = (event: React.MouseEvent) => {
+    event.stopPropagation();
+    if (isFull || !entryName) return;
+    dispatch(isSelected ? removeFromCompare(entryName) : addToCompare(entryName));
+  };
+
+  return (
+    <Tooltip title={title} arrow placement="top">
+      <Box
+        component="span"
+        role="button"
+        aria-label={isSelected ? 'Remove from comparison' : 'Add to comparison'}
+        aria-pressed={isSelected}
+        aria-disabled={isFull}
+        onClick={handleClick}
+        onDoubleClick={(event) => event.stopPropagation()}
+        sx={{
+          cursor: isFull ? 'default' : 'pointer',
+          opacity: isFull ? 0.4 : 1,
+          display: 'flex',
+          padding: '6px',
+          margin: '-6px',
+          borderRadius: '50%',
+          transition: 'background-color 0.2s ease',
+          '&:hover': { backgroundColor: mode === 'dark' ? 'rgba(255, 255, 255, 0.08)' : 'rgba(0, 0, 0, 0.04)' },
+        }}
+      >
+        <CompareArrows sx={{ fontSize: size, color: isSelected ? '#0B57D0' : '#575757' }} />
+      </Box>
+    </Tooltip>
+  );
+};
+
+export default AddToCompareButton;
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import ComparePage from './ComparePage';
+import type { CompareItem } from '../../features/compare/compareSlice';
+
+const entryName = (name: string) => `projects/p/locations/us/entryGroups/@bigquery/entries/${name}`;
+
+const schemaField = (name: string, dataType: string) => ({
+  structValue: { fields: { name: { stringValue: name }, dataType: { stringValue: dataType }, mode: { stringValue: 'NULLABLE' } } },
+});
+
+const makeItem = (name: string, fields: unknown[], owner: string, upstream: string[], overrides: Partial<CompareItem> = {}): CompareItem => ({
+  status: 'succeeded',
+  entry: {
+    name: entryName(name),
+    entryType: 'projects/655216118709/locations/global/entryTypes/bigquery-table',
+    entrySource: { displayName: name, system: 'BigQuery' },
+    aspects: {
+      '655216118709.global.schema': { data: { fields: { fields: { listValue: { values: fields } } } } },
+      '655216118709.global.overview': { data: { owner } },
+    },
+  },
+  lineage: {
+    sourceLinks: [],
+    targetLinks: upstream.map((fqn) => ({ name: `${fqn}->${name}`, source: { fullyQualifiedName: fqn }, target: { fullyQualifiedName: name } })),
+  },
+  dqScanName: `scans/${name}`,
+  profileScanName: null,
+  error: null,
+  ...overrides,
+});
+
+let mockItems: Record<string, CompareItem> = {};
+let mockSearch = '';
+const mockDispatch = vi.fn();
+const mockNavigate = vi.fn();
+
+vi.mock('react-redux', () => ({
+  useDispatch: () => mockDispatch,
+  useSelector: (selector: (state: unknown) => unknown) =>
+    selector({
+      user: { mode: 'light' },
+      compare: { selection: [], items: mockItems },
+      dataScan: {
+        scans: {
+          'scans/orders': { data: { jobs: [{ dataQualityResult: { score: 92, passed: true, rules: [{ passed: true }] } }] } },
+          'scans/returns': { data: { jobs: [{ dataQualityResult: { score: 70, passed: false, rules: [{ passed: false }] } }] } },
+        },
+      },
+    }),
+}));
+
+vi.mock('react-router-dom', () => ({
+  useNavigate: () => mockNavigate,
+  useLocation: () => ({ pathname: '/compare', search: mockSearch }),
+}));
+
+vi.mock('../../auth/AuthProvider', () => ({
+  useAuth: () => ({ user: { token: 'test-token' } }),
+}));
+
+vi.mock('../../features/compare/compareSlice', () => ({
+  loadCompareEntry: vi.fn((params) => ({ type: 'compare/loadCompareEntry', payload: params })),
+  removeFromCompare: vi.fn((name) => ({ type: 'compare/removeFromCompare', payload: name })),
+  setCompareSelection: vi.fn((names) => ({ type: 'compare/setCompareSelection', payload: names })),
+}));
+
+vi.mock('../../features/entry/entrySlice', () => ({
+  clearHistory: vi.fn(() => ({ type: 'entry/clearHistory' })),
+  fetchEntry: vi.fn((params) => ({ type: 'entry/fetchEntry', payload: params })),
+}));
+
+describe('ComparePage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSearch = `?entries=${entryName('orders')},${entryName('returns')}`;
+    mockItems = {
+      [entryName('orders')]: makeItem('orders', [schemaField('id', 'INT64'), schemaField('amount', 'NUMERIC')], 'sales', ['raw', 'fx']),
+      [entryName('returns')]: makeItem('returns', [schemaField('id', 'STRING'), schemaField('reason', 'STRING')], 'support', ['raw']),
+    };
+  });
+
+  it('loads only the entries that are not loaded yet', () => {
+    mockItems = { [entryName('orders')]: mockItems[entryName('orders')] };
+    render(<ComparePage />);
+
+    expect(mockDispatch).toHaveBeenCalledWith({
+      type: 'compare/setCompareSelection',
+      payload: [entryName('orders'), entryName('returns')],
+    });
+    expect(mockDispatch).toHaveBeenCalledWith({
+      type: 'compare/loadCompareEntry',
+      payload: { entryName: entryName('returns'), id_token: 'test-token' },
+    });
+    expect(mockDispatch).not.toHaveBeenCalledWith(expect.objectContaining({ payload: { entryName: entryName('orders'), id_token: 'test-token' } }));
+  });
+
+  it('shows the schema diff against the first entry', () => {
+    render(<ComparePage />);
+
+    const schema = within(screen.getByRole('table', { name: 'Schema comparison' }));
+    const rowOf = (column: string) => schema.getByText(column).closest('tr') as HTMLElement;
+    expect(within(rowOf('id')).getByText('Type changed')).toBeInTheDocument();
+    expect(within(rowOf('amount')).getByText('Removed')).toBeInTheDocument();
+    expect(within(rowOf('reason')).getByText('Added')).toBeInTheDocument();
+  });
+
+  it('lines up aspect values, scan headlines and shared lineage', () => {
+    render(<ComparePage />);
+
+    const aspects = within(screen.getByRole('table', { name: 'Aspect comparison' }));
+    expect(within(aspects.getByText('owner').closest('tr') as HTMLElement).getAllByRole('cell').map((cell) => cell.textContent))
+      .toEqual(['owner', 'sales', 'support']);
+
+    const scans = within(screen.getByRole('table', { name: 'Data quality and profile comparison' }));
+    expect(within(scans.getByText('Data quality score').closest('tr') as HTMLElement).getAllByRole('cell').map((cell) => cell.textContent))
+      .toEqual(['Data quality score', '92%', '70%']);
+
+    expect(screen.getByText('Upstream (1 shared of 2)')).toBeInTheDocument();
+  });
+
+  it('removes an entry by updating the URL', () => {
+    render(<ComparePage />);
+
+    fireEvent.click(screen.getByRole('button', { name: `Remove ${entryName('returns')} from comparison` }));
+
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'compare/removeFromCompare', payload: entryName('returns') });
+    expect(mockNavigate).toHaveBeenCalledWith(`/compare?entries=${encodeURIComponent(entryName('orders'))}`, { replace: true });
+  });
+
+  it('asks for a second entry when only one is listed', () => {
+    mockSearch = `?entries=${entryName('orders')}`;
+    render(<ComparePage />);
+
+    expect(screen.getByText(/Add at least two entries to compare them/)).toBeInTheDocument();
+    expect(screen.queryByRole('table')).not.toBeInTheDocument();
+  });
+});
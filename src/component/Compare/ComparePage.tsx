@@ -0,0 +1,363 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  CircularProgress,
+  FormControlLabel,
+  IconButton,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Check, Close, OpenInNew } from '@mui/icons-material';
+import { useDispatch, useSelector } from 'react-redux';
+import { useLocation, useNavigate } from 'react-router-dom';
+import type { AppDispatch, RootState } from '../../app/store';
+import { useAuth } from '../../auth/AuthProvider';
+import { clearHistory, fetchEntry } from '../../features/entry/entrySlice';
+import { loadCompareEntry, removeFromCompare, setCompareSelection } from '../../features/compare/compareSlice';
+import {
+  buildCompareUrl,
+  diffAspects,
+  diffSchemas,
+  getEntryDisplayName,
+  getLineageOverlap,
+  getScanHeadline,
+  parseCompareEntries,
+  type CompareFieldStatus,
+  type LineageOverlapRow,
+  type ScanHeadline,
+} from '../../utils/entryCompare';
+import { getFormatedDate } from '../../utils/resourceUtils';
+
+/**
+ * @file ComparePage.tsx
+ * @description
+ * The `/compare?entries=<name>,<name>` page. Loads every listed entry
+ * (`loadCompareEntry`) and shows them side by side, one column per entry:
+ * the schema diff against the first entry, aspect values, data quality and
+ * profile headline numbers, and the upstream and downstream lineage
+ * neighbours the entries share. Entries are added from search results or the
+ * details page through the `CompareTray`.
+ */
+
+const STATUS_STYLES: Record<CompareFieldStatus, { label: string; color: string; background: string } | null> = {
+  same: null,
+  added: { label: 'Added', color: '#0D652D', background: '#E6F4EA' },
+  removed: { label: 'Removed', color: '#A50E0E', background: '#FCE8E6' },
+  typeChanged: { label: 'Type changed', color: '#7A4100', background: '#FEEFC3' },
+};
+
+const formatTime = (iso: string | null) => (iso ? getFormatedDate(Date.parse(iso) / 1000) : '-');
+
+const formatNumber = (value: number | null) => (value === null ? '-' : value.toLocaleString('en-US'));
+
+// fetchEntry rejects a 403 with `{ type: 'PERMISSION_DENIED' }`
+const isPermissionDenied = (error: unknown) =>
+  !!error && typeof error === 'object' && 'type' in error && error.type === 'PERMISSION_DENIED';
+
+const HEADLINE_ROWS: { label: string; render: (headline: ScanHeadline) => string }[] = [
+  { label: 'Data quality score', render: (h) => (h.dqScore === null ? '-' : `${h.dqScore}%`) },
+  { label: 'Data quality result', render: (h) => (h.dqPassed === null ? '-' : h.dqPassed ? 'Passed' : 'Failed') },
+  { label: 'Failed rules', render: (h) => (h.ruleCount === null ? '-' : `${h.failedRuleCount} of ${h.ruleCount}`) },
+  { label: 'Last data quality run', render: (h) => formatTime(h.lastRun) },
+  { label: 'Row count', render: (h) => formatNumber(h.rowCount) },
+  { label: 'Profiled columns', render: (h) => formatNumber(h.profiledFieldCount) },
+];
+
+const ComparePage: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { user } = useAuth();
+  const mode = useSelector((state: RootState) => state.user.mode);
+  const items = useSelector((state: RootState) => state.compare.items);
+  const scans = useSelector((state: RootState) => state.dataScan.scans);
+  const [onlyDifferences, setOnlyDifferences] = useState(false);
+  const id_token = user?.token || '';
+  const textColor = mode === 'dark' ? '#e3e3e3' : '#1F1F1F';
+  const secondaryColor = mode === 'dark' ? '#9aa0a6' : '#575757';
+  const borderColor = mode === 'dark' ? '#3c4043' : '#DADCE0';
+
+  const entryNames = useMemo(() => parseCompareEntries(location.search), [location.search]);
+
+  useEffect(() => {
+    dispatch(setCompareSelection(entryNames));
+    entryNames.forEach((entryName) => {
+      if (!items[entryName] || items[entryName].status === 'failed') {
+        dispatch(loadCompareEntry({ entryName, id_token }));
+      }
+    });
+    // Items are read, not watched, or a failed entry would be retried on every update
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [entryNames, id_token]);
+
+  const compareItems = useMemo(() => entryNames.map((entryName) => items[entryName]), [entryNames, items]);
+  const isLoading = compareItems.some((item) => !item || item.status === 'loading');
+  const entries = useMemo(
+    () => compareItems.map((item) => (item?.status === 'succeeded' ? item.entry : null)),
+    [compareItems]
+  );
+
+  const schemaRows = useMemo(() => diffSchemas(entries), [entries]);
+  const aspectDiffs = useMemo(() => diffAspects(entries), [entries]);
+  const lineageOverlap = useMemo(
+    () => getLineageOverlap(compareItems.map((item) => (item?.status === 'succeeded' ? item.lineage : null))),
+    [compareItems]
+  );
+  const headlines = compareItems.map((item) => getScanHeadline(
+    item?.dqScanName ? scans[item.dqScanName]?.data : null,
+    item?.profileScanName ? scans[item.profileScanName]?.data : null
+  ));
+
+  const removeEntry = (entryName: string) => {
+    dispatch(removeFromCompare(entryName));
+    navigate(buildCompareUrl(entryNames.filter((name) => name !== entryName)), { replace: true });
+  };
+
+  const openDetails = (entryName: string) => {
+    dispatch(clearHistory());
+    dispatch(fetchEntry({ entryName, id_token }));
+    navigate('/view-details');
+  };
+
+  const cellSx = { fontSize: '13px', color: textColor, borderColor, verticalAlign: 'top', wordBreak: 'break-word' as const };
+  const headCellSx = { ...cellSx, fontWeight: 500, color: secondaryColor };
+  const labelCellSx = { ...cellSx, fontWeight: 500, width: '200px' };
+  const differsSx = { backgroundColor: mode === 'dark' ? 'rgba(249, 171, 0, 0.12)' : '#FEF7E0' };
+
+  const renderSection = (title: string, content: React.ReactNode, action?: React.ReactNode) => (
+    <Box component="section" aria-label={title} sx={{ marginTop: '24px' }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '8px' }}>
+        <Typography component="h2" sx={{ fontSize: '18px', fontWeight: 500, color: textColor }}>{title}</Typography>
+        {action}
+      </Box>
+      {content}
+    </Box>
+  );
+
+  const renderEmpty = (text: string) => (
+    <Typography sx={{ fontSize: '14px', color: secondaryColor }}>{text}</Typography>
+  );
+
+  const renderEntryHeaders = (label = '') => (
+    <TableHead>
+      <TableRow>
+        <TableCell sx={headCellSx}>{label}</TableCell>
+        {entryNames.map((entryName, index) => (
+          <TableCell key={entryName} sx={headCellSx}>
+            {getEntryDisplayName(entries[index], entryName)}
+          </TableCell>
+        ))}
+      </TableRow>
+    </TableHead>
+  );
+
+  const renderEntryCard = (entryName: string, index: number) => {
+    const item = compareItems[index];
+    const entry = entries[index];
+    return (
+      <Box
+        key={entryName}
+        data-testid={`compare-entry-${entryName}`}
+        sx={{ flex: '1 1 0', minWidth: 0, padding: '12px 16px', borderRadius: '16px', border: `1px solid ${borderColor}` }}
+      >
+        <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: '4px' }}>
+          <Box sx={{ flex: '1 1 auto', minWidth: 0 }}>
+            <Typography noWrap sx={{ fontSize: '16px', fontWeight: 500, color: textColor }}>
+              {getEntryDisplayName(entry, entryName)}
+            </Typography>
+            <Typography noWrap sx={{ fontSize: '12px', color: secondaryColor }}>
+              {index === 0 ? 'Baseline · ' : ''}
+              {[entry?.entrySource?.system, entry?.entryType?.split('/').pop()].filter(Boolean).join(' · ') || entryName}
+            </Typography>
+          </Box>
+          {item?.status === 'succeeded' && (
+            <Tooltip title="Open details">
+              <IconButton size="small" aria-label={`Open ${entryName}`} onClick={() => openDetails(entryName)}>
+                <OpenInNew sx={{ fontSize: 18 }} />
+              </IconButton>
+            </Tooltip>
+          )}
+          <Tooltip title="Remove from comparison">
+            <IconButton size="small" aria-label={`Remove ${entryName} from comparison`} onClick={() => removeEntry(entryName)}>
+              <Close sx={{ fontSize: 18 }} />
+            </IconButton>
+          </Tooltip>
+        </Box>
+        {(!item || item.status === 'loading') && <CircularProgress size={16} sx={{ marginTop: '8px' }} />}
+        {item?.status === 'failed' && (
+          <Typography sx={{ fontSize: '12px', color: '#A50E0E', marginTop: '8px' }}>
+            {isPermissionDenied(item.error) ? "You don't have access to this entry" : 'This entry could not be loaded'}
+          </Typography>
+        )}
+      </Box>
+    );
+  };
+
+  const renderSchema = () => {
+    const rows = onlyDifferences ? schemaRows.filter((row) => row.differs) : schemaRows;
+    if (schemaRows.length === 0) return renderEmpty('None of the entries has a schema.');
+    if (rows.length === 0) return renderEmpty('The schemas are the same.');
+    return (
+      <Table size="small" aria-label="Schema comparison">
+        {renderEntryHeaders('Column')}
+        <TableBody>
+          {rows.map((row) => (
+            <TableRow key={row.name} sx={row.differs ? differsSx : undefined}>
+              <TableCell sx={labelCellSx}>{row.name}</TableCell>
+              {row.cells.map(({ field, status }, index) => {
+                const style = status ? STATUS_STYLES[status] : null;
+                return (
+                  <TableCell key={entryNames[index]} sx={cellSx}>
+                    {field ? [field.type, field.mode].filter(Boolean).join(', ') : '-'}
+                    {style && (
+                      <Typography
+                        component="span"
+                        sx={{ marginLeft: '8px', fontSize: '11px', fontWeight: 500, color: style.color, backgroundColor: style.background, borderRadius: '38px', padding: '1px 8px', whiteSpace: 'nowrap' }}
+                      >
+                        {style.label}
+                      </Typography>
+                    )}
+                  </TableCell>
+                );
+              })}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    );
+  };
+
+  const renderAspects = () => {
+    const diffs = onlyDifferences ? aspectDiffs.filter((diff) => diff.differs) : aspectDiffs;
+    if (aspectDiffs.length === 0) return renderEmpty('None of the entries has aspects besides the schema.');
+    if (diffs.length === 0) return renderEmpty('The aspect values are the same.');
+    return (
+      <Table size="small" aria-label="Aspect comparison">
+        {renderEntryHeaders('Aspect field')}
+        <TableBody>
+          {diffs.map((diff) => (
+            <React.Fragment key={diff.aspectKey}>
+              <TableRow>
+                <TableCell colSpan={entryNames.length + 1} sx={{ ...cellSx, fontWeight: 500, backgroundColor: mode === 'dark' ? '#202124' : '#F8F9FA' }}>
+                  {diff.label}
+                </TableCell>
+              </TableRow>
+              {(onlyDifferences ? diff.rows.filter((row) => row.differs) : diff.rows).map((row) => (
+                <TableRow key={row.field} sx={row.differs ? differsSx : undefined}>
+                  <TableCell sx={labelCellSx}>{row.field}</TableCell>
+                  {row.values.map((value, index) => (
+                    <TableCell key={entryNames[index]} sx={{ ...cellSx, color: value === null ? secondaryColor : textColor }}>
+                      {value === null ? 'No aspect' : value || '-'}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </React.Fragment>
+          ))}
+        </TableBody>
+      </Table>
+    );
+  };
+
+  const renderScans = () => (
+    <Table size="small" aria-label="Data quality and profile comparison">
+      {renderEntryHeaders()}
+      <TableBody>
+        {HEADLINE_ROWS.map(({ label, render }) => {
+          const values = headlines.map(render);
+          return (
+            <TableRow key={label} sx={values.some((value) => value !== values[0]) ? differsSx : undefined}>
+              <TableCell sx={labelCellSx}>{label}</TableCell>
+              {values.map((value, index) => (
+                <TableCell key={entryNames[index]} sx={cellSx}>{value}</TableCell>
+              ))}
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+
+  const renderLineageTable = (title: string, rows: LineageOverlapRow[]) => {
+    const shared = rows.filter((row) => row.count > 1).length;
+    return (
+      <Box sx={{ marginBottom: '16px' }}>
+        <Typography component="h3" sx={{ fontSize: '14px', fontWeight: 500, color: secondaryColor, marginBottom: '4px' }}>
+          {title} ({shared} shared of {rows.length})
+        </Typography>
+        {rows.length === 0 ? renderEmpty(`No ${title.toLowerCase()} entries.`) : (
+          <Table size="small" aria-label={`${title} lineage comparison`}>
+            {renderEntryHeaders('Fully qualified name')}
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.fqn} sx={row.count > 1 ? differsSx : undefined}>
+                  <TableCell sx={labelCellSx}>{row.fqn}</TableCell>
+                  {row.presentIn.map((present, index) => (
+                    <TableCell key={entryNames[index]} sx={cellSx}>
+                      {present ? <Check aria-label="Linked" sx={{ fontSize: 18, color: '#0B57D0' }} /> : null}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </Box>
+    );
+  };
+
+  return (
+    <Box sx={{ width: '90%', maxWidth: '1400px', margin: '0 auto 16px', padding: '24px', boxSizing: 'border-box' }}>
+      <Typography component="h1" sx={{ fontSize: '24px', fontWeight: 500, color: textColor }}>Compare entries</Typography>
+      <Typography sx={{ fontSize: '14px', color: secondaryColor, marginBottom: '16px' }}>
+        Differences are shown against the first entry.
+      </Typography>
+
+      {entryNames.length < 2 ? (
+        <>
+          {entryNames.length === 1 && <Box sx={{ display: 'flex', marginBottom: '16px' }}>{renderEntryCard(entryNames[0], 0)}</Box>}
+          {renderEmpty('Add at least two entries to compare them. Use the compare button on search results or on an entry\'s details page.')}
+          <Button onClick={() => navigate('/search')} sx={{ textTransform: 'none', marginTop: '8px' }}>Go to search</Button>
+        </>
+      ) : (
+        <>
+          <Box sx={{ display: 'flex', gap: '12px' }}>
+            {entryNames.map(renderEntryCard)}
+          </Box>
+          {isLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', padding: '48px' }}>
+              <CircularProgress />
+            </Box>
+          ) : (
+            <>
+              {renderSection('Schema', renderSchema(), (
+                <FormControlLabel
+                  label="Only differences"
+                  sx={{ '& .MuiFormControlLabel-label': { fontSize: '14px', color: textColor } }}
+                  control={<Switch size="small" checked={onlyDifferences} onChange={(e) => setOnlyDifferences(e.target.checked)} />}
+                />
+              ))}
+              {renderSection('Aspects', renderAspects())}
+              {renderSection('Data quality and profile', renderScans())}
+              {renderSection('Lineage overlap', (
+                <>
+                  {renderLineageTable('Upstream', lineageOverlap.upstream)}
+                  {renderLineageTable('Downstream', lineageOverlap.downstream)}
+                </>
+              ))}
+            </>
+          )}
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default ComparePage;
@@ -0,0 +1,85 @@
+import React, { useEffect } from 'react';
+import { Box, Button, Chip, Paper, Typography } from '@mui/material';
+import { useDispatch, useSelector } from 'react-redux';
+import { useLocation, useNavigate } from 'react-router-dom';
+import type { AppDispatch, RootState } from '../../app/store';
+import { clearCompare, removeFromCompare, saveCompareSelection } from '../../features/compare/compareSlice';
+import { buildCompareUrl, COMPARE_PATH, MAX_COMPARE_ENTRIES } from '../../utils/entryCompare';
+
+/**
+ * @file CompareTray.tsx
+ * @description
+ * Floating tray listing the entries picked for comparison, with a button
+ * that opens them on the `/compare` page. Hidden while the selection is
+ * empty and on the compare page itself. Keeps the selection in localStorage
+ * so it survives reloads.
+ */
+
+// Stable fallback for stores without the compare slice
+const NO_SELECTION: string[] = [];
+
+const CompareTray: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const mode = useSelector((state: RootState) => state.user.mode);
+  const selection = useSelector((state: RootState) => state.compare?.selection ?? NO_SELECTION);
+
+  useEffect(() => {
+    saveCompareSelection(selection);
+  }, [selection]);
+
+  if (selection.length === 0 || location.pathname === COMPARE_PATH) return null;
+
+  return (
+    <Paper
+      role="region"
+      aria-label="Comparison"
+      elevation={6}
+      sx={{
+        position: 'fixed',
+        bottom: '24px',
+        right: '24px',
+        zIndex: 1200,
+        maxWidth: '560px',
+        padding: '12px 16px',
+        borderRadius: '16px',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '8px',
+        backgroundColor: mode === 'dark' ? '#2d2e30' : '#FFFFFF',
+      }}
+    >
+      <Typography sx={{ fontSize: '14px', fontWeight: 500, color: mode === 'dark' ? '#e3e3e3' : '#1F1F1F' }}>
+        Compare ({selection.length}/{MAX_COMPARE_ENTRIES})
+      </Typography>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+        {selection.map((entryName) => (
+          <Chip
+            key={entryName}
+            size="small"
+            label={entryName.split('/').pop()}
+            title={entryName}
+            onDelete={() => dispatch(removeFromCompare(entryName))}
+          />
+        ))}
+      </Box>
+      <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: '8px' }}>
+        <Button size="small" onClick={() => dispatch(clearCompare())} sx={{ textTransform: 'none' }}>
+          Clear
+        </Button>
+        <Button
+          size="small"
+          variant="contained"
+          disabled={selection.length < 2}
+          onClick={() => navigate(buildCompareUrl(selection))}
+          sx={{ textTransform: 'none', borderRadius: '16px' }}
+        >
+          Compare
+        </Button>
+      </Box>
+    </Paper>
+  );
+};
+
+export default CompareTray;
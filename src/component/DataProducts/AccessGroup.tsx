@@ -204,13 +204,13 @@ const AccessGroup: React.FC<AccessGroupProps> = ({ entry, css }) => {
         />
         {/* Table - SearchTableView pattern */}
         {displayedData.length === 0 && activeFilters.length > 0 ? (
-          <div style={{ padding: '48px', textAlign: 'center', fontSize: '14px', fontFamily: 'Google Sans, sans-serif', color: '#575757' }}>
+          <div style={{ padding: '48px', textAlign: 'center', fontSize: '14px', fontFamily: 'Google Sans, sans-serif', color: 'var(--sys-on-surface-muted)' }}>
             No data matches the applied filters
           </div>
         ) : (
         <TableContainer
           sx={{
-            backgroundColor: '#FFFFFF',
+            backgroundColor: 'var(--sys-surface)',
             boxShadow: 'none',
             maxHeight: '600px',
             overflowY: 'auto',
@@ -242,7 +242,7 @@ const AccessGroup: React.FC<AccessGroupProps> = ({ entry, css }) => {
                     left: '12px',
                     right: '10px',
                     height: '1px',
-                    backgroundColor: '#DADCE0',
+                    backgroundColor: 'var(--sys-surface-container-strong)',
                   },
                 }}
               >
@@ -251,7 +251,7 @@ const AccessGroup: React.FC<AccessGroupProps> = ({ entry, css }) => {
                   sx={{
                     fontSize: '12px',
                     fontWeight: '500',
-                    color: '#444746',
+                    color: 'var(--sys-on-surface-variant)',
                     fontFamily: '"Google Sans", sans-serif',
                     position: 'relative',
                   }}
@@ -264,7 +264,7 @@ const AccessGroup: React.FC<AccessGroupProps> = ({ entry, css }) => {
                         display: 'flex', alignItems: 'center', gap: '4px', cursor: 'pointer',
                         borderRadius: '4px', padding: '4px 8px', margin: '-4px -8px',
                         transition: 'background-color 0.2s ease',
-                        '&:hover': { backgroundColor: '#F8F9FA' },
+                        '&:hover': { backgroundColor: 'var(--sys-background-neutral)' },
                       }}
                     >
                       <span>Name</span>
@@ -291,7 +291,7 @@ const AccessGroup: React.FC<AccessGroupProps> = ({ entry, css }) => {
                 {/* Type */}
                 <TableCell
                   sx={{
-                    fontSize: '12px', fontWeight: '500', color: '#444746',
+                    fontSize: '12px', fontWeight: '500', color: 'var(--sys-on-surface-variant)',
                     fontFamily: '"Google Sans", sans-serif', position: 'relative',
                   }}
                 >
@@ -303,7 +303,7 @@ const AccessGroup: React.FC<AccessGroupProps> = ({ entry, css }) => {
                         display: 'flex', alignItems: 'center', gap: '4px', cursor: 'pointer',
                         borderRadius: '4px', padding: '4px 8px', margin: '-4px -8px',
                         transition: 'background-color 0.2s ease',
-                        '&:hover': { backgroundColor: '#F8F9FA' },
+                        '&:hover': { backgroundColor: 'var(--sys-background-neutral)' },
                       }}
                     >
                       <span>Type</span>
@@ -330,7 +330,7 @@ const AccessGroup: React.FC<AccessGroupProps> = ({ entry, css }) => {
                 {/* System */}
                 <TableCell
                   sx={{
-                    fontSize: '12px', fontWeight: '500', color: '#444746',
+                    fontSize: '12px', fontWeight: '500', color: 'var(--sys-on-surface-variant)',
                     fontFamily: '"Google Sans", sans-serif', position: 'relative',
                   }}
                 >
@@ -342,7 +342,7 @@ const AccessGroup: React.FC<AccessGroupProps> = ({ entry, css }) => {
                         display: 'flex', alignItems: 'center', gap: '4px', cursor: 'pointer',
                         borderRadius: '4px', padding: '4px 8px', margin: '-4px -8px',
                         transition: 'background-color 0.2s ease',
-                        '&:hover': { backgroundColor: '#F8F9FA' },
+                        '&:hover': { backgroundColor: 'var(--sys-background-neutral)' },
                       }}
                     >
                       <span>System</span>
@@ -369,7 +369,7 @@ const AccessGroup: React.FC<AccessGroupProps> = ({ entry, css }) => {
                 {/* Source-Project */}
                 <TableCell
                   sx={{
-                    fontSize: '12px', fontWeight: '500', color: '#444746',
+                    fontSize: '12px', fontWeight: '500', color: 'var(--sys-on-surface-variant)',
                     fontFamily: '"Google Sans", sans-serif', position: 'relative',
                   }}
                 >
@@ -381,7 +381,7 @@ const AccessGroup: React.FC<AccessGroupProps> = ({ entry, css }) => {
                         display: 'flex', alignItems: 'center', gap: '4px', cursor: 'pointer',
                         borderRadius: '4px', padding: '4px 8px', margin: '-4px -8px',
                         transition: 'background-color 0.2s ease',
-                        '&:hover': { backgroundColor: '#F8F9FA' },
+                        '&:hover': { backgroundColor: 'var(--sys-background-neutral)' },
                       }}
                     >
                       <span>Source-Project</span>
@@ -408,7 +408,7 @@ const AccessGroup: React.FC<AccessGroupProps> = ({ entry, css }) => {
                 {/* Mapped-Permissions (no sort, no resize on last) */}
                 <TableCell
                   sx={{
-                    fontSize: '12px', fontWeight: '500', color: '#444746',
+                    fontSize: '12px', fontWeight: '500', color: 'var(--sys-on-surface-variant)',
                     fontFamily: '"Google Sans", sans-serif',
                     textAlign: 'right',
                   }}
@@ -424,18 +424,18 @@ const AccessGroup: React.FC<AccessGroupProps> = ({ entry, css }) => {
                     sx={{
                       position: 'relative',
                       height: 'auto',
-                      backgroundColor: '#FFFFFF',
+                      backgroundColor: 'var(--sys-surface)',
                       '& .MuiTableCell-root': {
                         borderBottom: 'none',
                       },
                       '&:hover .MuiTableCell-root': {
-                        backgroundColor: '#F8F9FA',
+                        backgroundColor: 'var(--sys-background-neutral)',
                       },
                       '&:hover .MuiTableCell-root:first-of-type': {
-                        background: 'linear-gradient(to right, transparent 12px, #F8F9FA 12px)',
+                        background: 'linear-gradient(to right, transparent 12px, var(--sys-background-neutral) 12px)',
                       },
                       '&:hover .MuiTableCell-root:last-of-type': {
-                        background: 'linear-gradient(to left, transparent 10px, #F8F9FA 10px)',
+                        background: 'linear-gradient(to left, transparent 10px, var(--sys-background-neutral) 10px)',
                       },
                       '&::after': {
                         content: '""',
@@ -444,7 +444,7 @@ const AccessGroup: React.FC<AccessGroupProps> = ({ entry, css }) => {
                         left: '12px',
                         right: '10px',
                         height: '1px',
-                        backgroundColor: '#DADCE0',
+                        backgroundColor: 'var(--sys-surface-container-strong)',
                       },
                     }}
                   >
@@ -453,7 +453,7 @@ const AccessGroup: React.FC<AccessGroupProps> = ({ entry, css }) => {
                       <OverflowTooltip text={row['Name'] ?? '-'}>
                         <Typography sx={{
                           fontFamily: '"Google Sans", sans-serif',
-                          fontSize: '14px', fontWeight: 400, color: '#1F1F1F',
+                          fontSize: '14px', fontWeight: 400, color: 'var(--sys-on-surface)',
                           textOverflow: 'ellipsis', overflow: 'hidden', whiteSpace: 'nowrap',
                         }}>
                           {row['Name'] ?? '-'}
@@ -466,7 +466,7 @@ const AccessGroup: React.FC<AccessGroupProps> = ({ entry, css }) => {
                       <OverflowTooltip text={row['Type'] ?? '-'}>
                         <Typography sx={{
                           fontFamily: '"Product Sans", "Google Sans Text", sans-serif',
-                          fontSize: '14px', fontWeight: 400, color: '#575757',
+                          fontSize: '14px', fontWeight: 400, color: 'var(--sys-on-surface-muted)',
                           textOverflow: 'ellipsis', overflow: 'hidden', whiteSpace: 'nowrap',
                         }}>
                           {row['Type'] ?? '-'}
@@ -479,7 +479,7 @@ const AccessGroup: React.FC<AccessGroupProps> = ({ entry, css }) => {
                       <OverflowTooltip text={row['System'] ?? '-'}>
                         <Typography sx={{
                           fontFamily: '"Product Sans", "Google Sans Text", sans-serif',
-                          fontSize: '14px', fontWeight: 400, color: '#575757',
+                          fontSize: '14px', fontWeight: 400, color: 'var(--sys-on-surface-muted)',
                           textOverflow: 'ellipsis', overflow: 'hidden', whiteSpace: 'nowrap',
                         }}>
                           {row['System'] ?? '-'}
@@ -492,7 +492,7 @@ const AccessGroup: React.FC<AccessGroupProps> = ({ entry, css }) => {
                       <OverflowTooltip text={row['Source-Project'] ?? '-'}>
                         <Typography sx={{
                           fontFamily: '"Product Sans", "Google Sans Text", sans-serif',
-                          fontSize: '14px', fontWeight: 400, color: '#575757',
+                          fontSize: '14px', fontWeight: 400, color: 'var(--sys-on-surface-muted)',
                           textOverflow: 'ellipsis', overflow: 'hidden', whiteSpace: 'nowrap',
                         }}>
                           {row['Source-Project'] ?? '-'}
@@ -510,7 +510,7 @@ const AccessGroup: React.FC<AccessGroupProps> = ({ entry, css }) => {
                           </Box>
                         ))
                       ) : (
-                        <Typography sx={{ fontSize: '14px', color: '#575757' }}>-</Typography>
+                        <Typography sx={{ fontSize: '14px', color: 'var(--sys-on-surface-muted)' }}>-</Typography>
                       )}
                     </TableCell>
                   </TableRow>
@@ -551,7 +551,7 @@ const AccessGroup: React.FC<AccessGroupProps> = ({ entry, css }) => {
                 <Box sx={{
                     padding: "0px 16px 5px 16px",
                     overflow: "hidden",
-                    backgroundColor: "#FFFFFF"
+                    backgroundColor: "var(--sys-surface)"
                 }}>
                         <Box sx={{
                             display: "flex",
@@ -565,7 +565,7 @@ const AccessGroup: React.FC<AccessGroupProps> = ({ entry, css }) => {
                                         fontWeight: 500,
                                         fontSize: "16px",
                                         lineHeight: "1.33em",
-                                        color: "#1F1F1F",
+                                        color: "var(--sys-on-surface)",
                                         textTransform: "capitalize",
                                     }}
                                 >
@@ -577,7 +577,7 @@ const AccessGroup: React.FC<AccessGroupProps> = ({ entry, css }) => {
                                 sx={{
                                     fontFamily: '"Google Sans Text", sans-serif',
                                     fontSize: "12px",
-                                    color: "#575757",
+                                    color: "var(--sys-on-surface-muted)",
                                     fontWeight: 400,
                                     lineHeight: "1.43em",
                                 }}
@@ -585,7 +585,7 @@ const AccessGroup: React.FC<AccessGroupProps> = ({ entry, css }) => {
                                 <Typography sx={{fontWeight: 400,
                                         fontSize: "13px",
                                         lineHeight: "2rem",
-                                        color: "#1F1F1F",}}>
+                                        color: "var(--sys-on-surface)",}}>
                                 Define access groups which will be used by Data product consumers to request access. Asset permissions will be assigned
                                 to the access groups defined here.
                                 </Typography>
@@ -612,7 +612,7 @@ const AccessGroup: React.FC<AccessGroupProps> = ({ entry, css }) => {
                                     <Grid
                                         size={4}
                                         key={accessGroups[key].id}
-                                        sx={{ marginTop: '5px', borderBottom: '1px solid #E0E0E0', paddingBottom: '2px' }}
+                                        sx={{ marginTop: '5px', borderBottom: '1px solid var(--sys-divider)', paddingBottom: '2px' }}
                                     >
                                         <Box sx={{
                                                 height: '100%',
@@ -623,12 +623,12 @@ const AccessGroup: React.FC<AccessGroupProps> = ({ entry, css }) => {
                                             }}
                                         >
                                             <Box sx={{ display: 'flex', alignItems: 'center', padding: '5px' }}>
-                                                <Typography variant="h6" sx={{ fontFamily: 'Google Sans', fontSize: '14px', fontWeight: 500, color: '#1F1F1F', textWrap: 'break-word', lineHeight:1.3, textTransform: 'capitalize' }}>
+                                                <Typography variant="h6" sx={{ fontFamily: 'Google Sans', fontSize: '14px', fontWeight: 500, color: 'var(--sys-on-surface)', textWrap: 'break-word', lineHeight:1.3, textTransform: 'capitalize' }}>
                                                     {accessGroups[key].displayName} :
                                                 </Typography>
 
-                                                <Box sx={{display: 'flex', alignItems: 'center', padding: '5px', gap: 0.5, color: '#575757', fontSize: '14px', marginLeft:'20px' }}>
-                                                    <EmailOutlined sx={{ color: '#575757', fontSize: '14px', fontWeight:500 }} />
+                                                <Box sx={{display: 'flex', alignItems: 'center', padding: '5px', gap: 0.5, color: 'var(--sys-on-surface-muted)', fontSize: '14px', marginLeft:'20px' }}>
+                                                    <EmailOutlined sx={{ color: 'var(--sys-on-surface-muted)', fontSize: '14px', fontWeight:500 }} />
                                                     {`${accessGroups[key]?.principal?.googleGroup || 'No group defined'}`}
                                                 </Box>
                                             </Box>
@@ -640,7 +640,7 @@ const AccessGroup: React.FC<AccessGroupProps> = ({ entry, css }) => {
                 <Box sx={{
                     padding: "5px 16px 5px 16px",
                     overflow: "hidden",
-                    backgroundColor: "#FFFFFF"
+                    backgroundColor: "var(--sys-surface)"
                 }}>
                         <Box sx={{
                             display: "flex",
@@ -654,7 +654,7 @@ const AccessGroup: React.FC<AccessGroupProps> = ({ entry, css }) => {
                                         fontWeight: 500,
                                         fontSize: "16px",
                                         lineHeight: "1.33em",
-                                        color: "#1F1F1F",
+                                        color: "var(--sys-on-surface)",
                                         textTransform: "capitalize",
                                     }}
                                 >
@@ -665,7 +665,7 @@ const AccessGroup: React.FC<AccessGroupProps> = ({ entry, css }) => {
                             sx={{
                                 fontFamily: '"Google Sans", sans-serif',
                                 fontSize: "12px",
-                                color: "#575757",
+                                color: "var(--sys-on-surface-muted)",
                                 fontWeight: 400,
                                 lineHeight: "1.43em",
                             }}
@@ -673,7 +673,7 @@ const AccessGroup: React.FC<AccessGroupProps> = ({ entry, css }) => {
                             <Typography sx={{fontWeight: 400,
                                         fontSize: "13px",
                                         lineHeight: "2rem",
-                                        color: "#1F1F1F",}}>
+                                        color: "var(--sys-on-surface)",}}>
                                 View which permissions are mapped to each asset in this data product. Each asset shows the access groups and their corresponding IAM roles.
                             </Typography>
                         </Box>
@@ -261,7 +261,7 @@ const Assets: React.FC<AssetsProps> = ({ entry, css, onAssetPreviewChange  }) =>
         sx={{ 
           flex: 1,
           borderRadius: '24px', 
-          backgroundColor: '#fff', 
+          backgroundColor: 'var(--sys-surface)', 
           border: 'transparent',
           display: 'flex', 
           flexDirection: 'column', 
@@ -288,23 +288,23 @@ const Assets: React.FC<AssetsProps> = ({ entry, css, onAssetPreviewChange  }) =>
                             fontWeight: 500,
                             letterSpacing: '0.1px',
                             marginRight: '10px',
-                            color: '#5E5E5E',
-                            '& fieldset': { borderColor: '#DADCE0' },
+                            color: 'var(--sys-on-surface-soft)',
+                            '& fieldset': { borderColor: 'var(--sys-outline-variant)' },
                             '&:hover fieldset': { borderColor: '#A8A8A8' },
-                            '&.Mui-focused fieldset': { borderColor: '#0E4DCA', borderWidth: '1.5px' },
+                            '&.Mui-focused fieldset': { borderColor: 'var(--sys-brand)', borderWidth: '1.5px' },
                         },
                         width: '350px',
                         '& .MuiInputBase-input': {
                             padding: '6px 12px',
                             '&::placeholder': {
-                                color: '#5E5E5E',
+                                color: 'var(--sys-on-surface-soft)',
                                 opacity: 1,
                             },
                         },
                         boxShadow: 'none',
                     }}
                     InputProps={{
-                        startAdornment: <Search sx={{ color: '#575757', fontSize: 20, mr: 1 }} />,
+                        startAdornment: <Search sx={{ color: 'var(--sys-on-surface-muted)', fontSize: 20, mr: 1 }} />,
                     }}
                 />
                 <>
@@ -328,9 +328,9 @@ const Assets: React.FC<AssetsProps> = ({ entry, css, onAssetPreviewChange  }) =>
                                 gap: '8px',
                                 display: 'flex',
                                 alignItems: 'center',
-                                backgroundColor: false ? '#E7F0FE' : 'transparent',
-                                color: false ? '#0E4DCA' : '#1F1F1F',
-                                border: false ? 'none' : '1px solid #DADCE0',
+                                backgroundColor: false ? 'var(--sys-selected-container)' : 'transparent',
+                                color: false ? 'var(--sys-brand)' : 'var(--sys-on-surface)',
+                                border: false ? 'none' : '1px solid var(--sys-outline-variant)',
                                 height: '32px',
                                 whiteSpace: 'nowrap'
                                 }}
@@ -351,7 +351,7 @@ const Assets: React.FC<AssetsProps> = ({ entry, css, onAssetPreviewChange  }) =>
                         display: "flex", 
                         alignItems: "center",
                         cursor: "pointer",
-                        color: "#1F1F1F"
+                        color: "var(--sys-on-surface)"
                     }}
                     onClick={handleSortMenuClick}
                     >
@@ -386,8 +386,8 @@ const Assets: React.FC<AssetsProps> = ({ entry, css, onAssetPreviewChange  }) =>
                     style={{
                         fontSize: '12px',
                         fontWeight: sortBy === 'name' ? '500' : '400',
-                        color: sortBy === 'name' ? '#0B57D0' : '#1F1F1F',
-                        backgroundColor: sortBy === 'name' ? '#F8FAFD' : 'transparent'
+                        color: sortBy === 'name' ? 'var(--sys-primary)' : 'var(--sys-on-surface)',
+                        backgroundColor: sortBy === 'name' ? 'var(--sys-background)' : 'transparent'
                     }}
                     >
                     Name
@@ -397,8 +397,8 @@ const Assets: React.FC<AssetsProps> = ({ entry, css, onAssetPreviewChange  }) =>
                     style={{
                         fontSize: '12px',
                         fontWeight: sortBy === 'lastModified' ? '500' : '400',
-                        color: sortBy === 'lastModified' ? '#0B57D0' : '#1F1F1F',
-                        backgroundColor: sortBy === 'lastModified' ? '#F8FAFD' : 'transparent'
+                        color: sortBy === 'lastModified' ? 'var(--sys-primary)' : 'var(--sys-on-surface)',
+                        backgroundColor: sortBy === 'lastModified' ? 'var(--sys-background)' : 'transparent'
                     }}
                     >
                     Last Modified
@@ -434,7 +434,7 @@ const Assets: React.FC<AssetsProps> = ({ entry, css, onAssetPreviewChange  }) =>
                 }
                 {(dataProductAssetsStatus === 'succeeded' || dataProductAssetsStatus === 'failed') && dataProductAssets.length === 0 && assetListLoader && (
                     <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: 'calc(100vh - 300px)', width: '100%' }}>
-                        <Typography sx={{ fontSize: '14px', color: '#575757' }}>No data product assets found</Typography>
+                        <Typography sx={{ fontSize: '14px', color: 'var(--sys-on-surface-muted)' }}>No data product assets found</Typography>
                     </Box>
                 )}
                 {dataProductAssetsStatus === 'succeeded' && dataProductAssets.length > 0 && assetListLoader && (
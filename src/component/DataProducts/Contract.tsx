@@ -5,6 +5,7 @@ import {
   Box
 } from '@mui/material';
 import PreviewAnnotation from '../Annotation/PreviewAnnotation';
+import { getAspect, getRefreshCadence } from '../../utils/entryModel';
 
 //interface for the Contract Props
 interface ContractProps {
@@ -15,11 +16,9 @@ interface ContractProps {
 // FilterDropdown component
 const Contract: React.FC<ContractProps> = ({ entry, css }) => {
 
-  const number = entry?.entryType?.split('/')[1];
-
-  const contractAspectKey = `${number}.global.refresh-cadence`;
-  const refreshCadenceAspect = entry.aspects?.[contractAspectKey];
-  const hasContracts = !!refreshCadenceAspect?.data;
+  const refreshCadenceAspect = getAspect(entry, 'refresh-cadence');
+  const refreshCadence = getRefreshCadence(entry);
+  const hasContracts = refreshCadence !== null;
 
   // Wrap simple key-value data into protobuf-style format for PreviewAnnotation
   const wrapValue = (value: string | number | boolean) => {
@@ -30,15 +29,9 @@ const Contract: React.FC<ContractProps> = ({ entry, css }) => {
   };
 
   const wrappedFields: Record<string, unknown> = {};
-  const rawData = refreshCadenceAspect?.data;
-  if (rawData && typeof rawData === 'object') {
-    for (const [k, v] of Object.entries(rawData)) {
-      if (v !== null && v !== undefined && typeof v !== 'object') {
-        wrappedFields[k] = wrapValue(v as string | number | boolean);
-      } else if (v && typeof v === 'object' && 'kind' in (v as Record<string, unknown>)) {
-        // Already in protobuf format
-        wrappedFields[k] = v;
-      }
+  for (const [k, v] of Object.entries(refreshCadence?.fields ?? {})) {
+    if (v !== null && v !== undefined && typeof v !== 'object') {
+      wrappedFields[k] = wrapValue(v as string | number | boolean);
     }
   }
 
@@ -73,7 +66,7 @@ const Contract: React.FC<ContractProps> = ({ entry, css }) => {
                     //borderRadius: "8px",
                     padding: "0px 16px 16px 16px",
                     overflow: "hidden",
-                    backgroundColor: "#FFFFFF"
+                    backgroundColor: "var(--sys-surface)"
                 }}>
                         {hasContracts ? (
                         <>
@@ -90,7 +83,7 @@ const Contract: React.FC<ContractProps> = ({ entry, css }) => {
                                       fontWeight: 500,
                                       fontSize: "16px",
                                       lineHeight: "1.33em",
-                                      color: "#1F1F1F",
+                                      color: "var(--sys-on-surface)",
                                       textTransform: "capitalize",
                                   }}
                               >
@@ -109,13 +102,13 @@ const Contract: React.FC<ContractProps> = ({ entry, css }) => {
                                         fontWeight: 400,
                                         fontSize: "14px",
                                         lineHeight: "1.33em",
-                                        color: "#1F1F1F",
+                                        color: "var(--sys-on-surface)",
                                     }}
                                 >
                                 Contract guarantees define the service level agreements and data quality commitments for this data product. These guarantees help consumers understand what to expect when using this data.
                             </Typography>
                             </Box>
-                        <Box sx={{ marginTop: '16px', border: '1px solid #DADCE0', borderRadius: '12px', overflow: 'hidden' }}>
+                        <Box sx={{ marginTop: '16px', border: '1px solid var(--sys-outline-variant)', borderRadius: '12px', overflow: 'hidden' }}>
                           <PreviewAnnotation
                             entry={contractEntry}
                             css={{}}
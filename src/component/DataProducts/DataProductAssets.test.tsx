@@ -932,7 +932,7 @@ describe('DataProductAssets', () => {
         height: '100%',
         border: 'none',
         margin: 0,
-        backgroundColor: '#fff',
+        backgroundColor: '#ffffff',
         width: '100%'
       });
     });
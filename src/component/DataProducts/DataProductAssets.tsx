@@ -6,6 +6,7 @@ import FilterDropdown from "../Filter/FilterDropDown";
 import { typeAliases } from "../../utils/resourceUtils";
 import FilterBar, { FilterBarChips } from '../Common/FilterBar';
 import type { ActiveFilter as FilterBarActiveFilter } from '../Common/FilterBar';
+import { useColorTokens } from '../../hooks/useColorTokens';
 
 
 interface DataProductAssetsProps {
@@ -23,6 +24,7 @@ const DataProductAssets: React.FC<DataProductAssetsProps> = ({
   idToken,
   onAssetPreviewChange,
 }) => {
+  const colors = useColorTokens();
   const [isFilterOpen, setIsFilterOpen] = useState(false);
   const [activeFilters, setActiveFilters] = useState<any[]>([]);
   const [filterBarActiveFilters, setFilterBarActiveFilters] = useState<FilterBarActiveFilter[]>([]);
@@ -183,7 +185,7 @@ const DataProductAssets: React.FC<DataProductAssetsProps> = ({
           width: "100%",
           borderRadius: "16px",
           overflow: "visible",
-          bgcolor: "#fff",
+          bgcolor: colors.surface,
           display: "flex",
           flexDirection: "row",
           gap: "8px",
@@ -204,8 +206,8 @@ const DataProductAssets: React.FC<DataProductAssetsProps> = ({
             padding: isFilterOpen ? "20px" : "0px",
             marginTop: "8px",
             gap: "20px",
-            backgroundColor: "#F8FAFD",
-            border: isFilterOpen ? "1px solid #DADCE0" : "none",
+            backgroundColor: colors.background,
+            border: isFilterOpen ? `1px solid ${colors.outlineVariant}` : "none",
             borderRadius: "20px",
             height: "100%",
             boxSizing: "border-box",
@@ -270,10 +272,10 @@ const DataProductAssets: React.FC<DataProductAssetsProps> = ({
                       gap: "8px",
                       width: "85px",
                       height: "32px",
-                      border: isFilterOpen ? "none" : "1px solid #0E4DCA",
+                      border: isFilterOpen ? "none" : `1px solid ${colors.brand}`,
                       borderRadius: "59px",
-                      background: isFilterOpen ? "#0E4DCA" : "none",
-                      color: isFilterOpen ? "#EDF2FC" : "#0E4DCA",
+                      background: isFilterOpen ? colors.brand : "none",
+                      color: isFilterOpen ? colors.selectedContainerLow : colors.brand,
                       cursor: "pointer",
                       transition: "all 0.2s ease",
                       flexShrink: 0,
@@ -330,7 +332,7 @@ const DataProductAssets: React.FC<DataProductAssetsProps> = ({
                 height: "100%",
                 border: "none",
                 margin: 0,
-                backgroundColor: "#fff",
+                backgroundColor: colors.surface,
                 width: "100%",
               }}
               contentStyle={{
@@ -197,12 +197,12 @@ const DataProductOverview: React.FC<DataProductOverviewProps> = ({ entry, css })
             <Grid size={9} sx={{ padding: "10px 5px 10px 0px" }}>
                 {/* Documentation Accordion */}
                 <Box sx={{ 
-                    border: "1px solid #DADCE0", 
+                    border: "1px solid var(--sys-outline-variant)", 
                     borderRadius: "8px", 
                     marginTop: "10px", 
                     padding: "16px",
                     overflow: "hidden",
-                    backgroundColor: "#FFFFFF"
+                    backgroundColor: "var(--sys-surface)"
                 }}>
                         <Box sx={{
                             display: "flex",
@@ -216,7 +216,7 @@ const DataProductOverview: React.FC<DataProductOverviewProps> = ({ entry, css })
                                         fontWeight: 500, 
                                         fontSize: "18px", 
                                         lineHeight: "1.33em",
-                                        color: "#1F1F1F", 
+                                        color: "var(--sys-on-surface)", 
                                         textTransform: "capitalize",
                                     }}
                                 >
@@ -228,7 +228,7 @@ const DataProductOverview: React.FC<DataProductOverviewProps> = ({ entry, css })
                                 sx={{
                                     fontFamily: '"Google Sans Text", sans-serif',
                                     fontSize: "14px",
-                                    color: "#575757",
+                                    color: "var(--sys-on-surface-muted)",
                                     fontWeight: 400,
                                     lineHeight: "1.43em",
                                     overflow: "auto",
@@ -248,12 +248,12 @@ const DataProductOverview: React.FC<DataProductOverviewProps> = ({ entry, css })
             <Grid size={3} sx={{ padding: "10px 0px 10px 5px" }}>
                 {/* Contacts Accordion */}
                 <Box sx={{ 
-                    border: "1px solid #DADCE0", 
+                    border: "1px solid var(--sys-outline-variant)", 
                     borderRadius: "8px", 
                     marginTop: "10px", 
                     padding: "16px",
                     overflow: "hidden",
-                    backgroundColor: "#FFFFFF"
+                    backgroundColor: "var(--sys-surface)"
                 }}>
                     <Box sx={{
                         display: "flex",
@@ -267,7 +267,7 @@ const DataProductOverview: React.FC<DataProductOverviewProps> = ({ entry, css })
                                         fontWeight: 400, 
                                         fontSize: "18px", 
                                         lineHeight: "1.33em",
-                                        color: "#1F1F1F", 
+                                        color: "var(--sys-on-surface)", 
                                         textTransform: "capitalize",
                                     }}
                         >
@@ -294,7 +294,7 @@ const DataProductOverview: React.FC<DataProductOverviewProps> = ({ entry, css })
                                     fontSize: "12px",
                                     lineHeight: "1.45em",
                                     letterSpacing: "0.91%",
-                                    color: "#575757"
+                                    color: "var(--sys-on-surface-muted)"
                                 }}
                             >
                                 Description
@@ -323,13 +323,13 @@ const DataProductOverview: React.FC<DataProductOverviewProps> = ({ entry, css })
                                     fontWeight: 400,
                                     fontSize: "14px",
                                     lineHeight: "1.43em",
-                                    color: "#1F1F1F"
+                                    color: "var(--sys-on-surface)"
                                 }}>
                                     {entry.entrySource.description || 'No Description Available'}
                                 </Typography>
                             </Box>
                         </Box>
-                        <Box sx={{ display: "flex", flexDirection: "column", backgroundColor: "#FAFAFA", borderRadius: "8px", marginTop: "16px" }}>
+                        <Box sx={{ display: "flex", flexDirection: "column", backgroundColor: "var(--sys-background-grey)", borderRadius: "8px", marginTop: "16px" }}>
                             {contacts.length > 0 ? (
                                 contacts.map((contact: any, index: number) => (
                                         <Box 
@@ -337,7 +337,7 @@ const DataProductOverview: React.FC<DataProductOverviewProps> = ({ entry, css })
                                             sx={{
                                             display: 'flex',
                                             alignItems: 'center',
-                                                borderBottom: index < contacts.length - 1 ? '1px solid #DADCE0' : 'none',
+                                                borderBottom: index < contacts.length - 1 ? '1px solid var(--sys-outline-variant)' : 'none',
                                                 padding: '14px 0px',
                                             }}
                                         >
@@ -349,7 +349,7 @@ const DataProductOverview: React.FC<DataProductOverviewProps> = ({ entry, css })
                                                     fontSize: "11px",
                                                     lineHeight: "1.45em",
                                                     letterSpacing: "0.91%",
-                                                    color: "#575757"
+                                                    color: "var(--sys-on-surface-muted)"
                                                 }}>
                                                     {contact.role}
                                                 </Typography>
@@ -358,7 +358,7 @@ const DataProductOverview: React.FC<DataProductOverviewProps> = ({ entry, css })
                                                     fontWeight: 400,
                                                     fontSize: "14px",
                                                     lineHeight: "1.43em",
-                                                    color: "#1F1F1F"
+                                                    color: "var(--sys-on-surface)"
                                                 }}>
                                                     {contact.name.split('<').length > 1 ? contact.name.split('<')[1].slice(0, -1) 
                                                     : contact.name.length > 0 ? contact.name : "--"}
@@ -373,7 +373,7 @@ const DataProductOverview: React.FC<DataProductOverviewProps> = ({ entry, css })
                                             fontWeight: 400,
                                             fontSize: "14px",
                                             lineHeight: "1.43em",
-                                            color: "#575757"
+                                            color: "var(--sys-on-surface-muted)"
                                         }}>
                                             No Contacts Available
                                         </Typography>
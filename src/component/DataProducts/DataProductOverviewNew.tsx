@@ -16,6 +16,7 @@ import Avatar from '../Avatar/Avatar';
 import { InfoOutline, SchemaOutlined as SchemaIcon, DescriptionOutlined as DescriptionIcon, ContactPageOutlined as ContactPageIcon, ScheduleOutlined as ScheduleIcon, PollOutlined as BarChartIcon, LabelOutlined as LabelIcon, Check as CheckIcon, ContentCopy } from '@mui/icons-material';
 import { useNotification } from '../../contexts/NotificationContext';
 import { normalizeSystemName } from '../../utils/resourceUtils';
+import { getContacts, getLatestUsageValue, getOverview, getSchemaFields, getUsage } from '../../utils/entryModel';
 
 const StringRenderer = ({ value }:any) => {
   const isHtml = /<\/?[a-z][\s\S]*>/i.test(value);
@@ -162,19 +163,13 @@ const { date: updateDate, time: updateTime } = (entryType && entryType=='data-pr
     return (`${eType[0].toUpperCase()}${eType.slice(1)}`);
   };
 
-  const number = entry.entryType.split('/')[1];
+  const isDataProduct = entryType == 'data-product';
 
   let schema = <Schema entry={filteredSchemaEntry || entry} sx={{width:"100%", borderTopRightRadius:"0px", borderTopLeftRadius:"0px"}} />;
-  let schemaData = entry.aspects[`${number}.global.schema`]?.data?.fields?.fields?.listValue?.values || [];
-  let contacts = entry.aspects[`${number}.global.contacts`]?.data?.fields?.identities?.listValue?.values || [];
-  let usage = entry.aspects[`${number}.global.usage`]?.data?.fields || {};
-  let documentation = entry.aspects[`${number}.global.overview`]?.data?.fields?.content?.stringValue || 'No Documentation Available';
-
-  if(entryType && entryType == 'data-product') {
-    contacts = entry.aspects[`${number}.global.contacts`]?.data?.identities || [];
-    console.log("contact DATA - ", contacts);
-    documentation = entry.aspects[`${number}.global.overview`]?.data?.content || 'No Documentation Available';
-  }
+  const schemaData = getSchemaFields(entry);
+  const contacts = getContacts(entry);
+  const usage = getUsage(entry);
+  const documentation = getOverview(entry) || 'No Documentation Available';
 
   const firstRow = React.useMemo(() => {
     if (Array.isArray(sampleTableData) && sampleTableData.length > 0 && typeof sampleTableData[0] === 'object') {
@@ -273,7 +268,7 @@ const { date: updateDate, time: updateTime } = (entryType && entryType=='data-pr
             marginLeft="20px"
           />
           {displayRows.length === 0 && hasActiveFilters ? (
-            <div style={{ padding: '48px', textAlign: 'center', fontSize: '14px', fontFamily: 'Google Sans, sans-serif', color: '#575757' }}>
+            <div style={{ padding: '48px', textAlign: 'center', fontSize: '14px', fontFamily: 'Google Sans, sans-serif', color: 'var(--sys-on-surface-muted)' }}>
               No data matches the applied filters
             </div>
           ) : (
@@ -299,13 +294,13 @@ const { date: updateDate, time: updateTime } = (entryType && entryType=='data-pr
     } catch (error) {
       console.error('Error processing sample data:', error);
       sampleDataView = (
-        <div style={{padding:"10px", color: "#d32f2f"}}>
+        <div style={{padding:"10px", color: "var(--sys-danger)"}}>
           Error loading sample data: {error instanceof Error ? error.message : 'Unknown error'}
         </div>
       );
     }
   } else {
-    sampleDataView = <div style={{paddingTop:"48px", paddingLeft: "410px", fontSize:'14px', color: "#575757"}}>No Data available for this table</div>;
+    sampleDataView = <div style={{paddingTop:"48px", paddingLeft: "410px", fontSize:'14px', color: "var(--sys-on-surface-muted)"}}>No Data available for this table</div>;
   }
 
   // Reusable card wrapper style
@@ -317,10 +312,10 @@ const { date: updateDate, time: updateTime } = (entryType && entryType=='data-pr
     flex: "none",
     alignSelf: "stretch",
     flexGrow: 0,
-    border: "1px solid #DADCE0",
+    border: "1px solid var(--sys-outline-variant)",
     borderRadius: "12px",
     overflow: "hidden",
-    backgroundColor: "#FFFFFF",
+    backgroundColor: "var(--sys-surface)",
   };
 
   return (
@@ -336,8 +331,8 @@ const { date: updateDate, time: updateTime } = (entryType && entryType=='data-pr
                 <Box sx={cardStyle}>
                     {/* Header row */}
                     <Box sx={{ display: "flex", alignItems: "center", gap: "12px", padding: "16px 20px" }}>
-                        <Box sx={{ width: "32px", height: "32px", background: "#E7F0FE", borderRadius: "6px", display: "flex", alignItems: "center", justifyContent: "center", flexShrink: 0 }}>
-                            <DescriptionIcon sx={{ fontSize: "20px", color: "#0B57D0" }} />
+                        <Box sx={{ width: "32px", height: "32px", background: "var(--sys-selected-container)", borderRadius: "6px", display: "flex", alignItems: "center", justifyContent: "center", flexShrink: 0 }}>
+                            <DescriptionIcon sx={{ fontSize: "20px", color: "var(--sys-primary)" }} />
                         </Box>
                         <Typography
                             component="span"
@@ -346,13 +341,13 @@ const { date: updateDate, time: updateTime } = (entryType && entryType=='data-pr
                                 fontWeight: 400,
                                 fontSize: "18px",
                                 lineHeight: "24px",
-                                color: "#1F1F1F",
+                                color: "var(--sys-on-surface)",
                             }}
                         >
                             Documentation
                         </Typography>
                     </Box>
-                    <Divider sx={{ width: "100%", borderColor: "#DADCE0" }} />
+                    <Divider sx={{ width: "100%", borderColor: "var(--sys-outline-variant)" }} />
                     {/* Content */}
                     <Box sx={{
                         minHeight: "200px",
@@ -392,7 +387,7 @@ const { date: updateDate, time: updateTime } = (entryType && entryType=='data-pr
                                     fontFamily: '"Google Sans", sans-serif',
                                     fontWeight: 700,
                                     fontSize: '16px',
-                                    color: '#1F1F1F',
+                                    color: 'var(--sys-on-surface)',
                                     textAlign: 'center',
                                 }}>
                                     No documentation yet
@@ -402,7 +397,7 @@ const { date: updateDate, time: updateTime } = (entryType && entryType=='data-pr
                                     fontWeight: 400,
                                     fontSize: '14px',
                                     lineHeight: '1.43em',
-                                    color: '#575757',
+                                    color: 'var(--sys-on-surface-muted)',
                                     textAlign: 'center',
                                     maxWidth: '460px',
                                 }}>
@@ -414,7 +409,7 @@ const { date: updateDate, time: updateTime } = (entryType && entryType=='data-pr
                                 sx={{
                                     fontFamily: '"Google Sans Text", sans-serif',
                                     fontSize: "14px",
-                                    color: "#575757",
+                                    color: "var(--sys-on-surface-muted)",
                                     fontWeight: 400,
                                     lineHeight: "1.43em",
                                 }}
@@ -438,8 +433,8 @@ const { date: updateDate, time: updateTime } = (entryType && entryType=='data-pr
                             justifyContent: "space-between",
                         }}>
                             <Box sx={{ display: "flex", alignItems: "center", gap: "12px" }}>
-                                <Box sx={{ width: "32px", height: "32px", background: "#E7F0FE", borderRadius: "6px", display: "flex", alignItems: "center", justifyContent: "center", flexShrink: 0 }}>
-                                    <SchemaIcon sx={{ fontSize: "20px", color: "#0B57D0" }} />
+                                <Box sx={{ width: "32px", height: "32px", background: "var(--sys-selected-container)", borderRadius: "6px", display: "flex", alignItems: "center", justifyContent: "center", flexShrink: 0 }}>
+                                    <SchemaIcon sx={{ fontSize: "20px", color: "var(--sys-primary)" }} />
                                 </Box>
                                 <Typography
                                     component="span"
@@ -448,7 +443,7 @@ const { date: updateDate, time: updateTime } = (entryType && entryType=='data-pr
                                         fontWeight: 400,
                                         fontSize: "18px",
                                         lineHeight: "24px",
-                                        color: "#1F1F1F",
+                                        color: "var(--sys-on-surface)",
                                     }}
                                 >
                                     Table Info
@@ -459,11 +454,11 @@ const { date: updateDate, time: updateTime } = (entryType && entryType=='data-pr
                                 <Box
                                     sx={{
                                         fontSize: "14px",
-                                        background: !sampleDataEnabled ? "#C2E7FF" : "transparent",
-                                        color: !sampleDataEnabled ? "#004A77" : "#1F1F1F",
+                                        background: !sampleDataEnabled ? "var(--sys-secondary-container)" : "transparent",
+                                        color: !sampleDataEnabled ? "var(--sys-on-secondary-container)" : "var(--sys-on-surface)",
                                         padding: "6px 12px",
                                         borderRadius: "100px 0px 0px 100px",
-                                        border: "1px solid #575757",
+                                        border: "1px solid var(--sys-on-surface-muted)",
                                         borderRight: "none",
                                         cursor: "pointer",
                                         display: "flex",
@@ -478,17 +473,17 @@ const { date: updateDate, time: updateTime } = (entryType && entryType=='data-pr
                                     }}
                                     onClick={() => setSampleDataEnabled(false)}
                                 >
-                                    {!sampleDataEnabled && <CheckIcon sx={{ fontSize: "18px", color: "#004A77" }} />}
+                                    {!sampleDataEnabled && <CheckIcon sx={{ fontSize: "18px", color: "var(--sys-on-secondary-container)" }} />}
                                     Schema
                                 </Box>
                                 <Box
                                     sx={{
                                         fontSize: "14px",
-                                        background: sampleDataEnabled ? "#C2E7FF" : "transparent",
-                                        color: sampleDataEnabled ? "#004A77" : "#1F1F1F",
+                                        background: sampleDataEnabled ? "var(--sys-secondary-container)" : "transparent",
+                                        color: sampleDataEnabled ? "var(--sys-on-secondary-container)" : "var(--sys-on-surface)",
                                         padding: "6px 12px",
                                         borderRadius: "0px 100px 100px 0px",
-                                        border: "1px solid #575757",
+                                        border: "1px solid var(--sys-on-surface-muted)",
                                         cursor: "pointer",
                                         display: "flex",
                                         alignItems: "center",
@@ -502,12 +497,12 @@ const { date: updateDate, time: updateTime } = (entryType && entryType=='data-pr
                                     }}
                                     onClick={() => setSampleDataEnabled(true)}
                                 >
-                                    {sampleDataEnabled && <CheckIcon sx={{ fontSize: "18px", color: "#004A77" }} />}
+                                    {sampleDataEnabled && <CheckIcon sx={{ fontSize: "18px", color: "var(--sys-on-secondary-container)" }} />}
                                     Sample Data
                                 </Box>
                             </Box>
                         </Box>
-                        <Divider sx={{ width: "100%", borderColor: "#DADCE0" }} />
+                        <Divider sx={{ width: "100%", borderColor: "var(--sys-outline-variant)" }} />
                         {/* Content */}
                         <Box sx={{
                             minHeight: "200px",
@@ -555,8 +550,8 @@ const { date: updateDate, time: updateTime } = (entryType && entryType=='data-pr
                 <Box sx={cardStyle}>
                     {/* Header row */}
                     <Box sx={{ display: "flex", alignItems: "center", gap: "12px", padding: "16px 20px" }}>
-                        <Box sx={{ width: "32px", height: "32px", background: "#E7F0FE", borderRadius: "6px", display: "flex", alignItems: "center", justifyContent: "center", flexShrink: 0 }}>
-                            <ContactPageIcon sx={{ fontSize: "20px", color: "#0B57D0" }} />
+                        <Box sx={{ width: "32px", height: "32px", background: "var(--sys-selected-container)", borderRadius: "6px", display: "flex", alignItems: "center", justifyContent: "center", flexShrink: 0 }}>
+                            <ContactPageIcon sx={{ fontSize: "20px", color: "var(--sys-primary)" }} />
                         </Box>
                         <Typography
                             component="span"
@@ -565,13 +560,13 @@ const { date: updateDate, time: updateTime } = (entryType && entryType=='data-pr
                                 fontWeight: 400,
                                 fontSize: "18px",
                                 lineHeight: "24px",
-                                color: "#1F1F1F",
+                                color: "var(--sys-on-surface)",
                             }}
                         >
                             Contacts
                         </Typography>
                     </Box>
-                    <Divider sx={{ width: "100%", borderColor: "#DADCE0" }} />
+                    <Divider sx={{ width: "100%", borderColor: "var(--sys-outline-variant)" }} />
                     {/* Content */}
                     <Box sx={{
                         padding: "0px 20px",
@@ -595,47 +590,45 @@ const { date: updateDate, time: updateTime } = (entryType && entryType=='data-pr
                     }}>
                         <Box sx={{ display: "flex", flexDirection: "column" }}>
                         {contacts.length > 0 ? (
-                            contacts.map((contact: any, index: number) => (
+                            contacts.map((contact, index) => (
                                     <Box
                                         key={`contact-${index}`}
                                         sx={{
                                         display: 'flex',
                                         alignItems: 'center',
-                                            borderBottom: index < contacts.length - 1 ? '1px solid #DADCE0' : 'none',
+                                            borderBottom: index < contacts.length - 1 ? '1px solid var(--sys-outline-variant)' : 'none',
                                             padding: '14px 0px',
                                         }}
                                     >
-                                        <Avatar text={entryType && entryType == 'data-product' ? contact.name : contact.structValue.fields.name.stringValue} />
+                                        <Avatar text={contact.name} />
                                         <Box sx={{ display: "flex", flexDirection: "column", gap: "4px", minWidth: 0 }}>
-                                            <OverflowTooltip text={entryType && entryType == 'data-product' ? contact.role : contact.structValue.fields.role.stringValue}>
+                                            <OverflowTooltip text={contact.role}>
                                                 <Typography sx={{
                                                     fontFamily: '"Google Sans Text", sans-serif',
                                                     fontWeight: 500,
                                                     fontSize: "11px",
                                                     lineHeight: "1.45em",
                                                     letterSpacing: "0.91%",
-                                                    color: "#575757",
+                                                    color: "var(--sys-on-surface-muted)",
                                                     overflow: "hidden",
                                                     textOverflow: "ellipsis",
                                                     whiteSpace: "nowrap",
                                                 }}>
-                                                    {entryType && entryType == 'data-product' ? contact.role : contact.structValue.fields.role.stringValue}
+                                                    {contact.role}
                                                 </Typography>
                                             </OverflowTooltip>
-                                            <OverflowTooltip text={entryType && entryType == 'data-product' ? contact.name : (contact.structValue.fields.name.stringValue.split('<').length > 1 ? contact.structValue.fields.name.stringValue.split('<')[1].slice(0, -1)
-                                                : contact.structValue.fields.name.stringValue.length > 0 ? contact.structValue.fields.name.stringValue : "--")}>
+                                            <OverflowTooltip text={isDataProduct ? contact.name : contact.email || contact.name || "--"}>
                                                 <Typography sx={{
                                                     fontFamily: '"Google Sans Text", sans-serif',
                                                     fontWeight: 400,
                                                     fontSize: "14px",
                                                     lineHeight: "1.43em",
-                                                    color: "#1F1F1F",
+                                                    color: "var(--sys-on-surface)",
                                                     overflow: "hidden",
                                                     textOverflow: "ellipsis",
                                                     whiteSpace: "nowrap",
                                                 }}>
-                                                    {entryType && entryType == 'data-product' ? contact.name : (contact.structValue.fields.name.stringValue.split('<').length > 1 ? contact.structValue.fields.name.stringValue.split('<')[1].slice(0, -1)
-                                                    : contact.structValue.fields.name.stringValue.length > 0 ? contact.structValue.fields.name.stringValue : "--")}
+                                                    {isDataProduct ? contact.name : contact.email || contact.name || "--"}
                                                 </Typography>
                                             </OverflowTooltip>
                                         </Box>
@@ -648,7 +641,7 @@ const { date: updateDate, time: updateTime } = (entryType && entryType=='data-pr
                                         fontWeight: 400,
                                         fontSize: "14px",
                                         lineHeight: "1.43em",
-                                        color: "#575757"
+                                        color: "var(--sys-on-surface-muted)"
                                     }}>
                                         No contacts assigned to this asset.
                                     </Typography>
@@ -662,8 +655,8 @@ const { date: updateDate, time: updateTime } = (entryType && entryType=='data-pr
                 <Box sx={cardStyle}>
                     {/* Header row */}
                     <Box sx={{ display: "flex", alignItems: "center", gap: "12px", padding: "16px 20px" }}>
-                        <Box sx={{ width: "32px", height: "32px", background: "#E7F0FE", borderRadius: "6px", display: "flex", alignItems: "center", justifyContent: "center", flexShrink: 0 }}>
-                            <ScheduleIcon sx={{ fontSize: "20px", color: "#0B57D0" }} />
+                        <Box sx={{ width: "32px", height: "32px", background: "var(--sys-selected-container)", borderRadius: "6px", display: "flex", alignItems: "center", justifyContent: "center", flexShrink: 0 }}>
+                            <ScheduleIcon sx={{ fontSize: "20px", color: "var(--sys-primary)" }} />
                         </Box>
                         <Typography
                             component="span"
@@ -672,13 +665,13 @@ const { date: updateDate, time: updateTime } = (entryType && entryType=='data-pr
                                 fontWeight: 400,
                                 fontSize: "18px",
                                 lineHeight: "24px",
-                                color: "#1F1F1F",
+                                color: "var(--sys-on-surface)",
                             }}
                         >
                             Timestamps
                         </Typography>
                     </Box>
-                    <Divider sx={{ width: "100%", borderColor: "#DADCE0" }} />
+                    <Divider sx={{ width: "100%", borderColor: "var(--sys-outline-variant)" }} />
                     {/* Content */}
                     <Box sx={{ padding: "0px 20px", width: "100%", boxSizing: "border-box" }}>
                         <Box sx={{ display: "flex", flexDirection: "column" }}>
@@ -688,12 +681,12 @@ const { date: updateDate, time: updateTime } = (entryType && entryType=='data-pr
                                 justifyContent: "space-between",
                                 alignItems: "center",
                                 padding: "14px 0px",
-                                borderBottom: "1px solid #DADCE0",
+                                borderBottom: "1px solid var(--sys-outline-variant)",
                             }}>
-                                <Typography sx={{ fontFamily: '"Google Sans Text", sans-serif', fontWeight: 500, fontSize: "11px", lineHeight: "1.45em", letterSpacing: "0.91%", color: "#575757" }}>
+                                <Typography sx={{ fontFamily: '"Google Sans Text", sans-serif', fontWeight: 500, fontSize: "11px", lineHeight: "1.45em", letterSpacing: "0.91%", color: "var(--sys-on-surface-muted)" }}>
                                     Created
                                 </Typography>
-                                <Typography sx={{ fontFamily: '"Google Sans Text", sans-serif', fontWeight: 400, fontSize: "14px", lineHeight: "1.43em", color: "#1F1F1F", textAlign: "right" }}>
+                                <Typography sx={{ fontFamily: '"Google Sans Text", sans-serif', fontWeight: 400, fontSize: "14px", lineHeight: "1.43em", color: "var(--sys-on-surface)", textAlign: "right" }}>
                                     {createDate}{createTime ? ` \u00b7 ${createTime}` : ''}
                                 </Typography>
                             </Box>
@@ -704,10 +697,10 @@ const { date: updateDate, time: updateTime } = (entryType && entryType=='data-pr
                                 alignItems: "center",
                                 padding: "14px 0px",
                             }}>
-                                <Typography sx={{ fontFamily: '"Google Sans Text", sans-serif', fontWeight: 500, fontSize: "11px", lineHeight: "1.45em", letterSpacing: "0.91%", color: "#575757" }}>
+                                <Typography sx={{ fontFamily: '"Google Sans Text", sans-serif', fontWeight: 500, fontSize: "11px", lineHeight: "1.45em", letterSpacing: "0.91%", color: "var(--sys-on-surface-muted)" }}>
                                     Last modified
                                 </Typography>
-                                <Typography sx={{ fontFamily: '"Google Sans Text", sans-serif', fontWeight: 400, fontSize: "14px", lineHeight: "1.43em", color: "#1F1F1F", textAlign: "right" }}>
+                                <Typography sx={{ fontFamily: '"Google Sans Text", sans-serif', fontWeight: 400, fontSize: "14px", lineHeight: "1.43em", color: "var(--sys-on-surface)", textAlign: "right" }}>
                                     {updateDate}{updateTime ? ` \u00b7 ${updateTime}` : ''}
                                 </Typography>
                             </Box>
@@ -719,8 +712,8 @@ const { date: updateDate, time: updateTime } = (entryType && entryType=='data-pr
                 <Box sx={cardStyle}>
                     {/* Header row */}
                     <Box sx={{ display: "flex", alignItems: "center", gap: "12px", padding: "16px 20px" }}>
-                        <Box sx={{ width: "32px", height: "32px", background: "#E7F0FE", borderRadius: "6px", display: "flex", alignItems: "center", justifyContent: "center", flexShrink: 0 }}>
-                            <InfoOutline sx={{ fontSize: "20px", color: "#0E4DCA" }} />
+                        <Box sx={{ width: "32px", height: "32px", background: "var(--sys-selected-container)", borderRadius: "6px", display: "flex", alignItems: "center", justifyContent: "center", flexShrink: 0 }}>
+                            <InfoOutline sx={{ fontSize: "20px", color: "var(--sys-brand)" }} />
                         </Box>
                         <Typography
                             component="span"
@@ -729,13 +722,13 @@ const { date: updateDate, time: updateTime } = (entryType && entryType=='data-pr
                                 fontWeight: 400,
                                 fontSize: "18px",
                                 lineHeight: "24px",
-                                color: "#1F1F1F",
+                                color: "var(--sys-on-surface)",
                             }}
                         >
                             Additional Info
                         </Typography>
                     </Box>
-                    <Divider sx={{ width: "100%", borderColor: "#DADCE0" }} />
+                    <Divider sx={{ width: "100%", borderColor: "var(--sys-outline-variant)" }} />
                     {/* Content */}
                     <Box sx={{ padding: "0px 20px", width: "100%", boxSizing: "border-box" }}>
                         <Box sx={{ display: "flex", flexDirection: "column" }}>
@@ -745,13 +738,13 @@ const { date: updateDate, time: updateTime } = (entryType && entryType=='data-pr
                                 justifyContent: "space-between",
                                 alignItems: "center",
                                 padding: "14px 0px",
-                                borderBottom: "1px solid #DADCE0",
+                                borderBottom: "1px solid var(--sys-outline-variant)",
                                 gap: "8px",
                             }}>
-                                <Typography sx={{ fontFamily: '"Google Sans Text", sans-serif', fontWeight: 500, fontSize: "11px", lineHeight: "1.45em", letterSpacing: "0.91%", color: "#575757", flexShrink: 0 }}>
+                                <Typography sx={{ fontFamily: '"Google Sans Text", sans-serif', fontWeight: 500, fontSize: "11px", lineHeight: "1.45em", letterSpacing: "0.91%", color: "var(--sys-on-surface-muted)", flexShrink: 0 }}>
                                     System
                                 </Typography>
-                                <Typography sx={{ fontFamily: '"Google Sans Text", sans-serif', fontWeight: 500, fontSize: "13px", lineHeight: "1.43em", color: "#1F1F1F", textAlign: "right", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap", minWidth: 0 }}>
+                                <Typography sx={{ fontFamily: '"Google Sans Text", sans-serif', fontWeight: 500, fontSize: "13px", lineHeight: "1.43em", color: "var(--sys-on-surface)", textAlign: "right", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap", minWidth: 0 }}>
                                     {normalizeSystemName(entry.entrySource?.system)}
                                 </Typography>
                             </Box>
@@ -761,13 +754,13 @@ const { date: updateDate, time: updateTime } = (entryType && entryType=='data-pr
                                 justifyContent: "space-between",
                                 alignItems: "center",
                                 padding: "14px 0px",
-                                borderBottom: "1px solid #DADCE0",
+                                borderBottom: "1px solid var(--sys-outline-variant)",
                                 gap: "8px",
                             }}>
-                                <Typography sx={{ fontFamily: '"Google Sans Text", sans-serif', fontWeight: 500, fontSize: "11px", lineHeight: "1.45em", letterSpacing: "0.91%", color: "#575757", flexShrink: 0 }}>
+                                <Typography sx={{ fontFamily: '"Google Sans Text", sans-serif', fontWeight: 500, fontSize: "11px", lineHeight: "1.45em", letterSpacing: "0.91%", color: "var(--sys-on-surface-muted)", flexShrink: 0 }}>
                                     Location
                                 </Typography>
-                                <Typography sx={{ fontFamily: '"Google Sans Text", sans-serif', fontWeight: 500, fontSize: "13px", lineHeight: "1.43em", color: "#1F1F1F", textAlign: "right", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap", minWidth: 0 }}>
+                                <Typography sx={{ fontFamily: '"Google Sans Text", sans-serif', fontWeight: 500, fontSize: "13px", lineHeight: "1.43em", color: "var(--sys-on-surface)", textAlign: "right", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap", minWidth: 0 }}>
                                     {entry.entrySource?.location || '-'}
                                 </Typography>
                             </Box>
@@ -779,22 +772,22 @@ const { date: updateDate, time: updateTime } = (entryType && entryType=='data-pr
                                 padding: "14px 0px",
                                 gap: "8px",
                             }}>
-                                <Typography sx={{ fontFamily: '"Google Sans Text", sans-serif', fontWeight: 500, fontSize: "11px", lineHeight: "1.45em", letterSpacing: "0.91%", color: "#575757", flexShrink: 0 }}>
+                                <Typography sx={{ fontFamily: '"Google Sans Text", sans-serif', fontWeight: 500, fontSize: "11px", lineHeight: "1.45em", letterSpacing: "0.91%", color: "var(--sys-on-surface-muted)", flexShrink: 0 }}>
                                     Identifiers
                                 </Typography>
                                 <Box sx={{ display: "flex", flexDirection: "row", alignItems: "center", gap: "16px", flexWrap: "wrap", justifyContent: "flex-end" }}>
                                     <Tooltip title={entry.entrySource?.resource || ''} arrow>
                                         <Box sx={{ display: "flex", alignItems: "center", gap: "4px", cursor: "pointer" }}
                                             onClick={() => { navigator.clipboard.writeText(entry.entrySource?.resource || ''); showNotification('Copied to clipboard.', 'success', 3000, undefined); }}>
-                                            <Typography sx={{ fontFamily: '"Google Sans Text", sans-serif', fontWeight: 500, fontSize: "13px", color: "#1F1F1F" }}>Resource</Typography>
-                                            <ContentCopy sx={{ fontSize: "16px", color: "#0B57D0" }} />
+                                            <Typography sx={{ fontFamily: '"Google Sans Text", sans-serif', fontWeight: 500, fontSize: "13px", color: "var(--sys-on-surface)" }}>Resource</Typography>
+                                            <ContentCopy sx={{ fontSize: "16px", color: "var(--sys-primary)" }} />
                                         </Box>
                                     </Tooltip>
                                     <Tooltip title={entry.fullyQualifiedName || ''} arrow>
                                         <Box sx={{ display: "flex", alignItems: "center", gap: "4px", cursor: "pointer" }}
                                             onClick={() => { navigator.clipboard.writeText(entry.fullyQualifiedName || ''); showNotification('Copied to clipboard.', 'success', 3000, undefined); }}>
-                                            <Typography sx={{ fontFamily: '"Google Sans Text", sans-serif', fontWeight: 500, fontSize: "13px", color: "#1F1F1F" }}>FQN</Typography>
-                                            <ContentCopy sx={{ fontSize: "16px", color: "#0B57D0" }} />
+                                            <Typography sx={{ fontFamily: '"Google Sans Text", sans-serif', fontWeight: 500, fontSize: "13px", color: "var(--sys-on-surface)" }}>FQN</Typography>
+                                            <ContentCopy sx={{ fontSize: "16px", color: "var(--sys-primary)" }} />
                                         </Box>
                                     </Tooltip>
                                 </Box>
@@ -808,8 +801,8 @@ const { date: updateDate, time: updateTime } = (entryType && entryType=='data-pr
                 <Box sx={cardStyle}>
                     {/* Header row */}
                     <Box sx={{ display: "flex", alignItems: "center", gap: "12px", padding: "16px 20px" }}>
-                        <Box sx={{ width: "32px", height: "32px", background: "#E7F0FE", borderRadius: "6px", display: "flex", alignItems: "center", justifyContent: "center", flexShrink: 0 }}>
-                            <BarChartIcon sx={{ fontSize: "20px", color: "#0B57D0" }} />
+                        <Box sx={{ width: "32px", height: "32px", background: "var(--sys-selected-container)", borderRadius: "6px", display: "flex", alignItems: "center", justifyContent: "center", flexShrink: 0 }}>
+                            <BarChartIcon sx={{ fontSize: "20px", color: "var(--sys-primary)" }} />
                         </Box>
                         <Typography
                             component="span"
@@ -818,7 +811,7 @@ const { date: updateDate, time: updateTime } = (entryType && entryType=='data-pr
                                 fontWeight: 400,
                                 fontSize: "18px",
                                 lineHeight: "24px",
-                                color: "#1F1F1F",
+                                color: "var(--sys-on-surface)",
                             }}
                         >
                             Usage Metrics
@@ -834,17 +827,17 @@ const { date: updateDate, time: updateTime } = (entryType && entryType=='data-pr
                             />
                         </Tooltip>
                     </Box>
-                    <Divider sx={{ width: "100%", borderColor: "#DADCE0" }} />
+                    <Divider sx={{ width: "100%", borderColor: "var(--sys-outline-variant)" }} />
                     {/* Content */}
                     <Box sx={{ padding: "16px 20px", width: "100%", boxSizing: "border-box" }}>
-                        {Object.keys(usage).length === 0 ? (
+                        {usage === null ? (
                             <Box sx={{ padding: "24px 0px", textAlign: "center", width: "100%" }}>
                                 <Typography sx={{
                                     fontFamily: '"Google Sans Text", sans-serif',
                                     fontWeight: 400,
                                     fontSize: '14px',
                                     lineHeight: '1.43em',
-                                    color: '#575757',
+                                    color: 'var(--sys-on-surface-muted)',
                                 }}>
                                     No usage metrics available for this asset.
                                 </Typography>
@@ -853,28 +846,23 @@ const { date: updateDate, time: updateTime } = (entryType && entryType=='data-pr
                             <Box sx={{ display: "flex", justifyContent: "space-between", gap: "16px" }}>
                                 {/* Avg Exec Time */}
                                 <Box sx={{ flex: 1, display: "flex", flexDirection: "column", alignItems: "flex-start", gap: "2px" }}>
-                                    <Typography sx={{ fontFamily: '"Google Sans Text", sans-serif', fontWeight: 500, fontSize: "11px", lineHeight: "1.45em", letterSpacing: "0.91%", color: "#575757" }}>
+                                    <Typography sx={{ fontFamily: '"Google Sans Text", sans-serif', fontWeight: 500, fontSize: "11px", lineHeight: "1.45em", letterSpacing: "0.91%", color: "var(--sys-on-surface-muted)" }}>
                                         Avg Exec Time
                                     </Typography>
                                     {(() => {
-                                        const executionTimeValue = usage.metrics?.listValue?.values?.find((value:any) =>
-                                            value.structValue.fields.name.stringValue === 'execution_time'
-                                        );
-                                        const latestMs = executionTimeValue?.structValue.fields.timeSeries.listValue.values[
-                                            executionTimeValue.structValue.fields.timeSeries.listValue.values.length - 1
-                                        ]?.structValue.fields.value.numberValue;
+                                        const latestMs = getLatestUsageValue(usage, 'execution_time');
                                         if (!latestMs) return <>
-                                            <Typography sx={{ fontFamily: '"Google Sans", sans-serif', fontWeight: 500, fontSize: "2rem", lineHeight: "1.2", color: "#1F1F1F" }}>-</Typography>
-                                            <Typography sx={{ fontFamily: '"Google Sans Text", sans-serif', fontWeight: 400, fontSize: "12px", color: "#575757" }}>seconds</Typography>
+                                            <Typography sx={{ fontFamily: '"Google Sans", sans-serif', fontWeight: 500, fontSize: "2rem", lineHeight: "1.2", color: "var(--sys-on-surface)" }}>-</Typography>
+                                            <Typography sx={{ fontFamily: '"Google Sans Text", sans-serif', fontWeight: 400, fontSize: "12px", color: "var(--sys-on-surface-muted)" }}>seconds</Typography>
                                         </>;
                                         const roundedSeconds = Math.round(latestMs / 1000);
                                         return (
                                             <Tooltip title={`${latestMs} ms`} arrow>
                                                 <Box>
-                                                    <Typography sx={{ fontFamily: '"Google Sans", sans-serif', fontWeight: 500, fontSize: "2rem", lineHeight: "1.2", color: "#1F1F1F", cursor: "default" }}>
+                                                    <Typography sx={{ fontFamily: '"Google Sans", sans-serif', fontWeight: 500, fontSize: "2rem", lineHeight: "1.2", color: "var(--sys-on-surface)", cursor: "default" }}>
                                                         {roundedSeconds}
                                                     </Typography>
-                                                    <Typography sx={{ fontFamily: '"Google Sans Text", sans-serif', fontWeight: 400, fontSize: "12px", color: "#575757" }}>
+                                                    <Typography sx={{ fontFamily: '"Google Sans Text", sans-serif', fontWeight: 400, fontSize: "12px", color: "var(--sys-on-surface-muted)" }}>
                                                         seconds
                                                     </Typography>
                                                 </Box>
@@ -884,21 +872,15 @@ const { date: updateDate, time: updateTime } = (entryType && entryType=='data-pr
                                 </Box>
                                 {/* Total Queries */}
                                 <Box sx={{ flex: 1, display: "flex", flexDirection: "column", alignItems: "flex-start", gap: "2px" }}>
-                                    <Typography sx={{ fontFamily: '"Google Sans Text", sans-serif', fontWeight: 500, fontSize: "11px", lineHeight: "1.45em", letterSpacing: "0.91%", color: "#575757" }}>
+                                    <Typography sx={{ fontFamily: '"Google Sans Text", sans-serif', fontWeight: 500, fontSize: "11px", lineHeight: "1.45em", letterSpacing: "0.91%", color: "var(--sys-on-surface-muted)" }}>
                                         Total Queries
                                     </Typography>
-                                    <Typography sx={{ fontFamily: '"Google Sans", sans-serif', fontWeight: 500, fontSize: "2rem", lineHeight: "1.2", color: "#1F1F1F" }}>
+                                    <Typography sx={{ fontFamily: '"Google Sans", sans-serif', fontWeight: 500, fontSize: "2rem", lineHeight: "1.2", color: "var(--sys-on-surface)" }}>
                                         {(() => {
-                                            const totalQueriesValue = usage.metrics?.listValue?.values?.find((value:any) =>
-                                                value.structValue.fields.name.stringValue === 'total_queries'
-                                            );
-                                            const latestValue = totalQueriesValue?.structValue.fields.timeSeries.listValue.values[
-                                                totalQueriesValue.structValue.fields.timeSeries.listValue.values.length - 1
-                                            ]?.structValue.fields.value.numberValue;
-                                            return latestValue || '-';
+                                            return getLatestUsageValue(usage, 'total_queries') || '-';
                                         })()}
                                     </Typography>
-                                    <Typography sx={{ fontFamily: '"Google Sans Text", sans-serif', fontWeight: 400, fontSize: "12px", color: "#575757" }}>
+                                    <Typography sx={{ fontFamily: '"Google Sans Text", sans-serif', fontWeight: 400, fontSize: "12px", color: "var(--sys-on-surface-muted)" }}>
                                         all time
                                     </Typography>
                                 </Box>
@@ -913,8 +895,8 @@ const { date: updateDate, time: updateTime } = (entryType && entryType=='data-pr
                 <Box sx={cardStyle}>
                     {/* Header row */}
                     <Box sx={{ display: "flex", alignItems: "center", gap: "12px", padding: "16px 20px" }}>
-                        <Box sx={{ width: "32px", height: "32px", background: "#E7F0FE", borderRadius: "6px", display: "flex", alignItems: "center", justifyContent: "center", flexShrink: 0 }}>
-                            <LabelIcon sx={{ fontSize: "20px", color: "#0B57D0" }} />
+                        <Box sx={{ width: "32px", height: "32px", background: "var(--sys-selected-container)", borderRadius: "6px", display: "flex", alignItems: "center", justifyContent: "center", flexShrink: 0 }}>
+                            <LabelIcon sx={{ fontSize: "20px", color: "var(--sys-primary)" }} />
                         </Box>
                         <Typography
                             component="span"
@@ -923,13 +905,13 @@ const { date: updateDate, time: updateTime } = (entryType && entryType=='data-pr
                                 fontWeight: 400,
                                 fontSize: "18px",
                                 lineHeight: "24px",
-                                color: "#1F1F1F",
+                                color: "var(--sys-on-surface)",
                             }}
                         >
                             Labels
                         </Typography>
                     </Box>
-                    <Divider sx={{ width: "100%", borderColor: "#DADCE0" }} />
+                    <Divider sx={{ width: "100%", borderColor: "var(--sys-outline-variant)" }} />
                     {/* Content */}
                     <Box sx={{ padding: "15px 10px 15px 10px", width: "100%", boxSizing: "border-box" }}>
                         {entry.entrySource?.labels && Object.keys(entry.entrySource.labels).length > 0 ? (
@@ -950,7 +932,7 @@ const { date: updateDate, time: updateTime } = (entryType && entryType=='data-pr
                                         minWidth: 0,
                                         height: "20px",
                                         borderRadius: "8px",
-                                        background: "#C2E7FF",
+                                        background: "var(--sys-secondary-container)",
                                         cursor: "pointer",
                                         boxSizing: "border-box"
                                     }}>
@@ -960,7 +942,7 @@ const { date: updateDate, time: updateTime } = (entryType && entryType=='data-pr
                                             fontSize: "12px",
                                             lineHeight: "1.25em",
                                             letterSpacing: "1%",
-                                            color: "#004A77",
+                                            color: "var(--sys-on-secondary-container)",
                                             textAlign: "left",
                                             overflow: "hidden",
                                             textOverflow: "ellipsis",
@@ -980,7 +962,7 @@ const { date: updateDate, time: updateTime } = (entryType && entryType=='data-pr
                                     fontWeight: 400,
                                     fontSize: "14px",
                                     lineHeight: "1.43em",
-                                    color: "#575757",
+                                    color: "var(--sys-on-surface-muted)",
                                 }}>
                                     No Labels available
                                 </Typography>
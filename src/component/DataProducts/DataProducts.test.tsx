@@ -1027,9 +1027,9 @@ describe('DataProducts Components', () => {
         expect(() => renderContract({ entry: entryWithoutType })).not.toThrow();
       });
 
-      it('should handle null entry by throwing (component requires entry)', () => {
-        // Component requires entry to be defined - this is expected behavior
-        expect(() => renderContract({ entry: null })).toThrow();
+      it('should show the empty state for a null entry', () => {
+        expect(() => renderContract({ entry: null })).not.toThrow();
+        expect(screen.getByText('No contracts available for this data product.')).toBeInTheDocument();
       });
     });
 
@@ -71,10 +71,10 @@ const SEARCH_FIELD_SX = {
     fontSize: 'clamp(10px, 0.9vw, 12px)',
     fontWeight: 500,
     letterSpacing: '0.1px',
-    color: '#5E5E5E',
-    '& fieldset': { borderColor: '#DADCE0' },
+    color: 'var(--sys-on-surface-soft)',
+    '& fieldset': { borderColor: 'var(--sys-outline-variant)' },
     '&:hover fieldset': { borderColor: '#A8A8A8' },
-    '&.Mui-focused fieldset': { borderColor: '#0E4DCA', borderWidth: '1.5px' },
+    '&.Mui-focused fieldset': { borderColor: 'var(--sys-brand)', borderWidth: '1.5px' },
   },
   width: 'clamp(250px, 25vw, 350px)',
   marginRight: 'clamp(6px, 0.8vw, 10px)',
@@ -82,7 +82,7 @@ const SEARCH_FIELD_SX = {
   '& .MuiInputBase-input': {
     padding: 0,
     '&::placeholder': {
-      color: '#5E5E5E',
+      color: 'var(--sys-on-surface-soft)',
       opacity: 1,
     },
   },
@@ -90,7 +90,7 @@ const SEARCH_FIELD_SX = {
 };
 
 const CARD_SX = {
-  border: '1px solid #E0E0E0',
+  border: '1px solid var(--sys-divider)',
   borderRadius: 'clamp(12px, 1vw, 16px)',
   padding: 'clamp(12px, 1vw, 16px)',
   height: '100%',
@@ -102,7 +102,7 @@ const CARD_SX = {
   transition: 'box-shadow 0.2s, border-color 0.2s, transform 0.2s',
   '&:hover': {
     boxShadow: '0 4px 8px 0 rgba(60,64,67,0.15)',
-    borderColor: '#0B57D0',
+    borderColor: 'var(--sys-primary)',
     transform: 'scale(1.02)',
   },
 };
@@ -122,14 +122,14 @@ const DataProductCard = React.memo(({
         alt={dataProduct.displayName}
         style={{ width: 'clamp(30px, 3vw, 40px)', height: 'clamp(30px, 3vw, 40px)', marginBottom: 'clamp(8px, 0.8vw, 12px)' }}
       />
-      <Typography variant="h6" sx={{ fontFamily: 'Google Sans', fontSize: 'clamp(14px, 1.2vw, 17px)', fontWeight: 500, color: '#1F1F1F', textWrap: 'break-word', marginLeft: 'clamp(8px, 0.8vw, 12px)', maxWidth: 'calc(100% - 150px)', lineHeight: 1.3, marginTop: '-10px' }}>
+      <Typography variant="h6" sx={{ fontFamily: 'Google Sans', fontSize: 'clamp(14px, 1.2vw, 17px)', fontWeight: 500, color: 'var(--sys-on-surface)', textWrap: 'break-word', marginLeft: 'clamp(8px, 0.8vw, 12px)', maxWidth: 'calc(100% - 150px)', lineHeight: 1.3, marginTop: '-10px' }}>
         {dataProduct.displayName}
       </Typography>
       <Box sx={{ alignSelf: "flex-end", marginLeft: 'auto', position: 'relative', top: '-25px' }}>
         <Tag text={`${dataProduct.assetCount || 0} assets`} css={{
           fontFamily: '"Google Sans Text", sans-serif',
           fontSize: 'clamp(10px, 0.9vw, 14px)',
-          color: '#004A77',
+          color: 'var(--sys-on-secondary-container)',
           margin: 0,
           display: "flex",
           alignItems: "center",
@@ -143,7 +143,7 @@ const DataProductCard = React.memo(({
       </Box>
     </Box>
     <Box>
-      <Typography variant="body2" sx={{ fontFamily: 'Google Sans Text', fontSize: 'clamp(11px, 1vw, 14px)', color: '#575757', lineHeight: 1.4, display: '-webkit-box', WebkitBoxOrient: 'vertical', WebkitLineClamp: 2, overflow: 'hidden', textOverflow: 'ellipsis', wordBreak: 'break-word' }}>
+      <Typography variant="body2" sx={{ fontFamily: 'Google Sans Text', fontSize: 'clamp(11px, 1vw, 14px)', color: 'var(--sys-on-surface-muted)', lineHeight: 1.4, display: '-webkit-box', WebkitBoxOrient: 'vertical', WebkitLineClamp: 2, overflow: 'hidden', textOverflow: 'ellipsis', wordBreak: 'break-word' }}>
         {dataProduct.description || 'No description available.'}
       </Typography>
     </Box>
@@ -151,7 +151,7 @@ const DataProductCard = React.memo(({
       <Tooltip title={`Owner: ${dataProduct.ownerEmails.join(', ') || 'Unknown'}`} arrow>
         <>
           <span style={{
-            color: "#575757",
+            color: "var(--sys-on-surface-muted)",
             fontSize: "1rem",
             fontWeight: 500,
             display: "flex",
@@ -179,7 +179,7 @@ const DataProductCard = React.memo(({
           <Box
             component="span"
             sx={{
-              color: "#575757",
+              color: "var(--sys-on-surface-muted)",
               fontSize: 'clamp(8px, 0.8vw, 12px)',
               fontWeight: 500,
               whiteSpace: 'nowrap',
@@ -200,7 +200,7 @@ const DataProductCard = React.memo(({
           <Box
             component="span"
             sx={{
-              color: "#575757",
+              color: "var(--sys-on-surface-muted)",
               fontSize: 'clamp(8px, 0.8vw, 12px)',
               fontWeight: 500,
               display: "flex",
@@ -217,7 +217,7 @@ const DataProductCard = React.memo(({
           <Box
             component="span"
             sx={{
-              color: "#575757",
+              color: "var(--sys-on-surface-muted)",
               fontSize: 'clamp(8px, 0.8vw, 12px)',
               fontWeight: 500,
               display: "flex",
@@ -379,7 +379,7 @@ const DataProducts = () => {
       px: { xs: 0, sm: 0 },
       pb: { xs: 1, sm: 2 },
       pt: 0,
-      backgroundColor: '#fff',
+      backgroundColor: 'var(--sys-surface)',
       height: { xs: 'calc(100vh - 56px)', sm: 'calc(100vh - 72px)' },
       width: '100%',
       overflow: 'hidden'
@@ -390,7 +390,7 @@ const DataProducts = () => {
           flex: 1,
           height: { xs: 'calc(100vh - 72px)', sm: 'calc(100vh - 88px)' },
           borderRadius: { xs: '16px', sm: '24px' },
-          backgroundColor: '#fff',
+          backgroundColor: 'var(--sys-surface)',
           border: 'transparent',
           display: 'flex',
           flexDirection: 'column',
@@ -413,7 +413,7 @@ const DataProducts = () => {
                   fontWeight: 400,
                   fontSize: 'clamp(18px, 1.8vw, 24px)',
                   lineHeight: 'clamp(18px, 1.8vw, 24px)',
-                  color: '#1F1F1F'
+                  color: 'var(--sys-on-surface)'
                 }}>
                     Data Products
                 </Typography>
@@ -437,7 +437,7 @@ const DataProducts = () => {
                     onChange={(e) => setSearchTerm(e.target.value)}
                     sx={SEARCH_FIELD_SX}
                     InputProps={{
-                        startAdornment: <Search sx={{ color: '#575757', fontSize: 'clamp(16px, 1.5vw, 20px)' }} />,
+                        startAdornment: <Search sx={{ color: 'var(--sys-on-surface-muted)', fontSize: 'clamp(16px, 1.5vw, 20px)' }} />,
                     }}
                 />
 
@@ -462,7 +462,7 @@ const DataProducts = () => {
                             display: "flex",
                             alignItems: "center",
                             cursor: "pointer",
-                            color: '#1F1F1F',
+                            color: 'var(--sys-on-surface)',
                             whiteSpace: "nowrap",
                             fontFamily: '"Google Sans Text", sans-serif',
                           }}
@@ -471,7 +471,7 @@ const DataProducts = () => {
                           <ExpandMore
                             sx={{
                               fontSize: '20px',
-                              color: '#575757',
+                              color: 'var(--sys-on-surface-muted)',
                               transform: sortAnchorEl ? 'rotate(180deg)' : 'rotate(0deg)',
                               transition: 'transform 0.3s ease',
                             }}
@@ -519,8 +519,8 @@ const DataProducts = () => {
                           fontSize: '12px',
                           fontFamily: '"Google Sans Text", sans-serif',
                           fontWeight: sortBy === 'name' ? '500' : '400',
-                          color: sortBy === 'name' ? '#0B57D0' : '#1F1F1F',
-                          backgroundColor: sortBy === 'name' ? '#F8FAFD' : 'transparent',
+                          color: sortBy === 'name' ? 'var(--sys-primary)' : 'var(--sys-on-surface)',
+                          backgroundColor: sortBy === 'name' ? 'var(--sys-background)' : 'transparent',
                         }}
                       >
                         Name
@@ -531,8 +531,8 @@ const DataProducts = () => {
                           fontSize: '12px',
                           fontFamily: '"Google Sans Text", sans-serif',
                           fontWeight: sortBy === 'lastModified' ? '500' : '400',
-                          color: sortBy === 'lastModified' ? '#0B57D0' : '#1F1F1F',
-                          backgroundColor: sortBy === 'lastModified' ? '#F8FAFD' : 'transparent',
+                          color: sortBy === 'lastModified' ? 'var(--sys-primary)' : 'var(--sys-on-surface)',
+                          backgroundColor: sortBy === 'lastModified' ? 'var(--sys-background)' : 'transparent',
                         }}
                       >
                         Last Modified
@@ -549,8 +549,8 @@ const DataProducts = () => {
                           width: '5rem',
                           height: '1.5rem',
                           borderRadius: '1rem',
-                          border: '1px solid #747775',
-                          backgroundColor: '#FFFFFF',
+                          border: '1px solid var(--sys-outline)',
+                          backgroundColor: 'var(--sys-surface)',
                           overflow: 'hidden',
                           display: 'flex',
                           alignItems: 'center',
@@ -568,13 +568,13 @@ const DataProducts = () => {
                             height: '1.5rem',
                             margin: 0,
                             backgroundColor: 'transparent',
-                            color: '#1F1F1F',
+                            color: 'var(--sys-on-surface)',
                             display: 'flex',
                             alignItems: 'center',
                             justifyContent: 'center',
                             gap: '0.125rem',
                             transition: 'all 0.2s ease-in-out',
-                            borderRight: '1px solid #747775',
+                            borderRight: '1px solid var(--sys-outline)',
                             '&:first-of-type': {
                               borderTopLeftRadius: '1rem',
                               borderBottomLeftRadius: '1rem',
@@ -586,12 +586,12 @@ const DataProducts = () => {
                             },
                             '&.Mui-selected': {
                               width: '3.125rem',
-                              backgroundColor: '#E8F0FE',
-                              color: '#0B57D0',
-                              borderRight: '1px solid #747775',
+                              backgroundColor: 'var(--sys-selected-container-tint)',
+                              color: 'var(--sys-primary)',
+                              borderRight: '1px solid var(--sys-outline)',
                               padding: '0 0.25rem',
                               '& svg': {
-                                fill: '#0B57D0'
+                                fill: 'var(--sys-primary)'
                               }
                             },
                             '&.Mui-selected:last-of-type': {
@@ -600,14 +600,14 @@ const DataProducts = () => {
                             '&:not(.Mui-selected)': {
                               width: '1.875rem',
                               backgroundColor: 'transparent',
-                              color: '#1F1F1F',
+                              color: 'var(--sys-on-surface)',
                               padding: '0',
                               '& svg': {
-                                fill: '#1F1F1F'
+                                fill: 'var(--sys-on-surface)'
                               },
                               '&:hover': {
-                                backgroundColor: '#F0F0F0',
-                                color: '#1F1F1F'
+                                backgroundColor: 'var(--sys-surface-container-faint)',
+                                color: 'var(--sys-on-surface)'
                               }
                             }
                           }
@@ -671,7 +671,7 @@ const DataProducts = () => {
                             Array.from(new Array(6)).map((_, index) => (
                                 <Grid size={{ xs: 12, sm: 6, md: 4 }} key={index}>
                                     <Box sx={{
-                                        border: '1px solid #E0E0E0',
+                                        border: '1px solid var(--sys-divider)',
                                         borderRadius: '16px',
                                         padding: '16px',
                                         height: '150px',
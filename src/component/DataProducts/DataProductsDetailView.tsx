@@ -8,7 +8,7 @@ import PreviewAnnotation from '../Annotation/PreviewAnnotation'
 import AnnotationFilter from '../Annotation/AnnotationFilter'
 import type { AppDispatch } from '../../app/store'
 import { useAuth } from '../../auth/AuthProvider'
-import { getEntryType, getMimeType, getName, hasValidAnnotationData  } from '../../utils/resourceUtils'
+import { getMimeType, getName, hasValidAnnotationData  } from '../../utils/resourceUtils'
 import { fetchDataProductsAssetsList, fetchDataProductsList, getDataProductDetails, setDataProductsDetailTabValue } from '../../features/dataProducts/dataProductsSlice'
 import Assets from './Assets'
 import AccessGroup from './AccessGroup'
@@ -20,6 +20,7 @@ import { useAccessRequest } from '../../contexts/AccessRequestContext'
 import ResourcePreview from '../Common/ResourcePreview'
 import { fetchEntry, clearHistory } from '../../features/entry/entrySlice'
 import { useNotification } from '../../contexts/NotificationContext'
+import { getAnnotationAspectKeys } from '../../utils/entryModel'
 // import { useFavorite } from '../../hooks/useFavorite'
 
 /**
@@ -160,14 +161,7 @@ const DataProductsDetailView: React.FC<DataProductsDetailViewProps> = ({ onReque
   
   const handleAnnotationExpandAll = () => {
     if (selectedDataProductDetails?.aspects) {
-    const number = getEntryType(selectedDataProductDetails.name, '/');
-    const annotationKeys = Object.keys(selectedDataProductDetails.aspects)
-        .filter(key =>
-        key !== `${number}.global.schema` &&
-        key !== `${number}.global.overview` &&
-        key !== `${number}.global.contacts` &&
-        key !== `${number}.global.usage`
-        )
+    const annotationKeys = getAnnotationAspectKeys(selectedDataProductDetails)
         .filter(key => hasValidAnnotationData(selectedDataProductDetails.aspects![key])); // Only expand those with data
     setExpandedAnnotations(new Set(annotationKeys));
     }
@@ -323,7 +317,7 @@ const tabProps = (index: number)  => {
   const headerDescription = selectedDataProductDetails?.entrySource?.description || '';
 
   return selectedDataProductStatus == 'succeeded' ? (
-    <div ref={scrollContainerRef} onScroll={handleScroll} style={{display: "flex", flexDirection: "column", padding: "0px 0", background:"#FFFFFF", height: "100%", overflowY: "auto" }}>
+    <div ref={scrollContainerRef} onScroll={handleScroll} style={{display: "flex", flexDirection: "column", padding: "0px 0", background:"var(--sys-surface)", height: "100%", overflowY: "auto" }}>
       {/* Primary Title Bar - sticky, direct child of scroll container */}
       <div style={{
           display: "flex",
@@ -332,7 +326,7 @@ const tabProps = (index: number)  => {
           padding: "20px 20px 12px 20px",
           position: "sticky",
           top: 0,
-          backgroundColor: "#ffffff",
+          backgroundColor: "var(--sys-surface)",
           zIndex: 1001,
           boxShadow: isScrolled ? "0px 2px 4px rgba(0, 0, 0, 0.12)" : "none",
           transition: "box-shadow 0.2s ease",
@@ -350,7 +344,7 @@ const tabProps = (index: number)  => {
                       width: '40px',
                       height: '40px',
                       borderRadius: '50%',
-                      color: '#0B57D0',
+                      color: 'var(--sys-primary)',
                       transition: 'background-color 0.2s',
                       '&:hover': { backgroundColor: 'rgba(0, 0, 0, 0.04)' },
                   }}
@@ -361,7 +355,7 @@ const tabProps = (index: number)  => {
               <img
                   src={selectedDataProduct.icon ? `data:${getMimeType(selectedDataProduct.icon)};base64,${selectedDataProduct.icon}` : '/assets/images/data-product-card.png'}
                   alt={selectedDataProductDetails.entrySource?.displayName}
-                  style={{ width: '48px', height: '48px', border: '1.25px solid #FFFFFF', borderRadius: '8px' }}
+                  style={{ width: '48px', height: '48px', border: '1.25px solid var(--sys-surface)', borderRadius: '8px' }}
               />
               {/* Title and Tags Column */}
               <div style={{ display: "flex", flexDirection: "column", gap: "4px" }}>
@@ -376,7 +370,7 @@ const tabProps = (index: number)  => {
                       >
                       <label style={{
                           fontFamily: '"Google Sans", sans-serif',
-                          color: "#1F1F1F",
+                          color: "var(--sys-on-surface)",
                           fontSize: "28px",
                           fontWeight: "400",
                           lineHeight: "36px",
@@ -395,7 +389,7 @@ const tabProps = (index: number)  => {
             {/* Header Container */}
             <div style={{
                 flexShrink: 0,
-                backgroundColor: '#ffffff',
+                backgroundColor: 'var(--sys-surface)',
                 zIndex: 1000,
             }}>
 
@@ -407,7 +401,7 @@ const tabProps = (index: number)  => {
                         fontFamily: '"Google Sans", sans-serif',
                         fontSize: "14px",
                         lineHeight: "20px",
-                        color: "#575757",
+                        color: "var(--sys-on-surface-muted)",
                         fontWeight: 400,
                         maxHeight: descriptionExpanded ? "none" : "60px",
                         overflow: "hidden",
@@ -426,7 +420,7 @@ const tabProps = (index: number)  => {
                                 alignItems: "center",
                                 gap: "4px",
                                 padding: "6px 0px",
-                                color: "#0B57D0",
+                                color: "var(--sys-primary)",
                                 fontFamily: '"Google Sans", sans-serif',
                                 fontSize: "14px",
                                 fontWeight: 500,
@@ -443,7 +437,7 @@ const tabProps = (index: number)  => {
                       fontFamily: '"Google Sans", sans-serif',
                       fontSize: "14px",
                       lineHeight: "20px",
-                      color: "#575757",
+                      color: "var(--sys-on-surface-muted)",
                       fontWeight: 400,
                       fontStyle: "italic",
                   }}>
@@ -460,8 +454,8 @@ const tabProps = (index: number)  => {
                       onClick={() => {handleRequestAccess(selectedDataProductDetails)}}
                       sx={{
                         fontFamily: '"Google Sans", sans-serif',
-                        backgroundColor: '#0B57D0',
-                        color: '#FFFFFF',
+                        backgroundColor: 'var(--sys-primary)',
+                        color: 'var(--sys-on-primary)',
                         borderRadius: '100px',
                         padding: '10px 16px',
                         fontSize: '14px',
@@ -502,12 +496,12 @@ const tabProps = (index: number)  => {
                       "& .MuiTab-root": {
                         fontFamily: '"Product Sans Regular", sans-serif',
                         fontSize: "14px",
-                        color: "#575757",
+                        color: "var(--sys-on-surface-muted)",
                         textTransform: "none",
                         minHeight: "48px",
                         padding: "12px 20px 16px",
                         "&.Mui-selected": {
-                          color: "#0E4DCA",
+                          color: "var(--sys-brand)",
                         },
                       },
                       "& .MuiTabs-indicator": {
@@ -519,8 +513,8 @@ const tabProps = (index: number)  => {
                           right: "20px",
                           bottom: "-2px",
                           height: "5px",
-                          backgroundColor: "white",
-                          borderTop: "3px solid #0E4DCA",
+                          backgroundColor: "var(--sys-surface)",
+                          borderTop: "3px solid var(--sys-brand)",
                           borderRadius: "2.5px 2.5px 0 0",
                         },
                       },
@@ -544,7 +538,7 @@ const tabProps = (index: number)  => {
             </div>
 
             {/* Tab Content - Scrollable */}
-            <div style={{paddingTop:"0px", marginTop:"0px", marginLeft: "20px", marginRight: "20px", paddingBottom: "2rem", borderTop: "1px solid #E0E0E0"}}>
+            <div style={{paddingTop:"0px", marginTop:"0px", marginLeft: "20px", marginRight: "20px", paddingBottom: "2rem", borderTop: "1px solid var(--sys-divider)"}}>
                     <CustomTabPanel value={tabValue} index={0}>
                         {overviewTab}
                     </CustomTabPanel>
@@ -627,7 +621,7 @@ const tabProps = (index: number)  => {
           top: "80px",
           marginTop: "10px",
           borderRadius: "20px",
-          backgroundColor: "#fff",
+          backgroundColor: "var(--sys-surface)",
           display: "flex",
           flexDirection: "column",
           overflow: "hidden",
@@ -661,7 +655,7 @@ const tabProps = (index: number)  => {
     </div>
     </div>
   ):(
-    <div style={{display: "flex", flexDirection: "column", padding: "0px 0", background:"#FFFFFF", height: "100vh", overflow: "hidden" }}>
+    <div style={{display: "flex", flexDirection: "column", padding: "0px 0", background:"var(--sys-surface)", height: "100vh", overflow: "hidden" }}>
       <Box sx={{ padding: "0px 20px", display: "flex", flexDirection: "column", flex: 1, minHeight: 0, overflow: "hidden" }}>
         {/* Row 1: Title Bar Skeleton */}
         <Box sx={{
@@ -699,7 +693,7 @@ const tabProps = (index: number)  => {
           display: 'flex',
           gap: '24px',
           paddingBottom: '12px',
-          borderBottom: '1px solid #E0E0E0'
+          borderBottom: '1px solid var(--sys-divider)'
         }}>
           <Skeleton variant="text" width={80} height={20} />
           <Skeleton variant="text" width={50} height={20} />
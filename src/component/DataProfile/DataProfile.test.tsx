@@ -17,6 +17,17 @@ vi.mock('./DataProfileConfigurationsPanel', () => ({
   }
 }));
 
+vi.mock('./DataProfileDrift', () => ({
+  default: function MockDataProfileDrift({ onClose, scanName }: any) {
+    return (
+      <div data-testid="drift-panel">
+        <button onClick={onClose}>Close Drift</button>
+        <div>Drift Scan: {scanName}</div>
+      </div>
+    );
+  }
+}));
+
 // Mock auth context
 const mockAuthContext = {
   user: {
@@ -244,6 +255,27 @@ describe('DataProfile', () => {
     });
   });
 
+  it('opens and closes the compare panel', async () => {
+    renderDataProfile({}, {
+      scanData: mockDataProfileScan,
+      status: 'succeeded',
+      isLoading: false
+    });
+
+    fireEvent.click(screen.getByText('Compare'));
+
+    await waitFor(() => {
+      expect(screen.getByTestId('drift-panel')).toBeInTheDocument();
+    });
+    expect(screen.queryByTestId('configurations-panel')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Close Drift'));
+
+    await waitFor(() => {
+      expect(screen.queryByTestId('drift-panel')).not.toBeInTheDocument();
+    });
+  });
+
   it('closes configurations panel when close button is clicked', async () => {
     renderDataProfile({}, {
       scanData: mockDataProfileScan,
@@ -29,6 +29,7 @@ import {
   InfoOutline,
 } from '@mui/icons-material';
 import DataProfileConfigurationsPanel from './DataProfileConfigurationsPanel';
+import DataProfileDrift from './DataProfileDrift';
 import DataProfileSkeleton from './DataProfileSkeleton';
 import { useAuth } from '../../auth/AuthProvider';
 import { useDispatch, useSelector } from 'react-redux';
@@ -67,6 +68,8 @@ import { useAccessRequest } from '../../contexts/AccessRequestContext';
  * 'Top 10 values' as a custom horizontal bar chart within the table cells.
  * - **Configurations**: Includes a "Configurations" button that opens the
  * `DataProfileConfigurationsPanel` side panel to show the scan's setup.
+ * - **Compare**: Opens the `DataProfileDrift` side panel, which compares two
+ * runs of the scan, or this table with another profiled table, column by column.
  *
  * @param {object} props - The props for the DataProfile component.
  * @param {any} props.entry - The data entry object, which is inspected for
@@ -164,6 +167,7 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
 
   const [isExpanded, setIsExpanded] = useState(true);
   const [isConfigurationsOpen, setIsConfigurationsOpen] = useState(false);
+  const [isDriftOpen, setIsDriftOpen] = useState(false);
   const [filterText, setFilterText] = useState('');
   const [filterAnchorEl, setFilterAnchorEl] = useState<null | HTMLElement>(null);
   const [selectedProperty, setSelectedProperty] = useState<string>('');
@@ -174,8 +178,8 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
 
   // Sync configurations panel state with global context for z-index management
   useEffect(() => {
-    setAccessPanelOpen(isConfigurationsOpen);
-  }, [isConfigurationsOpen, setAccessPanelOpen]);
+    setAccessPanelOpen(isConfigurationsOpen || isDriftOpen);
+  }, [isConfigurationsOpen, isDriftOpen, setAccessPanelOpen]);
 
   // Dummy data based on Figma design
   const profileData: ProfileData[] = [];
@@ -414,9 +418,9 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
           position: 'relative',
         }}>
           <Box sx={{
-            backgroundColor: '#ffffff',
+            backgroundColor: 'var(--sys-surface)',
             borderRadius: '8px',
-            border: '1px solid #DADCE0',
+            border: '1px solid var(--sys-outline-variant)',
             overflow: 'hidden',
             position: 'relative'
           }}>
@@ -428,7 +432,7 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
             justifyContent: 'space-between',
             alignItems: 'center',
             padding: '16px',
-            backgroundColor: '#F8FAFD',
+            backgroundColor: 'var(--sys-background)',
             cursor: 'pointer'
           }}>
             <Box sx={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
@@ -437,7 +441,7 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
               sx={{
                 fontSize: '1.125rem',
                 fontWeight: 500,
-                color: '#1F1F1F',
+                color: 'var(--sys-on-surface)',
                 lineHeight: '1.33em'
               }}>
                 Profile Results
@@ -455,13 +459,30 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
 
             </Box>
             <Box sx={{ display: 'flex', alignItems: 'center', gap: '16px' }}>
+              <Button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setIsDriftOpen(true)
+                }}
+                sx={{
+                  color: 'var(--sys-primary)',
+                  textTransform: 'none',
+                  fontSize: '0.75rem',
+                  fontWeight: 700,
+                  padding: 0,
+                  minWidth: 'auto',
+                  '&:hover': { backgroundColor: 'transparent', textDecoration: 'underline' }
+                }}
+              >
+                Compare
+              </Button>
               <Button
                 onClick={(e) => {
                   e.stopPropagation();
                   setIsConfigurationsOpen(true)
                 }}
                 sx={{
-                  color: '#0B57D0',
+                  color: 'var(--sys-primary)',
                   textTransform: 'none',
                   fontSize: '0.75rem',
                   fontWeight: 700,
@@ -500,11 +521,11 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
                 flexDirection: 'column',
                 gap: '8px',
                 padding: '8px 16px',
-                border: '1px solid #DADCE0',
+                border: '1px solid var(--sys-outline-variant)',
                 borderBottom: 'none',
                 borderTopRightRadius: '8px',
                 borderTopLeftRadius: '8px',
-                backgroundColor: '#FFFFFF'
+                backgroundColor: 'var(--sys-surface)'
               }}>
                 {/* Filter Header */}
                 <Box sx={{ display: 'flex', alignItems: 'center', marginLeft: '-0.5rem',}}>
@@ -516,11 +537,11 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
                         sx={{
                           padding: '4px',
                           '&:hover': {
-                            backgroundColor: '#E8F4FF'
+                            backgroundColor: 'var(--sys-selected-container-sky)'
                           }
                         }}
                       >
-                        <FilterList sx={{ fontSize: '16px', color: '#1f1f1f' }} />
+                        <FilterList sx={{ fontSize: '16px', color: 'var(--sys-on-surface)' }} />
                       </IconButton>
                     </Tooltip>
                     <Tooltip title="Filter by selecting property and values" arrow>
@@ -530,7 +551,7 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
                         sx={{
                           fontSize: '12px',
                           fontWeight: 500,
-                          color: '#1f1f1f',
+                          color: 'var(--sys-on-surface)',
                           lineHeight: '1.67em',
                           cursor: 'pointer',
                           '&:hover': {
@@ -567,10 +588,10 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
                       '& .MuiInputBase-input': {
                         padding: '4px 8px',
                         fontSize: '12px',
-                        color: '#1F1F1F'
+                        color: 'var(--sys-on-surface)'
                       },
                       '& .MuiInputBase-input::placeholder': {
-                        color: '#575757',
+                        color: 'var(--sys-on-surface-muted)',
                         opacity: 1
                       }
                     }}
@@ -593,7 +614,7 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
                       onClick={handleClearFilters}
                       sx={{
                         fontSize: '11px',
-                        color: '#0B57D0',
+                        color: 'var(--sys-primary)',
                         textTransform: 'none',
                         padding: '2px 8px',
                         minWidth: 'auto',
@@ -621,8 +642,8 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
                           alignItems: 'center',
                           gap: '6px',
                           padding: '4px 8px',
-                          backgroundColor: '#E7F0FE',
-                          border: '1px solid #0E4DCA',
+                          backgroundColor: 'var(--sys-selected-container)',
+                          border: '1px solid var(--sys-brand)',
                           borderRadius: '16px',
                           fontSize: '11px'
                         }}
@@ -630,13 +651,13 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
                         <Typography sx={{ 
                           fontSize: '12px', 
                           fontWeight: 500,
-                          color: '#0E4DCA',
+                          color: 'var(--sys-brand)',
                         }}>
                           {filter.property}:
                         </Typography>
                         <Typography sx={{ 
                           fontSize: '12px', 
-                          color: '#1F1F1F'
+                          color: 'var(--sys-on-surface)'
                         }}>
                           {filter.values.join(', ')}
                         </Typography>
@@ -647,10 +668,10 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
                             padding: '2px',
                             width: '16px',
                             height: '16px',
-                            color: '#0E4DCA',
+                            color: 'var(--sys-brand)',
                             '&:hover': {
-                              backgroundColor: '#D93025',
-                              color: '#FFFFFF'
+                              backgroundColor: 'var(--sys-error)',
+                              color: 'var(--sys-on-primary)'
                             }
                           }}
                         >
@@ -687,15 +708,15 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
                       sx={{
                         fontSize: '0.6875rem',
                         fontWeight: 500,
-                        backgroundColor: '#F8F9FA',
-                        borderBottom: '1px solid #E0E0E0',
+                        backgroundColor: 'var(--sys-background-neutral)',
+                        borderBottom: '1px solid var(--sys-divider)',
                         height: "32px",
                         minHeight: "32px",
                         paddingTop: 0,
                         paddingBottom: 1,
                         "&.Mui-disabled": {
                           opacity: 1,
-                          color: "#575757 !important",
+                          color: "var(--sys-on-surface-muted) !important",
                           backgroundColor: "transparent !important",
                         },
                       }}
@@ -724,8 +745,8 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
                       sx={{
                         fontSize: '0.6875rem',
                         fontWeight: 400,
-                        backgroundColor: '#F8F9FA',
-                        borderBottom: '1px solid #E0E0E0',
+                        backgroundColor: 'var(--sys-background-neutral)',
+                        borderBottom: '1px solid var(--sys-divider)',
                         marginTop: '-8px',
                         paddingTop: 1.30,
                         paddingBottom: 1.30,
@@ -737,8 +758,8 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
                       sx={{
                         fontSize: '0.6875rem',
                         fontWeight: 400,
-                        backgroundColor: '#F8F9FA',
-                        borderBottom: '1px solid #E0E0E0'
+                        backgroundColor: 'var(--sys-background-neutral)',
+                        borderBottom: '1px solid var(--sys-divider)'
                       }}
                       disabled
                     >
@@ -773,7 +794,7 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
               <TableContainer sx={{
                 maxHeight: 'calc(100vh - 380px)',
                 overflow: 'auto', 
-                border: '1px solid #DADCE0', 
+                border: '1px solid var(--sys-outline-variant)', 
                 borderBottomRightRadius: '8px', 
                 borderBottomLeftRadius: '8px',
                 marginTop: '0px',
@@ -784,8 +805,8 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
                   <TableHead>
                     <TableRow>
                       <TableCell sx={{
-                        backgroundColor: '#F0F4F8',
-                        borderBottom: '1px solid #DADCE0',
+                        backgroundColor: 'var(--sys-surface-container)',
+                        borderBottom: '1px solid var(--sys-outline-variant)',
                         padding: '8px 16px',
                         width: '120px'
                       }}>
@@ -795,7 +816,7 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
                           <Typography sx={{
                             fontSize: '0.75rem',
                             fontWeight: 500,
-                            color: '#444746',
+                            color: 'var(--sys-on-surface-variant)',
                             lineHeight: '1.33em',
                             letterSpacing: '0.1px'
                           }}>
@@ -809,8 +830,8 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
                         </Box>
                       </TableCell>
                       <TableCell sx={{
-                        backgroundColor: '#F0F4F8',
-                        borderBottom: '1px solid #DADCE0',
+                        backgroundColor: 'var(--sys-surface-container)',
+                        borderBottom: '1px solid var(--sys-outline-variant)',
                         padding: '8px 16px',
                         width: '100px'
                       }}>
@@ -820,7 +841,7 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
                           <Typography sx={{
                             fontSize: '12px',
                             fontWeight: 500,
-                            color: '#444746',
+                            color: 'var(--sys-on-surface-variant)',
                             lineHeight: '1.33em',
                             letterSpacing: '0.1px'
                           }}>
@@ -834,8 +855,8 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
                         </Box>
                       </TableCell>
                       <TableCell sx={{
-                        backgroundColor: '#F0F4F8',
-                        borderBottom: '1px solid #DADCE0',
+                        backgroundColor: 'var(--sys-surface-container)',
+                        borderBottom: '1px solid var(--sys-outline-variant)',
                         padding: '8px 16px',
                         width: '80px'
                       }}>
@@ -845,7 +866,7 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
                           <Typography sx={{
                             fontSize: '12px',
                             fontWeight: 500,
-                            color: '#444746',
+                            color: 'var(--sys-on-surface-variant)',
                             lineHeight: '1.33em',
                             letterSpacing: '0.1px'
                           }}>
@@ -859,8 +880,8 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
                         </Box>
                       </TableCell>
                       <TableCell sx={{
-                        backgroundColor: '#F0F4F8',
-                        borderBottom: '1px solid #DADCE0',
+                        backgroundColor: 'var(--sys-surface-container)',
+                        borderBottom: '1px solid var(--sys-outline-variant)',
                         padding: '8px 16px',
                         width: '100px'
                       }}>
@@ -870,7 +891,7 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
                           <Typography sx={{
                             fontSize: '12px',
                             fontWeight: 500,
-                            color: '#444746',
+                            color: 'var(--sys-on-surface-variant)',
                             lineHeight: '1.33em',
                             letterSpacing: '0.1px'
                           }}>
@@ -884,15 +905,15 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
                         </Box>
                       </TableCell>
                       <TableCell sx={{
-                        backgroundColor: '#F0F4F8',
-                        borderBottom: '1px solid #DADCE0',
+                        backgroundColor: 'var(--sys-surface-container)',
+                        borderBottom: '1px solid var(--sys-outline-variant)',
                         padding: '8px 0px',
                         width: '200px'
                       }}>
                         <Typography sx={{
                           fontSize: '12px',
                           fontWeight: 500,
-                          color: '#444746',
+                          color: 'var(--sys-on-surface-variant)',
                           lineHeight: '1.33em',
                           letterSpacing: '0.1px'
                         }}>
@@ -900,15 +921,15 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
                         </Typography>
                       </TableCell>
                       <TableCell sx={{
-                        backgroundColor: '#F0F4F8',
-                        borderBottom: '1px solid #DADCE0',
+                        backgroundColor: 'var(--sys-surface-container)',
+                        borderBottom: '1px solid var(--sys-outline-variant)',
                         padding: '8px 8px',
                         width: '250px',
                       }}>
                         <Typography sx={{
                           fontSize: '12px',
                           fontWeight: 500,
-                          color: '#444746',
+                          color: 'var(--sys-on-surface-variant)',
                           lineHeight: '1.33em',
                           letterSpacing: '0.1px',
                           marginLeft: '10px',
@@ -925,13 +946,13 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
                         <TableRow sx={{ height: '152px' }}>
                           <TableCell sx={{
                             padding: '7px 16px',
-                            borderBottom: index < profileData.length - 1 ? '1px solid #DADCE0' : 'none',
+                            borderBottom: index < profileData.length - 1 ? '1px solid var(--sys-outline-variant)' : 'none',
                             verticalAlign: 'top'
                           }}>
                             <Typography sx={{
                               fontSize: '12px',
                               fontWeight: 400,
-                              color: '#1F1F1F',
+                              color: 'var(--sys-on-surface)',
                               lineHeight: '1.33em',
                               letterSpacing: '0.1px',
                               whiteSpace: 'nowrap',
@@ -944,13 +965,13 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
                           </TableCell>
                           <TableCell sx={{
                             padding: '7px 16px',
-                            borderBottom: index < profileData.length - 1 ? '1px solid #DADCE0' : 'none',
+                            borderBottom: index < profileData.length - 1 ? '1px solid var(--sys-outline-variant)' : 'none',
                             verticalAlign: 'top'
                           }}>
                             <Typography sx={{
                               fontSize: '12px',
                               fontWeight: 400,
-                              color: '#1F1F1F',
+                              color: 'var(--sys-on-surface)',
                               lineHeight: '1.33em',
                               letterSpacing: '0.1px',
                               whiteSpace: 'nowrap',
@@ -963,13 +984,13 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
                           </TableCell>
                           <TableCell sx={{
                             padding: '7px 16px',
-                            borderBottom: index < profileData.length - 1 ? '1px solid #DADCE0' : 'none',
+                            borderBottom: index < profileData.length - 1 ? '1px solid var(--sys-outline-variant)' : 'none',
                             verticalAlign: 'top'
                           }}>
                             <Typography sx={{
                               fontSize: '12px',
                               fontWeight: 400,
-                              color: '#1F1F1F',
+                              color: 'var(--sys-on-surface)',
                               lineHeight: '1.33em',
                               letterSpacing: '0.1px',
                               whiteSpace: 'nowrap',
@@ -982,13 +1003,13 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
                           </TableCell>
                           <TableCell sx={{
                             padding: '7px 16px',
-                            borderBottom: index < profileData.length - 1 ? '1px solid #DADCE0' : 'none',
+                            borderBottom: index < profileData.length - 1 ? '1px solid var(--sys-outline-variant)' : 'none',
                             verticalAlign: 'top'
                           }}>
                             <Typography sx={{
                               fontSize: '12px',
                               fontWeight: 400,
-                              color: '#1F1F1F',
+                              color: 'var(--sys-on-surface)',
                               lineHeight: '1.33em',
                               letterSpacing: '0.1px',
                               whiteSpace: 'nowrap',
@@ -1001,7 +1022,7 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
                           </TableCell>
                           <TableCell sx={{
                             padding: '0px 20px 0px 0px',
-                            borderBottom: index < profileData.length - 1 ? '1px solid #DADCE0' : 'none',
+                            borderBottom: index < profileData.length - 1 ? '1px solid var(--sys-outline-variant)' : 'none',
                             verticalAlign: 'top'
                           }}>
                             <Box sx={{ display: 'flex', flexDirection: 'column' }}>
@@ -1017,7 +1038,7 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
                                   <Typography sx={{
                                     fontSize: '12px',
                                     fontWeight: 500,
-                                    color: '#1F1F1F',
+                                    color: 'var(--sys-on-surface)',
                                     lineHeight: '1.33em',
                                     letterSpacing: '0.1px',
                                     width: '101px',
@@ -1028,7 +1049,7 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
                                   <Typography sx={{
                                     fontSize: '12px',
                                     fontWeight: 400,
-                                    color: '#1F1F1F',
+                                    color: 'var(--sys-on-surface)',
                                     lineHeight: '1.33em',
                                     letterSpacing: '0.1px'
                                   }}>
@@ -1042,7 +1063,7 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
                           </TableCell>
                          <TableCell sx={{
                             padding: '0px 16px',
-                            borderBottom: index < profileData.length - 1 ? '1px solid #DADCE0' : 'none',
+                            borderBottom: index < profileData.length - 1 ? '1px solid var(--sys-outline-variant)' : 'none',
                             verticalAlign: 'top'
                           }}>
                             {(() => {
@@ -1110,11 +1131,11 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
                                       width: '152px',
                                       height: `${finalGridLineHeight}px`
                                     }}>
-                                      <Box sx={{ position: 'absolute', left: '8px', width: '1px', height: '100%', backgroundColor: '#DADCE0' }} />
-                                      <Box sx={{ position: 'absolute', left: '44px', width: '1px', height: '100%', backgroundColor: '#DADCE0' }} />
-                                      <Box sx={{ position: 'absolute', left: '80px', width: '1px', height: '100%', backgroundColor: '#DADCE0' }} />
-                                      <Box sx={{ position: 'absolute', left: '116px', width: '1px', height: '100%', backgroundColor: '#DADCE0' }} />
-                                      <Box sx={{ position: 'absolute', left: '152px', width: '1px', height: '100%', backgroundColor: '#DADCE0' }} />
+                                      <Box sx={{ position: 'absolute', left: '8px', width: '1px', height: '100%', backgroundColor: 'var(--sys-surface-container-strong)' }} />
+                                      <Box sx={{ position: 'absolute', left: '44px', width: '1px', height: '100%', backgroundColor: 'var(--sys-surface-container-strong)' }} />
+                                      <Box sx={{ position: 'absolute', left: '80px', width: '1px', height: '100%', backgroundColor: 'var(--sys-surface-container-strong)' }} />
+                                      <Box sx={{ position: 'absolute', left: '116px', width: '1px', height: '100%', backgroundColor: 'var(--sys-surface-container-strong)' }} />
+                                      <Box sx={{ position: 'absolute', left: '152px', width: '1px', height: '100%', backgroundColor: 'var(--sys-surface-container-strong)' }} />
                                     </Box>
                                     {row.topValues.map((item, valueIndex) => {
                                       const percentage = parseFloat(item.percentage) || 0;
@@ -1135,7 +1156,7 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
                                             <Typography sx={{
                                               fontSize: '12px',
                                               fontWeight: 400,
-                                              color: '#1F1F1F',
+                                              color: 'var(--sys-on-surface)',
                                               lineHeight: '1.33em',
                                               letterSpacing: '0.1px',
                                               width: '48px',
@@ -1155,7 +1176,7 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
                                             <Box sx={{
                                               width: `${barWidth}px`, 
                                               height: `${barHeight}px`,
-                                              backgroundColor: '#0B57D0',
+                                              backgroundColor: 'var(--sys-primary)',
                                               borderRadius: '4px',
                                               display: 'flex',
                                               alignItems: 'center',
@@ -1165,7 +1186,7 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
                                               <Typography sx={{
                                                 fontSize: '12px',
                                                 fontWeight: 400,
-                                                color: '#FFFFFF',
+                                                color: 'var(--sys-on-primary)',
                                                 lineHeight: '1.33em',
                                                 letterSpacing: '0.1px',
                                                 display: showTextOutside ? 'none' : 'block'
@@ -1178,12 +1199,12 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
                                                 <Box sx={{ 
                                                   width: '10px', 
                                                   height: '1px', 
-                                                  backgroundColor: '#1F1F1F',
+                                                  backgroundColor: 'var(--sys-on-surface)',
                                                 }}/>
                                                 <Typography sx={{
                                                   fontSize: '12px',
                                                   fontWeight: 400,
-                                                  color: '#1F1F1F', 
+                                                  color: 'var(--sys-on-surface)', 
                                                   lineHeight: '1.33em',
                                                   letterSpacing: '0.1px',
                                                   whiteSpace: 'nowrap',
@@ -1211,7 +1232,7 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
                                         transform: 'translateX(-50%)', 
                                         fontSize: '11px',
                                         fontWeight: 500,
-                                        color: '#1F1F1F',
+                                        color: 'var(--sys-on-surface)',
                                         lineHeight: '1.45em',
                                       }}>
                                         0%
@@ -1222,7 +1243,7 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
                                         transform: 'translateX(-50%)', 
                                         fontSize: '11px',
                                         fontWeight: 500,
-                                        color: '#1F1F1F',
+                                        color: 'var(--sys-on-surface)',
                                         lineHeight: '1.45em',
                                       }}>
                                         {`${axisMax / 2}%`}
@@ -1233,7 +1254,7 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
                                         transform: 'translateX(-50%)', 
                                         fontSize: '11px',
                                         fontWeight: 500,
-                                        color: '#1F1F1F',
+                                        color: 'var(--sys-on-surface)',
                                         lineHeight: '1.45em',
                                       }}>
                                         {`${axisMax}%`}
@@ -1259,7 +1280,7 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
             PaperProps={{
               sx: {
                 width: '612px',
-                backgroundColor: '#ffffff',
+                backgroundColor: 'var(--sys-surface)',
                 boxShadow: '-4px 0px 8px rgba(0, 0, 0, 0.1)',
               }
             }}
@@ -1269,14 +1290,33 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
               dataProfileScan={dataProfileScan}
             />
           </Drawer>
+          <Drawer
+            anchor="right"
+            open={isDriftOpen}
+            onClose={() => setIsDriftOpen(false)}
+            PaperProps={{
+              sx: {
+                width: '960px',
+                maxWidth: '100vw',
+                backgroundColor: 'var(--sys-surface)',
+                boxShadow: '-4px 0px 8px rgba(0, 0, 0, 0.1)',
+              }
+            }}
+          >
+            <DataProfileDrift
+              onClose={() => setIsDriftOpen(false)}
+              dataProfileScan={dataProfileScan}
+              scanName={scanName || ''}
+            />
+          </Drawer>
           </Box>
         </Box>
       ) : (
       <Box sx={{
         flex: 1,
-        backgroundColor: '#ffffff',
+        backgroundColor: 'var(--sys-surface)',
         borderRadius: '8px',
-        border: '1px solid #DADCE0',
+        border: '1px solid var(--sys-outline-variant)',
         overflow: 'hidden',
         display: 'flex',
         justifyContent: 'center',
@@ -1286,7 +1326,7 @@ const DataProfile: React.FC<DataProfileProps> = ({ scanName, allScansStatus }) =
         <Typography sx={{
           fontSize: '14px',
           fontWeight: 400,
-          color: '#575757',
+          color: 'var(--sys-on-surface-muted)',
           lineHeight: '1.43em'
         }}>
           No published Data Profile available for this entry
@@ -77,17 +77,17 @@ const DataProfileConfigurationsPanel: React.FC<DataProfileConfigurationsPanelPro
           <Typography sx={{
             fontSize: '18px',
             fontWeight: 500,
-            color: '#1F1F1F',
+            color: 'var(--sys-on-surface)',
             lineHeight: '1.33em'
           }}>
             Configurations
           </Typography>
-          <HelpOutline sx={{ fontSize: '16px', color: '#1F1F1F' }} />
+          <HelpOutline sx={{ fontSize: '16px', color: 'var(--sys-on-surface)' }} />
         </Box>
         <IconButton
           onClick={onClose}
           sx={{
-            color: '#1F1F1F',
+            color: 'var(--sys-on-surface)',
             width: '24px',
             height: '24px',
             '&:hover': {
@@ -119,12 +119,12 @@ const DataProfileConfigurationsPanel: React.FC<DataProfileConfigurationsPanelPro
             gap: '4px',
             padding: '14px 20px 14px 0px',
             flex: 1,
-            borderBottom: '1px solid #DADCE0'
+            borderBottom: '1px solid var(--sys-outline-variant)'
           }}>
             <Typography sx={{
               fontSize: '11px',
               fontWeight: 500,
-              color: '#575757',
+              color: 'var(--sys-on-surface-muted)',
               lineHeight: '1.45em',
               letterSpacing: '0.1px'
             }}>
@@ -133,7 +133,7 @@ const DataProfileConfigurationsPanel: React.FC<DataProfileConfigurationsPanelPro
             <Typography sx={{
               fontSize: '14px',
               fontWeight: 400,
-              color: '#1F1F1F',
+              color: 'var(--sys-on-surface)',
               lineHeight: '1.43em'
             }}>
               Entire data
@@ -146,13 +146,13 @@ const DataProfileConfigurationsPanel: React.FC<DataProfileConfigurationsPanelPro
             gap: '4px',
             padding: '14px 20px 14px 0px',
             flex: 1,
-            borderBottom: '1px solid #DADCE0',
+            borderBottom: '1px solid var(--sys-outline-variant)',
             minWidth: 0
           }}>
             <Typography sx={{
               fontSize: '11px',
               fontWeight: 500,
-              color: '#575757',
+              color: 'var(--sys-on-surface-muted)',
               lineHeight: '1.45em',
               letterSpacing: '0.1px'
             }}>
@@ -161,7 +161,7 @@ const DataProfileConfigurationsPanel: React.FC<DataProfileConfigurationsPanelPro
             <Typography sx={{
               fontSize: '14px',
               fontWeight: 400,
-              color: '#1F1F1F',
+              color: 'var(--sys-on-surface)',
               lineHeight: '1.43em',
               whiteSpace: 'nowrap',
               overflow: 'hidden',
@@ -188,12 +188,12 @@ const DataProfileConfigurationsPanel: React.FC<DataProfileConfigurationsPanelPro
             gap: '4px',
             padding: '14px 20px 14px 0px',
             flex: 1,
-            borderBottom: '1px solid #DADCE0'
+            borderBottom: '1px solid var(--sys-outline-variant)'
           }}>
             <Typography sx={{
               fontSize: '11px',
               fontWeight: 500,
-              color: '#575757',
+              color: 'var(--sys-on-surface-muted)',
               lineHeight: '1.45em',
               letterSpacing: '0.1px'
             }}>
@@ -202,7 +202,7 @@ const DataProfileConfigurationsPanel: React.FC<DataProfileConfigurationsPanelPro
             <Typography sx={{
               fontSize: '14px',
               fontWeight: 400,
-              color: '#1F1F1F',
+              color: 'var(--sys-on-surface)',
               lineHeight: '1.43em'
             }}>
               -
@@ -215,12 +215,12 @@ const DataProfileConfigurationsPanel: React.FC<DataProfileConfigurationsPanelPro
             gap: '4px',
             padding: '14px 20px 14px 0px',
             flex: 1,
-            borderBottom: '1px solid #DADCE0'
+            borderBottom: '1px solid var(--sys-outline-variant)'
           }}>
             <Typography sx={{
               fontSize: '11px',
               fontWeight: 500,
-              color: '#575757',
+              color: 'var(--sys-on-surface-muted)',
               lineHeight: '1.45em',
               letterSpacing: '0.1px'
             }}>
@@ -229,7 +229,7 @@ const DataProfileConfigurationsPanel: React.FC<DataProfileConfigurationsPanelPro
             <Typography sx={{
               fontSize: '14px',
               fontWeight: 400,
-              color: '#1F1F1F',
+              color: 'var(--sys-on-surface)',
               lineHeight: '1.43em'
             }}>
               { dataProfileScan.scan?.dataProfileSpec?.samplingPercent ? (dataProfileScan.scan?.dataProfileSpec?.samplingPercent)+'%' : '--'}
@@ -252,12 +252,12 @@ const DataProfileConfigurationsPanel: React.FC<DataProfileConfigurationsPanelPro
             gap: '4px',
             padding: '14px 20px 14px 0px',
             flex: 1,
-            borderBottom: '1px solid #DADCE0'
+            borderBottom: '1px solid var(--sys-outline-variant)'
           }}>
             <Typography sx={{
               fontSize: '11px',
               fontWeight: 500,
-              color: '#575757',
+              color: 'var(--sys-on-surface-muted)',
               lineHeight: '1.45em',
               letterSpacing: '0.1px'
             }}>
@@ -266,7 +266,7 @@ const DataProfileConfigurationsPanel: React.FC<DataProfileConfigurationsPanelPro
             <Typography sx={{
               fontSize: '14px',
               fontWeight: 400,
-              color: '#1F1F1F',
+              color: 'var(--sys-on-surface)',
               lineHeight: '1.43em'
             }}>
               -
@@ -279,13 +279,13 @@ const DataProfileConfigurationsPanel: React.FC<DataProfileConfigurationsPanelPro
             gap: '4px',
             padding: '14px 20px 14px 0px',
             flex: 1,
-            borderBottom: '1px solid #DADCE0',
+            borderBottom: '1px solid var(--sys-outline-variant)',
             minWidth: 0
           }}>
             <Typography sx={{
               fontSize: '11px',
               fontWeight: 500,
-              color: '#575757',
+              color: 'var(--sys-on-surface-muted)',
               lineHeight: '1.45em',
               letterSpacing: '0.1px'
             }}>
@@ -294,7 +294,7 @@ const DataProfileConfigurationsPanel: React.FC<DataProfileConfigurationsPanelPro
             <Typography sx={{
               fontSize: '14px',
               fontWeight: 400,
-              color: '#1F1F1F',
+              color: 'var(--sys-on-surface)',
               lineHeight: '1.43em',
               whiteSpace: 'nowrap',
               overflow: 'hidden',
@@ -321,12 +321,12 @@ const DataProfileConfigurationsPanel: React.FC<DataProfileConfigurationsPanelPro
             gap: '4px',
             padding: '14px 20px 14px 0px',
             flex: 1,
-            borderBottom: '1px solid #DADCE0'
+            borderBottom: '1px solid var(--sys-outline-variant)'
           }}>
             <Typography sx={{
               fontSize: '11px',
               fontWeight: 500,
-              color: '#575757',
+              color: 'var(--sys-on-surface-muted)',
               lineHeight: '1.45em',
               letterSpacing: '0.1px'
             }}>
@@ -335,7 +335,7 @@ const DataProfileConfigurationsPanel: React.FC<DataProfileConfigurationsPanelPro
             <Typography sx={{
               fontSize: '14px',
               fontWeight: 400,
-              color: '#1F1F1F',
+              color: 'var(--sys-on-surface)',
               lineHeight: '1.43em'
             }}>
               -
@@ -348,12 +348,12 @@ const DataProfileConfigurationsPanel: React.FC<DataProfileConfigurationsPanelPro
             gap: '4px',
             padding: '14px 20px 14px 0px',
             flex: 1,
-            borderBottom: '1px solid #DADCE0'
+            borderBottom: '1px solid var(--sys-outline-variant)'
           }}>
             <Typography sx={{
               fontSize: '11px',
               fontWeight: 500,
-              color: '#575757',
+              color: 'var(--sys-on-surface-muted)',
               lineHeight: '1.45em',
               letterSpacing: '0.1px'
             }}>
@@ -367,7 +367,7 @@ const DataProfileConfigurationsPanel: React.FC<DataProfileConfigurationsPanelPro
               <Box sx={{
                 width: '14px',
                 height: '14px',
-                backgroundColor: '#128937',
+                backgroundColor: 'var(--sys-success)',
                 borderRadius: '32px',
                 display: 'flex',
                 alignItems: 'center',
@@ -381,7 +381,7 @@ const DataProfileConfigurationsPanel: React.FC<DataProfileConfigurationsPanelPro
               <Typography sx={{
                 fontSize: '14px',
                 fontWeight: 400,
-                color: '#0E4DCA',
+                color: 'var(--sys-brand)',
                 lineHeight: '1.43em',
                 // textDecoration: 'underline'
               }}>
@@ -406,7 +406,7 @@ const DataProfileConfigurationsPanel: React.FC<DataProfileConfigurationsPanelPro
             gap: '4px',
             padding: '14px 20px 14px 0px',
             flex: 1,
-            borderBottom: '1px solid #DADCE0'
+            borderBottom: '1px solid var(--sys-outline-variant)'
           }}></Box>
           <Box sx={{
             display: 'flex',
@@ -415,12 +415,12 @@ const DataProfileConfigurationsPanel: React.FC<DataProfileConfigurationsPanelPro
             gap: '4px',
             padding: '14px 20px 14px 0px',
             flex: 1,
-            borderBottom: '1px solid #DADCE0'
+            borderBottom: '1px solid var(--sys-outline-variant)'
           }}>
             <Typography sx={{
               fontSize: '11px',
               fontWeight: 500,
-              color: '#575757',
+              color: 'var(--sys-on-surface-muted)',
               lineHeight: '1.45em',
               letterSpacing: '0.1px'
             }}>
@@ -429,7 +429,7 @@ const DataProfileConfigurationsPanel: React.FC<DataProfileConfigurationsPanelPro
             <Typography sx={{
               fontSize: '14px',
               fontWeight: 400,
-              color: '#1F1F1F',
+              color: 'var(--sys-on-surface)',
               lineHeight: '1.43em'
             }}>
               {updateDate}
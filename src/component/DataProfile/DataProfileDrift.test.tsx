@@ -0,0 +1,128 @@
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import DataProfileDrift from './DataProfileDrift';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import '@testing-library/jest-dom';
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import { fetchDataScan } from '../../features/dataScan/dataScanSlice';
+
+vi.mock('../../auth/AuthProvider', () => ({
+  useAuth: () => ({ user: { token: 'test-token' } })
+}));
+
+// Selectors read a flat store: { allScans, scans: { [name]: data }, loading: [names] }
+vi.mock('../../features/dataScan/dataScanSlice', () => ({
+  fetchDataScan: vi.fn((args: any) => ({ type: 'dataScan/fetchDataScan', payload: args })),
+  selectAllScans: (state: any) => state.dataScan.allScans,
+  selectScanData: (name: string) => (state: any) => state.dataScan.scans[name],
+  selectIsScanLoading: (name: string) => (state: any) => state.dataScan.loading.includes(name)
+}));
+
+vi.mock('@mui/icons-material', () => ({
+  Close: () => <div data-testid="CloseIcon">Close</div>,
+  HelpOutline: () => <div data-testid="HelpOutlineIcon">Help</div>,
+}));
+
+const profile = (nullRatio: number, average: number, topNValues: any[]) => ({
+  profile: {
+    fields: [
+      { name: 'amount', type: 'INT64', profile: { nullRatio, distinctRatio: 0.5, integerProfile: { average, standardDeviation: 10, quartiles: ['1', '2', '3'] } } },
+      { name: 'country', type: 'STRING', profile: { nullRatio: 0, distinctRatio: 0.01, topNValues } },
+    ],
+  },
+});
+
+const countries = [{ value: 'FR', ratio: 0.6 }, { value: 'DE', ratio: 0.4 }];
+
+const scanName = 'projects/p/locations/l/dataScans/orders-profile';
+const dataProfileScan = {
+  scan: { name: scanName },
+  jobs: [
+    { name: 'jobs/2', endTime: '2024-02-01T00:00:00Z', dataProfileResult: profile(0.3, 105, countries) },
+    { name: 'jobs/1', endTime: '2024-01-01T00:00:00Z', dataProfileResult: profile(0.01, 100, countries) },
+  ],
+};
+
+const otherScanName = 'projects/p/locations/l/dataScans/archive-profile';
+const allScans = [
+  { name: scanName, type: 'DATA_PROFILE', data: { resource: '//bigquery.googleapis.com/projects/p/datasets/sales/tables/orders' } },
+  { name: otherScanName, type: 'DATA_PROFILE', data: { resource: '//bigquery.googleapis.com/projects/p/datasets/sales/tables/orders_archive' } },
+  { name: 'projects/p/locations/l/dataScans/orders-quality', type: 'DATA_QUALITY', data: { resource: '//bigquery.googleapis.com/projects/p/datasets/sales/tables/orders' } },
+];
+
+const renderDrift = (scans: Record<string, any> = {}, loading: string[] = []) => {
+  const store = configureStore({
+    reducer: { dataScan: (state = { allScans, scans, loading }) => state }
+  });
+  return render(
+    <Provider store={store}>
+      <DataProfileDrift onClose={vi.fn()} dataProfileScan={dataProfileScan} scanName={scanName} />
+    </Provider>
+  );
+};
+
+const rowOf = (column: string) => screen.getByText(column).closest('tr') as HTMLElement;
+
+describe('DataProfileDrift', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('compares the previous run with the latest one', () => {
+    renderDrift();
+
+    expect(screen.getByRole('status')).toHaveTextContent('1 of 2 columns drifted');
+    const amount = rowOf('amount');
+    expect(amount).toHaveAttribute('data-drifted', 'true');
+    expect(within(amount).getByText('+29 pts')).toBeInTheDocument();
+    expect(within(amount).getByText('+29 pts').closest('td')).toHaveAttribute('data-drifted', 'true');
+    // The mean moved by 5%, under the default 10%
+    expect(within(amount).getByText('+5%').closest('td')).not.toHaveAttribute('data-drifted');
+    expect(rowOf('country')).not.toHaveAttribute('data-drifted');
+  });
+
+  it('applies the threshold and hides the columns that did not drift', () => {
+    renderDrift();
+
+    fireEvent.click(screen.getByLabelText('Only drifted columns'));
+    fireEvent.change(screen.getByLabelText('Drift threshold'), { target: { value: '50' } });
+    expect(screen.getByRole('status')).toHaveTextContent('0 of 2 columns drifted');
+    expect(screen.getByText('No column drifted above the threshold.')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Drift threshold'), { target: { value: '1' } });
+    expect(screen.getByRole('status')).toHaveTextContent('1 of 2 columns drifted');
+    expect(screen.getByText('amount')).toBeInTheDocument();
+    expect(screen.queryByText('country')).not.toBeInTheDocument();
+  });
+
+  it('fetches and compares the profile of another table', () => {
+    const { unmount } = renderDrift();
+
+    fireEvent.mouseDown(screen.getByLabelText('Compare with'));
+    const options = screen.getAllByRole('option').map((option) => option.textContent);
+    expect(options).toEqual(['This table', 'sales.orders_archive']);
+    fireEvent.click(screen.getByRole('option', { name: 'sales.orders_archive' }));
+
+    expect(fetchDataScan).toHaveBeenCalledWith({ name: otherScanName, id_token: 'test-token' });
+    unmount();
+
+    renderDrift({
+      [otherScanName]: {
+        jobs: [{
+          name: 'jobs/archive',
+          endTime: '2024-01-15T00:00:00Z',
+          dataProfileResult: { profile: { fields: [{ name: 'amount', type: 'INT64', profile: { nullRatio: 0.3, distinctRatio: 0.5 } }, { name: 'region', profile: {} }] } },
+        }],
+      },
+    });
+    fireEvent.mouseDown(screen.getByLabelText('Compare with'));
+    fireEvent.click(screen.getByRole('option', { name: 'sales.orders_archive' }));
+
+    expect(fetchDataScan).toHaveBeenCalledTimes(1);
+    // The baseline is now the latest run of this table
+    const status = screen.getByRole('status');
+    expect(status).toHaveTextContent('0 of 1 columns drifted');
+    expect(status).toHaveTextContent('Only in the baseline: country');
+    expect(status).toHaveTextContent('Only in the comparison: region');
+  });
+});
@@ -0,0 +1,357 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  FormControl,
+  FormControlLabel,
+  IconButton,
+  InputAdornment,
+  InputLabel,
+  MenuItem,
+  Select,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  Close,
+  HelpOutline,
+} from '@mui/icons-material';
+import { useDispatch, useSelector } from 'react-redux';
+import type { AppDispatch } from '../../app/store';
+import { useAuth } from '../../auth/AuthProvider';
+import { fetchDataScan, selectAllScans, selectIsScanLoading, selectScanData } from '../../features/dataScan/dataScanSlice';
+import { getFormattedDateTimeParts } from '../../utils/resourceUtils';
+import {
+  compareProfiles,
+  DEFAULT_PROFILE_DRIFT_THRESHOLD,
+  getProfileSnapshots,
+  PROFILE_DRIFT_METRICS,
+  type ProfileDriftMetric,
+  type ProfileMetricDrift,
+  type ProfileSnapshot,
+  type ProfileTopValue,
+} from '../../utils/profileDrift';
+
+/**
+ * @file DataProfileDrift.tsx
+ * @summary Renders a side panel comparing two Data Profile results column by column.
+ *
+ * @description
+ * Opened from the "Compare" button of `DataProfile`. The baseline is one of
+ * the runs of the current scan; the comparison is another run of the same
+ * scan or a run of the profile scan of another table, in which case that
+ * scan is fetched through `fetchDataScan`.
+ *
+ * For every column found in both profiles it shows the null and distinct
+ * percentages, mean, standard deviation, quartiles and top values of both
+ * sides, and highlights the values that drifted more than the threshold
+ * (`utils/profileDrift`). "Only drifted columns" hides the others.
+ *
+ * @param {object} props - The props for the DataProfileDrift component.
+ * @param {() => void} props.onClose - Called when the "Close" icon is clicked.
+ * @param {any} props.dataProfileScan - The full data profile scan object, with
+ * its `jobs` array.
+ * @param {string} props.scanName - The full name of that scan.
+ *
+ * @returns {JSX.Element} A React component rendering the drift panel.
+ */
+
+interface DataProfileDriftProps {
+  onClose: () => void;
+  dataProfileScan: any;
+  scanName: string;
+}
+
+const THIS_TABLE = '';
+
+const formatSnapshot = (snapshot: ProfileSnapshot) => {
+  if (snapshot.time === null) return 'Latest run';
+  const { date, time } = getFormattedDateTimeParts(snapshot.time / 1000);
+  return `${date}, ${time}`;
+};
+
+// `//bigquery.googleapis.com/projects/p/datasets/d/tables/t` reads as `d.t`
+const formatResource = (resource: string = '') => {
+  const parts = resource.split('/');
+  return parts.length >= 4 ? `${parts[parts.length - 3]}.${parts[parts.length - 1]}` : resource;
+};
+
+const formatNumber = (value: number) => (Math.abs(value) >= 1000 ? Math.round(value).toLocaleString('en-US') : String(Math.round(value * 100) / 100));
+
+const formatPercent = (value: number) => `${Math.round(value * 1000) / 10}%`;
+
+const formatValue = (metric: ProfileDriftMetric, value: ProfileMetricDrift['from']) => {
+  if (value === null) return '-';
+  if (metric === 'nullRatio' || metric === 'distinctRatio') return formatPercent(value as number);
+  if (metric === 'quartiles') return (value as number[]).map(formatNumber).join(' / ');
+  if (metric === 'topValues') {
+    const values = value as ProfileTopValue[];
+    if (values.length === 0) return '-';
+    return values.slice(0, 3).map((item) => `${item.value} ${formatPercent(item.ratio)}`).join(', ') + (values.length > 3 ? ', …' : '');
+  }
+  return formatNumber(value as number);
+};
+
+const formatChange = (metric: ProfileDriftMetric, drift: ProfileMetricDrift) => {
+  if (drift.change === null) return '';
+  if (metric === 'nullRatio' || metric === 'distinctRatio') {
+    const points = ((drift.to as number) - (drift.from as number)) * 100;
+    return `${points >= 0 ? '+' : ''}${Math.round(points * 10) / 10} pts`;
+  }
+  if (metric === 'topValues') return `${formatPercent(drift.change)} apart`;
+  if (metric === 'mean' || metric === 'stddev') {
+    const sign = (drift.to as number) >= (drift.from as number) ? '+' : '-';
+    return `${sign}${formatPercent(drift.change)}`;
+  }
+  return `up to ${formatPercent(drift.change)}`;
+};
+
+const labelSx = { fontSize: '12px', color: 'var(--sys-on-surface-muted)' };
+const cellSx = { fontSize: '12px', color: 'var(--sys-on-surface)', padding: '8px', verticalAlign: 'top' };
+
+const DataProfileDrift: React.FC<DataProfileDriftProps> = ({ onClose, dataProfileScan, scanName }) => {
+  const { user } = useAuth();
+  const id_token = user?.token || '';
+  const dispatch = useDispatch<AppDispatch>();
+  const allScans = useSelector(selectAllScans);
+
+  const [comparisonScanName, setComparisonScanName] = useState(THIS_TABLE);
+  const [baselineId, setBaselineId] = useState('');
+  const [comparisonId, setComparisonId] = useState('');
+  const [thresholdPercent, setThresholdPercent] = useState(String(DEFAULT_PROFILE_DRIFT_THRESHOLD * 100));
+  const [onlyDrifted, setOnlyDrifted] = useState(false);
+
+  const otherScan = useSelector(selectScanData(comparisonScanName));
+  const isOtherScanLoading = useSelector(selectIsScanLoading(comparisonScanName));
+
+  const otherProfileScans = useMemo(
+    () => (allScans ?? []).filter((scan: any) => scan.type === 'DATA_PROFILE' && scan.name !== scanName),
+    [allScans, scanName]
+  );
+
+  useEffect(() => {
+    if (comparisonScanName && id_token && !otherScan && !isOtherScanLoading) {
+      dispatch(fetchDataScan({ name: comparisonScanName, id_token: id_token }));
+    }
+  }, [comparisonScanName, id_token, otherScan, isOtherScanLoading, dispatch]);
+
+  const baselineSnapshots = useMemo(() => getProfileSnapshots(dataProfileScan), [dataProfileScan]);
+  const comparisonSnapshots = useMemo(
+    () => (comparisonScanName ? getProfileSnapshots(otherScan) : baselineSnapshots),
+    [comparisonScanName, otherScan, baselineSnapshots]
+  );
+
+  // Compare the previous run with the latest one until the user picks others
+  const baseline = baselineSnapshots.find((snapshot) => snapshot.id === baselineId)
+    ?? (comparisonScanName ? baselineSnapshots[0] : baselineSnapshots[1] ?? baselineSnapshots[0]);
+  const comparison = comparisonSnapshots.find((snapshot) => snapshot.id === comparisonId) ?? comparisonSnapshots[0];
+
+  const threshold = Number(thresholdPercent) >= 0 && thresholdPercent !== '' ? Number(thresholdPercent) / 100 : DEFAULT_PROFILE_DRIFT_THRESHOLD;
+  const drift = useMemo(
+    () => (baseline && comparison ? compareProfiles(baseline.columns, comparison.columns, threshold) : null),
+    [baseline, comparison, threshold]
+  );
+  const driftedCount = drift ? drift.columns.filter((column) => column.drifted).length : 0;
+  const shownColumns = drift ? drift.columns.filter((column) => !onlyDrifted || column.drifted) : [];
+
+  const changeComparisonScan = (name: string) => {
+    setComparisonScanName(name);
+    setComparisonId('');
+  };
+
+  return (
+    <Box
+      sx={{
+        display: 'flex',
+        flexDirection: 'column',
+        padding: '20px',
+        gap: '16px',
+        height: '100%',
+        boxSizing: 'border-box'
+      }}
+    >
+      {/* Header */}
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+          <Typography sx={{
+            fontSize: '18px',
+            fontWeight: 500,
+            color: 'var(--sys-on-surface)',
+            lineHeight: '1.33em'
+          }}>
+            Compare Profiles
+          </Typography>
+          <Tooltip title="Null and distinct percentages compare in points; mean, standard deviation and quartiles by their change from the baseline; top values by how far apart their distributions are" arrow>
+            <HelpOutline sx={{ fontSize: '16px', color: 'var(--sys-on-surface)' }} />
+          </Tooltip>
+        </Box>
+        <IconButton
+          aria-label="Close"
+          onClick={onClose}
+          sx={{
+            color: 'var(--sys-on-surface)',
+            width: '24px',
+            height: '24px',
+            '&:hover': {
+              backgroundColor: 'rgba(0, 0, 0, 0.04)'
+            }
+          }}
+        >
+          <Close sx={{ fontSize: '24px' }} />
+        </IconButton>
+      </Box>
+
+      {/* Selection */}
+      <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px' }}>
+        <FormControl size="small">
+          <InputLabel id="profile-drift-baseline">Baseline run</InputLabel>
+          <Select
+            labelId="profile-drift-baseline"
+            label="Baseline run"
+            value={baseline?.id ?? ''}
+            onChange={(e) => setBaselineId(e.target.value)}
+            sx={{ fontSize: '12px' }}
+          >
+            {baselineSnapshots.map((snapshot) => (
+              <MenuItem key={snapshot.id} value={snapshot.id} sx={{ fontSize: '12px' }}>{formatSnapshot(snapshot)}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <FormControl size="small">
+          <InputLabel id="profile-drift-table">Compare with</InputLabel>
+          <Select
+            labelId="profile-drift-table"
+            label="Compare with"
+            value={comparisonScanName}
+            onChange={(e) => changeComparisonScan(e.target.value)}
+            sx={{ fontSize: '12px' }}
+          >
+            <MenuItem value={THIS_TABLE} sx={{ fontSize: '12px' }}>This table</MenuItem>
+            {otherProfileScans.map((scan: any) => (
+              <MenuItem key={scan.name} value={scan.name} sx={{ fontSize: '12px' }}>
+                {formatResource(scan.data?.resource) || scan.name.split('/').pop()}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <FormControl size="small" disabled={comparisonSnapshots.length === 0}>
+          <InputLabel id="profile-drift-comparison">Comparison run</InputLabel>
+          <Select
+            labelId="profile-drift-comparison"
+            label="Comparison run"
+            value={comparison?.id ?? ''}
+            onChange={(e) => setComparisonId(e.target.value)}
+            sx={{ fontSize: '12px' }}
+          >
+            {comparisonSnapshots.map((snapshot) => (
+              <MenuItem key={snapshot.id} value={snapshot.id} sx={{ fontSize: '12px' }}>{formatSnapshot(snapshot)}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <TextField
+          size="small"
+          type="number"
+          label="Drift threshold"
+          value={thresholdPercent}
+          onChange={(e) => setThresholdPercent(e.target.value)}
+          slotProps={{
+            htmlInput: { min: 0, step: 1 },
+            input: { endAdornment: <InputAdornment position="end">%</InputAdornment>, sx: { fontSize: '12px' } }
+          }}
+        />
+      </Box>
+
+      {/* Summary */}
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <Box role="status">
+          {comparisonScanName && isOtherScanLoading ? (
+            <Typography sx={labelSx}>Loading the other profile…</Typography>
+          ) : !drift ? (
+            <Typography sx={labelSx}>There is no profile result to compare with.</Typography>
+          ) : (
+            <>
+              <Typography sx={{ fontSize: '14px', color: 'var(--sys-on-surface)' }}>
+                {`${driftedCount} of ${drift.columns.length} columns drifted`}
+              </Typography>
+              {drift.onlyInBaseline.length > 0 && (
+                <Typography sx={labelSx}>{`Only in the baseline: ${drift.onlyInBaseline.join(', ')}`}</Typography>
+              )}
+              {drift.onlyInComparison.length > 0 && (
+                <Typography sx={labelSx}>{`Only in the comparison: ${drift.onlyInComparison.join(', ')}`}</Typography>
+              )}
+            </>
+          )}
+        </Box>
+        <FormControlLabel
+          control={<Switch size="small" checked={onlyDrifted} onChange={(e) => setOnlyDrifted(e.target.checked)} />}
+          label="Only drifted columns"
+          slotProps={{ typography: { sx: { fontSize: '12px' } } }}
+          sx={{ marginRight: 0, flexShrink: 0 }}
+        />
+      </Box>
+
+      {/* Columns */}
+      {drift && (
+        <TableContainer sx={{ flex: 1, overflow: 'auto', border: '1px solid var(--sys-outline-variant)', borderRadius: '8px' }}>
+          <Table stickyHeader size="small" aria-label="Profile drift">
+            <TableHead>
+              <TableRow>
+                <TableCell sx={{ ...cellSx, fontWeight: 500, backgroundColor: 'var(--sys-surface-container)' }}>Column</TableCell>
+                {PROFILE_DRIFT_METRICS.map(({ metric, label }) => (
+                  <TableCell key={metric} sx={{ ...cellSx, fontWeight: 500, backgroundColor: 'var(--sys-surface-container)' }}>{label}</TableCell>
+                ))}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {shownColumns.map((column) => (
+                <TableRow key={column.name} data-drifted={column.drifted || undefined}>
+                  <TableCell sx={cellSx}>
+                    <Typography sx={{ fontSize: '12px', fontWeight: column.drifted ? 500 : 400 }}>{column.name}</Typography>
+                    <Typography sx={{ fontSize: '11px', color: 'var(--sys-on-surface-muted)' }}>{column.type}</Typography>
+                  </TableCell>
+                  {PROFILE_DRIFT_METRICS.map(({ metric }) => {
+                    const metricDrift = column.metrics[metric];
+                    return (
+                      <TableCell
+                        key={metric}
+                        data-drifted={metricDrift.drifted || undefined}
+                        sx={{
+                          ...cellSx,
+                          backgroundColor: metricDrift.drifted ? '#FCE8E6' : undefined
+                        }}
+                      >
+                        <Box>{formatValue(metric, metricDrift.from)}</Box>
+                        <Box>{`→ ${formatValue(metric, metricDrift.to)}`}</Box>
+                        {metricDrift.change !== null && metricDrift.change > 0 && (
+                          <Box sx={{ fontSize: '11px', color: metricDrift.drifted ? 'var(--sys-error)' : 'var(--sys-on-surface-muted)' }}>
+                            {formatChange(metric, metricDrift)}
+                          </Box>
+                        )}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              ))}
+              {shownColumns.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={PROFILE_DRIFT_METRICS.length + 1} sx={{ ...cellSx, color: 'var(--sys-on-surface-muted)', textAlign: 'center' }}>
+                    {drift.columns.length === 0 ? 'The two profiles have no column in common.' : 'No column drifted above the threshold.'}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Box>
+  );
+};
+
+export default DataProfileDrift;
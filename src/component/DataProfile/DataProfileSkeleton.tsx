@@ -11,9 +11,9 @@ const DataProfileSkeleton: React.FC = () => {
       }}
     >
       <Box sx={{
-        backgroundColor: '#ffffff',
+        backgroundColor: 'var(--sys-surface)',
         borderRadius: '8px',
-        border: '1px solid #DADCE0',
+        border: '1px solid var(--sys-outline-variant)',
         overflow: 'hidden',
       }}>
         {/* Header */}
@@ -22,7 +22,7 @@ const DataProfileSkeleton: React.FC = () => {
           justifyContent: 'space-between',
           alignItems: 'center',
           padding: '16px',
-          backgroundColor: '#F8FAFD',
+          backgroundColor: 'var(--sys-background)',
         }}>
           <Box sx={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
             <Skeleton variant="text" width={120} height={28} />
@@ -42,11 +42,11 @@ const DataProfileSkeleton: React.FC = () => {
             alignItems: 'center',
             gap: '8px',
             padding: '8px 16px',
-            border: '1px solid #DADCE0',
+            border: '1px solid var(--sys-outline-variant)',
             borderBottom: 'none',
             borderTopRightRadius: '8px',
             borderTopLeftRadius: '8px',
-            backgroundColor: '#FFFFFF',
+            backgroundColor: 'var(--sys-surface)',
           }}>
             <Skeleton variant="circular" width={16} height={16} />
             <Skeleton variant="text" width={40} height={20} />
@@ -55,7 +55,7 @@ const DataProfileSkeleton: React.FC = () => {
 
           {/* Table */}
           <Box sx={{
-            border: '1px solid #DADCE0',
+            border: '1px solid var(--sys-outline-variant)',
             borderBottomRightRadius: '8px',
             borderBottomLeftRadius: '8px',
             overflow: 'hidden',
@@ -64,8 +64,8 @@ const DataProfileSkeleton: React.FC = () => {
             {/* Table Header */}
             <Box sx={{
               display: 'flex',
-              backgroundColor: '#F0F4F8',
-              borderBottom: '1px solid #DADCE0',
+              backgroundColor: 'var(--sys-surface-container)',
+              borderBottom: '1px solid var(--sys-outline-variant)',
               padding: '8px 16px',
             }}>
               <Box sx={{ width: '14%', minWidth: '100px', px: 1 }}><Skeleton variant="text" width="80%" height={20} /></Box>
@@ -83,7 +83,7 @@ const DataProfileSkeleton: React.FC = () => {
                 sx={{
                   display: 'flex',
                   padding: '7px 16px',
-                  borderBottom: row < 3 ? '1px solid #DADCE0' : 'none',
+                  borderBottom: row < 3 ? '1px solid var(--sys-outline-variant)' : 'none',
                   minHeight: '120px',
                 }}
               >
@@ -86,17 +86,17 @@ const ConfigurationsPanel: React.FC<ConfigurationsPanelProps> = ({ onClose, data
           sx={{
             fontSize: '1.125rem',
             fontWeight: 500,
-            color: '#1F1F1F',
+            color: 'var(--sys-on-surface)',
             lineHeight: '1.33em'
           }}>
             Configurations
           </Typography>
-          <HelpOutline sx={{ fontSize: '16px', color: '#1F1F1F' }} />
+          <HelpOutline sx={{ fontSize: '16px', color: 'var(--sys-on-surface)' }} />
         </Box>
         <IconButton
           onClick={onClose}
           sx={{
-            color: '#1F1F1F',
+            color: 'var(--sys-on-surface)',
             width: '24px',
             height: '24px',
             '&:hover': {
@@ -128,12 +128,12 @@ const ConfigurationsPanel: React.FC<ConfigurationsPanelProps> = ({ onClose, data
             gap: '4px',
             padding: '14px 20px 14px 0px',
             flex: 1,
-            borderBottom: '1px solid #DADCE0'
+            borderBottom: '1px solid var(--sys-outline-variant)'
           }}>
             <Typography sx={{
               fontSize: '0.6875rem',
               fontWeight: 500,
-              color: '#575757',
+              color: 'var(--sys-on-surface-muted)',
               lineHeight: '1.45em',
               letterSpacing: '0.1px'
             }}>
@@ -142,7 +142,7 @@ const ConfigurationsPanel: React.FC<ConfigurationsPanelProps> = ({ onClose, data
             <Typography sx={{
               fontSize: '0.875rem',
               fontWeight: 400,
-              color: '#1F1F1F',
+              color: 'var(--sys-on-surface)',
               lineHeight: '1.43em'
             }}>
               Entire data
@@ -155,13 +155,13 @@ const ConfigurationsPanel: React.FC<ConfigurationsPanelProps> = ({ onClose, data
             gap: '4px',
             padding: '14px 20px 14px 0px',
             flex: 1,
-            borderBottom: '1px solid #DADCE0',
+            borderBottom: '1px solid var(--sys-outline-variant)',
             minWidth: 0
           }}>
             <Typography sx={{
               fontSize: '11px',
               fontWeight: 500,
-              color: '#575757',
+              color: 'var(--sys-on-surface-muted)',
               lineHeight: '1.45em',
               letterSpacing: '0.1px'
             }}>
@@ -170,7 +170,7 @@ const ConfigurationsPanel: React.FC<ConfigurationsPanelProps> = ({ onClose, data
             <Typography sx={{
               fontSize: '0.875rem',
               fontWeight: 400,
-              color: '#1F1F1F',
+              color: 'var(--sys-on-surface)',
               lineHeight: '1.43em',
               whiteSpace: 'nowrap',
               overflow: 'hidden',
@@ -197,12 +197,12 @@ const ConfigurationsPanel: React.FC<ConfigurationsPanelProps> = ({ onClose, data
             gap: '4px',
             padding: '14px 20px 14px 0px',
             flex: 1,
-            borderBottom: '1px solid #DADCE0'
+            borderBottom: '1px solid var(--sys-outline-variant)'
           }}>
             <Typography sx={{
               fontSize: '11px',
               fontWeight: 500,
-              color: '#575757',
+              color: 'var(--sys-on-surface-muted)',
               lineHeight: '1.45em',
               letterSpacing: '0.1px'
             }}>
@@ -211,7 +211,7 @@ const ConfigurationsPanel: React.FC<ConfigurationsPanelProps> = ({ onClose, data
             <Typography sx={{
               fontSize: '0.875rem',
               fontWeight: 400,
-              color: '#1F1F1F',
+              color: 'var(--sys-on-surface)',
               lineHeight: '1.43em'
             }}>
               -
@@ -224,12 +224,12 @@ const ConfigurationsPanel: React.FC<ConfigurationsPanelProps> = ({ onClose, data
             gap: '4px',
             padding: '14px 20px 14px 0px',
             flex: 1,
-            borderBottom: '1px solid #DADCE0'
+            borderBottom: '1px solid var(--sys-outline-variant)'
           }}>
             <Typography sx={{
               fontSize: '11px',
               fontWeight: 500,
-              color: '#575757',
+              color: 'var(--sys-on-surface-muted)',
               lineHeight: '1.45em',
               letterSpacing: '0.1px'
             }}>
@@ -238,7 +238,7 @@ const ConfigurationsPanel: React.FC<ConfigurationsPanelProps> = ({ onClose, data
             <Typography sx={{
               fontSize: '0.875rem',
               fontWeight: 400,
-              color: '#1F1F1F',
+              color: 'var(--sys-on-surface)',
               lineHeight: '1.43em'
             }}>
               { dataQualtyScan.scan?.dataQualitySpec?.samplingPercent ? (dataQualtyScan.scan?.dataQualitySpec?.samplingPercent)+'%' : '--'}
@@ -261,12 +261,12 @@ const ConfigurationsPanel: React.FC<ConfigurationsPanelProps> = ({ onClose, data
             gap: '4px',
             padding: '14px 20px 14px 0px',
             flex: 1,
-            borderBottom: '1px solid #DADCE0'
+            borderBottom: '1px solid var(--sys-outline-variant)'
           }}>
             <Typography sx={{
               fontSize: '11px',
               fontWeight: 500,
-              color: '#575757',
+              color: 'var(--sys-on-surface-muted)',
               lineHeight: '1.45em',
               letterSpacing: '0.1px'
             }}>
@@ -275,7 +275,7 @@ const ConfigurationsPanel: React.FC<ConfigurationsPanelProps> = ({ onClose, data
             <Typography sx={{
               fontSize: '0.875rem',
               fontWeight: 400,
-              color: '#1F1F1F',
+              color: 'var(--sys-on-surface)',
               lineHeight: '1.43em'
             }}>
               -
@@ -288,13 +288,13 @@ const ConfigurationsPanel: React.FC<ConfigurationsPanelProps> = ({ onClose, data
             gap: '4px',
             padding: '14px 20px 14px 0px',
             flex: 1,
-            borderBottom: '1px solid #DADCE0',
+            borderBottom: '1px solid var(--sys-outline-variant)',
             minWidth: 0
           }}>
             <Typography sx={{
               fontSize: '11px',
               fontWeight: 500,
-              color: '#575757',
+              color: 'var(--sys-on-surface-muted)',
               lineHeight: '1.45em',
               letterSpacing: '0.1px'
             }}>
@@ -304,7 +304,7 @@ const ConfigurationsPanel: React.FC<ConfigurationsPanelProps> = ({ onClose, data
               <Typography sx={{
                 fontSize: '0.875rem',
                 fontWeight: 400,
-                color: '#0E4DCA',
+                color: 'var(--sys-brand)',
                 lineHeight: '1.43em',
                 cursor: 'pointer',
                 textDecoration: 'underline',
@@ -322,7 +322,7 @@ const ConfigurationsPanel: React.FC<ConfigurationsPanelProps> = ({ onClose, data
               <Typography sx={{
               fontSize: '0.875rem',
               fontWeight: 400,
-              color: '#1F1F1F',
+              color: 'var(--sys-on-surface)',
               lineHeight: '1.43em'
             }}>
               -
@@ -346,12 +346,12 @@ const ConfigurationsPanel: React.FC<ConfigurationsPanelProps> = ({ onClose, data
             gap: '4px',
             padding: '14px 20px 14px 0px',
             flex: 1,
-            borderBottom: '1px solid #DADCE0'
+            borderBottom: '1px solid var(--sys-outline-variant)'
           }}>
             <Typography sx={{
               fontSize: '11px',
               fontWeight: 500,
-              color: '#575757',
+              color: 'var(--sys-on-surface-muted)',
               lineHeight: '1.45em',
               letterSpacing: '0.1px'
             }}>
@@ -360,7 +360,7 @@ const ConfigurationsPanel: React.FC<ConfigurationsPanelProps> = ({ onClose, data
             <Typography sx={{
               fontSize: '0.875rem',
               fontWeight: 400,
-              color: '#1F1F1F',
+              color: 'var(--sys-on-surface)',
               lineHeight: '1.43em'
             }}>
               -
@@ -373,12 +373,12 @@ const ConfigurationsPanel: React.FC<ConfigurationsPanelProps> = ({ onClose, data
             gap: '4px',
             padding: '14px 20px 14px 0px',
             flex: 1,
-            borderBottom: '1px solid #DADCE0'
+            borderBottom: '1px solid var(--sys-outline-variant)'
           }}>
             <Typography sx={{
               fontSize: '11px',
               fontWeight: 500,
-              color: '#575757',
+              color: 'var(--sys-on-surface-muted)',
               lineHeight: '1.45em',
               letterSpacing: '0.1px'
             }}>
@@ -392,7 +392,7 @@ const ConfigurationsPanel: React.FC<ConfigurationsPanelProps> = ({ onClose, data
               <Box sx={{
                 width: '14px',
                 height: '14px',
-                backgroundColor: '#128937',
+                backgroundColor: 'var(--sys-success)',
                 borderRadius: '32px',
                 display: 'flex',
                 alignItems: 'center',
@@ -406,7 +406,7 @@ const ConfigurationsPanel: React.FC<ConfigurationsPanelProps> = ({ onClose, data
               <Typography sx={{
                 fontSize: '0.875rem',
                 fontWeight: 400,
-                color: '#0E4DCA',
+                color: 'var(--sys-brand)',
                 lineHeight: '1.43em',
                 // textDecoration: 'underline',
               }}>
@@ -431,12 +431,12 @@ const ConfigurationsPanel: React.FC<ConfigurationsPanelProps> = ({ onClose, data
             gap: '4px',
             padding: '14px 20px 14px 0px',
             flex: 1,
-            borderBottom: '1px solid #DADCE0'
+            borderBottom: '1px solid var(--sys-outline-variant)'
           }}>
             <Typography sx={{
               fontSize: '11px',
               fontWeight: 500,
-              color: '#575757',
+              color: 'var(--sys-on-surface-muted)',
               lineHeight: '1.45em',
               letterSpacing: '0.1px'
             }}>
@@ -445,7 +445,7 @@ const ConfigurationsPanel: React.FC<ConfigurationsPanelProps> = ({ onClose, data
             <Typography sx={{
               fontSize: '0.875rem',
               fontWeight: 400,
-              color: '#1F1F1F',
+              color: 'var(--sys-on-surface)',
               lineHeight: '1.43em'
             }}>
               {updateDate}
@@ -13,6 +13,15 @@ vi.mock('./ConfigurationsPanel', () => ({
   ),
 }));
 
+vi.mock('./RuleDetailsPanel', () => ({
+  default: ({ rule, onClose }: { rule: any; onClose: () => void }) => (
+    <div data-testid="rule-details-panel">
+      <button onClick={onClose} data-testid="rule-close-btn">Close Rule</button>
+      {`Rule ${rule.name}`}
+    </div>
+  ),
+}));
+
 vi.mock('../../contexts/AccessRequestContext', () => ({
   useAccessRequest: () => ({
     isAccessPanelOpen: false,
@@ -201,6 +210,29 @@ describe('CurrentRules', () => {
     });
   });
 
+  describe('Rule Details Panel', () => {
+    it('should open the clicked rule and close it', async () => {
+      render(<CurrentRules dataQualtyScan={mockDataQualityScan} />);
+
+      fireEvent.click(screen.getByText('range_rule'));
+
+      expect(screen.getByTestId('rule-details-panel')).toHaveTextContent('Rule range_rule');
+
+      fireEvent.click(screen.getByTestId('rule-close-btn'));
+      await waitFor(() => {
+        expect(screen.queryByTestId('rule-details-panel')).not.toBeInTheDocument();
+      });
+    });
+
+    it('should open a rule with the Enter key', () => {
+      render(<CurrentRules dataQualtyScan={mockDataQualityScan} />);
+
+      fireEvent.keyDown(screen.getByText('test_rule').closest('tr')!, { key: 'Enter' });
+
+      expect(screen.getByTestId('rule-details-panel')).toHaveTextContent('Rule test_rule');
+    });
+  });
+
   describe('Configurations Panel', () => {
     it('should open configurations panel on button click', async () => {
       render(<CurrentRules dataQualtyScan={mockDataQualityScan} />);
@@ -855,6 +887,41 @@ describe('CurrentRules', () => {
     });
   });
 
+  describe('Recent Runs', () => {
+    const [notNullRule, rangeRule] = mockDataQualityScan.scan.dataQualitySpec.rules;
+    const job = (day: number, rangePassed: boolean) => ({
+      name: `jobs/${day}`,
+      endTime: { seconds: 1640995200 + day * 86400 },
+      dataQualityResult: {
+        score: 90,
+        rules: [{ rule: notNullRule, passed: true }, { rule: rangeRule, passed: rangePassed }],
+      },
+    });
+    // Newest first: the range rule failed the last two runs
+    const scanWithHistory = { ...mockDataQualityScan, jobs: [job(3, false), job(2, false), job(1, true), job(0, true)] };
+
+    it('should show each rule streak over the latest runs', () => {
+      render(<CurrentRules dataQualtyScan={scanWithHistory} />);
+
+      expect(screen.getByText('Recent Runs')).toBeInTheDocument();
+      expect(screen.getByLabelText('Passing 4 runs in a row')).toHaveTextContent('Pass ×4');
+      expect(screen.getByLabelText('Failing 2 runs in a row')).toHaveTextContent('Fail ×2');
+      // The rule without results
+      expect(screen.getByText('-')).toBeInTheDocument();
+    });
+
+    it('should sort the longest failing streak first', () => {
+      render(<CurrentRules dataQualtyScan={scanWithHistory} />);
+
+      const header = screen.getByText('Recent Runs').closest('th')!;
+      fireEvent.click(header.querySelector('button')!);
+
+      const rows = screen.getAllByRole('row');
+      expect(rows[1]).toHaveTextContent('another_column');
+      expect(rows[3]).toHaveTextContent('test_column');
+    });
+  });
+
   describe('Edge Cases', () => {
     it('should handle rule without name', () => {
       render(<CurrentRules dataQualtyScan={mockDataQualityScan} />);
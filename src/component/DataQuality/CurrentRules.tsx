@@ -29,7 +29,14 @@ import {
   InfoOutline
 } from '@mui/icons-material';
 import ConfigurationsPanel from './ConfigurationsPanel';
+import RuleDetailsPanel from './RuleDetailsPanel';
 import { useAccessRequest } from '../../contexts/AccessRequestContext';
+import {
+  getDataQualityRuleKey,
+  getDataQualityRuleStreak,
+  getDataQualityRuns,
+  type DataQualityRuleStreak,
+} from '../../utils/dataQualityHistory';
 
 /**
  * @file CurrentRules.tsx
@@ -55,6 +62,12 @@ import { useAccessRequest } from '../../contexts/AccessRequestContext';
  * 4.  **Configurations Panel**: Includes a "Configurations" button that
  * opens the `ConfigurationsPanel` component as a slide-out overlay,
  * passing the `dataQualtyScan` data to it.
+ * 5.  **Recent Runs**: Shows each rule's pass/fail results over the scan's
+ * latest jobs and its current streak (`utils/dataQualityHistory`); sorting
+ * the column ascending puts the longest failing streaks first.
+ * 6.  **Rule Details**: Clicking a rule opens the `RuleDetailsPanel`
+ * with its definition, its row counts over the runs and the query
+ * returning its failing rows.
  *
  * The component manages all internal state for filtering, sorting, and
  * panel expansion.
@@ -78,8 +91,38 @@ interface RuleData {
   dimensions: string;
   parameters: string;
   threshold: string;
+  streak: DataQualityRuleStreak | null;
+  rule: any;
 }
 
+// Pass/fail squares of the latest runs, oldest first, and the current streak
+const RuleStreak: React.FC<{ streak: DataQualityRuleStreak | null }> = ({ streak }) => {
+  if (!streak) return <>-</>;
+  const label = `${streak.passed ? 'Passing' : 'Failing'} ${streak.count} run${streak.count === 1 ? '' : 's'} in a row`;
+  return (
+    <Tooltip title={label} arrow>
+      <Box aria-label={label} sx={{ display: 'flex', flexDirection: 'column', gap: '2px' }}>
+        <Box sx={{ display: 'flex', gap: '2px' }}>
+          {streak.history.map((passed, index) => (
+            <Box
+              key={index}
+              sx={{
+                width: '6px',
+                height: '10px',
+                borderRadius: '1px',
+                backgroundColor: passed ? 'var(--sys-success)' : 'var(--sys-error)'
+              }}
+            />
+          ))}
+        </Box>
+        <Typography sx={{ fontSize: '0.6875rem', color: streak.passed ? 'var(--sys-on-surface-muted)' : 'var(--sys-error)', lineHeight: 1.33 }}>
+          {`${streak.passed ? 'Pass' : 'Fail'} ×${streak.count}`}
+        </Typography>
+      </Box>
+    </Tooltip>
+  );
+};
+
 interface CurrentRulesProps {
   dataQualtyScan: any;
 }
@@ -90,6 +133,7 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
   const [filterText, setFilterText] = useState('');
   const [isExpanded, setIsExpanded] = useState(true);
   const [isConfigurationsOpen, setIsConfigurationsOpen] = useState(false);
+  const [selectedRule, setSelectedRule] = useState<any>(null);
   //const [selectedRows, setSelectedRows] = useState<Set<number>>(new Set());
   const { setAccessPanelOpen } = useAccessRequest();
 
@@ -98,10 +142,10 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
     setIsExpanded(true);
   }, []);
 
-  // Sync configurations panel state with global context for z-index management
+  // Sync configurations and rule panel state with global context for z-index management
   useEffect(() => {
-    setAccessPanelOpen(isConfigurationsOpen);
-  }, [isConfigurationsOpen, setAccessPanelOpen]);
+    setAccessPanelOpen(isConfigurationsOpen || selectedRule !== null);
+  }, [isConfigurationsOpen, selectedRule, setAccessPanelOpen]);
 
   // Debug: Monitor selectedRows changes
   // useEffect(() => {
@@ -114,6 +158,8 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
   const [selectedValues, setSelectedValues] = useState<string[]>([]);
   const [activeFilters, setActiveFilters] = useState<Array<{property: string, values: string[]}>>([]);
 
+  const runs = useMemo(() => getDataQualityRuns(dataQualtyScan), [dataQualtyScan]);
+
   // Dummy data for rules
   const rulesData: RuleData[] = [];
 
@@ -126,7 +172,9 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
       evaluation: rule.evaluation,
       dimensions: rule.dimension,
       parameters: rule[rule.ruleType] && Object.keys(rule[rule.ruleType]).length > 0 ? JSON.stringify(rule[rule.ruleType]) : '',
-      threshold: rule.threshold != null ? `${Math.floor(rule.threshold * 10000) / 100}%` : 'N/A'
+      threshold: rule.threshold != null ? `${Math.floor(rule.threshold * 10000) / 100}%` : 'N/A',
+      streak: getDataQualityRuleStreak(runs, getDataQualityRuleKey(rule)),
+      rule
     });
   });
 
@@ -259,6 +307,11 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
             aValue = parseFloat(a.threshold.replace('%', ''));
             bValue = parseFloat(b.threshold.replace('%', ''));
             break;
+          case 'recentRuns':
+            // Failing streaks count down so the longest comes first
+            aValue = a.streak ? (a.streak.passed ? a.streak.count : -a.streak.count) : 0;
+            bValue = b.streak ? (b.streak.passed ? b.streak.count : -b.streak.count) : 0;
+            break;
           default:
             return 0;
         }
@@ -407,9 +460,9 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
       position: 'relative'
     }}>
       <Box sx={{
-        backgroundColor: '#ffffff',
+        backgroundColor: 'var(--sys-surface)',
         borderRadius: '0.5rem',
-        border: '1px solid #E0E0E0',
+        border: '1px solid var(--sys-divider)',
         overflow: 'hidden',
         position: 'relative'
       }}>
@@ -421,7 +474,7 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
         justifyContent: 'space-between',
         alignItems: 'center',
         padding: '0.969rem 1.25rem',
-        backgroundColor: '#F8FAFD',
+        backgroundColor: 'var(--sys-background)',
         cursor: 'pointer'
       }}>
         <Box sx={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
@@ -430,7 +483,7 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
            sx={{
             fontSize: '1.125rem',
             fontWeight: 500,
-            color: '#1F1F1F',
+            color: 'var(--sys-on-surface)',
             lineHeight: '1.5em'
           }}>
             Current Rules
@@ -457,7 +510,7 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
               textTransform: 'none',
               fontSize: '0.75rem',
               fontWeight: 700,
-              color: '#0B57D0',
+              color: 'var(--sys-primary)',
               padding: '0.375rem 0.75rem',
               minWidth: 'auto',
               '&:hover': {
@@ -494,10 +547,10 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
             flexDirection: 'column',
             gap: '0.5rem',
             padding: '0.5rem 1rem',
-            border: '1px solid #DADCE0',
+            border: '1px solid var(--sys-outline-variant)',
             borderTopRightRadius: '0.5rem',
             borderTopLeftRadius: '0.5rem',
-            backgroundColor: '#FFFFFF',
+            backgroundColor: 'var(--sys-surface)',
             margin: '0.625rem 0.625rem 0rem 0.625rem',
         }}>
           {/* Filter Header */}
@@ -510,11 +563,11 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
                   sx={{
                     padding: '4px',
                     '&:hover': {
-                      backgroundColor: '#E8F4FF'
+                      backgroundColor: 'var(--sys-selected-container-sky)'
                     }
                   }}
                 >
-                  <FilterList sx={{ fontSize: '16px', color: '#1F1F1F' }} />
+                  <FilterList sx={{ fontSize: '16px', color: 'var(--sys-on-surface)' }} />
                 </IconButton>
               </Tooltip>
               <Tooltip title="Filter by selecting property and values" arrow>
@@ -525,7 +578,7 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
                     fontWeight: 500,
                     fontSize: '0.75rem',
                     lineHeight: 1.67,
-                    color: '#1F1F1F',
+                    color: 'var(--sys-on-surface)',
                     cursor: 'pointer',
                     '&:hover': {
                       textDecoration: 'underline'
@@ -561,10 +614,10 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
                 '& .MuiInputBase-input': {
                   padding: '4px 8px',
                   fontSize: '0.75rem',
-                  color: '#1F1F1F'
+                  color: 'var(--sys-on-surface)'
                 },
                 '& .MuiInputBase-input::placeholder': {
-                  color: '#575757',
+                  color: 'var(--sys-on-surface-muted)',
                   opacity: 1
                 }
               }}
@@ -587,7 +640,7 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
                 onClick={handleClearFilters}
                 sx={{
                   fontSize: '0.6875rem',
-                  color: '#0B57D0',
+                  color: 'var(--sys-primary)',
                   textTransform: 'none',
                   padding: '0.125rem 0.5rem',
                   minWidth: 'auto',
@@ -615,8 +668,8 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
                     alignItems: 'center',
                     gap: '0.375rem',
                     padding: '0.25rem 0.5rem',
-                    backgroundColor: '#E7F0FE',
-                    border: '1px solid #0E4DCA',
+                    backgroundColor: 'var(--sys-selected-container)',
+                    border: '1px solid var(--sys-brand)',
                     borderRadius: '16px',
                     fontSize: '11px'
                   }}
@@ -624,13 +677,13 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
                   <Typography sx={{ 
                     fontSize: '0.6875rem', 
                     fontWeight: 500,
-                    color: '#0E4DCA'
+                    color: 'var(--sys-brand)'
                   }}>
                     {filter.property}:
                   </Typography>
                   <Typography sx={{ 
                     fontSize: '0.6875rem', 
-                    color: '#1F1F1F'
+                    color: 'var(--sys-on-surface)'
                   }}>
                     {filter.values.join(', ')}
                   </Typography>
@@ -641,10 +694,10 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
                       padding: '0.125rem',
                       width: '16px',
                       height: '16px',
-                      color: '#0E4DCA',
+                      color: 'var(--sys-brand)',
                       '&:hover': {
-                        backgroundColor: '#D93025',
-                        color: '#FFFFFF'
+                        backgroundColor: 'var(--sys-error)',
+                        color: 'var(--sys-on-primary)'
                       }
                     }}
                   >
@@ -682,15 +735,15 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
             sx={{ 
               fontSize: '0.6875rem', 
               fontWeight: 500, 
-              backgroundColor: '#F8F9FA',
-              borderBottom: '1px solid #E0E0E0',
+              backgroundColor: 'var(--sys-background-neutral)',
+              borderBottom: '1px solid var(--sys-divider)',
               height: "32px",
               minHeight: "32px",
               paddingTop: 0,
               paddingBottom: 1,
               "&.Mui-disabled": {
                 opacity: 1,
-                color: "#575757 !important",
+                color: "var(--sys-on-surface-muted) !important",
                 backgroundColor: "transparent !important",
               },
             }}
@@ -718,8 +771,8 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
               onClick={() => setSelectedProperty('')}
               sx={{ fontSize: '0.6875rem', 
                 fontWeight: 400,
-                backgroundColor: '#F8F9FA',
-                borderBottom: '1px solid #E0E0E0',
+                backgroundColor: 'var(--sys-background-neutral)',
+                borderBottom: '1px solid var(--sys-divider)',
                 marginTop: '-8px',
                 paddingTop: 1.30,
                 paddingBottom: 1.30, }}
@@ -730,8 +783,8 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
                         sx={{ 
                           fontSize: '0.6875rem', 
                           fontWeight: 400, 
-                          backgroundColor: '#F8F9FA',
-                          borderBottom: '1px solid #E0E0E0'
+                          backgroundColor: 'var(--sys-background-neutral)',
+                          borderBottom: '1px solid var(--sys-divider)'
                         }}
                         disabled
                       >
@@ -768,7 +821,7 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
           maxHeight: 'calc(100vh - 280px)', 
           overflowY: 'auto',
           overflowX: 'hidden',
-          border: '1px solid #DADCE0',
+          border: '1px solid var(--sys-outline-variant)',
           borderTop: 'none', 
           borderBottomRightRadius: '8px', 
           borderBottomLeftRadius: '8px', 
@@ -794,8 +847,8 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
             <TableRow>
               <TableCell 
                 sx={{
-                  backgroundColor: '#F0F4F8',
-                  borderBottom: '1px solid #DADCE0',
+                  backgroundColor: 'var(--sys-surface-container)',
+                  borderBottom: '1px solid var(--sys-outline-variant)',
                   padding: '0.375rem 0.5rem',
                   minHeight: '40px',
                   width: '15%'
@@ -807,7 +860,7 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
                   <Typography sx={{
                     fontSize: '0.75rem',
                     fontWeight: 500,
-                    color: '#444746',
+                    color: 'var(--sys-on-surface-variant)',
                     lineHeight: 1.33,
                     letterSpacing: '0.1px',
                     whiteSpace: 'nowrap'
@@ -822,8 +875,8 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
                 </Box>
               </TableCell>
               <TableCell sx={{
-                backgroundColor: '#F0F4F8',
-                borderBottom: '1px solid #DADCE0',
+                backgroundColor: 'var(--sys-surface-container)',
+                borderBottom: '1px solid var(--sys-outline-variant)',
                 padding: '6px 8px',
                 minHeight: '40px',
                 width: '12%'
@@ -834,7 +887,7 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
                   <Typography sx={{
                     fontSize: '0.75rem',
                     fontWeight: 500,
-                    color: '#444746',
+                    color: 'var(--sys-on-surface-variant)',
                     lineHeight: 1.33,
                     letterSpacing: '0.1px',
                     whiteSpace: 'nowrap'
@@ -849,8 +902,8 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
                 </Box>
               </TableCell>
               <TableCell sx={{
-                backgroundColor: '#F0F4F8',
-                borderBottom: '1px solid #DADCE0',
+                backgroundColor: 'var(--sys-surface-container)',
+                borderBottom: '1px solid var(--sys-outline-variant)',
                 padding: '6px 8px',
                 minHeight: '40px',
                 width: '12%'
@@ -861,7 +914,7 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
                   <Typography sx={{
                     fontSize: '0.75rem',
                     fontWeight: 500,
-                    color: '#444746',
+                    color: 'var(--sys-on-surface-variant)',
                     lineHeight: 1.33,
                     letterSpacing: '0.1px',
                     whiteSpace: 'nowrap'
@@ -876,8 +929,8 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
                 </Box>
               </TableCell>
               <TableCell sx={{
-                backgroundColor: '#F0F4F8',
-                borderBottom: '1px solid #DADCE0',
+                backgroundColor: 'var(--sys-surface-container)',
+                borderBottom: '1px solid var(--sys-outline-variant)',
                 padding: '6px 8px',
                 minHeight: '40px',
                 width: '12%'
@@ -888,7 +941,7 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
                   <Typography sx={{
                     fontSize: '0.75rem',
                     fontWeight: 500,
-                    color: '#444746',
+                    color: 'var(--sys-on-surface-variant)',
                     lineHeight: 1.33,
                     letterSpacing: '0.1px',
                     whiteSpace: 'nowrap'
@@ -903,8 +956,8 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
                 </Box>
               </TableCell>
               <TableCell sx={{
-                backgroundColor: '#F0F4F8',
-                borderBottom: '1px solid #DADCE0',
+                backgroundColor: 'var(--sys-surface-container)',
+                borderBottom: '1px solid var(--sys-outline-variant)',
                 padding: '6px 8px',
                 minHeight: '40px',
                 width: '15%'
@@ -915,7 +968,7 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
                   <Typography sx={{
                     fontSize: '0.75rem',
                     fontWeight: 500,
-                    color: '#444746',
+                    color: 'var(--sys-on-surface-variant)',
                     lineHeight: 1.33,
                     letterSpacing: '0.1px',
                     whiteSpace: 'nowrap'
@@ -930,11 +983,11 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
                 </Box>
               </TableCell>
               <TableCell sx={{
-                backgroundColor: '#F0F4F8',
-                borderBottom: '1px solid #DADCE0',
+                backgroundColor: 'var(--sys-surface-container)',
+                borderBottom: '1px solid var(--sys-outline-variant)',
                 padding: '6px 8px',
                 minHeight: '40px',
-                width: '25%'
+                width: '18%'
               }}>
                 <Box sx={{ display: 'flex', alignItems: 'center', gap: '4px', '&:hover .MuiIconButton-root': {
     opacity: 1,
@@ -942,7 +995,7 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
                   <Typography sx={{
                     fontSize: '0.75rem',
                     fontWeight: 500,
-                    color: '#444746',
+                    color: 'var(--sys-on-surface-variant)',
                     lineHeight: 1.33,
                     letterSpacing: '0.1px',
                     whiteSpace: 'nowrap'
@@ -957,8 +1010,8 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
                 </Box>
               </TableCell>
               <TableCell sx={{
-                backgroundColor: '#F0F4F8',
-                borderBottom: '1px solid #DADCE0',
+                backgroundColor: 'var(--sys-surface-container)',
+                borderBottom: '1px solid var(--sys-outline-variant)',
                 padding: '6px 8px',
                 minHeight: '40px',
                 width: '12%'
@@ -969,7 +1022,7 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
                   <Typography sx={{
                     fontSize: '0.75rem',
                     fontWeight: 500,
-                    color: '#444746',
+                    color: 'var(--sys-on-surface-variant)',
                     lineHeight: 1.33,
                     letterSpacing: '0.1px',
                     whiteSpace: 'nowrap'
@@ -983,18 +1036,55 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
                   </Tooltip>
                 </Box>
               </TableCell>
+              <TableCell sx={{
+                backgroundColor: 'var(--sys-surface-container)',
+                borderBottom: '1px solid var(--sys-outline-variant)',
+                padding: '6px 8px',
+                minHeight: '40px',
+                width: '10%'
+              }}>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: '4px', '&:hover .MuiIconButton-root': {
+    opacity: 1,
+  } }}>
+                  <Typography sx={{
+                    fontSize: '0.75rem',
+                    fontWeight: 500,
+                    color: 'var(--sys-on-surface-variant)',
+                    lineHeight: 1.33,
+                    letterSpacing: '0.1px',
+                    whiteSpace: 'nowrap'
+                  }}>
+                    Recent Runs
+                  </Typography>
+                  <Tooltip title="Sort" arrow>
+                    <IconButton size="small" onClick={() => handleSort('recentRuns')} sx={{ opacity: (sortColumn === 'recentRuns' && sortDirection !== null) ? 1 : 0 }}>
+                      {getSortIcon('recentRuns')}
+                    </IconButton>
+                  </Tooltip>
+                </Box>
+              </TableCell>
             </TableRow>
           </TableHead>
           <TableBody>
             {filteredData.map((rule, index) => (
-              <TableRow key={rule.id} sx={{ 
-                '&:hover': { backgroundColor: '#F8F9FA' } 
-              }}>
+              <TableRow
+                key={rule.id}
+                hover
+                tabIndex={0}
+                onClick={() => setSelectedRule(rule.rule)}
+                onKeyDown={(event) => {
+                  if (event.key === 'Enter') setSelectedRule(rule.rule);
+                }}
+                sx={{ 
+                  cursor: 'pointer',
+                  '&:hover': { backgroundColor: 'var(--sys-background-neutral)' } 
+                }}
+              >
                 <TableCell sx={{ 
                   padding: '0.375rem 0.5rem', 
-                  borderBottom: index === filteredData.length - 1 ? 'none' : '1px solid #DADCE0',
+                  borderBottom: index === filteredData.length - 1 ? 'none' : '1px solid var(--sys-outline-variant)',
                   fontSize: '0.75rem',
-                  color: '#1F1F1F',
+                  color: 'var(--sys-on-surface)',
                   fontWeight: 400,
                   lineHeight: 1.33,
                   letterSpacing: '0.1px',
@@ -1009,9 +1099,9 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
                 </TableCell>
                 <TableCell sx={{ 
                   padding: '0.375rem 0.5rem', 
-                  borderBottom: index === filteredData.length - 1 ? 'none' : '1px solid #DADCE0',
+                  borderBottom: index === filteredData.length - 1 ? 'none' : '1px solid var(--sys-outline-variant)',
                   fontSize: '0.75rem',
-                  color: '#1F1F1F',
+                  color: 'var(--sys-on-surface)',
                   fontWeight: 400,
                   lineHeight: 1.33,
                   letterSpacing: '0.1px',
@@ -1026,9 +1116,9 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
                 </TableCell>
                 <TableCell sx={{ 
                   padding: '0.375rem 0.5rem', 
-                  borderBottom: index === filteredData.length - 1 ? 'none' : '1px solid #DADCE0',
+                  borderBottom: index === filteredData.length - 1 ? 'none' : '1px solid var(--sys-outline-variant)',
                   fontSize: '0.75rem',
-                  color: '#1F1F1F',
+                  color: 'var(--sys-on-surface)',
                   fontWeight: 400,
                   lineHeight: 1.33,
                   letterSpacing: '0.1px',
@@ -1043,9 +1133,9 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
                 </TableCell>
                 <TableCell sx={{ 
                   padding: '0.375rem 0.5rem', 
-                  borderBottom: index === filteredData.length - 1 ? 'none' : '1px solid #DADCE0',
+                  borderBottom: index === filteredData.length - 1 ? 'none' : '1px solid var(--sys-outline-variant)',
                   fontSize: '0.75rem',
-                  color: '#1F1F1F',
+                  color: 'var(--sys-on-surface)',
                   fontWeight: 400,
                   lineHeight: 1.33,
                   letterSpacing: '0.1px',
@@ -1060,9 +1150,9 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
                 </TableCell>
                 <TableCell sx={{ 
                   padding: '0.375rem 0.5rem', 
-                  borderBottom: index === filteredData.length - 1 ? 'none' : '1px solid #DADCE0',
+                  borderBottom: index === filteredData.length - 1 ? 'none' : '1px solid var(--sys-outline-variant)',
                   fontSize: '0.75rem',
-                  color: '#1F1F1F',
+                  color: 'var(--sys-on-surface)',
                   fontWeight: 400,
                   lineHeight: 1.33,
                   letterSpacing: '0.1px',
@@ -1077,9 +1167,9 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
                 </TableCell>
                 <TableCell sx={{ 
                   padding: '0.375rem 0.5rem', 
-                  borderBottom: index === filteredData.length - 1 ? 'none' : '1px solid #DADCE0',
+                  borderBottom: index === filteredData.length - 1 ? 'none' : '1px solid var(--sys-outline-variant)',
                   fontSize: '0.75rem',
-                  color: '#1F1F1F',
+                  color: 'var(--sys-on-surface)',
                   fontWeight: 400,
                   lineHeight: 1.33,
                   letterSpacing: '0.1px',
@@ -1094,9 +1184,9 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
                 </TableCell>
                 <TableCell sx={{ 
                   padding: '0.375rem 0.5rem', 
-                  borderBottom: index === filteredData.length - 1 ? 'none' : '1px solid #DADCE0',
+                  borderBottom: index === filteredData.length - 1 ? 'none' : '1px solid var(--sys-outline-variant)',
                   fontSize: '0.75rem',
-                  color: '#1F1F1F',
+                  color: 'var(--sys-on-surface)',
                   fontWeight: 400,
                   lineHeight: 1.33,
                   letterSpacing: '0.1px',
@@ -1109,6 +1199,15 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
                 }}>
                   {rule.threshold}
                 </TableCell>
+                <TableCell sx={{ 
+                  padding: '0.375rem 0.5rem', 
+                  borderBottom: index === filteredData.length - 1 ? 'none' : '1px solid var(--sys-outline-variant)',
+                  fontSize: '0.75rem',
+                  color: 'var(--sys-on-surface)',
+                  verticalAlign: 'top'
+                }}>
+                  <RuleStreak streak={rule.streak} />
+                </TableCell>
               </TableRow>
             ))}
           </TableBody>
@@ -1124,7 +1223,7 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
         PaperProps={{
           sx: {
             width: '38.25rem',
-            backgroundColor: '#ffffff',
+            backgroundColor: 'var(--sys-surface)',
             boxShadow: '-0.25rem 0rem 0.5rem rgba(0, 0, 0, 0.1)',
           }
         }}
@@ -1134,6 +1233,29 @@ const CurrentRules: React.FC<CurrentRulesProps> = ({dataQualtyScan}) => {
           dataQualtyScan={dataQualtyScan}
         />
       </Drawer>
+
+      {/* Rule Details Panel */}
+      <Drawer
+        anchor="right"
+        open={selectedRule !== null}
+        onClose={() => setSelectedRule(null)}
+        PaperProps={{
+          sx: {
+            width: '45rem',
+            maxWidth: '100vw',
+            backgroundColor: 'var(--sys-surface)',
+            boxShadow: '-0.25rem 0rem 0.5rem rgba(0, 0, 0, 0.1)',
+          }
+        }}
+      >
+        {selectedRule && (
+          <RuleDetailsPanel
+            rule={selectedRule}
+            dataQualtyScan={dataQualtyScan}
+            onClose={() => setSelectedRule(null)}
+          />
+        )}
+      </Drawer>
       </Box>
     </Box>
   );
@@ -7,6 +7,7 @@ import DataQuality from './DataQuality';
 import ConfigurationsPanel from './ConfigurationsPanel';
 import CurrentRules from './CurrentRules';
 import DataQualityStatus from './DataQualityStatus';
+import DataQualityHistory from './DataQualityHistory';
 
 // Mock auth context
 const mockUser = {
@@ -66,7 +67,8 @@ vi.mock('@mui/icons-material', () => ({
   ArrowUpward: () => <div data-testid="arrow-upward-icon">Up</div>,
   ArrowDownward: () => <div data-testid="arrow-downward-icon">Down</div>,
   ExpandLess: () => <div data-testid="expand-less-icon">Less</div>,
-  ExpandMore: () => <div data-testid="expand-more-icon">More</div>
+  ExpandMore: () => <div data-testid="expand-more-icon">More</div>,
+  TrendingDown: () => <div data-testid="trending-down-icon">Down</div>
 }));
 
 describe('DataQuality Components', () => {
@@ -333,7 +335,7 @@ describe('DataQuality Components', () => {
       fireEvent.click(columnHeader);
       
       // Should show sort icon
-      expect(screen.getAllByTestId('arrow-upward-icon')).toHaveLength(7); // Multiple sort icons
+      expect(screen.getAllByTestId('arrow-upward-icon')).toHaveLength(8); // One per column, Recent Runs included
     });
 
     it('handles clear filters', () => {
@@ -639,6 +641,61 @@ describe('DataQuality Components', () => {
     });
   });
 
+  describe('DataQualityHistory', () => {
+    const job = (day: number, score: number, completeness: number, passed: boolean) => ({
+      name: `jobs/${day}`,
+      state: 'SUCCEEDED',
+      endTime: { seconds: 1640995200 + day * 86400 },
+      dataQualityResult: {
+        score,
+        passed,
+        rules: [{ rule: mockDataQualityScan.scan.dataQualitySpec.rules[0], passed }],
+        dimensions: [{ dimension: { name: 'COMPLETENESS' }, score: completeness }],
+      },
+    });
+    // Jobs come newest first
+    const scanWithHistory = {
+      ...mockDataQualityScan,
+      jobs: [job(2, 80, 70, false), job(1, 95, 100, true), job(0, 90, 100, true)],
+    };
+
+    it('charts the overall and dimension scores across runs', () => {
+      const { container } = render(<DataQualityHistory dataQualityScan={scanWithHistory} />);
+
+      expect(screen.getByText('Data Quality History')).toBeInTheDocument();
+      expect(screen.getByRole('img', { name: 'Scores of the last 3 runs' })).toBeInTheDocument();
+      expect(container.querySelectorAll('polyline')).toHaveLength(2);
+      expect(container.querySelectorAll('circle[data-regressed]')).toHaveLength(1);
+      expect(screen.getByText('Jan 1, 2022')).toBeInTheDocument();
+      // The axis end and the three regressions of the last run
+      expect(screen.getAllByText('Jan 3, 2022')).toHaveLength(4);
+    });
+
+    it('hides a line from the legend', () => {
+      const { container } = render(<DataQualityHistory dataQualityScan={scanWithHistory} />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Completeness' }));
+
+      expect(screen.getByRole('button', { name: 'Completeness' })).toHaveAttribute('aria-pressed', 'false');
+      expect(container.querySelector('[data-series="COMPLETENESS"]')).not.toBeInTheDocument();
+    });
+
+    it('lists the regressions of the latest run', () => {
+      render(<DataQualityHistory dataQualityScan={scanWithHistory} />);
+
+      const regressions = screen.getByRole('list', { name: 'Regressions' });
+      expect(regressions).toHaveTextContent('Overall score 95% → 80%');
+      expect(regressions).toHaveTextContent('Completeness 100% → 70%');
+      expect(regressions).toHaveTextContent('test_rule started failing');
+    });
+
+    it('waits for a second run', () => {
+      render(<DataQualityHistory dataQualityScan={mockDataQualityScan} />);
+
+      expect(screen.getByText('The history shows once the scan has run at least twice.')).toBeInTheDocument();
+    });
+  });
+
   describe('Integration Tests', () => {
     it('renders all components together when data is available', () => {
       // Test individual components together
@@ -2,6 +2,7 @@ import React, { useEffect, useState } from 'react';
 import { Box, Typography } from '@mui/material';
 import CurrentRules from './CurrentRules';
 import DataQualityStatus from './DataQualityStatus';
+import DataQualityHistory from './DataQualityHistory';
 import DataQualitySkeleton from './DataQualitySkeleton';
 import { useAuth } from '../../auth/AuthProvider';
 import { useDispatch, useSelector } from 'react-redux';
@@ -30,7 +31,8 @@ import { fetchDataScan, selectScanData, selectScanStatus, selectIsScanLoading }
  * message.
  * -   **Success**: It renders the `CurrentRules` and `DataQualityStatus`
  * components side-by-side, passing the fetched `dataQualityScan`
- * object to both.
+ * object to both. `DataQualityHistory` sits under the status and charts
+ * the scores of the scan's past runs.
  *
  * @param {object} props - The props for the DataQuality component.
  * @param {any} props.entry - The data entry object, which is inspected for
@@ -104,14 +106,17 @@ const DataQuality: React.FC<DataQualityProps> = ({ scanName, allScansStatus }) =
         ) : (dataQualityAvailable ? (
         <>
           <CurrentRules dataQualtyScan={dataQualityScan}/>
-          <DataQualityStatus dataQualityScan={dataQualityScan}/>
+          <Box sx={{ flex: 1, display: 'flex', flexDirection: 'column', gap: '1rem', minWidth: 0 }}>
+            <DataQualityStatus dataQualityScan={dataQualityScan}/>
+            <DataQualityHistory dataQualityScan={dataQualityScan}/>
+          </Box>
         </>)
         : (
           <Box sx={{
                   flex: 1,
-                  backgroundColor: '#ffffff',
+                  backgroundColor: 'var(--sys-surface)',
                   borderRadius: '8px',
-                  border: '1px solid #DADCE0',
+                  border: '1px solid var(--sys-outline-variant)',
                   overflow: 'hidden',
                   display: 'flex',
                   justifyContent: 'center', 
@@ -121,7 +126,7 @@ const DataQuality: React.FC<DataQualityProps> = ({ scanName, allScansStatus }) =
           <Typography sx={{
           fontSize: '14px',
           fontWeight: 400,
-          color: '#575757',
+          color: 'var(--sys-on-surface-muted)',
           lineHeight: '1.43em' }}>
             No published Data Quality available for this entry
           </Typography>
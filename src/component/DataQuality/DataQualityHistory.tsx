@@ -0,0 +1,271 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Collapse,
+  IconButton,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  ExpandLess,
+  InfoOutline,
+  TrendingDown
+} from '@mui/icons-material';
+import {
+  findDataQualityRegressions,
+  formatDataQualityRuleKey,
+  getDataQualityDimensions,
+  getDataQualityRuns,
+  type DataQualityRegression,
+  type DataQualityRun,
+} from '../../utils/dataQualityHistory';
+
+/**
+ * @file DataQualityHistory.tsx
+ * @summary Renders a collapsible panel charting the scores of past Data Quality scan runs.
+ *
+ * @description
+ * Shown under `DataQualityStatus`, which only covers the latest run. It reads
+ * every job of the `dataQualityScan` (`utils/dataQualityHistory`) and shows:
+ * 1.  A line chart of the overall score and of each dimension's score
+ * (Completeness, Uniqueness, Validity...) across the runs. The legend
+ * toggles each line.
+ * 2.  The regressions between consecutive runs: a lower overall or dimension
+ * score, or a rule that started failing. Runs with a lower overall score are
+ * marked on the chart.
+ *
+ * @param {object} props - The props for the DataQualityHistory component.
+ * @param {any} props.dataQualityScan - The full data quality scan object, with
+ * its `jobs` array.
+ *
+ * @returns {JSX.Element} A React component rendering the collapsible history panel.
+ */
+
+interface DataQualityHistoryProps {
+  dataQualityScan: any;
+}
+
+const CHART_WIDTH = 560;
+const CHART_HEIGHT = 160;
+const CHART_PADDING = { top: 8, right: 12, bottom: 8, left: 36 };
+const OVERALL_COLOR = 'var(--sys-primary)';
+const DIMENSION_COLORS = ['#128937', '#e37400', '#9334e6', '#007b83', '#c5221f', '#5f6368', '#b06000'];
+const REGRESSIONS_SHOWN = 5;
+
+const formatRunDate = (time: number) =>
+  new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', year: 'numeric' }).format(new Date(time));
+
+const formatScore = (score: number) => `${Math.floor(score * 100) / 100}%`;
+
+const formatDimension = (dimension: string) => dimension.charAt(0) + dimension.slice(1).toLowerCase();
+
+const describeRegression = (regression: DataQualityRegression) => {
+  if (regression.kind === 'rule') return `${formatDataQualityRuleKey(regression.label)} started failing`;
+  const label = regression.kind === 'score' ? 'Overall score' : formatDimension(regression.label);
+  return `${label} ${formatScore(regression.from as number)} → ${formatScore(regression.to as number)}`;
+};
+
+const DataQualityHistory: React.FC<DataQualityHistoryProps> = ({ dataQualityScan }) => {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const [hiddenSeries, setHiddenSeries] = useState<string[]>([]);
+  const [showAllRegressions, setShowAllRegressions] = useState(false);
+
+  const runs = useMemo(() => getDataQualityRuns(dataQualityScan), [dataQualityScan]);
+  const regressions = useMemo(() => findDataQualityRegressions(runs), [runs]);
+  const series = useMemo(() => [
+    { key: 'overall', label: 'Overall', color: OVERALL_COLOR, score: (run: DataQualityRun) => run.score },
+    ...getDataQualityDimensions(runs).map((dimension, index) => ({
+      key: dimension,
+      label: formatDimension(dimension),
+      color: DIMENSION_COLORS[index % DIMENSION_COLORS.length],
+      score: (run: DataQualityRun) => run.dimensions[dimension] ?? null,
+    })),
+  ], [runs]);
+  const regressedRuns = new Set(regressions.filter((regression) => regression.kind === 'score').map((regression) => regression.run.name));
+
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+  const x = (index: number) => CHART_PADDING.left + (runs.length > 1 ? (index / (runs.length - 1)) * plotWidth : plotWidth / 2);
+  const y = (score: number) => CHART_PADDING.top + (1 - Math.min(Math.max(score, 0), 100) / 100) * plotHeight;
+
+  const toggleSeries = (key: string) => {
+    setHiddenSeries((current) => (current.includes(key) ? current.filter((hidden) => hidden !== key) : [...current, key]));
+  };
+
+  const shownRegressions = showAllRegressions ? regressions : regressions.slice(0, REGRESSIONS_SHOWN);
+
+  return (
+    <Box sx={{
+      backgroundColor: 'var(--sys-surface)',
+      borderRadius: '0.5rem',
+      border: '1px solid var(--sys-outline-variant)',
+      marginLeft: '1rem',
+      overflow: 'hidden'
+    }}>
+      {/* Header */}
+      <Box
+        onClick={() => setIsExpanded(!isExpanded)}
+        sx={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          padding: '1rem',
+          backgroundColor: 'var(--sys-background)',
+          cursor: 'pointer'
+        }}
+      >
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+          <Typography
+            variant="heading2Medium"
+            sx={{
+              fontSize: '1.125rem',
+              fontWeight: 500,
+              color: 'var(--sys-on-surface)',
+              lineHeight: 1.33
+            }}>
+            Data Quality History
+          </Typography>
+          <Tooltip title="Scores of the past runs of this scan, and what got worse from one run to the next" arrow>
+            <InfoOutline sx={{ width: '18px', height: '18px', opacity: 0.9 }} />
+          </Tooltip>
+        </Box>
+        <IconButton size="small" aria-label={isExpanded ? 'Collapse history' : 'Expand history'} sx={{ padding: '0.25rem' }}>
+          <ExpandLess sx={{
+            fontSize: '1.5rem',
+            transform: isExpanded ? 'rotate(0deg)' : 'rotate(180deg)',
+            transition: 'transform 0.2s ease'
+          }} />
+        </IconButton>
+      </Box>
+
+      <Collapse in={isExpanded} timeout={300}>
+        <Box sx={{ padding: '0.75rem 1.25rem 1rem 1.25rem' }}>
+          {runs.length < 2 ? (
+            <Typography sx={{ fontSize: '0.75rem', color: 'var(--sys-on-surface-muted)' }}>
+              The history shows once the scan has run at least twice.
+            </Typography>
+          ) : (
+            <>
+              {/* Legend */}
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: '0.25rem', marginBottom: '0.5rem' }}>
+                {series.map((line) => {
+                  const shown = !hiddenSeries.includes(line.key);
+                  return (
+                    <Button
+                      key={line.key}
+                      size="small"
+                      aria-pressed={shown}
+                      onClick={() => toggleSeries(line.key)}
+                      sx={{
+                        textTransform: 'none',
+                        fontSize: '0.6875rem',
+                        padding: '0 6px',
+                        minWidth: 'auto',
+                        color: shown ? 'var(--sys-on-surface)' : 'var(--sys-on-surface-muted)',
+                        opacity: shown ? 1 : 0.6,
+                        gap: '4px'
+                      }}
+                    >
+                      <Box component="span" sx={{ width: '12px', height: '3px', borderRadius: '2px', backgroundColor: line.color }} />
+                      {line.label}
+                    </Button>
+                  );
+                })}
+              </Box>
+
+              {/* Chart */}
+              <svg
+                role="img"
+                aria-label={`Scores of the last ${runs.length} runs`}
+                viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+                width="100%"
+                style={{ display: 'block' }}
+              >
+                {[0, 50, 100].map((tick) => (
+                  <g key={tick}>
+                    <line x1={CHART_PADDING.left} x2={CHART_WIDTH - CHART_PADDING.right} y1={y(tick)} y2={y(tick)} stroke="var(--sys-outline-variant)" strokeDasharray={tick === 0 ? undefined : '3 3'} />
+                    <text x={CHART_PADDING.left - 6} y={y(tick) + 3} textAnchor="end" fontSize="10" fill="var(--sys-on-surface-muted)">{tick}%</text>
+                  </g>
+                ))}
+                {series.filter((line) => !hiddenSeries.includes(line.key)).map((line) => {
+                  const points = runs
+                    .map((run, index) => ({ run, index, score: line.score(run) }))
+                    .filter((point): point is { run: DataQualityRun; index: number; score: number } => point.score !== null);
+                  return (
+                    <g key={line.key} data-series={line.key}>
+                      <polyline
+                        points={points.map((point) => `${x(point.index)},${y(point.score)}`).join(' ')}
+                        fill="none"
+                        stroke={line.color}
+                        strokeWidth={line.key === 'overall' ? 2.5 : 1.5}
+                      />
+                      {points.map((point) => {
+                        const regressed = line.key === 'overall' && regressedRuns.has(point.run.name);
+                        return (
+                          <circle
+                            key={point.run.name}
+                            cx={x(point.index)}
+                            cy={y(point.score)}
+                            r={regressed ? 4.5 : 3}
+                            fill={regressed ? 'var(--sys-error)' : line.color}
+                            data-regressed={regressed || undefined}
+                          >
+                            <title>{`${line.label}, ${formatRunDate(point.run.time)}: ${formatScore(point.score)}`}</title>
+                          </circle>
+                        );
+                      })}
+                    </g>
+                  );
+                })}
+              </svg>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', paddingLeft: `${(CHART_PADDING.left / CHART_WIDTH) * 100}%` }}>
+                <Typography sx={{ fontSize: '0.6875rem', color: 'var(--sys-on-surface-muted)' }}>{formatRunDate(runs[0].time)}</Typography>
+                <Typography sx={{ fontSize: '0.6875rem', color: 'var(--sys-on-surface-muted)' }}>{formatRunDate(runs[runs.length - 1].time)}</Typography>
+              </Box>
+
+              {/* Regressions */}
+              <Typography sx={{ fontSize: '0.75rem', fontWeight: 500, color: 'var(--sys-on-surface)', margin: '0.75rem 0 0.25rem 0' }}>
+                Regressions
+              </Typography>
+              {regressions.length === 0 ? (
+                <Typography sx={{ fontSize: '0.75rem', color: 'var(--sys-on-surface-muted)' }}>
+                  No regressions between consecutive runs.
+                </Typography>
+              ) : (
+                <Box component="ul" aria-label="Regressions" sx={{ listStyle: 'none', margin: 0, padding: 0 }}>
+                  {shownRegressions.map((regression) => (
+                    <Box
+                      component="li"
+                      key={`${regression.run.name}-${regression.kind}-${regression.label}`}
+                      sx={{ display: 'flex', alignItems: 'center', gap: '0.5rem', padding: '2px 0' }}
+                    >
+                      <TrendingDown sx={{ fontSize: '14px', color: 'var(--sys-error)' }} />
+                      <Typography sx={{ fontSize: '0.75rem', color: 'var(--sys-on-surface-muted)', whiteSpace: 'nowrap' }}>
+                        {formatRunDate(regression.run.time)}
+                      </Typography>
+                      <Typography sx={{ fontSize: '0.75rem', color: 'var(--sys-on-surface)' }}>
+                        {describeRegression(regression)}
+                      </Typography>
+                    </Box>
+                  ))}
+                </Box>
+              )}
+              {regressions.length > REGRESSIONS_SHOWN && (
+                <Button
+                  size="small"
+                  onClick={() => setShowAllRegressions(!showAllRegressions)}
+                  sx={{ textTransform: 'none', fontSize: '0.75rem', padding: '0 4px', marginTop: '0.25rem' }}
+                >
+                  {showAllRegressions ? 'Show fewer' : `Show all ${regressions.length}`}
+                </Button>
+              )}
+            </>
+          )}
+        </Box>
+      </Collapse>
+    </Box>
+  );
+};
+
+export default DataQualityHistory;
@@ -18,9 +18,9 @@ const DataQualitySkeleton: React.FC = () => {
       {/* CurrentRules Skeleton - Left Panel */}
       <Box sx={{
         flex: 2,
-        backgroundColor: '#ffffff',
+        backgroundColor: 'var(--sys-surface)',
         borderRadius: '0.5rem',
-        border: '1px solid #E0E0E0',
+        border: '1px solid var(--sys-divider)',
         overflow: 'hidden',
         maxHeight: 'calc(100vh - 200px)',
       }}>
@@ -30,7 +30,7 @@ const DataQualitySkeleton: React.FC = () => {
           justifyContent: 'space-between',
           alignItems: 'center',
           padding: '0.969rem 1.25rem',
-          backgroundColor: '#F8FAFD',
+          backgroundColor: 'var(--sys-background)',
         }}>
           <Box sx={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
             <Skeleton variant="text" width={120} height={28} />
@@ -48,10 +48,10 @@ const DataQualitySkeleton: React.FC = () => {
           alignItems: 'center',
           gap: '0.5rem',
           padding: '0.5rem 1rem',
-          border: '1px solid #DADCE0',
+          border: '1px solid var(--sys-outline-variant)',
           borderTopRightRadius: '0.5rem',
           borderTopLeftRadius: '0.5rem',
-          backgroundColor: '#FFFFFF',
+          backgroundColor: 'var(--sys-surface)',
           margin: '0.625rem 0.625rem 0rem 0.625rem',
         }}>
           <Skeleton variant="circular" width={16} height={16} />
@@ -61,7 +61,7 @@ const DataQualitySkeleton: React.FC = () => {
 
         {/* Table */}
         <Box sx={{
-          border: '1px solid #DADCE0',
+          border: '1px solid var(--sys-outline-variant)',
           borderTop: 'none',
           borderRadius: '0 0 0.5rem 0.5rem',
           margin: '0px 10px 10px 10px',
@@ -71,8 +71,8 @@ const DataQualitySkeleton: React.FC = () => {
           {/* Table Header */}
           <Box sx={{
             display: 'flex',
-            backgroundColor: '#F0F4F8',
-            borderBottom: '1px solid #DADCE0',
+            backgroundColor: 'var(--sys-surface-container)',
+            borderBottom: '1px solid var(--sys-outline-variant)',
             padding: '0.375rem 0.5rem',
           }}>
             <Box sx={{ width: '15%', px: 0.5 }}><Skeleton variant="text" width="80%" height={20} /></Box>
@@ -91,7 +91,7 @@ const DataQualitySkeleton: React.FC = () => {
               sx={{
                 display: 'flex',
                 padding: '0.375rem 0.5rem',
-                borderBottom: row < 5 ? '1px solid #DADCE0' : 'none',
+                borderBottom: row < 5 ? '1px solid var(--sys-outline-variant)' : 'none',
               }}
             >
               <Box sx={{ width: '15%', px: 0.5 }}><Skeleton variant="text" width="90%" height={18} /></Box>
@@ -110,9 +110,9 @@ const DataQualitySkeleton: React.FC = () => {
       <Box sx={{
         flex: 1,
         alignSelf: 'flex-start',
-        backgroundColor: '#ffffff',
+        backgroundColor: 'var(--sys-surface)',
         borderRadius: '0.5rem',
-        border: '1px solid #DADCE0',
+        border: '1px solid var(--sys-outline-variant)',
         marginLeft: '1rem',
         height: '17rem',
         overflow: 'hidden',
@@ -123,7 +123,7 @@ const DataQualitySkeleton: React.FC = () => {
           justifyContent: 'space-between',
           alignItems: 'center',
           padding: '1rem',
-          backgroundColor: '#F8FAFD',
+          backgroundColor: 'var(--sys-background)',
         }}>
           <Box sx={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
             <Skeleton variant="text" width={150} height={28} />
@@ -138,7 +138,7 @@ const DataQualitySkeleton: React.FC = () => {
           <Box sx={{
             display: 'flex',
             flexDirection: 'row',
-            borderBottom: '1px solid #DADCE0',
+            borderBottom: '1px solid var(--sys-outline-variant)',
             padding: '14px 20px 14px 0px',
           }}>
             <Box sx={{ width: '101px', display: 'flex', flexDirection: 'column', gap: '4px' }}>
@@ -155,7 +155,7 @@ const DataQualitySkeleton: React.FC = () => {
           <Box sx={{
             display: 'flex',
             flexDirection: 'row',
-            borderBottom: '1px solid #DADCE0',
+            borderBottom: '1px solid var(--sys-outline-variant)',
             padding: '14px 20px 14px 0px',
           }}>
             <Box sx={{ width: '101px', display: 'flex', flexDirection: 'column', gap: '4px' }}>
@@ -54,11 +54,10 @@ const DataQualityStatus: React.FC<DataQualityStatusProps> = ({dataQualityScan})
     <Box 
       onClick={() => setIsExpanded(!isExpanded)}
       sx={{
-      flex: 1,
-      alignSelf: 'flex-start',
-      backgroundColor: '#ffffff',
+      flex: '0 0 auto',
+      backgroundColor: 'var(--sys-surface)',
       borderRadius: '0.5rem',
-      border: '1px solid #DADCE0',
+      border: '1px solid var(--sys-outline-variant)',
       marginLeft: '1rem',
       height: isExpanded ? '17rem' : 'auto',
       overflow:'auto', 
@@ -70,7 +69,7 @@ const DataQualityStatus: React.FC<DataQualityStatusProps> = ({dataQualityScan})
         justifyContent: 'space-between',
         alignItems: 'center',
         padding: '1rem',
-        backgroundColor: '#F8FAFD',
+        backgroundColor: 'var(--sys-background)',
       }}>
         <Box sx={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
           <Typography 
@@ -78,7 +77,7 @@ const DataQualityStatus: React.FC<DataQualityStatusProps> = ({dataQualityScan})
           sx={{
             fontSize: '1.125rem',
             fontWeight: 500,
-            color: '#1F1F1F',
+            color: 'var(--sys-on-surface)',
             lineHeight: 1.33
           }}>
             Data Quality Status
@@ -128,12 +127,12 @@ const DataQualityStatus: React.FC<DataQualityStatusProps> = ({dataQualityScan})
               padding: '14px 20px 14px 0px',
               width: '101px',
               height: '70px',
-              borderBottom: '1px solid #DADCE0'
+              borderBottom: '1px solid var(--sys-outline-variant)'
             }}>
               <Typography sx={{
                 fontSize: '0.6875rem',
                 fontWeight: 500,
-                color: '#575757',
+                color: 'var(--sys-on-surface-muted)',
                 lineHeight: '1.45em',
                 letterSpacing: '0.1px'
               }}>
@@ -142,7 +141,7 @@ const DataQualityStatus: React.FC<DataQualityStatusProps> = ({dataQualityScan})
               <Typography sx={{
                 fontSize: '0.875rem',
                 fontWeight: 400,
-                color: '#1F1F1F',
+                color: 'var(--sys-on-surface)',
                 lineHeight: 1.43
               }}>
                 {`${Math.floor(dataQualityScanPublishedJob.dataQualityResult.score * 100) / 100}%`}
@@ -155,7 +154,7 @@ const DataQualityStatus: React.FC<DataQualityStatusProps> = ({dataQualityScan})
               gap: '4px',
               padding: '16px 20px 16px 0px',
               flex: 1,
-              borderBottom: '1px solid #DADCE0'
+              borderBottom: '1px solid var(--sys-outline-variant)'
             }}>
               <Box sx={{ 
                 display: 'flex', 
@@ -165,14 +164,14 @@ const DataQualityStatus: React.FC<DataQualityStatusProps> = ({dataQualityScan})
               }}>
                 <Box sx={{
                   height: '17px',
-                  backgroundColor: '#128937',
+                  backgroundColor: 'var(--sys-success)',
                   borderRadius: '4px',
                   width: `${dataQualityScanPublishedJob?.dataQualityResult?.score}%`
                 }} />
                 <Typography sx={{
                   fontSize: '0.6875rem',
                   fontWeight: 500,
-                  color: '#575757',
+                  color: 'var(--sys-on-surface-muted)',
                   lineHeight: '1.45em',
                   letterSpacing: '0.1px'
                 }}>
@@ -198,12 +197,12 @@ const DataQualityStatus: React.FC<DataQualityStatusProps> = ({dataQualityScan})
               gap: '4px',
               padding: '14px 20px 14px 0px',
               width: '101px',
-              borderBottom: '1px solid #DADCE0'
+              borderBottom: '1px solid var(--sys-outline-variant)'
             }}>
               <Typography sx={{
                 fontSize: '0.6875rem',
                 fontWeight: 500,
-                color: '#575757',
+                color: 'var(--sys-on-surface-muted)',
                 lineHeight: '1.45em',
                 letterSpacing: '0.1px'
               }}>
@@ -212,7 +211,7 @@ const DataQualityStatus: React.FC<DataQualityStatusProps> = ({dataQualityScan})
               <Typography sx={{
                 fontSize: '0.875rem',
                 fontWeight: 400,
-                color: '#1F1F1F',
+                color: 'var(--sys-on-surface)',
                 lineHeight: 1.43
               }}>
                 {`${dataQualityScanPublishedJob?.dataQualityResult?.rules.length}`}
@@ -228,12 +227,12 @@ const DataQualityStatus: React.FC<DataQualityStatusProps> = ({dataQualityScan})
               gap: '4px',
               padding: '14px 20px 14px 0px',
               flex: 1,
-              borderBottom: '1px solid #DADCE0'
+              borderBottom: '1px solid var(--sys-outline-variant)'
             }}>
               <Typography sx={{
                 fontSize: '0.6875rem',
                 fontWeight: 500,
-                color: '#575757',
+                color: 'var(--sys-on-surface-muted)',
                 lineHeight: '1.45em',
                 letterSpacing: '0.1px'
               }}>
@@ -253,7 +252,7 @@ const DataQualityStatus: React.FC<DataQualityStatusProps> = ({dataQualityScan})
                 <Typography sx={{
                   fontSize: '0.875rem',
                   fontWeight: 400,
-                  color: '#1F1F1F',
+                  color: 'var(--sys-on-surface)',
                   lineHeight: 1.43
                 }}>
                   {(() => {
@@ -288,7 +287,7 @@ const DataQualityStatus: React.FC<DataQualityStatusProps> = ({dataQualityScan})
               <Typography sx={{
                 fontSize: '0.6875rem',
                 fontWeight: 500,
-                color: '#575757',
+                color: 'var(--sys-on-surface-muted)',
                 lineHeight: '1.45em',
                 letterSpacing: '0.1px'
               }}>
@@ -308,7 +307,7 @@ const DataQualityStatus: React.FC<DataQualityStatusProps> = ({dataQualityScan})
                 <Typography sx={{
                   fontSize: '0.875rem',
                   fontWeight: 400,
-                  color: '#1F1F1F',
+                  color: 'var(--sys-on-surface)',
                   lineHeight: 1.43
                 }}>
                   {dataQualityScanPublishedJob?.dataQualityResult?.dimensions.find((d:any) => d.dimension.name === 'UNIQUENESS')?.score ? 
@@ -331,7 +330,7 @@ const DataQualityStatus: React.FC<DataQualityStatusProps> = ({dataQualityScan})
               <Typography sx={{
                 fontSize: '0.6875rem',
                 fontWeight: 500,
-                color: '#575757',
+                color: 'var(--sys-on-surface-muted)',
                 lineHeight: '1.45em',
                 letterSpacing: '0.1px'
               }}>
@@ -351,7 +350,7 @@ const DataQualityStatus: React.FC<DataQualityStatusProps> = ({dataQualityScan})
                 <Typography sx={{
                   fontSize: '0.875rem',
                   fontWeight: 400,
-                  color: '#1F1F1F',
+                  color: 'var(--sys-on-surface)',
                   lineHeight: 1.43
                 }}>
                   {(() => {
@@ -0,0 +1,82 @@
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { vi, beforeEach, it, describe, expect } from 'vitest';
+import RuleDetailsPanel from './RuleDetailsPanel';
+
+const mockShowNotification = vi.fn();
+vi.mock('../../contexts/NotificationContext', () => ({
+  useNotification: () => ({ showNotification: mockShowNotification }),
+}));
+
+const rule = {
+  name: 'positive-amount',
+  column: 'amount',
+  ruleType: 'rowConditionExpectation',
+  dimension: 'VALIDITY',
+  rowConditionExpectation: { sqlExpression: 'amount > 0' },
+  threshold: 0.9,
+};
+
+const failingRowsQuery = 'SELECT * FROM `p.sales.orders` WHERE NOT (amount > 0)';
+
+const job = (day: number, passed: boolean, evaluatedCount: string, passedCount: string, query?: string) => ({
+  name: `jobs/${day}`,
+  endTime: { seconds: String(1700000000 + day * 86400), nanos: 0 },
+  dataQualityResult: {
+    passed,
+    rules: [{ rule, passed, evaluatedCount, passedCount, ...(query ? { failingRowsQuery: query } : {}) }],
+  },
+});
+
+const dataQualtyScan = {
+  scan: { data: { resource: '//bigquery.googleapis.com/projects/p/datasets/sales/tables/orders' } },
+  jobs: [job(3, false, '1000', '800', failingRowsQuery), job(2, true, '900', '900'), job(1, true, '800', '790')],
+};
+
+describe('RuleDetailsPanel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    Object.assign(navigator, { clipboard: { writeText: vi.fn() } });
+  });
+
+  it('shows the rule definition and its row counts per run, newest first', () => {
+    render(<RuleDetailsPanel rule={rule} dataQualtyScan={dataQualtyScan} onClose={vi.fn()} />);
+
+    expect(screen.getByText('positive-amount')).toBeInTheDocument();
+    expect(screen.getByText('VALIDITY')).toBeInTheDocument();
+    expect(screen.getByText('90%')).toBeInTheDocument();
+    expect(screen.getByLabelText('Rule SQL')).toHaveTextContent('amount > 0');
+
+    const rows = within(screen.getByRole('table', { name: 'Rule results' })).getAllByRole('row').slice(1);
+    expect(rows.map((row) => within(row).getAllByRole('cell').slice(1, 5).map((cell) => cell.textContent))).toEqual([
+      ['Failed', '1,000', '800', '200'],
+      ['Passed', '900', '900', '0'],
+      ['Passed', '800', '790', '10'],
+    ]);
+  });
+
+  it('shows the failing rows query with copy and a BigQuery link', () => {
+    const onClose = vi.fn();
+    render(<RuleDetailsPanel rule={rule} dataQualtyScan={dataQualtyScan} onClose={onClose} />);
+
+    expect(screen.getByLabelText('Failing rows query')).toHaveTextContent(failingRowsQuery);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Copy SQL' }));
+    expect(navigator.clipboard.writeText).toHaveBeenCalledWith(failingRowsQuery);
+    expect(mockShowNotification).toHaveBeenCalledWith('SQL copied to clipboard', 'success', 3000);
+
+    expect(screen.getByRole('link', { name: 'Open in BigQuery' })).toHaveAttribute(
+      'href',
+      'https://console.cloud.google.com/bigquery?page=table&p=p&d=sales&t=orders&project=p'
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Close' }));
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it('has no failing rows query for a rule that never failed', () => {
+    render(<RuleDetailsPanel rule={rule} dataQualtyScan={{ ...dataQualtyScan, jobs: dataQualtyScan.jobs.slice(1) }} onClose={vi.fn()} />);
+
+    expect(screen.queryByLabelText('Failing rows query')).not.toBeInTheDocument();
+    expect(screen.queryByRole('link', { name: 'Open in BigQuery' })).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,280 @@
+import React, { useMemo } from 'react';
+import {
+  Box,
+  Button,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  Close,
+  ContentCopy,
+  OpenInNew
+} from '@mui/icons-material';
+import { Highlight, themes } from 'prism-react-renderer';
+import { useNotification } from '../../contexts/NotificationContext';
+import {
+  formatDataQualityRuleKey,
+  getDataQualityRuleKey,
+  getDataQualityRuleResults,
+  type DataQualityRuleResult,
+} from '../../utils/dataQualityHistory';
+import { generateBigQueryResourceLink } from '../../utils/resourceUtils';
+
+/**
+ * @file RuleDetailsPanel.tsx
+ * @summary Renders the slide-out detail panel of one Data Quality rule.
+ *
+ * @description
+ * Opened from a row of `CurrentRules`. It shows:
+ * 1.  The rule definition: column, dimension, rule type, threshold and its
+ * SQL expression (row/table condition or SQL assertion), else its parameters.
+ * 2.  The evaluated, passed and failed row counts of the rule in each run of
+ * the scan, newest first (`utils/dataQualityHistory`).
+ * 3.  The `failingRowsQuery` Dataplex returns with the latest failed run,
+ * highlighted, with a copy button and an "Open in BigQuery" link to the
+ * scanned table (the query is copied so it can be pasted in the editor).
+ *
+ * @param {object} props - The props for the RuleDetailsPanel component.
+ * @param {any} props.rule - The rule, as found in `dataQualitySpec.rules`.
+ * @param {any} props.dataQualtyScan - The full data quality scan object, with
+ * its `jobs` array.
+ * @param {() => void} props.onClose - Called when the Close button is clicked.
+ *
+ * @returns {JSX.Element} A React component rendering the rule detail panel.
+ */
+
+interface RuleDetailsPanelProps {
+  rule: any;
+  dataQualtyScan: any;
+  onClose: () => void;
+}
+
+const RUNS_SHOWN = 10;
+
+const formatRunDate = (time: number) =>
+  new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' }).format(new Date(time));
+
+const formatCount = (count: number | null) => (count === null ? '-' : count.toLocaleString('en-US'));
+
+// The SQL a rule evaluates, for the rule types that have one
+const getRuleSql = (rule: any): string =>
+  rule?.rowConditionExpectation?.sqlExpression
+  ?? rule?.tableConditionExpectation?.sqlExpression
+  ?? rule?.sqlAssertion?.sqlStatement
+  ?? '';
+
+const labelSx = {
+  fontSize: '0.6875rem',
+  fontWeight: 500,
+  color: 'var(--sys-on-surface-muted)',
+  lineHeight: '1.45em',
+  letterSpacing: '0.1px'
+};
+
+const valueSx = {
+  fontSize: '0.875rem',
+  color: 'var(--sys-on-surface)',
+  lineHeight: '1.43em',
+  wordBreak: 'break-word' as const
+};
+
+const sectionTitleSx = {
+  fontSize: '0.875rem',
+  fontWeight: 500,
+  color: 'var(--sys-on-surface)',
+  lineHeight: '1.43em'
+};
+
+const cellSx = {
+  padding: '0.375rem 0.5rem',
+  fontSize: '0.75rem',
+  color: 'var(--sys-on-surface)',
+  borderBottom: '1px solid var(--sys-outline-variant)'
+};
+
+const SqlBlock: React.FC<{ code: string; label: string }> = ({ code, label }) => (
+  <Highlight theme={themes.nightOwlLight} code={code} language="sql">
+    {({ className, style, tokens, getLineProps, getTokenProps }) => (
+      <Box
+        component="pre"
+        aria-label={label}
+        className={className}
+        sx={{
+          ...style,
+          padding: '12px 16px',
+          margin: 0,
+          borderRadius: '8px',
+          overflow: 'auto',
+          fontSize: '12px',
+          lineHeight: '1.5',
+          whiteSpace: 'pre-wrap',
+          wordBreak: 'break-word',
+        }}
+      >
+        {tokens.map((line, i) => (
+          <div key={i} {...getLineProps({ line })}>
+            {line.map((token, key) => (
+              <span key={key} {...getTokenProps({ token })} />
+            ))}
+          </div>
+        ))}
+      </Box>
+    )}
+  </Highlight>
+);
+
+// Passed and failed share of the evaluated rows
+const CountsBar: React.FC<{ result: DataQualityRuleResult }> = ({ result }) => {
+  if (!result.evaluatedCount || result.passedCount === null) return null;
+  const passedShare = (result.passedCount / result.evaluatedCount) * 100;
+  return (
+    <Box sx={{ display: 'flex', width: '80px', height: '6px', borderRadius: '3px', overflow: 'hidden', backgroundColor: 'var(--sys-error)' }}>
+      <Box sx={{ width: `${passedShare}%`, backgroundColor: 'var(--sys-success)' }} />
+    </Box>
+  );
+};
+
+const RuleDetailsPanel: React.FC<RuleDetailsPanelProps> = ({ rule, dataQualtyScan, onClose }) => {
+  const { showNotification } = useNotification();
+  const ruleKey = getDataQualityRuleKey(rule);
+  const results = useMemo(() => getDataQualityRuleResults(dataQualtyScan, ruleKey), [dataQualtyScan, ruleKey]);
+  const latestFailure = [...results].reverse().find((result) => !result.passed && result.failingRowsQuery);
+  const bigQueryLink = generateBigQueryResourceLink(dataQualtyScan?.scan?.data?.resource);
+
+  const sql = getRuleSql(rule);
+  const parameters = rule?.[rule?.ruleType] && Object.keys(rule[rule.ruleType]).length > 0 ? JSON.stringify(rule[rule.ruleType], null, 2) : '';
+  const definition = [
+    { key: 'Column', value: rule?.column || '-' },
+    { key: 'Dimension', value: rule?.dimension || '-' },
+    { key: 'Rule Type', value: rule?.ruleType || '-' },
+    { key: 'Threshold', value: rule?.threshold != null ? `${Math.floor(rule.threshold * 10000) / 100}%` : 'N/A' },
+  ];
+
+  const handleCopy = () => {
+    if (!latestFailure) return;
+    navigator.clipboard.writeText(latestFailure.failingRowsQuery);
+    showNotification('SQL copied to clipboard', 'success', 3000);
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', padding: '1.25rem', gap: '1.25rem', height: '100%', boxSizing: 'border-box', overflowY: 'auto' }}>
+      {/* Header */}
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '8px' }}>
+        <Typography
+          variant="heading2Medium"
+          sx={{ fontSize: '1.125rem', fontWeight: 500, color: 'var(--sys-on-surface)', lineHeight: '1.33em', wordBreak: 'break-word' }}
+        >
+          {formatDataQualityRuleKey(ruleKey)}
+        </Typography>
+        <IconButton
+          aria-label="Close"
+          onClick={onClose}
+          sx={{ color: 'var(--sys-on-surface)', width: '24px', height: '24px' }}
+        >
+          <Close sx={{ fontSize: '24px' }} />
+        </IconButton>
+      </Box>
+
+      {/* Definition */}
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+        <Typography sx={sectionTitleSx}>Definition</Typography>
+        <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', columnGap: '20px' }}>
+          {definition.map(({ key, value }) => (
+            <Box key={key} sx={{ display: 'flex', flexDirection: 'column', gap: '4px', padding: '8px 0', borderBottom: '1px solid var(--sys-outline-variant)' }}>
+              <Typography sx={labelSx}>{key}</Typography>
+              <Typography sx={valueSx}>{value}</Typography>
+            </Box>
+          ))}
+        </Box>
+        {sql && (
+          <>
+            <Typography sx={labelSx}>SQL Expression</Typography>
+            <SqlBlock code={sql} label="Rule SQL" />
+          </>
+        )}
+        {!sql && parameters && (
+          <>
+            <Typography sx={labelSx}>Parameters</Typography>
+            <Box component="pre" sx={{ ...valueSx, fontSize: '0.75rem', margin: 0, whiteSpace: 'pre-wrap' }}>{parameters}</Box>
+          </>
+        )}
+      </Box>
+
+      {/* Row counts over time */}
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+        <Typography sx={sectionTitleSx}>Results</Typography>
+        {results.length === 0 ? (
+          <Typography sx={{ ...valueSx, color: 'var(--sys-on-surface-muted)' }}>No run has evaluated this rule yet.</Typography>
+        ) : (
+          <Table size="small" aria-label="Rule results">
+            <TableHead>
+              <TableRow>
+                {['Run', 'Result', 'Evaluated', 'Passed', 'Failed', ''].map((column) => (
+                  <TableCell key={column} sx={{ ...cellSx, fontWeight: 500, color: 'var(--sys-on-surface-variant)', backgroundColor: 'var(--sys-surface-container)' }}>
+                    {column}
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {[...results].reverse().slice(0, RUNS_SHOWN).map((result) => (
+                <TableRow key={result.run}>
+                  <TableCell sx={cellSx}>{result.time > 0 ? formatRunDate(result.time) : '-'}</TableCell>
+                  <TableCell sx={{ ...cellSx, color: result.passed ? 'var(--sys-success)' : 'var(--sys-error)', fontWeight: 500 }}>
+                    {result.passed ? 'Passed' : 'Failed'}
+                  </TableCell>
+                  <TableCell sx={cellSx}>{formatCount(result.evaluatedCount)}</TableCell>
+                  <TableCell sx={cellSx}>{formatCount(result.passedCount)}</TableCell>
+                  <TableCell sx={cellSx}>{formatCount(result.failedCount)}</TableCell>
+                  <TableCell sx={cellSx}><CountsBar result={result} /></TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </Box>
+
+      {/* Failing rows */}
+      {latestFailure && (
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '8px' }}>
+            <Typography sx={sectionTitleSx}>Failing Rows Query</Typography>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+              <Tooltip title="Copy SQL" arrow>
+                <IconButton size="small" aria-label="Copy SQL" onClick={handleCopy}>
+                  <ContentCopy sx={{ fontSize: 16 }} />
+                </IconButton>
+              </Tooltip>
+              {bigQueryLink && (
+                <Button
+                  size="small"
+                  component="a"
+                  href={bigQueryLink}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  onClick={handleCopy}
+                  endIcon={<OpenInNew sx={{ fontSize: 16 }} />}
+                  sx={{ textTransform: 'none', fontSize: '0.75rem', color: 'var(--sys-primary)' }}
+                >
+                  Open in BigQuery
+                </Button>
+              )}
+            </Box>
+          </Box>
+          <Typography sx={{ ...labelSx, fontWeight: 400 }}>
+            {latestFailure.time > 0 ? `Rows that failed the rule on ${formatRunDate(latestFailure.time)}.` : 'Rows that failed the rule in its latest failed run.'}
+          </Typography>
+          <SqlBlock code={latestFailure.failingRowsQuery} label="Failing rows query" />
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default RuleDetailsPanel;
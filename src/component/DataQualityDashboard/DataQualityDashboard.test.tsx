@@ -0,0 +1,173 @@
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import '@testing-library/jest-dom';
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import { MemoryRouter } from 'react-router-dom';
+import DataQualityDashboard from './DataQualityDashboard';
+import dataScanReducer from '../../features/dataScan/dataScanSlice';
+import dataQualityDashboardReducer, {
+  fetchDataQualityScope,
+  loadDataQualityDashboard,
+} from '../../features/dataQualityDashboard/dataQualityDashboardSlice';
+
+vi.mock('../../auth/AuthProvider', () => ({
+  useAuth: () => ({ user: { token: 'test-token', appConfig: { projects: [{ projectId: 'p', name: 'projects/1' }, { projectId: 'q', name: 'projects/2' }] } } })
+}));
+
+// The thunks only record their calls; the store is preloaded instead
+vi.mock('../../features/dataQualityDashboard/dataQualityDashboardSlice', async () => {
+  const actual: any = await vi.importActual('../../features/dataQualityDashboard/dataQualityDashboardSlice');
+  return {
+    ...actual,
+    loadDataQualityDashboard: vi.fn((args: any) => ({ type: 'test/loadDataQualityDashboard', payload: args })),
+    fetchDataQualityScope: vi.fn((args: any) => ({ type: 'test/fetchDataQualityScope', payload: args })),
+    fetchDataQualityGlossaryTerms: vi.fn(() => ({ type: 'test/fetchDataQualityGlossaryTerms' })),
+  };
+});
+
+vi.mock('../../features/dataProducts/dataProductsSlice', () => ({
+  fetchDataProductsList: vi.fn(() => ({ type: 'test/fetchDataProductsList' })),
+}));
+
+vi.mock('../DataQuality/DataQuality', () => ({
+  default: ({ scanName, allScansStatus }: any) => <div data-testid="data-quality">{`${scanName} ${allScansStatus}`}</div>,
+}));
+
+const resource = (dataset: string, table: string) => `//bigquery.googleapis.com/projects/p/datasets/${dataset}/tables/${table}`;
+const scanName = (id: string) => `projects/p/locations/l/dataScans/${id}`;
+
+const job = (day: number, score: number, rules: boolean[]) => ({
+  name: `jobs/${day}`,
+  endTime: { seconds: String(1700000000 + day * 86400), nanos: 0 },
+  dataQualityResult: { score, passed: rules.every(Boolean), rules: rules.map((passed, index) => ({ rule: { name: `rule-${index}` }, passed })) },
+});
+
+const allScans = [
+  { name: scanName('orders-dq'), type: 'DATA_QUALITY', data: { resource: resource('sales', 'orders') } },
+  { name: scanName('users-dq'), type: 'DATA_QUALITY', data: { resource: resource('crm', 'users') } },
+  { name: scanName('refunds-dq'), type: 'DATA_QUALITY', data: { resource: resource('sales', 'refunds') } },
+  { name: scanName('orders-profile'), type: 'DATA_PROFILE', data: { resource: resource('sales', 'orders') } },
+];
+
+const loaded = (jobs: any[]) => ({ data: { scan: {}, jobs }, lastFetched: 1, status: 'succeeded', error: null });
+
+const renderDashboard = (path = '/data-quality', dashboard: any = {}) => {
+  const store = configureStore({
+    reducer: {
+      dataScan: dataScanReducer,
+      dataProducts: (state = { dataProductsItems: [{ name: 'projects/p/locations/l/dataProducts/sales', displayName: 'Sales' }], status: 'succeeded' }) => state,
+      dataQualityDashboard: dataQualityDashboardReducer,
+    },
+    preloadedState: {
+      dataScan: {
+        scans: {
+          [scanName('orders-dq')]: loaded([job(2, 70, [true, false, false]), job(1, 95, [true, true, true])]),
+          [scanName('users-dq')]: loaded([job(2, 100, [true]), job(1, 100, [true])]),
+        },
+        loadingScans: [scanName('refunds-dq')],
+        globalStatus: 'loading',
+        allScans,
+        allScansStatus: 'succeeded',
+      } as any,
+      dataQualityDashboard: {
+        ...dataQualityDashboardReducer(undefined, { type: 'init' }),
+        glossaryTermsStatus: 'succeeded',
+        ...dashboard,
+      },
+    },
+  });
+  render(
+    <Provider store={store}>
+      <MemoryRouter initialEntries={[path]}>
+        <DataQualityDashboard />
+      </MemoryRouter>
+    </Provider>
+  );
+  return store;
+};
+
+const tableNames = () => screen.getAllByRole('row').slice(1).map((row) => within(row).getAllByRole('cell')[0].firstChild?.textContent);
+
+describe('DataQualityDashboard', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('lists the data quality scans, worst score first', () => {
+    renderDashboard();
+
+    expect(loadDataQualityDashboard).toHaveBeenCalledWith({ id_token: 'test-token', projectId: '' });
+    expect(screen.getByText('3 scans, 1 failing')).toBeInTheDocument();
+    expect(tableNames()).toEqual(['orders', 'users', 'refunds']);
+
+    const orders = screen.getAllByRole('row')[1];
+    expect(within(orders).getByText('70%')).toBeInTheDocument();
+    expect(within(orders).getByText('Failed')).toBeInTheDocument();
+    expect(within(orders).getByText('2')).toBeInTheDocument();
+    expect(within(orders).getByRole('img', { name: 'Score trend: 95%, 70%' })).toBeInTheDocument();
+    // Still loading
+    expect(within(screen.getAllByRole('row')[3]).getByText('Loading…')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Score'));
+    expect(tableNames()).toEqual(['users', 'orders', 'refunds']);
+  });
+
+  it('filters by dataset and by data product', () => {
+    const store = renderDashboard();
+
+    fireEvent.mouseDown(screen.getByLabelText('Dataset'));
+    expect(screen.getAllByRole('option').map((option) => option.textContent)).toEqual(['All datasets', 'p.crm', 'p.sales']);
+    fireEvent.click(screen.getByRole('option', { name: 'p.sales' }));
+    expect(tableNames()).toEqual(['orders', 'refunds']);
+
+    fireEvent.mouseDown(screen.getByLabelText('Data product'));
+    fireEvent.click(screen.getByRole('option', { name: 'Sales' }));
+    expect(fetchDataQualityScope).toHaveBeenCalledWith({ kind: 'dataProduct', id: 'projects/p/locations/l/dataProducts/sales', id_token: 'test-token' });
+    expect(store.getState().dataQualityDashboard.filters.dataProduct).toBe('projects/p/locations/l/dataProducts/sales');
+
+    fireEvent.click(screen.getByText('Clear filters'));
+    expect(tableNames()).toEqual(['orders', 'users', 'refunds']);
+  });
+
+  it('keeps the tables of the selected scope', () => {
+    renderDashboard('/data-quality', {
+      filters: { project: '', dataset: '', dataProduct: '', glossaryTerm: 'projects/p/locations/global/glossaries/g/terms/customer' },
+      scopeResources: ['projects/p/datasets/crm/tables/users'],
+      scopeStatus: 'succeeded',
+      glossaryTerms: [{ id: 'projects/p/locations/global/glossaries/g/terms/customer', displayName: 'Customer' }],
+    });
+
+    expect(screen.getByLabelText('Glossary term')).toHaveValue('Customer');
+    expect(tableNames()).toEqual(['users']);
+  });
+
+  it('reloads the scans of the selected project', () => {
+    renderDashboard();
+
+    fireEvent.mouseDown(screen.getByLabelText('Project'));
+    fireEvent.click(screen.getByRole('option', { name: 'q' }));
+
+    expect(loadDataQualityDashboard).toHaveBeenLastCalledWith({ id_token: 'test-token', projectId: 'q' });
+  });
+
+  it('drills into a scan and back', () => {
+    renderDashboard();
+
+    fireEvent.click(screen.getByText('orders'));
+
+    expect(screen.getByRole('heading', { name: 'sales.orders' })).toBeInTheDocument();
+    expect(screen.getByTestId('data-quality')).toHaveTextContent(`${scanName('orders-dq')} succeeded`);
+
+    fireEvent.click(screen.getByText('All scans'));
+    expect(screen.queryByTestId('data-quality')).not.toBeInTheDocument();
+    expect(screen.getByRole('table', { name: 'Data quality scans' })).toBeInTheDocument();
+  });
+
+  it('opens the scan given in the URL', () => {
+    renderDashboard(`/data-quality?scan=${encodeURIComponent(scanName('users-dq'))}`);
+
+    expect(screen.getByRole('heading', { name: 'crm.users' })).toBeInTheDocument();
+    expect(screen.getByTestId('data-quality')).toHaveTextContent(scanName('users-dq'));
+  });
+});
@@ -0,0 +1,398 @@
+import React, { useEffect, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useDispatch, useSelector } from 'react-redux';
+import {
+  Autocomplete,
+  Box,
+  Button,
+  CircularProgress,
+  FormControl,
+  InputLabel,
+  LinearProgress,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TableSortLabel,
+  TextField,
+  Typography
+} from '@mui/material';
+import { ArrowBack, Refresh } from '@mui/icons-material';
+import type { AppDispatch } from '../../app/store';
+import { useAuth } from '../../auth/AuthProvider';
+import { clearAllScanData, selectAllScans } from '../../features/dataScan/dataScanSlice';
+import { fetchDataProductsList } from '../../features/dataProducts/dataProductsSlice';
+import {
+  fetchDataQualityGlossaryTerms,
+  fetchDataQualityScope,
+  loadDataQualityDashboard,
+  resetDataQualityDashboardFilters,
+  setDashboardFilters,
+  setDashboardSort,
+  type DataQualityScopeKind,
+} from '../../features/dataQualityDashboard/dataQualityDashboardSlice';
+import {
+  filterDataQualitySummaries,
+  getSummaryDataset,
+  sortDataQualitySummaries,
+  summarizeDataQualityScan,
+  type DataQualityDashboardSort,
+  type DataQualityScanSummary,
+} from '../../utils/dataQualityDashboard';
+import { getFormattedDateTimeParts } from '../../utils/resourceUtils';
+import DataQuality from '../DataQuality/DataQuality';
+
+/**
+ * @file DataQualityDashboard.tsx
+ * @summary Renders the `/data-quality` page: the health of every Data Quality scan of a project.
+ *
+ * @description
+ * Lists the Data Quality scans loaded by `loadDataQualityDashboard` with, for
+ * each, the scanned table, its latest score, whether it passed, the number of
+ * failing rules, the time of the last run and a sparkline of the scores of
+ * its last runs (`utils/dataQualityDashboard`). Rows fill in as the scans'
+ * jobs load.
+ *
+ * 1.  **Filters**: the project whose scans are loaded, the dataset of the
+ * tables, and a data product or a glossary term, which keep the tables among
+ * their assets. Filters and sort survive navigation (`dataQualityDashboard`
+ * slice).
+ * 2.  **Sorting**: by score (worst first by default), last run or table.
+ * 3.  **Drill-in**: clicking a row opens the scan in the `DataQuality`
+ * component. The scan is kept in the `scan` URL parameter, so the view can be
+ * shared and the browser's back button returns to the list.
+ *
+ * @returns {JSX.Element} The dashboard page.
+ */
+
+const SPARKLINE_WIDTH = 96;
+const SPARKLINE_HEIGHT = 24;
+
+const formatScore = (score: number) => `${Math.floor(score * 100) / 100}%`;
+
+const ScoreSparkline: React.FC<{ scores: number[] }> = ({ scores }) => {
+  if (scores.length < 2) {
+    return <Typography sx={{ fontSize: '12px', color: 'var(--sys-on-surface-muted)' }}>-</Typography>;
+  }
+  const x = (index: number) => 2 + (index / (scores.length - 1)) * (SPARKLINE_WIDTH - 4);
+  const y = (score: number) => 2 + (1 - Math.min(Math.max(score, 0), 100) / 100) * (SPARKLINE_HEIGHT - 4);
+  const last = scores[scores.length - 1];
+  const falling = last < scores[scores.length - 2];
+  return (
+    <svg
+      role="img"
+      aria-label={`Score trend: ${scores.map(formatScore).join(', ')}`}
+      width={SPARKLINE_WIDTH}
+      height={SPARKLINE_HEIGHT}
+      viewBox={`0 0 ${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT}`}
+      style={{ display: 'block' }}
+    >
+      <polyline
+        points={scores.map((score, index) => `${x(index)},${y(score)}`).join(' ')}
+        fill="none"
+        stroke="var(--sys-primary)"
+        strokeWidth={1.5}
+      />
+      <circle cx={x(scores.length - 1)} cy={y(last)} r={2.5} fill={falling ? 'var(--sys-error)' : 'var(--sys-primary)'} />
+    </svg>
+  );
+};
+
+const StatusChip: React.FC<{ summary: DataQualityScanSummary; loading: boolean }> = ({ summary, loading }) => {
+  if (summary.passed === null) {
+    return (
+      <Typography sx={{ fontSize: '12px', color: 'var(--sys-on-surface-muted)' }}>
+        {loading ? 'Loading…' : 'No results'}
+      </Typography>
+    );
+  }
+  return (
+    <Typography
+      component="span"
+      sx={{
+        fontSize: '12px',
+        fontWeight: 500,
+        color: summary.passed ? '#137333' : '#A50E0E',
+        backgroundColor: summary.passed ? '#E6F4EA' : '#FCE8E6',
+        borderRadius: '38px',
+        padding: '2px 10px',
+        whiteSpace: 'nowrap'
+      }}
+    >
+      {summary.passed ? 'Passed' : 'Failed'}
+    </Typography>
+  );
+};
+
+const headerCellSx = { fontSize: '12px', fontWeight: 500, color: 'var(--sys-on-surface)', backgroundColor: 'var(--sys-surface-container)' };
+const cellSx = { fontSize: '12px', color: 'var(--sys-on-surface)' };
+const filterSx = { minWidth: '180px', '& .MuiInputBase-root': { fontSize: '12px' } };
+
+const DataQualityDashboard: React.FC = () => {
+  const { user } = useAuth();
+  const id_token = user?.token || '';
+  const dispatch = useDispatch<AppDispatch>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const selectedScanName = searchParams.get('scan');
+
+  const allScans = useSelector(selectAllScans);
+  const scans = useSelector((state: any) => state.dataScan.scans);
+  const loadingScans: string[] = useSelector((state: any) => state.dataScan.loadingScans);
+  const dataProducts: any[] = useSelector((state: any) => state.dataProducts.dataProductsItems) || [];
+  const dataProductsStatus = useSelector((state: any) => state.dataProducts.status);
+  const {
+    status,
+    progress,
+    error,
+    filters,
+    sort,
+    sortDirection,
+    scopeResources,
+    scopeStatus,
+    glossaryTerms,
+    glossaryTermsStatus,
+  } = useSelector((state: any) => state.dataQualityDashboard);
+
+  useEffect(() => {
+    if (id_token) {
+      dispatch(loadDataQualityDashboard({ id_token, projectId: filters.project }));
+    }
+  }, [dispatch, id_token, filters.project]);
+
+  useEffect(() => {
+    if (id_token && dataProductsStatus === 'idle') {
+      dispatch(fetchDataProductsList({ id_token }));
+    }
+    if (id_token && glossaryTermsStatus === 'idle') {
+      dispatch(fetchDataQualityGlossaryTerms({ id_token }));
+    }
+  }, [dispatch, id_token, dataProductsStatus, glossaryTermsStatus]);
+
+  const summaries = useMemo(
+    () => (allScans ?? [])
+      .filter((scan: any) => scan.type === 'DATA_QUALITY')
+      .map((scan: any) => summarizeDataQualityScan(scan, scans[scan.name]?.data)),
+    [allScans, scans]
+  );
+  const datasets = useMemo(
+    () => [...new Set<string>(summaries.map(getSummaryDataset))].sort(),
+    [summaries]
+  );
+  const rows = useMemo(
+    () => sortDataQualitySummaries(filterDataQualitySummaries(summaries, filters, scopeResources), sort, sortDirection),
+    [summaries, filters, scopeResources, sort, sortDirection]
+  );
+  const failingCount = rows.filter((row: DataQualityScanSummary) => row.passed === false).length;
+  const projects: any[] = Array.isArray(user?.appConfig?.projects) ? user.appConfig.projects : [];
+
+  const changeScope = (kind: DataQualityScopeKind, id: string) => {
+    dispatch(setDashboardFilters({ [kind]: id }));
+    if (id) {
+      dispatch(fetchDataQualityScope({ kind, id, id_token }));
+    }
+  };
+
+  const changeSort = (column: DataQualityDashboardSort) => {
+    const direction = sort === column && sortDirection === 'asc' ? 'desc' : 'asc';
+    dispatch(setDashboardSort({ sort: column, direction }));
+  };
+
+  const refresh = () => {
+    dispatch(clearAllScanData());
+    dispatch(loadDataQualityDashboard({ id_token, projectId: filters.project }));
+  };
+
+  const openScan = (name: string) => setSearchParams({ scan: name });
+
+  const selectedSummary = summaries.find((summary: DataQualityScanSummary) => summary.name === selectedScanName);
+
+  if (selectedScanName) {
+    return (
+      <Box sx={{ width: '90%', maxWidth: '1400px', margin: '0 auto 16px', padding: '24px', boxSizing: 'border-box' }}>
+        <Button startIcon={<ArrowBack />} onClick={() => setSearchParams({})} sx={{ textTransform: 'none', marginBottom: '8px' }}>
+          All scans
+        </Button>
+        <Typography component="h1" sx={{ fontSize: '24px', fontWeight: 500, color: 'var(--sys-on-surface)' }}>
+          {selectedSummary ? `${selectedSummary.dataset}.${selectedSummary.table}` : selectedScanName.split('/').pop()}
+        </Typography>
+        <Typography sx={{ fontSize: '14px', color: 'var(--sys-on-surface-muted)', marginBottom: '16px' }}>
+          {selectedScanName}
+        </Typography>
+        <DataQuality scanName={selectedScanName} allScansStatus="succeeded" />
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ width: '90%', maxWidth: '1400px', margin: '0 auto 16px', padding: '24px', boxSizing: 'border-box' }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '16px' }}>
+        <Box>
+          <Typography component="h1" sx={{ fontSize: '24px', fontWeight: 500, color: 'var(--sys-on-surface)' }}>Data quality</Typography>
+          <Typography sx={{ fontSize: '14px', color: 'var(--sys-on-surface-muted)' }}>
+            {`${rows.length} scan${rows.length === 1 ? '' : 's'}, ${failingCount} failing`}
+          </Typography>
+        </Box>
+        <Button
+          startIcon={status === 'loading' ? <CircularProgress size={16} /> : <Refresh />}
+          onClick={refresh}
+          disabled={status === 'loading'}
+          sx={{ textTransform: 'none' }}
+        >
+          Refresh
+        </Button>
+      </Box>
+
+      {/* Filters */}
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '12px', marginBottom: '16px' }}>
+        <FormControl size="small" sx={filterSx}>
+          <InputLabel id="dq-dashboard-project">Project</InputLabel>
+          <Select
+            labelId="dq-dashboard-project"
+            label="Project"
+            value={filters.project}
+            onChange={(e) => dispatch(setDashboardFilters({ project: e.target.value, dataset: '' }))}
+          >
+            <MenuItem value="" sx={{ fontSize: '12px' }}>Default project</MenuItem>
+            {projects.map((project: any) => (
+              <MenuItem key={project.projectId} value={project.projectId} sx={{ fontSize: '12px' }}>{project.projectId}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <FormControl size="small" sx={filterSx}>
+          <InputLabel id="dq-dashboard-dataset">Dataset</InputLabel>
+          <Select
+            labelId="dq-dashboard-dataset"
+            label="Dataset"
+            value={filters.dataset}
+            onChange={(e) => dispatch(setDashboardFilters({ dataset: e.target.value }))}
+          >
+            <MenuItem value="" sx={{ fontSize: '12px' }}>All datasets</MenuItem>
+            {datasets.map((dataset) => (
+              <MenuItem key={dataset} value={dataset} sx={{ fontSize: '12px' }}>{dataset}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <FormControl size="small" sx={filterSx}>
+          <InputLabel id="dq-dashboard-data-product">Data product</InputLabel>
+          <Select
+            labelId="dq-dashboard-data-product"
+            label="Data product"
+            value={filters.dataProduct}
+            onChange={(e) => changeScope('dataProduct', e.target.value)}
+          >
+            <MenuItem value="" sx={{ fontSize: '12px' }}>All data products</MenuItem>
+            {dataProducts.map((dataProduct: any) => (
+              <MenuItem key={dataProduct.name} value={dataProduct.name} sx={{ fontSize: '12px' }}>
+                {dataProduct.displayName || dataProduct.name.split('/').pop()}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <Autocomplete
+          size="small"
+          sx={{ ...filterSx, minWidth: '220px' }}
+          options={glossaryTerms}
+          loading={glossaryTermsStatus === 'loading'}
+          value={glossaryTerms.find((term: any) => term.id === filters.glossaryTerm) ?? null}
+          getOptionLabel={(term: any) => term.displayName}
+          isOptionEqualToValue={(option: any, value: any) => option.id === value.id}
+          onChange={(_event, term: any) => changeScope('glossaryTerm', term?.id ?? '')}
+          renderInput={(params) => <TextField {...params} label="Glossary term" />}
+        />
+        {(filters.dataset || filters.dataProduct || filters.glossaryTerm) && (
+          <Button onClick={() => dispatch(resetDataQualityDashboardFilters())} sx={{ textTransform: 'none', fontSize: '12px' }}>
+            Clear filters
+          </Button>
+        )}
+        {scopeStatus === 'loading' && <CircularProgress size={16} aria-label="Loading the filter's assets" />}
+      </Box>
+
+      {status === 'loading' && (
+        <Box role="status" sx={{ marginBottom: '8px' }}>
+          <LinearProgress
+            variant={progress.total > 0 ? 'determinate' : 'indeterminate'}
+            value={progress.total > 0 ? (progress.done / progress.total) * 100 : 0}
+          />
+          <Typography sx={{ fontSize: '12px', color: 'var(--sys-on-surface-muted)', marginTop: '4px' }}>
+            {progress.total > 0 ? `Loading scan results ${progress.done} of ${progress.total}` : 'Listing the data quality scans…'}
+          </Typography>
+        </Box>
+      )}
+      {status === 'failed' && (
+        <Typography role="alert" sx={{ fontSize: '14px', color: 'var(--sys-error)', marginBottom: '8px' }}>
+          {`The data quality scans could not be listed${typeof error === 'string' ? `: ${error}` : '.'}`}
+        </Typography>
+      )}
+
+      <TableContainer sx={{ border: '1px solid var(--sys-outline-variant)', borderRadius: '8px' }}>
+        <Table size="small" aria-label="Data quality scans">
+          <TableHead>
+            <TableRow>
+              <TableCell sx={headerCellSx} sortDirection={sort === 'table' ? sortDirection : false}>
+                <TableSortLabel active={sort === 'table'} direction={sort === 'table' ? sortDirection : 'asc'} onClick={() => changeSort('table')}>
+                  Table
+                </TableSortLabel>
+              </TableCell>
+              <TableCell sx={headerCellSx} sortDirection={sort === 'score' ? sortDirection : false}>
+                <TableSortLabel active={sort === 'score'} direction={sort === 'score' ? sortDirection : 'asc'} onClick={() => changeSort('score')}>
+                  Score
+                </TableSortLabel>
+              </TableCell>
+              <TableCell sx={headerCellSx}>Status</TableCell>
+              <TableCell sx={headerCellSx}>Failing rules</TableCell>
+              <TableCell sx={headerCellSx} sortDirection={sort === 'lastRun' ? sortDirection : false}>
+                <TableSortLabel active={sort === 'lastRun'} direction={sort === 'lastRun' ? sortDirection : 'asc'} onClick={() => changeSort('lastRun')}>
+                  Last run
+                </TableSortLabel>
+              </TableCell>
+              <TableCell sx={headerCellSx}>Trend</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {rows.map((row: DataQualityScanSummary) => {
+              const loading = loadingScans.includes(row.name);
+              const { date, time } = row.lastRun !== null ? getFormattedDateTimeParts(row.lastRun / 1000) : { date: '-', time: '' };
+              return (
+                <TableRow
+                  key={row.name}
+                  hover
+                  tabIndex={0}
+                  onClick={() => openScan(row.name)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') openScan(row.name); }}
+                  sx={{ cursor: 'pointer' }}
+                >
+                  <TableCell sx={cellSx}>
+                    <Typography sx={{ fontSize: '12px', fontWeight: 500 }}>{row.table}</Typography>
+                    <Typography sx={{ fontSize: '11px', color: 'var(--sys-on-surface-muted)' }}>{getSummaryDataset(row)}</Typography>
+                  </TableCell>
+                  <TableCell sx={{ ...cellSx, fontWeight: 500 }}>
+                    {row.score !== null ? formatScore(row.score) : loading ? <CircularProgress size={12} /> : '-'}
+                  </TableCell>
+                  <TableCell sx={cellSx}><StatusChip summary={row} loading={loading} /></TableCell>
+                  <TableCell sx={{ ...cellSx, color: row.failingRules > 0 ? 'var(--sys-error)' : cellSx.color }}>
+                    {row.passed === null ? '-' : row.failingRules}
+                  </TableCell>
+                  <TableCell sx={cellSx}>{time ? `${date}, ${time}` : date}</TableCell>
+                  <TableCell sx={cellSx}><ScoreSparkline scores={row.trend} /></TableCell>
+                </TableRow>
+              );
+            })}
+            {rows.length === 0 && status !== 'loading' && (
+              <TableRow>
+                <TableCell colSpan={6} sx={{ ...cellSx, color: 'var(--sys-on-surface-muted)', textAlign: 'center', padding: '24px' }}>
+                  {summaries.length === 0 ? 'There are no data quality scans in this project.' : 'No scan matches these filters.'}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Box>
+  );
+};
+
+export default DataQualityDashboard;
@@ -17,6 +17,7 @@ import Avatar from '../Avatar/Avatar';
 import { InfoOutline, SchemaOutlined as SchemaIcon, DescriptionOutlined as DescriptionIcon, ContactPageOutlined as ContactPageIcon, ScheduleOutlined as ScheduleIcon, PollOutlined as BarChartIcon, LabelOutlined as LabelIcon, Check as CheckIcon, ContentCopy } from '@mui/icons-material';
 import { useNotification } from '../../contexts/NotificationContext';
 import { normalizeSystemName } from '../../utils/resourceUtils';
+import { getContacts, getLatestUsageValue, getOverview, getSchemaFields, getUsage } from '../../utils/entryModel';
 import { useColumnResize } from '../../hooks/useColumnResize';
 import ResizeHandle from '../Schema/ResizeHandle';
 
@@ -236,16 +237,15 @@ const { date: updateDateShort, time: updateTimeShort } = formatTimeNoSeconds(ent
     return (`${eType[0].toUpperCase()}${eType.slice(1)}`);
   };
 
-  const number = entry?.entryType?.split('/')[1] || '';
   const entryTypeStr = entry?.entryType?.toLowerCase() ?? '';
   const isGlossaryOrAnnotation =
     entryTypeStr.startsWith('glossary/') || entryTypeStr.startsWith('annotation/');
 
   let schema = <Schema entry={filteredSchemaEntry || entry} sx={{width:"100%", borderTopRightRadius:"0px", borderTopLeftRadius:"0px"}} />;
-  const schemaData = entry?.aspects?.[`${number}.global.schema`]?.data?.fields?.fields?.listValue?.values || [];
-  let contacts = entry?.aspects?.[`${number}.global.contacts`]?.data?.fields?.identities?.listValue?.values || [];
-  let usage = entry?.aspects?.[`${number}.global.usage`]?.data?.fields || {};
-  let documentation = entry?.aspects?.[`${number}.global.overview`]?.data?.fields?.content?.stringValue || 'No Documentation Available';
+  const schemaData = getSchemaFields(entry);
+  const contacts = getContacts(entry);
+  const usage = getUsage(entry);
+  const documentation = getOverview(entry) || 'No Documentation Available';
 
   // Always compute memoized helpers at top-level (avoid conditional hooks)
   const firstRow = React.useMemo(() => {
@@ -844,7 +844,7 @@ const { date: updateDateShort, time: updateTimeShort } = formatTimeNoSeconds(ent
                     }}>
                         <Box sx={{ display: "flex", flexDirection: "column" }}>
                             {contacts.length > 0 ? (
-                                contacts.map((contact: any, index: number) => (
+                                contacts.map((contact, index) => (
                                     <Box
                                         key={`contact-${index}`}
                                         sx={{
@@ -854,9 +854,9 @@ const { date: updateDateShort, time: updateTimeShort } = formatTimeNoSeconds(ent
                                             padding: '14px 0px',
                                         }}
                                     >
-                                        <Avatar text={contact.structValue.fields.name.stringValue} />
+                                        <Avatar text={contact.name} />
                                         <Box sx={{ display: "flex", flexDirection: "column", gap: "4px", minWidth: 0 }}>
-                                            <OverflowTooltip text={contact.structValue.fields.role.stringValue}>
+                                            <OverflowTooltip text={contact.role}>
                                                 <Typography sx={{
                                                     fontFamily: '"Google Sans Regular", sans-serif',
                                                     fontWeight: 500,
@@ -868,11 +868,10 @@ const { date: updateDateShort, time: updateTimeShort } = formatTimeNoSeconds(ent
                                                     textOverflow: "ellipsis",
                                                     whiteSpace: "nowrap",
                                                 }}>
-                                                    {contact.structValue.fields.role.stringValue}
+                                                    {contact.role}
                                                 </Typography>
                                             </OverflowTooltip>
-                                            <OverflowTooltip text={contact.structValue.fields.name.stringValue.split('<').length > 1 ? contact.structValue.fields.name.stringValue.split('<')[1].slice(0, -1)
-                                                : contact.structValue.fields.name.stringValue.length > 0 ? contact.structValue.fields.name.stringValue : "--"}>
+                                            <OverflowTooltip text={contact.email || contact.name || "--"}>
                                                 <Typography sx={{
                                                     fontFamily: '"Google Sans Text", sans-serif',
                                                     fontWeight: 400,
@@ -883,8 +882,7 @@ const { date: updateDateShort, time: updateTimeShort } = formatTimeNoSeconds(ent
                                                     textOverflow: "ellipsis",
                                                     whiteSpace: "nowrap",
                                                 }}>
-                                                    {contact.structValue.fields.name.stringValue.split('<').length > 1 ? contact.structValue.fields.name.stringValue.split('<')[1].slice(0, -1)
-                                                    : contact.structValue.fields.name.stringValue.length > 0 ? contact.structValue.fields.name.stringValue : "--"}
+                                                    {contact.email || contact.name || "--"}
                                                 </Typography>
                                             </OverflowTooltip>
                                         </Box>
@@ -953,7 +951,7 @@ const { date: updateDateShort, time: updateTimeShort } = formatTimeNoSeconds(ent
                     <Divider sx={{ width: "100%", borderColor: "#DADCE0" }} />
                     {/* Content */}
                     <Box sx={{ padding: "16px 20px", width: "100%", boxSizing: "border-box" }}>
-                        {Object.keys(usage).length === 0 ? (
+                        {usage === null ? (
                             <Box sx={{ padding: "24px 0px", textAlign: "center", width: "100%" }}>
                                 <Typography sx={{
                                     fontFamily: '"Google Sans Text", sans-serif',
@@ -973,12 +971,7 @@ const { date: updateDateShort, time: updateTimeShort } = formatTimeNoSeconds(ent
                                         Avg Exec Time
                                     </Typography>
                                     {(() => {
-                                        const executionTimeValue = usage.metrics?.listValue?.values?.find((value:any) =>
-                                            value.structValue.fields.name.stringValue === 'execution_time'
-                                        );
-                                        const latestMs = executionTimeValue?.structValue.fields.timeSeries.listValue.values[
-                                            executionTimeValue.structValue.fields.timeSeries.listValue.values.length - 1
-                                        ]?.structValue.fields.value.numberValue;
+                                        const latestMs = getLatestUsageValue(usage, 'execution_time');
                                         if (!latestMs) return <>
                                             <Typography sx={{ fontFamily: '"Google Sans", sans-serif', fontWeight: 500, fontSize: "2rem", lineHeight: "1.2", color: "#1F1F1F" }}>-</Typography>
                                             <Typography sx={{ fontFamily: '"Google Sans Text", sans-serif', fontWeight: 400, fontSize: "12px", color: "#575757" }}>seconds</Typography>
@@ -1005,13 +998,7 @@ const { date: updateDateShort, time: updateTimeShort } = formatTimeNoSeconds(ent
                                     </Typography>
                                     <Typography sx={{ fontFamily: '"Google Sans", sans-serif', fontWeight: 500, fontSize: "2rem", lineHeight: "1.2", color: "#1F1F1F" }}>
                                         {(() => {
-                                            const totalQueriesValue = usage.metrics?.listValue?.values?.find((value:any) =>
-                                                value.structValue.fields.name.stringValue === 'total_queries'
-                                            );
-                                            const latestValue = totalQueriesValue?.structValue.fields.timeSeries.listValue.values[
-                                                totalQueriesValue.structValue.fields.timeSeries.listValue.values.length - 1
-                                            ]?.structValue.fields.value.numberValue;
-                                            return latestValue || '-';
+                                            return getLatestUsageValue(usage, 'total_queries') || '-';
                                         })()}
                                     </Typography>
                                     <Typography sx={{ fontFamily: '"Google Sans Text", sans-serif', fontWeight: 400, fontSize: "12px", color: "#575757" }}>
@@ -18,11 +18,11 @@ const CardSkeleton: React.FC<{
 }> = ({ headerWidth = 120, children }) => (
   <Box
     sx={{
-      border: '1px solid #DADCE0',
+      border: '1px solid var(--sys-outline-variant)',
       borderRadius: '12px',
       marginTop: '10px',
       overflow: 'hidden',
-      backgroundColor: '#FFFFFF',
+      backgroundColor: 'var(--sys-surface)',
     }}
   >
     {/* Card Header */}
@@ -37,7 +37,7 @@ const CardSkeleton: React.FC<{
       <Skeleton variant="rounded" width={32} height={32} sx={{ borderRadius: '6px', flexShrink: 0 }} />
       <Skeleton variant="text" width={headerWidth} height={24} />
     </Box>
-    <Divider sx={{ width: '100%', borderColor: '#DADCE0' }} />
+    <Divider sx={{ width: '100%', borderColor: 'var(--sys-outline-variant)' }} />
     {/* Card Content */}
     <Box sx={{ padding: '16px 20px' }}>
       {children}
@@ -89,7 +89,7 @@ const DetailPageOverviewSkeleton: React.FC = () => {
                 alignItems: 'center',
                 gap: '12px',
                 padding: '10px 0px',
-                borderBottom: i < 2 ? '1px solid #DADCE0' : 'none',
+                borderBottom: i < 2 ? '1px solid var(--sys-outline-variant)' : 'none',
               }}
             >
               <Skeleton variant="circular" width={32} height={32} />
@@ -127,7 +127,7 @@ const DetailPageOverviewSkeleton: React.FC = () => {
                 justifyContent: 'space-between',
                 alignItems: 'center',
                 padding: '14px 0px',
-                borderBottom: i < 1 ? '1px solid #DADCE0' : 'none',
+                borderBottom: i < 1 ? '1px solid var(--sys-outline-variant)' : 'none',
               }}
             >
               <Skeleton variant="text" width={80} height={14} />
@@ -146,7 +146,7 @@ const DetailPageOverviewSkeleton: React.FC = () => {
                 justifyContent: 'space-between',
                 alignItems: 'center',
                 padding: '14px 0px',
-                borderBottom: i < 2 ? '1px solid #DADCE0' : 'none',
+                borderBottom: i < 2 ? '1px solid var(--sys-outline-variant)' : 'none',
               }}
             >
               <Skeleton variant="text" width={70} height={14} />
@@ -270,9 +270,9 @@ const EntryList: React.FC<EntryListProps> = ({ entry }) => {
 
   const getSortIcon = (column: string) => {
     if (sortColumn !== column || sortDirection === null) {
-      return <ArrowUpward sx={{ fontSize: '16px', color: '#575757', opacity: 0.3 }} />;
+      return <ArrowUpward sx={{ fontSize: '16px', color: 'var(--sys-on-surface-muted)', opacity: 0.3 }} />;
     }
-    return sortDirection === 'asc' ? <ArrowUpward sx={{ fontSize: '16px', color: '#575757' }} /> : <ArrowDownward sx={{ fontSize: '16px', color: '#575757' }} />;
+    return sortDirection === 'asc' ? <ArrowUpward sx={{ fontSize: '16px', color: 'var(--sys-on-surface-muted)' }} /> : <ArrowDownward sx={{ fontSize: '16px', color: 'var(--sys-on-surface-muted)' }} />;
   };
 
   if (!loading && !fetchFailed && entryData.length === 0) {
@@ -297,7 +297,7 @@ const EntryList: React.FC<EntryListProps> = ({ entry }) => {
   return !loading ? !fetchFailed ? (
     <Box sx={{
       flex: 1,
-      backgroundColor: '#ffffff',
+      backgroundColor: 'var(--sys-surface)',
       borderRadius: '8px',
       // borderBottom: '1px solid #DADCE0',
       overflow: 'hidden',
@@ -308,22 +308,22 @@ const EntryList: React.FC<EntryListProps> = ({ entry }) => {
         flexDirection: 'column',
         gap: activeFilters.length > 0 ? '8px' : '0px',
         padding: '8px 12px 8px 10px', 
-        border: '1px solid #DADCE0',
+        border: '1px solid var(--sys-outline-variant)',
         borderBottom: 'none',
         borderTopRightRadius: '8px',
         borderTopLeftRadius: '8px',
-        backgroundColor: '#FFFFFF'
+        backgroundColor: 'var(--sys-surface)'
       }}>
         {/* Filter Header */}
         <Box sx={{ display: 'flex', alignItems: 'center', height: '19px' }}>
           <Box sx={{ display: 'flex', alignItems: 'center', cursor: 'pointer' }} onClick={handleFilterClick}>
             <Tooltip title="Filter by property" arrow>
-              <IconButton size="small" sx={{ padding: '4px 4px 5px 4px', "&:hover": {backgroundColor: '#E8F4FF' } }}>
-                <FilterList sx={{ fontSize: '16px', color: '#1F1F1F' }} />
+              <IconButton size="small" sx={{ padding: '4px 4px 5px 4px', "&:hover": {backgroundColor: 'var(--sys-selected-container-sky)' } }}>
+                <FilterList sx={{ fontSize: '16px', color: 'var(--sys-on-surface)' }} />
               </IconButton>
             </Tooltip>
             <Tooltip title="Filter by property" arrow>
-              <Typography sx={{ fontSize: '12px', fontWeight: 500, color: '#1F1F1F', "&:hover": { textDecoration: 'underline' } }}>
+              <Typography sx={{ fontSize: '12px', fontWeight: 500, color: 'var(--sys-on-surface)', "&:hover": { textDecoration: 'underline' } }}>
                 Filter
               </Typography>
             </Tooltip>
@@ -345,7 +345,7 @@ const EntryList: React.FC<EntryListProps> = ({ entry }) => {
                 },
                 '& fieldset': { border: 'none' },
                 '& input::placeholder': {
-                color: '#575757',
+                color: 'var(--sys-on-surface-muted)',
                 opacity: 1,
                 },
               },
@@ -375,18 +375,18 @@ const EntryList: React.FC<EntryListProps> = ({ entry }) => {
             {activeFilters.map((filter) => (
               <Box key={filter.property} sx={{
                   display: 'flex', alignItems: 'center', gap: '6px',
-                  padding: '4px 8px', backgroundColor: '#E7F0FE',
-                  border: '1px solid #0E4DCA', borderRadius: '16px',
+                  padding: '4px 8px', backgroundColor: 'var(--sys-selected-container)',
+                  border: '1px solid var(--sys-brand)', borderRadius: '16px',
                 }}
               >
-                <Typography sx={{ fontSize: '12px', fontWeight: 500, color: '#0E4DCA' }}>
+                <Typography sx={{ fontSize: '12px', fontWeight: 500, color: 'var(--sys-brand)' }}>
                   {columnDisplayNames[filter.property as keyof EntryItem]}:
                 </Typography>
-                <Typography sx={{ fontSize: '12px', color: '#1F1F1F' }}>
+                <Typography sx={{ fontSize: '12px', color: 'var(--sys-on-surface)' }}>
                   {filter.values.join(', ')}
                 </Typography>
                 <IconButton size="small" onClick={() => handleRemoveFilter(filter.property)} sx={{ padding: '2px' }}>
-                  <Close sx={{ fontSize: '12px', color: '#0E4DCA' }} />
+                  <Close sx={{ fontSize: '12px', color: 'var(--sys-brand)' }} />
                 </IconButton>
               </Box>
             ))}
@@ -405,10 +405,10 @@ const EntryList: React.FC<EntryListProps> = ({ entry }) => {
           // Show property names
           <div>
             <MenuItem sx={{ 
-                fontSize: '0.6875rem', fontWeight: 450, backgroundColor: '#F8F9FA',
-                borderBottom: '1px solid #E0E0E0', height: "32px", minHeight: "32px",
+                fontSize: '0.6875rem', fontWeight: 450, backgroundColor: 'var(--sys-background-neutral)',
+                borderBottom: '1px solid var(--sys-divider)', height: "32px", minHeight: "32px",
                 paddingTop: 0, paddingBottom: 1,
-                "&.Mui-disabled": { opacity: 1, color: "#575757 !important", backgroundColor: "transparent !important" },
+                "&.Mui-disabled": { opacity: 1, color: "var(--sys-on-surface-muted) !important", backgroundColor: "transparent !important" },
               }}
               disabled>
               <ListItemText primary="Select Property to Filter" primaryTypographyProps={{ fontSize: '12px', fontWeight: 500 }} />
@@ -424,8 +424,8 @@ const EntryList: React.FC<EntryListProps> = ({ entry }) => {
           <div>
             <MenuItem onClick={() => setSelectedProperty('')} 
                       sx={{ 
-                          fontSize: '0.6875rem', fontWeight: 400, backgroundColor: '#F8F9FA',
-                          borderBottom: '1px solid #E0E0E0',
+                          fontSize: '0.6875rem', fontWeight: 400, backgroundColor: 'var(--sys-background-neutral)',
+                          borderBottom: '1px solid var(--sys-divider)',
                           marginTop: '-8px',
                                   paddingTop: 1.30,
                                   paddingBottom: 1.30,
@@ -433,8 +433,8 @@ const EntryList: React.FC<EntryListProps> = ({ entry }) => {
               <ListItemText primary="← Back to Properties" primaryTypographyProps={{ fontSize: '12px' }} />
             </MenuItem>
             <MenuItem sx={{ 
-                fontSize: '0.6875rem', fontWeight: 400, backgroundColor: '#F8F9FA',
-                borderBottom: '1px solid #E0E0E0'
+                fontSize: '0.6875rem', fontWeight: 400, backgroundColor: 'var(--sys-background-neutral)',
+                borderBottom: '1px solid var(--sys-divider)'
               }}
             disabled>
                 <ListItemText primary={`Filter by: ${columnDisplayNames[selectedProperty as keyof EntryItem]}`} primaryTypographyProps={{ fontSize: '12px', fontWeight: 500 }} />
@@ -456,7 +456,7 @@ const EntryList: React.FC<EntryListProps> = ({ entry }) => {
       <TableContainer sx={{ 
         maxHeight: '600px', 
         overflow: 'auto', 
-        border: '1px solid #E1E3E1', 
+        border: '1px solid var(--sys-outline-soft)', 
         borderBottomRightRadius: '8px', 
         borderBottomLeftRadius: '8px',
         marginTop: '0px'
@@ -468,8 +468,8 @@ const EntryList: React.FC<EntryListProps> = ({ entry }) => {
               onMouseEnter={() => setIsNameHeaderHovered(true)}
               onMouseLeave={() => setIsNameHeaderHovered(false)}
               sx={{
-                backgroundColor: '#F0F4F8',
-                borderBottom: '1px solid #DADCE0',
+                backgroundColor: 'var(--sys-surface-container)',
+                borderBottom: '1px solid var(--sys-outline-variant)',
                 padding: '8px 16px',
                 width: '200px'
               }}>
@@ -478,7 +478,7 @@ const EntryList: React.FC<EntryListProps> = ({ entry }) => {
                     fontFamily: '"Google Sans", sans-serif',
                     fontSize: '12px',
                     fontWeight: 500,
-                    color: '#444746',
+                    color: 'var(--sys-on-surface-variant)',
                     lineHeight: '1.33em',
                     letterSpacing: '0.83%'
                   }}>
@@ -494,8 +494,8 @@ const EntryList: React.FC<EntryListProps> = ({ entry }) => {
                 </Box>
               </TableCell>
               <TableCell sx={{
-                backgroundColor: '#F0F4F8',
-                borderBottom: '1px solid #DADCE0',
+                backgroundColor: 'var(--sys-surface-container)',
+                borderBottom: '1px solid var(--sys-outline-variant)',
                 padding: '8px 16px',
                 width: '600px'
               }}>
@@ -503,7 +503,7 @@ const EntryList: React.FC<EntryListProps> = ({ entry }) => {
                   fontFamily: 'Google Sans',
                   fontSize: '12px',
                   fontWeight: 500,
-                  color: '#444746',
+                  color: 'var(--sys-on-surface-variant)',
                   lineHeight: '1.67em'
                 }}>
                   Description
@@ -513,8 +513,8 @@ const EntryList: React.FC<EntryListProps> = ({ entry }) => {
               onMouseEnter={() => setIsLastModifiedHeaderHovered(true)}
               onMouseLeave={() => setIsLastModifiedHeaderHovered(false)}
               sx={{
-                backgroundColor: '#F0F4F8',
-                borderBottom: '1px solid #DADCE0',
+                backgroundColor: 'var(--sys-surface-container)',
+                borderBottom: '1px solid var(--sys-outline-variant)',
                 padding: '8px 16px',
                 width: '200px'
               }}>
@@ -523,7 +523,7 @@ const EntryList: React.FC<EntryListProps> = ({ entry }) => {
                   fontFamily: 'Google Sans',
                   fontSize: '12px',
                   fontWeight: 500,
-                  color: '#444746',
+                  color: 'var(--sys-on-surface-variant)',
                   lineHeight: '1.67em'
                 }}>
                   Last Modification Time
@@ -564,7 +564,7 @@ const EntryList: React.FC<EntryListProps> = ({ entry }) => {
               <TableRow key={row.id} sx={{ height: '36px', maxHeight: '36px', boxSizing: 'border-box' }}>
                 <TableCell sx={{
                   padding: '8px 16px',
-                  borderBottom: index < filteredData.length - 1 ? '1px solid #DADCE0' : 'none',
+                  borderBottom: index < filteredData.length - 1 ? '1px solid var(--sys-outline-variant)' : 'none',
                   verticalAlign: 'top'
                 }}>
                   <Typography
@@ -576,7 +576,7 @@ const EntryList: React.FC<EntryListProps> = ({ entry }) => {
                     fontFamily: 'Google Sans Text',
                     fontSize: '12px',
                     fontWeight: 400,
-                    color: '#0B57D0',
+                    color: 'var(--sys-primary)',
                     lineHeight: '1.33em',
                     letterSpacing: '0.83%',
                     cursor: 'pointer',
@@ -587,14 +587,14 @@ const EntryList: React.FC<EntryListProps> = ({ entry }) => {
                 </TableCell>
                 <TableCell sx={{
                   padding: '8px 16px',
-                  borderBottom: index < filteredData.length - 1 ? '1px solid #DADCE0' : 'none',
+                  borderBottom: index < filteredData.length - 1 ? '1px solid var(--sys-outline-variant)' : 'none',
                   verticalAlign: 'top'
                 }}>
                   <Typography sx={{
                     fontFamily: 'Google Sans Text',
                     fontSize: '12px',
                     fontWeight: 400,
-                    color: '#1F1F1F',
+                    color: 'var(--sys-on-surface)',
                     lineHeight: '1.33em',
                     letterSpacing: '0.83%'
                   }}>
@@ -603,14 +603,14 @@ const EntryList: React.FC<EntryListProps> = ({ entry }) => {
                 </TableCell>
                 <TableCell sx={{
                   padding: '8px 16px',
-                  borderBottom: index < filteredData.length - 1 ? '1px solid #DADCE0' : 'none',
+                  borderBottom: index < filteredData.length - 1 ? '1px solid var(--sys-outline-variant)' : 'none',
                   verticalAlign: 'top'
                 }}>
                   <Typography sx={{
                     fontFamily: 'Google Sans Text',
                     fontSize: '12px',
                     fontWeight: 400,
-                    color: '#1F1F1F',
+                    color: 'var(--sys-on-surface)',
                     lineHeight: '1.33em',
                     letterSpacing: '0.83%'
                   }}>
@@ -626,7 +626,7 @@ const EntryList: React.FC<EntryListProps> = ({ entry }) => {
     </Box>
   ):(
     <Box sx={{
-      flex: 1, backgroundColor: '#ffffff', borderRadius: '8px', border: '1px solid #DADCE0',
+      flex: 1, backgroundColor: 'var(--sys-surface)', borderRadius: '8px', border: '1px solid var(--sys-outline-variant)',
       overflow: 'hidden', marginTop: '5rem', alignItems:'center', justifyContent:'center',
       display: 'flex', minHeight: '400px'
     }}>
@@ -634,7 +634,7 @@ const EntryList: React.FC<EntryListProps> = ({ entry }) => {
     </Box>
   ):(
     <Box sx={{
-      flex: 1, backgroundColor: '#ffffff', borderRadius: '8px', overflow: 'hidden',
+      flex: 1, backgroundColor: 'var(--sys-surface)', borderRadius: '8px', overflow: 'hidden',
       marginTop: '5rem', display: 'flex', alignItems: 'center', justifyContent: 'center',
       minHeight: '400px'
     }}>
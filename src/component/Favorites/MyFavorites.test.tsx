@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import MyFavorites from './MyFavorites';
+import type { Favorite, FavoriteEntrySnapshot } from '../../features/favorites/favoritesSlice';
+
+const makeFavorite = (name: string, overrides: Partial<Favorite> = {}, system = 'BigQuery', type = 'bigquery-table'): Favorite => ({
+  entryName: `projects/p/locations/us/entryGroups/g/entries/${name}`,
+  owner: 'test@example.com',
+  entry: {
+    name: `projects/p/locations/us/entryGroups/g/entries/${name}`,
+    entryType: `projects/p/locations/global/entryTypes/${type}`,
+    fullyQualifiedName: '',
+    updateTime: new Date().toISOString(),
+    entrySource: { displayName: name, system, description: '', location: 'us', resource: '' },
+  },
+  addedAt: '2024-01-01T00:00:00Z',
+  status: 'available',
+  checkedAt: null,
+  ...overrides,
+});
+
+let mockFavorites: Favorite[] = [];
+let mockStatus = 'succeeded';
+const mockDispatch = vi.fn();
+const mockNavigate = vi.fn();
+
+vi.mock('react-redux', () => ({
+  useDispatch: () => mockDispatch,
+  useSelector: (selector: (state: unknown) => unknown) =>
+    selector({ user: { mode: 'light' }, favorites: { items: mockFavorites, status: mockStatus, refreshStatus: 'idle' } }),
+}));
+
+vi.mock('react-router-dom', () => ({
+  useNavigate: () => mockNavigate,
+}));
+
+vi.mock('../../auth/AuthProvider', () => ({
+  useAuth: () => ({ user: { token: 'test-token' } }),
+}));
+
+vi.mock('../../features/favorites/favoritesSlice', () => ({
+  refreshFavorites: vi.fn((params) => ({ type: 'favorites/refreshFavorites', payload: params })),
+  removeFavorite: vi.fn((params) => ({ type: 'favorites/removeFavorite', payload: params })),
+}));
+
+vi.mock('../../features/entry/entrySlice', () => ({
+  clearHistory: vi.fn(() => ({ type: 'entry/clearHistory' })),
+  fetchEntry: vi.fn((params) => ({ type: 'entry/fetchEntry', payload: params })),
+}));
+
+vi.mock('../SearchEntriesCard/SearchEntriesCard', () => ({
+  default: ({ entry, onDoubleClick }: { entry: FavoriteEntrySnapshot; onDoubleClick?: (entry: FavoriteEntrySnapshot) => void }) => (
+    <div data-testid="search-entries-card" onDoubleClick={() => onDoubleClick?.(entry)}>
+      {entry.entrySource.displayName}
+    </div>
+  ),
+}));
+
+describe('MyFavorites', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockStatus = 'succeeded';
+    mockFavorites = [];
+  });
+
+  it('checks the favorites against the catalog on mount', () => {
+    render(<MyFavorites />);
+
+    expect(mockDispatch).toHaveBeenCalledWith({
+      type: 'favorites/refreshFavorites',
+      payload: { id_token: 'test-token' },
+    });
+  });
+
+  it('shows a hint when there are no favorites', () => {
+    render(<MyFavorites />);
+
+    expect(screen.getByText(/You have no favorites yet/)).toBeInTheDocument();
+  });
+
+  it('groups favorites by system and entry type', () => {
+    mockFavorites = [
+      makeFavorite('orders'),
+      makeFavorite('sales', {}, 'BigQuery', 'bigquery-dataset'),
+      makeFavorite('files', {}, 'CLOUD_STORAGE', 'storage-bucket'),
+      makeFavorite('customers'),
+    ];
+    render(<MyFavorites />);
+
+    expect(screen.getByText('4 favorites')).toBeInTheDocument();
+    const bigQuery = screen.getByRole('region', { name: 'BigQuery' });
+    expect(within(bigQuery).getByText('Table (2)')).toBeInTheDocument();
+    expect(within(bigQuery).getByText('Dataset (1)')).toBeInTheDocument();
+    expect(within(screen.getByRole('region', { name: 'CLOUD_STORAGE' })).getByText('files')).toBeInTheDocument();
+  });
+
+  it('flags deleted, inaccessible and stale entries', () => {
+    mockFavorites = [
+      makeFavorite('gone', { status: 'deleted' }),
+      makeFavorite('locked', { status: 'noAccess' }),
+      makeFavorite('old', {
+        entry: { ...makeFavorite('old').entry!, updateTime: '2020-01-01T00:00:00Z' },
+      }),
+      makeFavorite('fresh'),
+    ];
+    render(<MyFavorites />);
+
+    expect(screen.getByText('Deleted')).toBeInTheDocument();
+    expect(screen.getByText('No access')).toBeInTheDocument();
+    expect(screen.getByTestId('favorite-status-stale')).toBeInTheDocument();
+    expect(within(screen.getByTestId(`favorite-${makeFavorite('fresh').entryName}`)).queryByTestId(/favorite-status/)).toBeNull();
+  });
+
+  it('lists imported favorites that have not been checked yet and removes them', () => {
+    const imported = makeFavorite('legacy', { entry: null, status: 'unknown' });
+    mockFavorites = [imported];
+    render(<MyFavorites />);
+
+    expect(screen.getByText('Not checked')).toBeInTheDocument();
+    fireEvent.click(screen.getByLabelText(`Remove ${imported.entryName} from favorites`));
+
+    expect(mockDispatch).toHaveBeenCalledWith({
+      type: 'favorites/removeFavorite',
+      payload: { id_token: 'test-token', entryName: imported.entryName, favorite: imported },
+    });
+  });
+
+  it('opens the details of an entry but not of a deleted one', () => {
+    mockFavorites = [makeFavorite('orders'), makeFavorite('gone', { status: 'deleted' })];
+    render(<MyFavorites />);
+
+    fireEvent.doubleClick(screen.getByText('gone'));
+    expect(mockNavigate).not.toHaveBeenCalled();
+
+    fireEvent.doubleClick(screen.getByText('orders'));
+    expect(mockDispatch).toHaveBeenCalledWith({
+      type: 'entry/fetchEntry',
+      payload: { entryName: makeFavorite('orders').entryName, id_token: 'test-token' },
+    });
+    expect(mockNavigate).toHaveBeenCalledWith('/view-details', undefined);
+  });
+});
@@ -0,0 +1,175 @@
+import React, { useEffect, useMemo } from 'react';
+import { Box, Button, CircularProgress, IconButton, Tooltip, Typography } from '@mui/material';
+import { Refresh, Star } from '@mui/icons-material';
+import { useDispatch, useSelector } from 'react-redux';
+import { useNavigate } from 'react-router-dom';
+import type { AppDispatch, RootState } from '../../app/store';
+import { useAuth } from '../../auth/AuthProvider';
+import { clearHistory, fetchEntry } from '../../features/entry/entrySlice';
+import { refreshFavorites, removeFavorite, type Favorite } from '../../features/favorites/favoritesSlice';
+import { FAVORITE_STALE_AFTER_DAYS, groupFavorites, isFavoriteStale } from '../../utils/favoriteUtils';
+import SearchEntriesCard from '../SearchEntriesCard/SearchEntriesCard';
+
+/**
+ * @file MyFavorites.tsx
+ * @description
+ * The "My favorites" page. Lists the user's favorites grouped by system and
+ * entry type, using the same `SearchEntriesCard` as the search results. On
+ * load every favorite is looked up again (`refreshFavorites`), so entries that
+ * were deleted, that the user can no longer read, or that have not been
+ * modified for a long time are flagged instead of silently disappearing.
+ */
+
+const STATUS_LABELS: Record<string, { label: string; color: string; background: string }> = {
+  deleted: { label: 'Deleted', color: '#A50E0E', background: '#FCE8E6' },
+  noAccess: { label: 'No access', color: '#7A4100', background: '#FEEFC3' },
+  unknown: { label: 'Not checked', color: '#575757', background: '#F1F3F4' },
+  stale: { label: `Not modified in ${FAVORITE_STALE_AFTER_DAYS} days`, color: '#7A4100', background: '#FEEFC3' },
+};
+
+const getStatusKey = (favorite: Favorite) => {
+  if (favorite.status !== 'available') return favorite.status;
+  return isFavoriteStale(favorite) ? 'stale' : null;
+};
+
+const MyFavorites: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const mode = useSelector((state: RootState) => state.user.mode);
+  const favorites = useSelector((state: RootState) => state.favorites.items);
+  const status = useSelector((state: RootState) => state.favorites.status);
+  const refreshStatus = useSelector((state: RootState) => state.favorites.refreshStatus);
+  const id_token = user?.token || '';
+  const textColor = mode === 'dark' ? '#e3e3e3' : '#1F1F1F';
+  const secondaryColor = mode === 'dark' ? '#9aa0a6' : '#575757';
+
+  const groups = useMemo(() => groupFavorites(favorites), [favorites]);
+  const isRefreshing = refreshStatus === 'loading';
+
+  useEffect(() => {
+    if (id_token) dispatch(refreshFavorites({ id_token }));
+  }, [id_token, dispatch]);
+
+  const openDetails = (favorite: Favorite, tabName?: string) => {
+    if (favorite.status === 'deleted') return;
+    dispatch(clearHistory());
+    dispatch(fetchEntry({ entryName: favorite.entryName, id_token }));
+    navigate('/view-details', tabName ? { state: { tabName } } : undefined);
+  };
+
+  const renderStatus = (favorite: Favorite) => {
+    const key = getStatusKey(favorite);
+    if (!key) return null;
+    const { label, color, background } = STATUS_LABELS[key];
+    return (
+      <Typography
+        component="span"
+        data-testid={`favorite-status-${key}`}
+        sx={{ fontSize: '12px', fontWeight: 500, color, backgroundColor: background, borderRadius: '38px', padding: '2px 10px', whiteSpace: 'nowrap' }}
+      >
+        {label}
+      </Typography>
+    );
+  };
+
+  // Favorites imported from the browser have no snapshot until they are checked.
+  const renderWithoutSnapshot = (favorite: Favorite) => (
+    <Box
+      sx={{
+        flex: '1 1 auto',
+        minWidth: 0,
+        padding: '12px 16px',
+        borderRadius: '16px',
+        border: `1px solid ${mode === 'dark' ? '#3c4043' : '#DADCE0'}`,
+        display: 'flex',
+        alignItems: 'center',
+        gap: '8px',
+      }}
+    >
+      <Box sx={{ minWidth: 0, flex: '1 1 auto' }}>
+        <Typography noWrap sx={{ fontSize: '16px', fontWeight: 500, color: textColor }}>
+          {favorite.entryName.split('/').pop()}
+        </Typography>
+        <Typography noWrap sx={{ fontSize: '12px', color: secondaryColor }}>{favorite.entryName}</Typography>
+      </Box>
+      <Tooltip title="Remove from favorites">
+        <IconButton
+          size="small"
+          aria-label={`Remove ${favorite.entryName} from favorites`}
+          onClick={() => dispatch(removeFavorite({ id_token, entryName: favorite.entryName, favorite }))}
+        >
+          <Star sx={{ fontSize: 20, color: '#F9AB00' }} />
+        </IconButton>
+      </Tooltip>
+    </Box>
+  );
+
+  const renderFavorite = (favorite: Favorite) => (
+    <Box key={favorite.entryName} data-testid={`favorite-${favorite.entryName}`} sx={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+      {renderStatus(favorite) && <Box sx={{ display: 'flex' }}>{renderStatus(favorite)}</Box>}
+      {favorite.entry?.updateTime ? (
+        <SearchEntriesCard
+          entry={favorite.entry}
+          id_token={id_token}
+          onDoubleClick={() => openDetails(favorite)}
+          onNavigateToTab={(_entry, tabName) => openDetails(favorite, tabName)}
+          sx={{ opacity: favorite.status === 'deleted' ? 0.6 : 1 }}
+        />
+      ) : renderWithoutSnapshot(favorite)}
+    </Box>
+  );
+
+  return (
+    <Box sx={{ width: '90%', maxWidth: '1400px', margin: '0 auto 16px', padding: '24px', boxSizing: 'border-box' }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '16px' }}>
+        <Box>
+          <Typography component="h1" sx={{ fontSize: '24px', fontWeight: 500, color: textColor }}>My favorites</Typography>
+          <Typography sx={{ fontSize: '14px', color: secondaryColor }}>
+            {favorites.length} favorite{favorites.length === 1 ? '' : 's'}
+          </Typography>
+        </Box>
+        <Button
+          startIcon={isRefreshing ? <CircularProgress size={16} /> : <Refresh />}
+          onClick={() => dispatch(refreshFavorites({ id_token }))}
+          disabled={isRefreshing || favorites.length === 0}
+          sx={{ textTransform: 'none' }}
+        >
+          Check again
+        </Button>
+      </Box>
+
+      {status === 'loading' && favorites.length === 0 ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', padding: '48px' }}>
+          <CircularProgress />
+        </Box>
+      ) : favorites.length === 0 ? (
+        <Typography sx={{ fontSize: '14px', color: secondaryColor }}>
+          You have no favorites yet. Star an entry in the search results to add it here.
+        </Typography>
+      ) : (
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: '24px' }}>
+          {groups.map((group) => (
+            <Box key={group.system} component="section" aria-label={group.system}>
+              <Typography component="h2" sx={{ fontSize: '18px', fontWeight: 500, color: textColor, marginBottom: '8px' }}>
+                {group.system}
+              </Typography>
+              {group.entryTypes.map(({ entryType, favorites: items }) => (
+                <Box key={entryType} sx={{ marginBottom: '16px' }}>
+                  <Typography component="h3" sx={{ fontSize: '14px', fontWeight: 500, color: secondaryColor, marginBottom: '8px' }}>
+                    {entryType} ({items.length})
+                  </Typography>
+                  <Box sx={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                    {items.map(renderFavorite)}
+                  </Box>
+                </Box>
+              ))}
+            </Box>
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default MyFavorites;
@@ -37,11 +37,12 @@ import FilterSubAnnotationsPanel from './FilterSubAnnotationsPanel';
 import axios from 'axios';
 import { URLS } from '../../constants/urls';
 import { useDispatch, useSelector } from 'react-redux';
-import type { AppDispatch } from '../../app/store';
+import type { AppDispatch, RootState } from '../../app/store';
 import { getProjects } from '../../features/projects/projectsSlice';
 import { getAssetIcon } from '../../utils/resourceUtils';
 import DatabaseSchemaBlueIcon from '../../assets/svg/database_schema_icon_blue.svg';
 import { isGlossaryAssetType, getGlossaryMuiIcon, assetNameToGlossaryType } from '../../constants/glossaryIcons';
+import { SEARCH_ASSET_NAMES, SEARCH_PRODUCT_NAMES } from '../../utils/searchQuery';
 
 /**
  * @file FilterDropdown.tsx
@@ -150,186 +151,12 @@ const FilterDropdown: React.FC<FilterProps> = ({ filters , onFilterChange, isGlo
 
  let assets:any = {
     title: 'Assets',
-    items: [
-      {
-        "name": "Bucket",
-        "type": "typeAliases"
-      },
-      {
-        "name": "Cluster",
-        "type": "typeAliases"
-      },
-      {
-        "name": "Code asset",
-        "type": "typeAliases"
-      },
-      {
-        "name": "Connection",
-        "type": "typeAliases"
-      },
-      {
-        "name": "Dashboard",
-        "type": "typeAliases"
-      },
-      {
-        "name": "Dashboard element",
-        "type": "typeAliases"
-      },
-      {
-        "name": "Data exchange",
-        "type": "typeAliases"
-      },
-      {
-        "name": "Data source connection",
-        "type": "typeAliases"
-      },
-      {
-        "name": "Data stream",
-        "type": "typeAliases"
-      },
-      {
-        "name": "Database",
-        "type": "typeAliases"
-      },
-      {
-        "name": "Database schema",
-        "type": "typeAliases"
-      },
-      {
-        "name": "Dataset",
-        "type": "typeAliases"
-      },
-      {
-        "name": "Explore",
-        "type": "typeAliases"
-      },
-      {
-        "name": "Feature group",
-        "type": "typeAliases"
-      },
-      {
-        "name": "Feature online store",
-        "type": "typeAliases"
-      },
-      {
-        "name": "Feature view",
-        "type": "typeAliases"
-      },
-      {
-        "name": "Fileset",
-        "type": "typeAliases"
-      },
-      {
-        "name": "Folder",
-        "type": "typeAliases"
-      },
-      {
-        "name": "Function",
-        "type": "typeAliases"
-      },
-      {
-        "name": "Glossary",
-        "type": "typeAliases"
-      },
-      {
-        "name": "Glossary Category",
-        "type": "typeAliases"
-      },
-      {
-        "name": "Glossary Term",
-        "type": "typeAliases"
-      },
-      {
-        "name": "Listing",
-        "type": "typeAliases"
-      },
-      {
-        "name": "Look",
-        "type": "typeAliases"
-      },
-      {
-        "name": "Model",
-        "type": "typeAliases"
-      },
-      {
-        "name": "Repository",
-        "type": "typeAliases"
-      },
-      {
-        "name": "Resource",
-        "type": "typeAliases"
-      },
-      {
-        "name": "Routine",
-        "type": "typeAliases"
-      },
-      {
-        "name": "Service",
-        "type": "typeAliases"
-      },
-      {
-        "name": "Table",
-        "type": "typeAliases"
-      },
-      {
-        "name": "View",
-        "type": "typeAliases"
-      },
-      {
-        "name": "Other",
-        "type": "typeAliases"
-      }
-    ],
+    items: SEARCH_ASSET_NAMES.map((name) => ({ name, type: "typeAliases" })),
     defaultExpanded: false,
   };
   let products:any = {
     title: 'Products',
-    items: [
-      {
-        "name": "Analytics Hub",
-        "type": "system"
-      },
-      {
-        "name": "BigQuery",
-        "type": "system"
-      },
-      {
-        "name": "Cloud BigTable",
-        "type": "system"
-      },
-      {
-        "name": "Cloud Pub/Sub",
-        "type": "system"
-      },
-      {
-        "name": "Cloud Spanner",
-        "type": "system"
-      },
-      {
-        "name": "Cloud SQL",
-        "type": "system"
-      },
-      {
-        "name": "Dataform",
-        "type": "system"
-      },
-      {
-        "name": "Knowledge Catalog",
-        "type": "system"
-      },
-      {
-        "name": "Dataproc Metastore",
-        "type": "system"
-      },
-      {
-        "name": "Vertex AI",
-        "type": "system"
-      },
-      {
-        "name": "Others",
-        "type": "system"
-      }
-    ],
+    items: SEARCH_PRODUCT_NAMES.map((name) => ({ name, type: "system" })),
     defaultExpanded: false,
   };
   const { user } = useAuth();
@@ -337,6 +164,7 @@ const FilterDropdown: React.FC<FilterProps> = ({ filters , onFilterChange, isGlo
   const mode = useSelector((state: any) => state.user.mode) as string;
   const searchTerm = useSelector((state: any) => state.search.searchTerm);
   const searchSubmitted = useSelector((state: any) => state.search.searchSubmitted);
+  const searchFiltersFromQuery = useSelector((state: RootState) => state.search.searchFiltersFromQuery);
   const projectsLoaded = useSelector((state: any) => state.projects.isloaded);
   const projectsList = useSelector((state: any) => state.projects.items);
   const [loading, setLoading] = useState(false);
@@ -437,6 +265,13 @@ const FilterDropdown: React.FC<FilterProps> = ({ filters , onFilterChange, isGlo
     if (!searchSubmitted) return;
     if (isGlossary) return;
 
+    if (searchFiltersFromQuery) {
+      // Filters were parsed from an advanced query, keep them exactly as typed
+      dispatch({ type: 'search/setSearchFiltersFromQuery', payload: false });
+      dispatch({ type: 'search/setSearchSubmitted', payload: false });
+      return;
+    }
+
     const currentFilters = selectedFiltersRef.current;
 
     if (searchTerm && searchTerm.length >= 3) {
@@ -957,6 +792,7 @@ const handleCheckboxChange = (filter: any) => {
                             {filter.title === 'Assets' && !isGlossaryAssetType(item.name) && getAssetIcon(item.name) && (
                               <img
                                 src={item.name === 'Database schema' ? DatabaseSchemaBlueIcon : getAssetIcon(item.name)!}
+                                className="asset-icon"
                                 alt={item.name}
                                 style={{ width: '16px', height: '16px', flexShrink: 0 }}
                               />
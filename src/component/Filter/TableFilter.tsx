@@ -309,13 +309,13 @@ const TableFilter: React.FC<TableFilterProps> = ({
           flexDirection: 'column',
           gap: '8px',
           ...(variant === 'classic'
-            ? { padding: '8px 16px 8px 10px', border: '1px solid #DADCE0', borderTopRightRadius: '8px', borderTopLeftRadius: '8px', backgroundColor: '#FFFFFF', margin: '6px 0px 0px 0px', borderBottom: 'none' }
-            : { padding: '0px', backgroundColor: '#FFFFFF' }),
+            ? { padding: '8px 16px 8px 10px', border: '1px solid var(--sys-outline-variant)', borderTopRightRadius: '8px', borderTopLeftRadius: '8px', backgroundColor: 'var(--sys-surface)', margin: '6px 0px 0px 0px', borderBottom: 'none' }
+            : { padding: '0px', backgroundColor: 'var(--sys-surface)' }),
         }}>
           {/* Filter Header */}
           <Box ref={filterBarRef} sx={variant === 'classic'
             ? { display: 'flex', alignItems: 'center', gap: '4px', height: '19px' }
-            : { display: 'flex', alignItems: 'center', gap: '12px', height: '32px', border: '1px solid #DADCE0', borderRadius: '54px', padding: '8px 4px 8px 2px', boxSizing: 'border-box', width: '280px', minWidth: '280px', marginLeft: '20px' }
+            : { display: 'flex', alignItems: 'center', gap: '12px', height: '32px', border: '1px solid var(--sys-outline-variant)', borderRadius: '54px', padding: '8px 4px 8px 2px', boxSizing: 'border-box', width: '280px', minWidth: '280px', marginLeft: '20px' }
           }>
             <Box sx={{ display: 'flex', alignItems: 'center', gap: '2px' }}>
               <Tooltip title="Filter by selecting property and values" slotProps={{ popper: { modifiers: [{ name: 'offset', options: { offset: [0, -4] } }] } }}>
@@ -328,11 +328,11 @@ const TableFilter: React.FC<TableFilterProps> = ({
                     height: '28px',
                     borderRadius: '50%',
                     '&:hover': {
-                      backgroundColor: '#E8F4FF'
+                      backgroundColor: 'var(--sys-selected-container-sky)'
                     }
                   }}
                 >
-                  <FilterList sx={{ fontSize: '20px', color: '#1f1f1f' }} />
+                  <FilterList sx={{ fontSize: '20px', color: 'var(--sys-on-surface)' }} />
                 </IconButton>
               </Tooltip>
               <Typography
@@ -342,7 +342,7 @@ const TableFilter: React.FC<TableFilterProps> = ({
                   fontWeight: 500,
                   fontSize: '12px',
                   lineHeight: '1.67em',
-                  color: '#1F1F1F',
+                  color: 'var(--sys-on-surface)',
                 }}
               >
                 Filter
@@ -373,12 +373,12 @@ const TableFilter: React.FC<TableFilterProps> = ({
                 '& .MuiInputBase-input': {
                   padding: '4px 4px',
                   fontSize: '12px',
-                  color: '#1F1F1F'
+                  color: 'var(--sys-on-surface)'
                 },
                 '& .MuiInputBase-input::placeholder': {
                   ...(variant === 'classic'
-                    ? { color: '#575757', opacity: 1 }
-                    : { color: '#5E5E5E', opacity: 1, fontFamily: '"Google Sans", sans-serif', fontWeight: 400, fontSize: '12px', lineHeight: '16px', letterSpacing: '0.1px' }),
+                    ? { color: 'var(--sys-on-surface-muted)', opacity: 1 }
+                    : { color: 'var(--sys-on-surface-soft)', opacity: 1, fontFamily: '"Google Sans", sans-serif', fontWeight: 400, fontSize: '12px', lineHeight: '16px', letterSpacing: '0.1px' }),
                 }
               }}
               InputProps={{
@@ -400,7 +400,7 @@ const TableFilter: React.FC<TableFilterProps> = ({
                 onClick={handleClearFilters}
                 sx={{
                   fontSize: '11px',
-                  color: '#0B57D0',
+                  color: 'var(--sys-primary)',
                   textTransform: 'none',
                   padding: '2px 8px',
                   minWidth: 'auto',
@@ -430,8 +430,8 @@ const TableFilter: React.FC<TableFilterProps> = ({
                     alignItems: 'center',
                     gap: '6px',
                     padding: '4px 8px',
-                    backgroundColor: '#E7F0FE',
-                    border: '1px solid #0E4DCA',
+                    backgroundColor: 'var(--sys-selected-container)',
+                    border: '1px solid var(--sys-brand)',
                     borderRadius: '16px',
                     fontSize: '11px'
                   }}
@@ -439,13 +439,13 @@ const TableFilter: React.FC<TableFilterProps> = ({
                   <Typography sx={{
                     fontSize: '12px',
                     fontWeight: 500,
-                    color: '#0E4DCA'
+                    color: 'var(--sys-brand)'
                   }}>
                     {filter.property}:
                   </Typography>
                   <Typography sx={{
                     fontSize: '12px',
-                    color: '#1F1F1F'
+                    color: 'var(--sys-on-surface)'
                   }}>
                     {filter.values.join(', ')}
                   </Typography>
@@ -456,10 +456,10 @@ const TableFilter: React.FC<TableFilterProps> = ({
                       padding: '2px',
                       width: '16px',
                       height: '16px',
-                      color: '#0E4DCA',
+                      color: 'var(--sys-brand)',
                       '&:hover': {
-                        backgroundColor: '#D93025',
-                        color: '#FFFFFF'
+                        backgroundColor: 'var(--sys-error)',
+                        color: 'var(--sys-on-primary)'
                       }
                     }}
                   >
@@ -501,7 +501,7 @@ const TableFilter: React.FC<TableFilterProps> = ({
               width: filterBarRef.current ? `${filterBarRef.current.offsetWidth}px` : '350px',
               minWidth: filterBarRef.current ? `${filterBarRef.current.offsetWidth}px` : '350px',
               maxWidth: 'none',
-              backgroundColor: '#FFFFFF',
+              backgroundColor: 'var(--sys-surface)',
               boxShadow: '0px 2px 8.4px rgba(0, 0, 0, 0.15)',
               borderRadius: '12px',
               padding: '0px',
@@ -533,8 +533,8 @@ const TableFilter: React.FC<TableFilterProps> = ({
                   gap: '12px',
                   height: '45px',
                   minHeight: '45px',
-                  backgroundColor: isActive || isHovered ? '#EDF2FC' : 'transparent',
-                  '&:hover': { backgroundColor: '#EDF2FC' },
+                  backgroundColor: isActive || isHovered ? 'var(--sys-selected-container-low)' : 'transparent',
+                  '&:hover': { backgroundColor: 'var(--sys-selected-container-low)' },
                   '&:first-of-type': { borderRadius: '12px 12px 0 0' },
                   '&:last-of-type': { borderRadius: '0 0 12px 12px' },
                 }}
@@ -548,7 +548,7 @@ const TableFilter: React.FC<TableFilterProps> = ({
                           fontSize: '14px',
                           lineHeight: '20px',
                           letterSpacing: '0.25px',
-                          color: '#44464F',
+                          color: 'var(--sys-on-surface-slate)',
                           overflow: 'hidden',
                           textOverflow: 'ellipsis',
                           whiteSpace: 'nowrap',
@@ -559,7 +559,7 @@ const TableFilter: React.FC<TableFilterProps> = ({
                     </OverflowTooltip>
                   }
                 />
-                <KeyboardArrowRight sx={{ fontSize: '18px', color: '#44464F', marginLeft: 'auto', flexShrink: 0 }} />
+                <KeyboardArrowRight sx={{ fontSize: '18px', color: 'var(--sys-on-surface-slate)', marginLeft: 'auto', flexShrink: 0 }} />
               </MenuItem>
             );
           })}
@@ -588,7 +588,7 @@ const TableFilter: React.FC<TableFilterProps> = ({
           sx: {
             pointerEvents: 'auto',
             width: '281px',
-            backgroundColor: '#FFFFFF',
+            backgroundColor: 'var(--sys-surface)',
             boxShadow: '0px 2px 8.4px rgba(0, 0, 0, 0.15)',
             borderRadius: '12px',
             padding: '0px',
@@ -610,7 +610,7 @@ const TableFilter: React.FC<TableFilterProps> = ({
               gap: '12px',
               height: '45px',
               minHeight: '45px',
-              '&:hover': { backgroundColor: '#EDF2FC' },
+              '&:hover': { backgroundColor: 'var(--sys-selected-container-low)' },
             }}
           >
             <Checkbox
@@ -618,7 +618,7 @@ const TableFilter: React.FC<TableFilterProps> = ({
               size="small"
               sx={{
                 padding: 0,
-                '&.Mui-checked': { color: '#0E4DCA' },
+                '&.Mui-checked': { color: 'var(--sys-brand)' },
               }}
             />
             <ListItemText
@@ -630,7 +630,7 @@ const TableFilter: React.FC<TableFilterProps> = ({
                       fontSize: '14px',
                       lineHeight: '20px',
                       letterSpacing: '0.25px',
-                      color: '#44464F',
+                      color: 'var(--sys-on-surface-slate)',
                       overflow: 'hidden',
                       textOverflow: 'ellipsis',
                       whiteSpace: 'nowrap',
@@ -65,7 +65,7 @@ const BrowsePopover: React.FC<BrowsePopoverProps> = ({
             px: 2,
             py: 1.5,
             cursor: 'pointer',
-            '&:hover': { backgroundColor: '#F8FAFD' },
+            '&:hover': { backgroundColor: 'var(--sys-background)' },
           }}
         >
           <img
@@ -77,7 +77,7 @@ const BrowsePopover: React.FC<BrowsePopoverProps> = ({
             sx={{
               fontFamily: '"Google Sans", sans-serif',
               fontSize: '14px',
-              color: '#1F1F1F',
+              color: 'var(--sys-on-surface)',
             }}
           >
             Glossaries
@@ -94,7 +94,7 @@ const BrowsePopover: React.FC<BrowsePopoverProps> = ({
             px: 2,
             py: 1.5,
             cursor: 'pointer',
-            '&:hover': { backgroundColor: '#F8FAFD' },
+            '&:hover': { backgroundColor: 'var(--sys-background)' },
           }}
         >
           <img
@@ -106,7 +106,7 @@ const BrowsePopover: React.FC<BrowsePopoverProps> = ({
             sx={{
               fontFamily: '"Google Sans", sans-serif',
               fontSize: '14px',
-              color: '#1F1F1F',
+              color: 'var(--sys-on-surface)',
             }}
           >
             Aspects
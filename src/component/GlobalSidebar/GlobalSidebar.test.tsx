@@ -26,7 +26,7 @@ vi.mock('react-redux', async () => {
     useDispatch: () => mockDispatch,
     useSelector: (selector: any) => {
       const mockState = {
-        user: { mode: 'light' }
+        user: { mode: 'light', themePreference: 'light' }
       };
       return selector(mockState);
     },
@@ -119,6 +119,7 @@ describe('GlobalSidebar', () => {
       expect(screen.getByTestId('sidebar-menu-item-glossaries')).toBeInTheDocument();
       expect(screen.getByTestId('sidebar-menu-item-aspects')).toBeInTheDocument();
       expect(screen.getByTestId('sidebar-menu-item-data-products')).toBeInTheDocument();
+      expect(screen.getByTestId('sidebar-menu-item-favorites')).toBeInTheDocument();
     });
   });
 
@@ -325,6 +326,43 @@ describe('GlobalSidebar', () => {
     });
   });
 
+  describe('Favorites Menu Item', () => {
+    it('Favorites click navigates to /favorites', async () => {
+      const user = userEvent.setup();
+      render(<GlobalSidebar />);
+
+      await user.click(screen.getByTestId('sidebar-menu-item-favorites'));
+
+      expect(mockNavigate).toHaveBeenCalledWith('/favorites');
+    });
+
+    it('Favorites is active when pathname is /favorites', () => {
+      mockLocation = { pathname: '/favorites' };
+      render(<GlobalSidebar />);
+
+      expect(screen.getByTestId('sidebar-menu-item-favorites')).toHaveAttribute('data-active', 'true');
+      expect(screen.getByTestId('sidebar-menu-item-home')).toHaveAttribute('data-active', 'false');
+    });
+  });
+
+  describe('Data Quality Menu Item', () => {
+    it('Data Quality click navigates to /data-quality', async () => {
+      const user = userEvent.setup();
+      render(<GlobalSidebar />);
+
+      await user.click(screen.getByTestId('sidebar-menu-item-data-quality'));
+
+      expect(mockNavigate).toHaveBeenCalledWith('/data-quality');
+    });
+
+    it('Data Quality is active when pathname is /data-quality', () => {
+      mockLocation = { pathname: '/data-quality' };
+      render(<GlobalSidebar />);
+
+      expect(screen.getByTestId('sidebar-menu-item-data-quality')).toHaveAttribute('data-active', 'true');
+    });
+  });
+
   describe('z-index behavior', () => {
     it('has higher z-index when access panel is closed', () => {
       mockIsAccessPanelOpen = false;
@@ -634,4 +672,17 @@ describe('GlobalSidebar', () => {
       expect(screen.getByTestId('sidebar-menu-item-data-products')).toHaveAttribute('data-active', 'true');
     });
   });
+
+  describe('Theme menu', () => {
+    it('sets the chosen theme preference', () => {
+      render(<GlobalSidebar />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Theme' }));
+      expect(screen.getByRole('menuitem', { name: 'Light' })).toHaveClass('Mui-selected');
+
+      fireEvent.click(screen.getByRole('menuitem', { name: 'Use system setting' }));
+
+      expect(mockDispatch).toHaveBeenCalledWith({ type: 'user/setThemePreference', payload: 'system' });
+    });
+  });
 });
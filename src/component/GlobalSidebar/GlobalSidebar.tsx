@@ -9,9 +9,13 @@ import { resetBrowseUIState } from '../../features/resources/resourcesSlice';
 import { useDispatch, useSelector } from 'react-redux';
 import { type AppDispatch, type RootState } from '../../app/store';
 import { useAuth } from '../../auth/AuthProvider';
-import { changeMode } from '../../features/user/userSlice';
-import { DarkMode, LightMode } from '@mui/icons-material';
+import { setThemePreference, type ThemePreference } from '../../features/user/userSlice';
+import { Check, DarkMode, LightMode, SettingsBrightness } from '@mui/icons-material';
 import IconButton from '@mui/material/IconButton';
+import ListItemIcon from '@mui/material/ListItemIcon';
+import ListItemText from '@mui/material/ListItemText';
+import Menu from '@mui/material/Menu';
+import MenuItem from '@mui/material/MenuItem';
 import Tooltip from '@mui/material/Tooltip';
 import { SIDEBAR_ICONS } from '../../constants/icons';
 
@@ -22,13 +26,27 @@ const GlobalSidebar: React.FC = () => {
   const dispatch = useDispatch<AppDispatch>();
   const { user } = useAuth();
   const mode = useSelector((state: RootState) => state.user.mode);
-  const isDarkModeEnabled = import.meta.env.VITE_FEATURE_DARK_MODE === 'true';
+  const themePreference = useSelector((state: RootState) => state.user.themePreference);
+  const [themeMenuAnchor, setThemeMenuAnchor] = React.useState<null | HTMLElement>(null);
+
+  const themeOptions: { value: ThemePreference; label: string }[] = [
+    { value: 'light', label: 'Light' },
+    { value: 'dark', label: 'Dark' },
+    { value: 'system', label: 'Use system setting' },
+  ];
+
+  const handleThemeSelect = (preference: ThemePreference) => {
+    dispatch(setThemePreference(preference));
+    setThemeMenuAnchor(null);
+  };
 
   // Determine active states based on current route
   const isHomeActive = location.pathname === '/home';
   const isGlossariesActive = location.pathname === '/glossaries';
   const isAnnotationsActive = location.pathname === '/browse-by-annotation';
   const isDataProductsActive = location.pathname.startsWith('/data-products');
+  const isFavoritesActive = location.pathname === '/favorites';
+  const isDataQualityActive = location.pathname === '/data-quality';
 
   const handleHomeClick = () => {
     navigate('/home');
@@ -89,34 +107,71 @@ const GlobalSidebar: React.FC = () => {
           multiLine={true}
           onClick={() => {handleDataProducts();}}
         />
+
+        <SidebarMenuItem
+          icon={SIDEBAR_ICONS.FAVORITES}
+          label="Favorites"
+          isActive={isFavoritesActive}
+          onClick={() => navigate('/favorites')}
+        />
+
+        <SidebarMenuItem
+          icon={SIDEBAR_ICONS.DATA_QUALITY}
+          label={<>Data<br />Quality</>}
+          isActive={isDataQualityActive}
+          multiLine={true}
+          onClick={() => navigate('/data-quality')}
+        />
       </div>
 
-      {/* Dark Mode Toggle */}
-      {isDarkModeEnabled && (
-        <div className="sidebar-bottom-section">
-          <Tooltip title={mode === 'light' ? 'Dark mode' : 'Light mode'} placement="right">
-            <IconButton
-              onClick={() => dispatch(changeMode())}
-              aria-label="Toggle dark mode"
-              sx={{
-                color: mode === 'dark' ? '#c4c7c5' : '#444746',
-                width: 56,
-                height: 36,
-                borderRadius: '1000px',
-                '&:hover': {
-                  backgroundColor: mode === 'dark' ? 'rgba(255, 255, 255, 0.08)' : 'rgba(0, 0, 0, 0.04)',
-                },
-              }}
+      {/* Theme menu: light, dark or follow the system setting */}
+      <div className="sidebar-bottom-section">
+        <Tooltip title="Theme" placement="right">
+          <IconButton
+            onClick={(event) => setThemeMenuAnchor(event.currentTarget)}
+            aria-label="Theme"
+            aria-haspopup="menu"
+            aria-expanded={Boolean(themeMenuAnchor)}
+            sx={{
+              color: mode === 'dark' ? '#c4c7c5' : '#444746',
+              width: 56,
+              height: 36,
+              borderRadius: '1000px',
+              '&:hover': {
+                backgroundColor: mode === 'dark' ? 'rgba(255, 255, 255, 0.08)' : 'rgba(0, 0, 0, 0.04)',
+              },
+            }}
+          >
+            {themePreference === 'system' ? (
+              <SettingsBrightness sx={{ fontSize: 24 }} />
+            ) : mode === 'light' ? (
+              <LightMode sx={{ fontSize: 24 }} />
+            ) : (
+              <DarkMode sx={{ fontSize: 24 }} />
+            )}
+          </IconButton>
+        </Tooltip>
+        <Menu
+          anchorEl={themeMenuAnchor}
+          open={Boolean(themeMenuAnchor)}
+          onClose={() => setThemeMenuAnchor(null)}
+          anchorOrigin={{ vertical: 'top', horizontal: 'right' }}
+          transformOrigin={{ vertical: 'bottom', horizontal: 'left' }}
+        >
+          {themeOptions.map((option) => (
+            <MenuItem
+              key={option.value}
+              selected={themePreference === option.value}
+              onClick={() => handleThemeSelect(option.value)}
             >
-              {mode === 'light' ? (
-                <DarkMode sx={{ fontSize: 24 }} />
-              ) : (
-                <LightMode sx={{ fontSize: 24 }} />
-              )}
-            </IconButton>
-          </Tooltip>
-        </div>
-      )}
+              <ListItemIcon>
+                {themePreference === option.value && <Check fontSize="small" />}
+              </ListItemIcon>
+              <ListItemText>{option.label}</ListItemText>
+            </MenuItem>
+          ))}
+        </Menu>
+      </div>
     </nav>
   );
 };
@@ -667,7 +667,7 @@ const Glossaries = () => {
         px: 0,
         pb: 0,
         pt: 0,
-        backgroundColor: "#fff",
+        backgroundColor: "var(--sys-surface)",
         height: "calc(100vh - 72px)",
         width: "100%",
         overflow: "hidden",
@@ -682,7 +682,7 @@ const Glossaries = () => {
           top: 0,
           width: "252px",
           height: "100vh",
-          backgroundColor: "#F8FAFD",
+          backgroundColor: "var(--sys-background)",
           display: "flex",
           flexDirection: "column",
           overflow: "hidden",
@@ -701,7 +701,7 @@ const Glossaries = () => {
           position: "sticky",
           top: 0,
           zIndex: 1,
-          backgroundColor: "#F8FAFD",
+          backgroundColor: "var(--sys-background)",
           padding: "24px 20px 0 20px",
           boxSizing: "border-box",
         }}>
@@ -709,7 +709,7 @@ const Glossaries = () => {
             fontWeight: 500,
             fontSize: "16px",
             lineHeight: "24px",
-            color: "#1F1F1F",
+            color: "var(--sys-on-surface)",
             fontFamily: '"Google Sans", sans-serif',
           }}>Business Glossaries</Typography>
         </div>
@@ -782,7 +782,7 @@ const Glossaries = () => {
           width: isSidebarOpen ? "calc(100% - 252px)" : "100%",
           height: "calc(100vh - 72px)",
           borderRadius: "0px",
-          backgroundColor: "#fff",
+          backgroundColor: "var(--sys-surface)",
           display: "flex",
           flexDirection: "column",
           overflow: "hidden",
@@ -811,10 +811,10 @@ const Glossaries = () => {
                 padding: "8px 13px",
                 gap: "8px",
                 height: "32px",
-                border: isSidebarOpen ? "none" : "1px solid #0E4DCA",
+                border: isSidebarOpen ? "none" : "1px solid var(--sys-brand)",
                 borderRadius: "59px",
-                background: isSidebarOpen ? "#0E4DCA" : "none",
-                color: isSidebarOpen ? "#EDF2FC" : "#0E4DCA",
+                background: isSidebarOpen ? "var(--sys-brand)" : "none",
+                color: isSidebarOpen ? "var(--sys-selected-container-low)" : "var(--sys-brand)",
                 cursor: "pointer",
                 transition: "all 0.2s ease",
               }}
@@ -854,7 +854,7 @@ const Glossaries = () => {
               <>
                 {breadcrumbs.length > 1 && (
                   <IconButton
-                    sx={{ p: '4px', mr: 0.5, width: '40px', height: '40px', borderRadius: '50%', color: '#0B57D0', transition: 'background-color 0.2s', '&:hover': { backgroundColor: 'rgba(0, 0, 0, 0.04)' } }}
+                    sx={{ p: '4px', mr: 0.5, width: '40px', height: '40px', borderRadius: '50%', color: 'var(--sys-primary)', transition: 'background-color 0.2s', '&:hover': { backgroundColor: 'rgba(0, 0, 0, 0.04)' } }}
                     onClick={() => {
                       setSelectedId(breadcrumbs[breadcrumbs.length - 2].id);
                       setTabValue(0);
@@ -871,7 +871,7 @@ const Glossaries = () => {
                     <Tooltip title={selectedItem?.displayName || ''} arrow placement="top">
                       <label style={{
                         fontFamily: '"Google Sans", sans-serif',
-                        color: "#1F1F1F",
+                        color: "var(--sys-on-surface)",
                         fontSize: "28px",
                         fontWeight: "400",
                         lineHeight: "36px",
@@ -898,7 +898,7 @@ const Glossaries = () => {
                     fontFamily: '"Google Sans", sans-serif',
                     fontSize: "14px",
                     lineHeight: "20px",
-                    color: "#575757",
+                    color: "var(--sys-on-surface-muted)",
                     fontWeight: 400,
                     maxHeight: descriptionExpanded ? "none" : "60px",
                     overflow: "hidden",
@@ -917,7 +917,7 @@ const Glossaries = () => {
                         alignItems: "center",
                         gap: "4px",
                         padding: "6px 0px",
-                        color: "#0B57D0",
+                        color: "var(--sys-primary)",
                         fontFamily: '"Google Sans", sans-serif',
                         fontSize: "14px",
                         fontWeight: 500,
@@ -934,7 +934,7 @@ const Glossaries = () => {
                   fontFamily: '"Google Sans", sans-serif',
                   fontSize: "14px",
                   lineHeight: "20px",
-                  color: "#575757",
+                  color: "var(--sys-on-surface-muted)",
                   fontWeight: 400,
                   fontStyle: "italic",
                 }}>
@@ -971,12 +971,12 @@ const Glossaries = () => {
                 "& .MuiTab-root": {
                   fontFamily: '"Product Sans Regular", sans-serif',
                   fontSize: "14px",
-                  color: "#575757",
+                  color: "var(--sys-on-surface-muted)",
                   textTransform: "none",
                   minHeight: "48px",
                   padding: "12px 20px 16px",
                   "&.Mui-selected": {
-                    color: "#0E4DCA",
+                    color: "var(--sys-brand)",
                   },
                   "&.Mui-disabled": { color: "#BDBDBD" },
                 },
@@ -989,8 +989,8 @@ const Glossaries = () => {
                     right: "20px",
                     bottom: "-2px",
                     height: "5px",
-                    backgroundColor: "white",
-                    borderTop: "3px solid #0E4DCA",
+                    backgroundColor: "var(--sys-surface)",
+                    borderTop: "3px solid var(--sys-brand)",
                     borderRadius: "2.5px 2.5px 0 0",
                   },
                 },
@@ -1026,7 +1026,7 @@ const Glossaries = () => {
               </Tabs>
             </Box>
           )}
-          <Box sx={{ mx: "20px", borderBottom: "1px solid #DADCE0" }} />
+          <Box sx={{ mx: "20px", borderBottom: "1px solid var(--sys-outline-variant)" }} />
         </Box>
 
         {/* CONTENT BODY */}
@@ -1196,7 +1196,7 @@ const Glossaries = () => {
 
             height: "calc(100vh - 100px)",
             borderRadius: "0px",
-            backgroundColor: "#fff",
+            backgroundColor: "var(--sys-surface)",
             border: "transparent",
             display: "flex",
             flexDirection: "column",
@@ -125,7 +125,7 @@ const GlossariesCategoriesTerms: React.FC<GlossariesCategoriesTermsProps> = ({
                     display: "flex",
                     alignItems: "center",
                     cursor: "pointer",
-                    color: "#1F1F1F",
+                    color: "var(--sys-on-surface)",
                     whiteSpace: "nowrap",
                     fontFamily: '"Google Sans Text", sans-serif',
                   }}
@@ -134,7 +134,7 @@ const GlossariesCategoriesTerms: React.FC<GlossariesCategoriesTermsProps> = ({
                   <ExpandMore
                     sx={{
                       fontSize: '20px',
-                      color: '#575757',
+                      color: 'var(--sys-on-surface-muted)',
                       transform: sortAnchorEl ? 'rotate(180deg)' : 'rotate(0deg)',
                       transition: 'transform 0.3s ease',
                     }}
@@ -184,9 +184,9 @@ const GlossariesCategoriesTerms: React.FC<GlossariesCategoriesTermsProps> = ({
                 fontSize: "12px",
                 fontFamily: "Google Sans",
                 fontWeight: sortBy === "name" ? "500" : "400",
-                color: sortBy === "name" ? "#0B57D0" : "#1F1F1F",
-                backgroundColor: sortBy === "name" ? "#F8FAFD" : "transparent",
-                '&:hover': { backgroundColor: '#F1F3F4' },
+                color: sortBy === "name" ? "var(--sys-primary)" : "var(--sys-on-surface)",
+                backgroundColor: sortBy === "name" ? "var(--sys-background)" : "transparent",
+                '&:hover': { backgroundColor: 'var(--sys-surface-container-neutral)' },
               }}
             >
               Name
@@ -197,9 +197,9 @@ const GlossariesCategoriesTerms: React.FC<GlossariesCategoriesTermsProps> = ({
                 fontSize: "12px",
                 fontFamily: "Google Sans",
                 fontWeight: sortBy === "lastModified" ? "500" : "400",
-                color: sortBy === "lastModified" ? "#0B57D0" : "#1F1F1F",
-                backgroundColor: sortBy === "lastModified" ? "#F8FAFD" : "transparent",
-                '&:hover': { backgroundColor: '#F1F3F4' },
+                color: sortBy === "lastModified" ? "var(--sys-primary)" : "var(--sys-on-surface)",
+                backgroundColor: sortBy === "lastModified" ? "var(--sys-background)" : "transparent",
+                '&:hover': { backgroundColor: 'var(--sys-surface-container-neutral)' },
               }}
             >
               Last Modified
@@ -254,7 +254,7 @@ const GlossariesCategoriesTerms: React.FC<GlossariesCategoriesTermsProps> = ({
                   flexDirection: "column",
                   "&:hover": {
                     boxShadow: "0 4px 8px 0 rgba(60,64,67,0.15)",
-                    borderColor: "#0B57D0",
+                    borderColor: "var(--sys-primary)",
                     transform: "scale(1.02)",
                   },
                 }}
@@ -286,7 +286,7 @@ const GlossariesCategoriesTerms: React.FC<GlossariesCategoriesTermsProps> = ({
                         fontWeight: 500,
                         lineHeight: "24px",
                         letterSpacing: "0.15px",
-                        color: "#1F1F1F",
+                        color: "var(--sys-on-surface)",
                         overflow: "hidden",
                         textOverflow: "ellipsis",
                       }}
@@ -302,7 +302,7 @@ const GlossariesCategoriesTerms: React.FC<GlossariesCategoriesTermsProps> = ({
                       fontSize: "14px",
                       fontWeight: 400,
                       lineHeight: "20px",
-                      color: "#575757",
+                      color: "var(--sys-on-surface-muted)",
                       flex: 1,
                       display: "-webkit-box",
                       WebkitBoxOrient: "vertical",
@@ -321,7 +321,7 @@ const GlossariesCategoriesTerms: React.FC<GlossariesCategoriesTermsProps> = ({
                       gap: 1,
                     }}
                   >
-                    <AccessTime sx={{ fontSize: 16, color: "#575757" }} />
+                    <AccessTime sx={{ fontSize: 16, color: "var(--sys-on-surface-muted)" }} />
                     <Typography
                       variant="caption"
                       sx={{
@@ -330,7 +330,7 @@ const GlossariesCategoriesTerms: React.FC<GlossariesCategoriesTermsProps> = ({
                         fontWeight: 500,
                         lineHeight: "16px",
                         letterSpacing: "0.1px",
-                        color: "#575757",
+                        color: "var(--sys-on-surface-muted)",
                       }}
                     >
                       {(() => {
@@ -60,7 +60,7 @@ const GlossariesCategoriesTermsSkeleton: React.FC = () => {
             <Box
               key={i}
               sx={{
-                border: "1px solid #DADCE0",
+                border: "1px solid var(--sys-outline-variant)",
                 borderRadius: "16px",
                 height: "132px",
                 p: 2,
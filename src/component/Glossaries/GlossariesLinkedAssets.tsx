@@ -194,7 +194,7 @@ const GlossariesLinkedAssets: React.FC<GlossariesLinkedAssetsProps> = ({
           width: "100%",
           borderRadius: "16px",
           overflow: "visible",
-          bgcolor: "#fff",
+          bgcolor: "var(--sys-surface)",
           display: "flex",
           flexDirection: "row",
           gap: isFilterOpen ? "16px" : "0px",
@@ -215,8 +215,8 @@ const GlossariesLinkedAssets: React.FC<GlossariesLinkedAssetsProps> = ({
             padding: isFilterOpen ? "20px" : "0px",
             marginTop: "8px",
             gap: "20px",
-            backgroundColor: "#F8FAFD",
-            border: isFilterOpen ? "1px solid #DADCE0" : "none",
+            backgroundColor: "var(--sys-background)",
+            border: isFilterOpen ? "1px solid var(--sys-outline-variant)" : "none",
             borderRadius: "20px",
             height: "100%",
             boxSizing: "border-box",
@@ -281,10 +281,10 @@ const GlossariesLinkedAssets: React.FC<GlossariesLinkedAssetsProps> = ({
                       gap: "8px",
                       width: "85px",
                       height: "32px",
-                      border: isFilterOpen ? "none" : "1px solid #0E4DCA",
+                      border: isFilterOpen ? "none" : "1px solid var(--sys-brand)",
                       borderRadius: "59px",
-                      background: isFilterOpen ? "#0E4DCA" : "none",
-                      color: isFilterOpen ? "#EDF2FC" : "#0E4DCA",
+                      background: isFilterOpen ? "var(--sys-brand)" : "none",
+                      color: isFilterOpen ? "var(--sys-selected-container-low)" : "var(--sys-brand)",
                       cursor: "pointer",
                       transition: "all 0.2s ease",
                       flexShrink: 0,
@@ -342,7 +342,7 @@ const GlossariesLinkedAssets: React.FC<GlossariesLinkedAssetsProps> = ({
                 height: "100%",
                 border: "none",
                 margin: 0,
-                backgroundColor: "#fff",
+                backgroundColor: "var(--sys-surface)",
                 width: "100%",
               }}
               contentStyle={{
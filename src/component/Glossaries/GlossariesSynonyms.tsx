@@ -181,10 +181,10 @@ const GlossariesSynonyms: React.FC<GlossariesSynonymsProps> = ({
                   onClick={() => onRelationFilterChange("all")}
                   sx={{
                     fontSize: 12,
-                    bgcolor: relationFilter === "all" ? "#e8f0fe" : "transparent",
-                    color: relationFilter === "all" ? "#1967d2" : "#1F1F1F",
+                    bgcolor: relationFilter === "all" ? "var(--sys-selected-container-tint)" : "transparent",
+                    color: relationFilter === "all" ? "var(--sys-on-selected-container)" : "var(--sys-on-surface)",
                     fontWeight: relationFilter === "all" ? 500 : 300,
-                    border: relationFilter === "all" ? "none" : "1px solid #dadce0",
+                    border: relationFilter === "all" ? "none" : "1px solid var(--sys-outline-variant)",
                   }}
                 />
                 <Chip
@@ -196,7 +196,7 @@ const GlossariesSynonyms: React.FC<GlossariesSynonymsProps> = ({
                     fontSize: 12,
                     bgcolor:
                       relationFilter === "synonym" ? "#e8f0fe" : "transparent",
-                    color: relationFilter === "synonym" ? "#1967d2" : "#1F1F1F",
+                    color: relationFilter === "synonym" ? "var(--sys-on-selected-container)" : "var(--sys-on-surface)",
                     fontWeight: relationFilter === "synonym" ? 500 : 300,
                     border:
                       relationFilter === "synonym" ? "none" : "1px solid #dadce0",
@@ -211,7 +211,7 @@ const GlossariesSynonyms: React.FC<GlossariesSynonymsProps> = ({
                     fontSize: 12,
                     bgcolor:
                       relationFilter === "related" ? "#e8f0fe" : "transparent",
-                    color: relationFilter === "related" ? "#1967d2" : "#1F1F1F",
+                    color: relationFilter === "related" ? "var(--sys-on-selected-container)" : "var(--sys-on-surface)",
                     fontWeight: relationFilter === "related" ? 500 : 300,
                     border:
                       relationFilter === "related" ? "none" : "1px solid #dadce0",
@@ -227,7 +227,7 @@ const GlossariesSynonyms: React.FC<GlossariesSynonymsProps> = ({
                     display: "flex",
                     alignItems: "center",
                     cursor: "pointer",
-                    color: "#1F1F1F",
+                    color: "var(--sys-on-surface)",
                     whiteSpace: "nowrap",
                     fontFamily: '"Google Sans Text", sans-serif',
                   }}
@@ -236,7 +236,7 @@ const GlossariesSynonyms: React.FC<GlossariesSynonymsProps> = ({
                   <ExpandMore
                     sx={{
                       fontSize: '20px',
-                      color: '#575757',
+                      color: 'var(--sys-on-surface-muted)',
                       transform: sortAnchorEl ? 'rotate(180deg)' : 'rotate(0deg)',
                       transition: 'transform 0.3s ease',
                     }}
@@ -287,9 +287,9 @@ const GlossariesSynonyms: React.FC<GlossariesSynonymsProps> = ({
               fontSize: "12px",
               fontFamily: "Google Sans",
               fontWeight: sortBy === "name" ? "500" : "400",
-              color: sortBy === "name" ? "#0B57D0" : "#1F1F1F",
-              backgroundColor: sortBy === "name" ? "#F8FAFD" : "transparent",
-              '&:hover': { backgroundColor: '#F1F3F4' },
+              color: sortBy === "name" ? "var(--sys-primary)" : "var(--sys-on-surface)",
+              backgroundColor: sortBy === "name" ? "var(--sys-background)" : "transparent",
+              '&:hover': { backgroundColor: 'var(--sys-surface-container-neutral)' },
             }}
           >
             Name
@@ -300,9 +300,9 @@ const GlossariesSynonyms: React.FC<GlossariesSynonymsProps> = ({
               fontSize: "12px",
               fontFamily: "Google Sans",
               fontWeight: sortBy === "lastModified" ? "500" : "400",
-              color: sortBy === "lastModified" ? "#0B57D0" : "#1F1F1F",
-              backgroundColor: sortBy === "lastModified" ? "#F8FAFD" : "transparent",
-              '&:hover': { backgroundColor: '#F1F3F4' },
+              color: sortBy === "lastModified" ? "var(--sys-primary)" : "var(--sys-on-surface)",
+              backgroundColor: sortBy === "lastModified" ? "var(--sys-background)" : "transparent",
+              '&:hover': { backgroundColor: 'var(--sys-surface-container-neutral)' },
             }}
           >
             Last Modified
@@ -357,7 +357,7 @@ const GlossariesSynonyms: React.FC<GlossariesSynonymsProps> = ({
                 flexDirection: "column",
                 "&:hover": {
                   boxShadow: "0 4px 8px 0 rgba(60,64,67,0.15)",
-                  borderColor: "#0B57D0",
+                  borderColor: "var(--sys-primary)",
                   transform: "scale(1.02)",
                 },
               }}
@@ -397,7 +397,7 @@ const GlossariesSynonyms: React.FC<GlossariesSynonymsProps> = ({
                         fontWeight: 500,
                         lineHeight: "24px",
                         letterSpacing: "0.15px",
-                        color: "#1F1F1F",
+                        color: "var(--sys-on-surface)",
                         overflow: "hidden",
                         textOverflow: "ellipsis",
                       }}
@@ -410,8 +410,8 @@ const GlossariesSynonyms: React.FC<GlossariesSynonymsProps> = ({
                     size="small"
                     sx={{
                       height: "20px",
-                      backgroundColor: "#E7F0FE",
-                      color: "#004A77",
+                      backgroundColor: "var(--sys-selected-container)",
+                      color: "var(--sys-on-secondary-container)",
                       fontFamily: "Google Sans Text",
                       fontWeight: 500,
                       fontSize: "11px",
@@ -429,7 +429,7 @@ const GlossariesSynonyms: React.FC<GlossariesSynonymsProps> = ({
                     fontSize: "14px",
                     fontWeight: 400,
                     lineHeight: "20px",
-                    color: "#575757",
+                    color: "var(--sys-on-surface-muted)",
                     flex: 1,
                     display: "-webkit-box",
                     WebkitBoxOrient: "vertical",
@@ -448,7 +448,7 @@ const GlossariesSynonyms: React.FC<GlossariesSynonymsProps> = ({
                     gap: 1,
                   }}
                 >
-                  <AccessTime sx={{ fontSize: 16, color: "#575757" }} />
+                  <AccessTime sx={{ fontSize: 16, color: "var(--sys-on-surface-muted)" }} />
                   <Typography
                     variant="caption"
                     sx={{
@@ -457,7 +457,7 @@ const GlossariesSynonyms: React.FC<GlossariesSynonymsProps> = ({
                       fontWeight: 500,
                       lineHeight: "16px",
                       letterSpacing: "0.1px",
-                      color: "#575757",
+                      color: "var(--sys-on-surface-muted)",
                     }}
                   >
                     {(() => {
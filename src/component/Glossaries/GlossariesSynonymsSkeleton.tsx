@@ -82,7 +82,7 @@ const GlossariesSynonymsSkeleton: React.FC = () => {
           <Box
             key={i}
             sx={{
-              border: "1px solid #DADCE0",
+              border: "1px solid var(--sys-outline-variant)",
               borderRadius: "16px",
               height: "132px",
               p: 2,
@@ -22,7 +22,7 @@ const GlossaryFilterChip: React.FC<GlossaryFilterChipProps> = ({
         sx={{
           display: "flex",
           alignItems: "center",
-          backgroundColor: "#E7F0FE",
+          backgroundColor: "var(--sys-selected-container)",
           borderRadius: "25px",
           padding: "2px 3px 2px 8px",
           gap: "4px",
@@ -35,7 +35,7 @@ const GlossaryFilterChip: React.FC<GlossaryFilterChipProps> = ({
             fontSize: "11px",
             lineHeight: "16px",
             letterSpacing: "0.1px",
-            color: "#0B57D0",
+            color: "var(--sys-primary)",
           }}
         >
           OR
@@ -46,18 +46,18 @@ const GlossaryFilterChip: React.FC<GlossaryFilterChipProps> = ({
           sx={{
             width: 14,
             height: 14,
-            backgroundColor: "#0B57D0",
+            backgroundColor: "var(--sys-primary)",
             borderRadius: "50%",
             padding: 0,
             "&:hover": {
-              backgroundColor: "#0842A0",
+              backgroundColor: "var(--sys-primary-hover)",
             },
           }}
         >
           <CloseIcon
             sx={{
               fontSize: 10,
-              color: "#FFFFFF",
+              color: "var(--sys-on-primary)",
             }}
           />
         </IconButton>
@@ -84,7 +84,7 @@ const GlossaryFilterChip: React.FC<GlossaryFilterChipProps> = ({
         sx={{
           display: "flex",
           alignItems: "center",
-          backgroundColor: "#E7F0FE",
+          backgroundColor: "var(--sys-selected-container)",
           borderRadius: "25px",
           padding: "2px 3px 2px 8px",
           gap: "4px",
@@ -101,7 +101,7 @@ const GlossaryFilterChip: React.FC<GlossaryFilterChipProps> = ({
               fontSize: "11px",
               lineHeight: "16px",
               letterSpacing: "0.1px",
-              color: "#0B57D0",
+              color: "var(--sys-primary)",
               whiteSpace: "nowrap",
               flexShrink: 0,
             }}
@@ -116,7 +116,7 @@ const GlossaryFilterChip: React.FC<GlossaryFilterChipProps> = ({
             fontSize: "11px",
             lineHeight: "16px",
             letterSpacing: "0.1px",
-            color: "#0B57D0",
+            color: "var(--sys-primary)",
             overflow: "hidden",
             textOverflow: "ellipsis",
             whiteSpace: "nowrap",
@@ -131,19 +131,19 @@ const GlossaryFilterChip: React.FC<GlossaryFilterChipProps> = ({
           sx={{
             width: 14,
             height: 14,
-            backgroundColor: "#0B57D0",
+            backgroundColor: "var(--sys-primary)",
             borderRadius: "50%",
             padding: 0,
             flexShrink: 0,
             "&:hover": {
-              backgroundColor: "#0842A0",
+              backgroundColor: "var(--sys-primary-hover)",
             },
           }}
         >
           <CloseIcon
             sx={{
               fontSize: 10,
-              color: "#FFFFFF",
+              color: "var(--sys-on-primary)",
             }}
           />
         </IconButton>
@@ -198,23 +198,23 @@ const GlossaryFilterInput: React.FC<GlossaryFilterInputProps> = ({
             alignItems: "center",
             padding: "8px 12px",
             gap: "8px",
-            border: isFocused || hasFilters || selectedField ? "1px solid #0E4DCA" : "1px solid #DADCE0",
+            border: isFocused || hasFilters || selectedField ? "1px solid var(--sys-brand)" : "1px solid var(--sys-outline-variant)",
             borderRadius: "54px",
-            backgroundColor: "#FFFFFF",
+            backgroundColor: "var(--sys-surface)",
             height: "32px",
             boxSizing: "border-box",
             cursor: "text",
             transition: "border-color 0.2s ease",
             "&:hover": {
-              borderColor: "#0E4DCA",
+              borderColor: "var(--sys-brand)",
             },
           }}
           onClick={() => inputRef.current?.focus()}
         >
           {isLoading ? (
-            <CircularProgress size={16} sx={{ color: "#575757" }} />
+            <CircularProgress size={16} sx={{ color: "var(--sys-on-surface-muted)" }} />
           ) : (
-            <SearchIcon sx={{ fontSize: 20, color: "#575757" }} />
+            <SearchIcon sx={{ fontSize: 20, color: "var(--sys-on-surface-muted)" }} />
           )}
           {/* Show selected field as a tag */}
           {selectedField && (
@@ -225,7 +225,7 @@ const GlossaryFilterInput: React.FC<GlossaryFilterInputProps> = ({
                 fontWeight: 500,
                 fontSize: "12px",
                 lineHeight: "16px",
-                color: "#1F1F1F",
+                color: "var(--sys-on-surface)",
               }}
             >
               {FILTER_FIELD_LABELS[selectedField]}:
@@ -247,9 +247,9 @@ const GlossaryFilterInput: React.FC<GlossaryFilterInputProps> = ({
               fontSize: "12px",
               lineHeight: "16px",
               letterSpacing: "0.1px",
-              color: "#1F1F1F",
+              color: "var(--sys-on-surface)",
               "& input::placeholder": {
-                color: "#5E5E5E",
+                color: "var(--sys-on-surface-soft)",
                 opacity: 1,
               },
             }}
@@ -264,7 +264,7 @@ const GlossaryFilterInput: React.FC<GlossaryFilterInputProps> = ({
               top: "35px",
               left: "20px",
               right: "20px",
-              backgroundColor: "#FFFFFF",
+              backgroundColor: "var(--sys-surface)",
               boxShadow: "0px 4px 8px 3px rgba(60, 64, 67, 0.15), 0px 1px 3px rgba(60, 64, 67, 0.3)",
               borderRadius: "8px",
               zIndex: 1000,
@@ -278,7 +278,7 @@ const GlossaryFilterInput: React.FC<GlossaryFilterInputProps> = ({
                   sx={{
                     fontFamily: "'Product Sans', sans-serif",
                     fontSize: "12px",
-                    color: "#1F1F1F",
+                    color: "var(--sys-on-surface)",
                     py: 0.5,
                     px: 1.5,
                   }}
@@ -293,7 +293,7 @@ const GlossaryFilterInput: React.FC<GlossaryFilterInputProps> = ({
                   sx={{
                     fontFamily: "'Product Sans', sans-serif",
                     fontSize: "12px",
-                    color: "#1F1F1F",
+                    color: "var(--sys-on-surface)",
                     py: 0.5,
                     px: 1.5,
                   }}
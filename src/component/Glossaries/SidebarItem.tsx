@@ -62,14 +62,14 @@ const SidebarItem: React.FC<SidebarItemProps> = ({
         backgroundColor: undefined,
 
         "&.Mui-selected": {
-          backgroundColor: "#C2E7FF",
-          color: "#1F1F1F",
-          "&:hover": { backgroundColor: "#C2E7FF" },
-          "& .MuiListItemIcon-root": { color: "#1F1F1F" },
+          backgroundColor: "var(--sys-secondary-container)",
+          color: "var(--sys-on-surface)",
+          "&:hover": { backgroundColor: "var(--sys-secondary-container)" },
+          "& .MuiListItemIcon-root": { color: "var(--sys-on-surface)" },
           "& .MuiTypography-root": { fontWeight: 500 },
         },
         "&:hover": {
-          backgroundColor: isInaccessible ? undefined : "#F1F3F4",
+          backgroundColor: isInaccessible ? undefined : "var(--sys-surface-container-neutral)",
         },
         "&.Mui-disabled": {
           opacity: 0.5,
@@ -99,13 +99,13 @@ const SidebarItem: React.FC<SidebarItemProps> = ({
       >
         <ExpandMore
           fontSize="inherit"
-          sx={{ fontSize: 16, color: isInaccessible ? "#5F6368" : "#1F1F1F" }}
+          sx={{ fontSize: 16, color: isInaccessible ? "var(--sys-on-surface-grey)" : "var(--sys-on-surface)" }}
         />
       </Box>
 
-      <ListItemIcon sx={{ minWidth: 20, mr: 0.1, color: isInaccessible ? "#5F6368" : "#1F1F1F" }}>
+      <ListItemIcon sx={{ minWidth: 20, mr: 0.1, color: isInaccessible ? "var(--sys-on-surface-grey)" : "var(--sys-on-surface)" }}>
         {isInaccessible ? (
-          <LockOutlinedIcon sx={{ fontSize: 16, color: "#5F6368" }} />
+          <LockOutlinedIcon sx={{ fontSize: 16, color: "var(--sys-on-surface-grey)" }} />
         ) : (
           getIcon(item.type, "small")
         )}
@@ -116,7 +116,7 @@ const SidebarItem: React.FC<SidebarItemProps> = ({
           fontFamily: depth === 0 ? "Product Sans" : "Google Sans",
           fontSize: "12px",
           fontWeight: isSelected && !isInaccessible ? 500 : 400,
-          color: isInaccessible ? "#5F6368" : "#1F1F1F",
+          color: isInaccessible ? "var(--sys-on-surface-grey)" : "var(--sys-on-surface)",
           noWrap: true,
           letterSpacing: "0.1px",
         }}
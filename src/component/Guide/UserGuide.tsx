@@ -122,7 +122,7 @@ const UserGuide: React.FC = () => {
 };
 
   const codeBlockBaseStyles = {
-    backgroundColor: '#efefef',
+    backgroundColor: 'var(--sys-surface-container-pale)',
     borderRadius: '4px',
     overflowX: 'auto',
     fontSize: '0.875rem',
@@ -214,7 +214,7 @@ const UserGuide: React.FC = () => {
           component="img"
           src="/assets/images/fig1-architecture.png"
           alt="Knowledge Catalog Business Interface high-level architecture"
-          sx={{ width: '100%', border: '1px solid #ddd', borderRadius: '4px', my: 2 }}
+          sx={{ width: '100%', border: '1px solid var(--sys-outline-light)', borderRadius: '4px', my: 2 }}
         />
         <Typography variant="caption" display="block" gutterBottom sx={{ textAlign: 'center' }}>
           Fig 1. High-level Architecture
@@ -475,7 +475,7 @@ const UserGuide: React.FC = () => {
           component="img"
           src="/assets/images/fig2-signin.png"
           alt="Knowledge Catalog Business Interface Sign-in Page"
-          sx={{ width: '100%', border: '1px solid #ddd', borderRadius: '4px', my: 2 }}
+          sx={{ width: '100%', border: '1px solid var(--sys-outline-light)', borderRadius: '4px', my: 2 }}
         />
         <Typography variant="caption" display="block" gutterBottom sx={{ textAlign: 'center' }}>
           Fig 2. Sign-in Page
@@ -495,7 +495,7 @@ const UserGuide: React.FC = () => {
           component="img"
           src="/assets/images/fig3-homepage.png"
           alt="Knowledge Catalog Business Interface Home Page"
-          sx={{ width: '100%', border: '1px solid #ddd', borderRadius: '4px', my: 2 }}
+          sx={{ width: '100%', border: '1px solid var(--sys-outline-light)', borderRadius: '4px', my: 2 }}
         />
         <Typography variant="caption" display="block" gutterBottom sx={{ textAlign: 'center' }}>
           Fig 3. Home Page
@@ -512,7 +512,7 @@ const UserGuide: React.FC = () => {
           component="img"
           src="/assets/images/fig4-searchbar.png"
           alt="Knowledge Catalog search bar with asset type dropdown"
-          sx={{ width: '100%', border: '1px solid #ddd', borderRadius: '4px', my: 2 }}
+          sx={{ width: '100%', border: '1px solid var(--sys-outline-light)', borderRadius: '4px', my: 2 }}
         />
         <Typography variant="caption" display="block" gutterBottom sx={{ textAlign: 'center' }}>
           Fig 4. Option to select - All Assets or BigQuery
@@ -531,7 +531,7 @@ const UserGuide: React.FC = () => {
           component="img"
           src="/assets/images/fig5-search-results.png"
           alt="Knowledge Catalog search results page for 'sale'"
-          sx={{ width: '100%', border: '1px solid #ddd', borderRadius: '4px', my: 2 }}
+          sx={{ width: '100%', border: '1px solid var(--sys-outline-light)', borderRadius: '4px', my: 2 }}
         />
         <Typography variant="caption" display="block" gutterBottom sx={{ textAlign: 'center' }}>
           Fig 5. Search for assets
@@ -561,7 +561,7 @@ const UserGuide: React.FC = () => {
               component="img"
               src="/assets/images/fig6-filter-aspect.png"
               alt="Knowledge Catalog search results with Aspect filter highlighted"
-              sx={{ width: '100%', border: '1px solid #ddd', borderRadius: '4px', my: 2 }}
+              sx={{ width: '100%', border: '1px solid var(--sys-outline-light)', borderRadius: '4px', my: 2 }}
             />
             <Typography variant="caption" display="block" gutterBottom sx={{ textAlign: 'center' }}>
               Fig 6. Filter on Aspect
@@ -577,7 +577,7 @@ const UserGuide: React.FC = () => {
               component="img"
               src="/assets/images/fig7-filter-assets.png"
               alt="Knowledge Catalog search results with Assets filter highlighted"
-              sx={{ width: '100%', border: '1px solid #ddd', borderRadius: '4px', my: 2 }}
+              sx={{ width: '100%', border: '1px solid var(--sys-outline-light)', borderRadius: '4px', my: 2 }}
             />
             <Typography variant="caption" display="block" gutterBottom sx={{ textAlign: 'center' }}>
               Fig 7. Filter on Assets (Bucket, Cluster, Connection, etc)
@@ -594,7 +594,7 @@ const UserGuide: React.FC = () => {
               component="img"
               src="/assets/images/fig8-filter-products.png"
               alt="Knowledge Catalog search results with Products filter highlighted"
-              sx={{ width: '100%', border: '1px solid #ddd', borderRadius: '4px', my: 2 }}
+              sx={{ width: '100%', border: '1px solid var(--sys-outline-light)', borderRadius: '4px', my: 2 }}
             />
             <Typography variant="caption" display="block" gutterBottom sx={{ textAlign: 'center' }}>
               Fig 8. Filter on Products (Analytics Hub, BigQuery, Cloud Spanner, etc)
@@ -606,7 +606,7 @@ const UserGuide: React.FC = () => {
               component="img"
               src="/assets/images/fig9-filter-projects.png"
               alt="Knowledge Catalog search results with Projects filter highlighted"
-              sx={{ width: '100%', border: '1px solid #ddd', borderRadius: '4px', my: 2 }}
+              sx={{ width: '100%', border: '1px solid var(--sys-outline-light)', borderRadius: '4px', my: 2 }}
             />
             <Typography variant="caption" display="block" gutterBottom sx={{ textAlign: 'center' }}>
               Fig 9. Filter on GCP Projects
@@ -638,7 +638,7 @@ const UserGuide: React.FC = () => {
           component="img"
           src="/assets/images/fig10-metadata-preview.png"
           alt="Knowledge Catalog search result card and metadata preview pane"
-          sx={{ width: '100%', border: '1px solid #ddd', borderRadius: '4px', my: 2 }}
+          sx={{ width: '100%', border: '1px solid var(--sys-outline-light)', borderRadius: '4px', my: 2 }}
         />
         <Typography variant="caption" display="block" gutterBottom sx={{ textAlign: 'center' }}>
           Fig 10. View metadata for the selected asset
@@ -686,7 +686,7 @@ const UserGuide: React.FC = () => {
           component="img"
           src="/assets/images/fig11-detailed-overview.png"
           alt="Knowledge Catalog asset metadata overview tab"
-          sx={{ width: '100%', border: '1px solid #ddd', borderRadius: '4px', my: 2 }}
+          sx={{ width: '100%', border: '1px solid var(--sys-outline-light)', borderRadius: '4px', my: 2 }}
         />
         <Typography variant="caption" display="block" gutterBottom sx={{ textAlign: 'center' }}>
           Fig 11. Metadata for the given asset - includes Overview, aspects, Lineage, Data Profile,
@@ -705,7 +705,7 @@ const UserGuide: React.FC = () => {
           component="img"
           src="/assets/images/fig12-detailed-aspects.png"
           alt="Knowledge Catalog asset metadata aspects tab"
-          sx={{ width: '100%', border: '1px solid #ddd', borderRadius: '4px', my: 2 }}
+          sx={{ width: '100%', border: '1px solid var(--sys-outline-light)', borderRadius: '4px', my: 2 }}
         />
         <Typography variant="caption" display="block" gutterBottom sx={{ textAlign: 'center' }}>
           Fig 12. Metadata for the given asset - aspects
@@ -721,7 +721,7 @@ const UserGuide: React.FC = () => {
           component="img"
           src="/assets/images/fig13-detailed-lineage.png"
           alt="Knowledge Catalog asset metadata lineage tab"
-          sx={{ width: '100%', border: '1px solid #ddd', borderRadius: '4px', my: 2 }}
+          sx={{ width: '100%', border: '1px solid var(--sys-outline-light)', borderRadius: '4px', my: 2 }}
         />
         <Typography variant="caption" display="block" gutterBottom sx={{ textAlign: 'center' }}>
           Fig 13. Metadata for the given asset - Lineage
@@ -758,7 +758,7 @@ const UserGuide: React.FC = () => {
           component="img"
           src="/assets/images/fig14-explore.png"
           alt="Explore options in Knowledge Catalog: Open in BigQuery and Explore with Looker Studio"
-          sx={{ width: '100%', border: '1px solid #ddd', borderRadius: '4px', my: 2 }}
+          sx={{ width: '100%', border: '1px solid var(--sys-outline-light)', borderRadius: '4px', my: 2 }}
         />
         <Typography variant="caption" display="block" gutterBottom sx={{ textAlign: 'center' }}>
           Fig 14. Options to explore the data - with Source (BigQuery in this case) and Looker Studio
@@ -779,7 +779,7 @@ const UserGuide: React.FC = () => {
           component="img"
           src="/assets/images/fig15-browse-button.png"
           alt="Knowledge Catalog home page with Browse button highlighted"
-          sx={{ width: '100%', border: '1px solid #ddd', borderRadius: '4px', my: 2 }}
+          sx={{ width: '100%', border: '1px solid var(--sys-outline-light)', borderRadius: '4px', my: 2 }}
         />
         <Typography variant="caption" display="block" gutterBottom sx={{ textAlign: 'center' }}>
           Fig 15. Click Browse on the Homepage to browse for assets
@@ -806,7 +806,7 @@ const UserGuide: React.FC = () => {
           component="img"
           src="/assets/images/fig16-browse-aspects.png"
           alt="Knowledge Catalog browse by aspect page"
-          sx={{ width: '100%', border: '1px solid #ddd', borderRadius: '4px', my: 2 }}
+          sx={{ width: '100%', border: '1px solid var(--sys-outline-light)', borderRadius: '4px', my: 2 }}
         />
         <Typography variant="caption" display="block" gutterBottom sx={{ textAlign: 'center' }}>
           Fig 16. Choose an aspect from the catalog
@@ -858,10 +858,10 @@ const UserGuide: React.FC = () => {
               boxShadow: 'none',
               '&:before': { display: 'none' },
               mb: 1,
-              backgroundColor: '#f8fafd',
+              backgroundColor: 'var(--sys-background)',
               borderRadius: '8px',
               overflow: 'hidden',
-              border: '1px solid #e0e0e0',
+              border: '1px solid var(--sys-divider)',
               scrollMarginTop: '20px',
               '&:first-of-type': {
                 borderTopLeftRadius: '8px',
@@ -895,7 +895,7 @@ const UserGuide: React.FC = () => {
             <AccordionDetails
               sx={{
                 padding: 2,
-                backgroundColor: '#ffffff',
+                backgroundColor: 'var(--sys-surface)',
               }}
             >
               {section.content}
@@ -911,11 +911,11 @@ const UserGuide: React.FC = () => {
           sx={{
             position: 'sticky',
             top: '100px',
-            border: '1px solid #e0e0e0',
+            border: '1px solid var(--sys-divider)',
             borderRadius: '8px',
           }}
         >
-          <Box sx={{ padding: 2, borderBottom: '1px solid #e0e0e0' }}>
+          <Box sx={{ padding: 2, borderBottom: '1px solid var(--sys-divider)' }}>
             <Typography variant="h6" component="div">
               On this page
             </Typography>
@@ -930,7 +930,7 @@ const UserGuide: React.FC = () => {
               onClick={(e) => handleNavClick(e, section.id)}
               sx={{
                 textDecoration: 'none',
-                color: '#0b57d0',
+                color: 'var(--sys-primary)',
                 width: '100%',
                 padding: '8px 16px',
                 '&:hover': {
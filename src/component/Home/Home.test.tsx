@@ -38,9 +38,10 @@ vi.mock('react-redux', async () => {
   return {
     ...actual,
     useDispatch: () => mockDispatch,
-    useSelector: (selector: (state: { projects: { isloaded: boolean } }) => unknown) => {
+    useSelector: (selector: (state: unknown) => unknown) => {
       const mockState = {
-        projects: { isloaded: mockProjectsLoaded }
+        projects: { isloaded: mockProjectsLoaded },
+        search: { searchType: 'All', searchFilters: [], semanticSearch: true }
       };
       return selector(mockState);
     }
@@ -126,6 +127,27 @@ vi.mock('../SearchBar/SearchBar', () => ({
   }
 }));
 
+// Mock SavedSearchList component
+const mockSavedSearch = {
+  id: 'saved-1',
+  owner: 'test@example.com',
+  name: 'Morning check',
+  term: 'orders',
+  searchType: 'All',
+  filters: [{ name: 'BigQuery', type: 'system' }],
+  semanticSearch: true,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  lastRunAt: null,
+  lastResultCount: null,
+  previousResultCount: null,
+};
+vi.mock('../SavedSearches/SavedSearchList', () => ({
+  default: function MockSavedSearchList({ onRun }: { onRun: (search: typeof mockSavedSearch) => void }) {
+    return <button data-testid="run-saved-search" onClick={() => onRun(mockSavedSearch)}>Run</button>;
+  }
+}));
+
 // Mock CSS file
 vi.mock('./Home.css', () => ({}));
 
@@ -491,7 +513,7 @@ describe('Home', () => {
       fireEvent.change(searchInput, { target: { value: 'test search' } });
 
       await waitFor(() => {
-        expect(mockNavigate).toHaveBeenCalledWith('/search');
+        expect(mockNavigate).toHaveBeenCalledWith('/search?q=test+search');
       });
     });
 
@@ -513,6 +535,22 @@ describe('Home', () => {
       });
     });
 
+    it('re-runs a saved search with its own term and filters', async () => {
+      const authContext = createMockAuthContext(mockUserWithAppConfig);
+      renderHome(authContext);
+
+      await waitFor(() => {
+        expect(screen.getByTestId('run-saved-search')).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByTestId('run-saved-search'));
+
+      expect(mockDispatch).toHaveBeenCalledWith({ type: 'search/setSearchTerm', payload: { searchTerm: 'orders' } });
+      expect(mockDispatch).toHaveBeenCalledWith({ type: 'search/setSearchFilters', payload: { searchFilters: mockSavedSearch.filters } });
+      expect(mockDispatch).toHaveBeenCalledWith({ type: 'savedSearches/setActiveSavedSearchId', payload: 'saved-1' });
+      expect(mockNavigate).toHaveBeenCalledWith('/search?q=orders&f=system%3ABigQuery');
+    });
+
     it('SearchBar receives correct props', async () => {
       const authContext = createMockAuthContext(mockUserWithAppConfig);
       renderHome(authContext);
@@ -7,12 +7,16 @@ import { useAuth } from '../../auth/AuthProvider'
 import axios from 'axios'
 import { URLS } from '../../constants/urls'
 import { useDispatch, useSelector } from 'react-redux'
-import type { AppDispatch } from '../../app/store'
+import type { AppDispatch, RootState } from '../../app/store'
+import type { SearchFilter } from '../../utils/searchQuery'
 import { useNotification } from '../../contexts/NotificationContext'
 import { getProjects } from '../../features/projects/projectsSlice'
 import { sanitizeFirstName } from '../../utils/sanitizeName'
 import { useNoAccess } from '../../contexts/NoAccessContext'
 import { REQUIRED_PERMISSIONS } from '../../constants/auth'
+import { buildSearchUrl, type SearchUrlState } from '../../utils/searchUrlState'
+import SavedSearchList from '../SavedSearches/SavedSearchList'
+import { setActiveSavedSearchId, type SavedSearch } from '../../features/savedSearches/savedSearchesSlice'
 
 /**
  * @file Home.tsx
@@ -31,7 +35,9 @@ import { REQUIRED_PERMISSIONS } from '../../constants/auth'
  * search/resource items from previous sessions.
  * 3.  **Search Handling**: It renders the `SearchBar` component. When a user
  * submits a search (via `handleSearch`), it again resets Redux state and
- * navigates to the `/search` page.
+ * navigates to the `/search` page with the search encoded in the URL.
+ * Saved searches are listed below the search bar (`SavedSearchList`) and
+ * re-run the same way with their stored term and filters.
  *
  * @param {object} props - This component accepts no props.
  *
@@ -48,6 +54,9 @@ const Home = () => {
   const [loader, setLoader] = useState(true);
   const dispatch = useDispatch<AppDispatch>();
   const projectsLoaded = useSelector((state: any) => state.projects.isloaded);
+  const searchType = useSelector((state: RootState) => state.search.searchType);
+  const searchFilters = useSelector((state: RootState) => state.search.searchFilters);
+  const semanticSearch = useSelector((state: RootState) => state.search.semanticSearch);
   const accessCheckedRef = useRef(false);
 
   // Check OAuth scopes (set at login) and IAM role after login
@@ -124,13 +133,28 @@ const Home = () => {
       }
   }, [user, projectsLoaded, dispatch, updateUser, logout, showError]);
 
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  const handleSearch = (_text:string) => {
+  const openSearch = (search: Partial<SearchUrlState>) => {
     dispatch({ type: 'resources/setItemsPreviousPageRequest', payload: null });
     dispatch({ type: 'resources/setItemsPageRequest', payload: null });
     dispatch({ type: 'resources/setItemsStoreData', payload: [] });
     dispatch({ type: 'resources/setItems', payload: [] });
-    navigate('/search');
+    navigate(buildSearchUrl(search));
+  };
+
+  const handleSearch = (text:string, filters: SearchFilter[] = searchFilters) => {
+    openSearch({ term: text, searchType, filters, semanticSearch });
+  };
+
+  // Re-run a saved search exactly as saved; SearchPage records the new result count.
+  const handleRunSavedSearch = (savedSearch: SavedSearch) => {
+    dispatch({ type: 'search/setSearchTerm', payload: { searchTerm: savedSearch.term } });
+    dispatch({ type: 'search/setSearchType', payload: { searchType: savedSearch.searchType } });
+    dispatch({ type: 'search/setSemanticSearch', payload: { semanticSearch: savedSearch.semanticSearch } });
+    dispatch({ type: 'search/setSearchFilters', payload: { searchFilters: savedSearch.filters } });
+    dispatch({ type: 'search/setSearchFiltersFromQuery', payload: true });
+    dispatch({ type: 'search/setSearchSubmitted', payload: true });
+    dispatch(setActiveSavedSearchId(savedSearch.id));
+    openSearch(savedSearch);
   };
 
   return (
@@ -166,6 +190,9 @@ const Home = () => {
                     { name: 'GCS' }
                 ]}/>
               </div>
+              <div className="home-saved-searches">
+                <SavedSearchList onRun={handleRunSavedSearch} />
+              </div>
             </div>
           </div>
         )}
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import ImpactAnalysisDialog from './ImpactAnalysisDialog';
+import type { RootState } from '../../app/store';
+import type { ImpactReport } from '../../utils/impactAnalysis';
+
+const report: ImpactReport = {
+  root: 'bigquery:p.d.orders',
+  generatedAt: '2024-05-03T09:15:30.000Z',
+  truncated: false,
+  consumers: [
+    {
+      fqn: 'bigquery:p.d.daily',
+      name: 'daily',
+      system: 'BigQuery',
+      project: 'p',
+      depth: 1,
+      processes: ['process-1'],
+      lastRunTime: '2024-05-02T08:00:00Z',
+      contacts: [{ role: 'Data owner', name: 'Jane' }],
+      entryFound: true,
+    },
+    {
+      fqn: 'looker:q.dashboard',
+      name: 'dashboard',
+      system: 'Looker',
+      project: 'q',
+      depth: 2,
+      processes: [],
+      lastRunTime: '',
+      contacts: [],
+      entryFound: false,
+    },
+  ],
+};
+
+let mockState: RootState['impactAnalysis'];
+const mockAbort = vi.fn();
+const mockDispatch = vi.fn((action: { type: string }) => (action?.type === 'impactAnalysis/runImpactAnalysis'
+  ? Object.assign(Promise.resolve(action), { abort: mockAbort })
+  : action));
+const mockDownloadBlob = vi.fn();
+const mockShowSuccess = vi.fn();
+
+vi.mock('react-redux', () => ({
+  useDispatch: () => mockDispatch,
+  useSelector: (selector: (state: unknown) => unknown) => selector({ impactAnalysis: mockState }),
+}));
+
+vi.mock('../../auth/AuthProvider', () => ({
+  useAuth: () => ({ user: { token: 'test-token' } }),
+}));
+
+vi.mock('../../contexts/NotificationContext', () => ({
+  useNotification: () => ({ showSuccess: mockShowSuccess }),
+}));
+
+vi.mock('../../features/impactAnalysis/impactAnalysisSlice', () => ({
+  runImpactAnalysis: vi.fn((params) => ({ type: 'impactAnalysis/runImpactAnalysis', payload: params })),
+  resetImpactAnalysis: vi.fn(() => ({ type: 'impactAnalysis/resetImpactAnalysis' })),
+}));
+
+vi.mock('../../utils/searchExport', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../utils/searchExport')>()),
+  downloadBlob: (...args: unknown[]) => mockDownloadBlob(...args),
+}));
+
+const entry = { name: 'projects/p/locations/us/entryGroups/@bigquery/entries/orders', fullyQualifiedName: 'bigquery:p.d.orders' };
+
+const renderDialog = (onClose = vi.fn()) => render(<ImpactAnalysisDialog open onClose={onClose} entry={entry} />);
+
+describe('ImpactAnalysisDialog', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockState = { status: 'succeeded', report, progress: { phase: 'processes', done: 1, total: 1 }, error: null };
+  });
+
+  it('runs the analysis for the entry when opened', () => {
+    renderDialog();
+
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'impactAnalysis/resetImpactAnalysis' });
+    expect(mockDispatch).toHaveBeenCalledWith({
+      type: 'impactAnalysis/runImpactAnalysis',
+      payload: { entry, id_token: 'test-token' },
+    });
+  });
+
+  it('shows progress and cancels a running analysis', () => {
+    mockState = { status: 'loading', report: null, progress: { phase: 'entries', done: 3, total: 8 }, error: null };
+    renderDialog();
+
+    expect(screen.getByText('Reading consumer entries: 3 of 8')).toBeInTheDocument();
+    fireEvent.click(screen.getByText('Cancel analysis'));
+    expect(mockAbort).toHaveBeenCalled();
+  });
+
+  it('groups the consumers by depth, system or project', () => {
+    renderDialog();
+
+    expect(screen.getByText('2 downstream consumers')).toBeInTheDocument();
+    expect(screen.getByRole('region', { name: '1 hop downstream' })).toHaveTextContent('Data owner: Jane');
+    expect(within(screen.getByRole('region', { name: '2 hops downstream' })).getByText('Entry not readable')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'System' }));
+    expect(screen.getByRole('region', { name: 'Looker' })).toHaveTextContent('looker:q.dashboard');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Project' }));
+    expect(screen.getByRole('region', { name: 'p' })).toHaveTextContent('bigquery:p.d.daily');
+  });
+
+  it('downloads the report as CSV and Markdown', () => {
+    renderDialog();
+
+    fireEvent.click(screen.getByText('Export CSV'));
+    expect(mockDownloadBlob).toHaveBeenLastCalledWith('impact-orders-2024-05-03T09-15-30.csv', expect.any(Blob));
+
+    fireEvent.click(screen.getByText('Export Markdown'));
+    expect(mockDownloadBlob).toHaveBeenLastCalledWith('impact-orders-2024-05-03T09-15-30.md', expect.any(Blob));
+    expect(mockShowSuccess).toHaveBeenCalledWith('Downloaded the impact report as Markdown');
+  });
+
+  it('shows failures and offers to run again', () => {
+    mockState = { status: 'failed', report: null, progress: { phase: 'traversing', done: 0, total: 0 }, error: { message: 'No access' } };
+    renderDialog();
+
+    expect(screen.getByRole('alert')).toHaveTextContent('No access');
+    expect(screen.getByText('Export CSV').closest('button')).toBeDisabled();
+    mockDispatch.mockClear();
+    fireEvent.click(screen.getByText('Run again'));
+    expect(mockDispatch).toHaveBeenCalledWith(expect.objectContaining({ type: 'impactAnalysis/runImpactAnalysis' }));
+  });
+});
@@ -0,0 +1,271 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  LinearProgress,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import { useDispatch, useSelector } from 'react-redux';
+import type { AppDispatch, RootState } from '../../app/store';
+import { useAuth } from '../../auth/AuthProvider';
+import { useNotification } from '../../contexts/NotificationContext';
+import { runImpactAnalysis, resetImpactAnalysis } from '../../features/impactAnalysis/impactAnalysisSlice';
+import {
+  formatContacts,
+  getImpactFileName,
+  groupImpactConsumers,
+  impactReportToCsv,
+  impactReportToMarkdown,
+  type ImpactGrouping,
+} from '../../utils/impactAnalysis';
+import { downloadBlob } from '../../utils/searchExport';
+
+/**
+ * @file ImpactAnalysisDialog.tsx
+ * @description
+ * Shows what would be affected by a change to an entry: every asset
+ * downstream of it in the lineage graph, however many hops away. Opening the
+ * dialog runs `runImpactAnalysis`, which walks the downstream lineage and
+ * reads each consumer's contacts and the last run of the processes feeding
+ * it. Consumers can be grouped by hop, system or project, and the report can
+ * be downloaded as CSV or Markdown. Closing the dialog cancels a running
+ * analysis.
+ *
+ * @param {ImpactAnalysisDialogProps} props
+ * @param {boolean} props.open - Whether the dialog is shown.
+ * @param {() => void} props.onClose - Called when the dialog is closed.
+ * @param {{ name: string, fullyQualifiedName: string }} props.entry - The
+ * entry to analyse.
+ */
+
+interface ImpactAnalysisDialogProps {
+  open: boolean;
+  onClose: () => void;
+  entry: { name: string; fullyQualifiedName: string };
+}
+
+const GROUPINGS: { value: ImpactGrouping; label: string }[] = [
+  { value: 'depth', label: 'Depth' },
+  { value: 'system', label: 'System' },
+  { value: 'project', label: 'Project' },
+];
+
+const PHASE_LABELS: Record<string, string> = {
+  traversing: 'Walking downstream lineage…',
+  entries: 'Reading consumer entries',
+  processes: 'Reading process runs',
+};
+
+const formatRunTime = (value: string) => (value ? new Date(value).toLocaleString() : 'Unknown');
+
+const ImpactAnalysisDialog: React.FC<ImpactAnalysisDialogProps> = ({ open, onClose, entry }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const { user } = useAuth();
+  const { showSuccess } = useNotification();
+  const { status, report, progress, error } = useSelector((state: RootState) => state.impactAnalysis);
+  const [grouping, setGrouping] = useState<ImpactGrouping>('depth');
+  const analysisRef = useRef<{ abort: () => void } | null>(null);
+  const isRunning = status === 'loading';
+
+  const groups = useMemo(
+    () => (report ? groupImpactConsumers(report.consumers, grouping) : []),
+    [report, grouping]
+  );
+
+  const startAnalysis = () => {
+    const request = dispatch(runImpactAnalysis({ entry, id_token: user?.token }));
+    analysisRef.current = request;
+    request.finally(() => {
+      if (analysisRef.current === request) analysisRef.current = null;
+    });
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    dispatch(resetImpactAnalysis());
+    if (entry?.fullyQualifiedName) startAnalysis();
+    // Starts once per opening or entry; startAnalysis is a new function on every render
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, entry?.fullyQualifiedName]);
+
+  // Cancel a running analysis when the dialog goes away
+  useEffect(() => () => analysisRef.current?.abort(), []);
+
+  const handleClose = () => {
+    analysisRef.current?.abort();
+    onClose();
+  };
+
+  const handleDownload = (extension: 'csv' | 'md') => {
+    if (!report) return;
+    const blob = extension === 'csv'
+      ? new Blob(['\uFEFF', impactReportToCsv(report)], { type: 'text/csv;charset=utf-8' })
+      : new Blob([impactReportToMarkdown(report, grouping)], { type: 'text/markdown;charset=utf-8' });
+    downloadBlob(getImpactFileName(report, extension), blob);
+    showSuccess(`Downloaded the impact report as ${extension === 'csv' ? 'CSV' : 'Markdown'}`);
+  };
+
+  const progressValue = progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+  const errorMessage = typeof error === 'string' ? error : (error as { message?: string } | null)?.message;
+
+  return (
+    <Dialog
+      open={open}
+      onClose={handleClose}
+      maxWidth="md"
+      fullWidth
+      sx={{ '& .MuiDialog-paper': { borderRadius: '12px', padding: '24px', backgroundColor: 'var(--sys-surface)' } }}
+    >
+      <DialogTitle sx={{ fontWeight: 600, fontSize: '20px', padding: '0 0 4px 0', color: 'var(--sys-on-surface)' }}>
+        Impact analysis
+      </DialogTitle>
+      <Typography sx={{ fontSize: '12px', color: 'var(--sys-on-surface-muted)', marginBottom: '16px', wordBreak: 'break-all' }}>
+        Everything downstream of {entry?.fullyQualifiedName}
+      </Typography>
+      <DialogContent sx={{ padding: '0 0 24px 0', display: 'flex', flexDirection: 'column', gap: '16px' }}>
+        {isRunning && (
+          <div>
+            <LinearProgress
+              variant={progress.total > 0 ? 'determinate' : 'indeterminate'}
+              value={progressValue}
+              aria-label="Impact analysis progress"
+            />
+            <Typography sx={{ marginTop: '8px', fontSize: '12px', color: 'var(--sys-on-surface-muted)' }}>
+              {progress.total > 0
+                ? `${PHASE_LABELS[progress.phase]}: ${progress.done} of ${progress.total}`
+                : PHASE_LABELS.traversing}
+            </Typography>
+          </div>
+        )}
+
+        {status === 'failed' && (
+          <Typography role="alert" sx={{ fontSize: '14px', color: 'var(--sys-error)' }}>
+            {errorMessage || 'Failed to run the impact analysis.'}
+          </Typography>
+        )}
+
+        {status === 'cancelled' && (
+          <Typography sx={{ fontSize: '14px', color: 'var(--sys-on-surface-muted)' }}>
+            Impact analysis cancelled.
+          </Typography>
+        )}
+
+        {status === 'succeeded' && report && (
+          <>
+            <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '12px', flexWrap: 'wrap' }}>
+              <Typography sx={{ fontSize: '14px', fontWeight: 500, color: 'var(--sys-on-surface)' }}>
+                {report.consumers.length} downstream consumer{report.consumers.length === 1 ? '' : 's'}
+              </Typography>
+              <ToggleButtonGroup
+                value={grouping}
+                exclusive
+                size="small"
+                aria-label="Group by"
+                onChange={(_e, value) => value && setGrouping(value)}
+                sx={{ '& .MuiToggleButton-root': { textTransform: 'none', padding: '2px 12px', fontSize: '12px' } }}
+              >
+                {GROUPINGS.map(({ value, label }) => (
+                  <ToggleButton key={value} value={value}>{label}</ToggleButton>
+                ))}
+              </ToggleButtonGroup>
+            </Box>
+
+            {report.truncated && (
+              <Typography sx={{ fontSize: '12px', color: 'var(--sys-on-surface-muted)' }}>
+                The lineage walk hit its limit, so more consumers may exist.
+              </Typography>
+            )}
+
+            {report.consumers.length === 0 && (
+              <Typography sx={{ fontSize: '14px', color: 'var(--sys-on-surface-muted)' }}>
+                No downstream consumers were found.
+              </Typography>
+            )}
+
+            {groups.map((group) => (
+              <Box key={group.key} component="section" aria-label={group.label}>
+                <Typography sx={{ fontSize: '12px', fontWeight: 500, color: 'var(--sys-on-surface-muted)', textTransform: 'uppercase', marginBottom: '4px' }}>
+                  {group.label} ({group.consumers.length})
+                </Typography>
+                {group.consumers.map((consumer) => (
+                  <Box
+                    key={consumer.fqn}
+                    sx={{
+                      display: 'grid',
+                      gridTemplateColumns: 'minmax(0, 2fr) minmax(0, 2fr) minmax(0, 1fr)',
+                      gap: '12px',
+                      padding: '8px 0',
+                      borderTop: '1px solid var(--sys-outline-variant)',
+                      fontSize: '13px',
+                      color: 'var(--sys-on-surface)',
+                    }}
+                  >
+                    <Box sx={{ minWidth: 0 }}>
+                      <Typography sx={{ fontSize: '13px', fontWeight: 500 }}>{consumer.name}</Typography>
+                      <Typography sx={{ fontSize: '12px', color: 'var(--sys-on-surface-muted)', wordBreak: 'break-all' }}>
+                        {consumer.fqn}
+                      </Typography>
+                      <Typography sx={{ fontSize: '12px', color: 'var(--sys-on-surface-muted)' }}>
+                        {[consumer.system, consumer.project, `${consumer.depth} hop${consumer.depth === 1 ? '' : 's'}`].filter(Boolean).join(' · ')}
+                      </Typography>
+                    </Box>
+                    <Typography sx={{ fontSize: '12px', color: consumer.contacts.length ? 'var(--sys-on-surface)' : 'var(--sys-on-surface-muted)' }}>
+                      {consumer.contacts.length
+                        ? formatContacts(consumer.contacts)
+                        : consumer.entryFound ? 'No contacts' : 'Entry not readable'}
+                    </Typography>
+                    <Typography sx={{ fontSize: '12px', color: 'var(--sys-on-surface-muted)' }}>
+                      Last run: {formatRunTime(consumer.lastRunTime)}
+                    </Typography>
+                  </Box>
+                ))}
+              </Box>
+            ))}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ padding: 0, gap: '12px' }}>
+        {isRunning ? (
+          <Button onClick={() => analysisRef.current?.abort()} sx={{ textTransform: 'none', borderRadius: '8px' }}>
+            Cancel analysis
+          </Button>
+        ) : (
+          <>
+            {(status === 'failed' || status === 'cancelled') && (
+              <Button onClick={startAnalysis} sx={{ textTransform: 'none', borderRadius: '8px' }}>
+                Run again
+              </Button>
+            )}
+            <Button onClick={handleClose} sx={{ textTransform: 'none', borderRadius: '8px' }}>
+              Close
+            </Button>
+          </>
+        )}
+        <Button
+          onClick={() => handleDownload('md')}
+          variant="outlined"
+          disabled={status !== 'succeeded'}
+          sx={{ textTransform: 'none', borderRadius: '8px' }}
+        >
+          Export Markdown
+        </Button>
+        <Button
+          onClick={() => handleDownload('csv')}
+          variant="contained"
+          disabled={status !== 'succeeded'}
+          sx={{ textTransform: 'none', borderRadius: '8px', backgroundColor: 'var(--sys-primary)', color: 'var(--sys-on-primary)' }}
+        >
+          Export CSV
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ImpactAnalysisDialog;
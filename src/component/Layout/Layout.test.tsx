@@ -31,6 +31,24 @@ vi.mock("../Navbar/Navbar", () => ({
   ),
 }));
 
+vi.mock("../Compare/CompareTray", () => ({
+  default: vi.fn(() => <div data-testid="compare-tray" />),
+}));
+
+vi.mock("../CommandPalette/CommandPalette", () => ({
+  default: vi.fn(() => <div data-testid="command-palette" />),
+}));
+
+const mockUseFavoritesSync = vi.fn();
+vi.mock("../../hooks/useFavoritesSync", () => ({
+  useFavoritesSync: () => mockUseFavoritesSync(),
+}));
+
+const mockUseWatchlist = vi.fn();
+vi.mock("../../hooks/useWatchlist", () => ({
+  useWatchlist: () => mockUseWatchlist(),
+}));
+
 describe("Layout", () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -228,6 +246,26 @@ describe("Layout", () => {
       expect(screen.getByTestId("global-sidebar")).toBeInTheDocument();
       expect(screen.getByTestId("navbar")).toBeInTheDocument();
     });
+
+    it("loads the user's favorites", () => {
+      render(
+        <Layout>
+          <div>Child</div>
+        </Layout>
+      );
+
+      expect(mockUseFavoritesSync).toHaveBeenCalled();
+    });
+
+    it("checks the user's favorites for changes", () => {
+      render(
+        <Layout>
+          <div>Child</div>
+        </Layout>
+      );
+
+      expect(mockUseWatchlist).toHaveBeenCalled();
+    });
   });
 
   describe("Props Interface", () => {
@@ -1,6 +1,10 @@
 import React from 'react';
 import GlobalSidebar from '../GlobalSidebar/GlobalSidebar';
 import Navbar from '../Navbar/Navbar';
+import CompareTray from '../Compare/CompareTray';
+import CommandPalette from '../CommandPalette/CommandPalette';
+import { useFavoritesSync } from '../../hooks/useFavoritesSync';
+import { useWatchlist } from '../../hooks/useWatchlist';
 import './Layout.css';
 
 interface LayoutProps {
@@ -14,6 +18,9 @@ const Layout: React.FC<LayoutProps> = ({
   searchBar = false,
   searchNavigate = true,
 }) => {
+  useFavoritesSync();
+  useWatchlist();
+
   return (
     <div className="app-layout">
       <GlobalSidebar />
@@ -23,6 +30,8 @@ const Layout: React.FC<LayoutProps> = ({
           {children}
         </div>
       </div>
+      <CompareTray />
+      <CommandPalette />
     </div>
   );
 };
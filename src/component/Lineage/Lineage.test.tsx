@@ -84,6 +84,8 @@ const createMockStore = (initialState = {}) => {
 // Mock lineage slice
 vi.mock('../../features/lineage/lineageSlice', () => ({
   fetchLineageSearchLinks: vi.fn(() => ({ type: 'lineage/fetchLineageSearchLinks/pending' })),
+  fetchLineageGraph: vi.fn(() => ({ type: 'lineage/fetchLineageGraph/pending' })),
+  clearLineageGraph: vi.fn(() => ({ type: 'lineage/clearLineageGraph' })),
   default: vi.fn((state = { items: [], status: 'idle', error: null }, action: any) => {
     switch (action.type) {
       case 'lineage/fetchLineageSearchLinks/pending':
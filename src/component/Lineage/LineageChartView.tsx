@@ -46,7 +46,7 @@ import './LineageChartView.css'
 
 // MUI component styles based on Figma design
 const nodeContentStyles = {
-  color: '#1F1F1F',
+  color: 'var(--sys-on-surface)',
   padding: '0.5rem',
   fontFamily: '"Google Sans", sans-serif',
 };
@@ -116,7 +116,7 @@ const renderRectSvgNode = ({ nodeDatum, foreignObjectProps, handleSidePanelToggl
                 <Typography 
                   variant="heading2Medium"
                   sx={{ 
-                    color: "#1F1F1F", 
+                    color: "var(--sys-on-surface)", 
                     fontSize:"0.875rem", 
                     fontWeight:"500", 
                     textAlign: 'center',
@@ -141,7 +141,7 @@ const renderRectSvgNode = ({ nodeDatum, foreignObjectProps, handleSidePanelToggl
                 <AddOutlined style={{
                   cursor:"pointer", 
                   fontSize: "1.25rem",
-                  color: "#0B57D0"
+                  color: "var(--sys-primary)"
                 }}/>
             </Box>
           </Box>
@@ -160,12 +160,12 @@ const renderRectSvgNode = ({ nodeDatum, foreignObjectProps, handleSidePanelToggl
                     sx={{
                       flex: 1,
                       padding: '0.5rem',
-                      border: '1px solid #ddd',
+                      border: '1px solid var(--sys-outline-light)',
                       boxSizing: 'border-box',
                     }}>
                     <Typography 
                       sx={{
-                        color: "#1F1F1F", 
+                        color: "var(--sys-on-surface)", 
                         fontSize:"0.75rem", 
                         fontWeight:"400", 
                         textAlign: 'left',
@@ -193,7 +193,7 @@ const renderRectSvgNode = ({ nodeDatum, foreignObjectProps, handleSidePanelToggl
                     }}>
                     <Typography 
                       sx={{
-                        color: "#0B57D0",
+                        color: "var(--sys-primary)",
                         fontSize:"0.75rem", 
                         fontWeight:"500", 
                         textAlign: 'center',
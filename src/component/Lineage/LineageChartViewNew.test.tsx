@@ -142,6 +142,14 @@ vi.mock("./LineageColumnLevelPanel", () => ({
   ),
 }));
 
+vi.mock("./LineageExportMenu", () => ({
+  default: ({ graphData, nodes }: { graphData: unknown[]; nodes: unknown[] }) => (
+    <div data-testid="lineage-export-menu" data-graph-count={graphData.length} data-node-count={nodes.length}>
+      Export
+    </div>
+  ),
+}));
+
 // Mock MUI components
 vi.mock("@mui/icons-material", () => ({
   CloseFullscreen: ({ onClick, sx }: any) => (
@@ -321,11 +329,19 @@ describe("LineageChartViewNew", () => {
     it("renders Panel component at top-left position", () => {
       render(<LineageChartViewNew {...defaultProps} />);
 
-      const panel = screen.getByTestId("panel");
+      const panel = screen.getAllByTestId("panel")[0];
       expect(panel).toBeInTheDocument();
       expect(panel).toHaveAttribute("data-position", "top-left");
     });
 
+    it("renders the export menu at top-right position", () => {
+      render(<LineageChartViewNew {...defaultProps} />);
+
+      const panel = screen.getAllByTestId("panel")[1];
+      expect(panel).toHaveAttribute("data-position", "top-right");
+      expect(panel).toContainElement(screen.getByTestId("lineage-export-menu"));
+    });
+
     it("renders 'Show Lineage Explorer' button by default", () => {
       render(<LineageChartViewNew {...defaultProps} />);
 
@@ -496,7 +512,7 @@ describe("LineageChartViewNew", () => {
       render(<LineageChartViewNew {...defaultProps} />);
 
       expect(capturedBackgroundProps.color).toBe("#c4c4c4");
-      expect(capturedBackgroundProps.bgColor).toBe("rgb(248, 250, 253)");
+      expect(capturedBackgroundProps.bgColor).toBe("#f8fafd");
     });
   });
 
@@ -631,15 +647,14 @@ describe("LineageChartViewNew", () => {
       render(<LineageChartViewNew {...defaultProps} />);
 
       const showButton = screen.getByText("Show Lineage Explorer");
-      expect(showButton).toHaveStyle({
-        margin: "0.5rem",
-        padding: "0.25rem 0.5rem",
-        fontSize: "14px",
-        borderRadius: "4px",
-        border: "1px solid #dddddd",
-        backgroundColor: "#ffffff",
-        cursor: "pointer",
-      });
+      // Read the inline style: jsdom's computed style drops shorthands like border
+      expect(showButton.style.margin).toBe("0.5rem");
+      expect(showButton.style.padding).toBe("0.25rem 0.5rem");
+      expect(showButton.style.fontSize).toBe("14px");
+      expect(showButton.style.borderRadius).toBe("4px");
+      expect(showButton.style.border).toBe("1px solid rgb(221, 221, 221)");
+      expect(showButton.style.backgroundColor).toBe("rgb(255, 255, 255)");
+      expect(showButton.style.cursor).toBe("pointer");
     });
   });
 
@@ -1502,6 +1517,65 @@ describe("LineageChartViewNew", () => {
     });
   });
 
+  describe("Time Travel Highlighting", () => {
+    it("colours links added or removed since the chosen window", async () => {
+      const graphData = [
+        createMockAssetNode({ id: "asset-1" }),
+        { ...createMockQueryNode({ id: "query-1", source: "asset-1", target: "asset-2" }), timeChange: "added" },
+        { ...createMockQueryNode({ id: "query-2", source: "asset-1", target: "asset-3" }), timeChange: "removed" },
+        createMockAssetNode({ id: "asset-2" }),
+        createMockAssetNode({ id: "asset-3" }),
+      ];
+
+      render(<LineageChartViewNew {...defaultProps} graphData={graphData} />);
+
+      await waitFor(() => {
+        expect(mockSetEdgesCallHistory.length).toBeGreaterThan(0);
+      });
+
+      const lastCall = mockSetEdgesCallHistory[mockSetEdgesCallHistory.length - 1];
+      const styleOf = (target: string) => lastCall.find((e: any) => e.target === target).style;
+      expect(styleOf("asset-2")).toMatchObject({ stroke: "var(--sys-success)" });
+      expect(styleOf("asset-3")).toMatchObject({ stroke: "var(--sys-error)", strokeDasharray: "6 4" });
+      expect(styleOf("query-1").stroke).toBe("var(--sys-success)");
+    });
+  });
+
+  describe("Collapsed Process Nodes", () => {
+    const queryNode = createMockQueryNode({ id: "query-1", source: "asset-1", target: "asset-2" });
+    const graphData = [
+      createMockAssetNode({ id: "asset-1" }),
+      createMockAssetNode({ id: "asset-2" }),
+      { id: "direct-edge-query-1", type: "directEdge", source: "asset-1", target: "asset-2", queryNode },
+    ];
+
+    it("draws direct edges between assets without process nodes", async () => {
+      render(<LineageChartViewNew {...defaultProps} graphData={graphData} />);
+
+      await waitFor(() => {
+        expect(mockSetEdgesCallHistory.length).toBeGreaterThan(0);
+      });
+
+      const lastNodes = mockSetNodesCallHistory.find((call: any[]) => call.length > 0);
+      expect(lastNodes.map((n: any) => n.type)).toEqual(["lineageNode", "lineageNode"]);
+      const lastEdges = mockSetEdgesCallHistory.find((call: any[]) => call.length > 0);
+      expect(lastEdges).toEqual([
+        expect.objectContaining({ id: "direct-edge-query-1", source: "asset-1", target: "asset-2", data: { queryNode } }),
+      ]);
+    });
+
+    it("opens the process details from a direct edge", () => {
+      const handleQueryPanelToggle = vi.fn();
+      render(<LineageChartViewNew {...defaultProps} graphData={graphData} handleQueryPanelToggle={handleQueryPanelToggle} />);
+
+      capturedReactFlowProps.onEdgeClick({}, { id: "direct-edge-query-1", data: { queryNode } });
+      capturedReactFlowProps.onEdgeClick({}, { id: "e0-query-2", data: {} });
+
+      expect(handleQueryPanelToggle).toHaveBeenCalledTimes(1);
+      expect(handleQueryPanelToggle).toHaveBeenCalledWith(queryNode);
+    });
+  });
+
   // ==========================================================================
   // Root Node Special Handling Tests
   // ==========================================================================
@@ -1565,7 +1639,7 @@ describe("LineageChartViewNew", () => {
       expect(screen.getByTestId("mini-map")).toBeInTheDocument();
       expect(screen.getByTestId("controls")).toBeInTheDocument();
       expect(screen.getByTestId("background")).toBeInTheDocument();
-      expect(screen.getByTestId("panel")).toBeInTheDocument();
+      expect(screen.getAllByTestId("panel")).toHaveLength(2);
       expect(screen.getByTestId("close-fullscreen-icon")).toBeInTheDocument();
 
       // Verify nodes and edges are set
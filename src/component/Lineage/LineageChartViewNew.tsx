@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import {
   ReactFlow,
   useNodesState,
@@ -7,7 +7,8 @@ import {
   Controls,
   Background,
   BackgroundVariant,
-  Panel
+  Panel,
+  type ReactFlowInstance
 } from '@xyflow/react';
 
 import '@xyflow/react/dist/style.css';
@@ -22,15 +23,26 @@ import { CircularProgress, Tooltip } from '@mui/material';
 import dagre from '@dagrejs/dagre';
 import './LineageChartViewNew.css';
 import LineageColumnLevelPanel from './LineageColumnLevelPanel';
+import LineageExportMenu from './LineageExportMenu';
+import { traceColumnPath, type ColumnLineageEdge, type ColumnRef } from '../../utils/columnLineage';
+import type { LineageGraphItem } from '../../utils/lineageGraph';
+import { useColorTokens } from '../../hooks/useColorTokens';
 
 const dagreGraph = new dagre.graphlib.Graph().setDefaultEdgeLabel(() => ({}));
 
+// Column graph nodes grow with the columns they list: header plus one row each
+const getColumnNodeHeight = (node: { data?: { nodeData?: LineageGraphItem } }): number | null => {
+  const columns = node.data?.nodeData?.columns;
+  if (!columns) return null;
+  return 44 + (columns.length > 0 ? 16 + columns.length * 31 : 0);
+};
+
 const getLayoutedElements = (nodes:any, edges:any, direction = 'LR') => {
   const isHorizontal = direction === 'LR';
   dagreGraph.setGraph({ rankdir: direction });
 
   nodes.forEach((node:any) => {
-    dagreGraph.setNode(node.id, { width: (node.type === 'lineageNode' ? 350 : 150), height:(node.data?.columnLineageApplied && node.data?.columnName !== "" && node.data?.columnName != undefined) ? 300/2 : (node.data?.nodeData?.isRoot ? 350 / 2 : 200 / 2) });
+    dagreGraph.setNode(node.id, { width: (node.type === 'lineageNode' ? 350 : 150), height: getColumnNodeHeight(node) ?? ((node.data?.columnLineageApplied && node.data?.columnName !== "" && node.data?.columnName != undefined) ? 300/2 : (node.data?.nodeData?.isRoot ? 350 / 2 : 200 / 2)) });
   });
 
   edges.forEach((edge:any) => {
@@ -49,7 +61,7 @@ const getLayoutedElements = (nodes:any, edges:any, direction = 'LR') => {
       // so it matches the React Flow node anchor point (top left).
       position: {
         x: nodeWithPosition.x - (node.type === 'lineageNode' ? 350/2 : 150/2),
-        y: nodeWithPosition.y - (node.data?.nodeData?.isRoot ? 350 / 2 : 200 / 2),
+        y: nodeWithPosition.y - ((getColumnNodeHeight(node) ?? (node.data?.nodeData?.isRoot ? 350 : 200)) / 2),
       },
     };
 
@@ -61,6 +73,37 @@ const getLayoutedElements = (nodes:any, edges:any, direction = 'LR') => {
 
 
 const snapGrid:[number,number] = [20, 20];
+// Dashed edges for links that lead back to an asset already in the graph
+const cycleEdgeStyle = { strokeDasharray: '6 4' };
+// Time travel: links added or removed since the chosen window
+const timeChangeStrokes: Record<string, string> = { added: 'var(--sys-success)', removed: 'var(--sys-error)' };
+const timeChangeStyle = (timeChange?: string) => (timeChange && timeChangeStrokes[timeChange]
+  ? { stroke: timeChangeStrokes[timeChange], ...(timeChange === 'removed' && cycleEdgeStyle) }
+  : {});
+
+// Column-to-column edges of the column graph, between column row handles
+const toColumnEdge = (item:any) => ({
+  id: item.id,
+  source: item.source,
+  target: item.target,
+  sourceHandle: item.sourceHandle,
+  targetHandle: item.targetHandle,
+  data: { columnEdge: item.edge, timeChange: item.timeChange },
+  style: { stroke: 'var(--sys-on-surface-muted)', strokeWidth: 2, ...(item.isCycle && cycleEdgeStyle), ...timeChangeStyle(item.timeChange) },
+});
+// Collapsed process nodes: one edge from source to target keeping the query
+const toDirectEdge = (item:any) => ({
+  id: item.id,
+  source: item.source,
+  target: item.target,
+  animated: true,
+  data: { queryNode: item.queryNode },
+  style: { stroke: '#2b75d0ff', strokeWidth: 3, ...(item.isCycle && cycleEdgeStyle), ...timeChangeStyle(item.timeChange) },
+});
+const withFocusClass = (className:string | undefined, dimmed:boolean) => {
+  const base = (className ?? '').replace('lineage-focus-dimmed', '').trim();
+  return dimmed ? `${base} lineage-focus-dimmed`.trim() : base;
+};
 // --- 2. Register Custom Node Types ---
 // We tell React Flow that whenever it sees a node with type 'multiInput',
 // it should render our MultiInputNode component.
@@ -84,10 +127,17 @@ interface LineageChartViewProps {
   isFullScreen?: boolean;
   isColumnLineageLoading?: boolean;
   toggleFullScreen?: () => void;
+  // Hops the Lineage Explorer follows a column across
+  depth?: number;
+  // Focus mode: ids on the path between the focused assets
+  focusPath?: Set<string> | null;
+  // Node to centre, with a nonce so the same node can be found again
+  centeredNode?: { id: string; nonce: number } | null;
 }
 
 
-const LineageChartViewNew : React.FC<LineageChartViewProps> = ({ handleSidePanelToggle, handleQueryPanelToggle, fetchLineageDownStream, fetchLineageUpStream, fetchColumnLevelLineage, resetLineageGraph, entry, graphData, isSidePanelOpen = false, selectedNode = null, isFullScreen=false, isColumnLineageLoading=false, toggleFullScreen }) => {
+const LineageChartViewNew : React.FC<LineageChartViewProps> = ({ handleSidePanelToggle, handleQueryPanelToggle, fetchLineageDownStream, fetchLineageUpStream, fetchColumnLevelLineage, resetLineageGraph, entry, graphData, isSidePanelOpen = false, selectedNode = null, isFullScreen=false, isColumnLineageLoading=false, toggleFullScreen, depth = 1, focusPath = null, centeredNode = null }) => {
+  const colors = useColorTokens();
   
   const [refresh, setRefresh] = useState<number>(0);  
   const [nodes, setNodes, onNodesChange] = useNodesState<any>([]);
@@ -96,6 +146,19 @@ const LineageChartViewNew : React.FC<LineageChartViewProps> = ({ handleSidePanel
   const [panelVisible, setPanelVisible] = useState<boolean>(false);
   const [direction, setDirection] = useState<'upstream' | 'downstream' | 'both'>('both');
   const [columnLineageApplied, setColumnLineageApplied] = useState<boolean>(false);
+  // Column whose path is highlighted in the column graph
+  const [highlightedColumn, setHighlightedColumn] = useState<ColumnRef | null>(null);
+  const flowInstance = useRef<ReactFlowInstance<any, any> | null>(null);
+  const focusApplied = useRef(false);
+
+  const columnEdges: ColumnLineageEdge[] = useMemo(
+    () => graphData.flatMap((item: LineageGraphItem) => (item.type === 'columnEdge' && item.edge ? [item.edge] : [])),
+    [graphData]
+  );
+
+  const handleColumnClick = (fqn:string, column:string) => {
+    setHighlightedColumn((current) => (current?.fqn === fqn && current.column === column ? null : { fqn, column }));
+  };
 
   useEffect(() => {
     
@@ -115,7 +178,7 @@ const LineageChartViewNew : React.FC<LineageChartViewProps> = ({ handleSidePanel
                 style: {
                     border: '1px solid #bdbdbdff',
                     padding: '0px',
-                    backgroundColor: '#ffffff'
+                    backgroundColor: colors.surface
                 },
               });
         }
@@ -132,7 +195,7 @@ const LineageChartViewNew : React.FC<LineageChartViewProps> = ({ handleSidePanel
                 style: { 
                     border: '1px solid #bdbdbdff',
                     padding: '0px',
-                    backgroundColor: '#ffffff'  
+                    backgroundColor: colors.surface  
                 },
               });
         }else if(item.type === 'queryNode' ){
@@ -152,15 +215,19 @@ const LineageChartViewNew : React.FC<LineageChartViewProps> = ({ handleSidePanel
                 source: item.source , // The 'id' of the source node
                 target: item.id, // The 'id' of the target node
                 animated: true,
-                style: { stroke: '#555555', strokeWidth: 3 }
+                style: { stroke: colors.onSurfaceDim, strokeWidth: 3, ...(item.isCycle && cycleEdgeStyle), ...timeChangeStyle(item.timeChange) }
             });
             edgesArray.push({
                 id: `e${index}-${item.id}`, 
                 source:item.id , // The 'id' of the source node
                 target: item.target, // The 'id' of the target node
                 animated: true,
-                style: { stroke: '#2b75d0ff', strokeWidth: 3 }
+                style: { stroke: '#2b75d0ff', strokeWidth: 3, ...(item.isCycle && cycleEdgeStyle), ...timeChangeStyle(item.timeChange) }
             });
+        }else if(item.type === 'directEdge'){
+            edgesArray.push(toDirectEdge(item));
+        }else if(item.type === 'columnEdge'){
+            edgesArray.push(toColumnEdge(item));
         }
       }
     }); 
@@ -171,7 +238,9 @@ const LineageChartViewNew : React.FC<LineageChartViewProps> = ({ handleSidePanel
     );
     setNodes(graphData.length===1 ? nodesArray : [...layoutedNodes]);
     setEdges([...layoutedEdges]);
-  }, [selectedNode]);
+    // Restyles on selection and theme changes; the callbacks and column state are read, not watched
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedNode, colors]);
   
   useEffect(() => {
 
@@ -190,7 +259,7 @@ const LineageChartViewNew : React.FC<LineageChartViewProps> = ({ handleSidePanel
                 style: {
                     border: '1px solid #bdbdbdff',
                     padding: '0px',
-                    backgroundColor: '#ffffff'
+                    backgroundColor: colors.surface
                 },
               });
         }
@@ -207,7 +276,7 @@ const LineageChartViewNew : React.FC<LineageChartViewProps> = ({ handleSidePanel
                 style: { 
                     border: '1px solid #bdbdbdff',
                     padding: '0px',
-                    backgroundColor: '#ffffff'  
+                    backgroundColor: colors.surface  
                 },
             });
         }else if(item.type === 'queryNode' ){
@@ -227,15 +296,19 @@ const LineageChartViewNew : React.FC<LineageChartViewProps> = ({ handleSidePanel
                 source: item.source , // The 'id' of the source node
                 target: item.id, // The 'id' of the target node
                 animated: true,
-                style: { stroke: '#555555', strokeWidth: 3 }
+                style: { stroke: colors.onSurfaceDim, strokeWidth: 3, ...(item.isCycle && cycleEdgeStyle), ...timeChangeStyle(item.timeChange) }
             });
             edgesArray.push({
                 id: `e${index}-${item.id}`, 
                 source:item.id , // The 'id' of the source node
                 target: item.target, // The 'id' of the target node
                 animated: true,
-                style: { stroke: '#2b75d0ff', strokeWidth: 3 }
+                style: { stroke: '#2b75d0ff', strokeWidth: 3, ...(item.isCycle && cycleEdgeStyle), ...timeChangeStyle(item.timeChange) }
             });
+        }else if(item.type === 'directEdge'){
+            edgesArray.push(toDirectEdge(item));
+        }else if(item.type === 'columnEdge'){
+            edgesArray.push(toColumnEdge(item));
         }
       }
     }); 
@@ -246,7 +319,64 @@ const LineageChartViewNew : React.FC<LineageChartViewProps> = ({ handleSidePanel
     );
     setNodes(graphData.length===1 ? nodesArray : [...layoutedNodes]);
     setEdges([...layoutedEdges]);
-  }, [graphData, refresh]);
+    // Rebuilds on new graph data, refreshes and theme changes; the rest is read, not watched
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [graphData, refresh, colors]);
+
+  // A traced column starts highlighted
+  useEffect(() => {
+    const root = graphData.find((item: LineageGraphItem) => item.tracedColumn);
+    setHighlightedColumn(root?.fqn && root.tracedColumn ? { fqn: root.fqn, column: root.tracedColumn } : null);
+  }, [graphData]);
+
+  // Highlight the path of the selected column and fade everything else
+  useEffect(() => {
+    if (columnEdges.length === 0 && !highlightedColumn) return;
+    const path = highlightedColumn ? traceColumnPath(columnEdges, highlightedColumn) : null;
+    setNodes((current) => current.map((node) => (node.data?.nodeData?.columns
+      ? { ...node, data: { ...node.data, highlightedColumns: path?.columns ?? null, onColumnClick: handleColumnClick } }
+      : node)));
+    setEdges((current) => current.map((edge) => {
+      if (!edge.data?.columnEdge) return edge;
+      const onPath = !!path?.edges.has(edge.data.columnEdge.id);
+      return {
+        ...edge,
+        animated: onPath,
+        style: {
+          ...edge.style,
+          stroke: onPath ? 'var(--sys-primary)' : timeChangeStrokes[edge.data.timeChange] ?? 'var(--sys-on-surface-muted)',
+          strokeWidth: onPath ? 3 : 2,
+          opacity: path && !onPath ? 0.2 : 1,
+        },
+      };
+    }));
+  }, [highlightedColumn, graphData, refresh, selectedNode, columnEdges, setNodes, setEdges]);
+
+  // Dim whatever is off the focus path; a class so it stacks with the column path fading
+  useEffect(() => {
+    if (!focusPath && !focusApplied.current) return;
+    focusApplied.current = !!focusPath;
+    setNodes((current:any[]) => current.map((node:any) => ({
+      ...node,
+      className: withFocusClass(node.className, !!focusPath && !focusPath.has(node.id)),
+    })));
+    setEdges((current:any[]) => current.map((edge:any) => {
+      const onPath = edge.data?.queryNode
+        ? focusPath?.has(edge.id)
+        : focusPath?.has(edge.source) && focusPath?.has(edge.target);
+      return { ...edge, className: withFocusClass(edge.className, !!focusPath && !onPath) };
+    }));
+  }, [focusPath, graphData, refresh, selectedNode]);
+
+  // Centre the node found with the search box and select it
+  useEffect(() => {
+    const node = centeredNode && nodes.find((item:any) => item.id === centeredNode.id);
+    if (!node) return;
+    const width = node.measured?.width ?? (node.type === 'lineageNode' ? 350 : 150);
+    const height = node.measured?.height ?? 100;
+    flowInstance.current?.setCenter(node.position.x + width / 2, node.position.y + height / 2, { zoom: 1.1, duration: 500 });
+    setNodes((current:any[]) => current.map((item:any) => ({ ...item, selected: item.id === centeredNode.id })));
+  }, [centeredNode]);
 
   return (
     <>
@@ -256,7 +386,11 @@ const LineageChartViewNew : React.FC<LineageChartViewProps> = ({ handleSidePanel
       onNodesChange={onNodesChange}
       onEdgesChange={onEdgesChange}
       onConnect={()=>{}}
-      style={{ border: '1px solid #fafafa', borderBottomLeftRadius: '15px', borderBottomRightRadius: '15px'}}
+      onInit={(instance) => { flowInstance.current = instance; }}
+      onEdgeClick={(_event, edge:any) => {
+        if (edge.data?.queryNode) handleQueryPanelToggle?.(edge.data.queryNode);
+      }}
+      style={{ border: `1px solid ${colors.backgroundGrey}`, borderBottomLeftRadius: '15px', borderBottomRightRadius: '15px'}}
       nodeTypes={nodeTypes}
       snapToGrid={true}
       snapGrid={snapGrid}
@@ -273,9 +407,9 @@ const LineageChartViewNew : React.FC<LineageChartViewProps> = ({ handleSidePanel
                     right: 10,
                     zIndex: 9999,
                     fontSize: '1.25rem', 
-                    color: '#575757', 
+                    color: colors.onSurfaceMuted, 
                     cursor: 'pointer', 
-                    backgroundColor: '#F5F5F5',
+                    backgroundColor: colors.surfaceContainerGrey,
                     borderRadius: '4px',
                     padding: '0.125rem',
                 }}
@@ -287,8 +421,8 @@ const LineageChartViewNew : React.FC<LineageChartViewProps> = ({ handleSidePanel
         variant={BackgroundVariant.Dots}
         gap={25}
         size={2}
-        color="#c4c4c4"
-        bgColor='rgb(248, 250, 253)' />
+        color={colors.outlineMedium}
+        bgColor={colors.background} />
       <MiniMap
         nodeStrokeWidth={1}
         nodeStrokeColor={(n) => {
@@ -303,13 +437,14 @@ const LineageChartViewNew : React.FC<LineageChartViewProps> = ({ handleSidePanel
         }}
         pannable={true}
         zoomable={true}
-        style={{backgroundColor: '#ffffff'}}
+        style={{backgroundColor: colors.surface}}
       />
       <Controls showInteractive={false}/>
       <Panel position="top-left" >
         {panelVisible ?
           <LineageColumnLevelPanel 
             entryData={entry} 
+            depth={depth}
             direction={direction} 
             setDirection={setDirection}
             columnName={columnName} 
@@ -335,8 +470,8 @@ const LineageChartViewNew : React.FC<LineageChartViewProps> = ({ handleSidePanel
               padding: '0.25rem 0.5rem',
               fontSize: '14px',
               borderRadius: '4px',
-              border: '1px solid #dddddd',
-              backgroundColor: '#ffffff',
+              border: `1px solid ${colors.outlineLight}`,
+              backgroundColor: colors.surface,
               cursor: 'pointer',
             }}
             onClick={() => setPanelVisible(true)}
@@ -345,6 +480,10 @@ const LineageChartViewNew : React.FC<LineageChartViewProps> = ({ handleSidePanel
           </button>)
         }
       </Panel>
+      {/* Clear of the exit-fullscreen icon */}
+      <Panel position="top-right" style={isFullScreen ? { marginRight: '2.5rem' } : undefined}>
+        <LineageExportMenu graphData={graphData} nodes={nodes} edges={edges} entry={entry} />
+      </Panel>
 
     </ReactFlow>
     {
@@ -12,10 +12,13 @@ import {
   Checkbox
 } from '@mui/material';
 import {Close } from '@mui/icons-material';
+import { getSchemaFields } from '../../utils/entryModel';
+import { useColorTokens } from '../../hooks/useColorTokens';
 /**
  * @file LineageColumnLevelPanel.tsx
  * @description Side panel component to display detailed information about a lineage column level entry,
- * including asset info, aspects, and schema.
+ * including asset info, aspects, and schema. When the lineage depth is more
+ * than one hop, the selected column is followed across all of them.
  */
 
 interface LineageColumnLevelPanelProps {
@@ -28,19 +31,21 @@ interface LineageColumnLevelPanelProps {
   setDirection?: (direction: 'upstream' | 'downstream' | 'both') => void;
   onClose?: () => void;
   css?: React.CSSProperties;
+  // Hops chosen in the Lineage header
+  depth?: number;
 }
 
-const LineageColumnLevelPanel: React.FC<LineageColumnLevelPanelProps> = ({ entryData, columnName, setColumnName, direction, setDirection, fetchColumnLineage, resetLineageGraph, onClose, css }) => {
+const LineageColumnLevelPanel: React.FC<LineageColumnLevelPanelProps> = ({ entryData, columnName, setColumnName, direction, setDirection, fetchColumnLineage, resetLineageGraph, onClose, css, depth = 1 }) => {
+  const colors = useColorTokens();
   const entry = entryData;
 
-  const number = entry?.entryType?.split('/')[1];
-  const schema = entry?.aspects?.[`${number}.global.schema`]?.data?.fields?.fields?.listValue?.values || [];
+  const schema = getSchemaFields(entry);
 
   return (
     <Box sx={{ 
       width: '22rem', 
-      background: '#ffffff', 
-      border: '1px solid #DADCE0',
+      background: colors.surface, 
+      border: `1px solid ${colors.outlineVariant}`,
       borderRadius: '0.5rem',
       height: '380px',
       overflowY: 'auto',
@@ -53,11 +58,11 @@ const LineageColumnLevelPanel: React.FC<LineageColumnLevelPanelProps> = ({ entry
         justifyContent: 'space-between', 
         alignItems: 'center',
         padding: '1.25rem',
-        background: '#fafafa'
+        background: colors.backgroundGrey
       }}>
         <Typography variant="heading2Medium" sx={{ 
           fontWeight: 500, 
-          color: '#1F1F1F',
+          color: colors.onSurface,
           fontSize: '1rem',
           lineHeight: 1.4,
           //textTransform:"capitalize",
@@ -73,10 +78,10 @@ const LineageColumnLevelPanel: React.FC<LineageColumnLevelPanelProps> = ({ entry
               onClick={onClose} 
               size="small"
               sx={{ 
-                color: '#666',
+                color: colors.onSurfaceSubtle,
                 '&:hover': { 
-                  background: '#f0f0f0',
-                  color: '#333'
+                  background: colors.surfaceContainerFaint,
+                  color: colors.onSurfaceBody
                 }
               }}
             >
@@ -91,11 +96,11 @@ const LineageColumnLevelPanel: React.FC<LineageColumnLevelPanelProps> = ({ entry
           <Box sx={{ 
             borderRadius: '8px', 
             overflow: 'hidden',
-            background: '#ffffff'
+            background: colors.surface
           }}>
             <Typography variant="heading2Medium" sx={{ 
                 fontWeight: 500, 
-                color: '#1F1F1F',
+                color: colors.onSurface,
                 fontSize: '0.9rem',
                 lineHeight: 1.4,
                 //textTransform:"capitalize",
@@ -126,14 +131,14 @@ const LineageColumnLevelPanel: React.FC<LineageColumnLevelPanelProps> = ({ entry
                     }
                 >
                     {
-                        schema.map((field: any, index: number) => (
+                        schema.map((field, index) => (
                             <MenuItem
                                 sx={{ 
                                     fontSize: '0.9rem',
                                     lineHeight: 1.4,
                                 }} 
-                                key={index} value={field.structValue.fields.name.stringValue}>
-                                {(field.structValue.fields.name.stringValue).toUpperCase()}
+                                key={index} value={field.name}>
+                                {field.name.toUpperCase()}
                             </MenuItem>
                         ))
                     }
@@ -143,7 +148,7 @@ const LineageColumnLevelPanel: React.FC<LineageColumnLevelPanelProps> = ({ entry
             <Box sx={{ marginTop: '1rem' }}>
                 <Typography variant="heading2Medium" sx={{ 
                     fontWeight: 500, 
-                    color: '#1F1F1F',
+                    color: colors.onSurface,
                     fontSize: '0.9rem',
                     lineHeight: 1.4,
                     //textTransform:"capitalize",
@@ -203,11 +208,16 @@ const LineageColumnLevelPanel: React.FC<LineageColumnLevelPanelProps> = ({ entry
                     } />
                 </FormGroup>
             </Box>
+            <Typography sx={{ marginTop: '0.5rem', fontSize: '0.75rem', color: colors.onSurfaceMuted }}>
+                {depth > 1
+                    ? `The column is followed across ${depth} hops; click a column in the graph to highlight its path.`
+                    : 'Choose a lineage depth above 1 hop to follow the column further.'}
+            </Typography>
             <Box sx={{ marginTop: '1rem' }}>
                 <button
                     style={{    
-                        backgroundColor: '#1A73E8',
-                        color: '#FFFFFF',
+                        backgroundColor: colors.accentBright,
+                        color: colors.onPrimary,
                         border: 'none',
                         borderRadius: '4px',
                         padding: '8px 16px',
@@ -224,9 +234,9 @@ const LineageColumnLevelPanel: React.FC<LineageColumnLevelPanelProps> = ({ entry
                 </button>
                 <button
                     style={{    
-                        backgroundColor: '#FFFFFF',
-                        color: '#333333',
-                        border:'1px solid #333333',
+                        backgroundColor: colors.surface,
+                        color: colors.onSurfaceBody,
+                        border:`1px solid ${colors.onSurfaceBody}`,
                         borderRadius: '4px',
                         padding: '8px 16px',
                         cursor: 'pointer',
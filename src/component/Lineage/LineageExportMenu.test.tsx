@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import LineageExportMenu from "./LineageExportMenu";
+import type { LineageImageNode } from "../../utils/lineageExport";
+
+const mockDownloadBlob = vi.fn();
+const mockShowSuccess = vi.fn();
+const mockShowError = vi.fn();
+
+vi.mock("../../contexts/NotificationContext", () => ({
+  useNotification: () => ({ showSuccess: mockShowSuccess, showError: mockShowError }),
+}));
+
+vi.mock("../../utils/searchExport", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../utils/searchExport")>()),
+  downloadBlob: (...args: unknown[]) => mockDownloadBlob(...args),
+}));
+
+const readBlob = (blob: Blob) =>
+  new Promise<string>((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsText(blob);
+  });
+
+const entry = { fullyQualifiedName: "bigquery:p.d.orders" };
+
+const graphData = [
+  { id: "node-asset-bigquery:p.d.orders", type: "assetNode", name: "orders", fqn: "bigquery:p.d.orders", isRoot: true },
+  { id: "node-asset-bigquery:p.d.raw", type: "assetNode", name: "raw", fqn: "bigquery:p.d.raw", isRoot: false },
+  {
+    id: "node-query-l1",
+    type: "queryNode",
+    source: "node-asset-bigquery:p.d.raw",
+    target: "node-asset-bigquery:p.d.orders",
+    linkData: { name: "l1", process: "projects/p/locations/us/processes/load" },
+  },
+];
+
+const nodes = [
+  { id: "node-asset-bigquery:p.d.raw", type: "lineageNode", position: { x: 0, y: 0 }, data: { nodeData: graphData[1] } },
+  { id: "node-asset-bigquery:p.d.orders", type: "lineageNode", position: { x: 400, y: 0 }, data: { nodeData: graphData[0] } },
+];
+
+const renderMenu = (props: Partial<{ nodes: LineageImageNode[] }> = {}) =>
+  render(<LineageExportMenu graphData={graphData} nodes={props.nodes ?? nodes} edges={[]} entry={entry} />);
+
+const choose = (label: string) => {
+  fireEvent.click(screen.getByRole("button", { name: "Export" }));
+  fireEvent.click(screen.getByRole("menuitem", { name: label }));
+};
+
+describe("LineageExportMenu", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("offers every export format", () => {
+    renderMenu();
+    fireEvent.click(screen.getByRole("button", { name: "Export" }));
+
+    expect(screen.getAllByRole("menuitem").map((item) => item.textContent)).toEqual([
+      "PNG image",
+      "SVG image",
+      "JSON",
+      "Graphviz DOT",
+      "Mermaid",
+      "Copy Mermaid",
+    ]);
+  });
+
+  it("downloads the graph as Graphviz DOT", async () => {
+    renderMenu();
+    choose("Graphviz DOT");
+
+    await waitFor(() => expect(mockDownloadBlob).toHaveBeenCalled());
+    const [fileName, blob] = mockDownloadBlob.mock.calls[0];
+    expect(fileName).toMatch(/^lineage-orders-.*\.dot$/);
+    expect(await readBlob(blob)).toContain('"bigquery:p.d.raw" -> "bigquery:p.d.orders" [label="load"];');
+    expect(mockShowSuccess).toHaveBeenCalledWith("Downloaded the lineage graph as Graphviz DOT");
+  });
+
+  it("downloads the current layout as SVG", async () => {
+    renderMenu();
+    choose("SVG image");
+
+    await waitFor(() => expect(mockDownloadBlob).toHaveBeenCalled());
+    const [fileName, blob] = mockDownloadBlob.mock.calls[0];
+    expect(fileName).toMatch(/\.svg$/);
+    expect(blob.type).toBe("image/svg+xml;charset=utf-8");
+  });
+
+  it("copies the Mermaid text", async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    Object.defineProperty(navigator, "clipboard", { value: { writeText }, configurable: true });
+    renderMenu();
+    choose("Copy Mermaid");
+
+    await waitFor(() => expect(mockShowSuccess).toHaveBeenCalledWith("Copied the lineage graph as Mermaid"));
+    expect(writeText.mock.calls[0][0]).toMatch(/^flowchart LR\n/);
+  });
+
+  it("is disabled while the graph is empty", () => {
+    renderMenu({ nodes: [] });
+
+    expect(screen.getByRole("button", { name: "Export" })).toBeDisabled();
+  });
+});
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { Divider, Menu, MenuItem } from '@mui/material';
+import { useNotification } from '../../contexts/NotificationContext';
+import {
+  buildLineageExport,
+  getLineageExportFileName,
+  LINEAGE_EXPORT_MIME_TYPES,
+  lineageToDot,
+  lineageToJson,
+  lineageToMermaid,
+  lineageToSvg,
+  svgToPngBlob,
+  type LineageExportFormat,
+  type LineageImageEdge,
+  type LineageImageNode,
+} from '../../utils/lineageExport';
+import type { LineageGraphItem } from '../../utils/lineageGraph';
+import { downloadBlob } from '../../utils/searchExport';
+
+/**
+ * @file LineageExportMenu.tsx
+ * @description
+ * "Export" button of the lineage graph. Downloads the graph as a PNG or SVG
+ * image of the current layout, a JSON dump of its assets and links, or
+ * Graphviz DOT / Mermaid text, and can copy the Mermaid text for pasting
+ * into docs.
+ *
+ * @param {LineageExportMenuProps} props
+ * @param {LineageGraphItem[]} props.graphData - The graph items shown by the chart.
+ * @param {LineageImageNode[]} props.nodes - The laid-out React Flow nodes.
+ * @param {LineageImageEdge[]} props.edges - The React Flow edges.
+ * @param {{ fullyQualifiedName?: string }} [props.entry] - The root entry; names the files.
+ */
+
+interface LineageExportMenuProps {
+  graphData: LineageGraphItem[];
+  nodes: LineageImageNode[];
+  edges: LineageImageEdge[];
+  entry?: { fullyQualifiedName?: string } | null;
+}
+
+const FORMATS: { format: LineageExportFormat; label: string }[] = [
+  { format: 'png', label: 'PNG image' },
+  { format: 'svg', label: 'SVG image' },
+  { format: 'json', label: 'JSON' },
+  { format: 'dot', label: 'Graphviz DOT' },
+  { format: 'mmd', label: 'Mermaid' },
+];
+
+const LineageExportMenu: React.FC<LineageExportMenuProps> = ({ graphData, nodes, edges, entry }) => {
+  const { showSuccess, showError } = useNotification();
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+
+  const createFile = async (format: LineageExportFormat): Promise<Blob> => {
+    if (format === 'png' || format === 'svg') {
+      const { svg, width, height } = lineageToSvg(nodes, edges);
+      return format === 'svg'
+        ? new Blob([svg], { type: LINEAGE_EXPORT_MIME_TYPES.svg })
+        : svgToPngBlob(svg, width, height);
+    }
+    const lineage = buildLineageExport(graphData);
+    const text = format === 'json' ? lineageToJson(lineage) : format === 'dot' ? lineageToDot(lineage) : lineageToMermaid(lineage);
+    return new Blob([text], { type: LINEAGE_EXPORT_MIME_TYPES[format] });
+  };
+
+  const handleExport = async (format: LineageExportFormat, label: string) => {
+    setAnchorEl(null);
+    try {
+      downloadBlob(getLineageExportFileName(entry?.fullyQualifiedName ?? '', format), await createFile(format));
+      showSuccess(`Downloaded the lineage graph as ${label}`);
+    } catch (error) {
+      showError((error instanceof Error && error.message) || 'Failed to export the lineage graph');
+    }
+  };
+
+  const handleCopyMermaid = async () => {
+    setAnchorEl(null);
+    try {
+      await navigator.clipboard.writeText(lineageToMermaid(buildLineageExport(graphData)));
+      showSuccess('Copied the lineage graph as Mermaid');
+    } catch {
+      showError('Failed to copy to the clipboard');
+    }
+  };
+
+  return (
+    <>
+      <button
+        aria-haspopup="menu"
+        aria-expanded={!!anchorEl}
+        disabled={nodes.length === 0}
+        style={{
+          margin: '0.5rem',
+          padding: '0.25rem 0.5rem',
+          fontSize: '14px',
+          borderRadius: '4px',
+          border: '1px solid var(--sys-outline-variant)',
+          backgroundColor: 'var(--sys-surface)',
+          color: 'var(--sys-on-surface)',
+          cursor: 'pointer',
+        }}
+        onClick={(e) => setAnchorEl(e.currentTarget)}
+      >
+        Export
+      </button>
+      <Menu anchorEl={anchorEl} open={!!anchorEl} onClose={() => setAnchorEl(null)}>
+        {FORMATS.map(({ format, label }) => (
+          <MenuItem key={format} onClick={() => handleExport(format, label)} sx={{ fontSize: '14px' }}>
+            {label}
+          </MenuItem>
+        ))}
+        <Divider />
+        <MenuItem onClick={handleCopyMermaid} sx={{ fontSize: '14px' }}>
+          Copy Mermaid
+        </MenuItem>
+      </Menu>
+    </>
+  );
+};
+
+export default LineageExportMenu;
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from "vitest";
+import { render, screen, fireEvent, within } from "@testing-library/react";
+import LineageGraphToolbar from "./LineageGraphToolbar";
+import { EMPTY_HIDDEN_FACETS } from "../../utils/lineageGraphView";
+
+const graphData = [
+  { id: "node-asset-orders", type: "assetNode", name: "orders", fqn: "bigquery:p1.sales.orders", isRoot: true },
+  { id: "node-asset-report", type: "assetNode", name: "report", fqn: "bigquery:p2.bi.report" },
+  { id: "node-query-publish", type: "queryNode", source: "node-asset-orders", target: "node-asset-report" },
+];
+
+const renderToolbar = (props: any = {}) =>
+  render(
+    <LineageGraphToolbar
+      graphData={graphData}
+      searchText=""
+      onSearchTextChange={vi.fn()}
+      onFind={vi.fn()}
+      hidden={EMPTY_HIDDEN_FACETS}
+      onHiddenChange={vi.fn()}
+      focus={{ from: "", to: "" }}
+      onFocusChange={vi.fn()}
+      focusFound={false}
+      collapsed={false}
+      onCollapsedChange={vi.fn()}
+      {...props}
+    />
+  );
+
+describe("LineageGraphToolbar", () => {
+  it("finds a node by its fully qualified name", () => {
+    const onFind = vi.fn();
+    renderToolbar({ onFind, searchText: "p2.bi" });
+
+    fireEvent.mouseDown(screen.getByRole("combobox", { name: "Find a node" }));
+    fireEvent.click(screen.getByText("report"));
+
+    expect(onFind).toHaveBeenCalledWith("node-asset-report");
+  });
+
+  it("hides a facet value and counts the hidden ones", () => {
+    const onHiddenChange = vi.fn();
+    const { rerender } = renderToolbar({ onHiddenChange });
+
+    fireEvent.click(screen.getByText("Filters"));
+    fireEvent.click(screen.getByRole("checkbox", { name: "Show project p2" }));
+
+    expect(onHiddenChange).toHaveBeenCalledWith({ ...EMPTY_HIDDEN_FACETS, project: ["p2"] });
+
+    rerender(
+      <LineageGraphToolbar
+        graphData={graphData}
+        searchText=""
+        onSearchTextChange={vi.fn()}
+        onFind={vi.fn()}
+        hidden={{ ...EMPTY_HIDDEN_FACETS, project: ["p2"] }}
+        onHiddenChange={onHiddenChange}
+        focus={{ from: "", to: "" }}
+        onFocusChange={vi.fn()}
+        focusFound={false}
+        collapsed={false}
+        onCollapsedChange={vi.fn()}
+      />
+    );
+    expect(screen.getByText("Filters (1 hidden)")).toBeInTheDocument();
+  });
+
+  it("reports focused assets without a path and clears the focus", () => {
+    const onFocusChange = vi.fn();
+    renderToolbar({ onFocusChange, focus: { from: "node-asset-orders", to: "node-asset-report" } });
+
+    fireEvent.click(screen.getByText("Focus (on)"));
+    const popover = screen.getByRole("presentation");
+    expect(within(popover).getByRole("status")).toHaveTextContent("No lineage path joins these assets.");
+
+    fireEvent.click(within(popover).getByText("Clear focus"));
+    expect(onFocusChange).toHaveBeenCalledWith({ from: "", to: "" });
+  });
+
+  it("collapses process nodes", () => {
+    const onCollapsedChange = vi.fn();
+    renderToolbar({ onCollapsedChange });
+
+    fireEvent.click(screen.getByRole("switch", { name: "Process nodes" }));
+    expect(onCollapsedChange).toHaveBeenCalledWith(true);
+  });
+});
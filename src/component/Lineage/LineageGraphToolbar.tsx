@@ -0,0 +1,274 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Autocomplete,
+  Box,
+  Button,
+  Checkbox,
+  FormControlLabel,
+  ListItemText,
+  ListSubheader,
+  Menu,
+  MenuItem,
+  Popover,
+  Select,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  countHiddenFacets,
+  EMPTY_HIDDEN_FACETS,
+  getAssetFqn,
+  getLineageFacetValues,
+  LINEAGE_FACETS,
+  type LineageFacet,
+  type LineageHiddenFacets,
+} from '../../utils/lineageGraphView';
+
+/**
+ * @file LineageGraphToolbar.tsx
+ * @description
+ * Controls for reading large lineage graphs, shown under the Lineage header
+ * for both the graph and the list:
+ * - a search box that finds an asset by name or fully qualified name; picking
+ * one centres it in the graph, and the text filters the list;
+ * - filters that hide assets by system, project or entry type;
+ * - a focus mode that dims everything not on a path between two assets;
+ * - a switch that collapses process nodes into direct edges (graph only).
+ *
+ * The state lives in the `Lineage` component, which applies it with
+ * `utils/lineageGraphView`.
+ *
+ * @param {LineageGraphToolbarProps} props
+ * @param {any[]} props.graphData - All graph items, before any option.
+ * @param {string} props.searchText - The search box text.
+ * @param {(text: string) => void} props.onSearchTextChange
+ * @param {(id: string) => void} props.onFind - Called with the asset picked
+ * in the search box.
+ * @param {LineageHiddenFacets} props.hidden - Hidden facet values.
+ * @param {(hidden: LineageHiddenFacets) => void} props.onHiddenChange
+ * @param {LineageFocus} props.focus - The two focused assets.
+ * @param {(focus: LineageFocus) => void} props.onFocusChange
+ * @param {boolean} props.focusFound - Whether a path joins the focused assets.
+ * @param {boolean} props.collapsed - Whether process nodes are collapsed.
+ * @param {(collapsed: boolean) => void} props.onCollapsedChange
+ * @param {boolean} [props.showCollapse] - Whether to offer the collapse
+ * switch.
+ */
+
+export interface LineageFocus {
+  from: string;
+  to: string;
+}
+
+interface LineageGraphToolbarProps {
+  graphData: any[];
+  searchText: string;
+  onSearchTextChange: (text: string) => void;
+  onFind: (id: string) => void;
+  hidden: LineageHiddenFacets;
+  onHiddenChange: (hidden: LineageHiddenFacets) => void;
+  focus: LineageFocus;
+  onFocusChange: (focus: LineageFocus) => void;
+  focusFound: boolean;
+  collapsed: boolean;
+  onCollapsedChange: (collapsed: boolean) => void;
+  showCollapse?: boolean;
+}
+
+const toolbarButtonSx = {
+  textTransform: 'none',
+  fontSize: '12px',
+  padding: '2px 8px',
+  minWidth: 'auto',
+  color: 'var(--sys-on-surface)',
+};
+
+const focusSelectSx = {
+  height: '28px',
+  fontSize: '12px',
+  minWidth: '220px',
+  '& .MuiSelect-select': { padding: '2px 28px 2px 8px' },
+};
+
+const LineageGraphToolbar: React.FC<LineageGraphToolbarProps> = ({
+  graphData,
+  searchText,
+  onSearchTextChange,
+  onFind,
+  hidden,
+  onHiddenChange,
+  focus,
+  onFocusChange,
+  focusFound,
+  collapsed,
+  onCollapsedChange,
+  showCollapse = true,
+}) => {
+  const [filterAnchorEl, setFilterAnchorEl] = useState<HTMLElement | null>(null);
+  const [focusAnchorEl, setFocusAnchorEl] = useState<HTMLElement | null>(null);
+
+  // Each asset once, however many times the graph shows it
+  const assets = useMemo(() => {
+    const byFqn = new Map<string, any>();
+    graphData.filter((item) => item.type === 'assetNode').forEach((item) => {
+      if (!byFqn.has(getAssetFqn(item))) byFqn.set(getAssetFqn(item), item);
+    });
+    return [...byFqn.values()];
+  }, [graphData]);
+  const facetValues = useMemo(() => getLineageFacetValues(graphData), [graphData]);
+  const hiddenCount = countHiddenFacets(hidden);
+  const focusActive = !!focus.from && !!focus.to;
+
+  const toggleHidden = (facet: LineageFacet, value: string) => {
+    const values = hidden[facet].includes(value)
+      ? hidden[facet].filter((hiddenValue) => hiddenValue !== value)
+      : [...hidden[facet], value];
+    onHiddenChange({ ...hidden, [facet]: values });
+  };
+
+  const renderFocusSelect = (key: keyof LineageFocus, label: string) => (
+    <Select
+      value={focus[key]}
+      displayEmpty
+      size="small"
+      inputProps={{ 'aria-label': label }}
+      onChange={(e) => onFocusChange({ ...focus, [key]: e.target.value as string })}
+      sx={focusSelectSx}
+    >
+      <MenuItem value="" sx={{ fontSize: '12px' }}><em>{label}</em></MenuItem>
+      {assets.map((item) => (
+        <MenuItem key={item.id} value={item.id} sx={{ fontSize: '12px' }}>
+          {item.name}
+        </MenuItem>
+      ))}
+    </Select>
+  );
+
+  return (
+    <Box
+      role="toolbar"
+      aria-label="Lineage graph tools"
+      sx={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '0.75rem',
+        flexWrap: 'wrap',
+        padding: '0.375rem 1rem',
+        borderLeft: '1px solid var(--sys-outline-variant)',
+        borderRight: '1px solid var(--sys-outline-variant)',
+        borderTop: '1px solid var(--sys-outline-variant)',
+        backgroundColor: 'var(--sys-surface)',
+      }}
+    >
+      <Autocomplete
+        freeSolo
+        size="small"
+        options={assets}
+        inputValue={searchText}
+        onInputChange={(_e, value) => onSearchTextChange(value)}
+        onChange={(_e, value) => {
+          if (value && typeof value !== 'string') onFind(value.id);
+        }}
+        getOptionLabel={(option) => (typeof option === 'string' ? option : option.name ?? '')}
+        filterOptions={(options, { inputValue }) => {
+          const query = inputValue.trim().toLowerCase();
+          return options.filter((option) => String(option.name ?? '').toLowerCase().includes(query)
+            || getAssetFqn(option).toLowerCase().includes(query));
+        }}
+        renderOption={(optionProps, option) => {
+          const { key, ...rest } = optionProps as any;
+          return (
+            <li key={key} {...rest}>
+              <ListItemText
+                primary={option.name}
+                secondary={getAssetFqn(option)}
+                slotProps={{ primary: { sx: { fontSize: '12px' } }, secondary: { sx: { fontSize: '11px', wordBreak: 'break-all' } } }}
+              />
+            </li>
+          );
+        }}
+        renderInput={(params) => (
+          <TextField
+            {...params}
+            placeholder="Find a node by name or FQN"
+            slotProps={{ htmlInput: { ...params.inputProps, 'aria-label': 'Find a node' } }}
+            sx={{ '& .MuiInputBase-root': { fontSize: '12px', paddingTop: '0 !important', paddingBottom: '0 !important' } }}
+          />
+        )}
+        sx={{ width: '260px' }}
+      />
+
+      <Button size="small" onClick={(e) => setFilterAnchorEl(e.currentTarget)} sx={toolbarButtonSx}>
+        {hiddenCount > 0 ? `Filters (${hiddenCount} hidden)` : 'Filters'}
+      </Button>
+      <Menu anchorEl={filterAnchorEl} open={!!filterAnchorEl} onClose={() => setFilterAnchorEl(null)}>
+        {LINEAGE_FACETS.flatMap(({ facet, label }) => [
+          <ListSubheader key={`${facet}-header`} sx={{ fontSize: '12px', lineHeight: '32px' }}>{label}</ListSubheader>,
+          ...facetValues[facet].map((value) => (
+            <MenuItem key={`${facet}-${value}`} dense onClick={() => toggleHidden(facet, value)}>
+              <Checkbox
+                size="small"
+                checked={!hidden[facet].includes(value)}
+                inputProps={{ 'aria-label': `Show ${label.toLowerCase()} ${value}` }}
+                sx={{ padding: '2px 8px 2px 0' }}
+              />
+              <Typography sx={{ fontSize: '12px' }}>{value}</Typography>
+            </MenuItem>
+          )),
+        ])}
+        {hiddenCount > 0 && (
+          <MenuItem dense onClick={() => onHiddenChange(EMPTY_HIDDEN_FACETS)} sx={{ fontSize: '12px', color: 'var(--sys-primary)' }}>
+            Show all
+          </MenuItem>
+        )}
+      </Menu>
+
+      <Button
+        size="small"
+        onClick={(e) => setFocusAnchorEl(e.currentTarget)}
+        sx={{ ...toolbarButtonSx, ...(focusActive && { color: 'var(--sys-primary)' }) }}
+      >
+        {focusActive ? 'Focus (on)' : 'Focus'}
+      </Button>
+      <Popover
+        anchorEl={focusAnchorEl}
+        open={!!focusAnchorEl}
+        onClose={() => setFocusAnchorEl(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'left' }}
+      >
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: '8px', padding: '12px' }}>
+          <Typography sx={{ fontSize: '12px', color: 'var(--sys-on-surface-muted)' }}>
+            Dim everything not on a path between two assets
+          </Typography>
+          {renderFocusSelect('from', 'Focus from')}
+          {renderFocusSelect('to', 'Focus to')}
+          {focusActive && !focusFound && (
+            <Typography role="status" sx={{ fontSize: '12px', color: 'var(--sys-error)' }}>
+              No lineage path joins these assets.
+            </Typography>
+          )}
+          <Button
+            size="small"
+            disabled={!focus.from && !focus.to}
+            onClick={() => onFocusChange({ from: '', to: '' })}
+            sx={{ ...toolbarButtonSx, alignSelf: 'flex-end' }}
+          >
+            Clear focus
+          </Button>
+        </Box>
+      </Popover>
+
+      {showCollapse && (
+        <FormControlLabel
+          control={<Switch size="small" checked={!collapsed} onChange={(e) => onCollapsedChange(!e.target.checked)} />}
+          label="Process nodes"
+          slotProps={{ typography: { sx: { fontSize: '12px', color: 'var(--sys-on-surface)' } } }}
+          sx={{ marginLeft: 0 }}
+        />
+      )}
+    </Box>
+  );
+};
+
+export default LineageGraphToolbar;
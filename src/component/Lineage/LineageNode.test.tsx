@@ -960,6 +960,57 @@ describe("LineageNode", () => {
     });
   });
 
+  // ==========================================================================
+  // Column Rows (column lineage graph)
+  // ==========================================================================
+
+  describe("Column Rows", () => {
+    const createColumnData = (highlightedColumns?: Set<string>) => ({
+      ...createMockData({
+        nodeData: {
+          ...createMockNodeData({ isRoot: true }),
+          fqn: "bigquery:p.d.users",
+          columns: [
+            { name: "email", inferred: false },
+            { name: "id", inferred: true },
+          ],
+        },
+      }),
+      highlightedColumns,
+      onColumnClick: vi.fn(),
+    });
+
+    it("lists the node's columns instead of the schema preview", () => {
+      render(<LineageNode data={createColumnData()} isConnectable={true} />);
+
+      expect(screen.getByRole("button", { name: "Trace column email" })).toBeInTheDocument();
+      expect(screen.getByRole("button", { name: "Trace column id" })).toBeInTheDocument();
+      expect(screen.queryByText("field_1")).not.toBeInTheDocument();
+      // One pair of handles per column plus the node's own
+      expect(screen.getAllByTestId("handle-target")).toHaveLength(3);
+      expect(screen.getAllByTestId("handle-source")).toHaveLength(3);
+    });
+
+    it("traces a column when its row is clicked", () => {
+      const data = createColumnData();
+      render(<LineageNode data={data} isConnectable={true} />);
+
+      fireEvent.click(screen.getByRole("button", { name: "Trace column email" }));
+
+      expect(data.onColumnClick).toHaveBeenCalledWith("bigquery:p.d.users", "email");
+      expect(data.handleSidePanelToggle).not.toHaveBeenCalled();
+    });
+
+    it("marks the highlighted columns as pressed", () => {
+      render(
+        <LineageNode data={createColumnData(new Set(["bigquery:p.d.users#email"]))} isConnectable={true} />
+      );
+
+      expect(screen.getByRole("button", { name: "Trace column email" })).toHaveAttribute("aria-pressed", "true");
+      expect(screen.getByRole("button", { name: "Trace column id" })).toHaveAttribute("aria-pressed", "false");
+    });
+  });
+
   // ==========================================================================
   // Memoization Tests
   // ==========================================================================
@@ -2,6 +2,7 @@ import { Box, CircularProgress, Typography } from '@mui/material';
 import { memo, useState } from 'react';
 import { Handle, Position } from '@xyflow/react';
 import { ChevronLeftOutlined, ChevronRightOutlined } from '@mui/icons-material';
+import { columnHandleId, columnKey, type LineageColumn } from '../../utils/columnLineage';
 
 /**
  * @file LineageNode.tsx
@@ -10,15 +11,19 @@ import { ChevronLeftOutlined, ChevronRightOutlined } from '@mui/icons-material';
 
 // MUI component styles based on Figma design
 const nodeContentStyles = {
-  color: '#1F1F1F',
+  color: 'var(--sys-on-surface)',
   padding: '0.5rem',
   fontFamily: '"Google Sans", sans-serif',
 };
 
 export default memo(({ data, isConnectable } : any) => {
     const nodeData = data.nodeData;
-    const number = nodeData.isRoot || data.columnLineageApplied ? nodeData.entryData.entryType.split('/')[1] : null;
-    const schema = nodeData.isRoot || data.columnLineageApplied ? nodeData.entryData.aspects[`${number}.global.schema`].data.fields.fields.listValue.values : [];
+    // Column graph nodes list their own columns instead of the schema preview
+    const showSchema = !nodeData.columns && (nodeData.isRoot || data.columnLineageApplied);
+    const number = showSchema ? nodeData.entryData?.entryType?.split('/')[1] : null;
+    const schema = showSchema ? nodeData.entryData?.aspects?.[`${number}.global.schema`]?.data?.fields?.fields?.listValue?.values ?? [] : [];
+    // Column keys on the highlighted path; null when nothing is highlighted
+    const highlightedColumns: Set<string> | null = data.highlightedColumns ?? null;
     const [lineageLoader, setLineageLoader] = useState<boolean>(false); 
 
     return (
@@ -39,7 +44,7 @@ export default memo(({ data, isConnectable } : any) => {
             // height: (nodeData.isRoot && schema.length > 0 ? "185px" : "36px"),
             width: '18.3rem',
             borderRadius: '0.5rem',
-            backgroundColor: '#FFFFFF',
+            backgroundColor: 'var(--sys-surface)',
             padding:'3px 2px 0px 2px',
           }}
           >
@@ -63,14 +68,14 @@ export default memo(({ data, isConnectable } : any) => {
                   transform: nodeData.isRoot || nodeData.isDownStreamFetched ? `rotate(180deg)` : `rotate(0deg)`,
                   cursor: nodeData.isRoot ? 'not-allowed' :'pointer',
                   fontSize: "2.2rem",
-                  color: '#0B57D0',
-                  border: '2px solid #efefef',
+                  color: 'var(--sys-primary)',
+                  border: '2px solid var(--sys-outline-pale)',
                   borderRadius: '0.5rem',
                   padding: '2px',
                   zIndex:2,
                   "&:hover": { 
-                    background: nodeData.isRoot ? '#a6a6a6' : '#0B57D0',
-                    color: nodeData.isRoot ? '#0B57D0' : '#FFFFFF',
+                    background: nodeData.isRoot ? '#a6a6a6' : 'var(--sys-primary)',
+                    color: nodeData.isRoot ? 'var(--sys-primary)' : 'var(--sys-on-primary)',
                     transition: "background-color 150ms linear"
                   }
                 }}/>)}
@@ -101,7 +106,7 @@ export default memo(({ data, isConnectable } : any) => {
                   <Typography 
                     variant="heading2Medium"
                     sx={{ 
-                      color: "#1F1F1F", 
+                      color: "var(--sys-on-surface)", 
                       fontSize:"0.875rem", 
                       fontWeight:"500", 
                       textAlign: 'center',
@@ -130,14 +135,14 @@ export default memo(({ data, isConnectable } : any) => {
                   transform: nodeData.isRoot || nodeData.isUpStreamFetched ? `rotate(180deg)` : `rotate(0deg)`,
                   cursor: nodeData.isRoot ? 'not-allowed' :'pointer',
                   fontSize: "2.2rem",
-                  color: '#0B57D0',
-                  border: '2px solid #efefef',
+                  color: 'var(--sys-primary)',
+                  border: '2px solid var(--sys-outline-pale)',
                   borderRadius: '0.5rem',
                   padding: '2px',
                   zIndex:2,
                   "&:hover": { 
-                    background: nodeData.isRoot ? '#a6a6a6' : '#0B57D0',
-                    color: nodeData.isRoot ? '#0B57D0' : '#FFFFFF',
+                    background: nodeData.isRoot ? '#a6a6a6' : 'var(--sys-primary)',
+                    color: nodeData.isRoot ? 'var(--sys-primary)' : 'var(--sys-on-primary)',
                     transition: "background-color 150ms linear"
                   }
               }}/>)}
@@ -164,12 +169,12 @@ export default memo(({ data, isConnectable } : any) => {
                           sx={{
                             flex: 1,
                             padding: '0.5rem',
-                            border: '1px solid #ddd',
+                            border: '1px solid var(--sys-outline-light)',
                             boxSizing: 'border-box',
                           }}>
                           <Typography 
                             sx={{
-                              color: "#1F1F1F", 
+                              color: "var(--sys-on-surface)", 
                               fontSize:"0.75rem", 
                               fontWeight:"400", 
                               textAlign: 'left',
@@ -197,12 +202,12 @@ export default memo(({ data, isConnectable } : any) => {
                         }}>
                         <Typography 
                           sx={{
-                            color: "#0B57D0",
+                            color: "var(--sys-primary)",
                             fontSize:"0.75rem", 
                             fontWeight:"500", 
                             textAlign: 'center',
                             cursor: 'pointer',
-                            "&:hover" : { textDecoration: 'underline', backgroundColor:"#b3caf2ff", borderRadius: '4px' }
+                            "&:hover" : { textDecoration: 'underline', backgroundColor:"var(--sys-selected-container-hover)", borderRadius: '4px' }
                           }}
                           onClick={(e) => {
                             e.stopPropagation();
@@ -234,12 +239,12 @@ export default memo(({ data, isConnectable } : any) => {
                           sx={{
                             flex: 1,
                             padding: '0.5rem',
-                            border: '1px solid #ddd',
+                            border: '1px solid var(--sys-outline-light)',
                             boxSizing: 'border-box',
                           }}>
                           <Typography 
                             sx={{
-                              color: "#1F1F1F", 
+                              color: "var(--sys-on-surface)", 
                               fontSize:"0.75rem", 
                               fontWeight:"400", 
                               textAlign: 'left',
@@ -265,6 +270,72 @@ export default memo(({ data, isConnectable } : any) => {
 
 
           }
+
+          {
+            nodeData.columns && nodeData.columns.length > 0 && (
+              <Box sx={{
+                display: 'flex',
+                flexDirection: 'column',
+                width: '18.1rem',
+                padding: '0.5rem',
+                borderRadius: '0.5rem',
+              }}>
+                {nodeData.columns.map((column: LineageColumn) => {
+                  const highlighted = !!highlightedColumns?.has(columnKey(nodeData.fqn, column.name));
+                  return (
+                    <Box
+                      key={column.name}
+                      role="button"
+                      aria-pressed={highlighted}
+                      aria-label={`Trace column ${column.name}`}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        data.onColumnClick?.(nodeData.fqn, column.name);
+                      }}
+                      sx={{
+                        position: 'relative',
+                        padding: '0.5rem',
+                        border: '1px solid var(--sys-outline-variant)',
+                        boxSizing: 'border-box',
+                        cursor: 'pointer',
+                        backgroundColor: highlighted ? 'var(--sys-selected-container)' : 'transparent',
+                        opacity: highlightedColumns && !highlighted ? 0.5 : 1,
+                        '&:hover': { backgroundColor: 'var(--sys-selected-container)' },
+                      }}>
+                      <Handle
+                        type="target"
+                        position={Position.Left}
+                        id={columnHandleId('target', column.name)}
+                        isConnectable={isConnectable}
+                      />
+                      <Typography
+                        title={column.inferred ? 'This asset has no schema; the column is inferred from its lineage' : undefined}
+                        sx={{
+                          color: "var(--sys-on-surface)",
+                          fontSize:"0.75rem",
+                          fontWeight: highlighted ? "500" : "400",
+                          fontStyle: column.inferred ? 'italic' : 'normal',
+                          textAlign: 'left',
+                          overflow: 'hidden',
+                          whiteSpace: 'nowrap',
+                          textOverflow: 'ellipsis',
+                          maxWidth: '100%',
+                        }}
+                      >
+                          {column.name}
+                      </Typography>
+                      <Handle
+                        type="source"
+                        position={Position.Right}
+                        id={columnHandleId('source', column.name)}
+                        isConnectable={isConnectable}
+                      />
+                    </Box>
+                  );
+                })}
+              </Box>
+            )
+          }
             
         </Box>
 
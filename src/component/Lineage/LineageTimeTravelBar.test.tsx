@@ -0,0 +1,49 @@
+import { describe, it, expect, vi } from "vitest";
+import { render, screen, fireEvent } from "@testing-library/react";
+import LineageTimeTravelBar from "./LineageTimeTravelBar";
+
+const range = { min: Date.parse("2024-05-01T06:00:00"), max: Date.parse("2024-05-10T12:00:00") };
+const value = { from: Date.parse("2024-05-02T00:00:00"), to: Date.parse("2024-05-04T23:59:59") };
+
+const renderBar = (props: Partial<{ onChange: any; onClose: any }> = {}) =>
+  render(
+    <LineageTimeTravelBar
+      range={range}
+      value={value}
+      onChange={props.onChange ?? vi.fn()}
+      added={2}
+      removed={1}
+      onClose={props.onClose ?? vi.fn()}
+    />
+  );
+
+describe("LineageTimeTravelBar", () => {
+  it("shows the chosen window and the changes since", () => {
+    renderBar();
+
+    const from = new Date(value.from).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" });
+    expect(screen.getByRole("group", { name: "Lineage time travel" })).toHaveTextContent(from);
+    expect(screen.getByText("2 added since")).toBeInTheDocument();
+    expect(screen.getByText("1 removed since")).toBeInTheDocument();
+    expect(screen.getAllByRole("slider")).toHaveLength(2);
+  });
+
+  it("moves the window end a day at a time", () => {
+    const onChange = vi.fn();
+    renderBar({ onChange });
+
+    fireEvent.keyDown(screen.getByRole("slider", { name: "Window end" }), { key: "ArrowLeft" });
+
+    expect(onChange).toHaveBeenCalledWith({ from: value.from, to: expect.any(Number) });
+    expect(value.to - onChange.mock.calls[0][0].to).toBeGreaterThan(0);
+  });
+
+  it("returns to all time", () => {
+    const onClose = vi.fn();
+    renderBar({ onClose });
+
+    fireEvent.click(screen.getByText("Show all time"));
+
+    expect(onClose).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,91 @@
+import React from 'react';
+import { Box, Button, Slider, Typography } from '@mui/material';
+import { DAY_MS, getLineageTimeBounds, type LineageTimeRange, type LineageTimeWindow } from '../../utils/lineageTimeTravel';
+
+/**
+ * @file LineageTimeTravelBar.tsx
+ * @description
+ * Date range slider shown under the Lineage header while time travel is on.
+ * The range spans the link events of the current graph, in whole days; the
+ * graph keeps the links active in the chosen window and highlights those
+ * added or removed since (`utils/lineageTimeTravel`).
+ *
+ * @param {LineageTimeTravelBarProps} props
+ * @param {LineageTimeRange} props.range - Earliest and latest link event.
+ * @param {LineageTimeWindow} props.value - The chosen window.
+ * @param {(value: LineageTimeWindow) => void} props.onChange - Called as the
+ * slider moves.
+ * @param {number} props.added - Links added since the chosen window.
+ * @param {number} props.removed - Links removed since the chosen window.
+ * @param {() => void} props.onClose - Turns time travel off.
+ */
+
+interface LineageTimeTravelBarProps {
+  range: LineageTimeRange;
+  value: LineageTimeWindow;
+  onChange: (value: LineageTimeWindow) => void;
+  added: number;
+  removed: number;
+  onClose: () => void;
+}
+
+const formatLineageDate = (time: number) =>
+  new Date(time).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+
+const LegendSwatch: React.FC<{ color: string; dashed?: boolean; label: string }> = ({ color, dashed, label }) => (
+  <Box sx={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+    <Box sx={{ width: '16px', borderTop: `3px ${dashed ? 'dashed' : 'solid'} ${color}` }} />
+    <Typography sx={{ fontSize: '12px', color: 'var(--sys-on-surface-muted)' }}>{label}</Typography>
+  </Box>
+);
+
+const LineageTimeTravelBar: React.FC<LineageTimeTravelBarProps> = ({ range, value, onChange, added, removed, onClose }) => {
+  const { min, max } = getLineageTimeBounds(range);
+
+  return (
+    <Box
+      role="group"
+      aria-label="Lineage time travel"
+      sx={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '1rem',
+        flexWrap: 'wrap',
+        padding: '0.5rem 1rem',
+        borderLeft: '1px solid var(--sys-outline-variant)',
+        borderRight: '1px solid var(--sys-outline-variant)',
+        backgroundColor: 'var(--sys-surface-container)',
+      }}
+    >
+      <Typography sx={{ fontSize: '12px', fontWeight: 500, color: 'var(--sys-on-surface)', whiteSpace: 'nowrap' }}>
+        {formatLineageDate(value.from)} – {formatLineageDate(value.to)}
+      </Typography>
+      <Slider
+        value={[value.from, value.to]}
+        min={min}
+        max={max}
+        step={DAY_MS}
+        size="small"
+        disableSwap
+        valueLabelDisplay="auto"
+        valueLabelFormat={formatLineageDate}
+        getAriaLabel={(index) => (index === 0 ? 'Window start' : 'Window end')}
+        getAriaValueText={formatLineageDate}
+        onChange={(_e, next) => {
+          const [from, to] = next as number[];
+          onChange({ from, to });
+        }}
+        sx={{ flex: '1 1 240px', minWidth: '160px', color: 'var(--sys-primary)' }}
+      />
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+        <LegendSwatch color="var(--sys-success)" label={`${added} added since`} />
+        <LegendSwatch color="var(--sys-error)" dashed label={`${removed} removed since`} />
+      </Box>
+      <Button size="small" onClick={onClose} sx={{ textTransform: 'none', fontSize: '12px' }}>
+        Show all time
+      </Button>
+    </Box>
+  );
+};
+
+export default LineageTimeTravelBar;
@@ -31,6 +31,13 @@ vi.mock("../../features/entry/entrySlice", () => ({
   pushToHistory: vi.fn(() => ({ type: "entry/pushToHistory" })),
 }));
 
+// Mock downloads
+const mockDownloadBlob = vi.fn();
+vi.mock("../../utils/searchExport", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../utils/searchExport")>()),
+  downloadBlob: (...args: unknown[]) => mockDownloadBlob(...args),
+}));
+
 // Mock auth provider
 vi.mock("../../auth/AuthProvider", () => ({
   useAuth: () => mockUseAuth(),
@@ -88,6 +95,13 @@ const createMockListData = (count: number = 3): LineageData[] => {
   return Array.from({ length: count }, (_, i) => createMockLineageData({}, i + 1));
 };
 
+const readBlob = (blob: Blob) =>
+  new Promise<string>((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsText(blob);
+  });
+
 const createMockEntry = (name: string = "current_table") => ({
   fullyQualifiedName: `project.dataset.${name}`,
   name,
@@ -968,6 +982,38 @@ describe("ListView", () => {
   // Sort Icon Display Tests
   // ==========================================================================
 
+  describe("CSV Export", () => {
+    it("downloads the rows shown as CSV", async () => {
+      const entry = createMockEntry("current_table");
+      const listData = [
+        createMockLineageData({ target: "current_table", targetFQN: entry.fullyQualifiedName }, 1),
+        createMockLineageData({ source: "current_table", sourceFQN: entry.fullyQualifiedName }, 2),
+      ];
+      render(<ListView listData={listData} entry={entry} />);
+
+      fireEvent.click(screen.getByText("Upstream (1)"));
+      fireEvent.click(screen.getByText("Export CSV"));
+
+      expect(mockDownloadBlob).toHaveBeenCalledWith(
+        expect.stringMatching(/^lineage-current_table-.*\.csv$/),
+        expect.any(Blob)
+      );
+      const csv = await readBlob(mockDownloadBlob.mock.calls[0][1]);
+      const lines = csv.replace(/^\uFEFF/, "").split("\r\n");
+      expect(lines[0]).toBe(
+        "Direction,Source system,Source project,Source,Source fully qualified name,Target system,Target project,Target,Target fully qualified name"
+      );
+      expect(lines).toHaveLength(2);
+      expect(lines[1]).toMatch(/^Upstream,SourceSystem1,/);
+    });
+
+    it("disables the export without rows", () => {
+      render(<ListView listData={[]} />);
+
+      expect(screen.getByText("Export CSV").closest("button")).toBeDisabled();
+    });
+  });
+
   describe("Sort Icon Display", () => {
     it("shows upward arrow when sorted ascending", () => {
       const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
@@ -31,6 +31,8 @@ import { useDispatch } from 'react-redux';
 import { fetchLineageEntry, pushToHistory } from '../../features/entry/entrySlice';
 import type { AppDispatch } from '../../app/store';
 import { useAuth } from '../../auth/AuthProvider';
+import { getLineageExportFileName, lineageListToCsv } from '../../utils/lineageExport';
+import { downloadBlob } from '../../utils/searchExport';
 
 /**
  * @file ListView.tsx
@@ -49,6 +51,10 @@ import { useAuth } from '../../auth/AuthProvider';
  * Clicking a link dispatches Redux actions (`pushToHistory`,
  * `fetchLineageEntry`) to fetch the selected entry's details and navigate
  * to the '/view-details' page.
+ * 5.  **Export**: Downloads the rows currently shown (after filtering and
+ * sorting) as CSV.
+ * 6.  **Graph Search**: The text of the Lineage toolbar's search box seeds
+ * the free-text filter.
  *
  * @param {LineageListViewProps} props - The props for the component.
  * @param {LineageData[]} props.listData - An array of lineage data objects,
@@ -56,6 +62,7 @@ import { useAuth } from '../../auth/AuthProvider';
  * @param {object} [props.entry] - (Optional) The main entry object, used to
  * determine "Upstream" and "Downstream" relationships based on its
  * `fullyQualifiedName`.
+ * @param {string} [props.searchText] - (Optional) Initial free-text filter.
  *
  * @returns {React.ReactElement} A React element containing the filter chips,
  * filter bar, and a `Table` that displays the sorted and filtered lineage data.
@@ -79,9 +86,10 @@ interface LineageListViewProps {
     fullyQualifiedName: string;
     name: string;
   };
+  searchText?: string;
 }
 
-const ListView: React.FC<LineageListViewProps> = ({ listData, entry }) => {
+const ListView: React.FC<LineageListViewProps> = ({ listData, entry, searchText = '' }) => {
   const [filterText, setFilterText] = useState('');
   const [selectedFilter, setSelectedFilter] = useState<'all' | 'upstream' | 'downstream'>('all');
   const [sortColumn, setSortColumn] = useState<string>('');
@@ -101,9 +109,9 @@ const ListView: React.FC<LineageListViewProps> = ({ listData, entry }) => {
   const id_token = user?.token || '';
   
   useEffect(() => {
-    setFilterText('');
+    setFilterText(searchText);
     console.log(listData);
-  },[listData]);
+  },[listData, searchText]);
 
 
   // Event handlers for filter dropdown
@@ -292,12 +300,18 @@ const ListView: React.FC<LineageListViewProps> = ({ listData, entry }) => {
     }
   });
 
+  const handleExportCsv = () => {
+    // BOM so Excel opens UTF-8 CSV files correctly
+    const blob = new Blob(['\uFEFF', lineageListToCsv(sortedData, entry?.fullyQualifiedName)], { type: 'text/csv;charset=utf-8' });
+    downloadBlob(getLineageExportFileName(entry?.fullyQualifiedName ?? '', 'csv'), blob);
+  };
+
   return (
     <Box sx={{ 
       flex: '1 1 auto', 
       display: 'flex', 
       flexDirection: 'column', 
-      background: '#FFFFFF', 
+      background: 'var(--sys-surface)', 
       borderBottomLeftRadius: '0.5rem',
       borderBottomRightRadius: '0.5rem',
       minWidth: 0, // Allow shrinking
@@ -315,9 +329,9 @@ const ListView: React.FC<LineageListViewProps> = ({ listData, entry }) => {
           label={`All (${lineageData.length})`}
           onClick={() => setSelectedFilter('all')}
           sx={{
-            backgroundColor: selectedFilter === 'all' ? '#E7F0FE' : '#FFFFFF',
-            color: selectedFilter === 'all' ? '#0E4DCA' : '#1F1F1F',
-            border: selectedFilter === 'all' ? 'none' : '1px solid #DADCE0',
+            backgroundColor: selectedFilter === 'all' ? 'var(--sys-selected-container)' : 'var(--sys-surface)',
+            color: selectedFilter === 'all' ? 'var(--sys-brand)' : 'var(--sys-on-surface)',
+            border: selectedFilter === 'all' ? 'none' : '1px solid var(--sys-outline-variant)',
             fontSize: '0.75rem',
             fontWeight: 400,
             fontFamily: '"Google Sans Text", sans-serif',
@@ -327,7 +341,7 @@ const ListView: React.FC<LineageListViewProps> = ({ listData, entry }) => {
             borderRadius: '3.6875rem',
             height: 'auto',
             '&:hover': {
-              backgroundColor: selectedFilter === 'all' ? '#E7F0FE' : '#f5f5f5',
+              backgroundColor: selectedFilter === 'all' ? 'var(--sys-selected-container)' : 'var(--sys-surface-container-grey)',
             }
           }}
         />
@@ -335,9 +349,9 @@ const ListView: React.FC<LineageListViewProps> = ({ listData, entry }) => {
           label={`Upstream (${lineageData.filter(item => item.target === entry?.fullyQualifiedName?.split('.').pop()).length})`}
           onClick={() => setSelectedFilter('upstream')}
           sx={{
-            backgroundColor: selectedFilter === 'upstream' ? '#E7F0FE' : '#FFFFFF',
-            color: selectedFilter === 'upstream' ? '#0E4DCA' : '#1F1F1F',
-            border: selectedFilter === 'upstream' ? 'none' : '1px solid #DADCE0',
+            backgroundColor: selectedFilter === 'upstream' ? 'var(--sys-selected-container)' : 'var(--sys-surface)',
+            color: selectedFilter === 'upstream' ? 'var(--sys-brand)' : 'var(--sys-on-surface)',
+            border: selectedFilter === 'upstream' ? 'none' : '1px solid var(--sys-outline-variant)',
             fontSize: '0.75rem',
             fontWeight: 400,
             fontFamily: 'Google Sans Text, sans-serif',
@@ -347,7 +361,7 @@ const ListView: React.FC<LineageListViewProps> = ({ listData, entry }) => {
             borderRadius: '3.6875rem',
             height: 'auto',
             '&:hover': {
-              backgroundColor: selectedFilter === 'upstream' ? '#E7F0FE' : '#f5f5f5',
+              backgroundColor: selectedFilter === 'upstream' ? 'var(--sys-selected-container)' : 'var(--sys-surface-container-grey)',
             }
           }}
         />
@@ -355,9 +369,9 @@ const ListView: React.FC<LineageListViewProps> = ({ listData, entry }) => {
           label={`Downstream (${lineageData.filter(item => item.source === entry?.fullyQualifiedName?.split('.').pop()).length})`}
           onClick={() => setSelectedFilter('downstream')}
           sx={{
-            backgroundColor: selectedFilter === 'downstream' ? '#E7F0FE' : '#FFFFFF',
-            color: selectedFilter === 'downstream' ? '#0E4DCA' : '#1F1F1F',
-            border: selectedFilter === 'downstream' ? 'none' : '1px solid #DADCE0',
+            backgroundColor: selectedFilter === 'downstream' ? 'var(--sys-selected-container)' : 'var(--sys-surface)',
+            color: selectedFilter === 'downstream' ? 'var(--sys-brand)' : 'var(--sys-on-surface)',
+            border: selectedFilter === 'downstream' ? 'none' : '1px solid var(--sys-outline-variant)',
             fontSize: '0.75rem',
             fontWeight: 400,
             fontFamily: 'Google Sans Text, sans-serif',
@@ -367,10 +381,26 @@ const ListView: React.FC<LineageListViewProps> = ({ listData, entry }) => {
             borderRadius: '3.6875rem',
             height: 'auto',
             '&:hover': {
-              backgroundColor: selectedFilter === 'downstream' ? '#E7F0FE' : '#f5f5f5',
+              backgroundColor: selectedFilter === 'downstream' ? 'var(--sys-selected-container)' : 'var(--sys-surface-container-grey)',
             }
           }}
         />
+        <Button
+          onClick={handleExportCsv}
+          disabled={sortedData.length === 0}
+          variant="outlined"
+          sx={{
+            marginLeft: 'auto',
+            fontSize: '0.75rem',
+            textTransform: 'none',
+            borderRadius: '3.6875rem',
+            padding: '0.25rem 0.8125rem',
+            color: 'var(--sys-primary)',
+            borderColor: 'var(--sys-outline-variant)',
+          }}
+        >
+          Export CSV
+        </Button>
       </Box>
 
       {/* Filter Input Section */}
@@ -380,8 +410,8 @@ const ListView: React.FC<LineageListViewProps> = ({ listData, entry }) => {
           flexDirection: 'column',
           gap: '0.5rem',
           padding: '0.5rem 1rem',
-          border: '1px solid #DADCE0',
-          backgroundColor: '#FFFFFF',
+          border: '1px solid var(--sys-outline-variant)',
+          backgroundColor: 'var(--sys-surface)',
           marginTop: '1rem',
           marginLeft: '1.25rem',
           marginRight: '1.25rem',
@@ -400,16 +430,16 @@ const ListView: React.FC<LineageListViewProps> = ({ listData, entry }) => {
               <IconButton
                 size="small"
                 onClick={handleFilterClick}
-                sx={{ padding: '4px', '&:hover': { backgroundColor: '#E8F4FF' } }}
+                sx={{ padding: '4px', '&:hover': { backgroundColor: 'var(--sys-selected-container-sky)' } }}
               >
-                <FilterList sx={{ color: '#1F1F1F', fontSize: '1rem' }} />
+                <FilterList sx={{ color: 'var(--sys-on-surface)', fontSize: '1rem' }} />
               </IconButton>
             </Tooltip>
             <Tooltip title="Filter by selecting property and values" arrow>
               <Typography 
                 onClick={handleFilterClick}
                 sx={{ 
-                  color: '#1F1F1F', 
+                  color: 'var(--sys-on-surface)', 
                   fontSize: '0.75rem', 
                   fontWeight: 500,
                   cursor: 'pointer',
@@ -437,8 +467,8 @@ const ListView: React.FC<LineageListViewProps> = ({ listData, entry }) => {
                 '&:hover fieldset': { border: 'none' },
                 '&.Mui-focused fieldset': { border: 'none' }
               },
-              '& .MuiInputBase-input': { padding: '4px 8px', fontSize: '0.75rem', color: '#1F1F1F' },
-              '& .MuiInputBase-input::placeholder': { color: '#575757', opacity: 1 }
+              '& .MuiInputBase-input': { padding: '4px 8px', fontSize: '0.75rem', color: 'var(--sys-on-surface)' },
+              '& .MuiInputBase-input::placeholder': { color: 'var(--sys-on-surface-muted)', opacity: 1 }
             }}
             InputProps={{
               endAdornment: filterText && (
@@ -456,7 +486,7 @@ const ListView: React.FC<LineageListViewProps> = ({ listData, entry }) => {
               onClick={handleClearFilters}
               sx={{
                 fontSize: '0.6875rem',
-                color: '#0B57D0',
+                color: 'var(--sys-primary)',
                 textTransform: 'none',
                 padding: '0.125rem 0.5rem',
                 minWidth: 'auto',
@@ -483,8 +513,8 @@ const ListView: React.FC<LineageListViewProps> = ({ listData, entry }) => {
             alignItems: 'center',
             gap: '0.375rem',
             padding: '0.25rem 0.5rem',
-            backgroundColor: '#E7F0FE',
-            border: '1px solid #0E4DCA',
+            backgroundColor: 'var(--sys-selected-container)',
+            border: '1px solid var(--sys-brand)',
             borderRadius: '16px',
             fontSize: '11px'
           }}
@@ -492,13 +522,13 @@ const ListView: React.FC<LineageListViewProps> = ({ listData, entry }) => {
           <Typography sx={{ 
             fontSize: '0.6875rem', 
             fontWeight: 500,
-            color: '#0E4DCA'
+            color: 'var(--sys-brand)'
           }}>
             {formatPropertyName(filter.property)}:
           </Typography>
           <Typography sx={{ 
             fontSize: '0.6875rem', 
-            color: '#1F1F1F'
+            color: 'var(--sys-on-surface)'
           }}>
             {filter.values.join(', ')}
           </Typography>
@@ -509,10 +539,10 @@ const ListView: React.FC<LineageListViewProps> = ({ listData, entry }) => {
               padding: '0.125rem',
               width: '16px',
               height: '16px',
-              color: '#0E4DCA',
+              color: 'var(--sys-brand)',
               '&:hover': {
-                backgroundColor: '#D93025',
-                color: '#FFFFFF'
+                backgroundColor: 'var(--sys-error)',
+                color: 'var(--sys-on-primary)'
               }
             }}
           >
@@ -548,15 +578,15 @@ const ListView: React.FC<LineageListViewProps> = ({ listData, entry }) => {
             sx={{
               fontSize: '0.6875rem',
               fontWeight: 500,
-              backgroundColor: '#F8F9FA',
-              borderBottom: '1px solid #E0E0E0',
+              backgroundColor: 'var(--sys-background-neutral)',
+              borderBottom: '1px solid var(--sys-divider)',
               height: "32px",
               minHeight: "32px",
               paddingTop: 0,
               paddingBottom: 1,
               "&.Mui-disabled": {
                 opacity: 1,
-                color: "#575757 !important",
+                color: "var(--sys-on-surface-muted) !important",
                 backgroundColor: "transparent !important",
               },
             }}
@@ -583,8 +613,8 @@ const ListView: React.FC<LineageListViewProps> = ({ listData, entry }) => {
               onClick={() => setSelectedProperty('')}
               sx={{ fontSize: '0.6875rem',
                 fontWeight: 400,
-                backgroundColor: '#F8F9FA',
-                borderBottom: '1px solid #E0E0E0',
+                backgroundColor: 'var(--sys-background-neutral)',
+                borderBottom: '1px solid var(--sys-divider)',
                 marginTop: '-8px',
                 paddingTop: 1.30,
                 paddingBottom: 1.30, }}
@@ -596,8 +626,8 @@ const ListView: React.FC<LineageListViewProps> = ({ listData, entry }) => {
                         sx={{
                           fontSize: '0.6875rem',
                           fontWeight: 400,
-                          backgroundColor: '#F8F9FA',
-                          borderBottom: '1px solid #E0E0E0'
+                          backgroundColor: 'var(--sys-background-neutral)',
+                          borderBottom: '1px solid var(--sys-divider)'
                         }}
                         disabled
                       >
@@ -649,18 +679,18 @@ const ListView: React.FC<LineageListViewProps> = ({ listData, entry }) => {
           }}>
             <TableHead>
               <TableRow sx={{
-                backgroundColor: '#F0F4F8',
+                backgroundColor: 'var(--sys-surface-container)',
                 height: '2rem',
-                border: '1px solid #DADCE0',
+                border: '1px solid var(--sys-outline-variant)',
               }}>
                 <TableCell
                   sx={{
                     fontWeight: 500,
                     fontSize: '0.75rem',
-                    color: '#444746',
-                    borderBottom: '1px solid #DADCE0',
-                    borderTop: '1px solid #DADCE0',
-                    borderLeft: '1px solid #DADCE0',
+                    color: 'var(--sys-on-surface-variant)',
+                    borderBottom: '1px solid var(--sys-outline-variant)',
+                    borderTop: '1px solid var(--sys-outline-variant)',
+                    borderLeft: '1px solid var(--sys-outline-variant)',
                     fontFamily: 'Google Sans Text, sans-serif',
                     lineHeight: 1.33,
                     letterSpacing: '0.1px',
@@ -682,9 +712,9 @@ const ListView: React.FC<LineageListViewProps> = ({ listData, entry }) => {
                   sx={{
                     fontWeight: 500,
                     fontSize: '0.75rem',
-                    color: '#444746',
-                    borderBottom: '1px solid #DADCE0',
-                    borderTop: '1px solid #DADCE0',
+                    color: 'var(--sys-on-surface-variant)',
+                    borderBottom: '1px solid var(--sys-outline-variant)',
+                    borderTop: '1px solid var(--sys-outline-variant)',
                     fontFamily: 'Google Sans Text, sans-serif',
                     lineHeight: 1.33,
                     letterSpacing: '0.1px',
@@ -706,9 +736,9 @@ const ListView: React.FC<LineageListViewProps> = ({ listData, entry }) => {
                   sx={{
                     fontWeight: 500,
                     fontSize: '0.75rem',
-                    color: '#444746',
-                    borderBottom: '1px solid #DADCE0',
-                    borderTop: '1px solid #DADCE0',
+                    color: 'var(--sys-on-surface-variant)',
+                    borderBottom: '1px solid var(--sys-outline-variant)',
+                    borderTop: '1px solid var(--sys-outline-variant)',
                     fontFamily: 'Google Sans Text, sans-serif',
                     lineHeight: 1.33,
                     letterSpacing: '0.1px',
@@ -730,9 +760,9 @@ const ListView: React.FC<LineageListViewProps> = ({ listData, entry }) => {
                   sx={{
                     fontWeight: 500,
                     fontSize: '0.75rem',
-                    color: '#444746',
-                    borderBottom: '1px solid #DADCE0',
-                    borderTop: '1px solid #DADCE0',
+                    color: 'var(--sys-on-surface-variant)',
+                    borderBottom: '1px solid var(--sys-outline-variant)',
+                    borderTop: '1px solid var(--sys-outline-variant)',
                     fontFamily: 'Google Sans Text, sans-serif',
                     lineHeight: 1.33,
                     letterSpacing: '0.1px',
@@ -754,9 +784,9 @@ const ListView: React.FC<LineageListViewProps> = ({ listData, entry }) => {
                   sx={{
                     fontWeight: 500,
                     fontSize: '0.75rem',
-                    color: '#444746',
-                    borderBottom: '1px solid #DADCE0',
-                    borderTop: '1px solid #DADCE0',
+                    color: 'var(--sys-on-surface-variant)',
+                    borderBottom: '1px solid var(--sys-outline-variant)',
+                    borderTop: '1px solid var(--sys-outline-variant)',
                     fontFamily: 'Google Sans Text, sans-serif',
                     lineHeight: 1.33,
                     letterSpacing: '0.1px',
@@ -778,9 +808,9 @@ const ListView: React.FC<LineageListViewProps> = ({ listData, entry }) => {
                   sx={{
                     fontWeight: 500,
                     fontSize: '0.75rem',
-                    color: '#444746',
-                    borderBottom: '1px solid #DADCE0',
-                    borderTop: '1px solid #DADCE0',
+                    color: 'var(--sys-on-surface-variant)',
+                    borderBottom: '1px solid var(--sys-outline-variant)',
+                    borderTop: '1px solid var(--sys-outline-variant)',
                     fontFamily: 'Google Sans Text, sans-serif',
                     lineHeight: 1.33,
                     letterSpacing: '0.1px',
@@ -802,9 +832,9 @@ const ListView: React.FC<LineageListViewProps> = ({ listData, entry }) => {
                   sx={{
                     fontWeight: 500,
                     fontSize: '0.75rem',
-                    color: '#444746',
-                    borderBottom: '1px solid #DADCE0',
-                    borderTop: '1px solid #DADCE0',
+                    color: 'var(--sys-on-surface-variant)',
+                    borderBottom: '1px solid var(--sys-outline-variant)',
+                    borderTop: '1px solid var(--sys-outline-variant)',
                     fontFamily: 'Google Sans Text, sans-serif',
                     lineHeight: 1.33,
                     letterSpacing: '0.1px',
@@ -826,10 +856,10 @@ const ListView: React.FC<LineageListViewProps> = ({ listData, entry }) => {
                   sx={{
                     fontWeight: 500,
                     fontSize: '0.75rem',
-                    color: '#444746',
-                    borderBottom: '1px solid #DADCE0',
-                    borderTop: '1px solid #DADCE0',
-                    borderRight: '1px solid #DADCE0',
+                    color: 'var(--sys-on-surface-variant)',
+                    borderBottom: '1px solid var(--sys-outline-variant)',
+                    borderTop: '1px solid var(--sys-outline-variant)',
+                    borderRight: '1px solid var(--sys-outline-variant)',
                     fontFamily: 'Google Sans Text, sans-serif',
                     lineHeight: 1.33,
                     letterSpacing: '0.1px',
@@ -855,17 +885,17 @@ const ListView: React.FC<LineageListViewProps> = ({ listData, entry }) => {
                   key={row.id}
                   sx={{
                     height: '2.2rem',
-                    '&:hover': { backgroundColor: '#f8f9fa' },
+                    '&:hover': { backgroundColor: 'var(--sys-background-neutral)' },
 
                     // --- Style rules for ALL rows ---
                     '& .MuiTableCell-root': {
-                      borderBottom: '1px solid #DADCE0',
+                      borderBottom: '1px solid var(--sys-outline-variant)',
                     },
                     '& .MuiTableCell-root:first-of-type': {
-                      borderLeft: '1px solid #DADCE0',
+                      borderLeft: '1px solid var(--sys-outline-variant)',
                     },
                     '& .MuiTableCell-root:last-of-type': {
-                      borderRight: '1px solid #DADCE0',
+                      borderRight: '1px solid var(--sys-outline-variant)',
                     },
 
                     // --- Special style rules for the LAST row ---
@@ -881,7 +911,7 @@ const ListView: React.FC<LineageListViewProps> = ({ listData, entry }) => {
                 >
                   <TableCell sx={{ 
                     fontSize: '0.75rem', 
-                    color: '#1F1F1F', 
+                    color: 'var(--sys-on-surface)', 
                     fontFamily: 'Google Sans Text, sans-serif',
                     fontWeight: 400,
                     lineHeight: 1.33,
@@ -896,7 +926,7 @@ const ListView: React.FC<LineageListViewProps> = ({ listData, entry }) => {
                   </TableCell>
                   <TableCell sx={{ 
                     fontSize: '0.75rem', 
-                    color: '#1F1F1F', 
+                    color: 'var(--sys-on-surface)', 
                     fontFamily: 'Google Sans Text, sans-serif',
                     fontWeight: 400,
                     lineHeight: 1.33,
@@ -924,10 +954,10 @@ const ListView: React.FC<LineageListViewProps> = ({ listData, entry }) => {
                     <Typography
                       component="span"
                       sx={{
-                        color: '#0B57D0',
+                        color: 'var(--sys-primary)',
                         textDecoration: 'underline',
                         cursor: 'pointer',
-                        '&:hover': { color: '#1565c0' },
+                        '&:hover': { color: 'var(--sys-accent-hover)' },
                         whiteSpace: 'nowrap',
                         overflow: 'hidden',
                         textOverflow: 'ellipsis',
@@ -942,7 +972,7 @@ const ListView: React.FC<LineageListViewProps> = ({ listData, entry }) => {
                   </TableCell>
                   <TableCell sx={{ 
                     fontSize: '0.75rem', 
-                    color: '#1F1F1F', 
+                    color: 'var(--sys-on-surface)', 
                     fontFamily: 'Google Sans Text, sans-serif',
                     fontWeight: 400,
                     lineHeight: 1.33,
@@ -970,10 +1000,10 @@ const ListView: React.FC<LineageListViewProps> = ({ listData, entry }) => {
                     <Typography
                       component="span"
                       sx={{
-                        color: '#0B57D0',
+                        color: 'var(--sys-primary)',
                         textDecoration: 'underline',
                         cursor: 'pointer',
-                        '&:hover': { color: '#1565c0' },
+                        '&:hover': { color: 'var(--sys-accent-hover)' },
                         whiteSpace: 'nowrap',
                         overflow: 'hidden',
                         textOverflow: 'ellipsis',
@@ -988,7 +1018,7 @@ const ListView: React.FC<LineageListViewProps> = ({ listData, entry }) => {
                   </TableCell>
                   <TableCell sx={{ 
                     fontSize: '0.75rem', 
-                    color: '#1F1F1F', 
+                    color: 'var(--sys-on-surface)', 
                     fontFamily: 'Google Sans Text, sans-serif',
                     fontWeight: 400,
                     lineHeight: 1.33,
@@ -1003,7 +1033,7 @@ const ListView: React.FC<LineageListViewProps> = ({ listData, entry }) => {
                   </TableCell>
                   <TableCell sx={{ 
                     fontSize: '0.75rem', 
-                    color: '#1F1F1F', 
+                    color: 'var(--sys-on-surface)', 
                     fontFamily: 'Google Sans Text, sans-serif',
                     fontWeight: 400,
                     lineHeight: 1.33,
@@ -1018,7 +1048,7 @@ const ListView: React.FC<LineageListViewProps> = ({ listData, entry }) => {
                   </TableCell>
                   <TableCell sx={{ 
                     fontSize: '0.75rem', 
-                    color: '#1F1F1F', 
+                    color: 'var(--sys-on-surface)', 
                     fontFamily: 'Google Sans Text, sans-serif',
                     fontWeight: 400,
                     lineHeight: 1.33,
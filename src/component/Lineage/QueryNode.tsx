@@ -9,7 +9,7 @@ import { Handle, Position } from '@xyflow/react';
 
 // MUI component styles based on Figma design
 const nodeContentStyles = {
-  color: '#1F1F1F',
+  color: 'var(--sys-on-surface)',
   padding: '0.3rem',
   fontFamily: '"Google Sans", sans-serif',
 };
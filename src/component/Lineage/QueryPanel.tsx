@@ -147,8 +147,8 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
   return queryPanelDataStatus === 'loading' ? (
       <Box sx={{ 
         width: '23.75rem', 
-        background: '#ffffff', 
-        border: '1px solid #DADCE0',
+        background: 'var(--sys-surface)', 
+        border: '1px solid var(--sys-outline-variant)',
         borderRadius: '0.5rem',
         height: 'calc(100vh - 12.5rem)',
         overflow: 'hidden', // Hide scrollbars during load
@@ -161,11 +161,11 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
           justifyContent: 'space-between', 
           alignItems: 'center',
           padding: '1.25rem',
-          background: '#F8FAFD'
+          background: 'var(--sys-background)'
         }}>
           <Typography variant="h5" sx={{ 
             fontWeight: 500, 
-            color: '#1a1a1a',
+            color: 'var(--sys-on-surface-heading)',
             fontSize: '20px',
             lineHeight: '28px'
           }}>
@@ -176,10 +176,10 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
               onClick={onClose} 
               size="small"
               sx={{ 
-                color: '#666',
+                color: 'var(--sys-on-surface-subtle)',
                 '&:hover': { 
-                  background: '#f0f0f0',
-                  color: '#333'
+                  background: 'var(--sys-surface-container-faint)',
+                  color: 'var(--sys-on-surface-body)'
                 }
               }}
             >
@@ -200,7 +200,7 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
                   fontSize: '14px',
                   fontWeight: 500,
                   minHeight: '48px',
-                  color: '#666',
+                  color: 'var(--sys-on-surface-subtle)',
                   minWidth: 0,
                   marginRight: '16px',
                   '&:last-child': {
@@ -208,7 +208,7 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
                   },
                   padding: '12px 16px',
                   '&.Mui-selected': {
-                    color: '#1976d2',
+                    color: 'var(--sys-accent)',
                     fontWeight: 600
                   }
                 },
@@ -222,8 +222,8 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
                     right: '16px',
                     bottom: '-2px',
                     height: '5px',
-                    backgroundColor: '#ffffff',
-                    borderTop: '4px solid #1976d2',
+                    backgroundColor: 'var(--sys-surface)',
+                    borderTop: '4px solid var(--sys-accent)',
                     borderRadius: '2.5px 2.5px 0 0'
                   }
                 }
@@ -236,17 +236,17 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
 
           {/* Tab Content (SKELETON with REAL LABELS) */}
           {/* This part is new */}
-          <Box sx={{ background: '#ffffff' }}>
+          <Box sx={{ background: 'var(--sys-surface)' }}>
             {/* General Details Section */}
             <Box sx={{ marginBottom: '24px' }}>
               <Box sx={{ 
                 display: 'flex',
                 alignItems: 'flex-start',
                 padding: '12px 12px',
-                borderBottom: '1px solid #f0f0f0',
+                borderBottom: '1px solid var(--sys-outline-faint)',
               }}>
                 <Typography variant="caption" sx={{ 
-                  color: '#1F1F1F', 
+                  color: 'var(--sys-on-surface)', 
                   fontSize: '12px',
                   fontWeight: 500,
                   letterSpacing: '0.5px',
@@ -262,10 +262,10 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
                 display: 'flex',
                 alignItems: 'center',
                 padding: '12px 12px',
-                borderBottom: '1px solid #f0f0f0',
+                borderBottom: '1px solid var(--sys-outline-faint)',
               }}>
                 <Typography variant="caption" sx={{ 
-                  color: '#1F1F1F', 
+                  color: 'var(--sys-on-surface)', 
                   fontSize: '12px',
                   fontWeight: 500,
                   letterSpacing: '0.5px',
@@ -281,10 +281,10 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
                 display: 'flex',
                 alignItems: 'center',
                 padding: '12px 12px',
-                borderBottom: '1px solid #f0f0f0'
+                borderBottom: '1px solid var(--sys-outline-faint)'
               }}>
                 <Typography variant="caption" sx={{ 
-                  color: '#1F1F1F', 
+                  color: 'var(--sys-on-surface)', 
                   fontSize: '12px',
                   fontWeight: 500,
                   letterSpacing: '0.5px',
@@ -315,8 +315,8 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
     <>
       <Box sx={{ 
         width: '23.75rem', 
-        background: '#ffffff', 
-        border: '1px solid #DADCE0',
+        background: 'var(--sys-surface)', 
+        border: '1px solid var(--sys-outline-variant)',
         borderRadius: '0.5rem',
         height: 'calc(100vh - 12.5rem)',
         overflowY: 'auto',
@@ -329,11 +329,11 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
           justifyContent: 'space-between', 
           alignItems: 'center',
           padding: '1.25rem',
-          background: '#F8FAFD'
+          background: 'var(--sys-background)'
         }}>
           <Typography variant="h5" sx={{ 
             fontWeight: 500, 
-            color: '#1a1a1a',
+            color: 'var(--sys-on-surface-heading)',
             fontSize: '20px',
             lineHeight: '28px'
           }}>
@@ -344,10 +344,10 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
               onClick={onClose} 
               size="small"
               sx={{ 
-                color: '#666',
+                color: 'var(--sys-on-surface-subtle)',
                 '&:hover': { 
-                  background: '#f0f0f0',
-                  color: '#333'
+                  background: 'var(--sys-surface-container-faint)',
+                  color: 'var(--sys-on-surface-body)'
                 }
               }}
             >
@@ -369,7 +369,7 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
                   fontSize: '14px',
                   fontWeight: 500,
                   minHeight: '48px',
-                  color: '#666',
+                  color: 'var(--sys-on-surface-subtle)',
                   minWidth: 0,
                   marginRight: '16px',
                   '&:last-child': {
@@ -377,7 +377,7 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
                   },
                   padding: '12px 16px',
                   '&.Mui-selected': {
-                    color: '#1976d2',
+                    color: 'var(--sys-accent)',
                     fontWeight: 600
                   }
                 },
@@ -391,8 +391,8 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
                     right: '16px', // <-- This matches the padding
                     bottom: '-2px', // From your reference file's logic
                     height: '5px',
-                    backgroundColor: '#ffffff', // Covers the grey border
-                    borderTop: '4px solid #1976d2', // Your color
+                    backgroundColor: 'var(--sys-surface)', // Covers the grey border
+                    borderTop: '4px solid var(--sys-accent)', // Your color
                     borderRadius: '2.5px 2.5px 0 0'
                   }
                 }
@@ -405,17 +405,17 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
 
           {/* Tab Content */}
           {activeTab === 0 && (
-            <Box sx={{ background: '#ffffff' }}>
+            <Box sx={{ background: 'var(--sys-surface)' }}>
               {/* General Details Section */}
               <Box sx={{ marginBottom: '24px' }}>
                 <Box sx={{ 
                   display: 'flex',
                   alignItems: 'flex-start',
                   padding: '12px 12px',
-                  borderBottom: '1px solid #f0f0f0',
+                  borderBottom: '1px solid var(--sys-outline-faint)',
                 }}>
                   <Typography variant="caption" sx={{ 
-                    color: '#1F1F1F', 
+                    color: 'var(--sys-on-surface)', 
                     fontSize: '12px',
                     fontWeight: 500,
                     letterSpacing: '0.5px',
@@ -427,7 +427,7 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
                   <Typography variant="body2" sx={{ 
                     fontSize: '14px', 
                     fontWeight: 500, 
-                    color: '#333',
+                    color: 'var(--sys-on-surface-body)',
                     lineHeight: '18px',
                     wordBreak: 'break-all',
                     flex: 1
@@ -439,10 +439,10 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
                   display: 'flex',
                   alignItems: 'center',
                   padding: '12px 12px',
-                  borderBottom: '1px solid #f0f0f0',
+                  borderBottom: '1px solid var(--sys-outline-faint)',
                 }}>
                   <Typography variant="caption" sx={{ 
-                    color: '#1F1F1F', 
+                    color: 'var(--sys-on-surface)', 
                     fontSize: '12px',
                     fontWeight: 500,
                     letterSpacing: '0.5px',
@@ -454,7 +454,7 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
                   <Typography variant="body2" sx={{ 
                     fontSize: '13px', 
                     fontWeight: 500, 
-                    color: '#333',
+                    color: 'var(--sys-on-surface-body)',
                     lineHeight: '18px',
                     flex: 1
                   }}>
@@ -465,10 +465,10 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
                   display: 'flex',
                   alignItems: 'center',
                   padding: '12px 12px',
-                  borderBottom: '1px solid #f0f0f0'
+                  borderBottom: '1px solid var(--sys-outline-faint)'
                 }}>
                   <Typography variant="caption" sx={{ 
-                    color: '#1F1F1F', 
+                    color: 'var(--sys-on-surface)', 
                     fontSize: '12px',
                     fontWeight: 500,
                     letterSpacing: '0.5px',
@@ -480,7 +480,7 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
                   <Typography variant="body2" sx={{ 
                     fontSize: '13px', 
                     fontWeight: 500, 
-                    color: '#333',
+                    color: 'var(--sys-on-surface-body)',
                     lineHeight: '18px',
                     flex: 1,
                     wordBreak: 'break-all',
@@ -502,17 +502,17 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
                       position: 'absolute',
                       top: '8px', 
                       right: '8px',
-                      background: '#ffffff',
-                      border: '1px solid #e0e0e0',
+                      background: 'var(--sys-surface)',
+                      border: '1px solid var(--sys-divider)',
                       width: '24px',
                       height: '24px',
                       '&:hover': {
-                        background: '#f0f0f0'
+                        background: 'var(--sys-surface-container-faint)'
                       },
                       zIndex: 1
                     }}
                   >
-                    <ContentCopy sx={{ fontSize: 14, color: '#666' }} />
+                    <ContentCopy sx={{ fontSize: 14, color: 'var(--sys-on-surface-subtle)' }} />
                   </IconButton>
                   
                   <Highlight theme={themes.nightOwlLight} code={sqlQuery || ''} language="sql">
@@ -548,13 +548,13 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
           )}
 
           {activeTab === 1 && (
-            <Box sx={{ background: '#ffffff' }}>
+            <Box sx={{ background: 'var(--sys-surface)' }}>
               {/* Table Header */}
               <Box sx={{ 
                 display: 'flex',
-                borderBottom: '1px solid #f0f0f0',
+                borderBottom: '1px solid var(--sys-outline-faint)',
                 padding: '12px 16px',
-                background: '#fafafa',
+                background: 'var(--sys-background-grey)',
                 gap: '16px'
               }}>
                 <Box sx={{ 
@@ -563,7 +563,7 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
                   alignItems: 'center'
                 }}>
                   <Typography variant="caption" sx={{ 
-                    color: '#666', 
+                    color: 'var(--sys-on-surface-subtle)', 
                     fontSize: '11px',
                     fontWeight: 600,
                     letterSpacing: '0.5px'
@@ -577,7 +577,7 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
                   alignItems: 'center'
                 }}>
                   <Typography variant="caption" sx={{ 
-                    color: '#666', 
+                    color: 'var(--sys-on-surface-subtle)', 
                     fontSize: '11px',
                     fontWeight: 600,
                     letterSpacing: '0.5px'
@@ -591,12 +591,12 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
               {runsData.map((run) => (
                 <Box key={run.id} sx={{ 
                   display: 'flex',
-                  borderBottom: '1px solid #f0f0f0',
+                  borderBottom: '1px solid var(--sys-outline-faint)',
                   padding: '12px 16px',
                   alignItems: 'center',
                   gap: '16px',
                   '&:hover': {
-                    background: '#f8f9fa'
+                    background: 'var(--sys-background-neutral)'
                   }
                 }}>
                   <Box sx={{ 
@@ -615,15 +615,15 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
                       justifyContent: 'center'
                     }}>
                       {run.status === 'COMPLETED' ? (
-                        <Check sx={{ fontSize: '10px', color: '#ffffff' }} />
+                        <Check sx={{ fontSize: '10px', color: 'var(--sys-on-primary)' }} />
                       ) : (
-                        <Schedule sx={{ fontSize: '10px', color: '#ffffff' }} />
+                        <Schedule sx={{ fontSize: '10px', color: 'var(--sys-on-primary)' }} />
                       )}
                     </Box>
                     <Typography variant="body2" sx={{ 
                       fontSize: '10px', 
                       fontWeight: 500, 
-                      color: '#333'
+                      color: 'var(--sys-on-surface-body)'
                     }}>
                       {run.status === 'COMPLETED' ? 'Completed' : 'Pending'}
                     </Typography>
@@ -637,7 +637,7 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
                     <Typography variant="body2" sx={{ 
                       fontSize: '10px', 
                       fontWeight: 500, 
-                      color: '#333',
+                      color: 'var(--sys-on-surface-body)',
                       fontFamily: 'monospace',
                       wordBreak: 'break-all',
                     }}>
@@ -648,7 +648,7 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
                       onClick={() => handleOpenRunDetails(run)}
                       sx={{ 
                         fontSize: '11px',
-                        color: '#1976d2',
+                        color: 'var(--sys-accent)',
                         textTransform: 'none',
                         minWidth: 'auto',
                         padding: '4px 8px',
@@ -676,7 +676,7 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
           display: 'flex', 
           justifyContent: 'space-between', 
           alignItems: 'center',
-          borderBottom: '1px solid #e0e0e0'
+          borderBottom: '1px solid var(--sys-divider)'
         }}>
           <Typography variant="body1" sx={{ fontWeight: 500, fontSize: '18px', lineHeight: '24px'}}>
             Run Details
@@ -692,10 +692,10 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
                 display: 'flex',
                 alignItems: 'flex-start',
                 padding: '12px 0',
-                borderBottom: '1px solid #f0f0f0',
+                borderBottom: '1px solid var(--sys-outline-faint)',
               }}>
                 <Typography variant="caption" sx={{ 
-                  color: '#666', 
+                  color: 'var(--sys-on-surface-subtle)', 
                   fontSize: '11px',
                   fontWeight: 500,
                   letterSpacing: '0.5px',
@@ -707,7 +707,7 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
                 <Typography variant="body2" sx={{ 
                   fontSize: '13px', 
                   fontWeight: 500, 
-                  color: '#333',
+                  color: 'var(--sys-on-surface-body)',
                   lineHeight: '18px',
                   wordBreak: 'break-all',
                   flex: 1
@@ -719,10 +719,10 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
                 display: 'flex',
                 alignItems: 'center',
                 padding: '12px 0',
-                borderBottom: '1px solid #f0f0f0',
+                borderBottom: '1px solid var(--sys-outline-faint)',
               }}>
                 <Typography variant="caption" sx={{ 
-                  color: '#666', 
+                  color: 'var(--sys-on-surface-subtle)', 
                   fontSize: '11px',
                   fontWeight: 500,
                   letterSpacing: '0.5px',
@@ -742,15 +742,15 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
                     justifyContent: 'center'
                   }}>
                     {selectedRun.status === 'COMPLETED' ? (
-                      <Check sx={{ fontSize: '10px', color: '#ffffff' }} />
+                      <Check sx={{ fontSize: '10px', color: 'var(--sys-on-primary)' }} />
                     ) : (
-                      <Schedule sx={{ fontSize: '10px', color: '#ffffff' }} />
+                      <Schedule sx={{ fontSize: '10px', color: 'var(--sys-on-primary)' }} />
                     )}
                   </Box>
                   <Typography variant="body2" sx={{ 
                     fontSize: '13px', 
                     fontWeight: 500, 
-                    color: '#333'
+                    color: 'var(--sys-on-surface-body)'
                   }}>
                     {selectedRun.status === 'COMPLETED' ? 'Completed' : 'Pending'}
                   </Typography>
@@ -760,10 +760,10 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
                 display: 'flex',
                 alignItems: 'center',
                 padding: '12px 0',
-                borderBottom: '1px solid #f0f0f0',
+                borderBottom: '1px solid var(--sys-outline-faint)',
               }}>
                 <Typography variant="caption" sx={{ 
-                  color: '#666', 
+                  color: 'var(--sys-on-surface-subtle)', 
                   fontSize: '11px',
                   fontWeight: 500,
                   letterSpacing: '0.5px',
@@ -775,7 +775,7 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
                 <Typography variant="body2" sx={{ 
                   fontSize: '13px', 
                   fontWeight: 500, 
-                  color: '#1976d2',
+                  color: 'var(--sys-accent)',
                   textDecoration: 'underline',
                   cursor: 'pointer',
                   fontFamily: 'monospace',
@@ -789,10 +789,10 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
                 display: 'flex',
                 alignItems: 'center',
                 padding: '12px 0',
-                borderBottom: '1px solid #f0f0f0',
+                borderBottom: '1px solid var(--sys-outline-faint)',
               }}>
                 <Typography variant="caption" sx={{ 
-                  color: '#666', 
+                  color: 'var(--sys-on-surface-subtle)', 
                   fontSize: '11px',
                   fontWeight: 500,
                   letterSpacing: '0.5px',
@@ -804,7 +804,7 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
                 <Typography variant="body2" sx={{ 
                   fontSize: '13px', 
                   fontWeight: 500, 
-                  color: '#333',
+                  color: 'var(--sys-on-surface-body)',
                   lineHeight: '18px',
                   flex: 1
                 }}>
@@ -815,10 +815,10 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
                 display: 'flex',
                 alignItems: 'center',
                 padding: '12px 0',
-                borderBottom: '1px solid #f0f0f0',
+                borderBottom: '1px solid var(--sys-outline-faint)',
               }}>
                 <Typography variant="caption" sx={{ 
-                  color: '#666', 
+                  color: 'var(--sys-on-surface-subtle)', 
                   fontSize: '11px',
                   fontWeight: 500,
                   letterSpacing: '0.5px',
@@ -830,7 +830,7 @@ const QueryPanel: React.FC<QueryPanelProps> = ({ queryPanelDataStatus, queryPane
                 <Typography variant="body2" sx={{ 
                   fontSize: '13px', 
                   fontWeight: 500, 
-                  color: '#333',
+                  color: 'var(--sys-on-surface-body)',
                   lineHeight: '18px',
                   flex: 1
                 }}>
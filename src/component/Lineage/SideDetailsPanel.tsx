@@ -153,8 +153,8 @@ useEffect(() => {
     return (
       <Box sx={{ 
         width: '23.75rem', 
-        background: '#ffffff', 
-        border: '1px solid #DADCE0',
+        background: 'var(--sys-surface)', 
+        border: '1px solid var(--sys-outline-variant)',
         borderRadius: '0.5rem',
         height: 'calc(100vh - 12.5rem)',
         overflow: 'hidden', // Hide scrollbar during load
@@ -167,7 +167,7 @@ useEffect(() => {
           justifyContent: 'space-between', 
           alignItems: 'center',
           padding: '1.25rem',
-          background: '#fafafa'
+          background: 'var(--sys-background-grey)'
         }}>
           {/* Skeleton for title */}
           <Skeleton variant="text" sx={{ fontSize: '1.125rem' }} width="60%" />
@@ -178,10 +178,10 @@ useEffect(() => {
                 onClick={onClose} 
                 size="small"
                 sx={{ 
-                  color: '#666',
+                  color: 'var(--sys-on-surface-subtle)',
                   '&:hover': { 
-                    background: '#f0f0f0',
-                    color: '#333'
+                    background: 'var(--sys-surface-container-faint)',
+                    color: 'var(--sys-on-surface-body)'
                   }
                 }}
               >
@@ -192,7 +192,7 @@ useEffect(() => {
         </Box>
 
         {/* Tabs Navigation (Real but disabled) */}
-        <Box sx={{ borderBottom: "1px solid #DADCE0", background: "#ffffff" }}>
+        <Box sx={{ borderBottom: "1px solid var(--sys-outline-variant)", background: "var(--sys-surface)" }}>
           <Tabs
             value={0} // Default to first tab
             sx={{
@@ -210,8 +210,8 @@ useEffect(() => {
                   right: "20px",
                   bottom: "-2px",
                   height: "5px",
-                  backgroundColor: "#ffffff",
-                  borderTop: "4px solid #0B57D0",
+                  backgroundColor: "var(--sys-surface)",
+                  borderTop: "4px solid var(--sys-primary)",
                   borderRadius: "2.5px 2.5px 0 0",
                 },
               },
@@ -219,12 +219,12 @@ useEffect(() => {
                 fontFamily: "Google sans text, sans-serif",
                 fontSize: "14px",
                 fontWeight: "500",
-                color: "#575757",
+                color: "var(--sys-on-surface-muted)",
                 textTransform: "none",
                 minHeight: "48px",
                 padding: "12px 20px",
                 "&.Mui-selected": {
-                  color: "#0B57D0",
+                  color: "var(--sys-primary)",
                   fontWeight: "500",
                 },
               },
@@ -241,43 +241,43 @@ useEffect(() => {
           <Box>
               <Grid container spacing={0}>
                 {/* Row 1: Name / System */}
-                <Grid size={6} sx={{ padding: '12px 4px', borderBottom: '1px solid #f0f0f0' }}>
-                  <Typography variant="caption" sx={{ fontFamily: '"Google Sans Text", sans-serif', color: '#575757', fontSize: '11px', fontWeight: 500, letterSpacing: '0.5px', marginBottom: '4px', display: 'block' }}>
+                <Grid size={6} sx={{ padding: '12px 4px', borderBottom: '1px solid var(--sys-outline-faint)' }}>
+                  <Typography variant="caption" sx={{ fontFamily: '"Google Sans Text", sans-serif', color: 'var(--sys-on-surface-muted)', fontSize: '11px', fontWeight: 500, letterSpacing: '0.5px', marginBottom: '4px', display: 'block' }}>
                     Name
                   </Typography>
                   <Skeleton variant="text" sx={{ fontSize: '13px' }} width="80%" />
                 </Grid>
-                <Grid size={6} sx={{ padding: '12px 4px', borderBottom: '1px solid #f0f0f0' }}>
-                  <Typography variant="caption" sx={{ fontFamily: '"Google Sans Text", sans-serif', color: '#575757', fontSize: '11px', fontWeight: 500, letterSpacing: '0.5px', marginBottom: '4px', display: 'block' }}>
+                <Grid size={6} sx={{ padding: '12px 4px', borderBottom: '1px solid var(--sys-outline-faint)' }}>
+                  <Typography variant="caption" sx={{ fontFamily: '"Google Sans Text", sans-serif', color: 'var(--sys-on-surface-muted)', fontSize: '11px', fontWeight: 500, letterSpacing: '0.5px', marginBottom: '4px', display: 'block' }}>
                     System
                   </Typography>
                   <Skeleton variant="text" sx={{ fontSize: '13px' }} width="50%" />
                 </Grid>
 
                 {/* Row 2: Rows / Columns */}
-                <Grid size={6} sx={{ padding: '12px 4px', borderBottom: '1px solid #f0f0f0' }}>
-                  <Typography variant="caption" sx={{ fontFamily: '"Google Sans Text", sans-serif', color: '#575757', fontSize: '11px', fontWeight: 500, letterSpacing: '0.5px', marginBottom: '4px', display: 'block' }}>
+                <Grid size={6} sx={{ padding: '12px 4px', borderBottom: '1px solid var(--sys-outline-faint)' }}>
+                  <Typography variant="caption" sx={{ fontFamily: '"Google Sans Text", sans-serif', color: 'var(--sys-on-surface-muted)', fontSize: '11px', fontWeight: 500, letterSpacing: '0.5px', marginBottom: '4px', display: 'block' }}>
                     Rows
                   </Typography>
                   <Skeleton variant="text" sx={{ fontSize: '13px' }} width="40%" />
                 </Grid>
-                <Grid size={6} sx={{ padding: '12px 4px', borderBottom: '1px solid #f0f0f0' }}>
-                  <Typography variant="caption" sx={{ fontFamily: '"Google Sans Text", sans-serif', color: '#575757', fontSize: '11px', fontWeight: 500, letterSpacing: '0.5px', marginBottom: '4px', display: 'block' }}>
+                <Grid size={6} sx={{ padding: '12px 4px', borderBottom: '1px solid var(--sys-outline-faint)' }}>
+                  <Typography variant="caption" sx={{ fontFamily: '"Google Sans Text", sans-serif', color: 'var(--sys-on-surface-muted)', fontSize: '11px', fontWeight: 500, letterSpacing: '0.5px', marginBottom: '4px', display: 'block' }}>
                     Columns
                   </Typography>
                   <Skeleton variant="text" sx={{ fontSize: '13px' }} width="40%" />
                 </Grid>
 
                 {/* Row 3: Creation Time / Last Modification */}
-                <Grid size={6} sx={{ padding: '12px 4px', borderBottom: '1px solid #f0f0f0' }}>
-                  <Typography variant="caption" sx={{ fontFamily: '"Google Sans Text", sans-serif', color: '#575757', fontSize: '11px', fontWeight: 500, letterSpacing: '0.5px', marginBottom: '4px', display: 'block' }}>
+                <Grid size={6} sx={{ padding: '12px 4px', borderBottom: '1px solid var(--sys-outline-faint)' }}>
+                  <Typography variant="caption" sx={{ fontFamily: '"Google Sans Text", sans-serif', color: 'var(--sys-on-surface-muted)', fontSize: '11px', fontWeight: 500, letterSpacing: '0.5px', marginBottom: '4px', display: 'block' }}>
                     Creation Time
                   </Typography>
                   <Skeleton variant="text" sx={{ fontSize: '14px' }} width="70%" />
                   <Skeleton variant="text" sx={{ fontSize: '14px' }} width="50%" />
                 </Grid>
-                <Grid size={6} sx={{ padding: '12px 4px', borderBottom: '1px solid #f0f0f0' }}>
-                  <Typography variant="caption" sx={{ color: '#666', fontSize: '11px', fontWeight: 500, letterSpacing: '0.5px', marginBottom: '4px', display: 'block' }}>
+                <Grid size={6} sx={{ padding: '12px 4px', borderBottom: '1px solid var(--sys-outline-faint)' }}>
+                  <Typography variant="caption" sx={{ color: 'var(--sys-on-surface-subtle)', fontSize: '11px', fontWeight: 500, letterSpacing: '0.5px', marginBottom: '4px', display: 'block' }}>
                     Last Modification
                   </Typography>
                   <Skeleton variant="text" sx={{ fontSize: '14px' }} width="70%" />
@@ -285,15 +285,15 @@ useEffect(() => {
                 </Grid>
 
                 {/* Row 4: Identifiers / Labels */}
-                <Grid size={6} sx={{ padding: '12px 4px', borderBottom: '1px solid #f0f0f0' }}>
-                  <Typography variant="caption" sx={{ fontFamily: '"Google Sans Text", sans-serif', color: '#575757', fontSize: '11px', fontWeight: 500, letterSpacing: '0.5px', marginBottom: '8px', display: 'block' }}>
+                <Grid size={6} sx={{ padding: '12px 4px', borderBottom: '1px solid var(--sys-outline-faint)' }}>
+                  <Typography variant="caption" sx={{ fontFamily: '"Google Sans Text", sans-serif', color: 'var(--sys-on-surface-muted)', fontSize: '11px', fontWeight: 500, letterSpacing: '0.5px', marginBottom: '8px', display: 'block' }}>
                     Identifiers
                   </Typography>
                   <Skeleton variant="text" sx={{ fontSize: '14px' }} width="100px" />
                   <Skeleton variant="text" sx={{ fontSize: '14px', mt: 1 }} width="70px" />
                 </Grid>
-                <Grid size={6} sx={{ padding: '12px 4px', borderBottom: '1px solid #f0f0f0' }}>
-                  <Typography variant="caption" sx={{ fontFamily: '"Google Sans Text", sans-serif', color: '#575757', fontSize: '11px', fontWeight: 500, letterSpacing: '0.5px', marginBottom: '8px', display: 'block' }}>
+                <Grid size={6} sx={{ padding: '12px 4px', borderBottom: '1px solid var(--sys-outline-faint)' }}>
+                  <Typography variant="caption" sx={{ fontFamily: '"Google Sans Text", sans-serif', color: 'var(--sys-on-surface-muted)', fontSize: '11px', fontWeight: 500, letterSpacing: '0.5px', marginBottom: '8px', display: 'block' }}>
                     Labels
                   </Typography>
                   <Skeleton variant="rounded" width={120} height={28} sx={{ borderRadius: '8px' }} />
@@ -309,8 +309,8 @@ useEffect(() => {
     return (
       <Box sx={{ 
         width: '23.75rem', 
-        background: '#ffffff', 
-        border: '1px solid #DADCE0',
+        background: 'var(--sys-surface)', 
+        border: '1px solid var(--sys-outline-variant)',
         borderRadius: '0.5rem',
         height: 'calc(100vh - 12.5rem)',
         display: 'flex',
@@ -328,8 +328,8 @@ useEffect(() => {
     return (
       <Box sx={{ 
         width: '400px', 
-        background: '#ffffff', 
-        borderLeft: '1px solid #e0e0e0',
+        background: 'var(--sys-surface)', 
+        borderLeft: '1px solid var(--sys-divider)',
         height: 'calc(100vh - 200px)',
         display: 'flex',
         alignItems: 'center',
@@ -344,8 +344,8 @@ useEffect(() => {
   return (
     <Box sx={{ 
       width: '23.75rem', 
-      background: '#ffffff', 
-      border: '1px solid #DADCE0',
+      background: 'var(--sys-surface)', 
+      border: '1px solid var(--sys-outline-variant)',
       borderRadius: '0.5rem',
       height: 'calc(100vh - 12.5rem)',
       overflowY: 'auto',
@@ -358,11 +358,11 @@ useEffect(() => {
         justifyContent: 'space-between', 
         alignItems: 'center',
         padding: '1.25rem',
-        background: '#fafafa'
+        background: 'var(--sys-background-grey)'
       }}>
         <Typography variant="heading2Medium" sx={{ 
           fontWeight: 500, 
-          color: '#1F1F1F',
+          color: 'var(--sys-on-surface)',
           fontSize: '1.125rem',
           lineHeight: 1.4,
           //textTransform:"capitalize",
@@ -383,11 +383,11 @@ useEffect(() => {
                 padding: '4px 8px',
                 minWidth: 'auto',
                 height: '28px',
-                borderColor: '#DADCE0',
-                color: '#575757',
+                borderColor: 'var(--sys-outline-variant)',
+                color: 'var(--sys-on-surface-subtle)',
                 '&:hover': {
-                  borderColor: '#0B57D0',
-                  color: '#0B57D0'
+                  borderColor: 'var(--sys-primary)',
+                  color: 'var(--sys-primary)'
                 }
               }}
             >
@@ -399,10 +399,10 @@ useEffect(() => {
               onClick={onClose} 
               size="small"
               sx={{ 
-                color: '#666',
+                color: 'var(--sys-on-surface-muted)',
                 '&:hover': { 
-                  background: '#f0f0f0',
-                  color: '#333'
+                  background: 'var(--sys-surface-container-faint)',
+                  color: 'var(--sys-on-surface-body)'
                 }
               }}
             >
@@ -413,7 +413,7 @@ useEffect(() => {
       </Box>
 
       {/* Tabs Navigation */}
-      <Box sx={{ borderBottom: "1px solid #DADCE0", background: "#ffffff" }}>
+      <Box sx={{ borderBottom: "1px solid var(--sys-outline-variant)", background: "var(--sys-surface)" }}>
         <Tabs
   value={activeTab}
   onChange={handleTabChange}
@@ -432,8 +432,8 @@ useEffect(() => {
         right: "20px",
         bottom: "-2px",
         height: "5px",
-        backgroundColor: "#ffffff",
-        borderTop: "4px solid #0B57D0",
+        backgroundColor: "var(--sys-surface)",
+        borderTop: "4px solid var(--sys-primary)",
         borderRadius: "2.5px 2.5px 0 0",
       },
     },
@@ -441,12 +441,12 @@ useEffect(() => {
       fontFamily: "Google sans text, sans-serif",
       fontSize: "14px",
       fontWeight: "500",
-      color: "#575757",
+      color: "var(--sys-on-surface-muted)",
       textTransform: "none",
       minHeight: "48px",
       padding: "12px 20px",
       "&.Mui-selected": {
-        color: "#0B57D0",
+        color: "var(--sys-primary)",
         fontWeight: "500",
       },
     },
@@ -465,11 +465,11 @@ useEffect(() => {
               <Grid container spacing={0}>
                 <Grid size={6} sx={{ 
                   padding: '12px 4px',
-                  borderBottom: '1px solid #f0f0f0',
+                  borderBottom: '1px solid var(--sys-outline-faint)',
                 }}>
                   <Typography variant="caption" sx={{ 
                     fontFamily: '"Google Sans Text", sans-serif',
-                    color: '#575757', 
+                    color: 'var(--sys-on-surface-subtle)', 
                     fontSize: '11px',
                     fontWeight: 500,
                     letterSpacing: '0.5px',
@@ -481,7 +481,7 @@ useEffect(() => {
                   <Typography variant="body2" sx={{ 
                     fontSize: '13px', 
                     fontWeight: 500, 
-                    color: '#333',
+                    color: 'var(--sys-on-surface-body)',
                     lineHeight: '18px',
                     width:"150px",
                     // textTransform:"capitalize",
@@ -493,11 +493,11 @@ useEffect(() => {
                 </Grid>
                 <Grid size={6} sx={{ 
                   padding: '12px 4px',
-                  borderBottom: '1px solid #f0f0f0'
+                  borderBottom: '1px solid var(--sys-outline-faint)'
                 }}>
                   <Typography variant="caption" sx={{ 
                     fontFamily: '"Google Sans Text", sans-serif',
-                    color: '#575757', 
+                    color: 'var(--sys-on-surface-muted)', 
                     fontSize: '11px',
                     fontWeight: 500,
                     letterSpacing: '0.5px',
@@ -509,7 +509,7 @@ useEffect(() => {
                   <Typography variant="body2" sx={{ 
                     fontSize: '13px', 
                     fontWeight: 500, 
-                    color: '#333',
+                    color: 'var(--sys-on-surface-body)',
                     lineHeight: '18px'
                   }}>
                     {(() => { const sys = entry.entrySource?.system; if (!sys) return ''; const lower = sys.toLowerCase(); if (lower === 'dataplex universal catalog' || lower === 'dataplex') return 'Knowledge Catalog'; return sys; })()}
@@ -517,11 +517,11 @@ useEffect(() => {
                 </Grid>
                 <Grid size={6} sx={{ 
                   padding: '12px 4px',
-                  borderBottom: '1px solid #f0f0f0',
+                  borderBottom: '1px solid var(--sys-outline-faint)',
                 }}>
                   <Typography variant="caption" sx={{ 
                     fontFamily: '"Google Sans Text", sans-serif',
-                    color: '#575757', 
+                    color: 'var(--sys-on-surface-muted)', 
                     fontSize: '11px',
                     fontWeight: 500,
                     letterSpacing: '0.5px',
@@ -533,7 +533,7 @@ useEffect(() => {
                   <Typography variant="body2" sx={{ 
                     fontSize: '13px', 
                     fontWeight: 500, 
-                    color: '#333',
+                    color: 'var(--sys-on-surface-body)',
                     lineHeight: '18px'
                   }}>
                     {rowCount}
@@ -541,11 +541,11 @@ useEffect(() => {
                 </Grid>
                 <Grid size={6} sx={{ 
                   padding: '12px 4px',
-                  borderBottom: '1px solid #f0f0f0'
+                  borderBottom: '1px solid var(--sys-outline-faint)'
                 }}>
                   <Typography variant="caption" sx={{ 
                     fontFamily: '"Google Sans Text", sans-serif',
-                    color: '#575757', 
+                    color: 'var(--sys-on-surface-muted)', 
                     fontSize: '11px',
                     fontWeight: 500,
                     letterSpacing: '0.5px',
@@ -557,7 +557,7 @@ useEffect(() => {
                   <Typography variant="body2" sx={{ 
                     fontSize: '13px', 
                     fontWeight: 500, 
-                    color: '#333',
+                    color: 'var(--sys-on-surface-body)',
                     lineHeight: '18px'
                   }}>
                     {columnCount}
@@ -565,11 +565,11 @@ useEffect(() => {
                 </Grid>
                 <Grid size={6} sx={{ 
                   padding: '12px 4px',
-                  borderBottom: '1px solid #f0f0f0',
+                  borderBottom: '1px solid var(--sys-outline-faint)',
                 }}>
                   <Typography variant="caption" sx={{ 
                     fontFamily: '"Google Sans Text", sans-serif',
-                    color: '#575757', 
+                    color: 'var(--sys-on-surface-muted)', 
                     fontSize: '11px',
                     fontWeight: 500,
                     letterSpacing: '0.5px',
@@ -583,7 +583,7 @@ useEffect(() => {
                       fontWeight: 400,
                       fontSize: "14px",
                       lineHeight: "1.43em",
-                      color: "#1F1F1F"
+                      color: "var(--sys-on-surface)"
                     }}>
                     {createDate}
                     <br />
@@ -592,10 +592,10 @@ useEffect(() => {
                 </Grid>
                 <Grid size={6} sx={{ 
                   padding: '12px 4px',
-                  borderBottom: '1px solid #f0f0f0'
+                  borderBottom: '1px solid var(--sys-outline-faint)'
                 }}>
                   <Typography variant="caption" sx={{ 
-                    color: '#666', 
+                    color: 'var(--sys-on-surface-muted)', 
                     fontSize: '11px',
                     fontWeight: 500,
                     letterSpacing: '0.5px',
@@ -609,7 +609,7 @@ useEffect(() => {
                     fontWeight: 400,
                     fontSize: "14px",
                     lineHeight: "1.43em",
-                    color: "#1F1F1F"
+                    color: "var(--sys-on-surface)"
                   }}>
                     {updateDate}
                     <br />
@@ -618,11 +618,11 @@ useEffect(() => {
                 </Grid>
                 <Grid size={6} sx={{ 
                   padding: '12px 4px',
-                  borderBottom: '1px solid #f0f0f0',
+                  borderBottom: '1px solid var(--sys-outline-faint)',
                 }}>
                   <Typography variant="caption" sx={{ 
                     fontFamily: '"Google Sans Text", sans-serif',
-                    color: '#575757', 
+                    color: 'var(--sys-on-surface-muted)', 
                     fontSize: '11px',
                     fontWeight: 500,
                     letterSpacing: '0.5px',
@@ -646,7 +646,7 @@ useEffect(() => {
                         sx={{ 
                           fontSize: '14px', 
                           fontWeight: 700, 
-                          color: '#0B57D0',
+                          color: 'var(--sys-primary)',
                           textDecoration: 'underline',
                           cursor: 'pointer',
                           display: 'flex',
@@ -657,7 +657,7 @@ useEffect(() => {
                         }}
                       >
                         Resources
-                        <ContentCopy sx={{ fontSize: 14, color: '#1976d2' }} />
+                        <ContentCopy sx={{ fontSize: 14, color: 'var(--sys-accent)' }} />
                       </Box>
                     </Tooltip>
                     <Tooltip title={`Copy FQN to clipboard - ${entry.fullyQualifiedName}`} arrow>
@@ -674,7 +674,7 @@ useEffect(() => {
                         sx={{ 
                           fontSize: '14px', 
                           fontWeight: 700, 
-                          color: '#0B57D0',
+                          color: 'var(--sys-primary)',
                           textDecoration: 'underline',
                           cursor: 'pointer',
                           display: 'flex',
@@ -685,18 +685,18 @@ useEffect(() => {
                         }}
                       >
                         FQN
-                        <ContentCopy sx={{ fontSize: 14, color: '#1976d2' }} />
+                        <ContentCopy sx={{ fontSize: 14, color: 'var(--sys-accent)' }} />
                       </Box>
                     </Tooltip>
                   </Box>
                 </Grid>
                 <Grid size={6} sx={{ 
                   padding: '12px 4px',
-                  borderBottom: '1px solid #f0f0f0'
+                  borderBottom: '1px solid var(--sys-outline-faint)'
                 }}>
                   <Typography variant="caption" sx={{ 
                     fontFamily: '"Google Sans Text", sans-serif',
-                    color: '#575757', 
+                    color: 'var(--sys-on-surface-muted)', 
                     fontSize: '11px',
                     fontWeight: 500,
                     letterSpacing: '0.5px',
@@ -713,8 +713,8 @@ useEffect(() => {
                           size="small"
                           sx={{ 
                             fontSize: '12px', 
-                            background: '#E7F0FE', 
-                            color: '#004A77',
+                            background: 'var(--sys-selected-container)', 
+                            color: 'var(--sys-on-secondary-container)',
                             maxWidth: '150px',
                             alignSelf: 'flex-start',
                             height: 'auto',
@@ -744,7 +744,7 @@ useEffect(() => {
         {/* Aspects Tab Content */}
         {activeTab === 1 && (
           <Box sx={{
-            background: '#ffffff',
+            background: 'var(--sys-surface)',
           }}>
             {/* Aspects Filter - Override margin for side panel */}
             <Box sx={{
@@ -761,7 +761,7 @@ useEffect(() => {
               />
             </Box>
             <Box sx={{
-              background: '#ffffff'
+              background: 'var(--sys-surface)'
             }}>
               <PreviewAnnotation
                 entry={filteredAnnotationEntry || entry}
@@ -783,7 +783,7 @@ useEffect(() => {
           <Box sx={{ 
             borderRadius: '8px', 
             overflow: 'hidden',
-            background: '#ffffff'
+            background: 'var(--sys-surface)'
           }}>
             <SchemaFilter
               entry={entry}
@@ -2,12 +2,15 @@ import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { render, screen, fireEvent, waitFor } from "@testing-library/react";
 import { AxiosError } from "axios";
 import Lineage from "./index";
+import type { LineageTraversal } from "../../utils/lineageGraph";
 
 // Mock variables for dynamic control
 let mockLineageSearchLinksStatus = "idle";
 let mockLineageSearchLinks: any = { sourceLinks: [], targetLinks: [] };
 let mockLineageEntryStatus = "idle";
 let mockLineageEntry: any = null;
+let mockLineageGraphStatus = "idle";
+let mockLineageGraph: LineageTraversal | null = null;
 
 const mockDispatch = vi.fn();
 
@@ -42,6 +45,9 @@ vi.mock("react-redux", () => ({
       lineage: {
         items: mockLineageSearchLinks,
         status: mockLineageSearchLinksStatus,
+        graph: mockLineageGraph,
+        graphStatus: mockLineageGraphStatus,
+        graphError: null,
       },
       entry: {
         lineageEntryItems: mockLineageEntry,
@@ -124,6 +130,11 @@ vi.mock("../../features/lineage/lineageSlice.ts", () => ({
     type: "lineage/fetchLineageSearchLinks",
     payload,
   })),
+  fetchLineageGraph: vi.fn((payload) => ({
+    type: "lineage/fetchLineageGraph",
+    payload,
+  })),
+  clearLineageGraph: vi.fn(() => ({ type: "lineage/clearLineageGraph" })),
 }));
 
 vi.mock("../../features/entry/entrySlice.ts", () => ({
@@ -419,6 +430,8 @@ describe("Lineage", () => {
     mockLineageSearchLinks = { sourceLinks: [], targetLinks: [] };
     mockLineageEntryStatus = "idle";
     mockLineageEntry = null;
+    mockLineageGraphStatus = "idle";
+    mockLineageGraph = null;
     mockIsFullscreen = false;
     vi.spyOn(console, "log").mockImplementation(() => {});
   });
@@ -1725,6 +1738,203 @@ describe("Lineage", () => {
   // Reset Graph Tests
   // ==========================================================================
 
+  describe("Multi-hop Lineage", () => {
+    const selectDepth = (label: string) => {
+      fireEvent.mouseDown(screen.getByRole("combobox", { name: "Lineage depth" }));
+      fireEvent.click(screen.getByRole("option", { name: label }));
+    };
+
+    it("dispatches fetchLineageGraph when more hops are selected", () => {
+      mockLineageSearchLinksStatus = "succeeded";
+      mockLineageSearchLinks = createMockLineageSearchLinks();
+      const entry = createMockEntry();
+      render(<Lineage entry={entry} />);
+
+      selectDepth("3 hops");
+
+      expect(mockDispatch).toHaveBeenCalledWith({
+        type: "lineage/fetchLineageGraph",
+        payload: expect.objectContaining({
+          parent: "projects/test-project/locations/us",
+          fqn: entry.fullyQualifiedName,
+          direction: "both",
+          depth: 3,
+        }),
+      });
+      expect(screen.getByRole("combobox", { name: "Lineage direction" })).toBeInTheDocument();
+    });
+
+    it("offers to cancel while the traversal runs", () => {
+      mockLineageSearchLinksStatus = "succeeded";
+      mockLineageSearchLinks = createMockLineageSearchLinks();
+      mockLineageGraphStatus = "loading";
+      render(<Lineage entry={createMockEntry()} />);
+
+      selectDepth("2 hops");
+
+      expect(screen.getByRole("progressbar")).toBeInTheDocument();
+      expect(screen.getByRole("button", { name: "Cancel" })).toBeInTheDocument();
+    });
+
+    it("renders the whole traversal at once", () => {
+      mockLineageSearchLinksStatus = "succeeded";
+      mockLineageSearchLinks = createMockLineageSearchLinks();
+      mockLineageGraphStatus = "loading";
+      const entry = createMockEntry();
+      const { rerender } = render(<Lineage entry={entry} />);
+      selectDepth("2 hops");
+
+      mockLineageGraphStatus = "succeeded";
+      mockLineageGraph = {
+        root: entry.fullyQualifiedName,
+        nodes: [
+          { fqn: entry.fullyQualifiedName, depth: 0, direction: "root" },
+          { fqn: "bigquery:test-project.dataset.upstream_table", depth: 1, direction: "upstream" },
+          { fqn: "bigquery:test-project.dataset.raw_table", depth: 2, direction: "upstream" },
+        ],
+        links: [
+          { ...createMockTargetLink(), depth: 1, direction: "upstream", cycle: false },
+          {
+            ...createMockTargetLink({
+              name: "projects/test/locations/us/links/link3",
+              source: { fullyQualifiedName: "bigquery:test-project.dataset.raw_table" },
+              target: { fullyQualifiedName: "bigquery:test-project.dataset.upstream_table" },
+            }),
+            depth: 2,
+            direction: "upstream",
+            cycle: false,
+          },
+        ],
+        truncated: true,
+      };
+      rerender(<Lineage entry={entry} />);
+
+      // 3 assets and 2 query nodes
+      expect(screen.getByTestId("lineage-chart-view")).toHaveAttribute("data-graph-count", "5");
+      expect(screen.getByText("Showing the nearest 3 assets")).toBeInTheDocument();
+    });
+
+    it("follows a column across the selected hops", () => {
+      mockLineageSearchLinksStatus = "succeeded";
+      mockLineageSearchLinks = createMockLineageSearchLinks();
+      const entry = createMockEntry();
+      const traversal: LineageTraversal = {
+        root: entry.fullyQualifiedName,
+        nodes: [
+          { fqn: entry.fullyQualifiedName, depth: 0, direction: "root" },
+          { fqn: "bigquery:test-project.dataset.upstream_table", depth: 1, direction: "upstream" },
+          { fqn: "bigquery:test-project.dataset.other_table", depth: 1, direction: "upstream" },
+        ],
+        links: [
+          { ...createMockTargetLink(), depth: 1, direction: "upstream", cycle: false },
+          {
+            ...createMockTargetLink({
+              name: "projects/test/locations/us/links/link3",
+              source: { fullyQualifiedName: "bigquery:test-project.dataset.other_table" },
+            }),
+            depth: 1,
+            direction: "upstream",
+            cycle: false,
+          },
+        ],
+        truncated: false,
+      };
+      mockLineageGraphStatus = "succeeded";
+      mockLineageGraph = traversal;
+      const { rerender } = render(<Lineage entry={entry} />);
+      selectDepth("2 hops");
+      mockDispatch.mockClear();
+
+      fireEvent.click(screen.getByTestId("fetch-column-lineage"));
+
+      expect(mockAxiosPost).not.toHaveBeenCalledWith("https://api.test.com/lineage-search-column", expect.anything());
+      expect(mockDispatch).toHaveBeenCalledWith({
+        type: "lineage/fetchLineageGraph",
+        payload: expect.objectContaining({ depth: 2, direction: "both", includeSchemas: true }),
+      });
+
+      mockLineageGraphStatus = "loading";
+      rerender(<Lineage entry={entry} />);
+      mockLineageGraphStatus = "succeeded";
+      mockLineageGraph = {
+        ...traversal,
+        schemas: {
+          [entry.fullyQualifiedName]: ["column1", "column2"],
+          "bigquery:test-project.dataset.upstream_table": ["COLUMN1"],
+          "bigquery:test-project.dataset.other_table": ["column2"],
+        },
+      };
+      rerender(<Lineage entry={entry} />);
+
+      // The root and the one table column1 comes from, joined by one column edge
+      expect(screen.getByTestId("lineage-chart-view")).toHaveAttribute("data-graph-count", "3");
+    });
+  });
+
+  describe("Time Travel", () => {
+    it("shows the graph as of a past window", () => {
+      mockLineageSearchLinksStatus = "succeeded";
+      mockLineageSearchLinks = createMockLineageSearchLinks({
+        targetLinks: [createMockTargetLink({ startTime: "2024-05-01T06:00:00Z", endTime: "2024-05-03T06:00:00Z" })],
+        sourceLinks: [createMockSourceLink({ startTime: "2024-05-01T06:00:00Z", endTime: "2024-05-30T06:00:00Z" })],
+      });
+      render(<Lineage entry={createMockEntry()} />);
+      expect(screen.getByTestId("lineage-chart-view")).toHaveAttribute("data-graph-count", "5");
+
+      fireEvent.click(screen.getByRole("button", { name: "Time travel" }));
+
+      // The last week only has the downstream link; the upstream one stopped
+      expect(screen.getByRole("group", { name: "Lineage time travel" })).toHaveTextContent("0 removed since");
+      expect(screen.getByTestId("lineage-chart-view")).toHaveAttribute("data-graph-count", "3");
+
+      fireEvent.click(screen.getByText("Show all time"));
+      expect(screen.queryByRole("group", { name: "Lineage time travel" })).not.toBeInTheDocument();
+      expect(screen.getByTestId("lineage-chart-view")).toHaveAttribute("data-graph-count", "5");
+    });
+
+    it("is not offered for links without timestamps", () => {
+      mockLineageSearchLinksStatus = "succeeded";
+      mockLineageSearchLinks = createMockLineageSearchLinks();
+      render(<Lineage entry={createMockEntry()} />);
+
+      expect(screen.queryByRole("button", { name: "Time travel" })).not.toBeInTheDocument();
+    });
+  });
+
+  describe("Graph Toolbar", () => {
+    it("hides assets by project in the graph and the list", () => {
+      mockLineageSearchLinksStatus = "succeeded";
+      mockLineageSearchLinks = createMockLineageSearchLinks({
+        targetLinks: [createMockTargetLink({ source: { fullyQualifiedName: "bigquery:other-project.dataset.upstream_table" } })],
+        sourceLinks: [createMockSourceLink({ source: { fullyQualifiedName: "bigquery:test-project.dataset.test_table" } })],
+      });
+      render(<Lineage entry={createMockEntry()} />);
+      expect(screen.getByTestId("lineage-chart-view")).toHaveAttribute("data-graph-count", "5");
+
+      fireEvent.click(screen.getByText("Filters"));
+      fireEvent.click(screen.getByRole("checkbox", { name: "Show project other-project" }));
+
+      // The upstream asset goes with the process reading from it
+      expect(screen.getByTestId("lineage-chart-view")).toHaveAttribute("data-graph-count", "3");
+
+      fireEvent.keyDown(screen.getByRole("menu"), { key: "Escape" });
+      fireEvent.click(screen.getByText("LIST"));
+      expect(screen.getByTestId("list-view")).toHaveAttribute("data-list-count", "1");
+    });
+
+    it("collapses process nodes into direct edges", () => {
+      mockLineageSearchLinksStatus = "succeeded";
+      mockLineageSearchLinks = createMockLineageSearchLinks();
+      render(<Lineage entry={createMockEntry()} />);
+
+      fireEvent.click(screen.getByRole("switch", { name: "Process nodes" }));
+
+      // Same number of items: each process is now an edge
+      expect(screen.getByTestId("lineage-chart-view")).toHaveAttribute("data-graph-count", "5");
+      expect(screen.getByRole("switch", { name: "Process nodes" })).not.toBeChecked();
+    });
+  });
+
   describe("Reset Graph", () => {
     it("resets graph to initial state", async () => {
       mockLineageSearchLinksStatus = "succeeded";
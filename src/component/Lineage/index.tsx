@@ -1,5 +1,5 @@
-import React, { useEffect, useState } from 'react';
-import { Box, ToggleButton, ToggleButtonGroup, CircularProgress, Tooltip } from '@mui/material';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Box, ToggleButton, ToggleButtonGroup, CircularProgress, Tooltip, Select, MenuItem, Button, Typography } from '@mui/material';
 import SideDetailsPanel from './SideDetailsPanel';
 import QueryPanel from './QueryPanel';
 import ListView from './ListView.tsx';
@@ -10,16 +10,37 @@ import ListView from './ListView.tsx';
 //import lineageGraphBg from '../../assets/svg/Lineage Graph.svg';
 import { useDispatch, useSelector } from 'react-redux';
 import { useAuth } from '../../auth/AuthProvider.tsx';
-import type { AppDispatch } from '../../app/store.ts';
-import { fetchLineageSearchLinks } from '../../features/lineage/lineageSlice.ts';
+import type { AppDispatch, RootState } from '../../app/store.ts';
+import { fetchLineageSearchLinks, fetchLineageGraph, clearLineageGraph } from '../../features/lineage/lineageSlice.ts';
 import { fetchLineageEntry } from '../../features/entry/entrySlice.ts';
 import { URLS } from '../../constants/urls.ts';
 import axios, { AxiosError } from 'axios';
 import LineageChartViewNew from './LineageChartViewNew.tsx';
-import { OpenInFull } from '@mui/icons-material';
+import LineageTimeTravelBar from './LineageTimeTravelBar.tsx';
+import LineageGraphToolbar, { type LineageFocus } from './LineageGraphToolbar.tsx';
+import { HistoryOutlined, OpenInFull } from '@mui/icons-material';
 import useFullScreenStatus from '../../hooks/useFullScreenStatus';
 import { useNoAccess } from '../../contexts/NoAccessContext';
 import { useNotification } from '../../contexts/NotificationContext.tsx';
+import { buildTraversalGraphData, buildTraversalListData, LINEAGE_DEPTH_OPTIONS, LINEAGE_DEFAULT_MAX_NODES, type LineageDirection } from '../../utils/lineageGraph.ts';
+import { buildColumnGraphData } from '../../utils/columnLineage.ts';
+import {
+  applyLineageTimeWindow,
+  filterLineageListData,
+  getDefaultTimeWindow,
+  getLineageTimeBounds,
+  getLineageTimeRange,
+  type LineageTimeWindow,
+} from '../../utils/lineageTimeTravel.ts';
+import {
+  collapseProcessNodes,
+  countHiddenFacets,
+  EMPTY_HIDDEN_FACETS,
+  filterLineageGraph,
+  filterLineageListRows,
+  findLineagePath,
+  type LineageHiddenFacets,
+} from '../../utils/lineageGraphView.ts';
 
 /**
  * @file index.tsx
@@ -45,6 +66,22 @@ import { useNotification } from '../../contexts/NotificationContext.tsx';
  * 4.  **State Management**: Manages the state for the current view mode,
  * zoom level, selected node, and the visibility and data for the
  * `SideDetailsPanel` and `QueryPanel`.
+ * 5.  **Multi-hop Lineage**: The header's depth and direction selects walk
+ * several hops at once by dispatching `fetchLineageGraph`; the whole
+ * neighbourhood is then rendered together (`utils/lineageGraph`). A running
+ * walk can be cancelled; 1 hop returns to the single-hop links above.
+ * 6.  **Column-level Lineage**: Above 1 hop, applying a column in the Lineage
+ * Explorer walks the same hops with the assets' schemas and renders
+ * column-to-column edges inside the table nodes (`utils/columnLineage`).
+ * 7.  **Time Travel**: The header's history button shows a date range
+ * slider; the graph and list then keep the links active in the chosen
+ * window and highlight the links added or removed since
+ * (`utils/lineageTimeTravel`).
+ * 8.  **Search, Filters and Focus**: A toolbar under the header finds and
+ * centres an asset, hides assets by system, project or entry type, dims
+ * everything off the path between two focused assets and collapses process
+ * nodes into direct edges; the list keeps the same rows
+ * (`utils/lineageGraphView`).
  *
  * @param {LineageProps} props - The props for the component.
  * @param {any} props.entry - The central data entry object for which to fetch
@@ -61,6 +98,17 @@ interface LineageProps {
   entry: any; // entry data
 }
 
+// fetchLineageGraph rejects with this shape on a 403
+const isPermissionDenied = (error: unknown): error is { type: 'PERMISSION_DENIED'; message?: string } =>
+  !!error && typeof error === 'object' && 'type' in error && error.type === 'PERMISSION_DENIED';
+
+const lineageSelectSx = {
+  height: '24px',
+  fontSize: '12px',
+  backgroundColor: 'var(--sys-surface)',
+  '& .MuiSelect-select': { padding: '2px 28px 2px 8px' },
+};
+
 const Lineage: React.FC<LineageProps> = ({entry}) => {
 
   const { user } = useAuth();
@@ -84,10 +132,27 @@ const Lineage: React.FC<LineageProps> = ({entry}) => {
   const [sidePanelDataStatus, setSidePanelDataStatus] = useState<string | undefined>('idle');
   const [queryPanelData, setQueryPanelData] = useState<any|null>(null);
   const [queryPanelDataStatus, setQueryPanelDataStatus] = useState<string | undefined>('idle');
+  const [depth, setDepth] = useState<number>(1);
+  const [traversalDirection, setTraversalDirection] = useState<LineageDirection>('both');
+  // Column traced by the multi-hop column graph; '' traces every column
+  const [tracedColumn, setTracedColumn] = useState<string | null>(null);
+  // Time travel window; null shows all time
+  const [timeWindow, setTimeWindow] = useState<LineageTimeWindow | null>(null);
+  // Graph toolbar
+  const [searchText, setSearchText] = useState('');
+  const [centeredNode, setCenteredNode] = useState<{ id: string; nonce: number } | null>(null);
+  const [hiddenFacets, setHiddenFacets] = useState<LineageHiddenFacets>(EMPTY_HIDDEN_FACETS);
+  const [focus, setFocus] = useState<LineageFocus>({ from: '', to: '' });
+  const [collapseProcesses, setCollapseProcesses] = useState(false);
+  // The running fetchLineageGraph promise, kept so it can be aborted
+  const traversalRequest = useRef<{ abort: () => void } | null>(null);
 
   // Select data from the Redux store
   const lineageSearchLinks = useSelector((state: any) => state.lineage.items);
   const lineageSearchLinksStatus = useSelector((state: any) => state.lineage.status);
+  const lineageGraph = useSelector((state: RootState) => state.lineage.graph);
+  const lineageGraphStatus = useSelector((state: RootState) => state.lineage.graphStatus);
+  const lineageGraphError = useSelector((state: RootState) => state.lineage.graphError);
 
   const lineageEntry = useSelector((state: any) => state.entry.lineageEntryItems);
   const lineageEntryStatus = useSelector((state: any) => state.entry.lineageEntrystatus);
@@ -97,6 +162,10 @@ const Lineage: React.FC<LineageProps> = ({entry}) => {
 
   useEffect(() => {
     dispatch(fetchLineageSearchLinks({parent : entry.name.split('/').slice(0,4).join("/"), fqn:entry.fullyQualifiedName, id_token: id_token}));
+    return () => {
+      traversalRequest.current?.abort();
+      dispatch(clearLineageGraph());
+    };
   }, []);
 
   useEffect(() => {
@@ -116,12 +185,8 @@ const Lineage: React.FC<LineageProps> = ({entry}) => {
     }
   }, [lineageEntry, lineageEntryStatus]);
 
-  useEffect(() => {
-    if (lineageSearchLinksStatus === 'loading') {
-      setGraphData([]);
-      setListData([]);
-    }
-    if (lineageSearchLinksStatus === 'succeeded') {
+  // Builds the graph and list from the direct links (fetchLineageSearchLinks)
+  const showSingleHopLineage = () => {
       let graph:any = [];
       let sourceGraph:any = [];
       let list:any = [];
@@ -259,9 +324,140 @@ const Lineage: React.FC<LineageProps> = ({entry}) => {
         }]
       );
       //setGraphData(data)
-    }   
+  };
+
+  useEffect(() => {
+    if (lineageSearchLinksStatus === 'loading') {
+      setGraphData([]);
+      setListData([]);
+    }
+    if (lineageSearchLinksStatus === 'succeeded' && depth === 1) {
+      showSingleHopLineage();
+    }
   }, [lineageSearchLinksStatus]);
 
+  useEffect(() => {
+    if (lineageGraphStatus === 'succeeded' && lineageGraph && depth > 1) {
+      const list = buildTraversalListData(lineageGraph);
+      setGraphData(lineageGraph.schemas && tracedColumn !== null
+        ? buildColumnGraphData(lineageGraph, entry, depth, tracedColumn || undefined)
+        : buildTraversalGraphData(lineageGraph, entry, depth));
+      setListData(list.length > 0 ? list : [{
+        id: 0,
+        sourceSystem: entry.fullyQualifiedName.split(':')[0],
+        sourceProject: entry.fullyQualifiedName.split(':')[1].split('.')[0],
+        source: entry.fullyQualifiedName.split('.').pop(),
+        sourceFQN: entry.fullyQualifiedName,
+        target: "",
+        targetProject: "",
+        targetSystem: "",
+        targetFQN: "",
+      }]);
+      setSelectedNode(null);
+    }
+    if (lineageGraphStatus === 'failed' || lineageGraphStatus === 'cancelled') {
+      if (lineageGraphStatus === 'failed') {
+        if (isPermissionDenied(lineageGraphError)) {
+          triggerNoAccess({ message: lineageGraphError.message });
+        } else {
+          showError('Failed to load multi-hop lineage', 3000);
+        }
+      }
+      // Fall back to the direct links
+      setDepth(1);
+      setTracedColumn(null);
+      if (lineageSearchLinksStatus === 'succeeded') showSingleHopLineage();
+    }
+    // Runs when a traversal settles; the view options it reads are set with the request
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [lineageGraphStatus]);
+
+  const fetchMultiHopLineage = (newDepth: number, newDirection: LineageDirection) => {
+    traversalRequest.current?.abort();
+    setTracedColumn(null);
+    setShowSidePanel(false);
+    setShowQueryPanel(false);
+    if (newDepth === 1) {
+      traversalRequest.current = null;
+      dispatch(clearLineageGraph());
+      if (lineageSearchLinksStatus === 'succeeded') showSingleHopLineage();
+      return;
+    }
+    traversalRequest.current = dispatch(fetchLineageGraph({
+      parent: entry.name.split('/').slice(0,4).join("/"),
+      fqn: entry.fullyQualifiedName,
+      direction: newDirection,
+      depth: newDepth,
+      maxNodes: LINEAGE_DEFAULT_MAX_NODES,
+      id_token: id_token,
+    }));
+  };
+
+  // Same walk as fetchMultiHopLineage, with the schemas for the column graph
+  const fetchMultiHopColumnLineage = (columnName: string | undefined, direction: LineageDirection) => {
+    traversalRequest.current?.abort();
+    setShowSidePanel(false);
+    setShowQueryPanel(false);
+    setTracedColumn(columnName ?? '');
+    traversalRequest.current = dispatch(fetchLineageGraph({
+      parent: entry.name.split('/').slice(0,4).join("/"),
+      fqn: entry.fullyQualifiedName,
+      direction,
+      depth,
+      maxNodes: LINEAGE_DEFAULT_MAX_NODES,
+      includeSchemas: true,
+      id_token: id_token,
+    }));
+  };
+
+  const handleDepthChange = (newDepth: number) => {
+    setDepth(newDepth);
+    fetchMultiHopLineage(newDepth, traversalDirection);
+  };
+
+  const handleTraversalDirectionChange = (newDirection: LineageDirection) => {
+    setTraversalDirection(newDirection);
+    fetchMultiHopLineage(depth, newDirection);
+  };
+
+  const handleCancelTraversal = () => {
+    traversalRequest.current?.abort();
+    traversalRequest.current = null;
+  };
+
+  const timeRange = useMemo(() => (graphData ? getLineageTimeRange(graphData) : null), [graphData]);
+  const timeTravel = useMemo(
+    () => (timeWindow && timeRange && graphData
+      ? applyLineageTimeWindow(graphData, timeWindow, getLineageTimeBounds(timeRange).max)
+      : null),
+    [graphData, timeWindow, timeRange]
+  );
+  const shownGraphData = useMemo(() => {
+    const data = timeTravel?.graphData ?? graphData;
+    if (!data) return data;
+    const filtered = filterLineageGraph(data, hiddenFacets);
+    return collapseProcesses ? collapseProcessNodes(filtered) : filtered;
+  }, [timeTravel, graphData, hiddenFacets, collapseProcesses]);
+  const focusPath = useMemo(
+    () => (focus.from && focus.to && shownGraphData ? findLineagePath(shownGraphData, focus.from, focus.to) : null),
+    [focus, shownGraphData]
+  );
+  const shownListData = useMemo(() => {
+    const rows = timeTravel && listData ? filterLineageListData(listData, timeTravel.graphData) : listData;
+    return rows && (countHiddenFacets(hiddenFacets) > 0 || focusPath)
+      ? filterLineageListRows(rows, shownGraphData, focusPath)
+      : rows;
+  }, [timeTravel, listData, hiddenFacets, focusPath, shownGraphData]);
+
+  const toggleTimeTravel = () => {
+    setTimeWindow((current) => (current || !timeRange ? null : getDefaultTimeWindow(timeRange)));
+  };
+
+  const isTraversing = depth > 1 && lineageGraphStatus === 'loading';
+  const isGraphReady = depth > 1
+    ? lineageGraphStatus === 'succeeded' && !!graphData
+    : lineageSearchLinksStatus === 'succeeded' && !!graphData;
+
   const handleToggleSidePanel = (data:any, showSchema:boolean = false) => {
     console.log("node data", data);
     if(data.id === selectedNode && showSidePanel) {
@@ -599,6 +795,10 @@ const Lineage: React.FC<LineageProps> = ({entry}) => {
   }
 
   const resetLineageGraph = () => {
+      if (depth > 1) {
+        fetchMultiHopLineage(depth, traversalDirection);
+        return;
+      }
       let graph:any = [];
       let sourceGraph:any = [];
       let sourceLinks:any = lineageSearchLinks.sourceLinks;
@@ -701,6 +901,10 @@ const Lineage: React.FC<LineageProps> = ({entry}) => {
 
   const fetchColumnLevelLineage = async (columnName:string|undefined, direction:'upstream' | 'downstream' | 'both') => {
     // Implement the logic to fetch column level lineage based on columnName and direction
+    if (depth > 1) {
+      fetchMultiHopColumnLineage(columnName, direction);
+      return;
+    }
     setIsColumnLineageLoading(true);
     console.log(`Fetching ${direction} lineage for column: ${columnName}`);
     //let graph:any = [];
@@ -810,7 +1014,7 @@ const Lineage: React.FC<LineageProps> = ({entry}) => {
           flex: '0 0 auto',
           padding: '0.5rem 1.25rem', 
           height: "2rem",
-          border: '1px solid #e0e0e0',
+          border: '1px solid var(--sys-divider)',
           borderBottom: 'none',
           display: 'flex',
           justifyContent: 'space-between',
@@ -838,7 +1042,7 @@ const Lineage: React.FC<LineageProps> = ({entry}) => {
                 display: 'flex',
                 alignItems: 'center',
                 flexShrink: 0,
-                backgroundColor: '#ffffff',
+                backgroundColor: 'var(--sys-surface)',
                 '& .MuiToggleButton-root': {
                   borderRadius: 0,
                   padding: '2px 6px',
@@ -864,16 +1068,16 @@ const Lineage: React.FC<LineageProps> = ({entry}) => {
                     // borderLeft: 'none',
                   },
                   '&.Mui-selected': {
-                    backgroundColor: '#E7F0FE',
-                    color: '#0B57D0',
-                    borderColor: '#0B57D0',
+                    backgroundColor: 'var(--sys-selected-container)',
+                    color: 'var(--sys-primary)',
+                    borderColor: 'var(--sys-primary)',
                     '&:hover': {
-                      backgroundColor: '#E7F0FE',
+                      backgroundColor: 'var(--sys-selected-container)',
                     }
                   },
                   '&:not(.Mui-selected)': {
                     backgroundColor: 'transparent',
-                    color: '#575757',
+                    color: 'var(--sys-on-surface-muted)',
                     '&:hover': {
                       backgroundColor: 'rgba(231, 240, 254, 0.5)',
                     }
@@ -884,6 +1088,37 @@ const Lineage: React.FC<LineageProps> = ({entry}) => {
               <ToggleButton value="graph" sx={{ typography: 'heading2Medium' }}>GRAPH</ToggleButton>
               <ToggleButton value="list" sx={{ typography: 'heading2Medium' }}>LIST</ToggleButton>
             </ToggleButtonGroup>
+            <Select
+              value={depth}
+              onChange={(e) => handleDepthChange(Number(e.target.value))}
+              size="small"
+              inputProps={{ 'aria-label': 'Lineage depth' }}
+              sx={lineageSelectSx}
+            >
+              {LINEAGE_DEPTH_OPTIONS.map((option) => (
+                <MenuItem key={option} value={option} sx={{ fontSize: '12px' }}>
+                  {option === 1 ? '1 hop' : `${option} hops`}
+                </MenuItem>
+              ))}
+            </Select>
+            {depth > 1 && (
+              <Select
+                value={traversalDirection}
+                onChange={(e) => handleTraversalDirectionChange(e.target.value as LineageDirection)}
+                size="small"
+                inputProps={{ 'aria-label': 'Lineage direction' }}
+                sx={lineageSelectSx}
+              >
+                <MenuItem value="both" sx={{ fontSize: '12px' }}>Upstream and downstream</MenuItem>
+                <MenuItem value="upstream" sx={{ fontSize: '12px' }}>Upstream</MenuItem>
+                <MenuItem value="downstream" sx={{ fontSize: '12px' }}>Downstream</MenuItem>
+              </Select>
+            )}
+            {depth > 1 && lineageGraphStatus === 'succeeded' && lineageGraph?.truncated && (
+              <Typography sx={{ fontSize: '12px', color: 'var(--sys-on-surface-muted)', whiteSpace: 'nowrap' }}>
+                Showing the nearest {lineageGraph.nodes.length} assets
+              </Typography>
+            )}
         </Box>
         
         
@@ -894,12 +1129,30 @@ const Lineage: React.FC<LineageProps> = ({entry}) => {
             flex: '0 0 auto',
             minWidth: 0
           }}>
+            {timeRange && (
+              <Tooltip title={timeWindow ? "Show all time" : "Time travel"}>
+                <HistoryOutlined
+                  role="button"
+                  titleAccess="Time travel"
+                  aria-pressed={!!timeWindow}
+                  sx={{
+                    fontSize: '1.25rem',
+                    color: timeWindow ? 'var(--sys-primary)' : 'var(--sys-on-surface-muted)',
+                    cursor: 'pointer',
+                    backgroundColor: timeWindow ? 'var(--sys-selected-container)' : 'var(--sys-surface-container)',
+                    borderRadius: '4px',
+                    padding: '0.125rem',
+                  }}
+                  onClick={toggleTimeTravel}
+                />
+              </Tooltip>
+            )}
             <Tooltip title={"View Fullscreen"}>
             <OpenInFull sx={{ 
                 fontSize: '1.25rem', 
-                color: '#575757', 
+                color: 'var(--sys-on-surface-muted)', 
                 cursor: 'pointer', 
-                backgroundColor: '#F5F5F5',
+                backgroundColor: 'var(--sys-surface-container-grey)',
                 borderRadius: '4px',
                 padding: '0.125rem',
               }}
@@ -909,13 +1162,41 @@ const Lineage: React.FC<LineageProps> = ({entry}) => {
           </Box>
       </Box>
 
+        {timeWindow && timeRange && timeTravel && (
+          <LineageTimeTravelBar
+            range={timeRange}
+            value={timeWindow}
+            onChange={setTimeWindow}
+            added={timeTravel.added}
+            removed={timeTravel.removed}
+            onClose={() => setTimeWindow(null)}
+          />
+        )}
+
+        {graphData && (
+          <LineageGraphToolbar
+            graphData={timeTravel?.graphData ?? graphData}
+            searchText={searchText}
+            onSearchTextChange={setSearchText}
+            onFind={(id) => setCenteredNode({ id, nonce: Date.now() })}
+            hidden={hiddenFacets}
+            onHiddenChange={setHiddenFacets}
+            focus={focus}
+            onFocusChange={setFocus}
+            focusFound={!!focusPath}
+            collapsed={collapseProcesses}
+            onCollapsedChange={setCollapseProcesses}
+            showCollapse={viewMode === 'graph'}
+          />
+        )}
+
         {/* Main Content Area */}
         <Box sx={{ 
           flex: '1 1 auto', 
           display: 'flex',
           overflow: 'hidden',
           marginTop: 0,
-          border: '1px solid #e0e0e0',
+          border: '1px solid var(--sys-divider)',
           borderBottomLeftRadius: '0.5rem',
           borderBottomRightRadius: '0.5rem',
           // backgroundImage: `radial-gradient(circle, #DADCE0 1px, transparent 1px)`,
@@ -941,7 +1222,7 @@ const Lineage: React.FC<LineageProps> = ({entry}) => {
                 overflow: 'hidden'
               }}>
                 {
-                  (lineageSearchLinksStatus === 'succeeded' && graphData) ? (
+                  isGraphReady ? (
                     <div id="lineageChartContainer" ref={elementRef} style={{
                         minHeight: "calc(100vh - 220px)",
                         // Fullscreen style: take up the entire viewport
@@ -953,13 +1234,13 @@ const Lineage: React.FC<LineageProps> = ({entry}) => {
                           height: '100vh', // 100% of viewport height
                           minHeight:'100vh',
                           zIndex: 9999,
-                          backgroundColor: '#fff',
+                          backgroundColor: 'var(--sys-surface)',
                         })
                       }}>
                       {/* <LineageChartView graphData={graphData} handleSidePanelToggle={(data:any) => handleToggleSidePanel(data)} handleQueryPanelToggle={(data:any) => handleToggleQueryPanel(data)} zoomLevel={zoomLevel} isSidePanelOpen={showSidePanel} selectedNode={selectedNode}/> */}
                       <LineageChartViewNew 
                         entry={entry}
-                        graphData={graphData} 
+                        graphData={shownGraphData} 
                         handleSidePanelToggle={(data:any, showSchema:boolean) => handleToggleSidePanel(data, showSchema)} 
                         handleQueryPanelToggle={(data:any) => handleToggleQueryPanel(data)} 
                         fetchLineageDownStream={(nodeData:any) => fetchLineageDownStream(nodeData)} 
@@ -973,6 +1254,9 @@ const Lineage: React.FC<LineageProps> = ({entry}) => {
                         isFullScreen={isFullscreen}
                         isColumnLineageLoading={isColumnLineageLoading} 
                         toggleFullScreen={toggleFullscreen}
+                        depth={depth}
+                        focusPath={focusPath}
+                        centeredNode={centeredNode}
                       /> 
                     </div>
                   ):(
@@ -984,13 +1268,22 @@ const Lineage: React.FC<LineageProps> = ({entry}) => {
                       width: '100%'
                     }}>
                       <CircularProgress/>
+                      {isTraversing && (
+                        <Button
+                          size="small"
+                          onClick={handleCancelTraversal}
+                          sx={{ marginLeft: '1rem', textTransform: 'none' }}
+                        >
+                          Cancel
+                        </Button>
+                      )}
                     </Box>
                   )
                 }
               </Box>
             </Box>
           ) : (
-            <ListView listData={listData} entry={entry}/>
+            <ListView listData={shownListData} entry={entry} searchText={searchText}/>
           )}
         </Box>
       </Box>
@@ -1005,7 +1298,7 @@ const Lineage: React.FC<LineageProps> = ({entry}) => {
           flexDirection: 'column',
           borderTopRightRadius: '0.5rem',
           borderBottomRightRadius: '0.5rem',
-          backgroundColor: '#ffffff',
+          backgroundColor: 'var(--sys-surface)',
           overflow: 'hidden',
           // marginBottom: '1rem'
         }}>
@@ -1032,7 +1325,7 @@ const Lineage: React.FC<LineageProps> = ({entry}) => {
           flexDirection: 'column',
           borderTopRightRadius: '0.5rem',
           borderBottomRightRadius: '0.5rem',
-          backgroundColor: '#ffffff',
+          backgroundColor: 'var(--sys-surface)',
           overflow: 'hidden'
         }}>
           <QueryPanel 
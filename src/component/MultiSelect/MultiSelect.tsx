@@ -329,7 +329,7 @@ const MultiSelect: React.FC<MultiSelectProps> = ({
           fontWeight: 500,
           fontSize: '14px',
           lineHeight: '1.43em',
-          color: '#1F1F1F',
+          color: 'var(--sys-on-surface)',
         }}
       >
         {label}
@@ -349,7 +349,7 @@ const MultiSelect: React.FC<MultiSelectProps> = ({
             height: '48px',
             '& .MuiOutlinedInput-root': {
               borderRadius: '8px',
-              border: '1px solid #575757',
+              border: '1px solid var(--sys-on-surface-muted)',
               '& fieldset': {
                 border: 'none',
               },
@@ -364,26 +364,26 @@ const MultiSelect: React.FC<MultiSelectProps> = ({
               fontWeight: 400,
               fontSize: '14px',
               lineHeight: '1.43em',
-              color: value.length === 0 ? '#575757' : '#1F1F1F',
+              color: value.length === 0 ? 'var(--sys-on-surface-muted)' : 'var(--sys-on-surface)',
               padding: '16px',
               display: 'flex',
               alignItems: 'center',
               justifyContent: 'space-between',
             },
             '& .MuiSelect-icon': {
-              color: '#1F1F1F',
+              color: 'var(--sys-on-surface)',
             },
           }}
           renderValue={() => {
             if (value.length === 0) {
               return (
-                <span style={{ color: '#575757' }}>
+                <span style={{ color: 'var(--sys-on-surface-muted)' }}>
                   {placeholder}
                 </span>
               );
             }
             return (
-              <span style={{ color: '#1F1F1F' }}>
+              <span style={{ color: 'var(--sys-on-surface)' }}>
                 {value.length} {label} selected
               </span>
             );
@@ -407,13 +407,13 @@ const MultiSelect: React.FC<MultiSelectProps> = ({
             {/* Left Panel */}
             <Box sx={{ 
               flex: 1, 
-              borderRight: '1px solid #DADCE0',
+              borderRight: '1px solid var(--sys-outline-variant)',
               display: 'flex',
               flexDirection: 'column'
             }}>
               {/* Search bar */}
               <Box sx={{ 
-                borderBottom: '1px solid #DADCE0', 
+                borderBottom: '1px solid var(--sys-outline-variant)', 
                 padding: '6.5px 16px',
                 display: 'flex',
                 alignItems: 'center',
@@ -428,12 +428,12 @@ const MultiSelect: React.FC<MultiSelectProps> = ({
                     indeterminate={selectAllState.indeterminate}
                     onChange={handleSelectAll}
                     sx={{
-                      color: selectAllState.checked || selectAllState.indeterminate ? '#0E4DCA' : '#575757',
+                      color: selectAllState.checked || selectAllState.indeterminate ? 'var(--sys-brand)' : 'var(--sys-on-surface-muted)',
                       '&.Mui-checked': {
-                        color: '#0E4DCA',
+                        color: 'var(--sys-brand)',
                       },
                       '&.MuiCheckbox-indeterminate': {
-                        color: '#0E4DCA',
+                        color: 'var(--sys-brand)',
                       },
                       width: '20px',
                       height: '20px',
@@ -441,7 +441,7 @@ const MultiSelect: React.FC<MultiSelectProps> = ({
                     }}
                   />
                 </Tooltip>
-                <Search sx={{ color: '#575757', fontSize: '16px' }} />
+                <Search sx={{ color: 'var(--sys-on-surface-muted)', fontSize: '16px' }} />
                 <TextField
                   placeholder={`Search for ${label === 'Products' ? 'products' : 'aspect types'}`}
                   value={searchTerm}
@@ -451,7 +451,7 @@ const MultiSelect: React.FC<MultiSelectProps> = ({
                   sx={{
                     '& .MuiInput-root': {
                       fontSize: '12px',
-                      color: '#575757',
+                      color: 'var(--sys-on-surface-muted)',
                       '&:before': { borderBottom: 'none' },
                       '&:after': { borderBottom: 'none' },
                       '&:hover:not(.Mui-disabled):before': { borderBottom: 'none' },
@@ -459,7 +459,7 @@ const MultiSelect: React.FC<MultiSelectProps> = ({
                     '& .MuiInput-input': {
                       padding: '0',
                       fontSize: '12px',
-                      color: '#575757',
+                      color: 'var(--sys-on-surface-muted)',
                     },
                   }}
                 />
@@ -478,7 +478,7 @@ const MultiSelect: React.FC<MultiSelectProps> = ({
                     sx={{
                       padding: '6px 16px',
                       '&:hover': {
-                        backgroundColor: '#F8F9FA',
+                        backgroundColor: 'var(--sys-background-neutral)',
                       },
                       cursor: 'pointer',
                     }}
@@ -494,7 +494,7 @@ const MultiSelect: React.FC<MultiSelectProps> = ({
                         sx={{
                           color: value.includes(option) ? '#0E4DCA' : '#575757',
                           '&.Mui-checked': {
-                            color: '#0E4DCA',
+                            color: 'var(--sys-brand)',
                           },
                           width: '20px',
                           height: '20px',
@@ -505,7 +505,7 @@ const MultiSelect: React.FC<MultiSelectProps> = ({
                           fontWeight: 400,
                           fontSize: '12px',
                           lineHeight: '1.33em',
-                          color: '#1F1F1F',
+                          color: 'var(--sys-on-surface)',
                           flex: 1,
                         }}
                       >
@@ -525,7 +525,7 @@ const MultiSelect: React.FC<MultiSelectProps> = ({
             }}>
               {/* Selected items header */}
               <Box sx={{ 
-                borderBottom: '1px solid #DADCE0', 
+                borderBottom: '1px solid var(--sys-outline-variant)', 
                 padding: '6px 16px',
                 display: 'flex',
                 justifyContent: 'space-between',
@@ -535,7 +535,7 @@ const MultiSelect: React.FC<MultiSelectProps> = ({
                   sx={{
                     fontWeight: 500,
                     fontSize: '12px',
-                    color: '#1F1F1F',
+                    color: 'var(--sys-on-surface)',
                   }}
                 >
                   {value.length} Selected
@@ -548,7 +548,7 @@ const MultiSelect: React.FC<MultiSelectProps> = ({
                   sx={{
                     fontWeight: 500,
                     fontSize: '12px',
-                    color: '#1F1F1F',
+                    color: 'var(--sys-on-surface)',
                     textTransform: 'none',
                     padding: '0',
                     minWidth: 'auto',
@@ -584,9 +584,9 @@ const MultiSelect: React.FC<MultiSelectProps> = ({
                         handleToggleOption(selectedValue);
                       }}
                       sx={{
-                        color: '#0E4DCA',
+                        color: 'var(--sys-brand)',
                         '&.Mui-checked': {
-                          color: '#0E4DCA',
+                          color: 'var(--sys-brand)',
                         },
                         width: '20px',
                         height: '20px',
@@ -597,7 +597,7 @@ const MultiSelect: React.FC<MultiSelectProps> = ({
                         fontWeight: 400,
                         fontSize: '12px',
                         lineHeight: '1.33em',
-                        color: '#1F1F1F',
+                        color: 'var(--sys-on-surface)',
                         flex: 1,
                       }}
                     >
@@ -611,7 +611,7 @@ const MultiSelect: React.FC<MultiSelectProps> = ({
                       fontWeight: 400,
                       fontSize: '12px',
                       lineHeight: '1.33em',
-                      color: '#575757',
+                      color: 'var(--sys-on-surface-muted)',
                       padding: '16px',
                       textAlign: 'center',
                       fontStyle: 'italic',
@@ -626,18 +626,18 @@ const MultiSelect: React.FC<MultiSelectProps> = ({
           
           {/* Footer with OK button */}
           <Box sx={{
-            borderTop: '1px solid #DADCE0',
+            borderTop: '1px solid var(--sys-outline-variant)',
             padding: '12px 16px',
             display: 'flex',
             justifyContent: 'flex-end',
-            backgroundColor: '#FAFAFA'
+            backgroundColor: 'var(--sys-background-grey)'
           }}>
             <Button
               onClick={() => setOpen(false)}
               size="small"
               sx={{
-                backgroundColor: '#0E4DCA',
-                color: '#FFFFFF',
+                backgroundColor: 'var(--sys-brand)',
+                color: 'var(--sys-on-primary)',
                 fontWeight: 500,
                 fontSize: '12px',
                 lineHeight: '1.33em',
@@ -669,7 +669,7 @@ const MultiSelect: React.FC<MultiSelectProps> = ({
             <Box
               key={selectedValue}
               sx={{
-                backgroundColor: '#F0F4F8',
+                backgroundColor: 'var(--sys-surface-container)',
                 borderRadius: '8px',
                 padding: '16px',
                 display: 'flex',
@@ -691,7 +691,7 @@ const MultiSelect: React.FC<MultiSelectProps> = ({
                   fontWeight: 530,
                   fontSize: '14px',
                   lineHeight: '1.43em',
-                  color: '#1F1F1F',
+                  color: 'var(--sys-on-surface)',
                   overflow: 'hidden',
                   textOverflow: 'ellipsis',
                   whiteSpace: 'nowrap',
@@ -704,7 +704,7 @@ const MultiSelect: React.FC<MultiSelectProps> = ({
                   fontSize: '12px',
                   lineHeight: '1.33em',
                   letterSpacing: '0.833%',
-                  color: '#1F1F1F'
+                  color: 'var(--sys-on-surface)'
                 }}>
                   {(() => {
                     // If the edit dropdown is open for this chip, show the current selection count
@@ -735,13 +735,13 @@ const MultiSelect: React.FC<MultiSelectProps> = ({
                   size="small"
                   onClick={() => handleEditChip(selectedValue)}
                   sx={{
-                    color: '#0B57D0',
+                    color: 'var(--sys-primary)',
                     padding: '2.5px',
                     width: '20px',
                     height: '20px',
                     marginLeft: 'auto',
                     '&:hover': {
-                      backgroundColor: '#FFFFFF',
+                      backgroundColor: 'var(--sys-surface)',
                     }
                   }}
                 >
@@ -772,20 +772,20 @@ const MultiSelect: React.FC<MultiSelectProps> = ({
                     justifyContent: 'space-between',
                     alignItems: 'center',
                     padding: '8px 12px 8px 16px',
-                    borderBottom: '1px solid #DADCE0'
+                    borderBottom: '1px solid var(--sys-outline-variant)'
                   }}>
                     <Typography sx={{
                       fontWeight: 500,
                       fontSize: '14px',
                       lineHeight: '1.43em',
-                      color: '#1F1F1F'
+                      color: 'var(--sys-on-surface)'
                     }}>
                       {editDropdownOpen} {label === 'Products' ? 'Assets' : 'Aspects'}
                     </Typography>
                     <IconButton
                       size="small"
                       onClick={handleCloseEditDropdown}
-                      sx={{ color: '#1F1F1F' }}
+                      sx={{ color: 'var(--sys-on-surface)' }}
                     >
                       <Close />
                     </IconButton>
@@ -797,7 +797,7 @@ const MultiSelect: React.FC<MultiSelectProps> = ({
                     alignItems: 'center',
                     gap: '8px',
                     padding: '8px 16px',
-                    borderBottom: '1px solid #DADCE0'
+                    borderBottom: '1px solid var(--sys-outline-variant)'
                   }}>
                     <Tooltip 
                       title={editSelectAllState.checked ? "Deselect all" : "Select all"} 
@@ -808,12 +808,12 @@ const MultiSelect: React.FC<MultiSelectProps> = ({
                         indeterminate={editSelectAllState.indeterminate}
                         onChange={handleEditSelectAll}
                         sx={{
-                          color: editSelectAllState.checked || editSelectAllState.indeterminate ? '#0E4DCA' : '#575757',
+                          color: editSelectAllState.checked || editSelectAllState.indeterminate ? 'var(--sys-brand)' : 'var(--sys-on-surface-muted)',
                           '&.Mui-checked': {
-                            color: '#0E4DCA',
+                            color: 'var(--sys-brand)',
                           },
                           '&.MuiCheckbox-indeterminate': {
-                            color: '#0E4DCA',
+                            color: 'var(--sys-brand)',
                           },
                           width: '20px',
                           height: '20px',
@@ -821,7 +821,7 @@ const MultiSelect: React.FC<MultiSelectProps> = ({
                         }}
                       />
                     </Tooltip>
-                    <Search sx={{ color: '#575757', fontSize: '16px' }} />
+                    <Search sx={{ color: 'var(--sys-on-surface-muted)', fontSize: '16px' }} />
                     <TextField
                       placeholder={`Search for ${editDropdownOpen} ${label === 'Products' ? 'Assets' : 'Aspects'}`}
                       value={editSearchTerm}
@@ -831,7 +831,7 @@ const MultiSelect: React.FC<MultiSelectProps> = ({
                       sx={{
                         '& .MuiInput-root': {
                           fontSize: '12px',
-                          color: '#575757',
+                          color: 'var(--sys-on-surface-muted)',
                           '&:before': { borderBottom: 'none' },
                           '&:after': { borderBottom: 'none' },
                           '&:hover:not(.Mui-disabled):before': { borderBottom: 'none' },
@@ -839,7 +839,7 @@ const MultiSelect: React.FC<MultiSelectProps> = ({
                         '& .MuiInput-input': {
                           padding: '0',
                           fontSize: '12px',
-                          color: '#575757',
+                          color: 'var(--sys-on-surface-muted)',
                         },
                       }}
                     />
@@ -867,7 +867,7 @@ const MultiSelect: React.FC<MultiSelectProps> = ({
                           sx={{
                             color: editSelectedValues.includes(option) ? '#0E4DCA' : '#575757',
                             '&.Mui-checked': {
-                              color: '#0E4DCA',
+                              color: 'var(--sys-brand)',
                             },
                             width: '20px',
                             height: '20px',
@@ -877,7 +877,7 @@ const MultiSelect: React.FC<MultiSelectProps> = ({
                           fontWeight: 400,
                           fontSize: '12px',
                           lineHeight: '1.33em',
-                          color: '#1F1F1F'
+                          color: 'var(--sys-on-surface)'
                         }}>
                           {option}
                         </Typography>
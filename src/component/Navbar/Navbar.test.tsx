@@ -47,7 +47,8 @@ vi.mock('react-redux', async () => {
       const mockState = {
         search: {
           searchTerm: '',
-          searchFilters: {},
+          searchType: 'All',
+          searchFilters: [],
           semanticSearch: false,
           isSearchFiltersOpen: false
         },
@@ -92,6 +93,11 @@ vi.mock('@react-oauth/google', () => ({
   GoogleOAuthProvider: ({ children }: any) => children,
 }));
 
+// Mock WatchlistInbox component
+vi.mock('./WatchlistInbox', () => ({
+  default: () => <div data-testid="watchlist-inbox">Notifications</div>,
+}));
+
 // Mock NotificationBar component
 vi.mock('../SearchPage/NotificationBar', () => ({
   default: function MockNotificationBar({ isVisible, onClose, onUndo, message }: any) {
@@ -186,6 +192,7 @@ describe('Navbar', () => {
     // Admin Panel icon is commented out in the actual component
     expect(screen.getByLabelText('Guide')).toBeInTheDocument();
     expect(screen.getByLabelText('Feedback')).toBeInTheDocument();
+    expect(screen.getByTestId('watchlist-inbox')).toBeInTheDocument();
   });
 
   it('renders search bar when searchBar prop is true', () => {
@@ -219,6 +226,25 @@ describe('Navbar', () => {
     expect(mockNavigate).toHaveBeenCalledWith('/guide');
   });
 
+  it('shows the admin panel entry to admins only', () => {
+    const { unmount } = renderNavbar();
+    expect(screen.queryByLabelText('Admin Panel')).not.toBeInTheDocument();
+    unmount();
+
+    render(
+      <Provider store={store}>
+        <BrowserRouter>
+          <AuthContext.Provider value={{ ...mockAuthContextValue, user: { ...mockUser, appConfig: { ...mockUser.appConfig, isAdmin: true } } }}>
+            <Navbar />
+          </AuthContext.Provider>
+        </BrowserRouter>
+      </Provider>
+    );
+    fireEvent.click(screen.getByLabelText('Admin Panel'));
+
+    expect(mockNavigate).toHaveBeenCalledWith('/admin-panel');
+  });
+
   it('opens feedback dialog when help icon is clicked', () => {
     renderNavbar();
 
@@ -300,7 +326,7 @@ describe('Navbar', () => {
     fireEvent.change(searchInput, { target: { value: 'test search' } });
     
     // The mock SearchBar calls handleSearchSubmit on change
-    expect(mockNavigate).toHaveBeenCalledWith('/search');
+    expect(mockNavigate).toHaveBeenCalledWith('/search?q=test+search&semantic=0');
   });
 
   it('does not navigate when searchNavigate is false', () => {
@@ -732,7 +758,7 @@ describe('Navbar', () => {
       const searchInput = screen.getByTestId('search-input');
       fireEvent.change(searchInput, { target: { value: 'test' } });
 
-      expect(mockNavigate).toHaveBeenCalledWith('/search');
+      expect(mockNavigate).toHaveBeenCalledWith('/search?q=test&semantic=0');
     });
 
     it('does not navigate when searchNavigate is false', () => {
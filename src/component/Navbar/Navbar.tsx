@@ -13,15 +13,22 @@ import MenuItem from '@mui/material/MenuItem';
 import './Navbar.css'
 import { Menu as MenuIcon } from '@mui/icons-material';
 import FeedbackOutlinedIcon from '@mui/icons-material/FeedbackOutlined';
+import AdminPanelSettings from '@mui/icons-material/AdminPanelSettings';
 import SearchBar from '../SearchBar/SearchBar';
 import { useDispatch, useSelector } from 'react-redux';
-import type { AppDispatch } from '../../app/store';
+import type { AppDispatch, RootState } from '../../app/store';
 import { searchResourcesByTerm } from '../../features/resources/resourcesSlice';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../../auth/AuthProvider';
+import { isAdminUser } from '../../auth/AdminRoute';
 import SendFeedback from './SendFeedback';
 import NotificationBar from '../SearchPage/NotificationBar';
 import UserAccountDropdown from './UserAccountDropdown';
+import WatchlistInbox from './WatchlistInbox';
+import { buildSearchUrl } from '../../utils/searchUrlState';
+import type { SearchFilter } from '../../utils/searchQuery';
+import { setSemanticSearch } from '../../features/search/searchSlice';
+import { useCommandActions } from '../../contexts/CommandPaletteContext';
 
 /**
  * @file Navbar.tsx
@@ -34,15 +41,20 @@ import UserAccountDropdown from './UserAccountDropdown';
  * visibility is controlled by the `searchBar` prop and its presence is
  * also dependent on the current route (e.g., hidden on '/admin-panel').
  * 3.  **Navigation**: Desktop icons (and a mobile menu) for "Guide" and "Help"
- * that navigate to their respective pages.
+ * that navigate to their respective pages, and for the "Admin Panel" when
+ * `/app-configs` reported the user as an admin.
+ * The desktop icons also include the notifications inbox (`WatchlistInbox`),
+ * which lists changes detected on the user's favorites.
  * 4.  **User Menu**: A user avatar that, when clicked, opens a dropdown menu
  * with navigation links (e.g., "Home") and a "SignOut" option (which
  * calls the `logout` function from the `useAuth` context).
  *
  * When a search is submitted via the `SearchBar` (triggering `handleNavSearch`),
  * the component dispatches a Redux action (`searchResourcesByTerm`) to fetch
- * results. It will also navigate to the '/search' page if the
- * `searchNavigate` prop is true.
+ * results. It will also navigate to the '/search' page (with the search
+ * encoded in the URL) if the `searchNavigate` prop is true.
+ *
+ * It also adds a "Turn on/off semantic search" command to the command palette.
  *
  * @param {NavBarProps} props - The props for the component.
  * @param {boolean} [props.searchBar=false] - (Optional) If true, the
@@ -81,6 +93,8 @@ const Navbar: React.FC<NavBarProps> = ({ searchBar = false, searchNavigate = tru
   const [openFeedback, setOpenFeedback] = React.useState<boolean>(false);
   const searchFilters = useSelector((state:any) => state.search.searchFilters);
   const semanticSearch = useSelector((state:any) => state.search.semanticSearch);
+  const searchType = useSelector((state: RootState) => state.search.searchType);
+  const searchTerm = useSelector((state: RootState) => state.search.searchTerm);
   const id_token = user?.token || '';
   const [isNotificationVisible, setIsNotificationVisible] = React.useState<boolean>(false);
   const [notificationMessage, setNotificationMessage] = React.useState<string>('');
@@ -174,12 +188,29 @@ const Navbar: React.FC<NavBarProps> = ({ searchBar = false, searchNavigate = tru
   };
 
 
-  const handleNavSearch = (text: string) => {
+  const handleNavSearch = (text: string, filters: SearchFilter[] = searchFilters) => {
     dispatch({ type: 'resources/setItemsStoreData', payload: [] });
-    dispatch(searchResourcesByTerm({term : text, id_token: id_token, filters: searchFilters, semanticSearch: semanticSearch}));
-    searchNavigate && navigate('/search');
+    dispatch(searchResourcesByTerm({term : text, id_token: id_token, filters: filters, semanticSearch: semanticSearch}));
+    if (searchNavigate) navigate(buildSearchUrl({ term: text, searchType, filters, semanticSearch }));
   }
 
+  // On the search page the current results are re-fetched with the new mode
+  const handleToggleSemanticSearch = () => {
+    const nextSemanticSearch = !semanticSearch;
+    dispatch(setSemanticSearch({ semanticSearch: nextSemanticSearch }));
+    if (isOnSearchPage && ((searchTerm ?? '').trim() !== '' || (searchFilters ?? []).length > 0)) {
+      dispatch({ type: 'resources/setItemsStoreData', payload: [] });
+      dispatch(searchResourcesByTerm({term : searchTerm ?? '', id_token: id_token, filters: searchFilters ?? [], semanticSearch: nextSemanticSearch}));
+    }
+  };
+
+  useCommandActions([{
+    id: 'search:toggleSemanticSearch',
+    label: semanticSearch ? 'Turn off semantic search' : 'Turn on semantic search',
+    keywords: ['semantic', 'natural language', 'search mode'],
+    run: handleToggleSemanticSearch,
+  }]);
+
   return (<>
     <AppBar position="static" sx={{
       background: mode === 'dark' ? '#131314' : '#FFFFFF',
@@ -284,12 +315,14 @@ const Navbar: React.FC<NavBarProps> = ({ searchBar = false, searchNavigate = tru
               onClose={handleCloseNavMenu}
               sx={{ display: { xs: 'block', md: 'none' } }}
             >
-              {/* <MenuItem onClick={() => { handleCloseNavMenu(); navigate('/admin-panel'); }}>
-                <Box sx={{ display: 'flex', alignItems: 'center', gap: "0.5rem" }}>
-                  <AdminPanelSettings sx={{ fontSize: "1.25rem", color: "#5F6367" }} />
-                  <Typography sx={{ fontSize: "0.875rem", fontWeight: 500 }}>Admin Panel</Typography>
-                </Box>
-              </MenuItem> */}
+              {isAdminUser(user) && (
+                <MenuItem onClick={() => { handleCloseNavMenu(); navigate('/admin-panel'); }}>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: "0.5rem" }}>
+                    <AdminPanelSettings sx={{ fontSize: "1.25rem", color: mode === 'dark' ? '#c4c7c5' : '#444746' }} />
+                    <Typography sx={{ fontSize: "0.875rem", fontWeight: 500 }}>Admin Panel</Typography>
+                  </Box>
+                </MenuItem>
+              )}
               <MenuItem onClick={()=>{handleCloseNavMenu(); navigate('/guide')}}>
                 <Box sx={{ display: 'flex', alignItems: 'center', gap: "0.5rem" }}>
                   <span className="material-symbols-outlined" style={{ fontSize: '24px', color: mode === 'dark' ? '#c4c7c5' : '#444746', fontVariationSettings: "'FILL' 1" }}>menu_book</span>
@@ -342,21 +375,22 @@ const Navbar: React.FC<NavBarProps> = ({ searchBar = false, searchNavigate = tru
               gap: "0px",
               height: "2.125rem" // 34px
             }}>
-              {/* <Tooltip title="Admin Panel">
-                <IconButton 
-                  onClick={() => navigate('/admin-panel')}
-                  sx={{ 
-                    p: 0, 
-                    width: "1.5rem", // 24px
-                    height: "1.5rem" // 24px
-                  }}
-                >
-                  <AdminPanelSettings sx={{ 
-                    fontSize: "1.5rem", 
-                    color: "#5F6367" 
-                  }} />
-                </IconButton>
-              </Tooltip> */}
+              {isAdminUser(user) && (
+                <Tooltip title="Admin Panel" slotProps={{ popper: { modifiers: [{ name: 'offset', options: { offset: [0, -10] } }] } }}>
+                  <IconButton sx={{
+                      p: 0,
+                      width: '40px',
+                      height: '40px',
+                      borderRadius: '50%',
+                      transition: 'background-color 0.2s',
+                      '&:hover': { backgroundColor: mode === 'dark' ? 'rgba(255, 255, 255, 0.08)' : '#e1e1e1' },
+                    }}
+                    onClick={() => navigate('/admin-panel')}
+                  >
+                    <AdminPanelSettings sx={{ fontSize: '24px', color: mode === 'dark' ? '#c4c7c5' : '#444746' }} />
+                  </IconButton>
+                </Tooltip>
+              )}
               <Tooltip title="Guide" slotProps={{ popper: { modifiers: [{ name: 'offset', options: { offset: [0, -10] } }] } }}>
                 <IconButton sx={{
                     p: 0,
@@ -371,18 +405,7 @@ const Navbar: React.FC<NavBarProps> = ({ searchBar = false, searchNavigate = tru
                   <span className="material-symbols-outlined" style={{ fontSize: '24px', color: mode === 'dark' ? '#c4c7c5' : '#444746', fontVariationSettings: "'FILL' 1" }}>menu_book</span>
                 </IconButton>
               </Tooltip>
-              {/* <Tooltip title="Notification">
-                <IconButton sx={{
-                  p: 0,
-                  width: "1.5rem", // 24px
-                  height: "1.5rem" // 24px
-                }}>
-                  <NotificationsNone sx={{
-                    fontSize: "1.5rem",
-                    color: "#5F6367"
-                  }} />
-                </IconButton>
-              </Tooltip> */}
+              <WatchlistInbox />
               <Tooltip title="Feedback" slotProps={{ popper: { modifiers: [{ name: 'offset', options: { offset: [0, -10] } }] } }}>
                 <IconButton sx={{
                     p: 0,
@@ -117,7 +117,7 @@ return (
       PaperProps={{
         sx: {
           width: '500px',
-          backgroundColor: '#FFFFFF',
+          backgroundColor: 'var(--sys-surface)',
           boxShadow: '-4px 0px 8px rgba(0, 0, 0, 0.1)',
         }
       }}
@@ -129,7 +129,7 @@ return (
         right: isOpen ? 0 : '-500px',
         width: '500px',
         height: '100vh',
-        backgroundColor: '#FFFFFF',
+        backgroundColor: 'var(--sys-surface)',
         boxShadow: '-4px 0px 8px rgba(0, 0, 0, 0.1)',
         zIndex: 1300,
         transition: 'right 0.3s ease-in-out',
@@ -146,7 +146,7 @@ return (
           alignItems: 'center',
           gap: '8.75rem', /* 140px */
           padding: '20px 24px',
-          borderBottom: '1px solid #DADCE0',
+          borderBottom: '1px solid var(--sys-outline-variant)',
           width: '31.1875rem' /* 499px */
         }}
       >
@@ -156,7 +156,7 @@ return (
             fontFamily: 'Google Sans',
             fontSize: '1.125rem', /* 18px */
             fontWeight: '500',
-            color: '#1F1F1F',
+            color: 'var(--sys-on-surface-strong)',
             lineHeight: '1.333em',
             textAlign: 'left'
           }}
@@ -168,7 +168,7 @@ return (
           sx={{
             width: '1.5rem', /* 24px */
             height: '1.5rem', /* 24px */
-            color: '#202124',
+            color: 'var(--sys-on-surface)',
             padding: 0,
             '&:hover': {
               backgroundColor: 'transparent'
@@ -198,7 +198,7 @@ return (
             sx={{
               fontSize: '14px',
               fontWeight: '500',
-              color: '#1F1F1F',
+              color: 'var(--sys-on-surface)',
               marginBottom: '12px'
             }}
           >
@@ -208,7 +208,7 @@ return (
             sx={{
               fontSize: '14px',
               fontWeight: '400',
-              color: '#575757',
+              color: 'var(--sys-on-surface-muted)',
               lineHeight: '1.5',
               marginBottom: '16px'
             }}
@@ -221,7 +221,7 @@ return (
             sx={{
               fontSize: '14px',
               fontWeight: '500',
-              color: '#1F1F1F',
+              color: 'var(--sys-on-surface)',
               marginBottom: '12px'
             }}
           >
@@ -239,21 +239,21 @@ return (
               '& .MuiOutlinedInput-root': {
                 fontSize: '14px',
                 '& fieldset': {
-                  borderColor: '#DADCE0',
+                  borderColor: 'var(--sys-outline-variant)',
                   borderRadius: '8px'
                 },
                 '&:hover fieldset': {
                   borderColor: '#B8B8B8'
                 },
                 '&.Mui-focused fieldset': {
-                  borderColor: '#0E4DCA'
+                  borderColor: 'var(--sys-brand)'
                 }
               },
               '& .MuiInputBase-input': {
                 fontFamily: '"Google Sans Text", sans-serif',
                 fontWeight: '400',
                 fontSize: '14px',
-                color: '#1F1F1F'
+                color: 'var(--sys-on-surface)'
               }
             }}
           />
@@ -274,12 +274,12 @@ return (
           sx={{
             fontSize: '14px',
             fontWeight: '500',
-            color: '#575757',
+            color: 'var(--sys-on-surface-muted)',
             textTransform: 'none',
             borderRadius: '100px',
             padding: '8px 16px',
             '&:hover': {
-              backgroundColor: '#F5F5F5'
+              backgroundColor: 'var(--sys-surface-container-grey)'
             }
           }}
         >
@@ -292,18 +292,18 @@ return (
             if(contactEmails.length > 0 && message.length > 0) handleSubmit();
           }}
           variant="contained"
-          style={{color: '#FFFFFF',backgroundColor: '#0E4DCA'}}
+          style={{color: 'var(--sys-on-primary)',backgroundColor: 'var(--sys-brand)'}}
           sx={{
             fontSize: '14px',
             fontWeight: '500',
-            backgroundColor: contactEmails.length > 0 ? '#0E4DCA' : '#A0A0A0',
-            color: '#FFFFFF',
+            backgroundColor: contactEmails.length > 0 ? 'var(--sys-brand)' : '#A0A0A0',
+            color: 'var(--sys-on-primary)',
             textTransform: 'none',
             borderRadius: '100px',
             padding: '8px 16px',
             opacity:  1,
             '&:hover': {
-              backgroundColor: contactEmails.length > 0 ? '#0B3DA8' : '#A0A0A0'
+              backgroundColor: contactEmails.length > 0 ? 'var(--sys-brand-strong)' : '#A0A0A0'
             }
           }}
         >
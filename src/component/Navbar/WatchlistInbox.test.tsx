@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import WatchlistInbox from './WatchlistInbox';
+import type { WatchlistInboxItem } from '../../features/watchlist/watchlistSlice';
+
+const makeItem = (id: string, overrides: Partial<WatchlistInboxItem> = {}): WatchlistInboxItem => ({
+  id,
+  entryName: `projects/p/locations/us/entryGroups/g/entries/${id}`,
+  displayName: `table-${id}`,
+  changes: [{ kind: 'schemaFieldRemoved', subject: 'amount', from: 'NUMERIC' }],
+  detectedAt: '2024-05-01T00:00:00Z',
+  read: false,
+  ...overrides,
+});
+
+let mockInbox: WatchlistInboxItem[] = [];
+const mockDispatch = vi.fn();
+const mockNavigate = vi.fn();
+
+vi.mock('react-redux', () => ({
+  useDispatch: () => mockDispatch,
+  useSelector: (selector: (state: { user: { mode: string }; watchlist: { inbox: WatchlistInboxItem[] } }) => unknown) => selector({ user: { mode: 'light' }, watchlist: { inbox: mockInbox } }),
+}));
+
+vi.mock('react-router-dom', () => ({
+  useNavigate: () => mockNavigate,
+}));
+
+vi.mock('../../auth/AuthProvider', () => ({
+  useAuth: () => ({ user: { token: 'test-token' } }),
+}));
+
+vi.mock('../../features/watchlist/watchlistSlice', () => ({
+  markInboxRead: vi.fn((params) => ({ type: 'watchlist/markInboxRead', payload: params })),
+  clearInbox: vi.fn((params) => ({ type: 'watchlist/clearInbox', payload: params })),
+}));
+
+vi.mock('../../features/entry/entrySlice', () => ({
+  clearHistory: vi.fn(() => ({ type: 'entry/clearHistory' })),
+  fetchEntry: vi.fn((params) => ({ type: 'entry/fetchEntry', payload: params })),
+}));
+
+describe('WatchlistInbox', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockInbox = [];
+  });
+
+  it('counts the unread items on the bell', () => {
+    mockInbox = [makeItem('a'), makeItem('b'), makeItem('c', { read: true })];
+    render(<WatchlistInbox />);
+
+    expect(screen.getByLabelText('Notifications, 2 unread')).toBeInTheDocument();
+    expect(screen.getByText('2')).toBeInTheDocument();
+  });
+
+  it('shows a hint when there are no changes', () => {
+    render(<WatchlistInbox />);
+    fireEvent.click(screen.getByLabelText('Notifications'));
+
+    expect(screen.getByText(/No changes yet/)).toBeInTheDocument();
+    expect(screen.getByText('Clear')).toBeDisabled();
+  });
+
+  it('lists the changes of each item', () => {
+    mockInbox = [
+      makeItem('a', {
+        changes: [
+          { kind: 'schemaFieldAdded', subject: 'c1', to: 'STRING' },
+          { kind: 'schemaFieldAdded', subject: 'c2', to: 'STRING' },
+          { kind: 'schemaFieldAdded', subject: 'c3', to: 'STRING' },
+          { kind: 'dqScoreChanged', from: 95, to: 80 },
+        ],
+      }),
+    ];
+    render(<WatchlistInbox />);
+    fireEvent.click(screen.getByLabelText('Notifications, 1 unread'));
+
+    expect(screen.getByText('table-a')).toBeInTheDocument();
+    expect(screen.getByText('Column c1 added (STRING)')).toBeInTheDocument();
+    expect(screen.getByText('and 1 more')).toBeInTheDocument();
+  });
+
+  it('marks an item read and opens the entry', () => {
+    const item = makeItem('a');
+    mockInbox = [item];
+    render(<WatchlistInbox />);
+    fireEvent.click(screen.getByLabelText('Notifications, 1 unread'));
+    fireEvent.click(screen.getByTestId('watchlist-item-a'));
+
+    expect(mockDispatch).toHaveBeenCalledWith({
+      type: 'watchlist/markInboxRead',
+      payload: { id_token: 'test-token', ids: ['a'] },
+    });
+    expect(mockDispatch).toHaveBeenCalledWith({
+      type: 'entry/fetchEntry',
+      payload: { entryName: item.entryName, id_token: 'test-token' },
+    });
+    expect(mockNavigate).toHaveBeenCalledWith('/view-details');
+  });
+
+  it('marks all items read and clears the inbox', () => {
+    mockInbox = [makeItem('a')];
+    render(<WatchlistInbox />);
+    fireEvent.click(screen.getByLabelText('Notifications, 1 unread'));
+
+    fireEvent.click(screen.getByText('Mark all as read'));
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'watchlist/markInboxRead', payload: { id_token: 'test-token' } });
+
+    fireEvent.click(screen.getByText('Clear'));
+    expect(mockDispatch).toHaveBeenCalledWith({ type: 'watchlist/clearInbox', payload: { id_token: 'test-token' } });
+  });
+});
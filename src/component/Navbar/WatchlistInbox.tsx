@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { Badge, Box, Button, IconButton, Popover, Tooltip, Typography } from '@mui/material';
+import { NotificationsNone } from '@mui/icons-material';
+import { useDispatch, useSelector } from 'react-redux';
+import { useNavigate } from 'react-router-dom';
+import type { AppDispatch, RootState } from '../../app/store';
+import { useAuth } from '../../auth/AuthProvider';
+import { clearHistory, fetchEntry } from '../../features/entry/entrySlice';
+import { clearInbox, markInboxRead, type WatchlistInboxItem } from '../../features/watchlist/watchlistSlice';
+import { describeWatchChange } from '../../utils/watchlistDiff';
+
+/**
+ * @file WatchlistInbox.tsx
+ * @description
+ * Navbar bell listing the changes detected on the user's favorites (schema
+ * columns, aspects, data quality score; see `useWatchlist`). The badge counts
+ * unread items. Clicking an item marks it read and opens the entry's details;
+ * the inbox is kept on the backend until the user clears it.
+ */
+
+// Changes listed per item before collapsing the rest into "and N more".
+const MAX_CHANGES_SHOWN = 3;
+
+const WatchlistInbox: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const mode = useSelector((state: RootState) => state.user.mode);
+  const inbox: WatchlistInboxItem[] = useSelector((state: RootState) => state.watchlist.inbox);
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const id_token = user?.token || '';
+  const unreadCount = inbox.filter((item) => !item.read).length;
+  const textColor = mode === 'dark' ? '#e3e3e3' : '#1F1F1F';
+  const secondaryColor = mode === 'dark' ? '#9aa0a6' : '#575757';
+
+  const openItem = (item: WatchlistInboxItem) => {
+    if (!item.read) dispatch(markInboxRead({ id_token, ids: [item.id] }));
+    setAnchorEl(null);
+    dispatch(clearHistory());
+    dispatch(fetchEntry({ entryName: item.entryName, id_token }));
+    navigate('/view-details');
+  };
+
+  const renderItem = (item: WatchlistInboxItem) => {
+    const hidden = item.changes.length - MAX_CHANGES_SHOWN;
+    return (
+      <Box
+        key={item.id}
+        component="li"
+        role="button"
+        tabIndex={0}
+        data-testid={`watchlist-item-${item.id}`}
+        onClick={() => openItem(item)}
+        onKeyDown={(e: React.KeyboardEvent) => { if (e.key === 'Enter') openItem(item); }}
+        sx={{
+          listStyle: 'none',
+          padding: '10px 16px',
+          cursor: 'pointer',
+          borderLeft: `3px solid ${item.read ? 'transparent' : '#0B57D0'}`,
+          backgroundColor: item.read ? 'transparent' : (mode === 'dark' ? 'rgba(138, 180, 248, 0.08)' : '#F0F4F9'),
+          '&:hover': { backgroundColor: mode === 'dark' ? 'rgba(255, 255, 255, 0.08)' : '#e9eef6' },
+        }}
+      >
+        <Typography sx={{ fontSize: '14px', fontWeight: item.read ? 400 : 500, color: textColor }}>
+          {item.displayName || item.entryName.split('/').pop()}
+        </Typography>
+        {item.changes.slice(0, MAX_CHANGES_SHOWN).map((change, index) => (
+          <Typography key={index} sx={{ fontSize: '12px', color: secondaryColor }}>
+            {describeWatchChange(change)}
+          </Typography>
+        ))}
+        {hidden > 0 && (
+          <Typography sx={{ fontSize: '12px', color: secondaryColor }}>and {hidden} more</Typography>
+        )}
+        <Typography sx={{ fontSize: '11px', color: secondaryColor, marginTop: '2px' }}>
+          {new Date(item.detectedAt).toLocaleString()}
+        </Typography>
+      </Box>
+    );
+  };
+
+  return (
+    <>
+      <Tooltip title="Notifications" slotProps={{ popper: { modifiers: [{ name: 'offset', options: { offset: [0, -10] } }] } }}>
+        <IconButton
+          aria-label={unreadCount > 0 ? `Notifications, ${unreadCount} unread` : 'Notifications'}
+          onClick={(e) => setAnchorEl(e.currentTarget)}
+          sx={{
+            p: 0,
+            width: '40px',
+            height: '40px',
+            borderRadius: '50%',
+            transition: 'background-color 0.2s',
+            '&:hover': { backgroundColor: mode === 'dark' ? 'rgba(255, 255, 255, 0.08)' : '#e1e1e1' },
+          }}
+        >
+          <Badge badgeContent={unreadCount} color="error" max={99}>
+            <NotificationsNone sx={{ fontSize: '24px', color: mode === 'dark' ? '#c4c7c5' : '#444746' }} />
+          </Badge>
+        </IconButton>
+      </Tooltip>
+      <Popover
+        open={Boolean(anchorEl)}
+        anchorEl={anchorEl}
+        onClose={() => setAnchorEl(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+        transformOrigin={{ vertical: 'top', horizontal: 'right' }}
+        slotProps={{ paper: { sx: { width: '360px', maxHeight: '480px', borderRadius: '12px', display: 'flex', flexDirection: 'column' } } }}
+      >
+        <Typography sx={{ fontSize: '16px', fontWeight: 500, color: textColor, padding: '12px 16px 4px' }}>
+          Changes to your favorites
+        </Typography>
+        <Box sx={{ display: 'flex', gap: '4px', padding: '0 8px 8px' }}>
+          <Button
+            size="small"
+            disabled={unreadCount === 0}
+            onClick={() => dispatch(markInboxRead({ id_token }))}
+            sx={{ textTransform: 'none' }}
+          >
+            Mark all as read
+          </Button>
+          <Button
+            size="small"
+            disabled={inbox.length === 0}
+            onClick={() => dispatch(clearInbox({ id_token }))}
+            sx={{ textTransform: 'none' }}
+          >
+            Clear
+          </Button>
+        </Box>
+        {inbox.length === 0 ? (
+          <Typography sx={{ fontSize: '14px', color: secondaryColor, padding: '8px 16px 16px' }}>
+            No changes yet. Schema, aspect and data quality changes on your favorites show up here.
+          </Typography>
+        ) : (
+          <Box component="ul" aria-label="Changes to your favorites" sx={{ margin: 0, padding: 0, overflowY: 'auto' }}>
+            {inbox.map(renderItem)}
+          </Box>
+        )}
+      </Popover>
+    </>
+  );
+};
+
+export default WatchlistInbox;
@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { Button, Dialog, DialogActions, DialogContent, DialogTitle, TextField, Typography } from '@mui/material';
+import { useDispatch, useSelector } from 'react-redux';
+import type { AppDispatch, RootState } from '../../app/store';
+import { useAuth } from '../../auth/AuthProvider';
+import { useNotification } from '../../contexts/NotificationContext';
+import { createSavedSearch, type SavedSearchInput } from '../../features/savedSearches/savedSearchesSlice';
+
+/**
+ * @file SaveSearchDialog.tsx
+ * @description
+ * Dialog that asks for a name and saves the current search (term, search
+ * type, filters) to the backend via `createSavedSearch`. The current result
+ * count is stored with it, so the first re-run already shows a delta.
+ *
+ * @param {SaveSearchDialogProps} props
+ * @param {boolean} props.open - Whether the dialog is shown.
+ * @param {() => void} props.onClose - Called on cancel and after saving.
+ * @param {Omit<SavedSearchInput, 'name'>} props.search - The search to save.
+ * @param {number} [props.resultCount] - Total results of the current search.
+ */
+
+interface SaveSearchDialogProps {
+  open: boolean;
+  onClose: () => void;
+  search: Omit<SavedSearchInput, 'name'>;
+  resultCount?: number;
+}
+
+const defaultName = (search: Omit<SavedSearchInput, 'name'>) => {
+  if (search.term.trim() !== '') return search.term.trim();
+  return `${search.filters.length} filter${search.filters.length === 1 ? '' : 's'}`;
+};
+
+const SaveSearchDialog: React.FC<SaveSearchDialogProps> = ({ open, onClose, search, resultCount }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const { user } = useAuth();
+  const { showSuccess, showError } = useNotification();
+  const mode = useSelector((state: RootState) => state.user.mode);
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setName(defaultName(search));
+    // Only when the dialog opens; the name the user types is kept while the search updates
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await dispatch(createSavedSearch({
+        id_token: user?.token || '',
+        search: { ...search, name: name.trim() },
+        resultCount,
+      })).unwrap();
+      showSuccess(`Saved search "${name.trim()}"`);
+      onClose();
+    } catch (error) {
+      showError(typeof error === 'string' ? error : 'Failed to save search');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="xs"
+      fullWidth
+      sx={{ '& .MuiDialog-paper': { borderRadius: '12px', padding: '24px', backgroundColor: mode === 'dark' ? '#282a2c' : '#FFFFFF' } }}
+    >
+      <DialogTitle sx={{ fontWeight: 600, fontSize: '20px', padding: '0 0 16px 0', color: mode === 'dark' ? '#e3e3e3' : '#1F1F1F' }}>
+        Save search
+      </DialogTitle>
+      <DialogContent sx={{ padding: '8px 0 24px 0' }}>
+        <TextField
+          autoFocus
+          fullWidth
+          size="small"
+          label="Name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter' && name.trim() !== '' && !isSaving) handleSave(); }}
+          slotProps={{ htmlInput: { maxLength: 200, 'data-testid': 'saved-search-name-input' } }}
+        />
+        <Typography sx={{ marginTop: '12px', fontSize: '12px', color: mode === 'dark' ? '#9aa0a6' : '#575757' }}>
+          {search.term.trim() !== '' ? `"${search.term.trim()}"` : 'No search term'}
+          {` · ${search.filters.length} filter${search.filters.length === 1 ? '' : 's'}`}
+        </Typography>
+      </DialogContent>
+      <DialogActions sx={{ padding: 0, gap: '12px' }}>
+        <Button onClick={onClose} sx={{ textTransform: 'none', borderRadius: '8px' }}>
+          Cancel
+        </Button>
+        <Button
+          onClick={handleSave}
+          variant="contained"
+          disabled={name.trim() === '' || isSaving}
+          sx={{ textTransform: 'none', borderRadius: '8px', backgroundColor: '#0E4DCA' }}
+        >
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SaveSearchDialog;
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import SavedSearchList from './SavedSearchList';
+import type { SavedSearch } from '../../features/savedSearches/savedSearchesSlice';
+
+const makeSearch = (overrides: Partial<SavedSearch> = {}): SavedSearch => ({
+  id: 'saved-1',
+  owner: 'test@example.com',
+  name: 'Morning check',
+  term: 'orders',
+  searchType: 'All',
+  filters: [{ name: 'BigQuery', type: 'system' }, { name: 'Table', type: 'typeAliases' }],
+  semanticSearch: true,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  lastRunAt: '2024-01-02T00:00:00Z',
+  lastResultCount: 12,
+  previousResultCount: 10,
+  ...overrides,
+});
+
+let mockSavedSearches: SavedSearch[] = [];
+const mockUnwrap = vi.fn();
+const mockDispatch = vi.fn(() => ({ unwrap: mockUnwrap }));
+
+vi.mock('react-redux', () => ({
+  useDispatch: () => mockDispatch,
+  useSelector: (selector: (state: unknown) => unknown) =>
+    selector({ user: { mode: 'light' }, savedSearches: { items: mockSavedSearches } }),
+}));
+
+vi.mock('../../auth/AuthProvider', () => ({
+  useAuth: () => ({ user: { token: 'test-token' } }),
+}));
+
+const mockShowSuccess = vi.fn();
+const mockShowError = vi.fn();
+vi.mock('../../contexts/NotificationContext', () => ({
+  useNotification: () => ({ showSuccess: mockShowSuccess, showError: mockShowError }),
+}));
+
+vi.mock('../../features/savedSearches/savedSearchesSlice', () => ({
+  fetchSavedSearches: vi.fn((params) => ({ type: 'savedSearches/fetchSavedSearches', payload: params })),
+  deleteSavedSearch: vi.fn((params) => ({ type: 'savedSearches/deleteSavedSearch', payload: params })),
+  importSavedSearches: vi.fn((params) => ({ type: 'savedSearches/importSavedSearches', payload: params })),
+}));
+
+const mockDownloadJsonFile = vi.fn();
+vi.mock('../../utils/savedSearchFile', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../utils/savedSearchFile')>()),
+  downloadJsonFile: (...args: unknown[]) => mockDownloadJsonFile(...args),
+}));
+
+describe('SavedSearchList', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSavedSearches = [makeSearch()];
+    mockUnwrap.mockResolvedValue({});
+  });
+
+  it('fetches saved searches on mount', () => {
+    render(<SavedSearchList onRun={vi.fn()} />);
+
+    expect(mockDispatch).toHaveBeenCalledWith({
+      type: 'savedSearches/fetchSavedSearches',
+      payload: { id_token: 'test-token' },
+    });
+  });
+
+  it('shows the name, summary, result count and delta', () => {
+    render(<SavedSearchList onRun={vi.fn()} />);
+
+    expect(screen.getByText('Morning check')).toBeInTheDocument();
+    expect(screen.getByText(/"orders" · 2 filters · 12 results/)).toBeInTheDocument();
+    expect(screen.getByText('+2')).toBeInTheDocument();
+  });
+
+  it('shows a hint when there are no saved searches', () => {
+    mockSavedSearches = [];
+    render(<SavedSearchList onRun={vi.fn()} />);
+
+    expect(screen.getByText(/Save a search from the results page/)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /Export/ })).toBeDisabled();
+  });
+
+  it('runs a saved search on click', () => {
+    const onRun = vi.fn();
+    render(<SavedSearchList onRun={onRun} />);
+
+    fireEvent.click(screen.getByTestId('saved-search-saved-1'));
+
+    expect(onRun).toHaveBeenCalledWith(mockSavedSearches[0]);
+  });
+
+  it('deletes without running the search', () => {
+    const onRun = vi.fn();
+    render(<SavedSearchList onRun={onRun} />);
+
+    fireEvent.click(screen.getByLabelText('Delete Morning check'));
+
+    expect(onRun).not.toHaveBeenCalled();
+    expect(mockDispatch).toHaveBeenCalledWith({
+      type: 'savedSearches/deleteSavedSearch',
+      payload: { id_token: 'test-token', id: 'saved-1' },
+    });
+  });
+
+  it('exports the saved searches without ids or owners', () => {
+    render(<SavedSearchList onRun={vi.fn()} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /Export/ }));
+
+    const [fileName, data] = mockDownloadJsonFile.mock.calls[0];
+    expect(fileName).toBe('saved-searches.json');
+    expect(data.savedSearches).toEqual([{
+      name: 'Morning check',
+      term: 'orders',
+      searchType: 'All',
+      filters: mockSavedSearches[0].filters,
+      semanticSearch: true,
+    }]);
+  });
+
+  it('imports a saved search file', async () => {
+    mockUnwrap.mockResolvedValueOnce({ imported: [makeSearch()], skipped: [{ index: 1, error: 'x' }] });
+    render(<SavedSearchList onRun={vi.fn()} />);
+
+    const file = new File([JSON.stringify({ version: 1, savedSearches: [{ name: 'a', term: 'b' }] })], 'saved.json');
+    fireEvent.change(screen.getByTestId('saved-search-import-input'), { target: { files: [file] } });
+
+    await waitFor(() => {
+      expect(mockShowSuccess).toHaveBeenCalledWith('Imported 1 saved search, 1 skipped');
+    });
+    expect(mockDispatch).toHaveBeenCalledWith({
+      type: 'savedSearches/importSavedSearches',
+      payload: { id_token: 'test-token', savedSearches: [{ name: 'a', term: 'b' }] },
+    });
+  });
+
+  it('reports files that are not saved-search exports', async () => {
+    render(<SavedSearchList onRun={vi.fn()} />);
+
+    const file = new File(['not json'], 'saved.json');
+    fireEvent.change(screen.getByTestId('saved-search-import-input'), { target: { files: [file] } });
+
+    await waitFor(() => {
+      expect(mockShowError).toHaveBeenCalledWith('The file is not valid JSON.');
+    });
+  });
+
+  it('shows a negative delta and none before the second run', () => {
+    mockSavedSearches = [
+      makeSearch({ lastResultCount: 8, previousResultCount: 10 }),
+      makeSearch({ id: 'saved-2', name: 'New', previousResultCount: null }),
+    ];
+    render(<SavedSearchList onRun={vi.fn()} />);
+
+    expect(screen.getByText('-2')).toBeInTheDocument();
+    expect(screen.queryByText('+2')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,174 @@
+import React, { useEffect, useRef } from 'react';
+import { Box, Button, IconButton, Tooltip, Typography } from '@mui/material';
+import { DeleteOutline, FileDownloadOutlined, FileUploadOutlined } from '@mui/icons-material';
+import { useDispatch, useSelector } from 'react-redux';
+import type { AppDispatch, RootState } from '../../app/store';
+import { useAuth } from '../../auth/AuthProvider';
+import { useNotification } from '../../contexts/NotificationContext';
+import {
+  deleteSavedSearch,
+  fetchSavedSearches,
+  importSavedSearches,
+  type SavedSearch,
+} from '../../features/savedSearches/savedSearchesSlice';
+import { buildSavedSearchExport, downloadJsonFile, parseSavedSearchImport, readFileAsText } from '../../utils/savedSearchFile';
+
+/**
+ * @file SavedSearchList.tsx
+ * @description
+ * Lists the user's saved searches on the Home page. Clicking a search hands
+ * it to `onRun`; each row shows the result count of the last run and the
+ * change since the run before it. The header exports all saved searches to
+ * a JSON file and imports such a file into the user's account.
+ *
+ * @param {SavedSearchListProps} props
+ * @param {(search: SavedSearch) => void} props.onRun - Re-runs a saved search.
+ */
+
+interface SavedSearchListProps {
+  onRun: (search: SavedSearch) => void;
+}
+
+/** Change in result count between the last two runs, or null if unknown. */
+const getResultCountDelta = (search: SavedSearch): number | null =>
+  search.lastResultCount === null || search.previousResultCount === null
+    ? null
+    : search.lastResultCount - search.previousResultCount;
+
+const describeSearch = (search: SavedSearch) => {
+  const parts = [];
+  if (search.term) parts.push(`"${search.term}"`);
+  if (search.filters.length > 0) parts.push(`${search.filters.length} filter${search.filters.length === 1 ? '' : 's'}`);
+  return parts.join(' · ');
+};
+
+const SavedSearchList: React.FC<SavedSearchListProps> = ({ onRun }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const { user } = useAuth();
+  const { showSuccess, showError } = useNotification();
+  const mode = useSelector((state: RootState) => state.user.mode);
+  const savedSearches = useSelector((state: RootState) => state.savedSearches.items);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const id_token = user?.token || '';
+  const textColor = mode === 'dark' ? '#e3e3e3' : '#1F1F1F';
+  const secondaryColor = mode === 'dark' ? '#9aa0a6' : '#575757';
+
+  useEffect(() => {
+    if (id_token) dispatch(fetchSavedSearches({ id_token }));
+  }, [id_token, dispatch]);
+
+  const handleDelete = (event: React.MouseEvent, search: SavedSearch) => {
+    event.stopPropagation();
+    dispatch(deleteSavedSearch({ id_token, id: search.id }))
+      .unwrap()
+      .catch(() => showError(`Failed to delete "${search.name}"`));
+  };
+
+  const handleExport = () => {
+    downloadJsonFile('saved-searches.json', buildSavedSearchExport(savedSearches));
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const items = parseSavedSearchImport(await readFileAsText(file));
+      const result = await dispatch(importSavedSearches({ id_token, savedSearches: items })).unwrap();
+      const skipped = result.skipped.length > 0 ? `, ${result.skipped.length} skipped` : '';
+      showSuccess(`Imported ${result.imported.length} saved search${result.imported.length === 1 ? '' : 'es'}${skipped}`);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : typeof error === 'string' ? error : 'Failed to import saved searches');
+    }
+  };
+
+  const renderDelta = (search: SavedSearch) => {
+    const delta = getResultCountDelta(search);
+    if (delta === null || delta === 0) return null;
+    return (
+      <Typography component="span" sx={{ fontSize: '12px', fontWeight: 500, color: delta > 0 ? '#188038' : '#C5221F' }}>
+        {delta > 0 ? `+${delta}` : delta}
+      </Typography>
+    );
+  };
+
+  return (
+    <Box data-testid="saved-search-list" sx={{ width: '100%' }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '8px' }}>
+        <Typography sx={{ fontSize: '14px', fontWeight: 500, color: textColor }}>Saved searches</Typography>
+        <Box sx={{ display: 'flex', gap: '4px' }}>
+          <Button
+            size="small"
+            startIcon={<FileUploadOutlined />}
+            onClick={() => fileInputRef.current?.click()}
+            sx={{ textTransform: 'none' }}
+          >
+            Import
+          </Button>
+          <Button
+            size="small"
+            startIcon={<FileDownloadOutlined />}
+            onClick={handleExport}
+            disabled={savedSearches.length === 0}
+            sx={{ textTransform: 'none' }}
+          >
+            Export
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            hidden
+            data-testid="saved-search-import-input"
+            onChange={handleImport}
+          />
+        </Box>
+      </Box>
+      {savedSearches.length === 0 ? (
+        <Typography sx={{ fontSize: '12px', color: secondaryColor }}>
+          Save a search from the results page to re-run it here.
+        </Typography>
+      ) : (
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: '8px' }}>
+          {savedSearches.map((search) => (
+            <Box
+              key={search.id}
+              role="button"
+              tabIndex={0}
+              data-testid={`saved-search-${search.id}`}
+              onClick={() => onRun(search)}
+              onKeyDown={(e) => { if (e.key === 'Enter') onRun(search); }}
+              sx={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px',
+                padding: '6px 6px 6px 12px',
+                borderRadius: '8px',
+                border: `1px solid ${mode === 'dark' ? '#3c4043' : '#DADCE0'}`,
+                cursor: 'pointer',
+                maxWidth: '100%',
+                '&:hover': { backgroundColor: mode === 'dark' ? '#282a2c' : '#F1F4F9' },
+              }}
+            >
+              <Box sx={{ minWidth: 0 }}>
+                <Typography noWrap sx={{ fontSize: '14px', color: textColor }}>{search.name}</Typography>
+                <Typography noWrap sx={{ fontSize: '12px', color: secondaryColor }}>
+                  {describeSearch(search)}
+                  {search.lastResultCount !== null && ` · ${search.lastResultCount} results `}
+                  {renderDelta(search)}
+                </Typography>
+              </Box>
+              <Tooltip title="Delete saved search">
+                <IconButton size="small" aria-label={`Delete ${search.name}`} onClick={(e) => handleDelete(e, search)}>
+                  <DeleteOutline sx={{ fontSize: '18px', color: secondaryColor }} />
+                </IconButton>
+              </Tooltip>
+            </Box>
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default SavedSearchList;
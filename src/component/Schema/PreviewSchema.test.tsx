@@ -249,7 +249,8 @@ describe("PreviewSchema", () => {
       expect(screen.getByText("No schema data available")).toBeInTheDocument();
     });
 
-    it("shows message when values array is missing", () => {
+    it("reads a list value without values as an empty schema", () => {
+      // Protobuf JSON leaves out empty repeated fields
       const entry = {
         entryType: "projects/1/locations/us/entryTypes/table",
         aspects: {
@@ -267,7 +268,8 @@ describe("PreviewSchema", () => {
 
       render(<PreviewSchema entry={entry} />);
 
-      expect(screen.getByText("No schema data available")).toBeInTheDocument();
+      expect(screen.queryByRole("table")).not.toBeInTheDocument();
+      expect(screen.getByText("No data matches the applied filters")).toBeInTheDocument();
     });
   });
 
@@ -333,17 +335,19 @@ describe("PreviewSchema", () => {
   // ==========================================================================
 
   describe("Schema Field Handling", () => {
-    it("handles field with missing name", () => {
+    it("skips a field with missing name", () => {
       const entry = createMockEntry(
         "projects/1/locations/us/entryTypes/table",
         "1.global.schema",
-        [createSchemaField(undefined, "INTEGER", "NULLABLE")]
+        [createSchemaField(undefined, "INTEGER", "NULLABLE"), createSchemaField("column1", "STRING", "REQUIRED")]
       );
 
       render(<PreviewSchema entry={entry} />);
 
-      expect(screen.getByText("INTEGER")).toBeInTheDocument();
-      expect(screen.getByText("NULLABLE")).toBeInTheDocument();
+      const tbody = screen.getByRole("table").querySelector("tbody");
+      expect(tbody?.querySelectorAll("tr")).toHaveLength(1);
+      expect(screen.getByText("column1")).toBeInTheDocument();
+      expect(screen.queryByText("INTEGER")).not.toBeInTheDocument();
     });
 
     it("handles field with missing dataType", () => {
@@ -372,19 +376,18 @@ describe("PreviewSchema", () => {
       expect(screen.getByText("STRING")).toBeInTheDocument();
     });
 
-    it("handles field with all properties missing", () => {
+    it("skips a field with all properties missing", () => {
       const entry = createMockEntry(
         "projects/1/locations/us/entryTypes/table",
         "1.global.schema",
-        [{ structValue: { fields: {} } }]
+        [{ structValue: { fields: {} } }, createSchemaField("column1", "STRING", "REQUIRED")]
       );
 
       render(<PreviewSchema entry={entry} />);
 
-      expect(screen.getByRole("table")).toBeInTheDocument();
-      // Row should exist but with empty cells
       const tbody = screen.getByRole("table").querySelector("tbody");
       expect(tbody?.querySelectorAll("tr")).toHaveLength(1);
+      expect(screen.getByText("column1")).toBeInTheDocument();
     });
 
     it("handles multiple schema fields", () => {
@@ -418,32 +421,32 @@ describe("PreviewSchema", () => {
       expect(screen.getByText("No data matches the applied filters")).toBeInTheDocument();
     });
 
-    it("handles field with missing structValue", () => {
+    it("skips a field with missing structValue", () => {
       const entry = createMockEntry(
         "projects/1/locations/us/entryTypes/table",
         "1.global.schema",
-        [{}]
+        [{}, createSchemaField("column1", "STRING", "REQUIRED")]
       );
 
       render(<PreviewSchema entry={entry} />);
 
-      expect(screen.getByRole("table")).toBeInTheDocument();
       const tbody = screen.getByRole("table").querySelector("tbody");
       expect(tbody?.querySelectorAll("tr")).toHaveLength(1);
+      expect(screen.getByText("column1")).toBeInTheDocument();
     });
 
-    it("handles field with missing fields in structValue", () => {
+    it("skips a field with missing fields in structValue", () => {
       const entry = createMockEntry(
         "projects/1/locations/us/entryTypes/table",
         "1.global.schema",
-        [{ structValue: {} }]
+        [{ structValue: {} }, createSchemaField("column1", "STRING", "REQUIRED")]
       );
 
       render(<PreviewSchema entry={entry} />);
 
-      expect(screen.getByRole("table")).toBeInTheDocument();
       const tbody = screen.getByRole("table").querySelector("tbody");
       expect(tbody?.querySelectorAll("tr")).toHaveLength(1);
+      expect(screen.getByText("column1")).toBeInTheDocument();
     });
   });
 
@@ -14,6 +14,7 @@ import { type SxProps, type Theme } from '@mui/material/styles';
 import { useSelector } from 'react-redux';
 import { useColumnResize } from '../../hooks/useColumnResize';
 import ResizeHandle from './ResizeHandle';
+import { getSchemaFields, hasSchema, type EntryLike } from '../../utils/entryModel';
 
 /**
  * @file PreviewSchema.tsx
@@ -21,9 +22,9 @@ import ResizeHandle from './ResizeHandle';
  * This component is responsible for extracting and displaying the schema of a
  * data entry in a tabular format using MUI Table components with resizable columns.
  *
- * It takes a complex `entry` object, finds the schema aspect by parsing the
- * `entry.entryType` (e.g., "table.global.schema"), and transforms the nested
- * schema field data into a flat array of `rows`. It then renders columns
+ * It takes a complex `entry` object, reads its schema aspect through
+ * `getSchemaFields` (see `utils/entryModel.ts`), and turns the fields into a
+ * flat array of `rows`. It then renders columns
  * (Name, Type, Mode) in a table matching the SearchTableView design.
  *
  * If no schema data is found in the `entry` prop, it displays a
@@ -39,16 +40,6 @@ import ResizeHandle from './ResizeHandle';
  * table or a fallback message if no schema data is found.
  */
 
-interface SchemaField {
-  structValue: {
-    fields: {
-      name?: { stringValue?: string };
-      dataType?: { stringValue?: string };
-      mode?: { stringValue?: string };
-    };
-  };
-}
-
 interface SchemaRow {
   id: number;
   name: string;
@@ -57,22 +48,7 @@ interface SchemaRow {
 }
 
 interface PreviewSchemaProps {
-  entry: {
-    entryType?: string;
-    aspects?: {
-      [key: string]: {
-        data?: {
-          fields?: {
-            fields?: {
-              listValue?: {
-                values?: SchemaField[];
-              };
-            };
-          };
-        };
-      };
-    };
-  };
+  entry: EntryLike;
   sx?: SxProps<Theme>;
 }
 
@@ -148,15 +124,11 @@ const PreviewSchema: React.FC<PreviewSchemaProps> = ({ entry, sx }) => {
     return 'Sort A to Z';
   };
 
-  const splitType = entry?.entryType?.split('/');
-  const number = splitType && splitType.length > 1 ? splitType[1] : 'table';
-  const schemaData = entry?.aspects?.[`${number}.global.schema`]?.data?.fields?.fields?.listValue?.values;
-
-  const rows: SchemaRow[] = (schemaData ?? []).map((field: SchemaField, index: number) => ({
+  const rows: SchemaRow[] = getSchemaFields(entry).map((field, index) => ({
     id: index + 1,
-    name: field.structValue?.fields?.name?.stringValue ?? '',
-    type: field.structValue?.fields?.dataType?.stringValue ?? '',
-    mode: field.structValue?.fields?.mode?.stringValue ?? '',
+    name: field.name,
+    type: field.dataType,
+    mode: field.mode,
   }));
 
   const sortedRows = React.useMemo(() => {
@@ -186,7 +158,7 @@ const PreviewSchema: React.FC<PreviewSchemaProps> = ({ entry, sx }) => {
 
   const isDark = mode === 'dark';
 
-  if (!entry?.entryType || !schemaData) {
+  if (!entry?.entryType || !hasSchema(entry)) {
     return <div>No schema data available</div>;
   }
 
@@ -3,6 +3,7 @@ import { Box, Typography, Tooltip } from '@mui/material';
 import { useSelector } from 'react-redux';
 import { useColumnResize } from '../../hooks/useColumnResize';
 import ResizeHandle from './ResizeHandle';
+import { getSchemaFields } from '../../utils/entryModel';
 
 /**
  * @file Schema.tsx
@@ -135,15 +136,13 @@ const Schema: React.FC<SchemaProps> = ({ entry, isPreview = false, sx }) => {
     return 'Sort A to Z';
   };
 
-  const number = entry.entryType.split('/')[1];
-  const schema = entry.aspects[`${number}.global.schema`].data.fields.fields.listValue.values;
-  const rows: SchemaRow[] = schema.map((field: any, index: number) => ({
+  const rows: SchemaRow[] = getSchemaFields(entry).map((field, index) => ({
     id: index + 1,
-    name: field.structValue.fields.name.stringValue,
-    type: field.structValue.fields.dataType.stringValue,
-    metaDataType: field.structValue.fields.metadataType.stringValue,
-    mode: field.structValue.fields.mode.stringValue,
-    description: (field.structValue.fields.description && field.structValue.fields.description != null) ? field.structValue.fields.description.stringValue : '-',
+    name: field.name,
+    type: field.dataType,
+    metaDataType: field.metadataType,
+    mode: field.mode,
+    description: field.description || '-',
   }));
 
   const sortedRows = React.useMemo(() => {
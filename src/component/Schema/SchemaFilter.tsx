@@ -2,6 +2,7 @@ import React, { useState, useMemo } from 'react';
 import { Collapse } from '@mui/material';
 import FilterBar from '../Common/FilterBar';
 import type { ActiveFilter, PropertyConfig } from '../Common/FilterBar';
+import { filterSchemaAspect, findAspectKey, getSchemaFields } from '../../utils/entryModel';
 
 /**
  * @file SchemaFilter.tsx
@@ -55,8 +56,6 @@ const SchemaFilter: React.FC<SchemaFilterProps> = ({
   const [isSchemaFilterExpanded, setIsSchemaFilterExpanded] = useState(true);
   const [activeSchemaFilters, setActiveSchemaFilters] = useState<ActiveFilter[]>([]);
 
-  const number = entry?.entryType?.split('/')?.at(1) ?? 'table';
-
   // Schema property names for filter dropdown - based on actual table headers
   const schemaPropertyNames: PropertyConfig[] = isPreview ? [
     { name: 'Name', mode: 'both' },
@@ -72,26 +71,21 @@ const SchemaFilter: React.FC<SchemaFilterProps> = ({
   ];
 
   // Get schema data for filtering - based on actual schema structure
-  const schemaData = useMemo(() => {
-    if (!entry?.aspects?.[`${number}.global.schema`]?.data?.fields?.fields?.listValue?.values) {
-      return [];
-    }
-    return entry.aspects[`${number}.global.schema`].data.fields.fields.listValue.values.map((field: any, index: number) => ({
-      id: index + 1,
-      name: field.structValue.fields.name?.stringValue || '',
-      type: field.structValue.fields.dataType?.stringValue || '',
-      metaDataType: field.structValue.fields.metadataType?.stringValue || '',
-      mode: field.structValue.fields.mode?.stringValue || '',
-      defaultValue: (field.structValue.fields.defaultValue && field.structValue.fields.defaultValue != null) ? field.structValue.fields.defaultValue?.stringValue : '-',
-      description: (field.structValue.fields.description && field.structValue.fields.description != null) ? field.structValue.fields.description?.stringValue : '-'
-    }));
-  }, [entry, number]);
+  const schemaData = useMemo(() => getSchemaFields(entry).map((field, index) => ({
+    id: index + 1,
+    name: field.name,
+    type: field.dataType,
+    metaDataType: field.metadataType,
+    mode: field.mode,
+    defaultValue: field.defaultValue || '-',
+    description: field.description || '-'
+  })), [entry]);
 
   // Get unique values for a schema property
   const getSchemaPropertyValues = (property: string): string[] => {
     const values = new Set<string>();
 
-    schemaData.forEach((row: any) => {
+    schemaData.forEach((row) => {
       switch (property) {
         case 'Name':
           if (row.name) values.add(row.name);
@@ -121,7 +115,7 @@ const SchemaFilter: React.FC<SchemaFilterProps> = ({
   const filteredSchemaData = useMemo(() => {
     if (activeSchemaFilters.length === 0) return schemaData;
 
-    return schemaData.filter((row: any) => {
+    return schemaData.filter((row) => {
       return activeSchemaFilters.every(filter => {
         const isTextChip = Boolean(filter.id);
         const matchFn = isTextChip
@@ -145,56 +139,26 @@ const SchemaFilter: React.FC<SchemaFilterProps> = ({
 
   // Create filtered entry for schema
   const filteredSchemaEntry = useMemo(() => {
-    if (!entry?.aspects?.[`${number}.global.schema`] || activeSchemaFilters.length === 0) {
+    const schemaKey = findAspectKey(entry, 'schema');
+    if (!schemaKey || activeSchemaFilters.length === 0) {
       return entry;
     }
 
-    const originalFields = entry.aspects[`${number}.global.schema`].data.fields.fields.listValue.values;
-    const filteredFields = originalFields.filter((field: any) => {
-      const fieldData = {
-        name: field.structValue.fields.name?.stringValue || '',
-        type: field.structValue.fields.dataType?.stringValue || '',
-        metaDataType: field.structValue.fields.metadataType?.stringValue || '',
-        mode: field.structValue.fields.mode?.stringValue || '',
-        defaultValue: (field.structValue.fields.defaultValue && field.structValue.fields.defaultValue != null) ? field.structValue.fields.defaultValue?.stringValue : '-',
-        description: (field.structValue.fields.description && field.structValue.fields.description != null) ? field.structValue.fields.description?.stringValue : '-'
-      };
-
-      return filteredSchemaData.some((filteredField: any) =>
-        filteredField.name === fieldData.name &&
-        filteredField.type === fieldData.type &&
-        filteredField.metaDataType === fieldData.metaDataType &&
-        filteredField.mode === fieldData.mode &&
-        filteredField.defaultValue === fieldData.defaultValue &&
-        filteredField.description === fieldData.description
-      );
-    });
+    // Column names are unique within a schema
+    const keptNames = new Set(filteredSchemaData.map((row) => row.name));
+    const schemaAspect = entry.aspects[schemaKey];
 
-    const filteredEntry = {
+    return {
       ...entry,
       aspects: {
         ...entry.aspects,
-        [`${number}.global.schema`]: {
-          ...entry.aspects[`${number}.global.schema`],
-          data: {
-            ...entry.aspects[`${number}.global.schema`].data,
-            fields: {
-              ...entry.aspects[`${number}.global.schema`].data.fields,
-              fields: {
-                ...entry.aspects[`${number}.global.schema`].data.fields.fields,
-                listValue: {
-                  ...entry.aspects[`${number}.global.schema`].data.fields.fields.listValue,
-                  values: filteredFields
-                }
-              }
-            }
-          }
+        [schemaKey]: {
+          ...schemaAspect,
+          data: filterSchemaAspect(schemaAspect.data, (field) => keptNames.has(field.name))
         }
       }
     };
-
-    return filteredEntry;
-  }, [entry, number, filteredSchemaData, activeSchemaFilters]);
+  }, [entry, filteredSchemaData, activeSchemaFilters]);
 
   // Update parent component when filtered entry changes
   React.useEffect(() => {
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { render, screen, fireEvent, waitFor, act } from "@testing-library/react";
 import SearchBar from "./SearchBar";
+import type { SearchFilter } from "../../utils/searchQuery";
 
 // ============================================================================
 // Mock Dependencies
@@ -15,6 +16,7 @@ const mockDispatch = vi.fn();
 // Mock Redux state
 let mockSearchTerm = "";
 let mockSemanticSearch = false;
+let mockSearchFilters: SearchFilter[] = [];
 
 vi.mock("react-redux", () => ({
   useDispatch: () => mockDispatch,
@@ -23,6 +25,7 @@ vi.mock("react-redux", () => ({
       search: {
         searchTerm: mockSearchTerm,
         semanticSearch: mockSemanticSearch,
+        searchFilters: mockSearchFilters,
       },
       user: {
         mode: 'light',
@@ -102,6 +105,7 @@ describe("SearchBar", () => {
     // Reset mocks
     mockSearchTerm = "";
     mockSemanticSearch = false;
+    mockSearchFilters = [];
     mockPathname = "/search";
     mockIsAccessPanelOpen = false;
     mockUser.email = "test@example.com";
@@ -2001,4 +2005,79 @@ describe("SearchBar", () => {
       );
     });
   });
+
+  // ==========================================================================
+  // Advanced Query Tests
+  // ==========================================================================
+
+  describe("Advanced Query", () => {
+    it("turns a pasted advanced query into filter chips", () => {
+      mockSearchTerm = 'orders (system=(BIGQUERY)) (type=(table)) (projectid=("my project"))';
+
+      render(
+        <SearchBar
+          handleSearchSubmit={mockHandleSearchSubmit}
+          dataSearch={defaultDataSearch}
+        />
+      );
+
+      fireEvent.keyDown(screen.getByRole("combobox"), { key: "Enter" });
+
+      const expectedFilters = [
+        { name: "BigQuery", type: "system" },
+        { name: "Table", type: "typeAliases" },
+        { name: "my project", type: "project" },
+      ];
+      expect(mockDispatch).toHaveBeenCalledWith({
+        type: "search/setSearchTerm",
+        payload: { searchTerm: "orders" },
+      });
+      expect(mockDispatch).toHaveBeenCalledWith({
+        type: "search/setSearchFilters",
+        payload: { searchFilters: expectedFilters },
+      });
+      expect(mockDispatch).toHaveBeenCalledWith({
+        type: "search/setSearchFiltersFromQuery",
+        payload: true,
+      });
+      expect(mockHandleSearchSubmit).toHaveBeenCalledWith("orders", expectedFilters);
+    });
+
+    it("keeps existing filters that the query does not mention", () => {
+      mockSearchTerm = "system=(BIGQUERY)";
+      mockSearchFilters = [{ name: "Dataset", type: "typeAliases" }];
+
+      render(
+        <SearchBar
+          handleSearchSubmit={mockHandleSearchSubmit}
+          dataSearch={defaultDataSearch}
+        />
+      );
+
+      fireEvent.keyDown(screen.getByRole("combobox"), { key: "Enter" });
+
+      expect(mockHandleSearchSubmit).toHaveBeenCalledWith("", [
+        { name: "Dataset", type: "typeAliases" },
+        { name: "BigQuery", type: "system" },
+      ]);
+    });
+
+    it("submits plain terms without filters", () => {
+      mockSearchTerm = "customer orders";
+
+      render(
+        <SearchBar
+          handleSearchSubmit={mockHandleSearchSubmit}
+          dataSearch={defaultDataSearch}
+        />
+      );
+
+      fireEvent.keyDown(screen.getByRole("combobox"), { key: "Enter" });
+
+      expect(mockHandleSearchSubmit).toHaveBeenCalledWith("customer orders");
+      expect(mockDispatch).not.toHaveBeenCalledWith(
+        expect.objectContaining({ type: "search/setSearchFiltersFromQuery" })
+      );
+    });
+  });
 });
@@ -4,11 +4,13 @@ import AccessTimeIcon from '@mui/icons-material/AccessTime';
 import { Autocomplete, TextField } from '@mui/material';
 import './SearchBar.css'
 import { useDispatch, useSelector } from 'react-redux';
-import type { AppDispatch } from '../../app/store';
+import type { AppDispatch, RootState } from '../../app/store';
 import { useAuth } from '../../auth/AuthProvider';
 import { useLocation } from 'react-router-dom';
 import { useAccessRequest } from '../../contexts/AccessRequestContext';
 import { useNotification } from '../../contexts/NotificationContext';
+import { createAspectNameResolver, isAdvancedSearchQuery, parseSearchQueryToFilters } from '../../utils/searchQuery';
+import type { AspectConfig, SearchFilter } from '../../utils/searchQuery';
 
 /**
  * @file SearchBar.tsx
@@ -28,6 +30,9 @@ import { useNotification } from '../../contexts/NotificationContext';
  * by the logged-in user's email. Users can delete individual recent searches.
  * 3.  **Submission**: When a search is submitted (via Enter or selection), it
  * calls the `handleSearchSubmit` prop and adds the term to recent searches.
+ * An advanced query (e.g. `orders (system=(BIGQUERY)) (projectid=(my-proj))`)
+ * is parsed into filter chips first; only the free text is kept as the term
+ * and the resulting filters are passed as the second argument.
  * 4.  **Variants**: It supports two visual `variant` styles: 'default' (for
  * the home page) and 'navbar' (a more compact version for the main header).
  * 5.  **Route Awareness**: It uses `useLocation` to automatically clear the
@@ -35,8 +40,8 @@ import { useNotification } from '../../contexts/NotificationContext';
  *
  * @param {SearchProps} props - The props for the component.
  * @param {function} props.handleSearchSubmit - The callback function to
- * execute when a search is submitted. It receives the search term as an
-L * argument.
+ * execute when a search is submitted. It receives the search term and, for
+ * advanced queries, the parsed filters as arguments.
  * @param {any[]} props.dataSearch - An array of data (e.g., `[{ name: 'BigQuery' }]`)
  * used to populate the search suggestions when the user types.
  * @param {'default' | 'navbar'} [props.variant='default'] - (Optional) The
@@ -47,7 +52,7 @@ L * argument.
  */
 
 interface SearchProps {
-  handleSearchSubmit: any | (() => void); // Function to handle search, can be any function type
+  handleSearchSubmit: (term: string, filters?: SearchFilter[]) => void; // Function to handle search, can be any function type
   dataSearch: any[]; // Optional data prop for search suggestions
   variant?: 'default' | 'navbar'; // Variant prop to handle different layouts
 }
@@ -55,6 +60,7 @@ interface SearchProps {
 const SearchBar: React.FC<SearchProps> = ({handleSearchSubmit, dataSearch, variant = 'default' }) => {
   const dispatch = useDispatch<AppDispatch>();
   const searchTerm = useSelector((state:any) => state.search.searchTerm);
+  const searchFilters = useSelector((state: RootState) => state.search.searchFilters);
   const mode = useSelector((state: any) => state.user.mode) as string;
   const { user } = useAuth();
   const location = useLocation();
@@ -179,6 +185,32 @@ const SearchBar: React.FC<SearchProps> = ({handleSearchSubmit, dataSearch, varia
   //   }   
   // };
 
+  // Submits a search, turning an advanced query into filter chips first
+  const submitSearch = (text: string) => {
+    if (!isAdvancedSearchQuery(text)) {
+      dispatch({ type: 'search/setSearchTerm', payload: { searchTerm: text } });
+      dispatch({ type: 'search/setSearchSubmitted', payload: true });
+      handleSearchSubmit(text);
+      return;
+    }
+
+    const resolver = createAspectNameResolver(user?.appConfig);
+    const knownAspects = (user?.appConfig?.aspects ?? [])
+      .map((aspect: AspectConfig) => resolver.toQueryName(aspect.dataplexEntry?.entrySource?.displayName ?? ''))
+      .filter((name: string) => name !== '');
+    const { term, filters: parsedFilters } = parseSearchQueryToFilters(text, resolver, knownAspects);
+    const filters = [
+      ...(searchFilters ?? []).filter((f: SearchFilter) => !parsedFilters.some((p) => p.name === f.name && p.type === f.type)),
+      ...parsedFilters,
+    ];
+
+    dispatch({ type: 'search/setSearchTerm', payload: { searchTerm: term } });
+    dispatch({ type: 'search/setSearchFilters', payload: { searchFilters: filters } });
+    dispatch({ type: 'search/setSearchFiltersFromQuery', payload: true });
+    dispatch({ type: 'search/setSearchSubmitted', payload: true });
+    handleSearchSubmit(term, filters);
+  };
+
   const handleSelectOption = (option: string) => {
     // Sanitize input to prevent XSS
     const sanitizedOption = option?.toString().trim() || '';
@@ -186,8 +218,7 @@ const SearchBar: React.FC<SearchProps> = ({handleSearchSubmit, dataSearch, varia
       dispatch({ type: 'search/setSearchTerm', payload: {searchTerm : sanitizedOption}});
       // Ignore blank searches and only search if minimum 3 characters
       if (sanitizedOption && sanitizedOption.length >= 3) {
-        dispatch({ type: 'search/setSearchSubmitted', payload: true });
-        handleSearchSubmit(sanitizedOption);
+        submitSearch(sanitizedOption);
         // Add to recent searches
         addToRecentSearches(sanitizedOption);
       }
@@ -224,8 +255,7 @@ const SearchBar: React.FC<SearchProps> = ({handleSearchSubmit, dataSearch, varia
     dispatch({ type: 'search/setSearchTerm', payload: {searchTerm: sanitizedTerm}});
     // Ignore blank searches and only search if minimum 3 characters
     if (sanitizedTerm.length >= 3) {
-      dispatch({ type: 'search/setSearchSubmitted', payload: true });
-      handleSearchSubmit(sanitizedTerm);
+      submitSearch(sanitizedTerm);
       // Move selected search to top of recent searches
       addToRecentSearches(sanitizedTerm);
     }
@@ -247,9 +277,7 @@ const SearchBar: React.FC<SearchProps> = ({handleSearchSubmit, dataSearch, varia
             event.preventDefault();
             const optionToSearch = highlightedOptionRef.current || searchTerm?.toString().trim();
             if (optionToSearch && optionToSearch.length >= 3) {
-                dispatch({ type: 'search/setSearchTerm', payload: { searchTerm: optionToSearch } });
-                dispatch({ type: 'search/setSearchSubmitted', payload: true });
-                handleSearchSubmit(optionToSearch);
+                submitSearch(optionToSearch);
                 addToRecentSearches(optionToSearch);
                 setIsDropdownOpen(false);
             } else if (optionToSearch && optionToSearch.length > 0 && optionToSearch.length < 3) {
@@ -4,6 +4,7 @@ import { configureStore } from '@reduxjs/toolkit';
 import { Provider } from 'react-redux';
 import { MemoryRouter } from 'react-router-dom';
 import SearchEntriesCard from './SearchEntriesCard';
+import compareReducer from '../../features/compare/compareSlice';
 
 // Mock SVG imports
 vi.mock('../../assets/svg/database_icon.svg', () => ({ default: 'database-icon.svg' }));
@@ -42,12 +43,24 @@ vi.mock('../Tags/Tag', () => ({
   )
 }));
 
+// Mock favorite state
+const mockUseFavorite = vi.fn();
+const mockToggleFavorite = vi.fn();
+let mockIsFavorite = false;
+vi.mock('../../hooks/useFavorite', () => ({
+  useFavorite: (...args: unknown[]) => {
+    mockUseFavorite(...args);
+    return { isFavorite: mockIsFavorite, toggleFavorite: mockToggleFavorite, setFavorite: vi.fn() };
+  },
+}));
+
 // Custom render with Redux Provider and Router
 const createMockStore = () =>
   configureStore({
     reducer: {
       entry: (state = { accessCheckCache: {} }) => state,
       user: (state = { mode: 'light' }) => state,
+      compare: compareReducer,
     },
   });
 
@@ -80,6 +93,7 @@ describe('SearchEntriesCard', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    mockIsFavorite = false;
   });
 
   describe('Basic Rendering', () => {
@@ -1020,4 +1034,42 @@ describe('SearchEntriesCard', () => {
       });
     });
   });
+
+  describe('Favorite', () => {
+    it('passes the entry and token to useFavorite', () => {
+      const entry = createMockEntry();
+      render(<SearchEntriesCard entry={entry} id_token="token-123" />);
+
+      expect(mockUseFavorite).toHaveBeenCalledWith(entry.name, { entry, id_token: 'token-123' });
+    });
+
+    it('toggles the favorite without triggering the card', () => {
+      const onDoubleClick = vi.fn();
+      render(<SearchEntriesCard entry={createMockEntry()} onDoubleClick={onDoubleClick} />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Add to favorites' }));
+
+      expect(mockToggleFavorite).toHaveBeenCalledTimes(1);
+      expect(onDoubleClick).not.toHaveBeenCalled();
+    });
+
+    it('shows a filled star for favorites', () => {
+      mockIsFavorite = true;
+      render(<SearchEntriesCard entry={createMockEntry()} />);
+
+      expect(screen.getByRole('button', { name: 'Remove from favorites' })).toHaveAttribute('aria-pressed', 'true');
+    });
+  });
+
+  describe('Compare', () => {
+    it('adds the entry to the comparison without triggering the card', () => {
+      const onDoubleClick = vi.fn();
+      render(<SearchEntriesCard entry={createMockEntry()} onDoubleClick={onDoubleClick} />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Add to comparison' }));
+
+      expect(screen.getByRole('button', { name: 'Remove from comparison' })).toHaveAttribute('aria-pressed', 'true');
+      expect(onDoubleClick).not.toHaveBeenCalled();
+    });
+  });
 });
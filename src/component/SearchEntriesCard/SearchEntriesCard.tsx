@@ -3,7 +3,7 @@ import React, { useEffect, useMemo, useState } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
 import { useNavigate } from 'react-router-dom';
 import Tag from '../Tags/Tag';
-import { AccessTime, LocationOnOutlined, LockOutlined } from '@mui/icons-material';
+import { AccessTime, LocationOnOutlined, LockOutlined, Star, StarBorder } from '@mui/icons-material';
 import BigQueryProductIcon from '../../assets/svg/BigQuery.svg';
 import './SearchEntriesCard.css';
 import { type SxProps, type Theme } from '@mui/material/styles';
@@ -52,6 +52,9 @@ import TableIcon from '../../assets/svg/table_icon.svg';
  * entry type (e.g., "Table").
  * 4.  **Metadata**: The last modified date and the asset's location.
  * 5.  **Description**: A truncated (2-line) description of the entry.
+ * 6.  **Favorite**: A star that adds the entry to, or removes it from, the
+ * user's favorites.
+ * 7.  **Compare**: A button that adds the entry to the comparison tray.
  *
  * The component supports visual selection (`isSelected`), a double-click
  * action (`onDoubleClick`), and various props to control its hover effects
@@ -76,7 +79,8 @@ import TableIcon from '../../assets/svg/table_icon.svg';
  * @returns {React.ReactElement} A React element representing the search entry card.
  */
 
-// import { useFavorite } from '../../hooks/useFavorite';
+import { useFavorite } from '../../hooks/useFavorite';
+import AddToCompareButton from '../Compare/AddToCompareButton';
 interface SearchEntriesCardProps {
   // handleClick: any | (() => void); // Function to handle search, can be any function type
   entry: any; // text to be displayed on the button
@@ -213,7 +217,7 @@ const SearchEntriesCard: React.FC<SearchEntriesCardProps> = ({ entry, sx, isSele
   );
   
   // Use shared favorite state
-  // const { isFavorite, toggleFavorite } = useFavorite(entry.name);
+  const { isFavorite, toggleFavorite } = useFavorite(entry.name, { entry, id_token });
   //const [avatarColors, setAvatarColors] = useState<{bg: string, text: string}>({bg: '#E3F2FD', text: '#1976D2'});
 
   // Function to generate random theme colors
@@ -245,11 +249,10 @@ const SearchEntriesCard: React.FC<SearchEntriesCardProps> = ({ entry, sx, isSele
 //     //setParentName(segments[segments.length - 3] !== import.meta.env.VITE_GCP_PROJECT_ID ? segments[segments.length - 3] : '');
 //   };
 
-  // const handleFavoriteClick = (event: React.MouseEvent) => {
-  //   event.stopPropagation(); // Prevent triggering the parent onClick
-  //   const newStatus = toggleFavorite();
-  //   console.log('Favorite toggled for:', name, 'New state:', newStatus);
-  // };
+  const handleFavoriteClick = (event: React.MouseEvent) => {
+    event.stopPropagation(); // Prevent triggering the parent onClick
+    toggleFavorite();
+  };
   const capitalizeFirstLetter = (string: string) => {
     if (!string) return string;
     return string.charAt(0).toUpperCase() + string.slice(1);
@@ -328,6 +331,7 @@ const SearchEntriesCard: React.FC<SearchEntriesCardProps> = ({ entry, sx, isSele
               ) : getAssetIcon(capitalizeFirstLetter(entryType)) ? (
                 <img
                   src={getAssetIcon(capitalizeFirstLetter(entryType))!}
+                  className="asset-icon"
                   alt={capitalizeFirstLetter(entryType)}
                   style={{
                     width: '24px',
@@ -358,6 +362,22 @@ const SearchEntriesCard: React.FC<SearchEntriesCardProps> = ({ entry, sx, isSele
               flex: '0 0 auto',
               gap: '20px',
             }}>
+              {/* Favorite — always shown */}
+              <Tooltip title={isFavorite ? 'Remove from favorites' : 'Add to favorites'} arrow placement="top">
+                <Box
+                  component="span"
+                  role="button"
+                  aria-label={isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+                  aria-pressed={isFavorite}
+                  onClick={handleFavoriteClick}
+                  sx={{ cursor: 'pointer', display: 'flex', padding: '6px', margin: '-6px', borderRadius: '50%', transition: 'background-color 0.2s ease', '&:hover': { backgroundColor: mode === 'dark' ? 'rgba(255, 255, 255, 0.08)' : 'rgba(0, 0, 0, 0.04)' } }}
+                >
+                  {isFavorite
+                    ? <Star sx={{ fontSize: 20, color: '#F9AB00' }} />
+                    : <StarBorder sx={{ fontSize: 20, color: '#575757' }} />}
+                </Box>
+              </Tooltip>
+              <AddToCompareButton entryName={entry.name} />
               {/* Aspects — always shown */}
               {isAccessConfirmed ? (
                 <Tooltip title="Aspects" arrow placement="top">
@@ -0,0 +1,253 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Autocomplete,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  FormLabel,
+  InputLabel,
+  LinearProgress,
+  MenuItem,
+  Radio,
+  RadioGroup,
+  Select,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { useDispatch, useSelector } from 'react-redux';
+import type { AppDispatch, RootState } from '../../app/store';
+import type { DataplexSearchRequest } from '../../api/dataplexClient';
+import { useAuth } from '../../auth/AuthProvider';
+import { useNotification } from '../../contexts/NotificationContext';
+import {
+  exportSearchResults,
+  resetExport,
+  SEARCH_EXPORT_CAPS,
+  SEARCH_EXPORT_DEFAULT_CAP,
+} from '../../features/searchExport/searchExportSlice';
+import {
+  createExportFile,
+  downloadBlob,
+  flattenSearchResult,
+  getAspectFieldLabel,
+  getAspectFieldOptions,
+  getExportColumns,
+  getExportFileName,
+  type ExportAspectField,
+  type ExportSource,
+  type SearchExportFormat,
+} from '../../utils/searchExport';
+
+/**
+ * @file ExportSearchResultsDialog.tsx
+ * @description
+ * Exports every result of the current search, not only the loaded page.
+ * The user picks a format (CSV, JSON or XLSX), a result cap and optional
+ * aspect fields; `exportSearchResults` then pages through the search with
+ * `nextPageToken`, showing progress, until the cap is reached. The export can
+ * be cancelled at any time, and closing the dialog cancels it too.
+ *
+ * @param {ExportSearchResultsDialogProps} props
+ * @param {boolean} props.open - Whether the dialog is shown.
+ * @param {() => void} props.onClose - Called on cancel and after the download.
+ * @param {DataplexSearchRequest} props.requestResourceData - The current search request
+ * (`resources.itemsRequestData`).
+ * @param {number} [props.totalResults] - Total results of the current search.
+ * @param {ExportSource[]} [props.loadedResults] - Results already loaded; their aspects
+ * are offered as extra columns.
+ */
+
+interface ExportSearchResultsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  requestResourceData: DataplexSearchRequest;
+  totalResults?: number;
+  loadedResults?: ExportSource[];
+}
+
+const FORMATS: { value: SearchExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'xlsx', label: 'Excel (XLSX)' },
+  { value: 'json', label: 'JSON' },
+];
+
+const ExportSearchResultsDialog: React.FC<ExportSearchResultsDialogProps> = ({
+  open,
+  onClose,
+  requestResourceData,
+  totalResults = 0,
+  loadedResults = [],
+}) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const { user } = useAuth();
+  const { showSuccess, showError, showInfo } = useNotification();
+  const mode = useSelector((state: RootState) => state.user.mode);
+  const { status, fetched, total } = useSelector((state: RootState) => state.searchExport);
+  const [format, setFormat] = useState<SearchExportFormat>('csv');
+  const [maxResults, setMaxResults] = useState(SEARCH_EXPORT_DEFAULT_CAP);
+  const [aspectFields, setAspectFields] = useState<ExportAspectField[]>([]);
+  const exportRef = useRef<{ abort: () => void } | null>(null);
+  const isExporting = status === 'loading';
+  const secondaryColor = mode === 'dark' ? '#9aa0a6' : '#575757';
+
+  const aspectFieldOptions = useMemo(() => getAspectFieldOptions(loadedResults), [loadedResults]);
+
+  useEffect(() => {
+    if (open) dispatch(resetExport());
+  }, [open, dispatch]);
+
+  // Cancel a running export when the dialog goes away
+  useEffect(() => () => exportRef.current?.abort(), []);
+
+  const handleExport = async () => {
+    const request = dispatch(exportSearchResults({
+      id_token: user?.token,
+      requestResourceData,
+      maxResults,
+    }));
+    exportRef.current = request;
+    try {
+      const { results, truncated } = await request.unwrap();
+      const rows = results.map((result) => flattenSearchResult(result, aspectFields));
+      downloadBlob(getExportFileName(format), createExportFile(rows, getExportColumns(aspectFields), format));
+      showSuccess(truncated
+        ? `Exported the first ${rows.length} results (limit ${maxResults.toLocaleString()})`
+        : `Exported ${rows.length} result${rows.length === 1 ? '' : 's'}`);
+      onClose();
+    } catch (error) {
+      const { aborted, name } = (error && typeof error === 'object' ? error : {}) as { aborted?: boolean; name?: string };
+      if (aborted || name === 'AbortError') {
+        showInfo('Export cancelled');
+      } else {
+        showError(typeof error === 'string' ? error : 'Failed to export search results');
+      }
+    } finally {
+      exportRef.current = null;
+    }
+  };
+
+  const handleClose = () => {
+    exportRef.current?.abort();
+    onClose();
+  };
+
+  const progress = total > 0 ? Math.round((fetched / total) * 100) : 0;
+
+  return (
+    <Dialog
+      open={open}
+      onClose={handleClose}
+      maxWidth="sm"
+      fullWidth
+      sx={{ '& .MuiDialog-paper': { borderRadius: '12px', padding: '24px', backgroundColor: mode === 'dark' ? '#282a2c' : '#FFFFFF' } }}
+    >
+      <DialogTitle sx={{ fontWeight: 600, fontSize: '20px', padding: '0 0 16px 0', color: mode === 'dark' ? '#e3e3e3' : '#1F1F1F' }}>
+        Export search results
+      </DialogTitle>
+      <DialogContent sx={{ padding: '8px 0 24px 0', display: 'flex', flexDirection: 'column', gap: '16px' }}>
+        <FormControl disabled={isExporting}>
+          <FormLabel id="export-format-label" sx={{ fontSize: '14px' }}>Format</FormLabel>
+          <RadioGroup
+            row
+            aria-labelledby="export-format-label"
+            value={format}
+            onChange={(e) => setFormat(e.target.value as SearchExportFormat)}
+          >
+            {FORMATS.map(({ value, label }) => (
+              <FormControlLabel key={value} value={value} control={<Radio size="small" />} label={label} />
+            ))}
+          </RadioGroup>
+        </FormControl>
+
+        <FormControl size="small" disabled={isExporting}>
+          <InputLabel id="export-cap-label">Export up to</InputLabel>
+          <Select
+            labelId="export-cap-label"
+            label="Export up to"
+            value={maxResults}
+            onChange={(e) => setMaxResults(Number(e.target.value))}
+          >
+            {SEARCH_EXPORT_CAPS.map((cap) => (
+              <MenuItem key={cap} value={cap}>{cap.toLocaleString()} results</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+
+        <Autocomplete
+          multiple
+          disableCloseOnSelect
+          size="small"
+          disabled={isExporting}
+          options={aspectFieldOptions}
+          value={aspectFields}
+          onChange={(_e, value) => setAspectFields(value)}
+          getOptionLabel={(option) => getAspectFieldLabel(option, aspectFieldOptions)}
+          isOptionEqualToValue={(option, value) => option.aspectKey === value.aspectKey && option.field === value.field}
+          renderOption={(props, option, { selected }) => {
+            const { key, ...optionProps } = props;
+            return (
+              <li key={key} {...optionProps}>
+                <Checkbox size="small" checked={selected} sx={{ marginRight: '8px' }} />
+                {getAspectFieldLabel(option, aspectFieldOptions)}
+              </li>
+            );
+          }}
+          renderInput={(params) => (
+            <TextField
+              {...params}
+              label="Aspect fields"
+              helperText={aspectFieldOptions.length === 0
+                ? 'The loaded results have no aspect fields to add.'
+                : 'Added as extra columns. Fields are taken from the loaded results.'}
+            />
+          )}
+        />
+
+        <Typography sx={{ fontSize: '12px', color: secondaryColor }}>
+          Name, fully qualified name, system, entry type, project, location, description, and
+          created and last modified times are always included.
+          {totalResults > maxResults && ` The search has ${totalResults.toLocaleString()} results; only the first ${maxResults.toLocaleString()} are exported.`}
+        </Typography>
+
+        {isExporting && (
+          <div>
+            <LinearProgress
+              variant={total > 0 ? 'determinate' : 'indeterminate'}
+              value={progress}
+              aria-label="Export progress"
+            />
+            <Typography sx={{ marginTop: '8px', fontSize: '12px', color: secondaryColor }}>
+              {total > 0 ? `Fetched ${fetched.toLocaleString()} of ${total.toLocaleString()} results` : 'Starting export…'}
+            </Typography>
+          </div>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ padding: 0, gap: '12px' }}>
+        {isExporting ? (
+          <Button onClick={() => exportRef.current?.abort()} sx={{ textTransform: 'none', borderRadius: '8px' }}>
+            Cancel export
+          </Button>
+        ) : (
+          <Button onClick={handleClose} sx={{ textTransform: 'none', borderRadius: '8px' }}>
+            Cancel
+          </Button>
+        )}
+        <Button
+          onClick={handleExport}
+          variant="contained"
+          disabled={isExporting || !requestResourceData}
+          sx={{ textTransform: 'none', borderRadius: '8px', backgroundColor: '#0E4DCA' }}
+        >
+          Export
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ExportSearchResultsDialog;
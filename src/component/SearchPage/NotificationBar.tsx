@@ -77,7 +77,7 @@ const NotificationBar: React.FC<NotificationBarProps> = ({
           fontFamily: 'sans-serif',
           fontSize: '14px',
           fontWeight: '400',
-          color: '#FFFFFF',
+          color: 'var(--sys-on-primary)',
           flex: 1
         }}
       >
@@ -91,7 +91,7 @@ const NotificationBar: React.FC<NotificationBarProps> = ({
             fontFamily: 'sans-serif',
             fontSize: '14px',
             fontWeight: '500',
-            color: '#FFFFFF',
+            color: 'var(--sys-on-primary)',
             cursor: 'pointer',
             '&:hover': {
               textDecoration: 'underline'
@@ -105,7 +105,7 @@ const NotificationBar: React.FC<NotificationBarProps> = ({
       <IconButton
         onClick={onClose}
         sx={{
-          color: '#FFFFFF',
+          color: 'var(--sys-on-primary)',
           padding: '4px',
           '&:hover': {
             backgroundColor: 'rgba(255, 255, 255, 0.1)'
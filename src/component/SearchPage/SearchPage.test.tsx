@@ -22,6 +22,7 @@ let mockRequestItemStore: any[] = [];
 let mockIsSearchFiltersOpen = false;
 let mockSearchSubmitted = true;
 let mockSearchFilters: any[] = [];
+let mockActiveSavedSearchId: string | null = null;
 
 vi.mock("react-redux", () => ({
   useDispatch: () => mockDispatch,
@@ -46,11 +47,23 @@ vi.mock("react-redux", () => ({
       user: {
         mode: 'light',
       },
+      savedSearches: {
+        activeSavedSearchId: mockActiveSavedSearchId,
+      },
     };
     return selector(state);
   },
 }));
 
+// Mock react-router-dom
+const mockNavigate = vi.fn();
+let mockLocation = { pathname: "/search", search: "" };
+
+vi.mock("react-router-dom", () => ({
+  useNavigate: () => mockNavigate,
+  useLocation: () => mockLocation,
+}));
+
 // Mock useAuth
 const mockUser = {
   email: "test@example.com",
@@ -181,6 +194,26 @@ vi.mock("../Common/ResourceViewer", () => ({
   },
 }));
 
+vi.mock("../../features/savedSearches/savedSearchesSlice", () => ({
+  recordSavedSearchRun: vi.fn((params) => ({ type: "savedSearches/recordSavedSearchRun", payload: params })),
+  setActiveSavedSearchId: vi.fn((id) => ({ type: "savedSearches/setActiveSavedSearchId", payload: id })),
+}));
+
+vi.mock("../SavedSearches/SaveSearchDialog", () => ({
+  default: (props: { open: boolean; search: { term: string }; resultCount?: number }) =>
+    props.open ? (
+      <div data-testid="save-search-dialog">
+        <span data-testid="save-search-term">{props.search.term}</span>
+        <span data-testid="save-search-count">{props.resultCount}</span>
+      </div>
+    ) : null,
+}));
+
+vi.mock("./ExportSearchResultsDialog", () => ({
+  default: (props: { open: boolean; totalResults?: number }) =>
+    props.open ? <div data-testid="export-dialog">{props.totalResults}</div> : null,
+}));
+
 vi.mock("../Common/ResourcePreview", () => ({
   default: (props: any) => {
     capturedResourcePreviewProps = props;
@@ -221,6 +254,8 @@ describe("SearchPage", () => {
     mockIsSearchFiltersOpen = false;
     mockSearchSubmitted = true;
     mockSearchFilters = [];
+    mockActiveSavedSearchId = null;
+    mockLocation = { pathname: "/search", search: "" };
 
     // Reset captured props
     capturedFilterDropdownProps = null;
@@ -1215,4 +1250,163 @@ describe("SearchPage", () => {
       });
     });
   });
+  // ==========================================================================
+  // URL State Tests
+  // ==========================================================================
+
+  describe("URL State", () => {
+    beforeEach(() => {
+      mockSemanticSearch = true;
+    });
+
+    it("runs the search from a shared link on first render", () => {
+      mockSearchSubmitted = false;
+      mockLocation = { pathname: "/search", search: "?q=orders&f=system:BigQuery&view=table&sort=name:desc" };
+
+      render(<SearchPage />);
+
+      expect(mockDispatch).toHaveBeenCalledWith({ type: "search/setSearchTerm", payload: { searchTerm: "orders" } });
+      expect(mockDispatch).toHaveBeenCalledWith({
+        type: "resources/searchResourcesByTerm",
+        payload: expect.objectContaining({ term: "orders", filters: [{ name: "BigQuery", type: "system" }] }),
+      });
+      expect(screen.getByTestId("view-mode")).toHaveTextContent("table");
+      expect(capturedResourceViewerProps.sortBy).toBe("name");
+      expect(capturedResourceViewerProps.sortOrder).toBe("desc");
+      expect(mockNavigate).not.toHaveBeenCalled();
+    });
+
+    it("keeps existing results when the URL matches the stored search", () => {
+      mockSearchSubmitted = false;
+      mockSearchTerm = "orders";
+      mockLocation = { pathname: "/search", search: "?q=orders" };
+
+      render(<SearchPage />);
+
+      expect(mockDispatch).not.toHaveBeenCalledWith(
+        expect.objectContaining({ type: "resources/searchResourcesByTerm" })
+      );
+    });
+
+    it("adds a history entry when the filters change", async () => {
+      mockLocation = { pathname: "/search", search: "?q=test+query" };
+      render(<SearchPage />);
+
+      fireEvent.click(screen.getByTestId("apply-filter-btn"));
+
+      await waitFor(() => {
+        expect(mockNavigate).toHaveBeenCalledWith(
+          { search: "?q=test+query&f=test%3ATestFilter" },
+          { replace: false }
+        );
+      });
+    });
+
+    it("replaces the current entry when the view mode changes", async () => {
+      mockLocation = { pathname: "/search", search: "?q=test+query" };
+      render(<SearchPage />);
+
+      fireEvent.click(screen.getByTestId("change-view-mode-btn"));
+
+      await waitFor(() => {
+        expect(mockNavigate).toHaveBeenCalledWith({ search: "?q=test+query&view=table" }, { replace: true });
+      });
+    });
+
+    it("replaces the current entry when the sort changes", async () => {
+      mockLocation = { pathname: "/search", search: "?q=test+query" };
+      render(<SearchPage />);
+
+      act(() => {
+        capturedResourceViewerProps.onSortChange("lastModified", "desc");
+      });
+
+      await waitFor(() => {
+        expect(mockNavigate).toHaveBeenCalledWith({ search: "?q=test+query&sort=lastModified%3Adesc" }, { replace: true });
+      });
+    });
+
+    it("re-runs the search on browser back/forward", async () => {
+      mockLocation = { pathname: "/search", search: "?q=test+query" };
+      const { rerender } = render(<SearchPage />);
+      mockDispatch.mockClear();
+
+      mockLocation = { pathname: "/search", search: "?q=previous&f=project:my-project" };
+      rerender(<SearchPage />);
+
+      await waitFor(() => {
+        expect(mockDispatch).toHaveBeenCalledWith({
+          type: "resources/searchResourcesByTerm",
+          payload: expect.objectContaining({ term: "previous", filters: [{ name: "my-project", type: "project" }] }),
+        });
+      });
+    });
+  });
+  // ==========================================================================
+  // Saved Search Tests
+  // ==========================================================================
+
+  describe("Saved Searches", () => {
+    it("opens the save dialog with the current search", () => {
+      mockResourcesTotalSize = 42;
+      render(<SearchPage />);
+
+      fireEvent.click(screen.getByRole("button", { name: "Save search" }));
+
+      expect(screen.getByTestId("save-search-dialog")).toBeInTheDocument();
+      expect(screen.getByTestId("save-search-term")).toHaveTextContent("test query");
+      expect(screen.getByTestId("save-search-count")).toHaveTextContent("42");
+    });
+
+    it("disables saving without a term or filters", () => {
+      mockSearchTerm = "";
+      render(<SearchPage />);
+
+      expect(screen.getByRole("button", { name: "Save search" })).toBeDisabled();
+    });
+
+    it("records the result count when a saved search is re-run", async () => {
+      mockActiveSavedSearchId = "saved-1";
+      mockDispatch.mockImplementation((action: { type: string }) =>
+        action.type === "resources/searchResourcesByTerm"
+          ? Promise.resolve({ meta: { requestStatus: "fulfilled" }, payload: { results: { totalSize: 7 } } })
+          : action
+      );
+
+      render(<SearchPage />);
+
+      expect(mockDispatch).toHaveBeenCalledWith({ type: "savedSearches/setActiveSavedSearchId", payload: null });
+      await waitFor(() => {
+        expect(mockDispatch).toHaveBeenCalledWith({
+          type: "savedSearches/recordSavedSearchRun",
+          payload: { id: "saved-1", resultCount: 7, id_token: "test-token-123" },
+        });
+      });
+      mockDispatch.mockReset();
+    });
+  });
+
+  // ==========================================================================
+  // Export Tests
+  // ==========================================================================
+
+  describe("Export", () => {
+    it("opens the export dialog for the current search", () => {
+      mockResourcesRequestData = { query: "test query", pageSize: 100 };
+      mockResourcesTotalSize = 250;
+      render(<SearchPage />);
+
+      fireEvent.click(screen.getByRole("button", { name: "Export results" }));
+
+      expect(screen.getByTestId("export-dialog")).toHaveTextContent("250");
+    });
+
+    it("disables exporting without results", () => {
+      mockResourcesRequestData = { query: "test query", pageSize: 100 };
+      mockResourcesTotalSize = 0;
+      render(<SearchPage />);
+
+      expect(screen.getByRole("button", { name: "Export results" })).toBeDisabled();
+    });
+  });
 });
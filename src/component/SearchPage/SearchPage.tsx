@@ -1,15 +1,29 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
-import { Paper, useMediaQuery } from '@mui/material'
-import { Tune, Close } from '@mui/icons-material'
+import { IconButton, Paper, Tooltip, useMediaQuery } from '@mui/material'
+import { Tune, Close, BookmarkAddOutlined, FileDownloadOutlined } from '@mui/icons-material'
 import { useDispatch, useSelector } from 'react-redux'
+import { useLocation, useNavigate } from 'react-router-dom'
 import FilterDropdown from '../Filter/FilterDropDown'
-import type { AppDispatch } from '../../app/store'
+import type { AppDispatch, RootState } from '../../app/store'
+import type { DataplexSearchResponse } from '../../api/dataplexClient'
+import type { SearchFilter } from '../../utils/searchQuery'
 import { searchResourcesByTerm } from '../../features/resources/resourcesSlice'
-import { setSearchFiltersOpen } from '../../features/search/searchSlice'
+import { setSearchFilters, setSearchFiltersOpen, setSearchTerm, setSearchType, setSemanticSearch } from '../../features/search/searchSlice'
 import { useAuth } from '../../auth/AuthProvider'
 import ResourceViewer from '../Common/ResourceViewer'
 import ResourcePreview from '../Common/ResourcePreview'
+import SaveSearchDialog from '../SavedSearches/SaveSearchDialog'
+import ExportSearchResultsDialog from './ExportSearchResultsDialog'
+import { recordSavedSearchRun, setActiveSavedSearchId } from '../../features/savedSearches/savedSearchesSlice'
 import { typeAliases } from '../../utils/resourceUtils'
+import {
+  isSameSearch,
+  parseSearchUrlState,
+  serializeSearchUrlState,
+  type SearchSortBy,
+  type SearchSortOrder,
+  type SearchUrlState,
+} from '../../utils/searchUrlState'
 
 /**
  * @file SearchPage.tsx
@@ -36,6 +50,11 @@ import { typeAliases } from '../../utils/resourceUtils'
  * - It manages all pagination state (`startIndex`, `pageSize`, etc.) and
  * logic (`handlePagination`), dispatching new searches for more items
  * as the user paginates.
+ * - It mirrors the search (term, type, filters, sort and view mode) into the
+ * URL query string (see `searchUrlState.ts`). A shared link is loaded on
+ * first render, and browser back/forward re-runs the search in the URL.
+ * - The filter bar also holds the "Export results" action, which opens
+ * `ExportSearchResultsDialog` for the current search.
  *
  * @param {SearchPageProps} props - The props for the component.
  * @param {any[]} [props.searchResult] - (Optional) An array of search
@@ -56,11 +75,19 @@ const SearchPage: React.FC = () => {
   const searchSubmitted = useSelector((state: any) => state.search.searchSubmitted);
   const searchFilters = useSelector((state: any) => state.search.searchFilters);
   const mode = useSelector((state: any) => state.user.mode) as string;
+  const activeSavedSearchId = useSelector((state: RootState) => state.savedSearches.activeSavedSearchId);
   const id_token = user?.token || '';
+  const location = useLocation();
+  const navigate = useNavigate();
+  const initialUrlState = useRef(parseSearchUrlState(location.search)).current;
   const [previewData, setPreviewData] = useState<any | null>(null);
-  const [filters, setFilters] = useState<any[]>(searchFilters || []);
-  const [prevFilters, setPrevFilters] = useState<any[]>(searchFilters || []);
-  const [viewMode, setViewMode] = useState<'list' | 'table'>('list');
+  const [filters, setFilters] = useState<SearchFilter[]>(initialUrlState?.filters ?? searchFilters ?? []);
+  const [prevFilters, setPrevFilters] = useState<SearchFilter[]>(initialUrlState?.filters ?? searchFilters ?? []);
+  const [viewMode, setViewMode] = useState<'list' | 'table'>(initialUrlState?.viewMode ?? 'list');
+  const [sortBy, setSortBy] = useState<SearchSortBy>(initialUrlState?.sortBy ?? 'mostRelevant');
+  const [sortOrder, setSortOrder] = useState<SearchSortOrder>(initialUrlState?.sortOrder ?? 'asc');
+  const [isSaveSearchOpen, setIsSaveSearchOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
   const isFiltersOpen = useSelector((state: any) => state.search.isSearchFiltersOpen);
   const isSmallScreen = useMediaQuery('(max-width: 1280px)');
   const [startIndex, setStartIndex] = useState<number>(0);
@@ -69,7 +96,10 @@ const SearchPage: React.FC = () => {
   const isInitialMount = useRef(true);
   const isInitialFiltersMount = useRef(true);
   const isInitialSearchTypeMount = useRef(true);
-
+  const skipNextFiltersSearch = useRef(false);
+  const isInitialSearchFiltersSync = useRef(true);
+  const isInitialUrlWrite = useRef(true);
+  const lastUrlSearch = useRef(location.search);
 
   const handleFilterChange = useCallback((selectedFilters: any[]) => {
     setFilters(selectedFilters);
@@ -105,22 +135,72 @@ const SearchPage: React.FC = () => {
     };
   }, [mode]);
 
-  useEffect(() => {
-    if (!searchSubmitted) return; // Back navigation: retain existing data
-
+  const resetResults = () => {
     setPageSize(20);
     setPageNumber(1);
     setStartIndex(0);
-    // Clear previous search results in the store
     dispatch({ type: 'resources/setItemsPreviousPageRequest', payload: null });
     dispatch({ type: 'resources/setItemsPageRequest', payload: null });
     dispatch({ type: 'resources/setItemsStoreData', payload: [] });
-    if (searchTerm && searchTerm.trim() !== '') {
-      dispatch(searchResourcesByTerm({term : searchTerm, id_token: id_token, filters: filters, semanticSearch: semanticSearch}) );
+  };
+
+  // Make the search described by the URL the current one and run it.
+  const applyUrlSearch = (urlState: SearchUrlState) => {
+    dispatch(setSearchTerm({ searchTerm: urlState.term }));
+    dispatch(setSearchType({ searchType: urlState.searchType }));
+    dispatch(setSemanticSearch({ semanticSearch: urlState.semanticSearch }));
+    dispatch(setSearchFilters({ searchFilters: urlState.filters }));
+    if (JSON.stringify(urlState.filters) !== JSON.stringify(filters)) {
+      skipNextFiltersSearch.current = true;
+      setFilters(urlState.filters);
+    }
+    resetResults();
+    if (urlState.term.trim() !== '' || urlState.filters.length > 0) {
+      dispatch(searchResourcesByTerm({term : urlState.term, id_token: id_token, filters: urlState.filters, semanticSearch: urlState.semanticSearch}));
+    }
+  };
+
+  useEffect(() => {
+    const currentSearch = { term: searchTerm ?? '', searchType, filters: searchFilters ?? [], semanticSearch };
+    if (initialUrlState && !searchSubmitted && !isSameSearch(initialUrlState, currentSearch)) {
+      applyUrlSearch(initialUrlState); // Opened from a shared link or bookmark
+      return;
+    }
+    if (!searchSubmitted) return; // Back navigation: retain existing data
+
+    // Clear previous search results in the store
+    resetResults();
+    if ((searchTerm && searchTerm.trim() !== '') || filters.length > 0) {
+      const search = dispatch(searchResourcesByTerm({term : searchTerm, id_token: id_token, filters: filters, semanticSearch: semanticSearch}) );
+      if (activeSavedSearchId) {
+        // Re-run of a saved search from the Home page: remember its new result count
+        Promise.resolve(search).then((action) => {
+          if (action?.meta?.requestStatus === 'fulfilled') {
+            const results = (action.payload as { results?: DataplexSearchResponse } | undefined)?.results;
+            dispatch(recordSavedSearchRun({ id: activeSavedSearchId, resultCount: results?.totalSize ?? 0, id_token }));
+          }
+        });
+      }
     }
+    if (activeSavedSearchId) dispatch(setActiveSavedSearchId(null));
     dispatch({ type: 'search/setSearchSubmitted', payload: false });
   }, []);
 
+  // Pick up filters set outside this page (e.g. an advanced query parsed by the SearchBar).
+  // The search for them has already been dispatched by whoever submitted it.
+  useEffect(() => {
+    if (isInitialSearchFiltersSync.current) {
+      isInitialSearchFiltersSync.current = false;
+      return; // Skip on mount — filters were initialised from the URL or the store
+    }
+    if (JSON.stringify(searchFilters ?? []) !== JSON.stringify(filters)) {
+      skipNextFiltersSearch.current = true;
+      setFilters(searchFilters ?? []);
+    }
+    // Only a change in the store counts; local filter changes must not be undone here
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchFilters]);
+
   useEffect(() => {
     if (isInitialMount.current) {
       isInitialMount.current = false;
@@ -144,7 +224,9 @@ const SearchPage: React.FC = () => {
     dispatch({ type: 'resources/setItemsStoreData', payload: [] });
     setStartIndex(0);
     setPageNumber(1);
-    if(filters.length > 0 || prevFilters.length > 0){
+    if (skipNextFiltersSearch.current) {
+      skipNextFiltersSearch.current = false;
+    } else if(filters.length > 0 || prevFilters.length > 0){
       dispatch(searchResourcesByTerm({term : searchTerm, id_token: id_token, filters: filters, semanticSearch: semanticSearch}));
     }
     setPrevFilters(filters);
@@ -177,6 +259,43 @@ const SearchPage: React.FC = () => {
     }
   }, [searchType]);
 
+  // Keep the URL in step with the current search. A new search adds a history
+  // entry; sort and view changes replace the current one.
+  useEffect(() => {
+    const isInitialWrite = isInitialUrlWrite.current;
+    isInitialUrlWrite.current = false;
+    if (isInitialWrite && initialUrlState && !searchSubmitted) return; // The URL is the source of truth on load
+    const current = { term: searchTerm ?? '', searchType, filters, semanticSearch, sortBy, sortOrder, viewMode };
+    const search = serializeSearchUrlState(current);
+    if (search === location.search) return;
+    const urlState = parseSearchUrlState(location.search);
+    lastUrlSearch.current = search;
+    navigate({ search }, { replace: isInitialWrite || !urlState || isSameSearch(urlState, current) });
+    // Runs for search state changes only; the URL is read, not watched
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchTerm, searchType, filters, semanticSearch, sortBy, sortOrder, viewMode]);
+
+  // Browser back/forward: run the search from the URL if it differs from the current one.
+  useEffect(() => {
+    if (location.search === lastUrlSearch.current) return;
+    lastUrlSearch.current = location.search;
+    const urlState = parseSearchUrlState(location.search);
+    if (!urlState) return;
+    setViewMode(urlState.viewMode);
+    setSortBy(urlState.sortBy);
+    setSortOrder(urlState.sortOrder);
+    if (!isSameSearch(urlState, { term: searchTerm ?? '', searchType, filters, semanticSearch })) {
+      applyUrlSearch(urlState);
+    }
+    // Runs for URL changes only; the search state is read, not watched
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [location.search]);
+
+  const handleSortChange = (nextSortBy: SearchSortBy, nextSortOrder: SearchSortOrder) => {
+    setSortBy(nextSortBy);
+    setSortOrder(nextSortOrder);
+  };
+
   // Select data from the Redux store
   const resources = useSelector((state: any) => state.resources.items);
   const resourcesStatus = useSelector((state: any) => state.resources.status);
@@ -309,6 +428,36 @@ const SearchPage: React.FC = () => {
         }}>Filters</span>
     </span>
   );
+  const saveSearchButton = (
+    <Tooltip title="Save search">
+      <span>
+        <IconButton
+          size="small"
+          aria-label="Save search"
+          disabled={(!searchTerm || searchTerm.trim() === '') && filters.length === 0}
+          onClick={() => setIsSaveSearchOpen(true)}
+          sx={{ color: filterActiveColor, marginLeft: '-16px' }}
+        >
+          <BookmarkAddOutlined sx={{ fontSize: '20px' }} />
+        </IconButton>
+      </span>
+    </Tooltip>
+  );
+  const exportButton = (
+    <Tooltip title="Export results">
+      <span>
+        <IconButton
+          size="small"
+          aria-label="Export results"
+          disabled={!resourcesRequestData || !resourcesTotalSize}
+          onClick={() => setIsExportOpen(true)}
+          sx={{ color: filterActiveColor }}
+        >
+          <FileDownloadOutlined sx={{ fontSize: '20px' }} />
+        </IconButton>
+      </span>
+    </Tooltip>
+  );
 
   return (
     <>
@@ -362,11 +511,14 @@ const SearchPage: React.FC = () => {
                       typeAliases={typeAliases}
                       viewMode={viewMode}
                       onViewModeChange={setViewMode}
+                      sortBy={sortBy}
+                      sortOrder={sortOrder}
+                      onSortChange={handleSortChange}
                       id_token={id_token}
                       showFilters={true}
                       showSortBy={true}
                       showResultsCount={true}
-                      customFilters={customFilters}
+                      customFilters={<>{customFilters}{saveSearchButton}{exportButton}</>}
                       selectedFilters={filters}
                       onFiltersChange={handleFilterChange}
                       availableTypeAliases={availableTypeAliases}
@@ -417,6 +569,19 @@ const SearchPage: React.FC = () => {
                 </Paper>
             </div>
         </div>
+        <SaveSearchDialog
+          open={isSaveSearchOpen}
+          onClose={() => setIsSaveSearchOpen(false)}
+          search={{ term: searchTerm ?? '', searchType, filters, semanticSearch: semanticSearch !== false }}
+          resultCount={resourcesTotalSize}
+        />
+        <ExportSearchResultsDialog
+          open={isExportOpen}
+          onClose={() => setIsExportOpen(false)}
+          requestResourceData={resourcesRequestData}
+          totalResults={resourcesTotalSize}
+          loadedResults={requestItemStore}
+        />
     </>
   )
 }
@@ -0,0 +1,164 @@
+import React, { useMemo, useState } from 'react';
+import { Box, Button, Checkbox, FormControlLabel, IconButton, Popover, TextField, Tooltip, Typography } from '@mui/material';
+import { ViewColumnOutlined } from '@mui/icons-material';
+import { useSelector } from 'react-redux';
+import type { RootState } from '../../app/store';
+import type { ExportAspectField } from '../../utils/searchExport';
+import {
+  DEFAULT_SEARCH_TABLE_COLUMN_PREFS,
+  getAspectColumnKey,
+  getAspectColumnLabel,
+  SEARCH_TABLE_FIXED_COLUMNS,
+  type SearchTableColumnPrefs,
+} from '../../utils/searchTableColumns';
+
+/**
+ * @file SearchTableColumnChooser.tsx
+ * @description
+ * Header button of `SearchTableView` that opens the column chooser: the fixed
+ * columns can be hidden (except Name), and any aspect field found in the
+ * results can be added as a column. Changes are applied right away through
+ * `onChange`; the table saves them for the signed-in user.
+ *
+ * @param {SearchTableColumnChooserProps} props
+ * @param {SearchTableColumnPrefs} props.prefs - The current column choice.
+ * @param {ExportAspectField[]} props.aspectFieldOptions - Aspect fields that
+ * can be added.
+ * @param {(prefs: SearchTableColumnPrefs) => void} props.onChange - Called
+ * with the new column choice.
+ */
+
+interface SearchTableColumnChooserProps {
+  prefs: SearchTableColumnPrefs;
+  aspectFieldOptions: ExportAspectField[];
+  onChange: (prefs: SearchTableColumnPrefs) => void;
+}
+
+const SearchTableColumnChooser: React.FC<SearchTableColumnChooserProps> = ({ prefs, aspectFieldOptions, onChange }) => {
+  const mode = useSelector((state: RootState) => state.user.mode);
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [query, setQuery] = useState('');
+  const textColor = mode === 'dark' ? '#e3e3e3' : '#1F1F1F';
+  const secondaryColor = mode === 'dark' ? '#9aa0a6' : '#575757';
+
+  const selectedAspectKeys = useMemo(
+    () => new Set(prefs.aspectColumns.map(getAspectColumnKey)),
+    [prefs.aspectColumns]
+  );
+
+  const visibleOptions = useMemo(() => {
+    const text = query.trim().toLowerCase();
+    return text
+      ? aspectFieldOptions.filter((option) => getAspectColumnLabel(option, aspectFieldOptions).toLowerCase().includes(text))
+      : aspectFieldOptions;
+  }, [aspectFieldOptions, query]);
+
+  const toggleFixedColumn = (key: string) => {
+    const hiddenColumns = prefs.hiddenColumns.includes(key)
+      ? prefs.hiddenColumns.filter((hidden) => hidden !== key)
+      : [...prefs.hiddenColumns, key];
+    onChange({ ...prefs, hiddenColumns });
+  };
+
+  const toggleAspectColumn = (option: ExportAspectField) => {
+    const key = getAspectColumnKey(option);
+    const aspectColumns = selectedAspectKeys.has(key)
+      ? prefs.aspectColumns.filter((column) => getAspectColumnKey(column) !== key)
+      : [...prefs.aspectColumns, option];
+    onChange({ ...prefs, aspectColumns });
+  };
+
+  const labelSx = { '& .MuiFormControlLabel-label': { fontSize: '14px', color: textColor } };
+
+  return (
+    <>
+      <Tooltip title="Choose columns">
+        <IconButton
+          size="small"
+          aria-label="Choose columns"
+          onClick={(e) => { e.stopPropagation(); setAnchorEl(e.currentTarget); }}
+          sx={{ color: mode === 'dark' ? '#dedfe0' : '#444746' }}
+        >
+          <ViewColumnOutlined sx={{ fontSize: '20px' }} />
+        </IconButton>
+      </Tooltip>
+      <Popover
+        open={Boolean(anchorEl)}
+        anchorEl={anchorEl}
+        onClose={() => { setAnchorEl(null); setQuery(''); }}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+        transformOrigin={{ vertical: 'top', horizontal: 'right' }}
+        slotProps={{ paper: { sx: { width: '320px', maxHeight: '480px', borderRadius: '12px', display: 'flex', flexDirection: 'column' } } }}
+      >
+        <Typography sx={{ fontSize: '16px', fontWeight: 500, color: textColor, padding: '12px 16px 4px' }}>
+          Columns
+        </Typography>
+        <Box sx={{ display: 'flex', flexDirection: 'column', padding: '0 16px' }}>
+          {SEARCH_TABLE_FIXED_COLUMNS.map((column) => (
+            <FormControlLabel
+              key={column.key}
+              label={column.label}
+              disabled={!column.hideable}
+              sx={labelSx}
+              control={(
+                <Checkbox
+                  size="small"
+                  checked={!prefs.hiddenColumns.includes(column.key)}
+                  onChange={() => toggleFixedColumn(column.key)}
+                />
+              )}
+            />
+          ))}
+        </Box>
+        <Typography sx={{ fontSize: '14px', fontWeight: 500, color: textColor, padding: '12px 16px 4px' }}>
+          Aspect fields
+        </Typography>
+        {aspectFieldOptions.length === 0 ? (
+          <Typography sx={{ fontSize: '12px', color: secondaryColor, padding: '0 16px 12px' }}>
+            The results have no aspect fields to add.
+          </Typography>
+        ) : (
+          <>
+            <Box sx={{ padding: '4px 16px 8px' }}>
+              <TextField
+                size="small"
+                fullWidth
+                placeholder="Find aspect field"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                slotProps={{ htmlInput: { 'aria-label': 'Find aspect field' } }}
+              />
+            </Box>
+            <Box sx={{ display: 'flex', flexDirection: 'column', padding: '0 16px', overflowY: 'auto', minHeight: '80px' }}>
+              {visibleOptions.map((option) => (
+                <FormControlLabel
+                  key={getAspectColumnKey(option)}
+                  label={getAspectColumnLabel(option, aspectFieldOptions)}
+                  sx={labelSx}
+                  control={(
+                    <Checkbox
+                      size="small"
+                      checked={selectedAspectKeys.has(getAspectColumnKey(option))}
+                      onChange={() => toggleAspectColumn(option)}
+                    />
+                  )}
+                />
+              ))}
+            </Box>
+          </>
+        )}
+        <Box sx={{ display: 'flex', justifyContent: 'flex-end', padding: '8px' }}>
+          <Button
+            size="small"
+            onClick={() => onChange(DEFAULT_SEARCH_TABLE_COLUMN_PREFS)}
+            sx={{ textTransform: 'none' }}
+          >
+            Reset to default
+          </Button>
+        </Box>
+      </Popover>
+    </>
+  );
+};
+
+export default SearchTableColumnChooser;
@@ -6,16 +6,16 @@ import { Provider } from "react-redux";
 import SearchTableView from "./SearchTableView";
 
 // Create a mock Redux store with user state
-const createMockStore = () =>
+const createMockStore = (userData: { email?: string } | null = null) =>
   configureStore({
     reducer: {
-      user: (state = { mode: 'light' }) => state,
+      user: (state = { mode: 'light', userData }) => state,
     },
   });
 
 // Custom render that wraps with Redux Provider
 const render = (ui: React.ReactElement, options?: any) => {
-  const store = createMockStore();
+  const store = createMockStore(options?.userData);
   const Wrapper = ({ children }: { children: React.ReactNode }) => (
     <Provider store={store}>{children}</Provider>
   );
@@ -102,6 +102,7 @@ const defaultProps = {
 describe("SearchTableView", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    localStorage.clear();
   });
 
   describe("Basic Rendering", () => {
@@ -1365,6 +1366,89 @@ describe("SearchTableView", () => {
     });
   });
 
+  describe("Configurable Columns", () => {
+    const aspectResource = (name: string, domain: string, cadence: string) =>
+      createMockResource({
+        dataplexEntry: {
+          name: `projects/test/entries/${name}`,
+          entrySource: { displayName: name, description: "Test", system: "bigquery" },
+          updateTime: { seconds: 1700000000 },
+          aspects: {
+            "1.global.governance": { data: { domain, refreshCadence: cadence } },
+          },
+        },
+      });
+
+    const aspectResources = [
+      aspectResource("orders", "sales", "daily"),
+      aspectResource("invoices", "finance", "hourly"),
+      aspectResource("leads", "sales", "hourly"),
+    ];
+
+    // Queried through the DOM as open popovers hide the table from the accessibility tree
+    const getFirstColumn = () =>
+      Array.from(document.querySelectorAll("tbody tr")).map((row) => row.querySelector("td")!.textContent);
+
+    const addAspectColumn = (label: string) => {
+      fireEvent.click(screen.getByRole("button", { name: "Choose columns" }));
+      fireEvent.click(screen.getByRole("checkbox", { name: label }));
+      fireEvent.keyDown(screen.getByRole("presentation"), { key: "Escape" });
+    };
+
+    it("adds aspect fields from the results as columns and saves the choice", () => {
+      render(<SearchTableView {...defaultProps} resources={aspectResources} />, { userData: { email: "a@example.com" } });
+
+      addAspectColumn("governance.domain");
+
+      const table = screen.getByRole("table");
+      expect(within(table).getByText("governance.domain")).toBeInTheDocument();
+      expect(within(table).getAllByText("sales")).toHaveLength(2);
+      expect(JSON.parse(localStorage.getItem("searchTableColumns:a@example.com")!)).toEqual({
+        hiddenColumns: [],
+        aspectColumns: [{ aspectKey: "1.global.governance", field: "domain" }],
+      });
+    });
+
+    it("restores the columns saved for the user", () => {
+      localStorage.setItem("searchTableColumns:a@example.com", JSON.stringify({
+        hiddenColumns: ["description"],
+        aspectColumns: [{ aspectKey: "1.global.governance", field: "refreshCadence" }],
+      }));
+
+      render(<SearchTableView {...defaultProps} resources={aspectResources} />, { userData: { email: "a@example.com" } });
+
+      expect(screen.queryByText("Description")).not.toBeInTheDocument();
+      expect(screen.getByText("governance.refreshCadence")).toBeInTheDocument();
+      expect(screen.getAllByTestId("resize-handle")).toHaveLength(4);
+    });
+
+    it("sorts by several columns with shift-click", () => {
+      render(<SearchTableView {...defaultProps} resources={aspectResources} />);
+      addAspectColumn("governance.domain");
+
+      const domainHeader = within(screen.getByRole("table")).getByText("governance.domain").closest("[role='button']")!;
+      const nameHeader = within(screen.getByRole("table")).getByText("Name").closest("th");
+      fireEvent.click(domainHeader);
+      fireEvent.click(within(nameHeader!).getByRole("button"), { shiftKey: true });
+
+      expect(getFirstColumn()).toEqual(["invoices", "leads", "orders"]);
+
+      // Descending name within each domain
+      fireEvent.click(within(nameHeader!).getByRole("button"), { shiftKey: true });
+      expect(getFirstColumn()).toEqual(["invoices", "orders", "leads"]);
+    });
+
+    it("filters rows by an aspect column", () => {
+      render(<SearchTableView {...defaultProps} resources={aspectResources} />);
+      addAspectColumn("governance.refreshCadence");
+
+      fireEvent.click(screen.getByRole("button", { name: "Filter governance.refreshCadence" }));
+      fireEvent.change(screen.getByRole("textbox", { name: "Filter governance.refreshCadence" }), { target: { value: "HOUR" } });
+
+      expect(getFirstColumn()).toEqual(["invoices", "leads"]);
+    });
+  });
+
   describe("Column Resizing", () => {
     it("renders 4 resize handles (one per column except last)", () => {
       render(
@@ -1,10 +1,27 @@
-import React, { useState, useRef } from 'react';
-import { Box, Typography, Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Paper, Tooltip } from '@mui/material';
-import { Lock } from '@mui/icons-material';
+import React, { useState, useRef, useEffect } from 'react';
+import { Box, Typography, Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Paper, Tooltip, IconButton, Popover, TextField } from '@mui/material';
+import { FilterList, Lock } from '@mui/icons-material';
 import { useSelector } from 'react-redux';
+import type { RootState } from '../../app/store';
+import type { DataplexEntry, DataplexSearchResult } from '../../api/dataplexClient';
 import Tag from '../Tags/Tag';
 import { useColumnResize } from '../../hooks/useColumnResize';
 import ResizeHandle from '../Schema/ResizeHandle';
+import SearchTableColumnChooser from './SearchTableColumnChooser';
+import { getAspectFieldOptions, getAspectFieldValue, type ExportAspectField } from '../../utils/searchExport';
+import {
+  filterSearchResults,
+  getAspectColumnKey,
+  getAspectColumnLabel,
+  getNextSort,
+  loadSearchTableColumnPrefs,
+  saveSearchTableColumnPrefs,
+  SEARCH_TABLE_FIXED_COLUMNS,
+  sortSearchResults,
+  type SearchTableColumnPrefs,
+  type SearchTableSort,
+  type SortValue,
+} from '../../utils/searchTableColumns';
 
 /**
  * @file SearchTableView.tsx
@@ -13,8 +30,14 @@ import ResizeHandle from '../Schema/ResizeHandle';
  *
  * It displays a list of `resources` in rows, with columns for Name,
  * Description, Type (as `Tag` components), Location, and Last Modified date.
- * It provides local state for sorting the "Name" and "Last modified" columns
- * in ascending, descending, or default order.
+ * The column chooser in the last header cell (`SearchTableColumnChooser`)
+ * hides fixed columns and adds aspect fields found in the results as
+ * columns; the choice is saved per user (see `searchTableColumns.ts`).
+ *
+ * Clicking the "Name", "Location", "Last modified" or an aspect column header
+ * sorts the loaded results in ascending, descending, or default order;
+ * shift-click sorts by several columns. Aspect columns can also be filtered
+ * by text.
  *
  * The component relies on helper functions passed as props (`getFormatedDate`,
  * `getEntryType`) to correctly parse and display data.
@@ -46,6 +69,24 @@ interface SearchTableViewProps {
   selectedEntryName?: string | null;
 }
 
+interface TableColumn {
+  key: string;
+  label: string;
+  initialWidth: number;
+  minWidth: number;
+  aspectField?: ExportAspectField;
+}
+
+// Width of the trailing header cell holding the column chooser
+const CHOOSER_COLUMN_WIDTH = 48;
+
+const toTimestamp = (raw: unknown) => {
+  if (!raw) return 0;
+  if (typeof raw === 'string') return new Date(raw).getTime();
+  if (typeof raw === 'object' && 'seconds' in raw && raw.seconds) return Number(raw.seconds) * 1000;
+  return typeof raw === 'number' ? raw * 1000 : 0;
+};
+
 // const capitalizeFirstLetter = (s: any) => {
 //   if (typeof s !== 'string' || s.length === 0) {
 //     return '';
@@ -119,145 +160,370 @@ const SearchTableView: React.FC<SearchTableViewProps> = ({
   const borderRight = previewOpen ? '0px' : '10px';
   const gradientRight = previewOpen ? '0px' : '10px';
   // const [favorites, setFavorites] = useState<Set<string>>(new Set());
-  const [sortColumn, setSortColumn] = useState<'name' | 'date' | 'location' | null>(null);
-  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
+  const userEmail = useSelector((state: RootState) => state.user.userData?.email);
+  const [columnPrefs, setColumnPrefs] = useState<SearchTableColumnPrefs>(() => loadSearchTableColumnPrefs(userEmail));
+  const [sorts, setSorts] = useState<SearchTableSort[]>([]);
+  const [columnFilters, setColumnFilters] = useState<Record<string, string>>({});
+  const [filterAnchor, setFilterAnchor] = useState<{ el: HTMLElement; column: TableColumn } | null>(null);
+
+  useEffect(() => {
+    setColumnPrefs(loadSearchTableColumnPrefs(userEmail));
+  }, [userEmail]);
+
+  const handleColumnPrefsChange = (prefs: SearchTableColumnPrefs) => {
+    setColumnPrefs(prefs);
+    saveSearchTableColumnPrefs(userEmail, prefs);
+  };
 
-  const COLUMN_CONFIGS = React.useMemo(() => [
-    { key: 'name', initialWidth: 250, minWidth: 120 },
-    { key: 'description', initialWidth: 300, minWidth: 120 },
-    { key: 'type', initialWidth: 170, minWidth: 100 },
-    { key: 'location', initialWidth: 130, minWidth: 80 },
-    { key: 'lastModified', initialWidth: 150, minWidth: 100 },
-  ], []);
+  const columns: TableColumn[] = React.useMemo(() => [
+    ...SEARCH_TABLE_FIXED_COLUMNS.filter((column) => !columnPrefs.hiddenColumns.includes(column.key)),
+    ...columnPrefs.aspectColumns.map((aspectField) => ({
+      key: getAspectColumnKey(aspectField),
+      label: getAspectColumnLabel(aspectField, columnPrefs.aspectColumns),
+      initialWidth: 160,
+      minWidth: 80,
+      aspectField,
+    })),
+  ], [columnPrefs]);
 
   const { columnWidths, activeIndex, handleMouseDown } = useColumnResize({
-    columns: COLUMN_CONFIGS,
+    columns,
     mode: 'coupled',
   });
 
+  // Widths of the data columns; the column chooser keeps a fixed width.
   const columnPercents = React.useMemo(() => {
     const total = columnWidths.reduce((s, w) => s + w, 0);
-    return columnWidths.map(w => `${((w / total) * 100).toFixed(2)}%`);
+    return columnWidths.map(w => `calc((100% - ${CHOOSER_COLUMN_WIDTH}px) * ${(w / total).toFixed(4)})`);
   }, [columnWidths]);
 
+  const aspectFieldOptions = React.useMemo(() => {
+    const options = getAspectFieldOptions(resources);
+    const known = new Set(options.map(getAspectColumnKey));
+    // Keep chosen fields listed even when the current results do not have them
+    return [...options, ...columnPrefs.aspectColumns.filter((column) => !known.has(getAspectColumnKey(column)))];
+  }, [resources, columnPrefs.aspectColumns]);
+
   const handleRowClick = (entry: any) => {
     onRowClick(entry);
   };
 
   const displayedResources = React.useMemo(() => {
-    if (!sortColumn) return resources;
-
-    if (sortColumn === 'date') {
-      const toTimestamp = (raw: any) => {
-        if (!raw) return 0;
-        if (typeof raw === 'string') return new Date(raw).getTime();
-        if (raw.seconds) return raw.seconds * 1000;
-        return typeof raw === 'number' ? raw * 1000 : 0;
-      };
-      const sorted = [...resources].sort((a: any, b: any) => {
-        const aTs = toTimestamp(a?.dataplexEntry?.updateTime || a?.dataplexEntry?.createTime);
-        const bTs = toTimestamp(b?.dataplexEntry?.updateTime || b?.dataplexEntry?.createTime);
-        return aTs - bTs;
-      });
-      return sortOrder === 'asc' ? sorted : sorted.reverse();
-    }
-
-    if (sortColumn === 'name') {
-      const sorted = [...resources].sort((a: any, b: any) => {
-        const aName = (a?.dataplexEntry?.name || '').split('/').pop() || '';
-        const bName = (b?.dataplexEntry?.name || '').split('/').pop() || '';
-        return aName.localeCompare(bName, undefined, { sensitivity: 'base' });
-      });
-      return sortOrder === 'asc' ? sorted : sorted.reverse();
-    }
-
-    if (sortColumn === 'location') {
-      const sorted = [...resources].sort((a: any, b: any) => {
-        const aLoc = a?.dataplexEntry?.entrySource?.location || '';
-        const bLoc = b?.dataplexEntry?.entrySource?.location || '';
-        return aLoc.localeCompare(bLoc, undefined, { sensitivity: 'base' });
-      });
-      return sortOrder === 'asc' ? sorted : sorted.reverse();
-    }
-
-    return resources;
-  }, [resources, sortColumn, sortOrder]);
-
-  const handleToggleNameSort = (event: React.MouseEvent) => {
+    const getSortValue = (resource: DataplexSearchResult, key: string): SortValue => {
+      if (key === 'name') return (resource?.dataplexEntry?.name || '').split('/').pop() || '';
+      if (key === 'location') return resource?.dataplexEntry?.entrySource?.location || '';
+      if (key === 'lastModified') return toTimestamp(resource?.dataplexEntry?.updateTime || resource?.dataplexEntry?.createTime);
+      const column = columns.find((c) => c.key === key);
+      return column?.aspectField ? getAspectFieldValue(resource, column.aspectField) : '';
+    };
+    const visibleKeys = new Set(columns.map((column) => column.key));
+    const filtered = filterSearchResults(resources, columnFilters, columnPrefs.aspectColumns);
+    return sortSearchResults(filtered, sorts.filter((sort) => visibleKeys.has(sort.key)), getSortValue);
+  }, [resources, sorts, columns, columnFilters, columnPrefs.aspectColumns]);
+
+  // Shift-click adds the column to the current sort instead of replacing it
+  const handleToggleSort = (key: string) => (event: React.MouseEvent) => {
     event.stopPropagation();
-    if (sortColumn === 'name') {
-      if (sortOrder === 'asc') {
-        setSortOrder('desc');
-      } else {
-        // desc → back to default (most relevant)
-        setSortColumn(null);
-        setSortOrder('asc');
-      }
-    } else {
-      setSortColumn('name');
-      setSortOrder('asc');
-    }
+    setSorts((current) => getNextSort(current, key, event.shiftKey));
   };
 
-  const handleToggleDateSort = (event: React.MouseEvent) => {
-    event.stopPropagation();
-    if (sortColumn === 'date') {
-      if (sortOrder === 'asc') {
-        setSortOrder('desc');
-      } else {
-        // desc → back to default (most relevant)
-        setSortColumn(null);
-        setSortOrder('asc');
-      }
-    } else {
-      setSortColumn('date');
-      setSortOrder('asc');
-    }
+  const getSortOrder = (key: string) => sorts.find((sort) => sort.key === key)?.order ?? null;
+
+  const getSortTooltip = (key: string): string => {
+    const order = getSortOrder(key);
+    if (order === 'desc') return '';
+    if (key === 'lastModified') return order === 'asc' ? 'Sort new to old' : 'Sort old to new';
+    return order === 'asc' ? 'Sort Z to A' : 'Sort A to Z';
   };
 
-  const handleToggleLocationSort = (event: React.MouseEvent) => {
-    event.stopPropagation();
-    if (sortColumn === 'location') {
-      if (sortOrder === 'asc') {
-        setSortOrder('desc');
-      } else {
-        setSortColumn(null);
-        setSortOrder('asc');
-      }
-    } else {
-      setSortColumn('location');
-      setSortOrder('asc');
-    }
+  const renderSortHeader = (column: TableColumn, alignRight = false) => {
+    const order = getSortOrder(column.key);
+    const priority = sorts.length > 1 ? sorts.findIndex((sort) => sort.key === column.key) + 1 : 0;
+    const arrow = (
+      <Box
+        component="span"
+        className="sort-btn"
+        sx={{
+          display: 'flex',
+          alignItems: 'center',
+          flexShrink: 0,
+          opacity: order ? 1 : 0,
+          transform: order === 'desc' ? 'rotate(180deg)' : 'none',
+          transition: 'transform 0.2s ease-in-out, opacity 0.2s ease',
+        }}
+      >
+        <svg width="18" height="18" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+          <rect width="24" height="24" rx="12" fill={isDark ? '#004a77' : '#C2E7FF'}/>
+          <path d="M11.168 15.4818L11.168 5.33594L12.8346 5.33594L12.8346 15.4818L17.5013 10.8151L18.668 12.0026L12.0013 18.6693L5.33464 12.0026L6.5013 10.8151L11.168 15.4818Z" fill={isDark ? '#8ab4f8' : '#004A77'}/>
+        </svg>
+      </Box>
+    );
+    return (
+      <Tooltip title={getSortTooltip(column.key)} slotProps={{ popper: { modifiers: [{ name: 'offset', options: { offset: [0, -14] } }] } }}>
+        <Box
+          role="button"
+          onClick={handleToggleSort(column.key)}
+          sx={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: alignRight ? 'flex-end' : 'flex-start',
+            gap: '4px',
+            minWidth: 0,
+            cursor: 'pointer',
+            borderRadius: '4px',
+            padding: '4px 8px',
+            margin: '-4px -8px',
+            transition: 'background-color 0.2s ease',
+            '&:hover': {
+              backgroundColor: isDark ? '#3c4043' : '#F8F9FA',
+            },
+          }}
+        >
+          {alignRight && arrow}
+          <span style={{ whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>{column.label}</span>
+          {!alignRight && arrow}
+          {priority > 0 && (
+            <span style={{ fontSize: '10px', color: isDark ? '#8ab4f8' : '#004A77' }}>{priority}</span>
+          )}
+        </Box>
+      </Tooltip>
+    );
   };
 
-  const getLocationSortTooltip = (): string => {
-    if (sortColumn === 'location' && sortOrder === 'asc') {
-      return 'Sort Z to A';
-    }
-    if (sortColumn === 'location' && sortOrder === 'desc') {
-      return '';
-    }
-    return 'Sort A to Z';
+  const headerCellSx = {
+    fontFamily: '"Google Sans", sans-serif',
+    fontSize: '12px',
+    fontWeight: '500',
+    color: isDark ? '#dedfe0' : '#444746',
+    position: 'relative',
   };
 
-  const getNameSortTooltip = (): string => {
-    if (sortColumn === 'name' && sortOrder === 'asc') {
-      return 'Sort Z to A';
-    }
-    if (sortColumn === 'name' && sortOrder === 'desc') {
-      return '';
+  const renderHeaderCell = (column: TableColumn, index: number) => {
+    const isLast = index === columns.length - 1;
+    let content: React.ReactNode = column.label;
+    if (column.key === 'name' || column.key === 'location') content = renderSortHeader(column);
+    if (column.key === 'lastModified') content = renderSortHeader(column, true);
+    if (column.aspectField) {
+      const filterText = columnFilters[column.key] ?? '';
+      content = (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: '4px', minWidth: 0 }}>
+          <Box sx={{ minWidth: 0, flex: 1 }}>{renderSortHeader(column)}</Box>
+          <Tooltip title={filterText ? `Filter: ${filterText}` : 'Filter'}>
+            <IconButton
+              size="small"
+              aria-label={`Filter ${column.label}`}
+              onClick={(e) => { e.stopPropagation(); setFilterAnchor({ el: e.currentTarget, column }); }}
+              sx={{ padding: '2px', color: filterText ? (isDark ? '#8ab4f8' : '#0B57D0') : 'inherit' }}
+            >
+              <FilterList sx={{ fontSize: '16px' }} />
+            </IconButton>
+          </Tooltip>
+        </Box>
+      );
     }
-    return 'Sort A to Z';
+    return (
+      <TableCell key={column.key} sx={headerCellSx}>
+        {content}
+        {!isLast && (
+          <ResizeHandle
+            onMouseDown={(e) => { e.stopPropagation(); handleMouseDown(index, e); }}
+            isActive={activeIndex === index}
+            darkMode={isDark}
+          />
+        )}
+      </TableCell>
+    );
   };
 
-  const getDateSortTooltip = (): string => {
-    if (sortColumn === 'date' && sortOrder === 'asc') {
-      return 'Sort new to old';
-    }
-    if (sortColumn === 'date' && sortOrder === 'desc') {
-      return '';
+  const renderBodyCell = (column: TableColumn, entry: DataplexEntry, hasLock: boolean) => {
+    switch (column.key) {
+      case 'name':
+        return (
+          <TableCell
+            key={column.key}
+            sx={{
+              fontFamily: '"Google Sans", sans-serif',
+              fontSize: '12px',
+              color: mode === 'dark' ? '#dedfe0' : '#1F1F1F',
+              padding: '10px 20px',
+              paddingLeft: '20px',
+              overflow: 'hidden',
+            }}
+          >
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: '2px', overflow: 'hidden' }}>
+              <OverflowTooltip text={getNameFromEntry(entry)}>
+                <Typography
+                  sx={{
+                    flex: 1,
+                    fontFamily: '"Google Sans", sans-serif',
+                    fontSize: '14px',
+                    fontWeight: 400,
+                    color: mode === 'dark' ? '#dedfe0' : '#1F1F1F',
+                    cursor: 'pointer',
+                    textOverflow: 'ellipsis',
+                    overflow: 'hidden',
+                    whiteSpace: 'nowrap'
+                  }}
+                >
+                  {getNameFromEntry(entry)}
+                </Typography>
+              </OverflowTooltip>
+              {hasLock && (
+                <Lock sx={{ fontSize: '12px', color: mode === 'dark' ? '#dedfe0' : '#575757', flexShrink: 0 }} />
+              )}
+            </Box>
+          </TableCell>
+        );
+      case 'description':
+        return (
+          <TableCell
+            key={column.key}
+            sx={{
+              fontFamily: '"Product Sans", "Google Sans Text", sans-serif',
+              fontSize: '12px',
+              color: mode === 'dark' ? '#dedfe0' : '#575757',
+              padding: '10px 20px',
+              overflow: 'hidden',
+            }}
+          >
+            <Typography
+              sx={{
+                fontFamily: '"Product Sans", "Google Sans Text", sans-serif',
+                fontSize: '14px',
+                fontWeight: '400',
+                color: mode === 'dark' ? '#dedfe0' : '#575757',
+                letterSpacing: '0.1px',
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+                whiteSpace: 'nowrap'
+              }}
+            >
+              {entry.entrySource?.description || 'No Description Available'}
+            </Typography>
+          </TableCell>
+        );
+      case 'type':
+        return (
+          <TableCell
+            key={column.key}
+            sx={{
+              padding: '10px 20px'
+            }}
+          >
+            <Box sx={{ display: 'flex', gap: '8px', flexWrap: 'wrap', overflow: 'hidden' }}>
+              <OverflowTag
+                text={(() => {
+                  const sys = entry.entrySource?.system;
+                  if (!sys) return 'Custom';
+                  const lower = sys.toLowerCase();
+                  if (lower === 'dataplex universal catalog' || lower === 'dataplex') return 'Knowledge Catalog';
+                  if (lower === 'bigquery') return 'BigQuery';
+                  return sys.charAt(0).toUpperCase() + sys.slice(1).toLowerCase();
+                })()}
+                className="asset-tag"
+                css={{
+                  fontFamily: '"Google Sans", sans-serif',
+                  backgroundColor: mode === 'dark' ? '#004a76' : '#C2E7FF',
+                  color: mode === 'dark' ? '#c1e6ff' : '#004A77',
+                  borderRadius: '8px',
+                  height: '20px',
+                  padding: '0px 8px',
+                  fontSize: '12px',
+                  fontWeight: '500',
+                  textTransform: 'capitalize',
+                  border: 'none',
+                  cursor: 'default',
+                  transition: 'none',
+                }}
+              />
+              <OverflowTag
+                text={getEntryType(entry.name, '/')}
+                className="asset-tag"
+                css={{
+                  fontFamily: '"Google Sans", sans-serif',
+                  backgroundColor: mode === 'dark' ? '#004a76' : '#C2E7FF',
+                  color: mode === 'dark' ? '#c1e6ff' : '#004A77',
+                  height: '20px',
+                  borderRadius: '8px',
+                  padding: '0px 8px',
+                  fontSize: '12px',
+                  fontWeight: '500',
+                  border: 'none',
+                  cursor: 'default',
+                  transition: 'none',
+                }}
+              />
+            </Box>
+          </TableCell>
+        );
+      case 'location':
+        return (
+          <TableCell
+            key={column.key}
+            sx={{
+              padding: '10px 20px',
+              overflow: 'hidden',
+            }}
+          >
+            <OverflowTooltip text={entry.entrySource?.location || '-'}>
+              <Typography
+                sx={{
+                  fontFamily: '"Product Sans", "Google Sans Text", sans-serif',
+                  fontSize: '14px',
+                  fontWeight: '400',
+                  color: mode === 'dark' ? '#dedfe0' : '#575757',
+                  letterSpacing: '0.1px',
+                  overflow: 'hidden',
+                  textOverflow: 'ellipsis',
+                  whiteSpace: 'nowrap',
+                }}
+              >
+                {entry.entrySource?.location || '-'}
+              </Typography>
+            </OverflowTooltip>
+          </TableCell>
+        );
+      case 'lastModified':
+        return (
+          <TableCell
+            key={column.key}
+            sx={{
+              fontFamily: '"Product Sans", "Google Sans Text", sans-serif',
+              fontSize: '14px',
+              fontWeight: '400',
+              color: mode === 'dark' ? '#dedfe0' : '#575757',
+              padding: previewOpen ? '10px 8px 10px 20px' : '10px 20px',
+              letterSpacing: '0.1px',
+              textAlign: 'right',
+            }}
+          >
+            {getFormatedDate(entry?.updateTime || entry?.createTime)}
+          </TableCell>
+        );
+      default: {
+        const value = column.aspectField ? getAspectFieldValue(entry, column.aspectField) : '';
+        return (
+          <TableCell key={column.key} sx={{ padding: '10px 20px', overflow: 'hidden' }}>
+            <OverflowTooltip text={value || '-'}>
+              <Typography
+                sx={{
+                  fontFamily: '"Product Sans", "Google Sans Text", sans-serif',
+                  fontSize: '14px',
+                  fontWeight: '400',
+                  color: mode === 'dark' ? '#dedfe0' : '#575757',
+                  letterSpacing: '0.1px',
+                  overflow: 'hidden',
+                  textOverflow: 'ellipsis',
+                  whiteSpace: 'nowrap',
+                }}
+              >
+                {value || '-'}
+              </Typography>
+            </OverflowTooltip>
+          </TableCell>
+        );
+      }
     }
-    return 'Sort old to new';
   };
 
   return (
@@ -278,6 +544,7 @@ const SearchTableView: React.FC<SearchTableViewProps> = ({
           {columnPercents.map((w, i) => (
             <col key={i} style={{ width: w }} />
           ))}
+          <col style={{ width: `${CHOOSER_COLUMN_WIDTH}px` }} />
         </colgroup>
         <TableHead>
           <TableRow
@@ -302,201 +569,14 @@ const SearchTableView: React.FC<SearchTableViewProps> = ({
               },
             }}
           >
-            {/* Name */}
-            <TableCell
-              sx={{
-                fontSize: '12px',
-                fontWeight: '500',
-                color: isDark ? '#dedfe0' : '#444746',
-                fontFamily: '"Google Sans", sans-serif',
-                position: 'relative',
-              }}
-            >
-              <Tooltip title={getNameSortTooltip()} slotProps={{ popper: { modifiers: [{ name: 'offset', options: { offset: [0, -14] } }] } }}>
-                <Box
-                  role="button"
-                  onClick={handleToggleNameSort}
-                  sx={{
-                    display: 'flex',
-                    alignItems: 'center',
-                    gap: '4px',
-                    cursor: 'pointer',
-                    borderRadius: '4px',
-                    padding: '4px 8px',
-                    margin: '-4px -8px',
-                    transition: 'background-color 0.2s ease',
-                    '&:hover': {
-                      backgroundColor: isDark ? '#3c4043' : '#F8F9FA',
-                    },
-                  }}
-                >
-                  <span>Name</span>
-                  <Box
-                    component="span"
-                    className="sort-btn"
-                    sx={{
-                      display: 'flex',
-                      alignItems: 'center',
-                      flexShrink: 0,
-                      opacity: sortColumn === 'name' ? 1 : 0,
-                      transform: (sortColumn === 'name' && sortOrder === 'desc') ? 'rotate(180deg)' : 'none',
-                      transition: 'transform 0.2s ease-in-out, opacity 0.2s ease',
-                    }}
-                  >
-                    <svg width="18" height="18" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                      <rect width="24" height="24" rx="12" fill={isDark ? '#004a77' : '#C2E7FF'}/>
-                      <path d="M11.168 15.4818L11.168 5.33594L12.8346 5.33594L12.8346 15.4818L17.5013 10.8151L18.668 12.0026L12.0013 18.6693L5.33464 12.0026L6.5013 10.8151L11.168 15.4818Z" fill={isDark ? '#8ab4f8' : '#004A77'}/>
-                    </svg>
-                  </Box>
-                </Box>
-              </Tooltip>
-              <ResizeHandle
-                onMouseDown={(e) => { e.stopPropagation(); handleMouseDown(0, e); }}
-                isActive={activeIndex === 0}
-                darkMode={isDark}
-              />
-            </TableCell>
-
-            {/* Description */}
-            <TableCell
-              sx={{
-                fontFamily: '"Google Sans", sans-serif',
-                fontSize: '12px',
-                fontWeight: '500',
-                color: isDark ? '#dedfe0' : '#444746',
-                position: 'relative',
-              }}
-            >
-              Description
-              <ResizeHandle
-                onMouseDown={(e) => { e.stopPropagation(); handleMouseDown(1, e); }}
-                isActive={activeIndex === 1}
-                darkMode={isDark}
-              />
-            </TableCell>
-
-            {/* Type */}
-            <TableCell
-              sx={{
-                fontFamily: '"Google Sans", sans-serif',
-                fontSize: '12px',
-                fontWeight: '500',
-                color: isDark ? '#dedfe0' : '#444746',
-                position: 'relative',
-              }}
-            >
-              Type
-              <ResizeHandle
-                onMouseDown={(e) => { e.stopPropagation(); handleMouseDown(2, e); }}
-                isActive={activeIndex === 2}
-                darkMode={isDark}
-              />
-            </TableCell>
-
-            {/* Location */}
-            <TableCell
-              sx={{
-                fontFamily: '"Google Sans", sans-serif',
-                fontSize: '12px',
-                fontWeight: '500',
-                color: isDark ? '#dedfe0' : '#444746',
-                position: 'relative',
-              }}
-            >
-              <Tooltip title={getLocationSortTooltip()} slotProps={{ popper: { modifiers: [{ name: 'offset', options: { offset: [0, -14] } }] } }}>
-                <Box
-                  role="button"
-                  onClick={handleToggleLocationSort}
-                  sx={{
-                    display: 'flex',
-                    alignItems: 'center',
-                    gap: '4px',
-                    cursor: 'pointer',
-                    borderRadius: '4px',
-                    padding: '4px 8px',
-                    margin: '-4px -8px',
-                    transition: 'background-color 0.2s ease',
-                    '&:hover': {
-                      backgroundColor: isDark ? '#3c4043' : '#F8F9FA',
-                    },
-                  }}
-                >
-                  <span>Location</span>
-                  <Box
-                    component="span"
-                    className="sort-btn"
-                    sx={{
-                      display: 'flex',
-                      alignItems: 'center',
-                      flexShrink: 0,
-                      opacity: sortColumn === 'location' ? 1 : 0,
-                      transform: (sortColumn === 'location' && sortOrder === 'desc') ? 'rotate(180deg)' : 'none',
-                      transition: 'transform 0.2s ease-in-out, opacity 0.2s ease',
-                    }}
-                  >
-                    <svg width="18" height="18" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                      <rect width="24" height="24" rx="12" fill={isDark ? '#004a77' : '#C2E7FF'}/>
-                      <path d="M11.168 15.4818L11.168 5.33594L12.8346 5.33594L12.8346 15.4818L17.5013 10.8151L18.668 12.0026L12.0013 18.6693L5.33464 12.0026L6.5013 10.8151L11.168 15.4818Z" fill={isDark ? '#8ab4f8' : '#004A77'}/>
-                    </svg>
-                  </Box>
-                </Box>
-              </Tooltip>
-              <ResizeHandle
-                onMouseDown={(e) => { e.stopPropagation(); handleMouseDown(3, e); }}
-                isActive={activeIndex === 3}
-                darkMode={isDark}
+            {columns.map(renderHeaderCell)}
+            <TableCell sx={{ ...headerCellSx, '&&': { padding: '8px 4px 0' }, textAlign: 'right' }}>
+              <SearchTableColumnChooser
+                prefs={columnPrefs}
+                aspectFieldOptions={aspectFieldOptions}
+                onChange={handleColumnPrefsChange}
               />
             </TableCell>
-
-            {/* Last Modified */}
-            <TableCell
-              sx={{
-                fontFamily: '"Google Sans", sans-serif',
-                fontSize: '12px',
-                fontWeight: '500',
-                color: isDark ? '#dedfe0' : '#444746',
-              }}
-            >
-              <Tooltip title={getDateSortTooltip()} slotProps={{ popper: { modifiers: [{ name: 'offset', options: { offset: [0, -14] } }] } }}>
-                <Box
-                  role="button"
-                  onClick={handleToggleDateSort}
-                  sx={{
-                    display: 'flex',
-                    alignItems: 'center',
-                    justifyContent: 'flex-end',
-                    gap: '4px',
-                    cursor: 'pointer',
-                    borderRadius: '4px',
-                    padding: '4px 8px',
-                    margin: '-4px -8px',
-                    transition: 'background-color 0.2s ease',
-                    '&:hover': {
-                      backgroundColor: mode === 'dark' ? '#3c4043' : '#F8F9FA',
-                    },
-                  }}
-                >
-                  <Box
-                    component="span"
-                    className="sort-btn"
-                    sx={{
-                      display: 'flex',
-                      alignItems: 'center',
-                      flexShrink: 0,
-                      opacity: sortColumn === 'date' ? 1 : 0,
-                      transform: (sortColumn === 'date' && sortOrder === 'desc') ? 'rotate(180deg)' : 'none',
-                      transition: 'transform 0.2s ease-in-out, opacity 0.2s ease',
-                    }}
-                  >
-                    <svg width="18" height="18" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                      <rect width="24" height="24" rx="12" fill={mode === 'dark' ? '#004a77' : '#C2E7FF'}/>
-                      <path d="M11.168 15.4818L11.168 5.33594L12.8346 5.33594L12.8346 15.4818L17.5013 10.8151L18.668 12.0026L12.0013 18.6693L5.33464 12.0026L6.5013 10.8151L11.168 15.4818Z" fill={mode === 'dark' ? '#8ab4f8' : '#004A77'}/>
-                    </svg>
-                  </Box>
-                  <span style={{ whiteSpace: 'nowrap' }}>Last modified</span>
-                </Box>
-              </Tooltip>
-            </TableCell>
           </TableRow>
         </TableHead>
         <TableBody>
@@ -546,163 +626,32 @@ const SearchTableView: React.FC<SearchTableViewProps> = ({
                   },
                 }}
               >
-                {/* Name */}
-                <TableCell
-                  sx={{
-                    fontFamily: '"Google Sans", sans-serif',
-                    fontSize: '12px',
-                    color: mode === 'dark' ? '#dedfe0' : '#1F1F1F',
-                    padding: '10px 20px',
-                    paddingLeft: '20px',
-                    overflow: 'hidden',
-                  }}
-                >
-                  <Box sx={{ display: 'flex', alignItems: 'center', gap: '2px', overflow: 'hidden' }}>
-                    <OverflowTooltip text={getNameFromEntry(entry)}>
-                      <Typography
-                        sx={{
-                          flex: 1,
-                          fontFamily: '"Google Sans", sans-serif',
-                          fontSize: '14px',
-                          fontWeight: 400,
-                          color: mode === 'dark' ? '#dedfe0' : '#1F1F1F',
-                          cursor: 'pointer',
-                          textOverflow: 'ellipsis',
-                          overflow: 'hidden',
-                          whiteSpace: 'nowrap'
-                        }}
-                      >
-                        {getNameFromEntry(entry)}
-                      </Typography>
-                    </OverflowTooltip>
-                    {hasLock && (
-                      <Lock sx={{ fontSize: '12px', color: mode === 'dark' ? '#dedfe0' : '#575757', flexShrink: 0 }} />
-                    )}
-                  </Box>
-                </TableCell>
-
-                {/* Description */}
-                <TableCell
-                  sx={{
-                    fontFamily: '"Product Sans", "Google Sans Text", sans-serif',
-                    fontSize: '12px',
-                    color: mode === 'dark' ? '#dedfe0' : '#575757',
-                    padding: '10px 20px',
-                    overflow: 'hidden',
-                  }}
-                >
-                  <Typography
-                    sx={{
-                      fontFamily: '"Product Sans", "Google Sans Text", sans-serif',
-                      fontSize: '14px',
-                      fontWeight: '400',
-                      color: mode === 'dark' ? '#dedfe0' : '#575757',
-                      letterSpacing: '0.1px',
-                      overflow: 'hidden',
-                      textOverflow: 'ellipsis',
-                      whiteSpace: 'nowrap'
-                    }}
-                  >
-                    {entry.entrySource?.description || 'No Description Available'}
-                  </Typography>
-                </TableCell>
-
-                {/* Type */}
-                <TableCell
-                  sx={{
-                    padding: '10px 20px'
-                  }}
-                >
-                  <Box sx={{ display: 'flex', gap: '8px', flexWrap: 'wrap', overflow: 'hidden' }}>
-                    <OverflowTag
-                      text={(() => {
-                        const sys = entry.entrySource?.system;
-                        if (!sys) return 'Custom';
-                        const lower = sys.toLowerCase();
-                        if (lower === 'dataplex universal catalog' || lower === 'dataplex') return 'Knowledge Catalog';
-                        if (lower === 'bigquery') return 'BigQuery';
-                        return sys.charAt(0).toUpperCase() + sys.slice(1).toLowerCase();
-                      })()}
-                      className="asset-tag"
-                      css={{
-                        fontFamily: '"Google Sans", sans-serif',
-                        backgroundColor: mode === 'dark' ? '#004a76' : '#C2E7FF',
-                        color: mode === 'dark' ? '#c1e6ff' : '#004A77',
-                        borderRadius: '8px',
-                        height: '20px',
-                        padding: '0px 8px',
-                        fontSize: '12px',
-                        fontWeight: '500',
-                        textTransform: 'capitalize',
-                        border: 'none',
-                        cursor: 'default',
-                        transition: 'none',
-                      }}
-                    />
-                    <OverflowTag
-                      text={getEntryType(entry.name, '/')}
-                      className="asset-tag"
-                      css={{
-                        fontFamily: '"Google Sans", sans-serif',
-                        backgroundColor: mode === 'dark' ? '#004a76' : '#C2E7FF',
-                        color: mode === 'dark' ? '#c1e6ff' : '#004A77',
-                        height: '20px',
-                        borderRadius: '8px',
-                        padding: '0px 8px',
-                        fontSize: '12px',
-                        fontWeight: '500',
-                        border: 'none',
-                        cursor: 'default',
-                        transition: 'none',
-                      }}
-                    />
-                  </Box>
-                </TableCell>
-
-                {/* Location */}
-                <TableCell
-                  sx={{
-                    padding: '10px 20px',
-                    overflow: 'hidden',
-                  }}
-                >
-                  <OverflowTooltip text={entry.entrySource?.location || '-'}>
-                    <Typography
-                      sx={{
-                        fontFamily: '"Product Sans", "Google Sans Text", sans-serif',
-                        fontSize: '14px',
-                        fontWeight: '400',
-                        color: mode === 'dark' ? '#dedfe0' : '#575757',
-                        letterSpacing: '0.1px',
-                        overflow: 'hidden',
-                        textOverflow: 'ellipsis',
-                        whiteSpace: 'nowrap',
-                      }}
-                    >
-                      {entry.entrySource?.location || '-'}
-                    </Typography>
-                  </OverflowTooltip>
-                </TableCell>
-
-                {/* Last Modified */}
-                <TableCell
-                  sx={{
-                    fontFamily: '"Product Sans", "Google Sans Text", sans-serif',
-                    fontSize: '14px',
-                    fontWeight: '400',
-                    color: mode === 'dark' ? '#dedfe0' : '#575757',
-                    padding: previewOpen ? '10px 8px 10px 20px' : '10px 20px',
-                    letterSpacing: '0.1px',
-                    textAlign: 'right',
-                  }}
-                >
-                  {getFormatedDate(entry?.updateTime || entry?.createTime)}
-                </TableCell>
+                {columns.map((column) => renderBodyCell(column, entry, hasLock))}
+                <TableCell sx={{ padding: 0 }} />
               </TableRow>
             );
           })}
         </TableBody>
       </Table>
+      <Popover
+        open={Boolean(filterAnchor)}
+        anchorEl={filterAnchor?.el}
+        onClose={() => setFilterAnchor(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'left' }}
+        slotProps={{ paper: { sx: { padding: '12px', borderRadius: '12px' } } }}
+      >
+        {filterAnchor && (
+          <TextField
+            size="small"
+            autoFocus
+            label={`Filter ${filterAnchor.column.label}`}
+            placeholder="Contains…"
+            value={columnFilters[filterAnchor.column.key] ?? ''}
+            onChange={(e) => setColumnFilters((current) => ({ ...current, [filterAnchor.column.key]: e.target.value }))}
+            onKeyDown={(e) => { if (e.key === 'Enter') setFilterAnchor(null); }}
+          />
+        )}
+      </Popover>
     </TableContainer>
   );
 };
@@ -367,17 +367,13 @@ describe('SubmitAccess', () => {
     });
   });
 
-  it('handles entry without entryType', async () => {
+  it('finds the contacts of an entry without entryType by their aspect key', async () => {
     const entryWithoutType = { ...mockEntry, entryType: null };
 
     renderSubmitAccess({ entry: entryWithoutType });
 
-    const submitButton = screen.getByText('Submit');
-    fireEvent.click(submitButton);
-
-    // Should not make API call when no contacts
     await waitFor(() => {
-      expect(axios.post).not.toHaveBeenCalled();
+      expect(screen.getByText('john.doe@example.com')).toBeInTheDocument();
     });
   });
 
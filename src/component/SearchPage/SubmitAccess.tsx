@@ -6,6 +6,7 @@ import { useSelector } from 'react-redux';
 import axios from 'axios';
 import { URLS } from '../../constants/urls';
 import { getFormattedDateTimePartsByDateTime } from '../../utils/resourceUtils';
+import { getContacts } from '../../utils/entryModel';
 
 /**
  * @file SubmitAccess.tsx
@@ -79,26 +80,11 @@ const SubmitAccess: React.FC<SubmitAccessProps> = ({ isOpen, onClose, assetName,
 
   // Use locally fetched entry if available, otherwise fall back to prop
   const effectiveEntry = localEntry ?? entry;
+  const contacts = getContacts(effectiveEntry);
 
-  const extractContacts = (entryData: any): any[] => {
-    if (!entryData || !entryData.aspects) return [];
-
-    const number = entryData.entryType?.split('/')[1];
-    if (!number) return [];
-
-    return isLookup ? entryData.aspects[`${number}.global.contacts`]?.data.identities : (entryData.aspects[`${number}.global.contacts`]?.data.fields.identities.listValue.values || []);
-  };
-
-  const extractContactEmails = (entryData: any): string[] => {
-    const contacts = extractContacts(entryData);
-
-    return (contacts.length > 0) ? contacts.map((contact: any) => {
-      const nameValue = isLookup? contact.name : contact.structValue.fields.name.stringValue;
-      // Extract email from format like "Name <email@example.com>"
-      const emailMatch = isLookup ? nameValue : nameValue.match(/<(.+?)>/); 
-      return isLookup ? emailMatch : (emailMatch ? emailMatch[1] : null);
-    }).filter((email: string | null) => email !== null) : [];
-  };
+  // Lookup entries (data products) store the contact's email as its name
+  const extractContactEmails = (entryData: any): string[] =>
+    getContacts(entryData).map((contact) => isLookup ? contact.name : contact.email).filter((email) => email !== '');
 
   // Fetch entry data locally when entry prop doesn't have contacts
   useEffect(() => {
@@ -127,9 +113,9 @@ const SubmitAccess: React.FC<SubmitAccessProps> = ({ isOpen, onClose, assetName,
   }, [previewData?.name, user?.token, entry]);
 
   useEffect(() => {
-    const contacts: string[] = extractContactEmails(effectiveEntry);
-    if (contacts.length > 0) {
-      setContactEmails(contacts);
+    const emails: string[] = extractContactEmails(effectiveEntry);
+    if (emails.length > 0) {
+      setContactEmails(emails);
     } else {
       setContactEmails([]);
     }
@@ -236,7 +222,7 @@ return (previewData != null) ?(
         right: isOpen ? 0 : '-500px',
         width: '500px',
         height: '100vh',
-        backgroundColor: '#FFFFFF',
+        backgroundColor: 'var(--sys-surface)',
         boxShadow: '-4px 0px 8px rgba(0, 0, 0, 0.1)',
         zIndex: 1300,
         transition: 'right 0.3s ease-in-out',
@@ -253,7 +239,7 @@ return (previewData != null) ?(
           alignItems: 'center',
           gap: '16px',
           padding: '20px 24px',
-          borderBottom: '1px solid #DADCE0',
+          borderBottom: '1px solid var(--sys-outline-variant)',
           width: '31.1875rem' /* 499px */
         }}
       >
@@ -263,7 +249,7 @@ return (previewData != null) ?(
             fontFamily: 'Google Sans',
             fontSize: '1.125rem', /* 18px */
             fontWeight: '500',
-            color: '#1F1F1F',
+            color: 'var(--sys-on-surface-strong)',
             lineHeight: '1.333em',
             textAlign: 'left',
             overflow: 'hidden',
@@ -278,7 +264,7 @@ return (previewData != null) ?(
           sx={{
             width: '1.5rem', /* 24px */
             height: '1.5rem', /* 24px */
-            color: '#202124',
+            color: 'var(--sys-on-surface)',
             padding: 0,
             flexShrink: 0,
             '&:hover': {
@@ -303,17 +289,17 @@ return (previewData != null) ?(
         }}
       >
         {isCalledFromDataProducts && (
-          <Box sx={{ borderBottom: '1px solid #DADCE0', paddingBottom: '16px' }}>
+          <Box sx={{ borderBottom: '1px solid var(--sys-outline-variant)', paddingBottom: '16px' }}>
           {dataProductsDescription}
         </Box>
         )}
         {/* Request Details Section */}
-        <Box sx={{ borderBottom: '1px solid #DADCE0', paddingBottom: '16px' }}>
+        <Box sx={{ borderBottom: '1px solid var(--sys-outline-variant)', paddingBottom: '16px' }}>
           <Typography
             sx={{
               fontSize: '14px',
               fontWeight: '500',
-              color: '#1F1F1F',
+              color: 'var(--sys-on-surface)',
               marginBottom: '16px'
             }}
           >
@@ -334,7 +320,7 @@ return (previewData != null) ?(
                   fontFamily: '"Google Sans Text", sans-serif',
                   fontSize: '11px',
                   fontWeight: '500',
-                  color: '#575757',
+                  color: 'var(--sys-on-surface-muted)',
                   marginBottom: '4px'
                 }}
               >
@@ -344,7 +330,7 @@ return (previewData != null) ?(
                 sx={{
                   fontSize: '14px',
                   fontWeight: '400',
-                  color: '#1F1F1F'
+                  color: 'var(--sys-on-surface)'
                 }}
               >
                 {createDate}
@@ -361,7 +347,7 @@ return (previewData != null) ?(
                   fontSize: '11px',
                   // Note: Original code had fontWeight 400 here, you may want 500 for consistency
                   fontWeight: '500', 
-                  color: '#575757',
+                  color: 'var(--sys-on-surface-muted)',
                   marginBottom: '4px'
                 }}
               >
@@ -371,7 +357,7 @@ return (previewData != null) ?(
                 sx={{
                   fontSize: '14px',
                   fontWeight: '400',
-                  color: '#1F1F1F'
+                  color: 'var(--sys-on-surface)'
                 }}
               >
                 {updateDate}
@@ -397,7 +383,7 @@ return (previewData != null) ?(
                   fontSize: '11px',
                   // Note: Original code had fontWeight 400 here, you may want 500 for consistency
                   fontWeight: '500', 
-                  color: '#575757',
+                  color: 'var(--sys-on-surface-muted)',
                   marginBottom: '4px'
                 }}
               >
@@ -407,7 +393,7 @@ return (previewData != null) ?(
                 sx={{
                   fontSize: '14px',
                   fontWeight: '400',
-                  color: '#1F1F1F'
+                  color: 'var(--sys-on-surface)'
                 }}
               >
                 {assetCounts}
@@ -418,12 +404,12 @@ return (previewData != null) ?(
         </Box>
 
         {/* Contact Information Section */}
-        <Box sx={{ borderBottom: '1px solid #DADCE0', paddingBottom: '16px' }}>
+        <Box sx={{ borderBottom: '1px solid var(--sys-outline-variant)', paddingBottom: '16px' }}>
           <Typography
             sx={{
               fontSize: '14px',
               fontWeight: '500',
-              color: '#1F1F1F',
+              color: 'var(--sys-on-surface)',
               marginBottom: '16px'
             }}
           >
@@ -447,42 +433,29 @@ return (previewData != null) ?(
                     </Box>
                   ))}
                 </>
-              ) : extractContacts(effectiveEntry).length > 0 ? (
-                extractContacts(effectiveEntry).map((contact: any, index: number) => (
+              ) : contacts.length > 0 ? (
+                contacts.map((contact, index) => (
                     <Box key={index} sx={{ flex: '1 1 auto' }}>
                       <Typography
                         sx={{
                           fontFamily: '"Google Sans Text", sans-serif',
                           fontSize: '11px',
                           fontWeight: '500',
-                          color: '#575757',
+                          color: 'var(--sys-on-surface-muted)',
                           marginBottom: '4px'
                         }}
                       >
-                        {isLookup ? contact.role : contact.structValue.fields.role.stringValue}
+                        {contact.role}
                       </Typography>
                       <Typography
                         sx={{
                           fontFamily: '"Google Sans Text", sans-serif',
                           fontSize: '14px',
                           fontWeight: '400',
-                          color: '#1F1F1F'
+                          color: 'var(--sys-on-surface)'
                         }}
                       >
-                        {isLookup ?
-                          (contact.name.split('<').length > 1
-                          ? contact.name.split('<')[1].slice(0, -1)
-                          : contact.name.length > 0
-                            ? contact.name
-                            : "--")
-                          :
-
-                          (contact.structValue.fields.name.stringValue.split('<').length > 1
-                          ? contact.structValue.fields.name.stringValue.split('<')[1].slice(0, -1)
-                          : contact.structValue.fields.name.stringValue.length > 0
-                            ? contact.structValue.fields.name.stringValue
-                            : "--")
-                        }
+                        {contact.email || contact.name || "--"}
                       </Typography>
           </Box>
         ))
@@ -492,7 +465,7 @@ return (previewData != null) ?(
               fontFamily: '"Google Sans Text", sans-serif',
               fontSize: '14px',
               fontWeight: '400',
-              color: '#1F1F1F'
+              color: 'var(--sys-on-surface)'
             }}
           >
             -
@@ -509,7 +482,7 @@ return (previewData != null) ?(
               sx={{
                 fontSize: '14px',
                 fontWeight: '500',
-                color: '#1F1F1F',
+                color: 'var(--sys-on-surface)',
               marginBottom: '12px'
             }}
           >
@@ -565,7 +538,7 @@ return (previewData != null) ?(
             sx={{
               fontSize: '14px',
               fontWeight: '500',
-              color: '#1F1F1F',
+              color: 'var(--sys-on-surface)',
               marginBottom: '12px'
             }}
           >
@@ -575,7 +548,7 @@ return (previewData != null) ?(
             sx={{
               fontSize: '14px',
               fontWeight: '400',
-              color: '#575757',
+              color: 'var(--sys-on-surface-muted)',
               lineHeight: '1.5',
               marginBottom: '16px'
             }}
@@ -588,7 +561,7 @@ return (previewData != null) ?(
             sx={{
               fontSize: '14px',
               fontWeight: '500',
-              color: '#1F1F1F',
+              color: 'var(--sys-on-surface)',
               marginBottom: '12px'
             }}
           >
@@ -606,21 +579,21 @@ return (previewData != null) ?(
               '& .MuiOutlinedInput-root': {
                 fontSize: '14px',
                 '& fieldset': {
-                  borderColor: '#DADCE0',
+                  borderColor: 'var(--sys-outline-variant)',
                   borderRadius: '8px'
                 },
                 '&:hover fieldset': {
                   borderColor: '#B8B8B8'
                 },
                 '&.Mui-focused fieldset': {
-                  borderColor: '#0E4DCA'
+                  borderColor: 'var(--sys-brand)'
                 }
               },
               '& .MuiInputBase-input': {
                 fontFamily: '"Google Sans Text", sans-serif',
                 fontWeight: '400',
                 fontSize: '14px',
-                color: '#1F1F1F'
+                color: 'var(--sys-on-surface)'
               }
             }}
           />
@@ -641,38 +614,38 @@ return (previewData != null) ?(
           sx={{
             fontSize: '14px',
             fontWeight: '500',
-            color: '#575757',
+            color: 'var(--sys-on-surface-muted)',
             textTransform: 'none',
             borderRadius: '100px',
             padding: '8px 16px',
             '&:hover': {
-              backgroundColor: '#F5F5F5'
+              backgroundColor: 'var(--sys-surface-container-grey)'
             }
           }}
         >
           Cancel
         </Button>
-        <Tooltip title={extractContacts(effectiveEntry).length > 0 ? "Click here to send an request access email" : "No contact information available to request access"} arrow>
+        <Tooltip title={contacts.length > 0 ? "Click here to send an request access email" : "No contact information available to request access"} arrow>
         <Button
           //disabled = {contactEmails.length > 0 ? false : true}
           onClick={() => {
-            if(extractContacts(effectiveEntry).length > 0) handleSubmit();
+            if(contacts.length > 0) handleSubmit();
           }}
           variant="contained"
-          style={{color: '#FFFFFF',backgroundColor: '#0E4DCA'}}
+          style={{color: 'var(--sys-on-primary)',backgroundColor: 'var(--sys-brand)'}}
           sx={{
             fontSize: '14px',
             fontWeight: '500',
-            backgroundColor: extractContacts(effectiveEntry).length > 0 ? '#0E4DCA' : '#A0A0A0',
-            color: '#FFFFFF',
+            backgroundColor: contacts.length > 0 ? '#0E4DCA' : '#A0A0A0',
+            color: 'var(--sys-on-primary)',
             textTransform: 'none',
             borderRadius: '100px',
             padding: '8px 16px',
-            opacity: extractContacts(effectiveEntry).length > 0 ? 1 : 0.6,
+            opacity: contacts.length > 0 ? 1 : 0.6,
             '&:hover': {
-              backgroundColor: extractContacts(effectiveEntry).length > 0 ? '#0B3DA8' : '#909090'
+              backgroundColor: contacts.length > 0 ? '#0B3DA8' : '#909090'
             },
-            cursor: extractContacts(effectiveEntry).length > 0 ? 'pointer' : 'not-allowed',
+            cursor: contacts.length > 0 ? 'pointer' : 'not-allowed',
           }}
         >
           Submit
@@ -209,7 +209,7 @@ describe('TableView', () => {
       expect(sxData.fontSize).toBe('0.75rem');
       expect(sxData.borderRadius).toBe('10px');
       expect(sxData['&.MuiDataGrid-root .MuiDataGrid-columnHeader:focus-within']).toEqual({ outline: 'none' });
-      expect(sxData['& .MuiDataGrid-filler']).toEqual({ backgroundColor: '#F0F4F8 !important' });
+      expect(sxData['& .MuiDataGrid-filler']).toEqual({ backgroundColor: '#f0f4f8 !important' });
     });
 
     it('custom sx can override default styles', () => {
@@ -1,6 +1,7 @@
 import { DataGrid, type GridRowsProp, type GridColDef } from '@mui/x-data-grid';
 import { type SxProps, type Theme } from '@mui/material/styles';
 import './table.css'
+import { useColorTokens } from '../../hooks/useColorTokens';
 
 /**
  * @file TableView.tsx
@@ -55,6 +56,7 @@ const TableView: React.FC<TableProps> = ({
     hideColumnMenu = true,
     sx
 }) => {
+  const colors = useColorTokens();
 
     
   return (
@@ -72,7 +74,7 @@ const TableView: React.FC<TableProps> = ({
           borderRadius: '10px',
           "&.MuiDataGrid-root .MuiDataGrid-columnHeader:focus-within": { outline: "none",},
           '& .MuiDataGrid-filler': {
-            backgroundColor: '#F0F4F8 !important',
+            backgroundColor: `${colors.surfaceContainer} !important`,
           },
           ...sx,
         }}
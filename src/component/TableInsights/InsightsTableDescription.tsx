@@ -43,13 +43,13 @@ const InsightsTableDescription: React.FC<InsightsTableDescriptionProps> = ({
               fontWeight: 500,
               fontSize: '18px',
               lineHeight: '24px',
-              color: '#1F1F1F',
+              color: 'var(--sys-on-surface)',
             }}
           >
             Table Description
           </Typography>
           <Tooltip title="AI-generated description of this table based on its schema and data patterns">
-            <HelpOutline sx={{ fontSize: 16, color: '#575757', cursor: 'help' }} />
+            <HelpOutline sx={{ fontSize: 16, color: 'var(--sys-on-surface-muted)', cursor: 'help' }} />
           </Tooltip>
         </Box>
         <IconButton size="small" onClick={(e) => { e.stopPropagation(); handleToggle(); }}>
@@ -68,7 +68,7 @@ const InsightsTableDescription: React.FC<InsightsTableDescriptionProps> = ({
               fontWeight: 400,
               fontSize: '14px',
               lineHeight: '20px',
-              color: '#1F1F1F',
+              color: 'var(--sys-on-surface)',
               marginBottom: '16px',
             }}
           >
@@ -85,7 +85,7 @@ const InsightsTableDescription: React.FC<InsightsTableDescriptionProps> = ({
               fontSize: '12px',
               lineHeight: '16px',
               letterSpacing: '0.1px',
-              color: '#0B57D0',
+              color: 'var(--sys-primary)',
               cursor: 'pointer',
             }}
           >
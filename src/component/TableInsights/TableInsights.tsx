@@ -136,7 +136,7 @@ const TableInsights: React.FC<TableInsightsProps> = ({ entry, scanName }) => {
         PaperProps={{
           sx: {
             width: '38.25rem',
-            backgroundColor: '#ffffff',
+            backgroundColor: 'var(--sys-surface)',
             boxShadow: '-0.25rem 0rem 0.5rem rgba(0, 0, 0, 0.1)',
           }
         }}
@@ -49,13 +49,13 @@ const TableInsightsGeneratedQueries: React.FC<TableInsightsGeneratedQueriesProps
               fontWeight: 500,
               fontSize: '18px',
               lineHeight: '24px',
-              color: '#1F1F1F',
+              color: 'var(--sys-on-surface)',
             }}
           >
             Generated Queries
           </Typography>
           <Tooltip title="AI-generated SQL queries based on the table's schema and data patterns">
-            <HelpOutline sx={{ fontSize: 16, color: '#575757', cursor: 'help' }} />
+            <HelpOutline sx={{ fontSize: 16, color: 'var(--sys-on-surface-muted)', cursor: 'help' }} />
           </Tooltip>
         </Box>
         <IconButton size="small" onClick={(e) => { e.stopPropagation(); handleMainToggle(); }}>
@@ -66,7 +66,7 @@ const TableInsightsGeneratedQueries: React.FC<TableInsightsGeneratedQueriesProps
       <Collapse in={mainExpanded}>
         {/* Filter Bar */}
         <Box className="insights-filter-bar">
-          <FilterList sx={{ fontSize: 16, color: '#1F1F1F' }} />
+          <FilterList sx={{ fontSize: 16, color: 'var(--sys-on-surface)' }} />
           <Typography
             sx={{
               fontFamily: '"Google Sans"',
@@ -74,7 +74,7 @@ const TableInsightsGeneratedQueries: React.FC<TableInsightsGeneratedQueriesProps
               fontWeight: 500,
               fontSize: '12px',
               lineHeight: '20px',
-              color: '#1F1F1F',
+              color: 'var(--sys-on-surface)',
             }}
           >
             Filter
@@ -89,7 +89,7 @@ const TableInsightsGeneratedQueries: React.FC<TableInsightsGeneratedQueriesProps
               fontWeight: 400,
               fontSize: '12px',
               lineHeight: '20px',
-              color: '#575757',
+              color: 'var(--sys-on-surface-muted)',
               flex: 1,
               '& .MuiInputBase-input::placeholder': {
                 fontFamily: '"Google Sans"',
@@ -97,7 +97,7 @@ const TableInsightsGeneratedQueries: React.FC<TableInsightsGeneratedQueriesProps
                 fontWeight: 400,
                 fontSize: '12px',
                 lineHeight: '20px',
-                color: '#575757',
+                color: 'var(--sys-on-surface-muted)',
                 opacity: 1,
               },
             }}
@@ -125,7 +125,7 @@ const TableInsightsGeneratedQueries: React.FC<TableInsightsGeneratedQueriesProps
                       fontWeight: 500,
                       fontSize: '16px',
                       lineHeight: '24px',
-                      color: '#1F1F1F',
+                      color: 'var(--sys-on-surface)',
                     }}
                   >
                     Generated date: {group.formattedDate}
@@ -67,7 +67,7 @@ const TableInsightsPreviewPanel: React.FC<TableInsightsPreviewPanelProps> = ({
           justifyContent: 'space-between',
           alignItems: 'center',
           padding: '20px 24px',
-          borderBottom: '1px solid #DADCE0',
+          borderBottom: '1px solid var(--sys-outline-variant)',
           flex: '0 0 auto',
         }}
       >
@@ -76,7 +76,7 @@ const TableInsightsPreviewPanel: React.FC<TableInsightsPreviewPanelProps> = ({
             fontFamily: '"Google Sans", sans-serif',
             fontSize: '18px',
             fontWeight: 500,
-            color: '#1F1F1F',
+            color: 'var(--sys-on-surface)',
             lineHeight: '24px',
           }}
         >
@@ -85,7 +85,7 @@ const TableInsightsPreviewPanel: React.FC<TableInsightsPreviewPanelProps> = ({
         <IconButton
           onClick={onClose}
           sx={{
-            color: '#1F1F1F',
+            color: 'var(--sys-on-surface)',
             width: '24px',
             height: '24px',
             '&:hover': {
@@ -122,7 +122,7 @@ const TableInsightsPreviewPanel: React.FC<TableInsightsPreviewPanelProps> = ({
               fontFamily: '"Google Sans", sans-serif',
               fontSize: '14px',
               fontWeight: 500,
-              color: '#1F1F1F',
+              color: 'var(--sys-on-surface)',
               lineHeight: '20px',
               marginTop: '20px',
               marginBottom: '0',
@@ -141,7 +141,7 @@ const TableInsightsPreviewPanel: React.FC<TableInsightsPreviewPanelProps> = ({
               padding: '12px 0 20px',
               gap: '4px',
               width: '100%',
-              borderBottom: '1px solid #DADCE0',
+              borderBottom: '1px solid var(--sys-outline-variant)',
             }}
           >
             <Typography
@@ -149,7 +149,7 @@ const TableInsightsPreviewPanel: React.FC<TableInsightsPreviewPanelProps> = ({
                 fontFamily: '"Google Sans", sans-serif',
                 fontSize: '11px',
                 fontWeight: 500,
-                color: '#575757',
+                color: 'var(--sys-on-surface-muted)',
                 lineHeight: '16px',
                 letterSpacing: '0.1px',
               }}
@@ -161,7 +161,7 @@ const TableInsightsPreviewPanel: React.FC<TableInsightsPreviewPanelProps> = ({
                 fontFamily: '"Google Sans", sans-serif',
                 fontSize: '14px',
                 fontWeight: 400,
-                color: '#1F1F1F',
+                color: 'var(--sys-on-surface)',
                 lineHeight: '20px',
               }}
             >
@@ -179,7 +179,7 @@ const TableInsightsPreviewPanel: React.FC<TableInsightsPreviewPanelProps> = ({
               padding: '12px 0 20px',
               gap: '4px',
               width: '100%',
-              borderBottom: '1px solid #DADCE0',
+              borderBottom: '1px solid var(--sys-outline-variant)',
             }}
           >
             <Typography
@@ -187,7 +187,7 @@ const TableInsightsPreviewPanel: React.FC<TableInsightsPreviewPanelProps> = ({
                 fontFamily: '"Google Sans", sans-serif',
                 fontSize: '11px',
                 fontWeight: 500,
-                color: '#575757',
+                color: 'var(--sys-on-surface-muted)',
                 lineHeight: '16px',
                 letterSpacing: '0.1px',
               }}
@@ -199,7 +199,7 @@ const TableInsightsPreviewPanel: React.FC<TableInsightsPreviewPanelProps> = ({
                 fontFamily: '"Google Sans", sans-serif',
                 fontSize: '14px',
                 fontWeight: 400,
-                color: '#1F1F1F',
+                color: 'var(--sys-on-surface)',
                 lineHeight: '20px',
               }}
             >
@@ -223,7 +223,7 @@ const TableInsightsPreviewPanel: React.FC<TableInsightsPreviewPanelProps> = ({
               fontFamily: '"Google Sans", sans-serif',
               fontSize: '14px',
               fontWeight: 500,
-              color: '#1F1F1F',
+              color: 'var(--sys-on-surface)',
               lineHeight: '20px',
             }}
           >
@@ -234,7 +234,7 @@ const TableInsightsPreviewPanel: React.FC<TableInsightsPreviewPanelProps> = ({
               fontFamily: '"Google Sans", sans-serif',
               fontSize: '12px',
               fontWeight: 400,
-              color: '#575757',
+              color: 'var(--sys-on-surface-muted)',
               lineHeight: '16px',
               letterSpacing: '0.1px',
               marginBottom: '12px',
@@ -250,7 +250,7 @@ const TableInsightsPreviewPanel: React.FC<TableInsightsPreviewPanelProps> = ({
               flexDirection: 'column',
               alignItems: 'flex-start',
               width: '100%',
-              border: '1px solid #E1E3E1',
+              border: '1px solid var(--sys-outline-soft)',
               borderRadius: '4px',
             }}
           >
@@ -263,7 +263,7 @@ const TableInsightsPreviewPanel: React.FC<TableInsightsPreviewPanelProps> = ({
                 padding: '8px 16px',
                 gap: '8px',
                 width: '100%',
-                borderBottom: '1px solid #DADCE0',
+                borderBottom: '1px solid var(--sys-outline-variant)',
                 boxSizing: 'border-box',
               }}
             >
@@ -275,13 +275,13 @@ const TableInsightsPreviewPanel: React.FC<TableInsightsPreviewPanelProps> = ({
                   gap: '4px',
                 }}
               >
-                <FilterList sx={{ fontSize: '16px', color: '#1F1F1F' }} />
+                <FilterList sx={{ fontSize: '16px', color: 'var(--sys-on-surface)' }} />
                 <Typography
                   sx={{
                     fontFamily: '"Google Sans", sans-serif',
                     fontSize: '12px',
                     fontWeight: 500,
-                    color: '#1F1F1F',
+                    color: 'var(--sys-on-surface)',
                     lineHeight: '20px',
                   }}
                 >
@@ -299,9 +299,9 @@ const TableInsightsPreviewPanel: React.FC<TableInsightsPreviewPanelProps> = ({
                   flex: 1,
                   fontFamily: '"Roboto", sans-serif',
                   fontSize: '12px',
-                  color: '#575757',
+                  color: 'var(--sys-on-surface-soft)',
                   '& .MuiInputBase-input::placeholder': {
-                    color: '#575757',
+                    color: 'var(--sys-on-surface-muted)',
                     opacity: 1,
                   },
                 }}
@@ -313,8 +313,8 @@ const TableInsightsPreviewPanel: React.FC<TableInsightsPreviewPanelProps> = ({
               sx={{
                 display: 'flex',
                 width: '100%',
-                backgroundColor: '#F0F4F8',
-                borderBottom: '1px solid #DADCE0',
+                backgroundColor: 'var(--sys-surface-container)',
+                borderBottom: '1px solid var(--sys-outline-variant)',
               }}
             >
               <Box
@@ -324,7 +324,7 @@ const TableInsightsPreviewPanel: React.FC<TableInsightsPreviewPanelProps> = ({
                   fontFamily: '"Google Sans", sans-serif',
                   fontSize: '12px',
                   fontWeight: 500,
-                  color: '#444746',
+                  color: 'var(--sys-on-surface-variant)',
                   lineHeight: '16px',
                   letterSpacing: '0.1px',
                 }}
@@ -338,7 +338,7 @@ const TableInsightsPreviewPanel: React.FC<TableInsightsPreviewPanelProps> = ({
                   fontFamily: '"Google Sans", sans-serif',
                   fontSize: '12px',
                   fontWeight: 500,
-                  color: '#444746',
+                  color: 'var(--sys-on-surface-variant)',
                   lineHeight: '16px',
                   letterSpacing: '0.1px',
                 }}
@@ -352,7 +352,7 @@ const TableInsightsPreviewPanel: React.FC<TableInsightsPreviewPanelProps> = ({
                   fontFamily: '"Google Sans", sans-serif',
                   fontSize: '12px',
                   fontWeight: 500,
-                  color: '#444746',
+                  color: 'var(--sys-on-surface-variant)',
                   lineHeight: '16px',
                   letterSpacing: '0.1px',
                 }}
@@ -374,11 +374,11 @@ const TableInsightsPreviewPanel: React.FC<TableInsightsPreviewPanelProps> = ({
                           fontFamily: '"Google Sans", sans-serif',
                           fontSize: '12px',
                           fontWeight: 400,
-                          color: '#1F1F1F',
+                          color: 'var(--sys-on-surface)',
                           lineHeight: '16px',
                           letterSpacing: '0.1px',
                           padding: '10px 16px',
-                          borderBottom: '1px solid #DADCE0',
+                          borderBottom: '1px solid var(--sys-outline-variant)',
                         }}
                       >
                         {col.name}
@@ -390,11 +390,11 @@ const TableInsightsPreviewPanel: React.FC<TableInsightsPreviewPanelProps> = ({
                           fontFamily: '"Google Sans", sans-serif',
                           fontSize: '12px',
                           fontWeight: 400,
-                          color: '#1F1F1F',
+                          color: 'var(--sys-on-surface)',
                           lineHeight: '16px',
                           letterSpacing: '0.1px',
                           padding: '10px 16px',
-                          borderBottom: '1px solid #DADCE0',
+                          borderBottom: '1px solid var(--sys-outline-variant)',
                         }}
                       >
                         -
@@ -406,11 +406,11 @@ const TableInsightsPreviewPanel: React.FC<TableInsightsPreviewPanelProps> = ({
                           fontFamily: '"Google Sans", sans-serif',
                           fontSize: '12px',
                           fontWeight: 400,
-                          color: '#1F1F1F',
+                          color: 'var(--sys-on-surface)',
                           lineHeight: '16px',
                           letterSpacing: '0.1px',
                           padding: '10px 16px',
-                          borderBottom: '1px solid #DADCE0',
+                          borderBottom: '1px solid var(--sys-outline-variant)',
                         }}
                       >
                         {col.description}
@@ -443,12 +443,12 @@ const TableInsightsPreviewPanel: React.FC<TableInsightsPreviewPanelProps> = ({
                 '& .MuiTablePagination-selectLabel, & .MuiTablePagination-displayedRows': {
                   fontFamily: '"Google Sans", sans-serif',
                   fontSize: '12px',
-                  color: '#5E5E5E',
+                  color: 'var(--sys-on-surface-muted)',
                 },
                 '& .MuiTablePagination-select': {
                   fontFamily: '"Google Sans", sans-serif',
                   fontSize: '12px',
-                  color: '#1F1F1F',
+                  color: 'var(--sys-on-surface)',
                 },
                 '& .MuiTablePagination-toolbar': {
                   paddingRight: 0,
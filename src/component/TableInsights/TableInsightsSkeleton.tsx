@@ -6,7 +6,7 @@ const TableInsightsSkeleton: React.FC = () => {
     <Box className="insights-skeleton">
       {/* Table Description Section Skeleton */}
       <Box className="insights-section" sx={{ mb: 2 }}>
-        <Box className="insights-section__header" sx={{ p: 2, backgroundColor: '#F8FAFD', borderRadius: '8px 8px 0 0' }}>
+        <Box className="insights-section__header" sx={{ p: 2, backgroundColor: 'var(--sys-background)', borderRadius: '8px 8px 0 0' }}>
           <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
             <Skeleton variant="circular" width={24} height={24} />
             <Skeleton variant="text" width={150} height={24} />
@@ -14,7 +14,7 @@ const TableInsightsSkeleton: React.FC = () => {
           </Box>
           <Skeleton variant="circular" width={24} height={24} />
         </Box>
-        <Box sx={{ p: 2, backgroundColor: '#FFFFFF', borderRadius: '0 0 8px 8px', border: '1px solid #DADCE0', borderTop: 'none' }}>
+        <Box sx={{ p: 2, backgroundColor: 'var(--sys-surface)', borderRadius: '0 0 8px 8px', border: '1px solid var(--sys-outline-variant)', borderTop: 'none' }}>
           <Skeleton variant="text" width="100%" height={20} />
           <Skeleton variant="text" width="90%" height={20} />
           <Skeleton variant="text" width="30%" height={20} sx={{ mt: 1 }} />
@@ -23,7 +23,7 @@ const TableInsightsSkeleton: React.FC = () => {
 
       {/* Generated Queries Section Skeleton */}
       <Box className="insights-section">
-        <Box className="insights-section__header" sx={{ p: 2, backgroundColor: '#F8FAFD', borderRadius: '8px 8px 0 0' }}>
+        <Box className="insights-section__header" sx={{ p: 2, backgroundColor: 'var(--sys-background)', borderRadius: '8px 8px 0 0' }}>
           <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
             <Skeleton variant="circular" width={24} height={24} />
             <Skeleton variant="text" width={150} height={24} />
@@ -33,7 +33,7 @@ const TableInsightsSkeleton: React.FC = () => {
         </Box>
 
         {/* Filter Bar Skeleton */}
-        <Box sx={{ p: 1.5, borderBottom: '1px solid #DADCE0', display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Box sx={{ p: 1.5, borderBottom: '1px solid var(--sys-outline-variant)', display: 'flex', alignItems: 'center', gap: 1 }}>
           <Skeleton variant="circular" width={16} height={16} />
           <Skeleton variant="text" width={40} height={20} />
           <Skeleton variant="text" width={200} height={20} />
@@ -45,7 +45,7 @@ const TableInsightsSkeleton: React.FC = () => {
             key={item}
             sx={{
               p: 2,
-              borderBottom: '1px solid #E1E3E1',
+              borderBottom: '1px solid var(--sys-outline-soft)',
               display: 'flex',
               justifyContent: 'space-between',
               alignItems: 'center',
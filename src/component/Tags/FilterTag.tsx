@@ -1,6 +1,7 @@
 import React from 'react';
 import { Button } from '@mui/material';
 import CloseIcon from '@mui/icons-material/Close';
+import { useColorTokens } from '../../hooks/useColorTokens';
 
 /**
  * @file FilterTag.tsx
@@ -39,6 +40,7 @@ interface FilterTagProps {
 }
 
 const FilterTag: React.FC<FilterTagProps> = ({ handleClick, handleClose, text, css, showCloseButton = false, icon, iconSize = '14px'}) => {
+  const colors = useColorTokens();
     return (
         <Button 
             onClick={(e)=>{
@@ -49,13 +51,13 @@ const FilterTag: React.FC<FilterTagProps> = ({ handleClick, handleClose, text, c
                 handleClick(e);
             }} 
             style={{
-                background:"#fff", 
-                color:"#004A77", 
+                background:colors.surface, 
+                color:colors.onSecondaryContainer, 
                 padding:"8px 15px", 
                 borderRadius:"20px",
                 fontSize:"12px",
                 fontWeight:"500",
-                border:"1px solid #333",
+                border:`1px solid ${colors.onSurfaceBody}`,
                 display: "flex",
                 alignItems: "center",
                 gap: "8px",
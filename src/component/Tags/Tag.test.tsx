@@ -193,7 +193,7 @@ describe("Tag", () => {
     it("applies custom border", () => {
       render(<Tag {...defaultProps} css={{ border: "1px solid #000" }} />);
       const tag = screen.getByText("Test Tag");
-      expect(tag).toHaveStyle({ border: "1px solid #000" });
+      expect(tag).toHaveStyle({ borderWidth: "1px", borderStyle: "solid", borderColor: "#000" });
     });
 
     it("applies custom margin", () => {
@@ -1,4 +1,5 @@
 import { Typography } from '@mui/material';
+import { useColorTokens } from '../../hooks/useColorTokens';
 //import './Tag.css';
 
 /**
@@ -25,15 +26,16 @@ interface TagProps {
 }
 
 const Tag: React.FC<TagProps> = ({ text, css, className}) => {
+  const colors = useColorTokens();
     return (<Typography className={`capitalizeTag${className ? ` ${className}` : ''}`} component="span" style={
                 {
-                    background:"#C2E7FF", 
+                    background:colors.secondaryContainer, 
                     // color:"#004A77", 
                     // padding:"5px 10px", 
                     // borderRadius:"10px",
                     // fontSize:"12px",
                     // fontWeight:"600",
-                    color: '#004A77',
+                    color: colors.onSecondaryContainer,
                     borderRadius: '16px',
                     padding: '4px 12px',
                     height: '24px',
@@ -187,6 +187,18 @@ vi.mock('../DataProfile/DataProfile', () => ({
   }
 }));
 
+vi.mock('../Compare/AddToCompareButton', () => ({
+  default: function MockAddToCompareButton({ entryName }: any) {
+    return <div data-testid="add-to-compare">Compare - {entryName}</div>;
+  }
+}));
+
+vi.mock('../ImpactAnalysis/ImpactAnalysisDialog', () => ({
+  default: function MockImpactAnalysisDialog({ entry, onClose }: any) {
+    return <div data-testid="impact-analysis-dialog" onClick={onClose}>Impact analysis for {entry?.fullyQualifiedName}</div>;
+  }
+}));
+
 vi.mock('../EntryList/EntryList', () => ({
   default: function MockEntryList({ entry }: any) {
     return <div data-testid="entry-list">Entry List for {entry?.name}</div>;
@@ -534,6 +546,21 @@ describe('ViewDetails', () => {
       expect(mockWindowOpen).toHaveBeenCalledWith('https://lookerstudio.google.com', '_blank');
     });
 
+    it('opens the impact analysis dialog for the entry', async () => {
+      renderViewDetails();
+
+      await waitFor(() => {
+        expect(screen.getByText('Impact analysis')).toBeInTheDocument();
+      });
+      expect(screen.queryByTestId('impact-analysis-dialog')).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByText('Impact analysis'));
+      expect(screen.getByTestId('impact-analysis-dialog')).toHaveTextContent('Impact analysis for project:dataset.table');
+
+      fireEvent.click(screen.getByTestId('impact-analysis-dialog'));
+      expect(screen.queryByTestId('impact-analysis-dialog')).not.toBeInTheDocument();
+    });
+
     it('renders tabs for Tables entry type', async () => {
       renderViewDetails();
 
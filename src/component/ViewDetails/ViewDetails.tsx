@@ -1,6 +1,6 @@
 import React, { useEffect, useState, useMemo, useCallback, useRef } from 'react'
 import { Box, IconButton, Tab, Tabs, Tooltip, Skeleton } from '@mui/material'
-import { ArrowBack, KeyboardArrowUp, KeyboardArrowDown } from '@mui/icons-material'
+import { ArrowBack, KeyboardArrowUp, KeyboardArrowDown, AccountTreeOutlined } from '@mui/icons-material'
 import { useNavigate, useLocation } from 'react-router-dom'
 import { useDispatch, useSelector } from 'react-redux'
 import CustomTabPanel from '../TabPanel/CustomTabPanel'
@@ -36,6 +36,12 @@ import ResourcePreview from '../Common/ResourcePreview';
 import TableInsights from '../TableInsights/TableInsights'
 import { useNoAccess } from '../../contexts/NoAccessContext';
 // import { useFavorite } from '../../hooks/useFavorite'
+import AddToCompareButton from '../Compare/AddToCompareButton';
+import ImpactAnalysisDialog from '../ImpactAnalysis/ImpactAnalysisDialog';
+import { useCommandActions, type CommandAction } from '../../contexts/CommandPaletteContext';
+import { useNotification } from '../../contexts/NotificationContext';
+import { addRecentEntry } from '../../utils/recentEntries';
+import { getAnnotationAspectKeys } from '../../utils/entryModel';
 
 /**
  * @file ViewDetails.tsx
@@ -66,6 +72,11 @@ import { useNoAccess } from '../../contexts/NoAccessContext';
  * active tab, which can be `DetailPageOverview`, `PreviewAnnotation`
  * (with `AnnotationFilter`), `Lineage`, `DataProfile`, `DataQuality`, or
  * `EntryList`.
+ * 6.  **Command Palette**: It adds "Open <tab> tab" and "Copy fully
+ * qualified name" commands for the open entry, and records the entry in the
+ * user's recent entries.
+ * 7.  **Impact Analysis**: Entries with a fully qualified name get an
+ * "Impact analysis" button (and command) opening `ImpactAnalysisDialog`.
  *
  * @param {object} props - This component accepts no props. It relies
  * entirely on data from the Redux store (via `useSelector`) and context
@@ -96,6 +107,22 @@ const getGlossaryType = (entry: any): 'glossary' | 'category' | 'term' | null =>
   return null;
 };
 
+// Tab labels in the order the tabs are rendered for `entry`
+const getTabLabels = (
+  entry: { name?: string; entrySource?: { system?: string } | null } | null | undefined,
+  glossaryType: 'glossary' | 'category' | 'term' | null,
+): string[] => {
+  if (!entry?.name) return [];
+  const type = getEntryType(entry.name, '/');
+  if (type === 'Tables' && entry.entrySource?.system?.toLowerCase() === 'bigquery') {
+    return ['Overview', 'Aspects', 'Lineage', 'Data Profile', 'Data Quality', 'Insights'];
+  }
+  if (type === 'Datasets') return ['Overview', 'Entry List', 'Aspects', 'Insights'];
+  if (glossaryType === 'glossary' || glossaryType === 'category') return ['Overview', 'Categories', 'Terms', 'Aspects'];
+  if (glossaryType === 'term') return ['Overview', 'Linked Assets', 'Synonyms & Related Terms', 'Aspects'];
+  return ['Overview', 'Aspects'];
+};
+
 const ViewDetails = () => {
   const { user } = useAuth();
   const entry = useSelector((state: any) => state.entry.items);
@@ -103,6 +130,7 @@ const ViewDetails = () => {
   const entryError = useSelector((state: any) => state.entry.error);
   const entryHistory = useSelector((state: any) => state.entry.history);
   const { triggerNoAccess } = useNoAccess();
+  const { showNotification } = useNotification();
   const sampleData = useSelector((state: any) => state.sampleData.items);
   const sampleDataStatus = useSelector((state: any) => state.sampleData.status);
   const glossaryItems = useSelector((state: any) => state.glossaries.viewDetailsItems);
@@ -140,6 +168,7 @@ const ViewDetails = () => {
     }
   }, []);
   const [descriptionExpanded, setDescriptionExpanded] = useState(false);
+  const [impactAnalysisOpen, setImpactAnalysisOpen] = useState(false);
 
   const handleAnnotationCollapseAll = () => {
     setExpandedAnnotations(new Set());
@@ -147,14 +176,7 @@ const ViewDetails = () => {
 
   const handleAnnotationExpandAll = () => {
     if (entry?.aspects) {
-      const number = getEntryType(entry.name, '/');
-      const annotationKeys = Object.keys(entry.aspects)
-        .filter(key =>
-          key !== `${number}.global.schema` &&
-          key !== `${number}.global.overview` &&
-          key !== `${number}.global.contacts` &&
-          key !== `${number}.global.usage`
-        )
+      const annotationKeys = getAnnotationAspectKeys(entry)
         .filter(key => hasValidAnnotationData(entry.aspects![key])); // Only expand those with data
       setExpandedAnnotations(new Set(annotationKeys));
     }
@@ -524,11 +546,47 @@ useEffect(() => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [entryStatus, initialTabName, entry]);
 
+  // Remember the entry for the command palette's recent entries
+  useEffect(() => {
+    if (entryStatus === 'succeeded' && entry?.name) {
+      addRecentEntry(user?.email, entry);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [entryStatus, entry?.name]);
+
+  const commandActions: CommandAction[] = getTabLabels(displayEntry, glossaryType).map((label, index) => ({
+    id: `entry:tab:${index}`,
+    label: `Open ${label} tab`,
+    detail: getName(displayEntry.name, '/'),
+    keywords: ['tab', 'entry'],
+    run: () => handleTabChange({} as React.SyntheticEvent, index),
+  }));
+  if (displayEntry?.fullyQualifiedName) {
+    commandActions.push({
+      id: 'entry:copyFqn',
+      label: 'Copy fully qualified name',
+      detail: displayEntry.fullyQualifiedName,
+      keywords: ['fqn', 'clipboard'],
+      run: () => {
+        navigator.clipboard.writeText(displayEntry.fullyQualifiedName);
+        showNotification('Copied to clipboard.', 'success', 3000, undefined);
+      },
+    });
+    commandActions.push({
+      id: 'entry:impactAnalysis',
+      label: 'Run impact analysis',
+      detail: displayEntry.fullyQualifiedName,
+      keywords: ['downstream', 'lineage', 'consumers'],
+      run: () => setImpactAnalysisOpen(true),
+    });
+  }
+  useCommandActions(commandActions);
+
   // Lineage tab with full Lineage component
   const lineageTab = <Lineage entry={displayEntry}/>;
 
   return (
-    <div ref={scrollContainerRef} onScroll={handleScroll} style={{display: "flex", flexDirection: "column", padding: "0px 0", background:"#FFFFFF", height: "100%", overflowY: "auto" }}>
+    <div ref={scrollContainerRef} onScroll={handleScroll} style={{display: "flex", flexDirection: "column", padding: "0px 0", background:"var(--sys-surface)", height: "100%", overflowY: "auto" }}>
       {loading ? (
         <div style={{display: "flex", flexDirection: "row", gap: "1rem"}}>
           <div style={{display: "flex", flexDirection: "column", flex: 1, minWidth: 0}}>
@@ -565,7 +623,7 @@ useEffect(() => {
                 display: 'flex',
                 gap: '24px',
                 paddingBottom: '12px',
-                borderBottom: '1px solid #E0E0E0'
+                borderBottom: '1px solid var(--sys-divider)'
               }}>
                 <Skeleton variant="text" width={80} height={20} />
                 <Skeleton variant="text" width={70} height={20} />
@@ -583,7 +641,7 @@ useEffect(() => {
       ) : (<>
                         {/* Fixed Header Container - sticky, direct child of scroll container */}
                         <div style={{
-                            backgroundColor: '#ffffff',
+                            backgroundColor: 'var(--sys-surface)',
                             zIndex: 1001,
                             position: "sticky",
                             top: 0,
@@ -612,7 +670,7 @@ useEffect(() => {
                             width: '40px',
                             height: '40px',
                             borderRadius: '50%',
-                            color: '#0B57D0',
+                            color: 'var(--sys-primary)',
                             transition: 'background-color 0.2s',
                             '&:hover': { backgroundColor: 'rgba(0, 0, 0, 0.04)' },
                         }}
@@ -623,8 +681,8 @@ useEffect(() => {
                     <Box sx={{
                         width: "48px",
                         height: "48px",
-                        background: "#EDF2FC",
-                        border: "1px solid #E7F0FE",
+                        background: "var(--sys-selected-container-low)",
+                        border: "1px solid var(--sys-selected-container)",
                         borderRadius: "10px",
                         display: "flex",
                         alignItems: "center",
@@ -646,6 +704,7 @@ useEffect(() => {
                                 <Box
                                     component="img"
                                     src={getAssetIcon(iconType)}
+                                    className="asset-icon"
                                     alt="Entry type icon"
                                     sx={{
                                         width: "24px",
@@ -669,7 +728,7 @@ useEffect(() => {
                             >
                             <label style={{
                                 fontFamily: '"Google Sans", sans-serif',
-                                color: "#1F1F1F",
+                                color: "var(--sys-on-surface)",
                                 fontSize: "28px",
                                 fontWeight: "400",
                                 lineHeight: "36px",
@@ -686,8 +745,8 @@ useEffect(() => {
                                     text={(() => { const sys = displayEntry.entrySource.system; if (!sys) return 'Custom'; const lower = sys.toLowerCase(); if (lower === 'dataplex universal catalog' || lower === 'dataplex') return 'Knowledge Catalog'; if (lower === 'bigquery') return 'BigQuery'; return sys.replace("_", " ").replace("-", " ").toLowerCase(); })()}
                                     css={{
                                         fontFamily: '"Google Sans", sans-serif',
-                                        backgroundColor: '#C2E7FF',
-                                        color: '#004A77',
+                                        backgroundColor: 'var(--sys-secondary-container)',
+                                        color: 'var(--sys-on-secondary-container)',
                                         borderRadius: '8px',
                                         padding: '3px 8px',
                                         height: '22px',
@@ -710,8 +769,8 @@ useEffect(() => {
                                     })()}
                                     css={{
                                         fontFamily: '"Google Sans", sans-serif',
-                                        backgroundColor: '#C2E7FF',
-                                        color: '#004A77',
+                                        backgroundColor: 'var(--sys-secondary-container)',
+                                        color: 'var(--sys-on-secondary-container)',
                                         borderRadius: '8px',
                                         padding: '3px 8px',
                                         height: '22px',
@@ -725,6 +784,7 @@ useEffect(() => {
                                     }}
                                 />
                             </div>
+                            {displayEntry.name && <AddToCompareButton entryName={displayEntry.name} size={24} />}
                         </div>
                     </div>
                 </div>
@@ -743,7 +803,7 @@ useEffect(() => {
                               onClick={() => bigQueryLink && window.open(bigQueryLink, '_blank')}
                               sx={{
                               background: "transparent",
-                              border: "1px solid #DADCE0",
+                              border: "1px solid var(--sys-outline-variant)",
                               borderRadius: "100px",
                               cursor: bigQueryLink ? "pointer" : "not-allowed",
                               display: "flex",
@@ -751,7 +811,7 @@ useEffect(() => {
                               justifyContent: "center",
                               gap: "8px",
                               padding: "10px 16px",
-                              color: "#0B57D0",
+                              color: "var(--sys-primary)",
                               fontFamily: '"Google Sans", sans-serif',
                               fontSize: "14px",
                               fontWeight: "500",
@@ -776,7 +836,7 @@ useEffect(() => {
                               onClick={() => lookerLink && window.open(lookerLink, '_blank')}
                               sx={{
                               background: "transparent",
-                              border: "1px solid #DADCE0",
+                              border: "1px solid var(--sys-outline-variant)",
                               borderRadius: "100px",
                               cursor: lookerLink ? "pointer" : "not-allowed",
                               display: "flex",
@@ -784,7 +844,7 @@ useEffect(() => {
                               justifyContent: "center",
                               gap: "8px",
                               padding: "10px 16px",
-                              color: "#0B57D0",
+                              color: "var(--sys-primary)",
                               fontFamily: '"Google Sans", sans-serif',
                               fontSize: "14px",
                               fontWeight: "500",
@@ -806,6 +866,35 @@ useEffect(() => {
                       </>
                     ):(<></>)
                   }
+                  {displayEntry.fullyQualifiedName && (
+                    <Box
+                          component="button"
+                          onClick={() => setImpactAnalysisOpen(true)}
+                          sx={{
+                          background: "transparent",
+                          border: "1px solid var(--sys-outline-variant)",
+                          borderRadius: "100px",
+                          cursor: "pointer",
+                          display: "flex",
+                          alignItems: "center",
+                          justifyContent: "center",
+                          gap: "8px",
+                          padding: "10px 16px",
+                          color: "var(--sys-primary)",
+                          fontFamily: '"Google Sans", sans-serif',
+                          fontSize: "14px",
+                          fontWeight: "500",
+                          lineHeight: "20px",
+                          whiteSpace: "nowrap",
+                          transition: "background-color 0.2s ease",
+                          '&:hover': {
+                            backgroundColor: 'rgba(0, 0, 0, 0.04)',
+                          },
+                      }}>
+                          <AccountTreeOutlined sx={{ fontSize: "20px" }} />
+                          Impact analysis
+                    </Box>
+                  )}
                 </div>
               </div>
             {/* Close sticky header - only name slip stays sticky */}
@@ -823,7 +912,7 @@ useEffect(() => {
                         fontFamily: '"Google Sans", sans-serif',
                         fontSize: "14px",
                         lineHeight: "20px",
-                        color: "#575757",
+                        color: "var(--sys-on-surface-muted)",
                         fontWeight: 400,
                         maxHeight: descriptionExpanded ? "none" : "60px",
                         overflow: "hidden",
@@ -842,7 +931,7 @@ useEffect(() => {
                                 alignItems: "center",
                                 gap: "4px",
                                 padding: "6px 0px",
-                                color: "#0B57D0",
+                                color: "var(--sys-primary)",
                                 fontFamily: '"Google Sans", sans-serif',
                                 fontSize: "14px",
                                 fontWeight: 500,
@@ -859,7 +948,7 @@ useEffect(() => {
                       fontFamily: '"Google Sans", sans-serif',
                       fontSize: "14px",
                       lineHeight: "20px",
-                      color: "#575757",
+                      color: "var(--sys-on-surface-muted)",
                       fontWeight: 400,
                       fontStyle: "italic",
                   }}>
@@ -885,12 +974,12 @@ useEffect(() => {
                       "& .MuiTab-root": {
                         fontFamily: '"Product Sans Regular", sans-serif',
                         fontSize: "14px",
-                        color: "#575757",
+                        color: "var(--sys-on-surface-muted)",
                         textTransform: "none",
                         minHeight: "48px",
                         padding: "12px 20px 16px",
                         "&.Mui-selected": {
-                          color: "#0B57D0",
+                          color: "var(--sys-primary)",
                         },
                       },
                       "& .MuiTabs-indicator": {
@@ -902,8 +991,8 @@ useEffect(() => {
                           right: "20px",
                           bottom: "-2px",
                           height: "5px",
-                          backgroundColor: "white",
-                          borderTop: "4px solid #0B57D0",
+                          backgroundColor: "var(--sys-surface)",
+                          borderTop: "4px solid var(--sys-primary)",
                           borderRadius: "2.5px 2.5px 0 0",
                         },
                       },
@@ -950,7 +1039,7 @@ useEffect(() => {
             </div>
 
            {/* Tab Content */}
-            <div style={{paddingTop:"0px", marginTop:"0px", marginLeft: "20px", marginRight: "20px", paddingBottom: "2rem", borderTop: "1px solid #E0E0E0"}}>
+            <div style={{paddingTop:"0px", marginTop:"0px", marginLeft: "20px", marginRight: "20px", paddingBottom: "2rem", borderTop: "1px solid var(--sys-divider)"}}>
                     <CustomTabPanel value={tabValue} index={0}>
                         {overviewTab}
                     </CustomTabPanel>
@@ -1143,7 +1232,7 @@ useEffect(() => {
           top: "80px",
           marginTop: "10px",
           borderRadius: "20px",
-          backgroundColor: "#fff",
+          backgroundColor: "var(--sys-surface)",
           display: "flex",
           flexDirection: "column",
           overflow: "hidden",
@@ -1177,6 +1266,13 @@ useEffect(() => {
         />
       </Box>
       </div>
+      {impactAnalysisOpen && (
+        <ImpactAnalysisDialog
+          open={impactAnalysisOpen}
+          onClose={() => setImpactAnalysisOpen(false)}
+          entry={displayEntry}
+        />
+      )}
       </>
       )}
     </div>
@@ -3,4 +3,6 @@ export const SIDEBAR_ICONS = {
   GLOSSARIES: 'book_2',
   ASPECTS: 'newsmode',
   DATA_PRODUCTS: 'dataset',
+  FAVORITES: 'star',
+  DATA_QUALITY: 'monitor_heart',
 } as const;
@@ -5,6 +5,7 @@ export const URLS = {
     API_URL: API_BASE_URL+ '/' + API_VERSION,
     APP_CONFIG: '/app-configs',
     ADMIN_CONFIGURE: '/admin/configure',
+    ADMIN_CONFIG_REVISIONS: '/admin/config/revisions',
     CHECK_PERMISSIONS: '/check-permissions',
     SEARCH : '/search',
     GET_ENTRY: '/get-entry',
@@ -13,6 +14,7 @@ export const URLS = {
     GET_SAMPLE_DATA: '/get-sample-data',
     BATCH_ASPECTS: '/batch-aspects',
     LINEAGE_SEARCH: '/lineage',
+    LINEAGE_TRAVERSE: '/lineage-traverse',
     ENTRY_DATA_QUALITY: '/entry-data-quality',
     GET_DATA_SCAN: '/get-data-scan',
     GET_ALL_DATA_SCANS: '/data-scans',
@@ -23,4 +25,7 @@ export const URLS = {
     SEND_FEEDBACK: '/send-feedback',
     LINEAGE_SEARCH_COLUMN_LEVEL: '/lineage-column-level',
     GET_SCAN_JOBS: '/get-data-scan-jobs',
+    SAVED_SEARCHES: '/saved-searches',
+    FAVORITES: '/favorites',
+    WATCHLIST: '/watchlist',
 }
\ No newline at end of file
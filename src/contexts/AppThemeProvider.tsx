@@ -0,0 +1,16 @@
+import { useMemo } from 'react';
+import { ThemeProvider } from '@mui/material/styles';
+import { useAppSelector } from '../app/store';
+import { createAppTheme } from '../theme';
+
+/**
+ * MUI `ThemeProvider` whose palette follows `user.mode` (light or dark).
+ */
+const AppThemeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const mode = useAppSelector((state) => state.user.mode);
+  const theme = useMemo(() => createAppTheme(mode), [mode]);
+
+  return <ThemeProvider theme={theme}>{children}</ThemeProvider>;
+};
+
+export default AppThemeProvider;
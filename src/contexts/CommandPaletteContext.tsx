@@ -0,0 +1,97 @@
+import React, { createContext, useContext, useState, useCallback, useMemo, useEffect, useId, useRef, type ReactNode } from 'react';
+
+/**
+ * A command shown in the command palette (Ctrl/Cmd+K). Components add their
+ * own commands with `useCommandActions`; they are listed while the component
+ * is mounted.
+ */
+export interface CommandAction {
+  id: string;
+  label: string;
+  // Section of the palette, e.g. "Actions" or "Pages"
+  group?: string;
+  // Secondary text, e.g. the entry's system
+  detail?: string;
+  // Extra words the fuzzy search matches on
+  keywords?: string[];
+  shortcut?: string;
+  run: () => void;
+}
+
+interface CommandPaletteContextType {
+  isOpen: boolean;
+  setOpen: (isOpen: boolean) => void;
+  actions: CommandAction[];
+  registerActions: (sourceId: string, actions: CommandAction[]) => () => void;
+}
+
+const CommandPaletteContext = createContext<CommandPaletteContextType | undefined>(undefined);
+
+export const useCommandPalette = (): CommandPaletteContextType => {
+  const context = useContext(CommandPaletteContext);
+  if (!context) {
+    throw new Error('useCommandPalette must be used within a CommandPaletteProvider');
+  }
+  return context;
+};
+
+/**
+ * Adds `actions` to the command palette while the calling component is
+ * mounted. The latest `run` functions are always used, so callers do not
+ * need to memoize them. Does nothing outside a `CommandPaletteProvider`.
+ */
+export const useCommandActions = (actions: CommandAction[]) => {
+  const registerActions = useContext(CommandPaletteContext)?.registerActions;
+  const sourceId = useId();
+  const latest = useRef(actions);
+  latest.current = actions;
+  // Re-register only when the listed commands change, not on every render
+  const signature = actions.map((action) => [action.id, action.label, action.group, action.detail].join('\u0000')).join('\u0001');
+
+  useEffect(() => {
+    if (!registerActions) return;
+    return registerActions(sourceId, latest.current.map((action) => ({
+      ...action,
+      run: () => latest.current.find((current) => current.id === action.id)?.run(),
+    })));
+  }, [registerActions, sourceId, signature]);
+};
+
+interface CommandPaletteProviderProps {
+  children: ReactNode;
+}
+
+export const CommandPaletteProvider: React.FC<CommandPaletteProviderProps> = ({ children }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [sources, setSources] = useState<Record<string, CommandAction[]>>({});
+
+  const setOpen = useCallback((open: boolean) => {
+    setIsOpen(open);
+  }, []);
+
+  const registerActions = useCallback((sourceId: string, actions: CommandAction[]) => {
+    setSources((prev) => ({ ...prev, [sourceId]: actions }));
+    return () => {
+      setSources((prev) => {
+        const next = { ...prev };
+        delete next[sourceId];
+        return next;
+      });
+    };
+  }, []);
+
+  const actions = useMemo(() => Object.values(sources).flat(), [sources]);
+
+  const value: CommandPaletteContextType = useMemo(() => ({
+    isOpen,
+    setOpen,
+    actions,
+    registerActions,
+  }), [isOpen, setOpen, actions, registerActions]);
+
+  return (
+    <CommandPaletteContext.Provider value={value}>
+      {children}
+    </CommandPaletteContext.Provider>
+  );
+};
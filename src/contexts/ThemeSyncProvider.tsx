@@ -1,13 +1,22 @@
 import { useEffect } from 'react';
-import { useAppSelector } from '../app/store';
+import { useAppDispatch, useAppSelector } from '../app/store';
+import { setSystemThemeMode, subscribeToSystemThemeMode } from '../features/user/userSlice';
 
 const ThemeSyncProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const dispatch = useAppDispatch();
   const mode = useAppSelector((state) => state.user.mode);
+  const themePreference = useAppSelector((state) => state.user.themePreference);
 
   useEffect(() => {
     document.documentElement.setAttribute('data-theme', mode);
   }, [mode]);
 
+  // Follow OS light/dark changes while the preference is 'system'
+  useEffect(() => {
+    if (themePreference !== 'system') return;
+    return subscribeToSystemThemeMode((systemMode) => dispatch(setSystemThemeMode(systemMode)));
+  }, [themePreference, dispatch]);
+
   return <>{children}</>;
 };
 
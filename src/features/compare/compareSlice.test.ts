@@ -0,0 +1,143 @@
+import { configureStore } from '@reduxjs/toolkit';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import axios, { AxiosError, type AxiosResponse } from 'axios';
+import compareReducer, {
+  addToCompare,
+  clearCompare,
+  loadCompareEntry,
+  loadCompareSelection,
+  removeFromCompare,
+  saveCompareSelection,
+} from './compareSlice';
+import { resetDataplexClient } from '../../api/dataplexClient';
+import entryReducer from '../entry/entrySlice';
+import dataScanReducer from '../dataScan/dataScanSlice';
+
+// Mock axios
+vi.mock('axios', async () => {
+  const actual = await vi.importActual<typeof import('axios')>('axios');
+  return {
+    ...actual,
+    default: {
+      get: vi.fn(),
+      post: vi.fn(),
+      defaults: {
+        headers: {
+          common: {} as Record<string, string>,
+        },
+      },
+    },
+  };
+});
+
+const mockedAxiosGet = axios.get as ReturnType<typeof vi.fn>;
+const mockedAxiosPost = axios.post as ReturnType<typeof vi.fn>;
+
+const createStore = () => configureStore({
+  reducer: { compare: compareReducer, entry: entryReducer, dataScan: dataScanReducer },
+});
+
+const ENTRY_NAME = 'projects/p/locations/us/entryGroups/@bigquery/entries/orders';
+const RESOURCE = '//bigquery.googleapis.com/projects/my-project/datasets/sales/tables/orders';
+const entry = {
+  name: ENTRY_NAME,
+  fullyQualifiedName: 'bigquery:my-project.sales.orders',
+  entrySource: { resource: RESOURCE },
+};
+
+describe('compareSlice', () => {
+  let store: ReturnType<typeof createStore>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetDataplexClient();
+    localStorage.clear();
+    store = createStore();
+  });
+
+  it('keeps up to four distinct entries in the selection', () => {
+    ['a', 'b', 'a', 'c', 'd', 'e'].forEach((name) => store.dispatch(addToCompare(name)));
+    expect(store.getState().compare.selection).toEqual(['a', 'b', 'c', 'd']);
+
+    store.dispatch(removeFromCompare('b'));
+    expect(store.getState().compare.selection).toEqual(['a', 'c', 'd']);
+
+    store.dispatch(clearCompare());
+    expect(store.getState().compare.selection).toEqual([]);
+  });
+
+  it('saves and loads the selection', () => {
+    saveCompareSelection(['a', 'b']);
+    expect(loadCompareSelection()).toEqual(['a', 'b']);
+
+    localStorage.setItem('compareSelection', '{"a":1}');
+    expect(loadCompareSelection()).toEqual([]);
+  });
+
+  it('loads the entry, its lineage and its scans', async () => {
+    mockedAxiosGet.mockImplementation(async (url: string) => {
+      if (url.includes('/get-entry')) return { data: entry };
+      if (url.includes('/data-scans')) {
+        return {
+          data: [
+            { name: 'scans/other', type: 'DATA_QUALITY', data: { resource: '//bigquery.googleapis.com/other' } },
+            { name: 'scans/dq', type: 'DATA_QUALITY', data: { resource: RESOURCE } },
+            { name: 'scans/profile', type: 'DATA_PROFILE', data: { resource: RESOURCE } },
+          ],
+        };
+      }
+      if (url.includes('/get-data-scan')) return { data: { scan: {}, jobs: [] } };
+      throw new Error(`unexpected ${url}`);
+    });
+    mockedAxiosPost.mockResolvedValue({ data: { sourceLinks: [], targetLinks: [] } });
+
+    await store.dispatch(loadCompareEntry({ entryName: ENTRY_NAME, id_token: 'token-123' }));
+
+    const auth = { headers: { Authorization: 'Bearer token-123' } };
+    expect(mockedAxiosPost).toHaveBeenCalledWith(expect.stringContaining('/lineage'), {
+      parent: 'projects/p/locations/us',
+      fqn: 'bigquery:my-project.sales.orders',
+    }, auth);
+    expect(mockedAxiosGet).toHaveBeenCalledWith(expect.stringContaining('/data-scans?project=my-project'), auth);
+    expect(store.getState().compare.items[ENTRY_NAME]).toEqual({
+      status: 'succeeded',
+      entry,
+      lineage: { sourceLinks: [], targetLinks: [] },
+      dqScanName: 'scans/dq',
+      profileScanName: 'scans/profile',
+      error: null,
+    });
+    expect(Object.keys(store.getState().dataScan.scans).sort()).toEqual(['scans/dq', 'scans/profile']);
+  });
+
+  it('keeps the entry when lineage and scans cannot be loaded', async () => {
+    mockedAxiosGet.mockImplementation(async (url: string) => {
+      if (url.includes('/get-entry')) return { data: entry };
+      throw new Error('Network Error');
+    });
+    mockedAxiosPost.mockRejectedValue(new Error('Network Error'));
+
+    await store.dispatch(loadCompareEntry({ entryName: ENTRY_NAME, id_token: 'token-123' }));
+
+    expect(store.getState().compare.items[ENTRY_NAME]).toMatchObject({
+      status: 'succeeded',
+      lineage: null,
+      dqScanName: null,
+      profileScanName: null,
+    });
+  });
+
+  it('fails the item when the entry cannot be read', async () => {
+    const error = new AxiosError('Forbidden');
+    error.response = { status: 403, data: {} } as AxiosResponse;
+    mockedAxiosGet.mockRejectedValue(error);
+
+    await store.dispatch(loadCompareEntry({ entryName: ENTRY_NAME, id_token: 'token-123' }));
+
+    expect(store.getState().compare.items[ENTRY_NAME]).toMatchObject({
+      status: 'failed',
+      error: { type: 'PERMISSION_DENIED' },
+    });
+    expect(mockedAxiosPost).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,156 @@
+import { createSlice, createAsyncThunk, type PayloadAction } from '@reduxjs/toolkit';
+import { dataplexClient, DataplexApiError } from '../../api/dataplexClient';
+import type { DataScanResource, DataplexEntry, LineageSearchResponse } from '../../api/dataplexClient';
+import type { RootState } from '../../app/store';
+import { fetchEntry } from '../entry/entrySlice';
+import { fetchDataScan } from '../dataScan/dataScanSlice';
+import { MAX_COMPARE_ENTRIES } from '../../utils/entryCompare';
+
+// Everything the compare page shows for one entry. Scan data itself stays in
+// dataScanSlice under the scan names.
+export type CompareItem = {
+  status: 'loading' | 'succeeded' | 'failed';
+  entry: DataplexEntry | null;
+  lineage: LineageSearchResponse | null;
+  dqScanName: string | null;
+  profileScanName: string | null;
+  error: unknown;
+};
+
+const SELECTION_STORAGE_KEY = 'compareSelection';
+
+export const loadCompareSelection = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SELECTION_STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored)
+      ? stored.filter((name): name is string => typeof name === 'string').slice(0, MAX_COMPARE_ENTRIES)
+      : [];
+  } catch (error) {
+    console.warn('Failed to load compare selection from localStorage:', error);
+    return [];
+  }
+};
+
+export const saveCompareSelection = (selection: string[]) => {
+  try {
+    localStorage.setItem(SELECTION_STORAGE_KEY, JSON.stringify(selection));
+  } catch (error) {
+    console.warn('Failed to save compare selection to localStorage:', error);
+  }
+};
+
+/**
+ * Loads one entry for the compare page: the entry through `fetchEntry`, its
+ * lineage links and its data quality and profile scans through
+ * `dataScanSlice`. Lineage and scans are optional; only a failed entry lookup
+ * fails the item.
+ */
+export const loadCompareEntry = createAsyncThunk('compare/loadCompareEntry', async (requestData: { entryName: string; id_token: string }, { rejectWithValue, dispatch, getState }) => {
+  const { entryName, id_token } = requestData;
+  let entry: DataplexEntry;
+  try {
+    entry = await dispatch(fetchEntry({ entryName, id_token })).unwrap();
+  } catch (error) {
+    return rejectWithValue(error);
+  }
+
+  const loadLineage = async () => {
+    if (!entry?.fullyQualifiedName) return null;
+    try {
+      // Not through fetchLineageSearchLinks, which keeps a single entry's links
+      const lineage = await dataplexClient.lineage.searchLinks({
+        parent: entry.name.split('/').slice(0, 4).join('/'),
+        fqn: entry.fullyQualifiedName,
+      }, { id_token });
+      return lineage ?? null;
+    } catch (error) {
+      if (error instanceof DataplexApiError) console.warn('Failed to load lineage for comparison:', error.message);
+      return null;
+    }
+  };
+
+  const loadScanNames = async () => {
+    const resource = entry?.entrySource?.resource;
+    if (!resource) return { dqScanName: null, profileScanName: null };
+    // Scans are listed in the resource's project; the backend falls back to its default project
+    const project = /\/projects\/([^/]+)/.exec(resource)?.[1] ?? '';
+    try {
+      // Not through fetchAllDataScans, which keeps the scans of the entry on the details page
+      const scans: DataScanResource[] = await dataplexClient.scans.list(project, { id_token }) ?? [];
+      const findScan = (type: string) =>
+        scans.find((scan) => scan.data?.resource?.includes(resource) && scan.type === type)?.name ?? null;
+      return { dqScanName: findScan('DATA_QUALITY'), profileScanName: findScan('DATA_PROFILE') };
+    } catch {
+      return { dqScanName: null, profileScanName: null };
+    }
+  };
+
+  const [lineage, { dqScanName, profileScanName }] = await Promise.all([loadLineage(), loadScanNames()]);
+  await Promise.all([dqScanName, profileScanName]
+    .filter((name): name is string => !!name && !(getState() as RootState).dataScan?.scans[name]?.data)
+    .map((name) => dispatch(fetchDataScan({ name, id_token }))));
+
+  return { entryName, entry, lineage, dqScanName, profileScanName };
+}, {
+  condition: (requestData, { getState }) =>
+    (getState() as RootState).compare?.items[requestData?.entryName]?.status !== 'loading',
+});
+
+type CompareState = {
+  // Entries picked in search results or on the details page
+  selection: string[];
+  items: Record<string, CompareItem>;
+};
+
+const initialState: CompareState = {
+  selection: loadCompareSelection(),
+  items: {},
+};
+
+export const compareSlice = createSlice({
+  name: 'compare',
+  initialState,
+  reducers: {
+    addToCompare: (state, action: PayloadAction<string>) => {
+      if (!state.selection.includes(action.payload) && state.selection.length < MAX_COMPARE_ENTRIES) {
+        state.selection.push(action.payload);
+      }
+    },
+    removeFromCompare: (state, action: PayloadAction<string>) => {
+      state.selection = state.selection.filter((name) => name !== action.payload);
+    },
+    setCompareSelection: (state, action: PayloadAction<string[]>) => {
+      state.selection = [...new Set(action.payload)].slice(0, MAX_COMPARE_ENTRIES);
+    },
+    clearCompare: (state) => {
+      state.selection = [];
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(loadCompareEntry.pending, (state, action) => {
+        state.items[action.meta.arg.entryName] = {
+          status: 'loading',
+          entry: null,
+          lineage: null,
+          dqScanName: null,
+          profileScanName: null,
+          error: null,
+        };
+      })
+      .addCase(loadCompareEntry.fulfilled, (state, action) => {
+        const { entryName, ...item } = action.payload;
+        state.items[entryName] = { ...item, status: 'succeeded', error: null };
+      })
+      .addCase(loadCompareEntry.rejected, (state, action) => {
+        state.items[action.meta.arg.entryName] = {
+          ...state.items[action.meta.arg.entryName],
+          status: 'failed',
+          error: action.payload,
+        };
+      });
+  },
+});
+
+export const { addToCompare, removeFromCompare, setCompareSelection, clearCompare } = compareSlice.actions;
+export default compareSlice.reducer;
@@ -7,6 +7,7 @@ import dataProductsReducer, {
   fetchDataProductsAssetsList,
   dataproductsSlice,
 } from "./dataProductsSlice";
+import { configureDataplexClient, resetDataplexClient } from "../../api/dataplexClient";
 
 // ==========================================================================
 // Mock axios
@@ -101,6 +102,8 @@ describe("dataProductsSlice", () => {
   beforeEach(() => {
     vi.clearAllMocks();
     localStorage.clear();
+    resetDataplexClient();
+    configureDataplexClient({ maxRetries: 0 });
   });
 
   afterEach(() => {
@@ -165,7 +168,7 @@ describe("dataProductsSlice", () => {
         expect(state.dataProductsItems).toEqual(mockDataProductsList);
       });
 
-      it("sets Authorization header when id_token is provided", async () => {
+      it("sends the Authorization header with the request when id_token is provided", async () => {
         vi.mocked(axios.get).mockResolvedValueOnce({
           status: 200,
           data: { dataProducts: mockDataProductsList },
@@ -176,12 +179,11 @@ describe("dataProductsSlice", () => {
           fetchDataProductsList({ id_token: "test-token" }) as any
         );
 
-        expect(axios.defaults.headers.common["Authorization"]).toBe(
-          "Bearer test-token"
-        );
+        expect(vi.mocked(axios.get).mock.lastCall?.[1]).toMatchObject({ headers: { Authorization: "Bearer test-token" } });
+        expect(axios.defaults.headers.common["Authorization"]).toBeUndefined();
       });
 
-      it("sets empty Authorization header when id_token is not provided", async () => {
+      it("sends no Authorization header when id_token is not provided", async () => {
         vi.mocked(axios.get).mockResolvedValueOnce({
           status: 200,
           data: { dataProducts: mockDataProductsList },
@@ -190,7 +192,8 @@ describe("dataProductsSlice", () => {
         const store = createTestStore();
         await store.dispatch(fetchDataProductsList({}) as any);
 
-        expect(axios.defaults.headers.common["Authorization"]).toBe("");
+        expect(vi.mocked(axios.get).mock.lastCall?.[1]).toMatchObject({ headers: {} });
+        expect(axios.defaults.headers.common["Authorization"]).toBeUndefined();
       });
 
       it("returns empty array when requestData is falsy", async () => {
@@ -382,7 +385,7 @@ describe("dataProductsSlice", () => {
         );
       });
 
-      it("sets Authorization header when id_token is provided", async () => {
+      it("sends the Authorization header with the request when id_token is provided", async () => {
         vi.mocked(axios.get).mockResolvedValueOnce({
           status: 200,
           data: mockDataProductDetails,
@@ -397,12 +400,11 @@ describe("dataProductsSlice", () => {
           }) as any
         );
 
-        expect(axios.defaults.headers.common["Authorization"]).toBe(
-          "Bearer my-token"
-        );
+        expect(vi.mocked(axios.get).mock.lastCall?.[1]).toMatchObject({ headers: { Authorization: "Bearer my-token" } });
+        expect(axios.defaults.headers.common["Authorization"]).toBeUndefined();
       });
 
-      it("sets empty Authorization header when id_token is not provided", async () => {
+      it("sends no Authorization header when id_token is not provided", async () => {
         vi.mocked(axios.get).mockResolvedValueOnce({
           status: 200,
           data: mockDataProductDetails,
@@ -416,7 +418,8 @@ describe("dataProductsSlice", () => {
           }) as any
         );
 
-        expect(axios.defaults.headers.common["Authorization"]).toBe("");
+        expect(vi.mocked(axios.get).mock.lastCall?.[1]).toMatchObject({ headers: {} });
+        expect(axios.defaults.headers.common["Authorization"]).toBeUndefined();
       });
     });
 
@@ -577,11 +580,12 @@ describe("dataProductsSlice", () => {
         );
 
         expect(axios.get).toHaveBeenCalledWith(
-          "https://dataplex.googleapis.com/v1/projects/test-project/locations/us-central1/dataProducts/product-1/dataAssets"
+          "https://dataplex.googleapis.com/v1/projects/test-project/locations/us-central1/dataProducts/product-1/dataAssets",
+          { headers: { Authorization: "Bearer test-token" } }
         );
       });
 
-      it("sets Authorization header when id_token is provided", async () => {
+      it("sends the Authorization header with the request when id_token is provided", async () => {
         vi.mocked(axios.get).mockResolvedValueOnce({
           status: 200,
           data: { dataAssets: mockDataProductAssets },
@@ -596,12 +600,11 @@ describe("dataProductsSlice", () => {
           }) as any
         );
 
-        expect(axios.defaults.headers.common["Authorization"]).toBe(
-          "Bearer bearer-token"
-        );
+        expect(vi.mocked(axios.get).mock.lastCall?.[1]).toMatchObject({ headers: { Authorization: "Bearer bearer-token" } });
+        expect(axios.defaults.headers.common["Authorization"]).toBeUndefined();
       });
 
-      it("sets empty Authorization header when id_token is not provided", async () => {
+      it("sends no Authorization header when id_token is not provided", async () => {
         vi.mocked(axios.get).mockResolvedValueOnce({
           status: 200,
           data: { dataAssets: mockDataProductAssets },
@@ -615,7 +618,8 @@ describe("dataProductsSlice", () => {
           }) as any
         );
 
-        expect(axios.defaults.headers.common["Authorization"]).toBe("");
+        expect(vi.mocked(axios.get).mock.lastCall?.[1]).toMatchObject({ headers: {} });
+        expect(axios.defaults.headers.common["Authorization"]).toBeUndefined();
       });
 
       it("handles fulfilled with empty payload by setting empty array", () => {
@@ -889,13 +893,12 @@ describe("dataProductsSlice", () => {
       expect(state.dataProductAssetsStatus).toBe("succeeded");
     });
 
-    it("rejects with Token expired when getDataProductDetails receives 401 status", async () => {
+    it("rejects with the response body when getDataProductDetails receives 401 status", async () => {
       localStorage.setItem("sessionUserData", JSON.stringify(mockSessionData));
 
-      vi.mocked(axios.get).mockResolvedValueOnce({
-        status: 401,
-        data: { error: "Unauthorized" },
-      });
+      vi.mocked(axios.get).mockRejectedValueOnce(
+        new AxiosError("Request failed with status code 401", { status: 401, data: { error: "Unauthorized" } } as any)
+      );
 
       const store = createTestStore();
       const result = await store.dispatch(
@@ -908,7 +911,7 @@ describe("dataProductsSlice", () => {
 
       // Check that the action type indicates rejection
       expect(result.type).toContain("rejected");
-      expect(result.payload).toBe("Token expired");
+      expect(result.payload).toEqual({ error: "Unauthorized" });
     });
   });
 
@@ -1058,7 +1061,8 @@ describe("dataProductsSlice", () => {
       );
 
       expect(axios.get).toHaveBeenCalledWith(
-        "https://dataplex.googleapis.com/v1/projects/my-project/locations/europe-west1/dataProducts/complex-product-name-123/dataAssets"
+        "https://dataplex.googleapis.com/v1/projects/my-project/locations/europe-west1/dataProducts/complex-product-name-123/dataAssets",
+        { headers: { Authorization: "Bearer token" } }
       );
     });
 
@@ -1,5 +1,5 @@
 import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
-import axios, { AxiosError } from 'axios';
+import { dataplexClient, DataplexApiError } from '../../api/dataplexClient';
 
 const getProjectNumber = (projectId: string) => {
   let session = localStorage.getItem('sessionUserData');
@@ -20,22 +20,15 @@ export const fetchDataProductsList = createAsyncThunk('dataProducts/fetchDataPro
 
   try {
     // fetching data products from API endpoint 
-    axios.defaults.headers.common['Authorization'] = requestData.id_token ? `Bearer ${requestData.id_token}` : '';
-    const response = await axios.get(
-        `https://dataplex.googleapis.com/v1/projects/${import.meta.env.VITE_GOOGLE_PROJECT_ID}/locations/-/dataProducts`
-    );
-
-    return response.status === 200 || response.status !== 401 ? [
-      ...response.data.dataProducts
-     ] : rejectWithValue('Token expired');
-    //return mockSearchData; // For testing, we return mock data
+    const data = await dataplexClient.dataProducts.list({ id_token: requestData.id_token });
+    return [...(data?.dataProducts ?? [])];
 
   } catch (error) {
-    if (error instanceof AxiosError) {
-      if (error.response?.status === 403) {
+    if (error instanceof DataplexApiError) {
+      if (error.status === 403) {
         return rejectWithValue({ type: 'PERMISSION_DENIED' });
       }
-      return rejectWithValue(error.response?.data || error.message);
+      return rejectWithValue(error.data || error.message);
     }
     return rejectWithValue('An unknown error occurred');
   }
@@ -48,39 +41,27 @@ export const getDataProductDetails = createAsyncThunk('dataProducts/getDataProdu
   }
 
   try {
-    // fetching data products from API endpoint 
-    axios.defaults.headers.common['Authorization'] = requestData.id_token ? `Bearer ${requestData.id_token}` : '';
-    
+    // fetching data products from API endpoint
     const project = requestData.dataProductId.split('/')[1];
     const location = requestData.dataProductId.split('/')[3];
     const finalEntryName = `projects/${project}/locations/${location}/entryGroups/@dataplex/entries/projects/${getProjectNumber(project)}/locations/${location}/dataProducts/${requestData.dataProductId.split('/')[5]}`;
-    const lookupUrl = `https://dataplex.googleapis.com/v1/projects/${project}/locations/${location}:lookupEntry`;
-
-    const response = await axios.get(lookupUrl, {
-    params: {
-        entry: finalEntryName,
-        view: 'ALL'
-    }
-    });
 
-    console.log("API response", response);
-    return response.status === 200 || response.status !== 401 ? response.data
-    : rejectWithValue('Token expired');
-    //return mockSearchData; // For testing, we return mock data
+    return await dataplexClient.entries.lookup(
+      { project, location, entry: finalEntryName },
+      { id_token: requestData.id_token }
+    );
 
   } catch (error) {
-    if (error instanceof AxiosError) {
-      const axiosError = error as AxiosError;
+    if (error instanceof DataplexApiError) {
       // Handle 403 Forbidden separately - don't trigger global logout
-      console.log("axiosError.response?.status", axiosError.response);
-      if (axiosError.response?.status === 403) {
+      if (error.status === 403) {
         return rejectWithValue(JSON.stringify({
           type: "PERMISSION_DENIED",
           message: "You don't have access to this resource",
           itemId: requestData.dataProductId,
         }));
       }
-      return rejectWithValue(axiosError.response?.data || axiosError.message);
+      return rejectWithValue(error.data || error.message);
     }
     return rejectWithValue('An unknown error occurred');
   }
@@ -94,23 +75,16 @@ export const fetchDataProductsAssetsList = createAsyncThunk('dataProducts/fetchD
 
   try {
     // fetching data products from API endpoint 
-    axios.defaults.headers.common['Authorization'] = requestData.id_token ? `Bearer ${requestData.id_token}` : '';
     const project = requestData.dataProductId.split('/')[1];
     const location = requestData.dataProductId.split('/')[3];
     const finalEntryName = `projects/${project}/locations/${location}/dataProducts/${requestData.dataProductId.split('/').pop()}`;
-    
-    const response = await axios.get(
-        `https://dataplex.googleapis.com/v1/${finalEntryName}/dataAssets`
-    );
-    console.log("Data Products Assets API response", response);
-    return response.status === 200 || response.status !== 401 ? [
-      ...response.data.dataAssets
-     ] : rejectWithValue('Token expired');
-    //return mockSearchData; // For testing, we return mock data
+
+    const data = await dataplexClient.dataProducts.listAssets(finalEntryName, { id_token: requestData.id_token });
+    return [...(data?.dataAssets ?? [])];
 
   } catch (error) {
-    if (error instanceof AxiosError) {
-      return rejectWithValue(error.response?.data || error.message);
+    if (error instanceof DataplexApiError) {
+      return rejectWithValue(error.data || error.message);
     }
     return rejectWithValue('An unknown error occurred');
   }
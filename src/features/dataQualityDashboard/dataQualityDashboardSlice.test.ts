@@ -0,0 +1,119 @@
+import { configureStore } from '@reduxjs/toolkit';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import axios from 'axios';
+import dataScanReducer from '../dataScan/dataScanSlice';
+import dataProductsReducer from '../dataProducts/dataProductsSlice';
+import dataQualityDashboardReducer, {
+  fetchDataQualityScope,
+  loadDataQualityDashboard,
+  resetDataQualityDashboardFilters,
+  setDashboardFilters,
+} from './dataQualityDashboardSlice';
+import { resetDataplexClient } from '../../api/dataplexClient';
+
+// Mock axios
+vi.mock('axios', async () => {
+  const actual: any = await vi.importActual('axios');
+  return {
+    ...actual,
+    default: {
+      get: vi.fn(),
+      post: vi.fn(),
+      defaults: {
+        headers: {
+          common: {} as Record<string, string>,
+        },
+      },
+    },
+  };
+});
+
+const mockedAxiosGet = axios.get as ReturnType<typeof vi.fn>;
+const mockedAxiosPost = axios.post as ReturnType<typeof vi.fn>;
+
+const createStore = () => configureStore({
+  reducer: {
+    dataScan: dataScanReducer,
+    dataProducts: dataProductsReducer,
+    dataQualityDashboard: dataQualityDashboardReducer,
+  },
+});
+
+const scans = [
+  { name: 'projects/p/locations/l/dataScans/orders-dq', type: 'DATA_QUALITY', data: { resource: '//bigquery.googleapis.com/projects/p/datasets/sales/tables/orders' } },
+  { name: 'projects/p/locations/l/dataScans/orders-profile', type: 'DATA_PROFILE', data: { resource: '//bigquery.googleapis.com/projects/p/datasets/sales/tables/orders' } },
+  { name: 'projects/p/locations/l/dataScans/users-dq', type: 'DATA_QUALITY', data: { resource: '//bigquery.googleapis.com/projects/p/datasets/crm/tables/users' } },
+];
+
+describe('dataQualityDashboardSlice', () => {
+  let store: ReturnType<typeof createStore>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetDataplexClient();
+    store = createStore();
+  });
+
+  it('lists the scans of the project and loads every data quality scan', async () => {
+    mockedAxiosGet.mockImplementation(async (url: string) => {
+      if (url.includes('/data-scans')) return { data: scans };
+      if (url.includes('users-dq')) throw new Error('Forbidden');
+      return { data: { scan: {}, jobs: [] } };
+    });
+
+    await store.dispatch(loadDataQualityDashboard({ id_token: 'token', projectId: 'p' }));
+
+    const requested = mockedAxiosGet.mock.calls.map(([url]) => url);
+    expect(requested[0]).toContain('/data-scans?project=p');
+    expect(requested.filter((url: string) => url.includes('get-data-scan'))).toHaveLength(2);
+    expect(requested.some((url: string) => url.includes('orders-profile'))).toBe(false);
+
+    const state = store.getState();
+    expect(state.dataQualityDashboard.status).toBe('succeeded');
+    expect(state.dataQualityDashboard.progress).toEqual({ done: 2, total: 2 });
+    // The scan that failed to load does not fail the dashboard
+    expect(state.dataScan.scans['projects/p/locations/l/dataScans/orders-dq'].status).toBe('succeeded');
+    expect(state.dataScan.scans['projects/p/locations/l/dataScans/users-dq'].status).toBe('failed');
+  });
+
+  it('fails when the scans cannot be listed', async () => {
+    mockedAxiosGet.mockRejectedValue(new Error('Network Error'));
+
+    await store.dispatch(loadDataQualityDashboard({ id_token: 'token', projectId: '' }));
+
+    expect(store.getState().dataQualityDashboard.status).toBe('failed');
+  });
+
+  it('reads the resources of a data product and of a glossary term', async () => {
+    mockedAxiosGet.mockResolvedValue({ status: 200, data: { dataAssets: [{ resource: '//bigquery.googleapis.com/projects/p/datasets/sales/tables/orders' }] } });
+    store.dispatch(setDashboardFilters({ dataProduct: 'projects/p/locations/l/dataProducts/sales' }));
+    await store.dispatch(fetchDataQualityScope({ kind: 'dataProduct', id: 'projects/p/locations/l/dataProducts/sales', id_token: 'token' }));
+
+    expect(mockedAxiosGet.mock.calls[0][0]).toContain('projects/p/locations/l/dataProducts/sales/dataAssets');
+    expect(store.getState().dataQualityDashboard.scopeResources).toEqual(['//bigquery.googleapis.com/projects/p/datasets/sales/tables/orders']);
+
+    mockedAxiosPost.mockImplementation(async (_url: string, body: any) => ({
+      data: { results: body.query.startsWith('term:') ? [{ dataplexEntry: { entrySource: { resource: '//bigquery.googleapis.com/projects/p/datasets/crm/tables/users' } } }] : [] },
+    }));
+    const termId = 'projects/p/locations/global/glossaries/g/terms/customer';
+    store.dispatch(setDashboardFilters({ glossaryTerm: termId }));
+    expect(store.getState().dataQualityDashboard.filters.dataProduct).toBe('');
+    await store.dispatch(fetchDataQualityScope({ kind: 'glossaryTerm', id: termId, id_token: 'token' }));
+
+    expect(store.getState().dataQualityDashboard.scopeResources).toEqual(['//bigquery.googleapis.com/projects/p/datasets/crm/tables/users']);
+
+    store.dispatch(resetDataQualityDashboardFilters());
+    expect(store.getState().dataQualityDashboard.scopeResources).toBeNull();
+    expect(store.getState().dataQualityDashboard.scopeStatus).toBe('idle');
+  });
+
+  it('ignores the resources of a filter changed while they loaded', async () => {
+    mockedAxiosGet.mockResolvedValue({ status: 200, data: { dataAssets: [{ resource: 'r' }] } });
+    store.dispatch(setDashboardFilters({ dataProduct: 'projects/p/locations/l/dataProducts/a' }));
+    const loading = store.dispatch(fetchDataQualityScope({ kind: 'dataProduct', id: 'projects/p/locations/l/dataProducts/a', id_token: 'token' }));
+    store.dispatch(setDashboardFilters({ dataProduct: '' }));
+    await loading;
+
+    expect(store.getState().dataQualityDashboard.scopeResources).toBeNull();
+  });
+});
@@ -0,0 +1,186 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { dataplexClient, DataplexApiError } from '../../api/dataplexClient';
+import { fetchAllDataScans, fetchDataScan } from '../dataScan/dataScanSlice';
+import { fetchDataProductsAssetsList } from '../dataProducts/dataProductsSlice';
+import { fetchTermRelationships } from '../glossaries/glossariesSlice';
+import type { DataQualityDashboardFilters, DataQualityDashboardSort } from '../../utils/dataQualityDashboard';
+
+// Scans loaded in parallel; each load also reads every job of the scan
+const DASHBOARD_SCAN_CONCURRENCY = 4;
+
+export type DataQualityScopeKind = 'dataProduct' | 'glossaryTerm';
+
+/**
+ * Lists the Data Quality scans of `requestData.projectId` (the server's
+ * project when empty) through `fetchAllDataScans`, then loads each of them
+ * through `fetchDataScan`, so that their jobs land in the `dataScan` slice
+ * where the dashboard rows and the drill-in `DataQuality` read them. A scan
+ * that fails to load only leaves its row without a result.
+ */
+export const loadDataQualityDashboard = createAsyncThunk(
+  'dataQualityDashboard/loadDataQualityDashboard',
+  async (requestData: { id_token: string; projectId: string }, { dispatch, rejectWithValue }) => {
+    try {
+      const scans = await dispatch(fetchAllDataScans({ id_token: requestData.id_token, projectId: requestData.projectId })).unwrap();
+      const names: string[] = (scans ?? []).filter((scan: any) => scan.type === 'DATA_QUALITY').map((scan: any) => scan.name);
+
+      let next = 0;
+      let done = 0;
+      dispatch(setDashboardProgress({ done, total: names.length }));
+      const worker = async () => {
+        while (next < names.length) {
+          const name = names[next++];
+          await dispatch(fetchDataScan({ name, id_token: requestData.id_token }));
+          dispatch(setDashboardProgress({ done: ++done, total: names.length }));
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(DASHBOARD_SCAN_CONCURRENCY, names.length) }, worker));
+      return names;
+    } catch (error) {
+      return rejectWithValue(error || 'An unknown error occurred');
+    }
+  }
+);
+
+/**
+ * The resources of the assets of a data product, or of the assets linked to
+ * a glossary term, for the dashboard's filters.
+ */
+export const fetchDataQualityScope = createAsyncThunk(
+  'dataQualityDashboard/fetchDataQualityScope',
+  async (requestData: { kind: DataQualityScopeKind; id: string; id_token: string }, { dispatch, rejectWithValue }) => {
+    try {
+      if (requestData.kind === 'dataProduct') {
+        const assets = await dispatch(fetchDataProductsAssetsList({ dataProductId: requestData.id, id_token: requestData.id_token })).unwrap();
+        return (assets ?? []).map((asset: any) => asset.resource).filter(Boolean) as string[];
+      }
+      const relationships = await dispatch(fetchTermRelationships({ termId: requestData.id, id_token: requestData.id_token })).unwrap();
+      return (relationships.linkedAssets ?? []).map((result: any) => result.dataplexEntry?.entrySource?.resource).filter(Boolean) as string[];
+    } catch (error) {
+      return rejectWithValue(error || 'An unknown error occurred');
+    }
+  }
+);
+
+/** The glossary terms offered by the dashboard's glossary term filter. */
+export const fetchDataQualityGlossaryTerms = createAsyncThunk(
+  'dataQualityDashboard/fetchDataQualityGlossaryTerms',
+  async (requestData: { id_token: string }, { rejectWithValue }) => {
+    try {
+      const response = await dataplexClient.search.searchEntries(
+        { query: 'type=glossary_term EXP:SEMANTIC', pageSize: 500, orderBy: 'relevance' },
+        { id_token: requestData.id_token }
+      );
+      return (response.results ?? []).map((result: any) => ({
+        id: result.dataplexEntry?.entrySource?.resource || result.dataplexEntry?.name,
+        displayName: result.dataplexEntry?.entrySource?.displayName || result.dataplexEntry?.name?.split('/').pop(),
+      }));
+    } catch (error) {
+      if (error instanceof DataplexApiError) {
+        return rejectWithValue(error.data || error.message);
+      }
+      return rejectWithValue('An unknown error occurred');
+    }
+  }
+);
+
+type DataQualityDashboardState = {
+  status: 'idle' | 'loading' | 'succeeded' | 'failed';
+  progress: { done: number; total: number };
+  error: any | string | undefined | unknown | null;
+  // UI state preserved across navigation
+  filters: DataQualityDashboardFilters;
+  sort: DataQualityDashboardSort;
+  sortDirection: 'asc' | 'desc';
+  scopeResources: string[] | null;
+  scopeStatus: 'idle' | 'loading' | 'succeeded' | 'failed';
+  glossaryTerms: { id: string; displayName: string }[];
+  glossaryTermsStatus: 'idle' | 'loading' | 'succeeded' | 'failed';
+};
+
+const initialState: DataQualityDashboardState = {
+  status: 'idle',
+  progress: { done: 0, total: 0 },
+  error: null,
+  filters: { project: '', dataset: '', dataProduct: '', glossaryTerm: '' },
+  sort: 'score',
+  sortDirection: 'asc',
+  scopeResources: null,
+  scopeStatus: 'idle',
+  glossaryTerms: [],
+  glossaryTermsStatus: 'idle',
+};
+
+export const dataQualityDashboardSlice = createSlice({
+  name: 'dataQualityDashboard',
+  initialState,
+  reducers: {
+    setDashboardProgress: (state, action) => {
+      state.progress = action.payload;
+    },
+    setDashboardFilters: (state, action: { payload: Partial<DataQualityDashboardFilters> }) => {
+      state.filters = { ...state.filters, ...action.payload };
+      // Data product and glossary term narrow down the same way; one at a time
+      if (action.payload.dataProduct) state.filters.glossaryTerm = '';
+      if (action.payload.glossaryTerm) state.filters.dataProduct = '';
+      if (!state.filters.dataProduct && !state.filters.glossaryTerm) {
+        state.scopeResources = null;
+        state.scopeStatus = 'idle';
+      }
+    },
+    setDashboardSort: (state, action: { payload: { sort: DataQualityDashboardSort; direction: 'asc' | 'desc' } }) => {
+      state.sort = action.payload.sort;
+      state.sortDirection = action.payload.direction;
+    },
+    resetDataQualityDashboardFilters: (state) => {
+      state.filters = initialState.filters;
+      state.scopeResources = null;
+      state.scopeStatus = 'idle';
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(loadDataQualityDashboard.pending, (state) => {
+        state.status = 'loading';
+        state.progress = initialState.progress;
+        state.error = null;
+      })
+      .addCase(loadDataQualityDashboard.fulfilled, (state) => {
+        state.status = 'succeeded';
+      })
+      .addCase(loadDataQualityDashboard.rejected, (state, action) => {
+        state.status = 'failed';
+        state.error = action.payload;
+      })
+      .addCase(fetchDataQualityScope.pending, (state) => {
+        state.scopeStatus = 'loading';
+      })
+      .addCase(fetchDataQualityScope.fulfilled, (state, action) => {
+        // Ignore a scope whose filter was changed while it loaded
+        const { kind, id } = action.meta.arg;
+        if (state.filters[kind] !== id) return;
+        state.scopeStatus = 'succeeded';
+        state.scopeResources = action.payload;
+      })
+      .addCase(fetchDataQualityScope.rejected, (state, action) => {
+        const { kind, id } = action.meta.arg;
+        if (state.filters[kind] !== id) return;
+        state.scopeStatus = 'failed';
+        state.scopeResources = [];
+      })
+      .addCase(fetchDataQualityGlossaryTerms.pending, (state) => {
+        state.glossaryTermsStatus = 'loading';
+      })
+      .addCase(fetchDataQualityGlossaryTerms.fulfilled, (state, action) => {
+        state.glossaryTermsStatus = 'succeeded';
+        state.glossaryTerms = action.payload;
+      })
+      .addCase(fetchDataQualityGlossaryTerms.rejected, (state) => {
+        state.glossaryTermsStatus = 'failed';
+      });
+  },
+});
+
+export const { setDashboardProgress, setDashboardFilters, setDashboardSort, resetDataQualityDashboardFilters } = dataQualityDashboardSlice.actions;
+
+export default dataQualityDashboardSlice.reducer;
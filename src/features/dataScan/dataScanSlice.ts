@@ -1,6 +1,5 @@
 import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
-import { URLS } from '../../constants/urls';
-import axios, { AxiosError } from 'axios';
+import { dataplexClient, DataplexApiError } from '../../api/dataplexClient';
 
 // createAsyncThunk is used for asynchronous actions.
 // It will automatically dispatch pending, fulfilled, and rejected actions.
@@ -25,16 +24,12 @@ export const fetchDataScan = createAsyncThunk(
 
     try {
       // search from your API endpoint 
-      axios.defaults.headers.common['Authorization'] = requestData.id_token ? `Bearer ${requestData.id_token}` : '';
-      let name = requestData.name;
-      
-      const response = await axios.get(URLS.API_URL + URLS.GET_DATA_SCAN + `?name=${name}`);
-      const data = await response.data;
+      const data = await dataplexClient.scans.get(requestData.name, { id_token: requestData.id_token });
       return { name: requestData.name, data: data };
 
     } catch (error) {
-      if (error instanceof AxiosError) {
-        return rejectWithValue(error.response?.data || error.message);
+      if (error instanceof DataplexApiError) {
+        return rejectWithValue(error.data || error.message);
       }
       return rejectWithValue('An unknown error occurred');
     }
@@ -61,13 +56,10 @@ export const fetchAllDataScans = createAsyncThunk(
   'dataScan/fetchAllDataScans',
   async (requestData: { id_token: string, projectId: string }, { rejectWithValue }) => {
     try {
-      axios.defaults.headers.common['Authorization'] = `Bearer ${requestData.id_token}`;
-      const response = await axios.get(URLS.API_URL + URLS.GET_ALL_DATA_SCANS+`?project=${requestData.projectId}`);
-      const data = await response.data;
-      return data;
+      return await dataplexClient.scans.list(requestData.projectId, { id_token: requestData.id_token });
     } catch (error) {
-      if (error instanceof AxiosError) {
-        return rejectWithValue(error.response?.data || error.message);
+      if (error instanceof DataplexApiError) {
+        return rejectWithValue(error.data || error.message);
       }
       return rejectWithValue('An unknown error occurred');
     }
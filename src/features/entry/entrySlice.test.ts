@@ -10,6 +10,7 @@ import entryReducer, {
   clearHistory,
   entrySlice,
 } from "./entrySlice";
+import { resetDataplexClient } from "../../api/dataplexClient";
 
 // ==========================================================================
 // Mock axios
@@ -111,6 +112,7 @@ const getInitialState = () => ({
 describe("entrySlice", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    resetDataplexClient();
   });
 
   afterEach(() => {
@@ -312,7 +314,7 @@ describe("entrySlice", () => {
         expect(state.items).toEqual(mockEntryData);
       });
 
-      it("sets Authorization header when id_token is provided", async () => {
+      it("sends the Authorization header with the request when id_token is provided", async () => {
         vi.mocked(axios.get).mockResolvedValueOnce({
           data: mockEntryData,
         });
@@ -322,12 +324,11 @@ describe("entrySlice", () => {
           fetchEntry({ id_token: "my-token", entryName: "test-entry" }) as any
         );
 
-        expect(axios.defaults.headers.common["Authorization"]).toBe(
-          "Bearer my-token"
-        );
+        expect(vi.mocked(axios.get).mock.lastCall?.[1]).toMatchObject({ headers: { Authorization: "Bearer my-token" } });
+        expect(axios.defaults.headers.common["Authorization"]).toBeUndefined();
       });
 
-      it("sets empty Authorization header when id_token is not provided", async () => {
+      it("sends no Authorization header when id_token is not provided", async () => {
         vi.mocked(axios.get).mockResolvedValueOnce({
           data: mockEntryData,
         });
@@ -335,7 +336,8 @@ describe("entrySlice", () => {
         const store = createTestStore();
         await store.dispatch(fetchEntry({ entryName: "test-entry" }) as any);
 
-        expect(axios.defaults.headers.common["Authorization"]).toBe("");
+        expect(vi.mocked(axios.get).mock.lastCall?.[1]).toMatchObject({ headers: {} });
+        expect(axios.defaults.headers.common["Authorization"]).toBeUndefined();
       });
 
       it("returns empty array when requestData is falsy", async () => {
@@ -368,7 +370,8 @@ describe("entrySlice", () => {
         );
 
         expect(axios.get).toHaveBeenCalledWith(
-          expect.stringContaining("entryName=projects/test/entries/my-entry")
+          expect.stringContaining("entryName=projects/test/entries/my-entry"),
+          expect.objectContaining({ headers: expect.any(Object) })
         );
       });
 
@@ -534,7 +537,7 @@ describe("entrySlice", () => {
         expect(state.lineageEntryItems).toEqual(mockLineageEntryData);
       });
 
-      it("sets Authorization header when id_token is provided", async () => {
+      it("sends the Authorization header with the request when id_token is provided", async () => {
         vi.mocked(axios.get).mockResolvedValueOnce({
           data: mockLineageEntryData,
         });
@@ -547,12 +550,11 @@ describe("entrySlice", () => {
           }) as any
         );
 
-        expect(axios.defaults.headers.common["Authorization"]).toBe(
-          "Bearer lineage-token"
-        );
+        expect(vi.mocked(axios.get).mock.lastCall?.[1]).toMatchObject({ headers: { Authorization: "Bearer lineage-token" } });
+        expect(axios.defaults.headers.common["Authorization"]).toBeUndefined();
       });
 
-      it("sets empty Authorization header when id_token is not provided", async () => {
+      it("sends no Authorization header when id_token is not provided", async () => {
         vi.mocked(axios.get).mockResolvedValueOnce({
           data: mockLineageEntryData,
         });
@@ -562,7 +564,8 @@ describe("entrySlice", () => {
           fetchLineageEntry({ fqn: "bigquery:project.dataset.table" }) as any
         );
 
-        expect(axios.defaults.headers.common["Authorization"]).toBe("");
+        expect(vi.mocked(axios.get).mock.lastCall?.[1]).toMatchObject({ headers: {} });
+        expect(axios.defaults.headers.common["Authorization"]).toBeUndefined();
       });
 
       it("returns empty array when requestData is falsy", async () => {
@@ -593,7 +596,8 @@ describe("entrySlice", () => {
         );
 
         expect(axios.get).toHaveBeenCalledWith(
-          expect.stringContaining("fqn=bigquery:project.dataset.table")
+          expect.stringContaining("/get-entry-by-fqn"),
+          expect.objectContaining({ params: { fqn: "bigquery:project.dataset.table" } })
         );
       });
 
@@ -873,7 +877,8 @@ describe("entrySlice", () => {
       expect(axios.get).toHaveBeenCalledWith(
         expect.stringContaining(
           "entryName=projects/test/entries/entry@with-special.chars_123"
-        )
+        ),
+        expect.objectContaining({ headers: expect.any(Object) })
       );
     });
 
@@ -891,9 +896,10 @@ describe("entrySlice", () => {
       );
 
       expect(axios.get).toHaveBeenCalledWith(
-        expect.stringContaining(
-          "fqn=bigquery:project-name.dataset_name.table-name"
-        )
+        expect.stringContaining("/get-entry-by-fqn"),
+        expect.objectContaining({
+          params: { fqn: "bigquery:project-name.dataset_name.table-name" },
+        })
       );
     });
 
@@ -1,6 +1,5 @@
 import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
-import { URLS } from '../../constants/urls';
-import axios, { AxiosError } from 'axios';
+import { dataplexClient, DataplexApiError } from '../../api/dataplexClient';
 
 // createAsyncThunk is used for asynchronous actions.
 // It will automatically dispatch pending, fulfilled, and rejected actions.
@@ -13,23 +12,21 @@ export const fetchEntry = createAsyncThunk('entry/fetchEntry', async (requestDat
   // If the term is not empty, we will perform a search.
   try {
     // search from your API endpoint 
-    axios.defaults.headers.common['Authorization'] = requestData.id_token ? `Bearer ${requestData.id_token}` : '';
     const entryName = requestData.entryName
-    
-    const response = await axios.get(URLS.API_URL + URLS.GET_ENTRY + `?entryName=${entryName}`);
-    const data = await response.data;
-    return data;
+
+    const entry: any = await dataplexClient.entries.get(entryName, { id_token: requestData.id_token });
+    return entry;
     //return mockSearchData; // For testing, we return mock data
 
   } catch (error) {
-    if (error instanceof AxiosError) {
-      if (error.response?.status === 403) {
+    if (error instanceof DataplexApiError) {
+      if (error.status === 403) {
         return rejectWithValue({
           type: 'PERMISSION_DENIED',
           message: "You don't have access to this resource",
         });
       }
-      return rejectWithValue(error.response?.data || error.message);
+      return rejectWithValue(error.data || error.message);
     }
     return rejectWithValue('An unknown error occurred');
   }
@@ -44,23 +41,20 @@ export const fetchLineageEntry = createAsyncThunk('entry/fetchLineageEntry', asy
   // If the term is not empty, we will perform a search.
   try {
     // search from your API endpoint
-    axios.defaults.headers.common['Authorization'] = requestData.id_token ? `Bearer ${requestData.id_token}` : '';
     const fqn = requestData.fqn
 
-    const response = await axios.get(URLS.API_URL + URLS.GET_ENTRY_BY_FQN + `?fqn=${fqn}`);
-    const data = await response.data;
-    return data;
+    return await dataplexClient.entries.getByFqn(fqn, { id_token: requestData.id_token });
     //return mockSearchData; // For testing, we return mock data
 
   } catch (error) {
-    if (error instanceof AxiosError) {
-      if (error.response?.status === 403) {
+    if (error instanceof DataplexApiError) {
+      if (error.status === 403) {
         return rejectWithValue({
           type: 'PERMISSION_DENIED',
           message: "You don't have access to this resource",
         });
       }
-      return rejectWithValue(error.response?.data || error.message);
+      return rejectWithValue(error.data || error.message);
     }
     return rejectWithValue('An unknown error occurred');
   }
@@ -71,15 +65,11 @@ export const checkEntryAccess = createAsyncThunk(
   async (requestData: { entryName: string; id_token: string }, { rejectWithValue }) => {
     if (!requestData) return rejectWithValue('No request data provided');
     try {
-      axios.defaults.headers.common['Authorization'] = requestData.id_token
-        ? `Bearer ${requestData.id_token}` : '';
-      const response = await axios.get(
-        URLS.API_URL + URLS.CHECK_ENTRY_ACCESS + `?entryName=${requestData.entryName}`
-      );
-      return { entryName: requestData.entryName, data: response.data };
+      const data = await dataplexClient.entries.checkAccess(requestData.entryName, { id_token: requestData.id_token });
+      return { entryName: requestData.entryName, data };
     } catch (error) {
-      if (error instanceof AxiosError) {
-        return rejectWithValue({ entryName: requestData.entryName, error: error.response?.data || error.message });
+      if (error instanceof DataplexApiError) {
+        return rejectWithValue({ entryName: requestData.entryName, error: error.data || error.message });
       }
       return rejectWithValue({ entryName: requestData.entryName, error: 'An unknown error occurred' });
     }
@@ -0,0 +1,223 @@
+import { configureStore } from '@reduxjs/toolkit';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import axios from 'axios';
+import type { AxiosResponse } from 'axios';
+import favoritesReducer, {
+  addFavorite,
+  fetchFavorites,
+  migrateLegacyFavorites,
+  refreshFavorites,
+  removeFavorite,
+  resetFavorites,
+  type Favorite,
+} from './favoritesSlice';
+import { resetDataplexClient } from '../../api/dataplexClient';
+
+// Mock axios
+vi.mock('axios', async () => {
+  const actual = await vi.importActual('axios');
+  return {
+    ...actual,
+    default: {
+      get: vi.fn(),
+      post: vi.fn(),
+      delete: vi.fn(),
+      defaults: {
+        headers: {
+          common: {} as Record<string, string>,
+        },
+      },
+    },
+  };
+});
+
+// Mock URLS
+vi.mock('../../constants/urls', () => ({
+  URLS: {
+    API_URL: 'http://localhost:3000/api/v1',
+    FAVORITES: '/favorites',
+  },
+}));
+
+const mockedAxiosGet = axios.get as ReturnType<typeof vi.fn>;
+const mockedAxiosPost = axios.post as ReturnType<typeof vi.fn>;
+const mockedAxiosDelete = axios.delete as ReturnType<typeof vi.fn>;
+
+const makeFavorite = (overrides: Partial<Favorite> = {}): Favorite => ({
+  entryName: 'projects/p/locations/us/entryGroups/@bigquery/entries/orders',
+  owner: 'test@example.com',
+  entry: {
+    name: 'projects/p/locations/us/entryGroups/@bigquery/entries/orders',
+    entryType: 'projects/p/locations/global/entryTypes/bigquery-table',
+    fullyQualifiedName: 'bigquery:p.sales.orders',
+    updateTime: '2024-01-01T00:00:00.000Z',
+    entrySource: { displayName: 'orders', system: 'BigQuery', description: '', location: 'us', resource: '' },
+  },
+  addedAt: '2024-01-01T00:00:00Z',
+  status: 'available',
+  checkedAt: null,
+  ...overrides,
+});
+
+const createStore = () => configureStore({ reducer: { favorites: favoritesReducer } });
+
+describe('favoritesSlice', () => {
+  let store: ReturnType<typeof createStore>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetDataplexClient();
+    localStorage.clear();
+    store = createStore();
+  });
+
+  it('has the correct initial state', () => {
+    expect(store.getState().favorites).toEqual({
+      items: [],
+      status: 'idle',
+      error: null,
+      refreshStatus: 'idle',
+      loadingRequestId: null,
+    });
+  });
+
+  describe('resetFavorites', () => {
+    it('forgets the favorites so the next user loads their own', async () => {
+      mockedAxiosGet.mockResolvedValueOnce({ data: [makeFavorite()] });
+      await store.dispatch(fetchFavorites({ id_token: 'token-123' }));
+
+      store.dispatch(resetFavorites());
+
+      expect(store.getState().favorites.items).toEqual([]);
+      expect(store.getState().favorites.status).toBe('idle');
+    });
+
+    it('drops a load that was still running when the user signed out', async () => {
+      let resolve: (value: unknown) => void = () => {};
+      mockedAxiosGet.mockReturnValueOnce(new Promise((r) => { resolve = r; }));
+      const pending = store.dispatch(fetchFavorites({ id_token: 'token-123' }));
+
+      store.dispatch(resetFavorites());
+      resolve({ data: [makeFavorite()] });
+      await pending;
+
+      expect(store.getState().favorites.items).toEqual([]);
+      expect(store.getState().favorites.status).toBe('idle');
+    });
+  });
+
+  describe('fetchFavorites', () => {
+    it('loads the favorites with the token on the request', async () => {
+      mockedAxiosGet.mockResolvedValueOnce({ data: [makeFavorite()] });
+
+      await store.dispatch(fetchFavorites({ id_token: 'token-123' }));
+
+      expect(mockedAxiosGet).toHaveBeenCalledWith('http://localhost:3000/api/v1/favorites', { headers: { Authorization: 'Bearer token-123' } });
+      expect(axios.defaults.headers.common['Authorization']).toBeUndefined();
+      expect(store.getState().favorites.items).toHaveLength(1);
+      expect(store.getState().favorites.status).toBe('succeeded');
+    });
+
+    it('stores the backend error message on failure', async () => {
+      const { AxiosError } = await vi.importActual<typeof import('axios')>('axios');
+      const error = new AxiosError('Request failed');
+      error.response = { data: { error: 'Unauthorized' } } as AxiosResponse;
+      mockedAxiosGet.mockRejectedValueOnce(error);
+
+      await store.dispatch(fetchFavorites({ id_token: '' }));
+
+      expect(store.getState().favorites.status).toBe('failed');
+      expect(store.getState().favorites.error).toBe('Unauthorized');
+    });
+  });
+
+  describe('addFavorite', () => {
+    it('shows the favorite before the backend answers', async () => {
+      let resolve: (value: unknown) => void = () => {};
+      mockedAxiosPost.mockReturnValueOnce(new Promise((r) => { resolve = r; }));
+      const entry = { name: makeFavorite().entryName };
+
+      const pending = store.dispatch(addFavorite({ id_token: 'token-123', entry }));
+
+      expect(store.getState().favorites.items.map((f) => f.entryName)).toEqual([entry.name]);
+      resolve({ data: makeFavorite() });
+      await pending;
+      expect(mockedAxiosPost).toHaveBeenCalledWith('http://localhost:3000/api/v1/favorites', { entry }, { headers: { Authorization: 'Bearer token-123' } });
+      expect(store.getState().favorites.items).toEqual([makeFavorite()]);
+    });
+
+    it('drops the favorite again when saving fails', async () => {
+      mockedAxiosPost.mockRejectedValueOnce(new Error('Network Error'));
+
+      await store.dispatch(addFavorite({ id_token: 'token-123', entry: { name: 'a' } }));
+
+      expect(store.getState().favorites.items).toEqual([]);
+    });
+  });
+
+  describe('removeFavorite', () => {
+    beforeEach(async () => {
+      mockedAxiosGet.mockResolvedValueOnce({ data: [makeFavorite()] });
+      await store.dispatch(fetchFavorites({ id_token: 'token-123' }));
+    });
+
+    it('removes the favorite by entry name', async () => {
+      mockedAxiosDelete.mockResolvedValueOnce({ data: {} });
+
+      await store.dispatch(removeFavorite({ id_token: 'token-123', entryName: makeFavorite().entryName, favorite: makeFavorite() }));
+
+      expect(mockedAxiosDelete).toHaveBeenCalledWith('http://localhost:3000/api/v1/favorites', {
+        params: { entryName: makeFavorite().entryName },
+        headers: { Authorization: 'Bearer token-123' },
+      });
+      expect(store.getState().favorites.items).toEqual([]);
+    });
+
+    it('puts the favorite back when removing fails', async () => {
+      mockedAxiosDelete.mockRejectedValueOnce(new Error('Network Error'));
+
+      await store.dispatch(removeFavorite({ id_token: 'token-123', entryName: makeFavorite().entryName, favorite: makeFavorite() }));
+
+      expect(store.getState().favorites.items).toEqual([makeFavorite()]);
+    });
+  });
+
+  it('replaces the favorites with the refreshed list', async () => {
+    mockedAxiosPost.mockResolvedValueOnce({ data: [makeFavorite({ status: 'deleted' })] });
+
+    await store.dispatch(refreshFavorites({ id_token: 'token-123' }));
+
+    expect(mockedAxiosPost).toHaveBeenCalledWith('http://localhost:3000/api/v1/favorites/refresh', undefined, { headers: { Authorization: 'Bearer token-123' } });
+    expect(store.getState().favorites.items[0].status).toBe('deleted');
+    expect(store.getState().favorites.refreshStatus).toBe('succeeded');
+  });
+
+  describe('migrateLegacyFavorites', () => {
+    it('imports the favorites from localStorage once and removes them', async () => {
+      localStorage.setItem('dataplex_favorites', JSON.stringify({ a: true, b: false }));
+      const imported = makeFavorite({ entryName: 'a', entry: null, status: 'unknown' });
+      mockedAxiosPost.mockResolvedValueOnce({ data: { imported: [imported], skipped: [] } });
+
+      await store.dispatch(migrateLegacyFavorites({ id_token: 'token-123' }));
+
+      expect(mockedAxiosPost).toHaveBeenCalledWith('http://localhost:3000/api/v1/favorites/import', { entryNames: ['a'] }, { headers: { Authorization: 'Bearer token-123' } });
+      expect(store.getState().favorites.items).toEqual([imported]);
+      expect(localStorage.getItem('dataplex_favorites')).toBeNull();
+    });
+
+    it('keeps the localStorage favorites when the import fails', async () => {
+      localStorage.setItem('dataplex_favorites', JSON.stringify({ a: true }));
+      mockedAxiosPost.mockRejectedValueOnce(new Error('Network Error'));
+
+      await store.dispatch(migrateLegacyFavorites({ id_token: 'token-123' }));
+
+      expect(localStorage.getItem('dataplex_favorites')).not.toBeNull();
+    });
+
+    it('does not call the backend when there is nothing to import', async () => {
+      await store.dispatch(migrateLegacyFavorites({ id_token: 'token-123' }));
+
+      expect(mockedAxiosPost).not.toHaveBeenCalled();
+    });
+  });
+});
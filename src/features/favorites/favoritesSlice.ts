@@ -0,0 +1,187 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { URLS } from '../../constants/urls';
+import { dataplexClient, DataplexApiError } from '../../api/dataplexClient';
+import { clearLegacyFavorites, getLegacyFavoriteNames } from '../../utils/favoriteUtils';
+
+// The part of an entry kept with a favorite, in the shape SearchEntriesCard renders.
+export type FavoriteEntrySnapshot = {
+  name: string;
+  entryType: string;
+  fullyQualifiedName: string;
+  updateTime: string | null;
+  entrySource: {
+    displayName: string;
+    system: string;
+    description: string;
+    location: string;
+    resource: string;
+  };
+};
+
+// Result of the last catalog lookup; 'unknown' until the favorite is checked.
+export type FavoriteStatus = 'available' | 'deleted' | 'noAccess' | 'unknown';
+
+// An entry starred by the signed-in user (owner is their email).
+export type Favorite = {
+  entryName: string;
+  owner: string;
+  entry: FavoriteEntrySnapshot | null;
+  addedAt: string;
+  status: FavoriteStatus;
+  checkedAt: string | null;
+};
+
+const rejectWithError = <R>(error: unknown, rejectWithValue: (value: unknown) => R): R => {
+  if (error instanceof DataplexApiError) {
+    return rejectWithValue(error.data?.error || error.data || error.message);
+  }
+  return rejectWithValue('An unknown error occurred');
+};
+
+export const fetchFavorites = createAsyncThunk('favorites/fetchFavorites', async (requestData: { id_token: string }, { rejectWithValue }) => {
+  try {
+    return await dataplexClient.backend.get<Favorite[]>(URLS.FAVORITES, undefined, { id_token: requestData.id_token });
+  } catch (error) {
+    return rejectWithError(error, rejectWithValue);
+  }
+});
+
+// Added optimistically; `requestData.entry` is the entry as shown in search results.
+export const addFavorite = createAsyncThunk('favorites/addFavorite', async (requestData: { entry: { name: string }; id_token?: string }, { rejectWithValue }) => {
+  try {
+    return await dataplexClient.backend.post<Favorite>(URLS.FAVORITES, { entry: requestData.entry }, { id_token: requestData.id_token });
+  } catch (error) {
+    return rejectWithError(error, rejectWithValue);
+  }
+});
+
+// Removed optimistically; `requestData.favorite` is put back if the request fails.
+export const removeFavorite = createAsyncThunk('favorites/removeFavorite', async (requestData: { entryName: string; favorite?: Favorite; id_token?: string }, { rejectWithValue }) => {
+  try {
+    await dataplexClient.backend.delete(URLS.FAVORITES, { entryName: requestData.entryName }, { id_token: requestData.id_token });
+    return requestData.entryName;
+  } catch (error) {
+    return rejectWithError(error, rejectWithValue);
+  }
+});
+
+// Looks every favorite up in the catalog and returns the list with fresh statuses.
+export const refreshFavorites = createAsyncThunk('favorites/refreshFavorites', async (requestData: { id_token: string }, { rejectWithValue }) => {
+  try {
+    return await dataplexClient.backend.post<Favorite[]>(`${URLS.FAVORITES}/refresh`, undefined, { id_token: requestData.id_token });
+  } catch (error) {
+    return rejectWithError(error, rejectWithValue);
+  }
+});
+
+/**
+ * One-time import of the favorites kept in localStorage before they moved to
+ * the backend. The old store is removed once the backend has accepted them,
+ * so a failed import is retried on the next load. Resolves to null when there
+ * is nothing to import.
+ */
+export const migrateLegacyFavorites = createAsyncThunk('favorites/migrateLegacyFavorites', async (requestData: { id_token: string }, { rejectWithValue }) => {
+  const entryNames = getLegacyFavoriteNames();
+  if (entryNames.length === 0) return null;
+  try {
+    const result = await dataplexClient.backend.post<{ imported: Favorite[]; skipped: { index: number; error: string }[] }>(
+      `${URLS.FAVORITES}/import`, { entryNames }, { id_token: requestData.id_token }
+    );
+    clearLegacyFavorites();
+    return result;
+  } catch (error) {
+    return rejectWithError(error, rejectWithValue);
+  }
+});
+
+type FavoritesState = {
+  items: Favorite[];
+  status: 'idle' | 'loading' | 'succeeded' | 'failed';
+  error: unknown;
+  refreshStatus: 'idle' | 'loading' | 'succeeded' | 'failed';
+  // Latest fetchFavorites; the response of an earlier one (e.g. of the user who signed out) is dropped
+  loadingRequestId: string | null;
+};
+
+const initialState: FavoritesState = {
+  items: [],
+  status: 'idle',
+  error: null,
+  refreshStatus: 'idle',
+  loadingRequestId: null,
+};
+
+export const favoritesSlice = createSlice({
+  name: 'favorites',
+  initialState,
+  reducers: {
+    // On sign-out, so the next user loads their own favorites
+    resetFavorites: () => initialState,
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchFavorites.pending, (state, action) => {
+        state.status = 'loading';
+        state.loadingRequestId = action.meta.requestId;
+      })
+      .addCase(fetchFavorites.fulfilled, (state, action) => {
+        if (action.meta.requestId !== state.loadingRequestId) return;
+        state.items = action.payload ?? [];
+        state.status = 'succeeded';
+        state.error = null;
+      })
+      .addCase(fetchFavorites.rejected, (state, action) => {
+        if (action.meta.requestId !== state.loadingRequestId) return;
+        state.status = 'failed';
+        state.error = action.payload;
+      })
+      .addCase(addFavorite.pending, (state, action) => {
+        const entryName = action.meta.arg.entry?.name;
+        if (entryName && !state.items.some((item) => item.entryName === entryName)) {
+          state.items.push({
+            entryName,
+            owner: '',
+            entry: null,
+            addedAt: new Date().toISOString(),
+            status: 'available',
+            checkedAt: null,
+          });
+        }
+      })
+      .addCase(addFavorite.fulfilled, (state, action) => {
+        state.items = state.items.map((item) => (item.entryName === action.payload.entryName ? action.payload : item));
+      })
+      .addCase(addFavorite.rejected, (state, action) => {
+        state.items = state.items.filter((item) => item.entryName !== action.meta.arg.entry?.name);
+        state.error = action.payload;
+      })
+      .addCase(removeFavorite.pending, (state, action) => {
+        state.items = state.items.filter((item) => item.entryName !== action.meta.arg.entryName);
+      })
+      .addCase(removeFavorite.rejected, (state, action) => {
+        const removed = action.meta.arg.favorite;
+        if (removed && !state.items.some((item) => item.entryName === removed.entryName)) {
+          state.items.push(removed);
+        }
+        state.error = action.payload;
+      })
+      .addCase(refreshFavorites.pending, (state) => {
+        state.refreshStatus = 'loading';
+      })
+      .addCase(refreshFavorites.fulfilled, (state, action) => {
+        state.items = action.payload ?? [];
+        state.refreshStatus = 'succeeded';
+      })
+      .addCase(refreshFavorites.rejected, (state, action) => {
+        state.refreshStatus = 'failed';
+        state.error = action.payload;
+      })
+      .addCase(migrateLegacyFavorites.fulfilled, (state, action) => {
+        state.items = [...state.items, ...(action.payload?.imported ?? [])];
+      });
+  },
+});
+
+export const { resetFavorites } = favoritesSlice.actions;
+
+export default favoritesSlice.reducer;
@@ -20,6 +20,7 @@ import glossariesReducer, {
   glossariesSlice,
 } from "./glossariesSlice";
 import type { FilterChip } from "../../component/Glossaries/GlossaryDataType";
+import { configureDataplexClient, resetDataplexClient } from "../../api/dataplexClient";
 
 // ==========================================================================
 // Mock axios
@@ -224,6 +225,8 @@ const getInitialState = () => ({
 describe("glossariesSlice", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    resetDataplexClient();
+    configureDataplexClient({ maxRetries: 0 });
   });
 
   afterEach(() => {
@@ -454,7 +457,7 @@ describe("glossariesSlice", () => {
         expect(state.totalSize).toBe(1);
       });
 
-      it("sets Authorization header when id_token is provided", async () => {
+      it("sends the Authorization header with the request when id_token is provided", async () => {
         vi.mocked(axios.post).mockResolvedValueOnce({
           data: { results: [], totalSize: 0 },
         });
@@ -462,10 +465,11 @@ describe("glossariesSlice", () => {
         const store = createTestStore();
         await store.dispatch(fetchGlossaries({ id_token: "my-token" }) as any);
 
-        expect(axios.defaults.headers.common["Authorization"]).toBe("Bearer my-token");
+        expect(vi.mocked(axios.post).mock.lastCall?.[2]).toMatchObject({ headers: { Authorization: "Bearer my-token" } });
+        expect(axios.defaults.headers.common["Authorization"]).toBeUndefined();
       });
 
-      it("sets empty Authorization header when id_token is not provided", async () => {
+      it("sends no Authorization header when id_token is not provided", async () => {
         vi.mocked(axios.post).mockResolvedValueOnce({
           data: { results: [], totalSize: 0 },
         });
@@ -473,7 +477,8 @@ describe("glossariesSlice", () => {
         const store = createTestStore();
         await store.dispatch(fetchGlossaries({}) as any);
 
-        expect(axios.defaults.headers.common["Authorization"]).toBe("");
+        expect(vi.mocked(axios.post).mock.lastCall?.[2]).toMatchObject({ headers: {} });
+        expect(axios.defaults.headers.common["Authorization"]).toBeUndefined();
       });
 
       it("preserves existing children and aspects when updating", async () => {
@@ -741,9 +746,7 @@ describe("glossariesSlice", () => {
       it("handles rejection when processing error occurs", async () => {
         // To trigger rejection, we need an error during processing stage
         // Mock get to return invalid data that causes processing error
-        vi.mocked(axios.get).mockImplementation(() => {
-          throw new Error("Processing error");
-        });
+        vi.mocked(axios.get).mockResolvedValue({ data: { categories: [null], terms: [] } });
 
         const store = createTestStore();
         const result = await store.dispatch(
@@ -1339,7 +1342,8 @@ describe("glossariesSlice", () => {
           expect.any(String),
           expect.objectContaining({
             query: expect.stringContaining('parent:"test-parent"'),
-          })
+          }),
+          expect.objectContaining({ headers: expect.any(Object) })
         );
       });
 
@@ -1361,7 +1365,8 @@ describe("glossariesSlice", () => {
           expect.any(String),
           expect.objectContaining({
             query: expect.stringContaining('synonym:"test-synonym"'),
-          })
+          }),
+          expect.objectContaining({ headers: expect.any(Object) })
         );
       });
 
@@ -1383,7 +1388,8 @@ describe("glossariesSlice", () => {
           expect.any(String),
           expect.objectContaining({
             query: expect.stringContaining("labels:env:prod"),
-          })
+          }),
+          expect.objectContaining({ headers: expect.any(Object) })
         );
       });
 
@@ -1405,7 +1411,8 @@ describe("glossariesSlice", () => {
           expect.any(String),
           expect.objectContaining({
             query: expect.stringContaining('has "custom-aspect"'),
-          })
+          }),
+          expect.objectContaining({ headers: expect.any(Object) })
         );
       });
 
@@ -1427,7 +1434,8 @@ describe("glossariesSlice", () => {
           expect.any(String),
           expect.objectContaining({
             query: expect.stringContaining("contacts.owner"),
-          })
+          }),
+          expect.objectContaining({ headers: expect.any(Object) })
         );
       });
 
@@ -1449,7 +1457,8 @@ describe("glossariesSlice", () => {
           expect.any(String),
           expect.objectContaining({
             query: expect.stringContaining("name:"),
-          })
+          }),
+          expect.objectContaining({ headers: expect.any(Object) })
         );
       });
 
@@ -1471,7 +1480,8 @@ describe("glossariesSlice", () => {
           expect.any(String),
           expect.objectContaining({
             query: expect.stringContaining("type=glossary"),
-          })
+          }),
+          expect.objectContaining({ headers: expect.any(Object) })
         );
       });
 
@@ -1517,7 +1527,8 @@ describe("glossariesSlice", () => {
           expect.any(String),
           expect.objectContaining({
             pageSize: 50,
-          })
+          }),
+          expect.objectContaining({ headers: expect.any(Object) })
         );
       });
 
@@ -1605,7 +1616,8 @@ describe("glossariesSlice", () => {
         );
 
         expect(axios.get).toHaveBeenCalledWith(
-          expect.stringContaining("/categories")
+          expect.stringContaining("/categories"),
+          expect.objectContaining({ headers: expect.any(Object) })
         );
       });
     });
@@ -2290,7 +2302,8 @@ describe("glossariesSlice", () => {
         expect.any(String),
         expect.objectContaining({
           query: expect.stringContaining("AND"),
-        })
+        }),
+        expect.objectContaining({ headers: expect.any(Object) })
       );
     });
 
@@ -1,5 +1,5 @@
 import { createSlice, createAsyncThunk } from "@reduxjs/toolkit";
-import axios, { AxiosError } from "axios";
+import { dataplexClient, DataplexApiError } from "../../api/dataplexClient";
 import {
   type GlossaryItem,
   type GlossaryRelation,
@@ -127,20 +127,16 @@ export const fetchGlossaryChildren = createAsyncThunk(
     { rejectWithValue }
   ) => {
     try {
-      axios.defaults.headers.common["Authorization"] = `Bearer ${id_token}`;
-
-      const baseUrl = `https://dataplex.googleapis.com/v1/${parentId}`;
-
       // 1. Fetch Categories and Terms
       const [categoriesRes, termsRes] = await Promise.all([
-        axios
-          .get(`${baseUrl}/categories`)
-          .catch(() => ({ data: { categories: [] } })),
-        axios.get(`${baseUrl}/terms`).catch(() => ({ data: { terms: [] } })),
+        dataplexClient.glossaries
+          .listCategories(parentId, { id_token })
+          .catch(() => ({ categories: [] })),
+        dataplexClient.glossaries.listTerms(parentId, { id_token }).catch(() => ({ terms: [] })),
       ]);
 
-      const rawCategories = categoriesRes.data.categories || [];
-      const rawTerms = termsRes.data.terms || [];
+      const rawCategories = categoriesRes?.categories || [];
+      const rawTerms = termsRes?.terms || [];
 
       // 2. Map raw API data to GlossaryItem
       // Use 'any' temporarily in map to allow adding 'parent' property which might not be in GlossaryItem interface
@@ -221,8 +217,6 @@ export const fetchItemDetails = createAsyncThunk(
     { rejectWithValue }
   ) => {
     try {
-      axios.defaults.headers.common["Authorization"] = `Bearer ${id_token}`;
-
       // extractProjectLocation helper assumed to exist in file
       const { project, location } = extractProjectLocation(entryName);
 
@@ -231,21 +225,16 @@ export const fetchItemDetails = createAsyncThunk(
         finalEntryName = `projects/${project}/locations/${location}/entryGroups/@dataplex/entries/${entryName}`;
       }
 
-      const lookupUrl = `https://dataplex.googleapis.com/v1/projects/${project}/locations/${location}:lookupEntry`;
-
-      const response = await axios.get(lookupUrl, {
-        params: {
-          entry: finalEntryName,
-          view: "ALL",
-        },
-      });
+      const details = await dataplexClient.entries.lookup(
+        { project, location, entry: finalEntryName },
+        { id_token }
+      );
 
       // We return 'entryName' (the original Resource ID) so the reducer can find it in the tree
-      return { entryName, details: response.data };
+      return { entryName, details };
     } catch (error) {
-      const axiosError = error as AxiosError;
       // Handle 403 Forbidden separately - don't trigger global logout
-      if (axiosError.response?.status === 403) {
+      if (error instanceof DataplexApiError && error.status === 403) {
         return rejectWithValue({
           type: "PERMISSION_DENIED",
           message: "You don't have access to this resource",
@@ -264,31 +253,21 @@ export const fetchTermRelationships = createAsyncThunk(
     { rejectWithValue }
   ) => {
     try {
-      axios.defaults.headers.common["Authorization"] = `Bearer ${id_token}`;
-
       // Use the project/location from the term ID for the search scope
       const { project, location } = extractProjectLocation(termId);
-      const searchUrl = `https://dataplex.googleapis.com/v1/projects/${project}/locations/${location}:searchEntries`;
 
       const commonBody = { pageSize: 100, orderBy: "relevance" };
+      const search = (query: string) =>
+        dataplexClient.search.searchEntries({ ...commonBody, query }, { id_token, project, location });
 
       // Parallelize the 3 search calls
       const [linkedRes, synonymRes, relatedRes] = await Promise.all([
         // 1. Linked Assets
-        axios.post(searchUrl, {
-          ...commonBody,
-          query: `term:${termId} EXP:SEMANTIC`,
-        }),
+        search(`term:${termId} EXP:SEMANTIC`),
         // 2. Synonyms
-        axios.post(searchUrl, {
-          ...commonBody,
-          query: `synonym=${termId} type=glossary_term EXP:SEMANTIC`,
-        }),
+        search(`synonym=${termId} type=glossary_term EXP:SEMANTIC`),
         // 3. Related Terms
-        axios.post(searchUrl, {
-          ...commonBody,
-          query: `related=${termId} type=glossary_term EXP:SEMANTIC`,
-        }),
+        search(`related=${termId} type=glossary_term EXP:SEMANTIC`),
       ]);
 
       // Process Relations (Synonyms + Related)
@@ -305,16 +284,16 @@ export const fetchTermRelationships = createAsyncThunk(
           : 0,
       });
 
-      const synonyms = (synonymRes.data.results || []).map((r: any) =>
+      const synonyms = (synonymRes.results || []).map((r: any) =>
         mapRelation(r, "synonym")
       );
-      const related = (relatedRes.data.results || []).map((r: any) =>
+      const related = (relatedRes.results || []).map((r: any) =>
         mapRelation(r, "related")
       );
 
       return {
         termId,
-        linkedAssets: linkedRes.data.results || [],
+        linkedAssets: linkedRes.results || [],
         relations: [...synonyms, ...related],
       };
     } catch (error) {
@@ -331,8 +310,6 @@ export const fetchGlossaryEntryDetails = createAsyncThunk(
     { rejectWithValue }
   ) => {
     try {
-      axios.defaults.headers.common["Authorization"] = `Bearer ${id_token}`;
-
       const { project, location } = extractProjectLocation(entryName);
 
       let finalEntryName = entryName;
@@ -340,19 +317,15 @@ export const fetchGlossaryEntryDetails = createAsyncThunk(
         finalEntryName = `projects/${project}/locations/${location}/entryGroups/@dataplex/entries/${entryName}`;
       }
 
-      const lookupUrl = `https://dataplex.googleapis.com/v1/projects/${project}/locations/${location}:lookupEntry`;
-
-      const response = await axios.get(lookupUrl, {
-        params: {
-          entry: finalEntryName,
-          view: "ALL",
-        },
-      });
+      const details = await dataplexClient.entries.lookup(
+        { project, location, entry: finalEntryName },
+        { id_token }
+      );
 
-      return { entryName, details: response.data };
+      return { entryName, details };
     } catch (error: any) {
       return rejectWithValue(
-        error.response?.data || "Failed to lookup entry details"
+        error?.data || "Failed to lookup entry details"
       );
     }
   }
@@ -394,26 +367,15 @@ export const fetchGlossaries = createAsyncThunk(
   "glossaries/fetchGlossaries",
   async (requestData: any, { rejectWithValue }) => {
     try {
-      const url = `https://dataplex.googleapis.com/v1/projects/${
-        import.meta.env.VITE_GOOGLE_PROJECT_ID
-      }/locations/global:searchEntries`;
-
-      // Set Auth Header
-      axios.defaults.headers.common["Authorization"] = requestData.id_token
-        ? `Bearer ${requestData.id_token}`
-        : "";
-
       // Query specifically for Glossaries
-      const response = await axios.post(url, {
+      return await dataplexClient.search.searchEntries({
         query: "type=GLOSSARY EXP:SEMANTIC", // Standard Knowledge Catalog syntax for finding glossaries
         pageSize: 100,
         ...requestData.options,
-      });
-
-      return response.data;
+      }, { id_token: requestData.id_token });
     } catch (error) {
-      if (error instanceof AxiosError) {
-        return rejectWithValue(error.response?.data || error.message);
+      if (error instanceof DataplexApiError) {
+        return rejectWithValue(error.data || error.message);
       }
       return rejectWithValue("An unknown error occurred");
     }
@@ -428,28 +390,25 @@ export const fetchViewDetailsChildren = createAsyncThunk(
     { rejectWithValue }
   ) => {
     try {
-      axios.defaults.headers.common["Authorization"] = `Bearer ${id_token}`;
-
       // For categories, we need to extract the glossary ID and fetch from there
       // because the API doesn't support /categories/{id}/categories
-      let baseUrl = `https://dataplex.googleapis.com/v1/${parentId}`;
+      let glossaryPath = parentId;
 
       // If parentId is a category, extract the glossary path
       if (parentId.includes('/categories/')) {
-        const glossaryPath = parentId.substring(0, parentId.indexOf('/categories/'));
-        baseUrl = `https://dataplex.googleapis.com/v1/${glossaryPath}`;
+        glossaryPath = parentId.substring(0, parentId.indexOf('/categories/'));
       }
 
       // 1. Fetch Categories and Terms
       const [categoriesRes, termsRes] = await Promise.all([
-        axios
-          .get(`${baseUrl}/categories`)
-          .catch(() => ({ data: { categories: [] } })),
-        axios.get(`${baseUrl}/terms`).catch(() => ({ data: { terms: [] } })),
+        dataplexClient.glossaries
+          .listCategories(glossaryPath, { id_token })
+          .catch(() => ({ categories: [] })),
+        dataplexClient.glossaries.listTerms(glossaryPath, { id_token }).catch(() => ({ terms: [] })),
       ]);
 
-      const rawCategories = categoriesRes.data.categories || [];
-      const rawTerms = termsRes.data.terms || [];
+      const rawCategories = categoriesRes?.categories || [];
+      const rawTerms = termsRes?.terms || [];
 
       // 2. Map raw API data to GlossaryItem
       const allCategoryItems = rawCategories.map((c: any) => ({
@@ -529,8 +488,6 @@ export const fetchViewDetailsEntryDetails = createAsyncThunk(
     { rejectWithValue }
   ) => {
     try {
-      axios.defaults.headers.common["Authorization"] = `Bearer ${id_token}`;
-
       const { project, location } = extractProjectLocation(entryName);
 
       let finalEntryName = entryName;
@@ -538,19 +495,15 @@ export const fetchViewDetailsEntryDetails = createAsyncThunk(
         finalEntryName = `projects/${project}/locations/${location}/entryGroups/@dataplex/entries/${entryName}`;
       }
 
-      const lookupUrl = `https://dataplex.googleapis.com/v1/projects/${project}/locations/${location}:lookupEntry`;
-
-      const response = await axios.get(lookupUrl, {
-        params: {
-          entry: finalEntryName,
-          view: "ALL",
-        },
-      });
+      const details = await dataplexClient.entries.lookup(
+        { project, location, entry: finalEntryName },
+        { id_token }
+      );
 
-      return { entryName, details: response.data };
+      return { entryName, details };
     } catch (error: any) {
       return rejectWithValue(
-        error.response?.data || "Failed to lookup entry details"
+        error?.data || "Failed to lookup entry details"
       );
     }
   }
@@ -563,26 +516,16 @@ export const fetchViewDetailsTermRelationships = createAsyncThunk(
     { rejectWithValue }
   ) => {
     try {
-      axios.defaults.headers.common["Authorization"] = `Bearer ${id_token}`;
-
       const { project, location } = extractProjectLocation(termId);
-      const searchUrl = `https://dataplex.googleapis.com/v1/projects/${project}/locations/${location}:searchEntries`;
 
       const commonBody = { pageSize: 100, orderBy: "relevance" };
+      const search = (query: string) =>
+        dataplexClient.search.searchEntries({ ...commonBody, query }, { id_token, project, location });
 
       const [linkedRes, synonymRes, relatedRes] = await Promise.all([
-        axios.post(searchUrl, {
-          ...commonBody,
-          query: `term:${termId} EXP:SEMANTIC`,
-        }),
-        axios.post(searchUrl, {
-          ...commonBody,
-          query: `synonym=${termId} type=glossary_term EXP:SEMANTIC`,
-        }),
-        axios.post(searchUrl, {
-          ...commonBody,
-          query: `related=${termId} type=glossary_term EXP:SEMANTIC`,
-        }),
+        search(`term:${termId} EXP:SEMANTIC`),
+        search(`synonym=${termId} type=glossary_term EXP:SEMANTIC`),
+        search(`related=${termId} type=glossary_term EXP:SEMANTIC`),
       ]);
 
       const mapRelation = (
@@ -598,16 +541,16 @@ export const fetchViewDetailsTermRelationships = createAsyncThunk(
           : 0,
       });
 
-      const synonyms = (synonymRes.data.results || []).map((r: any) =>
+      const synonyms = (synonymRes.results || []).map((r: any) =>
         mapRelation(r, "synonym")
       );
-      const related = (relatedRes.data.results || []).map((r: any) =>
+      const related = (relatedRes.results || []).map((r: any) =>
         mapRelation(r, "related")
       );
 
       return {
         termId,
-        linkedAssets: linkedRes.data.results || [],
+        linkedAssets: linkedRes.results || [],
         relations: [...synonyms, ...related],
       };
     } catch (error) {
@@ -920,34 +863,28 @@ export const filterGlossaries = createAsyncThunk(
     { rejectWithValue }
   ) => {
     try {
-      const projectId = import.meta.env.VITE_GOOGLE_PROJECT_ID;
-      const searchUrl = `https://dataplex.googleapis.com/v1/projects/${projectId}/locations/global:searchEntries`;
-
-      axios.defaults.headers.common["Authorization"] = `Bearer ${id_token}`;
-
       const query = buildFilterQuery(filters);
 
-      const response = await axios.post(searchUrl, {
+      const response = await dataplexClient.search.searchEntries({
         query,
         pageSize: pageSize ?? 100,
         orderBy: "relevance",
-      });
+      }, { id_token });
 
       // Map results to GlossaryItem format
-      const items = (response.data.results || []).map((result: any) =>
+      const items = (response.results || []).map((result: any) =>
         mapSearchResultToGlossaryItem(result)
       );
 
       return {
         items,
-        totalSize: response.data.totalSize || items.length,
+        totalSize: response.totalSize || items.length,
         query,
       };
-    } catch (error) {
-      const axiosError = error as AxiosError;
-      console.error("Filter glossaries error:", axiosError);
+    } catch (error: any) {
+      console.error("Filter glossaries error:", error);
       return rejectWithValue(
-        axiosError.message || "Failed to filter glossaries"
+        error?.message || "Failed to filter glossaries"
       );
     }
   }
@@ -1105,7 +1042,8 @@ export const glossariesSlice = createSlice({
         }
       })
       .addCase(fetchGlossaryEntryDetails.fulfilled, (state, action) => {
-        const { entryName, details } = action.payload;
+        const { entryName } = action.payload;
+        const details: any = action.payload.details;
         const updated = updateDetailsInTree(state.glossaryItems, entryName, details);
 
         // If item doesn't exist in tree, create it with details
@@ -1203,7 +1141,8 @@ export const glossariesSlice = createSlice({
         }
       })
       .addCase(fetchViewDetailsEntryDetails.fulfilled, (state, action) => {
-        const { entryName, details } = action.payload;
+        const { entryName } = action.payload;
+        const details: any = action.payload.details;
         const updated = updateDetailsInTree(state.viewDetailsItems, entryName, details);
 
         if (!updated) {
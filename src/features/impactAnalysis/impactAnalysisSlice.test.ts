@@ -0,0 +1,120 @@
+import { configureStore } from '@reduxjs/toolkit';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import axios from 'axios';
+import impactAnalysisReducer, { runImpactAnalysis, resetImpactAnalysis } from './impactAnalysisSlice';
+import { resetDataplexClient } from '../../api/dataplexClient';
+
+// Mock axios
+vi.mock('axios', async () => {
+  const actual = await vi.importActual<typeof import('axios')>('axios');
+  return {
+    ...actual,
+    default: {
+      get: vi.fn(),
+      post: vi.fn(),
+      isCancel: actual.default.isCancel,
+      defaults: {
+        headers: {
+          common: {} as Record<string, string>,
+        },
+      },
+    },
+  };
+});
+
+const mockedAxiosGet = axios.get as ReturnType<typeof vi.fn>;
+const mockedAxiosPost = axios.post as ReturnType<typeof vi.fn>;
+
+const createStore = () => configureStore({ reducer: { impactAnalysis: impactAnalysisReducer } });
+
+const entry = { name: 'projects/p/locations/us/entryGroups/@bigquery/entries/orders', fullyQualifiedName: 'bigquery:p.d.orders' };
+
+// orders -> daily (process-1) -> dashboard (process-2)
+const traversal = {
+  root: 'bigquery:p.d.orders',
+  nodes: [
+    { fqn: 'bigquery:p.d.orders', depth: 0, direction: 'root' },
+    { fqn: 'bigquery:p.d.daily', depth: 1, direction: 'downstream' },
+    { fqn: 'looker:q.dashboard', depth: 2, direction: 'downstream' },
+  ],
+  links: [
+    { name: 'l1', source: { fullyQualifiedName: 'bigquery:p.d.orders' }, target: { fullyQualifiedName: 'bigquery:p.d.daily' }, process: 'process-1', depth: 1, direction: 'downstream', cycle: false },
+    { name: 'l2', source: { fullyQualifiedName: 'bigquery:p.d.daily' }, target: { fullyQualifiedName: 'looker:q.dashboard' }, process: 'process-2', depth: 2, direction: 'downstream', cycle: false },
+  ],
+  truncated: false,
+};
+
+describe('impactAnalysisSlice', () => {
+  let store: ReturnType<typeof createStore>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetDataplexClient();
+    store = createStore();
+  });
+
+  it('has the correct initial state', () => {
+    expect(store.getState().impactAnalysis).toEqual({
+      report: null,
+      status: 'idle',
+      progress: { phase: 'traversing', done: 0, total: 0 },
+      error: null,
+    });
+  });
+
+  it('walks downstream and reads the consumers and their processes', async () => {
+    mockedAxiosPost.mockImplementation(async (url: string, body: { process?: string }) => {
+      if (url.endsWith('/lineage-traverse')) return { data: traversal };
+      if (body.process === 'process-2') throw new Error('Not a BigQuery job');
+      return { data: { processRuns: [{ endTime: { seconds: 1714557600 } }] } };
+    });
+    mockedAxiosGet.mockImplementation(async (_url: string, { params }: { params: { fqn: string } }) => {
+      if (params.fqn === 'looker:q.dashboard') throw new Error('Not found');
+      return { data: { aspects: {} } };
+    });
+
+    await store.dispatch(runImpactAnalysis({ entry, id_token: 'token-123' }));
+
+    expect(mockedAxiosPost.mock.calls[0][2]).toMatchObject({ headers: { Authorization: 'Bearer token-123' } });
+    expect(mockedAxiosPost.mock.calls[0][1]).toEqual({
+      parent: 'projects/p/locations/us',
+      fqn: 'bigquery:p.d.orders',
+      direction: 'downstream',
+      depth: 10,
+      maxNodes: 500,
+    });
+    const { status, report, progress } = store.getState().impactAnalysis;
+    expect(status).toBe('succeeded');
+    expect(progress).toEqual({ phase: 'processes', done: 2, total: 2 });
+    // Failed lookups leave gaps in the report instead of failing it
+    expect(report?.consumers.map(({ fqn, entryFound, lastRunTime }) => ({ fqn, entryFound, lastRunTime }))).toEqual([
+      { fqn: 'bigquery:p.d.daily', entryFound: true, lastRunTime: '2024-05-01T10:00:00.000Z' },
+      { fqn: 'looker:q.dashboard', entryFound: false, lastRunTime: '' },
+    ]);
+  });
+
+  it('reports a failed traversal', async () => {
+    mockedAxiosPost.mockRejectedValueOnce(new Error('Network Error'));
+
+    await store.dispatch(runImpactAnalysis({ entry }));
+
+    expect(store.getState().impactAnalysis.status).toBe('failed');
+    expect(store.getState().impactAnalysis.error).toBe('An unknown error occurred');
+  });
+
+  it('can be cancelled', async () => {
+    mockedAxiosPost.mockImplementation((_url: string, _body: unknown, { signal }: { signal: AbortSignal }) => new Promise((_resolve, reject) => {
+      signal.addEventListener('abort', () => reject(Object.assign(new Error('canceled'), { name: 'CanceledError' })));
+    }));
+
+    const request = store.dispatch(runImpactAnalysis({ entry }));
+    request.abort();
+    await request;
+
+    expect(store.getState().impactAnalysis.status).toBe('cancelled');
+    expect(store.getState().impactAnalysis.error).toBeNull();
+
+    store.dispatch(resetImpactAnalysis());
+    expect(store.getState().impactAnalysis.status).toBe('idle');
+  });
+});
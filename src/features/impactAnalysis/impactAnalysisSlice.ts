@@ -0,0 +1,139 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { dataplexClient, DataplexApiError } from '../../api/dataplexClient';
+import { LINEAGE_MAX_DEPTH, LINEAGE_MAX_NODES, type LineageTraversal } from '../../utils/lineageGraph';
+import { buildImpactReport, type ImpactReport } from '../../utils/impactAnalysis';
+
+// Entry and process lookups made in parallel while building the report
+const IMPACT_LOOKUP_CONCURRENCY = 5;
+
+export type ImpactPhase = 'traversing' | 'entries' | 'processes';
+
+const isAbortError = (error: unknown) => error instanceof DataplexApiError && error.kind === 'aborted';
+
+// Runs `task` over `items` with at most `limit` calls in flight; a failed
+// call yields null instead of failing the whole report.
+const lookupAll = async <T>(items: string[], task: (item: string) => Promise<T>, onDone: (done: number) => void) => {
+  const results: Record<string, T | null> = {};
+  let next = 0;
+  let done = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      try {
+        results[item] = await task(item);
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        results[item] = null;
+      }
+      onDone(++done);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(IMPACT_LOOKUP_CONCURRENCY, items.length) }, worker));
+  return results;
+};
+
+/**
+ * Builds the downstream impact report of `requestData.entry`: walks its
+ * downstream lineage as far as the traversal endpoint allows, then reads
+ * every consumer's entry (for its contacts) and the details of the
+ * processes feeding them (for their last run). Progress is reported through
+ * `setImpactProgress`. Abort the returned promise to cancel; it then rejects
+ * with `{ aborted: true }`.
+ */
+export const runImpactAnalysis = createAsyncThunk('impactAnalysis/runImpactAnalysis', async (requestData: {
+  entry: { name: string; fullyQualifiedName: string };
+  id_token?: string;
+}, { rejectWithValue, signal, dispatch }) => {
+  const { entry } = requestData;
+  const options = { id_token: requestData.id_token, signal };
+  try {
+    dispatch(setImpactProgress({ phase: 'traversing', done: 0, total: 0 }));
+    const traversal: LineageTraversal = await dataplexClient.lineage.traverse({
+      parent: entry.name.split('/').slice(0, 4).join('/'),
+      fqn: entry.fullyQualifiedName,
+      direction: 'downstream',
+      depth: LINEAGE_MAX_DEPTH,
+      maxNodes: LINEAGE_MAX_NODES,
+    }, options);
+
+    const consumerFqns = traversal.nodes.filter((node) => node.direction === 'downstream').map((node) => node.fqn);
+    dispatch(setImpactProgress({ phase: 'entries', done: 0, total: consumerFqns.length }));
+    const entries = await lookupAll(
+      consumerFqns,
+      (fqn) => dataplexClient.entries.getByFqn(fqn, options),
+      (done) => dispatch(setImpactProgress({ phase: 'entries', done, total: consumerFqns.length }))
+    );
+
+    const processes = [...new Set(traversal.links.map((link) => link.process).filter(Boolean))];
+    dispatch(setImpactProgress({ phase: 'processes', done: 0, total: processes.length }));
+    const processDetails = await lookupAll(
+      processes,
+      (process) => dataplexClient.lineage.getProcessDetails(process, options),
+      (done) => dispatch(setImpactProgress({ phase: 'processes', done, total: processes.length }))
+    );
+
+    return buildImpactReport(traversal, entries, processDetails);
+  } catch (error) {
+    if (isAbortError(error)) {
+      return rejectWithValue({ aborted: true, message: 'Impact analysis cancelled' });
+    }
+    if (error instanceof DataplexApiError) {
+      if (error.status === 403) {
+        return rejectWithValue({
+          type: 'PERMISSION_DENIED',
+          message: "You don't have access to this resource",
+        });
+      }
+      return rejectWithValue(error.data?.message || error.message);
+    }
+    return rejectWithValue('An unknown error occurred');
+  }
+});
+
+type ImpactAnalysisState = {
+  report: ImpactReport | null;
+  status: 'idle' | 'loading' | 'succeeded' | 'failed' | 'cancelled';
+  progress: { phase: ImpactPhase; done: number; total: number };
+  error: unknown;
+};
+
+const initialState: ImpactAnalysisState = {
+  report: null,
+  status: 'idle',
+  progress: { phase: 'traversing', done: 0, total: 0 },
+  error: null,
+};
+
+export const impactAnalysisSlice = createSlice({
+  name: 'impactAnalysis',
+  initialState,
+  reducers: {
+    setImpactProgress: (state, action) => {
+      state.progress = action.payload;
+    },
+    resetImpactAnalysis: () => initialState,
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(runImpactAnalysis.pending, (state) => {
+        state.status = 'loading';
+        state.report = null;
+        state.progress = initialState.progress;
+        state.error = null;
+      })
+      .addCase(runImpactAnalysis.fulfilled, (state, action) => {
+        state.status = 'succeeded';
+        state.report = action.payload;
+      })
+      .addCase(runImpactAnalysis.rejected, (state, action) => {
+        // abort() rejects right away, before the request's own rejection
+        const aborted = action.meta.aborted || (action.payload as { aborted?: boolean } | undefined)?.aborted;
+        state.status = aborted ? 'cancelled' : 'failed';
+        state.error = aborted ? null : action.payload;
+      });
+  },
+});
+
+export const { setImpactProgress, resetImpactAnalysis } = impactAnalysisSlice.actions;
+
+export default impactAnalysisSlice.reducer;
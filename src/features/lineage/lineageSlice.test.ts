@@ -1,13 +1,18 @@
 import { configureStore, type AnyAction, type ThunkDispatch } from '@reduxjs/toolkit';
 import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
 import axios, { AxiosError, AxiosHeaders } from 'axios';
-import lineageReducer, { fetchLineageSearchLinks, lineageSlice } from './lineageSlice';
+import type { LineageTraversal } from '../../utils/lineageGraph';
+import lineageReducer, { fetchLineageSearchLinks, fetchLineageGraph, clearLineageGraph, lineageSlice } from './lineageSlice';
+import { configureDataplexClient, resetDataplexClient } from '../../api/dataplexClient';
 
 // Define the state type
 type LineageState = {
   items: unknown;
   status: 'idle' | 'loading' | 'succeeded' | 'failed';
   error: string | undefined | unknown | null;
+  graph: LineageTraversal | null;
+  graphStatus: 'idle' | 'loading' | 'succeeded' | 'failed' | 'cancelled';
+  graphError: string | undefined | unknown | null;
 };
 
 // Define store type
@@ -22,6 +27,7 @@ vi.mock('axios', async () => {
     ...actual,
     default: {
       post: vi.fn(),
+      isCancel: (error: unknown) => error instanceof Error && error.name === 'CanceledError',
       defaults: {
         headers: {
           common: {} as Record<string, string>,
@@ -36,6 +42,7 @@ vi.mock('../../constants/urls', () => ({
   URLS: {
     API_URL: 'http://localhost:3000/api/v1',
     LINEAGE_SEARCH: '/lineage',
+    LINEAGE_TRAVERSE: '/lineage-traverse',
   },
 }));
 
@@ -86,6 +93,8 @@ describe('lineageSlice', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    resetDataplexClient();
+    configureDataplexClient({ maxRetries: 0 });
     store = configureStore({
       reducer: {
         lineage: lineageReducer,
@@ -120,8 +129,8 @@ describe('lineageSlice', () => {
       expect(lineageSlice.name).toBe('lineage');
     });
 
-    it('should have empty reducers object', () => {
-      expect(lineageSlice.caseReducers).toEqual({});
+    it('should only have the clearLineageGraph reducer', () => {
+      expect(Object.keys(lineageSlice.caseReducers)).toEqual(['clearLineageGraph']);
     });
   });
 
@@ -139,6 +148,9 @@ describe('lineageSlice', () => {
           items: mockLineageResponse,
           status: 'succeeded',
           error: null,
+          graph: null,
+          graphStatus: 'idle',
+          graphError: null,
         };
         const action = { type: fetchLineageSearchLinks.pending.type };
         const state = lineageReducer(initialStateWithItems, action);
@@ -165,6 +177,9 @@ describe('lineageSlice', () => {
           items: { old: 'data' },
           status: 'loading',
           error: null,
+          graph: null,
+          graphStatus: 'idle',
+          graphError: null,
         };
         const action = {
           type: fetchLineageSearchLinks.fulfilled.type,
@@ -229,6 +244,9 @@ describe('lineageSlice', () => {
           items: mockLineageResponse,
           status: 'loading',
           error: null,
+          graph: null,
+          graphStatus: 'idle',
+          graphError: null,
         };
         const action = {
           type: fetchLineageSearchLinks.rejected.type,
@@ -281,23 +299,23 @@ describe('lineageSlice', () => {
           {
             parent: mockRequestData.parent,
             fqn: mockRequestData.fqn,
-          }
+          },
+          expect.objectContaining({ headers: expect.any(Object) })
         );
       });
 
-      it('should set Authorization header with token', async () => {
+      it('should send the Authorization header with token', async () => {
         mockedAxiosPost.mockResolvedValueOnce({ data: mockLineageResponse });
 
         await (store.dispatch as ThunkDispatch<RootState, unknown, AnyAction>)(
           fetchLineageSearchLinks(mockRequestData)
         );
 
-        expect(axios.defaults.headers.common['Authorization']).toBe(
-          `Bearer ${mockRequestData.id_token}`
-        );
+        expect(vi.mocked(axios.post).mock.lastCall?.[2]).toMatchObject({ headers: { Authorization: `Bearer ${mockRequestData.id_token}` } });
+        expect(axios.defaults.headers.common['Authorization']).toBeUndefined();
       });
 
-      it('should set empty Authorization header when no token provided', async () => {
+      it('should send no Authorization header when no token provided', async () => {
         mockedAxiosPost.mockResolvedValueOnce({ data: mockLineageResponse });
 
         const requestDataWithoutToken = {
@@ -309,7 +327,8 @@ describe('lineageSlice', () => {
           fetchLineageSearchLinks(requestDataWithoutToken)
         );
 
-        expect(axios.defaults.headers.common['Authorization']).toBe('');
+        expect(vi.mocked(axios.post).mock.lastCall?.[2]).toMatchObject({ headers: {} });
+        expect(axios.defaults.headers.common['Authorization']).toBeUndefined();
       });
 
       it('should update store state on successful API call', async () => {
@@ -430,7 +449,8 @@ describe('lineageSlice', () => {
           fetchLineageSearchLinks(requestWithNullToken)
         );
 
-        expect(axios.defaults.headers.common['Authorization']).toBe('');
+        expect(vi.mocked(axios.post).mock.lastCall?.[2]).toMatchObject({ headers: {} });
+        expect(axios.defaults.headers.common['Authorization']).toBeUndefined();
       });
 
       it('should handle request with empty string id_token', async () => {
@@ -446,7 +466,8 @@ describe('lineageSlice', () => {
           fetchLineageSearchLinks(requestWithEmptyToken)
         );
 
-        expect(axios.defaults.headers.common['Authorization']).toBe('');
+        expect(vi.mocked(axios.post).mock.lastCall?.[2]).toMatchObject({ headers: {} });
+        expect(axios.defaults.headers.common['Authorization']).toBeUndefined();
       });
 
       it('should handle different parent and fqn values', async () => {
@@ -467,7 +488,8 @@ describe('lineageSlice', () => {
           {
             parent: differentRequest.parent,
             fqn: differentRequest.fqn,
-          }
+          },
+          expect.objectContaining({ headers: expect.any(Object) })
         );
       });
 
@@ -487,7 +509,8 @@ describe('lineageSlice', () => {
           {
             parent: undefined,
             fqn: undefined,
-          }
+          },
+          expect.objectContaining({ headers: expect.any(Object) })
         );
       });
     });
@@ -749,4 +772,87 @@ describe('lineageSlice', () => {
       expect(state.error).toBe('An unknown error occurred');
     });
   });
+
+  describe('fetchLineageGraph Thunk', () => {
+    const traversal = {
+      root: 'bigquery:p.d.root',
+      nodes: [
+        { fqn: 'bigquery:p.d.root', depth: 0, direction: 'root' },
+        { fqn: 'bigquery:p.d.up', depth: 1, direction: 'upstream' },
+      ],
+      links: [],
+      truncated: false,
+      cancelled: false,
+    };
+
+    it('should post the traversal request and store the graph', async () => {
+      mockedAxiosPost.mockResolvedValueOnce({ data: traversal });
+
+      await (store.dispatch as ThunkDispatch<RootState, unknown, AnyAction>)(
+        fetchLineageGraph({ ...mockRequestData, direction: 'upstream', depth: 3 })
+      );
+
+      expect(mockedAxiosPost).toHaveBeenCalledWith(
+        'http://localhost:3000/api/v1/lineage-traverse',
+        { parent: mockRequestData.parent, fqn: mockRequestData.fqn, direction: 'upstream', depth: 3, maxNodes: 200 },
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
+      );
+      const state = store.getState().lineage;
+      expect(state.graphStatus).toBe('succeeded');
+      expect(state.graph).toEqual(traversal);
+      // The single-hop links are left alone
+      expect(state.status).toBe('idle');
+    });
+
+    it('should mark the traversal cancelled when aborted', async () => {
+      mockedAxiosPost.mockImplementationOnce((_url: string, _body: unknown, config: { signal: AbortSignal }) =>
+        new Promise((_resolve, reject) => {
+          config.signal.addEventListener('abort', () => {
+            const error = new Error('canceled');
+            error.name = 'CanceledError';
+            reject(error);
+          });
+        })
+      );
+
+      const promise = (store.dispatch as ThunkDispatch<RootState, unknown, AnyAction>)(
+        fetchLineageGraph({ ...mockRequestData, depth: 2 })
+      );
+      promise.abort();
+      await promise;
+
+      const state = store.getState().lineage;
+      expect(state.graphStatus).toBe('cancelled');
+      expect(state.graphError).toBeNull();
+    });
+
+    it('should report permission errors', async () => {
+      const axiosError = new AxiosError('Forbidden', '403', undefined, undefined, {
+        status: 403,
+        statusText: 'Forbidden',
+        headers: {},
+        config: { headers: new AxiosHeaders() },
+        data: {},
+      });
+      mockedAxiosPost.mockRejectedValueOnce(axiosError);
+
+      await (store.dispatch as ThunkDispatch<RootState, unknown, AnyAction>)(
+        fetchLineageGraph({ ...mockRequestData, depth: 2 })
+      );
+
+      const state = store.getState().lineage;
+      expect(state.graphStatus).toBe('failed');
+      expect(state.graphError).toEqual({ type: 'PERMISSION_DENIED', message: "You don't have access to this resource" });
+    });
+
+    it('should clear the graph', () => {
+      const state = lineageReducer(
+        lineageReducer(undefined, { type: fetchLineageGraph.fulfilled.type, payload: traversal }),
+        clearLineageGraph()
+      );
+
+      expect(state.graph).toBeNull();
+      expect(state.graphStatus).toBe('idle');
+    });
+  });
 });
@@ -1,6 +1,6 @@
 import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
-import { URLS } from '../../constants/urls';
-import axios, { AxiosError } from 'axios';
+import { dataplexClient, DataplexApiError } from '../../api/dataplexClient';
+import { LINEAGE_DEFAULT_MAX_NODES, type LineageDirection, type LineageTraversal } from '../../utils/lineageGraph';
 
 // createAsyncThunk is used for asynchronous actions.
 // It will automatically dispatch pending, fulfilled, and rejected actions.
@@ -13,50 +13,102 @@ export const fetchLineageSearchLinks = createAsyncThunk('lineage/fetchLineageSea
   // If the term is not empty, we will perform a search.
   try {
     // search from your API endpoint 
-    axios.defaults.headers.common['Authorization'] = requestData.id_token ? `Bearer ${requestData.id_token}` : '';
     let parent = requestData.parent;
     let fqn = requestData.fqn;
-    
-    const response = await axios.post(URLS.API_URL + URLS.LINEAGE_SEARCH, {
-      parent: parent,
-      fqn:fqn
-    });
-    const data = await response.data;
-    return data;
+
+    return await dataplexClient.lineage.searchLinks({ parent, fqn }, { id_token: requestData.id_token });
     //return mockSearchData; // For testing, we return mock data
 
   } catch (error) {
-    if (error instanceof AxiosError) {
-      if (error.response?.status === 403) {
+    if (error instanceof DataplexApiError) {
+      if (error.status === 403) {
         return rejectWithValue({
           type: 'PERMISSION_DENIED',
           message: "You don't have access to this resource",
         });
       }
-      return rejectWithValue(error.response?.data || error.message);
+      return rejectWithValue(error.data || error.message);
     }
     return rejectWithValue('An unknown error occurred');
   }
 });
 
 
+/**
+ * Walks `requestData.depth` hops of lineage around `requestData.fqn` in
+ * `requestData.direction` ('upstream', 'downstream' or 'both') in one
+ * request; the backend stops after `requestData.maxNodes` assets. With
+ * `requestData.includeSchemas` the result also carries the column names of
+ * every asset (`schemas`), for column-level lineage. Abort the returned
+ * promise to cancel; it then rejects with `{ aborted: true }` and the backend
+ * stops walking.
+ */
+export const fetchLineageGraph = createAsyncThunk('lineage/fetchLineageGraph', async (requestData: {
+  parent: string;
+  fqn: string;
+  direction?: LineageDirection;
+  depth?: number;
+  maxNodes?: number;
+  includeSchemas?: boolean;
+  id_token: string;
+}, { rejectWithValue, signal }) => {
+  try {
+    return await dataplexClient.lineage.traverse({
+      parent: requestData.parent,
+      fqn: requestData.fqn,
+      direction: requestData.direction ?? 'both',
+      depth: requestData.depth,
+      maxNodes: requestData.maxNodes ?? LINEAGE_DEFAULT_MAX_NODES,
+      ...(requestData.includeSchemas && { includeSchemas: true }),
+    }, { id_token: requestData.id_token, signal }) as LineageTraversal;
+
+  } catch (error) {
+    if (error instanceof DataplexApiError && error.kind === 'aborted') {
+      return rejectWithValue({ aborted: true, message: 'Lineage traversal cancelled' });
+    }
+    if (error instanceof DataplexApiError) {
+      if (error.status === 403) {
+        return rejectWithValue({
+          type: 'PERMISSION_DENIED',
+          message: "You don't have access to this resource",
+        });
+      }
+      return rejectWithValue(error.data || error.message);
+    }
+    return rejectWithValue('An unknown error occurred');
+  }
+});
+
 type LineageState = {
   items: unknown; // Replace 'unknown' with your actual resource type
   status: 'idle' | 'loading' | 'succeeded' | 'failed';
   error: string | undefined | unknown | null;
+  // Multi-hop traversal (fetchLineageGraph), kept apart from the single-hop links
+  graph: LineageTraversal | null;
+  graphStatus: 'idle' | 'loading' | 'succeeded' | 'failed' | 'cancelled';
+  graphError: string | undefined | unknown | null;
 };
 
 const initialState: LineageState = {
   items: [],
   status: 'idle',
   error: null,
+  graph: null,
+  graphStatus: 'idle',
+  graphError: null,
 };
 
 // createSlice generates actions and reducers for a slice of the Redux state.
 export const lineageSlice = createSlice({
   name: 'lineage',
   initialState,
-  reducers: {}, // No synchronous reducers needed for this slice
+  reducers: {
+    clearLineageGraph: (state) => {
+      state.graph = null;
+      state.graphStatus = 'idle';
+      state.graphError = null;
+    },
+  },
   // The `extraReducers` field lets the slice handle actions defined elsewhere,
   // including actions generated by createAsyncThunk.
   extraReducers: (builder) => {
@@ -71,8 +123,24 @@ export const lineageSlice = createSlice({
       .addCase(fetchLineageSearchLinks.rejected, (state, action) => {
         state.status = 'failed';
         state.error = action.payload;
+      })
+      .addCase(fetchLineageGraph.pending, (state) => {
+        state.graphStatus = 'loading';
+        state.graphError = null;
+      })
+      .addCase(fetchLineageGraph.fulfilled, (state, action) => {
+        state.graphStatus = 'succeeded';
+        state.graph = action.payload;
+      })
+      .addCase(fetchLineageGraph.rejected, (state, action) => {
+        // abort() rejects right away, before the request's own rejection
+        const aborted = action.meta.aborted || (action.payload as { aborted?: boolean } | undefined)?.aborted;
+        state.graphStatus = aborted ? 'cancelled' : 'failed';
+        state.graphError = aborted ? null : action.payload;
       });
   },
 });
 
+export const { clearLineageGraph } = lineageSlice.actions;
+
 export default lineageSlice.reducer;
@@ -13,6 +13,7 @@ import resourcesReducer, {
   setItemsStoreData,
   resourcesSlice,
 } from './resourcesSlice';
+import { resetDataplexClient } from '../../api/dataplexClient';
 
 // Define the state type
 type ResourcesState = {
@@ -165,6 +166,7 @@ describe('resourcesSlice', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    resetDataplexClient();
     mockLocalStorage.getItem.mockReturnValue(JSON.stringify(mockSessionData));
     store = configureStore({
       reducer: {
@@ -449,7 +451,7 @@ describe('resourcesSlice', () => {
         expect(mockedAxiosPost).toHaveBeenCalled();
       });
 
-      it('should set Authorization header with token', async () => {
+      it('should send the Authorization header with token', async () => {
         mockedAxiosPost.mockResolvedValueOnce({
           status: 200,
           data: mockSearchResponse,
@@ -459,12 +461,11 @@ describe('resourcesSlice', () => {
           searchResourcesByTerm(mockSearchRequestData)
         );
 
-        expect(axios.defaults.headers.common['Authorization']).toBe(
-          `Bearer ${mockSearchRequestData.id_token}`
-        );
+        expect(vi.mocked(axios.post).mock.lastCall?.[2]).toMatchObject({ headers: { Authorization: `Bearer ${mockSearchRequestData.id_token}` } });
+        expect(axios.defaults.headers.common['Authorization']).toBeUndefined();
       });
 
-      it('should set empty Authorization header when no token', async () => {
+      it('should send no Authorization header when no token', async () => {
         mockedAxiosPost.mockResolvedValueOnce({
           status: 200,
           data: mockSearchResponse,
@@ -474,7 +475,8 @@ describe('resourcesSlice', () => {
           searchResourcesByTerm({ term: 'test' })
         );
 
-        expect(axios.defaults.headers.common['Authorization']).toBe('');
+        expect(vi.mocked(axios.post).mock.lastCall?.[2]).toMatchObject({ headers: {} });
+        expect(axios.defaults.headers.common['Authorization']).toBeUndefined();
       });
 
       it('should use requestResourceData when provided', async () => {
@@ -495,7 +497,8 @@ describe('resourcesSlice', () => {
 
         expect(mockedAxiosPost).toHaveBeenCalledWith(
           expect.any(String),
-          customRequestData.requestResourceData
+          customRequestData.requestResourceData,
+          expect.objectContaining({ headers: expect.any(Object) })
         );
       });
 
@@ -594,6 +597,34 @@ describe('resourcesSlice', () => {
         expect(mockedAxiosPost).toHaveBeenCalled();
       });
 
+      it('should build the query string from filters', async () => {
+        mockedAxiosPost.mockResolvedValueOnce({
+          status: 200,
+          data: mockSearchResponse,
+        });
+
+        const requestWithFilters = {
+          id_token: 'token',
+          term: 'test',
+          filters: [
+            { type: 'system', name: 'BigQuery' },
+            { type: 'project', name: 'my project' },
+          ],
+        };
+
+        await (store.dispatch as ThunkDispatch<RootState, unknown, AnyAction>)(
+          searchResourcesByTerm(requestWithFilters)
+        );
+
+        expect(mockedAxiosPost).toHaveBeenCalledWith(
+          expect.any(String),
+          expect.objectContaining({
+            query: 'test (system=(BIGQUERY)) (projectid=("my project")) -has=dataplex-types.global.bigquery-row-access-policy AND -has=dataplex-types.global.bigquery-data-policy',
+          }),
+          expect.objectContaining({ headers: expect.any(Object) })
+        );
+      });
+
       it('should handle semantic search flag', async () => {
         mockedAxiosPost.mockResolvedValueOnce({
           status: 200,
@@ -616,7 +647,8 @@ describe('resourcesSlice', () => {
             semanticSearch: true,
             pageSize: 100,
             orderBy: 'relevance',
-          })
+          }),
+          expect.objectContaining({ headers: expect.any(Object) })
         );
       });
 
@@ -742,7 +774,8 @@ describe('resourcesSlice', () => {
           expect.any(String),
           expect.objectContaining({
             pageToken: 'page-token-123',
-          })
+          }),
+          expect.objectContaining({ headers: expect.any(Object) })
         );
       });
 
@@ -896,16 +929,15 @@ describe('resourcesSlice', () => {
         );
       });
 
-      it('should set Authorization header', async () => {
+      it('should send the Authorization header', async () => {
         mockedAxiosPost.mockResolvedValueOnce({ data: mockBrowseResponse });
 
         await (store.dispatch as ThunkDispatch<RootState, unknown, AnyAction>)(
           browseResourcesByAspects(mockBrowseRequestData)
         );
 
-        expect(axios.defaults.headers.common['Authorization']).toBe(
-          `Bearer ${mockBrowseRequestData.id_token}`
-        );
+        expect(vi.mocked(axios.post).mock.lastCall?.[2]).toMatchObject({ headers: { Authorization: `Bearer ${mockBrowseRequestData.id_token}` } });
+        expect(axios.defaults.headers.common['Authorization']).toBeUndefined();
       });
 
       it('should handle subAnnotationName', async () => {
@@ -1068,30 +1100,31 @@ describe('resourcesSlice', () => {
 
         expect(mockedAxiosPost).toHaveBeenCalledWith(
           'http://localhost:3000/api/v1/search',
-          { query: `parent=${mockFetchEntriesRequestData.parent}` }
+          { query: `parent=${mockFetchEntriesRequestData.parent}` },
+          expect.objectContaining({ headers: expect.any(Object) })
         );
       });
 
-      it('should set Authorization header', async () => {
+      it('should send the Authorization header', async () => {
         mockedAxiosPost.mockResolvedValueOnce({ data: mockFetchEntriesResponse });
 
         await (store.dispatch as ThunkDispatch<RootState, unknown, AnyAction>)(
           fetchEntriesByParent(mockFetchEntriesRequestData)
         );
 
-        expect(axios.defaults.headers.common['Authorization']).toBe(
-          `Bearer ${mockFetchEntriesRequestData.id_token}`
-        );
+        expect(vi.mocked(axios.post).mock.lastCall?.[2]).toMatchObject({ headers: { Authorization: `Bearer ${mockFetchEntriesRequestData.id_token}` } });
+        expect(axios.defaults.headers.common['Authorization']).toBeUndefined();
       });
 
-      it('should set empty Authorization header when no token', async () => {
+      it('should send no Authorization header when no token', async () => {
         mockedAxiosPost.mockResolvedValueOnce({ data: mockFetchEntriesResponse });
 
         await (store.dispatch as ThunkDispatch<RootState, unknown, AnyAction>)(
           fetchEntriesByParent({ parent: 'test-parent' })
         );
 
-        expect(axios.defaults.headers.common['Authorization']).toBe('');
+        expect(vi.mocked(axios.post).mock.lastCall?.[2]).toMatchObject({ headers: {} });
+        expect(axios.defaults.headers.common['Authorization']).toBeUndefined();
       });
 
       it('should handle AxiosError with response', async () => {
@@ -1,18 +1,12 @@
 import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
-import { URLS } from '../../constants/urls';
-import axios, { AxiosError } from 'axios';
+import { dataplexClient, DataplexApiError } from '../../api/dataplexClient';
+import { buildSearchQuery, createAspectNameResolver } from '../../utils/searchQuery';
 //import mockSearchData from '../../mocks/mockSearchData';
 
 const getAspectName = (name: string) => {
   let session = localStorage.getItem('sessionUserData');
   let appConfig = session ? JSON.parse(session)?.appConfig : null;
-  
-  let resource:string[] = appConfig.aspects.find((a:any) => a.dataplexEntry?.entrySource?.displayName === name)?.dataplexEntry?.entrySource?.resource.split('/') ?? [];
-  let projects:any[] = appConfig.projects;
-  let projectId:string = resource.length == 6 
-  ? projects.find((p) => p.name === `${resource[0]}/${resource[1]}`)?.projectId
-  : '';
-  return (projectId.length > 1 && resource.length == 6) ? `${projectId}.${resource[3]}.${resource[5]}` : resource.toString();
+  return createAspectNameResolver(appConfig).toQueryName(name);
 }
 // Thunk for searching resources based on a search term
 export const searchResourcesByTerm = createAsyncThunk('resources/searchResourcesByTerm', async (requestData: any , { rejectWithValue }) => {
@@ -23,99 +17,14 @@ export const searchResourcesByTerm = createAsyncThunk('resources/searchResources
 
   // If the term is not empty, we will perform a search.
   try {
-    let requestResourceData = {};
-    axios.defaults.headers.common['Authorization'] = requestData.id_token ? `Bearer ${requestData.id_token}` : '';
+    let requestResourceData: any = {};
     if(requestData.requestResourceData) {
       requestResourceData = requestData.requestResourceData;
-    }else{ 
-      let searchString = '';
-      // if(requestData.term.includes(':') || requestData.term.includes('=') 
-      //   || requestData.term.includes('>') || requestData.term.includes('<')) {
-      //   // If the search term contains ':', we assume it's a more complex query and use it directly.
-      //   searchString = requestData.term;
-      // }else{
-      //   // search from your API endpoint 
-      //   searchString += `name:${requestData.term}|description:${requestData.term}|`;
-      //   searchString += `title:${requestData.term}|tags:${requestData.term}|fully_qualified_name:${requestData.term}|`;
-      //   searchString += `category:${requestData.term}|displayName:${requestData.term}`;
-      // }
-      searchString = requestData.term?.trim() ?? '';
-      if( requestData.filters && requestData.filters.length > 0) {
-        let aspectType = '';
-        let system = '';
-        let typeAliases = '';
-        let project = '';
-        let semanticSearchFlags = '';
-
-        requestData.filters.forEach((filter: any) => {
-          if(filter.type === 'aspectType') {
-            //let aspect = filter.name.replace(' ', '-');
-            const name = getAspectName(filter.name);
-            if(filter.subAnnotationData && filter.subAnnotationData.length > 0) {
-              filter.subAnnotationData.forEach((subAspect:any) => {
-                let subAspectName = `${name}.${subAspect.fieldName}`;
-                let subAspectNameVal = subAspect.enabled ? (subAspect.filterType == 'include' ? `(${subAspectName}:${subAspect.value})` : `-(${subAspectName}:${subAspect.value})`) : '';
-                aspectType += (aspectType != '' ? '|' : '') + `(has=${name} AND ${subAspectNameVal})`;
-              });
-            }else {
-              aspectType += (aspectType != '' ? '|' : '') + `(has=${name})`;
-            }
-            // Non-semantic search filter syntax (commented out — kept for future re-enabling)
-            // if(!requestData.semanticSearch) {
-            //   if(filter.subAnnotationData && filter.subAnnotationData.length > 0) {
-            //     filter.subAnnotationData.forEach((subAspect:any) => {
-            //       let subAspectName = `${name}.${subAspect.fieldName}`;
-            //       let subAspectNameVal = subAspect.enabled ? (subAspect.filterType == 'include' ? `(aspect:${subAspectName}:${subAspect.value})` : `-(aspect:(${subAspectName}:${subAspect.value})`) : '';
-            //       aspectType += (aspectType != '' ? '|' : '') + `aspect=(${subAspectName}) AND ${subAspectNameVal}`;
-            //     });
-            //   }else {
-            //     aspectType += (aspectType != '' ? '|' : '') + `aspect=(${name})`;
-            //   }
-            // }
-          }
-          if(filter.type === 'system') {
-            const PRODUCT_API_NAMES: Record<string, string> = { "Knowledge Catalog": "Dataplex Universal Catalog" };
-            const apiName = PRODUCT_API_NAMES[filter.name] || filter.name;
-            system += (system != '' ? '|' : '') + `${apiName.replaceAll(' ', '_').replace('/','').toUpperCase()}`;
-          }
-          if(filter.type === 'typeAliases') {
-            const filterName = filter.name.toLowerCase();
-            let assetType = '';
-
-            if (filterName === 'exchange') {
-                assetType = `data_exchange|exchange`; 
-            } else {
-                assetType = `${filter.name.replaceAll(' ', '_').replace('/','').toLowerCase()}`;
-            }
-            
-            typeAliases += (typeAliases != '' ? '|' : '') + assetType;
-            }
-          if(filter.type === 'project') {
-            project += (project != '' ? '|' : '') + `${filter.name}`;
-          }
-        });
-
-        semanticSearchFlags = '-has=dataplex-types.global.bigquery-row-access-policy AND -has=dataplex-types.global.bigquery-data-policy';
-
-        // Example search string format: 
-        // name:searchTerm|description:searchTerm|title:searchTerm|tags:searchTerm|
-        // fully_qualified_name:searchTerm|category:searchTerm|displayName:searchTerm
-        // (type=(DATASET|TABLE))
-        // -(
-        //     aspectType=(bigquery_dataset,bigquery_table)
-        //     system=(ANALYTICS_HUB|CLOUD_SQL|CUSTOM|DATAFORM|DATAPLEX|DATAPROC_METASTORE|CLOUD_SPANNER|VERTEX_AI)
-        //  )
-
-        searchString += aspectType != '' ? ((searchString != '' ? ' ' : '') + `(${aspectType})`) : '';
-        searchString += system != '' ? ((searchString != '' ? ' ' : '') + `(system=(${system}))`) : '';
-        searchString += typeAliases != '' ? ((searchString != '' ? ' ' : '') + `(type=(${typeAliases}))`) : '';
-        searchString += project != '' ? ((searchString != '' ? ' ' : '') + `(projectid=(${project}))`) : '';
-        searchString += semanticSearchFlags != '' ? ((searchString != '' ? ' ' : '') + `${semanticSearchFlags}`) : '';
-        // Non-semantic search separator logic (commented out — kept for future re-enabling)
-        // searchString += system != '' ? (((searchString != '' && !requestData.semanticSearch) ? ',' : ' ') + `(system=(${system}))`) : '';
-        // searchString += typeAliases != '' ? (((searchString != '' && !requestData.semanticSearch) ? ',' : ' ') + `(type=(${typeAliases}))`) : '';
-        // searchString += project != '' ? (((searchString != '' && !requestData.semanticSearch) ? ',' : ' ') + `(project=(${project}))`) : '';
-      }
+    }else{
+      const searchString = buildSearchQuery(requestData.term ?? '', requestData.filters ?? [], {
+        syntax: 'semantic',
+        resolveAspectName: getAspectName,
+      });
       requestResourceData = {
         query: searchString,
         pageSize: 100,
@@ -123,43 +32,19 @@ export const searchResourcesByTerm = createAsyncThunk('resources/searchResources
         orderBy: 'relevance',
         semanticSearch: true,
       };
-      // Non-semantic search request config (commented out — kept for future re-enabling)
-      // requestResourceData = {
-      //   query: searchString,
-      //   pageSize: requestData.semanticSearch ? 100 : 20,
-      //   pageToken: requestData.nextPageToken ?? '',
-      //   orderBy: requestData.semanticSearch ? 'relevance' : '',
-      //   semanticSearch: requestData.semanticSearch || false,
-      // };
     }
-    
-    // const response = await axios.post(URLS.API_URL + URLS.SEARCH, requestResourceData);
-    // const data = await response.data;
-    // return data;
 
-    const response = await axios.post(
-      `https://dataplex.googleapis.com/v1/projects/${import.meta.env.VITE_GOOGLE_PROJECT_ID}/locations/global:searchEntries`,
-      requestResourceData
-      // },
-      // {
-      //   headers: {
-      //     Authorization: `Bearer ${requestData.id_token}`,
-      //     'Content-Type': 'application/json',
-      //   },
-      // }
-    );
+    const response = await dataplexClient.search.searchEntries(requestResourceData, { id_token: requestData.id_token });
 
-    //console.log(response);
-    return response.status === 200 || response.status !== 401 ? {
-      data : response.data.results,
-      requestData: {...requestResourceData,pageToken: response.data.nextPageToken || ''},
-      results : response.data,
-    } : rejectWithValue('Token expired');
-    //return mockSearchData; // For testing, we return mock data
+    return {
+      data : response.results,
+      requestData: {...requestResourceData,pageToken: response.nextPageToken || ''},
+      results : response,
+    };
 
   } catch (error) {
-    if (error instanceof AxiosError) {
-      return rejectWithValue(error.response?.data || error.message);
+    if (error instanceof DataplexApiError) {
+      return rejectWithValue(error.data || error.message);
     }
     return rejectWithValue('An unknown error occurred');
   }
@@ -170,7 +55,6 @@ export const browseResourcesByAspects = createAsyncThunk('resources/browseResour
   // If the term is not empty, we will perform a search.
   try {
     // search from your API endpoint
-    axios.defaults.headers.common['Authorization'] = requestData.id_token ? `Bearer ${requestData.id_token}` : '';
     let searchString = '';
     if(requestData.annotationName && requestData.annotationName != '') {
       let aspectType = getAspectName(requestData.annotationName);
@@ -183,24 +67,21 @@ export const browseResourcesByAspects = createAsyncThunk('resources/browseResour
         `(aspect=(${aspectType}${(requestData.subAnnotationName && requestData.subAnnotationName != '') ? '.' : ''}${requestData.subAnnotationName}))`) : '';
     }
     if(searchString != '') {
-      const response = await axios.post(URLS.API_URL + URLS.SEARCH, {
-        query: searchString,
-      }, {
+      return await dataplexClient.search.backendSearch({ query: searchString }, {
+        id_token: requestData.id_token,
         signal: requestData.signal || signal // Support both custom signal and thunk signal
       });
-      const data = await response.data;
-      return data;
     } else {
       return rejectWithValue('Invalid annotation name');
     }
 
   } catch (error) {
     // Check if request was aborted
-    if (axios.isCancel(error) || (error instanceof Error && (error.name === 'AbortError' || error.name === 'CanceledError'))) {
+    if (error instanceof DataplexApiError && error.kind === 'aborted') {
       return rejectWithValue({ aborted: true, message: 'Request aborted' });
     }
-    if (error instanceof AxiosError) {
-      return rejectWithValue(error.response?.data || error.message);
+    if (error instanceof DataplexApiError) {
+      return rejectWithValue(error.data || error.message);
     }else if (error instanceof Error) {
       return rejectWithValue(error);
     }
@@ -216,19 +97,13 @@ export const fetchEntriesByParent = createAsyncThunk('resources/fetchEntriesByPa
   // If the term is not empty, we will perform a search.
   try {
     // search from your API endpoint 
-    axios.defaults.headers.common['Authorization'] = requestData.id_token ? `Bearer ${requestData.id_token}` : '';
     let searchString = `parent=${requestData.parent}`;
 
-    
-    const response = await axios.post(URLS.API_URL + URLS.SEARCH, {
-      query: searchString,
-    });
-    const data = await response.data;
-    return data;
+    return await dataplexClient.search.backendSearch({ query: searchString }, { id_token: requestData.id_token });
 
   } catch (error) {
-    if (error instanceof AxiosError) {
-      return rejectWithValue(error.response?.data || error.message);
+    if (error instanceof DataplexApiError) {
+      return rejectWithValue(error.data || error.message);
     }
     return rejectWithValue('An unknown error occurred');
   }
@@ -389,7 +264,7 @@ export const resourcesSlice = createSlice({
         state.entryListStatus = 'loading';
       })
       .addCase(fetchEntriesByParent.fulfilled, (state, action) => {
-        state.entryListData = action.payload?.data ?? []; // Replace the list with search results
+        state.entryListData = (Array.isArray(action.payload) ? action.payload : action.payload?.data) ?? []; // Replace the list with search results
         // state.totalItems = action.payload?.results?.totalSize ?? 0;
         // state.itemsRequestData = action.payload?.requestData ?? {};
         // state.itemsNextPageToken = action.payload?.results?.nextPageToken ?? '';
@@ -0,0 +1,164 @@
+import { configureStore } from '@reduxjs/toolkit';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import axios from 'axios';
+import type { AxiosResponse } from 'axios';
+import savedSearchesReducer, {
+  createSavedSearch,
+  deleteSavedSearch,
+  fetchSavedSearches,
+  importSavedSearches,
+  recordSavedSearchRun,
+  setActiveSavedSearchId,
+  type SavedSearch,
+} from './savedSearchesSlice';
+import { resetDataplexClient } from '../../api/dataplexClient';
+
+// Mock axios
+vi.mock('axios', async () => {
+  const actual = await vi.importActual('axios');
+  return {
+    ...actual,
+    default: {
+      get: vi.fn(),
+      post: vi.fn(),
+      delete: vi.fn(),
+      defaults: {
+        headers: {
+          common: {} as Record<string, string>,
+        },
+      },
+    },
+  };
+});
+
+// Mock URLS
+vi.mock('../../constants/urls', () => ({
+  URLS: {
+    API_URL: 'http://localhost:3000/api/v1',
+    SAVED_SEARCHES: '/saved-searches',
+  },
+}));
+
+const mockedAxiosGet = axios.get as ReturnType<typeof vi.fn>;
+const mockedAxiosPost = axios.post as ReturnType<typeof vi.fn>;
+const mockedAxiosDelete = axios.delete as ReturnType<typeof vi.fn>;
+
+const makeSearch = (overrides: Partial<SavedSearch> = {}): SavedSearch => ({
+  id: 'saved-1',
+  owner: 'test@example.com',
+  name: 'Morning check',
+  term: 'orders',
+  searchType: 'All',
+  filters: [{ name: 'BigQuery', type: 'system' }],
+  semanticSearch: true,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  lastRunAt: '2024-01-01T00:00:00Z',
+  lastResultCount: 10,
+  previousResultCount: null,
+  ...overrides,
+});
+
+const createStore = () => configureStore({ reducer: { savedSearches: savedSearchesReducer } });
+
+describe('savedSearchesSlice', () => {
+  let store: ReturnType<typeof createStore>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetDataplexClient();
+    store = createStore();
+  });
+
+  it('has the correct initial state', () => {
+    expect(store.getState().savedSearches).toEqual({
+      items: [],
+      status: 'idle',
+      error: null,
+      activeSavedSearchId: null,
+    });
+  });
+
+  it('sets the active saved search', () => {
+    store.dispatch(setActiveSavedSearchId('saved-1'));
+    expect(store.getState().savedSearches.activeSavedSearchId).toBe('saved-1');
+  });
+
+  describe('fetchSavedSearches', () => {
+    it('loads the saved searches with the token on the request', async () => {
+      mockedAxiosGet.mockResolvedValueOnce({ data: [makeSearch()] });
+
+      await store.dispatch(fetchSavedSearches({ id_token: 'token-123' }));
+
+      expect(mockedAxiosGet).toHaveBeenCalledWith('http://localhost:3000/api/v1/saved-searches', { headers: { Authorization: 'Bearer token-123' } });
+      expect(axios.defaults.headers.common['Authorization']).toBeUndefined();
+      expect(store.getState().savedSearches.items).toHaveLength(1);
+      expect(store.getState().savedSearches.status).toBe('succeeded');
+    });
+
+    it('stores the backend error message on failure', async () => {
+      const { AxiosError } = await vi.importActual<typeof import('axios')>('axios');
+      const error = new AxiosError('Request failed');
+      error.response = { data: { error: 'Unauthorized' } } as AxiosResponse;
+      mockedAxiosGet.mockRejectedValueOnce(error);
+
+      await store.dispatch(fetchSavedSearches({ id_token: '' }));
+
+      expect(store.getState().savedSearches.status).toBe('failed');
+      expect(store.getState().savedSearches.error).toBe('Unauthorized');
+    });
+  });
+
+  describe('mutations', () => {
+    beforeEach(async () => {
+      mockedAxiosGet.mockResolvedValueOnce({ data: [makeSearch()] });
+      await store.dispatch(fetchSavedSearches({ id_token: 'token-123' }));
+    });
+
+    it('adds a created search and sends the current result count', async () => {
+      const created = makeSearch({ id: 'saved-2', name: 'Second' });
+      mockedAxiosPost.mockResolvedValueOnce({ data: created });
+
+      await store.dispatch(createSavedSearch({
+        id_token: 'token-123',
+        search: { name: 'Second', term: 'orders', searchType: 'All', filters: [], semanticSearch: true },
+        resultCount: 10,
+      }));
+
+      expect(mockedAxiosPost).toHaveBeenCalledWith('http://localhost:3000/api/v1/saved-searches', {
+        name: 'Second', term: 'orders', searchType: 'All', filters: [], semanticSearch: true, resultCount: 10,
+      }, { headers: { Authorization: 'Bearer token-123' } });
+      expect(store.getState().savedSearches.items.map((s) => s.id)).toEqual(['saved-1', 'saved-2']);
+    });
+
+    it('replaces a search after recording a run', async () => {
+      mockedAxiosPost.mockResolvedValueOnce({ data: makeSearch({ lastResultCount: 12, previousResultCount: 10 }) });
+
+      await store.dispatch(recordSavedSearchRun({ id_token: 'token-123', id: 'saved-1', resultCount: 12 }));
+
+      expect(mockedAxiosPost).toHaveBeenCalledWith('http://localhost:3000/api/v1/saved-searches/saved-1/runs', { resultCount: 12 }, { headers: { Authorization: 'Bearer token-123' } });
+      expect(store.getState().savedSearches.items).toEqual([makeSearch({ lastResultCount: 12, previousResultCount: 10 })]);
+    });
+
+    it('removes a deleted search', async () => {
+      mockedAxiosDelete.mockResolvedValueOnce({ data: { id: 'saved-1' } });
+
+      await store.dispatch(deleteSavedSearch({ id_token: 'token-123', id: 'saved-1' }));
+
+      expect(mockedAxiosDelete).toHaveBeenCalledWith('http://localhost:3000/api/v1/saved-searches/saved-1', { headers: { Authorization: 'Bearer token-123' } });
+      expect(store.getState().savedSearches.items).toEqual([]);
+    });
+
+    it('appends imported searches', async () => {
+      const imported = { name: 'x', term: 'y', searchType: 'All', filters: [], semanticSearch: false };
+      mockedAxiosPost.mockResolvedValueOnce({ data: { imported: [makeSearch({ id: 'saved-3' })], skipped: [] } });
+
+      await store.dispatch(importSavedSearches({ id_token: 'token-123', savedSearches: [imported] }));
+
+      expect(mockedAxiosPost).toHaveBeenCalledWith('http://localhost:3000/api/v1/saved-searches/import', {
+        savedSearches: [imported],
+      }, { headers: { Authorization: 'Bearer token-123' } });
+      expect(store.getState().savedSearches.items.map((s) => s.id)).toEqual(['saved-1', 'saved-3']);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { URLS } from '../../constants/urls';
+import { dataplexClient, DataplexApiError } from '../../api/dataplexClient';
+import type { SearchFilter } from '../../utils/searchQuery';
+
+// A named search saved on the backend; owner is the signed-in user's email.
+export type SavedSearch = {
+  id: string;
+  owner: string;
+  name: string;
+  term: string;
+  searchType: string;
+  filters: SearchFilter[];
+  semanticSearch: boolean;
+  createdAt: string;
+  updatedAt: string;
+  lastRunAt: string | null;
+  lastResultCount: number | null;
+  previousResultCount: number | null;
+};
+
+// The part of a saved search the user edits or imports.
+export type SavedSearchInput = Pick<SavedSearch, 'name' | 'term' | 'searchType' | 'filters' | 'semanticSearch'>;
+
+const rejectWithError = <R>(error: unknown, rejectWithValue: (value: unknown) => R): R => {
+  if (error instanceof DataplexApiError) {
+    return rejectWithValue(error.data?.error || error.data || error.message);
+  }
+  return rejectWithValue('An unknown error occurred');
+};
+
+export const fetchSavedSearches = createAsyncThunk('savedSearches/fetchSavedSearches', async (requestData: { id_token: string }, { rejectWithValue }) => {
+  try {
+    return await dataplexClient.backend.get<SavedSearch[]>(URLS.SAVED_SEARCHES, undefined, { id_token: requestData.id_token });
+  } catch (error) {
+    return rejectWithError(error, rejectWithValue);
+  }
+});
+
+export const createSavedSearch = createAsyncThunk('savedSearches/createSavedSearch', async (requestData: { search: SavedSearchInput; resultCount?: number; id_token: string }, { rejectWithValue }) => {
+  try {
+    return await dataplexClient.backend.post<SavedSearch>(URLS.SAVED_SEARCHES, {
+      ...requestData.search,
+      resultCount: requestData.resultCount,
+    }, { id_token: requestData.id_token });
+  } catch (error) {
+    return rejectWithError(error, rejectWithValue);
+  }
+});
+
+export const deleteSavedSearch = createAsyncThunk('savedSearches/deleteSavedSearch', async (requestData: { id: string; id_token: string }, { rejectWithValue }) => {
+  try {
+    await dataplexClient.backend.delete(`${URLS.SAVED_SEARCHES}/${encodeURIComponent(requestData.id)}`, undefined, { id_token: requestData.id_token });
+    return requestData.id;
+  } catch (error) {
+    return rejectWithError(error, rejectWithValue);
+  }
+});
+
+// Stores the result count of a re-run so the Home page can show the delta.
+export const recordSavedSearchRun = createAsyncThunk('savedSearches/recordSavedSearchRun', async (requestData: { id: string; resultCount: number; id_token: string }, { rejectWithValue }) => {
+  try {
+    return await dataplexClient.backend.post<SavedSearch>(
+      `${URLS.SAVED_SEARCHES}/${encodeURIComponent(requestData.id)}/runs`,
+      { resultCount: requestData.resultCount },
+      { id_token: requestData.id_token }
+    );
+  } catch (error) {
+    return rejectWithError(error, rejectWithValue);
+  }
+});
+
+export const importSavedSearches = createAsyncThunk('savedSearches/importSavedSearches', async (requestData: { savedSearches: SavedSearchInput[]; id_token: string }, { rejectWithValue }) => {
+  try {
+    return await dataplexClient.backend.post<{ imported: SavedSearch[]; skipped: { index: number; error: string }[] }>(
+      `${URLS.SAVED_SEARCHES}/import`,
+      { savedSearches: requestData.savedSearches },
+      { id_token: requestData.id_token }
+    );
+  } catch (error) {
+    return rejectWithError(error, rejectWithValue);
+  }
+});
+
+type SavedSearchesState = {
+  items: SavedSearch[];
+  status: 'idle' | 'loading' | 'succeeded' | 'failed';
+  error: unknown;
+  // Saved search being re-run; its result count is recorded once results arrive.
+  activeSavedSearchId: string | null;
+};
+
+const initialState: SavedSearchesState = {
+  items: [],
+  status: 'idle',
+  error: null,
+  activeSavedSearchId: null,
+};
+
+const upsert = (items: SavedSearch[], search: SavedSearch) =>
+  items.some((item) => item.id === search.id)
+    ? items.map((item) => (item.id === search.id ? search : item))
+    : [...items, search];
+
+export const savedSearchesSlice = createSlice({
+  name: 'savedSearches',
+  initialState,
+  reducers: {
+    setActiveSavedSearchId: (state, action) => {
+      state.activeSavedSearchId = action.payload;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchSavedSearches.pending, (state) => {
+        state.status = 'loading';
+      })
+      .addCase(fetchSavedSearches.fulfilled, (state, action) => {
+        state.items = action.payload ?? [];
+        state.status = 'succeeded';
+        state.error = null;
+      })
+      .addCase(fetchSavedSearches.rejected, (state, action) => {
+        state.status = 'failed';
+        state.error = action.payload;
+      })
+      .addCase(createSavedSearch.fulfilled, (state, action) => {
+        state.items = upsert(state.items, action.payload);
+      })
+      .addCase(recordSavedSearchRun.fulfilled, (state, action) => {
+        state.items = upsert(state.items, action.payload);
+      })
+      .addCase(deleteSavedSearch.fulfilled, (state, action) => {
+        state.items = state.items.filter((item) => item.id !== action.payload);
+      })
+      .addCase(importSavedSearches.fulfilled, (state, action) => {
+        state.items = [...state.items, ...(action.payload?.imported ?? [])];
+      });
+  },
+});
+
+export const { setActiveSavedSearchId } = savedSearchesSlice.actions;
+
+export default savedSearchesSlice.reducer;
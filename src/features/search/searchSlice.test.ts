@@ -6,6 +6,7 @@ import searchReducer, {
   setSearchType,
   setSearchFilters,
   setSemanticSearch,
+  setSearchFiltersFromQuery,
   searchSlice,
 } from './searchSlice';
 
@@ -19,6 +20,7 @@ type SearchState = {
   isSearchFiltersOpen: boolean;
   isSideNavOpen: boolean;
   searchSubmitted: boolean;
+  searchFiltersFromQuery?: boolean;
 };
 
 describe('searchSlice', () => {
@@ -386,6 +388,20 @@ describe('searchSlice', () => {
     });
   });
 
+  describe('setSearchFiltersFromQuery Reducer', () => {
+    it('should default to false', () => {
+      expect(store.getState().search.searchFiltersFromQuery).toBe(false);
+    });
+
+    it('should mark filters as parsed from a query and reset the flag', () => {
+      store.dispatch(setSearchFiltersFromQuery(true));
+      expect(store.getState().search.searchFiltersFromQuery).toBe(true);
+
+      store.dispatch(setSearchFiltersFromQuery(false));
+      expect(store.getState().search.searchFiltersFromQuery).toBe(false);
+    });
+  });
+
   describe('Combined Actions', () => {
     it('should handle setting all state properties', () => {
       store.dispatch(setSearchTerm({ searchTerm: 'full test' }));
@@ -9,6 +9,7 @@ type searchState = {
   isSearchFiltersOpen: boolean;
   isSideNavOpen: boolean;
   searchSubmitted: boolean;
+  searchFiltersFromQuery?: boolean; // Filters were parsed from an advanced query typed in the SearchBar
 };
 
 const initialState : searchState = {
@@ -20,6 +21,7 @@ const initialState : searchState = {
   isSearchFiltersOpen: true,
   isSideNavOpen: true,
   searchSubmitted: false,
+  searchFiltersFromQuery: false,
 };
 
 export const searchSlice = createSlice({
@@ -50,9 +52,12 @@ export const searchSlice = createSlice({
     setSearchSubmitted: (state, action) => {
       state.searchSubmitted = action.payload;
     },
+    setSearchFiltersFromQuery: (state, action) => {
+      state.searchFiltersFromQuery = action.payload;
+    },
   },
 });
 
-export const { setSearchResult, setSearchTerm, setSearchType, setSearchFilters, setSemanticSearch, setSearchFiltersOpen, setSideNavOpen, setSearchSubmitted } = searchSlice.actions;
+export const { setSearchResult, setSearchTerm, setSearchType, setSearchFilters, setSemanticSearch, setSearchFiltersOpen, setSideNavOpen, setSearchSubmitted, setSearchFiltersFromQuery } = searchSlice.actions;
 
 export default searchSlice.reducer;
@@ -0,0 +1,112 @@
+import { configureStore } from '@reduxjs/toolkit';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import axios from 'axios';
+import searchExportReducer, { exportSearchResults, resetExport } from './searchExportSlice';
+import { configureDataplexClient, resetDataplexClient } from '../../api/dataplexClient';
+
+// Mock axios
+vi.mock('axios', async () => {
+  const actual = await vi.importActual<typeof import('axios')>('axios');
+  return {
+    ...actual,
+    default: {
+      post: vi.fn(),
+      isCancel: actual.default.isCancel,
+      defaults: {
+        headers: {
+          common: {} as Record<string, string>,
+        },
+      },
+    },
+  };
+});
+
+const mockedAxiosPost = axios.post as ReturnType<typeof vi.fn>;
+
+type ExportPayload = { results: unknown[]; truncated: boolean };
+
+const createStore = () => configureStore({ reducer: { searchExport: searchExportReducer } });
+
+const page = (from: number, count: number, nextPageToken: string, totalSize = 250) => ({
+  data: {
+    results: Array.from({ length: count }, (_, i) => ({ dataplexEntry: { name: `entry-${from + i}` } })),
+    nextPageToken,
+    totalSize,
+  },
+});
+
+describe('searchExportSlice', () => {
+  let store: ReturnType<typeof createStore>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetDataplexClient();
+    configureDataplexClient({ maxRetries: 0 });
+    store = createStore();
+  });
+
+  it('has the correct initial state', () => {
+    expect(store.getState().searchExport).toEqual({ status: 'idle', fetched: 0, total: 0, error: null });
+  });
+
+  it('follows nextPageToken until the last page', async () => {
+    mockedAxiosPost
+      .mockResolvedValueOnce(page(0, 100, 'p2'))
+      .mockResolvedValueOnce(page(100, 100, 'p3'))
+      .mockResolvedValueOnce(page(200, 50, ''));
+
+    const result = await store.dispatch(exportSearchResults({
+      id_token: 'token-123',
+      requestResourceData: { query: 'orders', pageSize: 20, pageToken: 'current', orderBy: 'relevance' },
+      maxResults: 1000,
+    }));
+
+    expect(mockedAxiosPost.mock.calls[0][2]).toMatchObject({ headers: { Authorization: 'Bearer token-123' } });
+    expect(mockedAxiosPost.mock.calls.map(([, body]) => body.pageToken)).toEqual(['', 'p2', 'p3']);
+    expect(mockedAxiosPost.mock.calls[0][1]).toEqual({ query: 'orders', pageSize: 100, pageToken: '', orderBy: 'relevance' });
+    expect((result.payload as ExportPayload).results).toHaveLength(250);
+    expect((result.payload as ExportPayload).truncated).toBe(false);
+    expect(store.getState().searchExport).toEqual({ status: 'succeeded', fetched: 250, total: 250, error: null });
+  });
+
+  it('stops at the cap', async () => {
+    mockedAxiosPost
+      .mockResolvedValueOnce(page(0, 100, 'p2', 5000))
+      .mockResolvedValueOnce(page(100, 100, 'p3', 5000))
+      .mockResolvedValueOnce(page(200, 100, 'p4', 5000))
+      .mockResolvedValueOnce(page(300, 100, 'p5', 5000))
+      .mockResolvedValueOnce(page(400, 100, 'p6', 5000));
+
+    const result = await store.dispatch(exportSearchResults({ requestResourceData: { query: 'orders' }, maxResults: 500 }));
+
+    expect(mockedAxiosPost).toHaveBeenCalledTimes(5);
+    expect((result.payload as ExportPayload).results).toHaveLength(500);
+    expect((result.payload as ExportPayload).truncated).toBe(true);
+    expect(store.getState().searchExport.total).toBe(500);
+  });
+
+  it('reports failures', async () => {
+    mockedAxiosPost.mockRejectedValueOnce(new Error('Network Error'));
+
+    await store.dispatch(exportSearchResults({ requestResourceData: { query: 'orders' } }));
+
+    expect(store.getState().searchExport.status).toBe('failed');
+    expect(store.getState().searchExport.error).toBe('An unknown error occurred');
+  });
+
+  it('can be cancelled', async () => {
+    mockedAxiosPost.mockImplementation((_url: string, _body?: unknown, config?: { signal?: AbortSignal }) => new Promise((_resolve, reject) => {
+      config?.signal?.addEventListener('abort', () => reject(Object.assign(new Error('canceled'), { name: 'CanceledError' })));
+    }));
+
+    const request = store.dispatch(exportSearchResults({ requestResourceData: { query: 'orders' } }));
+    request.abort();
+    await request;
+
+    expect(store.getState().searchExport.status).toBe('cancelled');
+    expect(store.getState().searchExport.error).toBeNull();
+
+    store.dispatch(resetExport());
+    expect(store.getState().searchExport.status).toBe('idle');
+  });
+});
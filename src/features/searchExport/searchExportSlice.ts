@@ -0,0 +1,107 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { dataplexClient, DataplexApiError } from '../../api/dataplexClient';
+import type { DataplexSearchRequest, DataplexSearchResult } from '../../api/dataplexClient';
+
+// Results requested per page while exporting (the search page also uses 100).
+export const SEARCH_EXPORT_PAGE_SIZE = 100;
+
+// Result caps offered in the export dialog; the last one is the hard limit.
+export const SEARCH_EXPORT_CAPS = [500, 1000, 5000, 10000];
+export const SEARCH_EXPORT_DEFAULT_CAP = 1000;
+
+export interface SearchExportRequest {
+  requestResourceData: DataplexSearchRequest;
+  maxResults?: number;
+  id_token?: string;
+}
+
+/**
+ * Re-runs the current search (`requestData.requestResourceData`, as kept in
+ * `resources.itemsRequestData`) from the first page and follows
+ * `nextPageToken` until there are no more pages or `requestData.maxResults`
+ * results were collected. Progress is reported through `setExportProgress`.
+ * Abort the returned promise to cancel; it then rejects with
+ * `{ aborted: true }`.
+ */
+export const exportSearchResults = createAsyncThunk('searchExport/exportSearchResults', async (requestData: SearchExportRequest, { rejectWithValue, signal, dispatch }) => {
+  const maxResults = Math.min(requestData.maxResults ?? SEARCH_EXPORT_DEFAULT_CAP, SEARCH_EXPORT_CAPS[SEARCH_EXPORT_CAPS.length - 1]);
+  const results: DataplexSearchResult[] = [];
+  let pageToken = '';
+  let total = 0;
+  try {
+    do {
+      const response = await dataplexClient.search.searchEntries(
+        {
+          ...requestData.requestResourceData,
+          pageSize: Math.min(SEARCH_EXPORT_PAGE_SIZE, maxResults - results.length),
+          pageToken,
+        },
+        { id_token: requestData.id_token, signal }
+      );
+      results.push(...(response?.results ?? []));
+      pageToken = response?.nextPageToken ?? '';
+      total = Math.max(response?.totalSize ?? 0, results.length);
+      dispatch(setExportProgress({ fetched: Math.min(results.length, maxResults), total: Math.min(total, maxResults) }));
+    } while (pageToken && results.length < maxResults);
+
+    // truncated: the cap was reached before the last page
+    return { results: results.slice(0, maxResults), truncated: !!pageToken };
+  } catch (error) {
+    if (error instanceof DataplexApiError && error.kind === 'aborted') {
+      return rejectWithValue({ aborted: true, message: 'Export cancelled' });
+    }
+    if (error instanceof DataplexApiError) {
+      return rejectWithValue((typeof error.data?.error === 'object' && error.data.error.message) || error.message);
+    }
+    return rejectWithValue('An unknown error occurred');
+  }
+});
+
+type SearchExportState = {
+  status: 'idle' | 'loading' | 'succeeded' | 'failed' | 'cancelled';
+  fetched: number;
+  total: number;
+  error: unknown;
+};
+
+const initialState: SearchExportState = {
+  status: 'idle',
+  fetched: 0,
+  total: 0,
+  error: null,
+};
+
+// Only the progress is kept here; the exported results go straight to the file.
+export const searchExportSlice = createSlice({
+  name: 'searchExport',
+  initialState,
+  reducers: {
+    setExportProgress: (state, action) => {
+      state.fetched = action.payload.fetched;
+      state.total = action.payload.total;
+    },
+    resetExport: () => initialState,
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(exportSearchResults.pending, (state) => {
+        state.status = 'loading';
+        state.fetched = 0;
+        state.total = 0;
+        state.error = null;
+      })
+      .addCase(exportSearchResults.fulfilled, (state) => {
+        state.status = 'succeeded';
+      })
+      .addCase(exportSearchResults.rejected, (state, action) => {
+        // abort() rejects right away, before the request's own rejection
+        const aborted = action.meta.aborted || (action.payload as { aborted?: boolean } | undefined)?.aborted;
+        state.status = aborted ? 'cancelled' : 'failed';
+        state.error = aborted ? null : action.payload;
+      });
+  },
+});
+
+export const { setExportProgress, resetExport } = searchExportSlice.actions;
+
+export default searchExportSlice.reducer;
@@ -1,10 +1,6 @@
 import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
-import axios, { AxiosError } from 'axios';
-import { mockInsightsData, type InsightJob, type InsightsResponse } from '../../mocks/insightsMockData';
-import { URLS } from '../../constants/urls';
-
-// Flag to use mock data during development (set to false when backend is ready)
-const USE_MOCK_DATA = false;
+import type { InsightJob, InsightsResponse } from '../../mocks/insightsMockData';
+import { dataplexClient, DataplexApiError } from '../../api/dataplexClient';
 
 export interface InsightData {
   jobs: InsightJob[];
@@ -55,38 +51,17 @@ export const fetchInsights = createAsyncThunk(
     }
 
     try {
-      let data: InsightsResponse;
-
-      if (USE_MOCK_DATA) {
-        // Simulate API delay
-        await new Promise((resolve) => setTimeout(resolve, 500));
-        data = mockInsightsData;
-      } else {
-        // Real API call
-        axios.defaults.headers.common['Authorization'] = requestData.id_token
-          ? `Bearer ${requestData.id_token}`
-          : '';
-
-        //const finalEntryName = `projects/${project}/locations/${location}/dataProducts/${requestData.dataProductId.split('/').pop()}`;
-    
-        const response = await axios.get(
-            URLS.API_URL + URLS.GET_SCAN_JOBS + `?parent=${requestData.scanName}`
-            //`https://dataplex.googleapis.com/v1/${requestData.scanName}/jobs`
-        );
-
-        let res = response.data;
-        console.log('API response for insights:', res);
-        let insights = res.map((job: any) => {
-          return job.full_details ? job.full_details : job;
-        });
-
-        data = { insights: insights };
-      }
+      const res = await dataplexClient.scans.listJobs(requestData.scanName, { id_token: requestData.id_token });
+      console.log('API response for insights:', res);
+      let insights = res.map((job: any) => {
+        return job.full_details ? job.full_details : job;
+      });
+      const data: InsightsResponse = { insights: insights };
 
       return { resourceId: requestData.resourceId, data: data.insights };
     } catch (error) {
-      if (error instanceof AxiosError) {
-        return rejectWithValue(error.response?.data || error.message);
+      if (error instanceof DataplexApiError) {
+        return rejectWithValue(error.data || error.message);
       }
       return rejectWithValue('An unknown error occurred');
     }
@@ -5,6 +5,8 @@ import userReducer, {
   setCredentials,
   setToken,
   changeMode,
+  setThemePreference,
+  setSystemThemeMode,
 } from "./userSlice";
 
 // ==========================================================================
@@ -72,6 +74,7 @@ interface UserState {
   token: string | null;
   userData: Record<string, unknown> | null;
   mode: string;
+  themePreference?: string;
 }
 
 const createTestStore = (preloadedState?: Partial<UserState>) => {
@@ -89,7 +92,8 @@ const createTestStore = (preloadedState?: Partial<UserState>) => {
 const getInitialState = () => ({
   token: null,
   userData: null,
-  mode: "light",
+  mode: "light" as const,
+  themePreference: "light" as const,
 });
 
 // ==========================================================================
@@ -375,6 +379,49 @@ describe("userSlice", () => {
     });
   });
 
+  // ==========================================================================
+  // setThemePreference / setSystemThemeMode
+  // ==========================================================================
+
+  describe("setThemePreference", () => {
+    const mockSystemMode = (mode: "light" | "dark") => {
+      window.matchMedia = vi.fn().mockReturnValue({ matches: mode === "dark" }) as unknown as typeof window.matchMedia;
+    };
+
+    it("resolves 'system' from the OS setting and stores only the preference", () => {
+      mockSystemMode("dark");
+      const store = createTestStore({ mode: "light", themePreference: "light" });
+
+      store.dispatch(setThemePreference("system"));
+
+      expect(store.getState().user).toMatchObject({ mode: "dark", themePreference: "system" });
+      expect(localStorageMock.setItem).toHaveBeenCalledWith("themePreference", "system");
+      expect(localStorageMock.setItem).not.toHaveBeenCalledWith("mode", expect.anything());
+    });
+
+    it("follows OS changes only while the preference is 'system'", () => {
+      mockSystemMode("light");
+      const store = createTestStore({ mode: "light", themePreference: "system" });
+
+      store.dispatch(setSystemThemeMode("dark"));
+      expect(store.getState().user.mode).toBe("dark");
+
+      store.dispatch(setThemePreference("light"));
+      store.dispatch(setSystemThemeMode("dark"));
+      expect(store.getState().user.mode).toBe("light");
+      expect(localStorageMock.removeItem).toHaveBeenCalledWith("themePreference");
+      expect(localStorageMock.setItem).toHaveBeenCalledWith("mode", "light");
+    });
+
+    it("changeMode turns an explicit choice back on", () => {
+      const store = createTestStore({ mode: "dark", themePreference: "system" });
+
+      store.dispatch(changeMode());
+
+      expect(store.getState().user).toMatchObject({ mode: "light", themePreference: "light" });
+    });
+  });
+
   // ==========================================================================
   // Reducer Direct Tests
   // ==========================================================================
@@ -710,7 +757,8 @@ describe("userSlice", () => {
       expect(keys).toContain("token");
       expect(keys).toContain("userData");
       expect(keys).toContain("mode");
-      expect(keys.length).toBe(3);
+      expect(keys).toContain("themePreference");
+      expect(keys.length).toBe(4);
     });
   });
 
@@ -839,25 +887,25 @@ describe("userSlice", () => {
     });
 
     it("reducer handles setCredentials action", () => {
-      const state = { token: null, userData: null, mode: "light" };
+      const state = { token: null, userData: null, mode: "light" as const, themePreference: "light" as const };
       const newState = userSlice.reducer(state, setCredentials(mockCredentials));
       expect(newState.token).toBe(mockToken);
     });
 
     it("reducer handles setToken action", () => {
-      const state = { token: null, userData: null, mode: "light" };
+      const state = { token: null, userData: null, mode: "light" as const, themePreference: "light" as const };
       const newState = userSlice.reducer(state, setToken("test-token"));
       expect(newState.token).toBe("test-token");
     });
 
     it("reducer handles changeMode action - light to dark", () => {
-      const state = { token: null, userData: null, mode: "light" };
+      const state = { token: null, userData: null, mode: "light" as const, themePreference: "light" as const };
       const newState = userSlice.reducer(state, changeMode());
       expect(newState.mode).toBe("dark");
     });
 
     it("reducer handles changeMode action - dark to light", () => {
-      const state = { token: null, userData: null, mode: "dark" };
+      const state = { token: null, userData: null, mode: "dark" as const, themePreference: "dark" as const };
       const newState = userSlice.reducer(state, changeMode());
       expect(newState.mode).toBe("light");
     });
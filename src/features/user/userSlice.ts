@@ -1,9 +1,34 @@
-import { createSlice } from '@reduxjs/toolkit';
+import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
+import type { User } from '../../types/User';
+
+export type ThemeMode = 'light' | 'dark';
+// 'system' follows the operating system's light/dark setting
+export type ThemePreference = ThemeMode | 'system';
+
+const prefersDarkQuery = '(prefers-color-scheme: dark)';
+
+export const getSystemThemeMode = (): ThemeMode =>
+  typeof window !== 'undefined' && window.matchMedia?.(prefersDarkQuery).matches ? 'dark' : 'light';
+
+export const subscribeToSystemThemeMode = (onChange: (mode: ThemeMode) => void) => {
+  const query = typeof window !== 'undefined' ? window.matchMedia?.(prefersDarkQuery) : undefined;
+  if (!query) return () => {};
+  const handleChange = (event: MediaQueryListEvent) => onChange(event.matches ? 'dark' : 'light');
+  query.addEventListener('change', handleChange);
+  return () => query.removeEventListener('change', handleChange);
+};
+
+// 'mode' keeps the last explicit choice; 'themePreference' is only stored as 'system'
+const initialPreference: ThemePreference = localStorage.getItem('themePreference') === 'system'
+  ? 'system'
+  : localStorage.getItem('mode') === 'dark' ? 'dark' : 'light';
 
 const initialState = {
-  token: null,
-  userData: null,
-  mode: localStorage.getItem('mode') || 'light',
+  token: null as string | null,
+  userData: null as User | null,
+  // The mode in effect; with the 'system' preference it tracks the OS setting
+  mode: (initialPreference === 'system' ? getSystemThemeMode() : initialPreference) as ThemeMode,
+  themePreference: initialPreference,
 };
 
 export const userSlice = createSlice({
@@ -25,10 +50,28 @@ export const userSlice = createSlice({
         state.mode = 'light';
         localStorage.setItem('mode', 'light');
       }
+      state.themePreference = state.mode;
+      localStorage.removeItem('themePreference');
+    },
+    setThemePreference: (state, action: PayloadAction<ThemePreference>) => {
+      state.themePreference = action.payload;
+      if (action.payload === 'system') {
+        state.mode = getSystemThemeMode();
+        localStorage.setItem('themePreference', 'system');
+      } else {
+        state.mode = action.payload;
+        localStorage.setItem('mode', action.payload);
+        localStorage.removeItem('themePreference');
+      }
+    },
+    // Dispatched when the OS setting changes; ignored unless following the system
+    setSystemThemeMode: (state, action: PayloadAction<ThemeMode>) => {
+      if (state.themePreference !== 'system') return;
+      state.mode = action.payload;
     },
   },
 });
 
-export const { setCredentials, setToken, changeMode } = userSlice.actions;
+export const { setCredentials, setToken, changeMode, setThemePreference, setSystemThemeMode } = userSlice.actions;
 
 export default userSlice.reducer;
@@ -0,0 +1,242 @@
+import { configureStore } from '@reduxjs/toolkit';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import axios from 'axios';
+import watchlistReducer, {
+  checkWatchlist,
+  clearInbox,
+  fetchWatchlist,
+  markInboxRead,
+  resetWatchlist,
+  type WatchlistInboxItem,
+} from './watchlistSlice';
+import { resetDataplexClient } from '../../api/dataplexClient';
+import dataScanReducer from '../dataScan/dataScanSlice';
+import favoritesReducer, { type FavoriteStatus } from '../favorites/favoritesSlice';
+import { createWatchSnapshot } from '../../utils/watchlistDiff';
+
+// Mock axios
+vi.mock('axios', async () => {
+  const actual = await vi.importActual('axios');
+  return {
+    ...actual,
+    default: {
+      get: vi.fn(),
+      post: vi.fn(),
+      delete: vi.fn(),
+      defaults: {
+        headers: {
+          common: {} as Record<string, string>,
+        },
+      },
+    },
+  };
+});
+
+// Mock URLS
+vi.mock('../../constants/urls', () => ({
+  URLS: {
+    API_URL: 'http://localhost:3000/api/v1',
+    WATCHLIST: '/watchlist',
+    GET_ENTRY: '/get-entry',
+    GET_ALL_DATA_SCANS: '/data-scans',
+    GET_DATA_SCAN: '/get-data-scan',
+  },
+}));
+
+const mockedAxiosGet = axios.get as ReturnType<typeof vi.fn>;
+const mockedAxiosPost = axios.post as ReturnType<typeof vi.fn>;
+const mockedAxiosDelete = axios.delete as ReturnType<typeof vi.fn>;
+
+const ENTRY_NAME = 'projects/p/locations/us/entryGroups/@bigquery/entries/orders';
+const RESOURCE = 'projects/p/datasets/sales/tables/orders';
+const SCAN_NAME = 'projects/p/locations/us/dataScans/orders-dq';
+
+const field = (name: string, dataType: string) => ({
+  structValue: { fields: { name: { stringValue: name }, dataType: { stringValue: dataType }, mode: { stringValue: 'NULLABLE' } } },
+});
+
+const makeEntry = (fields: ReturnType<typeof field>[]) => ({
+  name: ENTRY_NAME,
+  entryType: 'projects/1/locations/global/entryTypes/bigquery-table',
+  updateTime: '2024-05-01T00:00:00Z',
+  entrySource: { displayName: 'orders', resource: RESOURCE },
+  aspects: { '1.global.schema': { data: { fields: { fields: { listValue: { values: fields } } } } } },
+});
+
+const makeItem = (id: string, overrides: Partial<WatchlistInboxItem> = {}): WatchlistInboxItem => ({
+  id,
+  entryName: ENTRY_NAME,
+  displayName: 'orders',
+  changes: [{ kind: 'dqScoreChanged', from: 95, to: 80 }],
+  detectedAt: '2024-05-01T00:00:00Z',
+  read: false,
+  ...overrides,
+});
+
+const createStore = (favoriteStatus: FavoriteStatus = 'available') => configureStore({
+  reducer: { watchlist: watchlistReducer, dataScan: dataScanReducer, favorites: favoritesReducer },
+  preloadedState: {
+    favorites: {
+      items: [{ entryName: ENTRY_NAME, owner: 'a@example.com', entry: null, addedAt: '', status: favoriteStatus, checkedAt: null }],
+      status: 'succeeded' as const,
+      error: null,
+      refreshStatus: 'idle' as const,
+      loadingRequestId: null,
+    },
+  },
+});
+
+// Answers the entry, data scan list and data scan requests made by checkWatchlist.
+const mockCatalog = (entry: ReturnType<typeof makeEntry>, score: number) => {
+  mockedAxiosGet.mockImplementation((url: string) => {
+    if (url.includes('/get-entry')) return Promise.resolve({ data: entry });
+    if (url.includes('/data-scans')) {
+      return Promise.resolve({ data: [{ name: SCAN_NAME, type: 'DATA_QUALITY', data: { resource: `//bigquery.googleapis.com/${RESOURCE}` } }] });
+    }
+    if (url.includes('/get-data-scan')) {
+      return Promise.resolve({ data: { scan: {}, jobs: [{ dataQualityResult: { score } }] } });
+    }
+    return Promise.reject(new Error(`Unexpected request ${url}`));
+  });
+};
+
+describe('watchlistSlice', () => {
+  let store: ReturnType<typeof createStore>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetDataplexClient();
+    store = createStore();
+  });
+
+  it('has the correct initial state', () => {
+    expect(store.getState().watchlist).toEqual({
+      inbox: [],
+      snapshots: [],
+      status: 'idle',
+      checkStatus: 'idle',
+      lastCheckedAt: null,
+      error: null,
+      loadingRequestId: null,
+      checkRequestId: null,
+    });
+  });
+
+  describe('resetWatchlist', () => {
+    it('forgets the inbox and snapshots of the user who signed out', async () => {
+      mockedAxiosGet.mockResolvedValueOnce({ data: { snapshots: [createWatchSnapshot(makeEntry([]), null)], inbox: [makeItem('1')] } });
+      await store.dispatch(fetchWatchlist({ id_token: 'token-123' }));
+
+      store.dispatch(resetWatchlist());
+
+      expect(store.getState().watchlist.inbox).toEqual([]);
+      expect(store.getState().watchlist.snapshots).toEqual([]);
+      expect(store.getState().watchlist.status).toBe('idle');
+    });
+
+    it('drops a check that finishes after the user signed out', async () => {
+      mockCatalog(makeEntry([field('id', 'INT64')]), 95);
+      let resolve: (value: unknown) => void = () => {};
+      mockedAxiosPost.mockReturnValueOnce(new Promise((r) => { resolve = r; }));
+      const pending = store.dispatch(checkWatchlist({ id_token: 'token-123' }));
+      await vi.waitFor(() => expect(mockedAxiosPost).toHaveBeenCalled());
+
+      store.dispatch(resetWatchlist());
+      resolve({ data: [makeItem('1')] });
+      await pending;
+
+      expect(store.getState().watchlist.snapshots).toEqual([]);
+      expect(store.getState().watchlist.inbox).toEqual([]);
+      expect(store.getState().watchlist.checkStatus).toBe('idle');
+    });
+  });
+
+  it('loads the snapshots and the inbox', async () => {
+    mockedAxiosGet.mockResolvedValueOnce({ data: { snapshots: [], inbox: [makeItem('1')] } });
+
+    await store.dispatch(fetchWatchlist({ id_token: 'token-123' }));
+
+    expect(mockedAxiosGet).toHaveBeenCalledWith('http://localhost:3000/api/v1/watchlist', { headers: { Authorization: 'Bearer token-123' } });
+    expect(axios.defaults.headers.common['Authorization']).toBeUndefined();
+    expect(store.getState().watchlist.inbox).toHaveLength(1);
+    expect(store.getState().watchlist.status).toBe('succeeded');
+  });
+
+  describe('checkWatchlist', () => {
+    it('only stores a snapshot for a favorite seen for the first time', async () => {
+      mockCatalog(makeEntry([field('id', 'INT64')]), 95);
+      mockedAxiosPost.mockResolvedValueOnce({ data: [] });
+
+      await store.dispatch(checkWatchlist({ id_token: 'token-123' }));
+
+      const [url, body] = mockedAxiosPost.mock.calls[0];
+      expect(url).toBe('http://localhost:3000/api/v1/watchlist/check');
+      expect(body.items).toEqual([]);
+      expect(body.snapshots).toEqual([createWatchSnapshot(makeEntry([field('id', 'INT64')]), 95)]);
+      expect(store.getState().watchlist.lastCheckedAt).not.toBeNull();
+    });
+
+    it('reports the changes since the previous snapshot', async () => {
+      mockedAxiosGet.mockResolvedValueOnce({
+        data: { snapshots: [createWatchSnapshot(makeEntry([field('id', 'INT64')]), 95)], inbox: [] },
+      });
+      await store.dispatch(fetchWatchlist({ id_token: 'token-123' }));
+      mockCatalog(makeEntry([field('id', 'STRING')]), 80);
+      mockedAxiosPost.mockImplementationOnce((_url: string, body: { items: Pick<WatchlistInboxItem, 'entryName' | 'displayName' | 'changes'>[] }) =>
+        Promise.resolve({ data: body.items.map((item, i) => ({ ...item, id: `${i}`, detectedAt: '', read: false })) })
+      );
+
+      await store.dispatch(checkWatchlist({ id_token: 'token-123' }));
+
+      expect(store.getState().watchlist.inbox[0].changes).toEqual([
+        { kind: 'schemaFieldChanged', subject: 'id', from: 'INT64, NULLABLE', to: 'STRING, NULLABLE' },
+        { kind: 'dqScoreChanged', from: 95, to: 80 },
+      ]);
+      expect(store.getState().dataScan.scans[SCAN_NAME].data.jobs[0].dataQualityResult.score).toBe(80);
+    });
+
+    it('keeps the previous snapshot when an entry cannot be read', async () => {
+      const previous = createWatchSnapshot(makeEntry([field('id', 'INT64')]), 95);
+      mockedAxiosGet.mockResolvedValueOnce({ data: { snapshots: [previous], inbox: [] } });
+      await store.dispatch(fetchWatchlist({ id_token: 'token-123' }));
+      mockedAxiosGet.mockRejectedValue(new Error('Network Error'));
+      mockedAxiosPost.mockResolvedValueOnce({ data: [] });
+
+      await store.dispatch(checkWatchlist({ id_token: 'token-123' }));
+
+      expect(mockedAxiosPost.mock.calls[0][1]).toEqual({ snapshots: [previous], items: [] });
+    });
+
+    it('skips deleted favorites', async () => {
+      store = createStore('deleted');
+      mockedAxiosPost.mockResolvedValueOnce({ data: [] });
+
+      await store.dispatch(checkWatchlist({ id_token: 'token-123' }));
+
+      expect(mockedAxiosGet).not.toHaveBeenCalled();
+      expect(mockedAxiosPost.mock.calls[0][1]).toEqual({ snapshots: [], items: [] });
+    });
+  });
+
+  it('marks inbox items read', async () => {
+    mockedAxiosGet.mockResolvedValueOnce({ data: { snapshots: [], inbox: [makeItem('1'), makeItem('2')] } });
+    await store.dispatch(fetchWatchlist({ id_token: 'token-123' }));
+    mockedAxiosPost.mockResolvedValueOnce({ data: [makeItem('1', { read: true }), makeItem('2')] });
+
+    await store.dispatch(markInboxRead({ id_token: 'token-123', ids: ['1'] }));
+
+    expect(mockedAxiosPost).toHaveBeenCalledWith('http://localhost:3000/api/v1/watchlist/inbox/read', { ids: ['1'] }, { headers: { Authorization: 'Bearer token-123' } });
+    expect(store.getState().watchlist.inbox.map((item) => item.read)).toEqual([true, false]);
+  });
+
+  it('clears the inbox', async () => {
+    mockedAxiosGet.mockResolvedValueOnce({ data: { snapshots: [], inbox: [makeItem('1')] } });
+    await store.dispatch(fetchWatchlist({ id_token: 'token-123' }));
+    mockedAxiosDelete.mockResolvedValueOnce({ data: [] });
+
+    await store.dispatch(clearInbox({ id_token: 'token-123' }));
+
+    expect(mockedAxiosDelete).toHaveBeenCalledWith('http://localhost:3000/api/v1/watchlist/inbox', { headers: { Authorization: 'Bearer token-123' } });
+    expect(store.getState().watchlist.inbox).toEqual([]);
+  });
+});
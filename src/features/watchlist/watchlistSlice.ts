@@ -0,0 +1,227 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { URLS } from '../../constants/urls';
+import { dataplexClient, DataplexApiError, type DataScanResource, type DataplexEntry } from '../../api/dataplexClient';
+import type { RootState } from '../../app/store';
+import { clearScanData, fetchDataScan } from '../dataScan/dataScanSlice';
+import type { Favorite } from '../favorites/favoritesSlice';
+import {
+  createWatchSnapshot,
+  diffWatchSnapshots,
+  getDataQualityScore,
+  type WatchChange,
+  type WatchSnapshot,
+} from '../../utils/watchlistDiff';
+
+// A change report for one favorite, kept in the Navbar inbox until cleared.
+export type WatchlistInboxItem = {
+  id: string;
+  entryName: string;
+  displayName: string;
+  changes: WatchChange[];
+  detectedAt: string;
+  read: boolean;
+};
+
+// Favorites looked up in parallel per batch by checkWatchlist.
+const WATCHLIST_CHECK_BATCH_SIZE = 5;
+
+// fetchDataScan reuses scan data younger than this; older data is refetched.
+const DATA_SCAN_MAX_AGE_MS = 5 * 60 * 1000;
+
+const rejectWithError = <R>(error: unknown, rejectWithValue: (value: unknown) => R): R => {
+  if (error instanceof DataplexApiError) {
+    return rejectWithValue(error.data?.error || error.data || error.message);
+  }
+  return rejectWithValue('An unknown error occurred');
+};
+
+export const fetchWatchlist = createAsyncThunk('watchlist/fetchWatchlist', async (requestData: { id_token: string }, { rejectWithValue }) => {
+  try {
+    return await dataplexClient.backend.get<{ snapshots: WatchSnapshot[]; inbox: WatchlistInboxItem[] }>(
+      URLS.WATCHLIST, undefined, { id_token: requestData.id_token }
+    );
+  } catch (error) {
+    return rejectWithError(error, rejectWithValue);
+  }
+});
+
+/**
+ * Snapshots every favorite that still exists, diffs it against the snapshot
+ * of the previous check and stores the new snapshots and the changes on the
+ * backend. The data quality score comes from `dataScanSlice`. A favorite that
+ * cannot be read keeps its previous snapshot; a favorite seen for the first
+ * time only gets a snapshot. Resolves to the inbox items that were added.
+ */
+export const checkWatchlist = createAsyncThunk('watchlist/checkWatchlist', async (requestData: { id_token: string }, { rejectWithValue, getState, dispatch }) => {
+  const id_token = requestData.id_token;
+  const state = getState() as RootState;
+  const favorites: Favorite[] = (state.favorites?.items ?? []).filter((favorite) => favorite.status !== 'deleted');
+  const previous = new Map<string, WatchSnapshot>(
+    (state.watchlist?.snapshots ?? []).map((snapshot) => [snapshot.entryName, snapshot])
+  );
+  // Data scans are listed once per project; not through fetchAllDataScans,
+  // which would replace the scans of the entry the user is looking at.
+  const scansByProject = new Map<string, Promise<DataScanResource[]>>();
+  const listScans = (project: string) => {
+    if (!scansByProject.has(project)) {
+      scansByProject.set(project, dataplexClient.scans.list(project, { id_token })
+        .then((scans) => scans ?? [])
+        .catch(() => []));
+    }
+    return scansByProject.get(project)!;
+  };
+
+  const getScore = async (entry: DataplexEntry): Promise<number | null> => {
+    const resource = entry.entrySource?.resource;
+    if (!resource) return null;
+    // e.g. "//bigquery.googleapis.com/projects/<project>/datasets/..."
+    const project = /(?:^|\/)projects\/([^/]+)/.exec(resource)?.[1] ?? '';
+    const scans = await listScans(project);
+    const dqScan = scans.find((scan) => scan.data?.resource?.includes(resource) && scan.type === 'DATA_QUALITY');
+    if (!dqScan) return null;
+    const cached = (getState() as RootState).dataScan.scans[dqScan.name];
+    if (cached?.data && Date.now() - cached.lastFetched >= DATA_SCAN_MAX_AGE_MS) {
+      dispatch(clearScanData(dqScan.name));
+    }
+    await dispatch(fetchDataScan({ name: dqScan.name, id_token }));
+    return getDataQualityScore((getState() as RootState).dataScan.scans[dqScan.name]?.data);
+  };
+
+  const snapshotFavorite = async (favorite: Favorite): Promise<WatchSnapshot | null> => {
+    try {
+      // Skip the client cache: the point is to see what changed since the last check
+      const entry = await dataplexClient.entries.get(favorite.entryName, { id_token, fresh: true });
+      return createWatchSnapshot(entry, await getScore(entry));
+    } catch {
+      return previous.get(favorite.entryName) ?? null;
+    }
+  };
+
+  try {
+    const snapshots: WatchSnapshot[] = [];
+    for (let i = 0; i < favorites.length; i += WATCHLIST_CHECK_BATCH_SIZE) {
+      const batch = await Promise.all(favorites.slice(i, i + WATCHLIST_CHECK_BATCH_SIZE).map(snapshotFavorite));
+      batch.forEach((snapshot) => { if (snapshot) snapshots.push(snapshot); });
+    }
+    const items = snapshots
+      .filter((snapshot) => previous.has(snapshot.entryName))
+      .map((snapshot) => ({
+        entryName: snapshot.entryName,
+        displayName: snapshot.displayName,
+        changes: diffWatchSnapshots(previous.get(snapshot.entryName)!, snapshot),
+      }))
+      .filter((item) => item.changes.length > 0);
+
+    const added = await dataplexClient.backend.post<WatchlistInboxItem[]>(`${URLS.WATCHLIST}/check`, { snapshots, items }, { id_token });
+    return { snapshots, items: added };
+  } catch (error) {
+    return rejectWithError(error, rejectWithValue);
+  }
+}, {
+  // One check at a time, e.g. when the Layout remounts on navigation
+  condition: (_requestData, { getState }) => (getState() as RootState).watchlist?.checkStatus !== 'loading',
+});
+
+// Marks `requestData.ids` (all items when omitted) as read.
+export const markInboxRead = createAsyncThunk('watchlist/markInboxRead', async (requestData: { id_token: string; ids?: string[] }, { rejectWithValue }) => {
+  try {
+    return await dataplexClient.backend.post<WatchlistInboxItem[]>(
+      `${URLS.WATCHLIST}/inbox/read`, { ids: requestData.ids }, { id_token: requestData.id_token }
+    );
+  } catch (error) {
+    return rejectWithError(error, rejectWithValue);
+  }
+});
+
+export const clearInbox = createAsyncThunk('watchlist/clearInbox', async (requestData: { id_token: string }, { rejectWithValue }) => {
+  try {
+    await dataplexClient.backend.delete(`${URLS.WATCHLIST}/inbox`, undefined, { id_token: requestData.id_token });
+    return [] as WatchlistInboxItem[];
+  } catch (error) {
+    return rejectWithError(error, rejectWithValue);
+  }
+});
+
+type WatchlistState = {
+  inbox: WatchlistInboxItem[];
+  snapshots: WatchSnapshot[];
+  status: 'idle' | 'loading' | 'succeeded' | 'failed';
+  checkStatus: 'idle' | 'loading' | 'succeeded' | 'failed';
+  lastCheckedAt: number | null;
+  error: unknown;
+  // Latest fetchWatchlist and checkWatchlist; results of earlier ones (e.g. of
+  // the user who signed out) are dropped
+  loadingRequestId: string | null;
+  checkRequestId: string | null;
+};
+
+const initialState: WatchlistState = {
+  inbox: [],
+  snapshots: [],
+  status: 'idle',
+  checkStatus: 'idle',
+  lastCheckedAt: null,
+  error: null,
+  loadingRequestId: null,
+  checkRequestId: null,
+};
+
+export const watchlistSlice = createSlice({
+  name: 'watchlist',
+  initialState,
+  reducers: {
+    // On sign-out, so the next user neither sees this inbox nor checks these snapshots
+    resetWatchlist: () => initialState,
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchWatchlist.pending, (state, action) => {
+        state.status = 'loading';
+        state.loadingRequestId = action.meta.requestId;
+      })
+      .addCase(fetchWatchlist.fulfilled, (state, action) => {
+        if (action.meta.requestId !== state.loadingRequestId) return;
+        state.snapshots = action.payload?.snapshots ?? [];
+        state.inbox = action.payload?.inbox ?? [];
+        state.status = 'succeeded';
+        state.error = null;
+      })
+      .addCase(fetchWatchlist.rejected, (state, action) => {
+        if (action.meta.requestId !== state.loadingRequestId) return;
+        state.status = 'failed';
+        state.error = action.payload;
+      })
+      .addCase(checkWatchlist.pending, (state, action) => {
+        state.checkStatus = 'loading';
+        state.checkRequestId = action.meta.requestId;
+      })
+      .addCase(checkWatchlist.fulfilled, (state, action) => {
+        if (action.meta.requestId !== state.checkRequestId) return;
+        state.snapshots = action.payload.snapshots;
+        state.inbox = [...action.payload.items, ...state.inbox];
+        state.checkStatus = 'succeeded';
+        state.lastCheckedAt = Date.now();
+      })
+      .addCase(checkWatchlist.rejected, (state, action) => {
+        if (action.meta.requestId !== state.checkRequestId) return;
+        // Retried on the next poll
+        state.checkStatus = 'failed';
+        state.lastCheckedAt = Date.now();
+        state.error = action.payload;
+      })
+      .addCase(markInboxRead.pending, (state, action) => {
+        const ids: string[] | undefined = action.meta.arg.ids;
+        state.inbox = state.inbox.map((item) => (!ids || ids.includes(item.id) ? { ...item, read: true } : item));
+      })
+      .addCase(markInboxRead.fulfilled, (state, action) => {
+        state.inbox = action.payload ?? [];
+      })
+      .addCase(clearInbox.fulfilled, (state) => {
+        state.inbox = [];
+      });
+  },
+});
+
+export const { resetWatchlist } = watchlistSlice.actions;
+
+export default watchlistSlice.reducer;
@@ -1,14 +1,15 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { renderHook, act, waitFor } from '@testing-library/react';
+import type { Favorite } from '../features/favorites/favoritesSlice';
 
 // ============================================================================
 // MOCK SETUP - Use vi.hoisted to create mock functions available during hoisting
 // ============================================================================
 const {
   mockCheckAndHandleAuthError,
-  mockIsFavorite,
-  mockSetFavorite,
-  mockToggleFavorite,
+  mockDispatch,
+  mockFavoritesState,
+  mockWatchlistState,
   mockAxiosGet,
   mockUseAuth,
   mockUseNotification,
@@ -17,9 +18,9 @@ const {
   mockSetAuthNotificationShown,
 } = vi.hoisted(() => ({
   mockCheckAndHandleAuthError: vi.fn(),
-  mockIsFavorite: vi.fn(),
-  mockSetFavorite: vi.fn(),
-  mockToggleFavorite: vi.fn(),
+  mockDispatch: vi.fn(),
+  mockFavoritesState: { items: [] as Favorite[], status: 'idle' },
+  mockWatchlistState: { status: 'idle', lastCheckedAt: null as number | null },
   mockAxiosGet: vi.fn(),
   mockUseAuth: vi.fn(),
   mockUseNotification: vi.fn(),
@@ -35,11 +36,24 @@ vi.mock('../services/authErrorService', () => ({
   setAuthNotificationShown: (shown: boolean) => mockSetAuthNotificationShown(shown),
 }));
 
-// Mock favoriteUtils
-vi.mock('../utils/favoriteUtils', () => ({
-  isFavorite: (entryName: string) => mockIsFavorite(entryName),
-  setFavorite: (entryName: string, status: boolean) => mockSetFavorite(entryName, status),
-  toggleFavorite: (entryName: string) => mockToggleFavorite(entryName),
+// Mock react-redux
+vi.mock('react-redux', () => ({
+  useDispatch: () => mockDispatch,
+  useSelector: (selector: (state: unknown) => unknown) => selector({ favorites: mockFavoritesState, watchlist: mockWatchlistState }),
+}));
+
+// Mock favoritesSlice
+vi.mock('../features/favorites/favoritesSlice', () => ({
+  addFavorite: (params: unknown) => ({ type: 'favorites/addFavorite', payload: params }),
+  removeFavorite: (params: unknown) => ({ type: 'favorites/removeFavorite', payload: params }),
+  fetchFavorites: (params: unknown) => ({ type: 'favorites/fetchFavorites', payload: params }),
+  migrateLegacyFavorites: (params: unknown) => ({ type: 'favorites/migrateLegacyFavorites', payload: params }),
+}));
+
+// Mock watchlistSlice
+vi.mock('../features/watchlist/watchlistSlice', () => ({
+  fetchWatchlist: (params: unknown) => ({ type: 'watchlist/fetchWatchlist', payload: params }),
+  checkWatchlist: (params: unknown) => ({ type: 'watchlist/checkWatchlist', payload: params }),
 }));
 
 // Mock axios - import the actual AxiosError class to maintain instanceof checks
@@ -90,10 +104,12 @@ import { useAuthError } from './useAuthError';
 import useBoolean from './useBoolean';
 import useDebounce from './useDebounce';
 import { useFavorite } from './useFavorite';
+import { useFavoritesSync } from './useFavoritesSync';
 import useFullScreenStatus from './useFullScreenStatus';
 import { usePreviewEntry } from './usePreviewEntry';
 import { useSessionExpiration } from './useSessionExpiration';
 import { useSessionManagement } from './useSessionManagement';
+import { useWatchlist, WATCHLIST_POLL_INTERVAL_MS } from './useWatchlist';
 
 // ============================================================================
 // Mock localStorage
@@ -549,119 +565,87 @@ describe('useDebounce', () => {
 // useFavorite Tests
 // ============================================================================
 describe('useFavorite', () => {
+  const favorite: Favorite = { entryName: 'test-entry', owner: 'test@example.com', entry: null, addedAt: '', status: 'available', checkedAt: null };
+
   beforeEach(() => {
     vi.clearAllMocks();
-    mockIsFavorite.mockReturnValue(false);
-    mockToggleFavorite.mockReturnValue(true);
+    mockFavoritesState.items = [];
   });
 
-  afterEach(() => {
-    vi.resetAllMocks();
-  });
-
-  it('should initialize with favorite status from localStorage', () => {
-    mockIsFavorite.mockReturnValue(true);
+  it('should be a favorite when the entry is in the loaded favorites', () => {
+    mockFavoritesState.items = [favorite];
 
     const { result } = renderHook(() => useFavorite('test-entry'));
 
-    expect(mockIsFavorite).toHaveBeenCalledWith('test-entry');
     expect(result.current.isFavorite).toBe(true);
   });
 
-  it('should initialize as not favorite when entry is not in favorites', () => {
-    mockIsFavorite.mockReturnValue(false);
+  it('should not be a favorite when the entry is not in the loaded favorites', () => {
+    mockFavoritesState.items = [{ ...favorite, entryName: 'other-entry' }];
 
     const { result } = renderHook(() => useFavorite('test-entry'));
 
     expect(result.current.isFavorite).toBe(false);
   });
 
-  it('should toggle favorite status', () => {
-    mockIsFavorite.mockReturnValue(false);
-    mockToggleFavorite.mockReturnValue(true);
-
-    const { result } = renderHook(() => useFavorite('test-entry'));
+  it('should add the entry when toggled on', () => {
+    const entry = { name: 'test-entry', entrySource: { displayName: 'Test' } };
+    const { result } = renderHook(() => useFavorite('test-entry', { entry, id_token: 'token-123' }));
 
+    let newStatus: boolean | undefined;
     act(() => {
-      const newStatus = result.current.toggleFavorite();
-      expect(newStatus).toBe(true);
+      newStatus = result.current.toggleFavorite();
     });
 
-    expect(mockToggleFavorite).toHaveBeenCalledWith('test-entry');
-    expect(result.current.isFavorite).toBe(true);
+    expect(newStatus).toBe(true);
+    expect(mockDispatch).toHaveBeenCalledWith({
+      type: 'favorites/addFavorite',
+      payload: { id_token: 'token-123', entry },
+    });
   });
 
-  it('should toggle favorite status from true to false', () => {
-    mockIsFavorite.mockReturnValue(true);
-    mockToggleFavorite.mockReturnValue(false);
-
-    const { result } = renderHook(() => useFavorite('test-entry'));
+  it('should remove the entry when toggled off', () => {
+    mockFavoritesState.items = [favorite];
+    const { result } = renderHook(() => useFavorite('test-entry', { id_token: 'token-123' }));
 
+    let newStatus: boolean | undefined;
     act(() => {
-      const newStatus = result.current.toggleFavorite();
-      expect(newStatus).toBe(false);
+      newStatus = result.current.toggleFavorite();
     });
 
-    expect(result.current.isFavorite).toBe(false);
+    expect(newStatus).toBe(false);
+    expect(mockDispatch).toHaveBeenCalledWith({
+      type: 'favorites/removeFavorite',
+      payload: { id_token: 'token-123', entryName: 'test-entry', favorite },
+    });
   });
 
-  it('should set favorite status directly', () => {
-    mockIsFavorite.mockReturnValue(false);
-
+  it('should send only the name when no entry is given', () => {
     const { result } = renderHook(() => useFavorite('test-entry'));
 
     act(() => {
       result.current.setFavorite(true);
     });
 
-    expect(mockSetFavorite).toHaveBeenCalledWith('test-entry', true);
-    expect(result.current.isFavorite).toBe(true);
-  });
-
-  it('should update when favoritesChanged event is dispatched for same entry', () => {
-    mockIsFavorite.mockReturnValue(false);
-
-    const { result } = renderHook(() => useFavorite('test-entry'));
-
-    expect(result.current.isFavorite).toBe(false);
-
-    act(() => {
-      window.dispatchEvent(
-        new CustomEvent('favoritesChanged', {
-          detail: { entryName: 'test-entry', isFavorite: true },
-        })
-      );
+    expect(mockDispatch).toHaveBeenCalledWith({
+      type: 'favorites/addFavorite',
+      payload: { id_token: undefined, entry: { name: 'test-entry' } },
     });
-
-    expect(result.current.isFavorite).toBe(true);
   });
 
-  it('should not update when favoritesChanged event is dispatched for different entry', () => {
-    mockIsFavorite.mockReturnValue(false);
-
+  it('should do nothing when the status does not change', () => {
+    mockFavoritesState.items = [favorite];
     const { result } = renderHook(() => useFavorite('test-entry'));
 
-    expect(result.current.isFavorite).toBe(false);
-
     act(() => {
-      window.dispatchEvent(
-        new CustomEvent('favoritesChanged', {
-          detail: { entryName: 'other-entry', isFavorite: true },
-        })
-      );
+      result.current.setFavorite(true);
     });
 
-    expect(result.current.isFavorite).toBe(false);
+    expect(mockDispatch).not.toHaveBeenCalled();
   });
 
   it('should update when entryName changes', () => {
-    // First call for initial render (useState initializer), second for useEffect
-    // Third and fourth for entry-2
-    mockIsFavorite
-      .mockReturnValueOnce(false)  // useState initializer for entry-1
-      .mockReturnValueOnce(false)  // useEffect for entry-1
-      .mockReturnValueOnce(true)   // useEffect for entry-2
-      .mockReturnValueOnce(true);  // additional calls
+    mockFavoritesState.items = [{ ...favorite, entryName: 'entry-2' }];
 
     const { result, rerender } = renderHook(
       ({ entryName }) => useFavorite(entryName),
@@ -676,21 +660,63 @@ describe('useFavorite', () => {
 
     expect(result.current.isFavorite).toBe(true);
   });
+});
 
-  it('should cleanup event listener on unmount', () => {
-    const removeEventListenerSpy = vi.spyOn(window, 'removeEventListener');
-    mockIsFavorite.mockReturnValue(false);
+// ============================================================================
+// useFavoritesSync Tests
+// ============================================================================
+describe('useFavoritesSync', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockFavoritesState.status = 'idle';
+    mockUseAuth.mockReturnValue({ user: { token: 'token-123' } });
+  });
 
-    const { unmount } = renderHook(() => useFavorite('test-entry'));
+  afterEach(() => {
+    mockFavoritesState.status = 'idle';
+  });
 
-    unmount();
+  it('should load the favorites, then import the legacy ones', async () => {
+    mockDispatch.mockReturnValue({ unwrap: () => Promise.resolve([]) });
 
-    expect(removeEventListenerSpy).toHaveBeenCalledWith(
-      'favoritesChanged',
-      expect.any(Function)
-    );
+    renderHook(() => useFavoritesSync());
 
-    removeEventListenerSpy.mockRestore();
+    await waitFor(() => {
+      expect(mockDispatch).toHaveBeenCalledWith({
+        type: 'favorites/migrateLegacyFavorites',
+        payload: { id_token: 'token-123' },
+      });
+    });
+    expect(mockDispatch.mock.calls[0][0]).toEqual({
+      type: 'favorites/fetchFavorites',
+      payload: { id_token: 'token-123' },
+    });
+  });
+
+  it('should not import the legacy favorites when loading fails', async () => {
+    mockDispatch.mockReturnValue({ unwrap: () => Promise.reject('Unauthorized') });
+
+    renderHook(() => useFavoritesSync());
+
+    await waitFor(() => expect(mockDispatch).toHaveBeenCalledTimes(1));
+    await Promise.resolve();
+    expect(mockDispatch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not load again once the favorites are loaded', () => {
+    mockFavoritesState.status = 'succeeded';
+
+    renderHook(() => useFavoritesSync());
+
+    expect(mockDispatch).not.toHaveBeenCalled();
+  });
+
+  it('should wait for a signed-in user', () => {
+    mockUseAuth.mockReturnValue({ user: null });
+
+    renderHook(() => useFavoritesSync());
+
+    expect(mockDispatch).not.toHaveBeenCalled();
   });
 });
 
@@ -1820,3 +1846,102 @@ describe('useSessionManagement', () => {
     expect(result.current.isWarningModalOpen).toBe(false);
   });
 });
+
+// ============================================================================
+// useWatchlist Tests
+// ============================================================================
+describe('useWatchlist', () => {
+  const mockShowNotification = vi.fn();
+  const inboxItem = {
+    id: '1',
+    entryName: 'projects/p/locations/us/entryGroups/g/entries/orders',
+    displayName: 'orders',
+    changes: [
+      { kind: 'schemaFieldAdded', subject: 'currency', to: 'STRING' },
+      { kind: 'dqScoreChanged', from: 95, to: 80 },
+    ],
+    detectedAt: '2024-05-01T00:00:00Z',
+    read: false,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockWatchlistState.status = 'succeeded';
+    mockWatchlistState.lastCheckedAt = null;
+    mockFavoritesState.status = 'succeeded';
+    mockUseAuth.mockReturnValue({ user: { token: 'token-123' } });
+    mockUseNotification.mockReturnValue({ showNotification: mockShowNotification });
+    mockDispatch.mockReturnValue({ unwrap: () => Promise.resolve({ snapshots: [], items: [] }) });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    mockWatchlistState.status = 'idle';
+    mockFavoritesState.status = 'idle';
+  });
+
+  it('should load the watchlist once per session', () => {
+    mockWatchlistState.status = 'idle';
+
+    renderHook(() => useWatchlist());
+
+    expect(mockDispatch).toHaveBeenCalledWith({
+      type: 'watchlist/fetchWatchlist',
+      payload: { id_token: 'token-123' },
+    });
+  });
+
+  it('should check the favorites on a visit and announce the changes', async () => {
+    mockDispatch.mockReturnValue({ unwrap: () => Promise.resolve({ snapshots: [], items: [inboxItem] }) });
+
+    renderHook(() => useWatchlist());
+
+    await waitFor(() => {
+      expect(mockShowNotification).toHaveBeenCalledWith(
+        'orders: Column currency added (STRING) and 1 more change',
+        'info',
+        8000
+      );
+    });
+    expect(mockDispatch).toHaveBeenCalledWith({
+      type: 'watchlist/checkWatchlist',
+      payload: { id_token: 'token-123' },
+    });
+  });
+
+  it('should not notify when nothing changed', async () => {
+    renderHook(() => useWatchlist());
+
+    await waitFor(() => expect(mockDispatch).toHaveBeenCalledTimes(1));
+    await Promise.resolve();
+    expect(mockShowNotification).not.toHaveBeenCalled();
+  });
+
+  it('should wait for the poll interval after a recent check', () => {
+    vi.useFakeTimers();
+    mockWatchlistState.lastCheckedAt = Date.now();
+
+    renderHook(() => useWatchlist());
+
+    expect(mockDispatch).not.toHaveBeenCalled();
+    act(() => {
+      vi.advanceTimersByTime(WATCHLIST_POLL_INTERVAL_MS);
+    });
+    expect(mockDispatch).toHaveBeenCalledWith({
+      type: 'watchlist/checkWatchlist',
+      payload: { id_token: 'token-123' },
+    });
+  });
+
+  it('should wait for the favorites to load', () => {
+    vi.useFakeTimers();
+    mockFavoritesState.status = 'loading';
+
+    renderHook(() => useWatchlist());
+    act(() => {
+      vi.runAllTimers();
+    });
+
+    expect(mockDispatch).not.toHaveBeenCalled();
+  });
+});
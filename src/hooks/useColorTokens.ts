@@ -0,0 +1,12 @@
+import { useTheme } from '@mui/material/styles';
+import { colorTokens } from '../theme';
+
+/**
+ * Color token values for the current theme mode, for inline styles and props
+ * that take a concrete color rather than a `var(--sys-*)` reference.
+ * Outside an `AppThemeProvider` this is the light palette.
+ */
+export const useColorTokens = () => {
+  const theme = useTheme();
+  return colorTokens[theme.palette.mode];
+};
@@ -1,42 +1,40 @@
-import { useState, useEffect } from 'react';
-import { isFavorite, setFavorite, toggleFavorite } from '../utils/favoriteUtils';
-
-export const useFavorite = (entryName: string) => {
-  const [favoriteStatus, setFavoriteStatus] = useState<boolean>(() => isFavorite(entryName));
-
-  useEffect(() => {
-    // Set initial state from localStorage
-    setFavoriteStatus(isFavorite(entryName));
-
-    // Listen for changes from other components
-    const handleFavoritesChanged = (event: CustomEvent) => {
-      const { entryName: changedEntryName, isFavorite: newStatus } = event.detail;
-      if (changedEntryName === entryName) {
-        setFavoriteStatus(newStatus);
-      }
-    };
-
-    window.addEventListener('favoritesChanged', handleFavoritesChanged as EventListener);
-
-    return () => {
-      window.removeEventListener('favoritesChanged', handleFavoritesChanged as EventListener);
-    };
-  }, [entryName]);
+import { useDispatch, useSelector } from 'react-redux';
+import type { AppDispatch, RootState } from '../app/store';
+import { addFavorite, removeFavorite } from '../features/favorites/favoritesSlice';
+
+interface UseFavoriteOptions {
+  entry?: { name: string }; // entry to snapshot when it is starred
+  id_token?: string;
+}
+
+/**
+ * Favorite state of one entry, read from the favorites loaded by
+ * `useFavoritesSync`. Changes are saved to the backend and shown immediately.
+ */
+export const useFavorite = (entryName: string, { entry, id_token }: UseFavoriteOptions = {}) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const favorite = useSelector((state: RootState) =>
+    state.favorites?.items.find((item) => item.entryName === entryName)
+  );
+
+  const setFavoriteStatus = (status: boolean) => {
+    if (!entryName || status === !!favorite) return;
+    if (status) {
+      dispatch(addFavorite({ id_token, entry: entry ?? { name: entryName } }));
+    } else {
+      dispatch(removeFavorite({ id_token, entryName, favorite }));
+    }
+  };
 
   const toggleFavoriteStatus = () => {
-    const newStatus = toggleFavorite(entryName);
+    const newStatus = !favorite;
     setFavoriteStatus(newStatus);
     return newStatus;
   };
 
-  const setFavoriteStatusDirect = (status: boolean) => {
-    setFavorite(entryName, status);
-    setFavoriteStatus(status);
-  };
-
   return {
-    isFavorite: favoriteStatus,
+    isFavorite: !!favorite,
     toggleFavorite: toggleFavoriteStatus,
-    setFavorite: setFavoriteStatusDirect
+    setFavorite: setFavoriteStatus
   };
 };
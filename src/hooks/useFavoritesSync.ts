@@ -0,0 +1,24 @@
+import { useEffect } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import type { AppDispatch, RootState } from '../app/store';
+import { useAuth } from '../auth/AuthProvider';
+import { fetchFavorites, migrateLegacyFavorites } from '../features/favorites/favoritesSlice';
+
+/**
+ * Loads the signed-in user's favorites once per session, then imports any
+ * favorites still kept in localStorage from before they moved to the backend.
+ */
+export const useFavoritesSync = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const { user } = useAuth();
+  const status = useSelector((state: RootState) => state.favorites.status);
+  const id_token = user?.token;
+
+  useEffect(() => {
+    if (!id_token || status !== 'idle') return;
+    dispatch(fetchFavorites({ id_token }))
+      .unwrap()
+      .then(() => dispatch(migrateLegacyFavorites({ id_token })))
+      .catch(() => {});
+  }, [id_token, status, dispatch]);
+};
@@ -0,0 +1,52 @@
+import { useEffect } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import type { AppDispatch, RootState } from '../app/store';
+import { useAuth } from '../auth/AuthProvider';
+import { useNotification } from '../contexts/NotificationContext';
+import { checkWatchlist, fetchWatchlist, type WatchlistInboxItem } from '../features/watchlist/watchlistSlice';
+import { describeWatchChange } from '../utils/watchlistDiff';
+
+// How often the favorites are checked for changes while the app is open.
+export const WATCHLIST_POLL_INTERVAL_MS = 15 * 60 * 1000;
+
+const getNotificationMessage = (items: WatchlistInboxItem[]) => {
+  if (items.length > 1) return `${items.length} of your favorites changed. See the inbox for details.`;
+  const [{ displayName, changes }] = items;
+  const more = changes.length > 1 ? ` and ${changes.length - 1} more change${changes.length > 2 ? 's' : ''}` : '';
+  return `${displayName}: ${describeWatchChange(changes[0])}${more}`;
+};
+
+/**
+ * Loads the watchlist inbox once per session and, once the favorites are
+ * loaded, checks them for schema, aspect and data quality changes on every
+ * visit and then every WATCHLIST_POLL_INTERVAL_MS. New changes are announced
+ * with a notification and kept in the Navbar inbox.
+ */
+export const useWatchlist = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const { user } = useAuth();
+  const { showNotification } = useNotification();
+  const status = useSelector((state: RootState) => state.watchlist.status);
+  const lastCheckedAt = useSelector((state: RootState) => state.watchlist.lastCheckedAt);
+  const favoritesStatus = useSelector((state: RootState) => state.favorites.status);
+  const id_token = user?.token;
+
+  useEffect(() => {
+    if (!id_token || status !== 'idle') return;
+    dispatch(fetchWatchlist({ id_token }));
+  }, [dispatch, id_token, status]);
+
+  useEffect(() => {
+    if (!id_token || status !== 'succeeded' || favoritesStatus !== 'succeeded') return;
+    const delay = lastCheckedAt ? Math.max(0, lastCheckedAt + WATCHLIST_POLL_INTERVAL_MS - Date.now()) : 0;
+    const timer = setTimeout(() => {
+      dispatch(checkWatchlist({ id_token }))
+        .unwrap()
+        .then(({ items }) => {
+          if (items.length > 0) showNotification(getNotificationMessage(items), 'info', 8000);
+        })
+        .catch(() => {});
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [dispatch, showNotification, id_token, status, favoritesStatus, lastCheckedAt]);
+};
@@ -35,11 +35,11 @@ vi.mock('./auth/AuthProvider', () => ({
   ),
 }));
 
-// Mock MUI ThemeProvider
-vi.mock('@mui/material/styles', () => ({
-  ThemeProvider: ({ children }: { children: React.ReactNode }) => (
-    <div data-testid="theme-provider">{children}</div>
-  ),
+// Mock AppThemeProvider (MUI ThemeProvider following the user's mode)
+vi.mock('./contexts/AppThemeProvider', () => ({
+  default: function AppThemeProvider({ children }: { children: React.ReactNode }) {
+    return <div data-testid="theme-provider">{children}</div>;
+  },
 }));
 
 // Mock NotificationContext
@@ -67,11 +67,6 @@ vi.mock('./contexts/ThemeSyncProvider', () => ({
 vi.mock('./utils/apiInterceptor', () => ({}));
 vi.mock('./utils/testHelpers', () => ({}));
 
-// Mock theme
-vi.mock('./theme', () => ({
-  default: { palette: { mode: 'light' } },
-}));
-
 // Mock store
 vi.mock('./app/store', () => ({
   default: { getState: vi.fn(), dispatch: vi.fn(), subscribe: vi.fn() },
@@ -231,7 +226,7 @@ describe('main.tsx', () => {
       expect(themeProviderElement).toBeTruthy();
     });
 
-    it('should pass theme to ThemeProvider', async () => {
+    it('should use AppThemeProvider as the ThemeProvider', async () => {
       await import('./main');
 
       const renderCall = mockRender.mock.calls[0][0];
@@ -243,7 +238,7 @@ describe('main.tsx', () => {
       const authProviderElement = accessRequestProviderElement.props.children;
       const themeProviderElement = authProviderElement.props.children;
 
-      expect(themeProviderElement.props.theme).toBeDefined();
+      expect(themeProviderElement.type.name).toBe('AppThemeProvider');
     });
 
     it('should render App as the innermost component', async () => {
@@ -322,7 +317,7 @@ describe('main.tsx', () => {
       }
 
       // StrictMode -> Provider -> ThemeSyncProvider -> BrowserRouter -> NotificationProvider
-      // -> AccessRequestProvider -> AuthWithProvider -> ThemeProvider -> App
+      // -> AccessRequestProvider -> AuthWithProvider -> AppThemeProvider -> App
       // That's 9 levels of nesting
       expect(depth).toBeGreaterThanOrEqual(9);
     });
@@ -386,7 +381,7 @@ describe('main.tsx', () => {
       }
 
       // Expected order after StrictMode: Provider -> ThemeSyncProvider -> BrowserRouter
-      // -> NotificationProvider -> AccessRequestProvider -> AuthWithProvider -> ThemeProvider -> App
+      // -> NotificationProvider -> AccessRequestProvider -> AuthWithProvider -> AppThemeProvider -> App
       const expectedOrder = [
         'Provider',
         'ThemeSyncProvider',
@@ -394,7 +389,7 @@ describe('main.tsx', () => {
         'NotificationProvider',
         'AccessRequestProvider',
         'AuthWithProvider',
-        'ThemeProvider',
+        'AppThemeProvider',
       ];
 
       expectedOrder.forEach((expected, index) => {
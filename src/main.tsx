@@ -3,38 +3,53 @@ import ReactDOM from 'react-dom/client'
 import { Provider } from 'react-redux'
 import { BrowserRouter } from 'react-router-dom';
 import { AuthWithProvider } from './auth/AuthProvider';
-import { ThemeProvider } from '@mui/material/styles';
 import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
 import { AdapterDayjs } from '@mui/x-date-pickers/AdapterDayjs';
 import { NotificationProvider } from './contexts/NotificationContext';
 import { AccessRequestProvider } from './contexts/AccessRequestContext';
+import { CommandPaletteProvider } from './contexts/CommandPaletteContext';
 import ThemeSyncProvider from './contexts/ThemeSyncProvider';
+import AppThemeProvider from './contexts/AppThemeProvider';
 import './utils/apiInterceptor'; // Set up axios interceptors
 import './utils/testHelpers'; // Load testing helpers (available in console)
-import theme from './theme';
+import { isMockBackendEnabled } from './mocks/mockBackendFlag';
 import store from './app/store'
 import App from './App'
 import './index.css'
 import './styles/dark-mode.css'
 
-ReactDOM.createRoot(document.getElementById('root') as HTMLElement).render(
-  <React.StrictMode>
-    <Provider store={store}>
-      <ThemeSyncProvider>
-        <BrowserRouter>
-          <NotificationProvider>
-            <AccessRequestProvider>
-              <AuthWithProvider>
-                <ThemeProvider theme={theme}>
-                  <LocalizationProvider dateAdapter={AdapterDayjs}>
-                    <App />
-                  </LocalizationProvider>
-                </ThemeProvider>
-              </AuthWithProvider>
-            </AccessRequestProvider>
-          </NotificationProvider>
-        </BrowserRouter>
-      </ThemeSyncProvider>
-    </Provider>
-  </React.StrictMode>,
-);
+// Answer every API call from fixtures instead of the backend and Google. The
+// mock is loaded on demand so its fixtures stay out of the production bundle.
+const installMockBackendIfEnabled = async () => {
+  if (!isMockBackendEnabled()) return;
+  const { installMockBackend } = await import('./mocks/mockBackend');
+  installMockBackend();
+};
+
+const renderApp = () => {
+  ReactDOM.createRoot(document.getElementById('root') as HTMLElement).render(
+    <React.StrictMode>
+      <Provider store={store}>
+        <ThemeSyncProvider>
+          <BrowserRouter>
+            <NotificationProvider>
+              <AccessRequestProvider>
+                <AuthWithProvider>
+                  <AppThemeProvider>
+                    <LocalizationProvider dateAdapter={AdapterDayjs}>
+                      <CommandPaletteProvider>
+                        <App />
+                      </CommandPaletteProvider>
+                    </LocalizationProvider>
+                  </AppThemeProvider>
+                </AuthWithProvider>
+              </AccessRequestProvider>
+            </NotificationProvider>
+          </BrowserRouter>
+        </ThemeSyncProvider>
+      </Provider>
+    </React.StrictMode>,
+  );
+};
+
+installMockBackendIfEnabled().then(renderApp);
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import axios from 'axios';
+import { installMockBackend, MOCK_ACCESS_TOKEN } from './mockBackend';
+import { dataplexClient, DataplexApiError, resetDataplexClient } from '../api/dataplexClient';
+import { URLS } from '../constants/urls';
+import { isProtoStruct, parseSchemaAspect } from '../utils/entryModel';
+import type { SavedSearch } from '../features/savedSearches/savedSearchesSlice';
+
+const EMPLOYEE = 'projects/1069578231809/locations/us/entryGroups/@bigquery/entries/bigquery.googleapis.com/projects/data-studio-459108/datasets/dataplex_test/tables/employee';
+const EMPLOYEE_FQN = 'bigquery:data-studio-459108.dataplex_test.employee';
+const auth = { headers: { Authorization: `Bearer ${MOCK_ACCESS_TOKEN}` } };
+
+describe('mock backend', () => {
+  let uninstall: () => void;
+
+  beforeEach(() => {
+    resetDataplexClient();
+    uninstall = installMockBackend();
+  });
+
+  afterEach(() => {
+    uninstall();
+    vi.restoreAllMocks();
+  });
+
+  it('serves backend entries in the gRPC shape', async () => {
+    const entry = await dataplexClient.entries.get(EMPLOYEE);
+
+    expect(entry.fullyQualifiedName).toBe(EMPLOYEE_FQN);
+    expect(entry.updateTime).toEqual({ seconds: expect.any(String), nanos: 0 });
+    const schema = entry.aspects?.['655216118709.global.schema'].data;
+    expect(isProtoStruct(schema)).toBe(true);
+    expect(parseSchemaAspect(schema).map((field) => field.name)).toEqual(['emp_id', 'name', 'department', 'salary']);
+  });
+
+  it('serves direct Dataplex calls in the REST shape', async () => {
+    const entry = await dataplexClient.entries.lookup({ project: 'data-studio-459108', location: 'us', entry: EMPLOYEE });
+
+    expect(entry.updateTime).toBe('2026-10-19T06:12:04Z');
+    expect(entry.aspects?.['655216118709.global.contacts'].data?.identities).toEqual(expect.arrayContaining([expect.objectContaining({ role: 'Owner' })]));
+  });
+
+  it('evaluates search queries against the catalog', async () => {
+    const tables = await dataplexClient.search.backendSearch({ query: 'employee type=(table) system=BIGQUERY' });
+    const names = tables.data.map((result) => result.dataplexEntry.entrySource?.displayName);
+    expect(names[0]).toBe('employee');
+    expect(names).toHaveLength(4);
+
+    const synonyms = await dataplexClient.search.searchEntries({
+      query: 'synonym=projects/data-studio-459108/locations/global/glossaries/hr-glossary/terms/headcount type=glossary_term EXP:SEMANTIC',
+    });
+    expect(synonyms.results?.map((result) => result.dataplexEntry.entrySource?.displayName)).toEqual(['Staff count']);
+
+    await expect(dataplexClient.search.backendSearch({ query: '' })).rejects.toMatchObject({ kind: 'badRequest', status: 400 });
+  });
+
+  it('walks lineage and answers with the process of every link', async () => {
+    const result = await dataplexClient.lineage.traverse({ parent: 'projects/1069578231809/locations/us', fqn: EMPLOYEE_FQN, direction: 'both', includeSchemas: true });
+
+    expect(result.nodes.map((node) => [node.fqn.split('.').pop(), node.depth, node.direction])).toEqual([
+      ['employee', 0, 'root'],
+      ['employees', 1, 'upstream'],
+      ['employee_with_grade', 1, 'downstream'],
+      ['employee_final', 2, 'downstream'],
+      ['employee_summary', 3, 'downstream'],
+    ]);
+    expect(result.links.every((link) => link.process.includes('/processes/'))).toBe(true);
+    expect(result.schemas?.['custom:workday.employees']).toBeNull();
+
+    const details = await dataplexClient.lineage.getProcessDetails(result.links[0].process);
+    expect(details.jobDetails[1]).toMatchObject({ configuration: { query: { query: expect.stringContaining('LOAD DATA') } } });
+  });
+
+  it('maps unknown entries and routes to typed errors', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await expect(dataplexClient.entries.get('projects/p/locations/us/entryGroups/g/entries/missing')).rejects.toBeInstanceOf(DataplexApiError);
+    await expect(axios.get(`${URLS.API_URL}/not-a-route`)).rejects.toMatchObject({ response: { status: 404 } });
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('/not-a-route'));
+  });
+
+  it('keeps saved searches per install and requires a token', async () => {
+    await expect(axios.get(URLS.API_URL + URLS.SAVED_SEARCHES)).rejects.toMatchObject({ response: { status: 401 } });
+
+    const created = await axios.post(URLS.API_URL + URLS.SAVED_SEARCHES, { name: 'Payroll', term: 'salary' }, auth);
+    expect(created.status).toBe(201);
+    await axios.post(`${URLS.API_URL}${URLS.SAVED_SEARCHES}/${created.data.id}/runs`, { resultCount: 3 }, auth);
+    const { data } = await axios.get(URLS.API_URL + URLS.SAVED_SEARCHES, auth);
+    expect(data.map((search: SavedSearch) => [search.name, search.lastResultCount])).toEqual([['Confidential HR tables', null], ['Payroll', 3]]);
+
+    await expect(axios.post(URLS.API_URL + URLS.SAVED_SEARCHES, { name: 'Empty' }, auth))
+      .rejects.toMatchObject({ response: { status: 400, data: { error: 'A saved search needs a term or at least one filter' } } });
+
+    uninstall();
+    uninstall = installMockBackend();
+    expect((await axios.get(URLS.API_URL + URLS.SAVED_SEARCHES, auth)).data).toHaveLength(1);
+  });
+
+  it('versions admin config saves and rolls them back', async () => {
+    const saved = await axios.post(URLS.API_URL + URLS.ADMIN_CONFIGURE, { products: ['BigQuery'], assets: {}, aspectType: [], aspectName: {}, comment: 'Trim', expectedVersion: 1 }, auth);
+    expect(saved.data).toMatchObject({ success: true, version: 2, config: { browseByAspectTypesLabels: [] } });
+
+    await expect(axios.post(URLS.API_URL + URLS.ADMIN_CONFIGURE, { products: [], expectedVersion: 1 }, auth))
+      .rejects.toMatchObject({ response: { status: 409 } });
+
+    const restored = await axios.post(`${URLS.API_URL}${URLS.ADMIN_CONFIG_REVISIONS}/1/restore`, { expectedVersion: 2 }, auth);
+    expect(restored.data.config.browseByAspectTypesLabels).toEqual(['Data Classification', 'Data Retention']);
+    const { data } = await axios.get(URLS.API_URL + URLS.ADMIN_CONFIG_REVISIONS, auth);
+    expect(data.revisions.map((revision: { version: number; comment: string }) => [revision.version, revision.comment])).toEqual([
+      [3, 'Rolled back to version 1'],
+      [2, 'Trim'],
+      [1, ''],
+    ]);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * @file mockBackend.ts
+ * @description
+ * Offline mock of the backend (`backend/server.js`) and of the Dataplex REST
+ * API, for local development and tests. It is an axios adapter, so every
+ * request the app makes through axios (the Dataplex client, the slices and
+ * the components calling `axios` directly) is answered from the fixture
+ * catalog in `mockBackendFixtures.ts` without touching the network.
+ *
+ * Start the app against it with `VITE_USE_MOCK_BACKEND=true npm run dev`;
+ * sign-in then skips Google and logs in as the fixture user.
+ * `VITE_MOCK_BACKEND_DELAY_MS` adds latency to every response, to look at
+ * loading states.
+ *
+ * Requests that no route matches fail with 404 and a console warning, so a
+ * call added without a mock shows up straight away.
+ */
+
+import axios, {
+  AxiosError,
+  AxiosHeaders,
+  CanceledError,
+  type AxiosAdapter,
+  type AxiosInstance,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from 'axios';
+import { createMockBackendRoutes, type MockRequest } from './mockBackendRoutes';
+
+export { MOCK_ACCESS_TOKEN } from './mockBackendFlag';
+
+const getDelayMs = () => {
+  const delay = Number(import.meta.env.VITE_MOCK_BACKEND_DELAY_MS);
+  return Number.isFinite(delay) && delay > 0 ? delay : 0;
+};
+
+// Routes read JSON object bodies; any other body is handed to them as null
+const parseBody = (data: unknown): MockRequest['body'] => {
+  let body = data ?? {};
+  if (typeof body === 'string') {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      return null;
+    }
+  }
+  return body && typeof body === 'object' && !Array.isArray(body) ? body as Record<string, unknown> : null;
+};
+
+const toMockRequest = (config: InternalAxiosRequestConfig): MockRequest => {
+  const url = config.baseURL && !/^https?:\/\//.test(config.url ?? '') ? `${config.baseURL}${config.url ?? ''}` : config.url ?? '';
+  const query = new URLSearchParams(url.includes('?') ? url.slice(url.indexOf('?') + 1) : '');
+  Object.entries(config.params ?? {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) query.set(key, String(value));
+  });
+  const authorization = String(AxiosHeaders.from(config.headers).get('Authorization') ?? '');
+  return {
+    method: (config.method ?? 'get').toUpperCase(),
+    url,
+    query,
+    body: parseBody(config.data),
+    token: authorization.startsWith('Bearer ') && authorization.length > 'Bearer '.length ? authorization.slice('Bearer '.length) : null,
+  };
+};
+
+const waitFor = (ms: number, signal?: AbortSignal | { aborted?: boolean }) =>
+  new Promise<void>((resolve) => {
+    if (ms <= 0 || signal?.aborted) {
+      resolve();
+      return;
+    }
+    setTimeout(resolve, ms);
+  });
+
+/**
+ * Returns an axios adapter that answers from a fresh copy of the mock
+ * backend, so its saved searches, favorites and admin config start from the
+ * seed.
+ */
+export const createMockBackendAdapter = (): AxiosAdapter => {
+  const routes = createMockBackendRoutes();
+
+  return async (config) => {
+    await waitFor(getDelayMs(), config.signal);
+    config.cancelToken?.throwIfRequested();
+    if (config.signal?.aborted) throw new CanceledError(undefined, undefined, config);
+
+    const request = toMockRequest(config);
+    const result = routes.handle(request) ?? (() => {
+      console.warn(`Mock backend: no route for ${request.method} ${request.url}`);
+      return { status: 404, data: { error: `Mock backend: no route for ${request.method} ${request.url.split('?')[0]}` } };
+    })();
+
+    const response: AxiosResponse = {
+      // Callers may keep and change what they get; the fixtures must not change with them
+      data: result.data === undefined ? undefined : JSON.parse(JSON.stringify(result.data)),
+      status: result.status,
+      statusText: String(result.status),
+      headers: new AxiosHeaders({ 'content-type': 'application/json' }),
+      config,
+      request: { mock: true },
+    };
+    const validateStatus = config.validateStatus ?? ((status: number) => status >= 200 && status < 300);
+    if (!validateStatus(response.status)) {
+      throw new AxiosError(
+        `Request failed with status code ${response.status}`,
+        response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        response.request,
+        response
+      );
+    }
+    return response;
+  };
+};
+
+/**
+ * Routes every request of `instance` (the default axios instance unless
+ * given) to the mock backend. Returns a function that restores the adapter
+ * the instance had before.
+ */
+export const installMockBackend = (instance: AxiosInstance = axios) => {
+  const previousAdapter = instance.defaults.adapter;
+  instance.defaults.adapter = createMockBackendAdapter();
+  return () => {
+    instance.defaults.adapter = previousAdapter;
+  };
+};
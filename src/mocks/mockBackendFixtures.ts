@@ -0,0 +1,1074 @@
+/**
+ * @file mockBackendFixtures.ts
+ * @description
+ * The catalog served by the offline mock backend (see `mockBackend.ts`):
+ * two projects with BigQuery datasets and tables, an HR glossary, a data
+ * product, two custom aspect types, a lineage chain, data quality, profile
+ * and documentation scans, and the signed-in user.
+ *
+ * Entries, glossaries and data products are kept in the shape of the
+ * Dataplex REST API (ISO timestamps, plain aspect data), which is what the
+ * app gets when it calls `dataplex.googleapis.com` directly.
+ * `mockBackendRoutes.ts` converts them to the gRPC JSON the backend
+ * (`backend/server.js`) returns. Scans and lineage are only served by the
+ * backend, so they are kept in its shape apart from the timestamps.
+ */
+
+import { mockInsightsData } from './insightsMockData';
+
+export const MOCK_PROJECT_ID = 'data-studio-459108';
+export const MOCK_PROJECT_NUMBER = '1069578231809';
+export const MOCK_SECOND_PROJECT_ID = 'supply-chain-twin-349311';
+const MOCK_SECOND_PROJECT_NUMBER = '1049330678395';
+// Project that owns the system entry and aspect types (dataplex-types)
+const TYPES_PROJECT_NUMBER = '655216118709';
+
+export interface MockAspect {
+  aspectType: string;
+  path: string;
+  createTime: string;
+  updateTime: string;
+  data: Record<string, unknown>;
+}
+
+export interface MockEntry {
+  name: string;
+  entryType: string;
+  createTime: string;
+  updateTime: string;
+  parentEntry: string;
+  fullyQualifiedName: string;
+  entrySource: {
+    resource: string;
+    system: string;
+    platform: string;
+    displayName: string;
+    description: string;
+    labels: Record<string, string>;
+    ancestors: { name: string; type: string }[];
+    createTime: string;
+    updateTime: string;
+    location: string;
+  };
+  aspects: Record<string, MockAspect>;
+}
+
+export const MOCK_USER = {
+  sub: '104729315528461930217',
+  name: 'Alex Rivera',
+  given_name: 'Alex',
+  family_name: 'Rivera',
+  email: 'alex.rivera@example.com',
+  email_verified: true,
+  picture: '',
+};
+
+export const MOCK_PROJECTS = [
+  { projectId: MOCK_PROJECT_ID, name: `projects/${MOCK_PROJECT_NUMBER}`, displayName: 'Data Studio' },
+  { projectId: MOCK_SECOND_PROJECT_ID, name: `projects/${MOCK_SECOND_PROJECT_NUMBER}`, displayName: 'Supply Chain Twin' },
+];
+
+const entryTypeName = (id: string) => `projects/${TYPES_PROJECT_NUMBER}/locations/global/entryTypes/${id}`;
+
+const aspect = (id: string, time: string, data: Record<string, unknown>, projectNumber = TYPES_PROJECT_NUMBER) => ({
+  [`${projectNumber}.global.${id}`]: {
+    aspectType: `projects/${projectNumber}/locations/global/aspectTypes/${id}`,
+    path: '',
+    createTime: time,
+    updateTime: time,
+    data,
+  },
+});
+
+const contact = (role: string, name: string, email: string) => ({ role, name: `${name} <${email}>`, id: email });
+
+// ---------------------------------------------------------------------------
+// BigQuery
+// ---------------------------------------------------------------------------
+
+interface Column {
+  name: string;
+  dataType: string;
+  mode?: string;
+  description?: string;
+}
+
+const METADATA_TYPES: Record<string, string> = {
+  INT64: 'NUMBER',
+  FLOAT64: 'NUMBER',
+  NUMERIC: 'NUMBER',
+  STRING: 'STRING',
+  DATE: 'DATETIME',
+  TIMESTAMP: 'DATETIME',
+  BOOL: 'BOOLEAN',
+};
+
+const schemaAspect = (time: string, columns: Column[]) => aspect('schema', time, {
+  fields: columns.map(({ name, dataType, mode = 'NULLABLE', description = '' }) => ({
+    name,
+    dataType,
+    metadataType: METADATA_TYPES[dataType] ?? 'OTHER',
+    mode,
+    description,
+  })),
+});
+
+const usageAspect = (time: string, executionTimesMs: number[], totalQueries: number[]) => aspect('usage', time, {
+  metrics: [
+    { name: 'execution_time', timeSeries: executionTimesMs.map((value, index) => ({ value, startTime: dayBefore(time, executionTimesMs.length - 1 - index) })) },
+    { name: 'total_queries', timeSeries: totalQueries.map((value, index) => ({ value, startTime: dayBefore(time, totalQueries.length - 1 - index) })) },
+  ],
+  refreshTime: time,
+});
+
+const dayBefore = (time: string, days: number) => new Date(Date.parse(time) - days * 86400000).toISOString();
+
+const bigQueryEntryName = (projectId: string, projectNumber: string, location: string, path: string) =>
+  `projects/${projectNumber}/locations/${location}/entryGroups/@bigquery/entries/bigquery.googleapis.com/projects/${projectId}/${path}`;
+
+interface BigQueryDatasetInput {
+  projectId: string;
+  projectNumber: string;
+  location: string;
+  dataset: string;
+  description: string;
+  createTime: string;
+  updateTime: string;
+  labels?: Record<string, string>;
+}
+
+const bigQueryDataset = (input: BigQueryDatasetInput): MockEntry => ({
+  name: bigQueryEntryName(input.projectId, input.projectNumber, input.location, `datasets/${input.dataset}`),
+  entryType: entryTypeName('bigquery-dataset'),
+  createTime: input.createTime,
+  updateTime: input.updateTime,
+  parentEntry: '',
+  fullyQualifiedName: `bigquery:${input.projectId}.${input.dataset}`,
+  entrySource: {
+    resource: `projects/${input.projectId}/datasets/${input.dataset}`,
+    system: 'BIGQUERY',
+    platform: 'GCP',
+    displayName: input.dataset,
+    description: input.description,
+    labels: input.labels ?? {},
+    ancestors: [],
+    createTime: input.createTime,
+    updateTime: input.updateTime,
+    location: input.location,
+  },
+  aspects: {
+    ...aspect('storage', input.updateTime, { resourceType: 'DATASET' }),
+  },
+});
+
+interface BigQueryTableInput extends BigQueryDatasetInput {
+  table: string;
+  columns: Column[];
+  overview?: string;
+  contacts?: ReturnType<typeof contact>[];
+  usage?: { executionTimesMs: number[]; totalQueries: number[] };
+  extraAspects?: Record<string, MockAspect>;
+}
+
+const bigQueryTable = (input: BigQueryTableInput): MockEntry => {
+  const dataset = bigQueryDataset(input);
+  return {
+    name: bigQueryEntryName(input.projectId, input.projectNumber, input.location, `datasets/${input.dataset}/tables/${input.table}`),
+    entryType: entryTypeName('bigquery-table'),
+    createTime: input.createTime,
+    updateTime: input.updateTime,
+    parentEntry: dataset.name.replace(`projects/${input.projectNumber}/`, `projects/${input.projectId}/`),
+    fullyQualifiedName: `bigquery:${input.projectId}.${input.dataset}.${input.table}`,
+    entrySource: {
+      resource: `projects/${input.projectId}/datasets/${input.dataset}/tables/${input.table}`,
+      system: 'BIGQUERY',
+      platform: 'GCP',
+      displayName: input.table,
+      description: input.description,
+      labels: input.labels ?? {},
+      ancestors: [{ name: dataset.name, type: dataset.entryType }],
+      createTime: input.createTime,
+      updateTime: input.updateTime,
+      location: input.location,
+    },
+    aspects: {
+      ...schemaAspect(input.updateTime, input.columns),
+      ...aspect('storage', input.updateTime, { resourceType: 'TABLE' }),
+      ...(input.overview ? aspect('overview', input.updateTime, { content: input.overview }) : {}),
+      ...(input.contacts ? aspect('contacts', input.updateTime, { identities: input.contacts }) : {}),
+      ...(input.usage ? usageAspect(input.updateTime, input.usage.executionTimesMs, input.usage.totalQueries) : {}),
+      ...input.extraAspects,
+    },
+  };
+};
+
+const HR_DATASET = {
+  projectId: MOCK_PROJECT_ID,
+  projectNumber: MOCK_PROJECT_NUMBER,
+  location: 'us',
+  dataset: 'dataplex_test',
+};
+
+const LOGISTICS_DATASET = {
+  projectId: MOCK_SECOND_PROJECT_ID,
+  projectNumber: MOCK_SECOND_PROJECT_NUMBER,
+  location: 'us',
+  dataset: 'logistics',
+};
+
+const HR_OWNER = contact('Owner', 'Priya Natarajan', 'priya.natarajan@example.com');
+const HR_STEWARD = contact('Data Steward', 'Marcus Lee', 'marcus.lee@example.com');
+const LOGISTICS_OWNER = contact('Owner', 'Jonas Berg', 'jonas.berg@example.com');
+
+const classificationAspect = (time: string, data: { sensitivity: string; domain: string; pii: boolean }) =>
+  aspect('data-classification', time, data, MOCK_PROJECT_NUMBER);
+
+const retentionAspect = (time: string, data: { retentionDays: number; legalHold: boolean }) =>
+  aspect('data-retention', time, data, MOCK_PROJECT_NUMBER);
+
+// Rows of the employee table; the derived tables are computed from them
+const EMPLOYEES: { emp_id: number; name: string; department: string; salary: number | null }[] = [
+  { emp_id: 1001, name: 'Maya Chen', department: 'Engineering', salary: 128000 },
+  { emp_id: 1002, name: 'Omar Haddad', department: 'Engineering', salary: 117500 },
+  { emp_id: 1003, name: 'Sofia Alvarez', department: 'HR', salary: 76000 },
+  { emp_id: 1004, name: 'Daniel Okafor', department: 'Finance', salary: 98000 },
+  { emp_id: 1005, name: 'Hannah Schmidt', department: 'Marketing', salary: 84500 },
+  { emp_id: 1006, name: 'Ravi Kumar', department: 'Engineering', salary: 142000 },
+  { emp_id: 1007, name: 'Lucia Romano', department: 'HR', salary: 69500 },
+  { emp_id: 1008, name: 'Kenji Watanabe', department: 'Finance', salary: 105000 },
+  { emp_id: 1009, name: 'Grace Mensah', department: 'Sales', salary: 91000 },
+  { emp_id: 1010, name: 'Ethan Brooks', department: 'Sales', salary: null },
+];
+
+const gradeOf = (salary: number | null) =>
+  salary === null ? null : salary >= 120000 ? 'L6' : salary >= 95000 ? 'L5' : salary >= 80000 ? 'L4' : 'L3';
+
+const EMPLOYEES_WITH_GRADE = EMPLOYEES.map((employee) => ({ ...employee, grade: gradeOf(employee.salary) }));
+
+const EMPLOYEES_FINAL = EMPLOYEES_WITH_GRADE
+  .filter((employee) => employee.salary !== null)
+  .map((employee) => ({ ...employee, bonus: Math.round((employee.salary as number) * 0.08) }));
+
+const EMPLOYEE_SUMMARY = [...new Set(EMPLOYEES_FINAL.map((employee) => employee.department))].map((department) => {
+  const members = EMPLOYEES_FINAL.filter((employee) => employee.department === department);
+  return {
+    department,
+    headcount: members.length,
+    avg_salary: Math.round(members.reduce((sum, employee) => sum + (employee.salary as number), 0) / members.length),
+  };
+});
+
+const SHIPMENTS = [
+  { shipment_id: 'SHP-20931', warehouse_id: 'WH-ATL', destination: 'Chicago, IL', status: 'IN_TRANSIT', weight_kg: 412.5, shipped_at: '2026-10-16T08:20:00Z' },
+  { shipment_id: 'SHP-20932', warehouse_id: 'WH-DAL', destination: 'Denver, CO', status: 'DELIVERED', weight_kg: 96.0, shipped_at: '2026-10-14T13:05:00Z' },
+  { shipment_id: 'SHP-20933', warehouse_id: 'WH-ATL', destination: 'Miami, FL', status: 'DELAYED', weight_kg: 1280.0, shipped_at: '2026-10-15T17:45:00Z' },
+  { shipment_id: 'SHP-20934', warehouse_id: 'WH-SEA', destination: 'Portland, OR', status: 'DELIVERED', weight_kg: 54.2, shipped_at: '2026-10-13T09:10:00Z' },
+];
+
+const WAREHOUSES = [
+  { warehouse_id: 'WH-ATL', city: 'Atlanta', region: 'Southeast', capacity_pallets: 5200 },
+  { warehouse_id: 'WH-DAL', city: 'Dallas', region: 'South', capacity_pallets: 4100 },
+  { warehouse_id: 'WH-SEA', city: 'Seattle', region: 'Northwest', capacity_pallets: 2800 },
+];
+
+const employeeTable = bigQueryTable({
+  ...HR_DATASET,
+  table: 'employee',
+  description: 'One row per employee with their department and annual salary, loaded daily from Workday.',
+  createTime: '2026-05-13T06:50:49Z',
+  updateTime: '2026-10-19T06:12:04Z',
+  labels: {
+    'dataplex-dq-published-scan': 'employee-dq',
+    'dataplex-dq-published-project': MOCK_PROJECT_ID,
+    'dataplex-dq-published-location': 'us-central1',
+    'dataplex-dp-published-scan': 'employee-profile',
+    'dataplex-dp-published-project': MOCK_PROJECT_ID,
+    'dataplex-dp-published-location': 'us-central1',
+    team: 'people-analytics',
+  },
+  columns: [
+    { name: 'emp_id', dataType: 'INT64', mode: 'REQUIRED', description: 'Unique identifier for the employee.' },
+    { name: 'name', dataType: 'STRING', description: 'Full name of the employee.' },
+    { name: 'department', dataType: 'STRING', description: 'Department the employee belongs to.' },
+    { name: 'salary', dataType: 'NUMERIC', description: 'Annual base salary in USD.' },
+  ],
+  overview: '<p>The <b>employee</b> table is the system of record for headcount reporting. It is refreshed every morning from the Workday export and feeds the grading and compensation summaries.</p>',
+  contacts: [HR_OWNER, HR_STEWARD],
+  usage: { executionTimesMs: [5400, 4800, 6100, 5200, 4700], totalQueries: [31, 28, 44, 39, 42] },
+  extraAspects: {
+    ...classificationAspect('2026-09-02T10:00:00Z', { sensitivity: 'CONFIDENTIAL', domain: 'Human Resources', pii: true }),
+    ...aspect('descriptions', '2026-10-01T09:00:00Z', {
+      description: 'Current employees with their department and annual base salary in USD.',
+      columns: [
+        { name: 'emp_id', description: 'Identifier of the employee, unique across the company.' },
+        { name: 'salary', description: 'Annual base salary in USD; empty while an offer is pending.' },
+      ],
+    }),
+  },
+});
+
+const employeeWithGradeTable = bigQueryTable({
+  ...HR_DATASET,
+  table: 'employee_with_grade',
+  description: 'Employees with the salary grade derived from their base salary.',
+  createTime: '2026-06-18T08:03:56Z',
+  updateTime: '2026-10-19T06:20:11Z',
+  columns: [
+    { name: 'emp_id', dataType: 'INT64', mode: 'REQUIRED', description: 'Unique identifier for the employee.' },
+    { name: 'name', dataType: 'STRING' },
+    { name: 'department', dataType: 'STRING' },
+    { name: 'salary', dataType: 'NUMERIC' },
+    { name: 'grade', dataType: 'STRING', description: 'Salary grade, L3 to L6.' },
+  ],
+  contacts: [HR_STEWARD],
+  usage: { executionTimesMs: [2100, 2300, 1900], totalQueries: [6, 9, 7] },
+  extraAspects: classificationAspect('2026-09-02T10:00:00Z', { sensitivity: 'CONFIDENTIAL', domain: 'Human Resources', pii: true }),
+});
+
+const employeeFinalTable = bigQueryTable({
+  ...HR_DATASET,
+  table: 'employee_final',
+  description: 'Graded employees with a salary and their yearly bonus. Used by payroll.',
+  createTime: '2026-06-18T08:00:37Z',
+  updateTime: '2026-10-19T06:31:40Z',
+  labels: {
+    'dataplex-dq-published-scan': 'employee-final-dq',
+    'dataplex-dq-published-project': MOCK_PROJECT_ID,
+    'dataplex-dq-published-location': 'us-central1',
+  },
+  columns: [
+    { name: 'emp_id', dataType: 'INT64', mode: 'REQUIRED' },
+    { name: 'name', dataType: 'STRING' },
+    { name: 'department', dataType: 'STRING' },
+    { name: 'salary', dataType: 'NUMERIC', mode: 'REQUIRED' },
+    { name: 'grade', dataType: 'STRING' },
+    { name: 'bonus', dataType: 'NUMERIC', description: 'Yearly bonus, 8% of the base salary.' },
+  ],
+  overview: '<p>Payroll-ready view of the workforce. Employees without a salary are left out.</p>',
+  contacts: [HR_OWNER],
+  extraAspects: {
+    ...classificationAspect('2026-09-02T10:00:00Z', { sensitivity: 'RESTRICTED', domain: 'Payroll', pii: true }),
+    ...retentionAspect('2026-09-02T10:00:00Z', { retentionDays: 2555, legalHold: false }),
+  },
+});
+
+const employeeSummaryTable = bigQueryTable({
+  ...HR_DATASET,
+  table: 'employee_summary',
+  description: 'Headcount and average salary per department.',
+  createTime: '2026-07-01T09:15:00Z',
+  updateTime: '2026-10-19T06:40:02Z',
+  columns: [
+    { name: 'department', dataType: 'STRING', mode: 'REQUIRED' },
+    { name: 'headcount', dataType: 'INT64' },
+    { name: 'avg_salary', dataType: 'NUMERIC' },
+  ],
+  contacts: [HR_OWNER],
+  usage: { executionTimesMs: [800, 950, 700, 820], totalQueries: [120, 134, 128, 141] },
+  extraAspects: classificationAspect('2026-09-02T10:00:00Z', { sensitivity: 'INTERNAL', domain: 'Human Resources', pii: false }),
+});
+
+const shipmentsTable = bigQueryTable({
+  ...LOGISTICS_DATASET,
+  table: 'shipments',
+  description: 'Outbound shipments with their warehouse, destination and delivery status.',
+  createTime: '2026-03-02T12:00:00Z',
+  updateTime: '2026-10-18T22:05:13Z',
+  columns: [
+    { name: 'shipment_id', dataType: 'STRING', mode: 'REQUIRED' },
+    { name: 'warehouse_id', dataType: 'STRING' },
+    { name: 'destination', dataType: 'STRING' },
+    { name: 'status', dataType: 'STRING' },
+    { name: 'weight_kg', dataType: 'FLOAT64' },
+    { name: 'shipped_at', dataType: 'TIMESTAMP' },
+  ],
+  overview: '<p>Every shipment leaving one of our warehouses, updated hourly from the transport management system.</p>',
+  contacts: [LOGISTICS_OWNER],
+  usage: { executionTimesMs: [3200, 2900], totalQueries: [18, 22] },
+  extraAspects: retentionAspect('2026-08-20T10:00:00Z', { retentionDays: 730, legalHold: false }),
+});
+
+const warehousesTable = bigQueryTable({
+  ...LOGISTICS_DATASET,
+  table: 'warehouses',
+  description: 'Warehouses and their pallet capacity.',
+  createTime: '2026-03-02T12:00:00Z',
+  updateTime: '2026-09-30T07:45:00Z',
+  columns: [
+    { name: 'warehouse_id', dataType: 'STRING', mode: 'REQUIRED' },
+    { name: 'city', dataType: 'STRING' },
+    { name: 'region', dataType: 'STRING' },
+    { name: 'capacity_pallets', dataType: 'INT64' },
+  ],
+  contacts: [LOGISTICS_OWNER],
+});
+
+const BIGQUERY_ENTRIES: MockEntry[] = [
+  bigQueryDataset({ ...HR_DATASET, description: 'People data used by HR and payroll.', createTime: '2026-05-13T06:45:00Z', updateTime: '2026-10-19T06:40:02Z', labels: { team: 'people-analytics' } }),
+  employeeTable,
+  employeeWithGradeTable,
+  employeeFinalTable,
+  employeeSummaryTable,
+  bigQueryDataset({ ...LOGISTICS_DATASET, description: 'Warehouse and transport data.', createTime: '2026-03-02T11:30:00Z', updateTime: '2026-10-18T22:05:13Z' }),
+  shipmentsTable,
+  warehousesTable,
+];
+
+/** Rows returned by /get-sample-data, by fully qualified name. */
+export const MOCK_SAMPLE_ROWS: Record<string, Record<string, unknown>[]> = {
+  [employeeTable.fullyQualifiedName]: EMPLOYEES,
+  [employeeWithGradeTable.fullyQualifiedName]: EMPLOYEES_WITH_GRADE,
+  [employeeFinalTable.fullyQualifiedName]: EMPLOYEES_FINAL,
+  [employeeSummaryTable.fullyQualifiedName]: EMPLOYEE_SUMMARY,
+  [shipmentsTable.fullyQualifiedName]: SHIPMENTS,
+  [warehousesTable.fullyQualifiedName]: WAREHOUSES,
+};
+
+// ---------------------------------------------------------------------------
+// Aspect types
+// ---------------------------------------------------------------------------
+
+const aspectTypeResource = (id: string) => `projects/${MOCK_PROJECT_NUMBER}/locations/global/aspectTypes/${id}`;
+
+/** Custom aspect types, as returned by /get-aspect-detail (REST timestamps). */
+export const MOCK_ASPECT_TYPES = [
+  {
+    name: aspectTypeResource('data-classification'),
+    uid: '5d0f1c0e-2b7a-4a55-9f39-6e4bb1e1d2a1',
+    displayName: 'Data Classification',
+    description: 'How sensitive an asset is and which business domain owns it.',
+    createTime: '2026-08-28T14:02:11Z',
+    updateTime: '2026-09-02T09:40:00Z',
+    labels: {},
+    metadataTemplate: {
+      name: 'data-classification',
+      type: 'record',
+      recordFields: [
+        {
+          name: 'sensitivity',
+          type: 'enum',
+          index: 1,
+          annotations: { displayName: 'Sensitivity', description: 'Highest sensitivity of the data in the asset.' },
+          enumValues: ['PUBLIC', 'INTERNAL', 'CONFIDENTIAL', 'RESTRICTED'].map((name, index) => ({ name, index: index + 1 })),
+        },
+        { name: 'domain', type: 'string', index: 2, annotations: { displayName: 'Business domain', description: 'Domain that owns the data.' } },
+        { name: 'pii', type: 'bool', index: 3, annotations: { displayName: 'Contains PII', description: 'Whether the asset holds personal data.' } },
+      ],
+    },
+  },
+  {
+    name: aspectTypeResource('data-retention'),
+    uid: '8a7c2f44-90d1-4e0b-b1f3-2c6d9a5e7b10',
+    displayName: 'Data Retention',
+    description: 'How long an asset must be kept.',
+    createTime: '2026-08-20T09:00:00Z',
+    updateTime: '2026-08-20T09:00:00Z',
+    labels: {},
+    metadataTemplate: {
+      name: 'data-retention',
+      type: 'record',
+      recordFields: [
+        { name: 'retentionDays', type: 'int', index: 1, annotations: { displayName: 'Retention (days)', description: 'Days the data is kept.' } },
+        { name: 'legalHold', type: 'bool', index: 2, annotations: { displayName: 'Legal hold', description: 'Whether deletion is suspended.' } },
+      ],
+    },
+  },
+];
+
+// The catalog entries of the aspect types, listed by /app-configs
+const ASPECT_TYPE_ENTRIES: MockEntry[] = MOCK_ASPECT_TYPES.map((aspectType) => {
+  const id = aspectType.name.split('/').pop() as string;
+  return {
+    name: `projects/${MOCK_PROJECT_NUMBER}/locations/global/entryGroups/@dataplex/entries/${id}_aspectType`,
+    entryType: entryTypeName('aspecttype'),
+    createTime: aspectType.createTime,
+    updateTime: aspectType.updateTime,
+    parentEntry: '',
+    fullyQualifiedName: `dataplex:${MOCK_PROJECT_ID}.global.${id}`,
+    entrySource: {
+      resource: aspectType.name,
+      system: 'DATAPLEX',
+      platform: 'GCP',
+      displayName: aspectType.displayName,
+      description: aspectType.description,
+      labels: {},
+      ancestors: [],
+      createTime: aspectType.createTime,
+      updateTime: aspectType.updateTime,
+      location: 'global',
+    },
+    aspects: {},
+  };
+});
+
+// ---------------------------------------------------------------------------
+// Glossary
+// ---------------------------------------------------------------------------
+
+const GLOSSARY = `projects/${MOCK_PROJECT_ID}/locations/global/glossaries/hr-glossary`;
+
+/** Glossary categories, as listed by `{glossary}/categories`. */
+export const MOCK_GLOSSARY_CATEGORIES = [
+  {
+    name: `${GLOSSARY}/categories/compensation`,
+    uid: 'c2b4b1f0-5c1d-4d0e-9a57-0d2f7b6b9e11',
+    displayName: 'Compensation',
+    description: 'Pay, grades and bonuses.',
+    labels: {},
+    parent: GLOSSARY,
+    createTime: '2026-08-11T09:00:00Z',
+    updateTime: '2026-09-15T16:20:00Z',
+  },
+  {
+    name: `${GLOSSARY}/categories/workforce`,
+    uid: '1fb8c8a6-8d0e-4a43-8e0e-3cfa7e9e2d40',
+    displayName: 'Workforce',
+    description: 'Who works here and in which team.',
+    labels: {},
+    parent: GLOSSARY,
+    createTime: '2026-08-11T09:00:00Z',
+    updateTime: '2026-08-11T09:00:00Z',
+  },
+];
+
+const term = (id: string, category: string | null, displayName: string, description: string, updateTime: string) => ({
+  name: `${GLOSSARY}/terms/${id}`,
+  uid: `term-${id}`,
+  displayName,
+  description,
+  labels: {},
+  parent: category ? `${GLOSSARY}/categories/${category}` : GLOSSARY,
+  createTime: '2026-08-11T09:30:00Z',
+  updateTime,
+});
+
+/** Glossary terms, as listed by `{glossary}/terms`. */
+export const MOCK_GLOSSARY_TERMS = [
+  term('employee-id', 'workforce', 'Employee ID', 'Number that identifies an employee for their whole career, never reused.', '2026-09-01T10:00:00Z'),
+  term('headcount', 'workforce', 'Headcount', 'Number of employees on the payroll on a given day.', '2026-09-20T11:45:00Z'),
+  term('staff-count', 'workforce', 'Staff count', 'Older name for headcount, still used in finance reports.', '2026-09-20T11:46:00Z'),
+  term('salary-grade', 'compensation', 'Salary grade', 'Band (L3 to L6) an employee is paid in, derived from their base salary.', '2026-10-02T08:10:00Z'),
+  term('base-salary', 'compensation', 'Base salary', 'Yearly pay before bonuses and benefits, in USD.', '2026-10-02T08:12:00Z'),
+  term('pii', null, 'Personal data', 'Any information relating to an identified or identifiable person.', '2026-08-11T09:30:00Z'),
+];
+
+/** Related and synonym terms, as pairs of term names. */
+export const MOCK_TERM_RELATIONS: { synonym: [string, string][]; related: [string, string][] } = {
+  synonym: [[`${GLOSSARY}/terms/headcount`, `${GLOSSARY}/terms/staff-count`]],
+  related: [
+    [`${GLOSSARY}/terms/salary-grade`, `${GLOSSARY}/terms/base-salary`],
+    [`${GLOSSARY}/terms/employee-id`, `${GLOSSARY}/terms/pii`],
+  ],
+};
+
+/** Entries linked to each glossary term, by term name. */
+export const MOCK_TERM_LINKS: Record<string, string[]> = {
+  [`${GLOSSARY}/terms/employee-id`]: [employeeTable.name, employeeWithGradeTable.name, employeeFinalTable.name],
+  [`${GLOSSARY}/terms/headcount`]: [employeeSummaryTable.name],
+  [`${GLOSSARY}/terms/salary-grade`]: [employeeWithGradeTable.name, employeeFinalTable.name],
+  [`${GLOSSARY}/terms/base-salary`]: [employeeTable.name, employeeFinalTable.name],
+  [`${GLOSSARY}/terms/pii`]: [employeeTable.name],
+};
+
+const dataplexEntryName = (location: string, resource: string) =>
+  `projects/${MOCK_PROJECT_ID}/locations/${location}/entryGroups/@dataplex/entries/${resource}`;
+
+const glossaryEntry = (
+  resource: string,
+  type: 'glossary' | 'glossary-category' | 'glossary-term',
+  displayName: string,
+  description: string,
+  createTime: string,
+  updateTime: string,
+  parentEntry = ''
+): MockEntry => ({
+  name: dataplexEntryName('global', resource),
+  entryType: entryTypeName(type),
+  createTime,
+  updateTime,
+  parentEntry,
+  fullyQualifiedName: `dataplex:${resource.split('/').slice(1).join('.')}`,
+  entrySource: {
+    resource,
+    system: 'DATAPLEX',
+    platform: 'GCP',
+    displayName,
+    description,
+    labels: {},
+    ancestors: [],
+    createTime,
+    updateTime,
+    location: 'global',
+  },
+  aspects: {
+    ...aspect('overview', updateTime, { content: `<p>${description}</p>` }),
+    ...aspect('contacts', updateTime, { identities: [HR_STEWARD] }),
+  },
+});
+
+const GLOSSARY_ENTRIES: MockEntry[] = [
+  glossaryEntry(GLOSSARY, 'glossary', 'HR Glossary', 'Business terms used in people and payroll reporting.', '2026-08-11T09:00:00Z', '2026-10-02T08:12:00Z'),
+  ...MOCK_GLOSSARY_CATEGORIES.map((category) => glossaryEntry(
+    category.name, 'glossary-category', category.displayName, category.description, category.createTime, category.updateTime, dataplexEntryName('global', category.parent)
+  )),
+  ...MOCK_GLOSSARY_TERMS.map((glossaryTerm) => glossaryEntry(
+    glossaryTerm.name, 'glossary-term', glossaryTerm.displayName, glossaryTerm.description, glossaryTerm.createTime, glossaryTerm.updateTime, dataplexEntryName('global', glossaryTerm.parent)
+  )),
+];
+
+// ---------------------------------------------------------------------------
+// Data products
+// ---------------------------------------------------------------------------
+
+const DATA_PRODUCT = `projects/${MOCK_PROJECT_ID}/locations/us-central1/dataProducts/employee-analytics`;
+
+/** Data products, as listed by `dataProducts` (REST). */
+export const MOCK_DATA_PRODUCTS = [
+  {
+    name: DATA_PRODUCT,
+    uid: '3e5b9d1a-7f2c-4b8e-a6d4-91c0f7e2b355',
+    displayName: 'Employee Analytics',
+    description: 'Curated, graded employee data for HR and payroll analysts.',
+    createTime: '2026-07-10T12:00:00Z',
+    updateTime: '2026-10-01T15:30:00Z',
+    labels: { domain: 'hr' },
+    ownerEmails: ['priya.natarajan@example.com', 'marcus.lee@example.com'],
+    assetCount: 3,
+    accessGroups: {
+      analysts: {
+        id: 'analysts',
+        displayName: 'Analysts',
+        description: 'Read access to every table of the product.',
+        principal: { googleGroup: 'hr-analysts@example.com' },
+      },
+      payroll: {
+        id: 'payroll',
+        displayName: 'Payroll',
+        description: 'Read access to the payroll tables.',
+        principal: { googleGroup: 'payroll-team@example.com' },
+      },
+    },
+  },
+];
+
+const dataAsset = (id: string, table: MockEntry, accessGroups: string[]) => ({
+  name: `${DATA_PRODUCT}/dataAssets/${id}`,
+  uid: `asset-${id}`,
+  resource: `//bigquery.googleapis.com/${table.entrySource.resource}`,
+  createTime: '2026-07-10T12:05:00Z',
+  updateTime: '2026-10-01T15:30:00Z',
+  accessGroupConfigs: Object.fromEntries(accessGroups.map((group) => [group, { iamRoles: ['roles/bigquery.dataViewer'] }])),
+});
+
+/** Assets of each data product, by data product name. */
+export const MOCK_DATA_PRODUCT_ASSETS: Record<string, ReturnType<typeof dataAsset>[]> = {
+  [DATA_PRODUCT]: [
+    dataAsset('employee', employeeTable, ['analysts']),
+    dataAsset('employee-final', employeeFinalTable, ['analysts', 'payroll']),
+    dataAsset('employee-summary', employeeSummaryTable, ['analysts']),
+  ],
+};
+
+const DATA_PRODUCT_ENTRIES: MockEntry[] = MOCK_DATA_PRODUCTS.map((dataProduct) => {
+  const resource = dataProduct.name.replace(`projects/${MOCK_PROJECT_ID}/`, `projects/${MOCK_PROJECT_NUMBER}/`);
+  return {
+    name: dataplexEntryName('us-central1', resource),
+    entryType: entryTypeName('data-product'),
+    createTime: dataProduct.createTime,
+    updateTime: dataProduct.updateTime,
+    parentEntry: '',
+    fullyQualifiedName: `dataplex:${MOCK_PROJECT_NUMBER}.us-central1.employee-analytics`,
+    entrySource: {
+      resource,
+      system: 'DATAPLEX',
+      platform: 'GCP',
+      displayName: dataProduct.displayName,
+      description: dataProduct.description,
+      labels: dataProduct.labels,
+      ancestors: [],
+      createTime: dataProduct.createTime,
+      updateTime: dataProduct.updateTime,
+      location: 'us-central1',
+    },
+    aspects: {
+      ...aspect('overview', dataProduct.updateTime, {
+        content: '<p>Everything needed to report on the workforce: the employee master table, the payroll view and the department summary. Refreshed daily before 07:00 UTC.</p>',
+      }),
+      ...aspect('contacts', dataProduct.updateTime, { identities: [HR_OWNER, HR_STEWARD] }),
+      ...aspect('refresh-cadence', dataProduct.updateTime, { frequency: 'Daily', refreshTime: '07:00 UTC', freshnessSla: '24 hours' }),
+    },
+  };
+});
+
+/** Every catalog entry. */
+export const MOCK_ENTRIES: MockEntry[] = [
+  ...BIGQUERY_ENTRIES,
+  ...ASPECT_TYPE_ENTRIES,
+  ...GLOSSARY_ENTRIES,
+  ...DATA_PRODUCT_ENTRIES,
+];
+
+// ---------------------------------------------------------------------------
+// Lineage
+// ---------------------------------------------------------------------------
+
+const LINEAGE_PARENT = `projects/${MOCK_PROJECT_NUMBER}/locations/us`;
+const WORKDAY_FQN = 'custom:workday.employees';
+
+interface LineageStep {
+  id: string;
+  source: string;
+  target: string;
+  jobId: string;
+  query: string;
+  startTime: string;
+}
+
+const LINEAGE_STEPS: LineageStep[] = [
+  {
+    id: 'workday-load',
+    source: WORKDAY_FQN,
+    target: employeeTable.fullyQualifiedName,
+    jobId: 'job_load_employee_20261019',
+    query: 'LOAD DATA INTO `data-studio-459108.dataplex_test.employee` FROM FILES (format = \'CSV\', uris = [\'gs://hr-exports/workday/employees-*.csv\'])',
+    startTime: '2026-10-19T06:10:00Z',
+  },
+  {
+    id: 'grade-employees',
+    source: employeeTable.fullyQualifiedName,
+    target: employeeWithGradeTable.fullyQualifiedName,
+    jobId: 'job_grade_employee_20261019',
+    query: 'CREATE OR REPLACE TABLE `data-studio-459108.dataplex_test.employee_with_grade` AS SELECT *, CASE WHEN salary >= 120000 THEN \'L6\' WHEN salary >= 95000 THEN \'L5\' WHEN salary >= 80000 THEN \'L4\' ELSE \'L3\' END AS grade FROM `data-studio-459108.dataplex_test.employee`',
+    startTime: '2026-10-19T06:18:00Z',
+  },
+  {
+    id: 'finalize-employees',
+    source: employeeWithGradeTable.fullyQualifiedName,
+    target: employeeFinalTable.fullyQualifiedName,
+    jobId: 'job_final_employee_20261019',
+    query: 'CREATE OR REPLACE TABLE `data-studio-459108.dataplex_test.employee_final` AS SELECT *, ROUND(salary * 0.08) AS bonus FROM `data-studio-459108.dataplex_test.employee_with_grade` WHERE salary IS NOT NULL',
+    startTime: '2026-10-19T06:29:00Z',
+  },
+  {
+    id: 'summarize-departments',
+    source: employeeFinalTable.fullyQualifiedName,
+    target: employeeSummaryTable.fullyQualifiedName,
+    jobId: 'job_summary_employee_20261019',
+    query: 'CREATE OR REPLACE TABLE `data-studio-459108.dataplex_test.employee_summary` AS SELECT department, COUNT(*) AS headcount, ROUND(AVG(salary)) AS avg_salary FROM `data-studio-459108.dataplex_test.employee_final` GROUP BY department',
+    startTime: '2026-10-19T06:38:00Z',
+  },
+  {
+    id: 'shipments-by-warehouse',
+    source: warehousesTable.fullyQualifiedName,
+    target: shipmentsTable.fullyQualifiedName,
+    jobId: 'job_shipments_20261018',
+    query: 'MERGE `supply-chain-twin-349311.logistics.shipments` s USING `supply-chain-twin-349311.logistics.warehouses` w ON s.warehouse_id = w.warehouse_id WHEN NOT MATCHED BY SOURCE THEN DELETE',
+    startTime: '2026-10-18T22:00:00Z',
+  },
+];
+
+const processName = (step: LineageStep) => `${LINEAGE_PARENT}/processes/${step.id}`;
+
+const addMinutes = (time: string, minutes: number) => new Date(Date.parse(time) + minutes * 60000).toISOString();
+
+/** Data Lineage links, with the process that created each of them. */
+export const MOCK_LINEAGE_LINKS = LINEAGE_STEPS.map((step) => ({
+  name: `${LINEAGE_PARENT}/links/${step.id}`,
+  source: { fullyQualifiedName: step.source },
+  target: { fullyQualifiedName: step.target },
+  startTime: '2026-06-18T08:00:00Z',
+  endTime: null,
+  process: processName(step),
+}));
+
+/** Data Lineage processes with their runs and the BigQuery job of the latest run. */
+export const MOCK_LINEAGE_PROCESSES = LINEAGE_STEPS.map((step) => ({
+  process: {
+    name: processName(step),
+    displayName: 'Query',
+    attributes: { bigquery_job_id: step.jobId },
+    origin: { sourceType: 'BIGQUERY', name: `${step.target.split(':')[1].split('.')[0]}:us` },
+  },
+  runs: [0, 1, 2].map((daysAgo) => ({
+    name: `${processName(step)}/runs/${step.jobId.replace('2026', '')}-${daysAgo}`,
+    displayName: daysAgo === 0 ? step.jobId : step.jobId.replace(/\d{8}$/, (date) => String(Number(date) - daysAgo)),
+    state: 'COMPLETED',
+    startTime: dayBefore(step.startTime, daysAgo),
+    endTime: addMinutes(dayBefore(step.startTime, daysAgo), 2),
+  })),
+  job: {
+    id: step.jobId,
+    query: step.query,
+    startTime: step.startTime,
+    endTime: addMinutes(step.startTime, 2),
+    totalBytesProcessed: String(48213 * (step.query.length % 7 + 1)),
+  },
+}));
+
+// ---------------------------------------------------------------------------
+// Data scans
+// ---------------------------------------------------------------------------
+
+const SCAN_LOCATION = `projects/${MOCK_PROJECT_ID}/locations/us-central1`;
+const bigQueryResource = (entry: MockEntry) => `//bigquery.googleapis.com/${entry.entrySource.resource}`;
+
+const EMPLOYEE_DQ_RULES = [
+  { column: 'emp_id', name: 'emp-id-not-null', ruleType: 'nonNullExpectation', nonNullExpectation: {}, dimension: 'COMPLETENESS', threshold: 1 },
+  { column: 'emp_id', name: 'emp-id-unique', ruleType: 'uniquenessExpectation', uniquenessExpectation: {}, dimension: 'UNIQUENESS', threshold: 1 },
+  { column: 'salary', name: 'salary-not-null', ruleType: 'nonNullExpectation', nonNullExpectation: {}, dimension: 'COMPLETENESS', threshold: 1 },
+  { column: 'department', name: 'known-department', ruleType: 'setExpectation', setExpectation: { values: ['Engineering', 'HR', 'Finance', 'Marketing', 'Sales'] }, dimension: 'VALIDITY', threshold: 1 },
+  { column: 'salary', name: 'salary-in-range', ruleType: 'rangeExpectation', rangeExpectation: { minValue: '30000', maxValue: '250000' }, dimension: 'VALIDITY', threshold: 1, ignoreNull: true },
+];
+
+const EMPLOYEE_FINAL_DQ_RULES = [
+  { column: 'salary', name: 'salary-not-null', ruleType: 'nonNullExpectation', nonNullExpectation: {}, dimension: 'COMPLETENESS', threshold: 1 },
+  { column: 'bonus', name: 'bonus-positive', ruleType: 'rowConditionExpectation', rowConditionExpectation: { sqlExpression: 'bonus > 0' }, dimension: 'VALIDITY', threshold: 1 },
+];
+
+// The fields of a rule the results read; each rule also has its expectation
+interface DataQualityRule {
+  column: string;
+  name: string;
+  ruleType: string;
+  dimension: string;
+  threshold: number;
+}
+
+// Result of each rule in one job: [evaluated, passed, nulls]
+type RuleOutcome = [number, number, number];
+
+const dataQualityResult = (rules: DataQualityRule[], outcomes: RuleOutcome[], table: string) => {
+  const ruleResults = rules.map((rule, index) => {
+    const [evaluated, passed, nulls] = outcomes[index];
+    const passRatio = evaluated === 0 ? 1 : passed / evaluated;
+    return {
+      rule,
+      passed: passRatio >= rule.threshold,
+      evaluatedCount: String(evaluated),
+      passedCount: String(passed),
+      nullCount: String(nulls),
+      passRatio,
+      failingRowsQuery: passRatio >= rule.threshold ? '' : `SELECT * FROM \`${table}\` WHERE ${rule.ruleType === 'nonNullExpectation' ? `${rule.column} IS NULL` : `NOT (${rule.column} IS NOT NULL)`}`,
+    };
+  });
+  const score = (results: typeof ruleResults) =>
+    Math.round((results.filter((result) => result.passed).length / results.length) * 1000) / 10;
+  const dimensions = [...new Set(rules.map((rule) => rule.dimension))].map((name) => {
+    const results = ruleResults.filter((result) => result.rule.dimension === name);
+    return { dimension: { name }, passed: results.every((result) => result.passed), score: score(results) };
+  });
+  return {
+    passed: ruleResults.every((result) => result.passed),
+    score: score(ruleResults),
+    dimensions,
+    rules: ruleResults,
+    rowCount: String(outcomes[0][0]),
+    scannedData: { incrementalField: null },
+  };
+};
+
+const scanJob = (scan: string, id: string, startTime: string, type: string, result: Record<string, unknown>) => ({
+  name: `${scan}/jobs/${id}`,
+  uid: id,
+  state: 'SUCCEEDED',
+  type,
+  createTime: startTime,
+  startTime,
+  endTime: addMinutes(startTime, 3),
+  message: '',
+  ...result,
+});
+
+const EMPLOYEE_DQ = `${SCAN_LOCATION}/dataScans/employee-dq`;
+const EMPLOYEE_FINAL_DQ = `${SCAN_LOCATION}/dataScans/employee-final-dq`;
+const EMPLOYEE_PROFILE = `${SCAN_LOCATION}/dataScans/employee-profile`;
+const DOCUMENTATION_SCAN = mockInsightsData.insights[0].name.split('/jobs/')[0];
+
+const employeeTableId = 'data-studio-459108.dataplex_test.employee';
+const employeeFinalTableId = 'data-studio-459108.dataplex_test.employee_final';
+
+// Newest first, as the backend returns them
+const EMPLOYEE_DQ_JOBS = [
+  scanJob(EMPLOYEE_DQ, 'b71f3c2e-0c55-4d7e-9f1b-8a4a2d6e1c90', '2026-10-19T06:15:00Z', 'DATA_QUALITY', {
+    dataQualityResult: dataQualityResult(EMPLOYEE_DQ_RULES, [[10, 10, 0], [10, 10, 0], [10, 9, 1], [10, 10, 0], [9, 9, 1]], employeeTableId),
+  }),
+  scanJob(EMPLOYEE_DQ, '5a0e9b14-3d2f-4c61-8e7a-0f9d1c3b2a55', '2026-10-12T06:15:00Z', 'DATA_QUALITY', {
+    dataQualityResult: dataQualityResult(EMPLOYEE_DQ_RULES, [[9, 9, 0], [9, 9, 0], [9, 9, 0], [9, 8, 0], [9, 9, 0]], employeeTableId),
+  }),
+  scanJob(EMPLOYEE_DQ, 'e3c8d7a1-6b42-4f0e-a9d5-2c1b0e8f7a63', '2026-10-05T06:15:00Z', 'DATA_QUALITY', {
+    dataQualityResult: dataQualityResult(EMPLOYEE_DQ_RULES, [[9, 9, 0], [9, 9, 0], [9, 9, 0], [9, 9, 0], [9, 9, 0]], employeeTableId),
+  }),
+];
+
+const EMPLOYEE_FINAL_DQ_JOBS = [
+  scanJob(EMPLOYEE_FINAL_DQ, '0d4e6f8a-1b3c-4d5e-8f7a-9b0c1d2e3f4a', '2026-10-19T06:35:00Z', 'DATA_QUALITY', {
+    dataQualityResult: dataQualityResult(EMPLOYEE_FINAL_DQ_RULES, [[9, 9, 0], [9, 9, 0]], employeeFinalTableId),
+  }),
+];
+
+const profileField = (name: string, type: string, profile: Record<string, unknown>, mode = 'NULLABLE') => ({ name, type, mode, profile });
+
+const quartiles = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return [0.25, 0.5, 0.75].map((q) => sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))]);
+};
+
+const numericProfile = (values: (number | null)[], key: 'integerProfile' | 'doubleProfile') => {
+  const present = values.filter((value): value is number => value !== null);
+  const average = present.reduce((sum, value) => sum + value, 0) / present.length;
+  const variance = present.reduce((sum, value) => sum + (value - average) ** 2, 0) / present.length;
+  return {
+    nullRatio: (values.length - present.length) / values.length,
+    distinctRatio: new Set(present).size / values.length,
+    [key]: {
+      average,
+      standardDeviation: Math.sqrt(variance),
+      min: String(Math.min(...present)),
+      max: String(Math.max(...present)),
+      quartiles: quartiles(present).map(String),
+    },
+  };
+};
+
+const stringProfile = (values: string[]) => {
+  const counts = new Map<string, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return {
+    nullRatio: 0,
+    distinctRatio: counts.size / values.length,
+    topNValues: [...counts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 5)
+      .map(([value, count]) => ({ value, count: String(count), ratio: count / values.length })),
+    stringProfile: {
+      minLength: String(Math.min(...values.map((value) => value.length))),
+      maxLength: String(Math.max(...values.map((value) => value.length))),
+      averageLength: values.reduce((sum, value) => sum + value.length, 0) / values.length,
+    },
+  };
+};
+
+const employeeProfile = (rows: typeof EMPLOYEES) => ({
+  rowCount: String(rows.length),
+  profile: {
+    fields: [
+      profileField('emp_id', 'INT64', numericProfile(rows.map((row) => row.emp_id), 'integerProfile'), 'REQUIRED'),
+      profileField('name', 'STRING', stringProfile(rows.map((row) => row.name))),
+      profileField('department', 'STRING', stringProfile(rows.map((row) => row.department))),
+      profileField('salary', 'NUMERIC', numericProfile(rows.map((row) => row.salary), 'doubleProfile')),
+    ],
+  },
+  scannedData: { incrementalField: null },
+});
+
+// The week before, Ethan Brooks had not joined yet
+const EMPLOYEE_PROFILE_JOBS = [
+  scanJob(EMPLOYEE_PROFILE, '7c2a9e31-4f8b-4d6a-b0e5-1a3c5e7f9b21', '2026-10-19T06:20:00Z', 'DATA_PROFILE', {
+    dataProfileResult: employeeProfile(EMPLOYEES),
+  }),
+  scanJob(EMPLOYEE_PROFILE, '2f6d8b40-9a1c-4e3f-8d7b-6c5a4b3e2d10', '2026-10-12T06:20:00Z', 'DATA_PROFILE', {
+    dataProfileResult: employeeProfile(EMPLOYEES.slice(0, -1)),
+  }),
+];
+
+const DOCUMENTATION_JOBS = mockInsightsData.insights.map((job) => ({
+  name: job.name,
+  uid: job.uid,
+  state: job.state,
+  type: job.type,
+  createTime: job.createTime,
+  startTime: job.startTime,
+  endTime: job.endTime,
+}));
+
+// A scan job; the fields besides `endTime` differ per scan type
+type MockScanJob = { name: string; endTime: string; [key: string]: unknown };
+
+const dataScan = (
+  name: string,
+  entry: MockEntry,
+  type: string,
+  displayName: string,
+  spec: Record<string, unknown>,
+  jobs: MockScanJob[]
+) => {
+  const [latest] = jobs;
+  return {
+    name,
+    uid: `scan-${name.split('/').pop()}`,
+    description: '',
+    displayName,
+    labels: {},
+    state: 'ACTIVE',
+    createTime: '2026-09-01T12:00:00Z',
+    updateTime: '2026-09-01T12:00:00Z',
+    data: { resource: bigQueryResource(entry) },
+    executionSpec: { trigger: { schedule: { cron: 'TZ=UTC 15 6 * * *' } } },
+    executionStatus: { latestJobStartTime: latest.startTime, latestJobEndTime: latest.endTime, latestJobCreateTime: latest.createTime },
+    type,
+    ...spec,
+    ...(latest.dataQualityResult ? { dataQualityResult: latest.dataQualityResult } : {}),
+    ...(latest.dataProfileResult ? { dataProfileResult: latest.dataProfileResult } : {}),
+  };
+};
+
+/**
+ * Data scans with their jobs, newest first. `fullJobs` are the jobs of the
+ * documentation scan as the REST API returns them (`view=FULL`).
+ */
+export const MOCK_DATA_SCANS: { scan: ReturnType<typeof dataScan>; jobs: MockScanJob[]; fullJobs?: unknown[] }[] = [
+  {
+    scan: dataScan(EMPLOYEE_DQ, employeeTable, 'DATA_QUALITY', 'Employee data quality', {
+      dataQualitySpec: { rules: EMPLOYEE_DQ_RULES, samplingPercent: 100, rowFilter: '' },
+    }, EMPLOYEE_DQ_JOBS),
+    jobs: EMPLOYEE_DQ_JOBS,
+  },
+  {
+    scan: dataScan(EMPLOYEE_FINAL_DQ, employeeFinalTable, 'DATA_QUALITY', 'Payroll data quality', {
+      dataQualitySpec: { rules: EMPLOYEE_FINAL_DQ_RULES, samplingPercent: 100, rowFilter: '' },
+    }, EMPLOYEE_FINAL_DQ_JOBS),
+    jobs: EMPLOYEE_FINAL_DQ_JOBS,
+  },
+  {
+    scan: dataScan(EMPLOYEE_PROFILE, employeeTable, 'DATA_PROFILE', 'Employee profile', {
+      dataProfileSpec: { samplingPercent: 100, rowFilter: '', profileFields: null },
+    }, EMPLOYEE_PROFILE_JOBS),
+    jobs: EMPLOYEE_PROFILE_JOBS,
+  },
+  {
+    scan: dataScan(DOCUMENTATION_SCAN, employeeTable, 'DATA_DOCUMENTATION', 'Employee documentation', {
+      dataDocumentationSpec: { catalogPublishingEnabled: true },
+    }, DOCUMENTATION_JOBS),
+    jobs: DOCUMENTATION_JOBS,
+    fullJobs: mockInsightsData.insights,
+  },
+];
+
+// ---------------------------------------------------------------------------
+// Per-user and admin data
+// ---------------------------------------------------------------------------
+
+/** Defaults the Admin Panel starts from (version 1). */
+export const MOCK_ADMIN_CONFIG = {
+  products: ['BigQuery'],
+  assets: { BigQuery: ['Table', 'Dataset'] },
+  aspectTypes: ['Data Classification', 'Data Retention'],
+  aspectNames: {
+    'Data Classification': ['sensitivity', 'domain', 'pii'],
+    'Data Retention': ['retentionDays', 'legalHold'],
+  },
+};
+
+/** A saved search the mock user starts with. */
+export const MOCK_SAVED_SEARCHES = [
+  {
+    name: 'Confidential HR tables',
+    term: 'employee',
+    searchType: 'All',
+    filters: [{ name: 'BigQuery', type: 'system' }],
+    semanticSearch: true,
+  },
+];
+
+/** Entries the mock user has starred. */
+export const MOCK_FAVORITE_ENTRY_NAMES = [employeeTable.name, DATA_PRODUCT_ENTRIES[0].name];
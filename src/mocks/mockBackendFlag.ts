@@ -0,0 +1,13 @@
+/**
+ * @file mockBackendFlag.ts
+ * @description
+ * The switch for the offline mock backend, kept apart from `mockBackend.ts`
+ * so that checking it does not pull the fixture catalog into the bundle.
+ * `main.tsx` loads the mock itself with a dynamic import when it is on.
+ */
+
+/** Access token the mock sign-in hands out; the mock backend accepts any token. */
+export const MOCK_ACCESS_TOKEN = 'mock-access-token';
+
+/** True when the app was started with `VITE_USE_MOCK_BACKEND=true`. */
+export const isMockBackendEnabled = () => import.meta.env.VITE_USE_MOCK_BACKEND === 'true';
@@ -0,0 +1,1211 @@
+/**
+ * @file mockBackendRoutes.ts
+ * @description
+ * Request handlers of the offline mock backend. Every route of
+ * `backend/server.js` and every Dataplex REST call the app makes directly is
+ * answered from the fixtures in `mockBackendFixtures.ts`, in the same shape
+ * and with the same validation errors as the real services:
+ *
+ * - backend routes return the gRPC JSON shape (`{ seconds, nanos }`
+ *   timestamps, aspect data as `google.protobuf.Struct`);
+ * - `dataplex.googleapis.com` calls return the REST shape (ISO timestamps,
+ *   plain aspect data);
+ * - saved searches, favorites, the watchlist and the admin configuration are
+ *   kept in memory per `createMockBackendRoutes()` call, so every installed
+ *   mock backend starts from the same seed.
+ *
+ * Searches are evaluated with `parseSearchQuery`, the parser behind the
+ * SearchBar, so filter chips, advanced queries and the glossary queries all
+ * narrow the fixture catalog the way Dataplex would.
+ */
+
+import { URLS } from '../constants/urls';
+import { DATAPLEX_API_URL } from '../api/dataplexClient';
+import { getOverview, getSchemaFields, hasSchema } from '../utils/entryModel';
+import { parseSearchQuery, type QueryNode, type SearchFilter } from '../utils/searchQuery';
+import type { WatchSnapshot } from '../utils/watchlistDiff';
+import type { Favorite, FavoriteEntrySnapshot } from '../features/favorites/favoritesSlice';
+import type { SavedSearch, SavedSearchInput } from '../features/savedSearches/savedSearchesSlice';
+import type { WatchlistInboxItem } from '../features/watchlist/watchlistSlice';
+import {
+  MOCK_ADMIN_CONFIG,
+  MOCK_ASPECT_TYPES,
+  MOCK_DATA_PRODUCT_ASSETS,
+  MOCK_DATA_PRODUCTS,
+  MOCK_DATA_SCANS,
+  MOCK_ENTRIES,
+  MOCK_FAVORITE_ENTRY_NAMES,
+  MOCK_GLOSSARY_CATEGORIES,
+  MOCK_GLOSSARY_TERMS,
+  MOCK_LINEAGE_LINKS,
+  MOCK_LINEAGE_PROCESSES,
+  MOCK_PROJECT_ID,
+  MOCK_PROJECTS,
+  MOCK_SAMPLE_ROWS,
+  MOCK_SAVED_SEARCHES,
+  MOCK_TERM_LINKS,
+  MOCK_TERM_RELATIONS,
+  MOCK_USER,
+  type MockEntry,
+} from './mockBackendFixtures';
+
+export const GOOGLE_USERINFO_URL = 'https://www.googleapis.com/oauth2/v3/userinfo';
+
+export interface MockRequest {
+  method: string;
+  url: string;
+  query: URLSearchParams;
+  /** JSON object body of the request; null when it has none or another kind. */
+  body: Record<string, unknown> | null;
+  /** Bearer token of the request, if any. */
+  token: string | null;
+}
+
+export interface MockResponse {
+  status: number;
+  data: unknown;
+}
+
+type RouteHandler = (request: MockRequest, params: Record<string, string>) => MockResponse | unknown;
+
+interface Route {
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  host: 'backend' | 'api' | 'dataplex' | 'google';
+  path: RegExp;
+  handle: RouteHandler;
+}
+
+// Tells a response with a status apart from plain data, which is sent as 200.
+const RESPONSE = Symbol('mockResponse');
+
+const reply = (status: number, data: unknown) => ({ [RESPONSE]: true, status, data });
+
+const isReply = (value: unknown): value is ReturnType<typeof reply> =>
+  !!value && typeof value === 'object' && RESPONSE in value;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const asRecord = (value: unknown): Record<string, unknown> => (isRecord(value) ? value : {});
+
+// A string field of a request body; '' when it is missing or not a string
+const textOf = (value: unknown) => (typeof value === 'string' ? value : '');
+
+// ---------------------------------------------------------------------------
+// gRPC JSON shape
+// ---------------------------------------------------------------------------
+
+const toTimestamp = (iso: string | null | undefined) =>
+  iso ? { seconds: String(Math.floor(Date.parse(iso) / 1000)), nanos: 0 } : null;
+
+const toValue = (value: unknown): Record<string, unknown> => {
+  if (value === null || value === undefined) return { kind: 'nullValue', nullValue: 'NULL_VALUE' };
+  if (typeof value === 'string') return { kind: 'stringValue', stringValue: value };
+  if (typeof value === 'number') return { kind: 'numberValue', numberValue: value };
+  if (typeof value === 'boolean') return { kind: 'boolValue', boolValue: value };
+  if (Array.isArray(value)) return { kind: 'listValue', listValue: { values: value.map(toValue) } };
+  return { kind: 'structValue', structValue: toStruct(value as Record<string, unknown>) };
+};
+
+/** Plain aspect data as a `google.protobuf.Struct`, as the backend returns it. */
+export const toStruct = (data: Record<string, unknown>) => ({
+  fields: Object.fromEntries(Object.entries(data).map(([key, value]) => [key, toValue(value)])),
+});
+
+type ProtoTimestamp = ReturnType<typeof toTimestamp>;
+
+type ProtoTime<T> = T extends string ? ProtoTimestamp : WithProtoTimestamps<T>;
+
+/** `T` with its `*Time` strings as `{ seconds, nanos }`. */
+type WithProtoTimestamps<T> = T extends (infer Item)[]
+  ? WithProtoTimestamps<Item>[]
+  : T extends object
+    ? { [Key in keyof T]: Key extends `${string}Time` ? ProtoTime<T[Key]> : WithProtoTimestamps<T[Key]> }
+    : T;
+
+// Scans and lineage keep their fixtures in REST shape except for `*Time` fields.
+const withProtoTimestamps = <T>(value: T): WithProtoTimestamps<T> => {
+  if (Array.isArray(value)) return value.map(withProtoTimestamps) as WithProtoTimestamps<T>;
+  if (!value || typeof value !== 'object') return value as WithProtoTimestamps<T>;
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+    key,
+    key.endsWith('Time') && typeof item === 'string' ? toTimestamp(item) : withProtoTimestamps(item),
+  ])) as WithProtoTimestamps<T>;
+};
+
+/** A fixture entry as the backend's `getEntry` returns it. */
+export const toProtoEntry = (entry: MockEntry, withAspects = true) => ({
+  ...entry,
+  createTime: toTimestamp(entry.createTime),
+  updateTime: toTimestamp(entry.updateTime),
+  entrySource: {
+    ...entry.entrySource,
+    createTime: toTimestamp(entry.entrySource.createTime),
+    updateTime: toTimestamp(entry.entrySource.updateTime),
+  },
+  aspects: withAspects
+    ? Object.fromEntries(Object.entries(entry.aspects).map(([key, aspect]) => [key, {
+      ...aspect,
+      createTime: toTimestamp(aspect.createTime),
+      updateTime: toTimestamp(aspect.updateTime),
+      data: toStruct(aspect.data),
+      aspectSource: null,
+    }]))
+    : {},
+});
+
+// ---------------------------------------------------------------------------
+// Lookups
+// ---------------------------------------------------------------------------
+
+const PROJECT_NUMBERS: Record<string, string> = Object.fromEntries(
+  MOCK_PROJECTS.map(({ projectId, name }) => [projectId, name.split('/')[1]])
+);
+
+// Resource names use project ids and numbers interchangeably.
+const canonicalName = (name: string) =>
+  Object.entries(PROJECT_NUMBERS).reduce(
+    (result, [projectId, projectNumber]) => result.split(`projects/${projectId}/`).join(`projects/${projectNumber}/`),
+    name.replace(/^\/\//, '')
+  );
+
+const lastSegment = (name: string) => name.split('/').pop() ?? '';
+
+const entryId = (name: string) => name.split('/entries/').slice(1).join('/entries/');
+
+/** The entry called `name`; the entry group's project and location may differ. */
+const findEntry = (name: unknown) => {
+  if (typeof name !== 'string' || !name) return undefined;
+  const canonical = canonicalName(name);
+  return MOCK_ENTRIES.find((entry) => canonicalName(entry.name) === canonical)
+    ?? MOCK_ENTRIES.find((entry) => entryId(entry.name) !== '' && canonicalName(entryId(entry.name)) === canonicalName(entryId(name)));
+};
+
+const findEntryByFqn = (fqn: string | null | undefined) =>
+  MOCK_ENTRIES.find((entry) => entry.fullyQualifiedName === fqn);
+
+const findScan = (name: string | null | undefined) =>
+  MOCK_DATA_SCANS.find(({ scan }) => !!name && (canonicalName(scan.name) === canonicalName(name) || lastSegment(scan.name) === name));
+
+const findAspectType = (name: string) =>
+  MOCK_ASPECT_TYPES.find((aspectType) => lastSegment(aspectType.name) === lastSegment(name).replace(/_aspectType$/, ''));
+
+const notFound = (details: string) =>
+  reply(404, { error: 'Resource Not Found: The specified resource could not be found.', details });
+
+// Errors of dataplex.googleapis.com
+const googleError = (status: number, code: string, message: string) =>
+  reply(status, { error: { code: status, message, status: code } });
+
+// ---------------------------------------------------------------------------
+// Search
+// ---------------------------------------------------------------------------
+
+// `bigquery-table` -> `table`, `glossary-term` -> `glossary_term`
+const typeAlias = (entry: MockEntry) => lastSegment(entry.entryType).replace(/^bigquery-/, '').replace(/-/g, '_');
+
+const projectOf = (entry: MockEntry) => {
+  const match = canonicalName(entry.entrySource.resource || entry.name).match(/^projects\/([^/]+)/);
+  return match ? match[1] : '';
+};
+
+const aspectOf = (entry: MockEntry, aspect: string) => {
+  const id = aspect.split('.').slice(2).join('.') || aspect;
+  return Object.entries(entry.aspects).find(([key]) => key.split('.').slice(2).join('.') === id)?.[1];
+};
+
+const searchableText = (entry: MockEntry) => [
+  entry.entrySource.displayName,
+  entry.entrySource.description,
+  entry.fullyQualifiedName,
+  entry.name,
+  ...Object.values(entry.entrySource.labels),
+  ...getSchemaFields(entry).map((field) => field.name),
+  getOverview(entry),
+].join(' ').toLowerCase();
+
+const termLinks = (termName: string) =>
+  Object.entries(MOCK_TERM_LINKS).find(([term]) => term === termName || lastSegment(term) === lastSegment(termName))?.[1] ?? [];
+
+const relatedTerms = (relation: 'synonym' | 'related', termName: string) =>
+  MOCK_TERM_RELATIONS[relation]
+    .filter((pair) => pair.some((name) => name === termName || lastSegment(name) === lastSegment(termName)))
+    .flat()
+    .filter((name) => name !== termName && lastSegment(name) !== lastSegment(termName));
+
+const matchesPredicate = (entry: MockEntry, key: string, values: string[]) => {
+  const lowerKey = key.toLowerCase();
+  const anyValue = (test: (value: string) => boolean) => values.some((value) => test(value));
+  switch (lowerKey) {
+    case 'exp':
+      return true;
+    case 'fully_qualified_name':
+    case 'fqn':
+      return anyValue((value) => entry.fullyQualifiedName === value);
+    case 'name':
+    case 'displayname':
+      return anyValue((value) => entry.entrySource.displayName.toLowerCase().includes(value.toLowerCase()));
+    case 'description':
+      return anyValue((value) => entry.entrySource.description.toLowerCase().includes(value.toLowerCase()));
+    case 'parent':
+      return anyValue((value) => canonicalName(entry.parentEntry).includes(canonicalName(value)));
+    case 'location':
+      return anyValue((value) => entry.entrySource.location === value);
+    case 'term':
+      return anyValue((value) => termLinks(value).includes(entry.name));
+    case 'synonym':
+    case 'related':
+      return anyValue((value) => relatedTerms(lowerKey, value).some((name) => entryId(entry.name) === name));
+    default:
+      if (lowerKey.startsWith('labels.') || lowerKey.startsWith('label.')) {
+        const label = entry.entrySource.labels[key.split('.').slice(1).join('.')];
+        return label !== undefined && anyValue((value) => value === '' || label === value);
+      }
+      return anyValue((value) => searchableText(entry).includes(value.toLowerCase()));
+  }
+};
+
+// Text words are alternatives (any of them may match); every filter must match.
+const matchesQuery = (entry: MockEntry, node: QueryNode): boolean => {
+  switch (node.kind) {
+    case 'text':
+      return searchableText(entry).includes(node.value.toLowerCase());
+    case 'has':
+      return !!aspectOf(entry, node.aspect);
+    case 'aspectField': {
+      const value = aspectOf(entry, node.aspect)?.data?.[node.field];
+      return value !== undefined && String(value).toLowerCase().includes(node.value.toLowerCase());
+    }
+    case 'in':
+      return node.values.some((value) => {
+        const lower = value.toLowerCase();
+        if (node.field === 'system') {
+          // The catalog's own entries are DATAPLEX, filtered on as DATAPLEX_UNIVERSAL_CATALOG
+          return entry.entrySource.system.toLowerCase() === lower.replace(/_universal_catalog$/, '');
+        }
+        if (node.field === 'type') return typeAlias(entry) === lastSegment(lower).replace(/-/g, '_');
+        return projectOf(entry) === canonicalName(`projects/${value}/`).split('/')[1];
+      });
+    case 'predicate':
+      return matchesPredicate(entry, node.key, node.values);
+    case 'not':
+      return !matchesQuery(entry, node.child);
+    case 'or':
+      return node.children.some((child) => matchesQuery(entry, child));
+    case 'and': {
+      const words = node.children.filter((child) => child.kind === 'text');
+      return (words.length === 0 || words.some((child) => matchesQuery(entry, child)))
+        && node.children.filter((child) => child.kind !== 'text').every((child) => matchesQuery(entry, child));
+    }
+  }
+};
+
+const textScore = (entry: MockEntry, node: QueryNode): number => {
+  if (node.kind === 'text') {
+    const word = node.value.toLowerCase();
+    if (entry.entrySource.displayName.toLowerCase() === word) return 3;
+    if (entry.entrySource.displayName.toLowerCase().includes(word)) return 2;
+    return searchableText(entry).includes(word) ? 1 : 0;
+  }
+  if (node.kind === 'and' || node.kind === 'or') {
+    return node.children.reduce((score, child) => score + textScore(entry, child), 0);
+  }
+  return 0;
+};
+
+// Matching entries, best first, and the page asked for. Page tokens are offsets.
+const searchCatalog = (body: Record<string, unknown> | null, defaultPageSize: number) => {
+  const { query, pageSize, pageToken, orderBy } = asRecord(body);
+  const ast = parseSearchQuery(textOf(query));
+  const matches = MOCK_ENTRIES
+    .filter((entry) => matchesQuery(entry, ast))
+    .map((entry, index) => ({ entry, index, score: textScore(entry, ast) }))
+    .sort((a, b) => (textOf(orderBy).startsWith('last_modified')
+      ? Date.parse(b.entry.updateTime) - Date.parse(a.entry.updateTime)
+      : b.score - a.score || a.index - b.index))
+    .map(({ entry }) => entry);
+  const size = typeof pageSize === 'number' && pageSize > 0 ? pageSize : defaultPageSize;
+  const offset = Number.parseInt(textOf(pageToken) || '0', 10) || 0;
+  return {
+    page: matches.slice(offset, offset + size),
+    totalSize: matches.length,
+    nextPageToken: offset + size < matches.length ? String(offset + size) : '',
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Lineage
+// ---------------------------------------------------------------------------
+
+const processByLink = (linkName: string) => MOCK_LINEAGE_LINKS.find((link) => link.name === linkName)?.process ?? '';
+
+const searchLinks = (side: 'source' | 'target', fqn: string) =>
+  MOCK_LINEAGE_LINKS
+    .filter((link) => link[side].fullyQualifiedName === fqn)
+    // The backend answers with the link only; the process comes from getProcessDetails
+    .map(({ name, source, target, startTime, endTime }) => ({
+      name,
+      source,
+      target,
+      startTime: toTimestamp(startTime),
+      endTime: toTimestamp(endTime),
+    }));
+
+type ProtoLink = ReturnType<typeof searchLinks>[number];
+
+const withProcess = <Link extends { name: string }>(link: Link) => ({ ...link, process: processByLink(link.name) });
+
+const schemaColumns = (fqn: string) => {
+  const entry = findEntryByFqn(fqn);
+  return hasSchema(entry) ? getSchemaFields(entry).map((field) => field.name) : null;
+};
+
+const LINEAGE_DIRECTIONS = ['upstream', 'downstream', 'both'];
+
+type LineageDirection = 'upstream' | 'downstream';
+
+interface LineageNode {
+  fqn: string;
+  depth: number;
+  direction: LineageDirection | 'root';
+}
+
+interface TraversedLink extends ProtoLink {
+  depth: number;
+  direction: LineageDirection;
+  cycle: boolean;
+}
+
+const clampInteger = (value: unknown, fallback: number, max: number) => {
+  const number = Number.parseInt(String(value), 10);
+  if (!Number.isFinite(number)) return fallback;
+  return Math.min(Math.max(number, 1), max);
+};
+
+// Breadth-first walk of backend/services/lineageTraversalService.js
+const traverseLineage = (body: Record<string, unknown> | null) => {
+  const { parent, fqn, direction = 'both', depth, maxNodes, includeSchemas = false } = asRecord(body);
+  if (typeof parent !== 'string' || parent.trim() === '' || typeof fqn !== 'string' || fqn.trim() === '') {
+    return reply(400, { message: 'Bad Request: "parent" and "fqn" fields are required.' });
+  }
+  if (typeof direction !== 'string' || !LINEAGE_DIRECTIONS.includes(direction)) {
+    return reply(400, { message: `Bad Request: "direction" must be one of ${LINEAGE_DIRECTIONS.join(', ')}.` });
+  }
+  const maxDepth = clampInteger(depth, 3, 10);
+  const nodeLimit = clampInteger(maxNodes, 200, 500);
+  const nodes = new Map<string, LineageNode>([[fqn, { fqn, depth: 0, direction: 'root' }]]);
+  const links = new Map<string, TraversedLink>();
+  let truncated = false;
+
+  const walk = (walkDirection: LineageDirection) => {
+    const upstream = walkDirection === 'upstream';
+    const parentsOf = new Map<string, string[]>([[fqn, []]]);
+    const isAncestor = (from: string, ancestor: string) => {
+      const seen = new Set<string>();
+      const stack = [from];
+      while (stack.length > 0) {
+        const current = stack.pop() as string;
+        if (current === ancestor) return true;
+        if (seen.has(current)) continue;
+        seen.add(current);
+        stack.push(...(parentsOf.get(current) ?? []));
+      }
+      return false;
+    };
+    let frontier = [fqn];
+    for (let hop = 1; hop <= maxDepth && frontier.length > 0; hop++) {
+      const nextFrontier: string[] = [];
+      frontier.forEach((from) => {
+        searchLinks(upstream ? 'target' : 'source', from).forEach((link) => {
+          const to = upstream ? link.source.fullyQualifiedName : link.target.fullyQualifiedName;
+          const known = parentsOf.has(to);
+          if (!known && !nodes.has(to) && nodes.size >= nodeLimit) {
+            truncated = true;
+            return;
+          }
+          if (!links.has(link.name)) {
+            links.set(link.name, { ...link, depth: hop, direction: walkDirection, cycle: known && isAncestor(from, to) });
+          }
+          if (known) {
+            parentsOf.get(to)?.push(from);
+            return;
+          }
+          parentsOf.set(to, [from]);
+          if (!nodes.has(to)) nodes.set(to, { fqn: to, depth: hop, direction: walkDirection });
+          nextFrontier.push(to);
+        });
+      });
+      frontier = nextFrontier;
+    }
+  };
+  if (direction !== 'downstream') walk('upstream');
+  if (direction !== 'upstream') walk('downstream');
+
+  return {
+    root: fqn,
+    nodes: [...nodes.values()],
+    links: [...links.values()].map(withProcess),
+    truncated,
+    cancelled: false,
+    ...(includeSchemas === true && {
+      schemas: Object.fromEntries([...nodes.keys()].map((node) => [node, schemaColumns(node)])),
+    }),
+  };
+};
+
+const processDetails = (processName: string) => {
+  const found = MOCK_LINEAGE_PROCESSES.find(({ process }) => process.name === processName);
+  if (!found) return notFound(`Process ${processName} not found`);
+  const { process, runs, job } = found;
+  const [projectId, location] = process.origin.name.split(':');
+  return {
+    processDetails: {
+      ...process,
+      attributes: { bigquery_job_id: { kind: 'stringValue', stringValue: process.attributes.bigquery_job_id } },
+    },
+    processRuns: withProtoTimestamps(runs),
+    jobDetails: [
+      { id: job.id, location: location.toUpperCase(), projectId },
+      {
+        kind: 'bigquery#job',
+        id: `${projectId}:${location.toUpperCase()}.${job.id}`,
+        selfLink: `https://bigquery.googleapis.com/bigquery/v2/projects/${projectId}/jobs/${job.id}?location=${location.toUpperCase()}`,
+        user_email: MOCK_USER.email,
+        jobReference: { projectId, jobId: job.id, location: location.toUpperCase() },
+        configuration: { jobType: 'QUERY', query: { query: job.query, useLegacySql: false } },
+        statistics: {
+          creationTime: String(Date.parse(job.startTime)),
+          startTime: String(Date.parse(job.startTime)),
+          endTime: String(Date.parse(job.endTime)),
+          finalExecutionDurationMs: String(Date.parse(job.endTime) - Date.parse(job.startTime)),
+          totalBytesProcessed: job.totalBytesProcessed,
+        },
+        status: { state: 'DONE' },
+      },
+    ],
+  };
+};
+
+const columnLevelLineage = (fqn: string) => {
+  const entryOf = (linkedFqn: string) => {
+    const entry = findEntryByFqn(linkedFqn);
+    return entry ? toProtoEntry(entry) : null;
+  };
+  return {
+    sourceLinks: searchLinks('source', fqn).map((link) => ({
+      ...withProcess(link), children: [], targetEntry: entryOf(link.target.fullyQualifiedName),
+    })),
+    targetLinks: searchLinks('target', fqn).map((link) => ({
+      ...withProcess(link), children: [], sourceEntry: entryOf(link.source.fullyQualifiedName),
+    })),
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Data scans
+// ---------------------------------------------------------------------------
+
+const scansOfProject = (project: string | null) => MOCK_DATA_SCANS
+  .filter(({ scan }) => !project || project === 'undefined' || canonicalName(scan.name).startsWith(canonicalName(`projects/${project}/`)))
+  .map(({ scan }) => withProtoTimestamps(scan));
+
+const jobsOf = (scanName: string) => withProtoTimestamps(findScan(scanName)?.jobs ?? []);
+
+// ---------------------------------------------------------------------------
+// Routes
+// ---------------------------------------------------------------------------
+
+const randomId = () =>
+  typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(16)}-${Math.random().toString(16).slice(2)}`;
+
+const isNonEmptyString = (value: unknown, maxLength: number): value is string =>
+  typeof value === 'string' && value.trim() !== '' && value.length <= maxLength;
+
+const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// The Admin Panel settings, as saved from the request body
+interface AdminConfigFields {
+  products: unknown[];
+  assets: unknown;
+  aspectTypes: unknown[];
+  aspectNames: unknown;
+}
+
+interface AdminConfig extends AdminConfigFields {
+  version: number;
+  updatedAt: string;
+  updatedBy: string;
+  comment: string;
+}
+
+const toRevision = (config: AdminConfig, restoredFrom: number | null = null) => ({
+  version: config.version,
+  updatedAt: config.updatedAt,
+  updatedBy: config.updatedBy,
+  comment: config.comment,
+  restoredFrom,
+  config: {
+    products: config.products,
+    assets: config.assets,
+    aspectTypes: config.aspectTypes,
+    aspectNames: config.aspectNames,
+  },
+});
+
+const toAppConfigDefaults = (config: AdminConfig) => ({
+  defaultSearchProduct: config.products,
+  defaultSearchAssets: config.assets,
+  browseByAspectTypes: config.aspectNames,
+  browseByAspectTypesLabels: config.aspectTypes,
+  configVersion: config.version,
+});
+
+// Takes a fixture entry or one sent by the app, in either timestamp shape
+const favoriteSnapshot = (entry: unknown): FavoriteEntrySnapshot => {
+  const { name, entryType, fullyQualifiedName, updateTime, entrySource } = asRecord(entry);
+  const source = asRecord(entrySource);
+  return {
+    name: textOf(name),
+    entryType: textOf(entryType),
+    fullyQualifiedName: textOf(fullyQualifiedName),
+    updateTime: isRecord(updateTime) && updateTime.seconds !== undefined
+      ? new Date(Number(updateTime.seconds) * 1000).toISOString()
+      : typeof updateTime === 'string' ? updateTime : null,
+    entrySource: {
+      displayName: textOf(source.displayName),
+      system: textOf(source.system),
+      description: textOf(source.description),
+      location: textOf(source.location),
+      resource: textOf(source.resource),
+    },
+  };
+};
+
+/**
+ * Creates the routes of one mock backend with its own copy of the per-user
+ * data. `handle` answers a request, or returns null when no route matches.
+ */
+export const createMockBackendRoutes = () => {
+  const now = () => new Date().toISOString();
+  const seededAt = now();
+
+  // Per-user data of the signed-in mock user
+  let savedSearches: SavedSearch[] = MOCK_SAVED_SEARCHES.map((search) => ({
+    id: randomId(),
+    owner: MOCK_USER.email,
+    ...search,
+    createdAt: seededAt,
+    updatedAt: seededAt,
+    lastRunAt: null,
+    lastResultCount: null,
+    previousResultCount: null,
+  }));
+  let favorites: Favorite[] = MOCK_FAVORITE_ENTRY_NAMES.map((entryName) => ({
+    entryName,
+    owner: MOCK_USER.email,
+    entry: favoriteSnapshot(findEntry(entryName)),
+    addedAt: seededAt,
+    status: 'available',
+    checkedAt: null,
+  }));
+  let watchlist: { snapshots: WatchSnapshot[]; inbox: WatchlistInboxItem[] } = { snapshots: [], inbox: [] };
+  let adminConfig: AdminConfig = {
+    ...MOCK_ADMIN_CONFIG,
+    version: 1,
+    updatedAt: seededAt,
+    updatedBy: MOCK_USER.email,
+    comment: '',
+  };
+  const adminRevisions: ReturnType<typeof toRevision>[] = [];
+
+  const unauthorized = () => reply(401, { success: false, error: 'Unauthorized: a valid access token is required.' });
+  const serviceError = (status: number, error: string) => reply(status, { success: false, error });
+
+  const sanitizeSavedSearch = (input: unknown): SavedSearchInput | string => {
+    if (!isRecord(input)) return 'Saved search body is required';
+    if (!isNonEmptyString(input.name, 200)) return 'Name is required and must be at most 200 characters';
+    const term = typeof input.term === 'string' ? input.term.trim() : '';
+    const filters = Array.isArray(input.filters) ? input.filters : [];
+    if (filters.some((filter: unknown) => !isRecord(filter) || !isNonEmptyString(filter.name, 500) || !isNonEmptyString(filter.type, 100))) {
+      return 'Each filter needs a name and a type';
+    }
+    if (term === '' && filters.length === 0) return 'A saved search needs a term or at least one filter';
+    return {
+      name: input.name.trim(),
+      term,
+      searchType: isNonEmptyString(input.searchType, 100) ? input.searchType : 'All',
+      filters: filters.map(({ name, type, subAnnotationData }: SearchFilter) => ({ name, type, ...(Array.isArray(subAnnotationData) && { subAnnotationData }) })),
+      semanticSearch: input.semanticSearch !== false,
+    };
+  };
+
+  const commitAdminConfig = (
+    config: AdminConfigFields,
+    { comment, expectedVersion, restoredFrom = null }: { comment: string; expectedVersion?: unknown; restoredFrom?: number | null }
+  ) => {
+    if (expectedVersion !== undefined && expectedVersion !== null && expectedVersion !== adminConfig.version) {
+      return serviceError(409, `The configuration was changed by someone else (version ${adminConfig.version}). Reload and try again.`);
+    }
+    const saved: AdminConfig = { ...config, version: adminConfig.version + 1, updatedAt: now(), updatedBy: MOCK_USER.email, comment };
+    if (adminRevisions.length === 0) adminRevisions.push(toRevision(adminConfig));
+    adminRevisions.push(toRevision(saved, restoredFrom));
+    adminConfig = saved;
+    return {
+      success: true,
+      version: saved.version,
+      updatedAt: saved.updatedAt,
+      updatedBy: saved.updatedBy,
+      config: toAppConfigDefaults(saved),
+    };
+  };
+
+  const listRevisions = () => ({
+    currentVersion: adminConfig.version,
+    revisions: [...(adminRevisions.length > 0 ? adminRevisions : [toRevision(adminConfig)])].reverse(),
+  });
+
+  const validateRequester = (body: Record<string, unknown> | null) => {
+    const { requesterEmail, projectId } = asRecord(body);
+    if (!isNonEmptyString(requesterEmail, 320)) return 'Requester email is required and must be a non-empty string';
+    if (!isNonEmptyString(projectId, 200)) return 'Project ID is required and must be a non-empty string';
+    if (!EMAIL_PATTERN.test(requesterEmail)) return 'Invalid email format';
+    return null;
+  };
+
+  const routes: Route[] = [
+    // --- Catalog -----------------------------------------------------------
+    {
+      method: 'POST', host: 'backend', path: /^\/check-permissions$/,
+      handle: ({ body }) => {
+        const permissions = body?.permissions;
+        if (!Array.isArray(permissions) || permissions.length === 0 || !permissions.every((p) => typeof p === 'string' && p.trim() !== '')) {
+          return reply(400, { error: 'permissions is required and must be a non-empty array of strings.' });
+        }
+        return {
+          hasPermission: true,
+          grantedPermissions: permissions,
+          missingPermissions: [],
+          message: `User has all required permissions on project ${MOCK_PROJECT_ID}.`,
+        };
+      },
+    },
+    {
+      method: 'POST', host: 'backend', path: /^\/search$/,
+      handle: ({ body }) => {
+        if (!body?.query) {
+          return reply(400, { message: 'Bad Request: A "query" field is required in the request body.' });
+        }
+        const { page, totalSize, nextPageToken } = searchCatalog(body, 20);
+        const results = page.map((entry) => ({ linkedResource: '', dataplexEntry: toProtoEntry(entry), snippets: { dataplexEntry: null } }));
+        return {
+          data: results,
+          requestData: nextPageToken ? { name: `projects/${MOCK_PROJECT_ID}/locations/global`, query: body.query, pageSize: body.pageSize ?? 20, pageToken: nextPageToken } : null,
+          results: { results, totalSize, nextPageToken, unreachable: [] },
+        };
+      },
+    },
+    {
+      method: 'POST', host: 'backend', path: /^\/aspects$/,
+      handle: ({ body }) => {
+        const entry = findEntry(body?.entryName);
+        return entry ? toProtoEntry(entry).aspects : notFound(`Entry ${body?.entryName} not found`);
+      },
+    },
+    {
+      method: 'POST', host: 'backend', path: /^\/batch-aspects$/,
+      handle: ({ body }) => {
+        if (!Array.isArray(body?.entryNames)) {
+          return reply(400, { error: 'Bad Request: An "entryNames" field (array of strings) is required.' });
+        }
+        const missing = body.entryNames.find((name: string) => !findAspectType(name));
+        if (missing) return notFound(`Aspect type ${missing} not found`);
+        return Object.fromEntries(body.entryNames.map((name: string) => {
+          const aspectType = findAspectType(name) as (typeof MOCK_ASPECT_TYPES)[number];
+          return [aspectType.displayName ?? name, aspectType.metadataTemplate.recordFields.map((field) => field.name)];
+        }));
+      },
+    },
+    { method: 'GET', host: 'backend', path: /^\/aspect-types$/, handle: () => withProtoTimestamps(MOCK_ASPECT_TYPES) },
+    { method: 'GET', host: 'backend', path: /^\/entry-list$/, handle: () => MOCK_ENTRIES.map((entry) => toProtoEntry(entry, false)) },
+    {
+      method: 'GET', host: 'backend', path: /^\/entry-types$/,
+      handle: () => [...new Set(MOCK_ENTRIES.map((entry) => entry.entryType))].map((name) => ({
+        name,
+        displayName: lastSegment(name).split('-').map((word) => word[0].toUpperCase() + word.slice(1)).join(' '),
+        system: name.includes('bigquery') ? 'BigQuery' : 'Dataplex',
+      })),
+    },
+    { method: 'GET', host: 'backend', path: /^\/tag-templates$/, handle: () => [] },
+    ...(['/get-entry', '/lookup-entry'].map((path): Route => ({
+      method: 'GET', host: 'backend', path: new RegExp(`^${path}$`),
+      handle: ({ query }) => {
+        const entry = findEntry(query.get('entryName'));
+        return entry ? toProtoEntry(entry) : notFound(`Entry ${query.get('entryName')} not found`);
+      },
+    }))),
+    {
+      method: 'GET', host: 'backend', path: /^\/check-entry-access$/,
+      handle: ({ query }) => {
+        if (!query.get('entryName')) return reply(400, { error: 'Entry name is required' });
+        const entry = findEntry(query.get('entryName'));
+        return entry ? { accessible: true, name: entry.name, entryType: entry.entryType } : notFound(`Entry ${query.get('entryName')} not found`);
+      },
+    },
+    {
+      method: 'GET', host: 'backend', path: /^\/get-entry-by-fqn$/,
+      handle: ({ query }) => {
+        const entry = findEntryByFqn(query.get('fqn'));
+        return entry ? toProtoEntry(entry) : notFound(`No entry with fully qualified name ${query.get('fqn')}`);
+      },
+    },
+    {
+      method: 'GET', host: 'backend', path: /^\/get-sample-data$/,
+      handle: ({ query }) => {
+        const rows = MOCK_SAMPLE_ROWS[query.get('fqn') ?? ''];
+        return rows ? rows.slice(0, 10) : notFound(`Table ${query.get('fqn')} not found`);
+      },
+    },
+    {
+      method: 'POST', host: 'backend', path: /^\/get-dataset-entries$/,
+      handle: ({ body }) => {
+        if (typeof body?.parent !== 'string' || !body.parent) return reply(400, { message: 'Bad Request: An "parent" field is required.' });
+        return {
+          name: body.parent,
+          uid: `entry-group-${lastSegment(body.parent)}`,
+          displayName: lastSegment(body.parent),
+          description: '',
+          labels: {},
+          createTime: toTimestamp('2026-03-02T11:30:00Z'),
+          updateTime: toTimestamp('2026-03-02T11:30:00Z'),
+          transferStatus: 'TRANSFER_STATUS_UNSPECIFIED',
+        };
+      },
+    },
+
+    // --- Lineage -----------------------------------------------------------
+    {
+      method: 'POST', host: 'backend', path: /^\/lineage$/,
+      handle: ({ body }) => {
+        if (!body?.fqn && !body?.parent) return reply(400, { message: 'Bad Request: A "fqn and parent" field is required.' });
+        return {
+          sourceLinks: searchLinks('source', textOf(body.fqn)).map(withProcess),
+          targetLinks: searchLinks('target', textOf(body.fqn)).map(withProcess),
+        };
+      },
+    },
+    // Both send only the first link, like the backend
+    {
+      method: 'POST', host: 'backend', path: /^\/lineage-downstream$/,
+      handle: ({ body }) => (!body?.fqn && !body?.parent
+        ? reply(400, { message: 'Bad Request: A "fqn and parent" field is required.' })
+        : { sourceLinks: searchLinks('source', textOf(body.fqn))[0] }),
+    },
+    {
+      method: 'POST', host: 'backend', path: /^\/lineage-upstream$/,
+      handle: ({ body }) => (!body?.fqn && !body?.parent
+        ? reply(400, { message: 'Bad Request: A "fqn and parent" field is required.' })
+        : { targetLinks: searchLinks('target', textOf(body.fqn))[0] }),
+    },
+    { method: 'POST', host: 'backend', path: /^\/lineage-traverse$/, handle: ({ body }) => traverseLineage(body) },
+    {
+      method: 'POST', host: 'backend', path: /^\/lineage-processes$/,
+      handle: ({ body }) => (!body?.parent
+        ? reply(400, { message: 'Bad Request: A "parent" field is required.' })
+        : { processes: MOCK_LINEAGE_PROCESSES.map(({ process }) => process).filter((process) => canonicalName(process.name).startsWith(canonicalName(`${body.parent}/`))) }),
+    },
+    {
+      method: 'POST', host: 'backend', path: /^\/get-process-and-job-details$/,
+      handle: ({ body }) => (!body?.process ? reply(400, { message: 'Bad Request: A "process" field is required.' }) : processDetails(String(body.process))),
+    },
+    {
+      method: 'POST', host: 'backend', path: /^\/lineage-column-level$/,
+      handle: ({ body }) => (!body?.fqn && !body?.parent
+        ? reply(400, { message: 'Bad Request: A "fqn and parent" field is required.' })
+        : columnLevelLineage(textOf(body.fqn))),
+    },
+
+    // --- Projects and configuration ------------------------------------------
+    ...(['/projects', '/get-projects'].map((path): Route => ({
+      method: 'GET', host: 'backend', path: new RegExp(`^${path}$`), handle: () => MOCK_PROJECTS,
+    }))),
+    {
+      method: 'POST', host: 'backend', path: /^\/get-aspect-detail$/,
+      handle: ({ body }) => {
+        if (!body?.name) return reply(400, { message: 'Bad Request: A "name" field is required.' });
+        const aspectType = findAspectType(String(body.name));
+        return aspectType ? withProtoTimestamps(aspectType) : notFound(`Aspect type ${body.name} not found`);
+      },
+    },
+    {
+      method: 'GET', host: 'backend', path: /^\/app-configs$/,
+      handle: () => ({
+        aspects: MOCK_ENTRIES
+          .filter((entry) => typeAlias(entry) === 'aspecttype')
+          .map((entry) => {
+            const { name, fullyQualifiedName, entrySource, entryType } = toProtoEntry(entry, false);
+            return { dataplexEntry: { name, fullyQualifiedName, entrySource, entryType } };
+          }),
+        projects: MOCK_PROJECTS,
+        ...toAppConfigDefaults(adminConfig),
+        isAdmin: true,
+      }),
+    },
+    {
+      method: 'POST', host: 'backend', path: /^\/admin\/configure$/,
+      handle: ({ body }) => {
+        if (!body || typeof body !== 'object') return serviceError(400, 'Configuration body is required');
+        return commitAdminConfig({
+          products: Array.isArray(body.products) ? body.products : [],
+          assets: body.assets ?? {},
+          aspectTypes: Array.isArray(body.aspectType) ? body.aspectType : [],
+          aspectNames: body.aspectName ?? {},
+        }, { comment: typeof body.comment === 'string' ? body.comment.trim() : '', expectedVersion: body.expectedVersion });
+      },
+    },
+    { method: 'GET', host: 'backend', path: /^\/admin\/config\/revisions$/, handle: () => listRevisions() },
+    {
+      method: 'POST', host: 'backend', path: /^\/admin\/config\/revisions\/(?<version>[^/]+)\/restore$/,
+      handle: ({ body }, { version }) => {
+        const number = Number(version);
+        if (!Number.isInteger(number) || number < 0) return serviceError(400, 'version must be a non-negative integer');
+        const revision = listRevisions().revisions.find((item) => item.version === number);
+        if (!revision) return serviceError(404, `Version ${number} of the configuration was not found`);
+        return commitAdminConfig(revision.config, {
+          expectedVersion: body?.expectedVersion,
+          restoredFrom: number,
+          comment: (typeof body?.comment === 'string' && body.comment.trim()) || `Rolled back to version ${number}`,
+        });
+      },
+    },
+
+    // --- Saved searches --------------------------------------------------
+    { method: 'GET', host: 'backend', path: /^\/saved-searches$/, handle: () => savedSearches },
+    {
+      method: 'POST', host: 'backend', path: /^\/saved-searches\/import$/,
+      handle: ({ body }) => {
+        if (!Array.isArray(body?.savedSearches)) return serviceError(400, 'Import must be an array of saved searches');
+        const imported: SavedSearch[] = [];
+        const skipped: { index: number; error: string }[] = [];
+        body.savedSearches.forEach((item: unknown, index: number) => {
+          const search = sanitizeSavedSearch(item);
+          if (typeof search === 'string') {
+            skipped.push({ index, error: search });
+            return;
+          }
+          imported.push({ id: randomId(), owner: MOCK_USER.email, ...search, createdAt: now(), updatedAt: now(), lastRunAt: null, lastResultCount: null, previousResultCount: null });
+        });
+        savedSearches = [...savedSearches, ...imported];
+        return { imported, skipped };
+      },
+    },
+    {
+      method: 'POST', host: 'backend', path: /^\/saved-searches$/,
+      handle: ({ body }) => {
+        const search = sanitizeSavedSearch(body);
+        if (typeof search === 'string') return serviceError(400, search);
+        const resultCount = isCount(body?.resultCount) ? body.resultCount : null;
+        const record = {
+          id: randomId(),
+          owner: MOCK_USER.email,
+          ...search,
+          createdAt: now(),
+          updatedAt: now(),
+          lastRunAt: resultCount === null ? null : now(),
+          lastResultCount: resultCount,
+          previousResultCount: null,
+        };
+        savedSearches = [...savedSearches, record];
+        return reply(201, record);
+      },
+    },
+    {
+      method: 'PUT', host: 'backend', path: /^\/saved-searches\/(?<id>[^/]+)$/,
+      handle: ({ body }, { id }) => {
+        const search = sanitizeSavedSearch(body);
+        if (typeof search === 'string') return serviceError(400, search);
+        const existing = savedSearches.find((record) => record.id === id);
+        if (!existing) return serviceError(404, 'Saved search not found');
+        const record = { ...existing, ...search, updatedAt: now() };
+        savedSearches = savedSearches.map((item) => (item.id === id ? record : item));
+        return record;
+      },
+    },
+    {
+      method: 'POST', host: 'backend', path: /^\/saved-searches\/(?<id>[^/]+)\/runs$/,
+      handle: ({ body }, { id }) => {
+        const resultCount = body?.resultCount;
+        if (!isCount(resultCount)) return serviceError(400, 'Result count must be a non-negative integer');
+        const existing = savedSearches.find((record) => record.id === id);
+        if (!existing) return serviceError(404, 'Saved search not found');
+        const record = { ...existing, lastRunAt: now(), lastResultCount: resultCount, previousResultCount: existing.lastResultCount ?? null };
+        savedSearches = savedSearches.map((item) => (item.id === id ? record : item));
+        return record;
+      },
+    },
+    {
+      method: 'DELETE', host: 'backend', path: /^\/saved-searches\/(?<id>[^/]+)$/,
+      handle: (_request, { id }) => {
+        if (!savedSearches.some((record) => record.id === id)) return serviceError(404, 'Saved search not found');
+        savedSearches = savedSearches.filter((record) => record.id !== id);
+        return { id };
+      },
+    },
+
+    // --- Favorites -------------------------------------------------------
+    { method: 'GET', host: 'backend', path: /^\/favorites$/, handle: () => favorites },
+    {
+      method: 'POST', host: 'backend', path: /^\/favorites\/import$/,
+      handle: ({ body }) => {
+        if (!Array.isArray(body?.entryNames)) return serviceError(400, 'Import must be an array of entry names');
+        const known = new Set(favorites.map((record) => record.entryName));
+        const imported: Favorite[] = [];
+        const skipped: { index: number; error: string }[] = [];
+        body.entryNames.forEach((entryName: unknown, index: number) => {
+          if (!isNonEmptyString(entryName, 1000)) {
+            skipped.push({ index, error: 'Not an entry name' });
+          } else if (known.has(entryName)) {
+            skipped.push({ index, error: 'Already a favorite' });
+          } else {
+            known.add(entryName);
+            imported.push({ entryName, owner: MOCK_USER.email, entry: null, addedAt: now(), status: 'unknown', checkedAt: null });
+          }
+        });
+        favorites = [...favorites, ...imported];
+        return { imported, skipped };
+      },
+    },
+    {
+      method: 'POST', host: 'backend', path: /^\/favorites\/refresh$/,
+      handle: () => {
+        favorites = favorites.map((record): Favorite => {
+          const entry = findEntry(record.entryName);
+          return { ...record, entry: entry ? favoriteSnapshot(entry) : record.entry, status: entry ? 'available' : 'deleted', checkedAt: now() };
+        });
+        return favorites;
+      },
+    },
+    {
+      method: 'POST', host: 'backend', path: /^\/favorites$/,
+      handle: ({ body }) => {
+        const entry = body?.entry;
+        if (!isRecord(entry) || !isNonEmptyString(entry.name, 1000)) return serviceError(400, 'An entry with a name is required');
+        const existing = favorites.find((record) => record.entryName === entry.name);
+        const record: Favorite = existing
+          ? { ...existing, entry: favoriteSnapshot(entry), status: 'available' }
+          : { entryName: entry.name, owner: MOCK_USER.email, entry: favoriteSnapshot(entry), addedAt: now(), status: 'available', checkedAt: null };
+        favorites = existing ? favorites.map((item) => (item === existing ? record : item)) : [...favorites, record];
+        return reply(201, record);
+      },
+    },
+    {
+      method: 'DELETE', host: 'backend', path: /^\/favorites$/,
+      handle: ({ query }) => {
+        const entryName = query.get('entryName');
+        if (!entryName) return serviceError(400, 'Entry name is required');
+        if (!favorites.some((record) => record.entryName === entryName)) return serviceError(404, 'Favorite not found');
+        favorites = favorites.filter((record) => record.entryName !== entryName);
+        return { entryName };
+      },
+    },
+
+    // --- Watchlist -------------------------------------------------------
+    { method: 'GET', host: 'backend', path: /^\/watchlist$/, handle: () => watchlist },
+    {
+      method: 'POST', host: 'backend', path: /^\/watchlist\/check$/,
+      handle: ({ body }) => {
+        const { snapshots, items = [] } = asRecord(body);
+        if (!Array.isArray(snapshots)) return serviceError(400, 'Snapshots must be an array of at most 500 items');
+        if (!Array.isArray(items)) return serviceError(400, 'Items must be an array');
+        const added = items.map((item: Partial<WatchlistInboxItem>): WatchlistInboxItem => ({
+          id: randomId(),
+          entryName: textOf(item.entryName),
+          displayName: item.displayName ?? '',
+          changes: item.changes ?? [],
+          detectedAt: now(),
+          read: false,
+        }));
+        watchlist = { snapshots, inbox: [...added, ...watchlist.inbox].slice(0, 200) };
+        return added;
+      },
+    },
+    {
+      method: 'POST', host: 'backend', path: /^\/watchlist\/inbox\/read$/,
+      handle: ({ body }) => {
+        const ids = body?.ids;
+        if (ids !== undefined && !Array.isArray(ids)) return serviceError(400, 'ids must be an array');
+        const selected = ids ? new Set(ids) : null;
+        watchlist = { ...watchlist, inbox: watchlist.inbox.map((item) => (!selected || selected.has(item.id) ? { ...item, read: true } : item)) };
+        return watchlist.inbox;
+      },
+    },
+    {
+      method: 'DELETE', host: 'backend', path: /^\/watchlist\/inbox$/,
+      handle: () => {
+        watchlist = { ...watchlist, inbox: [] };
+        return [];
+      },
+    },
+
+    // --- Requests ----------------------------------------------------------
+    {
+      method: 'POST', host: 'backend', path: /^\/send-feedback$/,
+      handle: ({ body }) => {
+        const error = validateRequester(body);
+        if (error) return reply(400, { success: false, message: error });
+        return {
+          success: true,
+          message: 'Feedback submitted successfully',
+          data: { requesterEmail: body?.requesterEmail, projectId: body?.projectId, projectAdmin: body?.projectAdmin, messageId: `mock-${randomId()}`, submittedAt: now() },
+        };
+      },
+    },
+    {
+      method: 'POST', host: 'backend', path: /^\/access-request$/,
+      handle: ({ body }) => {
+        if (!isNonEmptyString(body?.assetName, 2000)) return reply(400, { success: false, message: 'Asset name is required and must be a non-empty string' });
+        const error = validateRequester(body);
+        if (error) return reply(400, { success: false, message: error });
+        if (body.projectAdmin !== undefined && (!Array.isArray(body.projectAdmin) || !body.projectAdmin.every((email: unknown) => typeof email === 'string'))) {
+          return reply(400, { success: false, message: 'Project admin must be an array of email strings' });
+        }
+        return {
+          success: true,
+          message: 'Access request submitted successfully',
+          data: { assetName: body.assetName, requesterEmail: body.requesterEmail, projectId: body.projectId, projectAdmin: body.projectAdmin, messageId: `mock-${randomId()}`, submittedAt: now() },
+        };
+      },
+    },
+    {
+      method: 'GET', host: 'api', path: /^\/access-request\/health$/,
+      handle: () => ({ success: true, message: 'Access request service is healthy', timestamp: now(), service: 'email-service', version: '1.0.0' }),
+    },
+    { method: 'GET', host: 'api', path: /^\/health$/, handle: () => 'API is running!' },
+
+    // --- Data scans --------------------------------------------------------
+    { method: 'GET', host: 'backend', path: /^\/data-scans$/, handle: ({ query }) => scansOfProject(query.get('project')) },
+    { method: 'GET', host: 'backend', path: /^\/data-quality-scan-jobs\/(?<scanId>[^/]+)$/, handle: (_request, { scanId }) => jobsOf(scanId) },
+    {
+      method: 'GET', host: 'backend', path: /^\/get-data-scan-jobs$/,
+      handle: ({ query }) => {
+        const parent = query.get('parent');
+        if (!parent) return reply(400, { message: 'Bad Request: A "scanId" URL parameter is required.' });
+        const scan = findScan(parent);
+        if (!scan) return notFound(`Data scan ${parent} not found`);
+        return scan.jobs.map((job, index) => ({ ...withProtoTimestamps(job), full_details: scan.fullJobs?.[index] ?? job }));
+      },
+    },
+    {
+      method: 'POST', host: 'backend', path: /^\/entry-data-quality$/,
+      handle: ({ body }) => {
+        if (!body?.name) return reply(400, { message: 'Bad Request: An "resourceName" field is required.' });
+        const scans = scansOfProject(typeof body.parent === 'string' && body.parent ? body.parent.split('/')[1] : null);
+        const matchingScan = scans.filter((scan) => scan.data.resource === body.name && scan.type === 'DATA_QUALITY');
+        return { scans, matchingScan, jobs: matchingScan.map((scan) => ({ scanId: scan.name, jobs: jobsOf(scan.name) })) };
+      },
+    },
+    {
+      method: 'GET', host: 'backend', path: /^\/get-data-scan$/,
+      handle: ({ query }) => {
+        if (!query.get('name')) return reply(400, { message: 'Bad Request: An "name" field is required.' });
+        const scan = findScan(query.get('name'));
+        return scan ? { scan: withProtoTimestamps(scan.scan), jobs: jobsOf(scan.scan.name) } : notFound(`Data scan ${query.get('name')} not found`);
+      },
+    },
+    {
+      method: 'POST', host: 'backend', path: /^\/get-jobs-scan$/,
+      handle: ({ body }) => {
+        if (!body?.jobs) return reply(400, { message: 'Bad Request: An "name" field is required.' });
+        const scan = findScan(String(body.jobs).split('/jobs/')[0]);
+        return scan ? { scan: withProtoTimestamps(scan.scan), jobs: jobsOf(scan.scan.name) } : notFound(`Data scan ${body.jobs} not found`);
+      },
+    },
+    {
+      method: 'POST', host: 'api', path: /^\/batch-data-quality-scan-jobs$/,
+      handle: ({ body }) => {
+        if (!Array.isArray(body?.scanIds)) return reply(400, { message: 'Bad Request: A "scanIds" field (array of strings) is required.' });
+        return body.scanIds.map((scanId: string) => ({ scanId, jobs: jobsOf(scanId) }));
+      },
+    },
+
+    // --- Dataplex REST API -------------------------------------------------
+    {
+      method: 'POST', host: 'dataplex', path: /^\/projects\/[^/]+\/locations\/[^/:]+:searchEntries$/,
+      handle: ({ body }) => {
+        const { page, totalSize, nextPageToken } = searchCatalog(body || {}, 10);
+        return {
+          results: page.map((entry) => ({ linkedResource: entry.entrySource.resource, dataplexEntry: entry, snippets: {} })),
+          totalSize,
+          ...(nextPageToken && { nextPageToken }),
+        };
+      },
+    },
+    {
+      method: 'GET', host: 'dataplex', path: /^\/projects\/[^/]+\/locations\/[^/:]+:lookupEntry$/,
+      handle: ({ query }) => findEntry(query.get('entry')) ?? googleError(404, 'NOT_FOUND', `Entry ${query.get('entry')} not found.`),
+    },
+    {
+      method: 'GET', host: 'dataplex', path: /^\/(?<glossary>projects\/[^/]+\/locations\/[^/]+\/glossaries\/[^/]+)\/categories$/,
+      handle: (_request, { glossary }) => ({ categories: MOCK_GLOSSARY_CATEGORIES.filter((category) => canonicalName(category.name).startsWith(`${canonicalName(glossary)}/`)) }),
+    },
+    {
+      method: 'GET', host: 'dataplex', path: /^\/(?<glossary>projects\/[^/]+\/locations\/[^/]+\/glossaries\/[^/]+)\/terms$/,
+      handle: (_request, { glossary }) => ({ terms: MOCK_GLOSSARY_TERMS.filter((term) => canonicalName(term.name).startsWith(`${canonicalName(glossary)}/`)) }),
+    },
+    { method: 'GET', host: 'dataplex', path: /^\/projects\/[^/]+\/locations\/[^/]+\/dataProducts$/, handle: () => ({ dataProducts: MOCK_DATA_PRODUCTS }) },
+    {
+      method: 'GET', host: 'dataplex', path: /^\/(?<dataProduct>projects\/[^/]+\/locations\/[^/]+\/dataProducts\/[^/]+)\/dataAssets$/,
+      handle: (_request, { dataProduct }) => {
+        const assets = Object.entries(MOCK_DATA_PRODUCT_ASSETS).find(([name]) => canonicalName(name) === canonicalName(dataProduct))?.[1];
+        return assets ? { dataAssets: assets } : googleError(404, 'NOT_FOUND', `Data product ${dataProduct} not found.`);
+      },
+    },
+    {
+      method: 'GET', host: 'dataplex', path: /^\/(?<job>projects\/[^/]+\/locations\/[^/]+\/dataScans\/[^/]+\/jobs\/[^/]+)$/,
+      handle: (_request, { job }) => {
+        const scan = findScan(job.split('/jobs/')[0]);
+        const index = scan?.jobs.findIndex((item) => item.name === job) ?? -1;
+        return scan && index >= 0 ? scan.fullJobs?.[index] ?? scan.jobs[index] : googleError(404, 'NOT_FOUND', `Data scan job ${job} not found.`);
+      },
+    },
+
+    // --- Google sign-in ------------------------------------------------------
+    { method: 'GET', host: 'google', path: /^\/oauth2\/v3\/userinfo$/, handle: () => MOCK_USER },
+  ];
+
+  // Routes that act on the caller's own data and need their token
+  const PER_USER = /^\/(saved-searches|favorites|watchlist|admin)(\/|$)/;
+
+  const API_ROOT = URLS.API_URL.replace(/\/[^/]*$/, '');
+
+  const resolve = (url: string): { host: Route['host']; path: string } | null => {
+    const path = url.split('?')[0];
+    if (path.startsWith(URLS.API_URL + '/')) return { host: 'backend', path: path.slice(URLS.API_URL.length) };
+    if (path.startsWith(API_ROOT + '/')) return { host: 'api', path: path.slice(API_ROOT.length) };
+    if (path.startsWith(DATAPLEX_API_URL + '/')) return { host: 'dataplex', path: path.slice(DATAPLEX_API_URL.length) };
+    if (path === GOOGLE_USERINFO_URL) return { host: 'google', path: '/oauth2/v3/userinfo' };
+    return null;
+  };
+
+  const handle = (request: MockRequest): MockResponse | null => {
+    const target = resolve(request.url);
+    if (!target) return null;
+    for (const route of routes) {
+      const match = route.method === request.method.toUpperCase() && route.host === target.host
+        ? target.path.match(route.path)
+        : null;
+      if (!match) continue;
+      if (target.host === 'backend' && PER_USER.test(target.path) && !request.token) return unauthorized();
+      const params = Object.fromEntries(Object.entries(match.groups ?? {}).map(([key, value]) => [key, decodeURIComponent(value)]));
+      const result = route.handle(request, params);
+      return isReply(result) ? { status: result.status, data: result.data } : { status: 200, data: result };
+    }
+    return null;
+  };
+
+  return { handle };
+};
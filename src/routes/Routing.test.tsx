@@ -21,7 +21,7 @@ vi.mock('react-router-dom', async () => {
 });
 
 // Mock useAuth
-let mockUser: { email?: string } | null = null;
+let mockUser: { email?: string; appConfig?: any } | null = null;
 vi.mock('../auth/AuthProvider', () => ({
   useAuth: () => ({
     user: mockUser,
@@ -315,8 +315,8 @@ describe('Routing', () => {
   });
 
   describe('Admin Panel Route', () => {
-    it('should render AdminPanel component when user is authenticated', () => {
-      mockUser = { email: 'test@example.com' };
+    it('should render AdminPanel component when user is an admin', () => {
+      mockUser = { email: 'test@example.com', appConfig: { isAdmin: true } };
       mockLocation = { pathname: '/admin-panel' };
 
       render(
@@ -327,6 +327,20 @@ describe('Routing', () => {
 
       expect(screen.getByTestId('admin-panel-component')).toBeInTheDocument();
     });
+
+    it('should send signed-in users who are not admins home', () => {
+      mockUser = { email: 'test@example.com', appConfig: { isAdmin: false } };
+      mockLocation = { pathname: '/admin-panel' };
+
+      render(
+        <MemoryRouter initialEntries={['/admin-panel']}>
+          <Routing />
+        </MemoryRouter>
+      );
+
+      expect(screen.queryByTestId('admin-panel-component')).not.toBeInTheDocument();
+      expect(screen.getByTestId('home-component')).toBeInTheDocument();
+    });
   });
 
   describe('Browse By Annotation Route', () => {
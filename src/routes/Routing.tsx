@@ -18,6 +18,7 @@ import ViewDetails from '../component/ViewDetails/ViewDetails';
 import AdminPanel from '../component/AdminPanel/AdminPanel';
 import { useAuth } from '../auth/AuthProvider';
 import { ProtectedRoute } from '../auth/ProtectedRoute';
+import { AdminRoute } from '../auth/AdminRoute';
 import { RedirectGuard } from '../auth/RedirectGuard';
 import BrowseByAnnotation from '../component/BrowseByAnnotation/BrowseByAnnotation';
 import SessionExpirationWrapper from '../component/Auth/SessionExpirationWrapper';
@@ -25,6 +26,9 @@ import UserGuide from '../component/Guide/UserGuide';
 import Glossaries from '../component/Glossaries/Glossaries';
 import DataProducts from '../component/DataProducts/DataProducts';
 import DataProductsDetailView from '../component/DataProducts/DataProductsDetailView';
+import MyFavorites from '../component/Favorites/MyFavorites';
+import ComparePage from '../component/Compare/ComparePage';
+import DataQualityDashboard from '../component/DataQualityDashboard/DataQualityDashboard';
 
 const Routing = () => {
   // state to hold the user object
@@ -103,7 +107,7 @@ const Routing = () => {
                     display: 'flex',
                     flexDirection: 'column',
                     minHeight: '95vh',
-                    backgroundColor: '#F8FAFD',
+                    backgroundColor: 'var(--sys-background)',
                   }}>
                     <SearchPage />
                   </div>
@@ -123,7 +127,7 @@ const Routing = () => {
                 <p style={{fontSize:"20px"}}>You do not have the required permissions to access this app.<br />
                 <Info style={{position:"relative",top:"5px"}}/> You would be needing at least <label>"dataplex.viewer"</label> role to access this app<br />
                 Please contact admin for the access <Email style={{position:"relative",top:"5px"}}/> {import.meta.env.VITE_ADMIN_EMAIL}</p>
-                <Button variant="outlined" onClick={handleSignOut}  style={{color:"#333", background:"white", borderRadius:"20px"}}>SignOut</Button>
+                <Button variant="outlined" onClick={handleSignOut}  style={{color:"var(--sys-on-surface-body)", background:"var(--sys-surface)", borderRadius:"20px"}}>SignOut</Button>
               </div>
             </>
             </ProtectedRoute>
@@ -145,11 +149,13 @@ const Routing = () => {
         path="/admin-panel"
         element={
           <ProtectedRoute>
-            <SessionExpirationWrapper>
-              <Layout searchBar={true}>
-                <AdminPanel />
-              </Layout>
-            </SessionExpirationWrapper>
+            <AdminRoute>
+              <SessionExpirationWrapper>
+                <Layout searchBar={true}>
+                  <AdminPanel />
+                </Layout>
+              </SessionExpirationWrapper>
+            </AdminRoute>
           </ProtectedRoute>
         }
       />
@@ -205,6 +211,45 @@ const Routing = () => {
         }
       />
 
+      <Route
+        path="/favorites"
+        element={
+          <ProtectedRoute>
+            <SessionExpirationWrapper>
+              <Layout searchBar={true}>
+                <MyFavorites />
+              </Layout>
+            </SessionExpirationWrapper>
+          </ProtectedRoute>
+        }
+      />
+
+      <Route
+        path="/compare"
+        element={
+          <ProtectedRoute>
+            <SessionExpirationWrapper>
+              <Layout searchBar={true}>
+                <ComparePage />
+              </Layout>
+            </SessionExpirationWrapper>
+          </ProtectedRoute>
+        }
+      />
+
+      <Route
+        path="/data-quality"
+        element={
+          <ProtectedRoute>
+            <SessionExpirationWrapper>
+              <Layout searchBar={true}>
+                <DataQualityDashboard />
+              </Layout>
+            </SessionExpirationWrapper>
+          </ProtectedRoute>
+        }
+      />
+
      <Route
         path="/guide"
         element={
@@ -218,7 +263,7 @@ const Routing = () => {
                   marginBottom: "16px",
                   height: "calc(100vh - 80px)",
                   overflow: "auto",
-                  backgroundColor: "#FFF",
+                  backgroundColor: "var(--sys-surface)",
                   borderRadius: "24px",
                   boxShadow: "none"
                 }}>
@@ -238,22 +283,22 @@ const Routing = () => {
                 <div style={{ padding: '20px', width:"1000px", margin:"100px auto 0",  }}>
                     <div className="logo-container">
                       <img src="/assets/svg/catalog-studio-logo-figma-585de1.svg" alt="CS Studio Logo" className="navbar-logo-img" />
-                      <label style={{fontSize:"24px", fontWeight:800, color:"#0E4DCA"}}>Knowledge Catalog</label>
-                      <label style={{fontSize:"24px", fontWeight:600, color:"#0E4DCA", margin:"0px 3px 0px"}}>|</label>
-                      <label style={{fontSize:"22px", fontWeight:600, color:"#0E4DCA", margin:"0px 3px 0px"}}>Buisness Interface</label>
+                      <label style={{fontSize:"24px", fontWeight:800, color:"var(--sys-brand)"}}>Knowledge Catalog</label>
+                      <label style={{fontSize:"24px", fontWeight:600, color:"var(--sys-brand)", margin:"0px 3px 0px"}}>|</label>
+                      <label style={{fontSize:"22px", fontWeight:600, color:"var(--sys-brand)", margin:"0px 3px 0px"}}>Buisness Interface</label>
                     </div>
                     <h1>For help contact over these email</h1>
-                    <div style={{ borderBottom: "1px solid #DADCE0", padding: '0.875rem 0', gap: '0.25rem'}}>
+                    <div style={{ borderBottom: "1px solid var(--sys-outline-variant)", padding: '0.875rem 0', gap: '0.25rem'}}>
                       <div style={{ display: 'flex', justifyContent: 'space-between', gap: '1rem' }}>
                         <div style={{ flex: '1 1 0', width: '50%' }}>
-                          <div style={{ color: "#575757", fontSize: "1.6875rem", fontWeight: "500", fontFamily: '"Google Sans Text",sans-serif' }}>Admin/Support Contact Email</div>
-                          <div style={{ textDecoration:"underline", color: "#0E4DCA", fontSize: "1rem", fontWeight: "600", fontFamily: '"Google Sans Text",sans-serif', marginTop: "0.125rem", textOverflow: 'ellipsis', overflow: 'hidden', whiteSpace: 'nowrap' }}>
+                          <div style={{ color: "var(--sys-on-surface-muted)", fontSize: "1.6875rem", fontWeight: "500", fontFamily: '"Google Sans Text",sans-serif' }}>Admin/Support Contact Email</div>
+                          <div style={{ textDecoration:"underline", color: "var(--sys-brand)", fontSize: "1rem", fontWeight: "600", fontFamily: '"Google Sans Text",sans-serif', marginTop: "0.125rem", textOverflow: 'ellipsis', overflow: 'hidden', whiteSpace: 'nowrap' }}>
                             {import.meta.env.VITE_SUPPORT_EMAIL || import.meta.env.VITE_ADMIN_EMAIL}
                           </div>
                         </div>
                         <div style={{ flex: '1 1 0', width: '50%'  }}>
-                          <div style={{ color: "#575757", fontSize: "1.6875rem", fontWeight: "500", fontFamily: '"Google Sans Text",sans-serif' }}>Knowledge Catalog Business Interface Support</div>
-                          <div style={{ textDecoration:"underline", color: "#0E4DCA", fontSize: "1rem", fontWeight: "600", fontFamily: '"Google Sans Text",sans-serif', marginTop: "0.125rem", textOverflow: 'ellipsis', overflow: 'hidden', whiteSpace: 'nowrap' }}>
+                          <div style={{ color: "var(--sys-on-surface-muted)", fontSize: "1.6875rem", fontWeight: "500", fontFamily: '"Google Sans Text",sans-serif' }}>Knowledge Catalog Business Interface Support</div>
+                          <div style={{ textDecoration:"underline", color: "var(--sys-brand)", fontSize: "1rem", fontWeight: "600", fontFamily: '"Google Sans Text",sans-serif', marginTop: "0.125rem", textOverflow: 'ellipsis', overflow: 'hidden', whiteSpace: 'nowrap' }}>
                             dataplex-interface-feedback@google.com
                           </div>
                         </div>
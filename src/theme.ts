@@ -1,4 +1,5 @@
 import { createTheme } from '@mui/material/styles';
+import type { ThemeMode } from './features/user/userSlice';
 
 declare module '@mui/material/styles' {
   interface TypographyVariants {
@@ -16,14 +17,148 @@ declare module '@mui/material/Typography' {
   }
 }
 
-const theme = createTheme({
-  typography: {
-    fontFamily: '"Google Sans Text", sans-serif',
-    heading2Medium: {
-      fontFamily: '"Google Sans", sans-serif',
-    },
-    // ... other variants
+/**
+ * Color tokens for each mode. The same values are exposed to CSS and inline
+ * styles as `--sys-*` custom properties (`index.css` for light,
+ * `styles/dark-mode.css` for dark); keep the two in step.
+ */
+export const colorTokens: Record<ThemeMode, Record<string, string>> = {
+  light: {
+    background: '#f8fafd',
+    surface: '#ffffff',
+    surfaceContainer: '#f0f4f8',
+    surfaceContainerHigh: '#e9eef6',
+    onSurface: '#1f1f1f',
+    onSurfaceVariant: '#444746',
+    onSurfaceMuted: '#575757',
+    outline: '#747775',
+    outlineVariant: '#dadce0',
+    primary: '#0b57d0',
+    onPrimary: '#ffffff',
+    selectedContainer: '#e7f0fe',
+    secondaryContainer: '#c2e7ff',
+    onSecondaryContainer: '#004a77',
+    error: '#d93025',
+    success: '#128937',
+    warning: '#f9ab00',
+    primaryHover: '#0842a0',
+    brand: '#0e4dca',
+    brandHover: '#0a3da0',
+    brandStrong: '#0b3da8',
+    accent: '#1976d2',
+    accentHover: '#1565c0',
+    accentBright: '#1a73e8',
+    selectedContainerLow: '#edf2fc',
+    selectedContainerSky: '#e8f4ff',
+    selectedContainerTint: '#e8f0fe',
+    selectedContainerHover: '#b3caf2',
+    onSelectedContainer: '#1967d2',
+    onSurfaceHeading: '#1a1a1a',
+    onSurfaceStrong: '#202124',
+    onSurfaceBody: '#333333',
+    onSurfaceSlate: '#44464f',
+    onSurfaceDim: '#555555',
+    onSurfaceSoft: '#5e5e5e',
+    onSurfaceGrey: '#5f6368',
+    onSurfaceSubtle: '#666666',
+    outlineMedium: '#c4c4c4',
+    outlineLight: '#dddddd',
+    divider: '#e0e0e0',
+    outlineSoft: '#e1e3e1',
+    outlinePale: '#efefef',
+    outlineFaint: '#f0f0f0',
+    backgroundNeutral: '#f8f9fa',
+    backgroundGrey: '#fafafa',
+    surfaceContainerStrong: '#dadce0',
+    surfaceContainerCool: '#e8eaed',
+    surfaceContainerPale: '#efefef',
+    surfaceContainerFaint: '#f0f0f0',
+    surfaceContainerNeutral: '#f1f3f4',
+    surfaceContainerGrey: '#f5f5f5',
+    danger: '#d32f2f',
+    dangerHover: '#b71c1c',
+  },
+  dark: {
+    background: '#131314',
+    surface: '#1e1f20',
+    surfaceContainer: '#282a2c',
+    surfaceContainerHigh: '#333537',
+    onSurface: '#e3e3e3',
+    onSurfaceVariant: '#c4c7c5',
+    onSurfaceMuted: '#9aa0a6',
+    outline: '#8e918f',
+    outlineVariant: '#444746',
+    primary: '#a8c7fa',
+    onPrimary: '#062e6f',
+    selectedContainer: '#1f3760',
+    secondaryContainer: '#004a77',
+    onSecondaryContainer: '#c2e7ff',
+    error: '#f28b82',
+    success: '#81c995',
+    warning: '#fdd663',
+    primaryHover: '#d3e3fd',
+    brand: '#a8c7fa',
+    brandHover: '#d3e3fd',
+    brandStrong: '#a8c7fa',
+    accent: '#a8c7fa',
+    accentHover: '#d3e3fd',
+    accentBright: '#a8c7fa',
+    selectedContainerLow: '#1f3760',
+    selectedContainerSky: '#1f3760',
+    selectedContainerTint: '#1f3760',
+    selectedContainerHover: '#2b4a7e',
+    onSelectedContainer: '#a8c7fa',
+    onSurfaceHeading: '#e3e3e3',
+    onSurfaceStrong: '#e3e3e3',
+    onSurfaceBody: '#e3e3e3',
+    onSurfaceSlate: '#9aa0a6',
+    onSurfaceDim: '#9aa0a6',
+    onSurfaceSoft: '#9aa0a6',
+    onSurfaceGrey: '#9aa0a6',
+    onSurfaceSubtle: '#9aa0a6',
+    outlineMedium: '#444746',
+    outlineLight: '#444746',
+    divider: '#444746',
+    outlineSoft: '#444746',
+    outlinePale: '#444746',
+    outlineFaint: '#444746',
+    backgroundNeutral: '#131314',
+    backgroundGrey: '#131314',
+    surfaceContainerStrong: '#282a2c',
+    surfaceContainerCool: '#282a2c',
+    surfaceContainerPale: '#282a2c',
+    surfaceContainerFaint: '#282a2c',
+    surfaceContainerNeutral: '#282a2c',
+    surfaceContainerGrey: '#282a2c',
+    danger: '#f28b82',
+    dangerHover: '#f6aea9',
   },
-});
+};
+
+// Light mode keeps MUI's default palette, which the light UI was designed against
+const darkPalette = {
+  mode: 'dark' as const,
+  primary: { main: colorTokens.dark.primary, contrastText: colorTokens.dark.onPrimary },
+  error: { main: colorTokens.dark.error },
+  success: { main: colorTokens.dark.success },
+  warning: { main: colorTokens.dark.warning },
+  background: { default: colorTokens.dark.background, paper: colorTokens.dark.surface },
+  text: { primary: colorTokens.dark.onSurface, secondary: colorTokens.dark.onSurfaceMuted },
+  divider: colorTokens.dark.outlineVariant,
+};
+
+export const createAppTheme = (mode: ThemeMode) =>
+  createTheme({
+    palette: mode === 'dark' ? darkPalette : { mode: 'light' },
+    typography: {
+      fontFamily: '"Google Sans Text", sans-serif',
+      heading2Medium: {
+        fontFamily: '"Google Sans", sans-serif',
+      },
+      // ... other variants
+    },
+  });
+
+const theme = createAppTheme('light');
 
-export default theme;
\ No newline at end of file
+export default theme;
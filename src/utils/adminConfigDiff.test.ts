@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { diffAdminConfigs } from './adminConfigDiff';
+
+const base = {
+  products: ['BigQuery', 'Cloud SQL'],
+  assets: { BigQuery: ['Tables', 'Views'], 'Cloud SQL': ['Database'] },
+  aspectTypes: ['Contacts'],
+  aspectNames: { Contacts: ['Owner'] },
+};
+
+describe('adminConfigDiff', () => {
+  it('lists the items added and removed in each field', () => {
+    const changes = diffAdminConfigs(base, {
+      products: ['BigQuery', 'Spanner'],
+      assets: { BigQuery: ['Tables', 'Models'], Spanner: ['Tables'] },
+      aspectTypes: ['Contacts'],
+      aspectNames: { Contacts: ['Owner', 'Steward'] },
+    });
+
+    expect(changes).toEqual([
+      { field: 'products', key: '', kind: 'changed', added: ['Spanner'], removed: ['Cloud SQL'] },
+      { field: 'assets', key: 'BigQuery', kind: 'changed', added: ['Models'], removed: ['Views'] },
+      { field: 'assets', key: 'Cloud SQL', kind: 'removed', added: [], removed: ['Database'] },
+      { field: 'assets', key: 'Spanner', kind: 'added', added: ['Tables'], removed: [] },
+      { field: 'aspectNames', key: 'Contacts', kind: 'changed', added: ['Steward'], removed: [] },
+    ]);
+  });
+
+  it('finds nothing between identical configs', () => {
+    expect(diffAdminConfigs(base, structuredClone(base))).toEqual([]);
+    // A key added with no items still counts
+    expect(diffAdminConfigs(base, { ...base, aspectNames: { ...base.aspectNames, Usage: [] } })).toEqual([
+      { field: 'aspectNames', key: 'Usage', kind: 'added', added: [], removed: [] },
+    ]);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * @file adminConfigDiff.ts
+ * @description
+ * Revisions of the admin-managed defaults, as listed by
+ * `GET /admin/config/revisions`, and the field-level differences between two
+ * of them: the items added to or removed from each list (default products,
+ * browse aspect types) and from each entry of the keyed lists (assets per
+ * product, aspect names per aspect type).
+ */
+
+export interface AdminConfigSnapshot {
+  products: string[];
+  assets: Record<string, string[]>;
+  aspectTypes: string[];
+  aspectNames: Record<string, string[]>;
+}
+
+export interface AdminConfigRevision {
+  version: number;
+  updatedAt: string | null;
+  updatedBy: string | null;
+  comment: string;
+  // Version whose config this revision restored, if it was a rollback
+  restoredFrom: number | null;
+  config: AdminConfigSnapshot;
+}
+
+export interface AdminConfigChange {
+  field: keyof AdminConfigSnapshot;
+  // Product or aspect type for keyed fields; empty for plain lists
+  key: string;
+  kind: 'added' | 'removed' | 'changed';
+  added: string[];
+  removed: string[];
+}
+
+export const ADMIN_CONFIG_FIELD_LABELS: Record<keyof AdminConfigSnapshot, string> = {
+  products: 'Default products',
+  assets: 'Default assets',
+  aspectTypes: 'Browse aspect types',
+  aspectNames: 'Browse aspect names',
+};
+
+const listDiff = (from: string[] = [], to: string[] = []) => ({
+  added: to.filter((item) => !from.includes(item)),
+  removed: from.filter((item) => !to.includes(item)),
+});
+
+const diffList = (field: 'products' | 'aspectTypes', from: string[], to: string[]): AdminConfigChange[] => {
+  const { added, removed } = listDiff(from, to);
+  return added.length || removed.length ? [{ field, key: '', kind: 'changed', added, removed }] : [];
+};
+
+const diffKeyedLists = (field: 'assets' | 'aspectNames', from: Record<string, string[]> = {}, to: Record<string, string[]> = {}): AdminConfigChange[] =>
+  [...new Set([...Object.keys(from), ...Object.keys(to)])].sort().flatMap((key) => {
+    const { added, removed } = listDiff(from[key], to[key]);
+    const kind = !(key in from) ? 'added' : !(key in to) ? 'removed' : 'changed';
+    if (kind === 'changed' && !added.length && !removed.length) return [];
+    return [{ field, key, kind, added, removed }];
+  });
+
+/** What changed from one config to the other, field by field. */
+export const diffAdminConfigs = (from: AdminConfigSnapshot, to: AdminConfigSnapshot): AdminConfigChange[] => [
+  ...diffList('products', from.products, to.products),
+  ...diffKeyedLists('assets', from.assets, to.assets),
+  ...diffList('aspectTypes', from.aspectTypes, to.aspectTypes),
+  ...diffKeyedLists('aspectNames', from.aspectNames, to.aspectNames),
+];
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildColumnEdges,
+  buildColumnGraphData,
+  columnKey,
+  resolveAssetColumns,
+  traceColumnPath,
+} from './columnLineage';
+import { lineageAssetId, type LineageTraversal, type LineageTraversalLink } from './lineageGraph';
+
+const link = (name: string, source: string, target: string, direction: 'upstream' | 'downstream', depth: number): LineageTraversalLink => ({
+  name,
+  source: { fullyQualifiedName: source },
+  target: { fullyQualifiedName: target },
+  process: '',
+  direction,
+  depth,
+  cycle: false,
+});
+
+// landing (file) -> raw -> users (root) -> mart -> dashboard (no schema)
+const traversal: LineageTraversal = {
+  root: 'bigquery:p.d.users',
+  nodes: [
+    { fqn: 'bigquery:p.d.users', depth: 0, direction: 'root' },
+    { fqn: 'bigquery:p.d.raw', depth: 1, direction: 'upstream' },
+    { fqn: 'gcs:bucket.landing', depth: 2, direction: 'upstream' },
+    { fqn: 'bigquery:p.d.mart', depth: 1, direction: 'downstream' },
+    { fqn: 'looker:q.dashboard', depth: 2, direction: 'downstream' },
+  ],
+  links: [
+    link('l1', 'bigquery:p.d.raw', 'bigquery:p.d.users', 'upstream', 1),
+    link('l2', 'gcs:bucket.landing', 'bigquery:p.d.raw', 'upstream', 2),
+    link('l3', 'bigquery:p.d.users', 'bigquery:p.d.mart', 'downstream', 1),
+    link('l4', 'bigquery:p.d.mart', 'looker:q.dashboard', 'downstream', 2),
+  ],
+  truncated: false,
+  schemas: {
+    'bigquery:p.d.users': ['id', 'email', 'name'],
+    'bigquery:p.d.raw': ['ID', 'EMAIL', 'payload'],
+    'gcs:bucket.landing': null,
+    'bigquery:p.d.mart': ['id', 'email'],
+    'looker:q.dashboard': null,
+  },
+};
+
+const entry = { name: 'projects/p/locations/us/entryGroups/@bigquery/entries/users', fullyQualifiedName: 'bigquery:p.d.users' };
+
+describe('columnLineage', () => {
+  it('gives schemaless assets the columns flowing into or out of them', () => {
+    const columns = resolveAssetColumns(traversal);
+
+    expect(columns['bigquery:p.d.users']).toEqual([
+      { name: 'id', inferred: false },
+      { name: 'email', inferred: false },
+      { name: 'name', inferred: false },
+    ]);
+    // Fed by mart
+    expect(columns['looker:q.dashboard'].map((column) => column.name)).toEqual(['id', 'email']);
+    // Feeds raw and nothing feeds it
+    expect(columns['gcs:bucket.landing']).toContainEqual({ name: 'payload', inferred: true });
+  });
+
+  it('links same-named columns along each table link, ignoring case', () => {
+    const edges = buildColumnEdges(traversal, resolveAssetColumns(traversal));
+    const l1 = edges.filter((edge) => edge.link === 'l1');
+
+    expect(l1.map((edge) => `${edge.source.column}->${edge.target.column}`)).toEqual(['ID->id', 'EMAIL->email']);
+  });
+
+  it('traces a column upstream and downstream', () => {
+    const edges = buildColumnEdges(traversal, resolveAssetColumns(traversal));
+    const path = traceColumnPath(edges, { fqn: 'bigquery:p.d.users', column: 'email' });
+
+    expect([...path.columns].sort()).toEqual([
+      columnKey('bigquery:p.d.mart', 'email'),
+      columnKey('bigquery:p.d.raw', 'EMAIL'),
+      columnKey('bigquery:p.d.users', 'email'),
+      columnKey('gcs:bucket.landing', 'EMAIL'),
+      columnKey('looker:q.dashboard', 'email'),
+    ]);
+    expect(path.edges.size).toBe(4);
+  });
+
+  it('keeps only the traced column path in the graph', () => {
+    const items = buildColumnGraphData(traversal, entry, 2, 'email');
+    const assets = items.filter((item) => item.type === 'assetNode');
+    const edges = items.filter((item) => item.type === 'columnEdge');
+
+    expect(assets).toHaveLength(5);
+    expect(assets.find((item) => item.isRoot)).toMatchObject({ tracedColumn: 'email', columns: [{ name: 'email', inferred: false }] });
+    expect(assets.find((item) => item.fqn === 'looker:q.dashboard')?.columns).toEqual([{ name: 'email', inferred: true }]);
+    expect(edges).toHaveLength(4);
+    expect(edges.find((item) => item.edge?.link === 'l3')).toMatchObject({
+      source: lineageAssetId('bigquery:p.d.users'),
+      target: lineageAssetId('bigquery:p.d.mart'),
+      sourceHandle: 'source-column-email',
+      targetHandle: 'target-column-email',
+    });
+  });
+
+  it('lists every linked column without a traced column', () => {
+    const items = buildColumnGraphData(traversal, entry, 2);
+    const root = items.find((item) => item.isRoot);
+
+    // "name" flows nowhere
+    expect(root?.columns?.map((column) => column.name)).toEqual(['id', 'email']);
+    expect(root?.tracedColumn).toBeNull();
+    // landing -> raw carries payload as well
+    expect(items.filter((item) => item.type === 'columnEdge')).toHaveLength(9);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * @file columnLineage.ts
+ * @description
+ * Column-level lineage on top of a multi-hop lineage traversal fetched with
+ * `includeSchemas` (see `fetchLineageGraph`). Data Lineage links are
+ * table-to-table, so a column is taken to flow along a link into the
+ * column of the same name (case-insensitive) in the link's target, the rule
+ * the Lineage Explorer panel already uses for direct neighbours. Assets
+ * without a schema (files, dashboards...) carry the columns flowing into
+ * them, so a traced column reaches them too; those columns are marked
+ * `inferred`.
+ *
+ * Builds the `LineageChartViewNew` items for the column graph: table nodes
+ * listing their columns and one `columnEdge` item per column-to-column edge.
+ */
+
+import type { DataplexEntry } from '../api/dataplexClient';
+import { buildTraversalGraphData, lineageAssetId, type LineageGraphItem, type LineageTraversal } from './lineageGraph';
+
+export interface ColumnRef {
+  fqn: string;
+  column: string;
+}
+
+export interface LineageColumn {
+  name: string;
+  // Borrowed from the neighbours of an asset without a schema
+  inferred: boolean;
+}
+
+export interface ColumnLineageEdge {
+  id: string;
+  // Name of the table-level link the column flows along
+  link: string;
+  source: ColumnRef;
+  target: ColumnRef;
+  cycle: boolean;
+}
+
+export interface ColumnPath {
+  columns: Set<string>;
+  edges: Set<string>;
+}
+
+export const columnKey = (fqn: string, column: string) => `${fqn}#${column}`;
+
+// React Flow handle ids of a column row
+export const columnHandleId = (type: 'source' | 'target', column: string) => `${type}-column-${column}`;
+
+/**
+ * Columns of every asset in the traversal. Assets without a schema take the
+ * columns of the assets feeding them, or, when nothing feeds them (landing
+ * files), of the assets they feed.
+ */
+export const resolveAssetColumns = (traversal: LineageTraversal): Record<string, LineageColumn[]> => {
+  const schemas = traversal.schemas ?? {};
+  const columns: Record<string, LineageColumn[]> = {};
+  const unknown: string[] = [];
+  traversal.nodes.forEach((node) => {
+    const schema = schemas[node.fqn];
+    if (schema) {
+      columns[node.fqn] = schema.map((name) => ({ name, inferred: false }));
+    } else {
+      columns[node.fqn] = [];
+      unknown.push(node.fqn);
+    }
+  });
+
+  const borrow = (from: 'source' | 'target', assets: string[]) => {
+    // Repeat until nothing changes so chains of schemaless assets fill in
+    for (let changed = true, rounds = 0; changed && rounds < traversal.nodes.length; rounds++) {
+      changed = false;
+      assets.forEach((fqn) => {
+        const known = new Set(columns[fqn].map((column) => column.name.toLowerCase()));
+        traversal.links
+          .filter((link) => (from === 'source' ? link.target : link.source).fullyQualifiedName === fqn)
+          .forEach((link) => {
+            (columns[link[from].fullyQualifiedName] ?? []).forEach((column) => {
+              if (known.has(column.name.toLowerCase())) return;
+              known.add(column.name.toLowerCase());
+              columns[fqn].push({ name: column.name, inferred: true });
+              changed = true;
+            });
+          });
+      });
+    }
+  };
+  borrow('source', unknown);
+  borrow('target', unknown.filter((fqn) => columns[fqn].length === 0));
+
+  return columns;
+};
+
+/** One edge per column a table-level link carries into a same-named column. */
+export const buildColumnEdges = (traversal: LineageTraversal, columns: Record<string, LineageColumn[]>): ColumnLineageEdge[] => {
+  const edges: ColumnLineageEdge[] = [];
+  traversal.links.forEach((link) => {
+    const source = link.source.fullyQualifiedName;
+    const target = link.target.fullyQualifiedName;
+    const targetColumns = new Map((columns[target] ?? []).map((column) => [column.name.toLowerCase(), column.name]));
+    (columns[source] ?? []).forEach((column) => {
+      const targetColumn = targetColumns.get(column.name.toLowerCase());
+      if (!targetColumn) return;
+      edges.push({
+        id: `${link.name}:${column.name}`,
+        link: link.name,
+        source: { fqn: source, column: column.name },
+        target: { fqn: target, column: targetColumn },
+        cycle: link.cycle,
+      });
+    });
+  });
+  return edges;
+};
+
+/**
+ * Everything `start` comes from and everything it flows into: the column
+ * keys and edge ids reachable upstream and downstream of it.
+ */
+export const traceColumnPath = (edges: ColumnLineageEdge[], start: ColumnRef): ColumnPath => {
+  const startKey = columnKey(start.fqn, start.column);
+  const path: ColumnPath = { columns: new Set([startKey]), edges: new Set() };
+  const walk = (from: 'source' | 'target', to: 'source' | 'target') => {
+    const seen = new Set([startKey]);
+    const queue = [startKey];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      edges
+        .filter((edge) => columnKey(edge[from].fqn, edge[from].column) === current)
+        .forEach((edge) => {
+          path.edges.add(edge.id);
+          const next = columnKey(edge[to].fqn, edge[to].column);
+          path.columns.add(next);
+          if (!seen.has(next)) {
+            seen.add(next);
+            queue.push(next);
+          }
+        });
+    }
+  };
+  walk('source', 'target');
+  walk('target', 'source');
+  return path;
+};
+
+/**
+ * Builds the column graph items. With `column` only the path of that column
+ * of the root is kept; otherwise every column edge is. Each table lists only
+ * the columns with an edge (the root also keeps the traced column).
+ */
+export const buildColumnGraphData = (
+  traversal: LineageTraversal,
+  entry: Partial<DataplexEntry>,
+  depth: number,
+  column?: string,
+): LineageGraphItem[] => {
+  const columns = resolveAssetColumns(traversal);
+  const allEdges = buildColumnEdges(traversal, columns);
+  const edges = column
+    ? (() => {
+      const path = traceColumnPath(allEdges, { fqn: traversal.root, column });
+      return allEdges.filter((edge) => path.edges.has(edge.id));
+    })()
+    : allEdges;
+
+  const used = new Map<string, Set<string>>();
+  const markUsed = (ref: ColumnRef) => {
+    if (!used.has(ref.fqn)) used.set(ref.fqn, new Set());
+    used.get(ref.fqn)!.add(ref.column);
+  };
+  edges.forEach((edge) => {
+    markUsed(edge.source);
+    markUsed(edge.target);
+  });
+  if (column) markUsed({ fqn: traversal.root, column });
+
+  const assets = buildTraversalGraphData(traversal, entry, depth)
+    .filter((item): item is LineageGraphItem & { fqn: string } =>
+      item.type === 'assetNode' && !!item.fqn && (item.isRoot || used.has(item.fqn)))
+    .map((item) => ({
+      ...item,
+      columns: (columns[item.fqn] ?? []).filter((assetColumn) => used.get(item.fqn)?.has(assetColumn.name)),
+      tracedColumn: item.isRoot ? column || null : null,
+      // The column graph is fetched as a whole; no expanding by hand
+      showUpStreamIcon: item.isRoot,
+      showDownStreamIcon: item.isRoot,
+    }));
+
+  return [
+    ...assets,
+    ...edges.map((edge): LineageGraphItem => ({
+      id: `column-edge-${edge.id}`,
+      type: 'columnEdge',
+      source: lineageAssetId(edge.source.fqn),
+      target: lineageAssetId(edge.target.fqn),
+      sourceHandle: columnHandleId('source', edge.source.column),
+      targetHandle: columnHandleId('target', edge.target.column),
+      isCycle: edge.cycle,
+      edge,
+    })),
+  ];
+};
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DATA_QUALITY_TREND_LENGTH,
+  filterDataQualitySummaries,
+  normalizeScanResource,
+  sortDataQualitySummaries,
+  summarizeDataQualityScan,
+} from './dataQualityDashboard';
+
+const tableResource = (project: string, dataset: string, table: string) =>
+  `//bigquery.googleapis.com/projects/${project}/datasets/${dataset}/tables/${table}`;
+
+const scan = (id: string, resource: string) => ({ name: `projects/p/locations/l/dataScans/${id}`, type: 'DATA_QUALITY', data: { resource } });
+
+const job = (day: number, score: number, rules: boolean[]) => ({
+  name: `jobs/${day}`,
+  endTime: { seconds: String(1700000000 + day * 86400), nanos: 0 },
+  dataQualityResult: {
+    score,
+    passed: rules.every(Boolean),
+    rules: rules.map((passed, index) => ({ rule: { name: `rule-${index}` }, passed })),
+  },
+});
+
+const summary = (id: string, dataset: string, score: number | null, lastRun: number | null) => ({
+  ...summarizeDataQualityScan(scan(id, tableResource('p', dataset, id)), null),
+  score,
+  passed: score === null ? null : score >= 90,
+  lastRun,
+});
+
+const filters = { project: '', dataset: '', dataProduct: '', glossaryTerm: '' };
+
+describe('dataQualityDashboard', () => {
+  it('summarises the latest run and the trend of a scan', () => {
+    const orders = scan('orders-dq', tableResource('p', 'sales', 'orders'));
+    const result = summarizeDataQualityScan(orders, {
+      jobs: [job(3, 75, [true, false, false]), job(2, 90, [true, true, false]), job(1, 100, [true, true, true])],
+    });
+
+    expect(result).toEqual({
+      name: orders.name,
+      resource: orders.data.resource,
+      project: 'p',
+      dataset: 'sales',
+      table: 'orders',
+      score: 75,
+      passed: false,
+      lastRun: (1700000000 + 3 * 86400) * 1000,
+      failingRules: 2,
+      trend: [100, 90, 75],
+    });
+
+    // Not loaded yet
+    expect(summarizeDataQualityScan(orders, undefined)).toMatchObject({ score: null, passed: null, lastRun: null, failingRules: 0, trend: [] });
+
+    const jobs = Array.from({ length: DATA_QUALITY_TREND_LENGTH + 2 }, (_, day) => job(day, day, [true]));
+    expect(summarizeDataQualityScan(orders, { jobs }).trend).toHaveLength(DATA_QUALITY_TREND_LENGTH);
+  });
+
+  it('filters by dataset and by the resources of a data product or glossary term', () => {
+    const summaries = [summary('orders', 'sales', 80, 1), summary('users', 'crm', 95, 2), summary('refunds', 'sales', 99, 3)];
+
+    expect(filterDataQualitySummaries(summaries, { ...filters, dataset: 'p.sales' }, null).map((item) => item.table)).toEqual(['orders', 'refunds']);
+    // Asset resources may come without the service prefix
+    expect(filterDataQualitySummaries(summaries, filters, ['projects/p/datasets/crm/tables/users']).map((item) => item.table)).toEqual(['users']);
+    expect(filterDataQualitySummaries(summaries, filters, [])).toEqual([]);
+    expect(normalizeScanResource(tableResource('p', 'd', 't'))).toBe('projects/p/datasets/d/tables/t');
+  });
+
+  it('sorts by worst score first, with the scans without results last', () => {
+    const summaries = [summary('a', 'd', 95, 3), summary('b', 'd', null, null), summary('c', 'd', 60, 1), summary('e', 'd', 80, 2)];
+
+    expect(sortDataQualitySummaries(summaries, 'score').map((item) => item.table)).toEqual(['c', 'e', 'a', 'b']);
+    expect(sortDataQualitySummaries(summaries, 'score', 'desc').map((item) => item.table)).toEqual(['a', 'e', 'c', 'b']);
+    expect(sortDataQualitySummaries(summaries, 'lastRun', 'desc').map((item) => item.table)).toEqual(['a', 'e', 'c', 'b']);
+    expect(sortDataQualitySummaries(summaries, 'table', 'desc').map((item) => item.table)).toEqual(['e', 'c', 'b', 'a']);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * @file dataQualityDashboard.ts
+ * @description
+ * Rows of the Data Quality dashboard: one per Data Quality scan of the
+ * project (`fetchAllDataScans`), summarised from the scan's jobs once
+ * `fetchDataScan` has loaded them (`getDataQualityRuns`).
+ *
+ * Scans are matched to tables through their `data.resource`
+ * (`//bigquery.googleapis.com/projects/p/datasets/d/tables/t`), which is also
+ * how the data product and glossary term filters match the resources of
+ * their assets.
+ */
+
+import { getDataQualityRuns } from './dataQualityHistory';
+
+// Scores kept for the sparkline
+export const DATA_QUALITY_TREND_LENGTH = 10;
+
+export interface DataQualityScanSummary {
+  name: string;
+  resource: string;
+  project: string;
+  dataset: string;
+  table: string;
+  // Null until the scan's jobs are loaded, or when it never ran
+  score: number | null;
+  passed: boolean | null;
+  lastRun: number | null;
+  failingRules: number;
+  trend: number[];
+}
+
+export interface DataQualityDashboardFilters {
+  // The project whose scans are loaded; the server's project when empty
+  project: string;
+  // `project.dataset` of the scanned tables
+  dataset: string;
+  dataProduct: string;
+  glossaryTerm: string;
+}
+
+export type DataQualityDashboardSort = 'score' | 'lastRun' | 'table';
+
+/** `projects/p/datasets/d/tables/t`, without the service prefix. */
+export const normalizeScanResource = (resource: string = '') => resource.replace(/^\/\/[^/]+\//, '');
+
+const getPathSegment = (path: string, key: string) => {
+  const parts = path.split('/');
+  const index = parts.indexOf(key);
+  return index !== -1 ? parts[index + 1] ?? '' : '';
+};
+
+export const summarizeDataQualityScan = (scan: any, scanData: any): DataQualityScanSummary => {
+  const resource = scan?.data?.resource ?? '';
+  const path = normalizeScanResource(resource);
+  const runs = getDataQualityRuns(scanData);
+  const latest = runs[runs.length - 1];
+  return {
+    name: scan.name,
+    resource,
+    project: getPathSegment(path, 'projects'),
+    dataset: getPathSegment(path, 'datasets'),
+    table: getPathSegment(path, 'tables') || path.split('/').pop() || scan.name.split('/').pop(),
+    score: latest ? latest.score : null,
+    passed: latest ? latest.passed : null,
+    lastRun: latest ? latest.time : null,
+    failingRules: latest ? Object.values(latest.rules).filter((passed) => !passed).length : 0,
+    trend: runs.slice(-DATA_QUALITY_TREND_LENGTH).map((run) => run.score).filter((score): score is number => score !== null),
+  };
+};
+
+export const getSummaryDataset = (summary: DataQualityScanSummary) => `${summary.project}.${summary.dataset}`;
+
+/**
+ * Keeps the summaries of the selected dataset, and of the resources of the
+ * selected data product or glossary term (`scopeResources`, null while no
+ * such filter is set). The project filter applies when loading the scans.
+ */
+export const filterDataQualitySummaries = (
+  summaries: DataQualityScanSummary[],
+  filters: DataQualityDashboardFilters,
+  scopeResources: string[] | null
+) => {
+  const scope = scopeResources ? new Set(scopeResources.map(normalizeScanResource)) : null;
+  return summaries.filter((summary) =>
+    (!filters.dataset || getSummaryDataset(summary) === filters.dataset)
+    && (!scope || scope.has(normalizeScanResource(summary.resource)))
+  );
+};
+
+/** Worst score first; scans without a result go last whatever the order. */
+export const sortDataQualitySummaries = (
+  summaries: DataQualityScanSummary[],
+  sort: DataQualityDashboardSort,
+  direction: 'asc' | 'desc' = 'asc'
+) => {
+  const factor = direction === 'asc' ? 1 : -1;
+  const value = (summary: DataQualityScanSummary) => (sort === 'score' ? summary.score : summary.lastRun);
+  return [...summaries].sort((a, b) => {
+    if (sort === 'table') return factor * `${a.dataset}.${a.table}`.localeCompare(`${b.dataset}.${b.table}`);
+    const first = value(a);
+    const second = value(b);
+    if (first === null || second === null) return (first === null ? 1 : 0) - (second === null ? 1 : 0);
+    return factor * (first - second);
+  });
+};
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findDataQualityRegressions,
+  formatDataQualityRuleKey,
+  getDataQualityDimensions,
+  getDataQualityRuleKey,
+  getDataQualityRuleResults,
+  getDataQualityRuleStreak,
+  getDataQualityRuns,
+} from './dataQualityHistory';
+
+const notNull = { column: 'id', ruleType: 'nonNullExpectation', dimension: 'COMPLETENESS' };
+const range = { name: 'amount-range', column: 'amount', ruleType: 'rangeExpectation', dimension: 'VALIDITY' };
+
+const job = (day: number, score: number, dimensions: Record<string, number>, rules: [any, boolean][]) => ({
+  name: `jobs/${day}`,
+  endTime: { seconds: String(1700000000 + day * 86400), nanos: 0 },
+  dataQualityResult: {
+    score,
+    passed: rules.every(([, passed]) => passed),
+    dimensions: Object.entries(dimensions).map(([name, value]) => ({ dimension: { name }, score: value })),
+    rules: rules.map(([rule, passed]) => ({ rule, passed })),
+  },
+});
+
+// Newest first, as the backend returns them, with a running job on top
+const scan = {
+  jobs: [
+    { name: 'jobs/running', state: 'RUNNING' },
+    job(3, 80, { COMPLETENESS: 100, VALIDITY: 60 }, [[notNull, true], [range, false]]),
+    job(2, 92, { COMPLETENESS: 100, VALIDITY: 84 }, [[notNull, true], [range, true]]),
+    job(1, 90, { COMPLETENESS: 95 }, [[notNull, false], [range, true]]),
+  ],
+};
+
+describe('dataQualityHistory', () => {
+  it('reads the runs with results, oldest first', () => {
+    const runs = getDataQualityRuns(scan);
+
+    expect(runs.map((run) => run.name)).toEqual(['jobs/1', 'jobs/2', 'jobs/3']);
+    expect(runs[0]).toEqual({
+      name: 'jobs/1',
+      time: (1700000000 + 86400) * 1000,
+      passed: false,
+      score: 90,
+      dimensions: { COMPLETENESS: 95 },
+      rules: { [getDataQualityRuleKey(notNull)]: false, [getDataQualityRuleKey(range)]: true },
+    });
+    expect(getDataQualityDimensions(runs)).toEqual(['COMPLETENESS', 'VALIDITY']);
+    expect(getDataQualityRuns({ jobs: [] })).toEqual([]);
+    expect(getDataQualityRuns(null)).toEqual([]);
+  });
+
+  it('counts the current streak of a rule', () => {
+    const runs = getDataQualityRuns(scan);
+
+    expect(getDataQualityRuleStreak(runs, getDataQualityRuleKey(notNull))).toEqual({ passed: true, count: 2, history: [false, true, true] });
+    expect(getDataQualityRuleStreak(runs, getDataQualityRuleKey(range), 2)).toEqual({ passed: false, count: 1, history: [true, false] });
+    expect(getDataQualityRuleStreak(runs, 'unknown')).toBeNull();
+  });
+
+  it('flags what got worse between consecutive runs, newest first', () => {
+    const regressions = findDataQualityRegressions(getDataQualityRuns(scan));
+
+    expect(regressions.map(({ run, kind, label, from, to }) => [run.name, kind, label, from, to])).toEqual([
+      ['jobs/3', 'rule', getDataQualityRuleKey(range), true, false],
+      ['jobs/3', 'dimension', 'VALIDITY', 84, 60],
+      ['jobs/3', 'score', '', 92, 80],
+    ]);
+    // Small drops are tolerated
+    expect(findDataQualityRegressions(getDataQualityRuns(scan), 15).map(({ kind }) => kind)).toEqual(['rule', 'dimension']);
+  });
+
+  it('reads the row counts and failing rows query of a rule in each run', () => {
+    const counted = {
+      jobs: [
+        { name: 'jobs/2', endTime: { seconds: '1700172800', nanos: 0 }, dataQualityResult: { rules: [{ rule: range, passed: false, evaluatedCount: '200', passedCount: '150', nullCount: '4', passRatio: 0.75, failingRowsQuery: 'SELECT * FROM t WHERE amount < 0' }] } },
+        { name: 'jobs/1', endTime: { seconds: '1700086400', nanos: 0 }, dataQualityResult: { rules: [{ rule: range, passed: true, evaluatedCount: '100', passedCount: '100', passRatio: 1 }, { rule: notNull, passed: true }] } },
+      ],
+    };
+
+    expect(getDataQualityRuleResults(counted, getDataQualityRuleKey(range))).toEqual([
+      { run: 'jobs/1', time: 1700086400000, passed: true, evaluatedCount: 100, passedCount: 100, failedCount: 0, nullCount: null, passRatio: 1, failingRowsQuery: '' },
+      { run: 'jobs/2', time: 1700172800000, passed: false, evaluatedCount: 200, passedCount: 150, failedCount: 50, nullCount: 4, passRatio: 0.75, failingRowsQuery: 'SELECT * FROM t WHERE amount < 0' },
+    ]);
+    // Table level rules have no row counts
+    expect(getDataQualityRuleResults(counted, getDataQualityRuleKey(notNull))[0]).toMatchObject({ evaluatedCount: null, failedCount: null });
+    expect(getDataQualityRuleResults(null, 'unknown')).toEqual([]);
+  });
+
+  it('names rules by their name, else by column and dimension', () => {
+    expect(formatDataQualityRuleKey(getDataQualityRuleKey(range))).toBe('amount-range');
+    expect(formatDataQualityRuleKey(getDataQualityRuleKey(notNull))).toBe('id · COMPLETENESS');
+    expect(formatDataQualityRuleKey(getDataQualityRuleKey({ ruleType: 'sqlAssertion' }))).toBe('sqlAssertion');
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * @file dataQualityHistory.ts
+ * @description
+ * Score history of a data quality scan, read from the jobs that
+ * `fetchDataScan` returns with the scan (`dataQualityScan.jobs`, newest
+ * first, each with its `dataQualityResult`):
+ * - the runs with results, oldest first, with their overall and per
+ * dimension scores and each rule's result;
+ * - the pass/fail streak of a rule over the latest runs;
+ * - the regressions between consecutive runs: a lower overall or dimension
+ * score, or a rule that passed and now fails;
+ * - the row counts of a rule in each run, with the query returning the rows
+ * that failed it.
+ */
+
+import { toTimeMs } from './lineageTimeTravel';
+
+export interface DataQualityRun {
+  name: string;
+  // End of the job, in ms
+  time: number;
+  passed: boolean;
+  score: number | null;
+  // Score per dimension name, e.g. { COMPLETENESS: 100, VALIDITY: 87.5 }
+  dimensions: Record<string, number>;
+  // Result per rule key (see getDataQualityRuleKey)
+  rules: Record<string, boolean>;
+}
+
+export interface DataQualityRuleStreak {
+  passed: boolean;
+  // Consecutive latest runs with the same result
+  count: number;
+  // Results of the latest runs, oldest first
+  history: boolean[];
+}
+
+export interface DataQualityRuleResult {
+  run: string;
+  time: number;
+  passed: boolean;
+  // Row counts; null for rules evaluated on the whole table
+  evaluatedCount: number | null;
+  passedCount: number | null;
+  failedCount: number | null;
+  nullCount: number | null;
+  passRatio: number | null;
+  // SQL returning the failing rows, when Dataplex provides one
+  failingRowsQuery: string;
+}
+
+export interface DataQualityRegression {
+  run: DataQualityRun;
+  previous: DataQualityRun;
+  kind: 'score' | 'dimension' | 'rule';
+  // Dimension name or rule key; empty for the overall score
+  label: string;
+  from: number | boolean;
+  to: number | boolean;
+}
+
+/**
+ * Identifies a rule across runs. Rules have no id: the name is optional, so
+ * the column, type and dimension are added to it.
+ */
+export const getDataQualityRuleKey = (rule: any): string =>
+  [rule?.name ?? '', rule?.column ?? '', rule?.ruleType ?? '', rule?.dimension ?? ''].join('|');
+
+const toScore = (value: any): number | null =>
+  (value === null || value === undefined || value === '' || Number.isNaN(Number(value)) ? null : Number(value));
+
+/** The jobs of the scan that have results, oldest first. */
+export const getDataQualityRuns = (dataQualityScan: any): DataQualityRun[] =>
+  (dataQualityScan?.jobs ?? [])
+    .filter((job: any) => job?.dataQualityResult)
+    .map((job: any, index: number) => {
+      const result = job.dataQualityResult;
+      const dimensions: Record<string, number> = {};
+      (result.dimensions ?? []).forEach((dimension: any) => {
+        const score = toScore(dimension.score);
+        if (dimension.dimension?.name && score !== null) dimensions[dimension.dimension.name] = score;
+      });
+      const rules: Record<string, boolean> = {};
+      (result.rules ?? []).forEach((rule: any) => {
+        rules[getDataQualityRuleKey(rule.rule)] = !!rule.passed;
+      });
+      return {
+        name: job.name ?? `job-${index}`,
+        // Jobs come newest first; keep that order for jobs without an end
+        time: toTimeMs(job.endTime) ?? toTimeMs(job.startTime) ?? -index,
+        passed: !!result.passed,
+        score: toScore(result.score),
+        dimensions,
+        rules,
+      };
+    })
+    .sort((a: DataQualityRun, b: DataQualityRun) => a.time - b.time);
+
+/** The results of one rule in each run that evaluated it, oldest first. */
+export const getDataQualityRuleResults = (dataQualityScan: any, ruleKey: string): DataQualityRuleResult[] => {
+  const runTimes = new Map(getDataQualityRuns(dataQualityScan).map((run) => [run.name, run.time]));
+  return (dataQualityScan?.jobs ?? [])
+    .filter((job: any) => job?.dataQualityResult)
+    .flatMap((job: any, index: number) => {
+      const name = job.name ?? `job-${index}`;
+      const result = (job.dataQualityResult.rules ?? []).find((rule: any) => getDataQualityRuleKey(rule.rule) === ruleKey);
+      if (!result) return [];
+      const evaluatedCount = toScore(result.evaluatedCount);
+      const passedCount = toScore(result.passedCount);
+      return [{
+        run: name,
+        time: runTimes.get(name) ?? -index,
+        passed: !!result.passed,
+        evaluatedCount,
+        passedCount,
+        failedCount: evaluatedCount !== null && passedCount !== null ? evaluatedCount - passedCount : null,
+        nullCount: toScore(result.nullCount),
+        passRatio: toScore(result.passRatio),
+        failingRowsQuery: result.failingRowsQuery ?? '',
+      }];
+    })
+    .sort((a: DataQualityRuleResult, b: DataQualityRuleResult) => a.time - b.time);
+};
+
+/** Dimension names scored in any run, sorted. */
+export const getDataQualityDimensions = (runs: DataQualityRun[]): string[] =>
+  [...new Set(runs.flatMap((run) => Object.keys(run.dimensions)))].sort();
+
+/**
+ * The rule's results over the latest `limit` runs that evaluated it, and how
+ * many of the latest ones share the current result. Null if no run did.
+ */
+export const getDataQualityRuleStreak = (runs: DataQualityRun[], ruleKey: string, limit = 10): DataQualityRuleStreak | null => {
+  const results = runs.map((run) => run.rules[ruleKey]).filter((passed): passed is boolean => passed !== undefined);
+  if (results.length === 0) return null;
+  const passed = results[results.length - 1];
+  let count = 0;
+  while (count < results.length && results[results.length - 1 - count] === passed) count += 1;
+  return { passed, count, history: results.slice(-limit) };
+};
+
+/**
+ * Regressions between each run and the one before it, newest first. Scores
+ * must drop by more than `tolerance` points to count.
+ */
+export const findDataQualityRegressions = (runs: DataQualityRun[], tolerance = 0): DataQualityRegression[] => {
+  const regressions: DataQualityRegression[] = [];
+  runs.forEach((run, index) => {
+    const previous = runs[index - 1];
+    if (!previous) return;
+    if (run.score !== null && previous.score !== null && previous.score - run.score > tolerance) {
+      regressions.push({ run, previous, kind: 'score', label: '', from: previous.score, to: run.score });
+    }
+    Object.entries(run.dimensions).forEach(([dimension, score]) => {
+      const before = previous.dimensions[dimension];
+      if (before !== undefined && before - score > tolerance) {
+        regressions.push({ run, previous, kind: 'dimension', label: dimension, from: before, to: score });
+      }
+    });
+    Object.entries(run.rules).forEach(([ruleKey, passed]) => {
+      if (!passed && previous.rules[ruleKey] === true) {
+        regressions.push({ run, previous, kind: 'rule', label: ruleKey, from: true, to: false });
+      }
+    });
+  });
+  return regressions.reverse();
+};
+
+/** A readable name for a rule key: its name, else "column · dimension". */
+export const formatDataQualityRuleKey = (ruleKey: string): string => {
+  const [name, column, ruleType, dimension] = ruleKey.split('|');
+  if (name) return name;
+  return [column, dimension || ruleType].filter(Boolean).join(' · ') || 'Table rule';
+};
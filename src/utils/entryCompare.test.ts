@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import type { DataplexAspect, DataplexEntry } from '../api/dataplexClient';
+import {
+  buildCompareUrl,
+  diffAspects,
+  diffSchemas,
+  getLineageOverlap,
+  getScanHeadline,
+  parseCompareEntries,
+} from './entryCompare';
+
+const schemaField = (name: string, dataType: string, mode = 'NULLABLE') => ({
+  structValue: {
+    fields: {
+      name: { stringValue: name },
+      dataType: { stringValue: dataType },
+      mode: { stringValue: mode },
+    },
+  },
+});
+
+const makeEntry = (name: string, fields: unknown[] | null, aspects: Record<string, DataplexAspect> = {}): DataplexEntry => ({
+  name: `projects/p/locations/us/entryGroups/@bigquery/entries/${name}`,
+  entryType: 'projects/655216118709/locations/global/entryTypes/bigquery-table',
+  aspects: {
+    ...(fields ? { '655216118709.global.schema': { data: { fields: { fields: { listValue: { values: fields } } } } } } : {}),
+    ...aspects,
+  },
+});
+
+const link = (source: string, target: string) => ({
+  name: `${source}->${target}`,
+  source: { fullyQualifiedName: source },
+  target: { fullyQualifiedName: target },
+});
+
+describe('entryCompare', () => {
+  it('reads and builds the entries query parameter', () => {
+    const url = buildCompareUrl(['projects/p/entries/a', 'projects/p/entries/b']);
+
+    expect(url).toBe('/compare?entries=projects%2Fp%2Fentries%2Fa%2Cprojects%2Fp%2Fentries%2Fb');
+    expect(parseCompareEntries(url.split('?')[1])).toEqual(['projects/p/entries/a', 'projects/p/entries/b']);
+    expect(parseCompareEntries('?entries=a,,b,a,c,d,e')).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  describe('diffSchemas', () => {
+    it('aligns columns by name and flags them against the first entry', () => {
+      const rows = diffSchemas([
+        makeEntry('a', [schemaField('id', 'INT64'), schemaField('name', 'STRING'), schemaField('old', 'STRING')]),
+        makeEntry('b', [schemaField('id', 'STRING'), schemaField('name', 'STRING'), schemaField('new', 'DATE')]),
+      ]);
+
+      expect(rows.map((row) => [row.name, row.cells[1].status, row.differs])).toEqual([
+        ['id', 'typeChanged', true],
+        ['name', 'same', false],
+        ['old', 'removed', true],
+        ['new', 'added', true],
+      ]);
+      expect(rows[0].cells[0]).toEqual({ field: { name: 'id', type: 'INT64', mode: 'NULLABLE' }, status: null });
+    });
+
+    it('does not compare entries whose schema could not be read', () => {
+      const rows = diffSchemas([makeEntry('a', [schemaField('id', 'INT64')]), makeEntry('b', null), null]);
+
+      expect(rows).toHaveLength(1);
+      expect(rows[0].cells.map((cell) => cell.status)).toEqual([null, null, null]);
+      expect(rows[0].differs).toBe(false);
+    });
+  });
+
+  it('lines up aspect values and marks missing aspects', () => {
+    const diffs = diffAspects([
+      makeEntry('a', [], { '1.global.overview': { data: { owner: 'sales', tier: 'gold' } } }),
+      makeEntry('b', [], { '1.global.overview': { data: { owner: 'sales', tier: 'silver' } } }),
+      makeEntry('c', []),
+    ]);
+
+    expect(diffs).toEqual([{
+      aspectKey: '1.global.overview',
+      label: 'overview',
+      present: [true, true, false],
+      rows: [
+        { field: 'owner', values: ['sales', 'sales', null], differs: true },
+        { field: 'tier', values: ['gold', 'silver', null], differs: true },
+      ],
+      differs: true,
+    }]);
+  });
+
+  it('reads headline numbers from data quality and profile scans', () => {
+    const dq = {
+      jobs: [
+        { state: 'RUNNING' },
+        {
+          endTime: { seconds: 1714557600 },
+          dataQualityResult: { score: 87.456, passed: false, rules: [{ passed: true }, { passed: false }, { passed: false }] },
+        },
+      ],
+    };
+    const profile = { scan: { dataProfileResult: { rowCount: '1200', profile: { fields: [{}, {}] } } } };
+
+    expect(getScanHeadline(dq, profile)).toEqual({
+      dqScore: 87.46,
+      dqPassed: false,
+      ruleCount: 3,
+      failedRuleCount: 2,
+      lastRun: '2024-05-01T10:00:00.000Z',
+      rowCount: 1200,
+      profiledFieldCount: 2,
+    });
+    expect(getScanHeadline(null, null)).toEqual({
+      dqScore: null, dqPassed: null, ruleCount: null, failedRuleCount: null, lastRun: null, rowCount: null, profiledFieldCount: null,
+    });
+  });
+
+  it('puts lineage neighbours shared by several entries first', () => {
+    const overlap = getLineageOverlap([
+      { sourceLinks: [link('a', 'report')], targetLinks: [link('raw', 'a'), link('lookup', 'a')] },
+      { sourceLinks: [link('b', 'report'), link('b', 'export')], targetLinks: [link('raw', 'b')] },
+      null,
+    ]);
+
+    expect(overlap.upstream).toEqual([
+      { fqn: 'raw', presentIn: [true, true, false], count: 2 },
+      { fqn: 'lookup', presentIn: [true, false, false], count: 1 },
+    ]);
+    expect(overlap.downstream.map((row) => [row.fqn, row.count])).toEqual([['report', 2], ['export', 1]]);
+  });
+});
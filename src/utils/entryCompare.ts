@@ -0,0 +1,214 @@
+/**
+ * @file entryCompare.ts
+ * @description
+ * Side-by-side comparison of entries for the `/compare` page. The first
+ * entry is the baseline: schema fields of the other entries are reported as
+ * added, removed or type-changed against it. Aspect values, data quality and
+ * profile headline numbers and lineage neighbours are lined up per entry.
+ */
+
+import type { DataplexEntry, LineageLinkResource, LineageSearchResponse } from '../api/dataplexClient';
+import { getAspectFieldOptions, getAspectFieldValue, getAspectLabel } from './searchExport';
+import { getDataQualityScore, getSchemaFields, type WatchSchemaField } from './watchlistDiff';
+
+export const MAX_COMPARE_ENTRIES = 4;
+
+export const COMPARE_PATH = '/compare';
+
+/** Entry names from the `entries` query parameter, without blanks or duplicates. */
+export const parseCompareEntries = (search: string): string[] => {
+  const value = new URLSearchParams(search).get('entries') ?? '';
+  return [...new Set(value.split(',').map((name) => name.trim()).filter(Boolean))].slice(0, MAX_COMPARE_ENTRIES);
+};
+
+export const buildCompareUrl = (entryNames: string[]) =>
+  `${COMPARE_PATH}?${new URLSearchParams({ entries: entryNames.join(',') }).toString()}`;
+
+export const getEntryDisplayName = (entry: DataplexEntry | null | undefined, entryName = '') =>
+  entry?.entrySource?.displayName || (entry?.name ?? entryName).split('/').pop() || entryName;
+
+export type CompareFieldStatus = 'same' | 'added' | 'removed' | 'typeChanged';
+
+export interface SchemaDiffCell {
+  field: WatchSchemaField | null;
+  // null for the baseline and for entries whose schema could not be read
+  status: CompareFieldStatus | null;
+}
+
+export interface SchemaDiffRow {
+  name: string;
+  cells: SchemaDiffCell[];
+  differs: boolean;
+}
+
+const isSameField = (a: WatchSchemaField, b: WatchSchemaField) => a.type === b.type && a.mode === b.mode;
+
+const getFieldStatus = (base: WatchSchemaField | null, field: WatchSchemaField | null): CompareFieldStatus | null => {
+  if (base && field) return isSameField(base, field) ? 'same' : 'typeChanged';
+  if (base) return 'removed';
+  return field ? 'added' : null;
+};
+
+/**
+ * Schema columns of all entries, one row per column name: the baseline's
+ * columns in order, then columns that only the other entries have.
+ */
+export const diffSchemas = (entries: (DataplexEntry | null)[]): SchemaDiffRow[] => {
+  const schemas = entries.map((entry) => getSchemaFields(entry));
+  const byName = schemas.map((fields) => new Map((fields ?? []).map((field) => [field.name, field])));
+  const names: string[] = [];
+  schemas.forEach((fields) => (fields ?? []).forEach((field) => {
+    if (!names.includes(field.name)) names.push(field.name);
+  }));
+
+  return names.map((name) => {
+    const base = byName[0]?.get(name) ?? null;
+    const cells = schemas.map((fields, index) => {
+      const field = byName[index].get(name) ?? null;
+      if (index === 0 || !fields || !schemas[0]) return { field, status: null };
+      return { field, status: getFieldStatus(base, field) };
+    });
+    return { name, cells, differs: cells.some((cell) => cell.status !== null && cell.status !== 'same') };
+  });
+};
+
+export interface AspectDiffRow {
+  field: string;
+  // null where the entry does not have the aspect
+  values: (string | null)[];
+  differs: boolean;
+}
+
+export interface AspectDiff {
+  aspectKey: string;
+  label: string;
+  present: boolean[];
+  rows: AspectDiffRow[];
+  differs: boolean;
+}
+
+/** Aspect field values per entry, grouped by aspect. The schema aspect is left to `diffSchemas`. */
+export const diffAspects = (entries: (DataplexEntry | null)[]): AspectDiff[] => {
+  const diffs = new Map<string, AspectDiff>();
+  getAspectFieldOptions(entries).forEach((option) => {
+    let diff = diffs.get(option.aspectKey);
+    if (!diff) {
+      const present = entries.map((entry) => !!entry?.aspects?.[option.aspectKey]);
+      diff = { aspectKey: option.aspectKey, label: getAspectLabel(option.aspectKey), present, rows: [], differs: false };
+      diffs.set(option.aspectKey, diff);
+    }
+    const values = entries.map((entry, index) => (diff!.present[index] ? getAspectFieldValue(entry, option) : null));
+    const differs = values.some((value) => value !== values[0]);
+    diff.rows.push({ field: option.field, values, differs });
+    diff.differs = diff.differs || differs;
+  });
+  return [...diffs.values()];
+};
+
+export interface ScanHeadline {
+  dqScore: number | null;
+  dqPassed: boolean | null;
+  ruleCount: number | null;
+  failedRuleCount: number | null;
+  lastRun: string | null;
+  rowCount: number | null;
+  profiledFieldCount: number | null;
+}
+
+const toIsoTime = (value: unknown): string | null => {
+  if (!value) return null;
+  if (typeof value === 'string') return value;
+  if (typeof value === 'object' && 'seconds' in value && value.seconds !== undefined) {
+    return new Date(Number(value.seconds) * 1000).toISOString();
+  }
+  return null;
+};
+
+const toNumber = (value: unknown): number | null => {
+  const number = Number(value);
+  return value !== undefined && value !== null && value !== '' && Number.isFinite(number) ? number : null;
+};
+
+// The parts of the scan data in `dataScanSlice` the headline reads
+interface DataQualityJob {
+  dataQualityResult?: { passed?: boolean; rules?: { passed?: boolean }[] };
+  startTime?: unknown;
+  endTime?: unknown;
+}
+
+interface ProfileScanData {
+  scan?: { dataProfileResult?: { rowCount?: unknown; profile?: { fields?: unknown[] } } };
+}
+
+/**
+ * Headline numbers from the scan data kept in `dataScanSlice`: the latest
+ * data quality job (`{ scan, jobs }`) and the profile scan's result.
+ */
+export const getScanHeadline = (
+  dqScanData: { jobs?: DataQualityJob[] } | null | undefined,
+  profileScanData: ProfileScanData | null | undefined
+): ScanHeadline => {
+  const job = (dqScanData?.jobs ?? []).find((j) => j?.dataQualityResult);
+  const rules = job ? job.dataQualityResult?.rules ?? [] : null;
+  const profile = profileScanData?.scan?.dataProfileResult;
+  return {
+    dqScore: getDataQualityScore(dqScanData),
+    dqPassed: typeof job?.dataQualityResult?.passed === 'boolean' ? job.dataQualityResult.passed : null,
+    ruleCount: rules ? rules.length : null,
+    failedRuleCount: rules ? rules.filter((rule) => rule?.passed === false).length : null,
+    lastRun: toIsoTime(job?.endTime ?? job?.startTime),
+    rowCount: toNumber(profile?.rowCount),
+    profiledFieldCount: Array.isArray(profile?.profile?.fields) ? profile.profile.fields.length : null,
+  };
+};
+
+export interface LineageNeighbours {
+  upstream: string[];
+  downstream: string[];
+}
+
+/**
+ * Fully qualified names next to an entry in the lineage search response:
+ * `targetLinks` end at the entry (upstream), `sourceLinks` start at it
+ * (downstream).
+ */
+export const getLineageNeighbours = (lineage: Partial<LineageSearchResponse> | null | undefined): LineageNeighbours => {
+  const collect = (links: LineageLinkResource[] | undefined, side: 'source' | 'target') =>
+    [...new Set<string>((Array.isArray(links) ? links : [])
+      .map((link) => link?.[side]?.fullyQualifiedName)
+      .filter(Boolean))];
+  return {
+    upstream: collect(lineage?.targetLinks, 'source'),
+    downstream: collect(lineage?.sourceLinks, 'target'),
+  };
+};
+
+export interface LineageOverlapRow {
+  fqn: string;
+  presentIn: boolean[];
+  count: number;
+}
+
+export interface LineageOverlap {
+  upstream: LineageOverlapRow[];
+  downstream: LineageOverlapRow[];
+}
+
+const overlapRows = (lists: (string[] | null)[]): LineageOverlapRow[] => {
+  const names = [...new Set(lists.flatMap((list) => list ?? []))];
+  return names
+    .map((fqn) => {
+      const presentIn = lists.map((list) => !!list?.includes(fqn));
+      return { fqn, presentIn, count: presentIn.filter(Boolean).length };
+    })
+    .sort((a, b) => b.count - a.count || a.fqn.localeCompare(b.fqn));
+};
+
+/** Upstream and downstream neighbours of all entries, shared ones first. Missing lineage is `null`. */
+export const getLineageOverlap = (lineages: (LineageSearchResponse | null)[]): LineageOverlap => {
+  const neighbours = lineages.map((lineage) => (lineage ? getLineageNeighbours(lineage) : null));
+  return {
+    upstream: overlapRows(neighbours.map((n) => n?.upstream ?? null)),
+    downstream: overlapRows(neighbours.map((n) => n?.downstream ?? null)),
+  };
+};
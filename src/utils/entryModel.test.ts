@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import {
+  filterSchemaAspect,
+  findAspectKey,
+  fromProtoValue,
+  getAnnotationAspectKeys,
+  getAspectData,
+  getContacts,
+  getDataQualityLabels,
+  getDescriptions,
+  getLatestUsageValue,
+  getOverview,
+  getRefreshCadence,
+  getSchemaFields,
+  getUsage,
+  getAspect,
+  hasSchema,
+  isProtoStruct,
+  parseSchemaAspect,
+} from './entryModel';
+import { MOCK_ENTRIES, MOCK_PROJECT_ID } from '../mocks/mockBackendFixtures';
+import { toProtoEntry } from '../mocks/mockBackendRoutes';
+
+const fixture = (suffix: string) => {
+  const entry = MOCK_ENTRIES.find((candidate) => candidate.name.endsWith(suffix));
+  if (!entry) throw new Error(`No fixture entry ending in ${suffix}`);
+  return entry;
+};
+
+const employee = fixture('/tables/employee');
+const employeeFinal = fixture('/tables/employee_final');
+const dataset = fixture('/datasets/dataplex_test');
+const dataProduct = fixture('/dataProducts/employee-analytics');
+
+// Every accessor must read the backend (gRPC) and the Dataplex REST shapes alike
+const shapes = [
+  ['REST', (entry: typeof employee) => entry],
+  ['gRPC', (entry: typeof employee) => toProtoEntry(entry)],
+] as const;
+
+describe.each(shapes)('entry model (%s shape)', (_shape, toShape) => {
+  it('reads schema fields', () => {
+    const fields = getSchemaFields(toShape(employee));
+
+    expect(fields.map((field) => field.name)).toEqual(['emp_id', 'name', 'department', 'salary']);
+    expect(fields[0]).toEqual({
+      name: 'emp_id',
+      dataType: 'INT64',
+      metadataType: 'NUMBER',
+      mode: 'REQUIRED',
+      description: 'Unique identifier for the employee.',
+      defaultValue: '',
+    });
+    expect(hasSchema(toShape(employee))).toBe(true);
+  });
+
+  it('filters schema columns without changing the shape of the aspect', () => {
+    const data = getAspect(toShape(employee), 'schema')?.data;
+    const filtered = filterSchemaAspect(data, (field) => field.dataType === 'STRING');
+
+    expect(parseSchemaAspect(filtered).map((field) => field.name)).toEqual(['name', 'department']);
+    expect(isProtoStruct(filtered)).toBe(isProtoStruct(data));
+  });
+
+  it('reads the overview, contacts and usage', () => {
+    const entry = toShape(employee);
+
+    expect(getOverview(entry)).toContain('system of record for headcount reporting');
+    expect(getContacts(entry)).toEqual([
+      { role: 'Owner', name: 'Priya Natarajan <priya.natarajan@example.com>', displayName: 'Priya Natarajan', email: 'priya.natarajan@example.com', id: 'priya.natarajan@example.com' },
+      { role: 'Data Steward', name: 'Marcus Lee <marcus.lee@example.com>', displayName: 'Marcus Lee', email: 'marcus.lee@example.com', id: 'marcus.lee@example.com' },
+    ]);
+
+    const usage = getUsage(entry);
+    expect(usage?.metrics.map((metric) => metric.name)).toEqual(['execution_time', 'total_queries']);
+    expect(usage?.refreshTime).toBe('2026-10-19T06:12:04Z');
+    expect(getLatestUsageValue(usage, 'execution_time')).toBe(4700);
+    expect(getLatestUsageValue(usage, 'total_queries')).toBe(42);
+    expect(getLatestUsageValue(usage, 'bytes_billed')).toBeNull();
+  });
+
+  it('reads generated descriptions', () => {
+    expect(getDescriptions(toShape(employee))).toEqual({
+      description: 'Current employees with their department and annual base salary in USD.',
+      columns: [
+        { name: 'emp_id', description: 'Identifier of the employee, unique across the company.' },
+        { name: 'salary', description: 'Annual base salary in USD; empty while an offer is pending.' },
+      ],
+    });
+  });
+
+  it('reads the refresh cadence of a data product', () => {
+    expect(getRefreshCadence(toShape(dataProduct))).toEqual({
+      frequency: 'Daily',
+      refreshTime: '07:00 UTC',
+      freshnessSla: '24 hours',
+      fields: { frequency: 'Daily', refreshTime: '07:00 UTC', freshnessSla: '24 hours' },
+    });
+  });
+
+  it('falls back to empty values when an aspect is missing', () => {
+    const entry = toShape(dataset);
+
+    expect(getSchemaFields(entry)).toEqual([]);
+    expect(hasSchema(entry)).toBe(false);
+    expect(getOverview(entry)).toBe('');
+    expect(getContacts(entry)).toEqual([]);
+    expect(getUsage(entry)).toBeNull();
+    expect(getRefreshCadence(entry)).toBeNull();
+    expect(getDescriptions(entry)).toEqual({ description: '', columns: [] });
+  });
+
+  it('lists the aspects that are shown as annotations', () => {
+    expect(getAnnotationAspectKeys(toShape(employee))).toEqual([
+      '655216118709.global.storage',
+      '1069578231809.global.data-classification',
+      '655216118709.global.descriptions',
+    ]);
+    expect(getAnnotationAspectKeys(toShape(dataProduct))).toEqual([]);
+  });
+});
+
+describe('entry model', () => {
+  it('reads the published scan labels', () => {
+    expect(getDataQualityLabels(employee)).toEqual({
+      dataQuality: {
+        scanId: 'employee-dq',
+        project: MOCK_PROJECT_ID,
+        location: 'us-central1',
+        name: `projects/${MOCK_PROJECT_ID}/locations/us-central1/dataScans/employee-dq`,
+      },
+      dataProfile: {
+        scanId: 'employee-profile',
+        project: MOCK_PROJECT_ID,
+        location: 'us-central1',
+        name: `projects/${MOCK_PROJECT_ID}/locations/us-central1/dataScans/employee-profile`,
+      },
+    });
+    expect(getDataQualityLabels(employeeFinal).dataProfile).toBeNull();
+    expect(getDataQualityLabels(dataset)).toEqual({ dataQuality: null, dataProfile: null });
+  });
+
+  it('finds system aspects keyed by another project number', () => {
+    const entry = { entryType: 'projects/dataplex-types/locations/global/entryTypes/glossary-term', aspects: { '655216118709.global.overview': { data: { content: '<p>Doc</p>' } } } };
+
+    expect(findAspectKey(entry, 'overview')).toBe('655216118709.global.overview');
+    expect(getOverview(entry)).toBe('<p>Doc</p>');
+  });
+
+  it('decodes Struct values with or without their kind', () => {
+    expect(fromProtoValue({ kind: 'listValue', listValue: { values: [{ kind: 'numberValue', numberValue: 1 }, { boolValue: true }] } })).toEqual([1, true]);
+    expect(getAspectData({ data: { fields: { owner: { stringValue: 'ops' } } } })).toEqual({ owner: 'ops' });
+    expect(getAspectData({ data: { fields: [{ name: 'id' }] } })).toEqual({ fields: [{ name: 'id' }] });
+    expect(getAspectData(undefined)).toEqual({});
+  });
+
+  it('skips malformed schema fields instead of throwing', () => {
+    expect(parseSchemaAspect({ fields: [{ name: 'id', dataType: 'INT64' }, null, 'oops', { dataType: 'STRING' }] })).toEqual([
+      { name: 'id', dataType: 'INT64', metadataType: '', mode: '', description: '', defaultValue: '' },
+    ]);
+    expect(parseSchemaAspect({ fields: 'not a list' })).toEqual([]);
+    expect(parseSchemaAspect(null)).toEqual([]);
+    const withSchemaData = (data: unknown) => ({ entryType: 'projects/1/locations/global/entryTypes/table', aspects: { '1.global.schema': { data } } });
+    expect(hasSchema(withSchemaData({}))).toBe(false);
+    expect(hasSchema(withSchemaData({ fields: {} }))).toBe(false);
+    expect(hasSchema(withSchemaData({ fields: [] }))).toBe(true);
+  });
+});
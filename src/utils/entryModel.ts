@@ -0,0 +1,395 @@
+/**
+ * @file entryModel.ts
+ * @description
+ * Typed read model for catalog entries and their well-known aspects: schema,
+ * overview, contacts, descriptions, refresh cadence and usage, plus the data
+ * quality and profile scan labels of the entry source.
+ *
+ * Entries reach the app in two shapes. The backend returns them as the gRPC
+ * client does, with `{ seconds, nanos }` timestamps and aspect data wrapped in
+ * a protobuf Struct (`{ fields: { content: { kind: 'stringValue', ... } } }`);
+ * direct calls to the Dataplex REST API return plain JSON. The parsers accept
+ * both and never throw: a missing or malformed aspect reads as `null` (or an
+ * empty list), so components can render their empty state.
+ *
+ * System aspects are keyed `<project number>.global.<aspect>`, where the
+ * project number is the one of the entry's `entryType`.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * What the accessors read of an entry and its aspects. Both the
+ * `DataplexEntry` of the REST API and the backend's gRPC-shaped entries fit.
+ */
+export interface AspectLike {
+  aspectType?: string;
+  data?: unknown;
+}
+
+export interface EntryLike {
+  entryType?: string;
+  aspects?: Record<string, AspectLike | null | undefined> | null;
+  entrySource?: { displayName?: string; labels?: Record<string, string> | null } | null;
+}
+
+/** A protobuf `Value` as the backend serializes it. */
+export type ProtoValue =
+  | { kind: 'nullValue'; nullValue?: unknown }
+  | { kind: 'stringValue'; stringValue: string }
+  | { kind: 'numberValue'; numberValue: number }
+  | { kind: 'boolValue'; boolValue: boolean }
+  | { kind: 'structValue'; structValue: ProtoStruct }
+  | { kind: 'listValue'; listValue: { values: ProtoValue[] } };
+
+/** A protobuf `Struct`: aspect data as the backend returns it. */
+export interface ProtoStruct {
+  fields: Record<string, ProtoValue>;
+}
+
+export type WellKnownAspect =
+  | 'schema'
+  | 'overview'
+  | 'contacts'
+  | 'descriptions'
+  | 'refresh-cadence'
+  | 'usage'
+  | 'glossary-term-aspect';
+
+export interface SchemaField {
+  name: string;
+  dataType: string;
+  metadataType: string;
+  mode: string;
+  // '' when the column has none
+  description: string;
+  // '' when the column has none
+  defaultValue: string;
+}
+
+export interface EntryContact {
+  role: string;
+  // As stored, usually "Full Name <email>"
+  name: string;
+  // The part before "<email>", or the whole name when there is no email
+  displayName: string;
+  // '' when the name carries no email
+  email: string;
+  id: string;
+}
+
+export interface ColumnDescription {
+  name: string;
+  description: string;
+}
+
+export interface EntryDescriptions {
+  // Description of the entry itself, '' when there is none
+  description: string;
+  columns: ColumnDescription[];
+}
+
+export interface RefreshCadence {
+  frequency: string;
+  refreshTime: string;
+  freshnessSla: string;
+  // Every field of the aspect, including the three above
+  fields: Record<string, unknown>;
+}
+
+export interface UsagePoint {
+  value: number;
+  // ISO time, '' when unknown
+  startTime: string;
+}
+
+export interface UsageMetric {
+  name: string;
+  timeSeries: UsagePoint[];
+}
+
+export interface EntryUsage {
+  metrics: UsageMetric[];
+  // ISO time, '' when unknown
+  refreshTime: string;
+}
+
+/** Where the published data quality or profile scan of an entry lives. */
+export interface PublishedScan {
+  scanId: string;
+  project: string;
+  location: string;
+  // projects/<project>/locations/<location>/dataScans/<scanId>
+  name: string;
+}
+
+export interface DataQualityLabels {
+  dataQuality: PublishedScan | null;
+  dataProfile: PublishedScan | null;
+}
+
+// Aspects shown by the Overview panels rather than as annotations
+const OVERVIEW_ASPECTS: WellKnownAspect[] = ['schema', 'overview', 'contacts', 'usage', 'refresh-cadence', 'glossary-term-aspect'];
+
+// ---------------------------------------------------------------------------
+// Value helpers
+// ---------------------------------------------------------------------------
+
+const asString = (value: unknown): string =>
+  typeof value === 'string' ? value : typeof value === 'number' || typeof value === 'boolean' ? String(value) : '';
+
+const asNumber = (value: unknown): number | null => {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : null;
+};
+
+const asList = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+
+// ---------------------------------------------------------------------------
+// Struct decoding
+// ---------------------------------------------------------------------------
+
+const VALUE_KINDS = ['stringValue', 'numberValue', 'boolValue', 'structValue', 'listValue', 'nullValue'] as const;
+
+const isValueKind = (kind: unknown): kind is ProtoValue['kind'] =>
+  (VALUE_KINDS as readonly unknown[]).includes(kind);
+
+// `kind` names the set member; some serializers leave it out.
+const getValueKind = (value: unknown): ProtoValue['kind'] | undefined => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  if ('kind' in value && isValueKind(value.kind) && value.kind in value) return value.kind;
+  return VALUE_KINDS.find((kind) => kind in value);
+};
+
+const isProtoValue = (value: unknown): value is ProtoValue => getValueKind(value) !== undefined;
+
+/** True for `{ fields: { ... } }` where every field is a protobuf `Value`. */
+export const isProtoStruct = (data: unknown): data is ProtoStruct => {
+  const fields = asRecord(data).fields;
+  return !!fields && typeof fields === 'object' && !Array.isArray(fields) && Object.values(fields).every(isProtoValue);
+};
+
+/** Plain JSON of a protobuf `Value`; other values are returned as they are. */
+export const fromProtoValue = (value: unknown): unknown => {
+  const kind = getValueKind(value);
+  if (!kind) return value;
+  const member = asRecord(value)[kind];
+  switch (kind) {
+    case 'stringValue':
+    case 'numberValue':
+    case 'boolValue':
+      return member;
+    case 'structValue':
+      return fromProtoStruct(member);
+    case 'listValue':
+      return asList(asRecord(member).values).map(fromProtoValue);
+    default:
+      return null;
+  }
+};
+
+const fromProtoStruct = (struct: unknown): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(asRecord(asRecord(struct).fields)).map(([key, value]) => [key, fromProtoValue(value)]));
+
+/** Aspect data as plain JSON, whichever shape it came in; `{}` when there is none. */
+export const getAspectData = (aspect: AspectLike | null | undefined): Record<string, unknown> => {
+  const data = aspect?.data;
+  return isProtoStruct(data) ? fromProtoStruct(data) : asRecord(data);
+};
+
+// ---------------------------------------------------------------------------
+// Aspect keys
+// ---------------------------------------------------------------------------
+
+/**
+ * Project number the system aspects of `entry` are keyed by, taken from its
+ * entry type ("projects/655216118709/locations/global/entryTypes/...").
+ * '' when the entry has no entry type.
+ */
+export const getAspectProjectNumber = (entry: EntryLike | null | undefined): string =>
+  entry?.entryType?.split('/')[1] ?? '';
+
+/** Key the system aspect `aspect` of `entry` would have, e.g. "655216118709.global.schema". */
+export const getSystemAspectKey = (entry: EntryLike | null | undefined, aspect: WellKnownAspect): string =>
+  `${getAspectProjectNumber(entry)}.global.${aspect}`;
+
+/**
+ * Key of the system aspect `aspect` on `entry`. Falls back to any
+ * `*.global.<aspect>` key, for entries whose types live in another project
+ * than their aspects. undefined when the entry does not have the aspect.
+ */
+export const findAspectKey = (entry: EntryLike | null | undefined, aspect: WellKnownAspect): string | undefined => {
+  const aspects = entry?.aspects ?? {};
+  const key = getSystemAspectKey(entry, aspect);
+  if (aspects[key]) return key;
+  return Object.keys(aspects).find((aspectKey) => aspectKey.endsWith(`.global.${aspect}`) && aspects[aspectKey]);
+};
+
+export const getAspect = (entry: EntryLike | null | undefined, aspect: WellKnownAspect): AspectLike | undefined => {
+  const key = findAspectKey(entry, aspect);
+  return key ? entry?.aspects?.[key] ?? undefined : undefined;
+};
+
+/**
+ * Keys of the aspects shown as annotations: every aspect but the ones the
+ * Overview tab renders itself (schema, documentation, contacts, usage,
+ * refresh cadence and glossary term links).
+ */
+export const getAnnotationAspectKeys = (entry: EntryLike | null | undefined): string[] => {
+  const hidden = new Set(OVERVIEW_ASPECTS.map((aspect) => findAspectKey(entry, aspect)));
+  return Object.keys(entry?.aspects ?? {}).filter((key) => !hidden.has(key));
+};
+
+// ---------------------------------------------------------------------------
+// Parsers, one per aspect, taking the aspect data in either shape
+// ---------------------------------------------------------------------------
+
+// The column list of a schema aspect; undefined when the aspect has none
+const getSchemaFieldList = (data: unknown): unknown =>
+  isProtoStruct(data) ? fromProtoStruct(data).fields : asRecord(data).fields;
+
+export const parseSchemaAspect = (data: unknown): SchemaField[] =>
+  asList(getSchemaFieldList(data)).map((field) => {
+    const column = asRecord(field);
+    return {
+      name: asString(column.name),
+      dataType: asString(column.dataType),
+      metadataType: asString(column.metadataType),
+      mode: asString(column.mode),
+      description: asString(column.description),
+      defaultValue: asString(column.defaultValue),
+    };
+  }).filter((field) => field.name !== '');
+
+/**
+ * Schema aspect data with only the columns `keep` accepts, in the shape it
+ * came in, so the result reads like any other schema aspect.
+ */
+export const filterSchemaAspect = (data: unknown, keep: (field: SchemaField) => boolean): unknown => {
+  const keepField = (field: unknown) => parseSchemaAspect({ fields: [fromProtoValue(field)] }).some(keep);
+  if (isProtoStruct(data)) {
+    const list = asRecord(asRecord(data.fields.fields).listValue);
+    return {
+      ...data,
+      fields: { ...data.fields, fields: { ...data.fields.fields, listValue: { ...list, values: asList(list.values).filter(keepField) } } },
+    };
+  }
+  const schema = asRecord(data);
+  return { ...schema, fields: asList(schema.fields).filter(keepField) };
+};
+
+export const parseOverviewAspect = (data: unknown): string => {
+  const overview = isProtoStruct(data) ? fromProtoStruct(data) : asRecord(data);
+  return asString(overview.content);
+};
+
+// "Priya Natarajan <priya@example.com>" -> { displayName: 'Priya Natarajan', email: 'priya@example.com' }
+const splitContactName = (name: string) => {
+  const match = /^(.*?)\s*<([^>]*)>\s*$/.exec(name);
+  return match ? { displayName: match[1].trim() || match[2], email: match[2] } : { displayName: name, email: '' };
+};
+
+export const parseContactsAspect = (data: unknown): EntryContact[] => {
+  const identities = (isProtoStruct(data) ? fromProtoStruct(data) : asRecord(data)).identities;
+  // Identities without a name are kept, the Contacts panel shows their role
+  return asList(identities).filter((identity) => identity && typeof identity === 'object').map((identity) => {
+    const contact = asRecord(identity);
+    const name = asString(contact.name);
+    return { role: asString(contact.role), name, ...splitContactName(name), id: asString(contact.id) };
+  });
+};
+
+export const parseDescriptionsAspect = (data: unknown): EntryDescriptions => {
+  const descriptions = isProtoStruct(data) ? fromProtoStruct(data) : asRecord(data);
+  return {
+    description: asString(descriptions.description ?? descriptions.content),
+    columns: asList(descriptions.columns ?? descriptions.fields)
+      .map((column) => ({ name: asString(asRecord(column).name), description: asString(asRecord(column).description) }))
+      .filter((column) => column.name !== '' && column.description !== ''),
+  };
+};
+
+export const parseRefreshCadenceAspect = (data: unknown): RefreshCadence | null => {
+  const fields = isProtoStruct(data) ? fromProtoStruct(data) : asRecord(data);
+  if (Object.keys(fields).length === 0) return null;
+  return {
+    frequency: asString(fields.frequency),
+    refreshTime: asString(fields.refreshTime),
+    freshnessSla: asString(fields.freshnessSla),
+    fields,
+  };
+};
+
+// Timestamps come as ISO strings (REST) or { seconds, nanos } (gRPC).
+const toIsoTime = (value: unknown): string => {
+  if (typeof value === 'string') return value;
+  const seconds = asNumber(asRecord(value).seconds);
+  return seconds === null ? '' : new Date(seconds * 1000).toISOString();
+};
+
+export const parseUsageAspect = (data: unknown): EntryUsage | null => {
+  const usage = isProtoStruct(data) ? fromProtoStruct(data) : asRecord(data);
+  if (Object.keys(usage).length === 0) return null;
+  return {
+    metrics: asList(usage.metrics).map((metric) => ({
+      name: asString(asRecord(metric).name),
+      timeSeries: asList(asRecord(metric).timeSeries).flatMap((point) => {
+        const value = asNumber(asRecord(point).value);
+        return value === null ? [] : [{ value, startTime: toIsoTime(asRecord(point).startTime) }];
+      }),
+    })).filter((metric) => metric.name !== ''),
+    refreshTime: toIsoTime(usage.refreshTime),
+  };
+};
+
+const parsePublishedScan = (labels: Record<string, string>, prefix: 'dq' | 'dp'): PublishedScan | null => {
+  const scanId = labels[`dataplex-${prefix}-published-scan`];
+  const project = labels[`dataplex-${prefix}-published-project`];
+  const location = labels[`dataplex-${prefix}-published-location`];
+  if (!scanId || !project || !location) return null;
+  return { scanId, project, location, name: `projects/${project}/locations/${location}/dataScans/${scanId}` };
+};
+
+/** Reads the `dataplex-dq-published-*` and `dataplex-dp-published-*` labels BigQuery sets on tables with published scans. */
+export const parseDataQualityLabels = (labels: Record<string, string> | null | undefined): DataQualityLabels => ({
+  dataQuality: parsePublishedScan(labels ?? {}, 'dq'),
+  dataProfile: parsePublishedScan(labels ?? {}, 'dp'),
+});
+
+// ---------------------------------------------------------------------------
+// Entry accessors
+// ---------------------------------------------------------------------------
+
+/** Columns of the schema aspect; [] when the entry has none. */
+export const getSchemaFields = (entry: EntryLike | null | undefined): SchemaField[] => parseSchemaAspect(getAspect(entry, 'schema')?.data);
+
+/** True when the entry has a schema aspect with a column list, even an empty one. */
+export const hasSchema = (entry: EntryLike | null | undefined): boolean =>
+  Array.isArray(getSchemaFieldList(getAspect(entry, 'schema')?.data));
+
+/** Documentation (HTML) of the overview aspect; '' when there is none. */
+export const getOverview = (entry: EntryLike | null | undefined): string => parseOverviewAspect(getAspect(entry, 'overview')?.data);
+
+export const getContacts = (entry: EntryLike | null | undefined): EntryContact[] => parseContactsAspect(getAspect(entry, 'contacts')?.data);
+
+export const getDescriptions = (entry: EntryLike | null | undefined): EntryDescriptions => parseDescriptionsAspect(getAspect(entry, 'descriptions')?.data);
+
+/** Refresh cadence of a data product; null when it has none. */
+export const getRefreshCadence = (entry: EntryLike | null | undefined): RefreshCadence | null =>
+  parseRefreshCadenceAspect(getAspect(entry, 'refresh-cadence')?.data);
+
+/** Usage metrics; null when the entry has no usage aspect. */
+export const getUsage = (entry: EntryLike | null | undefined): EntryUsage | null => parseUsageAspect(getAspect(entry, 'usage')?.data);
+
+/** Latest value of a usage metric ('execution_time', 'total_queries'); null when it has none. */
+export const getLatestUsageValue = (usage: EntryUsage | null, metricName: string): number | null => {
+  const timeSeries = usage?.metrics.find((metric) => metric.name === metricName)?.timeSeries ?? [];
+  return timeSeries.length > 0 ? timeSeries[timeSeries.length - 1].value : null;
+};
+
+export const getDataQualityLabels = (entry: EntryLike | null | undefined): DataQualityLabels => parseDataQualityLabels(entry?.entrySource?.labels);
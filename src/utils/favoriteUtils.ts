@@ -1,76 +1,96 @@
-// Utility for managing favorite state with localStorage
-export interface FavoriteEntry {
-  name: string;
-  isFavorite: boolean;
-}
+/**
+ * @file favoriteUtils.ts
+ * @description
+ * Helpers for the user's favorites. Favorites are stored per user on the
+ * backend (see `favoritesSlice`); this file reads the favorites the app used
+ * to keep in localStorage so they can be imported once, and groups favorites
+ * for the "My favorites" page.
+ */
+
+import type { Favorite } from '../features/favorites/favoritesSlice';
+
+// localStorage key of the old browser-only favorites: { [entryName]: boolean }
+export const LEGACY_FAVORITES_STORAGE_KEY = 'dataplex_favorites';
 
-const FAVORITES_STORAGE_KEY = 'dataplex_favorites';
+// A favorite whose entry has not been modified for this long is shown as stale.
+export const FAVORITE_STALE_AFTER_DAYS = 180;
+
+const SYSTEM_DISPLAY_NAMES: Record<string, string> = {
+  'dataplex universal catalog': 'Knowledge Catalog',
+  'dataplex': 'Knowledge Catalog',
+};
 
-// Get all favorites from localStorage
-export const getFavorites = (): Record<string, boolean> => {
+// Get the entry names marked as favorite in the old localStorage store
+export const getLegacyFavoriteNames = (): string[] => {
   try {
-    const stored = localStorage.getItem(FAVORITES_STORAGE_KEY);
-    return stored ? JSON.parse(stored) : {};
+    const stored = localStorage.getItem(LEGACY_FAVORITES_STORAGE_KEY);
+    const favorites = stored ? JSON.parse(stored) : {};
+    if (!favorites || typeof favorites !== 'object' || Array.isArray(favorites)) return [];
+    return Object.keys(favorites).filter((entryName) => favorites[entryName] === true);
   } catch (error) {
     console.error('Error reading favorites from localStorage:', error);
-    return {};
+    return [];
   }
 };
 
-// Set a favorite entry
-export const setFavorite = (entryName: string, isFavorite: boolean): void => {
+// Remove the old localStorage store once it has been imported
+export const clearLegacyFavorites = (): void => {
   try {
-    const favorites = getFavorites();
-    favorites[entryName] = isFavorite;
-    localStorage.setItem(FAVORITES_STORAGE_KEY, JSON.stringify(favorites));
-    
-    // Dispatch custom event to notify other components
-    window.dispatchEvent(new CustomEvent('favoritesChanged', { 
-      detail: { entryName, isFavorite } 
-    }));
+    localStorage.removeItem(LEGACY_FAVORITES_STORAGE_KEY);
   } catch (error) {
-    console.error('Error saving favorite to localStorage:', error);
+    console.error('Error clearing favorites from localStorage:', error);
   }
 };
 
-// Get favorite status for a specific entry
-export const isFavorite = (entryName: string): boolean => {
-  const favorites = getFavorites();
-  return favorites[entryName] || false;
+// System name as shown on the entry cards, e.g. "BigQuery" or "Knowledge Catalog"
+export const getFavoriteSystem = (favorite: Favorite): string => {
+  const system = favorite.entry?.entrySource?.system;
+  if (!system) return 'Unknown system';
+  if (system.toLowerCase() === 'bigquery') return 'BigQuery';
+  return SYSTEM_DISPLAY_NAMES[system.toLowerCase()] || system;
 };
 
-// Toggle favorite status for an entry
-export const toggleFavorite = (entryName: string): boolean => {
-  const currentStatus = isFavorite(entryName);
-  const newStatus = !currentStatus;
-  setFavorite(entryName, newStatus);
-  return newStatus;
+// Entry type as shown on the entry cards, e.g. "Table" for ".../bigquery-table"
+export const getFavoriteEntryType = (favorite: Favorite): string => {
+  if (!favorite.entry) return 'Other';
+  const entryType = favorite.entry.entryType || '';
+  const typeName = entryType.includes('-')
+    ? entryType.split('-').pop()
+    : favorite.entryName.split('/').slice(-2)[0];
+  if (!typeName) return 'Other';
+  return typeName.charAt(0).toUpperCase() + typeName.slice(1);
 };
 
-// Remove a favorite entry
-export const removeFavorite = (entryName: string): void => {
-  try {
-    const favorites = getFavorites();
-    delete favorites[entryName];
-    localStorage.setItem(FAVORITES_STORAGE_KEY, JSON.stringify(favorites));
-    
-    // Dispatch custom event to notify other components
-    window.dispatchEvent(new CustomEvent('favoritesChanged', { 
-      detail: { entryName, isFavorite: false } 
+export interface FavoriteGroup {
+  system: string;
+  entryTypes: { entryType: string; favorites: Favorite[] }[];
+}
+
+// Group favorites by system, then entry type; both levels sorted by name
+export const groupFavorites = (favorites: Favorite[]): FavoriteGroup[] => {
+  const systems = new Map<string, Map<string, Favorite[]>>();
+  favorites.forEach((favorite) => {
+    const system = getFavoriteSystem(favorite);
+    const entryType = getFavoriteEntryType(favorite);
+    if (!systems.has(system)) systems.set(system, new Map());
+    const types = systems.get(system)!;
+    types.set(entryType, [...(types.get(entryType) ?? []), favorite]);
+  });
+  return [...systems.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([system, types]) => ({
+      system,
+      entryTypes: [...types.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([entryType, items]) => ({ entryType, favorites: items })),
     }));
-  } catch (error) {
-    console.error('Error removing favorite from localStorage:', error);
-  }
 };
 
-// Clear all favorites
-export const clearAllFavorites = (): void => {
-  try {
-    localStorage.removeItem(FAVORITES_STORAGE_KEY);
-    window.dispatchEvent(new CustomEvent('favoritesChanged', { 
-      detail: { entryName: null, isFavorite: false } 
-    }));
-  } catch (error) {
-    console.error('Error clearing favorites from localStorage:', error);
-  }
+// True when the favorite's entry has not been modified for FAVORITE_STALE_AFTER_DAYS
+export const isFavoriteStale = (favorite: Favorite, now: number = Date.now()): boolean => {
+  const updateTime = favorite.entry?.updateTime;
+  if (!updateTime) return false;
+  const updatedAt = new Date(updateTime).getTime();
+  if (Number.isNaN(updatedAt)) return false;
+  return now - updatedAt > FAVORITE_STALE_AFTER_DAYS * 24 * 60 * 60 * 1000;
 };
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { fuzzyFilter, fuzzyScore } from './fuzzyMatch';
+
+describe('fuzzyScore', () => {
+  it('matches substrings and in-order characters, case-insensitively', () => {
+    expect(fuzzyScore('line', 'Open Lineage tab')).not.toBeNull();
+    expect(fuzzyScore('lnge', 'Lineage')).not.toBeNull();
+    expect(fuzzyScore('egnil', 'Lineage')).toBeNull();
+    expect(fuzzyScore('', 'anything')).toBe(0);
+  });
+
+  it('ranks substrings and word starts above scattered matches', () => {
+    expect(fuzzyScore('orders', 'orders_daily')!).toBeGreaterThan(fuzzyScore('orders', 'o_r_d_e_r_s')!);
+    expect(fuzzyScore('sales', 'daily sales')!).toBeGreaterThan(fuzzyScore('sales', 'wholesales')!);
+  });
+});
+
+describe('fuzzyFilter', () => {
+  const items = [
+    { label: 'Glossaries', keywords: [] },
+    { label: 'Open Lineage tab', keywords: ['tab'] },
+    { label: 'Lineage', keywords: [] },
+    { label: 'Data products', keywords: ['lineage of products'] },
+  ];
+  const texts = (item: typeof items[number]) => [item.label, ...item.keywords];
+
+  it('returns matches best first, ranking labels above keywords', () => {
+    expect(fuzzyFilter(items, 'lineage', texts).map((item) => item.label)).toEqual(['Lineage', 'Open Lineage tab', 'Data products']);
+  });
+
+  it('keeps the original order without a query and applies the limit', () => {
+    expect(fuzzyFilter(items, '  ', texts, 2).map((item) => item.label)).toEqual(['Glossaries', 'Open Lineage tab']);
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * @file fuzzyMatch.ts
+ * @description
+ * Small fuzzy matcher for the command palette. A query matches a text when
+ * the text contains it, or when its characters appear in the text in order
+ * ("lnge" matches "Lineage"). Substring matches rank above scattered ones;
+ * matches at word starts and runs of consecutive characters rank higher.
+ */
+
+const WORD_BOUNDARY = /[\s._\-/:@]/;
+
+/** Score of `text` for `query`, higher is better; `null` when it does not match. */
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const q = query.trim().toLowerCase();
+  if (!q) return 0;
+  const t = text.toLowerCase();
+
+  const index = t.indexOf(q);
+  if (index !== -1) {
+    const atWordStart = index === 0 || WORD_BOUNDARY.test(t[index - 1]);
+    return 1000 + (atWordStart ? 100 : 0) - index - (t.length - q.length) * 0.1;
+  }
+
+  let score = 0;
+  let from = 0;
+  let previous = -2;
+  for (const ch of q.replace(/\s+/g, '')) {
+    const found = t.indexOf(ch, from);
+    if (found === -1) return null;
+    score += found === previous + 1 ? 5 : 1;
+    if (found === 0 || WORD_BOUNDARY.test(t[found - 1])) score += 3;
+    previous = found;
+    from = found + 1;
+  }
+  return score - t.length * 0.01;
+};
+
+/**
+ * `items` that match `query`, best first. Each item is scored on its texts
+ * (e.g. label and keywords); texts after the first score slightly lower.
+ * Items with equal scores keep their order.
+ */
+export const fuzzyFilter = <T>(items: T[], query: string, getTexts: (item: T) => string[], limit = Infinity): T[] => {
+  if (!query.trim()) return items.slice(0, limit);
+  return items
+    .map((item, order) => {
+      const scores = getTexts(item)
+        .map((text, i) => {
+          const score = fuzzyScore(query, text);
+          return score === null ? null : score - (i > 0 ? 50 : 0);
+        })
+        .filter((score): score is number => score !== null);
+      return { item, order, score: scores.length > 0 ? Math.max(...scores) : null };
+    })
+    .filter((ranked) => ranked.score !== null)
+    .sort((a, b) => b.score! - a.score! || a.order - b.order)
+    .slice(0, limit)
+    .map(({ item }) => item);
+};
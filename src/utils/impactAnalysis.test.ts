@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildImpactReport,
+  getEntryContacts,
+  getImpactFileName,
+  getLatestRunTime,
+  groupImpactConsumers,
+  impactReportToCsv,
+  impactReportToMarkdown,
+} from './impactAnalysis';
+import type { LineageTraversal } from './lineageGraph';
+
+const link = (name: string, source: string, target: string, process: string, depth: number) => ({
+  name,
+  source: { fullyQualifiedName: source },
+  target: { fullyQualifiedName: target },
+  process,
+  direction: 'downstream' as const,
+  depth,
+  cycle: false,
+});
+
+// orders -> daily -> dashboard, orders -> dashboard
+const traversal: LineageTraversal = {
+  root: 'bigquery:p.d.orders',
+  nodes: [
+    { fqn: 'bigquery:p.d.orders', depth: 0, direction: 'root' },
+    { fqn: 'bigquery:p.d.daily', depth: 1, direction: 'downstream' },
+    { fqn: 'looker:q.dashboard', depth: 1, direction: 'downstream' },
+    { fqn: 'bigquery:r.d.report', depth: 2, direction: 'downstream' },
+  ],
+  links: [
+    link('l1', 'bigquery:p.d.orders', 'bigquery:p.d.daily', 'process-1', 1),
+    link('l2', 'bigquery:p.d.orders', 'looker:q.dashboard', '', 1),
+    link('l3', 'bigquery:p.d.daily', 'bigquery:r.d.report', 'process-2', 2),
+  ],
+  truncated: true,
+};
+
+const contactsEntry = {
+  aspects: {
+    '655216118709.global.contacts': {
+      data: {
+        fields: {
+          identities: {
+            listValue: {
+              values: [
+                { structValue: { fields: { role: { stringValue: 'Data owner' }, name: { stringValue: 'Jane <jane@example.com>' } } } },
+              ],
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+const processDetails = {
+  'process-1': { processRuns: [{ endTime: '2024-05-01T10:00:00Z' }, { startTime: '2024-05-02T08:00:00Z' }] },
+  'process-2': { processRuns: [{ endTime: { seconds: 1714557600 } }] },
+};
+
+const report = buildImpactReport(
+  traversal,
+  { 'bigquery:p.d.daily': contactsEntry, 'looker:q.dashboard': { aspects: {} } },
+  processDetails,
+  new Date('2024-05-03T09:15:30Z')
+);
+
+describe('impactAnalysis', () => {
+  it('reads the latest run and the contacts aspect', () => {
+    expect(getLatestRunTime(processDetails['process-1'])).toBe('2024-05-02T08:00:00Z');
+    expect(getLatestRunTime(null)).toBe('');
+    expect(getEntryContacts(contactsEntry)).toEqual([{ role: 'Data owner', name: 'Jane <jane@example.com>' }]);
+    expect(getEntryContacts({})).toEqual([]);
+  });
+
+  it('lists every downstream consumer, nearest first', () => {
+    expect(report.consumers.map((consumer) => consumer.fqn)).toEqual([
+      'bigquery:p.d.daily',
+      'looker:q.dashboard',
+      'bigquery:r.d.report',
+    ]);
+    expect(report.consumers[0]).toMatchObject({
+      name: 'daily',
+      system: 'BigQuery',
+      project: 'p',
+      processes: ['process-1'],
+      lastRunTime: '2024-05-02T08:00:00Z',
+      entryFound: true,
+    });
+    expect(report.consumers[2]).toMatchObject({ lastRunTime: '2024-05-01T10:00:00.000Z', contacts: [], entryFound: false });
+    expect(report.truncated).toBe(true);
+  });
+
+  it('groups consumers by depth, system and project', () => {
+    expect(groupImpactConsumers(report.consumers, 'depth').map((group) => [group.label, group.consumers.length])).toEqual([
+      ['1 hop downstream', 2],
+      ['2 hops downstream', 1],
+    ]);
+    expect(groupImpactConsumers(report.consumers, 'system').map((group) => group.label)).toEqual(['BigQuery', 'Looker']);
+    expect(groupImpactConsumers(report.consumers, 'project').map((group) => group.label)).toEqual(['p', 'q', 'r']);
+  });
+
+  it('exports CSV and Markdown', () => {
+    const csv = impactReportToCsv(report);
+    expect(csv.split('\r\n')[0]).toBe('Depth,System,Project,Name,Fully qualified name,Contacts,Last process run,Processes');
+    expect(csv).toContain('Data owner: Jane <jane@example.com>');
+
+    const markdown = impactReportToMarkdown(report, 'system');
+    expect(markdown).toContain('# Impact analysis: orders');
+    expect(markdown).toContain('more consumers may exist');
+    expect(markdown).toContain('## BigQuery (2)');
+    expect(markdown).toContain('| Depth | Project | Name | Fully qualified name | Contacts | Last process run |');
+    expect(markdown).toContain('| 1 | q | dashboard | looker:q.dashboard | — | — |');
+
+    expect(getImpactFileName(report, 'md')).toBe('impact-orders-2024-05-03T09-15-30.md');
+  });
+});
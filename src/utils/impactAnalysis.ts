@@ -0,0 +1,223 @@
+/**
+ * @file impactAnalysis.ts
+ * @description
+ * Downstream impact report for an entry: everything that consumes it,
+ * directly or through other assets. The report is built from a downstream
+ * lineage traversal (`/lineage-traverse`), the consumers' catalog entries
+ * (for their contacts aspect) and the runs of the lineage processes that
+ * feed them (`/get-process-and-job-details`).
+ *
+ * Consumers can be grouped by hop, system or project and exported as CSV or
+ * Markdown. Everything here is pure.
+ */
+
+import type { LineageProcessDetails } from '../api/dataplexClient';
+import { parseContactsAspect, type EntryLike } from './entryModel';
+import { getLineageAssetName, splitLineageFqn, type LineageTraversal } from './lineageGraph';
+import { toCsv, type ExportColumn } from './searchExport';
+
+export type ImpactGrouping = 'depth' | 'system' | 'project';
+
+export interface ImpactContact {
+  role: string;
+  name: string;
+}
+
+export interface ImpactConsumer {
+  fqn: string;
+  name: string;
+  system: string;
+  project: string;
+  // Hops from the analysed entry
+  depth: number;
+  // Lineage processes writing into this consumer
+  processes: string[];
+  // Latest run of those processes (ISO time), '' when unknown
+  lastRunTime: string;
+  contacts: ImpactContact[];
+  // false when the consumer's entry could not be read
+  entryFound: boolean;
+}
+
+export interface ImpactReport {
+  root: string;
+  generatedAt: string;
+  // The traversal stopped at its node limit
+  truncated: boolean;
+  consumers: ImpactConsumer[];
+}
+
+export interface ImpactGroup {
+  key: string;
+  label: string;
+  consumers: ImpactConsumer[];
+}
+
+const SYSTEM_LABELS: Record<string, string> = {
+  bigquery: 'BigQuery',
+  looker: 'Looker',
+  vertex_ai: 'Vertex AI',
+  vertexai: 'Vertex AI',
+  dataproc_metastore: 'Dataproc Metastore',
+  cloud_storage: 'Cloud Storage',
+  gcs: 'Cloud Storage',
+  pubsub: 'Pub/Sub',
+  spanner: 'Spanner',
+  bigtable: 'Bigtable',
+  cloudsql: 'Cloud SQL',
+};
+
+/** "vertex_ai" -> "Vertex AI"; unknown systems are shown as they are. */
+export const getSystemLabel = (system: string) => SYSTEM_LABELS[system.toLowerCase()] ?? system;
+
+// Timestamps come as ISO strings (REST) or { seconds, nanos } (gRPC).
+const toIsoTime = (value: unknown): string => {
+  if (!value) return '';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'object' && 'seconds' in value) return new Date(Number(value.seconds) * 1000).toISOString();
+  return '';
+};
+
+/**
+ * Latest end (or start, for running ones) time of the runs in a
+ * `/get-process-and-job-details` response; '' when there are none.
+ */
+export const getLatestRunTime = (processDetails: Partial<LineageProcessDetails> | null | undefined): string =>
+  (processDetails?.processRuns ?? [])
+    .map((run) => toIsoTime(run?.endTime) || toIsoTime(run?.startTime))
+    .filter(Boolean)
+    .sort()
+    .pop() ?? '';
+
+/** Reads the contacts aspect (`<project>.global.contacts`) of a catalog entry. */
+export const getEntryContacts = (entry: EntryLike | null | undefined): ImpactContact[] => {
+  const aspects = entry?.aspects ?? {};
+  const key = Object.keys(aspects).find((aspectKey) => aspectKey.endsWith('.global.contacts'));
+  return key ? parseContactsAspect(aspects[key]?.data).map(({ role, name }) => ({ role, name })) : [];
+};
+
+/**
+ * Builds the report from a downstream traversal. `entries` maps consumer
+ * FQNs to their catalog entries (missing or null when they could not be
+ * read); `processDetails` maps process names to their
+ * `/get-process-and-job-details` response.
+ */
+export const buildImpactReport = (
+  traversal: LineageTraversal,
+  entries: Record<string, EntryLike | null | undefined>,
+  processDetails: Record<string, Partial<LineageProcessDetails> | null | undefined>,
+  now: Date = new Date()
+): ImpactReport => {
+  const consumers = traversal.nodes
+    .filter((node) => node.direction === 'downstream')
+    .map((node) => {
+      const { system, project } = splitLineageFqn(node.fqn);
+      const processes = [...new Set(traversal.links
+        .filter((link) => link.target.fullyQualifiedName === node.fqn && link.process)
+        .map((link) => link.process))];
+      const entry = entries[node.fqn];
+      return {
+        fqn: node.fqn,
+        name: getLineageAssetName(node.fqn),
+        system: getSystemLabel(system),
+        project,
+        depth: node.depth,
+        processes,
+        lastRunTime: processes.map((process) => getLatestRunTime(processDetails[process])).sort().pop() ?? '',
+        contacts: getEntryContacts(entry),
+        entryFound: !!entry,
+      };
+    })
+    .sort((a, b) => a.depth - b.depth || a.fqn.localeCompare(b.fqn));
+
+  return {
+    root: traversal.root,
+    generatedAt: now.toISOString(),
+    truncated: traversal.truncated,
+    consumers,
+  };
+};
+
+/** Groups consumers by hop (nearest first), system or project (by name). */
+export const groupImpactConsumers = (consumers: ImpactConsumer[], grouping: ImpactGrouping): ImpactGroup[] => {
+  const groups = new Map<string, ImpactGroup>();
+  consumers.forEach((consumer) => {
+    const key = grouping === 'depth' ? String(consumer.depth) : consumer[grouping] || '';
+    const label = grouping === 'depth'
+      ? `${consumer.depth} hop${consumer.depth === 1 ? '' : 's'} downstream`
+      : key || (grouping === 'system' ? 'Unknown system' : 'Unknown project');
+    if (!groups.has(key)) groups.set(key, { key, label, consumers: [] });
+    groups.get(key)!.consumers.push(consumer);
+  });
+  return [...groups.values()].sort((a, b) => (grouping === 'depth'
+    ? Number(a.key) - Number(b.key)
+    : a.label.localeCompare(b.label)));
+};
+
+/** "Data owner: Jane <jane@example.com>; Steward: ..." */
+export const formatContacts = (contacts: ImpactContact[]) =>
+  contacts.map((contact) => (contact.role ? `${contact.role}: ${contact.name}` : contact.name)).join('; ');
+
+export const IMPACT_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'depth', label: 'Depth' },
+  { key: 'system', label: 'System' },
+  { key: 'project', label: 'Project' },
+  { key: 'name', label: 'Name' },
+  { key: 'fqn', label: 'Fully qualified name' },
+  { key: 'contacts', label: 'Contacts' },
+  { key: 'lastRunTime', label: 'Last process run' },
+  { key: 'processes', label: 'Processes' },
+];
+
+const toExportRow = (consumer: ImpactConsumer): Record<string, string> => ({
+  depth: String(consumer.depth),
+  system: consumer.system,
+  project: consumer.project,
+  name: consumer.name,
+  fqn: consumer.fqn,
+  contacts: formatContacts(consumer.contacts),
+  lastRunTime: consumer.lastRunTime,
+  processes: consumer.processes.join('; '),
+});
+
+export const impactReportToCsv = (report: ImpactReport): string =>
+  toCsv(report.consumers.map(toExportRow), IMPACT_EXPORT_COLUMNS);
+
+// Pipes split Markdown table cells and newlines end the row
+const toMarkdownCell = (value: string) => value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ') || '—';
+
+/** Markdown report with one table per group. */
+export const impactReportToMarkdown = (report: ImpactReport, grouping: ImpactGrouping = 'depth'): string => {
+  const lines = [
+    `# Impact analysis: ${getLineageAssetName(report.root)}`,
+    '',
+    `- Entry: \`${report.root}\``,
+    `- Generated: ${report.generatedAt}`,
+    `- Downstream consumers: ${report.consumers.length}`,
+  ];
+  if (report.truncated) {
+    lines.push('- Note: the lineage walk hit its limit; more consumers may exist.');
+  }
+  if (report.consumers.length === 0) {
+    lines.push('', 'No downstream consumers were found.');
+  }
+  const columns = IMPACT_EXPORT_COLUMNS.filter((column) => column.key !== grouping && column.key !== 'processes');
+  groupImpactConsumers(report.consumers, grouping).forEach((group) => {
+    lines.push(
+      '',
+      `## ${group.label} (${group.consumers.length})`,
+      '',
+      `| ${columns.map((column) => column.label).join(' | ')} |`,
+      `| ${columns.map(() => '---').join(' | ')} |`,
+      ...group.consumers.map((consumer) => {
+        const row = toExportRow(consumer);
+        return `| ${columns.map((column) => toMarkdownCell(row[column.key])).join(' | ')} |`;
+      }),
+    );
+  });
+  return `${lines.join('\n')}\n`;
+};
+
+// e.g. "impact-orders-2024-05-01T10-30-00.md"
+export const getImpactFileName = (report: ImpactReport, extension: 'csv' | 'md') =>
+  `impact-${getLineageAssetName(report.root)}-${report.generatedAt.slice(0, 19).replace(/:/g, '-')}.${extension}`;
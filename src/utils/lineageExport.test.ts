@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildLineageExport,
+  getLineageExportFileName,
+  lineageListToCsv,
+  lineageToDot,
+  lineageToMermaid,
+  lineageToSvg,
+} from './lineageExport';
+import { buildTraversalGraphData, type LineageTraversal } from './lineageGraph';
+
+// raw -> orders (root) -> "daily" report, which feeds back into orders
+const traversal: LineageTraversal = {
+  root: 'bigquery:p.d.orders',
+  nodes: [
+    { fqn: 'bigquery:p.d.orders', depth: 0, direction: 'root' },
+    { fqn: 'bigquery:p.d.raw', depth: 1, direction: 'upstream' },
+    { fqn: 'looker:q."daily"', depth: 1, direction: 'downstream' },
+  ],
+  links: [
+    {
+      name: 'projects/p/locations/us/links/l1',
+      source: { fullyQualifiedName: 'bigquery:p.d.raw' },
+      target: { fullyQualifiedName: 'bigquery:p.d.orders' },
+      process: 'projects/p/locations/us/processes/load_orders',
+      startTime: { seconds: 1714557600 },
+      direction: 'upstream',
+      depth: 1,
+      cycle: false,
+    },
+    {
+      name: 'projects/p/locations/us/links/l2',
+      source: { fullyQualifiedName: 'bigquery:p.d.orders' },
+      target: { fullyQualifiedName: 'looker:q."daily"' },
+      process: '',
+      direction: 'downstream',
+      depth: 1,
+      cycle: true,
+    },
+  ],
+  truncated: false,
+};
+
+const entry = { name: 'projects/p/locations/us/entryGroups/@bigquery/entries/orders', fullyQualifiedName: 'bigquery:p.d.orders' };
+const graphData = buildTraversalGraphData(traversal, entry, 1);
+const lineage = buildLineageExport(graphData, new Date('2024-05-03T09:15:30Z'));
+
+describe('lineageExport', () => {
+  it('dumps the assets and the links with their processes', () => {
+    expect(lineage.root).toBe('bigquery:p.d.orders');
+    expect(lineage.nodes.map((node) => [node.fqn, node.system, node.isRoot])).toEqual([
+      ['bigquery:p.d.orders', 'bigquery', true],
+      ['bigquery:p.d.raw', 'bigquery', false],
+      ['looker:q."daily"', 'looker', false],
+    ]);
+    expect(lineage.edges[0]).toEqual({
+      source: 'bigquery:p.d.raw',
+      target: 'bigquery:p.d.orders',
+      link: 'projects/p/locations/us/links/l1',
+      process: 'projects/p/locations/us/processes/load_orders',
+      startTime: '2024-05-01T10:00:00.000Z',
+      endTime: '',
+      cycle: false,
+    });
+  });
+
+  it('writes Graphviz DOT with escaped names', () => {
+    const dot = lineageToDot(lineage);
+
+    expect(dot.startsWith('digraph lineage {\n  rankdir=LR;')).toBe(true);
+    expect(dot).toContain('"bigquery:p.d.orders" [label="orders\\nbigquery", penwidth=2];');
+    expect(dot).toContain('"bigquery:p.d.raw" -> "bigquery:p.d.orders" [label="load_orders"];');
+    expect(dot).toContain('"bigquery:p.d.orders" -> "looker:q.\\"daily\\"" [style=dashed];');
+  });
+
+  it('writes a Mermaid flowchart', () => {
+    expect(lineageToMermaid(lineage).split('\n')).toEqual([
+      'flowchart LR',
+      '  n0["orders<br/><small>bigquery</small>"]',
+      '  n1["raw<br/><small>bigquery</small>"]',
+      '  n2["#quot;daily#quot;<br/><small>looker</small>"]',
+      '  n1 -->|"load_orders"| n0',
+      '  n0 -.-> n2',
+      '  style n0 stroke-width:3px',
+    ]);
+  });
+
+  it('draws the current layout as SVG', () => {
+    const nodes = [
+      { id: 'a', type: 'lineageNode', position: { x: -100, y: 0 }, measured: { width: 300, height: 60 }, data: { nodeData: { name: 'raw', fqn: 'bigquery:p.d.raw' } } },
+      { id: 'q', type: 'queryNode', position: { x: 300, y: 10 }, data: {} },
+      { id: 'b', type: 'lineageNode', position: { x: 450, y: 0 }, measured: { width: 300, height: 60 }, data: { nodeData: { name: '<orders>', fqn: 'bigquery:p.d.orders', isRoot: true } } },
+    ];
+    const edges = [{ source: 'a', target: 'q' }, { source: 'q', target: 'b', style: { strokeDasharray: '6 4' } }];
+
+    const { svg, width, height } = lineageToSvg(nodes, edges);
+
+    expect(width).toBe(898);
+    expect(height).toBe(108);
+    expect(svg).toContain('viewBox="0 0 898 108"');
+    expect(svg).toContain('&lt;orders&gt;');
+    // Two edges; the arrow marker is a path too
+    expect(svg.match(/<path d="M[^"]* C/g)).toHaveLength(2);
+    expect(svg).toContain('stroke-dasharray="6 4"');
+    expect(svg).toContain('<circle');
+  });
+
+  it('exports list rows as CSV with their direction', () => {
+    const csv = lineageListToCsv([
+      { sourceSystem: 'bigquery', sourceProject: 'p', source: 'raw', sourceFQN: 'bigquery:p.d.raw', targetSystem: 'bigquery', targetProject: 'p', target: 'orders', targetFQN: 'bigquery:p.d.orders' },
+      { sourceSystem: 'bigquery', sourceProject: 'p', source: 'a, b', sourceFQN: 'bigquery:p.d.x', targetSystem: 'bigquery', targetProject: 'p', target: 'y', targetFQN: 'bigquery:p.d.y' },
+    ], 'bigquery:p.d.orders');
+
+    const lines = csv.split('\r\n');
+    expect(lines[1]).toBe('Upstream,bigquery,p,raw,bigquery:p.d.raw,bigquery,p,orders,bigquery:p.d.orders');
+    expect(lines[2]).toBe(',bigquery,p,"a, b",bigquery:p.d.x,bigquery,p,y,bigquery:p.d.y');
+    expect(getLineageExportFileName('bigquery:p.d.orders', 'mmd', new Date('2024-05-03T09:15:30Z'))).toBe('lineage-orders-2024-05-03T09-15-30.mmd');
+  });
+});
@@ -0,0 +1,340 @@
+/**
+ * @file lineageExport.ts
+ * @description
+ * Exports of the lineage graph shown by `LineageChartViewNew`: a JSON dump
+ * of its assets and links (with the process behind each link), Graphviz DOT
+ * and Mermaid text for design docs, and SVG/PNG images drawn from the
+ * current React Flow layout. Also turns the `ListView` rows into CSV.
+ *
+ * Text exports read the graph items built by the `Lineage` component
+ * (`assetNode`, `queryNode` and `columnEdge` items); a query node becomes a
+ * single source-to-target link carrying its process.
+ */
+
+import { toCsv, type ExportColumn } from './searchExport';
+import type { ColumnLineageEdge } from './columnLineage';
+import { getLineageAssetName, splitLineageFqn, type LineageGraphItem, type LineageListRow } from './lineageGraph';
+
+export type LineageExportFormat = 'png' | 'svg' | 'json' | 'dot' | 'mmd';
+
+export interface LineageExportNode {
+  id: string;
+  fqn: string;
+  name: string;
+  system: string;
+  project: string;
+  isRoot: boolean;
+  // Only in the column graph
+  columns?: string[];
+}
+
+export interface LineageExportEdge {
+  source: string;
+  target: string;
+  // Data Lineage link and process resource names
+  link: string;
+  process: string;
+  startTime: string;
+  endTime: string;
+  cycle: boolean;
+}
+
+export interface LineageExportColumnEdge {
+  source: { fqn: string; column: string };
+  target: { fqn: string; column: string };
+}
+
+export interface LineageExport {
+  root: string;
+  exportedAt: string;
+  nodes: LineageExportNode[];
+  edges: LineageExportEdge[];
+  columnEdges: LineageExportColumnEdge[];
+}
+
+// The parts of a laid-out React Flow node the images are drawn from
+export interface LineageImageNode {
+  id: string;
+  type?: string;
+  position: { x: number; y: number };
+  width?: number;
+  height?: number;
+  measured?: { width?: number; height?: number };
+  data?: { nodeData?: Partial<LineageGraphItem> };
+}
+
+export interface LineageImageEdge {
+  source: string;
+  target: string;
+  data?: { columnEdge?: ColumnLineageEdge };
+  style?: { strokeDasharray?: string | number };
+}
+
+export const LINEAGE_EXPORT_MIME_TYPES: Record<LineageExportFormat, string> = {
+  png: 'image/png',
+  svg: 'image/svg+xml;charset=utf-8',
+  json: 'application/json',
+  dot: 'text/vnd.graphviz;charset=utf-8',
+  mmd: 'text/plain;charset=utf-8',
+};
+
+// Timestamps come as ISO strings (REST) or { seconds, nanos } (gRPC).
+const toIsoTime = (value: unknown): string => {
+  if (!value) return '';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'object' && 'seconds' in value) return new Date(Number(value.seconds) * 1000).toISOString();
+  return '';
+};
+
+// "projects/p/locations/us/processes/abc" -> "abc"
+const getProcessLabel = (process: string) => process.split('/').pop() ?? '';
+
+const getItemFqn = (item: Partial<LineageGraphItem>): string =>
+  item.fqn ?? item.entryData?.fullyQualifiedName ?? item.name ?? item.id ?? '';
+
+/** Collapses the graph items into assets and source-to-target links. */
+export const buildLineageExport = (graphData: LineageGraphItem[], now: Date = new Date()): LineageExport => {
+  const fqnById = new Map<string, string>();
+  const nodes: LineageExportNode[] = [];
+  graphData.filter((item) => item.type === 'assetNode').forEach((item) => {
+    const fqn = getItemFqn(item);
+    fqnById.set(item.id, fqn);
+    // The single-hop view may show an asset twice; export it once
+    if (nodes.some((node) => node.fqn === fqn)) return;
+    const { system, project } = splitLineageFqn(fqn);
+    nodes.push({
+      id: item.id,
+      fqn,
+      name: item.name ?? getLineageAssetName(fqn),
+      system,
+      project,
+      isRoot: !!item.isRoot,
+      ...(item.columns && { columns: item.columns.map((column) => column.name) }),
+    });
+  });
+
+  const edges: LineageExportEdge[] = graphData.filter((item) => item.type === 'queryNode').map((item) => {
+    const link = item.linkData;
+    return {
+      source: fqnById.get(item.source ?? '') ?? link?.source?.fullyQualifiedName ?? '',
+      target: fqnById.get(item.target ?? '') ?? link?.target?.fullyQualifiedName ?? '',
+      link: link?.name ?? '',
+      process: link?.process ?? '',
+      startTime: toIsoTime(link?.startTime),
+      endTime: toIsoTime(link?.endTime),
+      cycle: !!item.isCycle,
+    };
+  });
+
+  const columnEdges: LineageExportColumnEdge[] = graphData
+    .flatMap((item) => (item.type === 'columnEdge' && item.edge ? [{ source: item.edge.source, target: item.edge.target }] : []));
+
+  return {
+    root: nodes.find((node) => node.isRoot)?.fqn ?? '',
+    exportedAt: now.toISOString(),
+    nodes,
+    edges,
+    columnEdges,
+  };
+};
+
+export const lineageToJson = (lineage: LineageExport) => JSON.stringify(lineage, null, 2);
+
+const dotString = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+export const lineageToDot = (lineage: LineageExport): string => {
+  const lines = [
+    'digraph lineage {',
+    '  rankdir=LR;',
+    '  node [shape=box, style=rounded, fontname="Helvetica"];',
+    '  edge [fontname="Helvetica", fontsize=10];',
+  ];
+  lineage.nodes.forEach((node) => {
+    const label = `${node.name}\\n${node.system}`;
+    lines.push(`  ${dotString(node.fqn)} [label="${label.replace(/"/g, '\\"')}"${node.isRoot ? ', penwidth=2' : ''}];`);
+  });
+  lineage.edges.forEach((edge) => {
+    const attributes = [
+      edge.process && `label=${dotString(getProcessLabel(edge.process))}`,
+      edge.cycle && 'style=dashed',
+    ].filter(Boolean);
+    lines.push(`  ${dotString(edge.source)} -> ${dotString(edge.target)}${attributes.length ? ` [${attributes.join(', ')}]` : ''};`);
+  });
+  lines.push('}');
+  return lines.join('\n');
+};
+
+// Mermaid has no escape for quotes inside labels; it uses entity codes
+const mermaidText = (value: string) => value.replace(/"/g, '#quot;').replace(/[|]/g, '#124;');
+
+export const lineageToMermaid = (lineage: LineageExport): string => {
+  const ids = new Map(lineage.nodes.map((node, index) => [node.fqn, `n${index}`]));
+  const lines = ['flowchart LR'];
+  lineage.nodes.forEach((node) => {
+    lines.push(`  ${ids.get(node.fqn)}["${mermaidText(node.name)}<br/><small>${mermaidText(node.system)}</small>"]`);
+  });
+  lineage.edges.forEach((edge) => {
+    const source = ids.get(edge.source);
+    const target = ids.get(edge.target);
+    if (!source || !target) return;
+    const arrow = edge.cycle ? '-.->' : '-->';
+    const label = edge.process ? `|"${mermaidText(getProcessLabel(edge.process))}"|` : '';
+    lines.push(`  ${source} ${arrow}${label} ${target}`);
+  });
+  const root = ids.get(lineage.root);
+  if (root) lines.push(`  style ${root} stroke-width:3px`);
+  return lines.join('\n');
+};
+
+// ---------------------------------------------------------------------------
+// Images
+// ---------------------------------------------------------------------------
+
+const IMAGE_PADDING = 24;
+const ASSET_HEADER_HEIGHT = 44;
+const COLUMN_ROW_HEIGHT = 31;
+
+// Standalone files cannot resolve the app's CSS variables
+const IMAGE_COLORS = {
+  background: '#ffffff',
+  border: '#bdbdbd',
+  text: '#1f1f1f',
+  muted: '#5e5e5e',
+  query: '#d58813',
+  edge: '#8e8e8e',
+};
+
+const xmlText = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const getNodeSize = (node: LineageImageNode) => ({
+  width: node.measured?.width ?? node.width ?? (node.type === 'queryNode' ? 40 : 300),
+  height: node.measured?.height ?? node.height ?? (node.type === 'queryNode' ? 40 : ASSET_HEADER_HEIGHT),
+});
+
+// Vertical centre of a column row, relative to the node's top
+const getColumnRowY = (node: LineageImageNode, column: string) => {
+  const index = (node.data?.nodeData?.columns ?? []).findIndex((item) => item.name === column);
+  return index < 0 ? null : ASSET_HEADER_HEIGHT + 8 + index * COLUMN_ROW_HEIGHT + COLUMN_ROW_HEIGHT / 2;
+};
+
+/**
+ * Draws the laid-out React Flow `nodes` and `edges` as an SVG document at
+ * their current positions. Column edges start and end at their column rows.
+ */
+export const lineageToSvg = (nodes: LineageImageNode[], edges: LineageImageEdge[]): { svg: string; width: number; height: number } => {
+  const boxes = new Map(nodes.map((node) => [node.id, { node, ...node.position, ...getNodeSize(node) }]));
+  const all = [...boxes.values()];
+  const minX = Math.min(...all.map((box) => box.x), 0);
+  const minY = Math.min(...all.map((box) => box.y), 0);
+  const width = Math.ceil(Math.max(...all.map((box) => box.x + box.width), 0) - minX + IMAGE_PADDING * 2);
+  const height = Math.ceil(Math.max(...all.map((box) => box.y + box.height), 0) - minY + IMAGE_PADDING * 2);
+  const dx = IMAGE_PADDING - minX;
+  const dy = IMAGE_PADDING - minY;
+
+  const edgeMarkup = edges.map((edge) => {
+    const source = boxes.get(edge.source);
+    const target = boxes.get(edge.target);
+    if (!source || !target) return '';
+    const column = edge.data?.columnEdge;
+    const sourceY = (column && getColumnRowY(source.node, column.source.column)) ?? source.height / 2;
+    const targetY = (column && getColumnRowY(target.node, column.target.column)) ?? target.height / 2;
+    const x1 = source.x + source.width + dx;
+    const y1 = source.y + sourceY + dy;
+    const x2 = target.x + dx;
+    const y2 = target.y + targetY + dy;
+    const bend = Math.max(Math.abs(x2 - x1) / 2, 20);
+    const dash = edge.style?.strokeDasharray ? ` stroke-dasharray="${edge.style.strokeDasharray}"` : '';
+    return `<path d="M${x1},${y1} C${x1 + bend},${y1} ${x2 - bend},${y2} ${x2},${y2}" fill="none" stroke="${IMAGE_COLORS.edge}" stroke-width="2"${dash} marker-end="url(#arrow)"/>`;
+  });
+
+  const nodeMarkup = all.map(({ node, x, y, width: nodeWidth, height: nodeHeight }) => {
+    const left = x + dx;
+    const top = y + dy;
+    if (node.type === 'queryNode') {
+      const radius = Math.min(nodeWidth, nodeHeight) / 2;
+      return `<circle cx="${left + nodeWidth / 2}" cy="${top + nodeHeight / 2}" r="${radius}" fill="${IMAGE_COLORS.background}" stroke="${IMAGE_COLORS.query}"/>`
+        + `<text x="${left + nodeWidth / 2}" y="${top + nodeHeight / 2 + 4}" text-anchor="middle" font-size="11" fill="${IMAGE_COLORS.query}">Q</text>`;
+    }
+    const nodeData = node.data?.nodeData ?? {};
+    const fqn = getItemFqn(nodeData);
+    const rows = (nodeData.columns ?? []).map((column, index) =>
+      `<text x="${left + 16}" y="${top + ASSET_HEADER_HEIGHT + 8 + index * COLUMN_ROW_HEIGHT + 20}" font-size="12" fill="${IMAGE_COLORS.text}"${column.inferred ? ' font-style="italic"' : ''}>${xmlText(column.name)}</text>`);
+    return `<rect x="${left}" y="${top}" width="${nodeWidth}" height="${nodeHeight}" rx="8" fill="${IMAGE_COLORS.background}" stroke="${IMAGE_COLORS.border}" stroke-width="${nodeData.isRoot ? 2 : 1}"/>`
+      + `<text x="${left + 12}" y="${top + 20}" font-size="13" font-weight="500" fill="${IMAGE_COLORS.text}">${xmlText(nodeData.name ?? getLineageAssetName(fqn))}</text>`
+      + `<text x="${left + 12}" y="${top + 36}" font-size="10" fill="${IMAGE_COLORS.muted}">${xmlText(fqn)}</text>`
+      + rows.join('');
+  });
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="Helvetica, Arial, sans-serif">`,
+    `<defs><marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse"><path d="M0,0 L10,5 L0,10 z" fill="${IMAGE_COLORS.edge}"/></marker></defs>`,
+    `<rect width="100%" height="100%" fill="${IMAGE_COLORS.background}"/>`,
+    ...edgeMarkup.filter(Boolean),
+    ...nodeMarkup,
+    '</svg>',
+  ].join('\n');
+  return { svg, width, height };
+};
+
+/** Rasterises an SVG document into a PNG, `scale` times its size. */
+export const svgToPngBlob = (svg: string, width: number, height: number, scale = 2): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: LINEAGE_EXPORT_MIME_TYPES.svg }));
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width * scale;
+      canvas.height = height * scale;
+      const context = canvas.getContext('2d');
+      URL.revokeObjectURL(url);
+      if (!context) {
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0);
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not create the PNG'))), LINEAGE_EXPORT_MIME_TYPES.png);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not draw the lineage graph'));
+    };
+    image.src = url;
+  });
+
+// e.g. "lineage-orders-2024-05-01T10-30-00.dot"
+export const getLineageExportFileName = (fqn: string, extension: LineageExportFormat | 'csv', now: Date = new Date()) =>
+  `lineage-${getLineageAssetName(fqn || 'graph')}-${now.toISOString().slice(0, 19).replace(/:/g, '-')}.${extension}`;
+
+// ---------------------------------------------------------------------------
+// List view
+// ---------------------------------------------------------------------------
+
+export const LINEAGE_LIST_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'direction', label: 'Direction' },
+  { key: 'sourceSystem', label: 'Source system' },
+  { key: 'sourceProject', label: 'Source project' },
+  { key: 'source', label: 'Source' },
+  { key: 'sourceFQN', label: 'Source fully qualified name' },
+  { key: 'targetSystem', label: 'Target system' },
+  { key: 'targetProject', label: 'Target project' },
+  { key: 'target', label: 'Target' },
+  { key: 'targetFQN', label: 'Target fully qualified name' },
+];
+
+/**
+ * `ListView` rows as CSV. Rows ending at `rootFqn` are upstream, rows
+ * starting at it downstream; links further out keep an empty direction.
+ */
+export const lineageListToCsv = (rows: Omit<LineageListRow, 'id'>[], rootFqn?: string): string =>
+  toCsv(
+    rows.map((row) => ({
+      ...Object.fromEntries(LINEAGE_LIST_EXPORT_COLUMNS.map((column) => [
+        column.key,
+        String(row[column.key as keyof typeof row] ?? ''),
+      ])),
+      direction: row.targetFQN === rootFqn ? 'Upstream' : row.sourceFQN === rootFqn ? 'Downstream' : '',
+    })),
+    LINEAGE_LIST_EXPORT_COLUMNS
+  );
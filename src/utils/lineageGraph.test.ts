@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildTraversalGraphData,
+  buildTraversalListData,
+  lineageAssetId,
+  type LineageTraversal,
+  type LineageTraversalLink,
+} from './lineageGraph';
+
+const link = (name: string, source: string, target: string, direction: 'upstream' | 'downstream', depth: number, cycle = false): LineageTraversalLink => ({
+  name: `projects/p/locations/us/links/${name}`,
+  source: { fullyQualifiedName: `bigquery:p.d.${source}` },
+  target: { fullyQualifiedName: `bigquery:p.d.${target}` },
+  process: '',
+  direction,
+  depth,
+  cycle,
+});
+
+// raw -> staging -> fact -> mart, plus mart -> fact closing a cycle
+const traversal: LineageTraversal = {
+  root: 'bigquery:p.d.fact',
+  nodes: [
+    { fqn: 'bigquery:p.d.fact', depth: 0, direction: 'root' },
+    { fqn: 'bigquery:p.d.staging', depth: 1, direction: 'upstream' },
+    { fqn: 'bigquery:p.d.mart', depth: 1, direction: 'downstream' },
+    { fqn: 'bigquery:p.d.raw', depth: 2, direction: 'upstream' },
+  ],
+  links: [
+    link('l1', 'staging', 'fact', 'upstream', 1),
+    link('l2', 'raw', 'staging', 'upstream', 2),
+    link('l3', 'fact', 'mart', 'downstream', 1),
+    link('l4', 'mart', 'fact', 'downstream', 2, true),
+  ],
+  truncated: false,
+};
+
+const entry = { name: 'projects/p/locations/us/entryGroups/@bigquery/entries/fact', fullyQualifiedName: 'bigquery:p.d.fact' };
+
+describe('lineageGraph', () => {
+  it('builds one asset per node and one query node per link', () => {
+    const items = buildTraversalGraphData(traversal, entry, 2);
+    const assets = items.filter((item) => item.type === 'assetNode');
+    const queries = items.filter((item) => item.type === 'queryNode');
+
+    expect(assets.map((asset) => asset.id)).toEqual([
+      lineageAssetId('bigquery:p.d.fact'),
+      lineageAssetId('bigquery:p.d.staging'),
+      lineageAssetId('bigquery:p.d.mart'),
+      lineageAssetId('bigquery:p.d.raw'),
+    ]);
+    expect(queries).toHaveLength(4);
+    expect(queries[1]).toMatchObject({
+      source: lineageAssetId('bigquery:p.d.raw'),
+      target: lineageAssetId('bigquery:p.d.staging'),
+      isCycle: false,
+    });
+    expect(queries[3].isCycle).toBe(true);
+  });
+
+  it('keeps the root entry and the reaching link for the side panel', () => {
+    const items = buildTraversalGraphData(traversal, entry, 2);
+    const root = items.find((item) => item.isRoot);
+    const raw = items.find((item) => item.fqn === 'bigquery:p.d.raw');
+    const mart = items.find((item) => item.fqn === 'bigquery:p.d.mart');
+
+    expect(root).toMatchObject({ entryData: entry, level: 2 });
+    // Upstream assets are the link source, downstream ones the link target
+    expect(raw).toMatchObject({ isSource: false, level: -2, linkData: traversal.links[1] });
+    expect(mart).toMatchObject({ isSource: true, level: 4, linkData: traversal.links[2] });
+  });
+
+  it('offers the expand chevron only on the last requested hop', () => {
+    const items = buildTraversalGraphData(traversal, entry, 2);
+    const staging = items.find((item) => item.fqn === 'bigquery:p.d.staging');
+    const raw = items.find((item) => item.fqn === 'bigquery:p.d.raw');
+
+    expect(staging).toMatchObject({ showDownStreamIcon: false, isDownStreamFetched: true });
+    expect(raw).toMatchObject({ showDownStreamIcon: true, isDownStreamFetched: false });
+  });
+
+  it('lists links upstream first, nearest hop first', () => {
+    const rows = buildTraversalListData(traversal);
+
+    expect(rows.map((row) => `${row.source}->${row.target}`)).toEqual([
+      'staging->fact',
+      'raw->staging',
+      'fact->mart',
+      'mart->fact',
+    ]);
+    expect(rows[0]).toMatchObject({ sourceSystem: 'bigquery', sourceProject: 'p', targetFQN: 'bigquery:p.d.fact' });
+  });
+});
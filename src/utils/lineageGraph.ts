@@ -0,0 +1,219 @@
+/**
+ * @file lineageGraph.ts
+ * @description
+ * Turns the result of the multi-hop lineage traversal
+ * (`POST /lineage-traverse`, see `fetchLineageGraph` in `lineageSlice`)
+ * into the flat node arrays rendered by the `Lineage` component: the
+ * asset/query items `LineageChartViewNew` lays out with dagre, and the link
+ * rows shown by `ListView`.
+ *
+ * Asset ids are derived from the fully qualified name, so every asset
+ * appears once however many paths lead to it.
+ */
+
+import type { DataplexEntry, LineageLinkResource } from '../api/dataplexClient';
+import type { ColumnLineageEdge, LineageColumn } from './columnLineage';
+
+export type LineageDirection = 'upstream' | 'downstream' | 'both';
+
+export interface LineageTraversalNode {
+  fqn: string;
+  // Hops from the root; 0 for the root itself
+  depth: number;
+  direction: 'root' | 'upstream' | 'downstream';
+}
+
+export interface LineageTraversalLink {
+  name: string;
+  source: { fullyQualifiedName: string };
+  target: { fullyQualifiedName: string };
+  process: string;
+  // Hop of the link's far end from the root
+  depth: number;
+  direction: 'upstream' | 'downstream';
+  // The link leads back to an asset the walk came through
+  cycle: boolean;
+  [key: string]: unknown;
+}
+
+export interface LineageTraversal {
+  root: string;
+  nodes: LineageTraversalNode[];
+  links: LineageTraversalLink[];
+  // The node cap was reached before the walk finished
+  truncated: boolean;
+  cancelled?: boolean;
+  // Column names per asset, null without a schema; only with `includeSchemas`
+  schemas?: Record<string, string[] | null>;
+}
+
+/**
+ * An item of the lineage chart: an asset, the process (query) node of a
+ * link between two assets, or an edge between two columns of the column
+ * graph.
+ */
+export interface LineageGraphItem {
+  id: string;
+  type: 'assetNode' | 'queryNode' | 'columnEdge';
+  name?: string;
+  fqn?: string;
+  // Ids of the assets a process node or column edge joins
+  source?: string;
+  target?: string;
+  // The link an asset was reached through, or the link of a process
+  linkData?: LineageLinkResource | null;
+  entryData?: Partial<DataplexEntry>;
+  isSource?: boolean;
+  isRoot?: boolean;
+  isCycle?: boolean;
+  level?: number;
+  count?: number;
+  showUpStreamIcon?: boolean;
+  showDownStreamIcon?: boolean;
+  isDownStreamFetched?: boolean;
+  isUpStreamFetched?: boolean;
+  // Column graph: the columns an asset lists and the root's traced column
+  columns?: LineageColumn[];
+  tracedColumn?: string | null;
+  // Column graph: the column rows a column edge joins
+  sourceHandle?: string;
+  targetHandle?: string;
+  edge?: ColumnLineageEdge;
+}
+
+/** A `ListView` row: one link between two assets. */
+export interface LineageListRow {
+  id: number;
+  sourceSystem: string;
+  sourceProject: string;
+  source: string;
+  sourceFQN: string;
+  target: string;
+  targetProject: string;
+  targetSystem: string;
+  targetFQN: string;
+}
+
+// Hop counts offered by the Lineage header.
+export const LINEAGE_DEPTH_OPTIONS = [1, 2, 3, 4, 5];
+export const LINEAGE_DEFAULT_MAX_NODES = 200;
+// Limits enforced by the traversal endpoint
+export const LINEAGE_MAX_DEPTH = 10;
+export const LINEAGE_MAX_NODES = 500;
+
+export const lineageAssetId = (fqn: string) => `node-asset-${fqn}`;
+
+export const getLineageAssetName = (fqn: string) => fqn.split('.').pop() ?? fqn;
+
+// "bigquery:project.dataset.table" -> { system: 'bigquery', project: 'project' }
+export const splitLineageFqn = (fqn: string) => {
+  const [system, path = ''] = fqn.split(':');
+  return { system, project: path.split('.')[0] };
+};
+
+/**
+ * Builds `LineageChartViewNew` graph items. The root keeps the loaded
+ * `entry`; the other assets carry the link they were reached through, as
+ * the single-hop view does, so the side panel can resolve their names.
+ * Assets on the last requested hop keep the expand chevron so the walk can
+ * be continued by hand.
+ */
+export const buildTraversalGraphData = (
+  traversal: LineageTraversal,
+  entry: Partial<DataplexEntry>,
+  depth: number,
+): LineageGraphItem[] => {
+  const levelCounts: Record<number, number> = {};
+  const nextCount = (level: number) => {
+    levelCounts[level] = (levelCounts[level] ?? 0) + 1;
+    return levelCounts[level];
+  };
+  // The single-hop view puts upstream assets at level 0, the root at 2 and
+  // downstream assets at 4; further hops continue two levels apart.
+  const assetLevel = (node: LineageTraversalNode) =>
+    node.direction === 'upstream' ? 2 - node.depth * 2 : 2 + node.depth * 2;
+
+  const items: LineageGraphItem[] = [];
+  traversal.nodes.forEach((node) => {
+    if (node.direction === 'root') {
+      items.push({
+        id: lineageAssetId(node.fqn),
+        name: getLineageAssetName(node.fqn),
+        fqn: node.fqn,
+        linkData: null,
+        entryData: entry,
+        type: 'assetNode',
+        isSource: false,
+        isRoot: true,
+        level: 2,
+        count: 1,
+        showUpStreamIcon: true,
+        showDownStreamIcon: true,
+        isDownStreamFetched: true,
+        isUpStreamFetched: true,
+      });
+      return;
+    }
+    const upstream = node.direction === 'upstream';
+    const linkData = traversal.links.find((link) => link.direction === node.direction
+      && (upstream ? link.source.fullyQualifiedName : link.target.fullyQualifiedName) === node.fqn) ?? null;
+    const onFrontier = node.depth >= depth;
+    items.push({
+      id: lineageAssetId(node.fqn),
+      name: getLineageAssetName(node.fqn),
+      fqn: node.fqn,
+      linkData,
+      entryData: {},
+      type: 'assetNode',
+      isSource: !upstream,
+      isRoot: false,
+      level: assetLevel(node),
+      count: nextCount(assetLevel(node)),
+      showUpStreamIcon: !upstream && onFrontier,
+      showDownStreamIcon: upstream && onFrontier,
+      isDownStreamFetched: !upstream || !onFrontier,
+      isUpStreamFetched: upstream || !onFrontier,
+    });
+  });
+
+  traversal.links.forEach((link) => {
+    const upstream = link.direction === 'upstream';
+    const level = upstream ? 3 - link.depth * 2 : 1 + link.depth * 2;
+    items.push({
+      id: `node-query-${link.name}`,
+      name: `query-${getLineageAssetName(link.target.fullyQualifiedName)}`,
+      source: lineageAssetId(link.source.fullyQualifiedName),
+      target: lineageAssetId(link.target.fullyQualifiedName),
+      linkData: link,
+      type: 'queryNode',
+      entryData: {},
+      isSource: !upstream,
+      isRoot: false,
+      isCycle: link.cycle,
+      level,
+      count: nextCount(level),
+    });
+  });
+
+  return items;
+};
+
+/** Builds the `ListView` rows, one per link, upstream first. */
+export const buildTraversalListData = (traversal: LineageTraversal): LineageListRow[] =>
+  [...traversal.links]
+    .sort((a, b) => (a.direction === b.direction ? a.depth - b.depth : a.direction === 'upstream' ? -1 : 1))
+    .map((link, index) => {
+      const source = splitLineageFqn(link.source.fullyQualifiedName);
+      const target = splitLineageFqn(link.target.fullyQualifiedName);
+      return {
+        id: index,
+        sourceSystem: source.system,
+        sourceProject: source.project,
+        source: getLineageAssetName(link.source.fullyQualifiedName),
+        sourceFQN: link.source.fullyQualifiedName,
+        target: getLineageAssetName(link.target.fullyQualifiedName),
+        targetProject: target.project,
+        targetSystem: target.system,
+        targetFQN: link.target.fullyQualifiedName,
+      };
+    });
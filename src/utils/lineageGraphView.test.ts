@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  collapseProcessNodes,
+  EMPTY_HIDDEN_FACETS,
+  filterLineageGraph,
+  filterLineageListRows,
+  findLineagePath,
+  getAssetEntryType,
+  getLineageFacetValues,
+  searchLineageAssets,
+} from './lineageGraphView';
+
+const asset = (fqn: string, extra: any = {}) => ({ id: `node-asset-${fqn}`, type: 'assetNode', name: fqn.split(/[.:]/).pop(), fqn, ...extra });
+const query = (name: string, source: string, target: string) => ({
+  id: `node-query-${name}`,
+  type: 'queryNode',
+  source: `node-asset-${source}`,
+  target: `node-asset-${target}`,
+  linkData: { name },
+});
+
+// raw -> orders -> report, and an unrelated sheet feeding orders
+const graphData: any[] = [
+  asset('bigquery:p1.sales.orders', { isRoot: true }),
+  asset('bigquery:p1.sales.raw'),
+  asset('bigquery:p2.bi.report'),
+  asset('sheets:p3.budget', { entryData: { entryType: 'projects/x/locations/global/entryTypes/sheet' } }),
+  query('load', 'bigquery:p1.sales.raw', 'bigquery:p1.sales.orders'),
+  query('publish', 'bigquery:p1.sales.orders', 'bigquery:p2.bi.report'),
+  query('import', 'sheets:p3.budget', 'bigquery:p1.sales.orders'),
+];
+
+describe('lineageGraphView', () => {
+  it('reads the facets of the assets', () => {
+    expect(getAssetEntryType(graphData[3])).toBe('sheet');
+    expect(getAssetEntryType(asset('bigquery:p1.sales'))).toBe('bigquery-dataset');
+    expect(getLineageFacetValues(graphData)).toEqual({
+      system: ['bigquery', 'sheets'],
+      project: ['p1', 'p2', 'p3'],
+      entryType: ['bigquery-table', 'sheet'],
+    });
+  });
+
+  it('searches assets by name or fully qualified name', () => {
+    expect(searchLineageAssets(graphData, 'REPORT').map((item) => item.id)).toEqual(['node-asset-bigquery:p2.bi.report']);
+    expect(searchLineageAssets(graphData, 'p1.sales')).toHaveLength(2);
+    expect(searchLineageAssets(graphData, ' ')).toEqual([]);
+  });
+
+  it('hides assets by facet with the processes touching them, but never the root', () => {
+    expect(filterLineageGraph(graphData, EMPTY_HIDDEN_FACETS)).toBe(graphData);
+
+    const ids = filterLineageGraph(graphData, { ...EMPTY_HIDDEN_FACETS, project: ['p1', 'p3'] }).map((item) => item.id);
+    expect(ids).toEqual([
+      'node-asset-bigquery:p1.sales.orders',
+      'node-asset-bigquery:p2.bi.report',
+      'node-query-publish',
+    ]);
+  });
+
+  it('collapses process nodes into direct edges that keep the query', () => {
+    const collapsed = collapseProcessNodes(graphData);
+
+    expect(collapsed.filter((item) => item.type === 'queryNode')).toEqual([]);
+    expect(collapsed.find((item) => item.id === 'direct-edge-node-query-load')).toEqual(expect.objectContaining({
+      type: 'directEdge',
+      source: 'node-asset-bigquery:p1.sales.raw',
+      target: 'node-asset-bigquery:p1.sales.orders',
+      queryNode: graphData[4],
+    }));
+  });
+
+  it('finds the path between two assets in either direction', () => {
+    const report = 'node-asset-bigquery:p2.bi.report';
+    const raw = 'node-asset-bigquery:p1.sales.raw';
+    const path = findLineagePath(graphData, report, raw);
+
+    expect([...path!].sort()).toEqual([
+      'node-asset-bigquery:p1.sales.orders',
+      raw,
+      report,
+      'node-query-load',
+      'node-query-publish',
+    ]);
+    expect(findLineagePath(collapseProcessNodes(graphData), raw, report)!.has('direct-edge-node-query-publish')).toBe(true);
+    expect(findLineagePath(graphData, raw, 'node-asset-sheets:p3.budget')).toBeNull();
+
+    const rows = [
+      { sourceFQN: 'bigquery:p1.sales.raw', targetFQN: 'bigquery:p1.sales.orders' },
+      { sourceFQN: 'sheets:p3.budget', targetFQN: 'bigquery:p1.sales.orders' },
+    ];
+    expect(filterLineageListRows(rows, graphData, path)).toEqual([rows[0]]);
+    expect(filterLineageListRows(rows, graphData)).toEqual(rows);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * @file lineageGraphView.ts
+ * @description
+ * View options for large lineage graphs, applied to the graph items built by
+ * the `Lineage` component before they reach `LineageChartViewNew` and to the
+ * `ListView` rows:
+ * - search: assets whose name or fully qualified name contain a text;
+ * - filters: hide assets by system, project or entry type (never the root);
+ * - focus: the assets and processes on a path between two assets;
+ * - collapse: replace process (query) nodes with direct `directEdge` items.
+ */
+
+import { splitLineageFqn } from './lineageGraph';
+
+export type LineageFacet = 'system' | 'project' | 'entryType';
+
+// Values hidden per facet
+export type LineageHiddenFacets = Record<LineageFacet, string[]>;
+
+export const LINEAGE_FACETS: { facet: LineageFacet; label: string }[] = [
+  { facet: 'system', label: 'System' },
+  { facet: 'project', label: 'Project' },
+  { facet: 'entryType', label: 'Entry type' },
+];
+
+export const EMPTY_HIDDEN_FACETS: LineageHiddenFacets = { system: [], project: [], entryType: [] };
+
+export const getAssetFqn = (item: any): string =>
+  item.fqn ?? item.entryData?.fullyQualifiedName ?? item.name ?? '';
+
+/**
+ * Entry type of an asset. Only loaded entries know theirs; for the others
+ * it is read from the shape of the fully qualified name, e.g.
+ * "bigquery:p.d.t" is a table and "bigquery:p.d" a dataset.
+ */
+export const getAssetEntryType = (item: any): string => {
+  const known = item.entryData?.entryType?.split('/').pop();
+  if (known) return known;
+  const { system } = splitLineageFqn(getAssetFqn(item));
+  const path = getAssetFqn(item).split(':').slice(1).join(':');
+  if (system === 'bigquery') return path.split('.').length >= 3 ? 'bigquery-table' : 'bigquery-dataset';
+  return system || 'unknown';
+};
+
+export const getAssetFacet = (item: any, facet: LineageFacet): string => {
+  if (facet === 'entryType') return getAssetEntryType(item);
+  return splitLineageFqn(getAssetFqn(item))[facet] || 'unknown';
+};
+
+/** The values of every facet among the graph's assets, sorted. */
+export const getLineageFacetValues = (graphData: any[]): LineageHiddenFacets => {
+  const assets = graphData.filter((item) => item.type === 'assetNode');
+  const values = (facet: LineageFacet) => [...new Set(assets.map((item) => getAssetFacet(item, facet)))].sort();
+  return { system: values('system'), project: values('project'), entryType: values('entryType') };
+};
+
+export const countHiddenFacets = (hidden: LineageHiddenFacets) =>
+  hidden.system.length + hidden.project.length + hidden.entryType.length;
+
+/** Assets whose name or fully qualified name contain `text`. */
+export const searchLineageAssets = (graphData: any[], text: string): any[] => {
+  const query = text.trim().toLowerCase();
+  if (!query) return [];
+  return graphData.filter((item) => item.type === 'assetNode'
+    && (String(item.name ?? '').toLowerCase().includes(query) || getAssetFqn(item).toLowerCase().includes(query)));
+};
+
+const isHidden = (item: any, hidden: LineageHiddenFacets) =>
+  !item.isRoot && LINEAGE_FACETS.some(({ facet }) => hidden[facet].includes(getAssetFacet(item, facet)));
+
+/** Drops hidden assets and every process or edge touching them. */
+export const filterLineageGraph = (graphData: any[], hidden: LineageHiddenFacets): any[] => {
+  if (countHiddenFacets(hidden) === 0) return graphData;
+  const hiddenIds = new Set(graphData.filter((item) => item.type === 'assetNode' && isHidden(item, hidden)).map((item) => item.id));
+  return graphData.filter((item) => !hiddenIds.has(item.id)
+    && !(item.source && hiddenIds.has(item.source))
+    && !(item.target && hiddenIds.has(item.target)));
+};
+
+/**
+ * Replaces each process node with a `directEdge` item from its source to
+ * its target. The edge keeps the query item so it can still open the
+ * process details.
+ */
+export const collapseProcessNodes = (graphData: any[]): any[] =>
+  graphData.map((item) => (item.type === 'queryNode'
+    ? {
+      id: `direct-edge-${item.id}`,
+      type: 'directEdge',
+      source: item.source,
+      target: item.target,
+      isCycle: item.isCycle,
+      timeChange: item.timeChange,
+      queryNode: item,
+    }
+    : item));
+
+/**
+ * Ids of the items on a directed path between `fromId` and `toId`, in
+ * either direction: assets, process nodes and `directEdge` items. Null when
+ * no path joins them.
+ */
+export const findLineagePath = (graphData: any[], fromId: string, toId: string): Set<string> | null => {
+  // Edges between item ids; processes and direct edges sit on their link
+  const next = new Map<string, string[]>();
+  const previous = new Map<string, string[]>();
+  const connect = (from: string, to: string) => {
+    next.set(from, [...(next.get(from) ?? []), to]);
+    previous.set(to, [...(previous.get(to) ?? []), from]);
+  };
+  graphData.forEach((item) => {
+    if (item.type === 'queryNode' || item.type === 'directEdge') {
+      connect(item.source, item.id);
+      connect(item.id, item.target);
+    }
+  });
+
+  const reach = (start: string, edges: Map<string, string[]>) => {
+    const seen = new Set([start]);
+    const queue = [start];
+    while (queue.length > 0) {
+      (edges.get(queue.shift()!) ?? []).forEach((id) => {
+        if (seen.has(id)) return;
+        seen.add(id);
+        queue.push(id);
+      });
+    }
+    return seen;
+  };
+  const between = (from: string, to: string) => {
+    const forward = reach(from, next);
+    if (!forward.has(to)) return [];
+    const backward = reach(to, previous);
+    return [...forward].filter((id) => backward.has(id));
+  };
+
+  const path = [...between(fromId, toId), ...between(toId, fromId)];
+  return path.length > 0 ? new Set(path) : null;
+};
+
+/**
+ * Keeps the `ListView` rows whose source and target are both among the
+ * assets of `graphData`, and, with a focus path, on it.
+ */
+export const filterLineageListRows = (listData: any[], graphData: any[], focusPath: Set<string> | null = null): any[] => {
+  const assets = graphData.filter((item) => item.type === 'assetNode' && (!focusPath || focusPath.has(item.id)));
+  const fqns = new Set(assets.map(getAssetFqn));
+  return listData.filter((row) => fqns.has(row.sourceFQN) && fqns.has(row.targetFQN));
+};
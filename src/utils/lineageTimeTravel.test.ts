@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyLineageTimeWindow,
+  DAY_MS,
+  filterLineageListData,
+  getDefaultTimeWindow,
+  getLineageTimeBounds,
+  getLineageTimeRange,
+  getLinkTimeChange,
+  toTimeMs,
+} from './lineageTimeTravel';
+
+const day = (date: string) => Date.parse(`${date}T00:00:00Z`);
+
+const asset = (fqn: string, isRoot = false) => ({ id: `node-asset-${fqn}`, type: 'assetNode', fqn, isRoot });
+const query = (name: string, source: string, target: string, startTime: any, endTime: any) => ({
+  id: `node-query-${name}`,
+  type: 'queryNode',
+  source: `node-asset-${source}`,
+  target: `node-asset-${target}`,
+  linkData: {
+    name,
+    source: { fullyQualifiedName: source },
+    target: { fullyQualifiedName: target },
+    startTime,
+    endTime,
+  },
+});
+
+// "old" fed orders until May 5th, "new" feeds it since May 8th, "always" throughout
+const graphData: any[] = [
+  asset('orders', true),
+  asset('old'),
+  asset('new'),
+  asset('always'),
+  query('l-old', 'old', 'orders', '2024-05-01T06:00:00Z', '2024-05-05T06:00:00Z'),
+  query('l-new', 'new', 'orders', { seconds: day('2024-05-08') / 1000 + 3600 }, { seconds: day('2024-05-10') / 1000 }),
+  query('l-always', 'always', 'orders', '2024-05-01T00:00:00Z', '2024-05-10T12:00:00Z'),
+  { id: 'column-edge-l-old:id', type: 'columnEdge', edge: { link: 'l-old' } },
+];
+
+const now = day('2024-05-10') + 12 * 3600 * 1000;
+
+describe('lineageTimeTravel', () => {
+  it('reads both timestamp formats and the range of the graph', () => {
+    expect(toTimeMs('2024-05-01T06:00:00Z')).toBe(Date.parse('2024-05-01T06:00:00Z'));
+    expect(toTimeMs({ seconds: 10, nanos: 5e6 })).toBe(10005);
+    expect(toTimeMs(undefined)).toBeNull();
+    expect(getLineageTimeRange(graphData)).toEqual({ min: day('2024-05-01'), max: now });
+    expect(getLineageTimeRange([asset('orders', true)])).toBeNull();
+  });
+
+  it('aligns the slider to whole days and starts on the last week', () => {
+    const range = { min: Date.parse('2024-05-01T06:00:00'), max: Date.parse('2024-05-10T12:00:00') };
+    const bounds = getLineageTimeBounds(range);
+
+    expect(new Date(bounds.min).getHours()).toBe(0);
+    expect(bounds.max - bounds.min).toBe(10 * DAY_MS - 1);
+    expect(getDefaultTimeWindow(range)).toEqual({ from: bounds.max + 1 - 7 * DAY_MS, to: bounds.max });
+  });
+
+  it('compares a link in the window with the latest window of the same length', () => {
+    const window = { from: day('2024-05-02'), to: day('2024-05-04') };
+
+    expect(getLinkTimeChange(graphData[4].linkData, window, now)).toBe('removed');
+    expect(getLinkTimeChange(graphData[5].linkData, window, now)).toBe('added');
+    expect(getLinkTimeChange(graphData[6].linkData, window, now)).toBe('unchanged');
+    // Links without timestamps are always there
+    expect(getLinkTimeChange({}, window, now)).toBe('unchanged');
+  });
+
+  it('keeps the links of the window and marks the changes since', () => {
+    const result = applyLineageTimeWindow(graphData, { from: day('2024-05-02'), to: day('2024-05-04') }, now);
+
+    expect(result.added).toBe(1);
+    expect(result.removed).toBe(1);
+    expect(result.graphData.filter((item) => item.type === 'queryNode').map((item) => [item.linkData.name, item.timeChange])).toEqual([
+      ['l-old', 'removed'],
+      ['l-new', 'added'],
+      ['l-always', 'unchanged'],
+    ]);
+    expect(result.graphData.find((item) => item.type === 'columnEdge').timeChange).toBe('removed');
+  });
+
+  it('drops links and assets outside both windows', () => {
+    // May 6th-7th: "old" has stopped, "new" has not started and the latest two days only see "new"
+    const result = applyLineageTimeWindow(graphData, { from: day('2024-05-06'), to: day('2024-05-07') }, now);
+
+    expect(result.graphData.map((item) => item.id)).toEqual([
+      'node-asset-orders',
+      'node-asset-new',
+      'node-asset-always',
+      'node-query-l-new',
+      'node-query-l-always',
+    ]);
+    expect(filterLineageListData([
+      { sourceFQN: 'old', targetFQN: 'orders' },
+      { sourceFQN: 'new', targetFQN: 'orders' },
+    ], result.graphData)).toEqual([{ sourceFQN: 'new', targetFQN: 'orders' }]);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * @file lineageTimeTravel.ts
+ * @description
+ * Shows the lineage graph as it was in a past time window. Every Data
+ * Lineage link carries the time of the first and last event that
+ * established it (`startTime`, `endTime`); a link is active in a window
+ * when those overlap it.
+ *
+ * The chosen window is compared with a window of the same length ending at
+ * the latest event in the graph ("now"): links active then but not now have
+ * been removed since, links active now but not then have been added since.
+ * Both are kept in the graph, marked with `timeChange`, so the difference
+ * can be highlighted; links active in neither window are dropped, with the
+ * assets only they reached.
+ */
+
+export type LineageTimeChange = 'unchanged' | 'added' | 'removed';
+
+export interface LineageTimeWindow {
+  from: number;
+  to: number;
+}
+
+export interface LineageTimeRange {
+  min: number;
+  max: number;
+}
+
+export interface LineageTimeTravelResult {
+  graphData: any[];
+  added: number;
+  removed: number;
+}
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Timestamps come as ISO strings (REST) or { seconds, nanos } (gRPC).
+export const toTimeMs = (value: any): number | null => {
+  if (!value) return null;
+  if (typeof value === 'string') {
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? null : time;
+  }
+  if (value.seconds !== undefined) return Number(value.seconds) * 1000 + Math.floor(Number(value.nanos ?? 0) / 1e6);
+  return null;
+};
+
+const getLinkTimes = (link: any) => ({
+  start: toTimeMs(link?.startTime) ?? -Infinity,
+  end: toTimeMs(link?.endTime) ?? toTimeMs(link?.startTime) ?? Infinity,
+});
+
+/** Earliest and latest link event of the graph, or null without timestamps. */
+export const getLineageTimeRange = (graphData: any[]): LineageTimeRange | null => {
+  const times = graphData
+    .filter((item) => item.type === 'queryNode')
+    .flatMap((item) => [toTimeMs(item.linkData?.startTime), toTimeMs(item.linkData?.endTime)])
+    .filter((time): time is number => time !== null);
+  if (times.length === 0) return null;
+  return { min: Math.min(...times), max: Math.max(...times) };
+};
+
+const startOfDay = (time: number) => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+/** Slider bounds: whole local days, the last one included in full. */
+export const getLineageTimeBounds = (range: LineageTimeRange): LineageTimeRange => {
+  const min = startOfDay(range.min);
+  return { min, max: Math.max(startOfDay(range.max), min) + DAY_MS - 1 };
+};
+
+/** The window time travel starts from: the last week of the graph. */
+export const getDefaultTimeWindow = (range: LineageTimeRange): LineageTimeWindow => {
+  const bounds = getLineageTimeBounds(range);
+  return { from: Math.max(bounds.min, bounds.max + 1 - 7 * DAY_MS), to: bounds.max };
+};
+
+const isActiveIn = (link: any, window: LineageTimeWindow) => {
+  const { start, end } = getLinkTimes(link);
+  return start <= window.to && end >= window.from;
+};
+
+/** How `link` changed between `window` and the same-length window ending at `now`. */
+export const getLinkTimeChange = (link: any, window: LineageTimeWindow, now: number): LineageTimeChange | null => {
+  const then = isActiveIn(link, window);
+  const current = isActiveIn(link, { from: now - (window.to - window.from), to: now });
+  if (then && current) return 'unchanged';
+  if (then) return 'removed';
+  if (current) return 'added';
+  return null;
+};
+
+/**
+ * Filters the chart's graph items to `window`. Query nodes and column edges
+ * get the `timeChange` of their link; assets no kept link touches are
+ * dropped, except the root.
+ */
+export const applyLineageTimeWindow = (graphData: any[], window: LineageTimeWindow, now: number): LineageTimeTravelResult => {
+  const changes = new Map<string, LineageTimeChange>();
+  const queries = graphData.flatMap((item) => {
+    if (item.type !== 'queryNode') return [];
+    const timeChange = getLinkTimeChange(item.linkData, window, now);
+    if (!timeChange) return [];
+    if (item.linkData?.name) changes.set(item.linkData.name, timeChange);
+    return [{ ...item, timeChange }];
+  });
+
+  const connected = new Set(queries.flatMap((item) => [item.source, item.target]));
+  const kept = graphData.flatMap((item) => {
+    if (item.type === 'assetNode') return item.isRoot || connected.has(item.id) ? [item] : [];
+    if (item.type === 'queryNode') return queries.filter((query) => query.id === item.id);
+    if (item.type === 'columnEdge') {
+      const timeChange = changes.get(item.edge?.link);
+      return timeChange ? [{ ...item, timeChange }] : [];
+    }
+    return [item];
+  });
+
+  return {
+    graphData: kept,
+    added: queries.filter((item) => item.timeChange === 'added').length,
+    removed: queries.filter((item) => item.timeChange === 'removed').length,
+  };
+};
+
+/**
+ * Keeps the `ListView` rows of the links in `graphData`, matched on their
+ * source and target.
+ */
+export const filterLineageListData = (listData: any[], graphData: any[]): any[] => {
+  const pairs = new Set(graphData
+    .filter((item) => item.type === 'queryNode')
+    .map((item) => `${item.linkData?.source?.fullyQualifiedName}>${item.linkData?.target?.fullyQualifiedName}`));
+  return listData.filter((row) => pairs.has(`${row.sourceFQN}>${row.targetFQN}`));
+};
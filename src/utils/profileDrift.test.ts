@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compareProfiles,
+  getProfileSnapshots,
+  getTopValuesDistance,
+  readProfileColumns,
+} from './profileDrift';
+
+const field = (name: string, profile: any, type = 'INT64') => ({ name, type, profile });
+
+const result = (amount: any, country: any) => ({
+  rowCount: '1000',
+  profile: {
+    fields: [
+      field('amount', amount),
+      field('country', country, 'STRING'),
+    ],
+  },
+});
+
+const before = result(
+  { nullRatio: 0.01, distinctRatio: 0.5, integerProfile: { average: 100, standardDeviation: 20, min: '1', max: '500', quartiles: ['50', '100', '150'] } },
+  { nullRatio: 0, distinctRatio: 0.01, topNValues: [{ value: 'FR', ratio: 0.6 }, { value: 'DE', ratio: 0.4 }] }
+);
+const after = result(
+  { nullRatio: 0.3, distinctRatio: 0.52, integerProfile: { average: 105, standardDeviation: 40, min: '1', max: '900', quartiles: ['50', '100', '300'] } },
+  { nullRatio: 0, distinctRatio: 0.01, topNValues: [{ value: 'FR', ratio: 0.58 }, { value: 'DE', ratio: 0.42 }] }
+);
+
+describe('profileDrift', () => {
+  it('reads the profiles of the jobs, newest first', () => {
+    const snapshots = getProfileSnapshots({
+      jobs: [
+        { name: 'jobs/running', state: 'RUNNING' },
+        { name: 'jobs/1', endTime: '2024-01-01T00:00:00Z', dataProfileResult: before },
+        { name: 'jobs/2', endTime: { seconds: '1706745600', nanos: 0 }, dataProfileResult: after },
+      ],
+    });
+
+    expect(snapshots.map((snapshot) => snapshot.id)).toEqual(['jobs/2', 'jobs/1']);
+    expect(snapshots[1].time).toBe(Date.UTC(2024, 0, 1));
+    expect(snapshots[1].rowCount).toBe(1000);
+    expect(snapshots[1].columns.amount).toEqual({
+      name: 'amount',
+      type: 'INT64',
+      nullRatio: 0.01,
+      distinctRatio: 0.5,
+      mean: 100,
+      stddev: 20,
+      quartiles: [50, 100, 150],
+      topValues: [],
+    });
+    // Without job results, the scan's latest result is the only profile
+    expect(getProfileSnapshots({ scan: { name: 'scans/p', dataProfileResult: before }, jobs: [] }).map((snapshot) => snapshot.id)).toEqual(['scans/p']);
+    expect(getProfileSnapshots(null)).toEqual([]);
+  });
+
+  it('measures how far apart two top value lists are', () => {
+    const topValues = readProfileColumns(before).country.topValues;
+
+    expect(getTopValuesDistance(topValues, topValues)).toBe(0);
+    expect(getTopValuesDistance(topValues, [{ value: 'ES', ratio: 1 }])).toBeCloseTo(1);
+    // The values outside the lists count too
+    expect(getTopValuesDistance([{ value: 'FR', ratio: 0.5 }], [{ value: 'FR', ratio: 0.5 }, { value: 'DE', ratio: 0.5 }])).toBeCloseTo(0.5);
+  });
+
+  it('flags the metrics that changed more than the threshold', () => {
+    const drift = compareProfiles(readProfileColumns(before), readProfileColumns(after), 0.1);
+    const amount = drift.columns.find((column) => column.name === 'amount')!;
+    const country = drift.columns.find((column) => column.name === 'country')!;
+
+    expect(amount.drifted).toBe(true);
+    expect(amount.metrics.nullRatio).toMatchObject({ from: 0.01, to: 0.3, drifted: true });
+    expect(amount.metrics.nullRatio.change).toBeCloseTo(0.29);
+    expect(amount.metrics.distinctRatio.drifted).toBe(false);
+    expect(amount.metrics.mean).toMatchObject({ change: 0.05, drifted: false });
+    expect(amount.metrics.stddev).toMatchObject({ change: 1, drifted: true });
+    expect(amount.metrics.quartiles).toMatchObject({ change: 1, drifted: true });
+    expect(amount.metrics.topValues.change).toBeNull();
+    expect(country.drifted).toBe(false);
+    expect(country.metrics.mean.change).toBeNull();
+    expect(country.metrics.topValues.change).toBeCloseTo(0.02);
+
+    // Only changes above the threshold count: doubling is not above 100%
+    const loose = compareProfiles(readProfileColumns(before), readProfileColumns(after), 1);
+    expect(loose.columns.filter((column) => column.drifted)).toEqual([]);
+  });
+
+  it('matches the columns of two tables by name', () => {
+    const other = {
+      profile: {
+        fields: [
+          field('amount', { nullRatio: 0.01, distinctRatio: 0.5, integerProfile: { average: 100, standardDeviation: 20, quartiles: ['50', '100', '150'] } }),
+          field('currency', { nullRatio: 0 }, 'STRING'),
+        ],
+      },
+    };
+    const drift = compareProfiles(readProfileColumns(before), readProfileColumns(other));
+
+    expect(drift.columns.map((column) => [column.name, column.drifted])).toEqual([['amount', false]]);
+    expect(drift.onlyInBaseline).toEqual(['country']);
+    expect(drift.onlyInComparison).toEqual(['currency']);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * @file profileDrift.ts
+ * @description
+ * Drift between two data profiles: either two jobs of the same profile scan
+ * (`dataProfileScan.jobs`, each with its `dataProfileResult`) or the
+ * profiles of two tables, matched column by column on their names.
+ *
+ * For each column found in both, the drift compares the null ratio, the
+ * distinct ratio, the mean and standard deviation, the quartiles and the
+ * top values. Ratios drift by their difference in points; the numeric
+ * statistics by their change relative to the baseline; the top values by the
+ * total variation distance between the two distributions (half the sum of
+ * the ratio differences per value). A column drifted when any of them is
+ * above the threshold.
+ */
+
+import { toTimeMs } from './lineageTimeTravel';
+
+export interface ProfileTopValue {
+  value: string;
+  ratio: number;
+}
+
+export interface ProfileColumn {
+  name: string;
+  type: string;
+  nullRatio: number;
+  distinctRatio: number;
+  mean: number | null;
+  stddev: number | null;
+  quartiles: number[] | null;
+  topValues: ProfileTopValue[];
+}
+
+export interface ProfileSnapshot {
+  // Job name, or the scan name for its latest result
+  id: string;
+  time: number | null;
+  rowCount: number | null;
+  columns: Record<string, ProfileColumn>;
+}
+
+export type ProfileDriftMetric = 'nullRatio' | 'distinctRatio' | 'mean' | 'stddev' | 'quartiles' | 'topValues';
+
+export interface ProfileMetricDrift {
+  from: number | number[] | ProfileTopValue[] | null;
+  to: number | number[] | ProfileTopValue[] | null;
+  // Difference in points for ratios, relative change for statistics,
+  // distance for top values; null when either side has no value
+  change: number | null;
+  drifted: boolean;
+}
+
+export interface ProfileColumnDrift {
+  name: string;
+  type: string;
+  metrics: Record<ProfileDriftMetric, ProfileMetricDrift>;
+  drifted: boolean;
+}
+
+export interface ProfileDrift {
+  columns: ProfileColumnDrift[];
+  onlyInBaseline: string[];
+  onlyInComparison: string[];
+}
+
+export const PROFILE_DRIFT_METRICS: { metric: ProfileDriftMetric; label: string }[] = [
+  { metric: 'nullRatio', label: 'Null %' },
+  { metric: 'distinctRatio', label: 'Distinct %' },
+  { metric: 'mean', label: 'Mean' },
+  { metric: 'stddev', label: 'Std dev' },
+  { metric: 'quartiles', label: 'Quartiles' },
+  { metric: 'topValues', label: 'Top values' },
+];
+
+export const DEFAULT_PROFILE_DRIFT_THRESHOLD = 0.1;
+
+const toNumber = (value: any): number | null =>
+  (value === null || value === undefined || value === '' || Number.isNaN(Number(value)) ? null : Number(value));
+
+// Numeric statistics sit under the profile of the column's type
+const getNumericInfo = (profile: any) => profile?.integerProfile ?? profile?.doubleProfile ?? profile?.numericProfile ?? null;
+
+/** The columns of a `dataProfileResult`, by name. */
+export const readProfileColumns = (dataProfileResult: any): Record<string, ProfileColumn> => {
+  const columns: Record<string, ProfileColumn> = {};
+  (dataProfileResult?.profile?.fields ?? []).forEach((field: any) => {
+    const numeric = getNumericInfo(field.profile);
+    const quartiles = Array.isArray(numeric?.quartiles) ? numeric.quartiles.map(toNumber).filter((value: number | null) => value !== null) : [];
+    columns[field.name] = {
+      name: field.name,
+      type: field.type ?? '',
+      nullRatio: toNumber(field.profile?.nullRatio) ?? 0,
+      distinctRatio: toNumber(field.profile?.distinctRatio) ?? 0,
+      mean: toNumber(numeric?.average ?? numeric?.mean),
+      stddev: toNumber(numeric?.standardDeviation),
+      quartiles: quartiles.length > 0 ? quartiles : null,
+      topValues: (field.profile?.topNValues ?? []).map((item: any) => ({ value: String(item.value), ratio: toNumber(item.ratio) ?? 0 })),
+    };
+  });
+  return columns;
+};
+
+const toSnapshot = (id: string, time: number | null, dataProfileResult: any): ProfileSnapshot => ({
+  id,
+  time,
+  rowCount: toNumber(dataProfileResult?.rowCount),
+  columns: readProfileColumns(dataProfileResult),
+});
+
+/**
+ * The profiles of a scan, newest first: one per job with a result, or the
+ * scan's latest result when the jobs carry none.
+ */
+export const getProfileSnapshots = (dataProfileScan: any): ProfileSnapshot[] => {
+  const snapshots = (dataProfileScan?.jobs ?? [])
+    .filter((job: any) => job?.dataProfileResult?.profile)
+    .map((job: any) => toSnapshot(job.name, toTimeMs(job.endTime) ?? toTimeMs(job.startTime), job.dataProfileResult))
+    .sort((a: ProfileSnapshot, b: ProfileSnapshot) => (b.time ?? 0) - (a.time ?? 0));
+  if (snapshots.length > 0) return snapshots;
+  const latest = dataProfileScan?.scan?.dataProfileResult;
+  return latest?.profile ? [toSnapshot(dataProfileScan.scan.name ?? 'latest', toTimeMs(dataProfileScan.scan.executionStatus?.latestJobEndTime), latest)] : [];
+};
+
+/** Half the summed ratio differences over the values of both lists, 0 to 1. */
+export const getTopValuesDistance = (from: ProfileTopValue[], to: ProfileTopValue[]): number => {
+  const ratios = new Map<string, [number, number]>();
+  from.forEach(({ value, ratio }) => ratios.set(value, [ratio, 0]));
+  to.forEach(({ value, ratio }) => ratios.set(value, [ratios.get(value)?.[0] ?? 0, ratio]));
+  // Values outside both top lists share what is left of each distribution
+  const rest = (values: ProfileTopValue[]) => Math.max(0, 1 - values.reduce((sum, { ratio }) => sum + ratio, 0));
+  const listed = [...ratios.values()].reduce((sum, [a, b]) => sum + Math.abs(a - b), 0);
+  return (listed + Math.abs(rest(from) - rest(to))) / 2;
+};
+
+const relativeChange = (from: number | null, to: number | null): number | null => {
+  if (from === null || to === null) return null;
+  if (from === to) return 0;
+  return Math.abs(to - from) / Math.max(Math.abs(from), Number.EPSILON);
+};
+
+const metricDrift = (from: ProfileMetricDrift['from'], to: ProfileMetricDrift['to'], change: number | null, threshold: number): ProfileMetricDrift => ({
+  from,
+  to,
+  change,
+  drifted: change !== null && change > threshold,
+});
+
+/** Compares the columns found in both profiles. */
+export const compareProfiles = (
+  baseline: Record<string, ProfileColumn>,
+  comparison: Record<string, ProfileColumn>,
+  threshold = DEFAULT_PROFILE_DRIFT_THRESHOLD
+): ProfileDrift => {
+  const columns = Object.values(baseline)
+    .filter((column) => comparison[column.name])
+    .map((column) => {
+      const other = comparison[column.name];
+      const quartileChanges = column.quartiles && other.quartiles && column.quartiles.length === other.quartiles.length
+        ? column.quartiles.map((value, index) => relativeChange(value, other.quartiles![index]) ?? 0)
+        : null;
+      const metrics: Record<ProfileDriftMetric, ProfileMetricDrift> = {
+        nullRatio: metricDrift(column.nullRatio, other.nullRatio, Math.abs(other.nullRatio - column.nullRatio), threshold),
+        distinctRatio: metricDrift(column.distinctRatio, other.distinctRatio, Math.abs(other.distinctRatio - column.distinctRatio), threshold),
+        mean: metricDrift(column.mean, other.mean, relativeChange(column.mean, other.mean), threshold),
+        stddev: metricDrift(column.stddev, other.stddev, relativeChange(column.stddev, other.stddev), threshold),
+        quartiles: metricDrift(column.quartiles, other.quartiles, quartileChanges ? Math.max(...quartileChanges) : null, threshold),
+        topValues: metricDrift(
+          column.topValues,
+          other.topValues,
+          column.topValues.length > 0 || other.topValues.length > 0 ? getTopValuesDistance(column.topValues, other.topValues) : null,
+          threshold
+        ),
+      };
+      return {
+        name: column.name,
+        type: column.type || other.type,
+        metrics,
+        drifted: Object.values(metrics).some((metric) => metric.drifted),
+      };
+    });
+  return {
+    columns,
+    onlyInBaseline: Object.keys(baseline).filter((name) => !comparison[name]),
+    onlyInComparison: Object.keys(comparison).filter((name) => !baseline[name]),
+  };
+};
@@ -0,0 +1,31 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { addRecentEntry, loadRecentEntries, MAX_RECENT_ENTRIES } from './recentEntries';
+
+const entry = (id: string) => ({
+  name: `projects/p/locations/us/entryGroups/@bigquery/entries/${id}`,
+  entrySource: { displayName: id, system: 'BigQuery' },
+});
+
+describe('recentEntries', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('keeps entries newest first, per user, without duplicates', () => {
+    addRecentEntry('a@example.com', entry('orders'), new Date('2026-01-01T00:00:00Z'));
+    addRecentEntry('a@example.com', entry('returns'));
+    addRecentEntry('a@example.com', entry('orders'));
+    addRecentEntry('b@example.com', entry('customers'));
+
+    expect(loadRecentEntries('a@example.com').map((recent) => recent.displayName)).toEqual(['orders', 'returns']);
+    expect(loadRecentEntries('b@example.com')[0]).toMatchObject({ displayName: 'customers', system: 'BigQuery' });
+  });
+
+  it('caps the list and ignores unreadable storage', () => {
+    for (let i = 0; i < MAX_RECENT_ENTRIES + 5; i++) addRecentEntry(null, entry(`t${i}`));
+    expect(loadRecentEntries(null)).toHaveLength(MAX_RECENT_ENTRIES);
+
+    localStorage.setItem('recentEntries:anonymous', '{not json');
+    expect(loadRecentEntries(undefined)).toEqual([]);
+  });
+});
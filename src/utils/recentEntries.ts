@@ -0,0 +1,54 @@
+/**
+ * @file recentEntries.ts
+ * @description
+ * Entries the user opened on the details page, newest first, kept in
+ * localStorage per signed-in user. Used by the command palette.
+ */
+
+export interface RecentEntry {
+  name: string;
+  displayName: string;
+  system: string;
+  openedAt: string;
+}
+
+export const MAX_RECENT_ENTRIES = 20;
+
+const STORAGE_KEY_PREFIX = 'recentEntries';
+
+const getStorageKey = (userEmail?: string | null) => `${STORAGE_KEY_PREFIX}:${userEmail || 'anonymous'}`;
+
+const isRecentEntry = (entry: unknown): entry is RecentEntry =>
+  typeof entry === 'object' && entry !== null && typeof (entry as { name?: unknown }).name === 'string';
+
+export const loadRecentEntries = (userEmail?: string | null): RecentEntry[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(getStorageKey(userEmail)) ?? '[]');
+    return Array.isArray(stored) ? stored.filter(isRecentEntry) : [];
+  } catch (error) {
+    console.warn('Failed to load recent entries from localStorage:', error);
+    return [];
+  }
+};
+
+/** Moves `entry` to the top of the user's recent entries. */
+export const addRecentEntry = (
+  userEmail: string | null | undefined,
+  entry: { name?: string; entrySource?: { displayName?: string; system?: string } | null } | null | undefined,
+  now: Date = new Date(),
+) => {
+  const name = entry?.name;
+  if (!name) return;
+  const recent: RecentEntry = {
+    name,
+    displayName: entry.entrySource?.displayName || name.split('/').pop() || name,
+    system: entry.entrySource?.system ?? '',
+    openedAt: now.toISOString(),
+  };
+  const entries = [recent, ...loadRecentEntries(userEmail).filter((item) => item.name !== name)];
+  try {
+    localStorage.setItem(getStorageKey(userEmail), JSON.stringify(entries.slice(0, MAX_RECENT_ENTRIES)));
+  } catch (error) {
+    console.warn('Failed to save recent entries to localStorage:', error);
+  }
+};
@@ -186,6 +186,17 @@ export const generateBigQueryLink = (entry:any) => {
   return `https://console.cloud.google.com/bigquery?page=${pageType}&p=${project}&d=${dataset}${table}&project=${project}`;
 }
 
+// Same link for a scanned resource, e.g. //bigquery.googleapis.com/projects/p/datasets/d/tables/t
+export const generateBigQueryResourceLink = (resource: string) => {
+  const match = /projects\/([^/]+)\/datasets\/([^/]+)(?:\/tables\/([^/]+))?/.exec(resource ?? '');
+  if (!match) return '';
+
+  const [, project, dataset, table] = match;
+  const pageType = table ? 'table' : 'dataset';
+
+  return `https://console.cloud.google.com/bigquery?page=${pageType}&p=${project}&d=${dataset}${table ? `&t=${table}` : ''}&project=${project}`;
+}
+
 export const generateLookerStudioLink = (entry: any) => {
   if (!entry?.fullyQualifiedName) return '';
   const fqnParts = entry.fullyQualifiedName.split(':').pop().split('.');
@@ -0,0 +1,73 @@
+/**
+ * @file savedSearchFile.ts
+ * @description
+ * Export and import format for saved searches. An export only carries the
+ * parts a user defines (name, term, search type, filters, semantic flag), so
+ * it can be shared with a colleague and imported into their account.
+ *
+ * ```json
+ * { "version": 1, "exportedAt": "...", "savedSearches": [{ "name": "...", "term": "...", ... }] }
+ * ```
+ */
+
+import type { SavedSearch, SavedSearchInput } from '../features/savedSearches/savedSearchesSlice';
+
+export const SAVED_SEARCH_EXPORT_VERSION = 1;
+
+export interface SavedSearchExport {
+  version: number;
+  exportedAt: string;
+  savedSearches: SavedSearchInput[];
+}
+
+export const buildSavedSearchExport = (items: SavedSearch[]): SavedSearchExport => ({
+  version: SAVED_SEARCH_EXPORT_VERSION,
+  exportedAt: new Date().toISOString(),
+  savedSearches: items.map(({ name, term, searchType, filters, semanticSearch }) => ({
+    name, term, searchType, filters, semanticSearch,
+  })),
+});
+
+/**
+ * Reads an export file. Accepts the export object or a bare array of saved
+ * searches. Entries are validated again by the backend; this only rejects
+ * files that are clearly not saved-search exports.
+ */
+export const parseSavedSearchImport = (text: string): SavedSearchInput[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  const list = Array.isArray(data) ? data : (data as Partial<SavedSearchExport> | null)?.savedSearches;
+  if (!Array.isArray(list)) {
+    throw new Error('The file does not contain saved searches.');
+  }
+  if ((data as Partial<SavedSearchExport>)?.version !== undefined && (data as SavedSearchExport).version > SAVED_SEARCH_EXPORT_VERSION) {
+    throw new Error('The file was exported by a newer version of the application.');
+  }
+  return list.filter((item): item is SavedSearchInput => !!item && typeof item === 'object');
+};
+
+/** Reads an uploaded file as text. */
+export const readFileAsText = (file: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result ?? ''));
+    reader.onerror = () => reject(new Error('The file could not be read.'));
+    reader.readAsText(file);
+  });
+
+/** Triggers a browser download of `data` as a pretty-printed JSON file. */
+export const downloadJsonFile = (fileName: string, data: unknown) => {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createExportFile,
+  flattenSearchResult,
+  getAspectFieldOptions,
+  getExportColumns,
+  getExportFileName,
+  toCsv,
+  SEARCH_EXPORT_BASE_COLUMNS,
+} from './searchExport';
+import type { ExportEntry } from './searchExport';
+import { buildXlsx, columnName } from './xlsxWriter';
+
+// jsdom's Blob has no text()
+const readBlob = (blob: Blob) => new Promise<string>((resolve) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.readAsText(blob);
+});
+
+const makeResult = (overrides: Partial<ExportEntry> = {}) => ({
+  dataplexEntry: {
+    name: 'projects/123/locations/us/entryGroups/@bigquery/entries/orders',
+    entryType: 'projects/655216118709/locations/global/entryTypes/bigquery-table',
+    fullyQualifiedName: 'bigquery:my-project.sales.orders',
+    createTime: '2024-01-01T00:00:00Z',
+    updateTime: '2024-02-01T00:00:00Z',
+    entrySource: {
+      resource: '//bigquery.googleapis.com/projects/my-project/datasets/sales/tables/orders',
+      system: 'BigQuery',
+      displayName: 'orders',
+      description: 'All orders',
+      location: 'us',
+      updateTime: '2024-03-01T00:00:00Z',
+    },
+    aspects: {
+      '655216118709.global.overview': { data: { owner: 'team@example.com', rows: 12 } },
+      '655216118709.global.schema': { data: { fields: [] } },
+      '655216118709.global.contacts': {
+        data: { fields: { steward: { kind: 'stringValue', stringValue: 'jane@example.com' } } },
+      },
+    },
+    ...overrides,
+  },
+});
+
+describe('searchExport', () => {
+  describe('flattenSearchResult', () => {
+    it('flattens the base columns', () => {
+      expect(flattenSearchResult(makeResult())).toEqual({
+        name: 'projects/123/locations/us/entryGroups/@bigquery/entries/orders',
+        displayName: 'orders',
+        fullyQualifiedName: 'bigquery:my-project.sales.orders',
+        system: 'BigQuery',
+        entryType: 'bigquery-table',
+        project: 'my-project',
+        location: 'us',
+        description: 'All orders',
+        createTime: '2024-01-01T00:00:00Z',
+        updateTime: '2024-03-01T00:00:00Z',
+      });
+    });
+
+    it('adds the selected aspect fields from plain and Struct aspect data', () => {
+      const row = flattenSearchResult(makeResult(), [
+        { aspectKey: '655216118709.global.overview', field: 'rows' },
+        { aspectKey: '655216118709.global.contacts', field: 'steward' },
+        { aspectKey: '655216118709.global.contacts', field: 'missing' },
+      ]);
+
+      expect(row['655216118709.global.overview.rows']).toBe('12');
+      expect(row['655216118709.global.contacts.steward']).toBe('jane@example.com');
+      expect(row['655216118709.global.contacts.missing']).toBe('');
+    });
+
+    it('falls back to the entry name for the project and display name', () => {
+      const row = flattenSearchResult(makeResult({ entrySource: {}, name: 'projects/other/locations/us/entries/x' }));
+
+      expect(row.project).toBe('other');
+      expect(row.displayName).toBe('x');
+    });
+  });
+
+  it('lists aspect fields of the loaded results without the schema', () => {
+    expect(getAspectFieldOptions([makeResult()])).toEqual([
+      { aspectKey: '655216118709.global.contacts', field: 'steward' },
+      { aspectKey: '655216118709.global.overview', field: 'owner' },
+      { aspectKey: '655216118709.global.overview', field: 'rows' },
+    ]);
+  });
+
+  it('appends aspect columns to the base columns', () => {
+    const columns = getExportColumns([{ aspectKey: '1.global.overview', field: 'owner' }]);
+
+    expect(columns).toHaveLength(SEARCH_EXPORT_BASE_COLUMNS.length + 1);
+    expect(columns[columns.length - 1]).toEqual({ key: '1.global.overview.owner', label: 'overview.owner' });
+  });
+
+  it('keeps same-named aspects of different projects in separate columns', () => {
+    const aspectFields = [
+      { aspectKey: '1.global.overview', field: 'owner' },
+      { aspectKey: '2.global.overview', field: 'owner' },
+    ];
+    const result = makeResult({
+      aspects: {
+        '1.global.overview': { data: { owner: 'ana@example.com' } },
+        '2.global.overview': { data: { owner: 'ben@example.com' } },
+      },
+    });
+
+    const columns = getExportColumns(aspectFields).slice(SEARCH_EXPORT_BASE_COLUMNS.length);
+    const row = flattenSearchResult(result, aspectFields);
+
+    expect(columns).toEqual([
+      { key: '1.global.overview.owner', label: 'overview.owner (1)' },
+      { key: '2.global.overview.owner', label: 'overview.owner (2)' },
+    ]);
+    expect(columns.map((column) => row[column.key])).toEqual(['ana@example.com', 'ben@example.com']);
+  });
+
+  describe('toCsv', () => {
+    const columns = [{ key: 'a', label: 'A' }, { key: 'b', label: 'B' }];
+
+    it('quotes cells with commas, quotes and line breaks', () => {
+      expect(toCsv([{ a: 'x, y', b: 'say "hi"\nbye' }], columns)).toBe('A,B\r\n"x, y","say ""hi""\nbye"');
+    });
+
+    it('prevents cells from running as spreadsheet formulas', () => {
+      expect(toCsv([{ a: '=HYPERLINK("x")', b: '-1' }], columns)).toBe('A,B\r\n"\'=HYPERLINK(""x"")",\'-1');
+    });
+  });
+
+  it('writes JSON rows in column order', async () => {
+    const blob = createExportFile([{ b: '2', a: '1' }], [{ key: 'a', label: 'A' }, { key: 'b', label: 'B' }], 'json');
+
+    expect(blob.type).toBe('application/json');
+    expect(JSON.parse(await readBlob(blob))).toEqual([{ a: '1', b: '2' }]);
+  });
+
+  it('names the file after the format and time', () => {
+    expect(getExportFileName('xlsx', new Date('2024-05-01T10:30:00Z'))).toBe('search-results-2024-05-01T10-30-00.xlsx');
+  });
+
+  describe('xlsxWriter', () => {
+    it('names columns like spreadsheets do', () => {
+      expect([0, 25, 26, 701, 702].map(columnName)).toEqual(['A', 'Z', 'AA', 'ZZ', 'AAA']);
+    });
+
+    it('builds a zip with escaped inline string cells', () => {
+      const xlsx = buildXlsx([['Name', 'Rows'], ['a < b & "c"\u0001', 3]]);
+      const text = new TextDecoder().decode(xlsx);
+
+      expect([...xlsx.slice(0, 4)]).toEqual([0x50, 0x4b, 0x03, 0x04]);
+      expect(text).toContain('xl/worksheets/sheet1.xml');
+      expect(text).toContain('<t xml:space="preserve">a &lt; b &amp; &quot;c&quot;</t>');
+      expect(text).toContain('<c r="B2"><v>3</v></c>');
+    });
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * @file searchExport.ts
+ * @description
+ * Turns search results (`searchEntries` results, `{ dataplexEntry }`) into
+ * flat rows for export as CSV, JSON or XLSX. Every row has the same base
+ * columns; aspect fields chosen by the user are appended as
+ * "<aspect>.<field>" columns, keyed by the full aspect key.
+ */
+
+import { isProtoStruct } from './entryModel';
+import { buildXlsx } from './xlsxWriter';
+
+export type SearchExportFormat = 'csv' | 'json' | 'xlsx';
+
+// A top-level field of an aspect, e.g. { aspectKey: '123.global.overview', field: 'owner' }
+export interface ExportAspectField {
+  aspectKey: string;
+  field: string;
+}
+
+export interface ExportColumn {
+  key: string;
+  label: string;
+}
+
+export type ExportRow = Record<string, string>;
+
+// The parts of an entry an export reads. Timestamps are ISO strings (REST) or
+// `{ seconds, nanos }` (gRPC); aspect data is plain JSON or a protobuf Struct.
+export interface ExportEntry {
+  name?: string;
+  entryType?: string;
+  fullyQualifiedName?: string;
+  createTime?: unknown;
+  updateTime?: unknown;
+  entrySource?: {
+    displayName?: string;
+    system?: string;
+    location?: string;
+    description?: string;
+    resource?: string;
+    createTime?: unknown;
+    updateTime?: unknown;
+  } | null;
+  aspects?: Record<string, { data?: unknown } | null | undefined> | null;
+}
+
+/** A search result (`{ dataplexEntry }`) or an entry from another source. */
+export type ExportSource = ExportEntry | { dataplexEntry?: ExportEntry | null };
+
+export const SEARCH_EXPORT_BASE_COLUMNS: ExportColumn[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'displayName', label: 'Display name' },
+  { key: 'fullyQualifiedName', label: 'Fully qualified name' },
+  { key: 'system', label: 'System' },
+  { key: 'entryType', label: 'Entry type' },
+  { key: 'project', label: 'Project' },
+  { key: 'location', label: 'Location' },
+  { key: 'description', label: 'Description' },
+  { key: 'createTime', label: 'Created' },
+  { key: 'updateTime', label: 'Last modified' },
+];
+
+const MIME_TYPES: Record<SearchExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// Search results wrap the entry; entries from other sources are used as is.
+const getEntry = (result: ExportSource | null | undefined): ExportEntry => {
+  if (!result) return {};
+  return 'dataplexEntry' in result ? result.dataplexEntry ?? {} : result as ExportEntry;
+};
+
+// "123.global.overview" or ".../aspectTypes/overview" -> "overview"
+export const getAspectLabel = (aspectKey: string) => aspectKey.split(/[./]/).pop() || aspectKey;
+
+// Row key of an aspect field. Keeps the whole aspect key: aspects of the same
+// name from different projects must not share a column.
+export const getAspectFieldKey = ({ aspectKey, field }: ExportAspectField) => `${aspectKey}.${field}`;
+
+// "123.global.overview" -> "123", ".../projects/p/.../aspectTypes/overview" -> "p"
+const getAspectOwner = (aspectKey: string) => /(?:^|\/)projects\/([^/]+)/.exec(aspectKey)?.[1] ?? aspectKey.split('.')[0];
+
+/**
+ * Header of an aspect field, e.g. "overview.owner". When `among` has a field
+ * of the same name from another aspect, the project of the aspect is added:
+ * "overview.owner (123)".
+ */
+export const getAspectFieldLabel = (aspectField: ExportAspectField, among: ExportAspectField[] = []) => {
+  const label = `${getAspectLabel(aspectField.aspectKey)}.${aspectField.field}`;
+  const ambiguous = among.some((other) => other.aspectKey !== aspectField.aspectKey
+    && other.field === aspectField.field
+    && getAspectLabel(other.aspectKey) === getAspectLabel(aspectField.aspectKey));
+  return ambiguous ? `${label} (${getAspectOwner(aspectField.aspectKey)})` : label;
+};
+
+// Timestamps come as ISO strings (REST) or { seconds, nanos } (gRPC).
+const toIsoTime = (value: unknown): string => {
+  if (!value) return '';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'object' && 'seconds' in value && value.seconds !== undefined) {
+    return new Date(Number(value.seconds) * 1000).toISOString();
+  }
+  return '';
+};
+
+// Project id of the underlying resource, falling back to the entry's project.
+const getProject = (entry: ExportEntry): string => {
+  const fromResource = /(?:^|\/)projects\/([^/]+)/.exec(entry.entrySource?.resource ?? '');
+  if (fromResource) return fromResource[1];
+  return /^projects\/([^/]+)/.exec(entry.name ?? '')?.[1] ?? '';
+};
+
+// Aspect values may be plain JSON (REST) or protobuf Struct values (gRPC).
+const toCellText = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value !== 'object') return String(value);
+  if ('stringValue' in value) return String(value.stringValue);
+  if ('numberValue' in value) return String(value.numberValue);
+  if ('boolValue' in value) return String(value.boolValue);
+  return JSON.stringify(value);
+};
+
+// Fields of a protobuf Struct (`{ fields: { owner: { kind, stringValue } } }`) are kept as values
+const getAspectData = (entry: ExportEntry, aspectKey: string): Record<string, unknown> | undefined => {
+  const data = entry.aspects?.[aspectKey]?.data;
+  if (isProtoStruct(data)) return data.fields;
+  return data && typeof data === 'object' ? data as Record<string, unknown> : undefined;
+};
+
+/** Text of one aspect field of a search result, '' when the entry does not have it. */
+export const getAspectFieldValue = (result: ExportSource | null, { aspectKey, field }: ExportAspectField): string =>
+  toCellText(getAspectData(getEntry(result), aspectKey)?.[field]);
+
+export const flattenSearchResult = (result: ExportSource, aspectFields: ExportAspectField[] = []): ExportRow => {
+  const entry = getEntry(result);
+  const source = entry.entrySource ?? {};
+  const row: ExportRow = {
+    name: entry.name ?? '',
+    displayName: source.displayName || (entry.name ?? '').split('/').pop() || '',
+    fullyQualifiedName: entry.fullyQualifiedName ?? '',
+    system: source.system ?? '',
+    entryType: (entry.entryType ?? '').split('/').pop() ?? '',
+    project: getProject(entry),
+    location: source.location ?? '',
+    description: source.description ?? '',
+    createTime: toIsoTime(source.createTime ?? entry.createTime),
+    updateTime: toIsoTime(source.updateTime ?? entry.updateTime),
+  };
+  aspectFields.forEach((aspectField) => {
+    row[getAspectFieldKey(aspectField)] = getAspectFieldValue(entry, aspectField);
+  });
+  return row;
+};
+
+/** Aspect fields present on any of `results`, sorted by aspect and field name. */
+export const getAspectFieldOptions = (results: (ExportSource | null)[]): ExportAspectField[] => {
+  const seen = new Map<string, ExportAspectField>();
+  results.forEach((result) => {
+    const entry = getEntry(result);
+    Object.keys(entry.aspects ?? {}).forEach((aspectKey) => {
+      if (aspectKey.endsWith('.schema')) return; // columns do not fit in a cell
+      Object.keys(getAspectData(entry, aspectKey) ?? {}).forEach((field) => {
+        seen.set(`${aspectKey}\n${field}`, { aspectKey, field });
+      });
+    });
+  });
+  return [...seen.values()].sort((a, b) =>
+    getAspectFieldLabel(a).localeCompare(getAspectFieldLabel(b)) || a.aspectKey.localeCompare(b.aspectKey));
+};
+
+export const getExportColumns = (aspectFields: ExportAspectField[] = []): ExportColumn[] => [
+  ...SEARCH_EXPORT_BASE_COLUMNS,
+  ...aspectFields.map((aspectField) => ({ key: getAspectFieldKey(aspectField), label: getAspectFieldLabel(aspectField, aspectFields) })),
+];
+
+// Cells starting with these are run as formulas by spreadsheet applications.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const toCsvCell = (value: string) => {
+  const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export const toCsv = (rows: ExportRow[], columns: ExportColumn[]): string =>
+  [columns.map((c) => toCsvCell(c.label)), ...rows.map((row) => columns.map((c) => toCsvCell(row[c.key] ?? '')))]
+    .map((cells) => cells.join(','))
+    .join('\r\n');
+
+export const createExportFile = (rows: ExportRow[], columns: ExportColumn[], format: SearchExportFormat): Blob => {
+  if (format === 'json') {
+    const ordered = rows.map((row) => Object.fromEntries(columns.map((c) => [c.key, row[c.key] ?? ''])));
+    return new Blob([JSON.stringify(ordered, null, 2)], { type: MIME_TYPES.json });
+  }
+  if (format === 'xlsx') {
+    const cells = [columns.map((c) => c.label), ...rows.map((row) => columns.map((c) => row[c.key] ?? ''))];
+    return new Blob([buildXlsx(cells, 'Search results') as BlobPart], { type: MIME_TYPES.xlsx });
+  }
+  // BOM so Excel opens UTF-8 CSV files correctly
+  return new Blob(['\uFEFF', toCsv(rows, columns)], { type: MIME_TYPES.csv });
+};
+
+// e.g. "search-results-2024-05-01T10-30-00.csv"
+export const getExportFileName = (format: SearchExportFormat, now: Date = new Date()) =>
+  `search-results-${now.toISOString().slice(0, 19).replace(/:/g, '-')}.${format}`;
+
+/** Triggers a browser download of `blob`. */
+export const downloadBlob = (fileName: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,269 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildSearchAst,
+  buildSearchQuery,
+  createAspectNameResolver,
+  escapeQueryValue,
+  isAdvancedSearchQuery,
+  parseSearchQuery,
+  parseSearchQueryToFilters,
+  serializeSearchAst,
+  type SearchFilter,
+} from './searchQuery';
+
+const EXCLUSIONS = '-has=dataplex-types.global.bigquery-row-access-policy AND -has=dataplex-types.global.bigquery-data-policy';
+
+const appConfig = {
+  projects: [{ name: 'projects/123', projectId: 'my-project' }],
+  aspects: [
+    {
+      dataplexEntry: {
+        entrySource: {
+          displayName: 'Data Domain',
+          resource: 'projects/123/locations/global/aspectTypes/data-domain',
+        },
+      },
+    },
+  ],
+};
+
+const resolver = createAspectNameResolver(appConfig);
+
+describe('searchQuery', () => {
+  // ========================================================================
+  // 1. Escaping
+  // ========================================================================
+  describe('escapeQueryValue', () => {
+    it('leaves simple values untouched', () => {
+      expect(escapeQueryValue('my-project')).toBe('my-project');
+    });
+
+    it('quotes values containing spaces', () => {
+      expect(escapeQueryValue('Sales EMEA')).toBe('"Sales EMEA"');
+    });
+
+    it('escapes quotes and backslashes', () => {
+      expect(escapeQueryValue('say "hi" \\ bye')).toBe('"say \\"hi\\" \\\\ bye"');
+    });
+
+    it('quotes values containing query operators', () => {
+      expect(escapeQueryValue('a|b')).toBe('"a|b"');
+      expect(escapeQueryValue('google.com:project')).toBe('"google.com:project"');
+    });
+
+    it('quotes empty values', () => {
+      expect(escapeQueryValue('')).toBe('""');
+    });
+  });
+
+  // ========================================================================
+  // 2. Aspect name resolution
+  // ========================================================================
+  describe('createAspectNameResolver', () => {
+    it('maps display names to query names and back', () => {
+      expect(resolver.toQueryName('Data Domain')).toBe('my-project.global.data-domain');
+      expect(resolver.toDisplayName('my-project.global.data-domain')).toBe('Data Domain');
+    });
+
+    it('returns safe fallbacks without app config', () => {
+      const empty = createAspectNameResolver(null);
+      expect(empty.toQueryName('Unknown')).toBe('');
+      expect(empty.toDisplayName('a.b.c')).toBeUndefined();
+    });
+  });
+
+  // ========================================================================
+  // 3. Serialization
+  // ========================================================================
+  describe('buildSearchQuery (semantic)', () => {
+    it('returns only the trimmed term without filters', () => {
+      expect(buildSearchQuery('  orders  ')).toBe('orders');
+    });
+
+    it('builds system, type and project clauses', () => {
+      const filters: SearchFilter[] = [
+        { name: 'BigQuery', type: 'system' },
+        { name: 'Knowledge Catalog', type: 'system' },
+        { name: 'Table', type: 'typeAliases' },
+        { name: 'my-project', type: 'project' },
+      ];
+      expect(buildSearchQuery('orders', filters)).toBe(
+        `orders (system=(BIGQUERY|DATAPLEX_UNIVERSAL_CATALOG)) (type=(table)) (projectid=(my-project)) ${EXCLUSIONS}`
+      );
+    });
+
+    it('expands the Exchange asset to both type names', () => {
+      expect(buildSearchQuery('', [{ name: 'Exchange', type: 'typeAliases' }])).toBe(
+        `(type=(data_exchange|exchange)) ${EXCLUSIONS}`
+      );
+    });
+
+    it('builds aspect clauses with include and exclude sub-aspect values', () => {
+      const filters: SearchFilter[] = [{
+        name: 'Data Domain',
+        type: 'aspectType',
+        subAnnotationData: [
+          { fieldName: 'domain', value: 'Sales EMEA', enabled: true, filterType: 'include' },
+          { fieldName: 'owner', value: 'bob', enabled: true, filterType: 'exclude' },
+        ],
+      }];
+      expect(buildSearchQuery('', filters, { resolveAspectName: resolver.toQueryName })).toBe(
+        '((has=my-project.global.data-domain AND (my-project.global.data-domain.domain:"Sales EMEA"))' +
+        '|(has=my-project.global.data-domain AND -(my-project.global.data-domain.owner:bob))) ' + EXCLUSIONS
+      );
+    });
+
+    it('skips disabled sub-aspect values', () => {
+      const filters: SearchFilter[] = [{
+        name: 'Data Domain',
+        type: 'aspectType',
+        subAnnotationData: [{ fieldName: 'domain', value: 'x', enabled: false, filterType: 'include' }],
+      }];
+      expect(buildSearchQuery('', filters, { resolveAspectName: resolver.toQueryName })).toBe(
+        `((has=my-project.global.data-domain)) ${EXCLUSIONS}`
+      );
+    });
+
+    it('escapes project ids with special characters', () => {
+      expect(buildSearchQuery('', [{ name: 'google.com:proj', type: 'project' }])).toBe(
+        `(projectid=("google.com:proj")) ${EXCLUSIONS}`
+      );
+    });
+  });
+
+  describe('buildSearchQuery (keyword)', () => {
+    it('emits keyword aspect syntax', () => {
+      const filters: SearchFilter[] = [
+        { name: 'Data Domain', type: 'aspectType' },
+        {
+          name: 'Data Domain',
+          type: 'aspectType',
+          subAnnotationData: [{ fieldName: 'domain', value: 'Sales', enabled: true, filterType: 'include' }],
+        },
+      ];
+      expect(buildSearchQuery('orders', filters, { syntax: 'keyword', resolveAspectName: resolver.toQueryName })).toBe(
+        'orders ((aspect=my-project.global.data-domain) OR (aspect=my-project.global.data-domain AND aspect:my-project.global.data-domain.domain=Sales)) ' +
+        '-aspect=dataplex-types.global.bigquery-row-access-policy AND -aspect=dataplex-types.global.bigquery-data-policy'
+      );
+    });
+  });
+
+  // ========================================================================
+  // 4. Parsing
+  // ========================================================================
+  describe('parseSearchQuery', () => {
+    it('parses value groups and quoted values', () => {
+      expect(parseSearchQuery('(projectid=("my project"|other))')).toEqual({
+        kind: 'and',
+        children: [{ kind: 'in', field: 'projectid', values: ['my project', 'other'] }],
+      });
+    });
+
+    it('parses negated has clauses', () => {
+      expect(parseSearchQuery('-has=a.b.c')).toEqual({
+        kind: 'and',
+        children: [{ kind: 'not', child: { kind: 'has', aspect: 'a.b.c' } }],
+      });
+    });
+
+    it('keeps free text as text nodes', () => {
+      expect(parseSearchQuery('"customer orders" sales')).toEqual({
+        kind: 'and',
+        children: [{ kind: 'text', value: '"customer orders"' }, { kind: 'text', value: 'sales' }],
+      });
+    });
+
+    it('tolerates unbalanced parentheses', () => {
+      expect(() => parseSearchQuery('((system=(BIGQUERY)')).not.toThrow();
+      expect(() => parseSearchQuery('orders))')).not.toThrow();
+    });
+
+    it('re-serializes to a stable, equivalent query', () => {
+      const query = buildSearchQuery('orders', [
+        { name: 'BigQuery', type: 'system' },
+        { name: 'Data Domain', type: 'aspectType', subAnnotationData: [{ fieldName: 'domain', value: 'a "b"', enabled: true, filterType: 'exclude' }] },
+      ], { resolveAspectName: resolver.toQueryName });
+      const reserialized = serializeSearchAst(parseSearchQuery(query));
+      expect(serializeSearchAst(parseSearchQuery(reserialized))).toBe(reserialized);
+      expect(parseSearchQueryToFilters(reserialized, resolver)).toEqual(parseSearchQueryToFilters(query, resolver));
+    });
+  });
+
+  // ========================================================================
+  // 5. Round trip to filter chips
+  // ========================================================================
+  describe('parseSearchQueryToFilters', () => {
+    const roundTrip = (term: string, filters: SearchFilter[], syntax: 'semantic' | 'keyword') =>
+      parseSearchQueryToFilters(
+        buildSearchQuery(term, filters, { syntax, resolveAspectName: resolver.toQueryName }),
+        resolver,
+      );
+
+    const filters: SearchFilter[] = [
+      {
+        name: 'Data Domain',
+        type: 'aspectType',
+        subAnnotationData: [
+          { fieldName: 'domain', value: 'Sales "EMEA"', enabled: true, filterType: 'include' },
+          { fieldName: 'owner', value: 'bob', enabled: true, filterType: 'exclude' },
+        ],
+      },
+      { name: 'Knowledge Catalog', type: 'system' },
+      { name: 'Exchange', type: 'typeAliases' },
+      { name: 'Database schema', type: 'typeAliases' },
+      { name: 'my project', type: 'project' },
+    ];
+
+    it('round-trips semantic queries into the same filters', () => {
+      expect(roundTrip('orders', filters, 'semantic')).toEqual({ term: 'orders', filters });
+    });
+
+    it('round-trips keyword queries into the same filters', () => {
+      expect(roundTrip('orders', filters, 'keyword')).toEqual({ term: 'orders', filters });
+    });
+
+    it('falls back to the query name for unknown aspects', () => {
+      expect(parseSearchQueryToFilters('(has=other.global.thing)').filters).toEqual([
+        { name: 'other.global.thing', type: 'aspectType' },
+      ]);
+    });
+
+    it('reads OR-ed list clauses written one value at a time', () => {
+      expect(parseSearchQueryToFilters('(system=BIGQUERY OR system=CLOUD_SQL)').filters).toEqual([
+        { name: 'BigQuery', type: 'system' },
+        { name: 'Cloud SQL', type: 'system' },
+      ]);
+    });
+
+    it('keeps clauses that cannot become chips in the term', () => {
+      expect(parseSearchQueryToFilters('orders (system=(BIGQUERY)|name:sales) location=us')).toEqual({
+        term: 'orders ((system=(BIGQUERY))|(name:sales)) location=us',
+        filters: [],
+      });
+    });
+
+    it('builds the same filters for an equivalent default filter set', () => {
+      const ast = buildSearchAst('', [{ name: 'Table', type: 'typeAliases' }]);
+      expect(parseSearchQueryToFilters(serializeSearchAst(ast)).filters).toEqual([
+        { name: 'Table', type: 'typeAliases' },
+      ]);
+    });
+  });
+
+  // ========================================================================
+  // 6. Detection
+  // ========================================================================
+  describe('isAdvancedSearchQuery', () => {
+    it('detects filter clauses', () => {
+      expect(isAdvancedSearchQuery('orders system=BIGQUERY')).toBe(true);
+      expect(isAdvancedSearchQuery('(has=a.b.c)')).toBe(true);
+      expect(isAdvancedSearchQuery('-has=a.b.c')).toBe(true);
+      expect(isAdvancedSearchQuery('(my-proj.global.domain.owner:bob)')).toBe(true);
+    });
+
+    it('ignores plain terms', () => {
+      expect(isAdvancedSearchQuery('customer orders')).toBe(false);
+      expect(isAdvancedSearchQuery('system design')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,582 @@
+/**
+ * @file searchQuery.ts
+ * @description
+ * Typed query model for Dataplex `searchEntries`. The filter objects produced
+ * by `FilterDropDown` are turned into a small AST, which can then be
+ * serialized to either the semantic search syntax used by
+ * `searchResourcesByTerm` or the keyword (non-semantic) syntax. The parser
+ * reads both syntaxes back into an AST so an advanced query pasted into the
+ * SearchBar can be turned into filter chips again.
+ */
+
+export type SearchFilterType = 'aspectType' | 'system' | 'typeAliases' | 'project';
+
+export interface SubAspectFilter {
+  fieldName: string;
+  value: string;
+  enabled?: boolean;
+  filterType: 'include' | 'exclude';
+}
+
+export interface SearchFilter {
+  name: string;
+  type: SearchFilterType | string;
+  subAnnotationData?: SubAspectFilter[];
+  data?: unknown;
+}
+
+export type QuerySyntax = 'semantic' | 'keyword';
+
+export type QueryListField = 'system' | 'type' | 'projectid';
+
+export type QueryNode =
+  | { kind: 'text'; value: string }
+  | { kind: 'has'; aspect: string }
+  | { kind: 'aspectField'; aspect: string; field: string; value: string }
+  | { kind: 'in'; field: QueryListField; values: string[] }
+  | { kind: 'predicate'; key: string; op: '=' | ':'; values: string[] }
+  | { kind: 'not'; child: QueryNode }
+  | { kind: 'and'; children: QueryNode[] }
+  | { kind: 'or'; children: QueryNode[] };
+
+// Product names shown in the filter panel, in display order.
+export const SEARCH_PRODUCT_NAMES = [
+  'Analytics Hub',
+  'BigQuery',
+  'Cloud BigTable',
+  'Cloud Pub/Sub',
+  'Cloud Spanner',
+  'Cloud SQL',
+  'Dataform',
+  'Knowledge Catalog',
+  'Dataproc Metastore',
+  'Vertex AI',
+  'Others',
+];
+
+// Asset (entry type alias) names shown in the filter panel, in display order.
+export const SEARCH_ASSET_NAMES = [
+  'Bucket', 'Cluster', 'Code asset', 'Connection', 'Dashboard', 'Dashboard element',
+  'Data exchange', 'Data source connection', 'Data stream', 'Database', 'Database schema',
+  'Dataset', 'Explore', 'Feature group', 'Feature online store', 'Feature view', 'Fileset',
+  'Folder', 'Function', 'Glossary', 'Glossary Category', 'Glossary Term', 'Listing', 'Look',
+  'Model', 'Repository', 'Resource', 'Routine', 'Service', 'Table', 'View', 'Other',
+];
+
+// Aspect types that are always excluded from search results.
+export const EXCLUDED_ASPECT_TYPES = [
+  'dataplex-types.global.bigquery-row-access-policy',
+  'dataplex-types.global.bigquery-data-policy',
+];
+
+// Products whose API system name differs from the name shown in the UI.
+const PRODUCT_API_NAMES: Record<string, string> = { 'Knowledge Catalog': 'Dataplex Universal Catalog' };
+
+export const toSystemQueryValue = (productName: string): string => {
+  const apiName = PRODUCT_API_NAMES[productName] || productName;
+  return apiName.replace(/ /g, '_').replace('/', '').toUpperCase();
+};
+
+export const toTypeQueryValues = (assetName: string): string[] => {
+  if (assetName.toLowerCase() === 'exchange') {
+    return ['data_exchange', 'exchange'];
+  }
+  return [assetName.replace(/ /g, '_').replace('/', '').toLowerCase()];
+};
+
+const fromSystemQueryValue = (value: string): string =>
+  SEARCH_PRODUCT_NAMES.find((name) => toSystemQueryValue(name) === value.toUpperCase()) ?? value;
+
+const fromTypeQueryValue = (value: string): string => {
+  if (value.toLowerCase() === 'exchange') return 'Exchange';
+  return SEARCH_ASSET_NAMES.find((name) => toTypeQueryValues(name)[0] === value.toLowerCase()) ?? value;
+};
+
+// Characters that force a value to be quoted in the query string.
+const NEEDS_QUOTING = /[\s"\\()|:=]/;
+
+export const escapeQueryValue = (value: string): string => {
+  if (value === '' || NEEDS_QUOTING.test(value)) {
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  }
+  return value;
+};
+
+/**
+ * Maps aspect display names (as shown on filter chips) to the
+ * `projectId.location.aspectTypeId` names used in queries, and back.
+ */
+export interface AspectNameResolver {
+  toQueryName: (displayName: string) => string;
+  toDisplayName: (queryName: string) => string | undefined;
+}
+
+export interface AspectConfig {
+  dataplexEntry?: { entrySource?: { displayName?: string; resource?: string } };
+}
+
+interface AppConfigLike {
+  aspects?: AspectConfig[];
+  projects?: { name: string; projectId: string }[];
+}
+
+export const createAspectNameResolver = (appConfig: AppConfigLike | null | undefined): AspectNameResolver => {
+  const aspects = Array.isArray(appConfig?.aspects) ? appConfig.aspects : [];
+  const projects = Array.isArray(appConfig?.projects) ? appConfig.projects : [];
+
+  const queryNameFor = (aspect: AspectConfig | undefined): string => {
+    const resource: string[] = aspect?.dataplexEntry?.entrySource?.resource?.split('/') ?? [];
+    const projectId: string = resource.length == 6
+      ? projects.find((p) => p.name === `${resource[0]}/${resource[1]}`)?.projectId ?? ''
+      : '';
+    return (projectId.length > 1 && resource.length == 6) ? `${projectId}.${resource[3]}.${resource[5]}` : resource.toString();
+  };
+
+  return {
+    toQueryName: (displayName) =>
+      queryNameFor(aspects.find((a) => a.dataplexEntry?.entrySource?.displayName === displayName)),
+    toDisplayName: (queryName) =>
+      aspects.find((a) => queryNameFor(a) === queryName)?.dataplexEntry?.entrySource?.displayName,
+  };
+};
+
+// ==========================================================================
+// Filters -> AST
+// ==========================================================================
+
+export const buildSearchAst = (
+  term: string,
+  filters: SearchFilter[] = [],
+  resolveAspectName: (displayName: string) => string = (name) => name,
+): QueryNode => {
+  const children: QueryNode[] = [];
+  const trimmedTerm = term?.trim() ?? '';
+  if (trimmedTerm !== '') {
+    children.push({ kind: 'text', value: trimmedTerm });
+  }
+  if (filters.length === 0) {
+    return { kind: 'and', children };
+  }
+
+  const aspectClauses: QueryNode[] = [];
+  const lists: Record<QueryListField, string[]> = { system: [], type: [], projectid: [] };
+
+  filters.forEach((filter) => {
+    if (filter.type === 'aspectType') {
+      const aspect = resolveAspectName(filter.name);
+      const subFilters = (filter.subAnnotationData ?? []).filter((sub) => sub.enabled !== false);
+      if (subFilters.length > 0) {
+        subFilters.forEach((sub) => {
+          const fieldNode: QueryNode = { kind: 'aspectField', aspect, field: sub.fieldName, value: String(sub.value ?? '') };
+          aspectClauses.push({
+            kind: 'and',
+            children: [{ kind: 'has', aspect }, sub.filterType === 'exclude' ? { kind: 'not', child: fieldNode } : fieldNode],
+          });
+        });
+      } else {
+        aspectClauses.push({ kind: 'has', aspect });
+      }
+    }
+    if (filter.type === 'system') {
+      lists.system.push(toSystemQueryValue(filter.name));
+    }
+    if (filter.type === 'typeAliases') {
+      lists.type.push(...toTypeQueryValues(filter.name));
+    }
+    if (filter.type === 'project') {
+      lists.projectid.push(filter.name);
+    }
+  });
+
+  if (aspectClauses.length > 0) {
+    children.push({ kind: 'or', children: aspectClauses });
+  }
+  (Object.keys(lists) as QueryListField[]).forEach((field) => {
+    const values = [...new Set(lists[field])];
+    if (values.length > 0) {
+      children.push({ kind: 'in', field, values });
+    }
+  });
+  children.push({
+    kind: 'and',
+    children: EXCLUDED_ASPECT_TYPES.map((aspect): QueryNode => ({ kind: 'not', child: { kind: 'has', aspect } })),
+  });
+
+  return { kind: 'and', children };
+};
+
+// ==========================================================================
+// AST -> query string
+// ==========================================================================
+
+const renderNode = (node: QueryNode, syntax: QuerySyntax): string => {
+  switch (node.kind) {
+    case 'text':
+      return node.value;
+    case 'has':
+      return syntax === 'semantic' ? `has=${node.aspect}` : `aspect=${node.aspect}`;
+    case 'aspectField': {
+      const path = `${node.aspect}.${node.field}`;
+      return syntax === 'semantic'
+        ? `(${path}:${escapeQueryValue(node.value)})`
+        : `aspect:${path}=${escapeQueryValue(node.value)}`;
+    }
+    case 'in':
+      return `${node.field}=(${node.values.map(escapeQueryValue).join('|')})`;
+    case 'predicate':
+      return node.values.length === 1
+        ? `${node.key}${node.op}${escapeQueryValue(node.values[0])}`
+        : `${node.key}${node.op}(${node.values.map(escapeQueryValue).join('|')})`;
+    case 'not':
+      return `-${renderNode(node.child, syntax)}`;
+    case 'and':
+      return node.children.map((child) => renderNode(child, syntax)).join(' AND ');
+    case 'or':
+      return node.children
+        .map((child) => `(${renderNode(child, syntax)})`)
+        .join(syntax === 'semantic' ? '|' : ' OR ');
+  }
+};
+
+export const serializeSearchAst = (ast: QueryNode, syntax: QuerySyntax = 'semantic'): string => {
+  if (ast.kind !== 'and') {
+    return renderNode(ast, syntax);
+  }
+  // Top-level groups are parenthesized, except the trailing `-has=x AND -has=y` exclusions.
+  const needsParens = (child: QueryNode) =>
+    child.kind === 'or' || child.kind === 'in' ||
+    (child.kind === 'and' && !child.children.every((grandChild) => grandChild.kind === 'not'));
+  return ast.children
+    .map((child) => needsParens(child) ? `(${renderNode(child, syntax)})` : renderNode(child, syntax))
+    .filter((part) => part !== '')
+    .join(' ');
+};
+
+export const buildSearchQuery = (
+  term: string,
+  filters: SearchFilter[] = [],
+  options: { syntax?: QuerySyntax; resolveAspectName?: (displayName: string) => string } = {},
+): string => serializeSearchAst(buildSearchAst(term, filters, options.resolveAspectName), options.syntax);
+
+// ==========================================================================
+// Query string -> AST
+// ==========================================================================
+
+type WordPart = { text: string; quoted: boolean };
+
+type Token =
+  | { type: '(' | ')' | '|' | '-' | 'AND' | 'OR' }
+  | { type: 'word'; raw: string; parts: WordPart[] };
+
+const isBreak = (ch: string) => /\s/.test(ch) || ch === '(' || ch === ')' || ch === '|';
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (ch === '(' || ch === ')' || ch === '|') {
+      tokens.push({ type: ch });
+      i++;
+      continue;
+    }
+    if (ch === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      tokens.push({ type: '-' });
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const parts: WordPart[] = [];
+    let current = '';
+    while (i < input.length && !isBreak(input[i])) {
+      if (input[i] === '"') {
+        if (current) parts.push({ text: current, quoted: false });
+        current = '';
+        i++;
+        let quoted = '';
+        while (i < input.length && input[i] !== '"') {
+          if (input[i] === '\\' && i + 1 < input.length) i++;
+          quoted += input[i];
+          i++;
+        }
+        i++; // closing quote
+        parts.push({ text: quoted, quoted: true });
+      } else {
+        current += input[i];
+        i++;
+      }
+    }
+    if (current) parts.push({ text: current, quoted: false });
+
+    const raw = input.slice(start, i);
+    if (raw === 'AND' || raw === 'OR') {
+      tokens.push({ type: raw });
+    } else {
+      tokens.push({ type: 'word', raw, parts });
+    }
+  }
+  return tokens;
+};
+
+// Splits a word at its first unquoted `=` or `:` into key, operator and value.
+const splitPredicate = (parts: WordPart[]): { key: string; op: '=' | ':'; value: WordPart[] } | null => {
+  for (let p = 0; p < parts.length; p++) {
+    if (parts[p].quoted) continue;
+    const match = parts[p].text.match(/[=:]/);
+    if (!match || match.index === undefined) continue;
+    const before = parts.slice(0, p).map((part) => part.text).join('') + parts[p].text.slice(0, match.index);
+    const rest = parts[p].text.slice(match.index + 1);
+    return {
+      key: before,
+      op: match[0] as '=' | ':',
+      value: [...(rest ? [{ text: rest, quoted: false }] : []), ...parts.slice(p + 1)],
+    };
+  }
+  return null;
+};
+
+const joinParts = (parts: WordPart[]) => parts.map((part) => part.text).join('');
+
+// Splits `projectId.location.aspectType.field` into aspect and field path.
+const splitAspectPath = (path: string, knownAspects: string[]): { aspect: string; field: string } => {
+  const known = knownAspects
+    .filter((aspect) => path.startsWith(`${aspect}.`))
+    .sort((a, b) => b.length - a.length)[0];
+  if (known) {
+    return { aspect: known, field: path.slice(known.length + 1) };
+  }
+  const segments = path.split('.');
+  return { aspect: segments.slice(0, 3).join('.'), field: segments.slice(3).join('.') };
+};
+
+const LIST_FIELDS: Record<string, QueryListField> = {
+  system: 'system',
+  type: 'type',
+  projectid: 'projectid',
+  project: 'projectid',
+};
+
+export const parseSearchQuery = (query: string, knownAspects: string[] = []): QueryNode => {
+  const tokens = tokenize(query);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+
+  const parseValueGroup = (): string[] => {
+    const values: string[] = [];
+    pos++; // '('
+    while (pos < tokens.length && peek().type !== ')') {
+      const token = peek();
+      if (token.type === 'word') values.push(joinParts(token.parts));
+      pos++;
+    }
+    pos++; // ')'
+    return values;
+  };
+
+  const parseWord = (token: Extract<Token, { type: 'word' }>): QueryNode => {
+    const predicate = splitPredicate(token.parts);
+    if (!predicate || predicate.key === '') {
+      return { kind: 'text', value: token.raw };
+    }
+    const key = predicate.key;
+    let values: string[];
+    if (predicate.value.length === 0 && peek()?.type === '(') {
+      values = parseValueGroup();
+    } else {
+      values = [joinParts(predicate.value)];
+    }
+
+    const lowerKey = key.toLowerCase();
+    if ((lowerKey === 'has' || lowerKey === 'aspect') && predicate.op === '=') {
+      return values.length === 1
+        ? { kind: 'has', aspect: values[0] }
+        : { kind: 'or', children: values.map((aspect): QueryNode => ({ kind: 'has', aspect })) };
+    }
+    if (lowerKey === 'aspect' && predicate.op === ':') {
+      const inner = splitPredicate(predicate.value);
+      if (inner) {
+        const { aspect, field } = splitAspectPath(inner.key, knownAspects);
+        return { kind: 'aspectField', aspect, field, value: joinParts(inner.value) };
+      }
+    }
+    if (LIST_FIELDS[lowerKey] && predicate.op === '=') {
+      return { kind: 'in', field: LIST_FIELDS[lowerKey], values };
+    }
+    if (predicate.op === ':' && key.split('.').length > 3 && values.length === 1) {
+      const { aspect, field } = splitAspectPath(key, knownAspects);
+      return { kind: 'aspectField', aspect, field, value: values[0] };
+    }
+    return { kind: 'predicate', key, op: predicate.op, values };
+  };
+
+  const parseUnary = (): QueryNode | null => {
+    const token = peek();
+    if (!token) return null;
+    if (token.type === '-') {
+      pos++;
+      const child = parseUnary();
+      return child ? { kind: 'not', child } : null;
+    }
+    if (token.type === '(') {
+      pos++;
+      const inner = parseOr();
+      if (peek()?.type === ')') pos++;
+      return inner;
+    }
+    if (token.type === 'word') {
+      pos++;
+      return parseWord(token);
+    }
+    pos++; // stray operator or closing paren
+    return null;
+  };
+
+  const parseAnd = (): QueryNode => {
+    const children: QueryNode[] = [];
+    while (pos < tokens.length) {
+      const type = peek().type;
+      if (type === ')' || type === '|' || type === 'OR') break;
+      if (type === 'AND') {
+        pos++;
+        continue;
+      }
+      const node = parseUnary();
+      if (node) children.push(node);
+    }
+    return children.length === 1 ? children[0] : { kind: 'and', children };
+  };
+
+  function parseOr(): QueryNode {
+    const children: QueryNode[] = [parseAnd()];
+    while (pos < tokens.length && (peek().type === '|' || peek().type === 'OR')) {
+      pos++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { kind: 'or', children };
+  }
+
+  const root: QueryNode[] = [];
+  while (pos < tokens.length) {
+    const node = parseOr();
+    if (node.kind === 'and') {
+      root.push(...node.children);
+    } else {
+      root.push(node);
+    }
+    if (peek()?.type === ')') pos++; // unbalanced closing paren
+  }
+  return { kind: 'and', children: root };
+};
+
+// ==========================================================================
+// AST -> filters
+// ==========================================================================
+
+export interface ParsedSearchQuery {
+  term: string;
+  filters: SearchFilter[];
+}
+
+// `(system=A OR system=B)` reads the same as `system=(A|B)`.
+const isSingleListField = (nodes: QueryNode[]) => {
+  const first = nodes[0];
+  return first?.kind === 'in' && nodes.every((node) => node.kind === 'in' && node.field === first.field);
+};
+
+const isExcludedAspect = (node: QueryNode) =>
+  node.kind === 'not' && node.child.kind === 'has' && EXCLUDED_ASPECT_TYPES.includes(node.child.aspect);
+
+export const searchAstToFilters = (
+  ast: QueryNode,
+  toDisplayName: (queryName: string) => string | undefined = () => undefined,
+): ParsedSearchQuery => {
+  const termParts: string[] = [];
+  const filters: SearchFilter[] = [];
+
+  const addFilter = (filter: SearchFilter) => {
+    if (!filters.some((f) => f.name === filter.name && f.type === filter.type)) {
+      filters.push(filter);
+    }
+  };
+
+  const aspectFilter = (aspect: string): SearchFilter => {
+    const name = toDisplayName(aspect) ?? aspect;
+    addFilter({ name, type: 'aspectType' });
+    return filters.find((f) => f.name === name && f.type === 'aspectType')!;
+  };
+
+  const addAspectField = (node: Extract<QueryNode, { kind: 'aspectField' }>, filterType: 'include' | 'exclude') => {
+    const filter = aspectFilter(node.aspect);
+    filter.subAnnotationData = [
+      ...(filter.subAnnotationData ?? []),
+      { fieldName: node.field, value: node.value, enabled: true, filterType },
+    ];
+  };
+
+  // Aspect clauses are `has`, a field comparison, or `has AND field` as emitted by buildSearchAst.
+  const isAspectClause = (node: QueryNode): boolean => {
+    if (node.kind === 'has' || node.kind === 'aspectField') return true;
+    if (node.kind === 'not') return node.child.kind === 'aspectField';
+    if (node.kind === 'and' || node.kind === 'or') return node.children.length > 0 && node.children.every(isAspectClause);
+    return false;
+  };
+
+  const applyAspectClause = (node: QueryNode) => {
+    if (node.kind === 'and' && node.children.some((child) => child.kind !== 'has')) {
+      // `has=x AND (x.field:value)`: the `has` only scopes the field comparison.
+      node.children.forEach((child) => child.kind !== 'has' && applyAspectClause(child));
+      return;
+    }
+    if (node.kind === 'has') aspectFilter(node.aspect);
+    if (node.kind === 'aspectField') addAspectField(node, 'include');
+    if (node.kind === 'not' && node.child.kind === 'aspectField') addAspectField(node.child, 'exclude');
+    if (node.kind === 'and' || node.kind === 'or') node.children.forEach(applyAspectClause);
+  };
+
+  const visit = (node: QueryNode) => {
+    if (isExcludedAspect(node)) return;
+    if (node.kind === 'text') {
+      termParts.push(node.value);
+    } else if (node.kind === 'in') {
+      node.values.forEach((value) => {
+        if (node.field === 'system') addFilter({ name: fromSystemQueryValue(value), type: 'system' });
+        if (node.field === 'type') {
+          // `data_exchange|exchange` is how the single "Exchange" asset is written.
+          if (value === 'data_exchange' && node.values.includes('exchange')) return;
+          addFilter({ name: fromTypeQueryValue(value), type: 'typeAliases' });
+        }
+        if (node.field === 'projectid') addFilter({ name: value, type: 'project' });
+      });
+    } else if (isAspectClause(node)) {
+      applyAspectClause(node);
+    } else if (node.kind === 'and' && node.children.every((child) => isExcludedAspect(child) || child.kind === 'in' || isAspectClause(child))) {
+      node.children.forEach(visit);
+    } else if (node.kind === 'or' && isSingleListField(node.children)) {
+      node.children.forEach(visit);
+    } else {
+      // Anything we cannot express as a chip stays in the search term.
+      termParts.push(node.kind === 'or' ? `(${serializeSearchAst(node)})` : serializeSearchAst(node));
+    }
+  };
+
+  (ast.kind === 'and' ? ast.children : [ast]).forEach(visit);
+
+  return { term: termParts.join(' '), filters };
+};
+
+export const parseSearchQueryToFilters = (
+  query: string,
+  resolver?: Pick<AspectNameResolver, 'toDisplayName'>,
+  knownAspects: string[] = [],
+): ParsedSearchQuery => searchAstToFilters(parseSearchQuery(query, knownAspects), resolver?.toDisplayName);
+
+// Heuristic used by the SearchBar to decide whether input should be parsed into chips.
+export const isAdvancedSearchQuery = (input: string): boolean =>
+  /(^|[\s(|-])(has|aspect|system|type|projectid|project)\s*[=:]/i.test(input) ||
+  /(^|[\s(-])\(?[\w-]+\.[\w-]+\.[\w-]+\.[\w.-]+:/.test(input);
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  filterSearchResults,
+  getNextSort,
+  loadSearchTableColumnPrefs,
+  saveSearchTableColumnPrefs,
+  sortSearchResults,
+} from './searchTableColumns';
+
+const row = (name: string, owner?: string, rows?: number) => ({
+  dataplexEntry: {
+    name,
+    aspects: { '1.global.overview': { data: { ...(owner ? { owner } : {}), ...(rows !== undefined ? { rows } : {}) } } },
+  },
+});
+
+describe('searchTableColumns', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('column prefs', () => {
+    it('saves and loads the columns per user', () => {
+      const prefs = { hiddenColumns: ['type'], aspectColumns: [{ aspectKey: '1.global.overview', field: 'owner' }] };
+      saveSearchTableColumnPrefs('a@example.com', prefs);
+
+      expect(loadSearchTableColumnPrefs('a@example.com')).toEqual(prefs);
+      expect(loadSearchTableColumnPrefs('b@example.com')).toEqual({ hiddenColumns: [], aspectColumns: [] });
+    });
+
+    it('ignores malformed stored values', () => {
+      localStorage.setItem('searchTableColumns:a@example.com', JSON.stringify({ hiddenColumns: 'type', aspectColumns: [{ field: 1 }] }));
+
+      expect(loadSearchTableColumnPrefs('a@example.com')).toEqual({ hiddenColumns: [], aspectColumns: [] });
+    });
+  });
+
+  describe('getNextSort', () => {
+    it('cycles a column through ascending, descending and unsorted', () => {
+      let sorts = getNextSort([], 'name');
+      expect(sorts).toEqual([{ key: 'name', order: 'asc' }]);
+      sorts = getNextSort(sorts, 'name');
+      expect(sorts).toEqual([{ key: 'name', order: 'desc' }]);
+      expect(getNextSort(sorts, 'name')).toEqual([]);
+    });
+
+    it('replaces the sort on a plain click and extends it on a shift-click', () => {
+      const sorts = [{ key: 'name', order: 'asc' as const }];
+
+      expect(getNextSort(sorts, 'location')).toEqual([{ key: 'location', order: 'asc' }]);
+      expect(getNextSort(sorts, 'location', true)).toEqual([...sorts, { key: 'location', order: 'asc' }]);
+      expect(getNextSort([...sorts, { key: 'location', order: 'desc' }], 'location', true)).toEqual(sorts);
+    });
+  });
+
+  describe('sortSearchResults', () => {
+    const getValue = (resource: ReturnType<typeof row>, key: string) =>
+      key === 'rows'
+        ? resource.dataplexEntry.aspects['1.global.overview'].data.rows ?? ''
+        : resource.dataplexEntry.aspects['1.global.overview'].data.owner ?? resource.dataplexEntry.name;
+
+    it('sorts by each key in turn and keeps ties in place', () => {
+      const resources = [row('c', 'bob', 2), row('a', 'amy', 10), row('b', 'bob', 1), row('d', 'bob', 1)];
+
+      const sorted = sortSearchResults(resources, [{ key: 'owner', order: 'desc' }, { key: 'rows', order: 'asc' }], getValue);
+
+      expect(sorted.map((r) => r.dataplexEntry.name)).toEqual(['b', 'd', 'c', 'a']);
+    });
+
+    it('puts empty values last in both directions', () => {
+      const resources = [row('a', 'amy'), row('b', 'bob', 5), row('c', 'cid', 7)];
+
+      expect(sortSearchResults(resources, [{ key: 'rows', order: 'asc' }], getValue).map((r) => r.dataplexEntry.name)).toEqual(['b', 'c', 'a']);
+      expect(sortSearchResults(resources, [{ key: 'rows', order: 'desc' }], getValue).map((r) => r.dataplexEntry.name)).toEqual(['c', 'b', 'a']);
+    });
+  });
+
+  it('filters by aspect field text, ignoring case', () => {
+    const owner = { aspectKey: '1.global.overview', field: 'owner' };
+    const resources = [row('a', 'Sales Team'), row('b', 'finance'), row('c')];
+
+    expect(filterSearchResults(resources, { 'aspect:1.global.overview:owner': 'SALES' }, [owner])).toEqual([resources[0]]);
+    expect(filterSearchResults(resources, { 'aspect:1.global.overview:owner': '  ' }, [owner])).toBe(resources);
+  });
+});
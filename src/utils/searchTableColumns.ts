@@ -0,0 +1,129 @@
+/**
+ * @file searchTableColumns.ts
+ * @description
+ * Column choice and client-side sorting for `SearchTableView`.
+ *
+ * Besides the fixed columns (name, description, type, location, last
+ * modified), users can add any aspect field seen in the results as a column.
+ * The choice is kept in localStorage per signed-in user. Sorting works on the
+ * loaded page of results and can use several columns: a plain click sorts by
+ * one column, a shift-click adds the column as a further sort key.
+ */
+
+import { getAspectFieldLabel, getAspectFieldValue, type ExportAspectField, type ExportSource } from './searchExport';
+
+export type SearchTableSortOrder = 'asc' | 'desc';
+
+export interface SearchTableSort {
+  key: string;
+  order: SearchTableSortOrder;
+}
+
+export interface SearchTableColumnPrefs {
+  // Keys of fixed columns the user removed; the name column is always shown.
+  hiddenColumns: string[];
+  aspectColumns: ExportAspectField[];
+}
+
+export const SEARCH_TABLE_FIXED_COLUMNS = [
+  { key: 'name', label: 'Name', initialWidth: 250, minWidth: 120, hideable: false },
+  { key: 'description', label: 'Description', initialWidth: 300, minWidth: 120, hideable: true },
+  { key: 'type', label: 'Type', initialWidth: 170, minWidth: 100, hideable: true },
+  { key: 'location', label: 'Location', initialWidth: 130, minWidth: 80, hideable: true },
+  { key: 'lastModified', label: 'Last modified', initialWidth: 150, minWidth: 100, hideable: true },
+];
+
+export const DEFAULT_SEARCH_TABLE_COLUMN_PREFS: SearchTableColumnPrefs = { hiddenColumns: [], aspectColumns: [] };
+
+const STORAGE_KEY_PREFIX = 'searchTableColumns';
+
+const getStorageKey = (userEmail?: string | null) => `${STORAGE_KEY_PREFIX}:${userEmail || 'anonymous'}`;
+
+const isAspectField = (value: unknown): value is ExportAspectField =>
+  !!value && typeof value === 'object'
+  && 'aspectKey' in value && typeof value.aspectKey === 'string'
+  && 'field' in value && typeof value.field === 'string';
+
+export const loadSearchTableColumnPrefs = (userEmail?: string | null): SearchTableColumnPrefs => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(getStorageKey(userEmail)) ?? 'null');
+    return {
+      hiddenColumns: Array.isArray(stored?.hiddenColumns) ? stored.hiddenColumns : [],
+      aspectColumns: Array.isArray(stored?.aspectColumns)
+        ? stored.aspectColumns.filter(isAspectField)
+        : [],
+    };
+  } catch (error) {
+    console.warn('Failed to load search table columns from localStorage:', error);
+    return DEFAULT_SEARCH_TABLE_COLUMN_PREFS;
+  }
+};
+
+export const saveSearchTableColumnPrefs = (userEmail: string | null | undefined, prefs: SearchTableColumnPrefs) => {
+  try {
+    localStorage.setItem(getStorageKey(userEmail), JSON.stringify(prefs));
+  } catch (error) {
+    console.warn('Failed to save search table columns to localStorage:', error);
+  }
+};
+
+// Column key of an aspect field, distinct from the fixed column keys.
+export const getAspectColumnKey = (aspectField: ExportAspectField) => `aspect:${aspectField.aspectKey}:${aspectField.field}`;
+
+// Header of an aspect field column; `among` are the other columns or options shown with it.
+export const getAspectColumnLabel = getAspectFieldLabel;
+
+/**
+ * Sort keys after clicking the header of `key`. Each click moves the column
+ * through ascending, descending and unsorted. A plain click makes it the only
+ * sort key; with `additive` (shift-click) the other keys are kept.
+ */
+export const getNextSort = (sorts: SearchTableSort[], key: string, additive = false): SearchTableSort[] => {
+  const current = sorts.find((sort) => sort.key === key);
+  const nextOrder: SearchTableSortOrder | null = !current ? 'asc' : current.order === 'asc' ? 'desc' : null;
+  if (!additive) return nextOrder ? [{ key, order: nextOrder }] : [];
+  if (!nextOrder) return sorts.filter((sort) => sort.key !== key);
+  return current
+    ? sorts.map((sort) => (sort.key === key ? { key, order: nextOrder } : sort))
+    : [...sorts, { key, order: nextOrder }];
+};
+
+export type SortValue = string | number;
+
+// Empty values go last in both directions; numbers compare as numbers.
+const compareValues = (a: SortValue, b: SortValue, order: SearchTableSortOrder) => {
+  if (a === '' || b === '') return a === b ? 0 : a === '' ? 1 : -1;
+  const result = typeof a === 'number' && typeof b === 'number'
+    ? a - b
+    : String(a).localeCompare(String(b), undefined, { sensitivity: 'base', numeric: true });
+  return order === 'asc' ? result : -result;
+};
+
+/** Sorts `resources` by `sorts` in order; rows that tie keep their relative order. */
+export const sortSearchResults = <T>(
+  resources: T[],
+  sorts: SearchTableSort[],
+  getSortValue: (resource: T, key: string) => SortValue
+): T[] => {
+  if (sorts.length === 0) return resources;
+  return resources
+    .map((resource) => ({ resource, values: sorts.map((sort) => getSortValue(resource, sort.key)) }))
+    .sort((a, b) => {
+      for (let i = 0; i < sorts.length; i++) {
+        const result = compareValues(a.values[i], b.values[i], sorts[i].order);
+        if (result !== 0) return result;
+      }
+      return 0;
+    })
+    .map(({ resource }) => resource);
+};
+
+/** Keeps the results whose aspect field values contain each column's filter text. */
+export const filterSearchResults = <T extends ExportSource>(resources: T[], filters: Record<string, string>, aspectColumns: ExportAspectField[]) => {
+  const active = aspectColumns
+    .map((aspectField) => ({ aspectField, text: (filters[getAspectColumnKey(aspectField)] ?? '').trim().toLowerCase() }))
+    .filter(({ text }) => text !== '');
+  if (active.length === 0) return resources;
+  return resources.filter((resource) =>
+    active.every(({ aspectField, text }) => getAspectFieldValue(resource, aspectField).toLowerCase().includes(text)));
+};
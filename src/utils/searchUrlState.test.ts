@@ -0,0 +1,102 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  buildSearchUrl,
+  DEFAULT_SEARCH_URL_STATE,
+  isSameSearch,
+  parseSearchUrlState,
+  serializeSearchUrlState,
+  type SearchUrlState,
+} from './searchUrlState';
+
+const fullState: SearchUrlState = {
+  term: 'customer orders',
+  searchType: 'BigQuery',
+  filters: [
+    { name: 'BigQuery', type: 'system' },
+    { name: 'my project', type: 'project' },
+    {
+      name: 'Data Domain',
+      type: 'aspectType',
+      subAnnotationData: [
+        { fieldName: 'domain', value: 'Sales: "EMEA"', enabled: true, filterType: 'include' },
+        { fieldName: 'owner', value: 'bob', enabled: false, filterType: 'exclude' },
+      ],
+    },
+  ],
+  semanticSearch: false,
+  sortBy: 'lastModified',
+  sortOrder: 'desc',
+  viewMode: 'table',
+};
+
+describe('searchUrlState', () => {
+  describe('serializeSearchUrlState', () => {
+    it('returns an empty string for the default state', () => {
+      expect(serializeSearchUrlState(DEFAULT_SEARCH_URL_STATE)).toBe('');
+    });
+
+    it('leaves out parameters that hold their default value', () => {
+      expect(serializeSearchUrlState({ ...DEFAULT_SEARCH_URL_STATE, term: '  orders ' })).toBe('?q=orders');
+    });
+
+    it('writes one parameter per filter and sub-aspect value', () => {
+      const params = new URLSearchParams(serializeSearchUrlState(fullState));
+      expect(params.getAll('f')).toEqual(['system:BigQuery', 'project:my project', 'aspectType:Data Domain']);
+      expect(params.getAll('fv')).toHaveLength(2);
+      expect(params.get('sort')).toBe('lastModified:desc');
+      expect(params.get('view')).toBe('table');
+      expect(params.get('semantic')).toBe('0');
+    });
+
+    it('builds a /search URL', () => {
+      expect(buildSearchUrl({ term: 'orders' })).toBe('/search?q=orders');
+      expect(buildSearchUrl({})).toBe('/search');
+    });
+  });
+
+  describe('parseSearchUrlState', () => {
+    it('returns null when the URL carries no search state', () => {
+      expect(parseSearchUrlState('')).toBeNull();
+      expect(parseSearchUrlState('?utm_source=mail')).toBeNull();
+    });
+
+    it('round-trips the full state', () => {
+      expect(parseSearchUrlState(serializeSearchUrlState(fullState))).toEqual(fullState);
+    });
+
+    it('fills in defaults for missing parameters', () => {
+      expect(parseSearchUrlState('?q=orders')).toEqual({ ...DEFAULT_SEARCH_URL_STATE, term: 'orders' });
+    });
+
+    it('ignores malformed parameters', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const state = parseSearchUrlState('?f=nocolon&f=system:&f=aspectType:X&fv=%7Bbad&fv=["Y","a","include","v"]&sort=size:up&view=grid');
+      expect(state).toEqual({ ...DEFAULT_SEARCH_URL_STATE, filters: [{ name: 'X', type: 'aspectType' }] });
+      expect(warn).toHaveBeenCalledTimes(1);
+      warn.mockRestore();
+    });
+
+    it('drops duplicate filters', () => {
+      expect(parseSearchUrlState('?f=system:BigQuery&f=system:BigQuery')?.filters).toEqual([
+        { name: 'BigQuery', type: 'system' },
+      ]);
+    });
+  });
+
+  describe('isSameSearch', () => {
+    it('ignores sort order and view mode', () => {
+      expect(isSameSearch(fullState, { ...fullState, sortBy: 'name', viewMode: 'list' })).toBe(true);
+    });
+
+    it('detects a different term, search type or filter', () => {
+      expect(isSameSearch(fullState, { ...fullState, term: 'other' })).toBe(false);
+      expect(isSameSearch(fullState, { ...fullState, searchType: 'All' })).toBe(false);
+      expect(isSameSearch(fullState, { ...fullState, filters: fullState.filters.slice(1) })).toBe(false);
+    });
+
+    it('ignores extra properties the filter chips carry', () => {
+      const chip = { name: 'BigQuery', type: 'system', data: { count: 3 } };
+      expect(isSameSearch({ filters: [chip] }, { filters: [{ name: 'BigQuery', type: 'system' }] })).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * @file searchUrlState.ts
+ * @description
+ * Encodes the state of the `/search` page (term, search type, filter chips
+ * including sub-aspect values, sort order and view mode) into the URL query
+ * string and reads it back, so a search can be bookmarked or shared.
+ *
+ * Example: `/search?q=orders&f=system:BigQuery&f=aspectType:Data+Domain&fv=...&view=table`
+ *
+ * Parameters that hold their default value are left out to keep links short.
+ */
+
+import type { SearchFilter, SubAspectFilter } from './searchQuery';
+
+export type SearchSortBy = 'mostRelevant' | 'name' | 'lastModified';
+export type SearchSortOrder = 'asc' | 'desc';
+export type SearchViewMode = 'list' | 'table';
+
+export interface SearchUrlState {
+  term: string;
+  searchType: string;
+  filters: SearchFilter[];
+  semanticSearch: boolean;
+  sortBy: SearchSortBy;
+  sortOrder: SearchSortOrder;
+  viewMode: SearchViewMode;
+}
+
+export const SEARCH_URL_PARAMS = {
+  TERM: 'q',
+  SEARCH_TYPE: 'searchType',
+  FILTER: 'f',
+  FILTER_VALUE: 'fv',
+  SEMANTIC: 'semantic',
+  SORT: 'sort',
+  VIEW: 'view',
+} as const;
+
+export const DEFAULT_SEARCH_URL_STATE: SearchUrlState = {
+  term: '',
+  searchType: 'All',
+  filters: [],
+  semanticSearch: true,
+  sortBy: 'mostRelevant',
+  sortOrder: 'asc',
+  viewMode: 'list',
+};
+
+const SORT_OPTIONS: SearchSortBy[] = ['mostRelevant', 'name', 'lastModified'];
+
+/**
+ * Serializes search state into a query string (including the leading `?`),
+ * or an empty string when everything is at its default.
+ */
+export const serializeSearchUrlState = (state: Partial<SearchUrlState>): string => {
+  const params = new URLSearchParams();
+  const { TERM, SEARCH_TYPE, FILTER, FILTER_VALUE, SEMANTIC, SORT, VIEW } = SEARCH_URL_PARAMS;
+
+  if (state.term && state.term.trim() !== '') {
+    params.set(TERM, state.term.trim());
+  }
+  if (state.searchType && state.searchType !== DEFAULT_SEARCH_URL_STATE.searchType) {
+    params.set(SEARCH_TYPE, state.searchType);
+  }
+  (state.filters ?? []).forEach((filter) => {
+    params.append(FILTER, `${filter.type}:${filter.name}`);
+    (filter.subAnnotationData ?? []).forEach((sub) => {
+      const value: (string | boolean)[] = [filter.name, sub.fieldName, sub.filterType, String(sub.value ?? '')];
+      if (sub.enabled === false) value.push(false);
+      params.append(FILTER_VALUE, JSON.stringify(value));
+    });
+  });
+  if (state.semanticSearch === false) {
+    params.set(SEMANTIC, '0');
+  }
+  if (state.sortBy && state.sortBy !== DEFAULT_SEARCH_URL_STATE.sortBy) {
+    params.set(SORT, `${state.sortBy}:${state.sortOrder ?? 'asc'}`);
+  }
+  if (state.viewMode && state.viewMode !== DEFAULT_SEARCH_URL_STATE.viewMode) {
+    params.set(VIEW, state.viewMode);
+  }
+
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
+
+export const buildSearchUrl = (state: Partial<SearchUrlState>): string =>
+  `/search${serializeSearchUrlState(state)}`;
+
+/**
+ * Reads search state from a query string. Returns `null` when the URL carries
+ * no search state at all, so callers can fall back to the persisted state.
+ * Malformed parameters are ignored rather than failing the whole page.
+ */
+export const parseSearchUrlState = (search: string): SearchUrlState | null => {
+  const params = new URLSearchParams(search);
+  const { TERM, SEARCH_TYPE, FILTER, FILTER_VALUE, SEMANTIC, SORT, VIEW } = SEARCH_URL_PARAMS;
+  if (!Object.values(SEARCH_URL_PARAMS).some((key) => params.has(key))) {
+    return null;
+  }
+
+  const filters: SearchFilter[] = [];
+  params.getAll(FILTER).forEach((raw) => {
+    const separator = raw.indexOf(':');
+    if (separator <= 0 || separator === raw.length - 1) return;
+    const type = raw.slice(0, separator);
+    const name = raw.slice(separator + 1);
+    if (!filters.some((f) => f.type === type && f.name === name)) {
+      filters.push({ name, type });
+    }
+  });
+
+  params.getAll(FILTER_VALUE).forEach((raw) => {
+    try {
+      const [aspectName, fieldName, filterType, value, enabled] = JSON.parse(raw);
+      const aspect = filters.find((f) => f.type === 'aspectType' && f.name === aspectName);
+      if (!aspect || typeof fieldName !== 'string' || (filterType !== 'include' && filterType !== 'exclude')) return;
+      const sub: SubAspectFilter = { fieldName, value: String(value ?? ''), enabled: enabled !== false, filterType };
+      aspect.subAnnotationData = [...(aspect.subAnnotationData ?? []), sub];
+    } catch {
+      console.warn('[Search URL] Ignoring malformed filter value:', raw);
+    }
+  });
+
+  const [sortBy, sortOrder] = (params.get(SORT) ?? '').split(':');
+  const view = params.get(VIEW);
+
+  return {
+    term: params.get(TERM) ?? '',
+    searchType: params.get(SEARCH_TYPE) || DEFAULT_SEARCH_URL_STATE.searchType,
+    filters,
+    semanticSearch: params.get(SEMANTIC) !== '0',
+    sortBy: SORT_OPTIONS.includes(sortBy as SearchSortBy) ? sortBy as SearchSortBy : DEFAULT_SEARCH_URL_STATE.sortBy,
+    sortOrder: sortOrder === 'desc' ? 'desc' : 'asc',
+    viewMode: view === 'table' ? 'table' : 'list',
+  };
+};
+
+// Filters as they appear in the URL: only name, type and sub-aspect values.
+const toUrlFilters = (filters: SearchFilter[] = []) =>
+  filters.map(({ name, type, subAnnotationData }) => ({
+    name,
+    type,
+    subAnnotationData: (subAnnotationData ?? []).map(({ fieldName, value, filterType, enabled }) => ({
+      fieldName, value: String(value ?? ''), filterType, enabled: enabled !== false,
+    })),
+  }));
+
+/**
+ * True when two states would run the same search (term, search type, filters
+ * and semantic flag). Sort order and view mode are presentation only.
+ */
+export const isSameSearch = (a: Partial<SearchUrlState>, b: Partial<SearchUrlState>): boolean =>
+  (a.term ?? '').trim() === (b.term ?? '').trim() &&
+  (a.searchType || 'All') === (b.searchType || 'All') &&
+  (a.semanticSearch !== false) === (b.semanticSearch !== false) &&
+  JSON.stringify(toUrlFilters(a.filters)) === JSON.stringify(toUrlFilters(b.filters));
@@ -59,14 +59,15 @@ vi.mock("../services/urlPreservationService", () => ({
 import { debounce } from "./debounce";
 import { throttle } from "./throttle";
 import {
-  getFavorites,
-  setFavorite,
-  isFavorite,
-  toggleFavorite,
-  removeFavorite,
-  clearAllFavorites,
-  type FavoriteEntry,
+  getLegacyFavoriteNames,
+  clearLegacyFavorites,
+  getFavoriteSystem,
+  getFavoriteEntryType,
+  groupFavorites,
+  isFavoriteStale,
+  LEGACY_FAVORITES_STORAGE_KEY,
 } from "./favoriteUtils";
+import type { Favorite } from "../features/favorites/favoritesSlice";
 import {
   saveStateToStorage,
   loadStateFromStorage,
@@ -381,155 +382,100 @@ describe("throttle", () => {
 // ==========================================================================
 
 describe("favoriteUtils", () => {
+  const makeFavorite = (entryName: string, system: string | null, entryType = "", updateTime: string | null = "2024-01-01T00:00:00Z"): Favorite => ({
+    entryName,
+    owner: "test@example.com",
+    entry: system === null ? null : {
+      name: entryName,
+      entryType,
+      fullyQualifiedName: "",
+      updateTime,
+      entrySource: { displayName: entryName, system, description: "", location: "us", resource: "" },
+    },
+    addedAt: "2024-01-01T00:00:00Z",
+    status: "available",
+    checkedAt: null,
+  });
+
   beforeEach(() => {
     localStorageMock.clear();
     vi.clearAllMocks();
   });
 
-  describe("getFavorites", () => {
-    it("should return empty object when no favorites stored", () => {
-      const result = getFavorites();
-      expect(result).toEqual({});
+  describe("getLegacyFavoriteNames", () => {
+    it("should return an empty list when no favorites are stored", () => {
+      expect(getLegacyFavoriteNames()).toEqual([]);
     });
 
-    it("should return stored favorites", () => {
+    it("should return only the entries marked as favorite", () => {
       localStorageMock.setItem(
-        "dataplex_favorites",
-        JSON.stringify({ entry1: true, entry2: false })
+        LEGACY_FAVORITES_STORAGE_KEY,
+        JSON.stringify({ entry1: true, entry2: false, entry3: true })
       );
-      const result = getFavorites();
-      expect(result).toEqual({ entry1: true, entry2: false });
+      expect(getLegacyFavoriteNames()).toEqual(["entry1", "entry3"]);
     });
 
-    it("should return empty object on parse error", () => {
-      localStorageMock.setItem("dataplex_favorites", "invalid-json");
-      const result = getFavorites();
-      expect(result).toEqual({});
-      expect(consoleErrorSpy).toHaveBeenCalled();
+    it("should return an empty list for invalid JSON or non-object values", () => {
+      localStorageMock.setItem(LEGACY_FAVORITES_STORAGE_KEY, "invalid-json");
+      expect(getLegacyFavoriteNames()).toEqual([]);
+      localStorageMock.setItem(LEGACY_FAVORITES_STORAGE_KEY, JSON.stringify(["entry1"]));
+      expect(getLegacyFavoriteNames()).toEqual([]);
     });
   });
 
-  describe("setFavorite", () => {
-    it("should set a favorite entry", () => {
-      setFavorite("entry1", true);
-      expect(localStorageMock.setItem).toHaveBeenCalled();
-      expect(dispatchEventMock).toHaveBeenCalled();
-    });
-
-    it("should dispatch favoritesChanged event with correct detail", () => {
-      setFavorite("entry1", true);
-      const eventCall = dispatchEventMock.mock.calls[0][0];
-      expect(eventCall.type).toBe("favoritesChanged");
-      expect(eventCall.detail).toEqual({ entryName: "entry1", isFavorite: true });
-    });
-
-    it("should handle localStorage error gracefully", () => {
-      localStorageMock.setItem.mockImplementationOnce(() => {
-        throw new Error("Storage full");
-      });
-      setFavorite("entry1", true);
-      expect(consoleErrorSpy).toHaveBeenCalled();
+  describe("clearLegacyFavorites", () => {
+    it("should remove the legacy storage key", () => {
+      clearLegacyFavorites();
+      expect(localStorageMock.removeItem).toHaveBeenCalledWith("dataplex_favorites");
     });
   });
 
-  describe("isFavorite", () => {
-    it("should return true for favorited entry", () => {
-      localStorageMock.setItem(
-        "dataplex_favorites",
-        JSON.stringify({ entry1: true })
-      );
-      expect(isFavorite("entry1")).toBe(true);
+  describe("getFavoriteSystem / getFavoriteEntryType", () => {
+    it("should use the card display names", () => {
+      expect(getFavoriteSystem(makeFavorite("a", "BIGQUERY"))).toBe("BigQuery");
+      expect(getFavoriteSystem(makeFavorite("a", "Dataplex Universal Catalog"))).toBe("Knowledge Catalog");
+      expect(getFavoriteSystem(makeFavorite("a", null))).toBe("Unknown system");
     });
 
-    it("should return false for non-favorited entry", () => {
-      localStorageMock.setItem(
-        "dataplex_favorites",
-        JSON.stringify({ entry1: false })
-      );
-      expect(isFavorite("entry1")).toBe(false);
-    });
-
-    it("should return false for unknown entry", () => {
-      expect(isFavorite("unknown")).toBe(false);
+    it("should read the entry type from the entry type name or the entry name", () => {
+      expect(getFavoriteEntryType(makeFavorite("a", "bigquery", "projects/p/entryTypes/bigquery-table"))).toBe("Table");
+      expect(getFavoriteEntryType(makeFavorite("projects/p/datasets/d", "bigquery", "dataset"))).toBe("Datasets");
+      expect(getFavoriteEntryType(makeFavorite("a", null))).toBe("Other");
     });
   });
 
-  describe("toggleFavorite", () => {
-    it("should toggle from false to true", () => {
-      localStorageMock.setItem(
-        "dataplex_favorites",
-        JSON.stringify({ entry1: false })
-      );
-      const result = toggleFavorite("entry1");
-      expect(result).toBe(true);
-    });
-
-    it("should toggle from true to false", () => {
-      localStorageMock.setItem(
-        "dataplex_favorites",
-        JSON.stringify({ entry1: true })
-      );
-      const result = toggleFavorite("entry1");
-      expect(result).toBe(false);
-    });
-
-    it("should toggle unknown entry to true", () => {
-      const result = toggleFavorite("newEntry");
-      expect(result).toBe(true);
-    });
-  });
+  describe("groupFavorites", () => {
+    it("should group by system, then entry type, sorted by name", () => {
+      const groups = groupFavorites([
+        makeFavorite("t1", "bigquery", "x/bigquery-table"),
+        makeFavorite("f1", "CLOUD_STORAGE", "x/storage-fileset"),
+        makeFavorite("d1", "bigquery", "x/bigquery-dataset"),
+        makeFavorite("t2", "bigquery", "x/bigquery-table"),
+      ]);
 
-  describe("removeFavorite", () => {
-    it("should remove a favorite entry", () => {
-      localStorageMock.setItem(
-        "dataplex_favorites",
-        JSON.stringify({ entry1: true, entry2: true })
-      );
-      removeFavorite("entry1");
-      expect(dispatchEventMock).toHaveBeenCalled();
+      expect(groups.map((g) => g.system)).toEqual(["BigQuery", "CLOUD_STORAGE"]);
+      expect(groups[0].entryTypes.map((t) => [t.entryType, t.favorites.map((f) => f.entryName)])).toEqual([
+        ["Dataset", ["d1"]],
+        ["Table", ["t1", "t2"]],
+      ]);
     });
 
-    it("should handle localStorage error gracefully", () => {
-      localStorageMock.getItem.mockReturnValueOnce(JSON.stringify({ entry1: true }));
-      localStorageMock.setItem.mockImplementationOnce(() => {
-        throw new Error("Storage error");
-      });
-      removeFavorite("entry1");
-      expect(consoleErrorSpy).toHaveBeenCalled();
+    it("should return no groups for no favorites", () => {
+      expect(groupFavorites([])).toEqual([]);
     });
   });
 
-  describe("clearAllFavorites", () => {
-    it("should clear all favorites", () => {
-      localStorageMock.setItem(
-        "dataplex_favorites",
-        JSON.stringify({ entry1: true })
-      );
-      clearAllFavorites();
-      expect(localStorageMock.removeItem).toHaveBeenCalledWith("dataplex_favorites");
-      expect(dispatchEventMock).toHaveBeenCalled();
-    });
+  describe("isFavoriteStale", () => {
+    const now = new Date("2024-12-31T00:00:00Z").getTime();
 
-    it("should dispatch event with null entryName", () => {
-      clearAllFavorites();
-      const eventCall = dispatchEventMock.mock.calls[0][0];
-      expect(eventCall.detail).toEqual({ entryName: null, isFavorite: false });
+    it("should flag entries not modified for more than 180 days", () => {
+      expect(isFavoriteStale(makeFavorite("a", "bigquery", "", "2024-01-01T00:00:00Z"), now)).toBe(true);
+      expect(isFavoriteStale(makeFavorite("a", "bigquery", "", "2024-12-01T00:00:00Z"), now)).toBe(false);
     });
 
-    it("should handle localStorage error gracefully", () => {
-      localStorageMock.removeItem.mockImplementationOnce(() => {
-        throw new Error("Storage error");
-      });
-      clearAllFavorites();
-      expect(consoleErrorSpy).toHaveBeenCalled();
-    });
-  });
-
-  describe("FavoriteEntry interface", () => {
-    it("should accept valid FavoriteEntry shape", () => {
-      const entry: FavoriteEntry = { name: "test", isFavorite: true };
-      expect(entry.name).toBe("test");
-      expect(entry.isFavorite).toBe(true);
+    it("should not flag entries without a known update time", () => {
+      expect(isFavoriteStale(makeFavorite("a", "bigquery", "", null), now)).toBe(false);
+      expect(isFavoriteStale(makeFavorite("a", null), now)).toBe(false);
     });
   });
 });
@@ -1646,16 +1592,16 @@ describe("Edge Cases and Integration", () => {
       vi.clearAllMocks();
     });
 
-    it("should handle corrupted JSON in getFavorites", () => {
+    it("should handle corrupted JSON in getLegacyFavoriteNames", () => {
       localStorageMock.setItem("dataplex_favorites", "{corrupted");
-      const result = getFavorites();
-      expect(result).toEqual({});
+      const result = getLegacyFavoriteNames();
+      expect(result).toEqual([]);
     });
 
     it("should handle null values in localStorage", () => {
       localStorageMock.getItem.mockReturnValueOnce(null);
-      const result = getFavorites();
-      expect(result).toEqual({});
+      const result = getLegacyFavoriteNames();
+      expect(result).toEqual([]);
     });
   });
 
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createWatchSnapshot,
+  describeWatchChange,
+  diffWatchSnapshots,
+  fingerprint,
+  getAspectFingerprints,
+  getDataQualityScore,
+  getSchemaFields,
+} from './watchlistDiff';
+import type { AspectLike } from './entryModel';
+
+const field = (name: string, dataType: string, mode = 'NULLABLE') => ({
+  structValue: {
+    fields: {
+      name: { stringValue: name },
+      dataType: { stringValue: dataType },
+      metadataType: { stringValue: dataType },
+      mode: { stringValue: mode },
+      description: { stringValue: '' },
+    },
+  },
+});
+
+const makeEntry = (overrides: { fields?: ReturnType<typeof field>[]; aspects?: Record<string, AspectLike>; updateTime?: unknown } = {}) => ({
+  name: 'projects/p/locations/us/entryGroups/@bigquery/entries/orders',
+  entryType: 'projects/655216118709/locations/global/entryTypes/bigquery-table',
+  updateTime: overrides.updateTime ?? '2024-05-01T00:00:00Z',
+  entrySource: { displayName: 'orders', system: 'BigQuery' },
+  aspects: {
+    '655216118709.global.schema': {
+      data: { fields: { fields: { listValue: { values: overrides.fields ?? [field('id', 'INT64', 'REQUIRED'), field('amount', 'NUMERIC')] } } } },
+    },
+    '655216118709.global.contacts': { data: { identities: [{ name: 'Ann' }] } },
+    ...overrides.aspects,
+  },
+});
+
+describe('watchlistDiff', () => {
+  describe('getSchemaFields', () => {
+    it('reads the fields from the schema aspect', () => {
+      expect(getSchemaFields(makeEntry())).toEqual([
+        { name: 'id', type: 'INT64', mode: 'REQUIRED' },
+        { name: 'amount', type: 'NUMERIC', mode: 'NULLABLE' },
+      ]);
+    });
+
+    it('returns null for entries without a schema', () => {
+      expect(getSchemaFields({ entryType: 'projects/1/locations/global/entryTypes/generic', aspects: {} })).toBeNull();
+    });
+  });
+
+  describe('fingerprint', () => {
+    it('does not depend on key order', () => {
+      expect(fingerprint({ a: 1, b: [1, { c: 2, d: 3 }] })).toBe(fingerprint({ b: [1, { d: 3, c: 2 }], a: 1 }));
+    });
+
+    it('differs for different data', () => {
+      expect(fingerprint({ a: 1 })).not.toBe(fingerprint({ a: 2 }));
+    });
+  });
+
+  it('fingerprints every aspect except the schema', () => {
+    expect(Object.keys(getAspectFingerprints(makeEntry()))).toEqual(['655216118709.global.contacts']);
+  });
+
+  describe('getDataQualityScore', () => {
+    it('uses the newest job that has a result', () => {
+      const scanData = {
+        scan: {},
+        jobs: [{ state: 'RUNNING' }, { dataQualityResult: { score: 87.456 } }, { dataQualityResult: { score: 50 } }],
+      };
+      expect(getDataQualityScore(scanData)).toBe(87.46);
+    });
+
+    it('returns null without results', () => {
+      expect(getDataQualityScore(undefined)).toBeNull();
+      expect(getDataQualityScore({ jobs: [] })).toBeNull();
+    });
+  });
+
+  it('creates a snapshot of an entry', () => {
+    const snapshot = createWatchSnapshot(makeEntry({ updateTime: { seconds: 1714521600 } }), 90);
+
+    expect(snapshot).toMatchObject({
+      entryName: makeEntry().name,
+      displayName: 'orders',
+      updateTime: '2024-05-01T00:00:00.000Z',
+      dqScore: 90,
+    });
+    expect(snapshot.schema).toHaveLength(2);
+  });
+
+  describe('diffWatchSnapshots', () => {
+    it('reports nothing for the same entry', () => {
+      expect(diffWatchSnapshots(createWatchSnapshot(makeEntry(), 90), createWatchSnapshot(makeEntry(), 90))).toEqual([]);
+    });
+
+    it('reports added, removed and changed columns', () => {
+      const previous = createWatchSnapshot(makeEntry());
+      const next = createWatchSnapshot(makeEntry({
+        fields: [field('id', 'STRING', 'REQUIRED'), field('currency', 'STRING')],
+      }));
+
+      expect(diffWatchSnapshots(previous, next)).toEqual([
+        { kind: 'schemaFieldChanged', subject: 'id', from: 'INT64, REQUIRED', to: 'STRING, REQUIRED' },
+        { kind: 'schemaFieldAdded', subject: 'currency', to: 'STRING, NULLABLE' },
+        { kind: 'schemaFieldRemoved', subject: 'amount', from: 'NUMERIC, NULLABLE' },
+      ]);
+    });
+
+    it('does not report columns when the schema could not be read', () => {
+      const previous = createWatchSnapshot(makeEntry());
+      const next = { ...createWatchSnapshot(makeEntry()), schema: null };
+
+      expect(diffWatchSnapshots(previous, next)).toEqual([]);
+    });
+
+    it('reports added, removed and updated aspects', () => {
+      const previous = createWatchSnapshot(makeEntry({ aspects: { 'p.global.overview': { data: { content: 'a' } } } }));
+      const next = createWatchSnapshot(makeEntry({
+        aspects: {
+          '655216118709.global.contacts': { data: { identities: [{ name: 'Bob' }] } },
+          'p.global.usage': { data: {} },
+        },
+      }));
+
+      expect(diffWatchSnapshots(previous, next)).toEqual([
+        { kind: 'aspectChanged', subject: '655216118709.global.contacts' },
+        { kind: 'aspectAdded', subject: 'p.global.usage' },
+        { kind: 'aspectRemoved', subject: 'p.global.overview' },
+      ]);
+    });
+
+    it('reports a new data quality score but not a missing one', () => {
+      const entry = makeEntry();
+
+      expect(diffWatchSnapshots(createWatchSnapshot(entry, 95), createWatchSnapshot(entry, 80))).toEqual([
+        { kind: 'dqScoreChanged', from: 95, to: 80 },
+      ]);
+      expect(diffWatchSnapshots(createWatchSnapshot(entry, 95), createWatchSnapshot(entry, null))).toEqual([]);
+    });
+  });
+
+  it('describes changes for the inbox', () => {
+    expect(describeWatchChange({ kind: 'schemaFieldAdded', subject: 'currency', to: 'STRING, NULLABLE' }))
+      .toBe('Column currency added (STRING, NULLABLE)');
+    expect(describeWatchChange({ kind: 'aspectChanged', subject: '655216118709.global.contacts' }))
+      .toBe('Aspect contacts updated');
+    expect(describeWatchChange({ kind: 'dqScoreChanged', from: null, to: 80 })).toBe('Data quality score is now 80%');
+    expect(describeWatchChange({ kind: 'dqScoreChanged', from: 95, to: 80 }))
+      .toBe('Data quality score changed from 95% to 80%');
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * @file watchlistDiff.ts
+ * @description
+ * Change detection for favorited entries. A snapshot records what the user
+ * depends on: the schema fields (read from the same aspect as the `Schema`
+ * component), a fingerprint of every other aspect, the entry's `updateTime`
+ * and the latest data quality score. Diffing two snapshots of the same entry
+ * yields the changes shown in the Navbar inbox.
+ *
+ * Everything here is pure so it can be tested against fixture entries.
+ */
+
+import { findAspectKey, getSchemaFields as getEntrySchemaFields, hasSchema, type EntryLike } from './entryModel';
+
+export interface WatchSchemaField {
+  name: string;
+  type: string;
+  mode: string;
+}
+
+export interface WatchSnapshot {
+  entryName: string;
+  displayName: string;
+  updateTime: string | null;
+  // null when the entry has no schema aspect
+  schema: WatchSchemaField[] | null;
+  // aspect key -> fingerprint of its data
+  aspects: Record<string, string>;
+  // 0-100, null when the entry has no data quality scan with results
+  dqScore: number | null;
+}
+
+export type WatchChangeKind =
+  | 'schemaFieldAdded'
+  | 'schemaFieldRemoved'
+  | 'schemaFieldChanged'
+  | 'aspectAdded'
+  | 'aspectRemoved'
+  | 'aspectChanged'
+  | 'dqScoreChanged';
+
+export interface WatchChange {
+  kind: WatchChangeKind;
+  // schema field name or aspect key
+  subject?: string;
+  from?: string | number | null;
+  to?: string | number | null;
+}
+
+/** An entry as `getEntry` or `lookupEntry` returns it. */
+export interface WatchedEntry extends EntryLike {
+  name: string;
+  // ISO string, or `{ seconds, nanos }` from the backend
+  updateTime?: unknown;
+}
+
+// Schema fields as the Schema component reads them.
+export const getSchemaFields = (entry: EntryLike | null | undefined): WatchSchemaField[] | null => {
+  if (!hasSchema(entry)) return null;
+  return getEntrySchemaFields(entry).map(({ name, dataType, mode }) => ({ name, type: dataType, mode }));
+};
+
+// JSON with sorted object keys, so equal data always gives the same string.
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record).sort().map((key) => `${JSON.stringify(key)}:${stableStringify(record[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+// Short, stable fingerprint (FNV-1a) so snapshots stay small.
+export const fingerprint = (value: unknown): string => {
+  const text = stableStringify(value);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/** Fingerprints every aspect except the schema, which is diffed field by field. */
+export const getAspectFingerprints = (entry: EntryLike | null | undefined): Record<string, string> => {
+  const schemaKey = findAspectKey(entry, 'schema');
+  const aspects = entry?.aspects ?? {};
+  const fingerprints: Record<string, string> = {};
+  Object.keys(aspects).sort().forEach((key) => {
+    if (key === schemaKey) return;
+    fingerprints[key] = fingerprint(aspects[key]?.data ?? null);
+  });
+  return fingerprints;
+};
+
+const hasDataQualityScore = (job: unknown): job is { dataQualityResult: { score: number } } =>
+  typeof (job as { dataQualityResult?: { score?: unknown } } | null)?.dataQualityResult?.score === 'number';
+
+/**
+ * Score of the most recent job that produced a data quality result, from
+ * the scan data kept in `dataScanSlice` (`{ scan, jobs }`, newest job first).
+ */
+export const getDataQualityScore = (scanData: { jobs?: unknown[] } | null | undefined): number | null => {
+  const job = (scanData?.jobs ?? []).find(hasDataQualityScore);
+  return job ? Math.round(job.dataQualityResult.score * 100) / 100 : null;
+};
+
+const toIsoTime = (value: unknown): string | null => {
+  if (!value) return null;
+  if (typeof value === 'string') return value;
+  if (typeof value === 'object' && 'seconds' in value && value.seconds !== undefined) {
+    return new Date(Number(value.seconds) * 1000).toISOString();
+  }
+  return null;
+};
+
+export const createWatchSnapshot = (entry: WatchedEntry, dqScore: number | null = null): WatchSnapshot => ({
+  entryName: entry.name,
+  displayName: entry.entrySource?.displayName || entry.name.split('/').pop() || entry.name,
+  updateTime: toIsoTime(entry.updateTime),
+  schema: getSchemaFields(entry),
+  aspects: getAspectFingerprints(entry),
+  dqScore,
+});
+
+const describeField = (field: WatchSchemaField) => [field.type, field.mode].filter(Boolean).join(', ');
+
+const diffSchema = (previous: WatchSchemaField[] | null, next: WatchSchemaField[] | null): WatchChange[] => {
+  // A schema that could not be read is not reported as every field removed.
+  if (!previous || !next) return [];
+  const before = new Map(previous.map((field) => [field.name, field]));
+  const after = new Map(next.map((field) => [field.name, field]));
+  const changes: WatchChange[] = [];
+  after.forEach((field, name) => {
+    const old = before.get(name);
+    if (!old) {
+      changes.push({ kind: 'schemaFieldAdded', subject: name, to: describeField(field) });
+    } else if (old.type !== field.type || old.mode !== field.mode) {
+      changes.push({ kind: 'schemaFieldChanged', subject: name, from: describeField(old), to: describeField(field) });
+    }
+  });
+  before.forEach((field, name) => {
+    if (!after.has(name)) changes.push({ kind: 'schemaFieldRemoved', subject: name, from: describeField(field) });
+  });
+  return changes;
+};
+
+const diffAspects = (previous: Record<string, string>, next: Record<string, string>): WatchChange[] => {
+  const changes: WatchChange[] = [];
+  Object.keys(next).forEach((key) => {
+    if (!(key in previous)) changes.push({ kind: 'aspectAdded', subject: key });
+    else if (previous[key] !== next[key]) changes.push({ kind: 'aspectChanged', subject: key });
+  });
+  Object.keys(previous).forEach((key) => {
+    if (!(key in next)) changes.push({ kind: 'aspectRemoved', subject: key });
+  });
+  return changes;
+};
+
+/** Changes between two snapshots of the same entry, schema first. */
+export const diffWatchSnapshots = (previous: WatchSnapshot, next: WatchSnapshot): WatchChange[] => {
+  const changes = [
+    ...diffSchema(previous.schema, next.schema),
+    ...diffAspects(previous.aspects ?? {}, next.aspects ?? {}),
+  ];
+  if (previous.dqScore !== next.dqScore && next.dqScore !== null) {
+    changes.push({ kind: 'dqScoreChanged', from: previous.dqScore, to: next.dqScore });
+  }
+  return changes;
+};
+
+// "projects/p/locations/l/aspectTypes/contacts" or "123.global.contacts" -> "contacts"
+const aspectLabel = (key: string = '') => key.split(/[./]/).pop() || key;
+
+export const describeWatchChange = (change: WatchChange): string => {
+  switch (change.kind) {
+    case 'schemaFieldAdded':
+      return `Column ${change.subject} added (${change.to})`;
+    case 'schemaFieldRemoved':
+      return `Column ${change.subject} removed`;
+    case 'schemaFieldChanged':
+      return `Column ${change.subject} changed from ${change.from} to ${change.to}`;
+    case 'aspectAdded':
+      return `Aspect ${aspectLabel(change.subject)} added`;
+    case 'aspectRemoved':
+      return `Aspect ${aspectLabel(change.subject)} removed`;
+    case 'aspectChanged':
+      return `Aspect ${aspectLabel(change.subject)} updated`;
+    case 'dqScoreChanged':
+      return change.from === null || change.from === undefined
+        ? `Data quality score is now ${change.to}%`
+        : `Data quality score changed from ${change.from}% to ${change.to}%`;
+    default:
+      return 'Changed';
+  }
+};
@@ -7,7 +7,8 @@ interface ImportMetaEnv {
   readonly VITE_GOOGLE_PROJECT_ID: string;
   readonly VITE_GOOGLE_CLIENT_ID: string;
   readonly VITE_GOOGLE_REDIRECT_URI: string;
-  readonly VITE_FEATURE_DARK_MODE: string;
+  readonly VITE_USE_MOCK_BACKEND?: string;
+  readonly VITE_MOCK_BACKEND_DELAY_MS?: string;
 }
 
 interface ImportMeta {